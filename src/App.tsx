@@ -56,8 +56,11 @@ import { XIDDrillQuiz } from "./components/XIDDrillQuiz";
 import { useSimulationStore } from "./store/simulationStore";
 import { useLearningProgressStore } from "./store/learningProgressStore";
 import { useMetricsSimulation } from "./hooks/useMetricsSimulation";
+import { useSimulationClock } from "./hooks/useSimulationClock";
 import { useIncidentSession } from "./hooks/useIncidentSession";
 import { initializeScenario } from "./utils/scenarioLoader";
+import { readSharedCluster } from "./utils/clusterShare";
+import { logger } from "./utils/logger";
 import { AppHeader, type View } from "./components/AppHeader";
 import { SpotlightTour } from "./components/SpotlightTour";
 import { TOUR_STEPS, type TourId } from "./data/tourSteps";
@@ -117,6 +120,7 @@ function App() {
 
   const {
     cluster,
+    setCluster,
     isRunning,
     startSimulation,
     stopSimulation,
@@ -153,6 +157,9 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps -- intentionally track by ID, not object reference
   }, [activeScenario?.id]);
 
+  // Run simulated time at the selected speed
+  useSimulationClock();
+
   // Activate metrics simulation when running
   useMetricsSimulation(isRunning);
 
@@ -164,13 +171,33 @@ function App() {
     workflowPhases,
     reviewData,
     rootCauseOptions,
+    rootCauses,
     diagnosticPath,
     startIncident,
     submitDiagnosis,
     abandonIncident,
     requestHint,
+    recordCommand: recordIncidentCommand,
+    remediations,
+    resolved: incidentResolved,
+    requestFieldService,
   } = incidentSession;
-  // incidentSession.recordCommand is available for Terminal integration (Task 15)
+
+  // Load a cluster shared from the Cluster Builder (#cluster=...) once
+  useEffect(() => {
+    const shared = readSharedCluster(window.location.hash);
+    if (!shared) return;
+    if (shared.valid && shared.data) {
+      setCluster(shared.data);
+    } else {
+      logger.error("Failed to load shared cluster:", shared.errors.join("; "));
+    }
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search,
+    );
+  }, [setCluster]);
 
   // One-time cleanup of deprecated learning path localStorage keys
   useEffect(() => {
@@ -360,7 +387,12 @@ function App() {
             className={`flex-1 h-0 flex flex-col overflow-hidden transition-all duration-300 ${(showLabWorkspace && !activeScenario) || incidentState === "active" ? "xl:ml-[clamp(340px,30vw,560px)]" : ""}`}
           >
             {currentView === "simulator" && (
-              <SimulatorView className="flex-1 h-full" />
+              <SimulatorView
+                className="flex-1 h-full"
+                onCommand={
+                  incidentState === "active" ? recordIncidentCommand : undefined
+                }
+              />
             )}
 
             <Suspense fallback={<ViewFallback />}>
@@ -479,10 +511,18 @@ function App() {
             situation={incidentSituation}
             phaseHistory={workflowPhases}
             rootCauseOptions={rootCauseOptions}
+            rootCauses={rootCauses}
             diagnosticPath={diagnosticPath}
             onSubmitDiagnosis={submitDiagnosis}
             onRequestHint={requestHint}
             onClose={abandonIncident}
+            nodes={cluster.nodes.map((node) => ({
+              id: node.id,
+              gpuIds: node.gpus.map((gpu) => gpu.id),
+            }))}
+            remediations={remediations}
+            resolved={incidentResolved}
+            onFieldService={requestFieldService}
           />
         </Suspense>
       )}
@@ -495,9 +535,13 @@ function App() {
             correctDiagnosis={reviewData.correctDiagnosis}
             selectedRootCause={reviewData.selectedRootCause}
             correctRootCause={reviewData.correctRootCause}
+            rootCauses={reviewData.rootCauses}
             events={reviewData.events}
             commands={reviewData.commands}
+            evidence={reviewData.evidence}
+            remediation={reviewData.remediation}
             tip={reviewData.tip}
+            rma={reviewData.rma}
             onReviewOptimalPath={() => {
               /* TODO: launch as guided scenario */
             }}
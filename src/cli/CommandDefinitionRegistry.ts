@@ -274,9 +274,14 @@ export class CommandDefinitionRegistry {
    * Build a flag schema for the parser.
    * Maps flag names (without dashes) to whether they take a value.
    * true = takes a value, false = boolean flag.
+   * With a known subcommand, only its options and the global ones count,
+   * for commands whose subcommands give the same flag different meanings.
    * Returns undefined if command not found.
    */
-  getFlagSchema(command: string): Map<string, boolean> | undefined {
+  getFlagSchema(
+    command: string,
+    subcommand?: string,
+  ): Map<string, boolean> | undefined {
     const def = this.getDefinitionSync(command);
     if (!def) return undefined;
 
@@ -303,7 +308,8 @@ export class CommandDefinitionRegistry {
     }
 
     if (def.subcommands) {
-      for (const sub of def.subcommands) {
+      const selected = def.subcommands.filter((sub) => sub.name === subcommand);
+      for (const sub of selected.length > 0 ? selected : def.subcommands) {
         if (sub.options) {
           processOptions(sub.options);
         }
@@ -2,16 +2,35 @@
  * AfterActionReview - Post-incident debrief panel.
  *
  * Displays after an incident session completes:
- * - Diagnosis result banner (correct/incorrect)
+ * - Diagnosis result banner (correct/incorrect), with the RMA decision for
+ *   GPU memory failures and each root cause of a compound incident scored on
+ *   its own
  * - Total score with color-coded indicator
  * - 5 score dimension bars (methodology, efficiency, accuracy, noCollateral, completeness)
+ * - Evidence the user's commands surfaced, the evidence they missed and the
+ *   investigative commands that showed nothing about the fault
+ * - Whether the incident was resolved: the fixes applied and the faults
+ *   they left in place
  * - Dual-column timeline comparing cluster events and user commands
  * - Actionable improvement tip callout
  * - Action buttons: Review Optimal Path, Try Similar, Exit
  */
 
-import type { WorkflowScore, PhaseEntry } from "@/simulation/workflowTracker";
+import type {
+  WorkflowScore,
+  PhaseEntry,
+  EvidenceReport,
+} from "@/simulation/workflowTracker";
 import type { ClusterEvent } from "@/simulation/eventLog";
+import type { MemoryRmaDecision } from "@/utils/gpuMemoryHealth";
+import type {
+  RemediationReport,
+  RootCauseResult,
+} from "@/hooks/useIncidentSession";
+import {
+  describeFault,
+  describeRemediation,
+} from "@/simulation/remediationEngine";
 
 interface AfterActionReviewProps {
   /** Composite workflow score with 5 sub-dimensions */
@@ -22,12 +41,20 @@ interface AfterActionReviewProps {
   selectedRootCause: string;
   /** The actual correct root cause */
   correctRootCause: string;
+  /** Every root cause of a compound incident, with the user's answer */
+  rootCauses?: RootCauseResult[];
   /** Cluster events timeline */
   events: ClusterEvent[];
   /** User command history with phase classifications */
   commands: PhaseEntry[];
+  /** Which of the faults' evidence the user's commands surfaced */
+  evidence?: EvidenceReport;
+  /** The fixes applied and whether they resolved the incident */
+  remediation?: RemediationReport;
   /** Actionable improvement tip */
   tip: string;
+  /** For GPU memory failures, whether the faulted GPU goes back for RMA */
+  rma?: MemoryRmaDecision;
   /** Called when user clicks Review Optimal Path */
   onReviewOptimalPath: () => void;
   /** Called when user clicks Try Similar */
@@ -59,6 +86,18 @@ const MAX_SUBSCORE = 20;
 // Helpers
 // ---------------------------------------------------------------------------
 
+function getDiagnosisTitle(
+  correctDiagnosis: boolean,
+  rootCauses: RootCauseResult[],
+): string {
+  if (correctDiagnosis) return "Correct Diagnosis";
+  const found = rootCauses.filter((r) => r.isCorrect).length;
+  if (rootCauses.length > 1 && found > 0) {
+    return `Partially Correct Diagnosis (${found} of ${rootCauses.length} root causes)`;
+  }
+  return "Incorrect Diagnosis";
+}
+
 function getTotalScoreColor(total: number): string {
   if (total > 70) return "text-green-400";
   if (total >= 40) return "text-yellow-400";
@@ -132,14 +171,19 @@ export function AfterActionReview({
   correctDiagnosis,
   selectedRootCause,
   correctRootCause,
+  rootCauses = [],
   events,
   commands,
+  evidence,
+  remediation,
   tip,
+  rma,
   onReviewOptimalPath,
   onRestart,
   onClose,
 }: AfterActionReviewProps) {
   const timeline = buildTimeline(events, commands);
+  const compound = rootCauses.length > 1;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
@@ -166,17 +210,59 @@ export function AfterActionReview({
                 correctDiagnosis ? "text-green-400" : "text-red-400"
               }`}
             >
-              {correctDiagnosis ? "Correct Diagnosis" : "Incorrect Diagnosis"}
+              {getDiagnosisTitle(correctDiagnosis, rootCauses)}
             </h3>
             <div className="mt-2 space-y-1 text-sm">
-              <p className="text-gray-300">
-                <span className="text-gray-400">Your answer: </span>
-                {selectedRootCause}
-              </p>
-              {!correctDiagnosis && (
-                <p className="text-gray-300">
-                  <span className="text-gray-400">Correct answer: </span>
-                  {correctRootCause}
+              {compound ? (
+                <ol className="space-y-2">
+                  {rootCauses.map((result, idx) => (
+                    <li
+                      key={idx}
+                      data-testid="root-cause-result"
+                      data-correct={String(result.isCorrect)}
+                      className="text-gray-300"
+                    >
+                      <p
+                        className={
+                          result.isCorrect ? "text-green-400" : "text-red-400"
+                        }
+                      >
+                        {result.isCorrect ? "\u2713" : "\u2717"} {result.prompt}
+                      </p>
+                      <p>
+                        <span className="text-gray-400">Your answer: </span>
+                        {result.selected}
+                      </p>
+                      {!result.isCorrect && (
+                        <p>
+                          <span className="text-gray-400">
+                            Correct answer:{" "}
+                          </span>
+                          {result.correct}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <>
+                  <p className="text-gray-300">
+                    <span className="text-gray-400">Your answer: </span>
+                    {selectedRootCause}
+                  </p>
+                  {!correctDiagnosis && (
+                    <p className="text-gray-300">
+                      <span className="text-gray-400">Correct answer: </span>
+                      {correctRootCause}
+                    </p>
+                  )}
+                </>
+              )}
+              {rma && (
+                <p data-testid="rma-decision" className="text-gray-300">
+                  <span className="text-gray-400">RMA decision: </span>
+                  {rma.rma ? "Replace the GPU" : "Keep the GPU in service"} (
+                  {rma.reason})
                 </p>
               )}
             </div>
@@ -225,6 +311,142 @@ export function AfterActionReview({
             </div>
           </section>
 
+          {/* Evidence */}
+          {evidence && (
+            <section className="rounded bg-gray-900 p-4">
+              <h3 className="mb-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
+                Evidence
+              </h3>
+              <div className="space-y-3 text-sm">
+                <div>
+                  <p className="mb-1 text-gray-400">
+                    Found ({evidence.found.length})
+                  </p>
+                  {evidence.found.length === 0 ? (
+                    <p className="text-gray-500">
+                      None of your commands showed the fault
+                    </p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {evidence.found.map((finding) => (
+                        <li
+                          key={finding.evidence.id}
+                          data-testid="evidence-found"
+                          className="text-gray-200"
+                        >
+                          <span className="text-green-400">{"\u2713"}</span>{" "}
+                          {finding.evidence.label}
+                          <span className="ml-2 font-mono text-xs text-gray-500">
+                            {finding.nodeId}$ {finding.command}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                {evidence.missed.length > 0 && (
+                  <div>
+                    <p className="mb-1 text-gray-400">
+                      Missed ({evidence.missed.length})
+                    </p>
+                    <ul className="space-y-1">
+                      {evidence.missed.map((item) => (
+                        <li
+                          key={item.id}
+                          data-testid="evidence-missed"
+                          className="text-gray-300"
+                        >
+                          <span className="text-red-400">{"\u2717"}</span>{" "}
+                          {item.label}
+                          <span className="ml-2 text-xs text-gray-500">
+                            ({item.tools.join(", ")} on {item.nodeId})
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {evidence.irrelevant.length > 0 && (
+                  <div>
+                    <p className="mb-1 text-gray-400">
+                      Commands that showed nothing about the fault (
+                      {evidence.irrelevant.length})
+                    </p>
+                    <ul className="space-y-1">
+                      {evidence.irrelevant.map((cmd, idx) => (
+                        <li
+                          key={idx}
+                          data-testid="evidence-irrelevant"
+                          className="font-mono text-xs text-gray-400"
+                        >
+                          {cmd.nodeId && `${cmd.nodeId}$ `}
+                          {cmd.command}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </section>
+          )}
+
+          {/* Resolution */}
+          {remediation && (
+            <section className="rounded bg-gray-900 p-4">
+              <h3 className="mb-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
+                Resolution
+              </h3>
+              <div className="space-y-3 text-sm">
+                <p
+                  data-testid="resolution-status"
+                  className={
+                    remediation.resolved ? "text-green-400" : "text-yellow-400"
+                  }
+                >
+                  {remediation.resolved
+                    ? "Resolved: every fault was cleared"
+                    : "Diagnosed but not resolved"}
+                </p>
+                {remediation.results.length > 0 && (
+                  <ul className="space-y-1">
+                    {remediation.results.map((result, idx) => (
+                      <li
+                        key={idx}
+                        data-testid="remediation-result"
+                        className="text-gray-300"
+                      >
+                        {result.outcome === "blocked" ? (
+                          <span className="text-red-400">{"\u2717"}</span>
+                        ) : (
+                          <span className="text-green-400">{"\u2713"}</span>
+                        )}{" "}
+                        {describeRemediation(result)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {remediation.remaining.length > 0 && (
+                  <div>
+                    <p className="mb-1 text-gray-400">
+                      Still in place ({remediation.remaining.length})
+                    </p>
+                    <ul className="space-y-1">
+                      {remediation.remaining.map((fault, idx) => (
+                        <li
+                          key={idx}
+                          data-testid="remediation-remaining"
+                          className="text-gray-300"
+                        >
+                          {describeFault(fault)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </section>
+          )}
+
           {/* Timeline Comparison */}
           <section className="rounded bg-gray-900 p-4">
             <h3 className="mb-3 text-xs font-semibold uppercase tracking-wider text-gray-400">
@@ -2,166 +2,321 @@
  * Drag-and-Drop Cluster Builder
  *
  * Interactive visual tool for building and configuring DGX cluster topologies.
- * Allows users to drag nodes, connect them via InfiniBand, and configure settings.
+ * Edits a real ClusterConfig: nodes by system type and HCA count, the
+ * InfiniBand fabric and its switch counts, Slurm partitions and the BCM HA
+ * head nodes. Saving validates the cluster and hands it to onSave, which the
+ * dashboard uses to load it into the simulator. The same cluster can be
+ * exported as a JSON file, shared as a link, or exported as the
+ * configuration files (slurm.conf, topology.conf, /etc/hosts, ...) a real
+ * deployment of it would need.
  */
 
 import React, { useState, useCallback, useMemo, useRef } from 'react';
-import type { DGXNode } from '@/types/hardware';
-import { Server, Plus, Trash2, Link, Save, RotateCcw, Move, Cpu, Network } from 'lucide-react';
+import type { ClusterConfig, FabricSwitchCounts } from '@/types/hardware';
+import {
+  ALL_SYSTEM_TYPES,
+  getHardwareSpecs,
+  getSystemDisplayName,
+  type SystemType,
+} from '@/data/hardwareSpecs';
+import {
+  createClusterFromSpec,
+  getClusterSpec,
+  type ClusterSpec,
+  type NodeGroup,
+} from '@/utils/clusterFactory';
+import {
+  defaultSwitchCounts,
+  getEndPort,
+  getFabric,
+  switchCountErrors,
+} from '@/utils/infinibandFabric';
+import {
+  safeParseClusterJSON,
+  validateClusterConfig,
+  validateClusterSpec,
+} from '@/utils/clusterSchema';
+import { buildClusterFromSpec, getClusterShareUrl } from '@/utils/clusterShare';
+import { derivePartitions } from '@/simulation/slurmPartitions';
+import { exportClusterConfigFiles } from '@/simulation/clusterConfigFiles';
+import { createTarArchive } from '@/utils/tarArchive';
+import {
+  Server,
+  Plus,
+  Trash2,
+  Link,
+  Save,
+  RotateCcw,
+  Move,
+  Cpu,
+  Network,
+  Download,
+  Upload,
+  FileArchive,
+} from 'lucide-react';
+
+// File name for a download of the cluster, e.g. `team-lab.json`
+function downloadName(clusterName: string, suffix: string): string {
+  const slug = clusterName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'cluster'}${suffix}`;
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
 interface ClusterBuilderProps {
-  initialNodes?: DGXNode[];
-  onSave?: (config: ClusterConfig) => void;
+  /** Cluster to start from and return to on Reset; empty when absent */
+  initialCluster?: ClusterConfig;
+  onSave?: (cluster: ClusterConfig) => void;
   className?: string;
 }
 
+interface BuilderNode {
+  key: number;
+  systemType: SystemType;
+  hcaCount: number;
+}
+
 interface NodePosition {
-  id: string;
+  key: number;
   x: number;
   y: number;
 }
 
-interface Connection {
-  id: string;
-  from: string;
-  to: string;
-  type: 'infiniband' | 'ethernet';
-  bandwidth: number;
-}
-
-interface ClusterConfig {
-  nodes: NodeTemplate[];
-  connections: Connection[];
-  layout: NodePosition[];
+interface Preview {
+  cluster?: ClusterConfig;
+  /** Switch counts the fabric gets when none are set */
+  defaults?: FabricSwitchCounts;
+  errors: string[];
 }
 
-interface NodeTemplate {
-  id: string;
-  type: 'DGX-A100' | 'DGX-H100' | 'DGX-B200';
-  hostname: string;
-  gpuCount: number;
-  hcaCount: number;
-}
+const NODE_COLORS: Record<SystemType, string> = {
+  'DGX-A100': '#76B900',
+  'DGX-H100': '#0066CC',
+  'DGX-H200': '#0891B2',
+  'DGX-B200': '#9333EA',
+  'DGX-GB200': '#C026D3',
+  'DGX-VR200': '#EA580C',
+};
 
-const NODE_TEMPLATES: { type: NodeTemplate['type']; label: string; gpuCount: number; hcaCount: number; color: string }[] = [
-  { type: 'DGX-A100', label: 'DGX A100', gpuCount: 8, hcaCount: 8, color: '#76B900' },
-  { type: 'DGX-H100', label: 'DGX H100', gpuCount: 8, hcaCount: 8, color: '#0066CC' },
-  { type: 'DGX-B200', label: 'DGX B200', gpuCount: 8, hcaCount: 8, color: '#9333EA' },
+const TOPOLOGIES: { value: ClusterConfig['fabricTopology']; label: string }[] = [
+  { value: 'RailOptimized', label: 'Rail-optimized' },
+  { value: 'FatTree', label: 'Fat-tree' },
+  { value: 'DragonFly', label: 'DragonFly' },
 ];
 
+const EMPTY_SPEC: ClusterSpec = {
+  name: 'Lab Cluster',
+  groups: [],
+  fabricTopology: 'RailOptimized',
+  partitions: ['batch', 'interactive', 'gpu'],
+  bcmHA: { enabled: true, primary: 'mgmt-node0', secondary: 'mgmt-node1' },
+};
+
 const CANVAS_WIDTH = 800;
 const CANVAS_HEIGHT = 500;
 const NODE_WIDTH = 140;
 const NODE_HEIGHT = 80;
 
+function nodeId(index: number): string {
+  return `dgx-${String(index).padStart(2, '0')}`;
+}
+
+function gridPosition(key: number, index: number): NodePosition {
+  return {
+    key,
+    x: 100 + (index % 4) * 180,
+    y: 100 + Math.floor(index / 4) * 120,
+  };
+}
+
+/** Consecutive nodes with the same system type and HCA count */
+function toGroups(nodes: BuilderNode[]): NodeGroup[] {
+  const groups: NodeGroup[] = [];
+  for (const node of nodes) {
+    const last = groups[groups.length - 1];
+    if (last?.systemType === node.systemType && last.hcaCount === node.hcaCount) {
+      last.count++;
+    } else {
+      groups.push({ systemType: node.systemType, count: 1, hcaCount: node.hcaCount });
+    }
+  }
+  return groups;
+}
+
+function parsePartitions(text: string): string[] {
+  return text
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build the cluster the spec describes and collect what is wrong with it.
+ * Custom switch counts are checked against the nodes before the fabric is
+ * cabled with them; until they fit, the preview keeps the default fabric.
+ */
+function buildPreview(spec: ClusterSpec): Preview {
+  const specCheck = validateClusterSpec(spec);
+  if (!specCheck.valid) return { errors: specCheck.errors };
+
+  const sized = createClusterFromSpec({ ...spec, fabricSwitches: undefined });
+  const defaults = defaultSwitchCounts(sized.nodes, spec.fabricTopology);
+  if (spec.fabricSwitches) {
+    const errors = switchCountErrors(sized.nodes, spec.fabricTopology, spec.fabricSwitches);
+    if (errors.length > 0) {
+      return {
+        cluster: sized,
+        defaults,
+        errors: errors.map((error) => `fabricSwitches: ${error}`),
+      };
+    }
+  }
+
+  const cluster = spec.fabricSwitches ? createClusterFromSpec(spec) : sized;
+  return { cluster, defaults, errors: validateClusterConfig(cluster).errors };
+}
+
 export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
-  initialNodes = [],
+  initialCluster,
   onSave,
   className = '',
 }) => {
-  const [nodes, setNodes] = useState<NodeTemplate[]>(() =>
-    initialNodes.map((n) => ({
-      id: n.id,
-      type: (n.systemType as NodeTemplate['type']) || 'DGX-A100',
-      hostname: n.hostname,
-      gpuCount: n.gpus.length,
-      hcaCount: n.hcas.length,
-    }))
+  const initialSpec = useMemo(
+    () => (initialCluster ? getClusterSpec(initialCluster) : EMPTY_SPEC),
+    [initialCluster]
   );
-
+  const nextKey = useRef(0);
+
+  const expandGroups = useCallback((groups: NodeGroup[]): BuilderNode[] =>
+    groups.flatMap((g) =>
+      Array.from({ length: g.count }, () => ({
+        key: nextKey.current++,
+        systemType: g.systemType,
+        hcaCount: g.hcaCount ?? getHardwareSpecs(g.systemType).network.hcaCount,
+      }))
+    ), []);
+
+  const [name, setName] = useState(initialSpec.name);
+  const [nodes, setNodes] = useState<BuilderNode[]>(() => expandGroups(initialSpec.groups));
   const [positions, setPositions] = useState<NodePosition[]>(() =>
-    initialNodes.map((n, i) => ({
-      id: n.id,
-      x: 100 + (i % 4) * 180,
-      y: 100 + Math.floor(i / 4) * 120,
-    }))
+    nodes.map((n, i) => gridPosition(n.key, i))
   );
-
-  const [connections, setConnections] = useState<Connection[]>([]);
-  const [selectedNode, setSelectedNode] = useState<string | null>(null);
-  const [connectingFrom, setConnectingFrom] = useState<string | null>(null);
-  const [draggedNode, setDraggedNode] = useState<string | null>(null);
+  const [fabricTopology, setFabricTopology] = useState(initialSpec.fabricTopology);
+  const [fabricSwitches, setFabricSwitches] = useState(initialSpec.fabricSwitches);
+  const [partitionsText, setPartitionsText] = useState(initialSpec.partitions.join(', '));
+  const [bcmHA, setBcmHA] = useState(initialSpec.bcmHA);
+
+  const [addCount, setAddCount] = useState(1);
+  const [selectedNode, setSelectedNode] = useState<number | null>(null);
+  const [draggedNode, setDraggedNode] = useState<number | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [status, setStatus] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
 
   const canvasRef = useRef<HTMLDivElement>(null);
-
-  // Add a new node
-  const addNode = useCallback((type: NodeTemplate['type']) => {
-    const nodeId = `dgx-${String(nodes.length).padStart(2, '0')}`;
-    const newNode: NodeTemplate = {
-      id: nodeId,
-      type,
-      hostname: `${nodeId}.local`,
-      gpuCount: 8,
-      hcaCount: 8,
-    };
-
-    // Find an empty spot
-    const existingPositions = new Set(positions.map(p => `${p.x},${p.y}`));
-    let x = 100, y = 100;
-    while (existingPositions.has(`${x},${y}`)) {
-      x += 180;
-      if (x > CANVAS_WIDTH - NODE_WIDTH) {
-        x = 100;
-        y += 120;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const spec = useMemo<ClusterSpec>(() => ({
+    name,
+    groups: toGroups(nodes),
+    fabricTopology,
+    ...(fabricSwitches && { fabricSwitches }),
+    partitions: parsePartitions(partitionsText),
+    bcmHA,
+  }), [name, nodes, fabricTopology, fabricSwitches, partitionsText, bcmHA]);
+
+  const preview = useMemo(
+    () => (nodes.length > 0 ? buildPreview(spec) : { errors: [] }),
+    [spec, nodes.length]
+  );
+  const isValid = preview.cluster !== undefined && preview.errors.length === 0;
+
+  // Replace everything being edited with a spec
+  const loadSpec = useCallback((next: ClusterSpec) => {
+    const loaded = expandGroups(next.groups);
+    setName(next.name);
+    setNodes(loaded);
+    setPositions(loaded.map((n, i) => gridPosition(n.key, i)));
+    setFabricTopology(next.fabricTopology);
+    setFabricSwitches(next.fabricSwitches);
+    setPartitionsText(next.partitions.join(', '));
+    setBcmHA(next.bcmHA);
+    setSelectedNode(null);
+    setShareUrl(null);
+  }, [expandGroups]);
+
+  // Add nodes of one system type
+  const addNodes = useCallback((systemType: SystemType) => {
+    const added: BuilderNode[] = Array.from({ length: addCount }, () => ({
+      key: nextKey.current++,
+      systemType,
+      hcaCount: getHardwareSpecs(systemType).network.hcaCount,
+    }));
+
+    // Find an empty spot for each
+    const taken = new Set(positions.map(p => `${p.x},${p.y}`));
+    const placed = added.map((node) => {
+      let x = 100, y = 100;
+      while (taken.has(`${x},${y}`)) {
+        x += 180;
+        if (x > CANVAS_WIDTH - NODE_WIDTH) {
+          x = 100;
+          y += 120;
+        }
       }
-    }
+      taken.add(`${x},${y}`);
+      return { key: node.key, x, y };
+    });
 
-    setNodes([...nodes, newNode]);
-    setPositions([...positions, { id: nodeId, x, y }]);
-  }, [nodes, positions]);
+    setNodes([...nodes, ...added]);
+    setPositions([...positions, ...placed]);
+    setStatus(null);
+  }, [addCount, nodes, positions]);
 
   // Remove a node
-  const removeNode = useCallback((nodeId: string) => {
-    setNodes(nodes.filter(n => n.id !== nodeId));
-    setPositions(positions.filter(p => p.id !== nodeId));
-    setConnections(connections.filter(c => c.from !== nodeId && c.to !== nodeId));
-    if (selectedNode === nodeId) setSelectedNode(null);
-  }, [nodes, positions, connections, selectedNode]);
-
-  // Start connecting nodes
-  const startConnection = useCallback((nodeId: string) => {
-    if (connectingFrom === null) {
-      setConnectingFrom(nodeId);
-    } else if (connectingFrom !== nodeId) {
-      // Create connection
-      const connectionId = `conn-${connections.length}`;
-      const existingConn = connections.find(
-        c => (c.from === connectingFrom && c.to === nodeId) ||
-             (c.from === nodeId && c.to === connectingFrom)
-      );
-
-      if (!existingConn) {
-        setConnections([...connections, {
-          id: connectionId,
-          from: connectingFrom,
-          to: nodeId,
-          type: 'infiniband',
-          bandwidth: 400,
-        }]);
-      }
-      setConnectingFrom(null);
-    } else {
-      setConnectingFrom(null);
-    }
-  }, [connectingFrom, connections]);
-
-  // Remove a connection
-  const removeConnection = useCallback((connId: string) => {
-    setConnections(connections.filter(c => c.id !== connId));
-  }, [connections]);
+  const removeNode = useCallback((key: number) => {
+    setNodes(nodes.filter(n => n.key !== key));
+    setPositions(positions.filter(p => p.key !== key));
+    if (selectedNode === key) setSelectedNode(null);
+    setStatus(null);
+  }, [nodes, positions, selectedNode]);
+
+  // Change a node's hardware
+  const updateNode = useCallback((key: number, update: Partial<Omit<BuilderNode, 'key'>>) => {
+    setNodes(nodes.map(n => (n.key === key ? { ...n, ...update } : n)));
+    setStatus(null);
+  }, [nodes]);
+
+  // Add the per-GPU-model partitions a mixed cluster gets by default
+  const modelPartitions = useMemo(
+    () =>
+      preview.cluster
+        ? derivePartitions(preview.cluster.nodes)
+          .map((p) => p.name)
+          .filter((p) => !spec.partitions.includes(p))
+        : [],
+    [preview.cluster, spec.partitions]
+  );
 
   // Handle mouse down for dragging
-  const handleMouseDown = useCallback((e: React.MouseEvent, nodeId: string) => {
+  const handleMouseDown = useCallback((e: React.MouseEvent, key: number) => {
     if (e.button !== 0) return; // Only left click
 
-    const pos = positions.find(p => p.id === nodeId);
+    const pos = positions.find(p => p.key === key);
     if (!pos) return;
 
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return;
 
-    setDraggedNode(nodeId);
+    setDraggedNode(key);
     setDragOffset({
       x: e.clientX - rect.left - pos.x,
       y: e.clientY - rect.top - pos.y,
@@ -170,69 +325,111 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
     e.preventDefault();
   }, [positions]);
 
+  const canvasHeight = Math.max(
+    CANVAS_HEIGHT,
+    ...positions.map((p) => p.y + NODE_HEIGHT + 20)
+  );
+
   // Handle mouse move for dragging
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (!draggedNode) return;
+    if (draggedNode === null) return;
 
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return;
 
     const newX = Math.max(0, Math.min(CANVAS_WIDTH - NODE_WIDTH, e.clientX - rect.left - dragOffset.x));
-    const newY = Math.max(0, Math.min(CANVAS_HEIGHT - NODE_HEIGHT, e.clientY - rect.top - dragOffset.y));
+    const newY = Math.max(0, Math.min(canvasHeight - NODE_HEIGHT, e.clientY - rect.top - dragOffset.y));
 
     setPositions(positions.map(p =>
-      p.id === draggedNode ? { ...p, x: newX, y: newY } : p
+      p.key === draggedNode ? { ...p, x: newX, y: newY } : p
     ));
-  }, [draggedNode, dragOffset, positions]);
+  }, [draggedNode, dragOffset, positions, canvasHeight]);
 
   // Handle mouse up
   const handleMouseUp = useCallback(() => {
     setDraggedNode(null);
   }, []);
 
-  // Get node position by ID
-  const getNodePos = (nodeId: string) => positions.find(p => p.id === nodeId);
+  // Get node position by key
+  const getNodePos = (key: number) => positions.find(p => p.key === key);
 
-  // Save configuration
+  // Validate, build and hand over a fresh cluster
   const handleSave = useCallback(() => {
-    if (onSave) {
-      onSave({
-        nodes,
-        connections,
-        layout: positions,
-      });
-    }
-  }, [nodes, connections, positions, onSave]);
+    const result = buildClusterFromSpec(spec);
+    if (!result.valid || !result.data) return;
+    onSave?.(result.data);
+    setStatus(`Saved ${result.data.name} (${result.data.nodes.length} nodes)`);
+  }, [spec, onSave]);
+
+  // Download the cluster as JSON, the format importCluster reads
+  const handleExport = useCallback(() => {
+    if (!preview.cluster || !isValid) return;
+    const blob = new Blob([JSON.stringify(preview.cluster, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, downloadName(spec.name, '.json'));
+  }, [preview.cluster, isValid, spec.name]);
+
+  // Download slurm.conf, topology.conf, /etc/hosts and the rest as a tarball
+  const handleExportConfigs = useCallback(() => {
+    if (!preview.cluster || !isValid) return;
+    const archive = createTarArchive(exportClusterConfigFiles(preview.cluster));
+    const blob = new Blob([archive], { type: 'application/x-tar' });
+    downloadBlob(blob, downloadName(spec.name, '-configs.tar'));
+  }, [preview.cluster, isValid, spec.name]);
+
+  // Load a cluster JSON file into the builder
+  const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = safeParseClusterJSON(String(reader.result));
+      if (!result.valid || !result.data) {
+        setImportErrors(result.errors);
+        return;
+      }
+      setImportErrors([]);
+      loadSpec(getClusterSpec(result.data));
+      setStatus(`Imported ${result.data.name}`);
+    };
+    reader.readAsText(file);
+  }, [loadSpec]);
+
+  // Copy a link that loads this cluster when opened
+  const handleShare = useCallback(() => {
+    const url = getClusterShareUrl(spec, window.location.href);
+    setShareUrl(url);
+    navigator.clipboard?.writeText(url).catch(() => undefined);
+  }, [spec]);
 
   // Reset to initial state
   const handleReset = useCallback(() => {
-    setNodes(initialNodes.map((n) => ({
-      id: n.id,
-      type: (n.systemType as NodeTemplate['type']) || 'DGX-A100',
-      hostname: n.hostname,
-      gpuCount: n.gpus.length,
-      hcaCount: n.hcas.length,
-    })));
-    setPositions(initialNodes.map((n, i) => ({
-      id: n.id,
-      x: 100 + (i % 4) * 180,
-      y: 100 + Math.floor(i / 4) * 120,
-    })));
-    setConnections([]);
-    setSelectedNode(null);
-    setConnectingFrom(null);
-  }, [initialNodes]);
+    loadSpec(initialSpec);
+    setStatus(null);
+    setImportErrors([]);
+  }, [initialSpec, loadSpec]);
 
   // Calculate cluster stats
-  const stats = useMemo(() => ({
-    totalNodes: nodes.length,
-    totalGPUs: nodes.reduce((sum, n) => sum + n.gpuCount, 0),
-    totalHCAs: nodes.reduce((sum, n) => sum + n.hcaCount, 0),
-    totalConnections: connections.length,
-    aggregateBandwidth: connections.reduce((sum, c) => sum + c.bandwidth, 0),
-  }), [nodes, connections]);
+  const stats = useMemo(() => {
+    const fabric = preview.cluster ? getFabric(preview.cluster) : undefined;
+    const hostCables = fabric?.cables.filter(c => c.ends.some(end => end.kind === 'hca')) ?? [];
+    return {
+      totalNodes: nodes.length,
+      totalGPUs: nodes.reduce((sum, n) => sum + getHardwareSpecs(n.systemType).gpu.count, 0),
+      totalHCAs: nodes.reduce((sum, n) => sum + n.hcaCount, 0),
+      totalSwitches: fabric?.switches.length ?? 0,
+      totalConnections: fabric?.cables.length ?? 0,
+      aggregateBandwidth: hostCables.reduce(
+        (sum, c) => sum + (getEndPort(preview.cluster!, fabric!, c.ends[1])?.rate ?? 0),
+        0
+      ),
+    };
+  }, [nodes, preview.cluster]);
 
-  const selectedNodeData = nodes.find(n => n.id === selectedNode);
+  const switchCounts = fabricSwitches ?? preview.defaults ?? { leaves: 0, spines: 0 };
+  const selectedIndex = nodes.findIndex(n => n.key === selectedNode);
+  const selectedNodeData = selectedIndex === -1 ? undefined : nodes[selectedIndex];
 
   return (
     <div className={`bg-gray-800 rounded-lg p-4 border border-gray-700 ${className}`}>
@@ -252,10 +449,50 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
             <RotateCcw className="w-4 h-4" />
             Reset
           </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 text-sm"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Import cluster JSON"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <button
+            onClick={handleExport}
+            disabled={!isValid}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 text-sm disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <button
+            onClick={handleExportConfigs}
+            disabled={!isValid}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 text-sm disabled:opacity-50"
+          >
+            <FileArchive className="w-4 h-4" />
+            Export Configs
+          </button>
+          <button
+            onClick={handleShare}
+            disabled={!isValid}
+            className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 text-sm disabled:opacity-50"
+          >
+            <Link className="w-4 h-4" />
+            Share Link
+          </button>
           {onSave && (
             <button
               onClick={handleSave}
-              className="flex items-center gap-1 px-3 py-1.5 bg-nvidia-green text-black rounded-lg hover:bg-green-500 text-sm font-medium"
+              disabled={!isValid}
+              className="flex items-center gap-1 px-3 py-1.5 bg-nvidia-green text-black rounded-lg hover:bg-green-500 text-sm font-medium disabled:opacity-50"
             >
               <Save className="w-4 h-4" />
               Save
@@ -264,29 +501,166 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
         </div>
       </div>
 
+      {status && (
+        <div className="mb-4 text-sm text-nvidia-green" role="status">
+          {status}
+        </div>
+      )}
+
+      {shareUrl && (
+        <input
+          readOnly
+          value={shareUrl}
+          aria-label="Share link"
+          className="mb-4 w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-xs text-gray-300 font-mono"
+          onFocus={(e) => e.target.select()}
+        />
+      )}
+
       {/* Node Palette */}
       <div className="mb-4">
         <h4 className="text-sm font-semibold text-gray-300 mb-2">Add Nodes</h4>
-        <div className="flex gap-2">
-          {NODE_TEMPLATES.map((template) => (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={64}
+            value={addCount}
+            aria-label="Nodes to add"
+            onChange={(e) => setAddCount(Math.max(1, Math.min(64, Number(e.target.value) || 1)))}
+            className="w-16 px-2 py-2 bg-gray-700 rounded-lg text-sm text-gray-200"
+          />
+          {ALL_SYSTEM_TYPES.map((systemType) => (
             <button
-              key={template.type}
-              onClick={() => addNode(template.type)}
+              key={systemType}
+              onClick={() => addNodes(systemType)}
               className="flex items-center gap-2 px-3 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
-              style={{ borderLeft: `4px solid ${template.color}` }}
+              style={{ borderLeft: `4px solid ${NODE_COLORS[systemType]}` }}
             >
               <Plus className="w-4 h-4 text-gray-400" />
-              <span className="text-sm text-gray-200">{template.label}</span>
+              <span className="text-sm text-gray-200">{getSystemDisplayName(systemType)}</span>
             </button>
           ))}
         </div>
       </div>
 
+      {/* Cluster Settings */}
+      <div className="mb-4 grid grid-cols-3 gap-4 p-3 bg-gray-900 rounded-lg text-xs">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-300">Fabric</h4>
+          <label className="block text-gray-500">
+            Cluster name
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200"
+            />
+          </label>
+          <label className="block text-gray-500">
+            Topology
+            <select
+              value={fabricTopology}
+              onChange={(e) => setFabricTopology(e.target.value as ClusterConfig['fabricTopology'])}
+              className="mt-1 w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200"
+            >
+              {TOPOLOGIES.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-end gap-2">
+            <label className="block text-gray-500">
+              Leaf switches
+              <input
+                type="number"
+                min={1}
+                value={switchCounts.leaves}
+                onChange={(e) => setFabricSwitches({ ...switchCounts, leaves: Number(e.target.value) })}
+                className="mt-1 w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200"
+              />
+            </label>
+            <label className="block text-gray-500">
+              Spine switches
+              <input
+                type="number"
+                min={0}
+                value={switchCounts.spines}
+                onChange={(e) => setFabricSwitches({ ...switchCounts, spines: Number(e.target.value) })}
+                className="mt-1 w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200"
+              />
+            </label>
+            {fabricSwitches && (
+              <button
+                onClick={() => setFabricSwitches(undefined)}
+                className="px-2 py-1 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+              >
+                Auto
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-300">Slurm</h4>
+          <label className="block text-gray-500">
+            Partitions
+            <input
+              value={partitionsText}
+              onChange={(e) => setPartitionsText(e.target.value)}
+              placeholder="batch, interactive, gpu"
+              className="mt-1 w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200"
+            />
+          </label>
+          {modelPartitions.length > 0 && (
+            <button
+              onClick={() => setPartitionsText([...spec.partitions, ...modelPartitions].join(', '))}
+              className="px-2 py-1 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+            >
+              Add {modelPartitions.join(', ')} partitions
+            </button>
+          )}
+          <div className="text-gray-500">
+            Controller: <span className="text-gray-300">{bcmHA.primary || '—'}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-300">BCM Head Nodes</h4>
+          <label className="flex items-center gap-2 text-gray-400">
+            <input
+              type="checkbox"
+              checked={bcmHA.enabled}
+              onChange={(e) => setBcmHA({ ...bcmHA, enabled: e.target.checked })}
+            />
+            High availability
+          </label>
+          <label className="block text-gray-500">
+            Primary head node
+            <input
+              value={bcmHA.primary}
+              onChange={(e) => setBcmHA({ ...bcmHA, primary: e.target.value })}
+              className="mt-1 w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200"
+            />
+          </label>
+          <label className="block text-gray-500">
+            Secondary head node
+            <input
+              value={bcmHA.secondary}
+              disabled={!bcmHA.enabled}
+              onChange={(e) => setBcmHA({ ...bcmHA, secondary: e.target.value })}
+              className="mt-1 w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200 disabled:opacity-50"
+            />
+          </label>
+        </div>
+      </div>
+
       {/* Canvas */}
       <div
         ref={canvasRef}
         className="relative bg-gray-900 rounded-lg border border-gray-700 overflow-hidden"
-        style={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
+        style={{ width: CANVAS_WIDTH, height: canvasHeight }}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
@@ -301,127 +675,54 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
           <rect width="100%" height="100%" fill="url(#grid)" />
         </svg>
 
-        {/* Connections */}
-        <svg className="absolute inset-0 w-full h-full pointer-events-none">
-          {connections.map((conn) => {
-            const fromPos = getNodePos(conn.from);
-            const toPos = getNodePos(conn.to);
-            if (!fromPos || !toPos) return null;
-
-            const x1 = fromPos.x + NODE_WIDTH / 2;
-            const y1 = fromPos.y + NODE_HEIGHT / 2;
-            const x2 = toPos.x + NODE_WIDTH / 2;
-            const y2 = toPos.y + NODE_HEIGHT / 2;
-
-            return (
-              <g key={conn.id}>
-                <line
-                  x1={x1}
-                  y1={y1}
-                  x2={x2}
-                  y2={y2}
-                  stroke={conn.type === 'infiniband' ? '#3B82F6' : '#6B7280'}
-                  strokeWidth="3"
-                  strokeDasharray={conn.type === 'ethernet' ? '5,5' : 'none'}
-                />
-                <circle
-                  cx={(x1 + x2) / 2}
-                  cy={(y1 + y2) / 2}
-                  r="12"
-                  fill="#1F2937"
-                  stroke={conn.type === 'infiniband' ? '#3B82F6' : '#6B7280'}
-                  strokeWidth="2"
-                  className="cursor-pointer"
-                  style={{ pointerEvents: 'all' }}
-                  onClick={() => removeConnection(conn.id)}
-                />
-                <text
-                  x={(x1 + x2) / 2}
-                  y={(y1 + y2) / 2 + 4}
-                  textAnchor="middle"
-                  className="text-xs fill-gray-300 pointer-events-none"
-                >
-                  {conn.bandwidth}G
-                </text>
-              </g>
-            );
-          })}
-
-          {/* Connection in progress */}
-          {connectingFrom && (
-            <line
-              x1={(getNodePos(connectingFrom)?.x || 0) + NODE_WIDTH / 2}
-              y1={(getNodePos(connectingFrom)?.y || 0) + NODE_HEIGHT / 2}
-              x2={(getNodePos(connectingFrom)?.x || 0) + NODE_WIDTH / 2}
-              y2={(getNodePos(connectingFrom)?.y || 0) + NODE_HEIGHT / 2}
-              stroke="#76B900"
-              strokeWidth="2"
-              strokeDasharray="5,5"
-            />
-          )}
-        </svg>
-
         {/* Nodes */}
-        {nodes.map((node) => {
-          const pos = getNodePos(node.id);
+        {nodes.map((node, index) => {
+          const pos = getNodePos(node.key);
           if (!pos) return null;
 
-          const template = NODE_TEMPLATES.find(t => t.type === node.type);
-          const isSelected = selectedNode === node.id;
-          const isConnecting = connectingFrom === node.id;
+          const isSelected = selectedNode === node.key;
 
           return (
             <div
-              key={node.id}
+              key={node.key}
               className={`absolute rounded-lg p-2 cursor-move transition-shadow ${
                 isSelected ? 'ring-2 ring-nvidia-green' : ''
-              } ${isConnecting ? 'ring-2 ring-yellow-400' : ''}`}
+              }`}
               style={{
                 left: pos.x,
                 top: pos.y,
                 width: NODE_WIDTH,
                 height: NODE_HEIGHT,
                 backgroundColor: '#1F2937',
-                borderLeft: `4px solid ${template?.color || '#76B900'}`,
+                borderLeft: `4px solid ${NODE_COLORS[node.systemType]}`,
               }}
-              onMouseDown={(e) => handleMouseDown(e, node.id)}
-              onClick={() => setSelectedNode(node.id)}
+              onMouseDown={(e) => handleMouseDown(e, node.key)}
+              onClick={() => setSelectedNode(node.key)}
             >
               <div className="flex items-center justify-between mb-1">
                 <div className="flex items-center gap-1">
                   <Server className="w-3 h-3 text-gray-400" />
                   <span className="text-xs font-medium text-gray-200 truncate" style={{ maxWidth: '80px' }}>
-                    {node.hostname.split('.')[0]}
+                    {nodeId(index)}
                   </span>
                 </div>
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    removeNode(node.id);
+                    removeNode(node.key);
                   }}
                   className="p-0.5 text-gray-500 hover:text-red-400 rounded"
                 >
                   <Trash2 className="w-3 h-3" />
                 </button>
               </div>
-              <div className="text-xs text-gray-400">{node.type}</div>
-              <div className="flex items-center justify-between mt-1">
-                <div className="flex items-center gap-1 text-xs text-gray-500">
+              <div className="text-xs text-gray-400">{node.systemType}</div>
+              <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+                <div className="flex items-center gap-1">
                   <Cpu className="w-3 h-3" />
-                  <span>{node.gpuCount} GPUs</span>
+                  <span>{getHardwareSpecs(node.systemType).gpu.count} GPUs</span>
                 </div>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    startConnection(node.id);
-                  }}
-                  className={`p-1 rounded ${
-                    isConnecting ? 'bg-yellow-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-blue-400'
-                  }`}
-                  title="Connect to another node"
-                >
-                  <Link className="w-3 h-3" />
-                </button>
+                <span>{node.hcaCount} HCAs</span>
               </div>
             </div>
           );
@@ -438,8 +739,30 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
         )}
       </div>
 
+      {/* Validation */}
+      {nodes.length > 0 && preview.errors.length > 0 && (
+        <div className="mt-4 p-3 bg-red-900/30 border border-red-700 rounded-lg text-xs text-red-300" role="alert">
+          <div className="font-semibold mb-1">This cluster cannot be saved:</div>
+          <ul className="space-y-1 list-disc list-inside">
+            {preview.errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {importErrors.length > 0 && (
+        <div className="mt-4 p-3 bg-red-900/30 border border-red-700 rounded-lg text-xs text-red-300" role="alert">
+          <div className="font-semibold mb-1">Import failed:</div>
+          <ul className="space-y-1 list-disc list-inside">
+            {importErrors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Stats Bar */}
-      <div className="mt-4 grid grid-cols-5 gap-4 p-3 bg-gray-900 rounded-lg">
+      <div className="mt-4 grid grid-cols-6 gap-4 p-3 bg-gray-900 rounded-lg">
         <div className="text-center">
           <div className="text-lg font-semibold text-gray-200">{stats.totalNodes}</div>
           <div className="text-xs text-gray-500">Nodes</div>
@@ -452,6 +775,10 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
           <div className="text-lg font-semibold text-gray-200">{stats.totalHCAs}</div>
           <div className="text-xs text-gray-500">HCAs</div>
         </div>
+        <div className="text-center">
+          <div className="text-lg font-semibold text-gray-200">{stats.totalSwitches}</div>
+          <div className="text-xs text-gray-500">Switches</div>
+        </div>
         <div className="text-center">
           <div className="text-lg font-semibold text-gray-200">{stats.totalConnections}</div>
           <div className="text-xs text-gray-500">Connections</div>
@@ -477,28 +804,55 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
           <div className="grid grid-cols-3 gap-4 text-xs">
             <div>
               <span className="text-gray-500">ID:</span>
-              <span className="text-gray-300 ml-2">{selectedNodeData.id}</span>
+              <span className="text-gray-300 ml-2">{nodeId(selectedIndex)}</span>
             </div>
             <div>
               <span className="text-gray-500">Type:</span>
-              <span className="text-gray-300 ml-2">{selectedNodeData.type}</span>
+              <select
+                value={selectedNodeData.systemType}
+                aria-label="Node system type"
+                onChange={(e) => {
+                  const systemType = e.target.value as SystemType;
+                  updateNode(selectedNodeData.key, {
+                    systemType,
+                    hcaCount: getHardwareSpecs(systemType).network.hcaCount,
+                  });
+                }}
+                className="ml-2 px-1 bg-gray-800 border border-gray-700 rounded text-gray-300"
+              >
+                {ALL_SYSTEM_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
             </div>
             <div>
               <span className="text-gray-500">Hostname:</span>
-              <span className="text-gray-300 ml-2">{selectedNodeData.hostname}</span>
+              <span className="text-gray-300 ml-2">{nodeId(selectedIndex)}.cluster.local</span>
             </div>
             <div>
               <span className="text-gray-500">GPUs:</span>
-              <span className="text-gray-300 ml-2">{selectedNodeData.gpuCount}</span>
+              <span className="text-gray-300 ml-2">
+                {getHardwareSpecs(selectedNodeData.systemType).gpu.count}
+              </span>
             </div>
             <div>
               <span className="text-gray-500">HCAs:</span>
-              <span className="text-gray-300 ml-2">{selectedNodeData.hcaCount}</span>
+              <input
+                type="number"
+                min={1}
+                max={getHardwareSpecs(selectedNodeData.systemType).network.hcaCount}
+                value={selectedNodeData.hcaCount}
+                aria-label="Node HCA count"
+                onChange={(e) => updateNode(selectedNodeData.key, { hcaCount: Number(e.target.value) })}
+                className="ml-2 w-14 px-1 bg-gray-800 border border-gray-700 rounded text-gray-300"
+              />
             </div>
             <div>
-              <span className="text-gray-500">Connections:</span>
+              <span className="text-gray-500">HCA model:</span>
               <span className="text-gray-300 ml-2">
-                {connections.filter(c => c.from === selectedNodeData.id || c.to === selectedNodeData.id).length}
+                {getHardwareSpecs(selectedNodeData.systemType).network.hcaModel}
               </span>
             </div>
           </div>
@@ -510,9 +864,9 @@ export const ClusterBuilder: React.FC<ClusterBuilderProps> = ({
         <div className="font-semibold text-gray-300 mb-1">Instructions:</div>
         <ul className="space-y-1 list-disc list-inside">
           <li><Move className="w-3 h-3 inline" /> Drag nodes to reposition them</li>
-          <li><Link className="w-3 h-3 inline" /> Click the link icon on two nodes to connect them</li>
-          <li>Click the connection label to remove it</li>
-          <li>Click a node to see its details</li>
+          <li>Click a node to change its system type and HCA count</li>
+          <li>The fabric is cabled from the topology and switch counts</li>
+          <li><Link className="w-3 h-3 inline" /> Share Link copies a URL that loads this cluster</li>
         </ul>
       </div>
     </div>
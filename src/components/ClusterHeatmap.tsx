@@ -3,11 +3,14 @@
  *
  * Displays a heatmap view of all GPUs across the cluster.
  * Useful for quickly identifying hotspots or underutilized resources.
+ * Clusters that mix system types are shown one system type at a time.
  */
 
 import React, { useState, useMemo } from "react";
 import type { DGXNode, GPU } from "@/types/hardware";
 import { Activity, Thermometer, Zap, HardDrive } from "lucide-react";
+import { getSystemDisplayName } from "@/data/hardwareSpecs";
+import { clusterSystemTypes } from "@/simulation/slurmPartitions";
 
 interface ClusterHeatmapProps {
   nodes: DGXNode[];
@@ -109,6 +112,19 @@ export const ClusterHeatmap: React.FC<ClusterHeatmapProps> = ({
     return 24;
   }, [nodes]);
 
+  // Group the rows by system type when the nodes mix them
+  const sections = useMemo(() => {
+    const types = clusterSystemTypes(nodes);
+    if (types.length < 2) return [{ label: null, nodes }];
+    return types.map((type) => {
+      const members = nodes.filter((n) => n.systemType === type);
+      return {
+        label: `${getSystemDisplayName(type)} · ${members.length} node${members.length === 1 ? "" : "s"}`,
+        nodes: members,
+      };
+    });
+  }, [nodes]);
+
   // Calculate statistics
   const stats = useMemo(() => {
     const values = nodes.flatMap((n) => n.gpus.map((g) => config.getValue(g)));
@@ -175,74 +191,83 @@ export const ClusterHeatmap: React.FC<ClusterHeatmapProps> = ({
       {/* Heatmap Grid */}
       <div className="bg-gray-900 rounded-lg p-4">
         <div className="space-y-3">
-          {nodes.map((node) => (
-            <div key={node.id} className="flex items-center gap-3">
-              {/* Node label */}
-              <div
-                className="w-20 text-sm text-gray-400 truncate"
-                title={node.hostname}
-              >
-                {node.id}
-              </div>
-
-              {/* GPU cells */}
-              <div className="flex gap-1 flex-wrap">
-                {node.gpus.map((gpu) => {
-                  const value = config.getValue(gpu);
-                  const color = config.getColor(value);
-                  const isHovered =
-                    hoveredGPU?.nodeId === node.id &&
-                    hoveredGPU?.gpu.id === gpu.id;
+          {sections.map((section) => (
+            <div key={section.label ?? "all"} className="space-y-3">
+              {section.label && (
+                <div className="text-xs font-semibold uppercase tracking-wide text-gray-400">
+                  {section.label}
+                </div>
+              )}
+              {section.nodes.map((node) => (
+                <div key={node.id} className="flex items-center gap-3">
+                  {/* Node label */}
+                  <div
+                    className="w-20 text-sm text-gray-400 truncate"
+                    title={node.hostname}
+                  >
+                    {node.id}
+                  </div>
 
-                  return (
-                    <div
-                      key={gpu.id}
-                      className="relative cursor-pointer transition-transform hover:scale-110"
-                      style={{
-                        width: cellSize,
-                        height: cellSize,
-                        backgroundColor: color,
-                        borderRadius: 4,
-                        border: isHovered
-                          ? "2px solid white"
-                          : "1px solid rgba(0,0,0,0.2)",
-                      }}
-                      onClick={() => onGPUClick?.(node.id, gpu)}
-                      onMouseEnter={() =>
-                        setHoveredGPU({ nodeId: node.id, gpu })
-                      }
-                      onMouseLeave={() => setHoveredGPU(null)}
-                      title={`GPU ${gpu.id}: ${value.toFixed(1)}${config.unit}`}
-                    >
-                      {/* GPU number */}
-                      <span
-                        className="absolute inset-0 flex items-center justify-center text-xs font-bold"
-                        style={{
-                          color:
-                            value > 50
-                              ? "rgba(255,255,255,0.9)"
-                              : "rgba(255,255,255,0.7)",
-                        }}
-                      >
-                        {gpu.id}
-                      </span>
+                  {/* GPU cells */}
+                  <div className="flex gap-1 flex-wrap">
+                    {node.gpus.map((gpu) => {
+                      const value = config.getValue(gpu);
+                      const color = config.getColor(value);
+                      const isHovered =
+                        hoveredGPU?.nodeId === node.id &&
+                        hoveredGPU?.gpu.id === gpu.id;
 
-                      {/* Health indicator */}
-                      {gpu.healthStatus !== "OK" && (
-                        <span
-                          className="absolute -top-1 -right-1 w-3 h-3 rounded-full border border-gray-800"
+                      return (
+                        <div
+                          key={gpu.id}
+                          className="relative cursor-pointer transition-transform hover:scale-110"
                           style={{
-                            backgroundColor:
-                              gpu.healthStatus === "Warning"
-                                ? "#F59E0B"
-                                : "#EF4444",
+                            width: cellSize,
+                            height: cellSize,
+                            backgroundColor: color,
+                            borderRadius: 4,
+                            border: isHovered
+                              ? "2px solid white"
+                              : "1px solid rgba(0,0,0,0.2)",
                           }}
-                        />
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
+                          onClick={() => onGPUClick?.(node.id, gpu)}
+                          onMouseEnter={() =>
+                            setHoveredGPU({ nodeId: node.id, gpu })
+                          }
+                          onMouseLeave={() => setHoveredGPU(null)}
+                          title={`GPU ${gpu.id}: ${value.toFixed(1)}${config.unit}`}
+                        >
+                          {/* GPU number */}
+                          <span
+                            className="absolute inset-0 flex items-center justify-center text-xs font-bold"
+                            style={{
+                              color:
+                                value > 50
+                                  ? "rgba(255,255,255,0.9)"
+                                  : "rgba(255,255,255,0.7)",
+                            }}
+                          >
+                            {gpu.id}
+                          </span>
+
+                          {/* Health indicator */}
+                          {gpu.healthStatus !== "OK" && (
+                            <span
+                              className="absolute -top-1 -right-1 w-3 h-3 rounded-full border border-gray-800"
+                              style={{
+                                backgroundColor:
+                                  gpu.healthStatus === "Warning"
+                                    ? "#F59E0B"
+                                    : "#EF4444",
+                              }}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
             </div>
           ))}
         </div>
@@ -254,6 +279,9 @@ export const ClusterHeatmap: React.FC<ClusterHeatmapProps> = ({
           <div className="flex items-center justify-between">
             <span className="text-sm font-semibold text-gray-300">
               {hoveredGPU.nodeId} / GPU {hoveredGPU.gpu.id}
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {hoveredGPU.gpu.name}
+              </span>
             </span>
             <span
               className="text-sm font-medium"
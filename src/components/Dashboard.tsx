@@ -19,6 +19,8 @@ import {
   Network,
   Activity as ActivityIcon,
   ChevronDown,
+  History,
+  Boxes,
 } from "lucide-react";
 import type { GPU, HealthStatus } from "@/types/hardware";
 const MetricsChart = React.lazy(() =>
@@ -27,6 +29,8 @@ const MetricsChart = React.lazy(() =>
 import { TopologyGraph } from "./TopologyGraph";
 import { InfiniBandMap } from "./InfiniBandMap";
 import { FabricHealthSummary } from "./FabricHealthSummary";
+import { StateHistoryPanel } from "./StateHistoryPanel";
+import { ClusterBuilder } from "./ClusterBuilder";
 import { MetricsHistory } from "@/utils/metricsHistory";
 import {
   getVisualizationContext,
@@ -34,6 +38,7 @@ import {
 } from "@/utils/scenarioVisualizationMap";
 import { ALL_SYSTEM_TYPES, getSystemDisplayName } from "@/data/hardwareSpecs";
 import type { SystemType } from "@/data/hardwareSpecs";
+import { clusterSystemTypes } from "@/simulation/slurmPartitions";
 
 /**
  * Hook that returns the effective cluster for Dashboard components.
@@ -311,10 +316,17 @@ const NodeSelector: React.FC = () => {
   );
 };
 
-const SystemTypeSelector: React.FC = () => {
+/**
+ * Picks the architecture of the whole cluster. A cluster whose nodes mix
+ * system types shows as "Mixed" until an architecture is picked for all.
+ */
+const SystemTypeSelector: React.FC<{ nodeTypes: SystemType[] }> = ({
+  nodeTypes,
+}) => {
   const systemType = useSimulationStore((state) => state.systemType);
   const setSystemType = useSimulationStore((state) => state.setSystemType);
   const activeScenario = useSimulationStore((state) => state.activeScenario);
+  const mixed = nodeTypes.length > 1;
 
   return (
     <div className="flex items-center gap-2">
@@ -323,7 +335,7 @@ const SystemTypeSelector: React.FC = () => {
       </label>
       <select
         id="system-type-select"
-        value={systemType}
+        value={mixed ? "mixed" : systemType}
         onChange={(e) => setSystemType(e.target.value as SystemType)}
         disabled={!!activeScenario}
         className="bg-gray-700 text-sm text-gray-200 border border-gray-600 rounded px-2 py-1
@@ -334,6 +346,11 @@ const SystemTypeSelector: React.FC = () => {
             : "Select DGX system architecture"
         }
       >
+        {mixed && (
+          <option value="mixed" disabled>
+            Mixed ({nodeTypes.map(getSystemDisplayName).join(", ")})
+          </option>
+        )}
         {ALL_SYSTEM_TYPES.map((type) => (
           <option key={type} value={type}>
             {getSystemDisplayName(type)}
@@ -344,6 +361,39 @@ const SystemTypeSelector: React.FC = () => {
   );
 };
 
+/** Swaps one node for a node of another system type */
+const NodeSystemTypeSelector: React.FC<{
+  nodeId: string;
+  systemType: SystemType;
+}> = ({ nodeId, systemType }) => {
+  const setNodeSystemType = useSimulationStore(
+    (state) => state.setNodeSystemType,
+  );
+  const activeScenario = useSimulationStore((state) => state.activeScenario);
+
+  return (
+    <select
+      aria-label={`System type of ${nodeId}`}
+      value={systemType}
+      onChange={(e) => setNodeSystemType(nodeId, e.target.value as SystemType)}
+      disabled={!!activeScenario}
+      className="bg-gray-700 text-sm text-gray-200 border border-gray-600 rounded px-1 py-0.5
+                 focus:outline-none focus:border-nvidia-green disabled:opacity-50 disabled:cursor-not-allowed"
+      title={
+        activeScenario
+          ? "Cannot change the node during an active scenario"
+          : "Replace this node with another DGX system"
+      }
+    >
+      {ALL_SYSTEM_TYPES.map((type) => (
+        <option key={type} value={type}>
+          {getSystemDisplayName(type)}
+        </option>
+      ))}
+    </select>
+  );
+};
+
 const ClusterHealthSummary: React.FC = () => {
   const effectiveCluster = useEffectiveCluster();
   const selectNode = useSimulationStore((state) => state.selectNode);
@@ -385,13 +435,27 @@ const ClusterHealthSummary: React.FC = () => {
   const overallHealth: HealthStatus =
     criticalGPUs > 0 ? "Critical" : healthyGPUs < totalGPUs ? "Warning" : "OK";
 
+  const nodeTypes = clusterSystemTypes(effectiveCluster.nodes);
+  const composition = nodeTypes.map(
+    (type) =>
+      `${effectiveCluster.nodes.filter((n) => n.systemType === type).length}× ${getSystemDisplayName(type)}`,
+  );
+
   return (
     <div className="bg-gradient-to-br from-gray-800 to-gray-900 rounded-lg p-4 md:p-6 border border-gray-700">
       <div className="flex flex-wrap items-center gap-2 mb-4">
         <h2 className="text-lg md:text-xl font-bold text-nvidia-green">
           Cluster Health
         </h2>
-        <SystemTypeSelector />
+        <SystemTypeSelector nodeTypes={nodeTypes} />
+        {nodeTypes.length > 1 && (
+          <span
+            className="text-xs text-gray-400"
+            data-testid="cluster-composition"
+          >
+            {composition.join(" · ")}
+          </span>
+        )}
         <div className="ml-auto">
           <HealthIndicator status={overallHealth} />
         </div>
@@ -484,10 +548,18 @@ const ClusterHealthSummary: React.FC = () => {
   );
 };
 
-type DashboardView = "overview" | "metrics" | "topology" | "network";
+type DashboardView =
+  | "overview"
+  | "metrics"
+  | "topology"
+  | "network"
+  | "history"
+  | "builder";
 
 export const Dashboard: React.FC = () => {
   const effectiveCluster = useEffectiveCluster();
+  const cluster = useSimulationStore((state) => state.cluster);
+  const setCluster = useSimulationStore((state) => state.setCluster);
   const selectedNode = useSimulationStore((state) => state.selectedNode);
   const isRunning = useSimulationStore((state) => state.isRunning);
   const requestedVisualizationView = useSimulationStore(
@@ -575,6 +647,8 @@ export const Dashboard: React.FC = () => {
           { id: "metrics", label: "Historical Metrics", icon: TrendingUp },
           { id: "topology", label: "NVLink Topology", icon: Network },
           { id: "network", label: "InfiniBand Fabric", icon: Network },
+          { id: "history", label: "State History", icon: History },
+          { id: "builder", label: "Cluster Builder", icon: Boxes },
         ].map(({ id, label, icon: Icon }) => (
           <button
             key={id}
@@ -627,7 +701,12 @@ export const Dashboard: React.FC = () => {
               </div>
               <div>
                 <div className="text-gray-400">System Type</div>
-                <div className="text-gray-200">{currentNode.systemType}</div>
+                <div className="text-gray-200">
+                  <NodeSystemTypeSelector
+                    nodeId={currentNode.id}
+                    systemType={currentNode.systemType}
+                  />
+                </div>
               </div>
               <div>
                 <div className="text-gray-400">CPU</div>
@@ -802,6 +881,14 @@ export const Dashboard: React.FC = () => {
           />
         </div>
       )}
+
+      {/* State History Tab */}
+      {activeView === "history" && <StateHistoryPanel />}
+
+      {/* Cluster Builder Tab: saving loads the cluster into the simulator */}
+      {activeView === "builder" && (
+        <ClusterBuilder initialCluster={cluster} onSave={setCluster} />
+      )}
     </div>
   );
 };
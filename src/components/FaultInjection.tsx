@@ -52,6 +52,19 @@ function getMutator(): StateMutator {
         ),
       deallocateGPUsForJob: (jobId) =>
         activeContext.deallocateGPUsForJob(jobId),
+      applyIBSweep: (sweep) => activeContext.applyIBSweep(sweep),
+      updateNVSwitchFabric: (nodeId, update) =>
+        activeContext.updateNVSwitchFabric(nodeId, update),
+      updateNodePower: (nodeId, update) =>
+        activeContext.updateNodePower(nodeId, update),
+      updateDcgmHostEngine: (nodeId, update) =>
+        activeContext.updateDcgmHostEngine(nodeId, update),
+      updateNodePackages: (nodeId, update) =>
+        activeContext.updateNodePackages(nodeId, update),
+      updateNodeFirmware: (nodeId, update) =>
+        activeContext.updateNodeFirmware(nodeId, update),
+      updateBlueField: (nodeId, update) =>
+        activeContext.updateBlueField(nodeId, update),
     };
   }
   const store = useSimulationStore.getState();
@@ -69,6 +82,17 @@ function getMutator(): StateMutator {
     allocateGPUsForJob: (nodeId, gpuIds, jobId, targetUtilization) =>
       store.allocateGPUsForJob(nodeId, gpuIds, jobId, targetUtilization),
     deallocateGPUsForJob: (jobId) => store.deallocateGPUsForJob(jobId),
+    applyIBSweep: (sweep) => store.applyIBSweep(sweep),
+    updateNVSwitchFabric: (nodeId, update) =>
+      store.updateNVSwitchFabric(nodeId, update),
+    updateNodePower: (nodeId, update) => store.updateNodePower(nodeId, update),
+    updateDcgmHostEngine: (nodeId, update) =>
+      store.updateDcgmHostEngine(nodeId, update),
+    updateNodePackages: (nodeId, update) =>
+      store.updateNodePackages(nodeId, update),
+    updateNodeFirmware: (nodeId, update) =>
+      store.updateNodeFirmware(nodeId, update),
+    updateBlueField: (nodeId, update) => store.updateBlueField(nodeId, update),
   };
 }
 
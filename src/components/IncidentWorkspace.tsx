@@ -5,13 +5,22 @@
  * - Situation briefing
  * - Live elapsed timer
  * - Workflow progress checklist (5 diagnostic phases)
- * - Diagnosis submission with root cause selection
+ * - Diagnosis submission with root cause selection, one per root cause of
+ *   a compound incident
+ * - Fixes applied so far, and field service requests for the parts no
+ *   command can fix
  * - Hint system with score penalty
  * - Abandon incident button
  */
 
 import { useState, useEffect, useRef } from "react";
 import type { PhaseEntry, DiagnosticPhase } from "@/simulation/workflowTracker";
+import {
+  describeRemediation,
+  type RemediationRequest,
+  type RemediationResult,
+} from "@/simulation/remediationEngine";
+import { REPLACEABLE_PART_LABELS } from "@/data/remediationRules";
 
 interface IncidentWorkspaceProps {
   /** The incident situation briefing text */
@@ -20,14 +29,28 @@ interface IncidentWorkspaceProps {
   phaseHistory: PhaseEntry[];
   /** Possible root cause choices for diagnosis */
   rootCauseOptions: string[];
+  /**
+   * Every root cause of the incident with its own choices. With more than
+   * one, each gets its own selection and the diagnosis is submitted as the
+   * selections in this order.
+   */
+  rootCauses?: Array<{ prompt: string; options: string[] }>;
   /** Hint: recommended diagnostic path */
   diagnosticPath: string[];
-  /** Called when user submits root cause */
-  onSubmitDiagnosis: (rootCause: string) => void;
+  /** Called when user submits root cause(s) */
+  onSubmitDiagnosis: (rootCause: string | string[]) => void;
   /** Called when user requests a hint */
   onRequestHint: () => void;
   /** Called when user abandons incident */
   onClose: () => void;
+  /** Nodes field service can be sent to, with their GPUs */
+  nodes?: Array<{ id: string; gpuIds: number[] }>;
+  /** Fixes applied so far and what they did */
+  remediations?: RemediationResult[];
+  /** Whether every fault of the incident has been cleared */
+  resolved?: boolean;
+  /** Called when user requests field service to replace a part */
+  onFieldService?: (request: RemediationRequest) => void;
 }
 
 const PHASE_ORDER: DiagnosticPhase[] = [
@@ -48,6 +71,30 @@ const PHASE_LABELS: Record<DiagnosticPhase, string> = {
 
 const HINT_PENALTY = 5;
 
+const OUTCOME_STYLES: Record<RemediationResult["outcome"], string> = {
+  cleared: "text-green-400",
+  transformed: "text-yellow-400",
+  blocked: "text-red-400",
+};
+
+/** The field service request for a part picked as "gpu:3", "psu", "cable"... */
+function fieldServiceRequest(nodeId: string, part: string): RemediationRequest {
+  if (part === "cable") return { action: "replace-cable", nodeId };
+  if (part.startsWith("gpu:")) {
+    return {
+      action: "replace-part",
+      nodeId,
+      gpuId: Number(part.slice(4)),
+      part: "gpu",
+    };
+  }
+  return {
+    action: "replace-part",
+    nodeId,
+    part: part as RemediationRequest["part"],
+  };
+}
+
 function formatTime(totalSeconds: number): string {
   const minutes = Math.floor(totalSeconds / 60);
   const seconds = totalSeconds % 60;
@@ -58,10 +105,15 @@ export function IncidentWorkspace({
   situation,
   phaseHistory,
   rootCauseOptions,
+  rootCauses,
   diagnosticPath,
   onSubmitDiagnosis,
   onRequestHint,
   onClose,
+  nodes = [],
+  remediations = [],
+  resolved = false,
+  onFieldService,
 }: IncidentWorkspaceProps) {
   // ---------------------------------------------------------------------------
   // Elapsed Timer
@@ -92,16 +144,41 @@ export function IncidentWorkspace({
   useEffect(() => {
     setRevealedHints(0);
     setShowDiagnosis(false);
-    setSelectedRootCause(null);
+    setSelections([]);
   }, [situation]);
-  const [selectedRootCause, setSelectedRootCause] = useState<string | null>(
-    null,
-  );
+  const [selections, setSelections] = useState<string[]>([]);
+
+  const questions =
+    rootCauses && rootCauses.length > 1
+      ? rootCauses
+      : [{ prompt: "", options: rootCauseOptions }];
+  const allSelected = questions.every((_, i) => selections[i]);
+
+  const select = (index: number, option: string) => {
+    setSelections((prev) => {
+      const next = [...prev];
+      next[index] = option;
+      return next;
+    });
+  };
 
   const handleConfirmDiagnosis = () => {
-    if (selectedRootCause) {
-      onSubmitDiagnosis(selectedRootCause);
-    }
+    if (!allSelected) return;
+    onSubmitDiagnosis(questions.length > 1 ? selections : selections[0]);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Field Service
+  // ---------------------------------------------------------------------------
+  const [serviceNode, setServiceNode] = useState("");
+  const [servicePart, setServicePart] = useState("");
+  const serviceGpus =
+    nodes.find((n) => n.id === serviceNode)?.gpuIds ?? nodes[0]?.gpuIds ?? [];
+
+  const handleFieldService = () => {
+    const nodeId = serviceNode || nodes[0]?.id;
+    if (!nodeId || !servicePart || !onFieldService) return;
+    onFieldService(fieldServiceRequest(nodeId, servicePart));
   };
 
   // ---------------------------------------------------------------------------
@@ -128,7 +205,9 @@ export function IncidentWorkspace({
           <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">
             Situation
           </h3>
-          <p className="text-sm leading-relaxed text-gray-200">{situation}</p>
+          <p className="whitespace-pre-line text-sm leading-relaxed text-gray-200">
+            {situation}
+          </p>
         </section>
 
         {/* Workflow Progress Checklist */}
@@ -164,6 +243,86 @@ export function IncidentWorkspace({
           </ul>
         </section>
 
+        {/* Remediation */}
+        {(remediations.length > 0 || onFieldService) && (
+          <section className="rounded bg-gray-900 p-3">
+            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">
+              Remediation
+            </h3>
+            {resolved && (
+              <p
+                data-testid="incident-resolved"
+                className="mb-2 rounded border border-nvidia-green bg-gray-800 p-2 text-sm text-nvidia-green"
+              >
+                Every fault has been cleared. Verify the fix, then submit your
+                diagnosis.
+              </p>
+            )}
+            {remediations.length > 0 && (
+              <ul data-testid="remediation-log" className="mb-3 space-y-1">
+                {remediations.map((result, idx) => (
+                  <li
+                    key={idx}
+                    data-outcome={result.outcome}
+                    className={`text-xs ${OUTCOME_STYLES[result.outcome]}`}
+                  >
+                    {describeRemediation(result)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {onFieldService && nodes.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-400">
+                  Field service replaces parts no command can fix.
+                </p>
+                <div className="flex gap-2">
+                  <select
+                    aria-label="Field service node"
+                    value={serviceNode || nodes[0].id}
+                    onChange={(e) => {
+                      setServiceNode(e.target.value);
+                      setServicePart("");
+                    }}
+                    className="flex-1 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-sm text-gray-200"
+                  >
+                    {nodes.map((node) => (
+                      <option key={node.id} value={node.id}>
+                        {node.id}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label="Part to replace"
+                    value={servicePart}
+                    onChange={(e) => setServicePart(e.target.value)}
+                    className="flex-1 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-sm text-gray-200"
+                  >
+                    <option value="">Select part...</option>
+                    {serviceGpus.map((gpuId) => (
+                      <option key={gpuId} value={`gpu:${gpuId}`}>
+                        {REPLACEABLE_PART_LABELS.gpu} {gpuId}
+                      </option>
+                    ))}
+                    <option value="psu">{REPLACEABLE_PART_LABELS.psu}</option>
+                    <option value="cooling">
+                      {REPLACEABLE_PART_LABELS.cooling}
+                    </option>
+                    <option value="cable">InfiniBand cable</option>
+                  </select>
+                </div>
+                <button
+                  onClick={handleFieldService}
+                  disabled={!servicePart}
+                  className="w-full rounded border border-gray-600 px-3 py-2 text-sm text-gray-300 transition-colors hover:border-gray-400 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Request Field Service
+                </button>
+              </div>
+            )}
+          </section>
+        )}
+
         {/* Diagnosis Submission */}
         <section className="rounded bg-gray-900 p-3">
           {!showDiagnosis ? (
@@ -176,50 +335,60 @@ export function IncidentWorkspace({
           ) : (
             <div className="space-y-3">
               <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-400">
-                Select Root Cause
+                {questions.length > 1
+                  ? "Select Root Causes"
+                  : "Select Root Cause"}
               </h3>
-              <div className="space-y-2">
-                {rootCauseOptions.map((option) => (
-                  <label
-                    key={option}
-                    className={`flex cursor-pointer items-center gap-2 rounded border p-2 text-sm transition-colors ${
-                      selectedRootCause === option
-                        ? "border-nvidia-green bg-gray-800 text-white"
-                        : "border-gray-700 bg-gray-800 text-gray-300 hover:border-gray-500"
-                    }`}
-                  >
-                    <input
-                      type="radio"
-                      name="rootCause"
-                      value={option}
-                      checked={selectedRootCause === option}
-                      onChange={() => setSelectedRootCause(option)}
-                      className="sr-only"
-                    />
-                    <span
-                      className={`flex h-4 w-4 items-center justify-center rounded-full border ${
-                        selectedRootCause === option
-                          ? "border-nvidia-green bg-nvidia-green"
-                          : "border-gray-500"
-                      }`}
-                    >
-                      {selectedRootCause === option && (
-                        <span className="h-2 w-2 rounded-full bg-black" />
-                      )}
-                    </span>
-                    <span
-                      onClick={() => setSelectedRootCause(option)}
-                      role="presentation"
-                    >
-                      {option}
-                    </span>
-                  </label>
-                ))}
-              </div>
+              {questions.map((question, index) => (
+                <div key={index} className="space-y-2">
+                  {question.prompt && (
+                    <p className="text-sm text-gray-300">{question.prompt}</p>
+                  )}
+                  {question.options.map((option) => {
+                    const selected = selections[index] === option;
+                    return (
+                      <label
+                        key={option}
+                        className={`flex cursor-pointer items-center gap-2 rounded border p-2 text-sm transition-colors ${
+                          selected
+                            ? "border-nvidia-green bg-gray-800 text-white"
+                            : "border-gray-700 bg-gray-800 text-gray-300 hover:border-gray-500"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name={`rootCause-${index}`}
+                          value={option}
+                          checked={selected}
+                          onChange={() => select(index, option)}
+                          className="sr-only"
+                        />
+                        <span
+                          className={`flex h-4 w-4 items-center justify-center rounded-full border ${
+                            selected
+                              ? "border-nvidia-green bg-nvidia-green"
+                              : "border-gray-500"
+                          }`}
+                        >
+                          {selected && (
+                            <span className="h-2 w-2 rounded-full bg-black" />
+                          )}
+                        </span>
+                        <span
+                          onClick={() => select(index, option)}
+                          role="presentation"
+                        >
+                          {option}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              ))}
               <div className="flex gap-2">
                 <button
                   onClick={handleConfirmDiagnosis}
-                  disabled={!selectedRootCause}
+                  disabled={!allSelected}
                   className="flex-1 rounded bg-nvidia-green px-3 py-2 text-sm font-semibold text-black transition-colors hover:bg-green-500 disabled:cursor-not-allowed disabled:opacity-50"
                 >
                   Confirm
@@ -227,7 +396,7 @@ export function IncidentWorkspace({
                 <button
                   onClick={() => {
                     setShowDiagnosis(false);
-                    setSelectedRootCause(null);
+                    setSelections([]);
                   }}
                   className="rounded border border-gray-600 px-3 py-2 text-sm text-gray-300 transition-colors hover:border-gray-400"
                 >
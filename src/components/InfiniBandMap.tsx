@@ -1,14 +1,15 @@
 /**
  * InfiniBand Fabric Map Component
  *
- * Visualizes InfiniBand fat-tree topology using D3.js.
- * Shows switches (leaf/spine) and HCAs with link health.
+ * Visualizes the cluster's InfiniBand fabric using D3.js. Switches (leaf/spine),
+ * hosts and cables are read from the fabric model, so link health matches
+ * what iblinkinfo and ibdiagnet report for the same cables.
  * Includes live data flow animations when simulation is running.
  */
 
 import React, { useEffect, useRef, useMemo, useState } from "react";
 import * as d3 from "d3";
-import type { ClusterConfig, DGXNode } from "@/types/hardware";
+import type { ClusterConfig, InfiniBandFabric } from "@/types/hardware";
 import { Network } from "lucide-react";
 import { useContainerSize } from "@/hooks/useContainerSize";
 import {
@@ -17,49 +18,18 @@ import {
 } from "@/hooks/useNetworkAnimation";
 import { useReducedMotion } from "@/hooks/useReducedMotion";
 import { useSimulationStore } from "@/store/simulationStore";
+import { getIBStandardName } from "@/simulators/infinibandSimulator";
+import {
+  cableErrorCount,
+  describeEnd,
+  findSwitch,
+  getEndPort,
+  getFabric,
+  isCableUp,
+  peerEnd,
+} from "@/utils/infinibandFabric";
 import { NetworkNodeDetail, NetworkNodeType } from "./NetworkNodeDetail";
 
-export interface FabricTierConfig {
-  spineCount: number;
-  leafCount: number;
-  spineToLeafBandwidth: 100 | 200 | 400 | 800; // Gb/s (EDR, HDR, NDR, XDR)
-  leafToHostBandwidth: 100 | 200 | 400 | 800;
-}
-
-const DEFAULT_FABRIC_CONFIG: FabricTierConfig = {
-  spineCount: 4,
-  leafCount: 8,
-  spineToLeafBandwidth: 400, // NDR
-  leafToHostBandwidth: 400, // NDR
-};
-
-/**
- * Derive fabric config from the cluster's actual HCA port rates.
- * All switches in a DGX SuperPOD match the host HCA speed.
- */
-function deriveFabricConfig(cluster: ClusterConfig): FabricTierConfig {
-  // Read port rate from first node's first HCA
-  const firstPort = cluster.nodes[0]?.hcas?.[0]?.ports?.[0];
-  const portRate = (firstPort?.rate || 400) as 100 | 200 | 400 | 800;
-  const hcaCount = cluster.nodes[0]?.hcas?.length || 8;
-  return {
-    spineCount: DEFAULT_FABRIC_CONFIG.spineCount,
-    leafCount: hcaCount,
-    spineToLeafBandwidth: portRate,
-    leafToHostBandwidth: portRate,
-  };
-}
-
-/**
- * Get the correct switch model name for a given IB speed.
- */
-function getSwitchModel(bandwidth: number): string {
-  if (bandwidth >= 800) return "NVIDIA QM9790 (XDR)";
-  if (bandwidth >= 400) return "NVIDIA QM9700 (NDR)";
-  if (bandwidth >= 200) return "NVIDIA QM8790 (HDR)";
-  return "NVIDIA QM8700 (EDR)";
-}
-
 // Helper to convert bandwidth to line width
 const bandwidthToWidth = (bandwidth: number): number => {
   if (bandwidth >= 800) return 4; // XDR
@@ -76,37 +46,17 @@ const bandwidthLabel = (bandwidth: number): string => {
   return "EDR 100 Gb/s";
 };
 
-// Helper to determine link color based on host port errors
-const getLinkColor = (
-  host: DGXNode | undefined,
-  baseStatus: "active" | "down",
-): string => {
-  if (baseStatus === "down" || !host) return "#EF4444"; // Red for down
-
-  // Sum errors across all HCA ports
-  const totalErrors = host.hcas.reduce(
-    (sum, hca) =>
-      sum +
-      hca.ports.reduce(
-        (portSum, port) =>
-          portSum +
-          port.errors.symbolErrors +
-          port.errors.portRcvErrors +
-          port.errors.linkDowned,
-        0,
-      ),
-    0,
-  );
-
-  if (totalErrors === 0) return "#10B981"; // Green - healthy
-  if (totalErrors < 10) return "#EAB308"; // Yellow - minor errors
-  if (totalErrors < 50) return "#F97316"; // Orange - moderate errors
+// Helper to determine link color from the cable's state and error count
+const getLinkColor = (up: boolean, errors: number): string => {
+  if (!up) return "#EF4444"; // Red for down
+  if (errors === 0) return "#10B981"; // Green - healthy
+  if (errors < 10) return "#EAB308"; // Yellow - minor errors
+  if (errors < 50) return "#F97316"; // Orange - moderate errors
   return "#EF4444"; // Red - high errors
 };
 
 interface InfiniBandMapProps {
   cluster: ClusterConfig;
-  fabricConfig?: FabricTierConfig;
   highlightedNodes?: string[];
   highlightedSwitches?: string[];
 }
@@ -121,10 +71,126 @@ interface FabricNode {
 }
 
 interface FabricLink {
+  cableId: string;
   source: FabricNode;
   target: FabricNode;
-  status: "active" | "down";
-  speed: string;
+  rate: number;
+}
+
+const TIER_ORDER: Record<FabricNode["type"], number> = {
+  spine: 0,
+  leaf: 1,
+  host: 2,
+};
+
+/**
+ * Place spines, leaves and hosts on three tiers and draw one link per
+ * cable, from the upper tier down.
+ */
+function layoutFabric(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  width: number,
+  height: number,
+): { nodes: FabricNode[]; links: FabricLink[] } {
+  const nodes: FabricNode[] = [];
+
+  (["spine", "leaf"] as const).forEach((tier) => {
+    const switches = fabric.switches.filter((sw) => sw.tier === tier);
+    switches.forEach((sw, i) => {
+      nodes.push({
+        id: sw.id,
+        type: tier,
+        label: sw.description.split("/").pop() ?? sw.id,
+        status: sw.ports.some((p) => p.state === "Active") ? "active" : "down",
+        x: (width / (switches.length + 1)) * (i + 1),
+        y: height * (tier === "spine" ? 0.15 : 0.45),
+      });
+    });
+  });
+
+  const nodeSpacing = width / (cluster.nodes.length + 1);
+  cluster.nodes.forEach((node, idx) => {
+    nodes.push({
+      id: node.id,
+      type: "host",
+      label: node.id,
+      status: node.hcas.some((hca) =>
+        hca.ports.some((p) => p.state === "Active"),
+      )
+        ? "active"
+        : "down",
+      x: nodeSpacing * (idx + 1),
+      y: height * 0.8,
+    });
+  });
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const links: FabricLink[] = [];
+  for (const cable of fabric.cables) {
+    const [a, b] = cable.ends.map((end) =>
+      byId.get(end.kind === "switch" ? end.switchId : end.nodeId),
+    );
+    if (!a || !b) continue;
+    const [source, target] =
+      TIER_ORDER[a.type] <= TIER_ORDER[b.type] ? [a, b] : [b, a];
+    links.push({
+      cableId: cable.id,
+      source,
+      target,
+      rate: getEndPort(cluster, fabric, cable.ends[0])?.rate ?? 400,
+    });
+  }
+
+  return { nodes, links };
+}
+
+/**
+ * Current stroke for a link. Backbone links are drawn thicker; host links
+ * stay faint unless their cable is down or counting errors.
+ */
+function getLinkStyle(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  link: FabricLink,
+) {
+  const cable = fabric.cables.find((c) => c.id === link.cableId);
+  const up = cable ? isCableUp(cluster, fabric, cable) : false;
+  const errors = cable ? cableErrorCount(cluster, fabric, cable) : 0;
+  const isBackbone = link.source.type === "spine";
+  return {
+    up,
+    errors,
+    color: getLinkColor(up, errors),
+    width: isBackbone ? bandwidthToWidth(link.rate) : 1.5,
+    dash: up ? "0" : "5,5",
+    opacity: isBackbone ? 0.7 : !up || errors > 0 ? 0.6 : 0.15,
+    tooltip:
+      `${link.source.label} → ${link.target.label}\n` +
+      `Cable: ${link.cableId}` +
+      (cable ? ` (${cable.type} ${cable.lengthMeters}m)` : "") +
+      `\nStatus: ${up ? "active" : "down"}\n` +
+      `Speed: ${bandwidthLabel(link.rate)}\nPort Errors: ${errors}`,
+  };
+}
+
+function hostErrorCount(cluster: ClusterConfig, nodeId: string): number {
+  const host = cluster.nodes.find((n) => n.id === nodeId);
+  return (
+    host?.hcas.reduce(
+      (sum, hca) =>
+        sum +
+        hca.ports.reduce(
+          (portSum, port) =>
+            portSum +
+            port.errors.symbolErrors +
+            port.errors.portRcvErrors +
+            port.errors.linkDowned,
+          0,
+        ),
+      0,
+    ) ?? 0
+  );
 }
 
 // Stable empty arrays to prevent unnecessary re-renders
@@ -133,11 +199,10 @@ const EMPTY_SWITCH_ARRAY: string[] = [];
 
 export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
   cluster,
-  fabricConfig: fabricConfigProp,
   highlightedNodes,
   highlightedSwitches,
 }) => {
-  const fabricConfig = fabricConfigProp || deriveFabricConfig(cluster);
+  const fabric = useMemo(() => getFabric(cluster), [cluster]);
   // Use stable references for empty arrays to prevent D3 useEffect re-runs
   const stableHighlightedNodes = highlightedNodes?.length
     ? highlightedNodes
@@ -150,16 +215,18 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
   const particleGroupRef = useRef<SVGGElement | null>(null);
   const detailPanelRef = useRef<HTMLDivElement>(null);
   const clusterRef = useRef(cluster); // Ref to access current cluster data in click handlers
+  const fabricRef = useRef(fabric);
   const isRunning = useSimulationStore((state) => state.isRunning);
   const reducedMotion = useReducedMotion();
   const [selectedNode, setSelectedNode] = useState<NetworkNodeType | null>(
     null,
   );
 
-  // Keep ref updated with latest cluster data
+  // Keep refs updated with latest cluster data
   useEffect(() => {
     clusterRef.current = cluster;
-  }, [cluster]);
+    fabricRef.current = fabric;
+  }, [cluster, fabric]);
 
   // Close panel when clicking anywhere outside of it
   useEffect(() => {
@@ -180,78 +247,30 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
     return () => document.removeEventListener("click", handleClickOutside);
   }, [selectedNode]);
 
-  // Calculate animation links from fabric topology
+  // Calculate animation links from the fabric's cables
   const animationLinks: AnimationLink[] = useMemo(() => {
-    const links: AnimationLink[] = [];
-
-    // Proportional Y positions (fraction of height)
-    const spineY = height * 0.15;
-    const leafY = height * 0.45;
-    const hostY = height * 0.8;
-
-    // Spine positions (use config)
-    const spineCount = fabricConfig.spineCount;
-    const spineNodes = Array.from({ length: spineCount }, (_, i) => ({
-      id: `spine-${i}`,
-      x: (width / (spineCount + 1)) * (i + 1),
-      y: spineY,
-    }));
-
-    // Leaf positions (use config, capped by cluster size)
-    const leafCount = Math.min(cluster.nodes.length, fabricConfig.leafCount);
-    const leafNodes = Array.from({ length: leafCount }, (_, i) => ({
-      id: `leaf-${i}`,
-      x: (width / (leafCount + 1)) * (i + 1),
-      y: leafY,
-    }));
-
-    // Host positions
-    const nodeSpacing = width / (cluster.nodes.length + 1);
-    const hostNodes = cluster.nodes.map((node, idx) => ({
-      id: node.id,
-      x: nodeSpacing * (idx + 1),
-      y: hostY,
-      active: node.hcas.some((hca) =>
-        hca.ports.some((p) => p.state === "Active"),
-      ),
-      utilization:
-        node.gpus.reduce((sum, g) => sum + g.utilization, 0) / node.gpus.length,
-    }));
-
-    // Spine to Leaf links (higher bandwidth backbone)
-    spineNodes.forEach((spine) => {
-      leafNodes.forEach((leaf) => {
-        links.push({
-          id: `${spine.id}-${leaf.id}`,
-          sourceX: spine.x,
-          sourceY: spine.y,
-          targetX: leaf.x,
-          targetY: leaf.y,
-          active: true,
-          utilization: 30 + Math.random() * 40, // Simulated backbone traffic
-          bidirectional: true,
-        });
-      });
+    const { links } = layoutFabric(cluster, fabric, width, height);
+
+    return links.map((link) => {
+      const cable = fabric.cables.find((c) => c.id === link.cableId);
+      const active = cable ? isCableUp(cluster, fabric, cable) : false;
+      const host = cluster.nodes.find((n) => n.id === link.target.id);
+      const utilization = host
+        ? host.gpus.reduce((sum, g) => sum + g.utilization, 0) /
+          host.gpus.length
+        : 30 + Math.random() * 40; // Simulated backbone traffic
+      return {
+        id: link.cableId,
+        sourceX: link.source.x,
+        sourceY: link.source.y,
+        targetX: link.target.x,
+        targetY: link.target.y,
+        active,
+        utilization: active ? utilization : 0,
+        bidirectional: true,
+      };
     });
-
-    // Leaf to Host links (rail-optimized: each host connects to ALL leafs)
-    hostNodes.forEach((host) => {
-      leafNodes.forEach((leaf) => {
-        links.push({
-          id: `${leaf.id}-${host.id}`,
-          sourceX: leaf.x,
-          sourceY: leaf.y,
-          targetX: host.x,
-          targetY: host.y,
-          active: host.active,
-          utilization: host.active ? host.utilization : 0,
-          bidirectional: true,
-        });
-      });
-    });
-
-    return links;
-  }, [cluster, fabricConfig, width, height]);
+  }, [cluster, fabric, width, height]);
 
   // Disable particle animations when user prefers reduced motion
   const { particleCount } = useNetworkAnimation({
@@ -260,6 +279,12 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
     renderTarget: particleGroupRef,
   });
 
+  // Redraw only when the fabric's shape changes, not on every port update
+  const structureKey = `${cluster.nodes.length}:${fabric.switches.length}:${fabric.cables.length}`;
+  const isRailOptimized =
+    cluster.fabricTopology !== "FatTree" &&
+    cluster.fabricTopology !== "DragonFly";
+
   useEffect(() => {
     if (!svgRef.current) return;
 
@@ -272,9 +297,7 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
       .attr("height", height)
       .attr("viewBox", `0 0 ${width} ${height}`);
 
-    // Create fabric topology using config
-    const nodes: FabricNode[] = [];
-    const links: FabricLink[] = [];
+    const { nodes, links } = layoutFabric(cluster, fabric, width, height);
 
     // Proportional Y positions (fraction of height)
     const spineY = height * 0.15;
@@ -284,78 +307,7 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
     // Scale node sizes based on container width
     const scaleFactor = Math.max(0.5, Math.min(1, width / 1000));
 
-    // Spine switches (top tier) - use config
-    const spineCount = fabricConfig.spineCount;
-    for (let i = 0; i < spineCount; i++) {
-      nodes.push({
-        id: `spine-${i}`,
-        type: "spine",
-        label: `Spine Switch ${i + 1}`,
-        status: "active",
-        x: (width / (spineCount + 1)) * (i + 1),
-        y: spineY,
-      });
-    }
-
-    // Leaf switches (middle tier) - use config, capped by cluster size
-    const leafCount = Math.min(cluster.nodes.length, fabricConfig.leafCount);
-    for (let i = 0; i < leafCount; i++) {
-      nodes.push({
-        id: `leaf-${i}`,
-        type: "leaf",
-        label: `R${i}`,
-        status: "active",
-        x: (width / (leafCount + 1)) * (i + 1),
-        y: leafY,
-      });
-    }
-
-    // Host nodes (bottom tier)
-    const nodeSpacing = width / (cluster.nodes.length + 1);
-    cluster.nodes.forEach((node, idx) => {
-      // Check if any InfiniBand port is active
-      const hasActiveIB = node.hcas.some((hca) =>
-        hca.ports.some((port) => port.state === "Active"),
-      );
-      nodes.push({
-        id: node.id,
-        type: "host",
-        label: node.id,
-        status: hasActiveIB ? "active" : "down",
-        x: nodeSpacing * (idx + 1),
-        y: hostY,
-      });
-    });
-
-    // Create links: Spine to Leaf (full mesh)
-    const spineNodes = nodes.filter((n) => n.type === "spine");
-    const leafNodes = nodes.filter((n) => n.type === "leaf");
-    const hostNodes = nodes.filter((n) => n.type === "host");
-
-    spineNodes.forEach((spine) => {
-      leafNodes.forEach((leaf) => {
-        links.push({
-          source: spine,
-          target: leaf,
-          status: "active",
-          speed: bandwidthLabel(fabricConfig.spineToLeafBandwidth),
-        });
-      });
-    });
-
-    // Create links: Leaf to Hosts (rail-optimized: each host connects to ALL leafs)
-    hostNodes.forEach((host) => {
-      leafNodes.forEach((leaf) => {
-        links.push({
-          source: leaf,
-          target: host,
-          status: host.status === "active" ? "active" : "down",
-          speed: bandwidthLabel(fabricConfig.leafToHostBandwidth),
-        });
-      });
-    });
-
-    // Draw links with error-based coloring
+    // Draw one link per cable with error-based coloring
     const linkGroup = svg.append("g").attr("class", "links");
 
     linkGroup
@@ -363,71 +315,22 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
       .data(links)
       .enter()
       .append("line")
+      .attr("data-cable-id", (d) => d.cableId)
       .attr("data-link-source", (d) => d.source.id)
       .attr("data-link-target", (d) => d.target.id)
       .attr("x1", (d) => d.source.x)
       .attr("y1", (d) => d.source.y)
       .attr("x2", (d) => d.target.x)
       .attr("y2", (d) => d.target.y)
-      .attr("stroke", (d) => {
-        // For host links, check host's port errors
-        if (d.target.type === "host") {
-          const hostNode = cluster.nodes.find((n) => n.id === d.target.id);
-          return getLinkColor(hostNode, d.status);
-        }
-        // Spine-leaf links use simple status
-        return d.status === "active" ? "#10B981" : "#EF4444";
-      })
-      .attr("stroke-width", (d) => {
-        const isBackbone =
-          d.source.type === "spine" || d.target.type === "spine";
-        if (isBackbone)
-          return bandwidthToWidth(fabricConfig.spineToLeafBandwidth);
-        return 1.5;
-      })
-      .attr("stroke-dasharray", (d) => (d.status === "active" ? "0" : "5,5"))
-      .attr("opacity", (d) => {
-        const isHostLink = d.target.type === "host";
-        if (!isHostLink) return 0.7;
-        const hostNode = cluster.nodes.find((n) => n.id === d.target.id);
-        const totalErrors =
-          hostNode?.hcas.reduce(
-            (sum, hca) =>
-              sum +
-              hca.ports.reduce(
-                (portSum, port) =>
-                  portSum +
-                  port.errors.symbolErrors +
-                  port.errors.portRcvErrors,
-                0,
-              ),
-            0,
-          ) || 0;
-        if (totalErrors > 0) return 0.6;
-        return 0.15;
-      })
-      .append("title")
-      .text((d) => {
-        let tooltip = `${d.source.label} → ${d.target.label}\nStatus: ${d.status}\nSpeed: ${d.speed}`;
-        if (d.target.type === "host") {
-          const hostNode = cluster.nodes.find((n) => n.id === d.target.id);
-          if (hostNode) {
-            const totalErrors = hostNode.hcas.reduce(
-              (sum, hca) =>
-                sum +
-                hca.ports.reduce(
-                  (portSum, port) =>
-                    portSum +
-                    port.errors.symbolErrors +
-                    port.errors.portRcvErrors,
-                  0,
-                ),
-              0,
-            );
-            tooltip += `\nPort Errors: ${totalErrors}`;
-          }
-        }
-        return tooltip;
+      .each(function (d) {
+        const style = getLinkStyle(cluster, fabric, d);
+        d3.select(this)
+          .attr("stroke", style.color)
+          .attr("stroke-width", style.width)
+          .attr("stroke-dasharray", style.dash)
+          .attr("opacity", style.opacity)
+          .append("title")
+          .text(style.tooltip);
       });
 
     // Invisible wider lines for click detection on IB links
@@ -447,44 +350,39 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
       .style("cursor", "pointer")
       .on("click", function (event, d) {
         event.stopPropagation();
-        const hostNode = clusterRef.current.nodes.find(
-          (n) => n.id === d.target.id,
-        );
-
-        // Collect port info from host (if target is a host)
-        const ports = hostNode
-          ? hostNode.hcas.flatMap((hca) =>
-              hca.ports.map((p) => ({
-                portNumber: p.portNumber,
-                state: p.state,
-                rate: p.rate,
-                errors: {
-                  symbolErrors: p.errors.symbolErrors,
-                  linkDowned: p.errors.linkDowned,
-                  portRcvErrors: p.errors.portRcvErrors,
-                  portXmitDiscards: p.errors.portXmitDiscards,
+        const currentCluster = clusterRef.current;
+        const currentFabric = fabricRef.current;
+        const cable = currentFabric.cables.find((c) => c.id === d.cableId);
+
+        // Collect port info from both ends of the cable
+        const ports = (cable?.ends ?? []).flatMap((end) => {
+          const p = getEndPort(currentCluster, currentFabric, end);
+          return p
+            ? [
+                {
+                  portNumber: p.portNumber,
+                  state: p.state,
+                  rate: p.rate,
+                  errors: {
+                    symbolErrors: p.errors.symbolErrors,
+                    linkDowned: p.errors.linkDowned,
+                    portRcvErrors: p.errors.portRcvErrors,
+                    portXmitDiscards: p.errors.portXmitDiscards,
+                  },
                 },
-              })),
-            )
-          : [];
-
-        const totalErrors = ports.reduce(
-          (sum, p) =>
-            sum +
-            p.errors.symbolErrors +
-            p.errors.portRcvErrors +
-            p.errors.linkDowned,
-          0,
-        );
+              ]
+            : [];
+        });
+        const style = getLinkStyle(currentCluster, currentFabric, d);
 
         setSelectedNode({
           type: "iblink",
           data: {
             sourceLabel: d.source.label,
             targetLabel: d.target.label,
-            speed: d.speed,
-            status: d.status,
-            totalErrors,
+            speed: bandwidthLabel(d.rate),
+            status: style.up ? "active" : "down",
+            totalErrors: style.errors,
             ports,
           },
         });
@@ -660,37 +558,20 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
       .on("mouseover", function (_event, d) {
         d3.select(this).select("rect,circle,polygon").attr("opacity", 1);
 
-        // Determine which link IDs are connected to this node
-        const connectedSet = new Set<string>();
-
-        if (d.type === "host") {
-          // Host → highlight leaf-host links for this host
-          links
-            .filter((l) => l.target.id === d.id)
-            .forEach((l) => connectedSet.add(`${l.source.id}|${l.target.id}`));
-        } else if (d.type === "leaf") {
-          // Leaf → highlight spine-leaf links AND leaf-host links for this leaf
+        // Cables plugged into this node
+        const connectedSet = new Set(
           links
             .filter((l) => l.source.id === d.id || l.target.id === d.id)
-            .forEach((l) => connectedSet.add(`${l.source.id}|${l.target.id}`));
-        } else if (d.type === "spine") {
-          // Spine → highlight spine-leaf links for this spine
-          links
-            .filter((l) => l.source.id === d.id)
-            .forEach((l) => connectedSet.add(`${l.source.id}|${l.target.id}`));
-        }
+            .map((l) => l.cableId),
+        );
 
         // Brighten connected links, dim the rest
         svg
           .select("g.links")
-          .selectAll("line")
-          .each(function () {
+          .selectAll<SVGLineElement, FabricLink>("line")
+          .each(function (link) {
             const line = d3.select(this);
-            const src = line.attr("data-link-source");
-            const tgt = line.attr("data-link-target");
-            if (!src || !tgt) return;
-            const key = `${src}|${tgt}`;
-            if (connectedSet.has(key)) {
+            if (connectedSet.has(link.cableId)) {
               line
                 .attr("stroke", "#4ade80")
                 .attr("stroke-width", 3.5)
@@ -703,149 +584,77 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
       .on("mouseout", function () {
         d3.select(this).select("rect,circle,polygon").attr("opacity", 0.9);
 
-        // Reset all visible links to their default styles
+        // Reset all visible links to their current styles
         svg
           .select("g.links")
-          .selectAll("line")
-          .each(function () {
-            const line = d3.select(this);
-            const tgt = line.attr("data-link-target");
-            if (!tgt) return;
-            const isHostLink =
-              tgt.startsWith("dgx-") || tgt.startsWith("node-");
-            if (isHostLink) {
-              const hostNode = clusterRef.current.nodes.find(
-                (n) => n.id === tgt,
-              );
-              const baseStatus: "active" | "down" = hostNode?.hcas.some((hca) =>
-                hca.ports.some((p) => p.state === "Active"),
-              )
-                ? "active"
-                : "down";
-              const color = getLinkColor(hostNode, baseStatus);
-              const totalErrors =
-                hostNode?.hcas.reduce(
-                  (sum, hca) =>
-                    sum +
-                    hca.ports.reduce(
-                      (ps, port) =>
-                        ps +
-                        port.errors.symbolErrors +
-                        port.errors.portRcvErrors,
-                      0,
-                    ),
-                  0,
-                ) || 0;
-              line
-                .attr("stroke", color)
-                .attr("stroke-width", 1.5)
-                .attr("opacity", totalErrors > 0 ? 0.6 : 0.15);
-            } else {
-              // Spine-leaf link
-              line
-                .attr("stroke", "#10B981")
-                .attr(
-                  "stroke-width",
-                  bandwidthToWidth(fabricConfig.spineToLeafBandwidth),
-                )
-                .attr("opacity", 0.7);
-            }
+          .selectAll<SVGLineElement, FabricLink>("line")
+          .each(function (link) {
+            const style = getLinkStyle(
+              clusterRef.current,
+              fabricRef.current,
+              link,
+            );
+            d3.select(this)
+              .attr("stroke", style.color)
+              .attr("stroke-width", style.width)
+              .attr("opacity", style.opacity);
           });
       })
       .on("click", function (event, d) {
         event.stopPropagation();
+        const currentCluster = clusterRef.current;
+        const currentFabric = fabricRef.current;
         if (d.type === "spine" || d.type === "leaf") {
-          // Calculate connected nodes based on switch type
-          const connectedNodes: string[] = [];
-          let portCount: number;
-          let bandwidth: string;
-
-          if (d.type === "spine") {
-            // Spine connects to all leaf switches
-            portCount = leafCount * 2; // 2 ports per leaf connection for redundancy
-            bandwidth = bandwidthLabel(fabricConfig.spineToLeafBandwidth);
-            for (let i = 0; i < leafCount; i++) {
-              connectedNodes.push(`Leaf ${i + 1}`);
-            }
-          } else {
-            // Leaf (Rail) connects to ALL hosts + spines
-            portCount = spineCount + hostNodes.length;
-            bandwidth = bandwidthLabel(fabricConfig.leafToHostBandwidth);
+          const sw = findSwitch(currentFabric, d.id);
+          if (!sw) return;
 
-            hostNodes.forEach((h) => {
-              connectedNodes.push(h.label.replace("dgx-", ""));
-            });
-          }
+          // Everything cabled to this switch, as the tools describe it
+          const connectedNodes = currentFabric.cables.flatMap((cable) => {
+            const end = cable.ends.find(
+              (e) => e.kind === "switch" && e.switchId === sw.id,
+            );
+            return end
+              ? [
+                  describeEnd(
+                    currentCluster,
+                    currentFabric,
+                    peerEnd(cable, end),
+                  ),
+                ]
+              : [];
+          });
+          const activePorts = sw.ports.filter((p) => p.state === "Active");
+          const rate = sw.ports[0]?.rate ?? 400;
 
           // Deterministic switch metrics
           const switchIdx = parseInt(d.id.split("-")[1]);
           const baseTemp = d.type === "spine" ? 52 : 48;
           const switchTemp = baseTemp + ((switchIdx * 3) % 10);
 
-          // Calculate active port count from connected hosts' HCA state
-          let computedActivePortCount = 0;
-          if (d.type === "spine") {
-            // Spine: all leaf ports assumed active when spine is active
-            computedActivePortCount = d.status === "active" ? portCount : 0;
-          } else {
-            // Leaf (Rail): count hosts with active HCA for this rail
-            const leafIdx = parseInt(d.id.split("-")[1]);
-            let activeHosts = 0;
-            clusterRef.current.nodes.forEach((host) => {
-              const hca = host.hcas[leafIdx];
-              if (hca?.ports.some((p) => p.state === "Active")) {
-                activeHosts++;
-              }
-            });
-            computedActivePortCount = spineCount + activeHosts;
-          }
-
-          // Derive throughput from connected hosts' HCA port rates
-          const connectedHosts =
-            d.type === "spine"
-              ? clusterRef.current.nodes
-              : clusterRef.current.nodes; // Rail connects to ALL hosts
-          const activePortRate = connectedHosts.reduce(
-            (sum, host) =>
-              sum +
-              host.hcas.reduce(
-                (hcaSum, hca) =>
-                  hcaSum +
-                  hca.ports
-                    .filter((p) => p.state === "Active")
-                    .reduce((portSum, p) => portSum + p.rate, 0),
-                0,
-              ),
-            0,
-          );
           // Convert Gb/s to GB/s (divide by 8)
-          const throughput = Math.round(activePortRate / 8);
+          const throughput = Math.round(
+            activePorts.reduce((sum, p) => sum + p.rate, 0) / 8,
+          );
 
           setSelectedNode({
             type: "switch",
             data: {
               id: d.id,
               switchType: d.type,
-              status: d.status === "active" ? "active" : "down",
-              portCount,
-              activePortCount: computedActivePortCount,
-              bandwidth,
+              status: activePorts.length > 0 ? "active" : "down",
+              portCount: sw.ports.length,
+              activePortCount: activePorts.length,
+              bandwidth: bandwidthLabel(rate),
               connectedNodes,
               throughput,
               temperature: switchTemp,
-              model: getSwitchModel(
-                d.type === "spine"
-                  ? fabricConfig.spineToLeafBandwidth
-                  : fabricConfig.leafToHostBandwidth,
-              ),
-              firmwareVersion: "29.2008.1234",
+              model: `NVIDIA ${sw.model} (${getIBStandardName(rate)})`,
+              firmwareVersion: sw.firmwareVersion,
             },
           });
         } else if (d.type === "host") {
           // Use ref to get current cluster data without triggering re-render
-          const clusterNode = clusterRef.current.nodes.find(
-            (n) => n.id === d.id,
-          );
+          const clusterNode = currentCluster.nodes.find((n) => n.id === d.id);
           if (clusterNode) {
             setSelectedNode({
               type: "host",
@@ -882,13 +691,15 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
       .attr("font-size", `${labelFontSize}px`)
       .attr("font-weight", "bold");
     leafLabel.append("tspan").text("Leaf Tier");
-    leafLabel
-      .append("tspan")
-      .attr("x", 10)
-      .attr("dy", "1.2em")
-      .attr("font-size", `${Math.max(9, 12 * scaleFactor)}px`)
-      .attr("font-weight", "normal")
-      .text("(Rails)");
+    if (isRailOptimized) {
+      leafLabel
+        .append("tspan")
+        .attr("x", 10)
+        .attr("dy", "1.2em")
+        .attr("font-size", `${Math.max(9, 12 * scaleFactor)}px`)
+        .attr("font-weight", "normal")
+        .text("(Rails)");
+    }
 
     svg
       .append("text")
@@ -906,96 +717,67 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
       .attr("class", "particles")
       .attr("pointer-events", "none")
       .node();
-    // Only depend on structural changes (node count, config), NOT on metrics that change every tick
-    // Dynamic data updates are handled by clusterRef in click handlers
+    // Only depend on structural changes (fabric shape), NOT on port state that changes every tick
+    // Dynamic data updates are handled by the effect below and by refs in click handlers
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
-    cluster.nodes.length,
-    fabricConfig,
+    structureKey,
     stableHighlightedNodes,
     stableHighlightedSwitches,
     width,
     height,
   ]);
 
-  // Dynamic update effect: update link/node colors when HCA state changes
+  // Dynamic update effect: update link/node colors when port state changes
   useEffect(() => {
     if (!svgRef.current) return;
 
     const svg = d3.select(svgRef.current);
-    const linkGroup = svg.select("g.links");
     const nodeGroup = svg.select("g.nodes");
 
-    // Update host-link colors based on current HCA state
-    linkGroup.selectAll("line").each(function () {
-      const line = d3.select(this);
-      const targetId = line.attr("data-link-target");
-      if (!targetId) return;
-
-      // Only update host links (target is a host node id, not spine/leaf)
-      const hostNode = cluster.nodes.find((n) => n.id === targetId);
-      if (!hostNode) return;
-
-      const hasActivePort = hostNode.hcas.some((hca) =>
-        hca.ports.some((p) => p.state === "Active"),
-      );
-      const baseStatus: "active" | "down" = hasActivePort ? "active" : "down";
-      const color = getLinkColor(hostNode, baseStatus);
-
-      line
-        .attr("stroke", color)
-        .attr("stroke-dasharray", hasActivePort ? "0" : "5,5");
-
-      // Update tooltip
-      const totalErrors = hostNode.hcas.reduce(
-        (sum, hca) =>
-          sum +
-          hca.ports.reduce(
-            (portSum, port) =>
-              portSum +
-              port.errors.symbolErrors +
-              port.errors.portRcvErrors +
-              port.errors.linkDowned,
-            0,
-          ),
-        0,
-      );
-      line.select("title").text((d) => {
-        const data = d as FabricLink;
-        return `${data.source.label} → ${data.target.label}\nStatus: ${baseStatus}\nPort Errors: ${totalErrors}`;
+    // Update link colors and tooltips from the current cable state
+    svg
+      .select("g.links")
+      .selectAll<SVGLineElement, FabricLink>("line")
+      .each(function (link) {
+        const style = getLinkStyle(cluster, fabric, link);
+        const line = d3.select(this);
+        line
+          .attr("stroke", style.color)
+          .attr("stroke-width", style.width)
+          .attr("stroke-dasharray", style.dash)
+          .attr("opacity", style.opacity);
+        line.select("title").text(style.tooltip);
       });
-    });
 
-    // Update host node circle fill and error badges based on HCA state
+    // Update node fills and host error badges
     nodeGroup.selectAll("g").each(function () {
       const group = d3.select(this);
       const nodeId = group.attr("data-node-id");
       if (!nodeId) return;
 
+      const sw = findSwitch(fabric, nodeId);
+      if (sw) {
+        const active = sw.ports.some((p) => p.state === "Active");
+        const activeFill = sw.tier === "spine" ? "#3B82F6" : "#8B5CF6";
+        group
+          .select(sw.tier === "spine" ? "rect:not(.highlight-ring)" : "polygon")
+          .attr("fill", active ? activeFill : "#EF4444");
+        return;
+      }
+
       const hostNode = cluster.nodes.find((n) => n.id === nodeId);
-      if (!hostNode) return; // Skip spine/leaf switches
+      if (!hostNode) return;
 
       const hasActivePort = hostNode.hcas.some((hca) =>
         hca.ports.some((p) => p.state === "Active"),
       );
       group
-        .select("circle:not(.error-badge)")
+        .select("circle:not(.error-badge):not(.highlight-ring)")
         .attr("fill", hasActivePort ? "#10B981" : "#EF4444");
 
       // Update error badge
-      const totalErrors = hostNode.hcas.reduce(
-        (sum, hca) =>
-          sum +
-          hca.ports.reduce(
-            (portSum, port) =>
-              portSum +
-              port.errors.symbolErrors +
-              port.errors.portRcvErrors +
-              port.errors.linkDowned,
-            0,
-          ),
-        0,
-      );
+      const totalErrors = hostErrorCount(cluster, nodeId);
       const badge = group.select("circle.error-badge");
       const badgeText = group.select("text.error-badge-text");
 
@@ -1009,12 +791,15 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
         badgeText.attr("display", "none");
       }
     });
-  }, [cluster.nodes]);
+  }, [cluster, fabric]);
 
-  const totalLinks = cluster.nodes.length;
-  const activeLinks = cluster.nodes.filter((n) =>
-    n.hcas.some((hca) => hca.ports.some((port) => port.state === "Active")),
+  const totalLinks = fabric.cables.length;
+  const activeLinks = fabric.cables.filter((cable) =>
+    isCableUp(cluster, fabric, cable),
   ).length;
+  const spineCount = fabric.switches.filter((sw) => sw.tier === "spine").length;
+  const leafCount = fabric.switches.length - spineCount;
+  const linkRate = fabric.switches[0]?.ports[0]?.rate ?? 400;
 
   return (
     <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 relative">
@@ -1119,17 +904,14 @@ export const InfiniBandMap: React.FC<InfiniBandMapProps> = ({
           connections.
         </p>
         <p>
-          • Rail-optimized fat-tree: {fabricConfig.spineCount} spine,{" "}
-          {fabricConfig.leafCount} rail (leaf) switches
-        </p>
-        <p>
-          • Each host connects to all {fabricConfig.leafCount} rails (HCA N →
-          Rail N)
-        </p>
-        <p>
-          • Spine↔Leaf: {bandwidthLabel(fabricConfig.spineToLeafBandwidth)} |
-          Rail↔Host: {bandwidthLabel(fabricConfig.leafToHostBandwidth)}
+          • {isRailOptimized ? "Rail-optimized fat-tree" : "Fat-tree"}:{" "}
+          {spineCount} spine, {leafCount} {isRailOptimized ? "rail" : "leaf"}{" "}
+          switches, {totalLinks} cables
         </p>
+        {isRailOptimized && (
+          <p>• Each host connects to every rail (HCA N → Rail N)</p>
+        )}
+        <p>• Spine↔Leaf and Leaf↔Host: {bandwidthLabel(linkRate)}</p>
       </div>
     </div>
   );
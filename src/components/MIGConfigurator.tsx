@@ -3,128 +3,111 @@
  *
  * Interactive visual tool for configuring Multi-Instance GPU (MIG) partitions.
  * Shows GPU memory/compute slices and allows drag-and-drop partition creation.
+ * Profiles and placement rules come from the MIG engine for the GPU's system,
+ * so the tool agrees with nvidia-smi mig; Apply writes the instances to the
+ * GPU the same way the CLI does.
  */
 
 import React, { useState, useCallback, useMemo } from 'react';
-import type { GPU } from '@/types/hardware';
+import type { GPU, MIGInstance, MIGProfile } from '@/types/hardware';
+import type { StateMutator } from '@/simulators/BaseSimulator';
+import { useSimulationStore } from '@/store/simulationStore';
+import { scenarioContextManager } from '@/store/scenarioContext';
+import { getHardwareSpecs } from '@/data/hardwareSpecs';
+import {
+  MIG_COMPUTE_SLICES,
+  MIG_MEMORY_SLICES,
+  createGpuInstance,
+  findMigProfile,
+  freeInstanceCount,
+  getGpuSpec,
+  getMigProfiles,
+  placedInstances,
+  usedComputeSlices,
+} from '@/utils/migEngine';
 import { Layers, Check, X, AlertTriangle, Plus, Trash2 } from 'lucide-react';
 
 interface MIGConfiguratorProps {
   gpu: GPU;
-  onApply?: (instances: MIGProfile[]) => void;
+  nodeId?: string; // Node the GPU is on, the selected node by default
+  systemType?: string; // Picks the profiles, found from the GPU model by default
+  onApply?: (instances: MIGInstance[]) => void;
   className?: string;
 }
 
-// MIG Profile definitions for A100/H100
-interface MIGProfile {
-  id: number;
-  name: string;
-  memoryGB: number;
-  smCount: number;
-  maxInstances: number;
-  slices: number; // How many 1/7 slices it uses
-  color: string;
-}
+const PROFILE_COLORS: Record<number, string> = {
+  19: '#3B82F6',
+  20: '#06B6D4',
+  15: '#8B5CF6',
+  14: '#10B981',
+  9: '#F59E0B',
+  5: '#F97316',
+  0: '#EF4444',
+};
 
-const MIG_PROFILES: MIGProfile[] = [
-  { id: 19, name: '1g.5gb', memoryGB: 5, smCount: 14, maxInstances: 7, slices: 1, color: '#3B82F6' },
-  { id: 20, name: '1g.10gb', memoryGB: 10, smCount: 14, maxInstances: 4, slices: 1, color: '#06B6D4' },
-  { id: 14, name: '2g.10gb', memoryGB: 10, smCount: 28, maxInstances: 3, slices: 2, color: '#10B981' },
-  { id: 9, name: '3g.20gb', memoryGB: 20, smCount: 42, maxInstances: 2, slices: 3, color: '#F59E0B' },
-  { id: 5, name: '4g.20gb', memoryGB: 20, smCount: 56, maxInstances: 1, slices: 4, color: '#F97316' },
-  { id: 0, name: '7g.40gb', memoryGB: 40, smCount: 98, maxInstances: 1, slices: 7, color: '#EF4444' },
-];
-
-interface ConfiguredInstance {
-  profile: MIGProfile;
-  startSlice: number;
-  instanceId: number;
+/**
+ * The mutations the configurator applies, routed to ScenarioContext when
+ * active, otherwise to the global store.
+ */
+function getMutator(): Pick<StateMutator, 'updateGPU' | 'setMIGMode'> {
+  return scenarioContextManager.getActiveContext() ?? useSimulationStore.getState();
 }
 
 export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
   gpu,
+  nodeId,
+  systemType,
   onApply,
   className = '',
 }) => {
+  const selectedNode = useSimulationStore((state) => state.selectedNode);
+  const spec = useMemo(
+    () => (systemType ? getHardwareSpecs(systemType) : getGpuSpec(gpu)),
+    [systemType, gpu]
+  );
+  const profiles = getMigProfiles(spec);
+
   const [isEnabled, setIsEnabled] = useState(gpu.migMode);
-  const [instances, setInstances] = useState<ConfiguredInstance[]>([]);
-  const [, setSelectedProfile] = useState<MIGProfile | null>(null);
+  const [instances, setInstances] = useState<MIGInstance[]>(() =>
+    placedInstances(spec, gpu.migInstances)
+  );
   const [error, setError] = useState<string | null>(null);
 
-  // Calculate total slices used
-  const usedSlices = useMemo(() => {
-    return instances.reduce((sum, inst) => sum + inst.profile.slices, 0);
-  }, [instances]);
+  const profileOf = useCallback(
+    (instance: MIGInstance) => findMigProfile(spec, instance.profileId) as MIGProfile,
+    [spec]
+  );
+
+  // The GPU as it would be with the configured instances
+  const draft = useMemo(() => ({ ...gpu, migInstances: instances }), [gpu, instances]);
 
-  const availableSlices = 7 - usedSlices;
+  const usedSlices = usedComputeSlices(spec, instances);
+  const availableSlices = MIG_COMPUTE_SLICES - usedSlices;
+  const usedMemory = instances.reduce((sum, i) => sum + profileOf(i).memory, 0);
+  const usedSMs = instances.reduce((sum, i) => sum + profileOf(i).smCount, 0);
 
   // Get which profiles can still be added
   const availableProfiles = useMemo(() => {
-    return MIG_PROFILES.filter(profile => {
-      // Check if we have enough slices
-      if (profile.slices > availableSlices) return false;
-      // Check if we haven't exceeded max instances for this profile
-      const existingCount = instances.filter(i => i.profile.id === profile.id).length;
-      return existingCount < profile.maxInstances;
-    });
-  }, [instances, availableSlices]);
+    return profiles.filter(profile => freeInstanceCount(spec, draft, profile) > 0);
+  }, [profiles, spec, draft]);
 
-  // Add an instance
+  // Add an instance at the first placement its profile may take
   const addInstance = useCallback((profile: MIGProfile) => {
-    if (profile.slices > availableSlices) {
-      setError(`Not enough GPU slices available. Need ${profile.slices}, have ${availableSlices}.`);
-      return;
-    }
-
-    const existingCount = instances.filter(i => i.profile.id === profile.id).length;
-    if (existingCount >= profile.maxInstances) {
-      setError(`Maximum ${profile.maxInstances} instances of ${profile.name} allowed.`);
-      return;
-    }
-
-    // Find the next available starting slice
-    const usedSlicePositions = new Set<number>();
-    instances.forEach(inst => {
-      for (let i = inst.startSlice; i < inst.startSlice + inst.profile.slices; i++) {
-        usedSlicePositions.add(i);
-      }
+    const op = createGpuInstance(spec, draft, profile.id, {
+      defaultComputeInstance: true,
     });
-
-    // Find first available contiguous block
-    let startSlice = -1;
-    for (let i = 0; i <= 7 - profile.slices; i++) {
-      let available = true;
-      for (let j = 0; j < profile.slices; j++) {
-        if (usedSlicePositions.has(i + j)) {
-          available = false;
-          break;
-        }
-      }
-      if (available) {
-        startSlice = i;
-        break;
-      }
-    }
-
-    if (startSlice === -1) {
-      setError('No contiguous slice block available for this profile.');
+    if (op.error) {
+      setError(`Cannot add a ${profile.name} instance: ${op.error}.`);
       return;
     }
 
-    const newInstance: ConfiguredInstance = {
-      profile,
-      startSlice,
-      instanceId: instances.length,
-    };
-
-    setInstances([...instances, newInstance]);
+    setInstances(op.migInstances!);
     setError(null);
-    setSelectedProfile(null);
-  }, [instances, availableSlices]);
+  }, [spec, draft]);
 
   // Remove an instance
-  const removeInstance = useCallback((index: number) => {
-    setInstances(instances.filter((_, i) => i !== index));
+  const removeInstance = useCallback((id: number) => {
+    setInstances(instances.filter(i => i.id !== id));
     setError(null);
   }, [instances]);
 
@@ -135,25 +118,32 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
   }, []);
 
   // Apply configuration
+  const target = nodeId ?? selectedNode;
   const handleApply = useCallback(() => {
-    if (onApply) {
-      onApply(instances.map(i => i.profile));
+    if (target) {
+      const mutator = getMutator();
+      if (!gpu.migMode) {
+        mutator.setMIGMode(target, gpu.id, true);
+      }
+      mutator.updateGPU(target, gpu.id, { migInstances: instances });
     }
-  }, [instances, onApply]);
+    onApply?.(instances);
+  }, [target, gpu, instances, onApply]);
 
-  // Render the GPU slice visualization
+  // Render the GPU slice visualization. Placements are in memory slices.
   const renderSliceVisualization = () => {
     const slices: React.ReactNode[] = [];
-    const sliceWidth = 100 / 7;
+    const sliceWidth = 100 / MIG_MEMORY_SLICES;
 
     // Create base slices
-    for (let i = 0; i < 7; i++) {
+    for (let i = 0; i < MIG_MEMORY_SLICES; i++) {
       const instance = instances.find(
-        inst => i >= inst.startSlice && i < inst.startSlice + inst.profile.slices
+        inst => i >= inst.placement!.start && i < inst.placement!.start + inst.placement!.size
       );
 
-      const isFirstSlice = instance && i === instance.startSlice;
-      const isLastSlice = instance && i === instance.startSlice + instance.profile.slices - 1;
+      const isFirstSlice = instance && i === instance.placement!.start;
+      const isLastSlice =
+        instance && i === instance.placement!.start + instance.placement!.size - 1;
 
       slices.push(
         <div
@@ -161,7 +151,7 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
           className="relative h-full border-r border-gray-700 last:border-r-0 flex items-center justify-center"
           style={{
             width: `${sliceWidth}%`,
-            backgroundColor: instance ? instance.profile.color : '#374151',
+            backgroundColor: instance ? PROFILE_COLORS[instance.profileId] : '#374151',
             borderTopLeftRadius: isFirstSlice ? '0.5rem' : 0,
             borderBottomLeftRadius: isFirstSlice ? '0.5rem' : 0,
             borderTopRightRadius: isLastSlice ? '0.5rem' : 0,
@@ -172,7 +162,7 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
           {isFirstSlice && (
             <div className="absolute inset-0 flex items-center justify-center">
               <span className="text-white text-xs font-medium px-1 truncate">
-                {instance.profile.name}
+                {profileOf(instance).name}
               </span>
             </div>
           )}
@@ -223,9 +213,11 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
           {/* GPU Memory/Compute Visualization */}
           <div className="mb-4">
             <div className="flex items-center justify-between mb-2">
-              <span className="text-sm text-gray-400">GPU Slices (7 total)</span>
               <span className="text-sm text-gray-400">
-                {usedSlices}/7 used ({availableSlices} available)
+                GPU Slices ({MIG_MEMORY_SLICES} memory, {MIG_COMPUTE_SLICES} compute)
+              </span>
+              <span className="text-sm text-gray-400">
+                {usedSlices}/{MIG_COMPUTE_SLICES} compute used ({availableSlices} available)
               </span>
             </div>
             <div className="h-16 flex bg-gray-900 rounded-lg overflow-hidden border border-gray-700">
@@ -238,16 +230,15 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
             <div className="flex items-center justify-between mb-1">
               <span className="text-sm text-gray-400">Memory Allocation</span>
               <span className="text-sm text-gray-300">
-                {instances.reduce((sum, i) => sum + i.profile.memoryGB, 0)}GB /{' '}
-                {Math.round(gpu.memoryTotal / 1024)}GB
+                {usedMemory.toFixed(2)}GiB /{' '}
+                {Math.round(gpu.memoryTotal / 1024)}GiB
               </span>
             </div>
             <div className="h-4 bg-gray-900 rounded-full overflow-hidden">
               <div
                 className="h-full bg-gradient-to-r from-nvidia-green to-green-400 transition-all"
                 style={{
-                  width: `${(instances.reduce((sum, i) => sum + i.profile.memoryGB, 0) /
-                    (gpu.memoryTotal / 1024)) * 100}%`,
+                  width: `${(usedMemory / (gpu.memoryTotal / 1024)) * 100}%`,
                 }}
               />
             </div>
@@ -258,14 +249,14 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
             <div className="flex items-center justify-between mb-1">
               <span className="text-sm text-gray-400">Compute SMs</span>
               <span className="text-sm text-gray-300">
-                {instances.reduce((sum, i) => sum + i.profile.smCount, 0)} / 108 SMs
+                {usedSMs} / {spec.gpu.smCount} SMs
               </span>
             </div>
             <div className="h-4 bg-gray-900 rounded-full overflow-hidden">
               <div
                 className="h-full bg-gradient-to-r from-blue-500 to-cyan-400 transition-all"
                 style={{
-                  width: `${(instances.reduce((sum, i) => sum + i.profile.smCount, 0) / 108) * 100}%`,
+                  width: `${(usedSMs / spec.gpu.smCount) * 100}%`,
                 }}
               />
             </div>
@@ -275,9 +266,9 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
           <div className="mb-4">
             <h4 className="text-sm font-semibold text-gray-300 mb-2">Add MIG Instance</h4>
             <div className="grid grid-cols-3 gap-2">
-              {MIG_PROFILES.map((profile) => {
+              {profiles.map((profile) => {
                 const isAvailable = availableProfiles.includes(profile);
-                const existingCount = instances.filter(i => i.profile.id === profile.id).length;
+                const existingCount = instances.filter(i => i.profileId === profile.id).length;
 
                 return (
                   <button
@@ -290,7 +281,7 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
                         : 'bg-gray-800 opacity-50 cursor-not-allowed'
                     }`}
                     style={{
-                      borderLeft: `4px solid ${profile.color}`,
+                      borderLeft: `4px solid ${PROFILE_COLORS[profile.id]}`,
                     }}
                   >
                     <div className="flex items-center justify-between">
@@ -298,7 +289,7 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
                       <Plus className={`w-4 h-4 ${isAvailable ? 'text-gray-400' : 'text-gray-600'}`} />
                     </div>
                     <div className="text-xs text-gray-400 mt-1">
-                      {profile.memoryGB}GB | {profile.smCount} SMs
+                      {profile.memory}GiB | {profile.smCount} SMs
                     </div>
                     <div className="text-xs text-gray-500 mt-0.5">
                       {existingCount}/{profile.maxInstances} instances
@@ -323,27 +314,27 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
                 </button>
               </div>
               <div className="space-y-2">
-                {instances.map((instance, index) => (
+                {instances.map((instance) => (
                   <div
-                    key={index}
+                    key={instance.id}
                     className="flex items-center justify-between p-2 bg-gray-900 rounded-lg"
-                    style={{ borderLeft: `4px solid ${instance.profile.color}` }}
+                    style={{ borderLeft: `4px solid ${PROFILE_COLORS[instance.profileId]}` }}
                   >
                     <div className="flex items-center gap-3">
                       <div>
                         <span className="text-sm font-medium text-gray-200">
-                          MIG-GPU-{gpu.id}/{instance.instanceId}
+                          GPU instance {instance.id}
                         </span>
                         <span className="text-sm text-gray-400 ml-2">
-                          ({instance.profile.name})
+                          ({profileOf(instance).name})
                         </span>
                       </div>
                       <div className="text-xs text-gray-500">
-                        Slices {instance.startSlice}-{instance.startSlice + instance.profile.slices - 1}
+                        Placement {instance.placement!.start}:{instance.placement!.size}
                       </div>
                     </div>
                     <button
-                      onClick={() => removeInstance(index)}
+                      onClick={() => removeInstance(instance.id)}
                       className="p-1 text-gray-400 hover:text-red-400 rounded"
                     >
                       <X className="w-4 h-4" />
@@ -372,9 +363,16 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
                   <span className="text-gray-500 ml-2"># Enable MIG mode</span>
                 </div>
               )}
+              {gpu.migInstances.length > 0 && (
+                <div className="text-yellow-400">
+                  $ nvidia-smi mig -i {gpu.id} -dci && nvidia-smi mig -i {gpu.id} -dgi
+                  <span className="text-gray-500 ml-2"># Remove existing instances</span>
+                </div>
+              )}
               {instances.length > 0 && (
                 <div className="text-cyan-400">
-                  $ nvidia-smi mig -i {gpu.id} -cgi {instances.map(i => i.profile.id).join(',')} -C
+                  $ nvidia-smi mig -i {gpu.id} -cgi{' '}
+                  {instances.map(i => `${i.profileId}:${i.placement!.start}`).join(',')} -C
                   <span className="text-gray-500 ml-2"># Create instances</span>
                 </div>
               )}
@@ -387,7 +385,7 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
           </div>
 
           {/* Apply Button */}
-          {onApply && instances.length > 0 && (
+          {(onApply || target) && (instances.length > 0 || gpu.migInstances.length > 0) && (
             <button
               onClick={handleApply}
               className="w-full py-2 bg-nvidia-green text-black font-medium rounded-lg hover:bg-green-500 transition-colors flex items-center justify-center gap-2"
@@ -402,15 +400,15 @@ export const MIGConfigurator: React.FC<MIGConfiguratorProps> = ({
       {/* Info Panel */}
       <div className="mt-4 p-3 bg-gray-900 rounded-lg">
         <h4 className="text-xs font-semibold text-gray-300 mb-2">MIG Profile Reference</h4>
-        <div className="grid grid-cols-6 gap-2 text-xs">
-          {MIG_PROFILES.map((profile) => (
+        <div className="grid grid-cols-7 gap-2 text-xs">
+          {profiles.map((profile) => (
             <div
               key={profile.id}
               className="p-1.5 rounded text-center"
-              style={{ backgroundColor: profile.color + '40' }}
+              style={{ backgroundColor: PROFILE_COLORS[profile.id] + '40' }}
             >
               <div className="font-medium text-gray-200">{profile.name}</div>
-              <div className="text-gray-400">{profile.memoryGB}GB</div>
+              <div className="text-gray-400">{profile.memory}GiB</div>
             </div>
           ))}
         </div>
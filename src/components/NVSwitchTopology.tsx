@@ -3,15 +3,23 @@
  *
  * Shows the NVSwitch fabric connecting GPUs in a DGX system.
  * DGX A100/H100 uses 6 NVSwitches to create a fully-connected GPU topology.
+ * Links light up once Fabric Manager has trained them.
+ *
+ * Rack-scale systems (GB200 NVL72) show the whole NVLink domain instead:
+ * every compute tray with its Grace-Blackwell superchips, cabled to every
+ * NVLink switch tray of the rack.
  */
 
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import * as d3 from "d3";
 import type { DGXNode, GPU } from "@/types/hardware";
 import { useContainerSize } from "@/hooks/useContainerSize";
+import { getNVSwitchFabric } from "@/utils/nvswitchFabric";
+import { superchipOf, type NVLinkDomain } from "@/utils/nvlinkRack";
 
 interface NVSwitchTopologyProps {
   node: DGXNode;
+  domain?: NVLinkDomain; // Rack-scale systems: the node's NVLink domain
   onGPUClick?: (gpu: GPU) => void;
   onFaultInject?: (gpuId: number, faultType: string) => void;
   showDataFlow?: boolean;
@@ -40,8 +48,202 @@ interface GPUNode {
 
 type TopologyNode = SwitchNode | GPUNode;
 
+function toGPUNode(gpu: GPU, x: number, y: number): GPUNode {
+  return {
+    id: gpu.id,
+    type: "gpu",
+    name: `GPU ${gpu.id}`,
+    health: gpu.healthStatus,
+    utilization: gpu.utilization,
+    temperature: gpu.temperature,
+    x,
+    y,
+    gpu,
+  };
+}
+
+function gpuFill(health: string, temperature: number): string {
+  if (health === "Critical") return "#EF4444";
+  if (health === "Warning") return "#F59E0B";
+  if (temperature > 80) return "#F59E0B";
+  return "#1F2937";
+}
+
+/**
+ * Draw a rack-scale NVLink domain: compute trays down the left, each with
+ * its Grace CPUs and GPUs, and switch trays down the right. A tray-to-tray
+ * line is lit when every port between them is trained.
+ */
+function drawNVLinkDomain(
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  domain: NVLinkDomain,
+  node: DGXNode,
+  width: number,
+  height: number,
+  selectedGpuId: number | undefined,
+  onGPUSelect: (gpuNode: GPUNode) => void,
+): void {
+  const top = 30;
+  const trayRows = Math.max(domain.trays.length, 1);
+  const trayH = Math.min(40, (height - top * 2) / trayRows);
+  const switchH =
+    (height - top * 2) / Math.max(domain.rack.switchTrays.length, 1);
+  const trayX = 20;
+  const trayW = Math.min(320, width * 0.4);
+  const switchW = Math.min(180, width * 0.22);
+  const switchX = width - switchW - 20;
+
+  interface TrayLink {
+    y1: number;
+    y2: number;
+    active: boolean;
+    own: boolean;
+  }
+
+  const links: TrayLink[] = [];
+  domain.trays.forEach((tray, t) => {
+    const fabric = getNVSwitchFabric(tray);
+    domain.rack.switchTrays.forEach((switchTray, s) => {
+      const ports = switchTray.nvswitchIds.flatMap(
+        (id) => fabric.nvswitches[id]?.ports ?? [],
+      );
+      links.push({
+        y1: top + t * trayH + trayH / 2,
+        y2: top + s * switchH + switchH / 2,
+        active: ports.length > 0 && ports.every((p) => p.state === "Active"),
+        own: tray.id === node.id,
+      });
+    });
+  });
+
+  svg
+    .append("g")
+    .attr("class", "links")
+    .selectAll("line")
+    .data(links)
+    .enter()
+    .append("line")
+    .attr("x1", trayX + trayW)
+    .attr("y1", (d) => d.y1)
+    .attr("x2", switchX)
+    .attr("y2", (d) => d.y2)
+    .attr("stroke", (d) => (d.active ? "#76B900" : "#EF4444"))
+    .attr("stroke-width", (d) => (d.own ? 1.5 : 0.5))
+    .attr("stroke-dasharray", (d) => (d.active ? "0" : "3,3"))
+    .attr("opacity", (d) => (d.own ? 0.7 : 0.15))
+    .attr("class", "nvlink-line");
+
+  // Switch trays, two NVSwitch chips each
+  const switchGroups = svg
+    .append("g")
+    .attr("class", "switch-trays")
+    .selectAll("g")
+    .data(domain.rack.switchTrays)
+    .enter()
+    .append("g")
+    .attr(
+      "transform",
+      (_d, s) => `translate(${switchX}, ${top + s * switchH})`,
+    );
+
+  switchGroups
+    .append("rect")
+    .attr("width", switchW)
+    .attr("height", switchH - 6)
+    .attr("rx", 6)
+    .attr("fill", "url(#nvswitch-gradient)")
+    .attr("stroke", (d) => (d.healthStatus === "OK" ? "#76B900" : "#EF4444"))
+    .attr("stroke-width", 2);
+
+  switchGroups
+    .append("text")
+    .attr("x", 8)
+    .attr("y", (switchH - 6) / 2)
+    .attr("dy", "0.35em")
+    .attr("fill", "#fff")
+    .attr("font-size", "11px")
+    .attr("font-weight", "bold")
+    .text((d) => `Switch Tray ${d.id}: NVS ${d.nvswitchIds.join(", ")}`);
+
+  // Compute trays: Grace CPU followed by its GPUs, per superchip
+  const trayGroups = svg
+    .append("g")
+    .attr("class", "compute-trays")
+    .selectAll("g")
+    .data(domain.trays)
+    .enter()
+    .append("g")
+    .attr("transform", (_d, t) => `translate(${trayX}, ${top + t * trayH})`);
+
+  trayGroups
+    .append("rect")
+    .attr("width", trayW)
+    .attr("height", trayH - 4)
+    .attr("rx", 4)
+    .attr("fill", "#111827")
+    .attr("stroke", (d) => (d.id === node.id ? "#00D4FF" : "#374151"))
+    .attr("stroke-width", (d) => (d.id === node.id ? 2 : 1));
+
+  trayGroups
+    .append("text")
+    .attr("x", 6)
+    .attr("y", (trayH - 4) / 2)
+    .attr("dy", "0.35em")
+    .attr("fill", "#9CA3AF")
+    .attr("font-size", "10px")
+    .text((d) => `T${d.rackSlot?.tray ?? 0} ${d.id}`);
+
+  const cell = Math.max(8, trayH - 12);
+  trayGroups.each(function (tray) {
+    const group = d3.select(this);
+    let x = 90;
+    tray.gpus.forEach((gpu, i) => {
+      const superchip = superchipOf(tray, gpu.id);
+
+      // One Grace CPU in front of the first GPU of each superchip
+      if (i === 0 || superchip !== superchipOf(tray, tray.gpus[i - 1].id)) {
+        if (i > 0) x += 8;
+        group
+          .append("rect")
+          .attr("x", x)
+          .attr("y", 4)
+          .attr("width", cell)
+          .attr("height", cell)
+          .attr("rx", 2)
+          .attr("fill", "#0E7490")
+          .append("title")
+          .text(`Grace CPU ${superchip}`);
+        x += cell + 2;
+      }
+      const gpuX = x;
+      x += cell + 2;
+
+      const own = tray.id === node.id;
+      group
+        .append("rect")
+        .attr("x", gpuX)
+        .attr("y", 4)
+        .attr("width", cell)
+        .attr("height", cell)
+        .attr("rx", 2)
+        .attr("fill", gpuFill(gpu.healthStatus, gpu.temperature))
+        .attr("stroke", own && selectedGpuId === gpu.id ? "#00D4FF" : "#76B900")
+        .attr("stroke-width", own && selectedGpuId === gpu.id ? 2 : 1)
+        .style("cursor", own ? "pointer" : "default")
+        .on("click", (event) => {
+          if (!own) return;
+          event.stopPropagation();
+          onGPUSelect(toGPUNode(gpu, gpuX, 4));
+        })
+        .append("title")
+        .text(`${tray.id} GPU ${gpu.id}`);
+    });
+  });
+}
+
 export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
   node,
+  domain,
   onGPUClick,
   onFaultInject,
   showDataFlow = false,
@@ -51,6 +253,7 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
   const { containerRef, width, height } = useContainerSize(900, 600 / 900);
   const [selectedNode, setSelectedNode] = useState<GPUNode | null>(null);
   const [hoveredNode, setHoveredNode] = useState<TopologyNode | null>(null);
+  const fabricManagerState = getNVSwitchFabric(node).fabricManager.state;
 
   const handleNodeClick = useCallback(
     (gpuNode: GPUNode) => {
@@ -91,18 +294,30 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
       .attr("offset", "100%")
       .attr("stop-color", "#4a7c00");
 
-    // Create NVSwitch nodes (6 switches in DGX A100/H100)
-    const nvSwitches: SwitchNode[] = [];
-    for (let i = 0; i < 6; i++) {
-      nvSwitches.push({
-        id: `nvswitch-${i}`,
-        type: "nvswitch",
-        x: 200 + (i % 3) * 250,
-        y: 200 + Math.floor(i / 3) * 200,
-        health: "OK",
-      });
+    if (domain) {
+      drawNVLinkDomain(
+        svg,
+        domain,
+        node,
+        width,
+        height,
+        selectedNode?.id,
+        handleNodeClick,
+      );
+      return;
     }
 
+    const fabric = getNVSwitchFabric(node);
+
+    // Create NVSwitch nodes from the fabric (6 switches in DGX A100/H100)
+    const nvSwitches: SwitchNode[] = fabric.nvswitches.map((sw, i) => ({
+      id: `nvswitch-${i}`,
+      type: "nvswitch",
+      x: 200 + (i % 3) * 250,
+      y: 200 + Math.floor(i / 3) * 200,
+      health: sw.ports.some((p) => p.state === "Down") ? "Warning" : "OK",
+    }));
+
     // Create GPU nodes arranged in two rows
     const gpuNodes: GPUNode[] = node.gpus.map((gpu, idx) => ({
       id: gpu.id,
@@ -118,7 +333,7 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
     }));
 
     // Create links between GPUs and NVSwitches
-    // Each GPU connects to all 6 NVSwitches via NVLink
+    // Each GPU connects to every NVSwitch via one or more NVLinks
     interface LinkData {
       source: { x: number; y: number };
       target: { x: number; y: number };
@@ -130,15 +345,17 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
     const links: LinkData[] = [];
     gpuNodes.forEach((gpuNode) => {
       nvSwitches.forEach((switchNode, switchIdx) => {
-        // Check if this GPU's NVLinks are active
-        const nvlink =
-          gpuNode.gpu.nvlinks[switchIdx % gpuNode.gpu.nvlinks.length];
+        // Active when any of the switch's ports facing this GPU is trained
+        const ports = fabric.nvswitches[switchIdx].ports.filter(
+          (p) => p.gpuId === gpuNode.id,
+        );
+        if (ports.length === 0) return;
         links.push({
           source: { x: gpuNode.x, y: gpuNode.y },
           target: { x: switchNode.x, y: switchNode.y },
           gpuId: gpuNode.id,
           switchId: switchIdx,
-          active: nvlink?.status === "Active",
+          active: ports.some((p) => p.state === "Active"),
         });
       });
     });
@@ -181,7 +398,7 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
         const targetGPU = gpuNodes.find((n) => n.id === dataFlowPath[1]);
         const middleSwitch = nvSwitches[Math.floor(nvSwitches.length / 2)];
 
-        if (!sourceGPU || !targetGPU) return;
+        if (!sourceGPU || !targetGPU || !middleSwitch) return;
 
         flowParticles.each(function (i) {
           const delay = i * 200;
@@ -270,12 +487,7 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
       .attr("width", 70)
       .attr("height", 50)
       .attr("rx", 6)
-      .attr("fill", (d) => {
-        if (d.health === "Critical") return "#EF4444";
-        if (d.health === "Warning") return "#F59E0B";
-        if (d.temperature > 80) return "#F59E0B";
-        return "#1F2937";
-      })
+      .attr("fill", (d) => gpuFill(d.health, d.temperature))
       .attr("stroke", (d) => {
         if (selectedNode?.id === d.id) return "#00D4FF";
         if (d.health === "Critical") return "#EF4444";
@@ -335,6 +547,7 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
     });
   }, [
     node,
+    domain,
     selectedNode,
     handleNodeClick,
     showDataFlow,
@@ -347,8 +560,19 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
     <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold text-gray-200">
-          NVSwitch Fabric Topology - {node.id}
+          {domain
+            ? `NVLink Domain ${domain.rack.id} (${domain.rack.model}) - ${node.id}`
+            : `NVSwitch Fabric Topology - ${node.id}`}
         </h3>
+        <span
+          className={`text-xs px-2 py-0.5 rounded ${
+            fabricManagerState === "Running"
+              ? "bg-green-900 text-green-300"
+              : "bg-red-900 text-red-300"
+          }`}
+        >
+          Fabric Manager: {fabricManagerState}
+        </span>
         <div className="flex gap-2">
           {onFaultInject && selectedNode && (
             <button
@@ -463,6 +687,12 @@ export const NVSwitchTopology: React.FC<NVSwitchTopologyProps> = ({
           <div className="w-4 h-4 bg-red-500 rounded" />
           <span className="text-gray-300">Critical GPU</span>
         </div>
+        {domain && (
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-cyan-700 rounded" />
+            <span className="text-gray-300">Grace CPU</span>
+          </div>
+        )}
       </div>
 
       <p className="mt-2 text-xs text-gray-500">
@@ -6,6 +6,7 @@ import { MissionCard } from "./MissionCard";
 import { MissionInstructionPanel } from "./MissionInstructionPanel";
 import { useSimulationStore } from "../store/simulationStore";
 import { HintManager } from "@/utils/hintManager";
+import type { CommandObservation } from "@/simulation/diagnosticEvidence";
 import {
   GripVertical,
   Lock,
@@ -20,6 +21,8 @@ interface SimulatorViewProps {
   className?: string;
   missionMode?: boolean;
   showDashboard?: boolean;
+  /** Called for each command line run in the terminal */
+  onCommand?: (command: string, observation: CommandObservation) => void;
 }
 
 const STORAGE_KEY = "simulator-split-ratio";
@@ -44,6 +47,7 @@ export const SimulatorView: React.FC<SimulatorViewProps> = ({
   className = "",
   missionMode = false,
   showDashboard = false,
+  onCommand,
 }) => {
   // Load persisted ratio from localStorage
   const getInitialRatio = () => {
@@ -391,7 +395,11 @@ export const SimulatorView: React.FC<SimulatorViewProps> = ({
                 onQuizComplete={handleQuizComplete}
               />
             )}
-            <Terminal className="flex-1" onReady={handleTerminalReady} />
+            <Terminal
+              className="flex-1"
+              onReady={handleTerminalReady}
+              onCommand={onCommand}
+            />
           </div>
           <div
             className={`h-full overflow-auto p-4 bg-gray-900 ${mobileTab !== "faults" ? "hidden" : ""}`}
@@ -452,7 +460,11 @@ export const SimulatorView: React.FC<SimulatorViewProps> = ({
             <Dashboard />
           </div>
         ) : (
-          <Terminal className="flex-1" onReady={handleTerminalReady} />
+          <Terminal
+            className="flex-1"
+            onReady={handleTerminalReady}
+            onCommand={onCommand}
+          />
         )}
       </div>
     );
@@ -502,7 +514,11 @@ export const SimulatorView: React.FC<SimulatorViewProps> = ({
               </button>
             </div>
             <div className="flex-1 overflow-hidden">
-              <Terminal className="h-full" onReady={handleTerminalReady} />
+              <Terminal
+                className="h-full"
+                onReady={handleTerminalReady}
+                onCommand={onCommand}
+              />
             </div>
           </div>
         </div>
@@ -685,6 +701,7 @@ export const SimulatorView: React.FC<SimulatorViewProps> = ({
                     <Terminal
                       className="flex-1"
                       onReady={handleTerminalReady}
+                      onCommand={onCommand}
                     />
                   </div>
                   <div
@@ -0,0 +1,245 @@
+/**
+ * State History Panel
+ *
+ * Scrubs through the mutation log of the active lab or incident. The
+ * cluster state is rebuilt at the selected point, each mutation shows the
+ * command that caused it, and the state at a baseline is diffed against the
+ * selected point per node and per GPU.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { History, ArrowRight, Flag } from "lucide-react";
+import { scenarioContextManager } from "@/store/scenarioContext";
+import type { ScenarioContext, StateChange } from "@/store/scenarioContext";
+import { diffClusterStates } from "@/simulation/stateHistory";
+import type { NodeStateDiff } from "@/simulation/stateHistory";
+
+/**
+ * The active scenario context and its mutation log, polled for new entries
+ * the same way the dashboard polls for cluster changes.
+ */
+function useActiveHistory(): {
+  context: ScenarioContext | undefined;
+  mutations: StateChange[];
+} {
+  const [version, setVersion] = useState(() => {
+    const context = scenarioContextManager.getActiveContext();
+    return { context, count: context?.getMutationCount() ?? 0 };
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const context = scenarioContextManager.getActiveContext();
+      const count = context?.getMutationCount() ?? 0;
+      setVersion((prev) =>
+        prev.context === context && prev.count === count
+          ? prev
+          : { context, count },
+      );
+    }, 500);
+    return () => clearInterval(interval);
+  }, []);
+
+  return useMemo(
+    () => ({
+      context: version.context,
+      mutations: version.context?.getMutations() ?? [],
+    }),
+    [version],
+  );
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 19);
+}
+
+const DiffList: React.FC<{ diffs: NodeStateDiff[] }> = ({ diffs }) => {
+  if (diffs.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No differences between these two points.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {diffs.map((node) => (
+        <div
+          key={node.nodeId}
+          className="bg-gray-800 rounded-lg p-3 border border-gray-700"
+        >
+          <h4 className="text-sm font-semibold text-nvidia-green mb-2">
+            {node.nodeId}
+            {node.presence && (
+              <span className="ml-2 text-xs text-gray-400">
+                ({node.presence})
+              </span>
+            )}
+          </h4>
+          <ul className="space-y-1 text-xs">
+            {node.changes.map((change) => (
+              <li key={change.field} className="flex items-center gap-2">
+                <span className="text-gray-400 w-28 shrink-0">
+                  {change.field}
+                </span>
+                <span className="text-red-400">{change.before}</span>
+                <ArrowRight className="w-3 h-3 text-gray-500" />
+                <span className="text-green-400">{change.after}</span>
+              </li>
+            ))}
+            {node.gpus.map((gpu) =>
+              gpu.changes.map((change) => (
+                <li
+                  key={`${gpu.gpuId}-${change.field}`}
+                  className="flex items-center gap-2"
+                >
+                  <span className="text-gray-400 w-28 shrink-0">
+                    GPU {gpu.gpuId} {change.field}
+                  </span>
+                  <span className="text-red-400">{change.before}</span>
+                  <ArrowRight className="w-3 h-3 text-gray-500" />
+                  <span className="text-green-400">{change.after}</span>
+                </li>
+              )),
+            )}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const StateHistoryPanel: React.FC = () => {
+  const { context, mutations } = useActiveHistory();
+  const [position, setPosition] = useState(0);
+  const [baseline, setBaseline] = useState(0);
+  const [following, setFollowing] = useState(true);
+
+  // Stay at the latest point until the user scrubs back
+  useEffect(() => {
+    if (following) {
+      setPosition(mutations.length);
+    } else if (position > mutations.length) {
+      setPosition(mutations.length);
+    }
+    if (baseline > mutations.length) {
+      setBaseline(0);
+    }
+  }, [mutations.length, following, position, baseline]);
+
+  const diffs = useMemo(() => {
+    if (!context) return [];
+    const to = Math.min(Math.max(baseline, position), mutations.length);
+    const from = Math.min(baseline, position, to);
+    return diffClusterStates(context.stateAt(from), context.stateAt(to));
+  }, [context, mutations, baseline, position]);
+
+  if (!context) {
+    return (
+      <div className="text-sm text-gray-400">
+        Start a lab or incident to record its state history.
+      </div>
+    );
+  }
+
+  const scrubTo = (index: number) => {
+    setFollowing(index >= mutations.length);
+    setPosition(index);
+  };
+  const low = Math.min(baseline, position);
+  const high = Math.max(baseline, position);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <History className="w-4 h-4 text-nvidia-green" aria-hidden="true" />
+        <label
+          htmlFor="state-history-position"
+          className="text-sm text-gray-400"
+        >
+          State after change
+        </label>
+        <input
+          id="state-history-position"
+          type="range"
+          min={0}
+          max={mutations.length}
+          value={position}
+          onChange={(e) => scrubTo(Number(e.target.value))}
+          className="flex-1 min-w-[160px] accent-nvidia-green"
+        />
+        <span className="text-sm text-gray-200 tabular-nums">
+          {position} / {mutations.length}
+        </span>
+        <button
+          onClick={() => setBaseline(position)}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+          title="Compare later points against this one"
+        >
+          <Flag className="w-3 h-3" aria-hidden="true" />
+          Set baseline
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-200 mb-2">Changes</h3>
+          <ol className="max-h-96 overflow-y-auto rounded-lg border border-gray-700 divide-y divide-gray-800 text-xs">
+            <li>
+              <button
+                onClick={() => scrubTo(0)}
+                className={`w-full text-left px-3 py-2 ${position === 0 ? "bg-gray-700" : "hover:bg-gray-800"}`}
+              >
+                <span className="text-gray-400">Scenario start</span>
+                {baseline === 0 && (
+                  <span className="ml-2 text-yellow-400">baseline</span>
+                )}
+              </button>
+            </li>
+            {mutations.map((mutation, index) => {
+              const point = index + 1;
+              const inRange = point > low && point <= high;
+              return (
+                <li key={point}>
+                  <button
+                    onClick={() => scrubTo(point)}
+                    className={`w-full text-left px-3 py-2 ${
+                      point === position
+                        ? "bg-gray-700"
+                        : inRange
+                          ? "bg-gray-800/60 hover:bg-gray-800"
+                          : "hover:bg-gray-800"
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-500 tabular-nums">
+                        {formatTime(mutation.timestamp)}
+                      </span>
+                      <code className="text-nvidia-green truncate">
+                        {mutation.command ?? "scenario setup"}
+                      </code>
+                      {baseline === point && (
+                        <span className="ml-auto text-yellow-400">
+                          baseline
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-gray-300">{mutation.description}</div>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-200 mb-2">
+            Difference between change {low} and change {high}
+          </h3>
+          <DiffList diffs={diffs} />
+        </div>
+      </div>
+    </div>
+  );
+};
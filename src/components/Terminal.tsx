@@ -3,7 +3,7 @@ import { Terminal as XTerm } from "@xterm/xterm";
 import { FitAddon } from "@xterm/addon-fit";
 import { WebLinksAddon } from "@xterm/addon-web-links";
 import "@xterm/xterm/css/xterm.css";
-import type { CommandContext } from "@/types/commands";
+import type { CommandContext, CommandResult } from "@/types/commands";
 import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
 import { DcgmiSimulator } from "@/simulators/dcgmiSimulator";
 import { IpmitoolSimulator } from "@/simulators/ipmitoolSimulator";
@@ -12,6 +12,9 @@ import { NvsmSimulator } from "@/simulators/nvsmSimulator";
 import { MellanoxSimulator } from "@/simulators/mellanoxSimulator";
 import { SlurmSimulator } from "@/simulators/slurmSimulator";
 import { ContainerSimulator } from "@/simulators/containerSimulator";
+import { ApptainerSimulator } from "@/simulators/apptainerSimulator";
+import { BlueFieldSimulator } from "@/simulators/blueFieldSimulator";
+import { PodmanSimulator } from "@/simulators/podmanSimulator";
 import { BcmSimulator } from "@/simulators/bcmSimulator";
 import { CmshSimulator } from "@/simulators/cmshSimulator";
 import { BasicSystemSimulator } from "@/simulators/basicSystemSimulator";
@@ -24,8 +27,11 @@ import { NvidiaBugReportSimulator } from "@/simulators/nvidiaBugReportSimulator"
 import { ClusterKitSimulator } from "@/simulators/clusterKitSimulator";
 import { NeMoSimulator } from "@/simulators/nemoSimulator";
 import { LinuxUtilsSimulator } from "@/simulators/linuxUtilsSimulator";
+import { FileSystemSimulator } from "@/simulators/fileSystemSimulator";
 import { useSimulationStore } from "@/store/simulationStore";
 import { scenarioContextManager } from "@/store/scenarioContext";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import { clusterContainerRuntime } from "@/store/clusterContainerRuntime";
 import { logger } from "@/utils/logger";
 import { ScenarioValidator } from "@/utils/scenarioValidator";
 import { parse as parseCommand } from "@/utils/commandParser";
@@ -47,8 +53,16 @@ import {
   formatCommandList,
   getDidYouMeanMessage,
 } from "@/utils/commandSuggestions";
-import { applyPipeFilters, hasPipes } from "@/utils/pipeHandler";
 import { CommandRouter } from "@/cli/commandRouter";
+import {
+  ShellInterpreter,
+  isIncompleteShellInput,
+  splitShellWords,
+} from "@/utils/shellInterpreter";
+import { LineEditor } from "@/utils/lineEditor";
+import { resolvePath } from "@/simulation/virtualFileSystem";
+import { sshRefusal } from "@/utils/nodePower";
+import type { CommandObservation } from "@/simulation/diagnosticEvidence";
 
 // Helper function to format practice exercises
 function formatPracticeExercises(
@@ -103,11 +117,14 @@ interface TerminalProps {
   className?: string;
   /** Called when terminal is ready, providing a function to paste text into the input buffer */
   onReady?: (pasteCommand: (cmd: string) => void) => void;
+  /** Called for each command line the user runs, with where it ran and what it printed */
+  onCommand?: (command: string, observation: CommandObservation) => void;
 }
 
 export const Terminal: React.FC<TerminalProps> = ({
   className = "",
   onReady,
+  onCommand,
 }) => {
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
@@ -139,6 +156,8 @@ export const Terminal: React.FC<TerminalProps> = ({
   // Ref to capture onReady callback (init effect has [] deps so we need a ref)
   const onReadyRef = useRef(onReady);
   onReadyRef.current = onReady;
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
 
   // Command simulators
   const nvidiaSmiSimulator = useRef(new NvidiaSmiSimulator());
@@ -149,6 +168,9 @@ export const Terminal: React.FC<TerminalProps> = ({
   const mellanoxSimulator = useRef(new MellanoxSimulator());
   const slurmSimulator = useRef(new SlurmSimulator());
   const containerSimulator = useRef(new ContainerSimulator());
+  const apptainerSimulator = useRef(new ApptainerSimulator());
+  const blueFieldSimulator = useRef(new BlueFieldSimulator());
+  const podmanSimulator = useRef(new PodmanSimulator());
   const bcmSimulator = useRef(new BcmSimulator());
   const cmshSimulator = useRef(new CmshSimulator());
   const basicSystemSimulator = useRef(new BasicSystemSimulator());
@@ -161,6 +183,7 @@ export const Terminal: React.FC<TerminalProps> = ({
   const clusterKitSimulator = useRef(new ClusterKitSimulator());
   const nemoSimulator = useRef(new NeMoSimulator());
   const linuxUtilsSimulator = useRef(new LinuxUtilsSimulator());
+  const fileSystemSimulator = useRef(new FileSystemSimulator());
 
   const currentContext = useRef<CommandContext>({
     currentNode: selectedNode || cluster.nodes[0]?.id || "dgx-00",
@@ -351,6 +374,23 @@ export const Terminal: React.FC<TerminalProps> = ({
     };
 
     const prompt = () => {
+      if (editor) {
+        term.write(editor.prompt);
+        return;
+      }
+      if (pendingInput !== null) {
+        // Waiting for the rest of a here-document
+        term.write("> ");
+        return;
+      }
+      if (containerShell) {
+        term.write(containerShell);
+        return;
+      }
+      if (armShell) {
+        term.write(armShell);
+        return;
+      }
       if (shellState.mode === "nvsm") {
         // Use NVSM's current prompt
         term.write(`\x1b[36m${shellState.prompt || "nvsm> "}\x1b[0m`);
@@ -379,6 +419,16 @@ export const Terminal: React.FC<TerminalProps> = ({
     };
 
     let currentLine = "";
+    // Open vi session, if any; input goes to it instead of the shell
+    let editor: LineEditor | null = null;
+    // Lines typed so far of a command that is still waiting for input
+    let pendingInput: string | null = null;
+    // Prompt of an open `apptainer shell` session, if any
+    let containerShell: string | null = null;
+    // Prompt of an open login on a BlueField's Arm OS, if any
+    let armShell: string | null = null;
+    // Depth of `ssh host cmd` runs; their commands are reported with the ssh line
+    let remoteDepth = 0;
 
     // ----- Build command router (once per mount) -----
     const router = new CommandRouter();
@@ -480,8 +530,8 @@ export const Terminal: React.FC<TerminalProps> = ({
       }
     });
 
-    router.register("ssh", (cl) => {
-      const args = cl.trim().split(/\s+/).slice(1);
+    router.register("ssh", async (cl, ctx) => {
+      const args = splitShellWords(cl).slice(1);
       if (args.length === 0) {
         return {
           output:
@@ -492,6 +542,9 @@ export const Terminal: React.FC<TerminalProps> = ({
           exitCode: 0,
         };
       }
+      // The node's BlueField DPUs answer on their tmfifo addresses
+      const armLogin = blueFieldSimulator.current.ssh(args, ctx);
+      if (armLogin) return armLogin;
       const targetNode = args[0];
       const nodeExists = cluster.nodes.some((n) => n.id === targetNode);
       if (!nodeExists) {
@@ -500,6 +553,27 @@ export const Terminal: React.FC<TerminalProps> = ({
           exitCode: 1,
         };
       }
+      // Powered-off and booting nodes do not answer until sshd is up
+      const target = (ctx.scenarioContext?.getCluster() ?? cluster).nodes.find(
+        (n) => n.id === targetNode,
+      );
+      const refusal = target && sshRefusal(target);
+      if (refusal) {
+        return { output: `\x1b[31m${refusal}\x1b[0m`, exitCode: 255 };
+      }
+      // `ssh host cmd...` runs the command remotely without switching nodes
+      if (args.length > 1) {
+        remoteDepth++;
+        try {
+          return await shell.run(args.slice(1).join(" "), {
+            ...ctx,
+            currentNode: targetNode,
+            currentPath: "/root",
+          });
+        } finally {
+          remoteDepth--;
+        }
+      }
       if (targetNode === currentContext.current.currentNode) {
         return {
           output: `\x1b[33mAlready connected to ${targetNode}\x1b[0m`,
@@ -627,6 +701,9 @@ export const Terminal: React.FC<TerminalProps> = ({
     router.register("ibtracert", (cl, ctx) =>
       infinibandSimulator.current.executeIbtracert(parseCommand(cl), ctx),
     );
+    router.register("ibroute", (cl, ctx) =>
+      infinibandSimulator.current.executeIbroute(parseCommand(cl), ctx),
+    );
     router.register("ib_write_bw", (cl, ctx) =>
       infinibandSimulator.current.executeIbWriteBw(parseCommand(cl), ctx),
     );
@@ -668,16 +745,42 @@ export const Terminal: React.FC<TerminalProps> = ({
     router.register("sacctmgr", (cl, ctx) =>
       slurmSimulator.current.executeSacctmgr(parseCommand(cl), ctx),
     );
+    router.register("sprio", (cl, ctx) =>
+      slurmSimulator.current.executeSprio(parseCommand(cl), ctx),
+    );
+    router.register("sshare", (cl, ctx) =>
+      slurmSimulator.current.executeSshare(parseCommand(cl), ctx),
+    );
 
     // Container tools
     router.registerMany(
       ["docker", "ngc", "enroot", "nvidia-container-cli"],
       simHandler(containerSimulator.current),
     );
+    router.registerMany(
+      ["apptainer", "singularity"],
+      simHandler(apptainerSimulator.current),
+    );
+    router.register("podman", simHandler(podmanSimulator.current));
+
+    // BlueField host tools
+    router.registerMany(
+      ["bfb-install", "screen", "minicom"],
+      simHandler(blueFieldSimulator.current),
+    );
 
     // Mellanox tools
     router.registerMany(
-      ["mst", "mlxconfig", "mlxlink", "mlxcables", "mlxup", "mlxfwmanager"],
+      [
+        "mst",
+        "mlxconfig",
+        "mlxlink",
+        "mlxcables",
+        "mlxup",
+        "mlxfwmanager",
+        "flint",
+        "mlxfwreset",
+      ],
       simHandler(mellanoxSimulator.current),
     );
 
@@ -701,11 +804,16 @@ export const Terminal: React.FC<TerminalProps> = ({
         "modinfo",
         "top",
         "ps",
+        "pgrep",
         "numactl",
         "uptime",
+        "reboot",
         "uname",
         "hostname",
         "sensors",
+        "fw-check",
+        "firmware",
+        "fwupdmgr",
       ],
       simHandler(basicSystemSimulator.current),
     );
@@ -752,6 +860,8 @@ export const Terminal: React.FC<TerminalProps> = ({
         "env",
         "dpkg",
         "apt",
+        "apt-mark",
+        "dkms",
         "nvcc",
         "iostat",
         "efibootmgr",
@@ -762,64 +872,27 @@ export const Terminal: React.FC<TerminalProps> = ({
       simHandler(linuxUtilsSimulator.current),
     );
 
+    // File system commands
+    router.registerMany(
+      [
+        "touch",
+        "mkdir",
+        "rmdir",
+        "rm",
+        "cp",
+        "mv",
+        "ln",
+        "chmod",
+        "chown",
+        "stat",
+      ],
+      simHandler(fileSystemSimulator.current),
+    );
+
     // ── Shell builtins ────────────────────────────────────
     // These need direct access to currentContext / commandHistory / router,
     // so they live here rather than in a simulator.
 
-    // Known directory tree (matches linuxUtilsSimulator ls handler)
-    const KNOWN_DIRS = new Set([
-      "/",
-      "/bin",
-      "/boot",
-      "/data",
-      "/data/training",
-      "/data/output",
-      "/dev",
-      "/dev/mst",
-      "/etc",
-      "/etc/apt",
-      "/etc/docker",
-      "/etc/enroot",
-      "/etc/network",
-      "/etc/nvidia",
-      "/etc/slurm",
-      "/home",
-      "/home/admin",
-      "/home/admin/scripts",
-      "/lib",
-      "/lib64",
-      "/media",
-      "/mnt",
-      "/opt",
-      "/opt/nemo",
-      "/proc",
-      "/root",
-      "/root/scripts",
-      "/run",
-      "/sbin",
-      "/scratch",
-      "/srv",
-      "/sys",
-      "/tmp",
-      "/usr",
-      "/usr/bin",
-      "/usr/include",
-      "/usr/lib",
-      "/usr/local",
-      "/usr/local/cuda",
-      "/usr/local/cuda/bin",
-      "/usr/sbin",
-      "/usr/share",
-      "/var",
-      "/var/cache",
-      "/var/lib",
-      "/var/log",
-      "/var/log/slurm",
-      "/var/run",
-      "/var/spool",
-      "/var/tmp",
-    ]);
-
     router.register("cd", (cl) => {
       const args = cl.trim().split(/\s+/).slice(1);
       let target = args[0] || "/root"; // bare `cd` goes home
@@ -831,28 +904,15 @@ export const Terminal: React.FC<TerminalProps> = ({
         target = "/root";
       }
 
-      // Resolve relative paths
-      if (!target.startsWith("/")) {
-        const base = currentContext.current.currentPath;
-        target = base === "/" ? `/${target}` : `${base}/${target}`;
-      }
-
-      // Normalize . and ..
-      const parts = target.split("/").filter(Boolean);
-      const resolved: string[] = [];
-      for (const p of parts) {
-        if (p === ".") continue;
-        if (p === "..") {
-          resolved.pop();
-        } else {
-          resolved.push(p);
-        }
-      }
-      const newPath = "/" + resolved.join("/") || "/";
-
-      if (!KNOWN_DIRS.has(newPath)) {
+      const newPath = resolvePath(target, currentContext.current.currentPath);
+      const type = fileSystemSimulator.current.getPathType(
+        newPath,
+        currentContext.current,
+      );
+      if (type !== "directory") {
+        const reason = type ? "Not a directory" : "No such file or directory";
         return {
-          output: `\x1b[31mbash: cd: ${args[0]}: No such file or directory\x1b[0m`,
+          output: `\x1b[31mbash: cd: ${args[0]}: ${reason}\x1b[0m`,
           exitCode: 1,
         };
       }
@@ -872,7 +932,7 @@ export const Terminal: React.FC<TerminalProps> = ({
     }));
 
     router.register("export", (cl) => {
-      const args = cl.trim().split(/\s+/).slice(1);
+      const args = splitShellWords(cl).slice(1);
       if (args.length === 0) {
         // Show current exports
         const lines = Object.entries(currentContext.current.environment)
@@ -885,8 +945,7 @@ export const Terminal: React.FC<TerminalProps> = ({
         const eqIdx = arg.indexOf("=");
         if (eqIdx > 0) {
           const key = arg.slice(0, eqIdx);
-          const value = arg.slice(eqIdx + 1).replace(/^["']|["']$/g, "");
-          currentContext.current.environment[key] = value;
+          currentContext.current.environment[key] = arg.slice(eqIdx + 1);
         }
       }
       return { output: "", exitCode: 0 };
@@ -937,6 +996,8 @@ export const Terminal: React.FC<TerminalProps> = ({
                       "scancel",
                       "sacct",
                       "sacctmgr",
+                      "sprio",
+                      "sshare",
                     ].includes(cmd)
                   ? `/usr/bin/${cmd}`
                   : `/usr/bin/${cmd}`;
@@ -1094,69 +1155,229 @@ export const Terminal: React.FC<TerminalProps> = ({
       exitCode: 0,
     }));
 
-    router.register("touch", (cl) => {
-      const args = cl.trim().split(/\s+/).slice(1);
-      if (args.length === 0) {
+    router.registerMany(["vi", "vim"], (cl, ctx) => {
+      const [command, ...args] = splitShellWords(cl);
+      const path = args.filter(
+        (a) => !a.startsWith("-") && !a.startsWith("+"),
+      )[0];
+      if (!path) {
         return {
-          output: "touch: missing file operand",
+          output: `\x1b[31m${command}: a file name is required in this terminal (try '${command} /tmp/notes.txt')\x1b[0m`,
           exitCode: 1,
         };
       }
-      return { output: "", exitCode: 0 };
-    });
-
-    router.register("mkdir", (cl) => {
-      const args = cl
-        .trim()
-        .split(/\s+/)
-        .filter((a) => !a.startsWith("-"))
-        .slice(1);
-      if (args.length === 0) {
+      const { content, error } = fileSystemSimulator.current.readFile(
+        path,
+        ctx,
+      );
+      if (error && error !== "No such file or directory") {
         return {
-          output: "mkdir: missing operand",
+          output: `\x1b[31m"${path}" ${error}\x1b[0m`,
           exitCode: 1,
         };
       }
-      return { output: "", exitCode: 0 };
+      editor = new LineEditor(path, content ?? null, (text) =>
+        fileSystemSimulator.current.writeFile(path, text, false, ctx),
+      );
+      return { output: editor.open(), exitCode: 0 };
     });
 
-    router.register("rm", () => ({ output: "", exitCode: 0 }));
-    router.register("cp", () => ({ output: "", exitCode: 0 }));
-    router.register("mv", () => ({ output: "", exitCode: 0 }));
-    router.register("chmod", () => ({ output: "", exitCode: 0 }));
-    router.register("chown", () => ({ output: "", exitCode: 0 }));
+    // ── Shell layer ───────────────────────────────────────
+    // Scenario feedback produced while a line runs is buffered here and
+    // written after the line's output.
+    let pendingFeedback: string[] = [];
+
+    // Record and validate one pipeline against the active scenario step
+    const validateCommand = (cmdLine: string, result: CommandResult) => {
+      const command = cmdLine.trim().split(/\s+/)[0];
+      const store = useSimulationStore.getState();
+      const {
+        activeScenario,
+        scenarioProgress,
+        recordCommand,
+        validateStep,
+        validationConfig,
+      } = store;
+
+      if (
+        !activeScenario ||
+        !scenarioProgress[activeScenario.id] ||
+        !validationConfig.enabled
+      ) {
+        return;
+      }
+
+      const progress = scenarioProgress[activeScenario.id];
+      const currentStepIndex = progress.currentStepIndex;
+      const currentStep = activeScenario.steps[currentStepIndex];
+      const stepProgress = progress.steps[currentStepIndex];
+
+      if (!currentStep || !stepProgress || stepProgress.completed) {
+        return;
+      }
+
+      // Record the command for hint tracking (except special commands)
+      if (command !== "hint" && command !== "clear" && command !== "help") {
+        recordCommand(activeScenario.id, currentStep.id, cmdLine);
+      }
+
+      // Validate whenever the command is recognized (the shell skips
+      // exit code 127). Even if a simulator returns an error (exitCode 1),
+      // the user demonstrated the correct command knowledge. The command
+      // tracker already recorded the full command line, so the validator
+      // can match it against expected commands regardless of exit status.
+      const validationResult = ScenarioValidator.validateCommand(
+        cmdLine,
+        result.output,
+        currentStep,
+        currentContext.current,
+        stepProgress.commandsExecuted,
+      );
+
+      // Store validation result in state
+      validateStep(activeScenario.id, currentStep.id, validationResult);
+
+      // Show validation feedback if enabled
+      if (validationConfig.immediatefeedback && validationResult.feedback) {
+        pendingFeedback.push("", validationResult.feedback);
+      }
+
+      // Show progress bar if enabled and not yet complete
+      if (
+        validationConfig.showProgress &&
+        !validationResult.passed &&
+        validationResult.progress > 0
+      ) {
+        pendingFeedback.push(renderProgressBar(validationResult.progress));
+      }
+    };
+
+    // Run one expanded simple command through the router
+    const runCommand = async (
+      cmdLine: string,
+      ctx: CommandContext,
+    ): Promise<CommandResult> => {
+      const command = cmdLine.trim().split(/\s+/)[0];
+
+      if (command === "clear") {
+        term.clear();
+        return { output: "", exitCode: 0 };
+      }
+
+      const handler = router.resolve(command);
+      if (!handler) {
+        const suggestion = getDidYouMeanMessage(command);
+        return {
+          output:
+            `\x1b[31mbash: ${command}: command not found\x1b[0m\n\n` +
+            (suggestion ||
+              "Type \x1b[36mhelp\x1b[0m to see available commands."),
+          exitCode: 127,
+        };
+      }
+
+      const result = await handler(cmdLine, ctx);
+
+      // Post-handler: check for interactive mode entry (nvsm/cmsh)
+      if (command === "nvsm" || command === "cmsh") {
+        const parsed = parseCommand(cmdLine);
+        if (
+          shouldEnterInteractiveMode(result, parsed.subcommands.length === 0)
+        ) {
+          setShellState({ mode: command, prompt: result.prompt || "" });
+        }
+      }
+
+      // `apptainer shell` (and `run` without a runscript) open a session
+      if (
+        (command === "apptainer" || command === "singularity") &&
+        result.prompt
+      ) {
+        containerShell = result.prompt;
+      }
+
+      // ssh to a DPU's Arm OS, or its rshim console, opens a login
+      if (
+        (command === "ssh" || command === "screen" || command === "minicom") &&
+        result.prompt
+      ) {
+        armShell = result.prompt;
+      }
+
+      return result;
+    };
+
+    const shell = new ShellInterpreter({
+      execute: runCommand,
+      writeFile: (path, content, append, ctx) =>
+        fileSystemSimulator.current.writeFile(path, content, append, ctx),
+      stat: (path, ctx) => fileSystemSimulator.current.getPathType(path, ctx),
+      onPipeline: (cmdLine, result, ctx) => {
+        validateCommand(cmdLine, result);
+        if (remoteDepth === 0) {
+          onCommandRef.current?.(cmdLine, {
+            nodeId: ctx.currentNode,
+            output: result.output,
+            exitCode: result.exitCode,
+          });
+        }
+      },
+    });
 
     const executeCommand = async (cmdLine: string) => {
+      // VI SESSION INTERCEPT
+      if (editor) {
+        const result = editor.handle(cmdLine);
+        if (result.output) term.writeln(result.output);
+        if (result.done) editor = null;
+        prompt();
+        return;
+      }
+
+      // Continuation lines complete a pending here-document
+      if (pendingInput !== null) {
+        cmdLine = `${pendingInput}\n${cmdLine}`;
+        pendingInput = null;
+      }
+
       if (!cmdLine.trim()) {
         prompt();
         return;
       }
 
-      // Expand $(command) shell substitutions before processing.
-      // In a real bash shell these would be expanded by the shell;
-      // in the simulator we expand common patterns to simulated values.
-      const originalCmdLine = cmdLine;
-      cmdLine = cmdLine.replace(
-        /\$\(([^)]+)\)/g,
-        (_match: string, innerCmd: string) => {
-          const inner = innerCmd.trim();
-          if (inner.startsWith("pgrep")) return "12345";
-          return "0";
-        },
-      );
+      if (isIncompleteShellInput(cmdLine)) {
+        pendingInput = cmdLine;
+        prompt();
+        return;
+      }
 
-      // Add to history (store the original, unexpanded form)
-      setCommandHistory((prev) => [...prev, originalCmdLine]);
-      currentContext.current.history.push(originalCmdLine);
+      // Add to history
+      setCommandHistory((prev) => [...prev, cmdLine]);
+      currentContext.current.history.push(cmdLine);
 
-      // Parse command
-      const parts = cmdLine.trim().split(/\s+/);
-      const command = parts[0];
+      // CONTAINER SHELL INTERCEPT
+      if (containerShell) {
+        const result = apptainerSimulator.current.executeInteractive(
+          cmdLine,
+          currentContext.current,
+        );
+        if (result.output) term.writeln("\n" + result.output);
+        containerShell = result.prompt ?? null;
+        prompt();
+        return;
+      }
 
-      let result: import("@/types/commands").CommandResult = {
-        output: "",
-        exitCode: 0,
-      };
+      // BLUEFIELD ARM SHELL INTERCEPT
+      if (armShell) {
+        const result = blueFieldSimulator.current.executeInteractive(
+          cmdLine,
+          currentContext.current,
+        );
+        if (result.output) term.writeln("\n" + result.output);
+        armShell = result.prompt ?? null;
+        prompt();
+        return;
+      }
 
       // INTERACTIVE SHELL MODE INTERCEPT
       if (shellState.mode === "nvsm") {
@@ -1185,133 +1406,22 @@ export const Terminal: React.FC<TerminalProps> = ({
         return;
       }
 
+      pendingFeedback = [];
+      // Credit scenario state changes to this command for the state history
+      const scenarioContext = currentContext.current.scenarioContext;
+      scenarioContext?.setCurrentCommand(cmdLine);
       try {
-        // Handle "clear" before router (early return)
-        if (command === "clear") {
-          term.clear();
-          prompt();
-          return;
-        }
-
-        // Handle environment variable assignments (VAR=VALUE)
-        const envVarPattern = /^[A-Z_][A-Z0-9_]*=\S+$/;
-        if (envVarPattern.test(cmdLine.trim())) {
-          result.output = cmdLine.trim();
-          result.exitCode = 0;
-        } else {
-          const handler = router.resolve(command);
-          if (handler) {
-            result = await handler(cmdLine, currentContext.current);
-          } else {
-            result.output = `\x1b[31mbash: ${command}: command not found\x1b[0m`;
-            result.exitCode = 127;
-            const suggestion = getDidYouMeanMessage(command);
-            if (suggestion) {
-              result.output += "\n\n" + suggestion;
-            } else {
-              result.output +=
-                "\n\nType \x1b[36mhelp\x1b[0m to see available commands.";
-            }
-          }
-
-          // Post-handler: check for interactive mode entry (nvsm/cmsh)
-          if (command === "nvsm" || command === "cmsh") {
-            const parsed = parseCommand(cmdLine);
-            if (
-              shouldEnterInteractiveMode(
-                result,
-                parsed.subcommands.length === 0,
-              )
-            ) {
-              setShellState({ mode: command, prompt: result.prompt || "" });
-            }
-          }
-        }
-
-        // Apply pipe filters (grep, tail, head, etc.) to command output
-        if (result.output && hasPipes(cmdLine)) {
-          result.output = applyPipeFilters(result.output, cmdLine);
-        }
+        const result = await shell.run(cmdLine, currentContext.current);
 
         if (result.output) {
           term.writeln("\n" + result.output);
         }
 
-        // Scenario Validation - Check for active scenario and validate command
-        const store = useSimulationStore.getState();
-        const {
-          activeScenario,
-          scenarioProgress,
-          recordCommand,
-          validateStep,
-          validationConfig,
-        } = store;
-
-        if (
-          activeScenario &&
-          scenarioProgress[activeScenario.id] &&
-          validationConfig.enabled
-        ) {
-          const progress = scenarioProgress[activeScenario.id];
-          const currentStepIndex = progress.currentStepIndex;
-          const currentStep = activeScenario.steps[currentStepIndex];
-          const stepProgress = progress.steps[currentStepIndex];
-
-          if (currentStep && stepProgress && !stepProgress.completed) {
-            // Record the command for hint tracking (except special commands)
-            if (
-              command !== "hint" &&
-              command !== "clear" &&
-              command !== "help"
-            ) {
-              recordCommand(activeScenario.id, currentStep.id, cmdLine);
-            }
-
-            // Validate whenever the command is recognized (exitCode !== 127).
-            // Even if a simulator returns an error (exitCode 1), the user
-            // demonstrated the correct command knowledge.  The command tracker
-            // already recorded the full command line, so the validator can
-            // match it against expected commands regardless of exit status.
-            const commandFound = result.exitCode !== 127; // 127 = command not found
-
-            if (commandFound) {
-              // Validate using ScenarioValidator
-              const validationResult = ScenarioValidator.validateCommand(
-                cmdLine,
-                result.output,
-                currentStep,
-                currentContext.current,
-                stepProgress.commandsExecuted,
-              );
-
-              // Store validation result in state
-              validateStep(activeScenario.id, currentStep.id, validationResult);
-
-              // Show validation feedback if enabled
-              if (
-                validationConfig.immediatefeedback &&
-                validationResult.feedback
-              ) {
-                term.writeln("");
-                term.writeln(validationResult.feedback);
-              }
-
-              // Show progress bar if enabled and not yet complete
-              if (
-                validationConfig.showProgress &&
-                !validationResult.passed &&
-                validationResult.progress > 0
-              ) {
-                const progressBar = renderProgressBar(
-                  validationResult.progress,
-                );
-                term.writeln(progressBar);
-              }
-            }
-          }
-        }
+        pendingFeedback.forEach((line) => term.writeln(line));
       } catch (error) {
         term.writeln(`\n\x1b[31mError executing command: ${error}\x1b[0m`);
+      } finally {
+        scenarioContext?.setCurrentCommand(undefined);
       }
 
       prompt();
@@ -1364,6 +1474,12 @@ export const Terminal: React.FC<TerminalProps> = ({
       currentContext.current.history = [];
       currentContext.current.scenarioContext = undefined;
       currentContext.current.cluster = newCluster;
+      clusterFileSystem.reset();
+      clusterContainerRuntime.reset();
+      editor = null;
+      pendingInput = null;
+      containerShell = null;
+      armShell = null;
       term.write(generateWelcomeMessage(term.cols));
       prompt();
     };
@@ -22,6 +22,7 @@ import {
   getLayoutForSystem,
   calculateGPUPositions,
   calculateNVSwitchPositions,
+  calculateCPUPositions,
 } from "@/data/dgxLayouts";
 
 interface TopologyGraphProps {
@@ -151,9 +152,10 @@ export const TopologyGraph: React.FC<TopologyGraphProps> = ({
 
   // Memoize STATIC layout data - only recalculate when layout or GPU count changes
   // This prevents SVG rebuilds on every simulation tick
-  const { nodes, links, nvSwitchPositions } = useMemo(() => {
+  const { nodes, links, nvSwitchPositions, cpuPositions } = useMemo(() => {
     const gpuPos = calculateGPUPositions(layout, width, height);
     const nvSwitchPos = calculateNVSwitchPositions(layout, width, height);
+    const cpuPos = calculateCPUPositions(layout, width, height);
 
     // Create nodes with STATIC positions only - dynamic data fetched via ref in handlers
     const nodeList: GraphNode[] = node.gpus.map((gpu, idx) => {
@@ -191,7 +193,12 @@ export const TopologyGraph: React.FC<TopologyGraphProps> = ({
       })
       .filter((link): link is GraphLink => link !== null);
 
-    return { nodes: nodeList, links: linkList, nvSwitchPositions: nvSwitchPos };
+    return {
+      nodes: nodeList,
+      links: linkList,
+      nvSwitchPositions: nvSwitchPos,
+      cpuPositions: cpuPos,
+    };
     // Only depend on layout and GPU count, NOT on GPU metrics that change every tick
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [layout, node.gpus.length, width, height]);
@@ -398,6 +405,64 @@ export const TopologyGraph: React.FC<TopologyGraphProps> = ({
         });
       });
 
+    // Draw Grace CPUs and their NVLink-C2C links (superchip systems only)
+    const cpuGroup = svg.append("g").attr("class", "grace-cpus");
+
+    cpuGroup
+      .selectAll("line")
+      .data(
+        cpuPositions.flatMap((cpu) =>
+          cpu.pairedGPUs
+            .map((gpuId) => ({ cpu, gpu: nodes.find((n) => n.id === gpuId) }))
+            .filter((d) => d.gpu !== undefined),
+        ),
+      )
+      .enter()
+      .append("line")
+      .attr("x1", (d) => d.cpu.x)
+      .attr("y1", (d) => d.cpu.y)
+      .attr("x2", (d) => d.gpu!.x)
+      .attr("y2", (d) => d.gpu!.y)
+      .attr("stroke", "#06B6D4")
+      .attr("stroke-width", 4)
+      .attr("opacity", 0.6);
+
+    const cpuNodes = cpuGroup
+      .selectAll("g")
+      .data(cpuPositions)
+      .enter()
+      .append("g")
+      .attr("transform", (d) => `translate(${d.x}, ${d.y})`);
+
+    const cpuW = 70 * gpuScale;
+    const cpuH = 24 * gpuScale;
+    cpuNodes
+      .append("rect")
+      .attr("x", -cpuW / 2)
+      .attr("y", -cpuH / 2)
+      .attr("width", cpuW)
+      .attr("height", cpuH)
+      .attr("fill", "#0E7490")
+      .attr("stroke", "#1F2937")
+      .attr("stroke-width", 2)
+      .attr("rx", 3);
+
+    cpuNodes
+      .append("text")
+      .attr("text-anchor", "middle")
+      .attr("dy", "0.35em")
+      .attr("fill", "#fff")
+      .attr("font-size", `${Math.max(7, 10 * gpuScale)}px`)
+      .attr("font-weight", "bold")
+      .text((d) => `Grace ${d.id}`);
+
+    cpuNodes
+      .append("title")
+      .text(
+        (d) =>
+          `Grace CPU ${d.id}\nNVLink-C2C to GPUs: ${d.pairedGPUs.join(", ")}`,
+      );
+
     // Draw nodes
     const nodeGroup = svg.append("g").attr("class", "nodes");
 
@@ -553,6 +618,7 @@ export const TopologyGraph: React.FC<TopologyGraphProps> = ({
     nodes,
     links,
     nvSwitchPositions,
+    cpuPositions,
     layout,
     stableHighlightedGpus,
     stableHighlightedLinks,
@@ -762,6 +828,12 @@ export const TopologyGraph: React.FC<TopologyGraphProps> = ({
           <div className="w-4 h-2 bg-indigo-500 rounded" />
           <span className="text-gray-300">NVSwitch</span>
         </div>
+        {layout.cpuPositions && (
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-2 bg-cyan-700 rounded" />
+            <span className="text-gray-300">Grace CPU (NVLink-C2C)</span>
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <div className="w-3 h-0.5 bg-green-500" />
           <span className="text-gray-300">Active NVLink</span>
@@ -11,6 +11,7 @@ import { InfiniBandMap } from "./InfiniBandMap";
 import { TopologyGraph } from "./TopologyGraph";
 import type { DGXNode, GPU, XIDError } from "@/types/hardware";
 import { useSimulationStore } from "@/store/simulationStore";
+import { getNVLinkDomain } from "@/utils/nvlinkRack";
 import { Cpu, Network, Zap, AlertTriangle, Play, X } from "lucide-react";
 
 interface TopologyViewerProps {
@@ -281,6 +282,7 @@ export const TopologyViewer: React.FC<TopologyViewerProps> = ({
         {viewMode === "nvswitch" && selectedNode && (
           <NVSwitchTopology
             node={selectedNode}
+            domain={getNVLinkDomain(cluster, selectedNode.id)}
             onGPUClick={handleGPUClick}
             onFaultInject={handleFaultInject}
             showDataFlow={dataFlowActive}
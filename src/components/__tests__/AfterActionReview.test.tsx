@@ -5,6 +5,8 @@
  * - Diagnosis result (correct/incorrect)
  * - 5 score dimension bars with values
  * - Total score
+ * - Evidence found and missed, and commands that found none
+ * - Whether the fixes applied resolved the incident
  * - Timeline comparison (cluster events + user commands)
  * - Actionable tip text
  * - Review Optimal Path, Try Similar, and Exit buttons
@@ -13,8 +15,13 @@
 import { describe, it, expect, vi } from "vitest";
 import { render, screen, fireEvent } from "@testing-library/react";
 import { AfterActionReview } from "../AfterActionReview";
-import type { WorkflowScore, PhaseEntry } from "@/simulation/workflowTracker";
+import type {
+  WorkflowScore,
+  PhaseEntry,
+  EvidenceReport,
+} from "@/simulation/workflowTracker";
 import type { ClusterEvent } from "@/simulation/eventLog";
+import type { RemediationResult } from "@/simulation/remediationEngine";
 
 function createMockScore(overrides?: Partial<WorkflowScore>): WorkflowScore {
   return {
@@ -130,6 +137,40 @@ describe("AfterActionReview", () => {
     });
   });
 
+  describe("Compound Incidents", () => {
+    it("scores each root cause on its own", () => {
+      const props = {
+        ...defaultProps(),
+        correctDiagnosis: false,
+        rootCauses: [
+          {
+            prompt: "What started the incident on dgx-02?",
+            selected: "Flapping IB cable",
+            correct: "Flapping IB cable",
+            isCorrect: true,
+          },
+          {
+            prompt: "What did that lead to on dgx-05?",
+            selected: "Job time limit",
+            correct: "NCCL timeout drained dgx-05",
+            isCorrect: false,
+          },
+        ],
+      };
+      render(<AfterActionReview {...props} />);
+
+      expect(
+        screen.getByText("Partially Correct Diagnosis (1 of 2 root causes)"),
+      ).toBeInTheDocument();
+      const results = screen.getAllByTestId("root-cause-result");
+      expect(results.map((r) => r.dataset.correct)).toEqual(["true", "false"]);
+      expect(results[0]).not.toHaveTextContent("Correct answer");
+      expect(results[1]).toHaveTextContent(
+        "Correct answer: NCCL timeout drained dgx-05",
+      );
+    });
+  });
+
   // ==========================================================================
   // Score Dimension Bars
   // ==========================================================================
@@ -198,6 +239,145 @@ describe("AfterActionReview", () => {
     });
   });
 
+  // ==========================================================================
+  // Evidence
+  // ==========================================================================
+
+  describe("Evidence", () => {
+    const evidence = (label: string, tools: string[]) => ({
+      id: label,
+      label,
+      faultType: "ecc-error",
+      nodeId: "dgx-01",
+      gpuId: 3,
+      rootCause: 0,
+      tools,
+      field: /./,
+      scope: "gpu" as const,
+    });
+
+    function createMockEvidence(): EvidenceReport {
+      return {
+        found: [
+          {
+            evidence: evidence("Uncorrectable DRAM ECC errors on GPU 3", [
+              "nvidia-smi",
+            ]),
+            command: "nvidia-smi -q -d ECC -i 3",
+            nodeId: "dgx-01",
+            timestamp: 4000,
+          },
+        ],
+        missed: [
+          evidence(
+            "XID 48 (double-bit ECC error) from GPU 3 in the kernel log",
+            ["dmesg"],
+          ),
+        ],
+        irrelevant: [
+          {
+            command: "ipmitool sel list",
+            phase: "triage",
+            timestamp: 3000,
+            nodeId: "dgx-02",
+          },
+        ],
+      };
+    }
+
+    it("is left out without an evidence report", () => {
+      render(<AfterActionReview {...defaultProps()} />);
+      expect(screen.queryByText("Evidence")).not.toBeInTheDocument();
+    });
+
+    it("lists the evidence found, the evidence missed and irrelevant commands", () => {
+      render(
+        <AfterActionReview
+          {...defaultProps()}
+          evidence={createMockEvidence()}
+        />,
+      );
+      expect(screen.getByTestId("evidence-found")).toHaveTextContent(
+        "Uncorrectable DRAM ECC errors on GPU 3dgx-01$ nvidia-smi -q -d ECC -i 3",
+      );
+      expect(screen.getByTestId("evidence-missed")).toHaveTextContent(
+        "XID 48 (double-bit ECC error) from GPU 3 in the kernel log(dmesg on dgx-01)",
+      );
+      expect(screen.getByTestId("evidence-irrelevant")).toHaveTextContent(
+        "dgx-02$ ipmitool sel list",
+      );
+    });
+
+    it("says so when no command showed the fault", () => {
+      render(
+        <AfterActionReview
+          {...defaultProps()}
+          evidence={{ found: [], missed: [], irrelevant: [] }}
+        />,
+      );
+      expect(
+        screen.getByText("None of your commands showed the fault"),
+      ).toBeInTheDocument();
+    });
+  });
+
+  // ==========================================================================
+  // Resolution
+  // ==========================================================================
+
+  describe("Resolution", () => {
+    const ecc = { faultType: "ecc-error", nodeId: "dgx-01", gpuId: 3 };
+    const reset: RemediationResult = {
+      request: { action: "gpu-reset", nodeId: "dgx-01", gpuId: 3 },
+      fault: ecc,
+      origin: ecc,
+      outcome: "blocked",
+      unmet: ["no-running-jobs"],
+    };
+
+    it("is left out without a remediation report", () => {
+      render(<AfterActionReview {...defaultProps()} />);
+      expect(screen.queryByText("Resolution")).not.toBeInTheDocument();
+    });
+
+    it("lists the fixes applied and the faults left in place", () => {
+      render(
+        <AfterActionReview
+          {...defaultProps()}
+          remediation={{ resolved: false, results: [reset], remaining: [ecc] }}
+        />,
+      );
+      expect(screen.getByTestId("resolution-status")).toHaveTextContent(
+        "Diagnosed but not resolved",
+      );
+      expect(screen.getByTestId("remediation-result")).toHaveTextContent(
+        "GPU reset did not hold for the uncorrectable ECC error on dgx-01 GPU 3: it needs no jobs running on the GPUs",
+      );
+      expect(screen.getByTestId("remediation-remaining")).toHaveTextContent(
+        "uncorrectable ECC error on dgx-01 GPU 3",
+      );
+    });
+
+    it("reports a resolved incident", () => {
+      render(
+        <AfterActionReview
+          {...defaultProps()}
+          remediation={{
+            resolved: true,
+            results: [{ ...reset, outcome: "cleared", unmet: [] }],
+            remaining: [],
+          }}
+        />,
+      );
+      expect(screen.getByTestId("resolution-status")).toHaveTextContent(
+        "Resolved: every fault was cleared",
+      );
+      expect(
+        screen.queryByTestId("remediation-remaining"),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   // ==========================================================================
   // Timeline Comparison
   // ==========================================================================
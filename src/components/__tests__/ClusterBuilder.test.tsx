@@ -1,7 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { ClusterBuilder } from "../ClusterBuilder";
-import type { DGXNode } from "@/types/hardware";
+import {
+  createDefaultCluster,
+  createMixedCluster,
+} from "@/utils/clusterFactory";
+import { readSharedCluster } from "@/utils/clusterShare";
+import { validateClusterConfig } from "@/utils/clusterSchema";
+import type { ClusterConfig, DGXNode } from "@/types/hardware";
 
 // ============================================================================
 // Mocks
@@ -36,6 +42,15 @@ vi.mock("lucide-react", () => ({
   Network: ({ className }: { className?: string }) => (
     <span data-testid="icon-network" className={className} />
   ),
+  Download: ({ className }: { className?: string }) => (
+    <span data-testid="icon-download" className={className} />
+  ),
+  Upload: ({ className }: { className?: string }) => (
+    <span data-testid="icon-upload" className={className} />
+  ),
+  FileArchive: ({ className }: { className?: string }) => (
+    <span data-testid="icon-file-archive" className={className} />
+  ),
 }));
 
 // ============================================================================
@@ -103,6 +118,10 @@ function makeNode(id: string, gpuCount: number): DGXNode {
   };
 }
 
+function clusterOf(nodes: DGXNode[]): ClusterConfig {
+  return { ...createDefaultCluster(), nodes };
+}
+
 // ============================================================================
 // Tests
 // ============================================================================
@@ -231,12 +250,12 @@ describe("ClusterBuilder", () => {
     fireEvent.click(screen.getByText("Save"));
 
     expect(onSave).toHaveBeenCalledTimes(1);
-    const config = onSave.mock.calls[0][0];
+    const config: ClusterConfig = onSave.mock.calls[0][0];
     expect(config.nodes).toHaveLength(1);
-    expect(config.nodes[0].type).toBe("DGX-A100");
-    expect(config.nodes[0].gpuCount).toBe(8);
-    expect(config.layout).toHaveLength(1);
-    expect(config.connections).toHaveLength(0);
+    expect(config.nodes[0].systemType).toBe("DGX-A100");
+    expect(config.nodes[0].gpus).toHaveLength(8);
+    expect(config.infiniband?.switches.length).toBeGreaterThan(0);
+    expect(validateClusterConfig(config).valid).toBe(true);
   });
 
   // --------------------------------------------------------------------------
@@ -269,7 +288,7 @@ describe("ClusterBuilder", () => {
 
   it("renders with initial nodes and shows correct stats", () => {
     const initialNodes = [makeNode("dgx-01", 8), makeNode("dgx-02", 8)];
-    render(<ClusterBuilder initialNodes={initialNodes} />);
+    render(<ClusterBuilder initialCluster={clusterOf(initialNodes)} />);
 
     const nodesStat = screen.getByText("Nodes").previousElementSibling!;
     expect(nodesStat.textContent).toBe("2");
@@ -301,7 +320,7 @@ describe("ClusterBuilder", () => {
 
   it("Reset button restores to the initial node configuration", () => {
     const initialNodes = [makeNode("dgx-01", 8)];
-    render(<ClusterBuilder initialNodes={initialNodes} />);
+    render(<ClusterBuilder initialCluster={clusterOf(initialNodes)} />);
 
     // Add an extra node
     fireEvent.click(screen.getByText("DGX H100"));
@@ -312,4 +331,142 @@ describe("ClusterBuilder", () => {
     fireEvent.click(screen.getByText("Reset"));
     expect(nodesStat.textContent).toBe("1");
   });
+
+  // --------------------------------------------------------------------------
+  // 14. Builds a real cluster the simulator can load
+  // --------------------------------------------------------------------------
+
+  it("saves a mixed cluster with per-node HCAs, partitions and head nodes", () => {
+    const onSave = vi.fn();
+    render(<ClusterBuilder onSave={onSave} />);
+
+    fireEvent.change(screen.getByLabelText("Nodes to add"), {
+      target: { value: "2" },
+    });
+    fireEvent.click(screen.getByText("DGX A100"));
+    fireEvent.click(screen.getByText("DGX H100"));
+    fireEvent.click(screen.getByText("dgx-01"));
+    fireEvent.change(screen.getByLabelText("Node HCA count"), {
+      target: { value: "4" },
+    });
+    fireEvent.click(screen.getByText("Add a100, h100 partitions"));
+    fireEvent.change(screen.getByLabelText("Topology"), {
+      target: { value: "FatTree" },
+    });
+    fireEvent.change(screen.getByLabelText("Primary head node"), {
+      target: { value: "head-01" },
+    });
+
+    expect(screen.getByText("HCAs").previousElementSibling!.textContent).toBe(
+      "28",
+    );
+    fireEvent.click(screen.getByText("Save"));
+
+    const cluster: ClusterConfig = onSave.mock.calls[0][0];
+    expect(cluster.nodes.map((n) => n.hcas.length)).toEqual([8, 4, 8, 8]);
+    expect(cluster.nodes[3].systemType).toBe("DGX-H100");
+    expect(cluster.fabricTopology).toBe("FatTree");
+    expect(cluster.slurmConfig).toEqual({
+      controlMachine: "head-01",
+      partitions: ["batch", "interactive", "gpu", "a100", "h100"],
+    });
+    expect(screen.getByRole("status").textContent).toBe(
+      "Saved Lab Cluster (4 nodes)",
+    );
+  });
+
+  it("shows validation errors and blocks saving an invalid cluster", () => {
+    const onSave = vi.fn();
+    render(<ClusterBuilder onSave={onSave} />);
+    fireEvent.click(screen.getByText("DGX A100"));
+    fireEvent.change(screen.getByLabelText("Partitions"), {
+      target: { value: "gpu, h100" },
+    });
+
+    expect(screen.getByRole("alert").textContent).toContain(
+      'slurmConfig.partitions: "h100" has no nodes with h100 GPUs',
+    );
+    expect(screen.getByText("Save").closest("button")).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Partitions"), {
+      target: { value: "gpu" },
+    });
+    fireEvent.change(screen.getByLabelText("Spine switches"), {
+      target: { value: "0" },
+    });
+    expect(screen.getByRole("alert").textContent).toContain(
+      "A fabric with more than one leaf switch needs a spine",
+    );
+    fireEvent.click(screen.getByText("Auto"));
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("shares the cluster as a link and imports cluster JSON", async () => {
+    render(
+      <ClusterBuilder
+        initialCluster={createMixedCluster([
+          { systemType: "DGX-A100", count: 1 },
+          { systemType: "DGX-B200", count: 1 },
+        ])}
+      />,
+    );
+    fireEvent.click(screen.getByText("Share Link"));
+    const link = (screen.getByLabelText("Share link") as HTMLInputElement)
+      .value;
+    const shared = readSharedCluster(new URL(link).hash)!;
+    expect(shared.data?.nodes.map((n) => n.systemType)).toEqual([
+      "DGX-A100",
+      "DGX-B200",
+    ]);
+
+    const file = new File(
+      [
+        JSON.stringify(
+          createMixedCluster([{ systemType: "DGX-H200", count: 3 }]),
+        ),
+      ],
+      "lab.json",
+      { type: "application/json" },
+    );
+    fireEvent.change(screen.getByLabelText("Import cluster JSON"), {
+      target: { files: [file] },
+    });
+    await waitFor(() =>
+      expect(screen.getByRole("status").textContent).toBe(
+        "Imported DGX-H200 Cluster",
+      ),
+    );
+    expect(screen.getByText("Nodes").previousElementSibling!.textContent).toBe(
+      "3",
+    );
+  });
+
+  it("exports the cluster's configuration files as a tarball", () => {
+    const createObjectURL = vi.fn((_blob: Blob) => "blob:configs");
+    const revokeObjectURL = vi.fn();
+    const original = {
+      createObjectURL: URL.createObjectURL,
+      revokeObjectURL: URL.revokeObjectURL,
+    };
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    let downloaded = "";
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        downloaded = this.download;
+      });
+
+    render(<ClusterBuilder initialCluster={createDefaultCluster()} />);
+    fireEvent.click(screen.getByText("Export Configs"));
+
+    const blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe("application/x-tar");
+    // A header and at least one content block per file, and the end marker
+    expect(blob.size).toBeGreaterThanOrEqual(512 * (7 * 2 + 2));
+    expect(downloaded).toBe("dgx-superpod-configs.tar");
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:configs");
+
+    click.mockRestore();
+    Object.assign(URL, original);
+  });
 });
@@ -346,4 +346,31 @@ describe("ClusterHeatmap", () => {
     );
     expect(okWarningDot).toBeFalsy();
   });
+
+  // --------------------------------------------------------------------------
+  // 14. Mixed system types
+  // --------------------------------------------------------------------------
+
+  it("groups nodes by system type when the cluster mixes them", () => {
+    const h100: DGXNode = {
+      ...makeNode("dgx-04", 2, { name: "NVIDIA H100 80GB HBM3" }),
+      systemType: "DGX-H100",
+    };
+    render(
+      <ClusterHeatmap
+        nodes={[makeNode("dgx-00", 2), makeNode("dgx-01", 2), h100]}
+      />,
+    );
+
+    expect(screen.getByText("DGX A100 · 2 nodes")).toBeInTheDocument();
+    expect(screen.getByText("DGX H100 · 1 node")).toBeInTheDocument();
+
+    fireEvent.mouseEnter(screen.getAllByTitle("GPU 0: 50.0%")[2]);
+    expect(screen.getByText("NVIDIA H100 80GB HBM3")).toBeInTheDocument();
+  });
+
+  it("shows no system type headings for a uniform cluster", () => {
+    render(<ClusterHeatmap nodes={[makeNode("dgx-00", 2)]} />);
+    expect(screen.queryByText(/DGX A100 ·/)).not.toBeInTheDocument();
+  });
 });
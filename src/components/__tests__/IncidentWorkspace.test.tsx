@@ -3,7 +3,8 @@
  *
  * Tests the incident workspace sidebar panel that displays during active
  * incidents: situation briefing, elapsed timer, workflow progress checklist,
- * diagnosis submission, hint system, and abandon button.
+ * remediation and field service, diagnosis submission, hint system, and
+ * abandon button.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
@@ -210,6 +211,40 @@ describe("IncidentWorkspace", () => {
       expect(props.onSubmitDiagnosis).toHaveBeenCalledWith("Faulty GPU memory");
     });
 
+    it("asks for every root cause of a compound incident", () => {
+      const props = {
+        ...defaultProps(),
+        rootCauses: [
+          {
+            prompt: "What started the incident on dgx-02?",
+            options: ["Flapping IB cable", "Subnet manager failover"],
+          },
+          {
+            prompt: "What did that lead to on dgx-05?",
+            options: ["NCCL timeout drain", "Job time limit"],
+          },
+        ],
+      };
+      render(<IncidentWorkspace {...props} />);
+      fireEvent.click(
+        screen.getByRole("button", { name: /submit diagnosis/i }),
+      );
+
+      expect(
+        screen.getByText("What did that lead to on dgx-05?"),
+      ).toBeInTheDocument();
+      fireEvent.click(screen.getByText("Flapping IB cable"));
+      const confirm = screen.getByRole("button", { name: /confirm/i });
+      expect(confirm).toBeDisabled();
+
+      fireEvent.click(screen.getByText("NCCL timeout drain"));
+      fireEvent.click(confirm);
+      expect(props.onSubmitDiagnosis).toHaveBeenCalledWith([
+        "Flapping IB cable",
+        "NCCL timeout drain",
+      ]);
+    });
+
     it("does not show Confirm button until a root cause is selected", () => {
       render(<IncidentWorkspace {...defaultProps()} />);
       fireEvent.click(
@@ -271,6 +306,84 @@ describe("IncidentWorkspace", () => {
     });
   });
 
+  // ==========================================================================
+  // Remediation
+  // ==========================================================================
+
+  describe("Remediation", () => {
+    const nodes = [
+      { id: "dgx-00", gpuIds: [0, 1] },
+      { id: "dgx-01", gpuIds: [0, 1, 2, 3] },
+    ];
+
+    it("is left out without fixes or field service", () => {
+      render(<IncidentWorkspace {...defaultProps()} />);
+      // Only the workflow phase of that name
+      expect(screen.getAllByText("Remediation")).toHaveLength(1);
+    });
+
+    it("lists the fixes applied and shows when the incident is resolved", () => {
+      const hang = { faultType: "gpu-hang", nodeId: "dgx-01", gpuId: 3 };
+      render(
+        <IncidentWorkspace
+          {...defaultProps()}
+          remediations={[
+            {
+              request: { action: "gpu-reset", nodeId: "dgx-01", gpuId: 3 },
+              fault: hang,
+              origin: hang,
+              outcome: "cleared",
+              unmet: [],
+            },
+          ]}
+          resolved
+        />,
+      );
+      expect(screen.getByTestId("remediation-log")).toHaveTextContent(
+        "GPU reset cleared the hung GPU on dgx-01 GPU 3",
+      );
+      expect(screen.getByTestId("incident-resolved")).toBeInTheDocument();
+    });
+
+    it("requests field service for the part picked on the node picked", () => {
+      const onFieldService = vi.fn();
+      render(
+        <IncidentWorkspace
+          {...defaultProps()}
+          nodes={nodes}
+          onFieldService={onFieldService}
+        />,
+      );
+      const request = screen.getByRole("button", {
+        name: /request field service/i,
+      });
+      expect(request).toBeDisabled();
+
+      fireEvent.change(screen.getByLabelText("Field service node"), {
+        target: { value: "dgx-01" },
+      });
+      fireEvent.change(screen.getByLabelText("Part to replace"), {
+        target: { value: "gpu:3" },
+      });
+      fireEvent.click(request);
+      expect(onFieldService).toHaveBeenCalledWith({
+        action: "replace-part",
+        nodeId: "dgx-01",
+        gpuId: 3,
+        part: "gpu",
+      });
+
+      fireEvent.change(screen.getByLabelText("Part to replace"), {
+        target: { value: "cable" },
+      });
+      fireEvent.click(request);
+      expect(onFieldService).toHaveBeenLastCalledWith({
+        action: "replace-cable",
+        nodeId: "dgx-01",
+      });
+    });
+  });
+
   // ==========================================================================
   // Abandon Incident
   // ==========================================================================
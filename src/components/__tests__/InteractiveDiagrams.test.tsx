@@ -4,7 +4,9 @@ import { MIGConfigurator } from '../MIGConfigurator';
 import { SlurmJobVisualizer } from '../SlurmJobVisualizer';
 import { ClusterBuilder } from '../ClusterBuilder';
 import { IBCableTracer } from '../IBCableTracer';
-import type { DGXNode, GPU, InfiniBandHCA, InfiniBandPort } from '@/types/hardware';
+import { useSimulationStore } from '@/store/simulationStore';
+import { createDefaultCluster } from '@/utils/clusterFactory';
+import type { DGXNode, GPU, InfiniBandHCA, InfiniBandPort, MIGInstance } from '@/types/hardware';
 
 describe('MIGConfigurator', () => {
   const createMockGPU = (id: number, migMode: boolean = false): GPU => ({
@@ -89,10 +91,17 @@ describe('MIGConfigurator', () => {
       render(<MIGConfigurator gpu={createMockGPU(0, true)} />);
 
       // Profiles appear in both buttons and reference section
-      expect(screen.getAllByText('1g.5gb').length).toBeGreaterThan(0);
-      expect(screen.getAllByText('2g.10gb').length).toBeGreaterThan(0);
-      expect(screen.getAllByText('3g.20gb').length).toBeGreaterThan(0);
-      expect(screen.getAllByText('7g.40gb').length).toBeGreaterThan(0);
+      expect(screen.getAllByText('1g.10gb').length).toBeGreaterThan(0);
+      expect(screen.getAllByText('2g.20gb').length).toBeGreaterThan(0);
+      expect(screen.getAllByText('3g.40gb').length).toBeGreaterThan(0);
+      expect(screen.getAllByText('7g.80gb').length).toBeGreaterThan(0);
+    });
+
+    it('should show the profiles of the GPU system', () => {
+      render(<MIGConfigurator gpu={createMockGPU(0, true)} systemType="DGX-H200" />);
+
+      expect(screen.getAllByText('1g.18gb').length).toBeGreaterThan(0);
+      expect(screen.getAllByText('7g.141gb').length).toBeGreaterThan(0);
     });
 
     it('should show Add MIG Instance section', () => {
@@ -107,7 +116,7 @@ describe('MIGConfigurator', () => {
       render(<MIGConfigurator gpu={createMockGPU(0, true)} />);
 
       // Find the profile button in the Add MIG Instance section (first occurrence)
-      const profileButtons = screen.getAllByText('1g.5gb');
+      const profileButtons = screen.getAllByText('1g.10gb');
       const profileButton = profileButtons[0].closest('button');
       if (profileButton) {
         fireEvent.click(profileButton);
@@ -121,7 +130,7 @@ describe('MIGConfigurator', () => {
       render(<MIGConfigurator gpu={createMockGPU(0, true)} />);
 
       // Add an instance - use first occurrence which is the button
-      const profileButtons = screen.getAllByText('1g.5gb');
+      const profileButtons = screen.getAllByText('1g.10gb');
       const profileButton = profileButtons[0].closest('button');
       if (profileButton) {
         fireEvent.click(profileButton);
@@ -153,7 +162,7 @@ describe('MIGConfigurator', () => {
       render(<MIGConfigurator gpu={createMockGPU(0, true)} onApply={onApply} />);
 
       // Add an instance first - use getAllByText
-      const profileButtons = screen.getAllByText('1g.5gb');
+      const profileButtons = screen.getAllByText('1g.10gb');
       const profileButton = profileButtons[0].closest('button');
       if (profileButton) {
         fireEvent.click(profileButton);
@@ -161,6 +170,31 @@ describe('MIGConfigurator', () => {
 
       expect(screen.getByText('Apply Configuration')).toBeInTheDocument();
     });
+
+    it('should write the instances to the GPU on apply', () => {
+      const onApply = vi.fn();
+      const updateGPU = vi.spyOn(useSimulationStore.getState(), 'updateGPU');
+      render(
+        <MIGConfigurator gpu={createMockGPU(0, true)} nodeId="dgx-00" onApply={onApply} />
+      );
+
+      // The slice bar shows the profile name too
+      const addProfile = (name: string) =>
+        fireEvent.click(
+          screen.getAllByText(name).map((e) => e.closest('button')).find(Boolean)!
+        );
+      addProfile('3g.40gb');
+      addProfile('3g.40gb');
+      fireEvent.click(screen.getByText('Apply Configuration'));
+
+      const instances = onApply.mock.calls[0][0];
+      expect(instances.map((i: MIGInstance) => i.placement)).toEqual([
+        { start: 0, size: 4 },
+        { start: 4, size: 4 },
+      ]);
+      expect(updateGPU).toHaveBeenCalledWith('dgx-00', 0, { migInstances: instances });
+      updateGPU.mockRestore();
+    });
   });
 });
 
@@ -511,13 +545,13 @@ describe('ClusterBuilder', () => {
 
   describe('With Initial Nodes', () => {
     it('should render initial nodes', () => {
-      render(<ClusterBuilder initialNodes={mockNodes} />);
+      render(<ClusterBuilder initialCluster={{ ...createDefaultCluster(), nodes: mockNodes }} />);
 
       expect(screen.getByText('dgx-00')).toBeInTheDocument();
     });
 
     it('should show correct stats for initial nodes', () => {
-      render(<ClusterBuilder initialNodes={mockNodes} />);
+      render(<ClusterBuilder initialCluster={{ ...createDefaultCluster(), nodes: mockNodes }} />);
 
       // 1 node, 8 GPUs, 1 HCA
       const statsNumbers = screen.getAllByText('8');
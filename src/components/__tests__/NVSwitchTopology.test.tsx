@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen } from "@testing-library/react";
 import { NVSwitchTopology } from "../NVSwitchTopology";
 import type { DGXNode, GPU } from "@/types/hardware";
+import { createCustomCluster } from "@/utils/clusterFactory";
+import { getNVLinkDomain } from "@/utils/nvlinkRack";
 
 // Mock ResizeObserver (not available in jsdom)
 (globalThis as Record<string, unknown>).ResizeObserver = vi
@@ -133,6 +135,19 @@ describe("NVSwitchTopology", () => {
     });
   });
 
+  describe("NVLink domain", () => {
+    it("should title a rack-scale node with its domain", () => {
+      const cluster = createCustomCluster(2, "DGX-GB200");
+      const domain = getNVLinkDomain(cluster, "dgx-01")!;
+      render(<NVSwitchTopology node={cluster.nodes[1]} domain={domain} />);
+
+      expect(
+        screen.getByText("NVLink Domain rack-0 (GB200 NVL72) - dgx-01"),
+      ).toBeInTheDocument();
+      expect(screen.getByText("Grace CPU")).toBeInTheDocument();
+    });
+  });
+
   describe("Legend", () => {
     it("should show NVSwitch legend item", () => {
       render(<NVSwitchTopology node={mockNode} />);
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { StateHistoryPanel } from "../StateHistoryPanel";
+import { scenarioContextManager } from "@/store/scenarioContext";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+
+describe("StateHistoryPanel", () => {
+  beforeEach(() => {
+    scenarioContextManager.clearAll();
+  });
+
+  afterEach(() => {
+    scenarioContextManager.clearAll();
+  });
+
+  it("should explain that history needs an active scenario", () => {
+    render(<StateHistoryPanel />);
+    expect(screen.getByText(/record its state history/)).toBeInTheDocument();
+  });
+
+  describe("with an active scenario", () => {
+    beforeEach(() => {
+      const ctx = scenarioContextManager.createContext(
+        "history-test",
+        createDefaultCluster(),
+      );
+      scenarioContextManager.setActiveContext("history-test");
+      ctx.updateNodeHealth("dgx-00", "Critical");
+      ctx.setCurrentCommand("scontrol update NodeName=dgx-00 State=DRAIN");
+      ctx.setSlurmState("dgx-00", "drain", "bad gpu");
+      ctx.setCurrentCommand(undefined);
+    });
+
+    it("should list each change with the command that caused it", () => {
+      render(<StateHistoryPanel />);
+
+      expect(screen.getByText("scenario setup")).toBeInTheDocument();
+      expect(
+        screen.getByText("scontrol update NodeName=dgx-00 State=DRAIN"),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByText("Set dgx-00 Slurm state to drain"),
+      ).toBeInTheDocument();
+    });
+
+    it("should diff the baseline against the latest state", () => {
+      render(<StateHistoryPanel />);
+
+      expect(screen.getByText("2 / 2")).toBeInTheDocument();
+      expect(screen.getByText("Slurm state")).toBeInTheDocument();
+      expect(screen.getByText("Critical")).toBeInTheDocument();
+    });
+
+    it("should diff only up to the point scrubbed to", () => {
+      render(<StateHistoryPanel />);
+
+      fireEvent.change(screen.getByLabelText("State after change"), {
+        target: { value: "1" },
+      });
+      expect(screen.getByText("1 / 2")).toBeInTheDocument();
+      expect(screen.queryByText("Slurm state")).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("Set baseline"));
+      expect(
+        screen.getByText("No differences between these two points."),
+      ).toBeInTheDocument();
+    });
+  });
+});
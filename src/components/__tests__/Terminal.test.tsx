@@ -139,6 +139,7 @@ vi.mock("../../utils/commandSuggestions", () => ({
 
 vi.mock("../../utils/pipeHandler", () => ({
   applyPipeFilters: vi.fn((output: string) => output),
+  applyPipeStage: vi.fn((output: string) => output),
   hasPipes: vi.fn(() => false),
 }));
 
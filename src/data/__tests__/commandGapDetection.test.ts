@@ -45,6 +45,7 @@ const TERMINAL_COMMANDS = new Set([
   "ibcableerrors",
   "ibping",
   "ibtracert",
+  "ibroute",
   "ib_write_bw",
   "ib_read_bw",
   "sminfo",
@@ -60,12 +61,17 @@ const TERMINAL_COMMANDS = new Set([
   "scancel",
   "sacct",
   "sacctmgr",
+  "sprio",
+  "sshare",
 
   // Container tools
   "docker",
   "ngc",
   "enroot",
   "nvidia-container-cli",
+  "apptainer",
+  "singularity",
+  "podman",
 
   // Mellanox tools
   "mst",
@@ -74,6 +80,8 @@ const TERMINAL_COMMANDS = new Set([
   "mlxcables",
   "mlxup",
   "mlxfwmanager",
+  "flint",
+  "mlxfwreset",
 
   // BCM tools
   "bcm",
@@ -94,9 +102,16 @@ const TERMINAL_COMMANDS = new Set([
   "ps",
   "numactl",
   "uptime",
+  "reboot",
   "uname",
   "hostname",
   "sensors",
+  "fw-check",
+  "firmware",
+  "fwupdmgr",
+  "bfb-install",
+  "screen",
+  "minicom",
 
   // PCI / journalctl
   "lspci",
@@ -138,12 +153,28 @@ const TERMINAL_COMMANDS = new Set([
   "env",
   "dpkg",
   "apt",
+  "apt-mark",
+  "dkms",
   "nvcc",
   "iostat",
   "efibootmgr",
   "nfsstat",
   "ldconfig",
   "taskset",
+
+  // File system (FileSystemSimulator)
+  "touch",
+  "mkdir",
+  "rmdir",
+  "rm",
+  "cp",
+  "mv",
+  "ln",
+  "chmod",
+  "chown",
+  "stat",
+  "vi",
+  "vim",
 ]);
 
 /**
@@ -22,7 +22,7 @@ describe("hardwareSpecs", () => {
   it("should have correct GB200 GPU specs", () => {
     const specs = HARDWARE_SPECS["DGX-GB200"];
     expect(specs.gpu.model).toContain("B200");
-    expect(specs.gpu.count).toBe(8);
+    expect(specs.gpu.count).toBe(4);
     expect(specs.gpu.memoryGB).toBe(180);
     expect(specs.gpu.memoryMiB).toBe(184320);
     expect(specs.gpu.memoryType).toBe("HBM3e");
@@ -33,7 +33,20 @@ describe("hardwareSpecs", () => {
     expect(specs.nvlink.version).toBe("5.0");
     expect(specs.nvlink.linksPerGpu).toBe(18);
     expect(specs.nvlink.totalBandwidthGBs).toBe(1800);
-    expect(specs.nvlink.nvSwitchCount).toBe(4);
+    expect(specs.nvlink.nvSwitchCount).toBe(18);
+  });
+
+  it("should model GB200 as a compute tray of an NVL72 rack", () => {
+    const specs = HARDWARE_SPECS["DGX-GB200"];
+    const rack = specs.rack!;
+    expect(rack.model).toBe("GB200 NVL72");
+    expect(rack.computeTrays * specs.gpu.count).toBe(72);
+    expect(rack.switchTrays * rack.nvSwitchesPerSwitchTray).toBe(
+      specs.nvlink.nvSwitchCount,
+    );
+    expect(specs.system.cpu.sockets * rack.gpusPerSuperchip).toBe(
+      specs.gpu.count,
+    );
   });
 
   it("should have correct GB200 network specs with ConnectX-8 XDR", () => {
@@ -70,8 +83,9 @@ describe("hardwareSpecs", () => {
     expect(getGenerationName("DGX-GB200")).toBe("Blackwell");
   });
 
-  it("all specs should have 8 GPUs", () => {
+  it("all single-node specs should have 8 GPUs", () => {
     for (const type of ALL_SYSTEM_TYPES) {
+      if (HARDWARE_SPECS[type].rack) continue;
       expect(HARDWARE_SPECS[type].gpu.count).toBe(8);
     }
   });
@@ -3,6 +3,8 @@ import {
   INCIDENT_TEMPLATES,
   type IncidentTemplate,
 } from "../incidentTemplates";
+import { FAULT_PROPAGATION_RULES } from "../faultPropagationRules";
+import { FAULT_REMEDIATIONS } from "../remediationRules";
 
 describe("incidentTemplates", () => {
   it("should have at least 8 templates", () => {
@@ -95,6 +97,8 @@ describe("incidentTemplates", () => {
       "nvlink-failure",
       "ecc-accumulation",
       "power-anomaly",
+      "ib-link-flap",
+      "nccl-timeout",
     ];
     for (const t of INCIDENT_TEMPLATES) {
       // At least the first propagation trigger should be known
@@ -105,6 +109,65 @@ describe("incidentTemplates", () => {
     }
   });
 
+  it("should decide RMA only for GPU memory failures", () => {
+    const memoryFaults = ["ecc-error", "row-remap-failure"];
+    const decided = INCIDENT_TEMPLATES.filter(
+      (t) => t.rmaRequired !== undefined,
+    );
+    for (const t of decided) {
+      for (const fault of t.primaryFaults) {
+        expect(memoryFaults).toContain(fault.faultType);
+      }
+    }
+    expect(decided.map((t) => [t.id, t.rmaRequired])).toContainEqual([
+      "row-remap-failure",
+      true,
+    ]);
+  });
+
+  it("should only use placeholders the composer fills in", () => {
+    const known = ["node", "gpu", "peer", "gpuCount", "system", "memory"];
+    for (const t of INCIDENT_TEMPLATES) {
+      const text = [
+        t.situation,
+        t.rootCause,
+        ...t.diagnosticPath,
+        ...t.rootCauseOptions,
+      ].join("\n");
+      for (const [, key] of text.matchAll(/\{(\w+)\}/g)) {
+        expect(known).toContain(key);
+      }
+    }
+  });
+
+  it("should reach consequence-only templates through an escalation", () => {
+    const escalations = FAULT_PROPAGATION_RULES.flatMap((r) =>
+      r.consequences.map((c) => c.escalatesTo),
+    ).filter(Boolean);
+    const triggers = FAULT_PROPAGATION_RULES.map((r) => r.trigger);
+    for (const trigger of escalations) {
+      expect(triggers).toContain(trigger);
+    }
+    for (const t of INCIDENT_TEMPLATES.filter((t) => t.consequenceOnly)) {
+      expect(escalations).toContain(t.propagationTrigger);
+    }
+  });
+
+  it("should declare fixes for every primary fault and what they leave", () => {
+    for (const t of INCIDENT_TEMPLATES) {
+      for (const pf of t.primaryFaults) {
+        expect(FAULT_REMEDIATIONS[pf.faultType]?.fixes.length).toBeGreaterThan(
+          0,
+        );
+      }
+    }
+    for (const remedies of Object.values(FAULT_REMEDIATIONS)) {
+      for (const fix of remedies.fixes.filter((f) => f.becomes)) {
+        expect(FAULT_REMEDIATIONS).toHaveProperty([fix.becomes!]);
+      }
+    }
+  });
+
   it("should satisfy IncidentTemplate type contract", () => {
     // TypeScript compile-time check: ensure exported type matches usage
     const _check: IncidentTemplate[] = INCIDENT_TEMPLATES;
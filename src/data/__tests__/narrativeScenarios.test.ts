@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import scenariosData from "../narrativeScenarios.json";
+import { validateStateAssertion } from "@/utils/stateAssertions";
 
 interface NarrativeScenario {
   id: string;
@@ -35,6 +36,7 @@ interface NarrativeStep {
     type: string;
     command?: string;
     pattern?: string;
+    state?: unknown[];
   };
   quiz?: {
     question: string;
@@ -298,6 +300,7 @@ describe("narrativeScenarios.json", () => {
       "allocate-job",
       "set-slurm-state",
       "service-state",
+      "container-toolkit-missing",
     ];
 
     const allAutoFaults = scenarios.flatMap((s) =>
@@ -483,6 +486,8 @@ describe("narrativeScenarios.json", () => {
         "mount",
         "dpkg",
         "apt",
+        "apt-mark",
+        "dkms",
         "ldconfig",
         "efibootmgr",
         "ssh",
@@ -491,6 +496,12 @@ describe("narrativeScenarios.json", () => {
         "taskset",
         "ofed_info",
         "mlxfwmanager",
+        "flint",
+        "mlxfwreset",
+        "fwupdmgr",
+        "bfb-install",
+        "screen",
+        "minicom",
         "mlxconfig",
         "mlxlink",
         "mlxcables",
@@ -526,5 +537,15 @@ describe("narrativeScenarios.json", () => {
         });
       });
     });
+
+    it("state assertions should be well formed", () => {
+      scenarios.forEach((s) => {
+        s.steps.forEach((step) => {
+          (step.validation.state ?? []).forEach((assertion) => {
+            expect(validateStateAssertion(assertion)).toEqual([]);
+          });
+        });
+      });
+    });
   });
 });
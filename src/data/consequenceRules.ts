@@ -181,6 +181,8 @@ export const SAFE_COMMAND_PATTERNS: string[] = [
   "sinfo",
   "squeue",
   "sacct",
+  "sprio",
+  "sshare",
   "dmesg",
   "ibstat",
   "ibstatus",
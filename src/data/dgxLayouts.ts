@@ -19,6 +19,14 @@ export interface NVSwitchPosition {
   connectedGPUs: number[];
 }
 
+// A Grace CPU and the GPUs it is paired with over NVLink-C2C
+export interface CPUPosition {
+  id: number;
+  x: number;
+  y: number;
+  pairedGPUs: number[];
+}
+
 export interface DGXLayout {
   systemType: string;
   gpuCount: number;
@@ -26,6 +34,7 @@ export interface DGXLayout {
   gpuPositions: GPULayoutPosition[];
   nvSwitchPositions: NVSwitchPosition[];
   nvLinkConnections: Array<{ from: number; to: number; nvSwitchId?: number }>;
+  cpuPositions?: CPUPosition[]; // Superchip systems only
 }
 
 /**
@@ -219,63 +228,56 @@ export const DGX_B200_LAYOUT: DGXLayout = {
 /**
  * DGX GB200 Layout
  *
- * 8 GPUs arranged in 2 rows of 4, connected via 2 NVSwitch 5th-gen chips.
- * Same topology as DGX B200 — NVLink 5.0 with 18 links per GPU at 50 GB/s each.
- * All-to-all non-blocking connectivity through the 2 NVSwitch chips.
- * Grace CPU (ARM-based) instead of x86.
- * ConnectX-8 XDR 800Gb/s networking.
+ * One GB200 NVL72 compute tray: 2 Grace-Blackwell superchips, each a Grace
+ * CPU paired with 2 B200 GPUs over NVLink-C2C. The 18 NVSwitch 5th-gen chips
+ * sit in the rack's 9 NVLink switch trays (2 per tray, shown in 2 rows of 9)
+ * and every GPU has one of its 18 NVLink 5.0 links on each of them, which
+ * also connects it to the other 17 compute trays of the 72-GPU domain.
  */
 export const DGX_GB200_LAYOUT: DGXLayout = {
   systemType: "DGX-GB200",
-  gpuCount: 8,
-  nvSwitchCount: 2,
+  gpuCount: 4,
+  nvSwitchCount: 18,
   gpuPositions: [
-    // Top row (GPUs 0-3)
-    { gpuIndex: 0, x: 0.15, y: 0.2, nvSwitchGroup: 0 },
-    { gpuIndex: 1, x: 0.38, y: 0.2, nvSwitchGroup: 0 },
-    { gpuIndex: 2, x: 0.62, y: 0.2, nvSwitchGroup: 0 },
-    { gpuIndex: 3, x: 0.85, y: 0.2, nvSwitchGroup: 0 },
-    // Bottom row (GPUs 4-7)
-    { gpuIndex: 4, x: 0.15, y: 0.8, nvSwitchGroup: 0 },
-    { gpuIndex: 5, x: 0.38, y: 0.8, nvSwitchGroup: 0 },
-    { gpuIndex: 6, x: 0.62, y: 0.8, nvSwitchGroup: 0 },
-    { gpuIndex: 7, x: 0.85, y: 0.8, nvSwitchGroup: 0 },
+    // Superchip 0 (GPUs 0-1), superchip 1 (GPUs 2-3)
+    { gpuIndex: 0, x: 0.12, y: 0.35, nvSwitchGroup: 0 },
+    { gpuIndex: 1, x: 0.36, y: 0.35, nvSwitchGroup: 0 },
+    { gpuIndex: 2, x: 0.64, y: 0.35, nvSwitchGroup: 0 },
+    { gpuIndex: 3, x: 0.88, y: 0.35, nvSwitchGroup: 0 },
   ],
   nvSwitchPositions: [
-    // 2 NVSwitches centered between GPU rows
-    { id: 0, x: 0.38, y: 0.5, connectedGPUs: [0, 1, 2, 3, 4, 5, 6, 7] },
-    { id: 1, x: 0.62, y: 0.5, connectedGPUs: [0, 1, 2, 3, 4, 5, 6, 7] },
+    // Switch tray t holds NVSwitches 2t (top row) and 2t+1 (bottom row)
+    { id: 0, x: 0.06, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 1, x: 0.06, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 2, x: 0.17, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 3, x: 0.17, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 4, x: 0.28, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 5, x: 0.28, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 6, x: 0.39, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 7, x: 0.39, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 8, x: 0.5, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 9, x: 0.5, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 10, x: 0.61, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 11, x: 0.61, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 12, x: 0.72, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 13, x: 0.72, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 14, x: 0.83, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 15, x: 0.83, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
+    { id: 16, x: 0.94, y: 0.72, connectedGPUs: [0, 1, 2, 3] },
+    { id: 17, x: 0.94, y: 0.88, connectedGPUs: [0, 1, 2, 3] },
   ],
   nvLinkConnections: [
-    // All-to-all via NVSwitch fabric (28 unique pairs, C(8,2))
+    // All-to-all via the switch trays (6 unique pairs, C(4,2))
     { from: 0, to: 1 },
     { from: 0, to: 2 },
     { from: 0, to: 3 },
-    { from: 0, to: 4 },
-    { from: 0, to: 5 },
-    { from: 0, to: 6 },
-    { from: 0, to: 7 },
     { from: 1, to: 2 },
     { from: 1, to: 3 },
-    { from: 1, to: 4 },
-    { from: 1, to: 5 },
-    { from: 1, to: 6 },
-    { from: 1, to: 7 },
     { from: 2, to: 3 },
-    { from: 2, to: 4 },
-    { from: 2, to: 5 },
-    { from: 2, to: 6 },
-    { from: 2, to: 7 },
-    { from: 3, to: 4 },
-    { from: 3, to: 5 },
-    { from: 3, to: 6 },
-    { from: 3, to: 7 },
-    { from: 4, to: 5 },
-    { from: 4, to: 6 },
-    { from: 4, to: 7 },
-    { from: 5, to: 6 },
-    { from: 5, to: 7 },
-    { from: 6, to: 7 },
+  ],
+  cpuPositions: [
+    { id: 0, x: 0.24, y: 0.05, pairedGPUs: [0, 1] },
+    { id: 1, x: 0.76, y: 0.05, pairedGPUs: [2, 3] },
   ],
 };
 
@@ -401,3 +403,23 @@ export function calculateNVSwitchPositions(
     connectedGPUs: pos.connectedGPUs,
   }));
 }
+
+/**
+ * Calculate pixel positions for Grace CPUs based on layout and container dimensions.
+ */
+export function calculateCPUPositions(
+  layout: DGXLayout,
+  width: number,
+  height: number,
+  padding: number = 50,
+): Array<{ id: number; x: number; y: number; pairedGPUs: number[] }> {
+  const usableWidth = width - padding * 2;
+  const usableHeight = height - padding * 2;
+
+  return (layout.cpuPositions ?? []).map((pos) => ({
+    id: pos.id,
+    x: padding + pos.x * usableWidth,
+    y: padding + pos.y * usableHeight,
+    pairedGPUs: pos.pairedGPUs,
+  }));
+}
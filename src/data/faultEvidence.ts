@@ -0,0 +1,167 @@
+// ---------------------------------------------------------------------------
+// Fault Evidence
+// The observations that reveal each incident fault: which tools show it, on
+// which node and GPU, and the field of their output that gives it away. The
+// WorkflowTracker matches what the learner's commands really printed against
+// these to tell a diagnosis backed by evidence from a lucky guess.
+//
+// Fields are regular expression sources naming the hardware through the
+// IncidentTemplates placeholders {node} and {gpu}, plus {bus} for the GPU's
+// PCI address as the kernel log prints it (0000:13:00.0).
+// ---------------------------------------------------------------------------
+
+/**
+ * Where an observation has to be made to reveal the fault:
+ * - gpu: on the faulted node, about the faulted GPU. A command that picks
+ *   GPUs with -i/--id must include it; one that lists every GPU does too.
+ * - node: on the faulted node.
+ * - cluster: from any node, in output that names the faulted node.
+ */
+export type EvidenceScope = "gpu" | "node" | "cluster";
+
+export interface EvidenceSpec {
+  /** What the observation shows, e.g. "XID 48 from GPU {gpu} in dmesg" */
+  label: string;
+  /** Commands that can show it, by their first word */
+  tools: string[];
+  /** Pattern the command's output must match */
+  field: string;
+  scope: EvidenceScope;
+}
+
+const UNCORRECTABLE_ECC: EvidenceSpec = {
+  label: "Uncorrectable DRAM ECC errors on GPU {gpu}",
+  tools: ["nvidia-smi"],
+  field: "DRAM Uncorrectable\\s+: [1-9]",
+  scope: "gpu",
+};
+
+const XID_48: EvidenceSpec = {
+  label: "XID 48 (double-bit ECC error) from GPU {gpu} in the kernel log",
+  tools: ["dmesg"],
+  field: "Xid \\(PCI:{bus}\\): 48",
+  scope: "node",
+};
+
+/** Evidence by IncidentTemplates fault type; red herrings declare none */
+export const FAULT_EVIDENCE: Record<string, EvidenceSpec[]> = {
+  "ecc-error": [
+    UNCORRECTABLE_ECC,
+    XID_48,
+    {
+      label: "Pages retired for double-bit ECC errors on GPU {gpu}",
+      tools: ["nvidia-smi"],
+      field: "Double Bit ECC\\s+: [1-9]",
+      scope: "gpu",
+    },
+  ],
+  "row-remap-failure": [
+    {
+      label: "Row remapping failure on GPU {gpu}",
+      tools: ["nvidia-smi"],
+      field: "Remapping Failure Occurred\\s+: Yes",
+      scope: "gpu",
+    },
+    UNCORRECTABLE_ECC,
+    XID_48,
+  ],
+  "gpu-hang": [
+    {
+      label: "XID 43 (GPU stopped processing) from GPU {gpu} in the kernel log",
+      tools: ["dmesg"],
+      field: "Xid \\(PCI:{bus}\\): 43",
+      scope: "node",
+    },
+  ],
+  "pcie-error": [
+    {
+      label: "XID 79 (fallen off the bus) from GPU {gpu} in the kernel log",
+      tools: ["dmesg"],
+      field: "Xid \\(PCI:{bus}\\): 79",
+      scope: "node",
+    },
+    {
+      label: "GPU {gpu} missing from nvidia-smi",
+      tools: ["nvidia-smi"],
+      field:
+        "not shown due to critical errors \\(XID 79|Unable to query GPU {gpu}: GPU has fallen off the bus",
+      scope: "gpu",
+    },
+  ],
+  "nvlink-failure": [
+    {
+      label: "NVLink CRC and replay errors on GPU {gpu}",
+      tools: ["nvidia-smi"],
+      field: "Replay Errors: [1-9]",
+      scope: "gpu",
+    },
+  ],
+  thermal: [
+    {
+      label: "GPU {gpu} running past its slowdown temperature",
+      tools: ["nvidia-smi"],
+      field:
+        "GPU Current Temp\\s+: (?:9\\d|1\\d\\d) C|\\| N/A\\s+(?:9\\d|1\\d\\d)C\\s",
+      scope: "gpu",
+    },
+    {
+      label: "Thermal slowdown of GPU {gpu} in the kernel log",
+      tools: ["dmesg"],
+      field: "GPU at {bus}: GPU has reached thermal slowdown",
+      scope: "node",
+    },
+  ],
+  power: [
+    {
+      label: "GPU {gpu} drawing 700 W",
+      tools: ["nvidia-smi"],
+      field: "Power Draw\\s+: 700\\.00 W|\\s700W /",
+      scope: "gpu",
+    },
+  ],
+  "driver-error": [
+    {
+      label: "nvidia-smi cannot reach the NVIDIA driver on {node}",
+      tools: ["nvidia-smi"],
+      field: "couldn't communicate with the NVIDIA driver",
+      scope: "node",
+    },
+    {
+      label: "nouveau loaded in place of the NVIDIA module on {node}",
+      tools: ["lsmod"],
+      field: "^nouveau\\s",
+      scope: "node",
+    },
+  ],
+  "ib-cable-flap": [
+    {
+      label: "Symbol errors on the HCA port of {node}",
+      tools: ["perfquery", "ibporterrors"],
+      field: "SymbolError(?:Counter:\\.+|s:\\s+)[1-9]",
+      scope: "node",
+    },
+    {
+      label: "Errors on the cable of {node} in the fabric",
+      tools: ["ibcableerrors", "ibdiagnet"],
+      field: '"{node} mlx5_\\d+" port \\d+',
+      scope: "cluster",
+    },
+  ],
+  "ib-link-down": [
+    {
+      label: "HCA port of {node} down",
+      tools: ["ibstat"],
+      field: "State: Down",
+      scope: "node",
+    },
+  ],
+  "nccl-timeout": [
+    {
+      label: "{node} drained for an NCCL timeout",
+      tools: ["sinfo", "scontrol"],
+      field:
+        "NCCL timeout[^\\n]*\\b{node}\\b|NodeName={node}\\b[\\s\\S]*?Reason=NCCL timeout",
+      scope: "cluster",
+    },
+  ],
+};
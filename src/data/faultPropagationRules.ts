@@ -6,6 +6,11 @@ export interface PropagationRule {
     target: "same-gpu" | "nvlink-peers" | "same-node" | "slurm";
     params: Record<string, unknown>;
     description: string;
+    /**
+     * Trigger this consequence sets off in turn. The IncidentComposer follows
+     * these links to chain templates into compound incidents.
+     */
+    escalatesTo?: string;
   }>;
 }
 
@@ -111,6 +116,7 @@ export const FAULT_PROPAGATION_RULES: PropagationRule[] = [
         target: "same-node",
         params: {},
         description: "Hottest GPU hangs (XID 43)",
+        escalatesTo: "xid-43",
       },
     ],
   },
@@ -178,4 +184,43 @@ export const FAULT_PROPAGATION_RULES: PropagationRule[] = [
       },
     ],
   },
+  {
+    trigger: "ib-link-flap",
+    consequences: [
+      {
+        delayMs: 5000,
+        action: "ib-symbol-errors",
+        target: "same-node",
+        params: {},
+        description: "Symbol errors and link downs climb on the flapping port",
+      },
+      {
+        delayMs: 20000,
+        action: "nccl-timeout",
+        target: "slurm",
+        params: {},
+        description: "NCCL collectives crossing the link time out",
+        escalatesTo: "nccl-timeout",
+      },
+    ],
+  },
+  {
+    trigger: "nccl-timeout",
+    consequences: [
+      {
+        delayMs: 5000,
+        action: "slurm-job-fail",
+        target: "slurm",
+        params: {},
+        description: "Multi-node job fails with an NCCL timeout",
+      },
+      {
+        delayMs: 10000,
+        action: "slurm-drain",
+        target: "same-node",
+        params: { reason: "NCCL timeout" },
+        description: "Slurm drains the node whose rank timed out",
+      },
+    ],
+  },
 ];
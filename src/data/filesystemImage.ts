@@ -0,0 +1,409 @@
+/**
+ * Filesystem Image — the on-disk layout every simulated DGX node boots with
+ *
+ * Each node's VirtualFileSystem is seeded from these entries the first time it
+ * is touched. Files whose contents depend on cluster state (hostname, hosts,
+ * Slurm config, driver version, GPU proc entries, device nodes, syslog) are
+ * generated live by the VFS and are intentionally not listed here.
+ */
+
+export type ImageEntryType = "file" | "directory" | "symlink" | "device";
+
+export interface ImageEntry {
+  path: string;
+  type: ImageEntryType;
+  mode: number; // permission bits, e.g. 0o644
+  owner?: string; // defaults to root
+  group?: string; // defaults to owner
+  content?: string;
+  size?: number; // nominal size for placeholder files (binaries, large logs)
+  target?: string; // symlink target
+  device?: [number, number]; // major/minor for character devices
+  mtime?: string; // ISO timestamp, defaults to IMAGE_MTIME
+}
+
+/** Install time of the base image */
+export const IMAGE_MTIME = "2026-01-10T12:00:00Z";
+
+/** Time of the last boot, used for logs written during startup */
+export const BOOT_MTIME = "2026-02-12T08:15:30Z";
+
+const dir = (
+  path: string,
+  mode = 0o755,
+  owner?: string,
+  group?: string,
+): ImageEntry => ({ path, type: "directory", mode, owner, group });
+
+const file = (
+  path: string,
+  content: string,
+  mode = 0o644,
+  owner?: string,
+  group?: string,
+): ImageEntry => ({ path, type: "file", mode, owner, group, content });
+
+const binary = (path: string, size: number): ImageEntry => ({
+  path,
+  type: "file",
+  mode: 0o755,
+  size,
+  content: "",
+});
+
+const link = (path: string, target: string): ImageEntry => ({
+  path,
+  type: "symlink",
+  mode: 0o777,
+  target,
+});
+
+const BASHRC = `# ~/.bashrc: executed by bash(1) for non-login shells.
+[ -z "$PS1" ] && return
+HISTCONTROL=ignoreboth
+HISTSIZE=1000
+export PATH=/usr/local/cuda/bin:$PATH
+export LD_LIBRARY_PATH=/usr/local/cuda/lib64:$LD_LIBRARY_PATH
+alias ll='ls -alF'
+alias la='ls -A'
+alias l='ls -CF'`;
+
+const PROFILE = `# ~/.profile: executed by the command interpreter for login shells.
+if [ -n "$BASH_VERSION" ]; then
+    if [ -f "$HOME/.bashrc" ]; then
+        . "$HOME/.bashrc"
+    fi
+fi`;
+
+const HPL_DAT = `HPLinpack benchmark input file
+Innovative Computing Laboratory, University of Tennessee
+HPL.out      output file name (if any)
+6            device out (6=stdout,7=stderr,file)
+1            # of problems sizes (N)
+131072       Ns
+1            # of NBs
+384          NBs
+0            PMAP process mapping (0=Row-,1=Column-major)
+1            # of process grids (P x Q)
+2            Ps
+4            Qs
+16.0         threshold
+1            # of panel fact
+2            PFACTs (0=left, 1=Crout, 2=Right)
+1            # of recursive stopping criterium
+4            NBMINs (>= 1)
+1            # of panels in recursion
+2            NDIVs
+1            # of recursive panel fact.
+1            RFACTs (0=left, 1=Crout, 2=Right)
+1            # of broadcast
+1            BCASTs (0=1rg,1=1rM,2=2rg,3=2rM,4=Lng,5=LnM)
+1            # of lookahead depth
+1            DEPTHs (>=0)
+2            SWAP (0=bin-exch,1=long,2=mix)
+64           swapping threshold
+0            L1 in (0=transposed,1=no-transposed) form
+0            U  in (0=transposed,1=no-transposed) form
+1            Equilibration (0=no,1=yes)
+8            memory alignment in double (> 0)`;
+
+const SETUP_SH = `#!/bin/bash
+# DGX System Setup Script
+set -e
+
+echo "Configuring NVIDIA drivers..."
+nvidia-smi -pm 1
+nvidia-smi -ac 1215,1410
+
+echo "Verifying GPU topology..."
+nvidia-smi topo -m
+
+echo "Setup complete."`;
+
+const BACKUP_SH = `#!/bin/bash
+# Cluster Backup Script
+set -e
+
+BACKUP_DIR="/data/backups/$(date +%Y%m%d)"
+mkdir -p "$BACKUP_DIR"
+
+echo "Backing up Slurm configuration..."
+cp /etc/slurm/*.conf "$BACKUP_DIR/"
+
+echo "Backing up NCCL configuration..."
+cp /etc/nccl.conf "$BACKUP_DIR/"
+
+echo "Backup complete: $BACKUP_DIR"`;
+
+const MONITOR_SH = `#!/bin/bash
+# GPU Health Monitor Script
+while true; do
+  nvidia-smi --query-gpu=index,temperature.gpu,utilization.gpu,memory.used --format=csv,noheader
+  sleep 5
+done`;
+
+const BOND0 = `Ethernet Channel Bonding Driver: v5.15.0-91-generic
+
+Bonding Mode: IEEE 802.3ad Dynamic link aggregation
+Transmit Hash Policy: layer3+4 (1)
+MII Status: up
+MII Polling Interval (ms): 100
+Up Delay (ms): 0
+Down Delay (ms): 0
+Peer Notification Delay (ms): 0
+
+802.3ad info
+LACP active: on
+LACP rate: fast
+Min links: 0
+Aggregator selection policy (ad_select): stable
+
+Slave Interface: enp1s0f0
+MII Status: up
+Speed: 100000 Mbps
+Duplex: full
+Link Failure Count: 0
+Permanent HW addr: 00:11:22:33:44:55
+Slave queue ID: 0
+Aggregator ID: 1
+
+Slave Interface: enp1s0f1
+MII Status: up
+Speed: 100000 Mbps
+Duplex: full
+Link Failure Count: 0
+Permanent HW addr: 00:11:22:33:44:56
+Slave queue ID: 0
+Aggregator ID: 1`;
+
+const NCCL_CONF = `# NCCL Configuration
+NCCL_DEBUG=INFO
+NCCL_IB_DISABLE=0
+NCCL_SOCKET_IFNAME=eth0
+NCCL_IB_HCA=mlx5
+NCCL_TOPO_FILE=/etc/nccl/topo.xml`;
+
+const CONTAINER_RUNTIME_CONFIG = `[nvidia-container-cli]
+#root = "/run/nvidia/driver"
+#path = "/usr/bin/nvidia-container-cli"
+environment = []
+#debug = "/var/log/nvidia-container-toolkit.log"
+#ldcache = "/etc/ld.so.cache"
+load-kmods = true
+#no-cgroups = false
+#user = "root:video"
+ldconfig = "@/sbin/ldconfig"
+
+[nvidia-container-runtime]
+#debug = "/var/log/nvidia-container-runtime.log"
+log-level = "info"
+mode = "auto"
+runtimes = ["docker-runc", "runc"]
+
+[nvidia-container-runtime.modes.csv]
+mount-spec-path = "/etc/nvidia-container-runtime/host-files-for-container.d"`;
+
+const FSTAB = `# /etc/fstab: static file system information.
+UUID=abcd-1234-efgh-5678   /               ext4    errors=remount-ro 0       1
+UUID=dcba-4321-hgfe-8765   /boot/efi       vfat    umask=0077        0       1
+nas01:/data                /data           nfs     defaults          0       0
+nas01:/home                /home           nfs     defaults          0       0
+lustre@tcp:/scratch        /scratch        lustre  defaults          0       0
+tmpfs                      /dev/shm        tmpfs   defaults,size=64g 0       0`;
+
+const DOCKER_DAEMON_JSON = `{
+  "default-runtime": "nvidia",
+  "runtimes": {
+    "nvidia": {
+      "path": "nvidia-container-runtime",
+      "runtimeArgs": []
+    }
+  },
+  "storage-driver": "overlay2",
+  "log-driver": "json-file",
+  "log-opts": {
+    "max-size": "100m",
+    "max-file": "5"
+  },
+  "default-shm-size": "64G"
+}`;
+
+const PASSWD = `root:x:0:0:root:/root:/bin/bash
+daemon:x:1:1:daemon:/usr/sbin:/usr/sbin/nologin
+syslog:x:104:110::/home/syslog:/usr/sbin/nologin
+slurm:x:64030:64030::/var/lib/slurm:/usr/sbin/nologin
+admin:x:1000:1000:Cluster Admin:/home/admin:/bin/bash`;
+
+const GROUP = `root:x:0:
+adm:x:4:syslog,admin
+sudo:x:27:admin
+syslog:x:110:
+docker:x:998:admin
+slurm:x:64030:
+admin:x:1000:`;
+
+const OS_RELEASE = `PRETTY_NAME="Ubuntu 22.04.3 LTS"
+NAME="Ubuntu"
+VERSION_ID="22.04"
+VERSION="22.04.3 LTS (Jammy Jellyfish)"
+ID=ubuntu
+ID_LIKE=debian`;
+
+const DMESG_LOG = `[    0.000000] Linux version 5.15.0-91-generic (buildd@lcy02-amd64-116) (gcc (Ubuntu 11.4.0-1ubuntu1~22.04) 11.4.0, GNU ld (GNU Binutils for Ubuntu) 2.38)
+[    0.000000] Command line: BOOT_IMAGE=/vmlinuz-5.15.0-91-generic root=UUID=abcd-1234 ro quiet splash
+[    1.234567] ACPI: RSDP 0x00000000000F0490 000024 (v02 NVIDIA)
+[    2.345678] PCI: Using configuration type 1 for base access
+[    5.123456] nvidia: loading out-of-tree module taints kernel.
+[    5.234567] nvidia: module license 'NVIDIA' taints kernel.
+[    5.345678] NVRM: loading NVIDIA UNIX x86_64 Kernel Module  535.129.03
+[    5.456789] nvidia-nvlink: Nvlink Core is being initialized
+[    5.567890] nvidia 0000:07:00.0: enabling device (0000 -> 0003)
+[    5.678901] nvidia 0000:07:00.0: vgaarb: changed VGA decode
+[    6.123456] NVRM: GPU 0000:07:00.0: RmInitAdapter succeeded!
+[    6.234567] NVRM: GPU 0000:0a:00.0: RmInitAdapter succeeded!
+[    6.345678] NVRM: GPU 0000:47:00.0: RmInitAdapter succeeded!
+[    6.456789] NVRM: GPU 0000:4e:00.0: RmInitAdapter succeeded!
+[    6.567890] NVRM: GPU 0000:87:00.0: RmInitAdapter succeeded!
+[    6.678901] NVRM: GPU 0000:90:00.0: RmInitAdapter succeeded!
+[    6.789012] NVRM: GPU 0000:b7:00.0: RmInitAdapter succeeded!
+[    6.890123] NVRM: GPU 0000:bd:00.0: RmInitAdapter succeeded!
+[    7.123456] nvidia-peermem: Mellanox different types of NVIDIA peer memory client registered
+[    7.234567] mlx5_core 0000:e3:00.0: firmware version: 20.38.1002, flow steering mode(DMFS)`;
+
+const KERN_LOG = `Feb 12 08:15:05 dgx-00 kernel: [234567.890] NVRM: GPU at 0000:07:00.0 has been initialized
+Feb 12 08:15:05 dgx-00 kernel: [234567.891] NVRM: GPU at 0000:0a:00.0 has been initialized
+Feb 12 08:15:05 dgx-00 kernel: [234567.892] NVRM: GPU at 0000:47:00.0 has been initialized
+Feb 12 08:15:05 dgx-00 kernel: [234567.893] NVRM: GPU at 0000:4e:00.0 has been initialized
+Feb 12 08:15:12 dgx-00 kernel: [234568.100] mlx5_core 0000:e3:00.0: firmware version: 20.38.1002
+Feb 12 08:15:12 dgx-00 kernel: [234568.101] mlx5_core 0000:e3:00.0: ConnectX-7 HCA registered
+Feb 12 08:15:16 dgx-00 kernel: [234568.500] nvidia-peermem: module loaded
+Feb 12 08:15:22 dgx-00 kernel: [234569.000] ECC: All GPUs reporting 0 errors
+Feb 12 08:15:23 dgx-00 kernel: [234569.100] XID 79 on GPU 0000:07:00.0: GPU has fallen off the bus
+Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lost`;
+
+const withBootTime = (entry: ImageEntry): ImageEntry => ({
+  ...entry,
+  mtime: BOOT_MTIME,
+});
+
+export const BASE_FILESYSTEM_IMAGE: ImageEntry[] = [
+  // ── Top level ──────────────────────────────────────────────
+  dir("/"),
+  link("/bin", "usr/bin"),
+  dir("/boot"),
+  dir("/data"),
+  dir("/data/training"),
+  dir("/data/output"),
+  dir("/dev"),
+  dir("/dev/mst"),
+  dir("/etc"),
+  dir("/home"),
+  link("/lib", "usr/lib"),
+  link("/lib64", "usr/lib64"),
+  dir("/lost+found", 0o700),
+  dir("/media"),
+  dir("/mnt"),
+  dir("/opt"),
+  dir("/opt/nemo"),
+  dir("/proc", 0o555),
+  dir("/root", 0o700),
+  dir("/run"),
+  link("/sbin", "usr/sbin"),
+  dir("/scratch", 0o1777),
+  dir("/srv"),
+  dir("/sys", 0o555),
+  withBootTime(dir("/tmp", 0o1777)),
+  dir("/usr"),
+  dir("/var"),
+
+  // ── /dev (GPU device nodes are generated per node) ────────
+  {
+    path: "/dev/null",
+    type: "device",
+    mode: 0o666,
+    device: [1, 3],
+  },
+
+  // ── /etc ───────────────────────────────────────────────────
+  dir("/etc/apt"),
+  file(
+    "/etc/bash.bashrc",
+    "# System-wide .bashrc file for interactive bash(1) shells.",
+  ),
+  dir("/etc/docker"),
+  file("/etc/docker/daemon.json", DOCKER_DAEMON_JSON),
+  dir("/etc/enroot"),
+  file("/etc/fstab", FSTAB),
+  file("/etc/group", GROUP),
+  dir("/etc/network"),
+  file("/etc/nccl.conf", NCCL_CONF),
+  dir("/etc/nvidia"),
+  dir("/etc/nvidia-container-runtime"),
+  file("/etc/nvidia-container-runtime/config.toml", CONTAINER_RUNTIME_CONFIG),
+  file("/etc/os-release", OS_RELEASE),
+  file("/etc/passwd", PASSWD),
+  dir("/etc/slurm"),
+  file(
+    "/etc/sysctl.conf",
+    "# /etc/sysctl.conf - Configuration file for setting system variables\nvm.swappiness=10",
+  ),
+
+  // ── Home directories ───────────────────────────────────────
+  file("/root/.bashrc", BASHRC),
+  file("/root/.profile", PROFILE),
+  file("/root/HPL.dat", HPL_DAT),
+  dir("/root/scripts"),
+  file("/root/scripts/setup.sh", SETUP_SH, 0o755),
+  file("/root/scripts/backup.sh", BACKUP_SH, 0o755),
+  dir("/home/admin", 0o755, "admin"),
+  file("/home/admin/.bashrc", BASHRC, 0o644, "admin"),
+  file("/home/admin/.profile", PROFILE, 0o644, "admin"),
+  file("/home/admin/HPL.dat", HPL_DAT, 0o644, "admin"),
+  dir("/home/admin/scripts", 0o755, "admin"),
+  file("/home/admin/scripts/monitor.sh", MONITOR_SH, 0o755, "admin"),
+
+  // ── /proc (driver entries are generated per node) ─────────
+  dir("/proc/driver", 0o555),
+  dir("/proc/driver/nvidia", 0o555),
+  dir("/proc/driver/nvidia/gpus", 0o555),
+  dir("/proc/net", 0o555),
+  dir("/proc/net/bonding", 0o555),
+  file("/proc/net/bonding/bond0", BOND0, 0o444),
+
+  // ── /usr ───────────────────────────────────────────────────
+  dir("/usr/bin"),
+  binary("/usr/bin/bash", 1396520),
+  binary("/usr/bin/grep", 186584),
+  binary("/usr/bin/less", 180064),
+  binary("/usr/bin/nvidia-smi", 1066296),
+  binary("/usr/bin/python3", 5904904),
+  binary("/usr/bin/vim", 3772400),
+  dir("/usr/include"),
+  dir("/usr/lib"),
+  dir("/usr/lib64"),
+  dir("/usr/local"),
+  dir("/usr/local/cuda"),
+  dir("/usr/local/cuda/bin"),
+  binary("/usr/local/cuda/bin/nvcc", 22345120),
+  dir("/usr/sbin"),
+  dir("/usr/share"),
+
+  // ── /var ───────────────────────────────────────────────────
+  dir("/var/cache"),
+  dir("/var/lib"),
+  withBootTime(dir("/var/log", 0o775, "root", "syslog")),
+  withBootTime(dir("/var/log/slurm")),
+  withBootTime(file("/var/log/dmesg", DMESG_LOG, 0o640, "root", "adm")),
+  withBootTime(file("/var/log/kern.log", KERN_LOG, 0o640, "syslog", "adm")),
+  withBootTime({
+    ...file("/var/log/auth.log", "", 0o640, "syslog", "adm"),
+    size: 67890,
+  }),
+  withBootTime({
+    ...file("/var/log/dpkg.log", "", 0o644, "root", "root"),
+    size: 45678,
+  }),
+  link("/var/run", "/run"),
+  dir("/var/spool"),
+  dir("/var/tmp", 0o1777),
+];
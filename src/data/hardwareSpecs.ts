@@ -9,6 +9,8 @@
  * - DGX H100: Hopper generation, 8x H100 80GB, NVLink 4.0
  * - DGX H200: Hopper generation, 8x H200 141GB, NVLink 4.0
  * - DGX B200: Blackwell generation, 8x B200 192GB, NVLink 5.0
+ * - DGX GB200: Blackwell generation, GB200 NVL72 compute tray with 2 Grace
+ *   CPUs and 4x B200 180GB; 18 trays share one 72-GPU NVLink domain
  * - DGX VR200: Rubin generation, 8x R200 288GB, NVLink 6.0
  */
 
@@ -71,6 +73,18 @@ export interface HardwareSpec {
     dataDrives: string;
     totalCapacityTB: number;
   };
+  // Rack-scale systems only: a node is one compute tray, and the NVSwitches
+  // sit in separate NVLink switch trays shared by the whole rack
+  rack?: {
+    model: string; // "GB200 NVL72"
+    computeTrays: number;
+    switchTrays: number;
+    nvSwitchesPerSwitchTray: number;
+    gpusPerSuperchip: number; // B200 GPUs per Grace CPU
+    powerShelves: number;
+    maxPowerKW: number;
+    coolantFlowLpm: number; // Liquid cooling loop flow rate
+  };
 }
 
 export const HARDWARE_SPECS: Record<SystemType, HardwareSpec> = {
@@ -291,17 +305,17 @@ export const HARDWARE_SPECS: Record<SystemType, HardwareSpec> = {
       type: "DGX-GB200",
       generation: "Blackwell",
       cpu: { model: "NVIDIA Grace", sockets: 2, coresPerSocket: 72 },
-      systemMemoryGB: 1920,
-      totalGpuMemoryGB: 1440,
+      systemMemoryGB: 960,
+      totalGpuMemoryGB: 720,
     },
     gpu: {
-      model: "NVIDIA B200-SXM-180GB",
-      count: 8,
+      model: "NVIDIA GB200",
+      count: 4,
       memoryGB: 180,
       memoryMiB: 184320,
       memoryType: "HBM3e",
       memoryBandwidthTBs: 7.7,
-      tdpWatts: 1000,
+      tdpWatts: 1200,
       fp16Tflops: 2250,
       tf32Tflops: 1200,
       fp64Tflops: 40,
@@ -320,13 +334,13 @@ export const HARDWARE_SPECS: Record<SystemType, HardwareSpec> = {
       linksPerGpu: 18,
       perLinkBandwidthGBs: 50,
       totalBandwidthGBs: 1800,
-      nvSwitchCount: 4,
+      nvSwitchCount: 18,
       nvSwitchGeneration: "5th Gen",
       nvLinkLabel: "NV18",
     },
     network: {
       hcaModel: "ConnectX-8",
-      hcaCount: 8,
+      hcaCount: 4,
       protocol: "XDR",
       portRateGbs: 800,
       hcasPerGpu: 1,
@@ -334,8 +348,18 @@ export const HARDWARE_SPECS: Record<SystemType, HardwareSpec> = {
     },
     storage: {
       osDrives: "2x 1.92TB NVMe",
-      dataDrives: "8x 3.84TB NVMe",
-      totalCapacityTB: 34.56,
+      dataDrives: "4x 3.84TB E1.S NVMe",
+      totalCapacityTB: 19.2,
+    },
+    rack: {
+      model: "GB200 NVL72",
+      computeTrays: 18,
+      switchTrays: 9,
+      nvSwitchesPerSwitchTray: 2,
+      gpusPerSuperchip: 2,
+      powerShelves: 8,
+      maxPowerKW: 132,
+      coolantFlowLpm: 180,
     },
   },
 
@@ -5,6 +5,11 @@
 // technician would observe, the underlying root cause, the faults to inject,
 // the diagnostic command sequence for scoring, and multiple-choice options for
 // the root cause diagnosis.
+//
+// Text fields name the hardware through placeholders the composer fills in
+// from the active cluster: {node} and {gpu} for the faulted node and GPU,
+// {peer} for another GPU on that node, {gpuCount} for the node's GPU count,
+// {system} for its system type and {memory} for its GPU memory type.
 // ---------------------------------------------------------------------------
 
 export interface IncidentTemplate {
@@ -33,6 +38,16 @@ export interface IncidentTemplate {
   rootCauseOptions: string[];
   /** The correct answer — must be one of rootCauseOptions */
   correctRootCause: string;
+  /**
+   * For GPU memory failures: whether the faulted GPU's memory history calls
+   * for an RMA (see assessMemoryRma)
+   */
+  rmaRequired?: boolean;
+  /**
+   * Only composed as the consequence of another template's failure (see
+   * escalatesTo in faultPropagationRules.ts), never as an incident of its own
+   */
+  consequenceOnly?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -47,14 +62,15 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "gpu-memory-xid48",
     title: "GPU Memory Failure (XID 48)",
     situation:
-      "Nagios fires a critical alert: node dgx-07 reports an uncorrectable ECC error on GPU 3. " +
+      "Nagios fires a critical alert: node {node} reports an uncorrectable ECC error on GPU {gpu}. " +
       "The training job running on that node has stalled, and the user reports that their loss " +
       "curve flatlined 12 minutes ago. The Slurm dashboard shows the job is still listed as " +
       "RUNNING but no progress has been made.",
     rootCause:
-      "An uncorrectable double-bit ECC error (XID 48) in GPU 3 HBM2e memory corrupted " +
-      "in-flight tensor data, causing the CUDA context to become invalid. The GPU is no longer " +
-      "usable until a reset or reboot.",
+      "An uncorrectable double-bit ECC error (XID 48) in GPU {gpu} {memory} memory corrupted " +
+      "in-flight tensor data, causing the CUDA context to become invalid. The page is retired " +
+      "and its row remapped to a spare, but neither takes effect until a GPU reset or reboot. " +
+      "One remapped row is no reason for an RMA.",
     difficulty: "beginner",
     domains: [1],
     primaryFaults: [{ faultType: "ecc-error", target: "specific-gpu" }],
@@ -66,12 +82,13 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
       "nvidia-smi -q -d PAGE_RETIREMENT",
     ],
     rootCauseOptions: [
-      "Uncorrectable ECC memory error (XID 48) on GPU 3",
+      "Uncorrectable ECC memory error (XID 48) on GPU {gpu}",
       "GPU driver crash caused by incompatible CUDA version",
       "PCIe bus timeout due to faulty riser card",
       "Thermal shutdown triggered by blocked airflow",
     ],
-    correctRootCause: "Uncorrectable ECC memory error (XID 48) on GPU 3",
+    correctRootCause: "Uncorrectable ECC memory error (XID 48) on GPU {gpu}",
+    rmaRequired: false,
   },
 
   // =========================================================================
@@ -82,11 +99,11 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     title: "GPU Hang (XID 43)",
     situation:
       "A multi-node NCCL all-reduce training job across 4 DGX nodes has been stuck for 8 minutes. " +
-      "Rank 0 on dgx-12 stopped logging. Other ranks show NCCL timeout warnings in their stderr. " +
+      "Rank 0 on {node} stopped logging. Other ranks show NCCL timeout warnings in their stderr. " +
       "The Slurm job is still RUNNING but the user says 'nothing is happening.' Grafana shows GPU " +
-      "utilization on dgx-12 GPU 5 dropped to 0% while peers remain at 100%.",
+      "utilization on {node} GPU {gpu} dropped to 0% while peers remain at 100%.",
     rootCause:
-      "GPU 5 on dgx-12 entered a hung state (XID 43 — GPU stopped responding to commands). " +
+      "GPU {gpu} on {node} entered a hung state (XID 43 — GPU stopped responding to commands). " +
       "This blocked the NCCL all-reduce collective, causing all other ranks across the 4-node " +
       "job to stall waiting for the unresponsive GPU.",
     difficulty: "intermediate",
@@ -101,13 +118,13 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
       "nvidia-smi nvlink -s",
     ],
     rootCauseOptions: [
-      "GPU 5 hang (XID 43) blocking NCCL collective across all ranks",
+      "GPU {gpu} hang (XID 43) blocking NCCL collective across all ranks",
       "InfiniBand port flapping causing NCCL timeout",
       "Slurm scheduler preempted the job due to higher priority reservation",
-      "NVLink CRC errors between GPU 4 and GPU 5",
+      "NVLink CRC errors between GPU {peer} and GPU {gpu}",
     ],
     correctRootCause:
-      "GPU 5 hang (XID 43) blocking NCCL collective across all ranks",
+      "GPU {gpu} hang (XID 43) blocking NCCL collective across all ranks",
   },
 
   // =========================================================================
@@ -117,12 +134,12 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "gpu-off-bus-xid79",
     title: "GPU Fallen Off Bus (XID 79)",
     situation:
-      "The on-call team receives a page: dgx-03 has been automatically drained by Slurm with reason " +
-      "'GPU not responding.' nvidia-smi shows only 7 of 8 GPUs. The node was running a critical " +
+      "The on-call team receives a page: {node} has been automatically drained by Slurm with reason " +
+      "'GPU not responding.' nvidia-smi is missing one of the node's {gpuCount} GPUs. The node was running a critical " +
       "inference workload for production. Users report HTTP 503 errors from the model endpoint. " +
       "The BMC event log shows a recent PCIe AER correctable error storm.",
     rootCause:
-      "GPU 2 on dgx-03 fell off the PCIe bus (XID 79) after a cascade of PCIe Advanced Error " +
+      "GPU {gpu} on {node} fell off the PCIe bus (XID 79) after a cascade of PCIe Advanced Error " +
       "Reporting (AER) correctable errors exhausted the error threshold. The GPU is no longer " +
       "enumerated by the OS and requires a cold reboot or PCIe bus reset to recover.",
     difficulty: "advanced",
@@ -138,14 +155,14 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
       "nvidia-smi -q -d PAGE_RETIREMENT",
     ],
     rootCauseOptions: [
-      "GPU 2 fell off PCIe bus (XID 79) after AER error cascade",
-      "GPU 2 firmware corruption requiring reflash",
-      "NVSwitch failure disconnected GPU 2 from the fabric",
-      "Power supply unit 2 failed, depowering GPU 2",
-      "Memory controller failure on GPU 2 HBM stack",
+      "GPU {gpu} fell off PCIe bus (XID 79) after AER error cascade",
+      "GPU {gpu} firmware corruption requiring reflash",
+      "NVSwitch failure disconnected GPU {gpu} from the fabric",
+      "Power supply unit 2 failed, depowering GPU {gpu}",
+      "Memory controller failure on GPU {gpu} HBM stack",
     ],
     correctRootCause:
-      "GPU 2 fell off PCIe bus (XID 79) after AER error cascade",
+      "GPU {gpu} fell off PCIe bus (XID 79) after AER error cascade",
   },
 
   // =========================================================================
@@ -155,13 +172,13 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "nvlink-fabric-degradation",
     title: "NVLink Fabric Degradation",
     situation:
-      "A large language model fine-tuning job on dgx-09 is running 40% slower than the baseline " +
+      "A large language model fine-tuning job on {node} is running 40% slower than the baseline " +
       "established last week. The user has not changed any hyperparameters. GPU utilization " +
       "oscillates between 60-80% instead of the expected steady 95%. The Grafana NVLink bandwidth " +
-      "panel shows link 2 between GPU 1 and GPU 2 at 50% of rated speed. No XID errors appear in " +
+      "panel shows link 2 between GPU {gpu} and GPU {peer} at 50% of rated speed. No XID errors appear in " +
       "nvidia-smi output.",
     rootCause:
-      "NVLink lane 2 between GPU 1 and GPU 2 on dgx-09 has degraded due to CRC replay errors. " +
+      "NVLink lane 2 between GPU {gpu} and GPU {peer} on {node} has degraded due to CRC replay errors. " +
       "The link automatically downshifted to half bandwidth. This bottlenecks the all-reduce " +
       "collective, reducing overall multi-GPU training throughput.",
     difficulty: "intermediate",
@@ -176,13 +193,13 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
       "dcgmi diag -r 3",
     ],
     rootCauseOptions: [
-      "NVLink degradation between GPU 1 and GPU 2 causing bandwidth bottleneck",
+      "NVLink degradation between GPU {gpu} and GPU {peer} causing bandwidth bottleneck",
       "GPU memory clock throttling due to thermal limits",
       "InfiniBand congestion from neighboring job traffic",
       "CUDA kernel regression in updated driver version",
     ],
     correctRootCause:
-      "NVLink degradation between GPU 1 and GPU 2 causing bandwidth bottleneck",
+      "NVLink degradation between GPU {gpu} and GPU {peer} causing bandwidth bottleneck",
   },
 
   // =========================================================================
@@ -192,13 +209,13 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "thermal-runaway",
     title: "Thermal Runaway",
     situation:
-      "Facility monitoring alerts that dgx-15 inlet temperature sensors read 42C (threshold 35C). " +
+      "Facility monitoring alerts that {node} ({system}) inlet temperature sensors read 42C (threshold 35C). " +
       "Users on that node report training throughput dropped by 30% over the last hour. The DCIM " +
-      "system shows CRAC unit 3 in the row is in alarm. nvidia-smi shows all 8 GPUs with clock " +
+      "system shows CRAC unit 3 in the row is in alarm. nvidia-smi shows all {gpuCount} GPUs with clock " +
       "speeds significantly below the base frequency.",
     rootCause:
       "A failed CRAC unit caused ambient temperature in the hot aisle to rise above safe limits. " +
-      "All 8 GPUs on dgx-15 engaged thermal throttling, reducing SM clocks to prevent hardware " +
+      "All {gpuCount} GPUs on {node} engaged thermal throttling, reducing SM clocks to prevent hardware " +
       "damage. If uncorrected, the hottest GPU risks a thermal shutdown (XID 43).",
     difficulty: "beginner",
     domains: [5],
@@ -228,15 +245,15 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "ecc-accumulation-row-remap",
     title: "ECC Accumulation Leading to Row Remap",
     situation:
-      "Automated health checks flag dgx-21 GPU 6 with elevated correctable ECC error counts: " +
+      "Automated health checks flag {node} GPU {gpu} with elevated correctable ECC error counts: " +
       "1,247 volatile errors in the last 24 hours (baseline < 10). The GPU is still operational " +
       "and the current training job has not failed. However, the DCGM health monitor shows a " +
       "warning state for this GPU. Page retirement pending count has increased from 0 to 3.",
     rootCause:
-      "GPU 6 HBM2e memory is developing a progressive failure. Correctable ECC errors are " +
+      "GPU {gpu} {memory} memory is developing a progressive failure. Correctable ECC errors are " +
       "accumulating as memory cells degrade. The hardware has begun row remapping (XID 92) to " +
-      "retire faulty rows. If remapping resources are exhausted (XID 63), the GPU will require " +
-      "replacement.",
+      "retire faulty rows; each remap (XID 63) is pending until the GPU is reset. If remapping " +
+      "resources are exhausted (XID 64), the GPU will require replacement.",
     difficulty: "advanced",
     domains: [4],
     primaryFaults: [{ faultType: "ecc-error", target: "specific-gpu" }],
@@ -257,6 +274,7 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     ],
     correctRootCause:
       "Progressive HBM memory failure with active row remapping (XID 92)",
+    rmaRequired: false,
   },
 
   // =========================================================================
@@ -268,32 +286,32 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     situation:
       "A 16-node distributed training job (job ID 84291) failed after 6 hours of successful " +
       "training. The user reports the job exited with NCCL error 'unhandled system error.' " +
-      "squeue shows the job as FAILED. sacct shows ExitCode 1 on rank 12 (node dgx-19) while " +
-      "all other ranks show ExitCode 9 (SIGKILL). The Slurm dashboard shows dgx-19 is now in " +
+      "squeue shows the job as FAILED. sacct shows ExitCode 1 on rank 12 (node {node}) while " +
+      "all other ranks show ExitCode 9 (SIGKILL). The Slurm dashboard shows {node} is now in " +
       "DRAIN state with reason 'GPU not responding.'",
     rootCause:
-      "GPU 7 on dgx-19 experienced a hang (XID 43). The NCCL collective stalled, rank 12 " +
+      "GPU {gpu} on {node} experienced a hang (XID 43). The NCCL collective stalled, rank 12 " +
       "reported the unhandled system error, and Slurm killed the remaining ranks. Slurm's " +
-      "HealthCheckProgram subsequently drained dgx-19.",
+      "HealthCheckProgram subsequently drained {node}.",
     difficulty: "intermediate",
     domains: [4],
     primaryFaults: [{ faultType: "gpu-hang", target: "specific-gpu" }],
     propagationTrigger: "xid-43",
     diagnosticPath: [
       "sacct -j 84291 --format=JobID,NodeList,ExitCode,State",
-      "sinfo -N -n dgx-19",
-      "ssh dgx-19 nvidia-smi",
-      "ssh dgx-19 dmesg | grep -i xid",
-      "scontrol show node dgx-19",
+      "sinfo -N -n {node}",
+      "ssh {node} nvidia-smi",
+      "ssh {node} dmesg | grep -i xid",
+      "scontrol show node {node}",
     ],
     rootCauseOptions: [
-      "GPU 7 hang (XID 43) on dgx-19 crashed rank 12 and cascaded to all ranks",
-      "InfiniBand link failure between dgx-19 and spine switch",
-      "Out-of-memory (OOM) kill on dgx-19 due to CPU memory exhaustion",
+      "GPU {gpu} hang (XID 43) on {node} crashed rank 12 and cascaded to all ranks",
+      "InfiniBand link failure between {node} and spine switch",
+      "Out-of-memory (OOM) kill on {node} due to CPU memory exhaustion",
       "Slurm scheduler timeout expired for the job's time limit",
     ],
     correctRootCause:
-      "GPU 7 hang (XID 43) on dgx-19 crashed rank 12 and cascaded to all ranks",
+      "GPU {gpu} hang (XID 43) on {node} crashed rank 12 and cascaded to all ranks",
   },
 
   // =========================================================================
@@ -303,12 +321,12 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "power-supply-stress",
     title: "Power Supply Stress",
     situation:
-      "The BMC on dgx-05 is reporting a power warning event. IPMI sensor readings show PSU 1 " +
+      "The BMC on {node} is reporting a power warning event. IPMI sensor readings show PSU 1 " +
       "output wattage at 2,850W (rated 3,000W). GPU power draw appears normal individually, but " +
       "nvidia-smi shows GPUs 0-3 have power limits reduced from 400W to 300W. The user reports " +
       "that their training job is running 20% slower than expected. No thermal warnings are present.",
     rootCause:
-      "PSU 1 on dgx-05 is operating near capacity, triggering the system's power balancing " +
+      "PSU 1 on {node} is operating near capacity, triggering the system's power balancing " +
       "firmware to reduce GPU power limits on GPUs 0-3 (fed by PSU 1). This power capping reduces " +
       "GPU boost clocks and throughput.",
     difficulty: "beginner",
@@ -339,18 +357,18 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "infiniband-link-down",
     title: "InfiniBand Link Down",
     situation:
-      "Users report that multi-node jobs involving dgx-11 are failing immediately at launch. " +
-      "Single-node jobs on dgx-11 work fine. The NCCL log shows 'No route to host' for the " +
-      "IB interface. Monitoring shows dgx-11 was running normally until 45 minutes ago. The " +
+      "Users report that multi-node jobs involving {node} are failing immediately at launch. " +
+      "Single-node jobs on {node} work fine. The NCCL log shows 'No route to host' for the " +
+      "IB interface. Monitoring shows {node} was running normally until 45 minutes ago. The " +
       "facility team reports no recent maintenance. Other nodes in the same leaf switch group " +
       "are unaffected.",
     rootCause:
-      "InfiniBand HCA port 1 on dgx-11 has gone to PhysLinkDown state. The port negotiation " +
+      "InfiniBand HCA port 1 on {node} has gone to PhysLinkDown state. The port negotiation " +
       "failed after a transient cable or connector issue. The link is physically present but the " +
       "port cannot establish a connection to the leaf switch.",
     difficulty: "intermediate",
     domains: [2],
-    primaryFaults: [{ faultType: "nvlink-failure", target: "node" }],
+    primaryFaults: [{ faultType: "ib-link-down", target: "node" }],
     propagationTrigger: "nvlink-failure",
     diagnosticPath: [
       "ibstat",
@@ -376,17 +394,17 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "combined-nvlink-thermal",
     title: "Combined: NVLink + Thermal Failure",
     situation:
-      "A high-priority 8-GPU training job on dgx-22 has degraded over the last 2 hours. The user " +
+      "A high-priority {gpuCount}-GPU training job on {node} has degraded over the last 2 hours. The user " +
       "reports iteration time increased from 4.2s to 11.8s. Grafana shows GPU utilization varying " +
       "widely between 30-90% across GPUs instead of the usual uniform 95%. Two separate anomalies " +
-      "are visible: NVLink error counters on links between GPUs 3-4 are climbing, and inlet " +
-      "temperature reads 39C (warning threshold 35C). GPU clock speeds on GPUs 6-7 are below " +
-      "base frequency. The user insists 'nothing changed on our end.'",
+      "are visible: NVLink error counters on links between GPUs {gpu} and {peer} are climbing, and inlet " +
+      "temperature reads 39C (warning threshold 35C). GPU clock speeds on the hottest GPUs are " +
+      "below base frequency. The user insists 'nothing changed on our end.'",
     rootCause:
-      "Two independent failures are compounding. First, NVLink lanes between GPU 3 and GPU 4 " +
+      "Two independent failures are compounding. First, NVLink lanes between GPU {gpu} and GPU {peer} " +
       "are experiencing CRC replay errors, reducing peer bandwidth by 50%. Second, rising ambient " +
       "temperature (likely from adjacent rack exhaust recirculation) has triggered thermal " +
-      "throttling on GPUs 6 and 7. The combined effect creates a severe all-reduce bottleneck " +
+      "throttling on the hottest GPUs. The combined effect creates a severe all-reduce bottleneck " +
       "from both bandwidth reduction and clock throttling.",
     difficulty: "advanced",
     domains: [5, 2],
@@ -405,14 +423,14 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
       "dcgmi diag -r 3",
     ],
     rootCauseOptions: [
-      "Dual failure: NVLink degradation (GPUs 3-4) combined with thermal throttling (GPUs 6-7)",
+      "Dual failure: NVLink degradation (GPUs {gpu}-{peer}) combined with thermal throttling of the hottest GPUs",
       "NVSwitch firmware bug causing intermittent routing errors",
       "GPU memory leak in user code consuming all HBM capacity",
       "PCIe gen downgrade from Gen5 to Gen4 on multiple GPUs",
       "InfiniBand congestion from co-located noisy neighbor job",
     ],
     correctRootCause:
-      "Dual failure: NVLink degradation (GPUs 3-4) combined with thermal throttling (GPUs 6-7)",
+      "Dual failure: NVLink degradation (GPUs {gpu}-{peer}) combined with thermal throttling of the hottest GPUs",
   },
 
   // =========================================================================
@@ -422,7 +440,7 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     id: "driver-error-bringup",
     title: "Driver Error During Bring-Up",
     situation:
-      "After a scheduled OS update on dgx-01, the system rebooted but nvidia-smi returns " +
+      "After a scheduled OS update on {node}, the system rebooted but nvidia-smi returns " +
       "'NVIDIA-SMI has failed because it couldn't communicate with the NVIDIA driver.' " +
       "The Kubernetes kubelet on this node is reporting NotReady. Pods that were scheduled " +
       "here are in CrashLoopBackOff. The update ticket shows kernel was upgraded from " +
@@ -444,11 +462,120 @@ export const INCIDENT_TEMPLATES: IncidentTemplate[] = [
     ],
     rootCauseOptions: [
       "NVIDIA kernel module not loaded after kernel upgrade — DKMS rebuild failed",
-      "GPU hardware failure on all 8 GPUs simultaneously",
+      "GPU hardware failure on all {gpuCount} GPUs simultaneously",
       "Incorrect BIOS setting disabling PCIe slots after update",
       "CUDA toolkit version incompatible with installed driver",
     ],
     correctRootCause:
       "NVIDIA kernel module not loaded after kernel upgrade — DKMS rebuild failed",
   },
+
+  // =========================================================================
+  // 12. Row Remapping Failure (XID 64) — advanced, domain 4
+  // =========================================================================
+  {
+    id: "row-remap-failure",
+    title: "Row Remapping Failure (XID 64)",
+    situation:
+      "GPU {gpu} on {node} was reset twice this week after uncorrectable ECC errors, and each time " +
+      "it returned to service. Tonight the same GPU logged another burst of uncorrectable errors " +
+      "and the Slurm job on it failed again. The on-call engineer wants to know whether another " +
+      "reset will do or the GPU has to go back to NVIDIA.",
+    rootCause:
+      "Uncorrectable ECC errors keep hitting the same HBM bank. Each one was remapped to one of " +
+      "the bank's spare rows until none were left; the next could not be remapped (XID 64) and " +
+      "the Remapped Rows section reports a remapping failure with a bank in the None column. " +
+      "Resets cannot repair the bank any more: the GPU has to be replaced (RMA).",
+    difficulty: "advanced",
+    domains: [4],
+    primaryFaults: [{ faultType: "row-remap-failure", target: "specific-gpu" }],
+    propagationTrigger: "xid-48",
+    diagnosticPath: [
+      "nvidia-smi -q -d ECC",
+      "nvidia-smi -q -d ROW_REMAPPER",
+      "dmesg | grep -i xid",
+      "dcgmi health -c",
+    ],
+    rootCauseOptions: [
+      "Row remapping resources exhausted (XID 64) — GPU requires RMA",
+      "Pending row remaps that a GPU reset will activate",
+      "Driver bug reporting stale ECC counters after reset",
+      "Memory overclock applied by the user's container",
+    ],
+    correctRootCause:
+      "Row remapping resources exhausted (XID 64) — GPU requires RMA",
+    rmaRequired: true,
+  },
+
+  // =========================================================================
+  // 13. InfiniBand Cable Flap — intermediate, domain 2
+  // =========================================================================
+  {
+    id: "ib-cable-flap",
+    title: "InfiniBand Cable Flap",
+    situation:
+      "Multi-node jobs that include {node} run in fits and starts: throughput drops for a few " +
+      "seconds, recovers, then drops again. The subnet manager log shows repeated port state " +
+      "changes for {node}, and the InfiniBand dashboard shows its LinkDownedCounter climbing. " +
+      "Nobody has touched the rack, and single-node jobs on {node} run normally.",
+    rootCause:
+      "The cable on HCA port 1 of {node} is marginal. Bit errors on the link force it to retrain " +
+      "over and over, and the port counters show the symbol errors and link downs. Every retrain " +
+      "stalls the traffic crossing the link until the cable or transceiver is reseated or replaced.",
+    difficulty: "intermediate",
+    domains: [2],
+    primaryFaults: [{ faultType: "ib-cable-flap", target: "node" }],
+    propagationTrigger: "ib-link-flap",
+    diagnosticPath: [
+      "ibstat",
+      "perfquery",
+      "iblinkinfo",
+      "ibdiagnet",
+      "dmesg | grep -i mlx",
+    ],
+    rootCauseOptions: [
+      "Marginal InfiniBand cable on {node} flapping the link with symbol errors",
+      "Subnet manager failover re-sweeping the fabric",
+      "Congestion from a neighboring job on the same leaf switch",
+      "GPUDirect RDMA disabled after a driver update",
+    ],
+    correctRootCause:
+      "Marginal InfiniBand cable on {node} flapping the link with symbol errors",
+  },
+
+  // =========================================================================
+  // 14. NCCL Timeout Drain — intermediate, domain 4 (consequence only)
+  // =========================================================================
+  {
+    id: "nccl-timeout-drain",
+    title: "NCCL Timeout Drain",
+    situation:
+      "A multi-node training job failed with 'NCCL WARN Timeout' in rank 3's log, and Slurm has " +
+      "drained {node} with reason 'NCCL timeout'. The GPUs on {node} look healthy in nvidia-smi " +
+      "and dmesg shows no XID errors.",
+    rootCause:
+      "The job's NCCL collectives stalled on a failing network link elsewhere in the job, hit " +
+      "NCCL's timeout and aborted. Slurm killed the job and drained {node}, where the rank that " +
+      "reported the timeout ran. The node itself is healthy and can be resumed once the link " +
+      "is fixed.",
+    difficulty: "intermediate",
+    domains: [4],
+    primaryFaults: [{ faultType: "nccl-timeout", target: "node" }],
+    propagationTrigger: "nccl-timeout",
+    diagnosticPath: [
+      "sinfo -R",
+      "scontrol show node {node}",
+      "sacct --format=JobID,NodeList,ExitCode,State",
+      "ssh {node} nvidia-smi",
+    ],
+    rootCauseOptions: [
+      "NCCL timeout from the failing link aborted the job and Slurm drained {node}",
+      "GPU fault on {node} caught by the Slurm health check",
+      "The job ran past its time limit",
+      "An administrator drained {node} for maintenance",
+    ],
+    correctRootCause:
+      "NCCL timeout from the failing link aborted the job and Slurm drained {node}",
+    consequenceOnly: true,
+  },
 ];
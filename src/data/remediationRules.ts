@@ -0,0 +1,160 @@
+/**
+ * Remediation rules declare, for each incident fault type, the fixes that
+ * really clear it.
+ *
+ * Each fix defines:
+ * - The action that applies it: a command the learner runs (see
+ *   remediationsForCommand) or a part field service replaces
+ * - The preconditions the node has to meet when the fix is applied
+ * - Optionally the fault it leaves behind instead of clearing it, such as a
+ *   reinstalled driver that only loads once the node reboots
+ */
+
+export type RemediationAction =
+  | "gpu-reset"
+  | "node-reboot"
+  | "replace-part"
+  | "replace-cable"
+  | "firmware-update"
+  | "driver-reinstall"
+  | "node-resume";
+
+/** Parts field service replaces with "replace-part" */
+export type ReplaceablePart = "gpu" | "psu" | "cooling";
+
+export type RemediationPrecondition =
+  | "node-drained"
+  | "no-running-jobs"
+  | "mig-disabled";
+
+export interface RemediationRule {
+  action: RemediationAction;
+  /** For "replace-part", the part that has to be replaced */
+  part?: ReplaceablePart;
+  /** What the node must be like when the fix is applied */
+  requires: RemediationPrecondition[];
+  /** Fault type the fix leaves in place of this one */
+  becomes?: string;
+}
+
+export interface FaultRemedies {
+  /** What the fault is, e.g. "uncorrectable ECC error" */
+  label: string;
+  /** gpu: the fault is on its GPU; node: on the whole node */
+  scope: "gpu" | "node";
+  fixes: RemediationRule[];
+}
+
+export const REMEDIATION_ACTION_LABELS: Record<RemediationAction, string> = {
+  "gpu-reset": "GPU reset",
+  "node-reboot": "Node reboot",
+  "replace-part": "Part replacement",
+  "replace-cable": "Cable replacement",
+  "firmware-update": "Firmware update",
+  "driver-reinstall": "Driver reinstall",
+  "node-resume": "Return to service",
+};
+
+export const REPLACEABLE_PART_LABELS: Record<ReplaceablePart, string> = {
+  gpu: "GPU",
+  psu: "Power supply",
+  cooling: "Cooling",
+};
+
+export const PRECONDITION_LABELS: Record<RemediationPrecondition, string> = {
+  "node-drained": "the node drained in Slurm",
+  "no-running-jobs": "no jobs running on the GPUs",
+  "mig-disabled": "MIG mode disabled",
+};
+
+// A reset refuses GPUs with work on them, and takes their GPU instances
+const GPU_RESET: RemediationRule = {
+  action: "gpu-reset",
+  requires: ["no-running-jobs", "mig-disabled"],
+};
+
+const NODE_REBOOT: RemediationRule = {
+  action: "node-reboot",
+  requires: ["node-drained"],
+};
+
+const REPLACE_GPU: RemediationRule = {
+  action: "replace-part",
+  part: "gpu",
+  requires: ["node-drained"],
+};
+
+/** Fixes by IncidentTemplates fault type; red herrings need none */
+export const FAULT_REMEDIATIONS: Record<string, FaultRemedies> = {
+  "ecc-error": {
+    label: "uncorrectable ECC error",
+    scope: "gpu",
+    fixes: [GPU_RESET, NODE_REBOOT],
+  },
+  "row-remap-failure": {
+    label: "row remapping failure",
+    scope: "gpu",
+    fixes: [REPLACE_GPU],
+  },
+  "gpu-hang": {
+    label: "hung GPU",
+    scope: "gpu",
+    fixes: [GPU_RESET, NODE_REBOOT],
+  },
+  "pcie-error": {
+    label: "GPU fallen off the bus",
+    scope: "gpu",
+    fixes: [NODE_REBOOT, REPLACE_GPU],
+  },
+  "nvlink-failure": {
+    label: "degraded NVLink",
+    scope: "gpu",
+    fixes: [REPLACE_GPU],
+  },
+  thermal: {
+    label: "cooling failure",
+    scope: "node",
+    fixes: [{ action: "replace-part", part: "cooling", requires: [] }],
+  },
+  power: {
+    label: "power supply running at capacity",
+    scope: "node",
+    fixes: [
+      { action: "replace-part", part: "psu", requires: ["node-drained"] },
+    ],
+  },
+  "driver-error": {
+    label: "NVIDIA driver that did not load",
+    scope: "node",
+    fixes: [
+      { action: "driver-reinstall", requires: [], becomes: "reboot-pending" },
+    ],
+  },
+  "reboot-pending": {
+    label: "fix waiting for a reboot",
+    scope: "node",
+    fixes: [NODE_REBOOT],
+  },
+  "ib-cable-flap": {
+    label: "marginal InfiniBand cable",
+    scope: "node",
+    fixes: [{ action: "replace-cable", requires: ["no-running-jobs"] }],
+  },
+  "ib-link-down": {
+    label: "InfiniBand link down",
+    scope: "node",
+    fixes: [
+      { action: "replace-cable", requires: [] },
+      {
+        action: "firmware-update",
+        requires: ["node-drained"],
+        becomes: "reboot-pending",
+      },
+    ],
+  },
+  "nccl-timeout": {
+    label: "drain after an NCCL timeout",
+    scope: "node",
+    fixes: [{ action: "node-resume", requires: [] }],
+  },
+};
@@ -8,6 +8,7 @@
  * 4. submitDiagnosis calculates score, records result, transitions to "review"
  * 5. abandonIncident cleans up and transitions to "idle"
  * 6. EventLog receives entries and consequence events are tracked for scoring
+ * 7. Fixes from commands and field service clear faults and resolve the incident
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -26,11 +27,13 @@ const {
   mockRecordCommand,
   mockGetPhaseHistory,
   mockCalculateScore,
+  mockGetEvidenceReport,
   mockEvaluate,
   mockTriggerFault,
   mockGetPending,
   mockClear,
   mockApplyFaultsToContext,
+  mockClearFaultsFromContext,
   mockRecordIncidentResult,
 } = vi.hoisted(() => {
   const mockEventLog = {
@@ -75,6 +78,9 @@ const {
       ],
     }),
     getEventLog: vi.fn().mockReturnValue(mockEventLog),
+    getMutationCount: vi.fn().mockReturnValue(0),
+    stateAt: vi.fn(),
+    updateGPU: vi.fn(),
   };
 
   const mockScenarioContextManager = {
@@ -101,6 +107,22 @@ const {
     ],
     correctRootCause: "ECC memory error",
     templateDomains: [1],
+    rootCauses: [
+      {
+        templateId: "gpu-memory-xid48",
+        prompt: "What went wrong on dgx-03?",
+        nodeId: "dgx-03",
+        gpuId: 5,
+        options: [
+          "ECC memory error",
+          "Thermal shutdown",
+          "PCIe bus failure",
+          "Driver crash",
+        ],
+        correct: "ECC memory error",
+        propagationTrigger: "xid-48",
+      },
+    ],
   };
 
   const mockCompose = vi.fn().mockReturnValue(mockComposedIncident);
@@ -118,11 +140,15 @@ const {
     completeness: 10,
     total: 77,
   });
+  const mockGetEvidenceReport = vi
+    .fn()
+    .mockReturnValue({ found: [], missed: [], irrelevant: [] });
   const mockEvaluate = vi.fn().mockReturnValue(null);
   const mockTriggerFault = vi.fn();
   const mockGetPending = vi.fn().mockReturnValue([]);
   const mockClear = vi.fn();
   const mockApplyFaultsToContext = vi.fn();
+  const mockClearFaultsFromContext = vi.fn();
   const mockRecordIncidentResult = vi.fn();
 
   return {
@@ -134,11 +160,13 @@ const {
     mockRecordCommand,
     mockGetPhaseHistory,
     mockCalculateScore,
+    mockGetEvidenceReport,
     mockEvaluate,
     mockTriggerFault,
     mockGetPending,
     mockClear,
     mockApplyFaultsToContext,
+    mockClearFaultsFromContext,
     mockRecordIncidentResult,
   };
 });
@@ -166,6 +194,7 @@ vi.mock("@/simulation/workflowTracker", () => ({
     recordCommand: mockRecordCommand,
     getPhaseHistory: mockGetPhaseHistory,
     calculateScore: mockCalculateScore,
+    getEvidenceReport: mockGetEvidenceReport,
   })),
 }));
 
@@ -186,6 +215,8 @@ vi.mock("@/simulation/faultPropagation", () => ({
 vi.mock("@/utils/scenarioLoader", () => ({
   applyFaultsToContext: (...args: unknown[]) =>
     mockApplyFaultsToContext(...args),
+  clearFaultsFromContext: (...args: unknown[]) =>
+    mockClearFaultsFromContext(...args),
 }));
 
 vi.mock("@/store/learningProgressStore", () => ({
@@ -277,6 +308,17 @@ describe("useIncidentSession", () => {
       total: 77,
     });
     mockGetPending.mockReturnValue([]);
+    mockContext.getMutationCount.mockReturnValue(0);
+    mockContext.stateAt.mockReturnValue({
+      name: "test-cluster",
+      nodes: [
+        {
+          id: "dgx-03",
+          slurmState: "idle",
+          gpus: [{ id: 5, migMode: false }],
+        },
+      ],
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -354,12 +396,13 @@ describe("useIncidentSession", () => {
       result.current.startIncident("beginner");
     });
 
+    const observation = { nodeId: "dgx-03", output: "No running processes" };
     act(() => {
-      result.current.recordCommand("nvidia-smi");
+      result.current.recordCommand("nvidia-smi", observation);
     });
 
-    // WorkflowTracker was called
-    expect(mockRecordCommand).toHaveBeenCalledWith("nvidia-smi");
+    // WorkflowTracker was called with where the command ran and its output
+    expect(mockRecordCommand).toHaveBeenCalledWith("nvidia-smi", observation);
 
     // ConsequenceEngine was called
     expect(mockEvaluate).toHaveBeenCalledWith(
@@ -448,6 +491,11 @@ describe("useIncidentSession", () => {
       "ECC memory error",
     );
     expect(result.current.reviewData!.score.total).toBe(77);
+    expect(result.current.reviewData!.evidence).toEqual({
+      found: [],
+      missed: [],
+      irrelevant: [],
+    });
 
     // Context was cleaned up
     expect(mockScenarioContextManager.setActiveContext).toHaveBeenCalledWith(
@@ -474,6 +522,60 @@ describe("useIncidentSession", () => {
     });
   });
 
+  it("submitDiagnosis scores each root cause of a compound incident", () => {
+    const drain = {
+      templateId: "nccl-timeout-drain",
+      prompt: "What did that lead to on dgx-05?",
+      nodeId: "dgx-05",
+      gpuId: 0,
+      options: ["NCCL timeout drained dgx-05", "Job time limit"],
+      correct: "NCCL timeout drained dgx-05",
+      propagationTrigger: "nccl-timeout",
+    };
+    mockCompose.mockReturnValue({
+      ...mockComposedIncident,
+      rootCauses: [...mockComposedIncident.rootCauses, drain],
+    });
+    const { result } = renderHook(() => useIncidentSession());
+
+    act(() => {
+      result.current.startIncident("advanced");
+    });
+
+    // Every root cause sets off its own propagation
+    expect(mockTriggerFault).toHaveBeenCalledWith({
+      faultType: "nccl-timeout",
+      nodeId: "dgx-05",
+      gpuId: 0,
+    });
+    expect(result.current.rootCauses).toHaveLength(2);
+
+    act(() => {
+      result.current.submitDiagnosis(["ECC memory error", "Job time limit"]);
+    });
+
+    expect(mockCalculateScore).toHaveBeenCalledWith({
+      correctDiagnosis: false,
+      collateralDamage: 0,
+      rootCauses: [true, false],
+    });
+    expect(result.current.reviewData!.correctDiagnosis).toBe(false);
+    expect(result.current.reviewData!.rootCauses).toEqual([
+      {
+        prompt: "What went wrong on dgx-03?",
+        selected: "ECC memory error",
+        correct: "ECC memory error",
+        isCorrect: true,
+      },
+      {
+        prompt: "What did that lead to on dgx-05?",
+        selected: "Job time limit",
+        correct: "NCCL timeout drained dgx-05",
+        isCorrect: false,
+      },
+    ]);
+  });
+
   // -------------------------------------------------------------------------
   // 5. abandonIncident cleans up and transitions to idle
   // -------------------------------------------------------------------------
@@ -697,4 +799,143 @@ describe("useIncidentSession", () => {
     expect(result.current.reviewData!.difficulty).toBe("intermediate");
     expect(result.current.reviewData!.domain).toBe(3);
   });
+
+  // -------------------------------------------------------------------------
+  // 7. Remediation clears faults and resolves the incident
+  // -------------------------------------------------------------------------
+  describe("remediation", () => {
+    const reset = { nodeId: "dgx-03", output: "", exitCode: 0 };
+
+    it("a GPU reset of the faulted GPU clears the fault", () => {
+      const { result } = renderHook(() => useIncidentSession());
+
+      act(() => {
+        result.current.startIncident("beginner");
+      });
+      expect(result.current.resolved).toBe(false);
+
+      act(() => {
+        result.current.recordCommand("nvidia-smi -r -i 5", reset);
+      });
+
+      expect(mockClearFaultsFromContext).toHaveBeenCalledWith(
+        [expect.objectContaining({ type: "ecc-error", gpuId: 5 })],
+        mockContext,
+      );
+      expect(mockEventLog.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "remediation",
+          message:
+            "GPU reset cleared the uncorrectable ECC error on dgx-03 GPU 5",
+        }),
+      );
+      expect(result.current.remediations).toHaveLength(1);
+      expect(result.current.resolved).toBe(true);
+
+      act(() => {
+        result.current.submitDiagnosis("ECC memory error");
+      });
+      expect(result.current.reviewData!.remediation).toMatchObject({
+        resolved: true,
+        remaining: [],
+      });
+    });
+
+    it("judges the fix on the GPU as the command found it", () => {
+      mockContext.stateAt.mockReturnValue({
+        name: "test-cluster",
+        nodes: [
+          {
+            id: "dgx-03",
+            slurmState: "alloc",
+            gpus: [{ id: 5, migMode: false, allocatedJobId: 1001 }],
+          },
+        ],
+      });
+      const { result } = renderHook(() => useIncidentSession());
+
+      act(() => {
+        result.current.startIncident("beginner");
+      });
+      mockApplyFaultsToContext.mockClear();
+
+      act(() => {
+        result.current.recordCommand("nvidia-smi -r -i 5", reset);
+      });
+
+      // The fault comes back where the reset cleared it
+      expect(mockApplyFaultsToContext).toHaveBeenCalledWith(
+        [expect.objectContaining({ type: "ecc-error", gpuId: 5 })],
+        mockContext,
+      );
+      expect(result.current.remediations[0]).toMatchObject({
+        outcome: "blocked",
+        unmet: ["no-running-jobs"],
+      });
+      expect(result.current.resolved).toBe(false);
+    });
+
+    it("ignores commands that failed or fixed another GPU", () => {
+      const { result } = renderHook(() => useIncidentSession());
+
+      act(() => {
+        result.current.startIncident("beginner");
+      });
+      act(() => {
+        result.current.recordCommand("nvidia-smi -r -i 5", {
+          ...reset,
+          exitCode: 1,
+        });
+        result.current.recordCommand("nvidia-smi -r -i 4", reset);
+      });
+
+      expect(mockClearFaultsFromContext).not.toHaveBeenCalled();
+      expect(result.current.remediations).toEqual([]);
+    });
+
+    it("field service replaces a failed GPU on a drained node", () => {
+      mockCompose.mockReturnValue({
+        ...mockComposedIncident,
+        faults: [
+          { faultType: "row-remap-failure", nodeId: "dgx-03", gpuId: 5 },
+        ],
+      });
+      const { result } = renderHook(() => useIncidentSession());
+
+      act(() => {
+        result.current.startIncident("beginner");
+      });
+
+      const request = {
+        action: "replace-part" as const,
+        nodeId: "dgx-03",
+        gpuId: 5,
+        part: "gpu" as const,
+      };
+      act(() => {
+        result.current.requestFieldService(request);
+      });
+      expect(result.current.remediations[0]).toMatchObject({
+        outcome: "blocked",
+        unmet: ["node-drained"],
+      });
+      expect(mockContext.updateGPU).not.toHaveBeenCalled();
+
+      mockContext.getNode.mockReturnValue({
+        id: "dgx-03",
+        slurmState: "drain",
+        gpus: [{ id: 5, migMode: false }],
+      });
+      act(() => {
+        result.current.requestFieldService(request);
+      });
+
+      expect(mockContext.updateGPU).toHaveBeenCalledWith(
+        "dgx-03",
+        5,
+        expect.objectContaining({ memoryHealth: undefined }),
+      );
+      expect(result.current.resolved).toBe(true);
+    });
+  });
 });
@@ -2,12 +2,21 @@
  * useIncidentSession - Incident Session Orchestrator hook.
  *
  * Wires together sandbox creation, incident composition, fault injection,
- * workflow tracking, consequence evaluation, and scoring into a single
- * React hook consumed by App.tsx.
+ * workflow tracking, consequence evaluation, remediation, and scoring into a
+ * single React hook consumed by App.tsx.
  *
  * Lifecycle:
  *   idle -> startIncident() -> active -> submitDiagnosis() -> review
  *                                     -> abandonIncident() -> idle
+ *
+ * While the incident is active, the fixes the learner applies, with
+ * commands or by requesting field service, clear the faults they are valid
+ * for. The incident is resolved once every fault has been cleared.
+ *
+ * Every incident runs from a seed. Starting an incident again with the seed
+ * of an earlier run replays it: the same incident is composed, and with the
+ * simulation clock paused at a fixed start the same commands print the same
+ * output.
  */
 
 import { useState, useCallback, useRef } from "react";
@@ -16,18 +25,42 @@ import type { ScenarioContext } from "@/store/scenarioContext";
 import {
   IncidentComposer,
   type ComposedIncident,
+  type IncidentFault,
 } from "@/simulation/incidentComposer";
 import {
   WorkflowTracker,
+  type EvidenceReport,
   type PhaseEntry,
   type WorkflowScore,
 } from "@/simulation/workflowTracker";
+import {
+  evidenceForFaults,
+  type CommandObservation,
+} from "@/simulation/diagnosticEvidence";
 import { ConsequenceEngine } from "@/simulation/consequenceEngine";
 import { FaultPropagationEngine } from "@/simulation/faultPropagation";
-import { applyFaultsToContext } from "@/utils/scenarioLoader";
+import {
+  RemediationEngine,
+  describeRemediation,
+  remediationsForCommand,
+  type RemediationRequest,
+  type RemediationResult,
+} from "@/simulation/remediationEngine";
+import { randomSeed, simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+import {
+  applyFaultsToContext,
+  clearFaultsFromContext,
+} from "@/utils/scenarioLoader";
 import { useLearningProgressStore } from "@/store/learningProgressStore";
 import type { FaultInjectionConfig, FaultType } from "@/types/scenarios";
 import type { ClusterEvent } from "@/simulation/eventLog";
+import type { DGXNode } from "@/types/hardware";
+import {
+  assessMemoryRma,
+  SPARE_ROWS_PER_BANK,
+  type MemoryRmaDecision,
+} from "@/utils/gpuMemoryHealth";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -35,18 +68,47 @@ import type { ClusterEvent } from "@/simulation/eventLog";
 
 export type IncidentState = "idle" | "active" | "review";
 
+/** How the learner diagnosed one root cause of the incident */
+export interface RootCauseResult {
+  prompt: string;
+  selected: string;
+  correct: string;
+  isCorrect: boolean;
+}
+
+/** The fixes applied during an incident, and what they left in place */
+export interface RemediationReport {
+  /** Whether every fault of the incident was cleared */
+  resolved: boolean;
+  results: RemediationResult[];
+  /** Faults still in place when the diagnosis was submitted */
+  remaining: IncidentFault[];
+}
+
 export interface ReviewData {
   score: WorkflowScore;
   correctDiagnosis: boolean;
   selectedRootCause: string;
   correctRootCause: string;
+  /** Each root cause of the incident, scored separately */
+  rootCauses: RootCauseResult[];
   events: ClusterEvent[];
   commands: PhaseEntry[];
+  /** Evidence of the faults the commands found and missed */
+  evidence: EvidenceReport;
+  remediation: RemediationReport;
   tip: string;
   difficulty: string;
   domain?: number;
+  /** Seed that replays this incident */
+  seed: number;
+  /** For GPU memory failures, whether the faulted GPU goes back for RMA */
+  rma?: MemoryRmaDecision;
 }
 
+/** Simulated start time of replayed incidents */
+export const REPLAY_EPOCH = Date.UTC(2024, 0, 15, 8, 0, 0);
+
 // ---------------------------------------------------------------------------
 // Fault mapping helper
 // ---------------------------------------------------------------------------
@@ -105,6 +167,16 @@ function mapIncidentFault(fault: {
         parameters: { singleBit: 150, doubleBit: 1 },
       };
 
+    case "row-remap-failure":
+      // One uncorrectable error more than the weak bank has spare rows
+      return {
+        nodeId,
+        gpuId,
+        type: "ecc-error" as FaultType,
+        severity: "critical",
+        parameters: { singleBit: 40, doubleBit: SPARE_ROWS_PER_BANK + 1 },
+      };
+
     case "single-bit-ecc":
       return {
         nodeId,
@@ -115,11 +187,13 @@ function mapIncidentFault(fault: {
       };
 
     case "nvlink-failure":
+      // Link 2 downshifts to half bandwidth on CRC replays
       return {
         nodeId,
         gpuId,
         type: "nvlink-failure" as FaultType,
         severity: "critical",
+        parameters: { link: 2 },
       };
 
     case "gpu-hang":
@@ -132,6 +206,7 @@ function mapIncidentFault(fault: {
 
     case "correctable-pcie-error":
     case "pcie-error":
+      // A GPU that fell off the bus also logs XID 79 (see incidentSymptoms)
       return {
         nodeId,
         gpuId,
@@ -139,6 +214,34 @@ function mapIncidentFault(fault: {
         severity: "warning",
       };
 
+    case "ib-cable-flap":
+      // A marginal cable keeps retraining, leaving errors on both ends
+      return {
+        nodeId,
+        gpuId,
+        type: "ib-cable" as FaultType,
+        severity: "warning",
+        parameters: { mode: "errors", symbolErrors: 4800 },
+      };
+
+    case "ib-link-down":
+      return {
+        nodeId,
+        gpuId,
+        type: "ib-cable" as FaultType,
+        severity: "critical",
+        parameters: { mode: "down" },
+      };
+
+    case "nccl-timeout":
+      return {
+        nodeId,
+        gpuId,
+        type: "set-slurm-state" as FaultType,
+        severity: "warning",
+        parameters: { state: "drain", reason: "NCCL timeout" },
+      };
+
     case "power-anomaly":
       return {
         nodeId,
@@ -159,14 +262,113 @@ function mapIncidentFault(fault: {
   }
 }
 
+/**
+ * Further faults an incident fault needs to show the symptoms a technician
+ * would find on real hardware: the XIDs in the kernel log, or the nouveau
+ * driver left in place of a module that did not load.
+ */
+function incidentSymptoms(fault: {
+  faultType: string;
+  nodeId: string;
+  gpuId: number;
+}): FaultInjectionConfig[] {
+  const { faultType, nodeId, gpuId } = fault;
+  const xid = (code: number, description: string): FaultInjectionConfig => ({
+    nodeId,
+    gpuId,
+    type: "xid-error" as FaultType,
+    severity: "critical",
+    parameters: { xid: code, description },
+  });
+
+  switch (faultType) {
+    case "gpu-hang":
+      return [xid(43, "GPU stopped processing")];
+    case "pcie-error":
+      return [xid(79, "GPU has fallen off the bus")];
+    case "driver-error":
+      return [
+        {
+          nodeId,
+          type: "driver-package" as FaultType,
+          severity: "critical",
+          parameters: { nouveau: true },
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+/** Every fault an incident fault is injected as, with its symptoms */
+function faultConfigs(fault: IncidentFault): FaultInjectionConfig[] {
+  return [mapIncidentFault(fault), ...incidentSymptoms(fault)];
+}
+
+/**
+ * Settle the outcome of fixes in the sandbox. Cleared faults are cleared
+ * from it. A fix a command applied without its preconditions does not
+ * hold: whatever the command cleared comes back.
+ */
+function settleRemediations(
+  results: RemediationResult[],
+  context: ScenarioContext,
+  fromCommand: boolean,
+): void {
+  for (const result of results) {
+    const configs = faultConfigs(result.origin);
+    if (result.outcome === "cleared") {
+      clearFaultsFromContext(configs, context);
+    } else if (
+      result.outcome === "blocked" &&
+      fromCommand &&
+      result.fault === result.origin
+    ) {
+      clearFaultsFromContext(configs, context);
+      applyFaultsToContext(configs, context);
+    }
+    context.getEventLog().append({
+      type: "remediation",
+      nodeId: result.fault.nodeId,
+      gpuId: result.request.gpuId,
+      message: describeRemediation(result),
+      severity: result.outcome === "blocked" ? "warning" : "info",
+    });
+  }
+}
+
+/** A replacement GPU comes with no error history of its own */
+function replaceGpu(context: ScenarioContext, nodeId: string, gpuId: number) {
+  context.updateGPU(nodeId, gpuId, {
+    eccErrors: {
+      singleBit: 0,
+      doubleBit: 0,
+      aggregated: { singleBit: 0, doubleBit: 0 },
+    },
+    memoryHealth: undefined,
+    xidErrors: [],
+    healthStatus: "OK",
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Tip generation
 // ---------------------------------------------------------------------------
 
-function generateTip(correctDiagnosis: boolean, score: WorkflowScore): string {
+function generateTip(
+  correctDiagnosis: boolean,
+  score: WorkflowScore,
+  rootCauses: RootCauseResult[] = [],
+): string {
+  if (!correctDiagnosis && rootCauses.some((r) => r.isCorrect)) {
+    return "This incident had more than one root cause. Once you find a failure, ask what it set off: check Slurm drain reasons, job exit codes and the fabric on the other nodes of the job before settling on a diagnosis.";
+  }
   if (!correctDiagnosis) {
     return "Focus on gathering evidence before diagnosing. Check nvidia-smi output, dmesg logs, and ECC counters to build a complete picture before committing to a root cause.";
   }
+  if (score.accuracy === 0) {
+    return "Your diagnosis was right, but none of your commands showed the fault. Confirm a root cause in the output of the tools that reveal it, such as the XID in dmesg or the counters in nvidia-smi -q, before you commit to it.";
+  }
   if (score.methodology < 10) {
     return "Try following a more structured diagnostic workflow: survey the cluster first, triage the symptoms, isolate the faulty component, remediate, then verify the fix.";
   }
@@ -193,145 +395,228 @@ export function useIncidentSession() {
   const [reviewData, setReviewData] = useState<ReviewData | null>(null);
   // commandCount forces re-renders so workflowPhases picks up fresh tracker data
   const [commandCount, setCommandCount] = useState(0);
+  const [remediations, setRemediations] = useState<RemediationResult[]>([]);
 
   // Refs for mutable instances (not re-render triggers)
   const composedRef = useRef<ComposedIncident | null>(null);
   const trackerRef = useRef<WorkflowTracker | null>(null);
   const propagationRef = useRef<FaultPropagationEngine | null>(null);
   const consequenceRef = useRef<ConsequenceEngine | null>(null);
+  const remediationRef = useRef<RemediationEngine | null>(null);
+  // Mutations of the sandbox before the last command, to see the state the
+  // command found
+  const mutationCountRef = useRef(0);
   const contextIdRef = useRef<string | null>(null);
   const contextRef = useRef<ScenarioContext | null>(null);
   const collateralCountRef = useRef(0);
   const hintsUsedRef = useRef(0);
   const difficultyRef = useRef<string>("beginner");
   const domainRef = useRef<number | undefined>(undefined);
+  const seedRef = useRef(0);
+  const replayRef = useRef(false);
 
   // -------------------------------------------------------------------------
   // startIncident
   // -------------------------------------------------------------------------
-  const startIncident = useCallback((difficulty: string, domain?: number) => {
-    // 1. Create ScenarioContext with unique ID
-    const contextId = `incident-${Date.now()}`;
-    const context = scenarioContextManager.createContext(contextId);
-
-    // 2. Compose incident
-    const composer = new IncidentComposer();
-    const composed = composer.compose({
-      difficulty: difficulty as "beginner" | "intermediate" | "advanced",
-      domain,
-    });
-
-    // 3. Map composed faults to FaultInjectionConfig and apply
-    const primaryFaultConfigs = composed.faults.map(mapIncidentFault);
-    applyFaultsToContext(primaryFaultConfigs, context);
+  const startIncident = useCallback(
+    (difficulty: string, domain?: number, seed?: number) => {
+      // 0. Seed the run; replays also restart simulated time paused
+      const runSeed = seed ?? randomSeed();
+      simulationRandom.reseed(runSeed);
+      if (seed !== undefined) {
+        simulationClock.reset({ start: REPLAY_EPOCH, paused: true });
+      }
 
-    // 4. Apply red herrings the same way
-    if (composed.redHerrings.length > 0) {
-      const herringConfigs = composed.redHerrings.map(mapIncidentFault);
-      applyFaultsToContext(herringConfigs, context);
-    }
+      // 1. Create ScenarioContext with unique ID
+      const contextId = `incident-${Date.now()}`;
+      const context = scenarioContextManager.createContext(contextId);
 
-    // 5. Set active context
-    scenarioContextManager.setActiveContext(contextId);
-
-    // 6. Create engine instances
-    const tracker = new WorkflowTracker();
-    const propagation = new FaultPropagationEngine();
-    const consequence = new ConsequenceEngine();
-
-    // 7. Trigger propagation for the primary fault
-    if (composed.faults.length > 0) {
-      const primaryFault = composed.faults[0];
-      propagation.triggerFault({
-        faultType: composed.propagationTrigger,
-        nodeId: primaryFault.nodeId,
-        gpuId: primaryFault.gpuId,
+      // 2. Compose incident for the cluster the sandbox copied
+      const composer = new IncidentComposer(context.getCluster());
+      const composed = composer.compose({
+        difficulty: difficulty as "beginner" | "intermediate" | "advanced",
+        domain,
       });
-    }
 
-    // 8. Store refs
-    composedRef.current = composed;
-    trackerRef.current = tracker;
-    propagationRef.current = propagation;
-    consequenceRef.current = consequence;
-    contextIdRef.current = contextId;
-    contextRef.current = context;
-    collateralCountRef.current = 0;
-    hintsUsedRef.current = 0;
-    difficultyRef.current = difficulty;
-    domainRef.current = domain;
+      // 3. Map composed faults to FaultInjectionConfig and apply, with the
+      //    symptoms their evidence shows up in
+      const primaryFaultConfigs = composed.faults.flatMap(faultConfigs);
+      applyFaultsToContext(primaryFaultConfigs, context);
 
-    // 9. Set state
-    setSituation(composed.situation);
-    setCommandCount(0);
-    setReviewData(null);
-    setIncidentState("active");
-  }, []);
+      // 4. Apply red herrings the same way
+      if (composed.redHerrings.length > 0) {
+        const herringConfigs = composed.redHerrings.map(mapIncidentFault);
+        applyFaultsToContext(herringConfigs, context);
+      }
+
+      // 5. Set active context
+      scenarioContextManager.setActiveContext(contextId);
+
+      // 6. Create engine instances
+      const tracker = new WorkflowTracker(
+        evidenceForFaults(composed.faults, context.getCluster()),
+      );
+      const propagation = new FaultPropagationEngine();
+      const consequence = new ConsequenceEngine();
+      const remediation = new RemediationEngine(composed.faults);
+
+      // 7. Trigger propagation for every root cause
+      for (const rootCause of composed.rootCauses) {
+        propagation.triggerFault({
+          faultType: rootCause.propagationTrigger,
+          nodeId: rootCause.nodeId,
+          gpuId: rootCause.gpuId,
+        });
+      }
+
+      // 8. Store refs
+      composedRef.current = composed;
+      trackerRef.current = tracker;
+      propagationRef.current = propagation;
+      consequenceRef.current = consequence;
+      remediationRef.current = remediation;
+      mutationCountRef.current = context.getMutationCount();
+      contextIdRef.current = contextId;
+      contextRef.current = context;
+      collateralCountRef.current = 0;
+      hintsUsedRef.current = 0;
+      difficultyRef.current = difficulty;
+      domainRef.current = domain;
+      seedRef.current = runSeed;
+      replayRef.current = seed !== undefined;
+
+      // 9. Set state
+      setSituation(composed.situation);
+      setCommandCount(0);
+      setRemediations([]);
+      setReviewData(null);
+      setIncidentState("active");
+    },
+    [],
+  );
 
   // -------------------------------------------------------------------------
   // recordCommand
   // -------------------------------------------------------------------------
   const recordCommand = useCallback(
-    (command: string): PhaseEntry | null => {
+    (command: string, observation?: CommandObservation): PhaseEntry | null => {
       if (incidentState !== "active") return null;
       if (!trackerRef.current || !consequenceRef.current || !contextRef.current)
         return null;
 
-      // 1. Forward to WorkflowTracker
-      const entry = trackerRef.current.recordCommand(command);
+      // 1. Forward to WorkflowTracker, with where the command ran and what
+      //    it printed for the evidence it revealed
+      const entry = trackerRef.current.recordCommand(command, observation);
 
       // Bump counter to trigger re-render (so workflowPhases picks up fresh data)
       setCommandCount((c) => c + 1);
 
-      // 2. Check ConsequenceEngine against the first node in context
-      //    (the node affected by the primary fault)
+      // 2. Check ConsequenceEngine against every node the incident's
+      //    faults landed on
       const composed = composedRef.current;
-      if (composed && composed.faults.length > 0) {
-        const primaryNodeId = composed.faults[0].nodeId;
-        const node = contextRef.current.getNode(primaryNodeId);
-
-        if (node) {
-          const consequence = consequenceRef.current.evaluate(command, node);
-
-          if (consequence) {
-            // 3. Increment collateral counter
-            collateralCountRef.current += 1;
-
-            // 4. Log to EventLog
-            const eventLog = contextRef.current.getEventLog();
-            eventLog.append({
-              type: "consequence",
-              nodeId: primaryNodeId,
-              message: consequence.description,
-              severity: "warning",
-            });
-          }
+      const faultedNodeIds = new Set(composed?.faults.map((f) => f.nodeId));
+      for (const nodeId of faultedNodeIds) {
+        const node = contextRef.current.getNode(nodeId);
+        if (!node) continue;
+
+        const consequence = consequenceRef.current.evaluate(command, node);
+        if (consequence) {
+          // 3. Increment collateral counter
+          collateralCountRef.current += 1;
+
+          // 4. Log to EventLog
+          const eventLog = contextRef.current.getEventLog();
+          eventLog.append({
+            type: "consequence",
+            nodeId,
+            message: consequence.description,
+            severity: "warning",
+          });
+        }
+      }
+
+      // 5. Apply the fixes the command made, judged on the nodes as the
+      //    command found them
+      const context = contextRef.current;
+      if (observation && remediationRef.current) {
+        const before = context.stateAt(mutationCountRef.current);
+        const results = remediationsForCommand(
+          command,
+          observation,
+          context.getCluster(),
+        ).flatMap((request) => {
+          const node = before.nodes.find((n) => n.id === request.nodeId);
+          return node ? remediationRef.current!.apply(request, node) : [];
+        });
+        if (results.length > 0) {
+          settleRemediations(results, context, true);
+          setRemediations((r) => [...r, ...results]);
         }
       }
+      mutationCountRef.current = context.getMutationCount();
 
       return entry;
     },
     [incidentState],
   );
 
+  // -------------------------------------------------------------------------
+  // requestFieldService
+  // -------------------------------------------------------------------------
+  const requestFieldService = useCallback(
+    (request: RemediationRequest): RemediationResult[] => {
+      if (incidentState !== "active") return [];
+      const context = contextRef.current;
+      const node: DGXNode | undefined = context?.getNode(request.nodeId);
+      if (!context || !node || !remediationRef.current) return [];
+
+      const results = remediationRef.current.apply(request, node);
+      if (
+        request.part === "gpu" &&
+        request.gpuId !== undefined &&
+        results.some((r) => r.outcome === "cleared")
+      ) {
+        replaceGpu(context, request.nodeId, request.gpuId);
+      }
+      settleRemediations(results, context, false);
+      mutationCountRef.current = context.getMutationCount();
+      setRemediations((r) => [...r, ...results]);
+      return results;
+    },
+    [incidentState],
+  );
+
   // -------------------------------------------------------------------------
   // submitDiagnosis
   // -------------------------------------------------------------------------
   const submitDiagnosis = useCallback(
-    (selectedRootCause: string) => {
+    (selection: string | string[]) => {
       if (incidentState !== "active") return;
       if (!composedRef.current || !trackerRef.current || !contextRef.current)
         return;
 
       const composed = composedRef.current;
 
-      // 1. Check correctness
-      const correctDiagnosis = selectedRootCause === composed.correctRootCause;
-
-      // 2. Calculate score (with hint penalty)
+      // 1. Check each root cause; the diagnosis is correct when all are
+      const selected = typeof selection === "string" ? [selection] : selection;
+      const rootCauses: RootCauseResult[] = composed.rootCauses.map(
+        (rootCause, i) => ({
+          prompt: rootCause.prompt,
+          selected: selected[i] ?? "",
+          correct: rootCause.correct,
+          isCorrect: selected[i] === rootCause.correct,
+        }),
+      );
+      const correctDiagnosis = rootCauses.every((r) => r.isCorrect);
+
+      // 2. Calculate score (with hint penalty); a compound incident earns
+      //    accuracy per root cause
       const rawScore = trackerRef.current.calculateScore({
         correctDiagnosis,
         collateralDamage: collateralCountRef.current,
+        ...(rootCauses.length > 1 && {
+          rootCauses: rootCauses.map((r) => r.isCorrect),
+        }),
       });
       const hintPenalty = hintsUsedRef.current * 5;
       const score: WorkflowScore = {
@@ -347,19 +632,35 @@ export function useIncidentSession() {
       // 4. Gather events and commands for review
       const events = contextRef.current.getEventLog().getAll();
       const commands = trackerRef.current.getPhaseHistory();
-      const tip = generateTip(correctDiagnosis, score);
+      const evidence = trackerRef.current.getEvidenceReport();
+      const remediation: RemediationReport = {
+        resolved: remediationRef.current?.isResolved() ?? false,
+        results: remediations,
+        remaining: remediationRef.current?.getActiveFaults() ?? [],
+      };
+      const tip = generateTip(correctDiagnosis, score, rootCauses);
+      const faulted = composed.faults[0];
+      const faultedGpu =
+        composed.rmaRequired !== undefined && faulted
+          ? contextRef.current.getGPU(faulted.nodeId, faulted.gpuId)
+          : undefined;
 
       // 5. Build review data
       const review: ReviewData = {
         score,
         correctDiagnosis,
-        selectedRootCause,
+        selectedRootCause: selected[0] ?? "",
         correctRootCause: composed.correctRootCause,
+        rootCauses,
         events,
         commands,
+        evidence,
+        remediation,
         tip,
         difficulty: difficultyRef.current,
         domain: domainRef.current,
+        seed: seedRef.current,
+        rma: faultedGpu ? assessMemoryRma(faultedGpu) : undefined,
       };
 
       // 6. Clean up context
@@ -369,16 +670,20 @@ export function useIncidentSession() {
         scenarioContextManager.deleteContext(contextId);
       }
 
-      // 7. Clear propagation engine
+      // 7. Clear propagation engine, and return a replay to the wall clock
       if (propagationRef.current) {
         propagationRef.current.clear();
       }
+      if (replayRef.current) {
+        simulationClock.reset();
+        replayRef.current = false;
+      }
 
       // 8. Set state
       setReviewData(review);
       setIncidentState("review");
     },
-    [incidentState],
+    [incidentState, remediations],
   );
 
   // -------------------------------------------------------------------------
@@ -392,16 +697,21 @@ export function useIncidentSession() {
       scenarioContextManager.deleteContext(contextId);
     }
 
-    // 2. Clear propagation
+    // 2. Clear propagation, and return a replay to the wall clock
     if (propagationRef.current) {
       propagationRef.current.clear();
     }
+    if (replayRef.current) {
+      simulationClock.reset();
+      replayRef.current = false;
+    }
 
     // 3. Reset all refs
     composedRef.current = null;
     trackerRef.current = null;
     propagationRef.current = null;
     consequenceRef.current = null;
+    remediationRef.current = null;
     contextIdRef.current = null;
     contextRef.current = null;
     collateralCountRef.current = 0;
@@ -409,6 +719,7 @@ export function useIncidentSession() {
     // 4. Set state to idle
     setSituation("");
     setCommandCount(0);
+    setRemediations([]);
     setReviewData(null);
     setIncidentState("idle");
   }, []);
@@ -430,9 +741,14 @@ export function useIncidentSession() {
     commandCount,
     reviewData,
     rootCauseOptions: composedRef.current?.rootCauseOptions ?? [],
+    rootCauses: composedRef.current?.rootCauses ?? [],
     diagnosticPath: composedRef.current?.diagnosticPath ?? [],
+    seed: seedRef.current,
+    remediations,
+    resolved: remediationRef.current?.isResolved() ?? false,
     startIncident,
     recordCommand,
+    requestFieldService,
     submitDiagnosis,
     abandonIncident,
     requestHint,
@@ -0,0 +1,22 @@
+/**
+ * Simulation Clock Hook
+ *
+ * Keeps the shared simulation clock in step with the speed multiplier chosen
+ * in the simulation store, so metrics, Slurm jobs and fault propagation all
+ * run at the same pace.
+ */
+
+import { useEffect } from "react";
+import { useSimulationStore } from "@/store/simulationStore";
+import { simulationClock } from "@/simulation/simulationClock";
+
+/**
+ * Hook that applies the store's simulationSpeed to the simulation clock.
+ */
+export function useSimulationClock(): void {
+  const simulationSpeed = useSimulationStore((state) => state.simulationSpeed);
+
+  useEffect(() => {
+    simulationClock.setSpeed(simulationSpeed);
+  }, [simulationSpeed]);
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  exportClusterConfigFiles,
+  renderClusterGresConf,
+  renderDcgmTargets,
+  renderHosts,
+  renderNodeGroups,
+  renderSlurmConf,
+  renderTopologyConf,
+} from "../clusterConfigFiles";
+import { VirtualFileSystem } from "../virtualFileSystem";
+import {
+  createClusterFromSpec,
+  createDefaultCluster,
+  createMixedCluster,
+} from "@/utils/clusterFactory";
+import { createTarArchive } from "@/utils/tarArchive";
+
+describe("Cluster configuration files", () => {
+  const mixed = createMixedCluster([
+    { systemType: "DGX-A100", count: 2 },
+    { systemType: "DGX-H100", count: 2 },
+  ]);
+
+  it("renders slurm.conf nodes, partitions and the tree topology plugin", () => {
+    const lines = renderSlurmConf(mixed).split("\n");
+    expect(lines).toContain("TopologyPlugin=topology/tree");
+    expect(lines.filter((l) => l.startsWith("NodeName="))).toEqual([
+      "NodeName=dgx-00 Gres=gpu:a100:8 CPUs=128 RealMemory=1048576 State=UNKNOWN",
+      "NodeName=dgx-01 Gres=gpu:a100:8 CPUs=128 RealMemory=1048576 State=UNKNOWN",
+      expect.stringMatching(/^NodeName=dgx-02 Gres=gpu:h100:8 /),
+      expect.stringMatching(/^NodeName=dgx-03 Gres=gpu:h100:8 /),
+    ]);
+    expect(lines).toContain(
+      "PartitionName=h100 Nodes=dgx-[02-03] Default=NO MaxTime=INFINITE State=UP",
+    );
+  });
+
+  it("groups gres.conf lines by the nodes that share them", () => {
+    const lines = renderClusterGresConf(mixed).split("\n");
+    expect(lines).toHaveLength(2 + 2 * 8);
+    expect(lines[2]).toBe(
+      "NodeName=dgx-[00-01] Name=gpu Type=a100 File=/dev/nvidia0",
+    );
+    expect(lines).toContain(
+      "NodeName=dgx-[02-03] Name=gpu Type=h100 File=/dev/nvidia7",
+    );
+  });
+
+  it("derives topology.conf from the InfiniBand switch tree", () => {
+    const cluster = createClusterFromSpec({
+      name: "Lab",
+      groups: [{ systemType: "DGX-H100", count: 4, hcaCount: 2 }],
+      fabricTopology: "FatTree",
+      fabricSwitches: { leaves: 2, spines: 1 },
+      partitions: ["gpu"],
+      bcmHA: { enabled: false, primary: "head-a", secondary: "" },
+    });
+    expect(renderTopologyConf(cluster).split("\n").slice(1)).toEqual([
+      "SwitchName=Leaf-0 Nodes=dgx-[00-01]",
+      "SwitchName=Leaf-1 Nodes=dgx-[02-03]",
+      "SwitchName=Spine-0 Switches=Leaf-[0-1]",
+    ]);
+    // Every rail switch of a rail-optimized fabric reaches every node
+    expect(renderTopologyConf(createDefaultCluster())).toContain(
+      "SwitchName=Rail-7 Nodes=dgx-[00-07]\nSwitchName=Spine-0 Switches=Rail-[0-7]",
+    );
+  });
+
+  it("lists hosts, node groups and DCGM scrape targets", () => {
+    const hosts = renderHosts(mixed).split("\n");
+    expect(hosts).not.toContainEqual(expect.stringMatching(/^127\.0\.1\.1/));
+    expect(hosts).toContain("10.0.0.254  mgmt-node0");
+    expect(renderHosts(mixed, "dgx-01")).toContain("127.0.1.1   ");
+
+    expect(renderNodeGroups(mixed).split("\n").slice(2)).toEqual([
+      "all: dgx-[00-03]",
+      "batch: dgx-[00-03]",
+      "interactive: dgx-[00-03]",
+      "gpu: dgx-[00-03]",
+      "a100: dgx-[00-01]",
+      "h100: dgx-[02-03]",
+      "head: mgmt-node0,mgmt-node1",
+    ]);
+
+    const targets = JSON.parse(renderDcgmTargets(mixed));
+    expect(targets).toHaveLength(2);
+    expect(targets[1]).toEqual({
+      targets: [
+        `${mixed.nodes[2].hostname.split(".")[0]}:9400`,
+        `${mixed.nodes[3].hostname.split(".")[0]}:9400`,
+      ],
+      labels: { job: "dcgm", cluster: "mixed-dgx-cluster", gpu_type: "h100" },
+    });
+  });
+
+  it("exports the same Slurm files and hosts the nodes serve", () => {
+    const cluster = createDefaultCluster();
+    const vfs = new VirtualFileSystem({ getCluster: () => cluster });
+    const files = exportClusterConfigFiles(cluster);
+    const content = (path: string) =>
+      files.find((f) => f.path === path)!.content;
+
+    expect(files.map((f) => f.path)).toEqual([
+      "etc/slurm/slurm.conf",
+      "etc/slurm/gres.conf",
+      "etc/slurm/topology.conf",
+      "etc/slurm/cgroup.conf",
+      "etc/hosts",
+      "etc/clustershell/groups.d/local.cfg",
+      "etc/prometheus/targets/dcgm.json",
+    ]);
+    for (const path of [
+      "etc/slurm/slurm.conf",
+      "etc/slurm/topology.conf",
+      "etc/slurm/cgroup.conf",
+    ]) {
+      expect(content(path)).toBe(
+        `${vfs.readFile("dgx-00", `/${path}`).content}\n`,
+      );
+    }
+  });
+
+  it("packs the files into a ustar archive", () => {
+    const archive = createTarArchive(
+      [{ path: "etc/hosts", content: "127.0.0.1 localhost\n" }],
+      Date.UTC(2024, 0, 15),
+    );
+    const text = (start: number, end: number) =>
+      new TextDecoder().decode(archive.slice(start, end)).replace(/\0+$/, "");
+
+    expect(archive).toHaveLength(512 * 4);
+    expect(text(0, 100)).toBe("etc/hosts");
+    expect(text(124, 136)).toBe("00000000024");
+    expect(text(257, 263)).toBe("ustar");
+    expect(text(512, 1024)).toBe("127.0.0.1 localhost\n");
+
+    const header = archive.slice(0, 512);
+    const stored = parseInt(text(148, 154), 8);
+    header.fill(0x20, 148, 156);
+    expect(stored).toBe(header.reduce((sum, byte) => sum + byte, 0));
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  ContainerRuntime,
+  imageName,
+  isGpuImage,
+  parseImageReference,
+  qualifiedRepository,
+  sifFileName,
+  squashfsFileName,
+} from "../containerRuntime";
+
+describe("image references", () => {
+  it("should parse docker and enroot references", () => {
+    expect(parseImageReference("nvidia/cuda:12.4.0-base")).toEqual({
+      repository: "nvidia/cuda",
+      tag: "12.4.0-base",
+    });
+    expect(parseImageReference("nvcr.io#nvidia/pytorch:24.01-py3")).toEqual({
+      repository: "nvcr.io/nvidia/pytorch",
+      tag: "24.01-py3",
+    });
+    expect(imageName("docker://ubuntu")).toBe("ubuntu:latest");
+    expect(imageName("localhost:5000/app")).toBe("localhost:5000/app:latest");
+  });
+
+  it("should qualify repositories like podman", () => {
+    expect(qualifiedRepository("ubuntu")).toBe("docker.io/library/ubuntu");
+    expect(qualifiedRepository("nvidia/cuda")).toBe("docker.io/nvidia/cuda");
+    expect(qualifiedRepository("nvcr.io/nvidia/pytorch")).toBe(
+      "nvcr.io/nvidia/pytorch",
+    );
+  });
+
+  it("should recognize NVIDIA GPU images", () => {
+    expect(isGpuImage("nvcr.io#nvidia/pytorch:24.01-py3")).toBe(true);
+    expect(isGpuImage("nvidia/cuda:12.4.0-base")).toBe(true);
+    expect(isGpuImage("ubuntu:22.04")).toBe(false);
+  });
+
+  it("should derive the file names enroot and apptainer write", () => {
+    expect(squashfsFileName("docker://nvidia/cuda:12.4.0-base")).toBe(
+      "nvidia+cuda+12.4.0-base.sqsh",
+    );
+    expect(sifFileName("docker://nvcr.io/nvidia/pytorch:24.01-py3")).toBe(
+      "pytorch_24.01-py3.sif",
+    );
+  });
+});
+
+describe("ContainerRuntime", () => {
+  let runtime: ContainerRuntime;
+
+  beforeEach(() => {
+    runtime = new ContainerRuntime();
+  });
+
+  describe("images", () => {
+    it("should seed every node with the default images", () => {
+      expect(runtime.listImages("dgx-00")).toHaveLength(3);
+      expect(runtime.findImage("dgx-00", "nvidia/cuda:12.4.0-base")?.id).toBe(
+        "abc123def456",
+      );
+      expect(runtime.findImage("dgx-00", "abc1")?.repository).toBe(
+        "nvidia/cuda",
+      );
+    });
+
+    it("should report whether a pulled image was cached", () => {
+      expect(runtime.pullImage("dgx-00", "ubuntu:22.04").cached).toBe(false);
+      expect(runtime.pullImage("dgx-00", "ubuntu:22.04").cached).toBe(true);
+      expect(
+        runtime.pullImage("dgx-00", "docker.io/library/ubuntu:22.04").cached,
+      ).toBe(true);
+      expect(runtime.findImage("dgx-01", "ubuntu:22.04")).toBeUndefined();
+    });
+
+    it("should refuse to remove an image in use unless forced", () => {
+      runtime.createContainer("dgx-00", {
+        image: "nvidia/cuda:12.4.0-base",
+        command: "sleep infinity",
+        engine: "docker",
+        state: "running",
+      });
+
+      expect(runtime.removeImage("dgx-00", "nvidia/cuda:12.4.0-base")).toMatch(
+        /conflict/,
+      );
+      expect(
+        runtime.removeImage("dgx-00", "nvidia/cuda:12.4.0-base", true),
+      ).toBeNull();
+      expect(runtime.removeImage("dgx-00", "missing:1")).toBe(
+        "No such image: missing:1",
+      );
+    });
+  });
+
+  describe("containers", () => {
+    it("should seed the enroot containers of earlier jobs", () => {
+      const names = runtime.listContainers("dgx-00", true).map((c) => c.name);
+      expect(names).toEqual([
+        "pytorch-24.01-py3-abc123",
+        "tensorflow-24.01-def456",
+      ]);
+      expect(runtime.listContainers("dgx-00")).toHaveLength(0);
+    });
+
+    it("should generate names and reject duplicates", () => {
+      const first = runtime.createContainer("dgx-00", {
+        name: "train",
+        image: "nvidia/cuda:12.4.0-base",
+        command: "nvidia-smi",
+        engine: "docker",
+        state: "exited",
+      });
+      expect(typeof first).not.toBe("string");
+
+      const duplicate = runtime.createContainer("dgx-00", {
+        name: "train",
+        image: "nvidia/cuda:12.4.0-base",
+        command: "nvidia-smi",
+        engine: "podman",
+        state: "exited",
+      });
+      expect(duplicate).toBe('the container name "train" is already in use');
+
+      const unnamed = runtime.createContainer("dgx-00", {
+        image: "nvidia/cuda:12.4.0-base",
+        command: "bash",
+        engine: "docker",
+        state: "running",
+      });
+      expect(typeof unnamed !== "string" && unnamed.name).toMatch(
+        /^[a-z]+_[a-z]+/,
+      );
+    });
+
+    it("should stop, remove and prune containers", () => {
+      const container = runtime.createContainer("dgx-00", {
+        name: "svc",
+        image: "nvidia/cuda:12.4.0-base",
+        command: "sleep infinity",
+        engine: "docker",
+        state: "running",
+      });
+      if (typeof container === "string") throw new Error(container);
+
+      expect(runtime.removeContainer("dgx-00", "svc")).toMatch(
+        /container is running/,
+      );
+      expect(runtime.stopContainer("dgx-00", container.id)?.exitCode).toBe(137);
+      expect(runtime.pruneContainers("dgx-00", "docker")).toEqual([container]);
+      expect(runtime.listContainers("dgx-00", true)).toHaveLength(2);
+      expect(runtime.removeContainer("dgx-00", "svc")).toBe(
+        "No such container: svc",
+      );
+    });
+  });
+
+  it("should track nvidia-container-toolkit per node and reset", () => {
+    runtime.setToolkitInstalled("dgx-00", false);
+    runtime.pullImage("dgx-00", "ubuntu:22.04");
+    expect(runtime.isToolkitInstalled("dgx-00")).toBe(false);
+    expect(runtime.isToolkitInstalled("dgx-01")).toBe(true);
+
+    runtime.reset("dgx-00");
+    expect(runtime.isToolkitInstalled("dgx-00")).toBe(true);
+    expect(runtime.listImages("dgx-00")).toHaveLength(3);
+  });
+});
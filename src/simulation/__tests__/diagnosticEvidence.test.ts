@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { evidenceForFaults, revealsEvidence } from "../diagnosticEvidence";
+import { simulationClock } from "../simulationClock";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { BasicSystemSimulator } from "@/simulators/basicSystemSimulator";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import { applyFaultsToContext } from "@/utils/scenarioLoader";
+import { parse } from "@/utils/commandParser";
+import type { CommandContext } from "@/types/commands";
+
+const START = Date.UTC(2024, 0, 15, 8);
+
+describe("Diagnostic evidence", () => {
+  const cluster = createDefaultCluster();
+
+  const evidenceFor = (faultType: string, nodeId = "dgx-01", gpuId = 3) =>
+    evidenceForFaults([{ faultType, nodeId, gpuId, rootCause: 0 }], cluster);
+
+  it("fills the faulted hardware into labels and fields", () => {
+    const [ecc, xid] = evidenceFor("ecc-error");
+    expect(ecc).toMatchObject({
+      label: "Uncorrectable DRAM ECC errors on GPU 3",
+      nodeId: "dgx-01",
+      gpuId: 3,
+      rootCause: 0,
+      scope: "gpu",
+    });
+    expect(xid.field.source).toBe("Xid \\(PCI:0000:13:00\\.0\\): 48");
+  });
+
+  it("declares no evidence for red herrings", () => {
+    expect(evidenceFor("single-bit-ecc")).toEqual([]);
+  });
+
+  it("looks through sudo and ssh for the tool and the node", () => {
+    const [, xid] = evidenceFor("ecc-error");
+    const output = "NVRM: Xid (PCI:0000:13:00.0): 48, pid=1, DBE\n";
+    const reveals = (command: string, nodeId = "dgx-00") =>
+      revealsEvidence(xid, command, { nodeId, output });
+
+    expect(reveals("dmesg", "dgx-01")).toBe(true);
+    expect(reveals("dmesg")).toBe(false);
+    expect(reveals("sudo dmesg -T | grep -i xid", "dgx-01")).toBe(true);
+    expect(reveals("ssh dgx-01 dmesg")).toBe(true);
+    expect(reveals("ssh -p 22 root@dgx-01 sudo dmesg")).toBe(true);
+    expect(reveals("ssh dgx-02 dmesg")).toBe(false);
+    expect(reveals("journalctl -k", "dgx-01")).toBe(false);
+  });
+
+  it("needs the faulted GPU among the ones a command picks", () => {
+    const [ecc] = evidenceFor("ecc-error");
+    const output = "        DRAM Uncorrectable                : 1\n";
+    const reveals = (command: string) =>
+      revealsEvidence(ecc, command, { nodeId: "dgx-01", output });
+
+    expect(reveals("nvidia-smi -q -d ECC")).toBe(true);
+    expect(reveals("nvidia-smi -q -d ECC -i 3")).toBe(true);
+    expect(reveals("nvidia-smi -q -d ECC --id=2,3")).toBe(true);
+    expect(reveals("nvidia-smi -q -d ECC -i 2")).toBe(false);
+    expect(
+      revealsEvidence(ecc, "nvidia-smi -q -d ECC", {
+        nodeId: "dgx-01",
+        output: "        DRAM Uncorrectable                : 0\n",
+      }),
+    ).toBe(false);
+  });
+
+  it("accepts cluster-wide tools from any node when they name the node", () => {
+    const [drained] = evidenceFor("nccl-timeout", "dgx-04", 0);
+    const reveals = (output: string) =>
+      revealsEvidence(drained, "sinfo -R", { nodeId: "dgx-00", output });
+
+    expect(reveals("NCCL timeout  root  2024-01-15T08:00:00 dgx-04\n")).toBe(
+      true,
+    );
+    expect(reveals("NCCL timeout  root  2024-01-15T08:00:00 dgx-05\n")).toBe(
+      false,
+    );
+  });
+
+  describe("against the simulators", () => {
+    let scenario: ScenarioContext;
+    let context: CommandContext;
+    let smi: NvidiaSmiSimulator;
+
+    const run = (command: string) => {
+      const parsed = parse(command);
+      const simulator =
+        parsed.baseCommand === "nvidia-smi" ? smi : new BasicSystemSimulator();
+      return {
+        nodeId: context.currentNode,
+        output: simulator.execute(parsed, context).output,
+      };
+    };
+
+    beforeEach(async () => {
+      smi = new NvidiaSmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(smi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      simulationClock.reset({ start: START, paused: true });
+      scenario = new ScenarioContext("evidence-test", createDefaultCluster());
+      context = {
+        currentNode: "dgx-01",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: scenario,
+      };
+    });
+
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("finds an injected ECC fault in nvidia-smi and dmesg", () => {
+      applyFaultsToContext(
+        [
+          {
+            nodeId: "dgx-01",
+            gpuId: 3,
+            type: "ecc-error",
+            severity: "critical",
+            parameters: { singleBit: 150, doubleBit: 1 },
+          },
+        ],
+        scenario,
+      );
+      const evidence = evidenceForFaults(
+        [{ faultType: "ecc-error", nodeId: "dgx-01", gpuId: 3, rootCause: 0 }],
+        scenario.getCluster(),
+      );
+      const revealed = (command: string) =>
+        evidence
+          .filter((e) => revealsEvidence(e, command, run(command)))
+          .map((e) => e.label);
+
+      expect(revealed("nvidia-smi -q -d ECC,PAGE_RETIREMENT -i 3")).toEqual([
+        "Uncorrectable DRAM ECC errors on GPU 3",
+        "Pages retired for double-bit ECC errors on GPU 3",
+      ]);
+      expect(revealed("nvidia-smi -q -d ECC -i 4")).toEqual([]);
+      expect(revealed("dmesg")).toEqual([
+        "XID 48 (double-bit ECC error) from GPU 3 in the kernel log",
+      ]);
+
+      context.currentNode = "dgx-02";
+      expect(revealed("dmesg")).toEqual([]);
+    });
+
+    it("finds a degraded NVLink in the per-GPU error counters", () => {
+      applyFaultsToContext(
+        [
+          {
+            nodeId: "dgx-01",
+            gpuId: 3,
+            type: "nvlink-failure",
+            severity: "critical",
+            parameters: { link: 2 },
+          },
+        ],
+        scenario,
+      );
+      const [replays] = evidenceForFaults(
+        [
+          {
+            faultType: "nvlink-failure",
+            nodeId: "dgx-01",
+            gpuId: 3,
+            rootCause: 0,
+          },
+        ],
+        scenario.getCluster(),
+      );
+
+      const command = "nvidia-smi nvlink -e -i 3";
+      const observation = run(command);
+      expect(observation.output).toContain("GPU 3: ");
+      expect(revealsEvidence(replays, command, observation)).toBe(true);
+
+      const healthy = "nvidia-smi nvlink -e -i 2";
+      expect(revealsEvidence(replays, healthy, run(healthy))).toBe(false);
+    });
+  });
+});
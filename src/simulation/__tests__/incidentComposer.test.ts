@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
 import { IncidentComposer } from "../incidentComposer";
+import { simulationRandom } from "../seededRandom";
+import { FAULT_PROPAGATION_RULES } from "@/data/faultPropagationRules";
+import { createCustomCluster } from "@/utils/clusterFactory";
 
 describe("IncidentComposer", () => {
   const composer = new IncidentComposer();
@@ -66,4 +69,74 @@ describe("IncidentComposer", () => {
       expect(incident.faults.every((f) => f.gpuId >= 0)).toBe(true);
     }
   });
+
+  describe("on the active cluster", () => {
+    it("targets the cluster's own nodes and GPUs and names them", () => {
+      const cluster = createCustomCluster(3, "DGX-GB200");
+      const small = new IncidentComposer(cluster);
+      for (let seed = 1; seed <= 30; seed++) {
+        simulationRandom.reseed(seed);
+        const incident = small.compose({ difficulty: "advanced" });
+        for (const fault of [...incident.faults, ...incident.redHerrings]) {
+          const node = cluster.nodes.find((n) => n.id === fault.nodeId);
+          expect(node).toBeDefined();
+          expect(node!.gpus.map((g) => g.id)).toContain(fault.gpuId);
+        }
+        for (const rootCause of incident.rootCauses) {
+          expect(rootCause.options).toContain(rootCause.correct);
+          expect(rootCause.prompt).toContain(rootCause.nodeId);
+        }
+        const text = [
+          incident.situation,
+          ...incident.diagnosticPath,
+          ...incident.rootCauses.flatMap((r) => r.options),
+        ].join("\n");
+        expect(text).not.toMatch(/\{\w+\}/);
+        expect(text).not.toMatch(/dgx-0[3-9]/);
+      }
+    });
+
+    it("chains compound incidents along the propagation graph", () => {
+      const seen = new Set<string>();
+      for (let seed = 1; seed <= 40; seed++) {
+        simulationRandom.reseed(seed);
+        const incident = composer.compose({
+          difficulty: "advanced",
+          compound: true,
+        });
+        const { rootCauses } = incident;
+        expect(rootCauses.length).toBeGreaterThanOrEqual(2);
+        expect(incident.correctRootCause).toBe(rootCauses[0].correct);
+
+        for (let i = 1; i < rootCauses.length; i++) {
+          const rule = FAULT_PROPAGATION_RULES.find(
+            (r) => r.trigger === rootCauses[i - 1].propagationTrigger,
+          );
+          const link = rule!.consequences.find(
+            (c) => c.escalatesTo === rootCauses[i].propagationTrigger,
+          );
+          expect(link).toBeDefined();
+          // Consequences through Slurm land on another node of the job
+          if (link!.target === "slurm") {
+            expect(rootCauses[i].nodeId).not.toBe(rootCauses[i - 1].nodeId);
+          } else {
+            expect(rootCauses[i].nodeId).toBe(rootCauses[i - 1].nodeId);
+          }
+        }
+        seen.add(rootCauses.map((r) => r.templateId).join(" > "));
+      }
+      expect(seen).toContain("ib-cable-flap > nccl-timeout-drain");
+    });
+
+    it("composes single-cause incidents below advanced", () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        simulationRandom.reseed(seed);
+        for (const difficulty of ["beginner", "intermediate"] as const) {
+          const incident = composer.compose({ difficulty });
+          expect(incident.rootCauses).toHaveLength(1);
+          expect(incident.templateId).not.toBe("nccl-timeout-drain");
+        }
+      }
+    });
+  });
 });
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  RemediationEngine,
+  describeRemediation,
+  remediationsForCommand,
+} from "../remediationEngine";
+import { simulationClock } from "../simulationClock";
+import type { IncidentFault } from "../incidentComposer";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import {
+  applyFaultsToContext,
+  clearFaultsFromContext,
+} from "@/utils/scenarioLoader";
+import { parse } from "@/utils/commandParser";
+import type { CommandContext } from "@/types/commands";
+import type { DGXNode } from "@/types/hardware";
+
+const START = Date.UTC(2024, 0, 15, 8);
+
+describe("RemediationEngine", () => {
+  const cluster = createDefaultCluster();
+  const fault = (faultType: string, gpuId = 3): IncidentFault => ({
+    faultType,
+    nodeId: "dgx-01",
+    gpuId,
+    rootCause: 0,
+  });
+  const node = (changes: Partial<DGXNode> = {}): DGXNode => ({
+    ...cluster.nodes[1],
+    ...changes,
+  });
+  const drained = () => node({ slurmState: "drain" });
+
+  describe("remediationsForCommand", () => {
+    const fixes = (command: string, exitCode = 0, nodeId = "dgx-01") =>
+      remediationsForCommand(
+        command,
+        { nodeId, output: "", exitCode },
+        cluster,
+      );
+
+    it("recognises GPU resets of the GPUs picked with -i", () => {
+      expect(fixes("nvidia-smi -r -i 3")).toEqual([
+        { action: "gpu-reset", nodeId: "dgx-01", gpuId: 3 },
+      ]);
+      expect(fixes("sudo nvidia-smi --gpu-reset -i 2,3")).toHaveLength(2);
+      expect(fixes("ssh dgx-04 nvidia-smi -r -i 0")).toEqual([
+        { action: "gpu-reset", nodeId: "dgx-04", gpuId: 0 },
+      ]);
+      expect(fixes("nvidia-smi -q -i 3")).toEqual([]);
+    });
+
+    it("applies nothing for commands that failed", () => {
+      expect(fixes("nvidia-smi -r -i 3", 1)).toEqual([]);
+    });
+
+    it("finds the node a reboot or power cycle reaches", () => {
+      expect(fixes("reboot")).toEqual([
+        { action: "node-reboot", nodeId: "dgx-01" },
+      ]);
+      expect(
+        fixes("ipmitool -H 192.168.0.102 power cycle", 0, "dgx-00"),
+      ).toEqual([{ action: "node-reboot", nodeId: "dgx-02" }]);
+      expect(fixes("bcm-node power reset dgx-05", 0, "dgx-00")).toEqual([
+        { action: "node-reboot", nodeId: "dgx-05" },
+      ]);
+      expect(fixes("ipmitool power status")).toEqual([]);
+    });
+
+    it("recognises driver, firmware and Slurm fixes", () => {
+      expect(fixes("apt install -y nvidia-driver-535")[0].action).toBe(
+        "driver-reinstall",
+      );
+      expect(fixes("mlxfwmanager -u -y")[0].action).toBe("firmware-update");
+      expect(fixes("mlxfwmanager --query")).toEqual([]);
+      expect(
+        fixes("scontrol update nodename=dgx-04 state=RESUME", 0, "dgx-00"),
+      ).toEqual([{ action: "node-resume", nodeId: "dgx-04" }]);
+      expect(fixes("scontrol update nodename=dgx-04 state=drain")).toEqual([]);
+    });
+  });
+
+  it("clears a fault with a fix it declares once its preconditions hold", () => {
+    const engine = new RemediationEngine([fault("gpu-hang")]);
+
+    const [result] = engine.apply(
+      { action: "gpu-reset", nodeId: "dgx-01", gpuId: 3 },
+      node(),
+    );
+
+    expect(result.outcome).toBe("cleared");
+    expect(engine.isResolved()).toBe(true);
+    expect(describeRemediation(result)).toBe(
+      "GPU reset cleared the hung GPU on dgx-01 GPU 3",
+    );
+  });
+
+  it("leaves the fault in place when a precondition is not met", () => {
+    const engine = new RemediationEngine([fault("ecc-error")]);
+    const busy = node({
+      gpus: cluster.nodes[1].gpus.map((g) =>
+        g.id === 3 ? { ...g, allocatedJobId: 1001, migMode: true } : g,
+      ),
+    });
+
+    const [result] = engine.apply(
+      { action: "gpu-reset", nodeId: "dgx-01", gpuId: 3 },
+      busy,
+    );
+
+    expect(result).toMatchObject({
+      outcome: "blocked",
+      unmet: ["no-running-jobs", "mig-disabled"],
+    });
+    expect(engine.getActiveFaults()).toEqual([fault("ecc-error")]);
+    expect(describeRemediation(result)).toBe(
+      "GPU reset did not hold for the uncorrectable ECC error on dgx-01 GPU 3: it needs no jobs running on the GPUs and MIG mode disabled",
+    );
+  });
+
+  it("only reaches the faults a fix is declared for", () => {
+    const engine = new RemediationEngine([
+      fault("ecc-error", 3),
+      fault("row-remap-failure", 5),
+    ]);
+
+    // A reset of another GPU, and one of a fault only a new GPU fixes
+    expect(
+      engine.apply({ action: "gpu-reset", nodeId: "dgx-01", gpuId: 4 }, node()),
+    ).toEqual([]);
+    expect(
+      engine.apply({ action: "gpu-reset", nodeId: "dgx-01", gpuId: 5 }, node()),
+    ).toEqual([]);
+    expect(
+      engine.apply(
+        { action: "replace-part", nodeId: "dgx-01", part: "psu" },
+        drained(),
+      ),
+    ).toEqual([]);
+
+    const [replaced] = engine.apply(
+      { action: "replace-part", nodeId: "dgx-01", gpuId: 5, part: "gpu" },
+      drained(),
+    );
+    expect(replaced.outcome).toBe("cleared");
+    expect(engine.getActiveFaults()).toEqual([fault("ecc-error", 3)]);
+  });
+
+  it("turns a reinstalled driver into a reboot the node still needs", () => {
+    const engine = new RemediationEngine([fault("driver-error", 0)]);
+
+    const [reinstalled] = engine.apply(
+      { action: "driver-reinstall", nodeId: "dgx-01" },
+      node(),
+    );
+    expect(reinstalled).toMatchObject({
+      outcome: "transformed",
+      becomes: "reboot-pending",
+    });
+    expect(engine.getActiveFaults()[0].faultType).toBe("reboot-pending");
+
+    expect(
+      engine.apply({ action: "node-reboot", nodeId: "dgx-01" }, node())[0]
+        .outcome,
+    ).toBe("blocked");
+    const [rebooted] = engine.apply(
+      { action: "node-reboot", nodeId: "dgx-01" },
+      drained(),
+    );
+    expect(rebooted.outcome).toBe("cleared");
+    // The fault the sandbox has to clear is still the one injected
+    expect(rebooted.origin.faultType).toBe("driver-error");
+    expect(engine.isResolved()).toBe(true);
+  });
+
+  describe("against the simulators", () => {
+    let scenario: ScenarioContext;
+    let context: CommandContext;
+    let smi: NvidiaSmiSimulator;
+
+    beforeEach(async () => {
+      smi = new NvidiaSmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(smi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      simulationClock.reset({ start: START, paused: true });
+      scenario = new ScenarioContext(
+        "remediation-test",
+        createDefaultCluster(),
+      );
+      context = {
+        currentNode: "dgx-01",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: scenario,
+      };
+    });
+
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("clears an ECC fault with nvidia-smi -r", () => {
+      const faults = [
+        {
+          nodeId: "dgx-01",
+          gpuId: 3,
+          type: "ecc-error" as const,
+          severity: "critical" as const,
+          parameters: { singleBit: 150, doubleBit: 1 },
+        },
+      ];
+      applyFaultsToContext(faults, scenario);
+      const engine = new RemediationEngine([fault("ecc-error")]);
+      const before = scenario.getMutationCount();
+
+      const command = "nvidia-smi -r -i 3";
+      const result = smi.execute(parse(command), context);
+      const requests = remediationsForCommand(
+        command,
+        { nodeId: "dgx-01", output: result.output, exitCode: result.exitCode },
+        scenario.getCluster(),
+      );
+      const found = scenario.stateAt(before).nodes[1];
+      const [outcome] = requests.flatMap((r) => engine.apply(r, found));
+      expect(outcome.outcome).toBe("cleared");
+
+      clearFaultsFromContext(faults, scenario);
+      expect(scenario.getGPU("dgx-01", 3)?.eccErrors.doubleBit).toBe(0);
+      expect(engine.isResolved()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { SeededRandom } from "../seededRandom";
+
+describe("SeededRandom", () => {
+  it("should repeat the same sequence for the same seed", () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    const first = Array.from({ length: 5 }, () => a.next());
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(first);
+
+    a.reseed(42);
+    expect(a.next()).toBe(first[0]);
+    expect(a.getSeed()).toBe(42);
+  });
+
+  it("should produce different sequences for different seeds", () => {
+    expect(new SeededRandom(1).next()).not.toBe(new SeededRandom(2).next());
+  });
+
+  it("should stay within the requested ranges", () => {
+    const rng = new SeededRandom(7);
+    for (let i = 0; i < 200; i++) {
+      const f = rng.next();
+      expect(f).toBeGreaterThanOrEqual(0);
+      expect(f).toBeLessThan(1);
+      expect(rng.int(6)).toBeLessThan(6);
+      const r = rng.range(10, 20);
+      expect(r).toBeGreaterThanOrEqual(10);
+      expect(r).toBeLessThan(20);
+      expect(["a", "b", "c"]).toContain(rng.pick(["a", "b", "c"]));
+    }
+    expect(rng.hex(12)).toMatch(/^[0-9a-f]{12}$/);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SimulationClock } from "../simulationClock";
+
+describe("SimulationClock", () => {
+  let wall: number;
+  let clock: SimulationClock;
+
+  beforeEach(() => {
+    wall = 1_000_000;
+    clock = new SimulationClock({ wallClock: () => wall });
+  });
+
+  it("should follow the wall clock scaled by the speed", () => {
+    wall += 1000;
+    expect(clock.now()).toBe(1_001_000);
+
+    clock.setSpeed(4);
+    wall += 1000;
+    expect(clock.now()).toBe(1_005_000);
+    expect(clock.getSpeed()).toBe(4);
+  });
+
+  it("should ignore invalid speeds", () => {
+    clock.setSpeed(0);
+    clock.setSpeed(-2);
+    expect(clock.getSpeed()).toBe(1);
+  });
+
+  it("should stand still while paused", () => {
+    clock.pause();
+    wall += 5000;
+    expect(clock.now()).toBe(1_000_000);
+
+    clock.resume();
+    wall += 1000;
+    expect(clock.now()).toBe(1_001_000);
+  });
+
+  it("should fire timers in due order when fast-forwarding", () => {
+    clock.pause();
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push(`b@${clock.now()}`), 2000);
+    clock.setTimeout(() => fired.push(`a@${clock.now()}`), 1000);
+    const id = clock.setInterval(() => fired.push(`i@${clock.now()}`), 1500);
+
+    clock.advance(3000);
+    expect(fired).toEqual(["a@1001000", "i@1001500", "b@1002000", "i@1003000"]);
+    expect(clock.now()).toBe(1_003_000);
+
+    clock.clearTimer(id);
+    clock.advance(3000);
+    expect(fired).toHaveLength(4);
+  });
+
+  it("should pause the clock when stepping", () => {
+    let fired = false;
+    clock.setTimeout(() => (fired = true), 500);
+
+    clock.step();
+    expect(clock.isPaused()).toBe(true);
+    expect(clock.now()).toBe(1_001_000);
+    expect(fired).toBe(true);
+  });
+
+  it("should keep the remaining delay of pending timers across a reset", () => {
+    let firedAt = 0;
+    clock.setTimeout(() => (firedAt = clock.now()), 5000);
+    wall += 2000;
+
+    clock.reset({ start: 0, paused: true });
+    expect(clock.now()).toBe(0);
+    clock.advance(2999);
+    expect(firedAt).toBe(0);
+    clock.advance(1);
+    expect(firedAt).toBe(3000);
+  });
+});
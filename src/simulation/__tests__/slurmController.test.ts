@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  SlurmController,
+  formatElapsed,
+  formatJobId,
+  parseArraySpec,
+  parseDependency,
+  parseTimeSpec,
+  type JobRequest,
+  type SlurmNodeMutator,
+} from "../slurmController";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import type { DGXNode } from "@/types/hardware";
+
+describe("time specifications", () => {
+  it("should parse the formats sbatch --time accepts", () => {
+    expect(parseTimeSpec("30")).toBe(1800);
+    expect(parseTimeSpec("10:30")).toBe(630);
+    expect(parseTimeSpec("1:00:00")).toBe(3600);
+    expect(parseTimeSpec("2-12")).toBe(216000);
+    expect(parseTimeSpec("1-00:00:30")).toBe(86430);
+    expect(parseTimeSpec("infinite")).toBeNull();
+    expect(parseTimeSpec("1h")).toBeNaN();
+  });
+
+  it("should format elapsed time like squeue", () => {
+    expect(formatElapsed(59)).toBe("0:59");
+    expect(formatElapsed(3725)).toBe("1:02:05");
+    expect(formatElapsed(90061)).toBe("1-01:01:01");
+  });
+});
+
+describe("array and dependency specifications", () => {
+  it("should expand ranges, steps and throttles", () => {
+    expect(parseArraySpec("0-3")).toEqual({ tasks: [0, 1, 2, 3] });
+    expect(parseArraySpec("1,5-9:2%2")).toEqual({
+      tasks: [1, 5, 7, 9],
+      throttle: 2,
+    });
+    expect(parseArraySpec("3-1")).toBeNull();
+    expect(parseArraySpec("0-5000")).toBeNull();
+  });
+
+  it("should parse dependency lists", () => {
+    expect(parseDependency("afterok:1000:1001,afterany:1002")).toEqual({
+      any: false,
+      terms: [
+        { type: "afterok", jobIds: [1000, 1001] },
+        { type: "afterany", jobIds: [1002] },
+      ],
+    });
+    expect(parseDependency("afterok:1000?afternotok:1000")?.any).toBe(true);
+    expect(parseDependency("before:1000")).toBeNull();
+  });
+});
+
+describe("SlurmController", () => {
+  let clock: number;
+  let controller: SlurmController;
+  let nodes: DGXNode[];
+  let ops: SlurmNodeMutator;
+
+  const request = (overrides: Partial<JobRequest> = {}): JobRequest => ({
+    name: "train",
+    user: "root",
+    partition: "gpu",
+    account: "root",
+    qos: "normal",
+    timeLimit: "1:00:00",
+    nodes: 1,
+    ntasks: 1,
+    cpusPerTask: 1,
+    gpusPerNode: 8,
+    memory: "16G",
+    workDir: "/root",
+    command: "train.sh",
+    runSeconds: 600,
+    exitCode: 0,
+    ...overrides,
+  });
+  const submit = (overrides: Partial<JobRequest> = {}) =>
+    controller.submit(request(overrides), nodes, ops);
+  const advance = (seconds: number) => {
+    clock += seconds * 1000;
+    controller.update(nodes, ops);
+  };
+
+  beforeEach(() => {
+    clock = Date.UTC(2024, 0, 15, 8);
+    controller = new SlurmController(() => clock);
+    nodes = createDefaultCluster().nodes.slice(0, 2);
+    ops = {
+      setSlurmState: vi.fn((nodeId, state) => {
+        nodes.find((n) => n.id === nodeId)!.slurmState = state;
+      }),
+      allocateGPUsForJob: vi.fn(),
+      deallocateGPUsForJob: vi.fn(),
+    };
+  });
+
+  describe("job lifecycle", () => {
+    it("should start a job that fits and complete it when its script ends", () => {
+      const job = submit();
+      expect(job.state).toBe("RUNNING");
+      expect(ops.allocateGPUsForJob).toHaveBeenCalledWith(
+        job.nodelist,
+        [0, 1, 2, 3, 4, 5, 6, 7],
+        job.jobId,
+        85,
+      );
+
+      advance(599);
+      expect(job.state).toBe("RUNNING");
+      expect(job.time).toBe("9:59");
+
+      advance(1);
+      expect(job.state).toBe("COMPLETED");
+      expect(ops.deallocateGPUsForJob).toHaveBeenCalledWith(job.jobId);
+      expect(ops.setSlurmState).toHaveBeenLastCalledWith(job.nodelist, "idle");
+    });
+
+    it("should record the exit code of a failing script", () => {
+      const job = submit({ exitCode: 3 });
+      advance(600);
+      expect(job.state).toBe("FAILED");
+      expect(job.exitCode).toBe(3);
+    });
+
+    it("should kill a job at its time limit", () => {
+      const job = submit({ timeLimit: "5", runSeconds: 3600 });
+      advance(3600);
+      expect(job.state).toBe("TIMEOUT");
+      expect(job.endTime!.getTime()).toBe(job.startTime!.getTime() + 300000);
+    });
+
+    it("should queue jobs that do not fit and start them as nodes free up", () => {
+      const first = submit({ nodes: 2 });
+      const second = submit();
+      expect(second.state).toBe("PENDING");
+      expect(second.reasonPending).toBe("Resources");
+
+      advance(600);
+      expect(first.state).toBe("COMPLETED");
+      expect(second.state).toBe("RUNNING");
+      expect(second.startTime!.getTime()).toBe(first.endTime!.getTime());
+    });
+
+    it("should pack small jobs onto the same node", () => {
+      const a = submit({ gpusPerNode: 4 });
+      const b = submit({ gpusPerNode: 4 });
+      expect(a.nodelist).toBe(b.nodelist);
+      expect(controller.nodeUsage(a.nodelist).gpus).toEqual([
+        0, 1, 2, 3, 4, 5, 6, 7,
+      ]);
+    });
+
+    it("should not schedule onto drained nodes", () => {
+      nodes[0].slurmState = "drain";
+      nodes[1].slurmState = "drain";
+
+      const job = submit();
+      expect(job.state).toBe("PENDING");
+      expect(job.reasonPending).toBe(
+        "ReqNodeNotAvail, UnavailableNodes:dgx-00,dgx-01",
+      );
+    });
+  });
+
+  describe("backfill", () => {
+    it("should only backfill jobs that end before the reservation", () => {
+      submit({ nodes: 1, timeLimit: "30", runSeconds: 1800 });
+      const wide = submit({ nodes: 2 });
+      expect(wide.reasonPending).toBe("Resources");
+
+      const long = submit({ timeLimit: "1:00:00" });
+      const short = submit({ timeLimit: "20", gpusPerNode: 4 });
+      expect(long.state).toBe("PENDING");
+      expect(long.reasonPending).toBe("Priority");
+      expect(short.state).toBe("RUNNING");
+    });
+  });
+
+  describe("dependencies", () => {
+    it("should start afterok jobs once the dependency completes", () => {
+      const first = submit();
+      const second = submit({ dependency: `afterok:${first.jobId}` });
+      expect(second.reasonPending).toBe("Dependency");
+
+      advance(600);
+      expect(second.state).toBe("RUNNING");
+    });
+
+    it("should never start afterok jobs of a failed dependency", () => {
+      const first = submit({ exitCode: 1 });
+      const second = submit({ dependency: `afterok:${first.jobId}` });
+
+      advance(600);
+      expect(second.state).toBe("PENDING");
+      expect(second.reasonPending).toBe("DependencyNeverSatisfied");
+    });
+  });
+
+  describe("arrays", () => {
+    it("should run tasks within the throttle", () => {
+      const array = submit({
+        gpusPerNode: 1,
+        array: { tasks: [0, 1, 2, 3], throttle: 2 },
+      });
+
+      const running = controller
+        .findJobs(array.jobId)
+        .filter((j) => j.state === "RUNNING");
+      expect(running.map(formatJobId)).toEqual([
+        `${array.jobId}_0`,
+        `${array.jobId}_1`,
+      ]);
+      expect(formatJobId(array)).toBe(`${array.jobId}_[2-3%2]`);
+      expect(array.reasonPending).toBe("JobArrayTaskLimit");
+
+      advance(600);
+      expect(array.arrayPending).toBeUndefined();
+      expect(array.state).toBe("RUNNING");
+      expect(array.arrayTaskId).toBe(3);
+    });
+
+    it("should cancel a single pending task", () => {
+      const array = submit({ nodes: 2, array: { tasks: [0, 1, 2] } });
+
+      const [task] = controller.cancel(array.jobId, 2, nodes, ops);
+      expect(task.state).toBe("CANCELLED");
+      expect(formatJobId(task)).toBe(`${array.jobId}_2`);
+      expect(array.arrayPending).toEqual([1]);
+    });
+  });
+
+  describe("priority and fairshare", () => {
+    it("should favor accounts that have used less of the cluster", () => {
+      submit({ nodes: 2, account: "research" });
+      advance(600);
+
+      const research = submit({ nodes: 2, account: "research" });
+      const training = submit({ nodes: 2, account: "training" });
+      expect(research.state).toBe("RUNNING");
+      expect(training.state).toBe("PENDING");
+      advance(60);
+
+      const heavy = controller.priorityFactors(
+        submit({ nodes: 2, account: "research" }),
+      );
+      const light = controller.priorityFactors(training);
+      expect(light.fairshare).toBeGreaterThan(heavy.fairshare);
+      expect(light.total).toBe(
+        light.age +
+          light.fairshare +
+          light.jobSize +
+          light.partition +
+          light.qos,
+      );
+    });
+
+    it("should report usage in the fairshare tree", () => {
+      submit({ account: "training" });
+      advance(100);
+
+      const shares = controller.shares();
+      const root = shares.find((s) => s.depth === 0)!;
+      const user = shares.find(
+        (s) => s.account === "training" && s.user === "root",
+      )!;
+      expect(root.rawUsage).toBe(100);
+      expect(user.effectiveUsage).toBe(1);
+      expect(user.fairShare).toBeLessThan(1);
+    });
+  });
+});
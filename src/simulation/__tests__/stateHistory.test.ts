@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyStateChange,
+  diffClusterStates,
+  rebuildState,
+} from "../stateHistory";
+import type { StateChange } from "@/store/scenarioContext";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+
+describe("stateHistory", () => {
+  const xid: StateChange = {
+    type: "xid-error",
+    timestamp: 0,
+    nodeId: "dgx-01",
+    gpuId: 3,
+    data: {
+      code: 74,
+      timestamp: new Date(0),
+      description: "NVLink error",
+      severity: "Critical",
+    },
+    command: "fault injection",
+  };
+  const linkDown: StateChange = {
+    type: "gpu-update",
+    timestamp: 1000,
+    nodeId: "dgx-01",
+    gpuId: 3,
+    data: { healthStatus: "Critical" },
+  };
+  const drain: StateChange = {
+    type: "slurm-state",
+    timestamp: 2000,
+    nodeId: "dgx-01",
+    data: { state: "drain", reason: "nvlink" },
+    command: "scontrol update NodeName=dgx-01 State=DRAIN Reason=nvlink",
+  };
+
+  describe("rebuildState", () => {
+    it("should replay a prefix of the log without touching the original", () => {
+      const initial = createDefaultCluster();
+      const state = rebuildState(initial, [xid, linkDown, drain], 2);
+
+      expect(state.nodes[1].gpus[3].xidErrors.map((e) => e.code)).toEqual([74]);
+      expect(state.nodes[1].gpus[3].healthStatus).toBe("Critical");
+      expect(state.nodes[1].slurmState).toBe("idle");
+      expect(initial.nodes[1].gpus[3].xidErrors).toHaveLength(0);
+    });
+
+    it("should ignore mutations for unknown nodes", () => {
+      const cluster = createDefaultCluster();
+      const before = structuredClone(cluster);
+      applyStateChange(cluster, { ...drain, nodeId: "dgx-99" });
+      expect(cluster).toEqual(before);
+    });
+  });
+
+  describe("diffClusterStates", () => {
+    it("should report changed fields per node and per GPU", () => {
+      const initial = createDefaultCluster();
+      const after = rebuildState(initial, [xid, linkDown, drain]);
+      after.nodes[1].gpus[3].nvlinks[0].status = "Down";
+
+      expect(diffClusterStates(initial, after)).toEqual([
+        {
+          nodeId: "dgx-01",
+          changes: [
+            { field: "Slurm state", before: "idle", after: "drain" },
+            { field: "Slurm reason", before: "-", after: "nvlink" },
+          ],
+          gpus: [
+            {
+              gpuId: 3,
+              changes: [
+                { field: "health", before: "OK", after: "Critical" },
+                { field: "XIDs", before: "none", after: "74" },
+                { field: "NVLink 0", before: "Active", after: "Down" },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("should report added and removed nodes", () => {
+      const before = createDefaultCluster();
+      const after = structuredClone(before);
+      const [removed] = after.nodes.splice(0, 1);
+      after.nodes.push({ ...removed, id: "dgx-08" });
+
+      expect(
+        diffClusterStates(before, after).map((d) => [d.nodeId, d.presence]),
+      ).toEqual([
+        ["dgx-08", "added"],
+        ["dgx-00", "removed"],
+      ]);
+    });
+
+    it("should report Fabric Manager and untrained NVLinks", () => {
+      const initial = createDefaultCluster();
+      const stop: StateChange = {
+        type: "nvswitch-fabric",
+        timestamp: 3000,
+        nodeId: "dgx-02",
+        data: { fabricManager: { state: "Stopped" } },
+      };
+
+      const [diff] = diffClusterStates(initial, rebuildState(initial, [stop]));
+      expect(diff.nodeId).toBe("dgx-02");
+      expect(diff.changes).toContainEqual({
+        field: "Fabric Manager",
+        before: "Running",
+        after: "Stopped",
+      });
+      expect(diff.gpus).toHaveLength(initial.nodes[2].gpus.length);
+    });
+
+    it("should report InfiniBand port changes on hosts and switches", () => {
+      const initial = createDefaultCluster();
+      const cableDown: StateChange[] = [
+        {
+          type: "ib-port",
+          timestamp: 3000,
+          nodeId: "dgx-01",
+          data: {
+            end: { kind: "hca", nodeId: "dgx-01", hcaIndex: 0, portNumber: 1 },
+            update: { state: "Down", errors: { linkDowned: 1 } },
+          },
+        },
+        {
+          type: "ib-port",
+          timestamp: 3000,
+          data: {
+            end: { kind: "switch", switchId: "leaf-0", portNumber: 2 },
+            update: { state: "Down" },
+          },
+        },
+      ];
+
+      expect(
+        diffClusterStates(initial, rebuildState(initial, cableDown)),
+      ).toEqual([
+        {
+          nodeId: "dgx-01",
+          changes: [
+            {
+              field: "mlx5_0 port 1",
+              before: "Active",
+              after: "Down, 1 errors",
+            },
+          ],
+          gpus: [],
+        },
+        {
+          nodeId: "leaf-0",
+          changes: [{ field: "port 2", before: "Active", after: "Down" }],
+          gpus: [],
+        },
+      ]);
+    });
+  });
+});
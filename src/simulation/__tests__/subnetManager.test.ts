@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeForwardingTables,
+  electMaster,
+  type SubnetGraph,
+  type SubnetLink,
+  type SubnetNode,
+} from "../subnetManager";
+
+function switchNode(
+  key: string,
+  lid: number,
+  guid: string,
+  tier?: SubnetNode["tier"],
+): SubnetNode {
+  return { key, isSwitch: true, lid, guid, tier };
+}
+
+function hostNode(key: string, lid: number): SubnetNode {
+  return { key, isSwitch: false, lid, guid: `0x1${lid}` };
+}
+
+function link(a: string, aPort: number, b: string, bPort: number): SubnetLink {
+  return { a, aPort, b, bPort };
+}
+
+/** Two spines over two leaves, two hosts per leaf */
+function fatTree(): SubnetGraph {
+  return {
+    nodes: [
+      switchNode("s0", 1, "0x01", "spine"),
+      switchNode("s1", 2, "0x02", "spine"),
+      switchNode("l0", 3, "0x03", "leaf"),
+      switchNode("l1", 4, "0x04", "leaf"),
+      hostNode("h0", 5),
+      hostNode("h1", 6),
+      hostNode("h2", 7),
+      hostNode("h3", 8),
+    ],
+    links: [
+      link("h0", 1, "l0", 1),
+      link("h1", 1, "l0", 2),
+      link("h2", 1, "l1", 1),
+      link("h3", 1, "l1", 2),
+      link("l0", 3, "s0", 1),
+      link("l0", 4, "s1", 1),
+      link("l1", 3, "s0", 2),
+      link("l1", 4, "s1", 2),
+    ],
+  };
+}
+
+describe("electMaster", () => {
+  it("should elect the highest priority", () => {
+    expect(
+      electMaster([
+        { id: "a", priority: 1, guid: "0x01" },
+        { id: "b", priority: 15, guid: "0x02" },
+      ]),
+    ).toBe("b");
+  });
+
+  it("should break ties on the lowest GUID", () => {
+    expect(
+      electMaster([
+        { id: "a", priority: 14, guid: "0x0000000000000010" },
+        { id: "b", priority: 14, guid: "0x2" },
+      ]),
+    ).toBe("b");
+  });
+
+  it("should elect nobody without candidates", () => {
+    expect(electMaster([])).toBeUndefined();
+  });
+});
+
+describe("computeForwardingTables", () => {
+  it("should route a switch's own LID to port 0", () => {
+    const tables = computeForwardingTables(fatTree(), "minhop");
+    expect(tables.l0[3]).toBe(0);
+    expect(tables.s1[2]).toBe(0);
+  });
+
+  it("should deliver local hosts straight from the leaf", () => {
+    const tables = computeForwardingTables(fatTree(), "minhop");
+    expect(tables.l0[5]).toBe(1);
+    expect(tables.l0[6]).toBe(2);
+  });
+
+  it("should spread remote hosts over the uplinks", () => {
+    for (const engine of ["minhop", "ftree"] as const) {
+      const tables = computeForwardingTables(fatTree(), engine);
+      expect([tables.l0[7], tables.l0[8]].sort()).toEqual([3, 4]);
+    }
+  });
+
+  it("should send every leaf to the same spine for a host with ftree", () => {
+    const tables = computeForwardingTables(fatTree(), "ftree");
+    // Whichever spine l0 picks for h2 forwards it down to l1
+    const spinePort = tables.l0[7];
+    const spine = spinePort === 3 ? "s0" : "s1";
+    expect(tables[spine][7]).toBe(2);
+  });
+
+  it("should fall back to minhop for ftree without spines", () => {
+    const graph: SubnetGraph = {
+      nodes: [
+        switchNode("a", 1, "0x01"),
+        switchNode("b", 2, "0x02"),
+        hostNode("h0", 3),
+        hostNode("h1", 4),
+      ],
+      links: [
+        link("h0", 1, "a", 1),
+        link("h1", 1, "b", 1),
+        link("a", 2, "b", 2),
+      ],
+    };
+    expect(computeForwardingTables(graph, "ftree")).toEqual(
+      computeForwardingTables(graph, "minhop"),
+    );
+  });
+
+  it("should never turn back up after going down with updn", () => {
+    // c reaches hA only through s2 → b → a. With a's GUID below b's, the
+    // last hop goes back up, which updn forbids and minhop allows.
+    const graph = (guidA: string, guidB: string): SubnetGraph => ({
+      nodes: [
+        switchNode("s1", 1, "0x01", "spine"),
+        switchNode("s2", 2, "0x02", "spine"),
+        switchNode("a", 3, guidA, "leaf"),
+        switchNode("b", 4, guidB, "leaf"),
+        switchNode("c", 5, "0x05", "leaf"),
+        hostNode("hA", 6),
+      ],
+      links: [
+        link("hA", 1, "a", 1),
+        link("a", 2, "s1", 1),
+        link("a", 3, "b", 3),
+        link("b", 2, "s2", 1),
+        link("c", 2, "s2", 2),
+      ],
+    });
+
+    expect(computeForwardingTables(graph("0x03", "0x04"), "minhop").c[6]).toBe(
+      2,
+    );
+    expect(
+      computeForwardingTables(graph("0x03", "0x04"), "updn").c[6],
+    ).toBeUndefined();
+    expect(computeForwardingTables(graph("0x04", "0x03"), "updn").c[6]).toBe(2);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  VirtualFileSystem,
+  formatMode,
+  resolvePath,
+} from "../virtualFileSystem";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import type { ClusterConfig } from "@/types/hardware";
+import type { ClusterEvent } from "../eventLog";
+
+describe("resolvePath", () => {
+  it("should resolve relative paths against the cwd", () => {
+    expect(resolvePath("scripts", "/root")).toBe("/root/scripts");
+    expect(resolvePath("../etc/./hosts", "/root")).toBe("/etc/hosts");
+    expect(resolvePath("/var/log/", "/root")).toBe("/var/log");
+    expect(resolvePath("..", "/")).toBe("/");
+  });
+});
+
+describe("formatMode", () => {
+  it("should render permission strings like ls", () => {
+    expect(formatMode("directory", 0o755)).toBe("drwxr-xr-x");
+    expect(formatMode("file", 0o640)).toBe("-rw-r-----");
+    expect(formatMode("symlink", 0o777)).toBe("lrwxrwxrwx");
+    expect(formatMode("directory", 0o1777)).toBe("drwxrwxrwt");
+    expect(formatMode("file", 0o4755)).toBe("-rwsr-xr-x");
+  });
+});
+
+describe("VirtualFileSystem", () => {
+  let cluster: ClusterConfig;
+  let events: ClusterEvent[];
+  let fs: VirtualFileSystem;
+  const node = "dgx-00";
+
+  beforeEach(() => {
+    cluster = createDefaultCluster();
+    events = [];
+    fs = new VirtualFileSystem({
+      getCluster: () => cluster,
+      getEvents: () => events,
+    });
+  });
+
+  describe("base image", () => {
+    it("should seed every node with the standard layout", () => {
+      expect(fs.stat(node, "/etc")?.type).toBe("directory");
+      expect(fs.readFile(node, "/etc/fstab").content).toContain("/scratch");
+      expect(fs.stat(node, "/tmp")?.mode).toBe(0o1777);
+    });
+
+    it("should follow symlinks for stat but not lstat", () => {
+      expect(fs.lstat(node, "/bin")?.type).toBe("symlink");
+      expect(fs.stat(node, "/bin")?.type).toBe("directory");
+      expect(fs.exists(node, "/bin/bash")).toBe(true);
+    });
+
+    it("should report errors like the kernel does", () => {
+      expect(fs.readFile(node, "/nope").error).toBe(
+        "No such file or directory",
+      );
+      expect(fs.readFile(node, "/etc").error).toBe("Is a directory");
+      expect(fs.list(node, "/etc/fstab").error).toBe("Not a directory");
+    });
+  });
+
+  describe("live files", () => {
+    it("should generate gres.conf from the node's GPUs", () => {
+      const gres = fs.readFile(node, "/etc/slurm/gres.conf").content ?? "";
+      const gpuLines = gres.split("\n").filter((l) => l.startsWith("Name="));
+      expect(gpuLines).toHaveLength(cluster.nodes[0].gpus.length);
+      expect(gpuLines[0]).toContain("File=/dev/nvidia0");
+    });
+
+    it("should reflect cluster changes without a reset", () => {
+      cluster.nodes[0].gpus = cluster.nodes[0].gpus.slice(0, 2);
+      const gres = fs.readFile(node, "/etc/slurm/gres.conf").content ?? "";
+      expect(gres).not.toContain("/dev/nvidia2");
+      expect(fs.exists(node, "/dev/nvidia2")).toBe(false);
+    });
+
+    it("should list a proc directory for each GPU", () => {
+      const { entries } = fs.list(node, "/proc/driver/nvidia/gpus");
+      expect(entries).toHaveLength(cluster.nodes[0].gpus.length);
+      const info = fs.readFile(node, `${entries![0].path}/information`).content;
+      expect(info).toContain(cluster.nodes[0].gpus[0].uuid);
+    });
+
+    it("should write XID errors and node events to syslog", () => {
+      cluster.nodes[0].gpus[0].xidErrors.push({
+        code: 79,
+        timestamp: new Date("2026-02-12T09:00:00Z"),
+        description: "GPU has fallen off the bus",
+        severity: "Critical",
+      });
+      events.push({
+        id: 1,
+        type: "slurm-state",
+        nodeId: node,
+        message: "Node dgx-00 drained",
+        severity: "warning",
+        timestamp: Date.parse("2026-02-12T09:05:00Z"),
+      });
+
+      const syslog = fs.readFile(node, "/var/log/syslog").content ?? "";
+      expect(syslog).toContain("NVRM: Xid (PCI:");
+      expect(syslog).toContain("79, pid=0, GPU has fallen off the bus");
+      expect(syslog).toContain("Node dgx-00 drained");
+    });
+
+    it("should keep user edits to a live file", () => {
+      expect(fs.writeFile(node, "/etc/hostname", "renamed")).toBeNull();
+      expect(fs.readFile(node, "/etc/hostname").content).toBe("renamed");
+      expect(fs.stat(node, "/etc/hostname")?.live).toBe(false);
+    });
+
+    it("should refuse writes under /proc", () => {
+      expect(fs.writeFile(node, "/proc/driver/nvidia/version", "x")).toBe(
+        "Permission denied",
+      );
+    });
+  });
+
+  describe("mutations", () => {
+    it("should create, append to and remove files", () => {
+      expect(fs.writeFile(node, "/tmp/a.txt", "one")).toBeNull();
+      expect(fs.writeFile(node, "/tmp/a.txt", "two", true)).toBeNull();
+      expect(fs.readFile(node, "/tmp/a.txt").content).toBe("one\ntwo");
+      expect(fs.remove(node, "/tmp/a.txt")).toBeNull();
+      expect(fs.exists(node, "/tmp/a.txt")).toBe(false);
+    });
+
+    it("should require parent directories unless asked to create them", () => {
+      expect(fs.mkdir(node, "/data/a/b")).toBe("No such file or directory");
+      expect(fs.mkdir(node, "/data/a/b", true)).toBeNull();
+      expect(fs.stat(node, "/data/a")?.type).toBe("directory");
+      expect(fs.mkdir(node, "/data/a")).toBe("File exists");
+    });
+
+    it("should only remove directories recursively", () => {
+      fs.mkdir(node, "/tmp/d");
+      fs.writeFile(node, "/tmp/d/f", "x");
+      expect(fs.remove(node, "/tmp/d")).toBe("Is a directory");
+      expect(fs.rmdir(node, "/tmp/d")).toBe("Directory not empty");
+      expect(fs.remove(node, "/tmp/d", true)).toBeNull();
+      expect(fs.exists(node, "/tmp/d/f")).toBe(false);
+    });
+
+    it("should keep removed live files removed", () => {
+      expect(fs.remove(node, "/etc/hosts")).toBeNull();
+      expect(fs.exists(node, "/etc/hosts")).toBe(false);
+      expect(
+        fs.list(node, "/etc").entries!.some((e) => e.name === "hosts"),
+      ).toBe(false);
+    });
+
+    it("should copy into an existing directory", () => {
+      expect(fs.copy(node, "/etc/nccl.conf", "/tmp")).toBeNull();
+      expect(fs.readFile(node, "/tmp/nccl.conf").content).toContain(
+        "NCCL_DEBUG",
+      );
+    });
+
+    it("should copy directory trees only when recursive", () => {
+      expect(fs.copy(node, "/root/scripts", "/tmp/s")).toBe("Is a directory");
+      expect(fs.copy(node, "/root/scripts", "/tmp/s", true)).toBeNull();
+      expect(fs.exists(node, "/tmp/s/setup.sh")).toBe(true);
+    });
+
+    it("should move trees and refuse to move into themselves", () => {
+      fs.mkdir(node, "/tmp/src");
+      fs.writeFile(node, "/tmp/src/f", "x");
+      expect(fs.move(node, "/tmp/src", "/tmp/src/inner")).toBe(
+        "Invalid argument",
+      );
+      expect(fs.move(node, "/tmp/src", "/tmp/dst")).toBeNull();
+      expect(fs.exists(node, "/tmp/src")).toBe(false);
+      expect(fs.readFile(node, "/tmp/dst/f").content).toBe("x");
+    });
+
+    it("should resolve relative symlinks from the link's directory", () => {
+      expect(fs.symlink(node, "nccl.conf", "/etc/nccl.link")).toBeNull();
+      expect(fs.readFile(node, "/etc/nccl.link").content).toContain(
+        "NCCL_DEBUG",
+      );
+      expect(fs.lstat(node, "/etc/nccl.link")?.target).toBe("nccl.conf");
+    });
+
+    it("should detect symlink loops", () => {
+      fs.symlink(node, "/tmp/b", "/tmp/a");
+      fs.symlink(node, "/tmp/a", "/tmp/b");
+      expect(fs.readFile(node, "/tmp/a").error).toBe(
+        "Too many levels of symbolic links",
+      );
+    });
+
+    it("should change mode and ownership", () => {
+      expect(fs.chmod(node, "/root/HPL.dat", 0o600)).toBeNull();
+      expect(fs.chown(node, "/root/HPL.dat", "admin", "admin")).toBeNull();
+      const stat = fs.stat(node, "/root/HPL.dat");
+      expect(stat?.mode).toBe(0o600);
+      expect(stat?.owner).toBe("admin");
+      expect(stat?.group).toBe("admin");
+    });
+  });
+
+  describe("isolation", () => {
+    it("should keep each node's changes separate", () => {
+      fs.writeFile(node, "/tmp/only-here", "x");
+      expect(fs.exists("dgx-01", "/tmp/only-here")).toBe(false);
+    });
+
+    it("should restore the base image on reset", () => {
+      fs.remove(node, "/etc/fstab");
+      fs.reset(node);
+      expect(fs.exists(node, "/etc/fstab")).toBe(true);
+    });
+  });
+});
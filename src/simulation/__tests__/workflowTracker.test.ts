@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { WorkflowTracker } from "../workflowTracker";
+import { evidenceForFaults } from "../diagnosticEvidence";
+import { createDefaultCluster } from "@/utils/clusterFactory";
 
 describe("WorkflowTracker", () => {
   it("should classify broad commands as survey phase", () => {
@@ -84,6 +86,21 @@ describe("WorkflowTracker", () => {
     expect(score.accuracy).toBe(0);
   });
 
+  it("should split accuracy across the root causes of a compound incident", () => {
+    const tracker = new WorkflowTracker();
+    tracker.recordCommand("nvidia-smi");
+    const score = (rootCauses: boolean[]) =>
+      tracker.calculateScore({
+        correctDiagnosis: rootCauses.every(Boolean),
+        collateralDamage: 0,
+        rootCauses,
+      }).accuracy;
+    expect(score([true, false])).toBe(10);
+    expect(score([true, true, false])).toBe(13);
+    expect(score([true, true])).toBe(20);
+    expect(score([false, false])).toBe(0);
+  });
+
   it("should penalize collateral damage", () => {
     const tracker = new WorkflowTracker();
     tracker.recordCommand("nvidia-smi");
@@ -108,4 +125,130 @@ describe("WorkflowTracker", () => {
     expect(score.total).toBeGreaterThanOrEqual(0);
     expect(score.total).toBeLessThanOrEqual(100);
   });
+
+  describe("with declared evidence", () => {
+    const cluster = createDefaultCluster();
+    const eccOnDgx01 = () =>
+      evidenceForFaults(
+        [{ faultType: "ecc-error", nodeId: "dgx-01", gpuId: 3, rootCause: 0 }],
+        cluster,
+      );
+    const ECC_OUTPUT = "        DRAM Uncorrectable                : 1\n";
+    const XID_OUTPUT =
+      "[ 1234.5] NVRM: Xid (PCI:0000:13:00.0): 48, pid=1, DBE (0x0)\n";
+
+    it("should record which evidence each command surfaced, and where", () => {
+      const tracker = new WorkflowTracker(eccOnDgx01());
+      const entry = tracker.recordCommand("nvidia-smi -q -d ECC", {
+        nodeId: "dgx-01",
+        output: ECC_OUTPUT,
+      });
+      expect(entry.nodeId).toBe("dgx-01");
+      expect(entry.evidence).toEqual([
+        "Uncorrectable DRAM ECC errors on GPU 3",
+      ]);
+
+      // Same output again reveals nothing new
+      tracker.recordCommand("nvidia-smi -q -d ECC -i 3", {
+        nodeId: "dgx-01",
+        output: ECC_OUTPUT,
+      });
+      tracker.recordCommand("sinfo", { nodeId: "dgx-00", output: "idle" });
+      tracker.recordCommand("ssh dgx-01 dmesg", {
+        nodeId: "dgx-00",
+        output: XID_OUTPUT,
+      });
+
+      const report = tracker.getEvidenceReport();
+      expect(report.found.map((f) => [f.command, f.nodeId])).toEqual([
+        ["nvidia-smi -q -d ECC", "dgx-01"],
+        ["ssh dgx-01 dmesg", "dgx-00"],
+      ]);
+      expect(report.missed.map((e) => e.label)).toEqual([
+        "Pages retired for double-bit ECC errors on GPU 3",
+      ]);
+      expect(report.irrelevant.map((e) => e.command)).toEqual([
+        "nvidia-smi -q -d ECC -i 3",
+        "sinfo",
+      ]);
+    });
+
+    it("should not count the field when it comes from the wrong node", () => {
+      const tracker = new WorkflowTracker(eccOnDgx01());
+      tracker.recordCommand("dmesg", { nodeId: "dgx-02", output: XID_OUTPUT });
+      expect(tracker.getEvidenceReport().found).toEqual([]);
+    });
+
+    it("should score efficiency on the investigative commands that found evidence", () => {
+      const tracker = new WorkflowTracker(eccOnDgx01());
+      const score = () =>
+        tracker.calculateScore({ correctDiagnosis: true, collateralDamage: 0 })
+          .efficiency;
+      expect(score()).toBe(0);
+
+      tracker.recordCommand("dmesg", { nodeId: "dgx-01", output: XID_OUTPUT });
+      expect(score()).toBe(20);
+      tracker.recordCommand("sinfo", { nodeId: "dgx-01", output: "idle" });
+      tracker.recordCommand("ipmitool sel list", {
+        nodeId: "dgx-01",
+        output: "",
+      });
+      tracker.recordCommand("lsmod", { nodeId: "dgx-01", output: "nvidia" });
+      expect(score()).toBe(5);
+
+      // Remediation acts on the findings and is not held against them
+      tracker.recordCommand("nvidia-smi -r -i 3", {
+        nodeId: "dgx-01",
+        output: "",
+      });
+      expect(score()).toBe(5);
+    });
+
+    it("should give no accuracy for a right answer without evidence", () => {
+      const tracker = new WorkflowTracker(eccOnDgx01());
+      tracker.recordCommand("sinfo", { nodeId: "dgx-00", output: "idle" });
+      const accuracy = () =>
+        tracker.calculateScore({ correctDiagnosis: true, collateralDamage: 0 })
+          .accuracy;
+      expect(accuracy()).toBe(0);
+
+      tracker.recordCommand("nvidia-smi -q -d ECC -i 3", {
+        nodeId: "dgx-01",
+        output: ECC_OUTPUT,
+      });
+      expect(accuracy()).toBe(20);
+    });
+
+    it("should credit each root cause of a compound incident on its own evidence", () => {
+      const tracker = new WorkflowTracker(
+        evidenceForFaults(
+          [
+            {
+              faultType: "ib-cable-flap",
+              nodeId: "dgx-01",
+              gpuId: 0,
+              rootCause: 0,
+            },
+            {
+              faultType: "nccl-timeout",
+              nodeId: "dgx-04",
+              gpuId: 0,
+              rootCause: 1,
+            },
+          ],
+          cluster,
+        ),
+      );
+      tracker.recordCommand("sinfo -R", {
+        nodeId: "dgx-00",
+        output: "NCCL timeout  root  2026-01-01T00:00:00 dgx-04\n",
+      });
+      const accuracy = tracker.calculateScore({
+        correctDiagnosis: true,
+        collateralDamage: 0,
+        rootCauses: [true, true],
+      }).accuracy;
+      expect(accuracy).toBe(10);
+    });
+  });
 });
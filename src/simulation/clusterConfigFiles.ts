@@ -0,0 +1,282 @@
+/**
+ * Cluster Configuration Files
+ *
+ * The configuration files a real deployment of the cluster would carry,
+ * rendered from the cluster model. The virtual filesystem serves the node
+ * files (`/etc/hosts`, `/etc/slurm/*`) from these renderers, and
+ * exportClusterConfigFiles bundles the same content, plus the files that
+ * only live on the head nodes, for hand-over to real hardware.
+ */
+
+import type { ClusterConfig, DGXNode } from "@/types/hardware";
+import {
+  derivePartitions,
+  formatHostlist,
+  getGresGpuType,
+  nodeGres,
+} from "@/simulation/slurmPartitions";
+import { getFabric } from "@/utils/infinibandFabric";
+
+/** Port dcgm-exporter serves its metrics on */
+export const DCGM_EXPORTER_PORT = 9400;
+
+export interface ConfigFile {
+  /** Path on the target system, relative to / */
+  path: string;
+  content: string;
+}
+
+export function shortHostname(
+  node: DGXNode | undefined,
+  nodeId: string,
+): string {
+  return node?.hostname.split(".")[0] || nodeId;
+}
+
+/** Head nodes serving the cluster: the BCM pair, or the primary alone */
+function headNodes(cluster: ClusterConfig): string[] {
+  const ha = cluster.bcmHA;
+  return [ha?.primary, ha?.enabled ? ha.secondary : undefined].filter(
+    (head): head is string => Boolean(head),
+  );
+}
+
+/**
+ * /etc/hosts. On a node (nodeId given) the file also maps the node's own
+ * name to 127.0.1.1, as Ubuntu installs it.
+ */
+export function renderHosts(cluster: ClusterConfig, nodeId?: string): string {
+  const node = cluster.nodes.find((n) => n.id === nodeId);
+  const lines = [
+    "127.0.0.1   localhost",
+    ...(nodeId
+      ? [
+          `127.0.1.1   ${node?.hostname ?? nodeId} ${shortHostname(node, nodeId)}`,
+        ]
+      : []),
+    ...cluster.nodes.map(
+      (n, i) => `10.0.0.${i + 1}    ${n.hostname} ${shortHostname(n, n.id)}`,
+    ),
+    ...headNodes(cluster).map((head, i) => `10.0.0.${254 - i}  ${head}`),
+    "",
+    "# The following lines are desirable for IPv6 capable hosts",
+    "::1     ip6-localhost ip6-loopback",
+    "fe00::0 ip6-localnet",
+    "ff00::0 ip6-mcastprefix",
+    "ff02::1 ip6-allnodes",
+    "ff02::2 ip6-allrouters",
+  ];
+  return lines.join("\n");
+}
+
+function gresLines(node: DGXNode | undefined): string[] {
+  return (node?.gpus ?? []).map(
+    (gpu) =>
+      `Name=gpu Type=${getGresGpuType(node!.systemType)} File=/dev/nvidia${gpu.id}`,
+  );
+}
+
+/** A node's own /etc/slurm/gres.conf */
+export function renderGresConf(node: DGXNode | undefined): string {
+  const lines = [
+    "# GRES (Generic Resource) Configuration",
+    "# AutoDetect=nvml",
+    ...gresLines(node),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * One gres.conf for the whole cluster: each node's lines, prefixed with the
+ * nodes that share them
+ */
+export function renderClusterGresConf(cluster: ClusterConfig): string {
+  const groups = new Map<string, string[]>();
+  for (const node of cluster.nodes) {
+    const key = gresLines(node).join("\n");
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), node.id]);
+  }
+
+  const lines = [
+    "# GRES (Generic Resource) Configuration",
+    "# AutoDetect=nvml",
+  ];
+  for (const [key, ids] of groups) {
+    const nodes = formatHostlist(ids);
+    lines.push(...key.split("\n").map((line) => `NodeName=${nodes} ${line}`));
+  }
+  return lines.join("\n");
+}
+
+/** /etc/slurm/slurm.conf */
+export function renderSlurmConf(cluster: ClusterConfig): string {
+  const clusterName = cluster.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  // Per-model partitions of a mixed cluster only hold the nodes of that model
+  const modelPartitions = derivePartitions(cluster.nodes).filter(
+    (p) => !p.isDefault,
+  );
+  const partitionNames = [
+    ...cluster.slurmConfig.partitions,
+    ...modelPartitions
+      .map((p) => p.name)
+      .filter((name) => !cluster.slurmConfig.partitions.includes(name)),
+  ];
+  const lines = [
+    "# Slurm configuration file",
+    `ClusterName=${clusterName}`,
+    `SlurmctldHost=${cluster.slurmConfig.controlMachine}`,
+    "MpiDefault=pmix",
+    "ProctrackType=proctrack/cgroup",
+    "ReturnToService=2",
+    "SlurmctldPidFile=/run/slurmctld.pid",
+    "SlurmdPidFile=/run/slurmd.pid",
+    "SlurmdSpoolDir=/var/spool/slurmd",
+    "StateSaveLocation=/var/spool/slurmctld",
+    "SwitchType=switch/none",
+    "TaskPlugin=task/affinity,task/cgroup",
+    "TopologyPlugin=topology/tree",
+    "GresTypes=gpu",
+    ...cluster.nodes.map((node) => {
+      const gres = node.gpus.length > 0 ? ` Gres=${nodeGres(node)}` : "";
+      return `NodeName=${node.id}${gres} CPUs=${node.cpuCount} RealMemory=${node.ramTotal * 1024} State=UNKNOWN`;
+    }),
+    ...partitionNames.map((partition, i) => {
+      const model = modelPartitions.find((p) => p.name === partition);
+      const nodes = model ? formatHostlist(model.nodes) : "ALL";
+      return `PartitionName=${partition} Nodes=${nodes} Default=${i === 0 ? "YES" : "NO"} MaxTime=INFINITE State=UP`;
+    }),
+  ];
+  return lines.join("\n");
+}
+
+/** Switch name as Slurm sees it: the part of the description after the model */
+function switchName(description: string): string {
+  return description.split("/").pop()!;
+}
+
+/**
+ * /etc/slurm/topology.conf for topology/tree: each leaf switch with the
+ * nodes cabled to it, each spine with the leaves below it
+ */
+export function renderTopologyConf(cluster: ClusterConfig): string {
+  const fabric = getFabric(cluster);
+  const names = new Map(
+    fabric.switches.map((sw) => [sw.id, switchName(sw.description)]),
+  );
+  const peers = (switchId: string, kind: "hca" | "switch") => {
+    const found: string[] = [];
+    for (const cable of fabric.cables) {
+      const [a, b] = cable.ends;
+      const self = [a, b].find(
+        (e) => e.kind === "switch" && e.switchId === switchId,
+      );
+      const other = self === a ? b : a;
+      if (!self || other.kind !== kind) continue;
+      const name =
+        other.kind === "hca" ? other.nodeId : names.get(other.switchId)!;
+      if (!found.includes(name)) found.push(name);
+    }
+    return found;
+  };
+
+  const lines = ["# Slurm switch topology, from the InfiniBand fabric"];
+  for (const sw of fabric.switches.filter((s) => s.tier === "leaf")) {
+    const nodes = peers(sw.id, "hca");
+    if (nodes.length === 0) continue;
+    lines.push(`SwitchName=${names.get(sw.id)} Nodes=${formatHostlist(nodes)}`);
+  }
+  for (const sw of fabric.switches.filter((s) => s.tier === "spine")) {
+    lines.push(
+      `SwitchName=${names.get(sw.id)} Switches=${formatHostlist(peers(sw.id, "switch"))}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+/** /etc/slurm/cgroup.conf confining jobs to their cores, memory and GPUs */
+export function renderCgroupConf(): string {
+  return [
+    "# Slurm cgroup support configuration",
+    "CgroupPlugin=autodetect",
+    "ConstrainCores=yes",
+    "ConstrainDevices=yes",
+    "ConstrainRAMSpace=yes",
+    "ConstrainSwapSpace=yes",
+  ].join("\n");
+}
+
+/**
+ * ClusterShell groups (/etc/clustershell/groups.d/local.cfg): every node, a
+ * group per Slurm partition and the head nodes. pdsh takes the same groups
+ * through `pdsh -w "$(nodeset -e @gpu)"`.
+ */
+export function renderNodeGroups(cluster: ClusterConfig): string {
+  const all = cluster.nodes.map((n) => n.id);
+  const modelPartitions = derivePartitions(cluster.nodes);
+  const lines = [
+    "# ClusterShell node groups, also usable with pdsh:",
+    '#   pdsh -w "$(nodeset -e @gpu)" nvidia-smi -L',
+    `all: ${formatHostlist(all)}`,
+  ];
+  const partitions = [
+    ...cluster.slurmConfig.partitions,
+    ...modelPartitions
+      .map((p) => p.name)
+      .filter((name) => !cluster.slurmConfig.partitions.includes(name)),
+  ];
+  for (const partition of partitions) {
+    const model = modelPartitions.find(
+      (p) => p.name === partition && p.gpuType,
+    );
+    lines.push(`${partition}: ${formatHostlist(model ? model.nodes : all)}`);
+  }
+  const heads = headNodes(cluster);
+  if (heads.length > 0) lines.push(`head: ${heads.join(",")}`);
+  return lines.join("\n");
+}
+
+/**
+ * Prometheus file_sd targets for dcgm-exporter on every node, one target
+ * group per GPU model so dashboards can split by generation
+ */
+export function renderDcgmTargets(cluster: ClusterConfig): string {
+  const groups = new Map<string, string[]>();
+  for (const node of cluster.nodes) {
+    if (node.gpus.length === 0) continue;
+    const gpuType = getGresGpuType(node.systemType);
+    groups.set(gpuType, [
+      ...(groups.get(gpuType) ?? []),
+      `${shortHostname(node, node.id)}:${DCGM_EXPORTER_PORT}`,
+    ]);
+  }
+  const clusterName = cluster.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const targets = [...groups].map(([gpuType, hosts]) => ({
+    targets: hosts,
+    labels: { job: "dcgm", cluster: clusterName, gpu_type: gpuType },
+  }));
+  return JSON.stringify(targets, null, 2);
+}
+
+/**
+ * Every configuration file of the cluster, as a head node would hold them.
+ * The Slurm files and /etc/hosts are the ones the nodes show in the
+ * terminal; gres.conf is the cluster-wide form of the per-node files.
+ */
+export function exportClusterConfigFiles(cluster: ClusterConfig): ConfigFile[] {
+  return [
+    { path: "etc/slurm/slurm.conf", content: renderSlurmConf(cluster) },
+    { path: "etc/slurm/gres.conf", content: renderClusterGresConf(cluster) },
+    { path: "etc/slurm/topology.conf", content: renderTopologyConf(cluster) },
+    { path: "etc/slurm/cgroup.conf", content: renderCgroupConf() },
+    { path: "etc/hosts", content: renderHosts(cluster) },
+    {
+      path: "etc/clustershell/groups.d/local.cfg",
+      content: renderNodeGroups(cluster),
+    },
+    {
+      path: "etc/prometheus/targets/dcgm.json",
+      content: renderDcgmTargets(cluster),
+    },
+  ].map((file) => ({ ...file, content: `${file.content}\n` }));
+}
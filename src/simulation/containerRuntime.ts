@@ -0,0 +1,411 @@
+/**
+ * Container Runtime
+ *
+ * Image and container state for each node, shared by every container tool.
+ * On a real host Docker, Podman and Enroot keep separate stores; here they
+ * share one per node so the tools agree with each other: an image pulled by
+ * `docker pull` is already cached for `srun --container-image`, and the
+ * enroot container behind a named Pyxis container shows up in `docker ps -a`
+ * as well as `enroot list`.
+ *
+ * Apptainer runs images straight from SIF files on the node filesystem, so
+ * it only uses the image cache here, not the container list.
+ */
+
+import { simulationClock } from "@/simulation/simulationClock";
+
+export type ContainerEngine = "docker" | "podman" | "enroot";
+
+export type ContainerState = "created" | "running" | "exited";
+
+export interface ContainerImage {
+  repository: string;
+  tag: string;
+  id: string;
+  size: string;
+}
+
+export interface BindMount {
+  source: string;
+  target: string;
+  readOnly: boolean;
+}
+
+export interface ContainerRecord {
+  id: string;
+  name: string;
+  /** Image reference as `repository:tag` */
+  image: string;
+  command: string;
+  engine: ContainerEngine;
+  state: ContainerState;
+  exitCode: number;
+  /** Epoch milliseconds */
+  created: number;
+  gpus: number[];
+  mounts: BindMount[];
+  jobId?: number;
+}
+
+export interface ContainerSpec {
+  name?: string;
+  image: string;
+  command: string;
+  engine: ContainerEngine;
+  state: ContainerState;
+  exitCode?: number;
+  gpus?: number[];
+  mounts?: BindMount[];
+  jobId?: number;
+}
+
+interface NodeRuntime {
+  images: ContainerImage[];
+  containers: ContainerRecord[];
+  toolkitInstalled: boolean;
+  /** Counter feeding deterministic container IDs */
+  sequence: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Images every node ships with */
+export const DEFAULT_IMAGES: readonly ContainerImage[] = [
+  {
+    repository: "nvidia/cuda",
+    tag: "12.4.0-base",
+    id: "abc123def456",
+    size: "1.2GB",
+  },
+  {
+    repository: "nvcr.io/nvidia/pytorch",
+    tag: "24.01-py3",
+    id: "def789ghi012",
+    size: "8.5GB",
+  },
+  {
+    repository: "nvcr.io/nvidia/tensorflow",
+    tag: "24.01-tf2-py3",
+    id: "ghi345jkl678",
+    size: "7.8GB",
+  },
+];
+
+/** Enroot containers left behind by earlier jobs */
+const DEFAULT_ENROOT_CONTAINERS: readonly { name: string; image: string }[] = [
+  {
+    name: "pytorch-24.01-py3-abc123",
+    image: "nvcr.io/nvidia/pytorch:24.01-py3",
+  },
+  {
+    name: "tensorflow-24.01-def456",
+    image: "nvcr.io/nvidia/tensorflow:24.01-tf2-py3",
+  },
+];
+
+/** Short hex digest, stable for the same input */
+function digest(input: string): string {
+  let a = 0x811c9dc5;
+  let b = 0x01000193;
+  for (let i = 0; i < input.length; i++) {
+    a = Math.imul(a ^ input.charCodeAt(i), 0x01000193);
+    b = Math.imul(b ^ input.charCodeAt(i), 0x811c9dc5);
+  }
+  return (
+    (a >>> 0).toString(16).padStart(8, "0") +
+    (b >>> 0).toString(16).padStart(8, "0")
+  ).slice(0, 12);
+}
+
+/**
+ * Split an image reference into repository and tag. Accepts the transport
+ * prefixes the tools use (`docker://`, enroot's `nvcr.io#nvidia/...`).
+ */
+export function parseImageReference(ref: string): {
+  repository: string;
+  tag: string;
+} {
+  const bare = ref.replace(/^docker:\/\//, "").replace("#", "/");
+  const slash = bare.lastIndexOf("/");
+  const colon = bare.lastIndexOf(":");
+  if (colon > slash) {
+    return { repository: bare.slice(0, colon), tag: bare.slice(colon + 1) };
+  }
+  return { repository: bare, tag: "latest" };
+}
+
+/** `repository:tag` form of a reference */
+export function imageName(ref: string): string {
+  const { repository, tag } = parseImageReference(ref);
+  return `${repository}:${tag}`;
+}
+
+/** Fully-qualified repository name, as Podman displays it */
+export function qualifiedRepository(repository: string): string {
+  const first = repository.split("/")[0];
+  const hasRegistry =
+    repository.includes("/") &&
+    (first.includes(".") || first.includes(":") || first === "localhost");
+  if (hasRegistry) return repository;
+  return repository.includes("/")
+    ? `docker.io/${repository}`
+    : `docker.io/library/${repository}`;
+}
+
+/**
+ * NVIDIA's images set NVIDIA_VISIBLE_DEVICES, which is what makes the
+ * container hooks inject the driver and GPUs.
+ */
+export function isGpuImage(ref: string): boolean {
+  const { repository } = parseImageReference(ref);
+  const qualified = qualifiedRepository(repository);
+  return (
+    qualified.startsWith("nvcr.io/nvidia/") ||
+    qualified.startsWith("docker.io/nvidia/")
+  );
+}
+
+/** File name `enroot import` writes, e.g. `nvidia+cuda+12.4.0-base.sqsh` */
+export function squashfsFileName(ref: string): string {
+  return `${ref.replace(/^docker:\/\//, "").replace(/[/:#]/g, "+")}.sqsh`;
+}
+
+/** File name `apptainer pull` writes, e.g. `pytorch_24.01-py3.sif` */
+export function sifFileName(ref: string): string {
+  const { repository, tag } = parseImageReference(
+    ref.replace(/^[a-z]+:\/\//, ""),
+  );
+  const base = repository.split("/").pop() ?? repository;
+  return `${base}_${tag}.sif`;
+}
+
+export class ContainerRuntime {
+  private nodes = new Map<string, NodeRuntime>();
+
+  /** Restore the default images and containers, on one node or on all */
+  reset(nodeId?: string): void {
+    if (nodeId) {
+      this.nodes.delete(nodeId);
+    } else {
+      this.nodes.clear();
+    }
+  }
+
+  isToolkitInstalled(nodeId: string): boolean {
+    return this.node(nodeId).toolkitInstalled;
+  }
+
+  /** Install or remove nvidia-container-toolkit on a node */
+  setToolkitInstalled(nodeId: string, installed: boolean): void {
+    this.node(nodeId).toolkitInstalled = installed;
+  }
+
+  // --------------------------------------------------------------------------
+  // Images
+  // --------------------------------------------------------------------------
+
+  listImages(nodeId: string): ContainerImage[] {
+    return [...this.node(nodeId).images];
+  }
+
+  /** Find a cached image by reference or by (a prefix of) its ID */
+  findImage(nodeId: string, ref: string): ContainerImage | undefined {
+    const { repository, tag } = parseImageReference(ref);
+    const qualified = qualifiedRepository(repository);
+    return this.node(nodeId).images.find(
+      (image) =>
+        (qualifiedRepository(image.repository) === qualified &&
+          image.tag === tag) ||
+        (ref.length >= 4 && image.id.startsWith(ref)),
+    );
+  }
+
+  /**
+   * Add an image to the node's cache. `cached` tells the caller whether it
+   * was already present, so tools can skip the download output.
+   */
+  pullImage(
+    nodeId: string,
+    ref: string,
+  ): { image: ContainerImage; cached: boolean } {
+    const existing = this.findImage(nodeId, ref);
+    if (existing) return { image: existing, cached: true };
+
+    const { repository, tag } = parseImageReference(ref);
+    const image: ContainerImage = {
+      repository,
+      tag,
+      id: digest(`${repository}:${tag}`),
+      size: "2.5GB",
+    };
+    this.node(nodeId).images.push(image);
+    return { image, cached: false };
+  }
+
+  /**
+   * Remove an image. Fails while a container still uses it, unless forced.
+   * Returns an error message, or null on success.
+   */
+  removeImage(nodeId: string, ref: string, force = false): string | null {
+    const state = this.node(nodeId);
+    const image = this.findImage(nodeId, ref);
+    if (!image) return `No such image: ${ref}`;
+
+    const user = state.containers.find(
+      (c) => this.findImage(nodeId, c.image) === image,
+    );
+    if (user && !force) {
+      return `conflict: unable to remove repository reference "${ref}" (must force) - container ${user.id} is using its referenced image ${image.id}`;
+    }
+    state.images = state.images.filter((i) => i !== image);
+    return null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Containers
+  // --------------------------------------------------------------------------
+
+  /** Containers on the node; only running ones unless `all` is set */
+  listContainers(nodeId: string, all = false): ContainerRecord[] {
+    return this.node(nodeId).containers.filter(
+      (c) => all || c.state === "running",
+    );
+  }
+
+  /** Find a container by name or by (a prefix of) its ID */
+  findContainer(nodeId: string, nameOrId: string): ContainerRecord | undefined {
+    return this.node(nodeId).containers.find(
+      (c) =>
+        c.name === nameOrId ||
+        (nameOrId.length >= 4 && c.id.startsWith(nameOrId)),
+    );
+  }
+
+  /**
+   * Record a new container. Returns an error message if the name is taken.
+   * Unnamed containers get a generated `<adjective>_<scientist>` name.
+   */
+  createContainer(
+    nodeId: string,
+    spec: ContainerSpec,
+  ): ContainerRecord | string {
+    const state = this.node(nodeId);
+    if (spec.name && state.containers.some((c) => c.name === spec.name)) {
+      return `the container name "${spec.name}" is already in use`;
+    }
+
+    state.sequence++;
+    const id = digest(`${nodeId}/${state.sequence}/${spec.image}`);
+    let name = spec.name ?? generatedName(id);
+    if (state.containers.some((c) => c.name === name)) {
+      name = `${name}_${id.slice(0, 4)}`;
+    }
+    const record: ContainerRecord = {
+      id,
+      name,
+      image: imageName(spec.image),
+      command: spec.command,
+      engine: spec.engine,
+      state: spec.state,
+      exitCode: spec.exitCode ?? 0,
+      created: simulationClock.now(),
+      gpus: spec.gpus ?? [],
+      mounts: spec.mounts ?? [],
+      jobId: spec.jobId,
+    };
+    state.containers.push(record);
+    return record;
+  }
+
+  /** Stop a running container; returns it, or undefined if not found */
+  stopContainer(nodeId: string, nameOrId: string): ContainerRecord | undefined {
+    const container = this.findContainer(nodeId, nameOrId);
+    if (container && container.state === "running") {
+      container.state = "exited";
+      container.exitCode = 137;
+    }
+    return container;
+  }
+
+  /**
+   * Remove a container. Running containers need `force`.
+   * Returns an error message, or null on success.
+   */
+  removeContainer(
+    nodeId: string,
+    nameOrId: string,
+    force = false,
+  ): string | null {
+    const state = this.node(nodeId);
+    const container = this.findContainer(nodeId, nameOrId);
+    if (!container) return `No such container: ${nameOrId}`;
+    if (container.state === "running" && !force) {
+      return `cannot remove container "${container.name}": container is running: stop the container before removing or force remove`;
+    }
+    state.containers = state.containers.filter((c) => c !== container);
+    return null;
+  }
+
+  /** Remove every stopped container of an engine and return them */
+  pruneContainers(nodeId: string, engine: ContainerEngine): ContainerRecord[] {
+    const state = this.node(nodeId);
+    const removed = state.containers.filter(
+      (c) => c.engine === engine && c.state !== "running",
+    );
+    state.containers = state.containers.filter((c) => !removed.includes(c));
+    return removed;
+  }
+
+  private node(nodeId: string): NodeRuntime {
+    let state = this.nodes.get(nodeId);
+    if (!state) {
+      const seeded = simulationClock.now() - 14 * DAY_MS;
+      state = {
+        images: DEFAULT_IMAGES.map((image) => ({ ...image })),
+        containers: DEFAULT_ENROOT_CONTAINERS.map(({ name, image }) => ({
+          id: digest(`${nodeId}/${name}`),
+          name,
+          image,
+          command: "",
+          engine: "enroot" as const,
+          state: "created" as const,
+          exitCode: 0,
+          created: seeded,
+          gpus: [],
+          mounts: [],
+        })),
+        toolkitInstalled: true,
+        sequence: 0,
+      };
+      this.nodes.set(nodeId, state);
+    }
+    return state;
+  }
+}
+
+const NAME_ADJECTIVES = [
+  "eager",
+  "focused",
+  "quirky",
+  "serene",
+  "vibrant",
+  "brave",
+  "nifty",
+  "stoic",
+];
+const NAME_SCIENTISTS = [
+  "turing",
+  "hopper",
+  "lovelace",
+  "curie",
+  "noether",
+  "shannon",
+  "feynman",
+  "knuth",
+];
+
+/** Docker-style random name, derived from the container ID */
+function generatedName(id: string): string {
+  const n = parseInt(id.slice(0, 4), 16);
+  return `${NAME_ADJECTIVES[n % NAME_ADJECTIVES.length]}_${NAME_SCIENTISTS[(n >> 4) % NAME_SCIENTISTS.length]}`;
+}
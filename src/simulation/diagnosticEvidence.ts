@@ -0,0 +1,175 @@
+/**
+ * Diagnostic Evidence
+ *
+ * Resolves the FAULT_EVIDENCE declarations of an incident's faults against
+ * the cluster they were injected into, and decides which of them a command
+ * revealed from what it really printed and where it ran. A command only
+ * counts when it is a tool that shows the fault, it ran on the faulted node
+ * (or, for cluster-wide tools, its output names that node), it did not pick
+ * some other GPU with -i, and its output carries the telltale field.
+ */
+
+import { FAULT_EVIDENCE, type EvidenceScope } from "@/data/faultEvidence";
+import type { IncidentFault } from "@/simulation/incidentComposer";
+import type { ClusterConfig } from "@/types/hardware";
+import { splitShellWords, stripAnsi } from "@/utils/shellInterpreter";
+
+/** One observation that reveals one fault of the incident */
+export interface Evidence {
+  id: string;
+  /** What the observation shows, with the hardware filled in */
+  label: string;
+  faultType: string;
+  nodeId: string;
+  gpuId: number;
+  /** Index of the root cause the fault belongs to, if any */
+  rootCause?: number;
+  tools: string[];
+  field: RegExp;
+  scope: EvidenceScope;
+}
+
+/** A command the learner ran, where, and what it printed */
+export interface CommandObservation {
+  /** Node the command ran on */
+  nodeId: string;
+  output: string;
+  /** Exit status, 0 when the command succeeded */
+  exitCode?: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function fill(text: string, values: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match,
+  );
+}
+
+/** The kernel log's form of a PCI address: 00000000:13:00.0 -> 0000:13:00.0 */
+function kernelBusId(pciAddress: string | undefined): string {
+  if (!pciAddress) return "";
+  const [domain, ...rest] = pciAddress.split(":");
+  return [domain.slice(-4), ...rest].join(":");
+}
+
+/**
+ * Evidence the faults of an incident leave behind. Faults without
+ * declarations, such as red herrings, leave none.
+ */
+export function evidenceForFaults(
+  faults: IncidentFault[],
+  cluster: ClusterConfig,
+): Evidence[] {
+  return faults.flatMap((fault) => {
+    const gpu = cluster.nodes
+      .find((n) => n.id === fault.nodeId)
+      ?.gpus.find((g) => g.id === fault.gpuId);
+    const values = {
+      node: fault.nodeId,
+      gpu: String(fault.gpuId),
+      bus: kernelBusId(gpu?.pciAddress),
+    };
+    const escaped = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, escapeRegExp(value)]),
+    );
+    return (FAULT_EVIDENCE[fault.faultType] ?? []).map((spec, index) => ({
+      id: `${fault.nodeId}:${fault.gpuId}:${fault.faultType}:${index}`,
+      label: fill(spec.label, values),
+      faultType: fault.faultType,
+      nodeId: fault.nodeId,
+      gpuId: fault.gpuId,
+      rootCause: fault.rootCause,
+      tools: spec.tools,
+      field: new RegExp(fill(spec.field, escaped), "m"),
+      scope: spec.scope,
+    }));
+  });
+}
+
+/** The command line up to its first pipe or list operator */
+function firstCommand(command: string): string {
+  let quote = "";
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "|" || ch === ";" || ch === "&") {
+      return command.slice(0, i);
+    }
+  }
+  return command;
+}
+
+const SSH_OPTIONS_WITH_VALUE = /^-[bcDEeFIiJLlmOopQRSWw]$/;
+
+export interface Invocation {
+  tool: string;
+  args: string[];
+  nodeId: string;
+}
+
+/**
+ * The tool a command line ran and the node it ran on, looking through sudo
+ * and `ssh host cmd`
+ */
+export function resolveInvocation(command: string, nodeId: string): Invocation {
+  const words = splitShellWords(firstCommand(command));
+  while (words[0] === "sudo") words.shift();
+  if (words[0] === "ssh") {
+    let hostIndex = 1;
+    while (words[hostIndex]?.startsWith("-")) {
+      // Options such as -p 22 or -o Key=value take the next word
+      hostIndex += SSH_OPTIONS_WITH_VALUE.test(words[hostIndex]) ? 2 : 1;
+    }
+    if (hostIndex < words.length - 1) {
+      const host = words[hostIndex].replace(/^.*@/, "");
+      return resolveInvocation(words.slice(hostIndex + 1).join(" "), host);
+    }
+  }
+  return { tool: words[0] ?? "", args: words.slice(1), nodeId };
+}
+
+/** GPU indices picked with -i/--id, or undefined when all are shown */
+export function selectedGpus(args: string[]): string[] | undefined {
+  let selected: string[] | undefined;
+  args.forEach((arg, i) => {
+    const inline = arg.match(/^(?:-i|--id)=(.+)$/);
+    const value = inline
+      ? inline[1]
+      : arg === "-i" || arg === "--id"
+        ? args[i + 1]
+        : undefined;
+    if (value !== undefined) {
+      selected = [...(selected ?? []), ...value.split(",")];
+    }
+  });
+  return selected;
+}
+
+/** Whether a command's observation reveals one piece of evidence */
+export function revealsEvidence(
+  evidence: Evidence,
+  command: string,
+  observation: CommandObservation,
+): boolean {
+  const { tool, args, nodeId } = resolveInvocation(command, observation.nodeId);
+  if (!evidence.tools.includes(tool)) return false;
+  if (evidence.scope !== "cluster" && nodeId !== evidence.nodeId) return false;
+  if (evidence.scope === "gpu") {
+    const gpus = selectedGpus(args);
+    // GPUs picked by bus ID or UUID are left to the output to settle
+    if (
+      gpus &&
+      gpus.every((g) => /^\d+$/.test(g)) &&
+      !gpus.map(Number).includes(evidence.gpuId)
+    ) {
+      return false;
+    }
+  }
+  return evidence.field.test(stripAnsi(observation.output));
+}
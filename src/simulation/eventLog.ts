@@ -1,3 +1,5 @@
+import { simulationClock } from "@/simulation/simulationClock";
+
 export type ClusterEventType =
   | "xid-error"
   | "thermal"
@@ -10,6 +12,7 @@ export type ClusterEventType =
   | "clock-throttle"
   | "cascading-fault"
   | "consequence"
+  | "remediation"
   | "info";
 
 export type EventSeverity = "critical" | "warning" | "info";
@@ -43,7 +46,7 @@ export class EventLog {
     const event: ClusterEvent = {
       ...input,
       id: this.nextId++,
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
     };
     this.events.push(event);
     if (this.events.length > this.maxEntries) {
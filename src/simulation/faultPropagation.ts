@@ -2,6 +2,10 @@ import {
   FAULT_PROPAGATION_RULES,
   type PropagationRule,
 } from "@/data/faultPropagationRules";
+import {
+  simulationClock,
+  type SimulationClock,
+} from "@/simulation/simulationClock";
 
 export interface FaultTrigger {
   faultType: string;
@@ -24,16 +28,21 @@ export class FaultPropagationEngine {
   private pending: PendingConsequence[] = [];
   private nextId = 0;
   private rules: PropagationRule[];
+  private clock: SimulationClock;
 
-  constructor(rules?: PropagationRule[]) {
+  constructor(
+    rules?: PropagationRule[],
+    clock: SimulationClock = simulationClock,
+  ) {
     this.rules = rules ?? FAULT_PROPAGATION_RULES;
+    this.clock = clock;
   }
 
   triggerFault(trigger: FaultTrigger): void {
     const rule = this.rules.find((r) => r.trigger === trigger.faultType);
     if (!rule) return;
 
-    const now = Date.now();
+    const now = this.clock.now();
     for (const consequence of rule.consequences) {
       this.pending.push({
         id: this.nextId++,
@@ -49,7 +58,7 @@ export class FaultPropagationEngine {
   }
 
   getDueConsequences(): PendingConsequence[] {
-    const now = Date.now();
+    const now = this.clock.now();
     return this.pending.filter((c) => c.dueAt <= now);
   }
 
@@ -1,54 +1,91 @@
 /**
  * IncidentComposer
  *
- * Assembles incidents at runtime from IncidentTemplates, randomizing target
- * nodes/GPUs and layering in red herrings based on difficulty. Called by the
- * Incident Session Orchestrator when the user starts a new incident.
+ * Assembles incidents at runtime from IncidentTemplates for the active
+ * cluster, picking target nodes and GPUs among the ones it really has and
+ * layering in red herrings based on difficulty. Advanced incidents may chain
+ * templates along the fault propagation graph into compound incidents, e.g.
+ * a flapping InfiniBand cable whose NCCL timeouts get another node drained;
+ * each link in the chain is a root cause of its own for the learner to find.
+ * Called by the Incident Session Orchestrator when the user starts a new
+ * incident.
  */
 
 import {
   INCIDENT_TEMPLATES,
   type IncidentTemplate,
 } from "@/data/incidentTemplates";
+import {
+  FAULT_PROPAGATION_RULES,
+  type PropagationRule,
+} from "@/data/faultPropagationRules";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import type { ClusterConfig, DGXNode } from "@/types/hardware";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export interface IncidentFault {
+  faultType: string;
+  nodeId: string;
+  gpuId: number;
+  /**
+   * Index in rootCauses of the failure the fault belongs to; red herrings
+   * belong to none
+   */
+  rootCause?: number;
+}
+
+/** One failure of an incident, diagnosed separately from the others */
+export interface IncidentRootCause {
+  templateId: string;
+  /** Question shown above this root cause's options */
+  prompt: string;
+  nodeId: string;
+  gpuId: number;
+  options: string[];
+  correct: string;
+  /** Trigger in faultPropagationRules.ts this failure sets off */
+  propagationTrigger: string;
+}
+
 export interface ComposedIncident {
   templateId: string;
   situation: string;
-  faults: Array<{
-    faultType: string;
-    nodeId: string;
-    gpuId: number;
-  }>;
-  redHerrings: Array<{
-    faultType: string;
-    nodeId: string;
-    gpuId: number;
-  }>;
+  faults: IncidentFault[];
+  redHerrings: IncidentFault[];
   propagationTrigger: string;
   diagnosticPath: string[];
   rootCauseOptions: string[];
   correctRootCause: string;
   templateDomains: number[];
+  rmaRequired?: boolean;
+  /**
+   * Every failure in the incident in causal order, the originating one
+   * first. rootCauseOptions and correctRootCause are the first one's.
+   */
+  rootCauses: IncidentRootCause[];
 }
 
 export interface ComposeOptions {
   difficulty: "beginner" | "intermediate" | "advanced";
   domain?: number;
+  /**
+   * Chain templates into a compound incident. Advanced incidents may be
+   * compound unless this is false; others only when it is true.
+   */
+  compound?: boolean;
 }
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const NODE_IDS = Array.from(
-  { length: 8 },
-  (_, i) => `dgx-${String(i).padStart(2, "0")}`,
-);
-const GPU_COUNT = 8;
+/** Most templates chained into one compound incident */
+const MAX_CHAIN_LENGTH = 3;
 
 /**
  * Mild red-herring fault types that look concerning but are benign in
@@ -66,23 +103,37 @@ const RED_HERRING_FAULT_TYPES = [
 // ---------------------------------------------------------------------------
 
 function randomInt(max: number): number {
-  return Math.floor(Math.random() * max);
+  return simulationRandom.int(max);
 }
 
 function pickRandom<T>(arr: readonly T[]): T {
   return arr[randomInt(arr.length)];
 }
 
-/**
- * Pick a random node that is NOT in the exclusion list.
- */
-function pickDifferentNode(exclude: string[]): string {
-  const candidates = NODE_IDS.filter((n) => !exclude.includes(n));
-  if (candidates.length === 0) {
-    // Extremely unlikely with 8 nodes, but fall back gracefully
-    return pickRandom(NODE_IDS);
-  }
-  return pickRandom(candidates);
+/** Replace the {placeholders} of template text with the target's values */
+function fill(text: string, values: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match,
+  );
+}
+
+/** Whether a node has the hardware a template's faults need */
+function canHost(node: DGXNode, template: IncidentTemplate): boolean {
+  if (node.gpus.length === 0) return false;
+  const needsHca = template.primaryFaults.some((pf) =>
+    pf.faultType.startsWith("ib-"),
+  );
+  return !needsHca || node.hcas.length > 0;
+}
+
+interface Target {
+  node: DGXNode;
+  gpuId: number;
+}
+
+interface ChainLink {
+  template: IncidentTemplate;
+  target: Target;
 }
 
 // ---------------------------------------------------------------------------
@@ -90,24 +141,81 @@ function pickDifferentNode(exclude: string[]): string {
 // ---------------------------------------------------------------------------
 
 export class IncidentComposer {
+  private nodes: DGXNode[];
+  private rules: PropagationRule[];
+
+  constructor(
+    cluster: ClusterConfig = createDefaultCluster(),
+    rules?: PropagationRule[],
+  ) {
+    this.nodes = cluster.nodes;
+    this.rules = rules ?? FAULT_PROPAGATION_RULES;
+  }
+
   /**
-   * Compose a concrete incident from a randomly selected template.
+   * Compose a concrete incident from a randomly selected template, and for
+   * compound incidents the templates its failure sets off.
    */
   compose(options: ComposeOptions): ComposedIncident {
-    const template = this.pickTemplate(options);
-    const faults = this.resolveFaults(template);
+    const chaining =
+      options.compound ??
+      (options.difficulty === "advanced" ? undefined : false);
+    const root = this.pickTemplate(options, chaining);
+    const chain: ChainLink[] = [
+      { template: root, target: this.pickTarget(root, []) },
+    ];
+    if (chaining !== false) {
+      while (chain.length < MAX_CHAIN_LENGTH) {
+        const next = this.nextLink(chain);
+        if (!next) break;
+        chain.push(next);
+      }
+    }
+
+    const parts = chain.map((link, index) => {
+      const values = this.placeholderValues(link.target);
+      const prompt =
+        chain.length === 1
+          ? "What went wrong on {node}?"
+          : index === 0
+            ? "What started the incident on {node}?"
+            : "What did that lead to on {node}?";
+      return {
+        situation: fill(link.template.situation, values),
+        diagnosticPath: link.template.diagnosticPath.map((step) =>
+          fill(step, values),
+        ),
+        faults: this.resolveFaults(link, index),
+        rootCause: {
+          templateId: link.template.id,
+          prompt: fill(prompt, values),
+          nodeId: link.target.node.id,
+          gpuId: link.target.gpuId,
+          options: link.template.rootCauseOptions.map((o) => fill(o, values)),
+          correct: fill(link.template.correctRootCause, values),
+          propagationTrigger: link.template.propagationTrigger,
+        },
+      };
+    });
+
+    const faults = parts.flatMap((p) => p.faults);
     const redHerrings = this.resolveRedHerrings(options.difficulty, faults);
+    const [first] = parts;
 
     return {
-      templateId: template.id,
-      situation: template.situation,
+      templateId: root.id,
+      situation: parts.map((p) => p.situation).join("\n\n"),
       faults,
       redHerrings,
-      propagationTrigger: template.propagationTrigger,
-      diagnosticPath: [...template.diagnosticPath],
-      rootCauseOptions: [...template.rootCauseOptions],
-      correctRootCause: template.correctRootCause,
-      templateDomains: [...template.domains],
+      propagationTrigger: root.propagationTrigger,
+      diagnosticPath: [...new Set(parts.flatMap((p) => p.diagnosticPath))],
+      rootCauseOptions: [...first.rootCause.options],
+      correctRootCause: first.rootCause.correct,
+      templateDomains: [
+        ...new Set(chain.flatMap((link) => link.template.domains)),
+      ],
+      rmaRequired: root.rmaRequired,
+      rootCauses: parts.map((p) => p.rootCause),
     };
   }
 
@@ -115,9 +223,21 @@ export class IncidentComposer {
   // Private helpers
   // -----------------------------------------------------------------------
 
-  private pickTemplate(options: ComposeOptions): IncidentTemplate {
-    let candidates = INCIDENT_TEMPLATES.filter(
-      (t) => t.difficulty === options.difficulty,
+  /**
+   * With chaining undefined (advanced incidents), templates that can start
+   * a chain are candidates alongside the advanced ones; with chaining true
+   * they are the only candidates.
+   */
+  private pickTemplate(
+    options: ComposeOptions,
+    chaining: boolean | undefined,
+  ): IncidentTemplate {
+    const standalone = INCIDENT_TEMPLATES.filter((t) => !t.consequenceOnly);
+    let candidates = standalone.filter((t) =>
+      chaining === true
+        ? this.escalations(t).length > 0
+        : t.difficulty === options.difficulty ||
+          (chaining === undefined && this.escalations(t).length > 0),
     );
 
     if (options.domain !== undefined) {
@@ -132,30 +252,98 @@ export class IncidentComposer {
 
     // Fall back to any template if difficulty filter also yields nothing
     if (candidates.length === 0) {
-      candidates = [...INCIDENT_TEMPLATES];
+      candidates = standalone;
     }
 
     return pickRandom(candidates);
   }
 
+  /** Consequences of a template's propagation rule that set off another */
+  private escalations(template: IncidentTemplate) {
+    const rule = this.rules.find(
+      (r) => r.trigger === template.propagationTrigger,
+    );
+    return (rule?.consequences ?? []).filter((c) => c.escalatesTo);
+  }
+
   /**
-   * Resolve template fault declarations into concrete faults with
-   * randomized node IDs and GPU IDs.
+   * The template the last link's failure sets off, on the same node unless
+   * the consequence reaches through Slurm to another node of the job
    */
-  private resolveFaults(
-    template: IncidentTemplate,
-  ): ComposedIncident["faults"] {
-    const nodeId = pickRandom(NODE_IDS);
+  private nextLink(chain: ChainLink[]): ChainLink | undefined {
+    const last = chain[chain.length - 1];
+    const escalations = this.escalations(last.template);
+    if (escalations.length === 0) return undefined;
+    const consequence = pickRandom(escalations);
 
-    return template.primaryFaults.map((pf) => {
-      const gpuId = pf.target === "node" ? 0 : randomInt(GPU_COUNT);
+    const used = chain.map((link) => link.template.id);
+    const candidates = INCIDENT_TEMPLATES.filter(
+      (t) =>
+        t.propagationTrigger === consequence.escalatesTo &&
+        !used.includes(t.id),
+    );
+    if (candidates.length === 0) return undefined;
+    const template = pickRandom(candidates);
 
+    if (consequence.target === "slurm") {
       return {
-        faultType: pf.faultType,
-        nodeId,
-        gpuId,
+        template,
+        target: this.pickTarget(template, [last.target.node.id]),
       };
-    });
+    }
+    const { node } = last.target;
+    const gpuId =
+      consequence.target === "same-gpu"
+        ? last.target.gpuId
+        : pickRandom(node.gpus).id;
+    return { template, target: { node, gpuId } };
+  }
+
+  /**
+   * A random node that can host the template, preferring ones not in the
+   * exclusion list, and one of its GPUs
+   */
+  private pickTarget(template: IncidentTemplate, exclude: string[]): Target {
+    const capable = this.nodes.filter((n) => canHost(n, template));
+    const preferred = capable.filter((n) => !exclude.includes(n.id));
+    const node = pickRandom(
+      preferred.length > 0
+        ? preferred
+        : capable.length > 0
+          ? capable
+          : this.nodes,
+    );
+    const gpuId = node.gpus.length > 0 ? pickRandom(node.gpus).id : 0;
+    return { node, gpuId };
+  }
+
+  private placeholderValues({ node, gpuId }: Target): Record<string, string> {
+    const index = node.gpus.findIndex((g) => g.id === gpuId);
+    const peer = node.gpus[(index + 1) % node.gpus.length] ?? node.gpus[0];
+    return {
+      node: node.id,
+      gpu: String(gpuId),
+      peer: String(peer?.id ?? gpuId),
+      gpuCount: String(node.gpus.length),
+      system: node.systemType,
+      memory: getHardwareSpecs(node.systemType).gpu.memoryType,
+    };
+  }
+
+  /**
+   * Resolve template fault declarations into concrete faults on the link's
+   * target. Node-level faults go to GPU 0.
+   */
+  private resolveFaults(
+    { template, target }: ChainLink,
+    rootCause: number,
+  ): IncidentFault[] {
+    return template.primaryFaults.map((pf) => ({
+      faultType: pf.faultType,
+      nodeId: target.node.id,
+      gpuId: pf.target === "node" ? 0 : target.gpuId,
+      rootCause,
+    }));
   }
 
   /**
@@ -167,25 +355,31 @@ export class IncidentComposer {
    */
   private resolveRedHerrings(
     difficulty: ComposeOptions["difficulty"],
-    primaryFaults: ComposedIncident["faults"],
-  ): ComposedIncident["redHerrings"] {
+    primaryFaults: IncidentFault[],
+  ): IncidentFault[] {
     if (difficulty === "beginner") {
       return [];
     }
 
     const usedNodes = primaryFaults.map((f) => f.nodeId);
+    const withGpus = this.nodes.filter((n) => n.gpus.length > 0);
 
     const count = difficulty === "advanced" ? 1 + randomInt(2) : randomInt(2);
 
-    const herrings: ComposedIncident["redHerrings"] = [];
+    const herrings: IncidentFault[] = [];
     for (let i = 0; i < count; i++) {
-      const herringNode = pickDifferentNode(usedNodes);
+      const candidates = withGpus.filter((n) => !usedNodes.includes(n.id));
+      // Small clusters may have no node left; fall back gracefully
+      const herringNode = pickRandom(
+        candidates.length > 0 ? candidates : withGpus,
+      );
+      if (!herringNode) break;
       herrings.push({
         faultType: pickRandom(RED_HERRING_FAULT_TYPES),
-        nodeId: herringNode,
-        gpuId: randomInt(GPU_COUNT),
+        nodeId: herringNode.id,
+        gpuId: pickRandom(herringNode.gpus).id,
       });
-      usedNodes.push(herringNode);
+      usedNodes.push(herringNode.id);
     }
 
     return herrings;
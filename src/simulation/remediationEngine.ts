@@ -0,0 +1,294 @@
+/**
+ * RemediationEngine
+ *
+ * Keeps track of which faults of an incident are still in place, and
+ * decides what a fix does to them by the rules in remediationRules.ts: a
+ * fix the fault declares clears it, or leaves another fault in its place,
+ * when the node was in the state the fix needs as it was applied. A fix
+ * applied without its preconditions does not hold, and the fault stays.
+ *
+ * Fixes come from the commands the learner runs, recognised by
+ * remediationsForCommand, and from the parts field service replaces. Used
+ * by the Incident Session Orchestrator, which applies the outcome to the
+ * sandbox so that incidents can be resolved and not just diagnosed.
+ */
+
+import {
+  FAULT_REMEDIATIONS,
+  PRECONDITION_LABELS,
+  REMEDIATION_ACTION_LABELS,
+  type FaultRemedies,
+  type RemediationAction,
+  type RemediationPrecondition,
+  type ReplaceablePart,
+} from "@/data/remediationRules";
+import {
+  resolveInvocation,
+  selectedGpus,
+  type CommandObservation,
+} from "@/simulation/diagnosticEvidence";
+import type { IncidentFault } from "@/simulation/incidentComposer";
+import type { ClusterConfig, DGXNode } from "@/types/hardware";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A fix applied to a node, or to one of its GPUs */
+export interface RemediationRequest {
+  action: RemediationAction;
+  nodeId: string;
+  /** The GPU a GPU reset or GPU replacement is for */
+  gpuId?: number;
+  /** For "replace-part", the part replaced */
+  part?: ReplaceablePart;
+}
+
+export interface RemediationResult {
+  request: RemediationRequest;
+  /** The fault as it was before the fix */
+  fault: IncidentFault;
+  /** The fault as the incident composed it */
+  origin: IncidentFault;
+  outcome: "cleared" | "transformed" | "blocked";
+  /** For transformed faults, the fault type left in place */
+  becomes?: string;
+  /** For blocked fixes, the preconditions the node did not meet */
+  unmet: RemediationPrecondition[];
+}
+
+interface ActiveFault {
+  fault: IncidentFault;
+  origin: IncidentFault;
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+function flagValue(args: string[], names: string[]): string | undefined {
+  const index = args.findIndex((arg) => names.includes(arg));
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/** The node whose BMC `ipmitool -H` talks to, the way ipmitool finds it */
+function nodeForBmcHost(
+  cluster: ClusterConfig,
+  host: string,
+): string | undefined {
+  return cluster.nodes.find((n) =>
+    [n.bmc.ipAddress, n.id, n.hostname, `${n.hostname}-bmc`].includes(host),
+  )?.id;
+}
+
+/**
+ * The fixes a command applied. Only commands that succeeded apply any:
+ * a GPU reset nvidia-smi refused fixes nothing.
+ */
+export function remediationsForCommand(
+  command: string,
+  observation: CommandObservation,
+  cluster: ClusterConfig,
+): RemediationRequest[] {
+  if ((observation.exitCode ?? 0) !== 0) return [];
+  const { tool, args, nodeId } = resolveInvocation(command, observation.nodeId);
+  const onNode = (action: RemediationAction, target: string | undefined) =>
+    target ? [{ action, nodeId: target }] : [];
+
+  switch (tool) {
+    case "nvidia-smi":
+      if (!args.some((a) => a === "-r" || a === "--gpu-reset")) return [];
+      return (selectedGpus(args) ?? [])
+        .filter((g) => /^\d+$/.test(g))
+        .map((g) => ({ action: "gpu-reset", nodeId, gpuId: Number(g) }));
+
+    case "reboot":
+      return onNode("node-reboot", nodeId);
+    case "shutdown":
+      return args.includes("-r") ? onNode("node-reboot", nodeId) : [];
+    case "systemctl":
+      return args.includes("reboot") ? onNode("node-reboot", nodeId) : [];
+    case "ipmitool": {
+      const power = args.indexOf("power");
+      if (power < 0 || !["cycle", "reset"].includes(args[power + 1])) {
+        return [];
+      }
+      const host = flagValue(args, ["-H", "--host"]);
+      return onNode(
+        "node-reboot",
+        host ? nodeForBmcHost(cluster, host) : nodeId,
+      );
+    }
+    case "bcm-node":
+      return args[0] === "power" && ["cycle", "reset"].includes(args[1])
+        ? onNode("node-reboot", args[2])
+        : [];
+
+    case "apt":
+    case "apt-get":
+      return args.includes("install") &&
+        (args.includes("--reinstall") ||
+          args.some((a) => a.startsWith("nvidia-driver-")))
+        ? onNode("driver-reinstall", nodeId)
+        : [];
+    case "dkms":
+      return ["install", "autoinstall"].includes(args[0])
+        ? onNode("driver-reinstall", nodeId)
+        : [];
+
+    case "mlxup":
+      return onNode("firmware-update", nodeId);
+    case "mlxfwmanager":
+      return args.some((a) => a === "-u" || a === "--update")
+        ? onNode("firmware-update", nodeId)
+        : [];
+    case "flint":
+      return args.some((a) => a === "burn" || a === "b")
+        ? onNode("firmware-update", nodeId)
+        : [];
+    case "fwupdmgr":
+      return ["update", "install"].includes(args[0])
+        ? onNode("firmware-update", nodeId)
+        : [];
+
+    case "scontrol": {
+      const setting = (key: string) =>
+        args.find((a) => a.toLowerCase().startsWith(`${key}=`))?.split("=")[1];
+      return args[0] === "update" &&
+        ["resume", "idle"].includes(setting("state")?.toLowerCase() ?? "")
+        ? onNode("node-resume", setting("nodename"))
+        : [];
+    }
+
+    default:
+      return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Descriptions
+// ---------------------------------------------------------------------------
+
+function remediesFor(faultType: string): FaultRemedies | undefined {
+  return FAULT_REMEDIATIONS[faultType];
+}
+
+/** Where a fault is, e.g. "dgx-01 GPU 3" or "dgx-01" */
+export function describeFaultLocation(fault: IncidentFault): string {
+  return remediesFor(fault.faultType)?.scope === "gpu"
+    ? `${fault.nodeId} GPU ${fault.gpuId}`
+    : fault.nodeId;
+}
+
+/** A fault by what it is and where, e.g. "hung GPU on dgx-01 GPU 3" */
+export function describeFault(fault: IncidentFault): string {
+  const label = remediesFor(fault.faultType)?.label ?? fault.faultType;
+  return `${label} on ${describeFaultLocation(fault)}`;
+}
+
+/** A one-line account of what a fix did to a fault */
+export function describeRemediation(result: RemediationResult): string {
+  const action = REMEDIATION_ACTION_LABELS[result.request.action];
+  const fault = describeFault(result.fault);
+  switch (result.outcome) {
+    case "cleared":
+      return `${action} cleared the ${fault}`;
+    case "transformed":
+      return `${action} left a ${remediesFor(result.becomes!)?.label ?? result.becomes} in place of the ${fault}`;
+    case "blocked":
+      return `${action} did not hold for the ${fault}: it needs ${result.unmet
+        .map((p) => PRECONDITION_LABELS[p])
+        .join(" and ")}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// RemediationEngine
+// ---------------------------------------------------------------------------
+
+export class RemediationEngine {
+  private active: ActiveFault[];
+  private rules: Record<string, FaultRemedies>;
+
+  constructor(faults: IncidentFault[], rules?: Record<string, FaultRemedies>) {
+    this.active = faults.map((fault) => ({ fault, origin: fault }));
+    this.rules = rules ?? FAULT_REMEDIATIONS;
+  }
+
+  /**
+   * Apply a fix to the faults it reaches.
+   *
+   * @param request - The fix and where it was applied
+   * @param node - The node as the fix found it, before the command ran
+   * @returns What the fix did to each fault it is declared for
+   */
+  apply(request: RemediationRequest, node: DGXNode): RemediationResult[] {
+    const results: RemediationResult[] = [];
+    for (const entry of [...this.active]) {
+      const { fault } = entry;
+      const remedies = this.rules[fault.faultType];
+      if (!remedies || fault.nodeId !== request.nodeId) continue;
+      // A fix for one GPU reaches only the faults of that GPU
+      if (
+        request.gpuId !== undefined &&
+        (remedies.scope !== "gpu" || fault.gpuId !== request.gpuId)
+      ) {
+        continue;
+      }
+      const rule = remedies.fixes.find(
+        (r) =>
+          r.action === request.action &&
+          (r.part === undefined || r.part === request.part),
+      );
+      if (!rule) continue;
+
+      const unmet = rule.requires.filter(
+        (p) => !this.isMet(p, node, request.gpuId),
+      );
+      const base = { request, fault, origin: entry.origin, unmet };
+      if (unmet.length > 0) {
+        results.push({ ...base, outcome: "blocked" });
+      } else if (rule.becomes) {
+        entry.fault = { ...fault, faultType: rule.becomes };
+        results.push({
+          ...base,
+          outcome: "transformed",
+          becomes: rule.becomes,
+        });
+      } else {
+        this.active = this.active.filter((a) => a !== entry);
+        results.push({ ...base, outcome: "cleared" });
+      }
+    }
+    return results;
+  }
+
+  /** Faults still in place, as they are now */
+  getActiveFaults(): IncidentFault[] {
+    return this.active.map((a) => a.fault);
+  }
+
+  /** Whether every fault of the incident has been cleared */
+  isResolved(): boolean {
+    return this.active.length === 0;
+  }
+
+  /**
+   * Check a precondition on the node, or on the GPU the fix is for
+   */
+  private isMet(
+    precondition: RemediationPrecondition,
+    node: DGXNode,
+    gpuId: number | undefined,
+  ): boolean {
+    const gpus = node.gpus.filter((g) => gpuId === undefined || g.id === gpuId);
+    switch (precondition) {
+      case "node-drained":
+        return node.slurmState === "drain" || node.slurmState === "down";
+      case "no-running-jobs":
+        return gpus.every((g) => g.allocatedJobId === undefined);
+      case "mig-disabled":
+        return gpus.every((g) => !g.migMode);
+    }
+  }
+}
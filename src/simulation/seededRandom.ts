@@ -0,0 +1,65 @@
+/**
+ * Seeded pseudo-random numbers.
+ *
+ * Simulators and engines draw their jitter, IDs and random picks from here
+ * instead of Math.random(), so reseeding reproduces a run exactly.
+ * The generator is mulberry32: small, fast and good enough for noise.
+ */
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /** Restart the sequence from a seed */
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Uniform float in [0, 1), like Math.random() */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [0, max) */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /** Float in [min, max) */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /** Lowercase hex string of the given length */
+  hex(length: number): string {
+    let out = "";
+    for (let i = 0; i < length; i++) out += this.int(16).toString(16);
+    return out;
+  }
+}
+
+/** A fresh seed for runs that were not given one */
+export function randomSeed(): number {
+  return (Date.now() ^ (Math.random() * 0x100000000)) >>> 0;
+}
+
+/** The generator shared by the terminal, simulators and engines */
+export const simulationRandom = new SeededRandom();
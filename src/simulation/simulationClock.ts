@@ -0,0 +1,222 @@
+/**
+ * Simulation clock.
+ *
+ * Every simulator and engine reads time from here instead of Date.now(), and
+ * schedules work with its timers instead of window.setTimeout/setInterval.
+ * While running, simulated time follows the wall clock scaled by the speed
+ * multiplier. Pausing freezes it; step and fast-forward move it by a fixed
+ * amount, firing any timers that fall due on the way, in order.
+ *
+ * A paused clock only moves when told to, so a run started from the same
+ * time and seed with the same commands produces the same output.
+ */
+
+/** How far step() moves a paused clock */
+export const DEFAULT_STEP_MS = 1000;
+
+export interface SimulationClockOptions {
+  /** Simulated epoch time to start from (default: the wall clock) */
+  start?: number;
+  /** Start paused, for scripted and replayed runs */
+  paused?: boolean;
+  /** Source of wall-clock time, in epoch milliseconds */
+  wallClock?: () => number;
+}
+
+interface ClockTimer {
+  id: number;
+  dueAt: number;
+  /** Set for intervals, which are rescheduled after each run */
+  periodMs?: number;
+  callback: () => void;
+}
+
+export class SimulationClock {
+  private readonly wallClock: () => number;
+  private anchorWall: number;
+  private anchorSim: number;
+  private speed = 1;
+  private paused: boolean;
+  private timers: ClockTimer[] = [];
+  private nextTimerId = 1;
+  private wakeup: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: SimulationClockOptions = {}) {
+    this.wallClock = options.wallClock ?? (() => Date.now());
+    this.anchorWall = this.wallClock();
+    this.anchorSim = options.start ?? this.anchorWall;
+    this.paused = options.paused ?? false;
+  }
+
+  /** Current simulated time in epoch milliseconds */
+  now(): number {
+    if (this.paused) return this.anchorSim;
+    return Math.floor(
+      this.anchorSim + (this.wallClock() - this.anchorWall) * this.speed,
+    );
+  }
+
+  /** Current simulated time as a Date */
+  date(): Date {
+    return new Date(this.now());
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /** Set the speed multiplier: 1 is real time, 2 runs twice as fast */
+  setSpeed(multiplier: number): void {
+    if (!(multiplier > 0) || multiplier === this.speed) return;
+    this.reanchor();
+    this.speed = multiplier;
+    this.scheduleWakeup();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.reanchor();
+    this.paused = true;
+    this.scheduleWakeup();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.anchorWall = this.wallClock();
+    this.paused = false;
+    this.scheduleWakeup();
+  }
+
+  /**
+   * Fast-forward by a number of simulated milliseconds, running timers that
+   * fall due along the way at their own due times.
+   */
+  advance(ms: number): void {
+    const target = this.now() + Math.max(0, ms);
+    for (;;) {
+      const next = this.nextTimer();
+      if (!next || next.dueAt > target) break;
+      this.jumpTo(next.dueAt);
+      this.run(next);
+    }
+    this.jumpTo(target);
+    this.scheduleWakeup();
+  }
+
+  /** Advance a paused clock by one step */
+  step(ms = DEFAULT_STEP_MS): void {
+    this.pause();
+    this.advance(ms);
+  }
+
+  /**
+   * Restart the clock from a given time. Pending timers
+   * keep the time they had left. Used to start a run that should be
+   * reproducible, and to return to the wall clock afterwards.
+   */
+  reset(options: Omit<SimulationClockOptions, "wallClock"> = {}): void {
+    const previous = this.now();
+    this.anchorWall = this.wallClock();
+    this.anchorSim = options.start ?? this.anchorWall;
+    this.paused = options.paused ?? false;
+    for (const timer of this.timers) {
+      timer.dueAt = this.anchorSim + Math.max(0, timer.dueAt - previous);
+    }
+    this.scheduleWakeup();
+  }
+
+  /** Run a callback once, after a delay in simulated milliseconds */
+  setTimeout(callback: () => void, delayMs: number): number {
+    return this.addTimer(callback, delayMs);
+  }
+
+  /** Run a callback every period, in simulated milliseconds */
+  setInterval(callback: () => void, periodMs: number): number {
+    return this.addTimer(callback, periodMs, Math.max(1, periodMs));
+  }
+
+  clearTimer(id: number): void {
+    this.timers = this.timers.filter((t) => t.id !== id);
+    this.scheduleWakeup();
+  }
+
+  private addTimer(
+    callback: () => void,
+    delayMs: number,
+    periodMs?: number,
+  ): number {
+    const id = this.nextTimerId++;
+    this.timers.push({
+      id,
+      dueAt: this.now() + Math.max(0, delayMs),
+      periodMs,
+      callback,
+    });
+    this.scheduleWakeup();
+    return id;
+  }
+
+  /** Earliest timer, oldest first among equals */
+  private nextTimer(): ClockTimer | undefined {
+    let next: ClockTimer | undefined;
+    for (const timer of this.timers) {
+      if (!next || timer.dueAt < next.dueAt) next = timer;
+    }
+    return next;
+  }
+
+  private run(timer: ClockTimer): void {
+    if (timer.periodMs) {
+      timer.dueAt += timer.periodMs;
+    } else {
+      this.timers = this.timers.filter((t) => t !== timer);
+    }
+    timer.callback();
+  }
+
+  private reanchor(): void {
+    this.anchorSim = this.now();
+    this.anchorWall = this.wallClock();
+  }
+
+  private jumpTo(time: number): void {
+    this.anchorSim = Math.max(time, this.now());
+    this.anchorWall = this.wallClock();
+  }
+
+  /** Run due timers */
+  private fireDue(): void {
+    for (;;) {
+      const next = this.nextTimer();
+      if (!next || next.dueAt > this.now()) break;
+      this.run(next);
+    }
+  }
+
+  /**
+   * Arm one wall-clock timer for the next due clock timer, scaled by the
+   * speed. A paused clock has nothing to wake up for.
+   */
+  private scheduleWakeup(): void {
+    if (this.wakeup !== null) {
+      clearTimeout(this.wakeup);
+      this.wakeup = null;
+    }
+    const next = this.nextTimer();
+    if (this.paused || !next) return;
+
+    const delay = Math.max(0, (next.dueAt - this.now()) / this.speed);
+    this.wakeup = setTimeout(() => {
+      this.wakeup = null;
+      this.fireDue();
+      this.scheduleWakeup();
+    }, delay);
+  }
+}
+
+/** The clock shared by the terminal, simulators and engines */
+export const simulationClock = new SimulationClock();
@@ -0,0 +1,1154 @@
+/**
+ * Slurm Controller
+ *
+ * A model of slurmctld: the job table that sbatch and srun submit into and
+ * that squeue, sacct, sinfo, sprio, sshare and scontrol all read.
+ *
+ * The controller is evaluated lazily against its clock. Every Slurm command
+ * calls `update()` first, which replays what happened since the previous
+ * call in time order: jobs finishing or reaching their time limit, nodes
+ * being released, dependencies being satisfied and pending jobs being
+ * started by the main and backfill schedulers.
+ *
+ * Node state and GPU allocation stay on the cluster. The controller reads
+ * the nodes it is given and writes back through the same mutator calls as
+ * the other simulators, so nvidia-smi and dcgmi see the GPUs a job holds.
+ */
+
+import type { DGXNode } from "@/types/hardware";
+import type { StateMutator } from "@/simulators/BaseSimulator";
+import {
+  NOT_RESPONDING_REASON,
+  isSlurmRegistered,
+  lostPowerSince,
+} from "@/utils/nodePower";
+import {
+  derivePartitions,
+  getGresGpuType,
+  nodePartitions,
+} from "./slurmPartitions";
+
+export type SlurmJobState =
+  | "PENDING"
+  | "RUNNING"
+  | "COMPLETED"
+  | "FAILED"
+  | "CANCELLED"
+  | "TIMEOUT"
+  | "NODE_FAIL";
+
+export interface SlurmJob {
+  jobId: number;
+  partition: string;
+  name: string;
+  user: string;
+  state: SlurmJobState;
+  /** Elapsed run time as squeue prints it */
+  time: string;
+  timeLimit: string;
+  nodes: number;
+  nodelist: string;
+  cpus: number;
+  gpus: number;
+  memory: string;
+  submitTime: Date;
+  startTime?: Date;
+  endTime?: Date;
+  priority: number;
+  account: string;
+  qos: string;
+  workDir: string;
+  command: string;
+  dependency?: string;
+  arrayTaskId?: number;
+  reasonPending?: string;
+  /** Job ID of the array this job belongs to */
+  arrayJobId?: number;
+  /** Array task IDs that have not been split off into jobs of their own */
+  arrayPending?: number[];
+  /** Maximum number of running tasks of the array (`--array=...%N`) */
+  arrayThrottle?: number;
+  /** Nodes the job has to run on (`--nodelist`) */
+  reqNodes?: string[];
+  /** GPU model the job asked for by typed GRES (`--gres=gpu:h100:4`) */
+  gpuType?: string;
+  /** Held jobs are never started by the scheduler (`scontrol hold`) */
+  held?: boolean;
+  /** How long the batch script runs once started; unset runs until killed */
+  runSeconds?: number;
+  exitCode?: number;
+  /** GPU indices the job holds on each allocated node */
+  allocation?: Record<string, number[]>;
+}
+
+export interface JobRequest {
+  name: string;
+  user: string;
+  partition: string;
+  account: string;
+  qos: string;
+  timeLimit: string;
+  nodes: number;
+  ntasks: number;
+  cpusPerTask: number;
+  gpusPerNode: number;
+  memory: string;
+  workDir: string;
+  command: string;
+  dependency?: string;
+  array?: ArraySpec;
+  reqNodes?: string[];
+  gpuType?: string;
+  runSeconds?: number;
+  exitCode?: number;
+}
+
+export interface ArraySpec {
+  tasks: number[];
+  throttle?: number;
+}
+
+/** Weighted multifactor priority of a pending job, as sprio shows it */
+export interface PriorityFactors {
+  age: number;
+  fairshare: number;
+  jobSize: number;
+  partition: number;
+  qos: number;
+  total: number;
+}
+
+/** One association row of the fairshare tree, as sshare shows it */
+export interface ShareRow {
+  account: string;
+  user: string;
+  depth: number;
+  rawShares: number | null;
+  normShares: number;
+  rawUsage: number;
+  effectiveUsage: number;
+  fairShare: number | null;
+}
+
+export interface NodeUsage {
+  jobs: number;
+  cpus: number;
+  gpus: number[];
+}
+
+export type SlurmNodeMutator = Pick<
+  StateMutator,
+  "setSlurmState" | "allocateGPUsForJob" | "deallocateGPUsForJob"
+>;
+
+/** Seconds a finished job stays in squeue output (slurm.conf MinJobAge) */
+export const MIN_JOB_AGE = 300;
+
+/** PriorityWeight* values from slurm.conf */
+export const PRIORITY_WEIGHTS = {
+  age: 1000,
+  fairshare: 5000,
+  jobSize: 500,
+  partition: 1000,
+  qos: 2000,
+};
+
+/** PriorityMaxAge: pending time at which the age factor saturates */
+const PRIORITY_MAX_AGE = 7 * 24 * 3600;
+
+/** Run time of a batch script that does not say how long it takes */
+export const DEFAULT_RUN_SECONDS = 300;
+
+/** Highest array task index accepted (slurm.conf MaxArraySize - 1) */
+const MAX_ARRAY_TASK = 1000;
+
+/** QOS priorities, matching `sacctmgr show qos` */
+export const QOS_PRIORITY: Record<string, number> = {
+  normal: 0,
+  high: 100,
+  low: 0,
+};
+
+/** Accounts below root, matching `sacctmgr show account` */
+export const ACCOUNTS = ["root", "compute", "research", "training"];
+
+/** User associations, matching `sacctmgr show assoc` */
+const ASSOCIATIONS = [
+  { account: "root", user: "root" },
+  { account: "compute", user: "admin" },
+];
+
+const FINISHED_STATES: SlurmJobState[] = [
+  "COMPLETED",
+  "FAILED",
+  "CANCELLED",
+  "TIMEOUT",
+  "NODE_FAIL",
+];
+
+const DEPENDENCY_TYPES = [
+  "after",
+  "afterany",
+  "afterok",
+  "afternotok",
+  "singleton",
+] as const;
+
+type DependencyType = (typeof DEPENDENCY_TYPES)[number];
+
+interface DependencyTerm {
+  type: DependencyType;
+  jobIds: number[];
+}
+
+type DependencyStatus = "satisfied" | "waiting" | "never";
+
+/** Schedulable resources of one node during a scheduling pass */
+interface NodeCapacity {
+  id: string;
+  state: DGXNode["slurmState"];
+  gpus: number[];
+  cpus: number;
+  freeGpus: number[];
+  freeCpus: number;
+  /** Partitions the node is in */
+  partitions: string[];
+  /** GRES type of the node's GPUs */
+  gpuType: string;
+}
+
+interface Reservation {
+  /** Epoch milliseconds */
+  start: number;
+  nodes: Set<string>;
+}
+
+export function isFinished(job: SlurmJob): boolean {
+  return FINISHED_STATES.includes(job.state);
+}
+
+/**
+ * Parse a Slurm time specification (`minutes`, `minutes:seconds`,
+ * `hours:minutes:seconds`, `days-hours[:minutes[:seconds]]`) to seconds.
+ * Returns null for no limit and NaN when the specification is invalid.
+ */
+export function parseTimeSpec(spec: string): number | null {
+  const value = spec.trim().toLowerCase();
+  if (value === "infinite" || value === "unlimited") return null;
+
+  const match = value.match(/^(?:(\d+)-)?(\d+)(?::(\d+))?(?::(\d+))?$/);
+  if (!match) return NaN;
+  const [, days, first, second, third] = match;
+  const n = (part?: string) => (part ? parseInt(part, 10) : 0);
+
+  let seconds: number;
+  if (days !== undefined) {
+    seconds = n(days) * 86400 + n(first) * 3600 + n(second) * 60 + n(third);
+  } else if (third !== undefined) {
+    seconds = n(first) * 3600 + n(second) * 60 + n(third);
+  } else if (second !== undefined) {
+    seconds = n(first) * 60 + n(second);
+  } else {
+    seconds = n(first) * 60;
+  }
+  // A time limit of zero means no limit
+  return seconds === 0 ? null : seconds;
+}
+
+/** Format seconds the way squeue prints TIME: `M:SS`, `H:MM:SS` or `D-HH:MM:SS` */
+export function formatElapsed(totalSeconds: number): string {
+  const total = Math.max(0, Math.floor(totalSeconds));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, "0");
+
+  if (days > 0) {
+    return `${days}-${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${seconds}`;
+  }
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`;
+  }
+  return `${minutes}:${seconds}`;
+}
+
+/** Parse an `--array` specification such as `0-15:4,20%2`; null if invalid */
+export function parseArraySpec(spec: string): ArraySpec | null {
+  const parts = spec.split("%");
+  if (parts.length > 2) return null;
+  const [list, limit] = parts;
+  if (limit !== undefined && !/^[1-9]\d*$/.test(limit)) return null;
+
+  const tasks = new Set<number>();
+  for (const range of list.split(",")) {
+    const match = range.match(/^(\d+)(?:-(\d+)(?::(\d+))?)?$/);
+    if (!match) return null;
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    const step = match[3] ? parseInt(match[3], 10) : 1;
+    if (end < start || step < 1 || end > MAX_ARRAY_TASK) return null;
+    for (let task = start; task <= end; task += step) tasks.add(task);
+  }
+
+  return {
+    tasks: [...tasks].sort((a, b) => a - b),
+    throttle: limit !== undefined ? parseInt(limit, 10) : undefined,
+  };
+}
+
+/** Compress task IDs into Slurm's range notation: `[0,1,2,5]` → `0-2,5` */
+export function formatTaskList(tasks: number[]): string {
+  const ranges: string[] = [];
+  let start = tasks[0];
+  let prev = tasks[0];
+  for (const task of [...tasks.slice(1), NaN]) {
+    if (task === prev + 1) {
+      prev = task;
+      continue;
+    }
+    ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+    start = task;
+    prev = task;
+  }
+  return ranges.join(",");
+}
+
+/** The JOBID Slurm prints: `1234`, `1234_7` or `1234_[8-15%2]` */
+export function formatJobId(job: SlurmJob): string {
+  const arrayJobId = job.arrayJobId ?? job.jobId;
+  if (job.arrayPending && job.arrayPending.length > 0) {
+    const throttle = job.arrayThrottle ? `%${job.arrayThrottle}` : "";
+    return `${arrayJobId}_[${formatTaskList(job.arrayPending)}${throttle}]`;
+  }
+  if (job.arrayTaskId !== undefined) {
+    return `${arrayJobId}_${job.arrayTaskId}`;
+  }
+  return String(job.jobId);
+}
+
+/**
+ * Parse a `--dependency` list. Terms separated by `,` must all be satisfied;
+ * terms separated by `?` need only one. Returns null if invalid.
+ */
+export function parseDependency(
+  spec: string,
+): { terms: DependencyTerm[]; any: boolean } | null {
+  if (spec.includes(",") && spec.includes("?")) return null;
+  const any = spec.includes("?");
+
+  const terms: DependencyTerm[] = [];
+  for (const part of spec.split(any ? "?" : ",")) {
+    const [type, ...ids] = part.split(":");
+    if (!(DEPENDENCY_TYPES as readonly string[]).includes(type)) return null;
+    if (type === "singleton") {
+      if (ids.length > 0) return null;
+    } else if (ids.length === 0 || ids.some((id) => !/^\d+$/.test(id))) {
+      return null;
+    }
+    terms.push({
+      type: type as DependencyType,
+      jobIds: ids.map((id) => parseInt(id, 10)),
+    });
+  }
+  return { terms, any };
+}
+
+/** Per-node GPU and CPU request of a job */
+function perNodeRequest(job: SlurmJob): { gpus: number; cpus: number } {
+  const nodes = Math.max(job.nodes, 1);
+  return {
+    gpus: Math.ceil(job.gpus / nodes),
+    cpus: Math.ceil(job.cpus / nodes),
+  };
+}
+
+function jobNodeIds(job: SlurmJob): string[] {
+  return job.nodelist ? job.nodelist.split(",") : [];
+}
+
+function timeLimitSeconds(job: SlurmJob): number | null {
+  const limit = parseTimeSpec(job.timeLimit);
+  return limit === null || Number.isNaN(limit) ? null : limit;
+}
+
+export class SlurmController {
+  jobs: SlurmJob[] = [];
+  nextJobId = 1000;
+  /** Node count of the cluster at the last update, for the job size factor */
+  private nodeCount = 1;
+  /** Partitions the nodes defined at the last update */
+  private partitionNames = new Set<string>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /** Current controller time in epoch milliseconds */
+  time(): number {
+    return this.now();
+  }
+
+  /** Drop all jobs and reset the job ID counter */
+  reset(): void {
+    this.jobs = [];
+    this.nextJobId = 1000;
+  }
+
+  findJob(jobId: number): SlurmJob | undefined {
+    return this.jobs.find((j) => j.jobId === jobId);
+  }
+
+  /** A job and, for an array job, all of its tasks */
+  findJobs(jobId: number): SlurmJob[] {
+    return this.jobs.filter((j) => j.jobId === jobId || j.arrayJobId === jobId);
+  }
+
+  /**
+   * Add a job to the table without scheduling it. Used for jobs that
+   * already exist when a scenario starts, and for srun steps that ran to
+   * completion synchronously.
+   */
+  addJob(job: Omit<SlurmJob, "jobId">): SlurmJob {
+    const record = { ...job, jobId: this.nextJobId++ } as SlurmJob;
+    this.jobs.push(record);
+    return record;
+  }
+
+  /** Queue a batch job and run a scheduling pass */
+  submit(
+    request: JobRequest,
+    nodes: DGXNode[],
+    ops: SlurmNodeMutator,
+  ): SlurmJob {
+    this.update(nodes, ops);
+
+    const jobId = this.nextJobId++;
+    const job: SlurmJob = {
+      jobId,
+      partition: request.partition,
+      name: request.name,
+      user: request.user,
+      state: "PENDING",
+      time: formatElapsed(0),
+      timeLimit: this.normalizeTimeLimit(request.timeLimit),
+      nodes: request.nodes,
+      nodelist: "",
+      cpus: request.ntasks * request.cpusPerTask,
+      gpus: request.gpusPerNode * request.nodes,
+      memory: request.memory,
+      submitTime: new Date(this.now()),
+      priority: 0,
+      account: request.account,
+      qos: request.qos,
+      workDir: request.workDir,
+      command: request.command,
+      dependency: request.dependency,
+      reasonPending: "None",
+      reqNodes: request.reqNodes,
+      gpuType: request.gpuType,
+      runSeconds: request.runSeconds,
+      exitCode: request.exitCode,
+    };
+    if (request.array) {
+      job.arrayJobId = jobId;
+      job.arrayPending = [...request.array.tasks];
+      job.arrayThrottle = request.array.throttle;
+    }
+    this.jobs.push(job);
+
+    this.update(nodes, ops);
+    return job;
+  }
+
+  /**
+   * Cancel a job, a whole array (`1234`) or a single task (`1234_5`).
+   * Returns the jobs that were cancelled.
+   */
+  cancel(
+    jobId: number,
+    taskId: number | undefined,
+    nodes: DGXNode[],
+    ops: SlurmNodeMutator,
+  ): SlurmJob[] {
+    this.update(nodes, ops);
+    const cluster = this.buildCapacity(nodes);
+    const at = this.now();
+
+    let targets = this.findJobs(jobId).filter((j) => !isFinished(j));
+    if (taskId !== undefined) {
+      const parent = targets.find((j) => j.arrayPending?.includes(taskId));
+      if (parent) {
+        // Split the pending task off so it keeps its own record
+        const task = this.takeTask(parent, taskId);
+        targets = [task];
+      } else {
+        targets = targets.filter((j) => j.arrayTaskId === taskId);
+      }
+    }
+
+    for (const job of targets) {
+      if (job.state === "RUNNING") {
+        this.finish(job, "CANCELLED", at, cluster, ops);
+      } else {
+        job.state = "CANCELLED";
+        job.endTime = new Date(at);
+        job.reasonPending = undefined;
+      }
+    }
+
+    this.update(nodes, ops);
+    return targets;
+  }
+
+  /** Hold or release a pending job (`scontrol hold|release`) */
+  setHeld(jobId: number, held: boolean): SlurmJob[] {
+    const targets = this.findJobs(jobId).filter((j) => j.state === "PENDING");
+    for (const job of targets) {
+      job.held = held;
+      job.reasonPending = held ? "JobHeldUser" : "None";
+    }
+    return targets;
+  }
+
+  /**
+   * Bring the job table up to the current time: complete jobs whose script
+   * or time limit ran out, in the order they ended, scheduling pending work
+   * onto the resources each one frees.
+   */
+  update(nodes: DGXNode[], ops: SlurmNodeMutator): void {
+    const now = this.now();
+    const cluster = this.buildCapacity(nodes);
+    this.nodeCount = Math.max(nodes.length, 1);
+    this.trackNodePower(nodes, now, cluster, ops);
+
+    for (
+      let end = this.nextEnd();
+      end !== null && end <= now;
+      end = this.nextEnd()
+    ) {
+      for (const job of this.jobs) {
+        if (job.state === "RUNNING" && this.endOf(job) === end) {
+          const limit = timeLimitSeconds(job);
+          if (
+            job.runSeconds !== undefined &&
+            (limit === null || job.runSeconds <= limit)
+          ) {
+            const failed = (job.exitCode ?? 0) !== 0;
+            this.finish(
+              job,
+              failed ? "FAILED" : "COMPLETED",
+              end,
+              cluster,
+              ops,
+            );
+          } else {
+            this.finish(job, "TIMEOUT", end, cluster, ops);
+          }
+        }
+      }
+      this.schedule(end, cluster, ops);
+    }
+    this.schedule(now, cluster, ops);
+
+    for (const job of this.jobs) {
+      if (job.state === "RUNNING" && job.startTime) {
+        job.time = formatElapsed((now - job.startTime.getTime()) / 1000);
+      }
+    }
+  }
+
+  /**
+   * Follow nodes through power events: running jobs die with a node that
+   * loses power, and a node that stopped responding returns to service
+   * once slurmd registers it after boot
+   */
+  private trackNodePower(
+    nodes: DGXNode[],
+    now: number,
+    cluster: Map<string, NodeCapacity>,
+    ops: SlurmNodeMutator,
+  ): void {
+    for (const job of this.jobs) {
+      if (job.state !== "RUNNING" || !job.startTime) continue;
+      const started = job.startTime.getTime();
+      const lost = nodes.some(
+        (n) => jobNodeIds(job).includes(n.id) && lostPowerSince(n, started),
+      );
+      if (lost) this.finish(job, "NODE_FAIL", now, cluster, ops);
+    }
+
+    for (const node of nodes) {
+      if (
+        node.slurmState === "down" &&
+        node.slurmReason === NOT_RESPONDING_REASON &&
+        isSlurmRegistered(node, now)
+      ) {
+        ops.setSlurmState(node.id, "idle");
+        const capacity = cluster.get(node.id);
+        if (capacity) capacity.state = "idle";
+      }
+    }
+  }
+
+  /** Jobs squeue lists: active ones, and finished ones younger than MinJobAge */
+  activeJobs(): SlurmJob[] {
+    const now = this.now();
+    return this.jobs.filter(
+      (j) =>
+        !isFinished(j) ||
+        !j.endTime ||
+        now - j.endTime.getTime() < MIN_JOB_AGE * 1000,
+    );
+  }
+
+  /** CPUs and GPUs running jobs hold on a node */
+  nodeUsage(nodeId: string): NodeUsage {
+    const usage: NodeUsage = { jobs: 0, cpus: 0, gpus: [] };
+    for (const job of this.jobs) {
+      if (job.state !== "RUNNING" || !jobNodeIds(job).includes(nodeId)) {
+        continue;
+      }
+      usage.jobs++;
+      usage.cpus += perNodeRequest(job).cpus;
+      usage.gpus.push(...(job.allocation?.[nodeId] ?? []));
+    }
+    usage.gpus.sort((a, b) => a - b);
+    return usage;
+  }
+
+  /** Multifactor priority of a job at the given time */
+  priorityFactors(job: SlurmJob, at = this.now()): PriorityFactors {
+    const pendingSeconds = Math.max(0, (at - job.submitTime.getTime()) / 1000);
+    const maxQos = Math.max(...Object.values(QOS_PRIORITY), 1);
+    const share = this.shares(at).find(
+      (row) => row.account === job.account && row.user === job.user,
+    );
+
+    const factors = {
+      age: Math.round(
+        Math.min(1, pendingSeconds / PRIORITY_MAX_AGE) * PRIORITY_WEIGHTS.age,
+      ),
+      fairshare: Math.round(
+        (share?.fairShare ?? 1) * PRIORITY_WEIGHTS.fairshare,
+      ),
+      jobSize: Math.round(
+        Math.min(1, job.nodes / this.nodeCount) * PRIORITY_WEIGHTS.jobSize,
+      ),
+      partition: PRIORITY_WEIGHTS.partition,
+      qos: Math.round(
+        ((QOS_PRIORITY[job.qos] ?? 0) / maxQos) * PRIORITY_WEIGHTS.qos,
+      ),
+    };
+    return {
+      ...factors,
+      total:
+        factors.age +
+        factors.fairshare +
+        factors.jobSize +
+        factors.partition +
+        factors.qos,
+    };
+  }
+
+  /**
+   * The fairshare tree. Every association has one raw share, so siblings
+   * split their parent's normalized share evenly. Usage is allocated
+   * CPU-seconds (no decay), and the fair-share factor of a user is
+   * 2^(-EffectvUsage / NormShares).
+   */
+  shares(at = this.now()): ShareRow[] {
+    const usersByAccount = new Map<string, string[]>();
+    for (const account of ACCOUNTS) usersByAccount.set(account, []);
+    const associate = (account: string, user: string) => {
+      const users = usersByAccount.get(account) ?? [];
+      if (!users.includes(user)) users.push(user);
+      usersByAccount.set(account, users);
+    };
+    ASSOCIATIONS.forEach((a) => associate(a.account, a.user));
+    this.jobs.forEach((j) => associate(j.account, j.user));
+
+    const usage = new Map<string, number>();
+    let totalUsage = 0;
+    for (const job of this.jobs) {
+      if (!job.startTime || job.startTime.getTime() > at) continue;
+      const end = Math.min(job.endTime?.getTime() ?? at, at);
+      const cpuSeconds = Math.round(
+        (job.cpus * (end - job.startTime.getTime())) / 1000,
+      );
+      const key = `${job.account}/${job.user}`;
+      usage.set(key, (usage.get(key) ?? 0) + cpuSeconds);
+      totalUsage += cpuSeconds;
+    }
+    const effective = (raw: number) => (totalUsage > 0 ? raw / totalUsage : 0);
+
+    const rootUsers = usersByAccount.get("root") ?? [];
+    const accounts = [...usersByAccount.keys()].filter((a) => a !== "root");
+    const topShare = 1 / Math.max(rootUsers.length + accounts.length, 1);
+
+    const userRow = (
+      account: string,
+      user: string,
+      depth: number,
+      normShares: number,
+    ): ShareRow => {
+      const rawUsage = usage.get(`${account}/${user}`) ?? 0;
+      const effectiveUsage = effective(rawUsage);
+      return {
+        account,
+        user,
+        depth,
+        rawShares: 1,
+        normShares,
+        rawUsage,
+        effectiveUsage,
+        fairShare: Math.pow(2, -effectiveUsage / normShares),
+      };
+    };
+
+    const rows: ShareRow[] = [
+      {
+        account: "root",
+        user: "",
+        depth: 0,
+        rawShares: null,
+        normShares: 1,
+        rawUsage: totalUsage,
+        effectiveUsage: totalUsage > 0 ? 1 : 0,
+        fairShare: null,
+      },
+    ];
+    rootUsers.forEach((user) => rows.push(userRow("root", user, 1, topShare)));
+    for (const account of accounts) {
+      const users = usersByAccount.get(account) ?? [];
+      const rawUsage = users.reduce(
+        (sum, user) => sum + (usage.get(`${account}/${user}`) ?? 0),
+        0,
+      );
+      rows.push({
+        account,
+        user: "",
+        depth: 1,
+        rawShares: 1,
+        normShares: topShare,
+        rawUsage,
+        effectiveUsage: effective(rawUsage),
+        fairShare: null,
+      });
+      users.forEach((user) =>
+        rows.push(userRow(account, user, 2, topShare / users.length)),
+      );
+    }
+    return rows;
+  }
+
+  private normalizeTimeLimit(spec: string): string {
+    const limit = parseTimeSpec(spec);
+    return limit === null || Number.isNaN(limit)
+      ? "infinite"
+      : formatElapsed(limit);
+  }
+
+  /** Epoch milliseconds at which a running job ends, or null if it never does */
+  private endOf(job: SlurmJob): number | null {
+    if (!job.startTime) return null;
+    const limit = timeLimitSeconds(job);
+    const seconds = Math.min(job.runSeconds ?? Infinity, limit ?? Infinity);
+    return Number.isFinite(seconds)
+      ? job.startTime.getTime() + seconds * 1000
+      : null;
+  }
+
+  private nextEnd(): number | null {
+    let next: number | null = null;
+    for (const job of this.jobs) {
+      if (job.state !== "RUNNING") continue;
+      const end = this.endOf(job);
+      if (end !== null && (next === null || end < next)) next = end;
+    }
+    return next;
+  }
+
+  /**
+   * Work out what each node has free. A node marked allocated without any
+   * job in the table is held by something outside the controller, so it
+   * has nothing to offer.
+   */
+  private buildCapacity(nodes: DGXNode[]): Map<string, NodeCapacity> {
+    const cluster = new Map<string, NodeCapacity>();
+    const partitions = derivePartitions(nodes);
+    this.partitionNames = new Set(partitions.map((p) => p.name));
+    for (const node of nodes) {
+      const gpus = node.gpus.map((g) => g.id);
+      cluster.set(node.id, {
+        id: node.id,
+        state: node.slurmState,
+        gpus,
+        cpus: node.cpuCount,
+        freeGpus: [...gpus],
+        freeCpus: node.cpuCount,
+        partitions: nodePartitions(node.id, partitions),
+        gpuType: getGresGpuType(node.systemType),
+      });
+    }
+
+    const busy = new Set<string>();
+    for (const job of this.jobs) {
+      if (job.state !== "RUNNING") continue;
+      const request = perNodeRequest(job);
+      const allocation: Record<string, number[]> = {};
+      for (const nodeId of jobNodeIds(job)) {
+        const node = cluster.get(nodeId);
+        if (!node) continue;
+        busy.add(nodeId);
+        const held =
+          job.allocation?.[nodeId] ?? node.freeGpus.slice(0, request.gpus);
+        node.freeGpus = node.freeGpus.filter((id) => !held.includes(id));
+        node.freeCpus -= request.cpus;
+        allocation[nodeId] = held;
+      }
+      job.allocation = allocation;
+    }
+
+    for (const node of cluster.values()) {
+      if (node.state === "alloc" && !busy.has(node.id)) {
+        node.freeGpus = [];
+        node.freeCpus = 0;
+      }
+    }
+    return cluster;
+  }
+
+  /**
+   * One pass of the main and backfill schedulers. Pending jobs are tried in
+   * priority order. The first job that cannot start gets a reservation for
+   * the earliest time enough running jobs reach their time limits; lower
+   * priority jobs may only use the reserved nodes if they are certain to
+   * finish before then.
+   */
+  private schedule(
+    at: number,
+    cluster: Map<string, NodeCapacity>,
+    ops: SlurmNodeMutator,
+  ): void {
+    const pending = this.jobs.filter(
+      (j) => j.state === "PENDING" && !j.held && j.submitTime.getTime() <= at,
+    );
+    for (const job of pending) {
+      job.priority = this.priorityFactors(job, at).total;
+    }
+    pending.sort((a, b) => b.priority - a.priority || a.jobId - b.jobId);
+
+    let reservation: Reservation | null | undefined;
+    for (const job of pending) {
+      const dependency = this.dependencyStatus(job);
+      if (dependency !== "satisfied") {
+        job.reasonPending =
+          dependency === "never" ? "DependencyNeverSatisfied" : "Dependency";
+        continue;
+      }
+
+      const unavailable = this.unavailableNodes(job, cluster);
+      if (unavailable !== null) {
+        job.reasonPending = `ReqNodeNotAvail, UnavailableNodes:${unavailable}`;
+        continue;
+      }
+
+      const limit = timeLimitSeconds(job);
+      const end = limit === null ? Infinity : at + limit * 1000;
+      const blocked =
+        reservation && end > reservation.start
+          ? reservation.nodes
+          : new Set<string>();
+
+      let started = false;
+      let throttled = false;
+      for (;;) {
+        if (this.isThrottled(job)) {
+          throttled = true;
+          break;
+        }
+        const picked = this.pickNodes(job, cluster, blocked);
+        if (!picked) break;
+        const next = job.arrayPending ? this.takeTask(job) : job;
+        this.start(next, picked, at, cluster, ops);
+        started = true;
+        if (next === job) break;
+      }
+      if (job.state !== "PENDING") continue;
+
+      if (throttled) {
+        job.reasonPending = "JobArrayTaskLimit";
+      } else if (reservation === undefined) {
+        job.reasonPending = "Resources";
+        reservation = started ? null : this.reserve(job, cluster);
+      } else {
+        job.reasonPending = "Priority";
+      }
+    }
+  }
+
+  private isThrottled(job: SlurmJob): boolean {
+    if (!job.arrayThrottle || job.arrayJobId === undefined) return false;
+    const running = this.jobs.filter(
+      (j) => j.arrayJobId === job.arrayJobId && j.state === "RUNNING",
+    ).length;
+    return running >= job.arrayThrottle;
+  }
+
+  /**
+   * Nodes that are drained or down when the job could not fit without
+   * them, as a comma-separated list; null if enough nodes are in service.
+   */
+  private unavailableNodes(
+    job: SlurmJob,
+    cluster: Map<string, NodeCapacity>,
+  ): string | null {
+    const request = perNodeRequest(job);
+    const candidates = [...cluster.values()].filter(
+      (n) =>
+        this.isEligible(job, n) &&
+        n.gpus.length >= request.gpus &&
+        n.cpus >= request.cpus,
+    );
+    const inService = candidates.filter(
+      (n) => n.state !== "drain" && n.state !== "down",
+    );
+    const needed = job.reqNodes?.length || Math.max(job.nodes, 1);
+    if (inService.length >= needed) return null;
+
+    const outOfService = candidates.filter((n) => !inService.includes(n));
+    return outOfService.length > 0
+      ? outOfService.map((n) => n.id).join(",")
+      : null;
+  }
+
+  /**
+   * Whether a job may run on a node at all: it has to be one the job named,
+   * in the job's partition and carry the GPU model the job asked for. Jobs
+   * in a partition the nodes do not define (seeded by older scenarios) are
+   * not held to a partition.
+   */
+  private isEligible(job: SlurmJob, node: NodeCapacity): boolean {
+    return (
+      (!job.reqNodes || job.reqNodes.includes(node.id)) &&
+      (!this.partitionNames.has(job.partition) ||
+        node.partitions.includes(job.partition)) &&
+      (!job.gpuType || node.gpuType === job.gpuType)
+    );
+  }
+
+  /**
+   * Choose nodes with enough free GPUs and CPUs, best fit first so whole
+   * nodes stay free for larger jobs. Returns null if the job does not fit.
+   */
+  private pickNodes(
+    job: SlurmJob,
+    cluster: Map<string, NodeCapacity>,
+    blocked: Set<string>,
+  ): string[] | null {
+    const request = perNodeRequest(job);
+    const fits = [...cluster.values()].filter(
+      (n) =>
+        (n.state === "idle" || n.state === "alloc") &&
+        !blocked.has(n.id) &&
+        this.isEligible(job, n) &&
+        n.freeGpus.length >= request.gpus &&
+        n.freeCpus >= request.cpus,
+    );
+
+    if (job.reqNodes) {
+      return fits.length === job.reqNodes.length ? job.reqNodes : null;
+    }
+    const count = Math.max(job.nodes, 1);
+    if (fits.length < count) return null;
+    return fits
+      .sort((a, b) => a.freeGpus.length - b.freeGpus.length)
+      .slice(0, count)
+      .map((n) => n.id);
+  }
+
+  /**
+   * Find when and where a job could start if running jobs end at their
+   * time limits, which is all the backfill scheduler can count on.
+   */
+  private reserve(
+    job: SlurmJob,
+    cluster: Map<string, NodeCapacity>,
+  ): Reservation | null {
+    const future = new Map<string, NodeCapacity>();
+    cluster.forEach((node, id) =>
+      future.set(id, { ...node, freeGpus: [...node.freeGpus] }),
+    );
+
+    const ending = this.jobs
+      .filter((j) => j.state === "RUNNING" && j.startTime)
+      .map((j) => {
+        const limit = timeLimitSeconds(j);
+        return {
+          job: j,
+          end: limit === null ? null : j.startTime!.getTime() + limit * 1000,
+        };
+      })
+      .filter((e): e is { job: SlurmJob; end: number } => e.end !== null)
+      .sort((a, b) => a.end - b.end);
+
+    for (const { job: running, end } of ending) {
+      const request = perNodeRequest(running);
+      for (const nodeId of jobNodeIds(running)) {
+        const node = future.get(nodeId);
+        if (!node) continue;
+        node.freeGpus.push(...(running.allocation?.[nodeId] ?? []));
+        node.freeCpus += request.cpus;
+      }
+      const picked = this.pickNodes(job, future, new Set());
+      if (picked) return { start: end, nodes: new Set(picked) };
+    }
+    return null;
+  }
+
+  private start(
+    job: SlurmJob,
+    nodeIds: string[],
+    at: number,
+    cluster: Map<string, NodeCapacity>,
+    ops: SlurmNodeMutator,
+  ): void {
+    const request = perNodeRequest(job);
+    const allocation: Record<string, number[]> = {};
+    for (const nodeId of nodeIds) {
+      const node = cluster.get(nodeId)!;
+      const gpuIds = node.freeGpus.splice(0, request.gpus);
+      node.freeCpus -= request.cpus;
+      allocation[nodeId] = gpuIds;
+      if (gpuIds.length > 0) {
+        ops.allocateGPUsForJob(nodeId, gpuIds, job.jobId, 85);
+      }
+      if (node.state === "idle") {
+        ops.setSlurmState(nodeId, "alloc");
+        node.state = "alloc";
+      }
+    }
+
+    job.state = "RUNNING";
+    job.startTime = new Date(at);
+    job.nodelist = nodeIds.join(",");
+    job.nodes = nodeIds.length;
+    job.allocation = allocation;
+    job.reasonPending = undefined;
+  }
+
+  private finish(
+    job: SlurmJob,
+    state: SlurmJobState,
+    at: number,
+    cluster: Map<string, NodeCapacity>,
+    ops: SlurmNodeMutator,
+  ): void {
+    job.state = state;
+    job.endTime = new Date(at);
+    if (job.startTime) {
+      job.time = formatElapsed((at - job.startTime.getTime()) / 1000);
+    }
+    if (state !== "COMPLETED" && state !== "FAILED") {
+      job.exitCode = 0;
+    }
+
+    ops.deallocateGPUsForJob(job.jobId);
+    const request = perNodeRequest(job);
+    for (const nodeId of jobNodeIds(job)) {
+      const node = cluster.get(nodeId);
+      if (!node) continue;
+      node.freeGpus.push(...(job.allocation?.[nodeId] ?? []));
+      node.freeGpus.sort((a, b) => a - b);
+      node.freeCpus += request.cpus;
+      const stillBusy = this.jobs.some(
+        (j) => j.state === "RUNNING" && jobNodeIds(j).includes(nodeId),
+      );
+      if (node.state === "alloc" && !stillBusy) {
+        ops.setSlurmState(nodeId, "idle");
+        node.state = "idle";
+      }
+    }
+  }
+
+  /**
+   * Split a task off an array job. The array's own record becomes its
+   * last task, the way slurmctld reuses the meta job record.
+   */
+  private takeTask(parent: SlurmJob, taskId?: number): SlurmJob {
+    const pending = parent.arrayPending ?? [];
+    const index = taskId === undefined ? 0 : pending.indexOf(taskId);
+    const [task] = pending.splice(index, 1);
+
+    if (pending.length === 0) {
+      parent.arrayPending = undefined;
+      parent.arrayTaskId = task;
+      return parent;
+    }
+
+    const job: SlurmJob = {
+      ...parent,
+      jobId: this.nextJobId++,
+      arrayTaskId: task,
+      arrayPending: undefined,
+      allocation: undefined,
+    };
+    this.jobs.splice(this.jobs.indexOf(parent), 0, job);
+    return job;
+  }
+
+  private dependencyStatus(job: SlurmJob): DependencyStatus {
+    if (!job.dependency) return "satisfied";
+    const parsed = parseDependency(job.dependency);
+    if (!parsed) return "satisfied";
+
+    const results = parsed.terms.map((term) => this.termStatus(job, term));
+    if (parsed.any) {
+      if (results.includes("satisfied")) return "satisfied";
+      return results.every((r) => r === "never") ? "never" : "waiting";
+    }
+    if (results.includes("never")) return "never";
+    return results.every((r) => r === "satisfied") ? "satisfied" : "waiting";
+  }
+
+  private termStatus(job: SlurmJob, term: DependencyTerm): DependencyStatus {
+    if (term.type === "singleton") {
+      const earlier = this.jobs.some(
+        (j) =>
+          j !== job &&
+          j.name === job.name &&
+          j.user === job.user &&
+          j.jobId < job.jobId &&
+          !isFinished(j),
+      );
+      return earlier ? "waiting" : "satisfied";
+    }
+
+    const statuses = term.jobIds.map((id): DependencyStatus => {
+      const targets = this.findJobs(id);
+      const allFinished = targets.every(
+        (t) => isFinished(t) && !t.arrayPending,
+      );
+      switch (term.type) {
+        case "after":
+          return targets.every((t) => t.state !== "PENDING")
+            ? "satisfied"
+            : "waiting";
+        case "afterany":
+          return allFinished ? "satisfied" : "waiting";
+        case "afterok":
+          if (targets.some((t) => isFinished(t) && t.state !== "COMPLETED")) {
+            return "never";
+          }
+          return allFinished ? "satisfied" : "waiting";
+        default:
+          // afternotok
+          if (!allFinished) return "waiting";
+          return targets.some((t) => t.state !== "COMPLETED")
+            ? "satisfied"
+            : "never";
+      }
+    });
+
+    if (statuses.includes("never")) return "never";
+    return statuses.every((s) => s === "satisfied") ? "satisfied" : "waiting";
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Slurm Partitions
+ *
+ * The partitions and GPU GRES types slurm.conf and gres.conf define for the
+ * cluster, derived from the system type of each node. Every node is in the
+ * default `gpu` partition. A cluster that mixes GPU generations behind one
+ * controller also gets a partition per GPU model, named after its GRES type
+ * (`a100`, `h100`), so jobs can target a generation either by partition or
+ * by typed GRES (`--gres=gpu:h100:4`).
+ */
+
+import type { DGXNode } from "@/types/hardware";
+import type { SystemType } from "@/data/hardwareSpecs";
+
+export const DEFAULT_PARTITION = "gpu";
+
+const GRES_GPU_TYPES: Record<SystemType, string> = {
+  "DGX-A100": "a100",
+  "DGX-H100": "h100",
+  "DGX-H200": "h200",
+  "DGX-B200": "b200",
+  "DGX-GB200": "b200",
+  "DGX-VR200": "r200",
+};
+
+export interface SlurmPartition {
+  name: string;
+  /** Node IDs in cluster order */
+  nodes: string[];
+  /** Jobs submitted without --partition land here */
+  isDefault: boolean;
+  /** GRES type shared by all nodes of a per-model partition */
+  gpuType?: string;
+}
+
+export function getGresGpuType(systemType: SystemType): string {
+  return GRES_GPU_TYPES[systemType] ?? "gpu";
+}
+
+/** Configured GRES of a node, as sinfo %G and scontrol show it */
+export function nodeGres(node: DGXNode): string {
+  return node.gpus.length > 0
+    ? `gpu:${getGresGpuType(node.systemType)}:${node.gpus.length}`
+    : "(null)";
+}
+
+/** Distinct GRES GPU types of the nodes, in cluster order */
+export function clusterGpuTypes(nodes: DGXNode[]): string[] {
+  return [...new Set(nodes.map((n) => getGresGpuType(n.systemType)))];
+}
+
+/** Distinct system types of the nodes, in cluster order */
+export function clusterSystemTypes(nodes: DGXNode[]): SystemType[] {
+  return [...new Set(nodes.map((n) => n.systemType))];
+}
+
+/**
+ * Partitions for a set of nodes: the default partition with every node and,
+ * when the nodes carry more than one GPU model, one partition per model.
+ */
+export function derivePartitions(nodes: DGXNode[]): SlurmPartition[] {
+  const partitions: SlurmPartition[] = [
+    {
+      name: DEFAULT_PARTITION,
+      nodes: nodes.map((n) => n.id),
+      isDefault: true,
+    },
+  ];
+  const gpuTypes = clusterGpuTypes(nodes);
+  if (gpuTypes.length < 2) return partitions;
+
+  for (const gpuType of gpuTypes) {
+    partitions.push({
+      name: gpuType,
+      nodes: nodes
+        .filter((n) => getGresGpuType(n.systemType) === gpuType)
+        .map((n) => n.id),
+      isDefault: false,
+      gpuType,
+    });
+  }
+  return partitions;
+}
+
+/** Names of the partitions a node belongs to */
+export function nodePartitions(
+  nodeId: string,
+  partitions: SlurmPartition[],
+): string[] {
+  return partitions.filter((p) => p.nodes.includes(nodeId)).map((p) => p.name);
+}
+
+/**
+ * Compress node names into a Slurm hostlist: `dgx-00,dgx-01,dgx-02,dgx-05`
+ * becomes `dgx-[00-02,05]`. Names without a numeric suffix are kept as is.
+ */
+export function formatHostlist(ids: string[]): string {
+  const groups = new Map<string, { width: number; numbers: number[] }>();
+  const plain: string[] = [];
+  for (const id of ids) {
+    const match = id.match(/^(.*?)(\d+)$/);
+    if (!match) {
+      plain.push(id);
+      continue;
+    }
+    const key = `${match[1]}#${match[2].length}`;
+    const group = groups.get(key) ?? { width: match[2].length, numbers: [] };
+    group.numbers.push(parseInt(match[2], 10));
+    groups.set(key, group);
+  }
+
+  const lists = [...groups.entries()].map(([key, { width, numbers }]) => {
+    const prefix = key.slice(0, key.lastIndexOf("#"));
+    const pad = (n: number) => String(n).padStart(width, "0");
+    if (numbers.length === 1) return `${prefix}${pad(numbers[0])}`;
+
+    const sorted = [...new Set(numbers)].sort((a, b) => a - b);
+    const ranges: string[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+      let end = i;
+      while (end + 1 < sorted.length && sorted[end + 1] === sorted[end] + 1) {
+        end++;
+      }
+      ranges.push(
+        end > i ? `${pad(sorted[i])}-${pad(sorted[end])}` : pad(sorted[i]),
+      );
+      i = end;
+    }
+    return `${prefix}[${ranges.join(",")}]`;
+  });
+  return [...lists, ...plain].join(",");
+}
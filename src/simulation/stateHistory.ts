@@ -0,0 +1,481 @@
+/**
+ * State History
+ *
+ * Rebuilds cluster state from a scenario's mutation log and compares two
+ * points in it. ScenarioContext applies every mutation through
+ * applyStateChange(), so replaying the log over the starting cluster
+ * reproduces the state at any point exactly.
+ */
+
+import type {
+  BlueFieldDPU,
+  ClusterConfig,
+  DGXNode,
+  FirmwareComponent,
+  GPU,
+  InfiniBandSwitchPort,
+  NVLinkConnection,
+} from "@/types/hardware";
+import type { StateChange } from "@/store/scenarioContext";
+import {
+  applyIBPortUpdate,
+  applySubnetManagerUpdate,
+  applySubnetSweep,
+  getFabric,
+} from "@/utils/infinibandFabric";
+import {
+  applyNVSwitchFabricUpdate,
+  getNVSwitchFabric,
+} from "@/utils/nvswitchFabric";
+import { applyNodePowerUpdate } from "@/utils/nodePower";
+import {
+  applyDcgmUpdate,
+  getHostEngine,
+  observeGpuUpdate,
+  observeXidError,
+} from "@/utils/dcgmHostEngine";
+import {
+  getMemoryHealth,
+  isResetRequired,
+  observeMemoryErrors,
+} from "@/utils/gpuMemoryHealth";
+import {
+  applyNodePackageUpdate,
+  isKernelModuleLoaded,
+  libraryVersion,
+} from "@/utils/nodePackages";
+import {
+  applyNodeFirmwareUpdate,
+  getNodeFirmware,
+} from "@/utils/firmwareInventory";
+import { applyBlueFieldUpdate, getArmState } from "@/utils/blueFieldDpu";
+
+/**
+ * Apply one mutation to a cluster in place. Mutations that name a node or
+ * GPU the cluster does not have are ignored.
+ */
+export function applyStateChange(
+  cluster: ClusterConfig,
+  change: StateChange,
+): void {
+  if (change.type === "node-add") {
+    cluster.nodes.push(change.data);
+    return;
+  }
+  if (change.type === "ib-port") {
+    applyIBPortUpdate(cluster, change.data.end, change.data.update);
+    return;
+  }
+  if (change.type === "ib-sm") {
+    applySubnetManagerUpdate(cluster, change.data.smId, change.data.update);
+    return;
+  }
+  if (change.type === "ib-sweep") {
+    applySubnetSweep(cluster, change.data);
+    return;
+  }
+  if (change.type === "nvswitch-fabric") {
+    if (change.nodeId) {
+      applyNVSwitchFabricUpdate(cluster, change.nodeId, change.data);
+    }
+    return;
+  }
+  if (change.type === "node-power") {
+    if (change.nodeId) {
+      applyNodePowerUpdate(cluster, change.nodeId, change.data);
+    }
+    return;
+  }
+  if (change.type === "dcgm-hostengine") {
+    if (change.nodeId) {
+      applyDcgmUpdate(cluster, change.nodeId, change.data);
+    }
+    return;
+  }
+  if (change.type === "node-packages") {
+    if (change.nodeId) {
+      applyNodePackageUpdate(cluster, change.nodeId, change.data);
+    }
+    return;
+  }
+  if (change.type === "node-firmware") {
+    if (change.nodeId) {
+      applyNodeFirmwareUpdate(cluster, change.nodeId, change.data);
+    }
+    return;
+  }
+  if (change.type === "bluefield") {
+    if (change.nodeId) {
+      applyBlueFieldUpdate(cluster, change.nodeId, change.data);
+    }
+    return;
+  }
+
+  const node = cluster.nodes.find((n) => n.id === change.nodeId);
+  if (!node) return;
+  const gpu = node.gpus.find((g) => g.id === change.gpuId);
+
+  switch (change.type) {
+    case "node-update":
+      Object.assign(node, change.data);
+      break;
+    case "node-health":
+      node.healthStatus = change.data.health;
+      break;
+    case "slurm-state":
+      node.slurmState = change.data.state;
+      if (change.data.reason) {
+        node.slurmReason = change.data.reason;
+      }
+      break;
+    case "gpu-update":
+      if (gpu) {
+        const before = { ...gpu };
+        Object.assign(gpu, change.data);
+        observeGpuUpdate(node, gpu.id, before, change.timestamp);
+        observeMemoryErrors(gpu, before, change.timestamp);
+      }
+      break;
+    case "xid-error":
+      if (gpu) {
+        if (!gpu.xidErrors) {
+          gpu.xidErrors = [];
+        }
+        gpu.xidErrors.push(change.data);
+        observeXidError(node, gpu.id, change.data, change.timestamp);
+      }
+      break;
+    case "mig-mode":
+      if (gpu) {
+        gpu.migMode = change.data.enabled;
+        if (!change.data.enabled || !gpu.migInstances) {
+          gpu.migInstances = [];
+        }
+      }
+      break;
+  }
+}
+
+/**
+ * Cluster state after the first `count` mutations, built on a copy of the
+ * starting cluster.
+ */
+export function rebuildState(
+  initial: ClusterConfig,
+  changes: readonly StateChange[],
+  count: number = changes.length,
+): ClusterConfig {
+  const cluster = structuredClone(initial);
+  for (const change of changes.slice(0, Math.max(0, count))) {
+    applyStateChange(cluster, structuredClone(change));
+  }
+  return cluster;
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface GPUStateDiff {
+  gpuId: number;
+  changes: FieldChange[];
+}
+
+export interface NodeStateDiff {
+  nodeId: string;
+  /** Set when the node exists at only one of the two points */
+  presence?: "added" | "removed";
+  changes: FieldChange[];
+  gpus: GPUStateDiff[];
+}
+
+function formatXIDs(gpu: GPU): string {
+  const codes = (gpu.xidErrors ?? []).map((e) => e.code);
+  return codes.length > 0 ? codes.join(", ") : "none";
+}
+
+function formatTime(ms: number | undefined): string | undefined {
+  return ms === undefined ? undefined : new Date(ms).toISOString();
+}
+
+function formatLink(link: NVLinkConnection | undefined): string {
+  return link ? link.status : "-";
+}
+
+function formatIBPort(port: InfiniBandSwitchPort | undefined): string {
+  if (!port) return "-";
+  const { symbolErrors, portRcvErrors, linkDowned } = port.errors;
+  const errors = symbolErrors + portRcvErrors + linkDowned;
+  return errors > 0 ? `${port.state}, ${errors} errors` : port.state;
+}
+
+function formatPartitions(node: DGXNode): string {
+  const { mode, partitions } = getNVSwitchFabric(node);
+  if (mode !== "shared") return "-";
+  const active = partitions.filter((p) => p.active).map((p) => p.id);
+  return active.length > 0 ? active.join(", ") : "none";
+}
+
+function compare(
+  changes: FieldChange[],
+  field: string,
+  before: unknown,
+  after: unknown,
+): void {
+  const a = before === undefined || before === "" ? "-" : String(before);
+  const b = after === undefined || after === "" ? "-" : String(after);
+  if (a !== b) changes.push({ field, before: a, after: b });
+}
+
+function diffGPU(before: GPU, after: GPU): FieldChange[] {
+  const changes: FieldChange[] = [];
+  compare(changes, "health", before.healthStatus, after.healthStatus);
+  compare(changes, "XIDs", formatXIDs(before), formatXIDs(after));
+  compare(changes, "MIG mode", before.migMode, after.migMode);
+  compare(
+    changes,
+    "MIG instances",
+    before.migInstances?.length ?? 0,
+    after.migInstances?.length ?? 0,
+  );
+  compare(changes, "job", before.allocatedJobId, after.allocatedJobId);
+  compare(
+    changes,
+    "retired pages",
+    getMemoryHealth(before).retiredPages.length,
+    getMemoryHealth(after).retiredPages.length,
+  );
+  compare(
+    changes,
+    "reset required",
+    isResetRequired(before),
+    isResetRequired(after),
+  );
+
+  const linkIds = new Set([
+    ...before.nvlinks.map((l) => l.linkId),
+    ...after.nvlinks.map((l) => l.linkId),
+  ]);
+  for (const linkId of [...linkIds].sort((a, b) => a - b)) {
+    compare(
+      changes,
+      `NVLink ${linkId}`,
+      formatLink(before.nvlinks.find((l) => l.linkId === linkId)),
+      formatLink(after.nvlinks.find((l) => l.linkId === linkId)),
+    );
+  }
+  return changes;
+}
+
+function formatDriver(node: DGXNode): string {
+  return isKernelModuleLoaded(node) ? node.nvidiaDriverVersion : "not loaded";
+}
+
+function formatFirmware(component: FirmwareComponent | undefined): string {
+  if (!component) return "";
+  const { version, flash } = component;
+  return flash ? `${version}, ${flash.version} ${flash.status}` : version;
+}
+
+function formatDpuMode(dpu: BlueFieldDPU | undefined): string {
+  if (!dpu) return "";
+  const { mode, pendingMode } = dpu;
+  return pendingMode ? `${mode.mode}, ${pendingMode.mode} pending` : mode.mode;
+}
+
+function formatOvsBridges(dpu: BlueFieldDPU | undefined): string {
+  if (!dpu) return "";
+  return getArmState(dpu)
+    .bridges.map((b) => `${b.name} (${b.ports.join(", ")})`)
+    .join("; ");
+}
+
+function formatDcgmGroups(node: DGXNode): string {
+  return getHostEngine(node)
+    .groups.map((g) => g.id)
+    .join(", ");
+}
+
+function formatDcgmJobs(node: DGXNode): string {
+  const recording = getHostEngine(node).jobs.filter(
+    (j) => j.endTime === undefined,
+  );
+  return recording.map((j) => j.jobId).join(", ");
+}
+
+/**
+ * Per-node and per-GPU differences between two cluster states: health,
+ * power, XID errors, Slurm state, the loaded driver and installed driver
+ * libraries, pending reboots, Fabric Manager and partitions, DCGM groups and
+ * job recording, firmware versions and flashes, BlueField modes, Arm OS
+ * and OVS bridges, NVLink status, MIG, job
+ * allocation, retired pages and pending resets, and InfiniBand port state. InfiniBand switches and subnet
+ * managers are listed under their own ids. Nodes and GPUs without
+ * differences are left out.
+ */
+export function diffClusterStates(
+  before: ClusterConfig,
+  after: ClusterConfig,
+): NodeStateDiff[] {
+  const diffs: NodeStateDiff[] = [];
+
+  for (const node of after.nodes) {
+    const previous = before.nodes.find((n) => n.id === node.id);
+    if (!previous) {
+      diffs.push({ nodeId: node.id, presence: "added", changes: [], gpus: [] });
+      continue;
+    }
+
+    const changes: FieldChange[] = [];
+    compare(changes, "health", previous.healthStatus, node.healthStatus);
+    compare(changes, "power", previous.bmc?.powerState, node.bmc?.powerState);
+    compare(
+      changes,
+      "powered on",
+      formatTime(previous.bmc?.poweredOnAt),
+      formatTime(node.bmc?.poweredOnAt),
+    );
+    compare(changes, "Slurm state", previous.slurmState, node.slurmState);
+    compare(changes, "Slurm reason", previous.slurmReason, node.slurmReason);
+    compare(changes, "driver", formatDriver(previous), formatDriver(node));
+    compare(
+      changes,
+      "driver libraries",
+      libraryVersion(previous),
+      libraryVersion(node),
+    );
+    compare(
+      changes,
+      "reboot required",
+      previous.packages?.rebootRequired ?? false,
+      node.packages?.rebootRequired ?? false,
+    );
+    compare(
+      changes,
+      "Fabric Manager",
+      getNVSwitchFabric(previous).fabricManager.state,
+      getNVSwitchFabric(node).fabricManager.state,
+    );
+    compare(
+      changes,
+      "fabric partitions",
+      formatPartitions(previous),
+      formatPartitions(node),
+    );
+    compare(
+      changes,
+      "DCGM groups",
+      formatDcgmGroups(previous),
+      formatDcgmGroups(node),
+    );
+    compare(
+      changes,
+      "DCGM jobs recording",
+      formatDcgmJobs(previous),
+      formatDcgmJobs(node),
+    );
+    // Only nodes something has flashed differ from what they were built with
+    if (previous.firmware || node.firmware) {
+      const flashed = getNodeFirmware(previous);
+      for (const component of getNodeFirmware(node)) {
+        compare(
+          changes,
+          `${component.id} firmware`,
+          formatFirmware(flashed.find((c) => c.id === component.id)),
+          formatFirmware(component),
+        );
+      }
+    }
+    for (const dpu of node.dpus ?? []) {
+      const was = previous.dpus?.find((d) => d.id === dpu.id);
+      compare(
+        changes,
+        `DPU${dpu.id} mode`,
+        formatDpuMode(was),
+        formatDpuMode(dpu),
+      );
+      compare(changes, `DPU${dpu.id} Arm OS`, was?.armOS, dpu.armOS);
+      compare(
+        changes,
+        `DPU${dpu.id} OVS bridges`,
+        formatOvsBridges(was),
+        formatOvsBridges(dpu),
+      );
+    }
+    node.hcas.forEach((hca, i) => {
+      for (const port of hca.ports) {
+        compare(
+          changes,
+          `mlx5_${i} port ${port.portNumber}`,
+          formatIBPort(
+            previous.hcas[i]?.ports.find(
+              (p) => p.portNumber === port.portNumber,
+            ),
+          ),
+          formatIBPort(port),
+        );
+      }
+    });
+
+    const gpus: GPUStateDiff[] = [];
+    for (const gpu of node.gpus) {
+      const old = previous.gpus.find((g) => g.id === gpu.id);
+      const gpuChanges = old ? diffGPU(old, gpu) : [];
+      if (gpuChanges.length > 0) {
+        gpus.push({ gpuId: gpu.id, changes: gpuChanges });
+      }
+    }
+
+    if (changes.length > 0 || gpus.length > 0) {
+      diffs.push({ nodeId: node.id, changes, gpus });
+    }
+  }
+
+  for (const node of before.nodes) {
+    if (!after.nodes.some((n) => n.id === node.id)) {
+      diffs.push({
+        nodeId: node.id,
+        presence: "removed",
+        changes: [],
+        gpus: [],
+      });
+    }
+  }
+
+  const previousSwitches = getFabric(before).switches;
+  for (const sw of getFabric(after).switches) {
+    const previous = previousSwitches.find((s) => s.id === sw.id);
+    const changes: FieldChange[] = [];
+    for (const port of sw.ports) {
+      compare(
+        changes,
+        `port ${port.portNumber}`,
+        formatIBPort(
+          previous?.ports.find((p) => p.portNumber === port.portNumber),
+        ),
+        formatIBPort(port),
+      );
+    }
+    if (changes.length > 0) {
+      diffs.push({ nodeId: sw.id, changes, gpus: [] });
+    }
+  }
+
+  const previousManagers = getFabric(before).subnetManagers;
+  for (const sm of getFabric(after).subnetManagers) {
+    const changes: FieldChange[] = [];
+    compare(
+      changes,
+      "SM state",
+      previousManagers.find((m) => m.id === sm.id)?.state,
+      sm.state,
+    );
+    if (changes.length > 0) {
+      diffs.push({ nodeId: sm.id, changes, gpus: [] });
+    }
+  }
+
+  return diffs;
+}
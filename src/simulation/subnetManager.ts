@@ -0,0 +1,315 @@
+/**
+ * Subnet Manager
+ *
+ * The decisions OpenSM makes on each sweep, over a plain graph of the
+ * switches and HCA ports it discovered: which SM becomes master, and the
+ * linear forwarding table (LFT) every switch gets from the configured
+ * routing engine.
+ *
+ * - minhop: shortest paths, spreading destinations over the least-used of
+ *   the equally short ports.
+ * - updn: shortest paths that never turn back up once they go down, with
+ *   the spines as roots, so routes cannot form credit loops.
+ * - ftree: fat-tree routing. Every destination gets one spine, used by all
+ *   leaves, so traffic to different hosts spreads evenly across spines.
+ *   Fabrics that are not a two-tier tree fall back to minhop.
+ *
+ * The fabric model turns the cluster into this graph and writes the
+ * results back; see planSubnetSweep() in utils/infinibandFabric.
+ */
+
+import type { InfiniBandRoutingEngine } from "@/types/hardware";
+
+export interface SubnetNode {
+  key: string;
+  isSwitch: boolean;
+  lid: number;
+  guid: string;
+  tier?: "spine" | "leaf";
+}
+
+export interface SubnetLink {
+  a: string;
+  aPort: number;
+  b: string;
+  bPort: number;
+}
+
+export interface SubnetGraph {
+  nodes: SubnetNode[];
+  links: SubnetLink[];
+}
+
+/** Switch key → destination LID → output port (0 for the switch itself) */
+export type ForwardingTables = Record<string, Record<number, number>>;
+
+export interface SubnetManagerCandidate {
+  id: string;
+  priority: number;
+  guid: string;
+}
+
+interface Adjacency {
+  port: number;
+  peer: string;
+}
+
+function compareGuids(a: string, b: string): number {
+  const pad = (guid: string) =>
+    guid.replace(/^0x/i, "").toLowerCase().padStart(16, "0");
+  return pad(a).localeCompare(pad(b));
+}
+
+/**
+ * The SM that wins the election: highest priority, then lowest port GUID
+ */
+export function electMaster(
+  candidates: SubnetManagerCandidate[],
+): string | undefined {
+  return [...candidates].sort(
+    (x, y) => y.priority - x.priority || compareGuids(x.guid, y.guid),
+  )[0]?.id;
+}
+
+function buildAdjacency(graph: SubnetGraph): Map<string, Adjacency[]> {
+  const adjacency = new Map<string, Adjacency[]>(
+    graph.nodes.map((n) => [n.key, []]),
+  );
+  for (const link of graph.links) {
+    adjacency.get(link.a)?.push({ port: link.aPort, peer: link.b });
+    adjacency.get(link.b)?.push({ port: link.bPort, peer: link.a });
+  }
+  adjacency.forEach((list) => list.sort((x, y) => x.port - y.port));
+  return adjacency;
+}
+
+/**
+ * Hops from every node to the destination. Only switches forward, so HCAs
+ * other than the destination are reached but never expanded.
+ */
+function hopDistances(
+  graph: SubnetGraph,
+  adjacency: Map<string, Adjacency[]>,
+  dest: SubnetNode,
+  canForward: (from: string, to: string) => boolean = () => true,
+): Map<string, number> {
+  const isSwitch = new Map(graph.nodes.map((n) => [n.key, n.isSwitch]));
+  const dist = new Map([[dest.key, 0]]);
+  const queue = [dest.key];
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    if (key !== dest.key && !isSwitch.get(key)) continue;
+    for (const { peer } of adjacency.get(key) ?? []) {
+      if (dist.has(peer) || !canForward(peer, key)) continue;
+      dist.set(peer, dist.get(key)! + 1);
+      queue.push(peer);
+    }
+  }
+  return dist;
+}
+
+/**
+ * Least-loaded port among equally good choices, lowest port number first
+ */
+function pickPort(
+  ports: number[],
+  load: Map<number, number>,
+): number | undefined {
+  let best: number | undefined;
+  for (const port of ports) {
+    if (best === undefined || (load.get(port) ?? 0) < (load.get(best) ?? 0)) {
+      best = port;
+    }
+  }
+  if (best !== undefined) load.set(best, (load.get(best) ?? 0) + 1);
+  return best;
+}
+
+type PortChooser = (
+  switchKey: string,
+  dest: SubnetNode,
+  destIndex: number,
+) => number[];
+
+function minhopChooser(
+  graph: SubnetGraph,
+  adjacency: Map<string, Adjacency[]>,
+): PortChooser {
+  const isSwitch = new Map(graph.nodes.map((n) => [n.key, n.isSwitch]));
+  const cache = new Map<string, Map<string, number>>();
+  return (switchKey, dest) => {
+    let dist = cache.get(dest.key);
+    if (!dist) {
+      dist = hopDistances(graph, adjacency, dest);
+      cache.set(dest.key, dist);
+    }
+    const own = dist.get(switchKey);
+    if (own === undefined) return [];
+    return (adjacency.get(switchKey) ?? [])
+      .filter(
+        ({ peer }) =>
+          (isSwitch.get(peer) || peer === dest.key) &&
+          dist!.get(peer) === own - 1,
+      )
+      .map(({ port }) => port);
+  };
+}
+
+function updnChooser(
+  graph: SubnetGraph,
+  adjacency: Map<string, Adjacency[]>,
+): PortChooser {
+  const nodes = new Map(graph.nodes.map((n) => [n.key, n]));
+  const switches = graph.nodes.filter((n) => n.isSwitch);
+  const spines = switches.filter((n) => n.tier === "spine");
+  const roots = spines.length > 0 ? spines : switches;
+
+  // Rank switches by distance from the roots; HCAs sit below every switch
+  const rank = new Map(roots.map((n) => [n.key, 0]));
+  const queue = roots.map((n) => n.key);
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    for (const { peer } of adjacency.get(key) ?? []) {
+      if (rank.has(peer) || !nodes.get(peer)?.isSwitch) continue;
+      rank.set(peer, rank.get(key)! + 1);
+      queue.push(peer);
+    }
+  }
+  const bottom = Math.max(0, ...rank.values()) + 1;
+  const order = (key: string) => rank.get(key) ?? bottom;
+  // Going up means moving to a lower rank, or the lower GUID on a tie
+  const isUp = (from: string, to: string) =>
+    order(to) < order(from) ||
+    (order(to) === order(from) &&
+      compareGuids(nodes.get(to)!.guid, nodes.get(from)!.guid) < 0);
+  const ascending = [...switches].sort((x, y) =>
+    isUp(x.key, y.key) ? 1 : isUp(y.key, x.key) ? -1 : 0,
+  );
+
+  const cache = new Map<
+    string,
+    { down: Map<string, number>; any: Map<string, number> }
+  >();
+  const distances = (dest: SubnetNode) => {
+    let entry = cache.get(dest.key);
+    if (entry) return entry;
+    // Hops using only down moves, then with any number of up moves first
+    const down = hopDistances(
+      graph,
+      adjacency,
+      dest,
+      (from, to) => !isUp(from, to),
+    );
+    const any = new Map(down);
+    for (const sw of ascending) {
+      for (const { peer } of adjacency.get(sw.key) ?? []) {
+        const viaUp = any.get(peer);
+        if (!isUp(sw.key, peer) || viaUp === undefined) continue;
+        if (viaUp + 1 < (any.get(sw.key) ?? Infinity)) {
+          any.set(sw.key, viaUp + 1);
+        }
+      }
+    }
+    entry = { down, any };
+    cache.set(dest.key, entry);
+    return entry;
+  };
+
+  return (switchKey, dest) => {
+    const { down, any } = distances(dest);
+    const best = any.get(switchKey);
+    if (best === undefined) return [];
+    const goDown = down.get(switchKey) === best;
+    return (adjacency.get(switchKey) ?? [])
+      .filter(({ peer }) =>
+        goDown
+          ? !isUp(switchKey, peer) &&
+            (nodes.get(peer)?.isSwitch || peer === dest.key) &&
+            down.get(peer) === best - 1
+          : isUp(switchKey, peer) &&
+            nodes.get(peer)?.isSwitch &&
+            any.get(peer) === best - 1,
+      )
+      .map(({ port }) => port);
+  };
+}
+
+function ftreeChooser(
+  graph: SubnetGraph,
+  adjacency: Map<string, Adjacency[]>,
+): PortChooser | undefined {
+  const nodes = new Map(graph.nodes.map((n) => [n.key, n]));
+  const spines = graph.nodes.filter((n) => n.tier === "spine");
+  const leafOf = new Map<string, string>();
+  for (const node of graph.nodes) {
+    if (node.isSwitch) continue;
+    const [uplink] = adjacency.get(node.key) ?? [];
+    if (uplink && nodes.get(uplink.peer)?.tier !== "leaf") return undefined;
+    if (uplink) leafOf.set(node.key, uplink.peer);
+  }
+  if (spines.length === 0) return undefined;
+
+  const fallback = minhopChooser(graph, adjacency);
+  const portsTo = (from: string, to: string) =>
+    (adjacency.get(from) ?? [])
+      .filter(({ peer }) => peer === to)
+      .map(({ port }) => port)
+      .slice(0, 1);
+
+  return (switchKey, dest, destIndex) => {
+    const leaf = leafOf.get(dest.key);
+    if (!leaf) return fallback(switchKey, dest, destIndex);
+    if (switchKey === leaf) return portsTo(switchKey, dest.key);
+
+    if (nodes.get(switchKey)?.tier === "spine") {
+      const down = portsTo(switchKey, leaf);
+      return down.length > 0 ? down : fallback(switchKey, dest, destIndex);
+    }
+
+    // Spines that still reach the destination's leaf, in GUID order
+    const reaching = spines
+      .filter((spine) => portsTo(spine.key, leaf).length > 0)
+      .sort((x, y) => compareGuids(x.guid, y.guid));
+    const spine = reaching[destIndex % Math.max(1, reaching.length)];
+    const up = spine ? portsTo(switchKey, spine.key) : [];
+    return up.length > 0 ? up : fallback(switchKey, dest, destIndex);
+  };
+}
+
+/**
+ * Build the LFT of every switch with a routing engine. Destinations are
+ * routed in LID order, which is what spreads them over equal ports.
+ */
+export function computeForwardingTables(
+  graph: SubnetGraph,
+  engine: InfiniBandRoutingEngine,
+): ForwardingTables {
+  const adjacency = buildAdjacency(graph);
+  const choose =
+    (engine === "ftree" && ftreeChooser(graph, adjacency)) ||
+    (engine === "updn"
+      ? updnChooser(graph, adjacency)
+      : minhopChooser(graph, adjacency));
+
+  const switches = graph.nodes.filter((n) => n.isSwitch);
+  const destinations = graph.nodes
+    .filter((n) => n.lid > 0)
+    .sort((x, y) => x.lid - y.lid);
+  const hosts = destinations.filter((n) => !n.isSwitch);
+
+  const tables: ForwardingTables = {};
+  for (const sw of switches) {
+    const table: Record<number, number> = {};
+    const load = new Map<number, number>();
+    for (const dest of destinations) {
+      if (dest.key === sw.key) {
+        table[dest.lid] = 0;
+        continue;
+      }
+      const port = pickPort(choose(sw.key, dest, hosts.indexOf(dest)), load);
+      if (port !== undefined) table[dest.lid] = port;
+    }
+    tables[sw.key] = table;
+  }
+  return tables;
+}
@@ -0,0 +1,864 @@
+import type { ClusterConfig, DGXNode, GPU } from "@/types/hardware";
+import type { ClusterEvent } from "@/simulation/eventLog";
+import {
+  BASE_FILESYSTEM_IMAGE,
+  BOOT_MTIME,
+  IMAGE_MTIME,
+  type ImageEntry,
+  type ImageEntryType,
+} from "@/data/filesystemImage";
+import { simulationClock } from "@/simulation/simulationClock";
+import {
+  renderCgroupConf,
+  renderGresConf,
+  renderHosts,
+  renderSlurmConf,
+  renderTopologyConf,
+  shortHostname,
+} from "@/simulation/clusterConfigFiles";
+import { isRshimPresent, rshimMisc } from "@/utils/blueFieldDpu";
+
+/**
+ * Virtual File System
+ *
+ * An in-memory filesystem per DGX node. Each node starts from the base image
+ * in `filesystemImage.ts`; files derived from cluster state are generated on
+ * every read so they always match the model, until something overwrites them.
+ *
+ * Paths passed to the public methods must be absolute (see `resolvePath`).
+ * Failures are returned as strerror-style messages ("No such file or
+ * directory", "Permission denied", ...) rather than thrown.
+ */
+
+export type VfsEntryType = ImageEntryType;
+
+export interface VfsEntry {
+  type: VfsEntryType;
+  mode: number;
+  owner: string;
+  group: string;
+  mtime: number;
+  content?: string;
+  size?: number;
+  target?: string;
+  device?: [number, number];
+  /** Live files regenerate their content from the cluster on every read */
+  generate?: () => string;
+}
+
+export interface VfsStat {
+  path: string;
+  name: string;
+  type: VfsEntryType;
+  mode: number;
+  owner: string;
+  group: string;
+  mtime: number;
+  size: number;
+  target?: string;
+  device?: [number, number];
+  /** True while the file is still generated from cluster state */
+  live: boolean;
+}
+
+export interface VfsSources {
+  getCluster: () => ClusterConfig;
+  getEvents?: () => ClusterEvent[];
+}
+
+interface NodeTree {
+  entries: Map<string, VfsEntry>;
+  /** Paths deleted by the user, so live files stay deleted */
+  removed: Set<string>;
+}
+
+const NOT_FOUND = "No such file or directory";
+const IS_DIRECTORY = "Is a directory";
+const NOT_DIRECTORY = "Not a directory";
+const PERMISSION_DENIED = "Permission denied";
+const INVALID_ARGUMENT = "Invalid argument";
+
+/** Kernel-provided trees that cannot be modified */
+const READONLY_ROOTS = ["/proc", "/sys"];
+
+const MAX_SYMLINK_HOPS = 40;
+
+// ============================================================================
+// Path helpers
+// ============================================================================
+
+/**
+ * Resolve a path against a working directory, normalizing `.`, `..` and
+ * repeated slashes. Symlinks are not followed.
+ */
+export function resolvePath(path: string, cwd = "/"): string {
+  const target = path.startsWith("/") ? path : `${cwd}/${path}`;
+  const resolved: string[] = [];
+  for (const part of target.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") {
+      resolved.pop();
+    } else {
+      resolved.push(part);
+    }
+  }
+  return "/" + resolved.join("/");
+}
+
+export function parentPath(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index <= 0 ? "/" : path.slice(0, index);
+}
+
+export function baseName(path: string): string {
+  return path === "/" ? "/" : path.slice(path.lastIndexOf("/") + 1);
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir === "/" ? `/${name}` : `${dir}/${name}`;
+}
+
+function isWithin(path: string, dir: string): boolean {
+  return dir === "/" ? path !== "/" : path.startsWith(`${dir}/`);
+}
+
+function isReadonlyPath(path: string): boolean {
+  return READONLY_ROOTS.some((root) => path === root || isWithin(path, root));
+}
+
+/**
+ * Render a mode the way `ls -l` does, e.g. `drwxr-xr-x` or `-rw-r--r--`.
+ */
+export function formatMode(type: VfsEntryType, mode: number): string {
+  const typeChar =
+    type === "directory"
+      ? "d"
+      : type === "symlink"
+        ? "l"
+        : type === "device"
+          ? "c"
+          : "-";
+  const triplet = (bits: number, special: boolean, specialChar: string) => {
+    const exec = bits & 1;
+    const execChar = special
+      ? exec
+        ? specialChar
+        : specialChar.toUpperCase()
+      : exec
+        ? "x"
+        : "-";
+    return `${bits & 4 ? "r" : "-"}${bits & 2 ? "w" : "-"}${execChar}`;
+  };
+  return (
+    typeChar +
+    triplet((mode >> 6) & 7, (mode & 0o4000) !== 0, "s") +
+    triplet((mode >> 3) & 7, (mode & 0o2000) !== 0, "s") +
+    triplet(mode & 7, (mode & 0o1000) !== 0, "t")
+  );
+}
+
+// ============================================================================
+// Live file generators
+// ============================================================================
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Format a timestamp like syslog does: `Feb 12 08:15:05` */
+function formatSyslogTime(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${MONTHS[date.getMonth()]} ${date.getDate().toString().padStart(2)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/** `00000000:10:00.0` (nvidia-smi) → `0000:10:00.0` (sysfs/procfs) */
+function pciBusId(gpu: GPU): string {
+  return `0000:${gpu.pciAddress.split(":").slice(-2).join(":")}`.toLowerCase();
+}
+
+function generateDriverVersion(node: DGXNode | undefined): string {
+  const version = node?.nvidiaDriverVersion ?? "535.129.03";
+  return `NVRM version: NVIDIA UNIX x86_64 Kernel Module  ${version}  Thu Dec  7 19:01:02 UTC 2023
+GCC version:  gcc version 11.4.0 (Ubuntu 11.4.0-1ubuntu1~22.04)`;
+}
+
+function generateGpuInformation(gpu: GPU): string {
+  return [
+    `Model: \t\t ${gpu.name}`,
+    `IRQ:   \t\t ${150 + gpu.id}`,
+    `GPU UUID: \t ${gpu.uuid}`,
+    "Video BIOS: \t ??.??.??.??.??",
+    "Bus Type: \t PCIe",
+    "DMA Size: \t 52 bits",
+    "DMA Mask: \t 0xfffffffffffff",
+    `Bus Location: \t ${pciBusId(gpu)}`,
+    `Device Minor: \t ${gpu.id}`,
+    "GPU Excluded:\t No",
+  ].join("\n");
+}
+
+function generateSyslog(
+  node: DGXNode | undefined,
+  nodeId: string,
+  events: ClusterEvent[],
+): string {
+  const host = shortHostname(node, nodeId);
+  const gpus = node?.gpus ?? [];
+
+  const boot = [
+    `Feb 12 08:15:01 ${host} CRON[12345]: (root) CMD (test -x /usr/sbin/anacron || ( cd / && run-parts --report /etc/cron.daily ))`,
+    `Feb 12 08:15:03 ${host} systemd[1]: Starting Daily apt download activities...`,
+    ...gpus.map(
+      (gpu) =>
+        `Feb 12 08:15:05 ${host} kernel: [234567.${890 + gpu.id}] NVRM: GPU at ${pciBusId(gpu)} has been initialized`,
+    ),
+    ...gpus.map(
+      (gpu) =>
+        `Feb 12 08:15:06 ${host} nvidia-fabricmanager[1234]: GPU ${gpu.id} (UUID: ${gpu.uuid}) registered`,
+    ),
+    `Feb 12 08:15:07 ${host} nvidia-fabricmanager[1234]: NVSwitch fabric initialized successfully`,
+    `Feb 12 08:15:10 ${host} dcgm[5678]: DCGM initialized successfully`,
+    `Feb 12 08:15:12 ${host} kernel: [234568.100] mlx5_core 0000:e3:00.0: firmware version: 20.38.1002`,
+    `Feb 12 08:15:12 ${host} kernel: [234568.101] mlx5_core 0000:e3:00.0: ConnectX-7 HCA registered`,
+    `Feb 12 08:15:15 ${host} slurmd[9012]: slurmd version 23.02.6 started`,
+    `Feb 12 08:15:15 ${host} slurmd[9012]: Node configuration: CPUs=${node?.cpuCount ?? 128} Boards=1 SocketsPerBoard=2`,
+    `Feb 12 08:15:16 ${host} kernel: [234568.500] nvidia-peermem: module loaded`,
+    `Feb 12 08:15:17 ${host} containerd[3456]: containerd started`,
+    `Feb 12 08:15:18 ${host} dockerd[3457]: Docker daemon initialized`,
+    `Feb 12 08:15:20 ${host} systemd[1]: Started NVIDIA Persistence Daemon.`,
+    `Feb 12 08:15:21 ${host} nvidia-persistenced[7890]: PID file: /var/run/nvidia-persistenced/nvidia-persistenced.pid`,
+    `Feb 12 08:15:22 ${host} kernel: [234569.000] ECC: All GPUs reporting 0 errors`,
+    `Feb 12 08:15:25 ${host} nvsm[4321]: Health check completed: All components OK`,
+    `Feb 12 08:15:30 ${host} CRON[12346]: (root) CMD (/usr/lib/nvidia/nvsm/nvsm_monitor)`,
+  ];
+
+  // Runtime messages, ordered by when they happened
+  const runtime: Array<{ time: number; line: string }> = [];
+  for (const gpu of gpus) {
+    for (const xid of gpu.xidErrors) {
+      const time = new Date(xid.timestamp).getTime();
+      runtime.push({
+        time,
+        line: `${formatSyslogTime(time)} ${host} kernel: NVRM: Xid (PCI:${pciBusId(gpu)}): ${xid.code}, pid=0, ${xid.description}`,
+      });
+    }
+  }
+  for (const event of events) {
+    // XIDs are already reported from GPU state above
+    if (event.nodeId !== nodeId || event.type === "xid-error") continue;
+    const source = event.dmesgLine
+      ? "kernel"
+      : event.type.startsWith("slurm")
+        ? "slurmd[9012]"
+        : "nvsm[4321]";
+    runtime.push({
+      time: event.timestamp,
+      line: `${formatSyslogTime(event.timestamp)} ${host} ${source}: ${event.dmesgLine ?? event.message}`,
+    });
+  }
+  runtime.sort((a, b) => a.time - b.time);
+
+  return [...boot, ...runtime.map((r) => r.line)].join("\n");
+}
+
+// ============================================================================
+// VirtualFileSystem
+// ============================================================================
+
+function entryFromImage(image: ImageEntry): VfsEntry {
+  const owner = image.owner ?? "root";
+  return {
+    type: image.type,
+    mode: image.mode,
+    owner,
+    group: image.group ?? owner,
+    mtime: Date.parse(image.mtime ?? IMAGE_MTIME),
+    content: image.content,
+    size: image.size,
+    target: image.target,
+    device: image.device,
+  };
+}
+
+export class VirtualFileSystem {
+  private trees: Map<string, NodeTree> = new Map();
+
+  constructor(private readonly sources: VfsSources) {}
+
+  /** Discard all changes, on one node or on every node */
+  reset(nodeId?: string): void {
+    if (nodeId) {
+      this.trees.delete(nodeId);
+    } else {
+      this.trees.clear();
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Queries
+  // --------------------------------------------------------------------------
+
+  /** Stat a path, following symlinks */
+  stat(nodeId: string, path: string): VfsStat | undefined {
+    const { path: real } = this.realPath(nodeId, path, true);
+    return real ? this.statEntry(nodeId, real) : undefined;
+  }
+
+  /** Stat a path without following a final symlink */
+  lstat(nodeId: string, path: string): VfsStat | undefined {
+    const { path: real } = this.realPath(nodeId, path, false);
+    return real ? this.statEntry(nodeId, real) : undefined;
+  }
+
+  exists(nodeId: string, path: string): boolean {
+    return this.stat(nodeId, path) !== undefined;
+  }
+
+  readFile(nodeId: string, path: string): { content?: string; error?: string } {
+    const { path: real, error } = this.realPath(nodeId, path, true);
+    if (!real) return { error };
+    const entry = this.getEntry(nodeId, real);
+    if (!entry) return { error: NOT_FOUND };
+    if (entry.type === "directory") return { error: IS_DIRECTORY };
+    return { content: this.contentOf(entry) };
+  }
+
+  /** List a directory's entries, sorted by name */
+  list(nodeId: string, path: string): { entries?: VfsStat[]; error?: string } {
+    const { path: real, error } = this.realPath(nodeId, path, true);
+    if (!real) return { error };
+    const entry = this.getEntry(nodeId, real);
+    if (!entry) return { error: NOT_FOUND };
+    if (entry.type !== "directory") return { error: NOT_DIRECTORY };
+
+    const entries = this.childPaths(nodeId, real)
+      .map((child) => this.statEntry(nodeId, child))
+      .filter((s): s is VfsStat => s !== undefined)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { entries };
+  }
+
+  // --------------------------------------------------------------------------
+  // Mutations
+  // --------------------------------------------------------------------------
+
+  /**
+   * Write (or append to) a file, creating it if needed. Writing to a live
+   * file replaces it with a static copy.
+   */
+  writeFile(
+    nodeId: string,
+    path: string,
+    content: string,
+    append = false,
+  ): string | null {
+    const { path: real, error } = this.realPath(nodeId, path, true);
+    if (!real) return error ?? NOT_FOUND;
+    if (isReadonlyPath(real)) return PERMISSION_DENIED;
+
+    const existing = this.getEntry(nodeId, real);
+    if (existing?.type === "directory") return IS_DIRECTORY;
+    if (!existing) {
+      const parentError = this.checkParent(nodeId, real);
+      if (parentError) return parentError;
+    }
+
+    let data = content;
+    if (append && existing) {
+      const previous = this.contentOf(existing);
+      if (previous) {
+        data = previous.endsWith("\n")
+          ? previous + content
+          : `${previous}\n${content}`;
+      }
+    }
+
+    this.setEntry(nodeId, real, {
+      type: "file",
+      mode: existing?.mode ?? 0o644,
+      owner: existing?.owner ?? "root",
+      group: existing?.group ?? "root",
+      mtime: simulationClock.now(),
+      content: data,
+    });
+    return null;
+  }
+
+  /** Create an empty file, or update the mtime of an existing one */
+  touch(nodeId: string, path: string): string | null {
+    const { path: real, error } = this.realPath(nodeId, path, true);
+    if (!real) return error ?? NOT_FOUND;
+    const existing = this.getEntry(nodeId, real);
+    if (existing) {
+      if (isReadonlyPath(real)) return PERMISSION_DENIED;
+      this.setEntry(nodeId, real, {
+        ...existing,
+        mtime: simulationClock.now(),
+      });
+      return null;
+    }
+    return this.writeFile(nodeId, real, "");
+  }
+
+  mkdir(nodeId: string, path: string, parents = false): string | null {
+    const { path: real, error } = this.realPath(nodeId, path, true);
+    if (!real) return error ?? NOT_FOUND;
+    if (isReadonlyPath(real)) return PERMISSION_DENIED;
+
+    const existing = this.getEntry(nodeId, real);
+    if (existing) {
+      return parents && existing.type === "directory" ? null : "File exists";
+    }
+
+    const parent = parentPath(real);
+    if (parents && !this.getEntry(nodeId, parent)) {
+      const parentError = this.mkdir(nodeId, parent, true);
+      if (parentError) return parentError;
+    }
+    const parentError = this.checkParent(nodeId, real);
+    if (parentError) return parentError;
+
+    this.setEntry(nodeId, real, {
+      type: "directory",
+      mode: 0o755,
+      owner: "root",
+      group: "root",
+      mtime: simulationClock.now(),
+    });
+    return null;
+  }
+
+  /**
+   * Remove a file or symlink. Directories require `recursive`.
+   */
+  remove(nodeId: string, path: string, recursive = false): string | null {
+    const { path: real, error } = this.realPath(nodeId, path, false);
+    if (!real) return error ?? NOT_FOUND;
+    const entry = this.getEntry(nodeId, real);
+    if (!entry) return NOT_FOUND;
+    if (isReadonlyPath(real) || real === "/") return PERMISSION_DENIED;
+    if (entry.type === "directory" && !recursive) return IS_DIRECTORY;
+
+    if (entry.type === "directory") {
+      for (const descendant of this.descendantPaths(nodeId, real)) {
+        this.deleteEntry(nodeId, descendant);
+      }
+    }
+    this.deleteEntry(nodeId, real);
+    return null;
+  }
+
+  /** Remove an empty directory */
+  rmdir(nodeId: string, path: string): string | null {
+    const { path: real, error } = this.realPath(nodeId, path, false);
+    if (!real) return error ?? NOT_FOUND;
+    const entry = this.getEntry(nodeId, real);
+    if (!entry) return NOT_FOUND;
+    if (entry.type !== "directory") return NOT_DIRECTORY;
+    if (isReadonlyPath(real) || real === "/") return PERMISSION_DENIED;
+    if (this.childPaths(nodeId, real).length > 0) {
+      return "Directory not empty";
+    }
+    this.deleteEntry(nodeId, real);
+    return null;
+  }
+
+  /**
+   * Copy a file or (with `recursive`) a directory tree. Copying onto an
+   * existing directory copies into it.
+   */
+  copy(
+    nodeId: string,
+    source: string,
+    dest: string,
+    recursive = false,
+  ): string | null {
+    return this.transfer(nodeId, source, dest, recursive, false);
+  }
+
+  /** Move or rename a file or directory tree */
+  move(nodeId: string, source: string, dest: string): string | null {
+    return this.transfer(nodeId, source, dest, true, true);
+  }
+
+  symlink(nodeId: string, target: string, path: string): string | null {
+    const { path: real, error } = this.realPath(nodeId, path, false);
+    if (!real) return error ?? NOT_FOUND;
+    if (isReadonlyPath(real)) return PERMISSION_DENIED;
+    if (this.getEntry(nodeId, real)) return "File exists";
+    const parentError = this.checkParent(nodeId, real);
+    if (parentError) return parentError;
+
+    this.setEntry(nodeId, real, {
+      type: "symlink",
+      mode: 0o777,
+      owner: "root",
+      group: "root",
+      mtime: simulationClock.now(),
+      target,
+    });
+    return null;
+  }
+
+  chmod(nodeId: string, path: string, mode: number): string | null {
+    return this.updateEntry(nodeId, path, (entry) => ({ ...entry, mode }));
+  }
+
+  chown(
+    nodeId: string,
+    path: string,
+    owner?: string,
+    group?: string,
+  ): string | null {
+    return this.updateEntry(nodeId, path, (entry) => ({
+      ...entry,
+      owner: owner || entry.owner,
+      group: group || entry.group,
+    }));
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  private tree(nodeId: string): NodeTree {
+    let tree = this.trees.get(nodeId);
+    if (!tree) {
+      tree = { entries: new Map(), removed: new Set() };
+      for (const image of BASE_FILESYSTEM_IMAGE) {
+        tree.entries.set(image.path, entryFromImage(image));
+      }
+      this.trees.set(nodeId, tree);
+    }
+    return tree;
+  }
+
+  /** Look up an exact path, without following symlinks */
+  private getEntry(nodeId: string, path: string): VfsEntry | undefined {
+    const tree = this.tree(nodeId);
+    const entry = tree.entries.get(path);
+    if (entry || tree.removed.has(path)) return entry;
+    return this.liveEntries(nodeId).get(path);
+  }
+
+  private setEntry(nodeId: string, path: string, entry: VfsEntry): void {
+    const tree = this.tree(nodeId);
+    tree.entries.set(path, entry);
+    tree.removed.delete(path);
+  }
+
+  private deleteEntry(nodeId: string, path: string): void {
+    const tree = this.tree(nodeId);
+    tree.entries.delete(path);
+    tree.removed.add(path);
+  }
+
+  private updateEntry(
+    nodeId: string,
+    path: string,
+    update: (entry: VfsEntry) => VfsEntry,
+  ): string | null {
+    const { path: real, error } = this.realPath(nodeId, path, true);
+    if (!real) return error ?? NOT_FOUND;
+    const entry = this.getEntry(nodeId, real);
+    if (!entry) return NOT_FOUND;
+    if (isReadonlyPath(real)) return "Operation not permitted";
+    // Metadata changes pin a live file to its current content
+    const pinned = entry.generate
+      ? { ...entry, content: entry.generate(), generate: undefined }
+      : entry;
+    this.setEntry(nodeId, real, update(pinned));
+    return null;
+  }
+
+  private contentOf(entry: VfsEntry): string {
+    return entry.generate ? entry.generate() : (entry.content ?? "");
+  }
+
+  private statEntry(nodeId: string, path: string): VfsStat | undefined {
+    const entry = this.getEntry(nodeId, path);
+    if (!entry) return undefined;
+    let size: number;
+    if (entry.type === "directory") {
+      size = 4096;
+    } else if (entry.type === "symlink") {
+      size = entry.target?.length ?? 0;
+    } else if (entry.type === "device") {
+      size = 0;
+    } else {
+      size = entry.size ?? this.contentOf(entry).length;
+    }
+    return {
+      path,
+      name: baseName(path),
+      type: entry.type,
+      mode: entry.mode,
+      owner: entry.owner,
+      group: entry.group,
+      mtime: entry.mtime,
+      size,
+      target: entry.target,
+      device: entry.device,
+      live: entry.generate !== undefined,
+    };
+  }
+
+  private checkParent(nodeId: string, path: string): string | null {
+    const parent = this.getEntry(nodeId, parentPath(path));
+    if (!parent) return NOT_FOUND;
+    if (parent.type !== "directory") return NOT_DIRECTORY;
+    return null;
+  }
+
+  /**
+   * Resolve symlinks along a path. The final component is only followed
+   * when `followLast` is set, mirroring stat(2) versus lstat(2).
+   */
+  private realPath(
+    nodeId: string,
+    path: string,
+    followLast: boolean,
+  ): { path?: string; error?: string } {
+    let resolved = "/";
+    let remaining = path.split("/").filter(Boolean);
+    let hops = 0;
+
+    while (remaining.length > 0) {
+      const [part, ...rest] = remaining;
+      remaining = rest;
+      if (part === ".") continue;
+      if (part === "..") {
+        resolved = parentPath(resolved);
+        continue;
+      }
+
+      const candidate = joinPath(resolved, part);
+      const entry = this.getEntry(nodeId, candidate);
+      if (entry?.type === "symlink" && (remaining.length > 0 || followLast)) {
+        if (++hops > MAX_SYMLINK_HOPS) {
+          return { error: "Too many levels of symbolic links" };
+        }
+        const target = entry.target ?? "";
+        if (target.startsWith("/")) resolved = "/";
+        remaining = [...target.split("/").filter(Boolean), ...remaining];
+        continue;
+      }
+      if (remaining.length > 0 && entry && entry.type !== "directory") {
+        return { error: NOT_DIRECTORY };
+      }
+      resolved = candidate;
+    }
+    return { path: resolved };
+  }
+
+  private childPaths(nodeId: string, dir: string): string[] {
+    const tree = this.tree(nodeId);
+    const children = new Set<string>();
+    for (const path of tree.entries.keys()) {
+      if (path !== "/" && parentPath(path) === dir) children.add(path);
+    }
+    for (const path of this.liveEntries(nodeId).keys()) {
+      if (parentPath(path) === dir && !tree.removed.has(path)) {
+        children.add(path);
+      }
+    }
+    return [...children];
+  }
+
+  private descendantPaths(nodeId: string, dir: string): string[] {
+    const tree = this.tree(nodeId);
+    const paths = new Set<string>();
+    for (const path of tree.entries.keys()) {
+      if (isWithin(path, dir)) paths.add(path);
+    }
+    for (const path of this.liveEntries(nodeId).keys()) {
+      if (isWithin(path, dir) && !tree.removed.has(path)) paths.add(path);
+    }
+    return [...paths];
+  }
+
+  private transfer(
+    nodeId: string,
+    source: string,
+    dest: string,
+    recursive: boolean,
+    move: boolean,
+  ): string | null {
+    const { path: from, error } = this.realPath(nodeId, source, !move);
+    if (!from) return error ?? NOT_FOUND;
+    const entry = this.getEntry(nodeId, from);
+    if (!entry) return NOT_FOUND;
+    if (entry.type === "directory" && !recursive) return IS_DIRECTORY;
+
+    // Copying onto a directory places the source inside it
+    const destStat = this.stat(nodeId, dest);
+    const { path: destReal, error: destError } = this.realPath(
+      nodeId,
+      dest,
+      destStat?.type === "directory",
+    );
+    if (!destReal) return destError ?? NOT_FOUND;
+    const to =
+      destStat?.type === "directory"
+        ? joinPath(destReal, baseName(from))
+        : destReal;
+
+    // Same file, or a directory into its own subtree
+    if (to === from || isWithin(to, from)) return INVALID_ARGUMENT;
+    if (isReadonlyPath(to) || (move && isReadonlyPath(from))) {
+      return PERMISSION_DENIED;
+    }
+    const existing = this.getEntry(nodeId, to);
+    if (existing?.type === "directory" && entry.type !== "directory") {
+      return IS_DIRECTORY;
+    }
+    const parentError = this.checkParent(nodeId, to);
+    if (parentError) return parentError;
+
+    const now = simulationClock.now();
+    const materialize = (e: VfsEntry): VfsEntry => {
+      const copy: VfsEntry = { ...e, generate: undefined };
+      if (e.generate) copy.content = e.generate();
+      if (!move) copy.mtime = now;
+      return copy;
+    };
+
+    const moved: Array<[string, VfsEntry]> = [[to, materialize(entry)]];
+    if (entry.type === "directory") {
+      for (const path of this.descendantPaths(nodeId, from)) {
+        const child = this.getEntry(nodeId, path);
+        if (child) {
+          moved.push([to + path.slice(from.length), materialize(child)]);
+        }
+      }
+    }
+
+    if (move) this.remove(nodeId, from, true);
+    for (const [path, e] of moved) this.setEntry(nodeId, path, e);
+    return null;
+  }
+
+  /**
+   * Files generated from the cluster model for one node. Only the content
+   * functions run lazily; the set of paths reflects the node's hardware.
+   */
+  private liveEntries(nodeId: string): Map<string, VfsEntry> {
+    const cluster = this.sources.getCluster();
+    const node = cluster.nodes.find((n) => n.id === nodeId);
+    const gpus = node?.gpus ?? [];
+    const entries = new Map<string, VfsEntry>();
+
+    const imageTime = Date.parse(IMAGE_MTIME);
+    const bootTime = Date.parse(BOOT_MTIME);
+    const live = (
+      path: string,
+      generate: () => string,
+      options: Partial<Omit<VfsEntry, "type" | "generate">> = {},
+    ) => {
+      entries.set(path, {
+        type: "file",
+        mode: 0o644,
+        owner: "root",
+        group: "root",
+        mtime: imageTime,
+        ...options,
+        generate,
+      });
+    };
+    const device = (path: string, major: number, minor: number) => {
+      entries.set(path, {
+        type: "device",
+        mode: 0o666,
+        owner: "root",
+        group: "root",
+        mtime: bootTime,
+        device: [major, minor],
+      });
+    };
+
+    live("/etc/hostname", () => shortHostname(node, nodeId));
+    live("/etc/hosts", () => renderHosts(cluster, nodeId));
+    live("/etc/slurm/cgroup.conf", renderCgroupConf);
+    live("/etc/slurm/gres.conf", () => renderGresConf(node));
+    live("/etc/slurm/slurm.conf", () => renderSlurmConf(cluster));
+    live("/etc/slurm/topology.conf", () => renderTopologyConf(cluster));
+
+    // The driver creates its /proc entries and device files as it loads.
+    // Nodes without a package database of their own booted with it loaded.
+    const packages = node?.packages;
+    const driverGpus = !packages || packages.moduleLoaded ? gpus : [];
+    if (packages?.rebootRequired) {
+      live("/run/reboot-required", () => "*** System restart required ***", {
+        mtime: simulationClock.now(),
+      });
+    }
+    if (driverGpus === gpus) {
+      live("/proc/driver/nvidia/version", () => generateDriverVersion(node), {
+        mode: 0o444,
+        mtime: bootTime,
+      });
+    }
+
+    for (const gpu of driverGpus) {
+      const gpuDir = `/proc/driver/nvidia/gpus/${pciBusId(gpu)}`;
+      entries.set(gpuDir, {
+        type: "directory",
+        mode: 0o555,
+        owner: "root",
+        group: "root",
+        mtime: bootTime,
+      });
+      live(`${gpuDir}/information`, () => generateGpuInformation(gpu), {
+        mode: 0o444,
+        mtime: bootTime,
+      });
+      device(`/dev/nvidia${gpu.id}`, 195, gpu.id);
+    }
+    if (driverGpus.length > 0) {
+      device("/dev/nvidiactl", 195, 255);
+      device("/dev/nvidia-uvm", 235, 0);
+    }
+
+    // The rshim driver exposes each BlueField whose Arm side is up
+    for (const dpu of (node?.dpus ?? []).filter(isRshimPresent)) {
+      const dir = `/dev/rshim${dpu.id}`;
+      entries.set(dir, {
+        type: "directory",
+        mode: 0o755,
+        owner: "root",
+        group: "root",
+        mtime: bootTime,
+      });
+      device(`${dir}/boot`, 511, dpu.id * 4);
+      device(`${dir}/console`, 511, dpu.id * 4 + 1);
+      device(`${dir}/rshim`, 511, dpu.id * 4 + 2);
+      live(`${dir}/misc`, () => rshimMisc(dpu), { mtime: bootTime });
+    }
+
+    const events = this.sources.getEvents?.() ?? [];
+    const lastEvent = events.reduce(
+      (latest, e) => Math.max(latest, e.timestamp),
+      bootTime,
+    );
+    live("/var/log/syslog", () => generateSyslog(node, nodeId, events), {
+      mode: 0o640,
+      owner: "syslog",
+      group: "adm",
+      mtime: lastEvent,
+    });
+
+    return entries;
+  }
+}
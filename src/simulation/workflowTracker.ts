@@ -1,3 +1,10 @@
+import { simulationClock } from "@/simulation/simulationClock";
+import {
+  revealsEvidence,
+  type CommandObservation,
+  type Evidence,
+} from "@/simulation/diagnosticEvidence";
+
 /**
  * Diagnostic workflow phases in recommended order.
  * A methodical technician progresses through these sequentially.
@@ -13,19 +20,50 @@ export interface PhaseEntry {
   command: string;
   phase: DiagnosticPhase;
   timestamp: number;
+  /** Node the command ran on, when the terminal reported it */
+  nodeId?: string;
+  /** Labels of the evidence this command was first to reveal */
+  evidence?: string[];
+}
+
+/** A piece of evidence and the command that revealed it */
+export interface EvidenceFinding {
+  evidence: Evidence;
+  command: string;
+  nodeId: string;
+  timestamp: number;
+}
+
+export interface EvidenceReport {
+  found: EvidenceFinding[];
+  missed: Evidence[];
+  /** Investigative commands that revealed nothing new */
+  irrelevant: PhaseEntry[];
 }
 
 export interface ScoreInput {
   correctDiagnosis: boolean;
   collateralDamage: number;
+  /**
+   * Whether each root cause of a compound incident was diagnosed correctly;
+   * accuracy is then split evenly across them
+   */
+  rootCauses?: boolean[];
 }
 
 export interface WorkflowScore {
   /** 0-20: Higher when phases progress in recommended order */
   methodology: number;
-  /** 0-20: Fewer commands = higher score (baseline ~10 commands) */
+  /**
+   * 0-20: Fewer commands = higher score (baseline ~10 commands); with
+   * declared evidence, the share of investigative commands that found some
+   */
   efficiency: number;
-  /** 0-20: 20 if correct diagnosis, 0 if wrong */
+  /**
+   * 0-20: 20 if correct diagnosis, 0 if wrong, pro rata per root cause. With
+   * declared evidence a root cause only counts once some of its evidence
+   * was found.
+   */
   accuracy: number;
   /** 0-20: 20 minus 5 per collateral event (floor at 0) */
   noCollateral: number;
@@ -118,20 +156,36 @@ const classificationRules: ClassificationRule[] = [
   },
 ];
 
+/** Phases that look for the fault rather than act on it */
+const INVESTIGATIVE_PHASES: DiagnosticPhase[] = [
+  "survey",
+  "triage",
+  "isolation",
+];
+
 /**
  * Classifies user commands into diagnostic phases and scores methodology.
  *
+ * Given the evidence an incident's faults leave behind (see
+ * evidenceForFaults), it also records which of it the user's commands
+ * really surfaced, and scores efficiency and accuracy on that evidence.
+ *
  * Used by the Incident Workspace Panel to show live progress, and by the
  * Incident Session Orchestrator to score the user's diagnostic approach.
  */
 export class WorkflowTracker {
   private history: PhaseEntry[] = [];
   private hasReachedRemediation = false;
+  private findings: EvidenceFinding[] = [];
+
+  constructor(private evidence: Evidence[] = []) {}
 
   /**
-   * Record a command and classify it into a diagnostic phase.
+   * Record a command and classify it into a diagnostic phase. The
+   * observation (where it ran and what it printed) is matched against the
+   * declared evidence.
    */
-  recordCommand(command: string): PhaseEntry {
+  recordCommand(command: string, observation?: CommandObservation): PhaseEntry {
     const rawPhase = this.classifyCommand(command);
 
     // If we've already passed through remediation and the raw classification
@@ -148,13 +202,49 @@ export class WorkflowTracker {
     const entry: PhaseEntry = {
       command,
       phase,
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
     };
+    if (observation) {
+      entry.nodeId = observation.nodeId;
+    }
+    if (observation && this.evidence.length > 0) {
+      const revealed = this.evidence.filter(
+        (e) =>
+          !this.findings.some((f) => f.evidence.id === e.id) &&
+          revealsEvidence(e, command, observation),
+      );
+      for (const evidence of revealed) {
+        this.findings.push({
+          evidence,
+          command,
+          nodeId: observation.nodeId,
+          timestamp: entry.timestamp,
+        });
+      }
+      entry.evidence = revealed.map((e) => e.label);
+    }
 
     this.history.push(entry);
     return entry;
   }
 
+  /**
+   * The declared evidence found and missed so far, and the investigative
+   * commands that found none of it.
+   */
+  getEvidenceReport(): EvidenceReport {
+    const found = [...this.findings];
+    return {
+      found,
+      missed: this.evidence.filter(
+        (e) => !found.some((f) => f.evidence.id === e.id),
+      ),
+      irrelevant: this.investigativeCommands().filter(
+        (e) => !e.evidence?.length,
+      ),
+    };
+  }
+
   /**
    * Returns the full phase history.
    */
@@ -168,7 +258,7 @@ export class WorkflowTracker {
   calculateScore(input: ScoreInput): WorkflowScore {
     const methodology = this.scoreMethodology();
     const efficiency = this.scoreEfficiency();
-    const accuracy = input.correctDiagnosis ? MAX_SUBSCORE : 0;
+    const accuracy = this.scoreAccuracy(input);
     const noCollateral = Math.max(
       0,
       MAX_SUBSCORE - input.collateralDamage * COLLATERAL_PENALTY,
@@ -192,6 +282,37 @@ export class WorkflowTracker {
   // Private helpers
   // ---------------------------------------------------------------------------
 
+  /**
+   * Accuracy (0-20): all or nothing for a single root cause, otherwise an
+   * equal share for each root cause diagnosed correctly. A root cause with
+   * declared evidence only counts once some of that evidence was found, so
+   * a right answer picked without looking earns nothing.
+   */
+  private scoreAccuracy(input: ScoreInput): number {
+    const parts = input.rootCauses?.length
+      ? input.rootCauses
+      : [input.correctDiagnosis];
+    const correct = parts.filter(
+      (isCorrect, index) => isCorrect && this.isSupported(index),
+    ).length;
+    return Math.round((MAX_SUBSCORE * correct) / parts.length);
+  }
+
+  /** Whether the evidence of a root cause, if it has any, was found */
+  private isSupported(rootCause: number): boolean {
+    const declared = this.evidence.filter(
+      (e) => (e.rootCause ?? 0) === rootCause,
+    );
+    return (
+      declared.length === 0 ||
+      this.findings.some((f) => declared.includes(f.evidence))
+    );
+  }
+
+  private investigativeCommands(): PhaseEntry[] {
+    return this.history.filter((e) => INVESTIGATIVE_PHASES.includes(e.phase));
+  }
+
   private classifyCommand(command: string): DiagnosticPhase {
     const trimmed = command.trim();
     for (const rule of classificationRules) {
@@ -234,6 +355,9 @@ export class WorkflowTracker {
    * More commands asymptotically approach 0.
    */
   private scoreEfficiency(): number {
+    if (this.evidence.length > 0) {
+      return this.scoreEvidenceEfficiency();
+    }
     const count = this.history.length;
     if (count === 0) return MAX_SUBSCORE;
     // Score = baseline / count * (MAX_SUBSCORE / 2), capped at MAX_SUBSCORE
@@ -241,6 +365,19 @@ export class WorkflowTracker {
     return Math.min(MAX_SUBSCORE, Math.round(raw));
   }
 
+  /**
+   * Efficiency with declared evidence (0-20): the share of investigative
+   * commands that revealed evidence not found before. Remediation and
+   * verification act on the findings and are left out; no investigation at
+   * all scores 0.
+   */
+  private scoreEvidenceEfficiency(): number {
+    const investigative = this.investigativeCommands();
+    if (investigative.length === 0) return 0;
+    const relevant = investigative.filter((e) => e.evidence?.length).length;
+    return Math.round((MAX_SUBSCORE * relevant) / investigative.length);
+  }
+
   /**
    * Completeness (0-20): rewards having a verification step after remediation.
    *
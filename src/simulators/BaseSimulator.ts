@@ -32,6 +32,22 @@ import {
 } from "@/cli/formatters";
 import { StateEngine } from "@/cli/StateEngine";
 import { useSimulationStore } from "@/store/simulationStore";
+import type { SubnetSweep } from "@/utils/infinibandFabric";
+import type { NVSwitchFabricUpdate } from "@/utils/nvswitchFabric";
+import type { DcgmHostEngineUpdate } from "@/utils/dcgmHostEngine";
+import type { NodePackageUpdate } from "@/utils/nodePackages";
+import type { NodeFirmwareUpdate } from "@/utils/firmwareInventory";
+import type { BlueFieldUpdate } from "@/utils/blueFieldDpu";
+import {
+  planPowerAction,
+  type NodePowerUpdate,
+  type PowerAction,
+} from "@/utils/nodePower";
+import { simulationClock } from "@/simulation/simulationClock";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import type { VirtualFileSystem } from "@/simulation/virtualFileSystem";
+import { clusterContainerRuntime } from "@/store/clusterContainerRuntime";
+import type { ContainerRuntime } from "@/simulation/containerRuntime";
 
 /**
  * Interface for routing state mutations to either ScenarioContext or global store
@@ -53,6 +69,13 @@ export interface StateMutator {
     targetUtilization?: number,
   ): void;
   deallocateGPUsForJob(jobId: number): void;
+  applyIBSweep(sweep: SubnetSweep): void;
+  updateNVSwitchFabric(nodeId: string, update: NVSwitchFabricUpdate): void;
+  updateNodePower(nodeId: string, update: NodePowerUpdate): void;
+  updateDcgmHostEngine(nodeId: string, update: DcgmHostEngineUpdate): void;
+  updateNodePackages(nodeId: string, update: NodePackageUpdate): void;
+  updateNodeFirmware(nodeId: string, update: NodeFirmwareUpdate): void;
+  updateBlueField(nodeId: string, update: BlueFieldUpdate): void;
 }
 
 /**
@@ -554,14 +577,21 @@ export abstract class BaseSimulator {
    * vs value-consuming. Falls back to heuristic parsing if registry
    * is unavailable.
    * @param cmdLine - Raw command line string
+   * @param subcommand - Limit the schema to this subcommand's flags
    * @returns Parsed command object
    */
-  protected parseWithSchema(cmdLine: string): ParsedCommand {
+  protected parseWithSchema(
+    cmdLine: string,
+    subcommand?: string,
+  ): ParsedCommand {
     if (!this.definitionRegistry) {
       return parse(cmdLine);
     }
 
-    const schema = this.definitionRegistry.getFlagSchema(this.getMetadata().name);
+    const schema = this.definitionRegistry.getFlagSchema(
+      this.getMetadata().name,
+      subcommand,
+    );
     return parse(cmdLine, schema);
   }
 
@@ -976,6 +1006,24 @@ export abstract class BaseSimulator {
     return this.resolveCluster(context).nodes;
   }
 
+  /**
+   * Resolve the node filesystems from the active ScenarioContext, or the
+   * live cluster's filesystems otherwise.
+   */
+  protected resolveFileSystem(context: CommandContext): VirtualFileSystem {
+    return context.scenarioContext?.getFileSystem() ?? clusterFileSystem;
+  }
+
+  /**
+   * Resolve the container images and containers from the active
+   * ScenarioContext, or the live cluster's otherwise.
+   */
+  protected resolveContainerRuntime(context: CommandContext): ContainerRuntime {
+    return (
+      context.scenarioContext?.getContainerRuntime() ?? clusterContainerRuntime
+    );
+  }
+
   /**
    * Resolve a StateMutator that routes mutations to ScenarioContext when active,
    * or to the global simulation store otherwise.
@@ -997,6 +1045,17 @@ export abstract class BaseSimulator {
         allocateGPUsForJob: (nodeId, gpuIds, jobId, targetUtilization) =>
           sc.allocateGPUsForJob(nodeId, gpuIds, jobId, targetUtilization),
         deallocateGPUsForJob: (jobId) => sc.deallocateGPUsForJob(jobId),
+        applyIBSweep: (sweep) => sc.applyIBSweep(sweep),
+        updateNVSwitchFabric: (nodeId, update) =>
+          sc.updateNVSwitchFabric(nodeId, update),
+        updateNodePower: (nodeId, update) => sc.updateNodePower(nodeId, update),
+        updateDcgmHostEngine: (nodeId, update) =>
+          sc.updateDcgmHostEngine(nodeId, update),
+        updateNodePackages: (nodeId, update) =>
+          sc.updateNodePackages(nodeId, update),
+        updateNodeFirmware: (nodeId, update) =>
+          sc.updateNodeFirmware(nodeId, update),
+        updateBlueField: (nodeId, update) => sc.updateBlueField(nodeId, update),
       };
     }
     const store = useSimulationStore.getState();
@@ -1014,6 +1073,35 @@ export abstract class BaseSimulator {
       allocateGPUsForJob: (nodeId, gpuIds, jobId, targetUtilization) =>
         store.allocateGPUsForJob(nodeId, gpuIds, jobId, targetUtilization),
       deallocateGPUsForJob: (jobId) => store.deallocateGPUsForJob(jobId),
+      applyIBSweep: (sweep) => store.applyIBSweep(sweep),
+      updateNVSwitchFabric: (nodeId, update) =>
+        store.updateNVSwitchFabric(nodeId, update),
+      updateNodePower: (nodeId, update) =>
+        store.updateNodePower(nodeId, update),
+      updateDcgmHostEngine: (nodeId, update) =>
+        store.updateDcgmHostEngine(nodeId, update),
+      updateNodePackages: (nodeId, update) =>
+        store.updateNodePackages(nodeId, update),
+      updateNodeFirmware: (nodeId, update) =>
+        store.updateNodeFirmware(nodeId, update),
+      updateBlueField: (nodeId, update) =>
+        store.updateBlueField(nodeId, update),
     };
   }
+
+  /**
+   * Switch a node's chassis power through its BMC. Returns the BMC's
+   * answer when it refuses the request.
+   */
+  protected applyPowerAction(
+    context: CommandContext,
+    node: DGXNode,
+    action: PowerAction,
+  ): string | undefined {
+    const plan = planPowerAction(node, action, simulationClock.now());
+    if (plan.update) {
+      this.resolveMutator(context).updateNodePower(node.id, plan.update);
+    }
+    return plan.error;
+  }
 }
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ApptainerSimulator } from "../apptainerSimulator";
+import { useSimulationStore } from "@/store/simulationStore";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import { clusterContainerRuntime } from "@/store/clusterContainerRuntime";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import { parse } from "@/utils/commandParser";
+import type { CommandContext } from "@/types/commands";
+
+vi.mock("@/store/simulationStore");
+
+describe("ApptainerSimulator", () => {
+  let simulator: ApptainerSimulator;
+  let context: CommandContext;
+
+  const run = (cmd: string) => simulator.execute(parse(cmd), context);
+  const read = (path: string) =>
+    clusterFileSystem.readFile("dgx-00", path).content;
+
+  beforeEach(() => {
+    clusterFileSystem.reset();
+    clusterContainerRuntime.reset();
+    simulator = new ApptainerSimulator();
+    context = {
+      currentNode: "dgx-00",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+    };
+    vi.mocked(useSimulationStore.getState).mockReturnValue({
+      cluster: createDefaultCluster(),
+    } as unknown as ReturnType<typeof useSimulationStore.getState>);
+  });
+
+  describe("Metadata", () => {
+    it("should register apptainer and singularity", () => {
+      const metadata = simulator.getMetadata();
+      expect(metadata.commands.map((c) => c.name)).toEqual([
+        "apptainer",
+        "singularity",
+      ]);
+    });
+
+    it("should print the version of each flavor", () => {
+      expect(run("apptainer --version").output).toBe("apptainer version 1.2.5");
+      expect(run("singularity --version").output).toBe(
+        "singularity-ce version 3.11.4",
+      );
+    });
+
+    it("should reject unknown subcommands", () => {
+      const result = run("apptainer launch image.sif");
+      expect(result.exitCode).toBe(1);
+      expect(result.output).toContain('unknown command "launch"');
+    });
+  });
+
+  describe("pull", () => {
+    it("should write a SIF file named after the image", () => {
+      const result = run("apptainer pull docker://ubuntu:22.04");
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("INFO:    Creating SIF file...");
+      expect(read("/root/ubuntu_22.04.sif")).toContain(
+        "Source: docker://ubuntu:22.04",
+      );
+    });
+
+    it("should skip cached blobs", () => {
+      const result = run(
+        "apptainer pull docker://nvcr.io/nvidia/pytorch:24.01-py3",
+      );
+      expect(result.output).toContain("skipped: already exists");
+    });
+
+    it("should not overwrite an existing image without --force", () => {
+      run("apptainer pull cuda.sif docker://nvidia/cuda:12.4.0-base");
+
+      const again = run(
+        "apptainer pull cuda.sif docker://nvidia/cuda:12.4.0-base",
+      );
+      expect(again.exitCode).toBe(255);
+      expect(again.output).toContain('Image file already exists: "cuda.sif"');
+
+      expect(
+        run("apptainer pull -F cuda.sif docker://nvidia/cuda:12.4.0-base")
+          .exitCode,
+      ).toBe(0);
+    });
+  });
+
+  describe("build", () => {
+    it("should build from a definition file with a runscript", () => {
+      clusterFileSystem.writeFile(
+        "dgx-00",
+        "/root/app.def",
+        [
+          "Bootstrap: docker",
+          "From: nvcr.io/nvidia/pytorch:24.01-py3",
+          "",
+          "%post",
+          "    pip install wandb",
+          "",
+          "%runscript",
+          '    echo "training $@"',
+        ].join("\n"),
+      );
+
+      const result = run("apptainer build app.sif app.def");
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("+ pip install wandb");
+      expect(result.output).toContain("INFO:    Build complete: app.sif");
+
+      expect(run("apptainer run app.sif epoch 1").output).toBe(
+        "training epoch 1",
+      );
+      expect(run("apptainer inspect --runscript app.sif").output).toContain(
+        'echo "training $@"',
+      );
+    });
+
+    it("should require a bootstrap header", () => {
+      clusterFileSystem.writeFile("dgx-00", "/root/bad.def", "%post\n  ls");
+
+      const result = run("apptainer build bad.sif bad.def");
+      expect(result.exitCode).toBe(255);
+      expect(result.output).toContain("no bootstrap specification found");
+    });
+
+    it("should refuse to overwrite the build target", () => {
+      run("apptainer pull docker://ubuntu:22.04");
+
+      const result = run(
+        "apptainer build ubuntu_22.04.sif docker://ubuntu:22.04",
+      );
+      expect(result.output).toContain(
+        "build target 'ubuntu_22.04.sif' already exists",
+      );
+    });
+  });
+
+  describe("exec", () => {
+    beforeEach(() => {
+      run("apptainer pull docker://nvcr.io/nvidia/pytorch:24.01-py3");
+    });
+
+    it("should see GPUs only with --nv", () => {
+      const withGpus = run(
+        "apptainer exec --nv pytorch_24.01-py3.sif nvidia-smi",
+      );
+      expect(withGpus.exitCode).toBe(0);
+      expect(withGpus.output).toContain("GPU 0:");
+
+      const without = run("apptainer exec pytorch_24.01-py3.sif nvidia-smi");
+      expect(without.exitCode).toBe(255);
+      expect(without.output).toContain(
+        '"nvidia-smi": executable file not found in $PATH',
+      );
+    });
+
+    it("should fail --nvccli without nvidia-container-toolkit", () => {
+      clusterContainerRuntime.setToolkitInstalled("dgx-00", false);
+
+      const result = run(
+        "apptainer exec --nvccli pytorch_24.01-py3.sif nvidia-smi",
+      );
+      expect(result.exitCode).toBe(255);
+      expect(result.output).toContain("nvidia-container-cli");
+    });
+
+    it("should bind-mount host paths", () => {
+      clusterFileSystem.mkdir("dgx-00", "/data");
+      clusterFileSystem.writeFile("dgx-00", "/data/README", "datasets");
+
+      const result = run(
+        "apptainer exec -B /data:/mnt pytorch_24.01-py3.sif cat /mnt/README",
+      );
+      expect(result.output).toBe("datasets");
+    });
+
+    it("should fail when a bind source is missing", () => {
+      const result = run(
+        "apptainer exec --bind /datasets pytorch_24.01-py3.sif ls /datasets",
+      );
+      expect(result.exitCode).toBe(255);
+      expect(result.output).toContain("mount source /datasets doesn't exist");
+    });
+
+    it("should report a missing image file", () => {
+      const result = run("apptainer exec missing.sif hostname");
+      expect(result.exitCode).toBe(255);
+      expect(result.output).toContain("could not open image /root/missing.sif");
+    });
+
+    it("should reject files that are not SIF images", () => {
+      clusterFileSystem.writeFile("dgx-00", "/root/notes.txt", "hello");
+
+      const result = run("apptainer exec notes.txt hostname");
+      expect(result.output).toContain("image format not recognized");
+    });
+  });
+
+  describe("shell", () => {
+    it("should keep a session open until exit", () => {
+      run("singularity pull docker://ubuntu:22.04");
+
+      const opened = run("singularity shell ubuntu_22.04.sif");
+      expect(opened.prompt).toBe("Singularity> ");
+      expect(simulator.isInShell()).toBe(true);
+
+      const inside = simulator.executeInteractive("pwd", context);
+      expect(inside.output).toBe("/root");
+      expect(inside.prompt).toBe("Singularity> ");
+
+      const missing = simulator.executeInteractive("nvidia-smi", context);
+      expect(missing.output).toBe("bash: nvidia-smi: command not found");
+
+      expect(
+        simulator.executeInteractive("exit", context).prompt,
+      ).toBeUndefined();
+      expect(simulator.isInShell()).toBe(false);
+    });
+
+    it("should print the NGC banner when running an image without a runscript", () => {
+      run("apptainer pull docker://nvcr.io/nvidia/pytorch:24.01-py3");
+
+      const result = run("apptainer run pytorch_24.01-py3.sif");
+      expect(result.output).toContain("== PyTorch ==");
+      expect(result.output).toContain("NVIDIA Driver was not detected");
+      expect(result.prompt).toBe("Apptainer> ");
+    });
+  });
+});
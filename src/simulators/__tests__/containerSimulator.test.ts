@@ -3,6 +3,8 @@ import { ContainerSimulator } from "../containerSimulator";
 import { parse } from "@/utils/commandParser";
 import type { CommandContext } from "@/types/commands";
 import { useSimulationStore } from "@/store/simulationStore";
+import { clusterContainerRuntime } from "@/store/clusterContainerRuntime";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
 
 // Mock the store
 vi.mock("@/store/simulationStore");
@@ -12,6 +14,8 @@ describe("ContainerSimulator", () => {
   let context: CommandContext;
 
   beforeEach(() => {
+    clusterContainerRuntime.reset();
+    clusterFileSystem.reset();
     simulator = new ContainerSimulator();
     context = {
       currentNode: "dgx-00",
@@ -402,7 +406,9 @@ describe("ContainerSimulator", () => {
 
       it("should pull image from NGC with manual positionalArg", () => {
         // Use full command string so parseWithSchema can re-parse correctly
-        const parsed = parse("ngc registry image pull nvcr.io/nvidia/pytorch:24.01-py3");
+        const parsed = parse(
+          "ngc registry image pull nvcr.io/nvidia/pytorch:24.01-py3",
+        );
         const result = simulator.execute(parsed, context);
 
         expect(result.exitCode).toBe(0);
@@ -515,13 +521,31 @@ describe("ContainerSimulator", () => {
 
     describe("enroot create", () => {
       it("should create container from image with manual positionalArg", () => {
+        simulator.execute(
+          parse(
+            "enroot import -o pytorch-image.sqsh docker://nvidia/cuda:12.4.0-base",
+          ),
+          context,
+        );
         // Use full command string so parseWithSchema can re-parse correctly
         const parsed = parse("enroot create pytorch-image.sqsh");
         const result = simulator.execute(parsed, context);
 
         expect(result.exitCode).toBe(0);
         expect(result.output).toContain("Creating container");
-        expect(result.output).toContain("Container created");
+        expect(result.output).toContain("Container created: pytorch-image");
+      });
+
+      it("should fail for a missing image file", () => {
+        const result = simulator.execute(
+          parse("enroot create missing.sqsh"),
+          context,
+        );
+
+        expect(result.exitCode).toBe(1);
+        expect(result.output).toContain(
+          "[ERROR] No such file or directory: missing.sqsh",
+        );
       });
 
       it("should require image for create", () => {
@@ -547,6 +571,14 @@ describe("ContainerSimulator", () => {
 
     describe("enroot start", () => {
       it("should start container with manual positionalArg", () => {
+        simulator.execute(
+          parse("enroot import docker://nvidia/cuda:12.4.0-base"),
+          context,
+        );
+        simulator.execute(
+          parse("enroot create -n my-container nvidia+cuda+12.4.0-base.sqsh"),
+          context,
+        );
         // Use full command string so parseWithSchema can re-parse correctly
         const parsed = parse("enroot start my-container");
         const result = simulator.execute(parsed, context);
@@ -47,6 +47,7 @@ describe('DcgmiSimulator Policy', () => {
           },
         ],
       },
+      updateDcgmHostEngine: vi.fn(),
     } as unknown as ReturnType<typeof useSimulationStore.getState>);
   });
 
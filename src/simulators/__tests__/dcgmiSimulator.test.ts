@@ -91,6 +91,7 @@ describe("DcgmiSimulator", () => {
           },
         ],
       },
+      updateDcgmHostEngine: vi.fn(),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any);
   });
@@ -5,6 +5,10 @@ import type { CommandContext } from "@/types/commands";
 import { useSimulationStore } from "@/store/simulationStore";
 import type { NVLinkConnection, XIDError } from "@/types/hardware";
 import * as hardwareSpecsModule from "@/data/hardwareSpecs";
+import {
+  applyNVSwitchFabricUpdate,
+  type NVSwitchFabricUpdate,
+} from "@/utils/nvswitchFabric";
 
 // Mock the store
 vi.mock("@/store/simulationStore");
@@ -91,22 +95,29 @@ describe("FabricManagerSimulator", () => {
       }),
     );
 
+    const cluster = {
+      nodes: [
+        {
+          id: "dgx-00",
+          hostname: "dgx-node01",
+          systemType: "DGX-H100",
+          healthStatus: "OK",
+          nvidiaDriverVersion: "535.129.03",
+          cudaVersion: "12.2",
+          gpus,
+        },
+      ],
+    };
     vi.mocked(useSimulationStore.getState).mockReturnValue({
-      cluster: {
-        nodes: [
-          {
-            id: "dgx-00",
-            hostname: "dgx-node01",
-            systemType: "DGX-H100",
-            healthStatus: "OK",
-            nvidiaDriverVersion: "535.129.03",
-            cudaVersion: "12.2",
-            gpus,
-          },
-        ],
-      },
+      cluster,
+      updateNVSwitchFabric: vi.fn(
+        (nodeId: string, update: NVSwitchFabricUpdate) =>
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          applyNVSwitchFabricUpdate(cluster as any, nodeId, update),
+      ),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any);
+    return cluster;
   }
 
   beforeEach(() => {
@@ -418,7 +429,12 @@ describe("FabricManagerSimulator", () => {
   // Service control commands
   // =========================================================
   describe("Service control", () => {
+    beforeEach(() => {
+      setupMock(8);
+    });
+
     it("should show success message for start", () => {
+      simulator.execute(parse("nv-fabricmanager stop"), context);
       const result = simulator.execute(
         parse("nv-fabricmanager start"),
         context,
@@ -428,6 +444,15 @@ describe("FabricManagerSimulator", () => {
       expect(result.output).toContain("started successfully");
     });
 
+    it("should report an instance that is already running", () => {
+      const result = simulator.execute(
+        parse("nv-fabricmanager start"),
+        context,
+      );
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("already running");
+    });
+
     it("should show success message for stop", () => {
       const result = simulator.execute(parse("nv-fabricmanager stop"), context);
       expect(result.exitCode).toBe(0);
@@ -444,6 +469,103 @@ describe("FabricManagerSimulator", () => {
       expect(result.output).toContain("Restarting NVIDIA Fabric Manager");
       expect(result.output).toContain("restarted successfully");
     });
+
+    it("should untrain every NVLink while stopped", () => {
+      const cluster = setupMock(8);
+      simulator.execute(parse("nv-fabricmanager stop"), context);
+      const links = cluster.nodes[0].gpus.flatMap((g) => g.nvlinks);
+      expect(links.every((l) => l.status === "Inactive")).toBe(true);
+
+      const status = simulator.execute(
+        parse("nv-fabricmanager status"),
+        context,
+      );
+      expect(status.output).toContain("Stopped");
+      expect(status.output).toContain("GPUs Registered");
+    });
+
+    it("should fail to start with a version that does not match the driver", () => {
+      const cluster = setupMock(8);
+      simulator.execute(parse("nv-fabricmanager stop"), context);
+      applyNVSwitchFabricUpdate(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        cluster as any,
+        "dgx-00",
+        { fabricManager: { version: "550.54.15" } },
+      );
+      const result = simulator.execute(
+        parse("nv-fabricmanager start"),
+        context,
+      );
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain("don't match with driver version");
+    });
+  });
+
+  // =========================================================
+  // Shared NVSwitch mode and partitions
+  // =========================================================
+  describe("Partitions", () => {
+    beforeEach(() => {
+      setupMock(8);
+    });
+
+    it("should refuse to change FABRIC_MODE while running", () => {
+      const result = simulator.execute(
+        parse("nv-fabricmanager config set FABRIC_MODE=1"),
+        context,
+      );
+      expect(result.exitCode).not.toBe(0);
+    });
+
+    it("should refuse partitions in bare metal mode", () => {
+      const result = simulator.execute(
+        parse("nv-fabricmanager partition activate 1"),
+        context,
+      );
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain("shared NVSwitch mode");
+    });
+
+    it("should register only the GPUs of active partitions", () => {
+      const cluster = setupMock(8);
+      simulator.execute(parse("nv-fabricmanager stop"), context);
+      simulator.execute(
+        parse("nv-fabricmanager config set FABRIC_MODE=1"),
+        context,
+      );
+      simulator.execute(parse("nv-fabricmanager start"), context);
+      const result = simulator.execute(
+        parse("nv-fabricmanager partition activate 1"),
+        context,
+      );
+      expect(result.exitCode).toBe(0);
+
+      // Partition 1 holds GPUs 0-3, the first half of the baseboard
+      const gpus = cluster.nodes[0].gpus;
+      expect(gpus[0].nvlinks[0].status).toBe("Active");
+      expect(gpus[7].nvlinks[0].status).toBe("Inactive");
+    });
+
+    it("should not activate partitions that share GPUs", () => {
+      setupMock(8);
+      simulator.execute(parse("nv-fabricmanager stop"), context);
+      simulator.execute(
+        parse("nv-fabricmanager config set FABRIC_MODE=1"),
+        context,
+      );
+      simulator.execute(parse("nv-fabricmanager start"), context);
+      simulator.execute(
+        parse("nv-fabricmanager partition activate 0"),
+        context,
+      );
+      const result = simulator.execute(
+        parse("nv-fabricmanager partition activate 1"),
+        context,
+      );
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain("active partition 0");
+    });
   });
 
   // =========================================================
@@ -480,7 +602,7 @@ describe("FabricManagerSimulator", () => {
         context,
       );
       expect(result.exitCode).toBe(0);
-      expect(result.output).toContain("FABRIC_MODE=FULL_SPEED");
+      expect(result.output).toContain("FABRIC_MODE=0");
       expect(result.output).toContain("FM_CMD_PORT_NUMBER=16001");
       expect(result.output).toContain("HEALTH_CHECK_ENABLED=1");
     });
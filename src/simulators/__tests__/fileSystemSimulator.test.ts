@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { FileSystemSimulator, applyModeString } from "../fileSystemSimulator";
+import { useSimulationStore } from "@/store/simulationStore";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import { parse } from "@/utils/commandParser";
+import type { CommandContext } from "@/types/commands";
+
+vi.mock("@/store/simulationStore");
+
+describe("FileSystemSimulator", () => {
+  let simulator: FileSystemSimulator;
+  let context: CommandContext;
+
+  const run = (cmd: string) => simulator.execute(parse(cmd), context);
+  const read = (path: string) =>
+    clusterFileSystem.readFile("dgx-00", path).content;
+
+  beforeEach(() => {
+    clusterFileSystem.reset();
+    simulator = new FileSystemSimulator();
+    context = {
+      currentNode: "dgx-00",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+    };
+    vi.mocked(useSimulationStore.getState).mockReturnValue({
+      cluster: createDefaultCluster(),
+    } as unknown as ReturnType<typeof useSimulationStore.getState>);
+  });
+
+  describe("Metadata", () => {
+    it("should list all file commands", () => {
+      const metadata = simulator.getMetadata();
+      expect(metadata.name).toBe("file-system");
+      expect(metadata.commands.map((c) => c.name)).toEqual([
+        "touch",
+        "mkdir",
+        "rmdir",
+        "rm",
+        "cp",
+        "mv",
+        "ln",
+        "chmod",
+        "chown",
+        "stat",
+      ]);
+    });
+  });
+
+  describe("touch and mkdir", () => {
+    it("should create an empty file relative to the cwd", () => {
+      expect(run("touch notes.txt").exitCode).toBe(0);
+      expect(read("/root/notes.txt")).toBe("");
+    });
+
+    it("should fail without a parent directory", () => {
+      const result = run("touch /missing/file");
+      expect(result.exitCode).toBe(1);
+      expect(result.output).toContain(
+        "touch: cannot touch '/missing/file': No such file or directory",
+      );
+    });
+
+    it("should create parents with -p", () => {
+      expect(run("mkdir /data/a/b").exitCode).toBe(1);
+      expect(run("mkdir -p /data/a/b").exitCode).toBe(0);
+      expect(run("mkdir -p /data/a/b").exitCode).toBe(0);
+      expect(clusterFileSystem.stat("dgx-00", "/data/a/b")?.type).toBe(
+        "directory",
+      );
+    });
+
+    it("should report missing operands", () => {
+      expect(run("mkdir").output).toContain("mkdir: missing operand");
+    });
+  });
+
+  describe("rm and rmdir", () => {
+    it("should refuse directories without -r", () => {
+      run("mkdir /tmp/d");
+      const result = run("rm /tmp/d");
+      expect(result.exitCode).toBe(1);
+      expect(result.output).toContain(
+        "rm: cannot remove '/tmp/d': Is a directory",
+      );
+    });
+
+    it("should remove trees with combined flags", () => {
+      run("mkdir -p /tmp/d/e");
+      run("touch /tmp/d/e/f");
+      expect(run("rm -rf /tmp/d").exitCode).toBe(0);
+      expect(clusterFileSystem.exists("dgx-00", "/tmp/d")).toBe(false);
+    });
+
+    it("should ignore missing files with -f", () => {
+      expect(run("rm -f /tmp/nothing").exitCode).toBe(0);
+      expect(run("rm /tmp/nothing").output).toContain(
+        "No such file or directory",
+      );
+    });
+
+    it("should refuse to remove / recursively", () => {
+      const result = run("rm -rf /");
+      expect(result.exitCode).toBe(1);
+      expect(result.output).toContain("dangerous to operate recursively");
+      expect(clusterFileSystem.exists("dgx-00", "/etc")).toBe(true);
+    });
+
+    it("should only remove empty directories with rmdir", () => {
+      run("mkdir -p /tmp/d/e");
+      expect(run("rmdir /tmp/d").output).toContain("Directory not empty");
+      expect(run("rmdir /tmp/d/e").exitCode).toBe(0);
+    });
+  });
+
+  describe("cp and mv", () => {
+    it("should copy a file into a directory", () => {
+      expect(run("cp /etc/nccl.conf /tmp/").exitCode).toBe(0);
+      expect(read("/tmp/nccl.conf")).toContain("NCCL_DEBUG=INFO");
+    });
+
+    it("should omit directories without -r", () => {
+      const result = run("cp /root/scripts /tmp/s");
+      expect(result.output).toContain(
+        "cp: -r not specified; omitting directory '/root/scripts'",
+      );
+      expect(run("cp -r /root/scripts /tmp/s").exitCode).toBe(0);
+      expect(read("/tmp/s/setup.sh")).toContain("#!/bin/bash");
+    });
+
+    it("should refuse to copy a file onto itself", () => {
+      expect(run("cp HPL.dat /root/HPL.dat").output).toContain(
+        "'HPL.dat' and '/root/HPL.dat' are the same file",
+      );
+    });
+
+    it("should snapshot live files when copying", () => {
+      run("cp /etc/slurm/gres.conf /tmp/gres.bak");
+      expect(read("/tmp/gres.bak")).toContain("Name=gpu");
+      expect(clusterFileSystem.stat("dgx-00", "/tmp/gres.bak")?.live).toBe(
+        false,
+      );
+    });
+
+    it("should rename files with mv", () => {
+      run("touch /tmp/a");
+      expect(run("mv /tmp/a /tmp/b").exitCode).toBe(0);
+      expect(clusterFileSystem.exists("dgx-00", "/tmp/a")).toBe(false);
+      expect(clusterFileSystem.exists("dgx-00", "/tmp/b")).toBe(true);
+    });
+
+    it("should require a directory target for several sources", () => {
+      run("touch /tmp/a /tmp/b");
+      expect(run("mv /tmp/a /tmp/b /tmp/c").output).toContain(
+        "mv: target '/tmp/c' is not a directory",
+      );
+    });
+
+    it("should report missing sources", () => {
+      expect(run("mv /tmp/none /tmp/x").output).toContain(
+        "mv: cannot stat '/tmp/none': No such file or directory",
+      );
+    });
+  });
+
+  describe("ln", () => {
+    it("should create symbolic links", () => {
+      expect(run("ln -s /etc/nccl.conf /tmp/nccl").exitCode).toBe(0);
+      expect(clusterFileSystem.lstat("dgx-00", "/tmp/nccl")?.target).toBe(
+        "/etc/nccl.conf",
+      );
+      expect(read("/tmp/nccl")).toContain("NCCL_DEBUG");
+    });
+
+    it("should replace an existing link with -f", () => {
+      run("ln -s /etc/fstab /tmp/link");
+      expect(run("ln -s /etc/hosts /tmp/link").output).toContain("File exists");
+      expect(run("ln -sf /etc/hosts /tmp/link").exitCode).toBe(0);
+      expect(clusterFileSystem.lstat("dgx-00", "/tmp/link")?.target).toBe(
+        "/etc/hosts",
+      );
+    });
+  });
+
+  describe("chmod and chown", () => {
+    it("should apply octal and symbolic modes", () => {
+      run("touch /tmp/run.sh");
+      run("chmod 600 /tmp/run.sh");
+      expect(clusterFileSystem.stat("dgx-00", "/tmp/run.sh")?.mode).toBe(0o600);
+      run("chmod +x /tmp/run.sh");
+      expect(clusterFileSystem.stat("dgx-00", "/tmp/run.sh")?.mode).toBe(0o711);
+      run("chmod go-x /tmp/run.sh");
+      expect(clusterFileSystem.stat("dgx-00", "/tmp/run.sh")?.mode).toBe(0o700);
+    });
+
+    it("should reject invalid modes", () => {
+      expect(run("chmod 999 /tmp").output).toContain(
+        "chmod: invalid mode: '999'",
+      );
+    });
+
+    it("should change modes recursively", () => {
+      run("mkdir -p /tmp/d/e");
+      run("touch /tmp/d/e/f");
+      run("chmod -R 700 /tmp/d");
+      expect(clusterFileSystem.stat("dgx-00", "/tmp/d/e/f")?.mode).toBe(0o700);
+    });
+
+    it("should refuse to change /proc", () => {
+      expect(run("chmod 777 /proc/driver/nvidia/version").output).toContain(
+        "Operation not permitted",
+      );
+    });
+
+    it("should validate users and groups", () => {
+      expect(run("chown slurm:slurm /var/log/slurm").exitCode).toBe(0);
+      const stat = clusterFileSystem.stat("dgx-00", "/var/log/slurm");
+      expect(stat?.owner).toBe("slurm");
+      expect(stat?.group).toBe("slurm");
+      expect(run("chown nobody /tmp").output).toContain(
+        "chown: invalid user: 'nobody'",
+      );
+      expect(run("chown root:wheel /tmp").output).toContain(
+        "chown: invalid group: 'root:wheel'",
+      );
+    });
+  });
+
+  describe("stat", () => {
+    it("should print GNU-style status", () => {
+      const result = run("stat /etc/fstab");
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("  File: /etc/fstab");
+      expect(result.output).toContain("regular file");
+      expect(result.output).toContain(
+        "Access: (0644/-rw-r--r--)  Uid: (    0/    root)",
+      );
+    });
+
+    it("should describe symlinks unless -L is given", () => {
+      expect(run("stat /bin").output).toContain("File: /bin -> usr/bin");
+      expect(run("stat -L /bin").output).toContain("directory");
+    });
+
+    it("should support custom formats", () => {
+      const result = run("stat -c %a:%U:%G /var/log/syslog");
+      expect(result.output).toBe("640:syslog:adm");
+    });
+  });
+
+  describe("helpers", () => {
+    it("should report path types for cd and test", () => {
+      expect(simulator.getPathType("scripts", context)).toBe("directory");
+      expect(simulator.getPathType("HPL.dat", context)).toBe("file");
+      expect(simulator.getPathType("missing", context)).toBeNull();
+    });
+  });
+
+  describe("scenario isolation", () => {
+    it("should write to the scenario's filesystem, not the cluster's", () => {
+      const scenario = new ScenarioContext("fs-test", createDefaultCluster());
+      const scenarioContext = { ...context, scenarioContext: scenario };
+      simulator.execute(parse("touch /tmp/scenario-only"), scenarioContext);
+
+      expect(
+        scenario.getFileSystem().exists("dgx-00", "/tmp/scenario-only"),
+      ).toBe(true);
+      expect(clusterFileSystem.exists("dgx-00", "/tmp/scenario-only")).toBe(
+        false,
+      );
+    });
+  });
+});
+
+describe("applyModeString", () => {
+  it("should handle symbolic clauses", () => {
+    expect(applyModeString("u=rwx,go=rx", 0, false)).toBe(0o755);
+    expect(applyModeString("a-w", 0o644, false)).toBe(0o444);
+    expect(applyModeString("+t", 0o777, true)).toBe(0o1777);
+    expect(applyModeString("u+s", 0o755, false)).toBe(0o4755);
+  });
+
+  it("should only add X to directories and executables", () => {
+    expect(applyModeString("a+X", 0o644, false)).toBe(0o644);
+    expect(applyModeString("a+X", 0o644, true)).toBe(0o755);
+  });
+
+  it("should reject malformed modes", () => {
+    expect(applyModeString("u+q", 0o644, false)).toBeNull();
+    expect(applyModeString("12345", 0o644, false)).toBeNull();
+  });
+});
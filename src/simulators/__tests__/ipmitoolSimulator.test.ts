@@ -110,6 +110,7 @@ describe("IpmitoolSimulator", () => {
           },
         ],
       },
+      updateNodePower: vi.fn(),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any);
   });
@@ -182,7 +183,7 @@ describe("IpmitoolSimulator", () => {
       const result = simulator.execute(parsed, context);
 
       expect(result.exitCode).toBe(0);
-      expect(result.output).toBe("Chassis Power Control: On");
+      expect(result.output).toBe("Chassis Power Control: Up/On");
     });
 
     it("ipmitool power cycle should return power control message", () => {
@@ -191,6 +192,12 @@ describe("IpmitoolSimulator", () => {
 
       expect(result.exitCode).toBe(0);
       expect(result.output).toBe("Chassis Power Control: Cycle");
+      expect(
+        useSimulationStore.getState().updateNodePower,
+      ).toHaveBeenCalledWith(
+        "dgx-00",
+        expect.objectContaining({ action: "cycle", powerState: "On" }),
+      );
     });
 
     it("ipmitool power with no args should default to status", () => {
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { LinuxUtilsSimulator } from "../linuxUtilsSimulator";
 import { useSimulationStore } from "@/store/simulationStore";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import { clusterContainerRuntime } from "@/store/clusterContainerRuntime";
 import { parse } from "@/utils/commandParser";
 import type { CommandContext } from "@/types/commands";
 
@@ -19,15 +21,28 @@ describe("LinuxUtilsSimulator", () => {
       environment: {},
       history: [],
     };
+    clusterFileSystem.reset();
+    clusterContainerRuntime.reset();
     vi.mocked(useSimulationStore.getState).mockReturnValue({
       cluster: {
+        name: "DGX SuperPOD",
+        slurmConfig: { controlMachine: "dgx-00", partitions: ["batch"] },
         nodes: [
           {
             id: "dgx-00",
             hostname: "dgx-00.cluster.local",
             systemType: "DGX-H100",
             cudaVersion: "12.4",
-            gpus: [],
+            nvidiaDriverVersion: "535.129.03",
+            kernelVersion: "5.15.0-91-generic",
+            gpus: [0, 1].map((id) => ({
+              id,
+              uuid: `GPU-0000000${id}-1111-2222-3333-444444444444`,
+              name: "NVIDIA H100 80GB HBM3",
+              type: "H100-SXM",
+              pciAddress: `00000000:${id === 0 ? "18" : "2A"}:00.0`,
+              xidErrors: [],
+            })),
             cpuCount: 2,
             ramTotal: 2048,
             ramUsed: 512,
@@ -44,7 +59,7 @@ describe("LinuxUtilsSimulator", () => {
 
       expect(metadata.name).toBe("linux-utils");
       expect(metadata.version).toBe("1.0.0");
-      expect(metadata.commands).toHaveLength(18);
+      expect(metadata.commands).toHaveLength(20);
       expect(metadata.commands.map((c) => c.name)).toEqual([
         "cat",
         "pwd",
@@ -58,6 +73,8 @@ describe("LinuxUtilsSimulator", () => {
         "env",
         "dpkg",
         "apt",
+        "apt-mark",
+        "dkms",
         "nvcc",
         "iostat",
         "efibootmgr",
@@ -99,6 +116,24 @@ describe("LinuxUtilsSimulator", () => {
       expect(result.output).toMatch(/gpu/i);
     });
 
+    it("should generate gres.conf from the node's GPUs", () => {
+      const result = simulator.execute(
+        parse("cat /etc/slurm/gres.conf"),
+        context,
+      );
+      expect(result.output).toContain("Name=gpu Type=h100 File=/dev/nvidia0");
+      expect(result.output).toContain("Name=gpu Type=h100 File=/dev/nvidia1");
+    });
+
+    it("should show GPU proc entries for the node's GPUs", () => {
+      const result = simulator.execute(
+        parse("cat /proc/driver/nvidia/gpus/0000:18:00.0/information"),
+        context,
+      );
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("NVIDIA H100 80GB HBM3");
+    });
+
     it("should display /proc/net/bonding/bond0 with bonding info", () => {
       const result = simulator.execute(
         parse("cat /proc/net/bonding/bond0"),
@@ -217,9 +252,19 @@ describe("LinuxUtilsSimulator", () => {
       expect(result.output).toContain("nvidia0");
     });
 
-    it("should return generic listing for unknown directory", () => {
+    it("should report a missing directory", () => {
       const result = simulator.execute(parse("ls /unknown"), context);
+      expect(result.exitCode).toBe(2);
+      expect(result.output).toContain(
+        "ls: cannot access '/unknown': No such file or directory",
+      );
+    });
+
+    it("should list files written to the node filesystem", () => {
+      clusterFileSystem.writeFile("dgx-00", "/tmp/notes.txt", "hello");
+      const result = simulator.execute(parse("ls -l /tmp"), context);
       expect(result.exitCode).toBe(0);
+      expect(result.output).toMatch(/-rw-r--r-- 1 root root\s+5 .* notes\.txt/);
     });
 
     it("should resolve relative directory path from cwd", () => {
@@ -556,6 +601,19 @@ describe("LinuxUtilsSimulator", () => {
       expect(result.output).toContain("nvidia-container-toolkit");
     });
 
+    it("should not list the container toolkit once it is removed", () => {
+      clusterContainerRuntime.setToolkitInstalled("dgx-00", false);
+
+      const result = simulator.execute(
+        parse("dpkg -l | grep nvidia-container-toolkit"),
+        context,
+      );
+      expect(result.exitCode).toBe(1);
+      expect(simulator.execute(parse("dpkg -l"), context).output).not.toContain(
+        "nvidia-container",
+      );
+    });
+
     it("should filter nvidia packages with grep", () => {
       const result = simulator.execute(parse("dpkg -l | grep nvidia"), context);
       expect(result.exitCode).toBe(0);
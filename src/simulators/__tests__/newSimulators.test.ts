@@ -128,6 +128,7 @@ vi.mock('@/store/simulationStore', () => ({
           },
         ],
       },
+      updateNodeFirmware: vi.fn(),
     })),
   },
 }));
@@ -252,6 +253,31 @@ describe('BasicSystemSimulator - New Commands', () => {
       expect(result.output).toContain('timedatectl');
     });
   });
+
+  describe('pgrep', () => {
+    it('should print PIDs matching the process name', () => {
+      const result = simulator.execute(parse('pgrep slurmd'), context);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output.trim()).toBe('3456');
+    });
+
+    it('should list names with -l and agree with ps', () => {
+      const result = simulator.execute(parse('pgrep -l nvidia'), context);
+      const ps = simulator.execute(parse('ps aux'), context);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('2345 nvidia-persistenced');
+      expect(ps.output).toMatch(/\s2345\s.*nvidia-persistenced/);
+    });
+
+    it('should exit 1 when nothing matches', () => {
+      const result = simulator.execute(parse('pgrep no-such-daemon'), context);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.output).toBe('');
+    });
+  });
 });
 
 describe('MellanoxSimulator - mlxfwmanager', () => {
@@ -1,10 +1,13 @@
 import { describe, it, expect } from "vitest";
-import type { GPU } from "@/types/hardware";
+import type { ClusterConfig, DGXNode, GPU } from "@/types/hardware";
+import { createDGXNode } from "@/utils/clusterFactory";
+import { applyNVSwitchFabricUpdate } from "@/utils/nvswitchFabric";
 import {
   formatDisplayMemory,
   formatDisplayECC,
   formatDisplayTemperature,
   formatDisplayPids,
+  formatDisplayFabric,
   DISPLAY_FORMATTERS,
 } from "../nvidiaSmiFormatters";
 
@@ -113,6 +116,34 @@ describe("nvidiaSmiFormatters", () => {
     });
   });
 
+  describe("formatDisplayFabric", () => {
+    it("shows N/A without a node", () => {
+      const output = formatDisplayFabric(makeGpu());
+      expect(output).toContain("State                             : N/A");
+    });
+
+    it("follows the GPU's registration with the NVLink fabric", () => {
+      const node: DGXNode = createDGXNode(0, "DGX-H100");
+      const gpu = node.gpus[0];
+      expect(formatDisplayFabric(gpu, node)).toContain(
+        "State                             : Completed",
+      );
+
+      applyNVSwitchFabricUpdate(
+        { nodes: [node] } as unknown as ClusterConfig,
+        node.id,
+        {
+          fabricManager: { state: "Stopped" },
+        },
+      );
+      const output = formatDisplayFabric(gpu, node);
+      expect(output).toContain(
+        "State                             : In Progress",
+      );
+      expect(output).toContain("Status                            : N/A");
+    });
+  });
+
   describe("DISPLAY_FORMATTERS dispatch map", () => {
     const expectedKeys = [
       "MEMORY",
@@ -134,10 +165,11 @@ describe("nvidiaSmiFormatters", () => {
       "FBC_STATS",
       "ROW_REMAPPER",
       "RESET_STATUS",
+      "FABRIC",
     ];
 
-    it("contains all 19 expected keys (including CLOCK alias)", () => {
-      expect(Object.keys(DISPLAY_FORMATTERS)).toHaveLength(19);
+    it("contains all 20 expected keys (including CLOCK alias)", () => {
+      expect(Object.keys(DISPLAY_FORMATTERS)).toHaveLength(20);
       for (const key of expectedKeys) {
         expect(DISPLAY_FORMATTERS).toHaveProperty(key);
       }
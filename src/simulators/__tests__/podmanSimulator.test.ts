@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PodmanSimulator } from "../podmanSimulator";
+import { useSimulationStore } from "@/store/simulationStore";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import { clusterContainerRuntime } from "@/store/clusterContainerRuntime";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import { parse } from "@/utils/commandParser";
+import type { CommandContext } from "@/types/commands";
+
+vi.mock("@/store/simulationStore");
+
+describe("PodmanSimulator", () => {
+  let simulator: PodmanSimulator;
+  let context: CommandContext;
+
+  const run = (cmd: string) => simulator.execute(parse(cmd), context);
+
+  beforeEach(() => {
+    clusterFileSystem.reset();
+    clusterContainerRuntime.reset();
+    simulator = new PodmanSimulator();
+    context = {
+      currentNode: "dgx-00",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+    };
+    vi.mocked(useSimulationStore.getState).mockReturnValue({
+      cluster: createDefaultCluster(),
+    } as unknown as ReturnType<typeof useSimulationStore.getState>);
+  });
+
+  it("should print its version", () => {
+    expect(run("podman --version").output).toBe("podman version 4.9.3");
+  });
+
+  describe("images", () => {
+    it("should list images with fully-qualified names", () => {
+      const output = run("podman images").output;
+      expect(output).toContain("docker.io/nvidia/cuda");
+      expect(output).toContain("nvcr.io/nvidia/pytorch");
+    });
+
+    it("should enforce short-name resolution for uncached images", () => {
+      const result = run("podman pull ubuntu:22.04");
+      expect(result.exitCode).toBe(125);
+      expect(result.output).toContain("short-name resolution enforced");
+
+      const qualified = run("podman pull docker.io/library/ubuntu:22.04");
+      expect(qualified.exitCode).toBe(0);
+      expect(qualified.output).toContain("Trying to pull");
+      expect(run("podman images").output).toContain("docker.io/library/ubuntu");
+    });
+  });
+
+  describe("run", () => {
+    it("should pass GPUs through CDI devices", () => {
+      const result = run(
+        "podman run --rm --device nvidia.com/gpu=all nvidia/cuda:12.4.0-base nvidia-smi -L",
+      );
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("GPU 7:");
+    });
+
+    it("should not see GPUs without a device", () => {
+      const result = run("podman run --rm nvidia/cuda:12.4.0-base nvidia-smi");
+      expect(result.exitCode).toBe(127);
+      expect(result.output).toContain("executable file `nvidia-smi` not found");
+    });
+
+    it("should fail to resolve CDI devices without the toolkit", () => {
+      clusterContainerRuntime.setToolkitInstalled("dgx-00", false);
+
+      const result = run(
+        "podman run --device nvidia.com/gpu=all nvidia/cuda:12.4.0-base nvidia-smi",
+      );
+      expect(result.exitCode).toBe(125);
+      expect(result.output).toContain(
+        "unresolvable CDI devices nvidia.com/gpu=all",
+      );
+    });
+
+    it("should reject unknown GPU indices", () => {
+      const result = run(
+        "podman run --device nvidia.com/gpu=12 nvidia/cuda:12.4.0-base nvidia-smi",
+      );
+      expect(result.output).toContain("nvidia.com/gpu=12");
+    });
+
+    it("should not create missing bind sources", () => {
+      const result = run(
+        "podman run -v /datasets:/datasets nvidia/cuda:12.4.0-base ls /datasets",
+      );
+      expect(result.exitCode).toBe(125);
+      expect(result.output).toContain(
+        "Error: statfs /datasets: no such file or directory",
+      );
+      expect(clusterFileSystem.exists("dgx-00", "/datasets")).toBe(false);
+    });
+  });
+
+  describe("containers", () => {
+    it("should exec into, stop and remove a detached container", () => {
+      const started = run(
+        "podman run -d --name svc --device nvidia.com/gpu=0 nvidia/cuda:12.4.0-base sleep infinity",
+      );
+      expect(started.exitCode).toBe(0);
+      expect(run("podman ps").output).toContain("svc");
+
+      expect(run("podman exec svc nvidia-smi -L").output).toMatch(
+        /^GPU 0: .*\(UUID: /,
+      );
+
+      expect(run("podman rm svc").output).toContain("container is running");
+      expect(run("podman stop svc").exitCode).toBe(0);
+      expect(run("podman ps").output).not.toContain("svc");
+      expect(run("podman ps -a").output).toContain("Exited (137)");
+      expect(run("podman rm svc").exitCode).toBe(0);
+    });
+
+    it("should reject a duplicate name", () => {
+      run("podman run --name job nvidia/cuda:12.4.0-base true");
+
+      const result = run("podman run --name job nvidia/cuda:12.4.0-base true");
+      expect(result.exitCode).toBe(125);
+      expect(result.output).toContain(
+        'the container name "job" is already in use',
+      );
+    });
+  });
+});
@@ -28,6 +28,7 @@ describe("SlurmSimulator GRES", () => {
               .map((_, i) => ({
                 id: i,
                 name: "NVIDIA H100 80GB HBM3",
+                pciAddress: `00000000:${(0x18 + i).toString(16)}:00.0`,
               })),
             cpuCount: 2,
             ramTotal: 2048,
@@ -44,6 +45,7 @@ describe("SlurmSimulator GRES", () => {
               .map((_, i) => ({
                 id: i,
                 name: "NVIDIA H100 80GB HBM3",
+                pciAddress: `00000000:${(0x18 + i).toString(16)}:00.0`,
               })),
             cpuCount: 2,
             ramTotal: 2048,
@@ -72,6 +74,22 @@ describe("SlurmSimulator GRES", () => {
       expect(result.output).toContain("dgx-00");
       expect(result.output).toContain("dgx-01");
     });
+
+    it("should print bare hostnames with -h -o %n", () => {
+      const result = simulator.executeSinfo(parse("sinfo -h -o %n"), context);
+      expect(result.output).toBe("dgx-00\ndgx-01\n");
+    });
+
+    it("should honor field widths and group by state", () => {
+      const result = simulator.executeSinfo(
+        parse('sinfo --format "%10P %.5D %t"'),
+        context,
+      );
+      const lines = result.output.trim().split("\n");
+      expect(lines[0]).toBe("PARTITION  NODES STATE");
+      expect(lines).toContain("gpu            1 idle");
+      expect(lines).toContain("gpu            1 alloc");
+    });
   });
 
   describe("scontrol show node GRES", () => {
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SlurmSimulator } from "../slurmSimulator";
+import { parse } from "@/utils/commandParser";
+import type { CommandContext } from "@/types/commands";
+import { useSimulationStore } from "@/store/simulationStore";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import { clusterContainerRuntime } from "@/store/clusterContainerRuntime";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+
+vi.mock("@/store/simulationStore");
+
+describe("SlurmSimulator Pyxis container steps", () => {
+  let simulator: SlurmSimulator;
+  let context: CommandContext;
+
+  const srun = (args: string) =>
+    simulator.executeSrun(parse(`srun ${args}`), context);
+
+  beforeEach(async () => {
+    clusterFileSystem.reset();
+    clusterContainerRuntime.reset();
+    simulator = new SlurmSimulator();
+    context = {
+      currentNode: "dgx-00",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+    };
+    vi.mocked(useSimulationStore.getState).mockReturnValue({
+      cluster: createDefaultCluster(),
+    } as unknown as ReturnType<typeof useSimulationStore.getState>);
+
+    // Flag validation only runs once the registry has loaded
+    await vi.waitFor(
+      () => {
+        expect(simulator["definitionRegistry"]).not.toBeNull();
+      },
+      { timeout: 5000 },
+    );
+  });
+
+  it("should import the image and run the command in the container", () => {
+    const result = srun(
+      "--gpus=2 --container-image=nvcr.io#nvidia/pytorch:24.01-py3 nvidia-smi",
+    );
+
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toContain(
+      "pyxis: importing docker image: nvcr.io#nvidia/pytorch:24.01-py3",
+    );
+    expect(result.output).toContain("GPU 1:");
+    expect(result.output).not.toContain("GPU 2:");
+  });
+
+  it("should reuse a named container in later steps", () => {
+    srun(
+      "--container-image=nvcr.io#nvidia/pytorch:24.01-py3 --container-name=train hostname",
+    );
+    const container = clusterContainerRuntime.findContainer(
+      "dgx-00",
+      "pyxis_train",
+    );
+    expect(container?.engine).toBe("enroot");
+
+    const second = srun(
+      "--container-image=nvcr.io#nvidia/pytorch:24.01-py3 --container-name=train hostname",
+    );
+    expect(second.output).not.toContain("pyxis: importing");
+  });
+
+  it("should fail the step when a mount source is missing", () => {
+    const result = srun(
+      "--container-image=ubuntu:22.04 --container-mounts=/datasets:/datasets hostname",
+    );
+
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain(
+      "pyxis: container start failed with error code: 1",
+    );
+    expect(result.output).toContain("task 0: Exited with exit code 1");
+  });
+
+  it("should run images imported with enroot from the filesystem", () => {
+    clusterFileSystem.writeFile(
+      "dgx-00",
+      "/root/cuda.sqsh",
+      "hsqs\nSource: docker://nvidia/cuda:12.4.0-base",
+    );
+
+    const result = srun("--container-image=./cuda.sqsh hostname");
+    expect(result.exitCode).toBe(0);
+    expect(result.output).not.toContain("pyxis: importing");
+
+    const missing = srun("--container-image=/root/missing.sqsh hostname");
+    expect(missing.exitCode).toBe(1);
+    expect(missing.output).toContain("No such file or directory");
+  });
+
+  it("should fail the NVIDIA hook without nvidia-container-toolkit", () => {
+    clusterContainerRuntime.setToolkitInstalled("dgx-00", false);
+
+    const result = srun(
+      "--container-image=nvcr.io#nvidia/pytorch:24.01-py3 nvidia-smi",
+    );
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain("Command not found: nvidia-container-cli");
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { SlurmSimulator } from "../slurmSimulator";
+import { parse } from "@/utils/commandParser";
+import type { CommandContext } from "@/types/commands";
+import type { ClusterConfig } from "@/types/hardware";
+import { useSimulationStore } from "@/store/simulationStore";
+import { clusterFileSystem } from "@/store/clusterFileSystem";
+import { createDefaultCluster } from "@/utils/clusterFactory";
+import { simulationClock } from "@/simulation/simulationClock";
+import { simulationRandom } from "@/simulation/seededRandom";
+
+vi.mock("@/store/simulationStore");
+
+describe("SlurmSimulator scheduling", () => {
+  let simulator: SlurmSimulator;
+  let context: CommandContext;
+  let cluster: ClusterConfig;
+  let clock: number;
+
+  const run = (cmd: string) => {
+    const parsed = parse(cmd);
+    switch (parsed.baseCommand) {
+      case "sbatch":
+        return simulator.executeSbatch(parsed, context);
+      case "squeue":
+        return simulator.executeSqueue(parsed, context);
+      case "sinfo":
+        return simulator.executeSinfo(parsed, context);
+      case "scontrol":
+        return simulator.executeScontrol(parsed, context);
+      case "scancel":
+        return simulator.executeScancel(parsed, context);
+      case "sacct":
+        return simulator.executeSacct(parsed, context);
+      case "sprio":
+        return simulator.executeSprio(parsed, context);
+      case "sshare":
+        return simulator.executeSshare(parsed, context);
+      default:
+        throw new Error(`unexpected command ${cmd}`);
+    }
+  };
+  const submit = (args: string) =>
+    parseInt(run(`sbatch --parsable ${args}`).output);
+  const advance = (seconds: number) => {
+    clock += seconds * 1000;
+  };
+  const nodeState = (id: string) =>
+    cluster.nodes.find((n) => n.id === id)!.slurmState;
+
+  beforeEach(async () => {
+    clusterFileSystem.reset();
+    clock = Date.UTC(2024, 0, 15, 8);
+    simulator = new SlurmSimulator(() => clock);
+    context = {
+      currentNode: "dgx-00",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+    };
+    cluster = createDefaultCluster();
+    cluster.nodes = cluster.nodes.slice(0, 2);
+    vi.mocked(useSimulationStore.getState).mockReturnValue({
+      cluster,
+      setSlurmState: vi.fn((nodeId: string, state, reason?: string) => {
+        const node = cluster.nodes.find((n) => n.id === nodeId)!;
+        node.slurmState = state;
+        node.slurmReason = reason;
+      }),
+      allocateGPUsForJob: vi.fn(),
+      deallocateGPUsForJob: vi.fn(),
+    } as unknown as ReturnType<typeof useSimulationStore.getState>);
+
+    // Flag parsing needs the command definitions
+    await vi.waitFor(
+      () => {
+        expect(simulator["definitionRegistry"]).not.toBeNull();
+      },
+      { timeout: 5000 },
+    );
+  });
+
+  describe("sbatch", () => {
+    it("should run the script for as long as it sleeps", () => {
+      clusterFileSystem.writeFile(
+        "dgx-00",
+        "/root/train.sh",
+        "#!/bin/bash\nsleep 10m\nexit 2\n",
+      );
+
+      const jobId = submit("--gpus-per-node=8 train.sh");
+      expect(run(`squeue -j ${jobId}`).output).toContain(" R ");
+      expect(nodeState("dgx-00")).toBe("alloc");
+
+      advance(600);
+      const sacct = run(`sacct -j ${jobId}`).output;
+      expect(sacct).toContain("FAILED");
+      expect(sacct).toContain("2:0");
+      expect(nodeState("dgx-00")).toBe("idle");
+    });
+
+    it("should reject requests the cluster cannot satisfy", () => {
+      expect(run("sbatch -N 3 --wrap=hostname").output).toContain(
+        "Node count specification invalid",
+      );
+      expect(run("sbatch --gpus-per-node=16 --wrap=hostname").output).toContain(
+        "Requested node configuration is not available",
+      );
+      expect(run("sbatch -p debug --wrap=hostname").output).toContain(
+        "Invalid partition name specified",
+      );
+      expect(run("sbatch -d afterok:4242 --wrap=hostname").output).toContain(
+        "Job dependency problem",
+      );
+      expect(run("sbatch -t 1h --wrap=hostname").output).toContain(
+        "Invalid --time specification",
+      );
+    });
+
+    it("should spread a multi-node job across nodes", () => {
+      const jobId = submit("-N 2 --gpus-per-node=8 --wrap='sleep 60'");
+
+      const job = run(`scontrol show job ${jobId}`).output;
+      expect(job).toContain("NodeList=dgx-00,dgx-01");
+      expect(run("sinfo -h -o %t").output.trim()).toBe("alloc");
+    });
+  });
+
+  describe("node states", () => {
+    it("should show partially used nodes as mixed", () => {
+      submit("--gpus-per-node=4 --wrap='sleep 60'");
+
+      const node = run("scontrol show node dgx-00").output;
+      expect(node).toContain("State=MIXED");
+      expect(node).toContain("GresUsed=gpu:a100:4(IDX:0-3)");
+      expect(run("sinfo -t mix -h -o %n").output.trim()).toBe("dgx-00");
+    });
+
+    it("should let running jobs finish on a drained node", () => {
+      const jobId = submit("-w dgx-00 --gpus-per-node=8 --wrap='sleep 60'");
+      run('scontrol update NodeName=dgx-00 State=DRAIN Reason="bad gpu"');
+
+      expect(run("sinfo -n dgx-00 -h -o %t").output.trim()).toBe("drng");
+      const queued = submit("-w dgx-00 --wrap=hostname");
+      expect(run(`squeue -j ${queued} -h -O Reason:60`).output).toContain(
+        "ReqNodeNotAvail",
+      );
+
+      advance(60);
+      expect(run(`sacct -j ${jobId}`).output).toContain("COMPLETED");
+      expect(run("sinfo -n dgx-00 -h -o %t").output.trim()).toBe("drain");
+
+      run("scontrol update NodeName=dgx-00 State=RESUME");
+      expect(run(`squeue -j ${queued} -h -O StateCompact`).output.trim()).toBe(
+        "R",
+      );
+    });
+  });
+
+  describe("scancel", () => {
+    it("should free the nodes of a cancelled job", () => {
+      const jobId = submit("-N 2 --gpus-per-node=8 --wrap='sleep 600'");
+      const queued = submit("--gpus-per-node=8 --wrap='sleep 600'");
+
+      expect(run(`scancel ${jobId}`).output).toBe(
+        `scancel: Terminating job ${jobId}`,
+      );
+      expect(run(`sacct -j ${jobId}`).output).toContain("CANCELLED");
+      expect(run(`squeue -j ${queued} -h -O StateCompact`).output.trim()).toBe(
+        "R",
+      );
+    });
+
+    it("should report unknown jobs", () => {
+      const result = run("scancel 4242");
+      expect(result.exitCode).toBe(1);
+      expect(result.output).toContain("Invalid job id specified");
+    });
+  });
+
+  describe("hold and release", () => {
+    it("should keep held jobs out of the scheduler", () => {
+      submit("-N 2 --gpus-per-node=8 --wrap='sleep 60'");
+      const jobId = submit("--gpus-per-node=8 --wrap='sleep 60'");
+
+      run(`scontrol hold ${jobId}`);
+      expect(run(`squeue -j ${jobId} -h -O Reason:60`).output).toContain(
+        "JobHeldUser",
+      );
+      advance(60);
+      expect(run(`squeue -j ${jobId} -h -O StateCompact`).output.trim()).toBe(
+        "PD",
+      );
+
+      run(`scontrol release ${jobId}`);
+      expect(run(`squeue -j ${jobId} -h -O StateCompact`).output.trim()).toBe(
+        "R",
+      );
+      expect(run(`scontrol hold ${jobId}`).output).toContain(
+        "Job is no longer pending execution",
+      );
+    });
+  });
+
+  describe("sprio and sshare", () => {
+    it("should list the priority factors of pending jobs", () => {
+      submit("-N 2 --gpus-per-node=8 --wrap='sleep 600'");
+      const jobId = submit("--gpus-per-node=8 -q high --wrap='sleep 60'");
+
+      const lines = run("sprio").output.split("\n");
+      expect(lines[0]).toContain("PRIORITY");
+      expect(lines).toHaveLength(2);
+      const fields = lines[1].trim().split(/\s+/);
+      expect(fields[0]).toBe(String(jobId));
+      expect(fields[8]).toBe("2000");
+      expect(run("sprio -w").output).toContain("Weights");
+    });
+
+    it("should account used CPU time to the job's association", () => {
+      submit("-A training -n 4 --wrap='sleep 100'");
+      advance(100);
+
+      const output = run("sshare -a -P").output;
+      expect(output.split("\n")[0]).toBe(
+        "Account|User|RawShares|NormShares|RawUsage|EffectvUsage|FairShare",
+      );
+      expect(output).toContain("training|root|1|0.250000|400|1.000000|");
+    });
+  });
+
+  describe("replay", () => {
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("should produce the same output for the same seed and commands", () => {
+      const session = () => {
+        simulationRandom.reseed(1234);
+        simulationClock.reset({
+          start: Date.UTC(2024, 0, 15, 8),
+          paused: true,
+        });
+        simulator = new SlurmSimulator();
+        const outputs = [
+          run("sbatch --gpus-per-node=4 --wrap='sleep 90'").output,
+          run("sbatch -N 2 --gpus-per-node=8 --wrap='sleep 30'").output,
+          run("squeue -l").output,
+        ];
+        simulationClock.advance(120_000);
+        outputs.push(run("sacct").output, run("sinfo").output);
+        return outputs;
+      };
+
+      const first = session();
+      cluster.nodes.forEach((n) => (n.slurmState = "idle"));
+      expect(session()).toEqual(first);
+      expect(first[3]).toContain("COMPLETED");
+    });
+  });
+});
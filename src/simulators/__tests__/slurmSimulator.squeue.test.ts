@@ -58,7 +58,7 @@ describe("SlurmSimulator squeue -w/--nodelist filtering", () => {
 
     // Set up jobs on different nodes via internal array
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (simulator as any).jobs = [
+    (simulator as any).controller.jobs = [
       {
         jobId: 1001,
         name: "train_a",
@@ -0,0 +1,821 @@
+/**
+ * Apptainer Simulator
+ *
+ * Simulates Apptainer and its predecessor SingularityCE, the HPC container
+ * runtimes that run images straight from SIF files:
+ * - pull, build - Create SIF images from registries and definition files
+ * - exec, run, shell - Run commands in a container
+ * - inspect, version
+ *
+ * SIF files are written to the node filesystem, so they can be listed,
+ * copied and moved like any other file. `--nv` passes the node's GPUs
+ * through, `--nvccli` does so via nvidia-container-cli (and fails without
+ * nvidia-container-toolkit), and `-B/--bind` mounts host paths. `shell`
+ * enters an interactive session that lasts until `exit`.
+ */
+
+import { BaseSimulator } from "./BaseSimulator";
+import type {
+  CommandContext,
+  CommandResult,
+  ParsedCommand,
+} from "@/types/commands";
+import { parse } from "@/utils/commandParser";
+import type { DGXNode } from "@/types/hardware";
+import { resolvePath } from "@/simulation/virtualFileSystem";
+import {
+  isGpuImage,
+  parseImageReference,
+  sifFileName,
+} from "@/simulation/containerRuntime";
+import {
+  findMissingMountSource,
+  getRunOption,
+  getRunOptions,
+  imageFileContent,
+  parseBindList,
+  parseRunArguments,
+  readImageFileSource,
+  runInContainer,
+  type ContainerView,
+  type RunArguments,
+} from "./containerExec";
+import { simulationClock } from "@/simulation/simulationClock";
+
+/** Options that take a value, across all subcommands */
+const VALUE_OPTIONS = new Set([
+  "B",
+  "bind",
+  "mount",
+  "pwd",
+  "H",
+  "home",
+  "env",
+  "W",
+  "workdir",
+  "o",
+  "overlay",
+  "name",
+]);
+
+/** Where a sandbox build keeps the image metadata */
+const SANDBOX_METADATA = ".singularity.d/Singularity";
+
+/** What changes between `apptainer` and `singularity` */
+interface Flavor {
+  command: string;
+  version: string;
+  prompt: string;
+  envPrefix: string;
+}
+
+const FLAVORS: Record<string, Flavor> = {
+  apptainer: {
+    command: "apptainer",
+    version: "apptainer version 1.2.5",
+    prompt: "Apptainer> ",
+    envPrefix: "APPTAINER",
+  },
+  singularity: {
+    command: "singularity",
+    version: "singularity-ce version 3.11.4",
+    prompt: "Singularity> ",
+    envPrefix: "SINGULARITY",
+  },
+};
+
+/** An image ready to run */
+interface ResolvedImage {
+  /** Registry reference the image was built from */
+  source: string;
+  /** %runscript lines, when built from a definition file */
+  runscript: string[];
+  labels: string[];
+  /** INFO lines printed while fetching the image */
+  preamble: string[];
+}
+
+/** Parsed `.def` file */
+interface Definition {
+  bootstrap: string;
+  from: string;
+  sections: Map<string, string[]>;
+}
+
+function parseDefinition(content: string): Definition | null {
+  const header = new Map<string, string>();
+  const sections = new Map<string, string[]>();
+  let section: string[] | null = null;
+  for (const raw of content.split("\n")) {
+    const line = raw.trim();
+    const start = line.match(/^%(\w+)/);
+    if (start) {
+      section = [];
+      sections.set(start[1], section);
+    } else if (section) {
+      if (line && !line.startsWith("#")) section.push(line);
+    } else {
+      const field = line.match(/^(\w+):\s*(.+)$/);
+      if (field) header.set(field[1].toLowerCase(), field[2].trim());
+    }
+  }
+  const bootstrap = header.get("bootstrap");
+  if (!bootstrap) return null;
+  return { bootstrap, from: header.get("from") ?? "", sections };
+}
+
+export class ApptainerSimulator extends BaseSimulator {
+  /** Open `shell` session, if any */
+  private session: { view: ContainerView; prompt: string } | null = null;
+
+  constructor() {
+    super();
+    this.initializeDefinitionRegistry();
+
+    const metadata = (name: string) => ({
+      name,
+      description:
+        name === "apptainer"
+          ? "Apptainer container platform for HPC"
+          : "SingularityCE container platform for HPC",
+      usage: `${name} [global options] <command> [command options]`,
+      flags: [
+        {
+          long: "nv",
+          description: "Enable NVIDIA GPU support (exec, run, shell)",
+        },
+        {
+          short: "B",
+          long: "bind",
+          description: "Bind mount host paths: src[:dest[:opts]],...",
+        },
+      ],
+      examples: [
+        `${name} pull docker://nvcr.io/nvidia/pytorch:24.01-py3`,
+        `${name} exec --nv pytorch_24.01-py3.sif nvidia-smi`,
+        `${name} shell --nv -B /data:/data pytorch_24.01-py3.sif`,
+        `${name} build image.sif image.def`,
+      ],
+    });
+
+    this.registerCommand(
+      "apptainer",
+      this.handleCommand.bind(this),
+      metadata("apptainer"),
+    );
+    this.registerCommand(
+      "singularity",
+      this.handleCommand.bind(this),
+      metadata("singularity"),
+    );
+  }
+
+  getMetadata() {
+    return {
+      name: "apptainer",
+      version: "1.2.5",
+      description: "HPC container runtimes (Apptainer, SingularityCE)",
+      commands: Array.from(this.commandMetadata.values()),
+    };
+  }
+
+  execute(parsed: ParsedCommand, context: CommandContext): CommandResult {
+    const handler = this.getCommand(parsed.baseCommand);
+    if (!handler) {
+      return this.createError(
+        `Unknown container runtime: ${parsed.baseCommand}`,
+      );
+    }
+    return this.safeExecuteHandler(handler, parsed, context) as CommandResult;
+  }
+
+  /**
+   * Run one line typed at the `Apptainer>` prompt. Returns no prompt once
+   * the session has ended.
+   */
+  executeInteractive(input: string, _context: CommandContext): CommandResult {
+    const session = this.session;
+    if (!session) return { output: "", exitCode: 0 };
+
+    const line = parse(input);
+    if (!line.baseCommand) {
+      return { output: "", exitCode: 0, prompt: session.prompt };
+    }
+    if (line.baseCommand === "exit" || line.baseCommand === "logout") {
+      this.session = null;
+      return { output: "exit", exitCode: 0 };
+    }
+    if (line.baseCommand === "cd") {
+      const target = line.rawArgs[0] ?? "/root";
+      session.view = {
+        ...session.view,
+        workdir: resolvePath(target, session.view.workdir),
+      };
+      return { output: "", exitCode: 0, prompt: session.prompt };
+    }
+
+    const result = runInContainer(
+      [line.baseCommand, ...line.rawArgs],
+      session.view,
+    ) ?? {
+      output: `bash: ${line.baseCommand}: command not found`,
+      exitCode: 127,
+    };
+    return { ...result, prompt: session.prompt };
+  }
+
+  /** True while a `shell` session is open */
+  isInShell(): boolean {
+    return this.session !== null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Dispatch
+  // --------------------------------------------------------------------------
+
+  private handleCommand(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const flavor = FLAVORS[parsed.baseCommand] ?? FLAVORS.apptainer;
+    const args = parsed.rawArgs;
+    const index = args.findIndex((a) => !a.startsWith("-"));
+    const globals = index === -1 ? args : args.slice(0, index);
+
+    if (globals.includes("--version")) {
+      return this.createSuccess(flavor.version);
+    }
+    if (index === -1 || globals.includes("--help") || globals.includes("-h")) {
+      return this.createSuccess(this.usage(flavor));
+    }
+
+    const subcommand = args[index];
+    const rest = args.slice(index + 1);
+    if (rest.includes("--help") || rest.includes("-h")) {
+      return this.createSuccess(this.usage(flavor));
+    }
+    const run = parseRunArguments(rest, VALUE_OPTIONS);
+
+    switch (subcommand) {
+      case "version":
+        return this.createSuccess(flavor.version.split(" ").pop() ?? "");
+      case "pull":
+        return this.handlePull(run, context);
+      case "build":
+        return this.handleBuild(run, context);
+      case "exec":
+        return this.handleExec(run, flavor, context);
+      case "run":
+        return this.handleRun(run, flavor, context);
+      case "shell":
+        return this.handleShell(run, flavor, context);
+      case "inspect":
+        return this.handleInspect(run, context);
+      default:
+        return this.createError(
+          `Error: unknown command "${subcommand}" for "${flavor.command}"\nRun '${flavor.command} --help' for usage.`,
+        );
+    }
+  }
+
+  private usage(flavor: Flavor): string {
+    return `Usage:
+  ${flavor.command} [global options...] <command>
+
+Available Commands:
+  build       Build an ${flavor.command === "apptainer" ? "Apptainer" : "Singularity"} image
+  exec        Run a command within a container
+  inspect     Show metadata for an image
+  pull        Pull an image from a URI
+  run         Run the user-defined default command within a container
+  shell       Run a shell within a container
+  version     Show the version for ${flavor.command}
+
+Run '${flavor.command} <command> --help' for more information about a command.`;
+  }
+
+  // --------------------------------------------------------------------------
+  // pull / build
+  // --------------------------------------------------------------------------
+
+  private handlePull(
+    run: RunArguments,
+    context: CommandContext,
+  ): CommandResult {
+    const [first, second] = run.operands;
+    const uri = second ?? first;
+    if (!uri) {
+      return this.createError(
+        "Error: requires at least 1 arg(s), only received 0",
+      );
+    }
+    if (!/^(docker|library|oras|shub):\/\//.test(uri)) {
+      return this.createError(
+        `FATAL:   While pulling image: unsupported transport type: ${uri}`,
+        255,
+      );
+    }
+
+    const fileName = second ? first : sifFileName(uri);
+    const path = resolvePath(fileName, context.currentPath);
+    const nodeId = this.nodeId(context);
+    const fs = this.resolveFileSystem(context);
+    const force = run.options.has("F") || run.options.has("force");
+    if (fs.exists(nodeId, path) && !force) {
+      return this.createError(
+        `FATAL:   Image file already exists: "${fileName}" - will not overwrite`,
+        255,
+      );
+    }
+
+    const output = this.fetchLines(uri, context);
+    const error = fs.writeFile(nodeId, path, imageFileContent("sif", uri));
+    if (error) {
+      return this.createError(
+        `FATAL:   While making image from oci registry: could not open ${path}: ${error.toLowerCase()}`,
+        255,
+      );
+    }
+    output.push("INFO:    Creating SIF file...");
+    return this.createSuccess(output.join("\n"));
+  }
+
+  private handleBuild(
+    run: RunArguments,
+    context: CommandContext,
+  ): CommandResult {
+    const [target, spec] = run.operands;
+    if (!target || !spec) {
+      return this.createError(
+        `Error: requires at least 2 arg(s), only received ${run.operands.length}`,
+      );
+    }
+
+    const nodeId = this.nodeId(context);
+    const fs = this.resolveFileSystem(context);
+    const path = resolvePath(target, context.currentPath);
+    const force = run.options.has("F") || run.options.has("force");
+    if (fs.exists(nodeId, path) && !force) {
+      return this.createError(
+        `FATAL:   While checking build target: build target '${target}' already exists. Use --force if you want to overwrite it`,
+        255,
+      );
+    }
+
+    const output: string[] = [];
+    let source: string;
+    let runscript: string[] = [];
+    let labels: string[] = [];
+
+    if (/^(docker|library|oras|shub):\/\//.test(spec)) {
+      source = spec;
+      output.push(...this.fetchLines(spec, context));
+    } else {
+      const specPath = resolvePath(spec, context.currentPath);
+      const { content, error } = this.readImageOrFile(
+        nodeId,
+        specPath,
+        context,
+      );
+      if (content === undefined) {
+        return this.createError(
+          `FATAL:   Unable to build from ${spec}: ${error?.toLowerCase()}`,
+          255,
+        );
+      }
+
+      const existing = readImageFileSource("sif", content);
+      if (existing) {
+        // Converting an image (SIF or sandbox) keeps its metadata
+        const image = this.parseImageContent(content);
+        source = image.source;
+        runscript = image.runscript;
+        labels = image.labels;
+        output.push("INFO:    Starting build...");
+      } else {
+        const definition = parseDefinition(content);
+        if (!definition) {
+          return this.createError(
+            `FATAL:   Unable to build from ${spec}: while parsing definition: ${spec}: no bootstrap specification found`,
+            255,
+          );
+        }
+        if (definition.bootstrap === "localimage") {
+          const base = this.readImageOrFile(
+            nodeId,
+            resolvePath(definition.from, context.currentPath),
+            context,
+          ).content;
+          const baseSource = base && readImageFileSource("sif", base);
+          if (!baseSource) {
+            return this.createError(
+              `FATAL:   While performing build: conveyor failed to get: could not open image ${definition.from}`,
+              255,
+            );
+          }
+          source = baseSource;
+          output.push("INFO:    Starting build...");
+        } else {
+          source = `${definition.bootstrap}://${definition.from}`;
+          output.push(...this.fetchLines(source, context));
+        }
+
+        const post = definition.sections.get("post") ?? [];
+        if (post.length > 0) {
+          output.push("INFO:    Running post scriptlet");
+          output.push(...post.map((line) => `+ ${line}`));
+        }
+        runscript = definition.sections.get("runscript") ?? [];
+        labels = definition.sections.get("labels") ?? [];
+        if (runscript.length > 0) output.push("INFO:    Adding runscript");
+        if (labels.length > 0) output.push("INFO:    Adding labels");
+      }
+    }
+
+    const content = imageFileContent("sif", source, [
+      ...runscript.map((line) => `Runscript: ${line}`),
+      ...labels.map((line) => `Label: ${line}`),
+    ]);
+    const sandbox = run.options.has("s") || run.options.has("sandbox");
+    if (force) fs.remove(nodeId, path, true);
+    const error = sandbox
+      ? (fs.mkdir(nodeId, `${path}/.singularity.d`, true) ??
+        fs.writeFile(nodeId, `${path}/${SANDBOX_METADATA}`, content))
+      : fs.writeFile(nodeId, path, content);
+    if (error) {
+      return this.createError(
+        `FATAL:   While performing build: could not create ${target}: ${error.toLowerCase()}`,
+        255,
+      );
+    }
+
+    output.push(
+      sandbox
+        ? "INFO:    Creating sandbox directory..."
+        : "INFO:    Creating SIF file...",
+    );
+    output.push(`INFO:    Build complete: ${target}`);
+    return this.createSuccess(output.join("\n"));
+  }
+
+  /** Lines printed while converting a registry image, using the node's cache */
+  private fetchLines(uri: string, context: CommandContext): string[] {
+    const runtime = this.resolveContainerRuntime(context);
+    const ref = uri.replace(/^[a-z]+:\/\//, "");
+    const { image, cached } = runtime.pullImage(this.nodeId(context), ref);
+    return [
+      "INFO:    Converting OCI blobs to SIF format",
+      "INFO:    Starting build...",
+      "Getting image source signatures",
+      cached
+        ? `Copying blob ${image.id} skipped: already exists`
+        : `Copying blob ${image.id} done`,
+      `Copying config ${image.id.slice(0, 10)} done`,
+      "Writing manifest to image destination",
+      "INFO:    Extracting OCI image...",
+      "INFO:    Inserting Apptainer configuration...",
+    ];
+  }
+
+  // --------------------------------------------------------------------------
+  // exec / run / shell / inspect
+  // --------------------------------------------------------------------------
+
+  private handleExec(
+    run: RunArguments,
+    flavor: Flavor,
+    context: CommandContext,
+  ): CommandResult {
+    const [imageRef, ...command] = run.operands;
+    if (!imageRef || command.length === 0) {
+      return this.createError(
+        `Error: requires at least 2 arg(s), only received ${run.operands.length}`,
+      );
+    }
+    const started = this.startContainer(run, imageRef, flavor, context);
+    if ("exitCode" in started) return started;
+
+    return this.runCommand(command, started.view, started.preamble);
+  }
+
+  private handleRun(
+    run: RunArguments,
+    flavor: Flavor,
+    context: CommandContext,
+  ): CommandResult {
+    const [imageRef, ...args] = run.operands;
+    if (!imageRef) {
+      return this.createError(
+        "Error: requires at least 1 arg(s), only received 0",
+      );
+    }
+    const started = this.startContainer(run, imageRef, flavor, context);
+    if ("exitCode" in started) return started;
+    const { view, image, preamble } = started;
+
+    if (image.runscript.length > 0) {
+      const output = [...preamble];
+      for (const line of image.runscript) {
+        const expanded = line
+          .replace(/^exec\s+/, "")
+          .replace(/\$[@*]/g, args.join(" "))
+          .trim();
+        if (!expanded) continue;
+        const tokens = parse(expanded);
+        const result = this.runCommand(
+          [tokens.baseCommand, ...tokens.rawArgs],
+          view,
+          [],
+        );
+        if (result.output) output.push(result.output);
+        if (result.exitCode !== 0) {
+          return { output: output.join("\n"), exitCode: result.exitCode };
+        }
+      }
+      return this.createSuccess(output.join("\n"));
+    }
+
+    // Images from a registry run their entrypoint: NGC images print a
+    // banner, then pass the arguments on or start a shell
+    const banner = this.banner(image.source, view.gpus !== null);
+    if (args.length > 0) {
+      return this.runCommand(args, view, [...preamble, ...banner]);
+    }
+    this.session = { view, prompt: flavor.prompt };
+    return {
+      output: [...preamble, ...banner].join("\n"),
+      exitCode: 0,
+      prompt: flavor.prompt,
+    };
+  }
+
+  private handleShell(
+    run: RunArguments,
+    flavor: Flavor,
+    context: CommandContext,
+  ): CommandResult {
+    const imageRef = run.operands[0];
+    if (!imageRef) {
+      return this.createError(
+        "Error: requires at least 1 arg(s), only received 0",
+      );
+    }
+    const started = this.startContainer(run, imageRef, flavor, context);
+    if ("exitCode" in started) return started;
+
+    this.session = { view: started.view, prompt: flavor.prompt };
+    return {
+      output: started.preamble.join("\n"),
+      exitCode: 0,
+      prompt: flavor.prompt,
+    };
+  }
+
+  private handleInspect(
+    run: RunArguments,
+    context: CommandContext,
+  ): CommandResult {
+    const imageRef = run.operands[0];
+    if (!imageRef) {
+      return this.createError(
+        "Error: requires at least 1 arg(s), only received 0",
+      );
+    }
+    const resolved = this.resolveImage(imageRef, context);
+    if ("exitCode" in resolved) return resolved;
+
+    if (run.options.has("r") || run.options.has("runscript")) {
+      const body =
+        resolved.runscript.length > 0
+          ? resolved.runscript
+          : ["OCI_CMD='\"/bin/bash\"'", 'exec $OCI_CMD "$@"'];
+      return this.createSuccess(["#!/bin/sh", ...body].join("\n"));
+    }
+
+    const path = resolvePath(imageRef, context.currentPath);
+    const mtime =
+      this.resolveFileSystem(context).stat(this.nodeId(context), path)?.mtime ??
+      simulationClock.now();
+    const { repository } = parseImageReference(
+      resolved.source.replace(/^[a-z]+:\/\//, ""),
+    );
+    const bootstrap = resolved.source.match(/^([a-z]+):\/\//)?.[1] ?? "docker";
+    const labels = [
+      "org.label-schema.build-arch: amd64",
+      `org.label-schema.build-date: ${new Date(mtime).toUTCString()}`,
+      "org.label-schema.schema-version: 1.0",
+      `org.label-schema.usage.singularity.deffile.bootstrap: ${bootstrap}`,
+      `org.label-schema.usage.singularity.deffile.from: ${resolved.source.replace(/^[a-z]+:\/\//, "")}`,
+    ];
+    if (isGpuImage(repository)) {
+      labels.push("com.nvidia.volumes.needed: nvidia_driver");
+    }
+    for (const label of resolved.labels) {
+      const [key, ...value] = label.split(/\s+/);
+      labels.push(`${key}: ${value.join(" ")}`);
+    }
+    return this.createSuccess(labels.join("\n"));
+  }
+
+  /**
+   * Resolve the image, GPUs and mounts for exec, run and shell. Returns the
+   * error to report if the container cannot start.
+   */
+  private startContainer(
+    run: RunArguments,
+    imageRef: string,
+    flavor: Flavor,
+    context: CommandContext,
+  ):
+    | { view: ContainerView; image: ResolvedImage; preamble: string[] }
+    | CommandResult {
+    const node = this.resolveNode(context);
+    if (!node) {
+      return this.createError("FATAL:   Unable to determine current node", 255);
+    }
+    const resolved = this.resolveImage(imageRef, context);
+    if ("exitCode" in resolved) return resolved;
+
+    const runtime = this.resolveContainerRuntime(context);
+    const fs = this.resolveFileSystem(context);
+    const preamble = [...resolved.preamble];
+
+    // GPU passthrough
+    let gpus: DGXNode["gpus"] | null = null;
+    if (run.options.has("nvccli")) {
+      if (!runtime.isToolkitInstalled(node.id)) {
+        return this.createError(
+          'FATAL:   container creation failed: while running nvidia-container-cli: exec: "nvidia-container-cli": executable file not found in $PATH',
+          255,
+        );
+      }
+      gpus = node.gpus;
+    } else if (run.options.has("nv")) {
+      if (node.gpus.length === 0) {
+        preamble.push("WARNING: Could not find any nv files on this host!");
+      }
+      gpus = node.gpus;
+    }
+
+    // User binds must exist; the default binds always do
+    const bindValues = [
+      ...getRunOptions(run, ["B", "bind"]),
+      context.environment[`${flavor.envPrefix}_BIND`] ?? "",
+    ];
+    const binds = bindValues.flatMap((value) =>
+      parseBindList(value, context.currentPath),
+    );
+    const missing = findMissingMountSource(fs, node.id, binds);
+    if (missing) {
+      return this.createError(
+        `FATAL:   container creation failed: mount hook function failure: mount ${missing.source}->${missing.target} error: while mounting ${missing.source}: mount source ${missing.source} doesn't exist`,
+        255,
+      );
+    }
+
+    const contain = run.options.has("C") || run.options.has("contain");
+    const noHome = contain || run.options.has("no-home");
+    const defaults = [
+      ...(noHome ? [] : ["/root"]),
+      ...(contain ? [] : ["/tmp", context.currentPath]),
+    ].map((path) => ({ source: path, target: path, readOnly: false }));
+
+    const pwd = getRunOption(run, ["pwd"]);
+    const view: ContainerView = {
+      node,
+      image: resolved.source.replace(/^[a-z]+:\/\//, ""),
+      gpus,
+      mounts: [...defaults, ...binds],
+      fs,
+      workdir: pwd ?? (contain ? "/root" : context.currentPath),
+    };
+    return { view, image: resolved, preamble };
+  }
+
+  /** Resolve a SIF path, sandbox directory or registry URI */
+  private resolveImage(
+    imageRef: string,
+    context: CommandContext,
+  ): ResolvedImage | CommandResult {
+    if (/^(docker|library|oras|shub):\/\//.test(imageRef)) {
+      const runtime = this.resolveContainerRuntime(context);
+      const ref = imageRef.replace(/^[a-z]+:\/\//, "");
+      const cached = runtime.findImage(this.nodeId(context), ref);
+      const preamble = cached
+        ? ["INFO:    Using cached SIF image"]
+        : [
+            ...this.fetchLines(imageRef, context),
+            "INFO:    Creating SIF file...",
+          ];
+      if (!cached) runtime.pullImage(this.nodeId(context), ref);
+      return { source: imageRef, runscript: [], labels: [], preamble };
+    }
+
+    const path = resolvePath(imageRef, context.currentPath);
+    const { content, error } = this.readImageOrFile(
+      this.nodeId(context),
+      path,
+      context,
+    );
+    if (content === undefined) {
+      return this.createError(
+        `FATAL:   could not open image ${path}: failed to retrieve path for ${path}: lstat ${path}: ${error?.toLowerCase()}`,
+        255,
+      );
+    }
+    if (!readImageFileSource("sif", content)) {
+      return this.createError(
+        `FATAL:   could not open image ${path}: image format not recognized`,
+        255,
+      );
+    }
+    return { ...this.parseImageContent(content), preamble: [] };
+  }
+
+  /** Read an image file, or the metadata inside a sandbox directory */
+  private readImageOrFile(
+    nodeId: string,
+    path: string,
+    context: CommandContext,
+  ): { content?: string; error?: string } {
+    const fs = this.resolveFileSystem(context);
+    if (fs.stat(nodeId, path)?.type === "directory") {
+      const sandbox = fs.readFile(nodeId, `${path}/${SANDBOX_METADATA}`);
+      return sandbox.content === undefined
+        ? { error: "Is a directory" }
+        : sandbox;
+    }
+    return fs.readFile(nodeId, path);
+  }
+
+  private parseImageContent(content: string): Omit<ResolvedImage, "preamble"> {
+    const lines = content.split("\n");
+    const field = (prefix: string) =>
+      lines
+        .filter((line) => line.startsWith(prefix))
+        .map((line) => line.slice(prefix.length));
+    return {
+      source: readImageFileSource("sif", content) ?? "",
+      runscript: field("Runscript: "),
+      labels: field("Label: "),
+    };
+  }
+
+  private runCommand(
+    command: string[],
+    view: ContainerView,
+    preamble: string[],
+  ): CommandResult {
+    const result = runInContainer(command, view);
+    if (!result) {
+      return {
+        output: [
+          ...preamble,
+          `FATAL:   "${command[0]}": executable file not found in $PATH`,
+        ].join("\n"),
+        exitCode: 255,
+      };
+    }
+    const output = [...preamble, result.output].filter(Boolean).join("\n");
+    return { output, exitCode: result.exitCode };
+  }
+
+  /** Entrypoint banner of NGC images */
+  private banner(source: string, hasGpus: boolean): string[] {
+    const ref = source.replace(/^[a-z]+:\/\//, "");
+    const { repository, tag } = parseImageReference(ref);
+    if (!repository.startsWith("nvcr.io/nvidia/")) return [];
+
+    const names: Record<string, string> = {
+      pytorch: "PyTorch",
+      tensorflow: "TensorFlow",
+      nemo: "NeMo Framework",
+      tritonserver: "Triton Inference Server",
+    };
+    const base = repository.split("/").pop() ?? repository;
+    const title = `== ${names[base] ?? base} ==`;
+    const rule = "=".repeat(title.length);
+    const lines = [
+      rule,
+      title,
+      rule,
+      "",
+      `NVIDIA Release ${tag.split("-")[0]}`,
+      "",
+      "Copyright (c) 2014-2024, NVIDIA CORPORATION & AFFILIATES.  All rights reserved.",
+    ];
+    if (!hasGpus) {
+      lines.push(
+        "",
+        "WARNING: The NVIDIA Driver was not detected.  GPU functionality will not be available.",
+        "   Use the NVIDIA Container Toolkit to start this container with GPU support; see",
+        "   https://docs.nvidia.com/datacenter/cloud-native/ .",
+      );
+    }
+    return [...lines, ""];
+  }
+
+  private nodeId(context: CommandContext): string {
+    return this.resolveNode(context)?.id ?? context.currentNode;
+  }
+}
@@ -5,8 +5,74 @@ import type {
   SimulatorMetadata,
 } from "@/types/commands";
 import { BaseSimulator } from "./BaseSimulator";
-import type { GPU, InfiniBandHCA } from "@/types/hardware";
-import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import { formatJournalTimestamp } from "./pciToolsSimulator";
+import type {
+  DGXNode,
+  FirmwareComponent,
+  FirmwareComponentType,
+  GPU,
+  InfiniBandHCA,
+} from "@/types/hardware";
+import { getHardwareSpecs, getSystemDisplayName } from "@/data/hardwareSpecs";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+import {
+  FABRIC_MANAGER_UNIT,
+  getNVSwitchFabric,
+  planFabricManagerRestart,
+  planFabricManagerStart,
+  planFabricManagerStop,
+} from "@/utils/nvswitchFabric";
+import { memoryXidEvents } from "@/utils/gpuMemoryHealth";
+import { kernelModuleBuild } from "@/utils/nodePackages";
+import {
+  FIRMWARE_LABELS,
+  activationHint,
+  getNodeFirmware,
+  isFirmwareCurrent,
+  isFlashNeeded,
+  planFirmwareFlash,
+  recommendedVersion,
+  runningVersion,
+} from "@/utils/firmwareInventory";
+import { getFabric } from "@/utils/infinibandFabric";
+
+// fw-check sections, by the argument that selects them
+const FW_CHECK_SECTIONS: Record<string, FirmwareComponentType> = {
+  bmc: "bmc",
+  bios: "sbios",
+  gpu: "vbios",
+  nvswitch: "nvswitch",
+  hca: "hca",
+  bluefield: "bluefield",
+  psu: "psu",
+};
+
+// The components fwupdmgr updates; ConnectX and BlueField devices are left
+// to the Mellanox tools
+const FWUPD_TYPES: FirmwareComponentType[] = [
+  "bmc",
+  "sbios",
+  "vbios",
+  "nvswitch",
+  "psu",
+];
+
+/** One row of the simulated process table */
+interface ProcessEntry {
+  user: string;
+  pid: number;
+  ppid: number;
+  cpu: number;
+  mem: number;
+  vsz: number;
+  rss: number;
+  tty: string;
+  stat: string;
+  start: string;
+  time: string;
+  cmd: string;
+}
 
 /**
  * BasicSystemSimulator
@@ -127,6 +193,12 @@ export class BasicSystemSimulator extends BaseSimulator {
           usage: "ps [OPTIONS]",
           examples: ["ps", "ps aux", "ps aux | grep nvidia", "ps -ef"],
         },
+        {
+          name: "pgrep",
+          description: "Look up processes based on name and other attributes",
+          usage: "pgrep [OPTIONS] PATTERN",
+          examples: ["pgrep slurmd", "pgrep -l nv", "pgrep -af python"],
+        },
         {
           name: "numactl",
           description: "Control NUMA policy for processes or shared memory",
@@ -139,6 +211,12 @@ export class BasicSystemSimulator extends BaseSimulator {
           usage: "uptime",
           examples: ["uptime"],
         },
+        {
+          name: "reboot",
+          description: "Reboot the machine",
+          usage: "reboot [OPTIONS]",
+          examples: ["reboot", "reboot -f"],
+        },
         {
           name: "uname",
           description: "Print system information",
@@ -154,7 +232,8 @@ export class BasicSystemSimulator extends BaseSimulator {
         {
           name: "fw-check",
           description: "Check firmware versions on components",
-          usage: "fw-check [bmc|gpu|switch|bluefield|transceiver|all]",
+          usage:
+            "fw-check [bmc|bios|gpu|nvswitch|hca|bluefield|psu|switch|transceiver|all]",
           examples: [
             "fw-check all",
             "fw-check bmc",
@@ -162,6 +241,18 @@ export class BasicSystemSimulator extends BaseSimulator {
             "fw-check transceiver",
           ],
         },
+        {
+          name: "fwupdmgr",
+          description: "Update BMC, BIOS, GPU, NVSwitch and PSU firmware",
+          usage:
+            "fwupdmgr <get-devices|get-updates|refresh|update|get-history> [device]",
+          examples: [
+            "fwupdmgr get-devices",
+            "fwupdmgr get-updates",
+            "fwupdmgr update -y",
+            "fwupdmgr update BMC",
+          ],
+        },
       ],
     };
   }
@@ -219,10 +310,14 @@ export class BasicSystemSimulator extends BaseSimulator {
         return this.handleTop(parsed, context);
       case "ps":
         return this.handlePs(parsed, context);
+      case "pgrep":
+        return this.handlePgrep(parsed, context);
       case "numactl":
         return this.handleNumactl(parsed, context);
       case "uptime":
         return this.handleUptime(parsed, context);
+      case "reboot":
+        return this.handleReboot(parsed, context);
       case "uname":
         return this.handleUname(parsed, context);
       case "hostname":
@@ -232,6 +327,8 @@ export class BasicSystemSimulator extends BaseSimulator {
       case "fw-check":
       case "firmware":
         return this.handleFirmwareCheck(parsed, context);
+      case "fwupdmgr":
+        return this.handleFwupdmgr(parsed, context);
       default:
         return this.createError(
           `Unknown system command: ${parsed.baseCommand}`,
@@ -400,7 +497,7 @@ SMBIOS 3.2.0 present.
 Handle 0x0000, DMI type 0, 26 bytes
 BIOS Information
         Vendor: American Megatrends Inc.
-        Version: 1.2.3
+        Version: ${node ? runningVersion(node, "SBIOS") : "1.2.3"}
         Release Date: 09/15/2023
         Address: 0xF0000
         Runtime Size: 64 kB
@@ -627,7 +724,7 @@ Available types:
     // Generate timestamp formatter
     const formatTimestamp = (seconds: number): string => {
       if (humanTime) {
-        const date = new Date();
+        const date = simulationClock.date();
         date.setSeconds(date.getSeconds() - (300 - seconds)); // Simulate recent timestamps
         return `[${date.toLocaleString("en-US", {
           weekday: "short",
@@ -649,7 +746,7 @@ Available types:
             // Format as kernel-style XID error message
             const pciBase = 0x10 + gpu.id;
             const pciAddr = `0000:${pciBase.toString(16).padStart(2, "0")}:00.0`;
-            const timestamp = 100 + gpu.id * 10 + Math.random() * 5;
+            const timestamp = 100 + gpu.id * 10 + simulationRandom.next() * 5;
 
             // Main XID error message
             xidMessages.push(
@@ -673,6 +770,10 @@ Available types:
                 `${formatTimestamp(timestamp + 0.001)} NVRM: GPU ${gpu.id}: Uncorrectable ECC error detected in DRAM`,
               );
             } else if (error.code === 63) {
+              xidMessages.push(
+                `${formatTimestamp(timestamp + 0.001)} NVRM: GPU ${gpu.id}: Row remapping pending - reset GPU to activate`,
+              );
+            } else if (error.code === 64) {
               xidMessages.push(
                 `${formatTimestamp(timestamp + 0.001)} NVRM: GPU ${gpu.id}: Row remapping failed - no spare rows available`,
               );
@@ -684,6 +785,15 @@ Available types:
           });
         }
 
+        // Page retirements and row remaps the driver logged
+        memoryXidEvents(gpu).forEach((event, i) => {
+          const pciAddr = `0000:${(0x10 + gpu.id).toString(16).padStart(2, "0")}:00.0`;
+          const timestamp = 150 + gpu.id * 5 + i * 0.001;
+          xidMessages.push(
+            `${formatTimestamp(timestamp)} NVRM: Xid (PCI:${pciAddr}): ${event.code}, pid='<unknown>', name=<unknown>, ${event.message}`,
+          );
+        });
+
         // Add thermal warnings to dmesg
         if (gpu.temperature > 83) {
           const timestamp = 200 + gpu.id * 5;
@@ -798,6 +908,18 @@ ${formatTimestamp(3.789012)} ACPI Warning: SystemIO range conflicts with OpRegio
     const scenarioCtx = context.scenarioContext;
     const currentNode = context.currentNode || "dgx-00";
 
+    const fmNode =
+      service === FABRIC_MANAGER_UNIT ? this.resolveNode(context) : undefined;
+    if (
+      fmNode &&
+      (action === "status" ||
+        action === "start" ||
+        action === "stop" ||
+        action === "restart")
+    ) {
+      return this.handleFabricManagerUnit(action, fmNode, context);
+    }
+
     if (action === "status") {
       if (!service) {
         return this.createError("Usage: systemctl status <service>");
@@ -817,11 +939,11 @@ ${currentNode} systemd[1]: ${service}.service: Unit not started.`;
 
       if (service.startsWith("nvsm")) {
         // Per spec Golden Output Reference for nvsm-core service
-        const uptime = `${Math.floor(Math.random() * 12)}h ${Math.floor(Math.random() * 60)}min`;
-        const pid = Math.floor(1000 + Math.random() * 5000);
+        const uptime = `${simulationRandom.int(12)}h ${simulationRandom.int(60)}min`;
+        const pid = Math.floor(1000 + simulationRandom.next() * 5000);
         const output = `● ${service}.service - NVSM Core Service
    Loaded: loaded (/usr/lib/systemd/system/${service}.service; enabled; vendor preset: enabled)
-   Active: active (running) since ${new Date().toUTCString()}; ${uptime} ago
+   Active: active (running) since ${simulationClock.date().toUTCString()}; ${uptime} ago
  Main PID: ${pid} (nvsm-core)
     Tasks: 18 (limit: 4915)
    CGroup: /system.slice/${service}.service
@@ -857,6 +979,78 @@ ${currentNode} systemd[1]: ${service}.service: Unit not started.`;
     );
   }
 
+  /**
+   * systemctl for nvidia-fabricmanager, which runs or stops the Fabric
+   * Manager of the node's NVSwitch fabric instead of a generic service
+   */
+  private handleFabricManagerUnit(
+    action: "status" | "start" | "stop" | "restart",
+    node: DGXNode,
+    context: CommandContext,
+  ): CommandResult {
+    const unit = `${FABRIC_MANAGER_UNIT}.service`;
+    const now = simulationClock.now();
+
+    if (action !== "status") {
+      const plan =
+        action === "start"
+          ? planFabricManagerStart(node, now)
+          : action === "stop"
+            ? planFabricManagerStop(node, now)
+            : planFabricManagerRestart(node, now);
+      if (plan.update) {
+        this.resolveMutator(context).updateNVSwitchFabric(node.id, plan.update);
+      }
+      if (plan.error) {
+        return this.createError(
+          `Job for ${unit} failed because the control process exited with error code.
+See "systemctl status ${unit}" and "journalctl -xeu ${unit}" for details.`,
+        );
+      }
+      return this.createSuccess("");
+    }
+
+    const fm = getNVSwitchFabric(node).fabricManager;
+    const lastChange =
+      fm.log.length > 0 ? fm.log[fm.log.length - 1].timestamp : now;
+    let active: string;
+    if (fm.state === "Running") {
+      active = `active (running) since ${new Date(fm.startedAt ?? now).toUTCString()}`;
+    } else if (fm.state === "Failed") {
+      active = `failed (Result: exit-code) since ${new Date(lastChange).toUTCString()}`;
+    } else {
+      active = "inactive (dead)";
+    }
+
+    let output = `● ${unit} - NVIDIA fabric manager service
+   Loaded: loaded (/lib/systemd/system/${unit}; enabled; vendor preset: enabled)
+   Active: ${active}`;
+    if (fm.state === "Running") {
+      output += `
+ Main PID: ${fm.pid} (nv-fabricmanage)
+    Tasks: 18 (limit: 629145)
+   CGroup: /system.slice/${unit}
+           └─${fm.pid} /usr/bin/nv-fabricmanager -c /usr/share/nvidia/nvswitch/fabricmanager.cfg`;
+    } else if (fm.state === "Failed") {
+      output += `
+  Process: ExecStart=/usr/bin/nvidia-fabricmanager-start.sh --mode start (code=exited, status=1/FAILURE)`;
+    }
+
+    const recent = fm.log.slice(-5);
+    if (recent.length > 0) {
+      output += "\n\n";
+      output += recent
+        .map(
+          (e) =>
+            `${formatJournalTimestamp(new Date(e.timestamp))} ${node.hostname} ${e.process}: ${e.message}`,
+        )
+        .join("\n");
+    }
+    return fm.state === "Running"
+      ? this.createSuccess(output)
+      : { output, exitCode: 3 };
+  }
+
   /**
    * Handle hostnamectl command
    * Query or change system hostname
@@ -908,7 +1102,7 @@ ${currentNode} systemd[1]: ${service}.service: Unit not started.`;
     _context: CommandContext,
   ): CommandResult {
     const action = parsed.subcommands[0] || "status";
-    const now = new Date();
+    const now = simulationClock.date();
 
     if (action === "status" || action === undefined) {
       const output = `               Local time: ${now.toLocaleString("en-US", { weekday: "short", year: "numeric", month: "short", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit", hour12: false })} UTC
@@ -964,7 +1158,7 @@ UTC`;
    */
   private handleLsmod(
     parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
     const rawCommand = parsed.raw || "";
     const grepNvidia =
@@ -1053,13 +1247,39 @@ UTC`;
       },
     ];
 
-    let filteredModules = modules;
+    // A node that booted without the NVIDIA module has nouveau driving its
+    // GPUs instead, unless nouveau is blacklisted
+    const node = this.resolveNode(context);
+    const packages = node?.packages;
+    const isNvidiaDriver = (name: string) =>
+      name === "nvidia" || name.startsWith("nvidia_") || name === "nv_peer_mem";
+    let loaded = modules;
+    if (packages && !packages.moduleLoaded) {
+      loaded = modules
+        .filter((m) => !isNvidiaDriver(m.name))
+        .map((m) => ({
+          ...m,
+          dependencies: m.dependencies.filter((d) => !isNvidiaDriver(d)),
+        }));
+    }
+    if (packages && !packages.nouveauBlacklisted) {
+      loaded = [
+        { name: "nouveau", size: 2433024, usedBy: 0, dependencies: [] },
+        ...loaded.map((m) =>
+          m.name === "drm" || m.name === "drm_kms_helper"
+            ? { ...m, dependencies: [...m.dependencies, "nouveau"] }
+            : m,
+        ),
+      ];
+    }
+
+    let filteredModules = loaded;
     if (grepNvidia) {
-      filteredModules = modules.filter(
+      filteredModules = loaded.filter(
         (m) => m.name.includes("nvidia") || m.name.includes("nv_peer"),
       );
     } else if (grepIb) {
-      filteredModules = modules.filter(
+      filteredModules = loaded.filter(
         (m) =>
           m.name.includes("ib_") ||
           m.name.includes("mlx") ||
@@ -1083,7 +1303,7 @@ UTC`;
    */
   private handleModinfo(
     parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
     const moduleName = parsed.subcommands[0] || parsed.positionalArgs[0];
 
@@ -1091,9 +1311,16 @@ UTC`;
       return this.createError("modinfo: ERROR: missing module name.");
     }
 
+    // The NVIDIA modules on disk are the ones DKMS last built for the
+    // running kernel, whatever the kernel has loaded
+    const node = this.resolveNode(context);
+    const kernel = node?.kernelVersion ?? "5.15.0-91-generic";
+    const build = node ? kernelModuleBuild(node) : undefined;
+    const driver = build?.version ?? "535.129.03";
+
     const moduleInfo: Record<string, string> = {
-      nvidia: `filename:       /lib/modules/5.15.0-91-generic/updates/dkms/nvidia.ko
-version:        535.129.03
+      nvidia: `filename:       /lib/modules/${kernel}/updates/dkms/nvidia.ko
+version:        ${driver}
 license:        NVIDIA
 srcversion:     E1234567890ABCDEF123456
 alias:          char-major-195-*
@@ -1102,7 +1329,7 @@ alias:          pci:v000010DEd*sv*sd*bc03sc00i00*
 depends:        drm
 retpoline:      Y
 name:           nvidia
-vermagic:       5.15.0-91-generic SMP mod_unload modversions
+vermagic:       ${kernel} SMP mod_unload modversions
 parm:           NVreg_DeviceFileUID:int
 parm:           NVreg_DeviceFileGID:int
 parm:           NVreg_DeviceFileMode:int
@@ -1117,44 +1344,44 @@ parm:           NVreg_RegistryDwordsPerDevice:charp
 parm:           NVreg_RmMsg:charp
 parm:           NVreg_GpuBlacklist:charp`,
 
-      nvidia_uvm: `filename:       /lib/modules/5.15.0-91-generic/updates/dkms/nvidia-uvm.ko
-version:        535.129.03
+      nvidia_uvm: `filename:       /lib/modules/${kernel}/updates/dkms/nvidia-uvm.ko
+version:        ${driver}
 license:        NVIDIA
 srcversion:     ABCDEF1234567890ABCDEF
 depends:        nvidia
 retpoline:      Y
 name:           nvidia_uvm
-vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
+vermagic:       ${kernel} SMP mod_unload modversions`,
 
-      nvidia_modeset: `filename:       /lib/modules/5.15.0-91-generic/updates/dkms/nvidia-modeset.ko
-version:        535.129.03
+      nvidia_modeset: `filename:       /lib/modules/${kernel}/updates/dkms/nvidia-modeset.ko
+version:        ${driver}
 license:        NVIDIA
 srcversion:     FEDCBA0987654321FEDCBA
 depends:        nvidia,drm
 retpoline:      Y
 name:           nvidia_modeset
-vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
+vermagic:       ${kernel} SMP mod_unload modversions`,
 
-      nvidia_drm: `filename:       /lib/modules/5.15.0-91-generic/updates/dkms/nvidia-drm.ko
-version:        535.129.03
+      nvidia_drm: `filename:       /lib/modules/${kernel}/updates/dkms/nvidia-drm.ko
+version:        ${driver}
 license:        NVIDIA
 srcversion:     123ABC456DEF789GHI012J
 depends:        nvidia,nvidia-modeset,drm,drm_kms_helper
 retpoline:      Y
 name:           nvidia_drm
-vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
+vermagic:       ${kernel} SMP mod_unload modversions`,
 
-      nvidia_peermem: `filename:       /lib/modules/5.15.0-91-generic/updates/dkms/nvidia-peermem.ko
-version:        535.129.03
+      nvidia_peermem: `filename:       /lib/modules/${kernel}/updates/dkms/nvidia-peermem.ko
+version:        ${driver}
 license:        GPL
 description:    NVIDIA GPUDirect Peer Memory Client
 srcversion:     A1B2C3D4E5F6G7H8I9J0K
 depends:        nvidia,ib_core
 retpoline:      Y
 name:           nvidia_peermem
-vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
+vermagic:       ${kernel} SMP mod_unload modversions`,
 
-      mlx5_core: `filename:       /lib/modules/5.15.0-91-generic/kernel/drivers/net/ethernet/mellanox/mlx5/core/mlx5_core.ko
+      mlx5_core: `filename:       /lib/modules/${kernel}/kernel/drivers/net/ethernet/mellanox/mlx5/core/mlx5_core.ko
 version:        23.10-1.1.9
 license:        Dual BSD/GPL
 description:    Mellanox 5th generation network adapters (ConnectX series) core driver
@@ -1166,10 +1393,10 @@ alias:          pci:v000015B3d0000101Dsv*sd*bc*sc*i*
 depends:        mlxfw,pci-hyperv-intf,mlxdevm,psample
 retpoline:      Y
 name:           mlx5_core
-vermagic:       5.15.0-91-generic SMP mod_unload modversions
+vermagic:       ${kernel} SMP mod_unload modversions
 parm:           debug_mask:debug mask: 1 = dump cmd data, 2 = dump poll data, 4 = dump aeq data (uint)`,
 
-      mlx5_ib: `filename:       /lib/modules/5.15.0-91-generic/kernel/drivers/infiniband/hw/mlx5/mlx5_ib.ko
+      mlx5_ib: `filename:       /lib/modules/${kernel}/kernel/drivers/infiniband/hw/mlx5/mlx5_ib.ko
 version:        23.10-1.1.9
 license:        Dual BSD/GPL
 description:    Mellanox 5th generation network adapters (ConnectX series) IB driver
@@ -1178,31 +1405,33 @@ srcversion:     MLX5IB9876543210FEDCBA
 depends:        mlx5_core,ib_core,ib_uverbs
 retpoline:      Y
 name:           mlx5_ib
-vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
+vermagic:       ${kernel} SMP mod_unload modversions`,
 
-      ib_core: `filename:       /lib/modules/5.15.0-91-generic/kernel/drivers/infiniband/core/ib_core.ko
+      ib_core: `filename:       /lib/modules/${kernel}/kernel/drivers/infiniband/core/ib_core.ko
 license:        Dual BSD/GPL
 description:    core kernel InfiniBand API
 srcversion:     IBCORE111222333444555AB
 depends:
 retpoline:      Y
 name:           ib_core
-vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
+vermagic:       ${kernel} SMP mod_unload modversions`,
 
-      ib_uverbs: `filename:       /lib/modules/5.15.0-91-generic/kernel/drivers/infiniband/core/ib_uverbs.ko
+      ib_uverbs: `filename:       /lib/modules/${kernel}/kernel/drivers/infiniband/core/ib_uverbs.ko
 license:        Dual BSD/GPL
 description:    InfiniBand userspace verbs access
 srcversion:     IBUVERBS666777888999AAA
 depends:        ib_core
 retpoline:      Y
 name:           ib_uverbs
-vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
+vermagic:       ${kernel} SMP mod_unload modversions`,
     };
 
     // Check if module exists in our database
-    const info =
-      moduleInfo[moduleName] || moduleInfo[moduleName.replace(/-/g, "_")];
-    if (info) {
+    const name = moduleName.replace(/-/g, "_");
+    const info = moduleInfo[moduleName] || moduleInfo[name];
+    // DKMS built no NVIDIA module for this kernel
+    const missing = node !== undefined && !build && name.startsWith("nvidia");
+    if (info && !missing) {
       return this.createSuccess(info);
     }
 
@@ -1222,7 +1451,7 @@ vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
 
     const currentNode = this.resolveNode(context);
 
-    const now = new Date();
+    const now = simulationClock.date();
     const timeStr = now.toLocaleTimeString("en-US", { hour12: false });
     const uptime = "12:34:56";
     const users = 3;
@@ -1447,31 +1676,13 @@ vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
   }
 
   /**
-   * Handle ps command
-   * Report a snapshot of current processes
-   * Supports aux and -ef formats
+   * Build the simulated process table for a node.
+   * Shared by ps and pgrep so both report the same PIDs.
    */
-  private handlePs(
-    parsed: ParsedCommand,
-    context: CommandContext,
-  ): CommandResult {
-    const rawCommand = parsed.raw || "";
-    const auxFormat =
-      rawCommand.includes("aux") || parsed.positionalArgs.includes("aux");
-    const efFormat =
-      rawCommand.includes("-ef") || this.hasAnyFlag(parsed, ["e", "f"]);
-    const grepNvidia =
-      rawCommand.includes("grep nvidia") ||
-      rawCommand.includes("grep -i nvidia");
-    const grepGpu =
-      rawCommand.includes("grep gpu") || rawCommand.includes("grep -i gpu");
-    const grepSlurm =
-      rawCommand.includes("grep slurm") || rawCommand.includes("grep -i slurm");
-
+  private getProcessList(context: CommandContext): ProcessEntry[] {
     const currentNode = this.resolveNode(context);
 
-    // Process list
-    const processes = [
+    const processes: ProcessEntry[] = [
       {
         user: "root",
         pid: 1,
@@ -1720,6 +1931,33 @@ vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
       });
     }
 
+    return processes;
+  }
+
+  /**
+   * Handle ps command
+   * Report a snapshot of current processes
+   * Supports aux and -ef formats
+   */
+  private handlePs(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const rawCommand = parsed.raw || "";
+    const auxFormat =
+      rawCommand.includes("aux") || parsed.positionalArgs.includes("aux");
+    const efFormat =
+      rawCommand.includes("-ef") || this.hasAnyFlag(parsed, ["e", "f"]);
+    const grepNvidia =
+      rawCommand.includes("grep nvidia") ||
+      rawCommand.includes("grep -i nvidia");
+    const grepGpu =
+      rawCommand.includes("grep gpu") || rawCommand.includes("grep -i gpu");
+    const grepSlurm =
+      rawCommand.includes("grep slurm") || rawCommand.includes("grep -i slurm");
+
+    const processes = this.getProcessList(context);
+
     // Filter based on grep
     let filteredProcesses = processes;
     if (grepNvidia) {
@@ -1765,6 +2003,101 @@ vermagic:       5.15.0-91-generic SMP mod_unload modversions`,
     return this.createSuccess(output);
   }
 
+  /**
+   * Handle pgrep command
+   * Matches the pattern against process names from the same table as ps.
+   * Supports -l, -a, -f, -x, -c, -n and -u.
+   * Exits 1 when no process matches.
+   */
+  private handlePgrep(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    // Walk raw args: the generic parser would treat the pattern after a
+    // boolean flag like -l as that flag's value.
+    let listName = false;
+    let listFull = false;
+    let matchFull = false;
+    let exact = false;
+    let count = false;
+    let newest = false;
+    let user: string | undefined;
+    let pattern: string | undefined;
+
+    const args = parsed.rawArgs;
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === "-u" || arg === "--uid") {
+        user = args[++i];
+      } else if (arg.startsWith("--")) {
+        if (arg === "--list-name") listName = true;
+        else if (arg === "--list-full") listFull = true;
+        else if (arg === "--full") matchFull = true;
+        else if (arg === "--exact") exact = true;
+        else if (arg === "--count") count = true;
+        else if (arg === "--newest") newest = true;
+      } else if (arg.startsWith("-") && arg.length > 1) {
+        for (const flag of arg.slice(1)) {
+          if (flag === "l") listName = true;
+          else if (flag === "a") listFull = true;
+          else if (flag === "f") matchFull = true;
+          else if (flag === "x") exact = true;
+          else if (flag === "c") count = true;
+          else if (flag === "n") newest = true;
+        }
+      } else {
+        pattern = arg;
+      }
+    }
+
+    if (pattern === undefined) {
+      return {
+        output:
+          "pgrep: no matching criteria specified\nTry `pgrep --help' for more information.",
+        exitCode: 2,
+      };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(exact ? `^(?:${pattern})$` : pattern);
+    } catch {
+      return {
+        output: `pgrep: invalid regular expression: ${pattern}`,
+        exitCode: 2,
+      };
+    }
+
+    const processName = (p: ProcessEntry) =>
+      p.cmd.split(/\s+/)[0].split("/").pop()?.replace(/:$/, "") ?? p.cmd;
+
+    let matches = this.getProcessList(context).filter(
+      (p) =>
+        (!user || p.user === user) &&
+        regex.test(matchFull ? p.cmd : processName(p)),
+    );
+    if (newest && matches.length > 0) {
+      matches = [matches.reduce((a, b) => (b.pid > a.pid ? b : a))];
+    }
+
+    if (count) {
+      return {
+        output: String(matches.length),
+        exitCode: matches.length > 0 ? 0 : 1,
+      };
+    }
+    if (matches.length === 0) {
+      return { output: "", exitCode: 1 };
+    }
+
+    const lines = matches.map((p) => {
+      if (listFull) return `${p.pid} ${p.cmd}`;
+      if (listName) return `${p.pid} ${processName(p)}`;
+      return String(p.pid);
+    });
+    return this.createSuccess(lines.join("\n"));
+  }
+
   /**
    * Handle numactl command
    * Control NUMA policy for processes or shared memory
@@ -1855,16 +2188,16 @@ Options:
   ): CommandResult {
     const currentNode = this.resolveNode(context);
 
-    const now = new Date();
+    const now = simulationClock.date();
     const timeStr = now.toLocaleTimeString("en-US", {
       hour: "2-digit",
       minute: "2-digit",
       hour12: false,
     });
-    const days = Math.floor(Math.random() * 30) + 5;
-    const hours = Math.floor(Math.random() * 24);
-    const mins = Math.floor(Math.random() * 60);
-    const users = Math.floor(Math.random() * 5) + 1;
+    const days = simulationRandom.int(30) + 5;
+    const hours = simulationRandom.int(24);
+    const mins = simulationRandom.int(60);
+    const users = simulationRandom.int(5) + 1;
 
     // Calculate load average based on GPU utilization
     const loadAvg = currentNode
@@ -1896,11 +2229,41 @@ Options:
         ]
       : ["0.45", "0.38", "0.32"];
 
-    const output = ` ${timeStr} up ${days} days, ${hours}:${mins.toString().padStart(2, "0")},  ${users} users,  load average: ${loadAvg.join(", ")}`;
+    // Nodes booted during the session count from their last power-on
+    const poweredOnAt = currentNode?.bmc?.poweredOnAt;
+    let up = `${days} days, ${hours}:${mins.toString().padStart(2, "0")}`;
+    if (poweredOnAt !== undefined) {
+      const upMins = Math.floor((now.getTime() - poweredOnAt) / 60000);
+      up =
+        upMins < 60
+          ? `${upMins} min`
+          : `${Math.floor(upMins / 60)}:${(upMins % 60).toString().padStart(2, "0")}`;
+    }
+
+    const output = ` ${timeStr} up ${up},  ${users} users,  load average: ${loadAvg.join(", ")}`;
 
     return this.createSuccess(output);
   }
 
+  /**
+   * Handle reboot command
+   * Shuts the OS down and has the BMC reset the node, which then boots
+   * again; the session ends with it
+   */
+  private handleReboot(
+    _parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const node = this.resolveNode(context);
+    if (!node) {
+      return this.createError("reboot: Unable to determine current node");
+    }
+    this.applyPowerAction(context, node, "reboot");
+    return this.createSuccess(
+      `Connection to ${node.hostname} closed by remote host.\nConnection to ${node.hostname} closed.`,
+    );
+  }
+
   /**
    * Handle uname command
    * Print system information
@@ -1920,10 +2283,12 @@ Options:
     const os = this.hasAnyFlag(parsed, ["o"]);
 
     const hostname = context.currentNode || "dgx-00";
+    const kernel =
+      this.resolveNode(context)?.kernelVersion ?? "5.15.0-91-generic";
 
     if (all) {
       return this.createSuccess(
-        `Linux ${hostname} 5.15.0-91-generic #101-Ubuntu SMP Tue Nov 14 13:30:08 UTC 2023 x86_64 x86_64 x86_64 GNU/Linux`,
+        `Linux ${hostname} ${kernel} #101-Ubuntu SMP Tue Nov 14 13:30:08 UTC 2023 x86_64 x86_64 x86_64 GNU/Linux`,
       );
     }
 
@@ -1945,7 +2310,7 @@ Options:
       parts.push(hostname);
     }
     if (kernelRelease) {
-      parts.push("5.15.0-91-generic");
+      parts.push(kernel);
     }
     if (kernelVersion) {
       parts.push("#101-Ubuntu SMP Tue Nov 14 13:30:08 UTC 2023");
@@ -1980,8 +2345,9 @@ Options:
   }
 
   /**
-   * Handle firmware version check command
-   * Display firmware versions for various system components
+   * Handle fw-check / firmware command
+   * Reports the firmware each component runs against the firmware bundle,
+   * with flashes that are staged or did not complete
    */
   private handleFirmwareCheck(
     parsed: ParsedCommand,
@@ -1990,37 +2356,45 @@ Options:
     const node = this.resolveNode(context) || this.resolveAllNodes(context)[0];
 
     const component = parsed.positionalArgs[0] || "all";
+    const known = [
+      "all",
+      "switch",
+      "transceiver",
+      ...Object.keys(FW_CHECK_SECTIONS),
+    ];
+    if (!known.includes(component)) {
+      return this.createError(
+        `fw-check: unknown component '${component}'\nUsage: fw-check [${known.slice(1).join("|")}|all]`,
+      );
+    }
 
     let output = `Firmware Version Report - ${node.hostname}\n`;
     output += `${"=".repeat(50)}\n\n`;
 
-    if (component === "all" || component === "bmc") {
-      output += `BMC Firmware:\n`;
-      output += `  Version: 4.2.1-2024.11\n`;
-      output += `  Build Date: 2024-11-15\n`;
-      output += `  Status: Current\n\n`;
-    }
-
-    if (component === "all" || component === "gpu") {
-      output += `GPU VBIOS (per GPU):\n`;
-      node.gpus.forEach((_gpu: GPU, idx: number) => {
-        output += `  GPU ${idx}: 96.00.5F.00.01\n`;
-      });
-      output += `  Status: Current\n\n`;
+    const inventory = getNodeFirmware(node);
+    for (const [section, type] of Object.entries(FW_CHECK_SECTIONS)) {
+      if (component !== "all" && component !== section) continue;
+      const components = inventory.filter((c) => c.type === type);
+      if (components.length === 0) continue;
+      output += `${FIRMWARE_LABELS[type]}:\n`;
+      for (const c of components) {
+        const name = components.length === 1 ? "Version" : c.id;
+        const flash = c.flash
+          ? c.flash.status === "pending"
+            ? ` (${c.flash.version} pending activation)`
+            : ` (flash of ${c.flash.version} ${c.flash.status})`
+          : "";
+        output += `  ${name}: ${c.version}${flash}\n`;
+      }
+      output += `  Status: ${this.firmwareStatus(components)}\n\n`;
     }
 
     if (component === "all" || component === "switch") {
-      output += `Network Switches:\n`;
-      output += `  Leaf Switch 1: MLNX-OS 3.10.3300\n`;
-      output += `  Leaf Switch 2: MLNX-OS 3.10.3300\n`;
-      output += `  Status: Current\n\n`;
-    }
-
-    if (component === "all" || component === "bluefield") {
-      output += `BlueField DPU:\n`;
-      output += `  DOCA Version: 2.7.0\n`;
-      output += `  BFB Version: 4.7.0-123\n`;
-      output += `  Status: Current\n\n`;
+      output += `InfiniBand Switches:\n`;
+      for (const sw of getFabric(this.resolveCluster(context)).switches) {
+        output += `  ${sw.id}: ${sw.model} ${sw.firmwareVersion}\n`;
+      }
+      output += `\n`;
     }
 
     if (component === "all" || component === "transceiver") {
@@ -2034,6 +2408,179 @@ Options:
     return this.createSuccess(output);
   }
 
+  /**
+   * The worst state among components of one type: a flash to redo, an
+   * image waiting to be activated, or a release behind the bundle
+   */
+  private firmwareStatus(components: FirmwareComponent[]): string {
+    const broken = components.find(
+      (c) => c.flash && c.flash.status !== "pending",
+    );
+    if (broken) {
+      return `Flash ${broken.flash!.status} on ${broken.id} - flash it again`;
+    }
+    if (components.some((c) => c.flash)) {
+      return `Pending activation - ${activationHint(components[0].type)}`;
+    }
+    const behind = components.find((c) => !isFirmwareCurrent(c));
+    if (behind) {
+      return `Update available (${recommendedVersion(behind)})`;
+    }
+    return "Current";
+  }
+
+  /**
+   * Handle fwupdmgr command
+   * Lists and updates BMC, system BIOS, GPU, NVSwitch and PSU firmware from
+   * the firmware bundle. Updates are staged: the BMC loads its image when it
+   * is reset, everything else on the next reboot.
+   */
+  private handleFwupdmgr(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const node = this.resolveNode(context);
+    if (!node) {
+      return this.createError("fwupdmgr: No node context available");
+    }
+
+    const args = [...parsed.subcommands, ...parsed.positionalArgs];
+    const command = args[0] || "get-devices";
+    const deviceId = args[1];
+    const devices = getNodeFirmware(node).filter((c) =>
+      FWUPD_TYPES.includes(c.type),
+    );
+    const name = (c: FirmwareComponent) =>
+      c.type === "vbios" ? `${c.id} VBIOS` : c.id;
+    const tree = (rows: string[][]) =>
+      rows
+        .map((fields, i) => {
+          const branch = i === rows.length - 1 ? "└─" : "├─";
+          return [
+            `${branch}${fields[0]}:`,
+            ...fields.slice(1).map((f) => `│     ${f}`),
+            "│",
+          ].join("\n");
+        })
+        .join("\n");
+    const header = `NVIDIA ${getSystemDisplayName(node.systemType)}\n│\n`;
+
+    switch (command) {
+      case "get-devices":
+        return this.createSuccess(
+          header +
+            tree(
+              devices.map((c) => [
+                name(c),
+                `Device ID:          ${c.id}`,
+                `Current version:    ${c.version}`,
+                "Vendor:             NVIDIA",
+                ...(c.flash
+                  ? [
+                      `Update State:       ${c.flash.status === "pending" ? (c.type === "bmc" ? "Pending" : "Needs reboot") : "Failed"}`,
+                    ]
+                  : []),
+                "Device Flags:       • Updatable",
+              ]),
+            ),
+        );
+
+      case "get-updates": {
+        const updates = devices.filter((c) =>
+          isFlashNeeded(c, recommendedVersion(c) ?? c.version),
+        );
+        if (updates.length === 0) {
+          return this.createSuccess(
+            "No updates available for remaining devices",
+          );
+        }
+        return this.createSuccess(
+          header +
+            tree(
+              updates.map((c) => [
+                name(c),
+                `Current version:    ${c.version}`,
+                `New version:        ${recommendedVersion(c)}`,
+              ]),
+            ),
+        );
+      }
+
+      case "refresh":
+        return this.createSuccess(
+          "Updating lvfs\nDownloading…             [***************************************]\nSuccessfully downloaded new metadata: 1 local device supported",
+        );
+
+      case "update": {
+        const selected = deviceId
+          ? devices.filter((c) => c.id === deviceId)
+          : devices;
+        if (deviceId && selected.length === 0) {
+          return this.createError(`fwupdmgr: No device found for ${deviceId}`);
+        }
+        const targets = selected.filter((c) =>
+          isFlashNeeded(c, recommendedVersion(c) ?? c.version),
+        );
+        if (targets.length === 0) {
+          return this.createSuccess(
+            "No updates available for remaining devices",
+          );
+        }
+        const plan = planFirmwareFlash(
+          node,
+          targets.map((c) => c.id),
+          simulationClock.now(),
+        );
+        if (!plan.update) {
+          return this.createError(`fwupdmgr: ${plan.error}`);
+        }
+        this.resolveMutator(context).updateNodeFirmware(node.id, plan.update);
+
+        let output = "";
+        for (const c of targets) {
+          output += `Upgrading ${name(c)} from ${c.version} to ${recommendedVersion(c)}...\n`;
+          output += `Writing…                 [***************************************]\n`;
+          output += `Successfully installed firmware\n\n`;
+        }
+        if (targets.some((c) => c.type === "bmc")) {
+          output += `The new BMC firmware runs once the BMC is reset (ipmitool mc reset cold).\n`;
+        }
+        if (targets.some((c) => c.type !== "bmc")) {
+          output += `An update requires a reboot to complete.\n`;
+        }
+        return this.createSuccess(output.trimEnd());
+      }
+
+      case "get-history": {
+        const flashed = devices.filter((c) => c.flash);
+        if (flashed.length === 0) {
+          return this.createSuccess("No history");
+        }
+        return this.createSuccess(
+          header +
+            tree(
+              flashed.map((c) => [
+                name(c),
+                `Current version:    ${c.version}`,
+                `Update State:       ${c.flash!.status === "pending" ? "Pending" : "Failed"}`,
+                `Update Version:     ${c.flash!.version}`,
+                ...(c.flash!.status === "interrupted"
+                  ? [
+                      "Update Error:       The device was reset while the image was written",
+                    ]
+                  : c.flash!.status === "failed"
+                    ? ["Update Error:       Image verification failed"]
+                    : []),
+              ]),
+            ),
+        );
+      }
+
+      default:
+        return this.createError(`fwupdmgr: Unknown command '${command}'`);
+    }
+  }
+
   /**
    * Handle sensors command (lm-sensors)
    * Displays hardware sensor readings grouped by chip
@@ -5,6 +5,12 @@ import type {
   SimulatorMetadata,
 } from "@/types/commands";
 import { BaseSimulator } from "./BaseSimulator";
+import { simulationClock } from "@/simulation/simulationClock";
+import { getPowerPhase, type PowerAction } from "@/utils/nodePower";
+import { formatPowerLine } from "./cmshSimulator";
+
+const BCM_NODE_USAGE =
+  "Usage: bcm-node list | show <node-id> | power <on|off|cycle|reset|status> <node-id>";
 
 interface BCMJob {
   id: number;
@@ -52,8 +58,13 @@ export class BcmSimulator extends BaseSimulator {
         {
           name: "bcm-node",
           description: "Node management commands",
-          usage: "bcm-node list | show <node-id>",
-          examples: ["bcm-node list", "bcm-node show dgx-00"],
+          usage:
+            "bcm-node list | show <node-id> | power <on|off|cycle|reset|status> <node-id>",
+          examples: [
+            "bcm-node list",
+            "bcm-node show dgx-00",
+            "bcm-node power cycle dgx-00",
+          ],
         },
         {
           name: "crm",
@@ -114,6 +125,7 @@ export class BcmSimulator extends BaseSimulator {
       output += "Commands:\n";
       output += "  bcm-node list         List all cluster nodes\n";
       output += "  bcm-node show <id>    Show detailed node information\n";
+      output += "  bcm-node power <op> <id>  Power control through the BMC\n";
       output += "  bcm ha status         Show HA status\n";
       output += "  bcm job list        List deployment jobs\n";
       output += "  bcm job logs <id>   Show job logs\n";
@@ -166,7 +178,7 @@ export class BcmSimulator extends BaseSimulator {
     );
   }
 
-  // bcm-node list | show <nodeid>
+  // bcm-node list | show <nodeid> | power <op> <nodeid>
   private handleBcmNode(
     parsed: ParsedCommand,
     context: CommandContext,
@@ -186,8 +198,12 @@ export class BcmSimulator extends BaseSimulator {
       return this.showNodeDetails(node);
     }
 
+    if (command === "power") {
+      return this.handleBcmNodePower(parsed, context);
+    }
+
     if (command !== "list") {
-      return this.createError("Usage: bcm-node list | show <node-id>");
+      return this.createError(BCM_NODE_USAGE);
     }
 
     // SOURCE OF TRUTH: Column widths for node inventory
@@ -225,12 +241,17 @@ export class BcmSimulator extends BaseSimulator {
     output += "-".repeat(TOTAL_WIDTH) + "\n";
 
     nodes.forEach((node) => {
+      const phase = getPowerPhase(node);
       const status =
-        node.healthStatus === "OK"
-          ? "\x1b[32mHealthy\x1b[0m"
-          : node.healthStatus === "Warning"
-            ? "\x1b[33mWarning\x1b[0m"
-            : "\x1b[31mCritical\x1b[0m";
+        phase === "Off"
+          ? "\x1b[90mOff\x1b[0m"
+          : phase !== "Ready"
+            ? "\x1b[36mBooting\x1b[0m"
+            : node.healthStatus === "OK"
+              ? "\x1b[32mHealthy\x1b[0m"
+              : node.healthStatus === "Warning"
+                ? "\x1b[33mWarning\x1b[0m"
+                : "\x1b[31mCritical\x1b[0m";
 
       output +=
         node.id.padEnd(COL_NODEID) +
@@ -248,6 +269,41 @@ export class BcmSimulator extends BaseSimulator {
     return this.createSuccess(output);
   }
 
+  // bcm-node power <on|off|cycle|reset|status> <nodeid>
+  private handleBcmNodePower(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const operation = parsed.subcommands[1];
+    const nodeId = parsed.subcommands[2] || parsed.positionalArgs[0];
+    const actions: Record<string, PowerAction> = {
+      on: "on",
+      off: "off",
+      cycle: "cycle",
+      reset: "reset",
+    };
+    if (!nodeId || (operation !== "status" && !actions[operation])) {
+      return this.createError(BCM_NODE_USAGE);
+    }
+    const node = this.getNodes(context).find((n) => n.id === nodeId);
+    if (!node) {
+      return this.createError(`Error: Node '${nodeId}' not found in cluster`);
+    }
+
+    if (operation === "status") {
+      return this.createSuccess(
+        formatPowerLine(node, node.bmc.powerState.toUpperCase()),
+      );
+    }
+    const error = this.applyPowerAction(context, node, actions[operation]);
+    if (error) {
+      return this.createError(
+        `${formatPowerLine(node, "FAILED")}\n${node.id}: ${error}`,
+      );
+    }
+    return this.createSuccess(formatPowerLine(node, operation.toUpperCase()));
+  }
+
   // Show detailed node information
   private showNodeDetails(
     node: ReturnType<typeof this.getNodes>[0],
@@ -272,6 +328,8 @@ export class BcmSimulator extends BaseSimulator {
     output += `Hostname:         ${node.hostname}\n`;
     output += `System Type:      ${node.systemType}\n`;
     output += `Health Status:    ${healthColor}${node.healthStatus}${reset}\n`;
+    const phase = getPowerPhase(node);
+    output += `Power:            ${phase === "Ready" || phase === "Off" ? node.bmc.powerState : `On (booting: ${phase})`}\n`;
     output += `OS Version:       ${node.osVersion}\n`;
     output += `Kernel:           ${node.kernelVersion}\n\n`;
 
@@ -563,7 +621,7 @@ export class BcmSimulator extends BaseSimulator {
     output += "Cluster Summary:\n";
     output += `  * Stack: corosync\n`;
     output += `  * Current DC: ${cluster.bcmHA.primary} (version 2.1.2-4) - partition with quorum\n`;
-    output += `  * Last updated: ${new Date().toISOString()}\n`;
+    output += `  * Last updated: ${simulationClock.date().toISOString()}\n`;
     output += `  * Last change:  2024-01-10T08:00:00Z\n`;
     output += `  * 2 nodes configured\n`;
     output += `  * 4 resource instances configured\n\n`;
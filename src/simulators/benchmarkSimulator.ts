@@ -13,6 +13,11 @@ import type { ParsedCommand } from "@/utils/commandParser";
 import type { GPU, DGXNode } from "@/types/hardware";
 import { getHardwareSpecs } from "@/data/hardwareSpecs";
 import type { SystemType } from "@/data/hardwareSpecs";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+import { unregisteredGpus } from "@/utils/nvswitchFabric";
+import { isDriverLoaded } from "@/utils/nodePower";
+import { libraryMismatch } from "@/utils/nodePackages";
 
 const ncclBaselineBandwidthGBs: Record<SystemType, number> = {
   "DGX-A100": 240,
@@ -270,6 +275,26 @@ export class BenchmarkSimulator extends BaseSimulator {
       return this.createError(`Unknown benchmark: ${parsed.baseCommand}`);
     }
 
+    // CUDA finds no devices before the driver has loaded, refuses a driver
+    // its libraries do not match, and will not initialize until every GPU
+    // has joined the NVLink fabric
+    const node = this.getNode(context);
+    if (node && !isDriverLoaded(node)) {
+      return this.createError(
+        `${parsed.baseCommand}: cudaGetDeviceCount failed: no CUDA-capable device is detected (CUDA error 100)`,
+      );
+    }
+    if (node && libraryMismatch(node)) {
+      return this.createError(
+        `${parsed.baseCommand}: cudaGetDeviceCount failed: system has unsupported display driver / cuda driver combination (CUDA error 803)`,
+      );
+    }
+    if (node && unregisteredGpus(node).length > 0) {
+      return this.createError(
+        `${parsed.baseCommand}: cudaGetDeviceCount failed: system not yet initialized (CUDA error 802)`,
+      );
+    }
+
     // Execute handler (handlers in this simulator are synchronous)
     return this.safeExecuteHandler(handler, parsed, context) as CommandResult;
   }
@@ -329,7 +354,7 @@ export class BenchmarkSimulator extends BaseSimulator {
     const theoreticalPeak = tflopsPerGPU * totalGPUs;
 
     // Efficiency: 85-92% is realistic for well-tuned HPL
-    const efficiency = 0.85 + Math.random() * 0.07;
+    const efficiency = 0.85 + simulationRandom.next() * 0.07;
     const achievedTFLOPS = theoreticalPeak * efficiency;
 
     // Execution time estimate (scales with problem size^3 and inversely with FLOPS)
@@ -406,7 +431,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
     output += `================\n`;
     output += `Problem Size (N): ${problemSize}\n`;
     output += `Iterations: ${iterations}\n`;
-    output += `Start time: ${new Date().toLocaleString()}\n\n`;
+    output += `Start time: ${simulationClock.date().toLocaleString()}\n\n`;
 
     output += `Running High-Performance Linpack burn-in...\n`;
     output += `Each iteration takes approximately 2-3 minutes\n\n`;
@@ -417,7 +442,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
       hplBaselineTflops["DGX-A100"];
     const tflopsValues: number[] = [];
     for (let i = 1; i <= Math.min(5, iterations); i++) {
-      const gflops = baseline * (0.9 + Math.random() * 0.1);
+      const gflops = baseline * (0.9 + simulationRandom.next() * 0.1);
       tflopsValues.push(gflops);
       output += `Iteration ${i}/${iterations}: ${gflops.toFixed(2)} TFLOPS\n`;
     }
@@ -426,7 +451,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
       output += `... (${iterations - 5} more iterations)\n`;
       // Generate additional TFLOPS values for statistics
       for (let i = 6; i <= iterations; i++) {
-        tflopsValues.push(baseline * (0.9 + Math.random() * 0.1));
+        tflopsValues.push(baseline * (0.9 + simulationRandom.next() * 0.1));
       }
     }
 
@@ -687,7 +712,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
     let output = `NCCL Burn-in Test\n`;
     output += `================\n`;
     output += `Iterations: ${iterations}\n`;
-    output += `Start time: ${new Date().toLocaleString()}\n\n`;
+    output += `Start time: ${simulationClock.date().toLocaleString()}\n\n`;
 
     // Simulate burn-in test with progress
     output += `Running NCCL AllReduce burn-in...\n`;
@@ -696,7 +721,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
     const bandwidths: number[] = [];
 
     for (let i = 1; i <= Math.min(10, iterations); i++) {
-      const bandwidth = 280 + Math.random() * 20; // 280-300 GB/s
+      const bandwidth = 280 + simulationRandom.next() * 20; // 280-300 GB/s
       bandwidths.push(bandwidth);
       output += `Iteration ${i}/${iterations}: ${bandwidth.toFixed(2)} GB/s\n`;
     }
@@ -705,7 +730,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
       output += `... (${iterations - 10} more iterations)\n`;
       // Generate additional bandwidth values for statistics
       for (let i = 11; i <= iterations; i++) {
-        bandwidths.push(280 + Math.random() * 20);
+        bandwidths.push(280 + simulationRandom.next() * 20);
       }
     }
 
@@ -804,7 +829,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
       const processed = Math.round((pct / 100) * 8192);
       gpusToTest.forEach((gpu: GPU, idx: number) => {
         const temp = Math.min(85, gpu.temperature + 10 + sample * 2);
-        const flops = gpuFlops * (0.97 + Math.random() * 0.02);
+        const flops = gpuFlops * (0.97 + simulationRandom.next() * 0.02);
         output += `GPU ${idx}: ${pct}% proc'd: ${processed} (8192) - ${flops.toFixed(1)} Gflop/s - temp: ${temp.toFixed(0)}C [OK]\n`;
       });
     }
@@ -817,7 +842,7 @@ ${efficiency < 0.8 ? "\n\x1b[33mNote: Efficiency below 80% may indicate:\n  - Su
         : `\x1b[33mNote: ${thermalIssues.length} GPU(s) near thermal limit\x1b[0m\n`;
 
     // Reset GPUs to original state after test via StateMutator
-    setTimeout(() => {
+    simulationClock.setTimeout(() => {
       const restoreMutator = this.resolveMutator(context);
       originalState.forEach((saved) => {
         restoreMutator.updateGPU(node.id, saved.id, {
@@ -0,0 +1,699 @@
+/**
+ * BlueField Simulator
+ *
+ * The host's side of its BlueField DPUs, and a shell on their Arm OS:
+ * - bfb-install - Push a BFB image through rshim, reinstalling the Arm OS
+ * - screen, minicom - Open the Arm console at /dev/rshim<N>/console
+ * - ssh to the DPU's tmfifo address (routed here by the terminal)
+ *
+ * At the Arm prompt, ovs-vsctl manages the OVS bridges, mlnx-sf the
+ * scalable functions, `ip link` the uplinks and representors, and
+ * mlxprivhost restricts the host. Changes go through the StateMutator, so a
+ * host PF goes down in ibdev2netdev as soon as its bridge loses the uplink.
+ * Like `apptainer shell`, a login lasts until `exit`.
+ */
+
+import { BaseSimulator } from "./BaseSimulator";
+import type {
+  CommandContext,
+  CommandResult,
+  ParsedCommand,
+} from "@/types/commands";
+import type {
+  BlueFieldArmState,
+  BlueFieldDPU,
+  DGXNode,
+} from "@/types/hardware";
+import { parse } from "@/utils/commandParser";
+import {
+  armLinks,
+  armPciAddress,
+  findDpuByArmAddress,
+  getArmState,
+  isArmRunning,
+  isRshimPresent,
+  macAddress,
+  nextMode,
+  ownsEswitch,
+  planArmChange,
+  planBfbInstall,
+  planHostPrivilege,
+  sfIndex,
+  sfNetdev,
+  sfRepresentor,
+  type ArmLink,
+  type BlueFieldPlan,
+} from "@/utils/blueFieldDpu";
+
+const ARM_HOSTNAME = "localhost";
+const ARM_PROMPT = `root@${ARM_HOSTNAME}:~# `;
+const ARM_KERNEL = "5.15.0-1035-bluefield";
+const OVS_VERSION = "2.17.8";
+
+// Applies a plan from the Arm side and answers with the output
+type ApplyPlan = (plan: BlueFieldPlan, output?: string) => CommandResult;
+
+/** An open login on a DPU's Arm OS */
+interface ArmSession {
+  nodeId: string;
+  dpuId: number;
+  farewell: string; // Printed at `exit`
+}
+
+/** The value following any of `names`, or given as `--name=value` */
+function optionValue(args: string[], names: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (names.includes(args[i])) return args[i + 1];
+    const [name, value] = args[i].split("=");
+    if (value !== undefined && names.includes(name)) return value;
+  }
+  return undefined;
+}
+
+function formatLink(link: ArmLink, index: number): string {
+  const flags =
+    link.kind === "loopback"
+      ? "LOOPBACK,UP,LOWER_UP"
+      : link.up
+        ? "BROADCAST,MULTICAST,UP,LOWER_UP"
+        : "BROADCAST,MULTICAST";
+  const state = link.kind === "loopback" ? "UNKNOWN" : link.up ? "UP" : "DOWN";
+  const mtu = link.kind === "loopback" ? 65536 : 1500;
+  const qdisc = link.kind === "loopback" ? "noqueue" : link.up ? "mq" : "noop";
+  const master = link.master ? `master ${link.master} ` : "";
+  const type = link.kind === "loopback" ? "loopback" : "ether";
+  const brd =
+    link.kind === "loopback" ? "00:00:00:00:00:00" : "ff:ff:ff:ff:ff:ff";
+  return (
+    `${index + 1}: ${link.name}: <${flags}> mtu ${mtu} qdisc ${qdisc} ${master}state ${state} mode DEFAULT group default qlen 1000\n` +
+    `    link/${type} ${link.mac} brd ${brd}`
+  );
+}
+
+function formatBriefLink(link: ArmLink): string {
+  const state = link.kind === "loopback" ? "UNKNOWN" : link.up ? "UP" : "DOWN";
+  return `${link.name.padEnd(16)} ${state.padEnd(14)} ${link.mac}`;
+}
+
+export class BlueFieldSimulator extends BaseSimulator {
+  /** Open Arm login, if any */
+  private session: ArmSession | null = null;
+
+  constructor() {
+    super();
+
+    this.registerCommand("bfb-install", this.handleBfbInstall.bind(this), {
+      name: "bfb-install",
+      description: "Install a BFB image on a BlueField DPU through rshim",
+      usage: "bfb-install --bfb <BFBFILE> --rshim <rshimN> [--config <bf.cfg>]",
+      flags: [
+        { short: "b", long: "bfb", description: "BFB image to push" },
+        { short: "r", long: "rshim", description: "rshim device (rshim0)" },
+        { short: "c", long: "config", description: "bf.cfg for the install" },
+      ],
+      examples: [
+        "bfb-install --bfb DOCA_2.5.0_BSP_4.5.0_Ubuntu_22.04-1.23-10.prod.bfb --rshim rshim0",
+      ],
+    });
+    this.registerCommand("screen", this.handleConsole.bind(this), {
+      name: "screen",
+      description: "Open a serial console, such as a BlueField's rshim console",
+      usage: "screen /dev/rshim<N>/console [baud]",
+      examples: ["screen /dev/rshim0/console 115200"],
+    });
+    this.registerCommand("minicom", this.handleConsole.bind(this), {
+      name: "minicom",
+      description: "Serial console client",
+      usage: "minicom -D /dev/rshim<N>/console",
+      flags: [{ short: "D", long: "device", description: "Serial device" }],
+      examples: ["minicom -D /dev/rshim0/console"],
+    });
+  }
+
+  getMetadata() {
+    return {
+      name: "bluefield",
+      version: "2.5.0",
+      description: "BlueField DPU host tools and Arm OS",
+      commands: Array.from(this.commandMetadata.values()),
+    };
+  }
+
+  execute(parsed: ParsedCommand, context: CommandContext): CommandResult {
+    const handler = this.getCommand(parsed.baseCommand);
+    if (!handler) {
+      return this.createError(`Unknown BlueField tool: ${parsed.baseCommand}`);
+    }
+    return this.safeExecuteHandler(handler, parsed, context) as CommandResult;
+  }
+
+  /**
+   * ssh from the host to the Arm OS of one of its DPUs, across the tmfifo
+   * link rshim provides. Returns null when the target is not one of them.
+   * With a command it runs there, otherwise a login opens.
+   */
+  ssh(args: string[], context: CommandContext): CommandResult | null {
+    const address = args[0]?.split("@").pop() ?? "";
+    const node = this.resolveNode(context);
+    const dpu = node && findDpuByArmAddress(node, address);
+    if (!node || !dpu) return null;
+    if (!isRshimPresent(dpu)) {
+      return this.createError(
+        `ssh: connect to host ${address} port 22: No route to host`,
+        255,
+      );
+    }
+    if (args.length > 1) {
+      return this.runOnArm(args.slice(1).join(" "), node, dpu, context);
+    }
+    this.session = {
+      nodeId: node.id,
+      dpuId: dpu.id,
+      farewell: `logout\nConnection to ${address} closed.`,
+    };
+    return {
+      output:
+        `Welcome to ${dpu.armOS} (GNU/Linux ${ARM_KERNEL} aarch64)\n\n` +
+        ` * Documentation:  https://docs.nvidia.com/doca/sdk/\n`,
+      exitCode: 0,
+      prompt: ARM_PROMPT,
+    };
+  }
+
+  /**
+   * Run one line typed at the Arm prompt. Returns no prompt once the login
+   * has ended.
+   */
+  executeInteractive(input: string, context: CommandContext): CommandResult {
+    const session = this.session;
+    if (!session) return { output: "", exitCode: 0 };
+
+    const node = this.resolveNode({ ...context, currentNode: session.nodeId });
+    const dpu = node?.dpus?.find((d) => d.id === session.dpuId);
+    // A power cycle into NIC mode takes the Arm OS away
+    if (!node || !dpu || !isArmRunning(dpu)) {
+      this.session = null;
+      return { output: "Connection closed by remote host.", exitCode: 255 };
+    }
+
+    const line = parse(input);
+    if (line.baseCommand === "exit" || line.baseCommand === "logout") {
+      this.session = null;
+      return { output: session.farewell, exitCode: 0 };
+    }
+    const result = line.baseCommand
+      ? this.runOnArm(input, node, dpu, context)
+      : { output: "", exitCode: 0 };
+    return { ...result, prompt: ARM_PROMPT };
+  }
+
+  /** True while an Arm login is open */
+  isInShell(): boolean {
+    return this.session !== null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Host side
+  // --------------------------------------------------------------------------
+
+  // The DPU behind /dev/rshim<N> or rshim<N>, if the host sees its rshim
+  private findRshim(
+    node: DGXNode | undefined,
+    device: string,
+  ): BlueFieldDPU | undefined {
+    const match = device.match(/^(?:\/dev\/)?rshim(\d+)(?:\/\w+)?$/);
+    const dpu = match
+      ? node?.dpus?.find((d) => d.id === Number(match[1]))
+      : undefined;
+    return dpu && isRshimPresent(dpu) ? dpu : undefined;
+  }
+
+  private handleBfbInstall(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const args = parsed.rawArgs;
+    const image = optionValue(args, ["--bfb", "-b"]);
+    const rshim = optionValue(args, ["--rshim", "-r"]);
+    if (!image || !rshim) {
+      return this.createError(
+        "Usage: bfb-install --bfb|-b <BFBFILE> --rshim|-r <rshimN> [--config|-c <config-file>]",
+      );
+    }
+
+    const node = this.resolveNode(context);
+    const dpu = this.findRshim(node, rshim);
+    if (!node || !dpu) {
+      const name = rshim.replace(/^\/dev\//, "");
+      return this.createError(`ERROR: /dev/${name}/boot not found`);
+    }
+    const plan = planBfbInstall(dpu, image);
+    if (plan.error || !plan.update) {
+      return this.createError(`ERROR: ${plan.error}`);
+    }
+    this.resolveMutator(context).updateBlueField(node.id, plan.update);
+
+    return this.createSuccess(
+      [
+        "Pushing bfb",
+        "1.41GiB 0:01:39 [14.5MiB/s] [================================>] 100%",
+        "Collecting BlueField booting status. Press Ctrl+C to stop…",
+        " INFO[BL2]: start",
+        " INFO[BL2]: DDR POST passed",
+        " INFO[BL2]: UEFI loaded",
+        " INFO[BL31]: start",
+        " INFO[BL31]: runtime",
+        " INFO[UEFI]: eMMC init",
+        " INFO[UEFI]: PCIe enum start",
+        " INFO[UEFI]: PCIe enum end",
+        " INFO[UEFI]: exit Boot Service",
+        " INFO[MISC]: Ubuntu installation started",
+        " INFO[MISC]: Installing OS image",
+        " INFO[MISC]: Ubuntu installation completed",
+        ` INFO[MISC]: ${plan.update.dpu.armOS} installed`,
+        " INFO[MISC]: Installation finished",
+      ].join("\n"),
+    );
+  }
+
+  // screen and minicom on an rshim console log into the Arm OS
+  private handleConsole(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const device =
+      parsed.baseCommand === "minicom"
+        ? optionValue(parsed.rawArgs, ["-D", "--device"])
+        : parsed.rawArgs.find((arg) => arg.startsWith("/"));
+    if (!device) {
+      return this.createError(
+        parsed.baseCommand === "minicom"
+          ? "minicom: no serial device given (use -D /dev/rshim<N>/console)"
+          : "Usage: screen /dev/rshim<N>/console [baud]",
+      );
+    }
+
+    const node = this.resolveNode(context);
+    const dpu = device.endsWith("/console")
+      ? this.findRshim(node, device)
+      : undefined;
+    if (!node || !dpu) {
+      return this.createError(
+        parsed.baseCommand === "minicom"
+          ? `minicom: cannot open ${device}: No such file or directory`
+          : `Cannot access line '${device}' for R/W: No such file or directory`,
+      );
+    }
+
+    this.session = {
+      nodeId: node.id,
+      dpuId: dpu.id,
+      farewell:
+        parsed.baseCommand === "screen"
+          ? "logout\n[screen is terminating]"
+          : "logout",
+    };
+    return {
+      output:
+        `\n${dpu.armOS} ${ARM_HOSTNAME} hvc0\n\n` +
+        `${ARM_HOSTNAME} login: root\n` +
+        `Welcome to ${dpu.armOS} (GNU/Linux ${ARM_KERNEL} aarch64)\n`,
+      exitCode: 0,
+      prompt: ARM_PROMPT,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Arm side
+  // --------------------------------------------------------------------------
+
+  private runOnArm(
+    input: string,
+    node: DGXNode,
+    dpu: BlueFieldDPU,
+    context: CommandContext,
+  ): CommandResult {
+    const line = parse(input);
+    const args = line.rawArgs;
+    const apply: ApplyPlan = (plan, output = "") => {
+      if (plan.error) return this.createError(plan.error);
+      if (plan.update) {
+        this.resolveMutator(context).updateBlueField(node.id, plan.update);
+      }
+      return this.createSuccess(output);
+    };
+
+    switch (line.baseCommand) {
+      case "ovs-vsctl":
+        return this.ovsVsctl(args, dpu, apply);
+      case "mlnx-sf":
+        return this.mlnxSf(args, dpu, apply);
+      case "ip":
+        return this.ipLink(args, dpu, apply);
+      case "mlxprivhost":
+        return this.mlxprivhost(args, dpu, apply);
+      case "hostname":
+        return this.createSuccess(ARM_HOSTNAME);
+      case "uname":
+        if (args.includes("-a")) {
+          return this.createSuccess(
+            `Linux ${ARM_HOSTNAME} ${ARM_KERNEL} #37-Ubuntu SMP PREEMPT aarch64 aarch64 aarch64 GNU/Linux`,
+          );
+        }
+        if (args.includes("-r")) return this.createSuccess(ARM_KERNEL);
+        if (args.includes("-m")) return this.createSuccess("aarch64");
+        return this.createSuccess("Linux");
+      default:
+        return this.createError(
+          `-bash: ${line.baseCommand}: command not found`,
+          127,
+        );
+    }
+  }
+
+  private ovsVsctl(
+    args: string[],
+    dpu: BlueFieldDPU,
+    apply: ApplyPlan,
+  ): CommandResult {
+    const options = args.filter((arg) => arg.startsWith("--"));
+    const [command, ...operands] = args.filter((arg) => !arg.startsWith("--"));
+    if (options.includes("--version")) {
+      return this.createSuccess(
+        `ovs-vsctl (Open vSwitch) ${OVS_VERSION}\nDB Schema 8.3.0`,
+      );
+    }
+
+    const arm = structuredClone(getArmState(dpu));
+    const bridge = (name: string) => arm.bridges.find((b) => b.name === name);
+    const owner = (port: string) =>
+      arm.bridges.find((b) => b.ports.includes(port));
+    const change = () => apply(planArmChange(dpu, "ovs", arm));
+
+    switch (command) {
+      case "show":
+        return this.createSuccess(this.formatOvs(dpu, arm));
+      case "list-br":
+        return this.createSuccess(
+          arm.bridges
+            .map((b) => b.name)
+            .sort()
+            .join("\n"),
+        );
+      case "br-exists":
+        return bridge(operands[0] ?? "")
+          ? this.createSuccess("")
+          : { output: "", exitCode: 2 };
+      case "list-ports": {
+        const br = bridge(operands[0] ?? "");
+        if (!br)
+          return this.createError(`ovs-vsctl: no bridge named ${operands[0]}`);
+        return this.createSuccess([...br.ports].sort().join("\n"));
+      }
+      case "port-to-br": {
+        const br = owner(operands[0] ?? "");
+        if (!br)
+          return this.createError(`ovs-vsctl: no port named ${operands[0]}`);
+        return this.createSuccess(br.name);
+      }
+      case "add-br": {
+        const [name] = operands;
+        if (!name)
+          return this.createError(
+            "ovs-vsctl: 'add-br' command requires at least 1 arguments",
+          );
+        if (bridge(name)) {
+          if (options.includes("--may-exist")) return this.createSuccess("");
+          return this.createError(
+            `ovs-vsctl: cannot create a bridge named ${name} because a bridge named ${name} already exists`,
+          );
+        }
+        arm.bridges.push({ name, ports: [] });
+        return change();
+      }
+      case "del-br": {
+        const [name] = operands;
+        if (!name)
+          return this.createError(
+            "ovs-vsctl: 'del-br' command requires at least 1 arguments",
+          );
+        if (!bridge(name)) {
+          if (options.includes("--if-exists")) return this.createSuccess("");
+          return this.createError(`ovs-vsctl: no bridge named ${name}`);
+        }
+        arm.bridges = arm.bridges.filter((b) => b.name !== name);
+        return change();
+      }
+      case "add-port": {
+        const [name, port] = operands;
+        if (!name || !port)
+          return this.createError(
+            "ovs-vsctl: 'add-port' command requires at least 2 arguments",
+          );
+        const br = bridge(name);
+        if (!br) return this.createError(`ovs-vsctl: no bridge named ${name}`);
+        const current = owner(port);
+        if (current) {
+          if (options.includes("--may-exist") && current === br) {
+            return this.createSuccess("");
+          }
+          return this.createError(
+            `ovs-vsctl: cannot create a port named ${port} because a port named ${port} already exists on bridge ${current.name}`,
+          );
+        }
+        br.ports.push(port);
+        return change();
+      }
+      case "del-port": {
+        // The bridge is optional: del-port [BRIDGE] PORT
+        const port = operands[operands.length - 1];
+        if (!port)
+          return this.createError(
+            "ovs-vsctl: 'del-port' command requires at least 1 arguments",
+          );
+        const br = operands.length > 1 ? bridge(operands[0]) : owner(port);
+        if (operands.length > 1 && !br) {
+          return this.createError(`ovs-vsctl: no bridge named ${operands[0]}`);
+        }
+        if (!br?.ports.includes(port)) {
+          if (options.includes("--if-exists")) return this.createSuccess("");
+          return this.createError(
+            br && operands.length > 1
+              ? `ovs-vsctl: bridge ${br.name} does not have a port ${port}`
+              : `ovs-vsctl: no port named ${port}`,
+          );
+        }
+        br.ports = br.ports.filter((p) => p !== port);
+        return change();
+      }
+      default:
+        return this.createError(
+          command
+            ? `ovs-vsctl: unknown command '${command}'; use --help for help`
+            : "ovs-vsctl: missing command name (use --help for help)",
+        );
+    }
+  }
+
+  private formatOvs(dpu: BlueFieldDPU, arm: BlueFieldArmState): string {
+    const present = new Set(armLinks(dpu).map((l) => l.name));
+    const lines = [`e0b5bb1d-8c64-4b9a-9f47-64d6c6a1a5d${dpu.id}`];
+    for (const bridge of arm.bridges) {
+      lines.push(`    Bridge ${bridge.name}`);
+      for (const port of [...bridge.ports].sort()) {
+        lines.push(`        Port ${port}`, `            Interface ${port}`);
+        if (!present.has(port)) {
+          lines.push(
+            `                error: "could not open network device ${port} (No such device)"`,
+          );
+        }
+      }
+      lines.push(
+        `        Port ${bridge.name}`,
+        `            Interface ${bridge.name}`,
+        "                type: internal",
+      );
+    }
+    lines.push(`    ovs_version: "${OVS_VERSION}"`);
+    return lines.join("\n");
+  }
+
+  private mlnxSf(
+    args: string[],
+    dpu: BlueFieldDPU,
+    apply: ApplyPlan,
+  ): CommandResult {
+    const action = optionValue(args, ["-a", "--action"]);
+    const arm = structuredClone(getArmState(dpu));
+    const usage =
+      "Usage: mlnx-sf -a show | -a create -d <PCI> --sfnum <N> [--hwaddr <MAC>] | -a remove --sfindex <INDEX>";
+    // SFs hang off the embedded switch the Arm OS manages
+    if (action && action !== "show" && !ownsEswitch(dpu)) {
+      return this.createError(
+        "Error: the eswitch is not in switchdev mode; SFs need DPU mode",
+      );
+    }
+
+    switch (action) {
+      case "show":
+        return this.createSuccess(
+          ownsEswitch(dpu)
+            ? arm.subFunctions.map((sf, i) => this.formatSf(sf, i)).join("\n\n")
+            : "",
+        );
+      case "create": {
+        const device = optionValue(args, ["-d", "--device"]);
+        const sfnum = Number(optionValue(args, ["--sfnum"]));
+        const pfnum = [0, 1].find((pf) => armPciAddress(pf) === device);
+        if (pfnum === undefined || !Number.isInteger(sfnum) || sfnum < 0) {
+          return this.createError(usage);
+        }
+        if (
+          arm.subFunctions.some(
+            (sf) => sf.pfnum === pfnum && sf.sfnum === sfnum,
+          )
+        ) {
+          return this.createError(
+            `Error: SF with sfnum ${sfnum} already exists on ${device}`,
+          );
+        }
+        const sf = {
+          pfnum,
+          sfnum,
+          hwaddr:
+            optionValue(args, ["--hwaddr"]) ??
+            macAddress(dpu, 0x10 + arm.subFunctions.length),
+        };
+        arm.subFunctions.push(sf);
+        return apply(
+          planArmChange(dpu, "sf", arm),
+          this.formatSf(sf, arm.subFunctions.length - 1),
+        );
+      }
+      case "remove": {
+        const index = optionValue(args, ["--sfindex"]) ?? "";
+        const remaining = arm.subFunctions.filter(
+          (sf) =>
+            sfIndex(sf.pfnum, sf.sfnum) !== index &&
+            sfIndex(sf.pfnum, sf.sfnum).split("/").pop() !== index,
+        );
+        if (remaining.length === arm.subFunctions.length) {
+          return this.createError(`Error: no SF with index ${index}`);
+        }
+        arm.subFunctions = remaining;
+        return apply(planArmChange(dpu, "sf", arm));
+      }
+      default:
+        return this.createError(usage);
+    }
+  }
+
+  private formatSf(
+    sf: BlueFieldArmState["subFunctions"][number],
+    position: number,
+  ): string {
+    return [
+      `SF Index: ${sfIndex(sf.pfnum, sf.sfnum)}`,
+      `  Parent PCI dev: ${armPciAddress(sf.pfnum)}`,
+      `  Representor netdev: ${sfRepresentor(sf.pfnum, sf.sfnum)}`,
+      `  Function HWADDR: ${sf.hwaddr}`,
+      "  Function trust: off",
+      "  Function roce: true",
+      "  Function eswitch: NA",
+      `  Auxiliary device: mlx5_core.sf.${position + 2}`,
+      `    netdev: ${sfNetdev(sf.pfnum, sf.sfnum)}`,
+      `    RDMA dev: mlx5_${position + 2}`,
+    ].join("\n");
+  }
+
+  private ipLink(
+    args: string[],
+    dpu: BlueFieldDPU,
+    apply: ApplyPlan,
+  ): CommandResult {
+    const brief = args.includes("-br") || args.includes("-brief");
+    const [object, verb, ...rest] = args.filter((arg) => !arg.startsWith("-"));
+    if (object !== "link" && object !== "l") {
+      return this.createError(
+        "Usage: ip [ -br ] link { show [ [dev] DEVICE ] | set [dev] DEVICE { up | down } }",
+        255,
+      );
+    }
+
+    const links = armLinks(dpu);
+    const operands = rest[0] === "dev" ? rest.slice(1) : rest;
+    if (verb === "set") {
+      const [name, state] = operands;
+      const link = links.find((l) => l.name === name);
+      if (!link) return this.createError(`Cannot find device "${name}"`);
+      if (state !== "up" && state !== "down") {
+        return this.createError(
+          `Error: either "dev" is duplicate, or "${state}" is a garbage.`,
+        );
+      }
+      const arm = structuredClone(getArmState(dpu));
+      arm.linksDown = arm.linksDown.filter((l) => l !== name);
+      if (state === "down") arm.linksDown.push(name);
+      return apply(planArmChange(dpu, "link", arm));
+    }
+    if (verb !== undefined && verb !== "show" && verb !== "list") {
+      return this.createError(
+        `Command "${verb}" is unknown, try "ip link help".`,
+        255,
+      );
+    }
+
+    const name = operands[0];
+    const shown = name ? links.filter((l) => l.name === name) : links;
+    if (name && shown.length === 0) {
+      return this.createError(`Device "${name}" does not exist.`);
+    }
+    return this.createSuccess(
+      shown
+        .map((link) =>
+          brief ? formatBriefLink(link) : formatLink(link, links.indexOf(link)),
+        )
+        .join("\n"),
+    );
+  }
+
+  private mlxprivhost(
+    args: string[],
+    dpu: BlueFieldDPU,
+    apply: ApplyPlan,
+  ): CommandResult {
+    const device = optionValue(args, ["-d", "--device"]);
+    const command = args.find((arg) =>
+      ["r", "restrict", "p", "privilege", "q", "query"].includes(arg),
+    );
+    if (!device || !command) {
+      return this.createError(
+        "Usage: mlxprivhost -d <device> <r[estrict]|p[rivilege]|q[uery]>",
+      );
+    }
+    if (device !== dpu.devicePath && device !== armPciAddress(0)) {
+      return this.createError(`-E- Failed to open device: ${device}`);
+    }
+
+    const level = (d: BlueFieldDPU) =>
+      d.mode.mode === "RestrictedDPU" ? "RESTRICTED" : "PRIVILEGED";
+    const nextLevel = (d: BlueFieldDPU) =>
+      nextMode(d).mode === "RestrictedDPU" ? "RESTRICTED" : "PRIVILEGED";
+    const report = (d: BlueFieldDPU) => {
+      let output = `Current configurations:\n  level                         : ${level(d)}\n`;
+      if (nextLevel(d) !== level(d)) {
+        output += `\nConfigurations for next boot:\n  level                         : ${nextLevel(d)}\n`;
+      }
+      return output;
+    };
+
+    if (command.startsWith("q")) return this.createSuccess(report(dpu));
+    const plan = planHostPrivilege(dpu, command.startsWith("r"));
+    if (plan.error) return this.createError(`-E- ${plan.error}`);
+    return apply(
+      plan,
+      report(plan.update?.dpu ?? dpu) +
+        "\n-I- Please power cycle the host to load the new configurations.",
+    );
+  }
+}
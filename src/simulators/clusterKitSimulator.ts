@@ -11,6 +11,9 @@ import type {
   InfiniBandHCA,
   InfiniBandPort,
 } from "@/types/hardware";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+import { firmwareSummary, reviewFirmware } from "@/utils/firmwareInventory";
 
 export class ClusterKitSimulator extends BaseSimulator {
   constructor() {
@@ -109,7 +112,10 @@ export class ClusterKitSimulator extends BaseSimulator {
       const node = this.getTargetNode(parsed, context);
       const verbose = parsed.flags.get("verbose") || parsed.flags.get("v");
 
-      const assessment = this.runAssessment(node);
+      const assessment = this.runAssessment(
+        node,
+        this.resolveCluster(context).nodes,
+      );
 
       return {
         output: this.formatAssessmentOutput(assessment, !!verbose),
@@ -123,12 +129,12 @@ export class ClusterKitSimulator extends BaseSimulator {
     }
   }
 
-  private runAssessment(node: DGXNode): ClusterKitAssessment {
+  private runAssessment(node: DGXNode, nodes: DGXNode[]): ClusterKitAssessment {
     const checks = {
       gpu: this.assessGPUs(node),
       network: this.assessNetwork(node),
       storage: this.assessStorage(node),
-      firmware: this.assessFirmware(node),
+      firmware: this.assessFirmware(node, nodes),
       drivers: this.assessDrivers(node),
     };
 
@@ -137,7 +143,7 @@ export class ClusterKitSimulator extends BaseSimulator {
     return {
       nodeId: node.id,
       hostname: node.hostname || `${node.id}.cluster.local`,
-      timestamp: new Date(),
+      timestamp: simulationClock.date(),
       overallHealth,
       checks,
     };
@@ -227,8 +233,8 @@ export class ClusterKitSimulator extends BaseSimulator {
 
   private assessStorage(_node: DGXNode): ClusterKitCheckResult {
     // Generate simulated storage data based on node properties for realistic variation
-    const usedData = Math.floor(Math.random() * 50) / 10; // 0-5.0 TB
-    const usedScratch = Math.floor(Math.random() * 30) / 10; // 0-3.0 TB
+    const usedData = simulationRandom.int(50) / 10; // 0-5.0 TB
+    const usedScratch = simulationRandom.int(30) / 10; // 0-3.0 TB
 
     return {
       status: "pass",
@@ -240,23 +246,44 @@ export class ClusterKitSimulator extends BaseSimulator {
     };
   }
 
-  private assessFirmware(node: DGXNode): ClusterKitCheckResult {
-    // Check firmware versions against expected values
-    const expectedBMCVersion = "4.2.1";
-    const currentBMCVersion = node.bmc?.firmwareVersion || "4.2.1";
+  private assessFirmware(
+    node: DGXNode,
+    nodes: DGXNode[],
+  ): ClusterKitCheckResult {
+    // Check firmware versions against the bundle and the node's peers
+    const findings = reviewFirmware(node, nodes);
+
+    if (findings.failed.length > 0) {
+      return {
+        status: "fail",
+        message: "Firmware flash failed",
+        details: findings.failed,
+      };
+    }
+
+    if (findings.pending.length > 0) {
+      return {
+        status: "warning",
+        message: "Firmware update pending activation",
+        details: findings.pending,
+      };
+    }
 
-    if (currentBMCVersion !== expectedBMCVersion) {
+    if (findings.outdated.length > 0 || findings.skew.length > 0) {
       return {
         status: "warning",
         message: "Firmware version mismatch detected",
-        details: [`BMC: ${currentBMCVersion} (expected ${expectedBMCVersion})`],
+        details: [
+          ...findings.outdated,
+          ...findings.skew.map((line) => `Version skew - ${line}`),
+        ],
       };
     }
 
     return {
       status: "pass",
       message: "Firmware versions current",
-      details: [`BMC: ${currentBMCVersion}`, "GPU VBIOS: 96.00.5F.00.01"],
+      details: firmwareSummary(node),
     };
   }
 
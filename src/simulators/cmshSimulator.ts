@@ -4,7 +4,26 @@ import type {
   ParsedCommand,
   SimulatorMetadata,
 } from "@/types/commands";
+import type { DGXNode } from "@/types/hardware";
 import { BaseSimulator } from "./BaseSimulator";
+import { getPowerPhase, type PowerAction } from "@/utils/nodePower";
+
+// cmsh power operations and the chassis power action each one requests
+const CMSH_POWER_ACTIONS: Record<string, PowerAction> = {
+  on: "on",
+  off: "off",
+  reset: "reset",
+};
+
+/**
+ * One line of cmsh power output: the power control device, the result and
+ * the node, e.g. `ipmi0 .................... [   ON    ] dgx-node01`
+ */
+export function formatPowerLine(node: DGXNode, result: string): string {
+  const lead = Math.floor((9 - result.length) / 2);
+  const label = " ".repeat(Math.max(lead, 0)) + result;
+  return `ipmi0 .................... [${label.padEnd(9)}] ${node.hostname}`;
+}
 
 /**
  * cmsh Mode State
@@ -155,6 +174,12 @@ export class CmshSimulator extends BaseSimulator {
       };
     }
 
+    // Handle 'power' - switch devices through their BMCs
+    if (command === "power" && this.state.currentMode === "device") {
+      const result = this.handlePower(args, context);
+      return { ...result, prompt: this.getPrompt() };
+    }
+
     // Handle 'show' - show details of current object
     if (command === "show") {
       return {
@@ -266,6 +291,78 @@ export class CmshSimulator extends BaseSimulator {
     return "No objects in current context.";
   }
 
+  /**
+   * Handle power command in device mode:
+   * power <on|off|reset|status> [-n node1,node2]
+   * Without -n it acts on the selected device; status lists all of them.
+   */
+  private handlePower(args: string[], context: CommandContext): CommandResult {
+    const operation = args[0];
+    const listIndex = args.indexOf("-n");
+    const nodes = this.getNodes(context);
+
+    let names: string[] = [];
+    if (listIndex >= 0) {
+      names = (args[listIndex + 1] ?? "").split(",").filter(Boolean);
+    } else if (this.state.currentObject) {
+      names = [this.state.currentObject];
+    }
+
+    if (operation === "status" && names.length === 0) {
+      names = nodes.map((n) => n.hostname);
+    }
+    if (operation !== "status" && !CMSH_POWER_ACTIONS[operation]) {
+      return {
+        output: "Usage: power <on|off|reset|status> [-n <nodes>]",
+        exitCode: 1,
+      };
+    }
+    if (names.length === 0) {
+      return {
+        output: 'Error: No devices specified. Use -n <nodes> or "use <node>".',
+        exitCode: 1,
+      };
+    }
+
+    const lines: string[] = [];
+    let exitCode = 0;
+    for (const name of names) {
+      const node = nodes.find((n) => n.hostname === name || n.id === name);
+      if (!node) {
+        lines.push(`Error: Device '${name}' not found.`);
+        exitCode = 1;
+        continue;
+      }
+      if (operation === "status") {
+        lines.push(formatPowerLine(node, node.bmc.powerState.toUpperCase()));
+        continue;
+      }
+      const error = this.applyPowerAction(
+        context,
+        node,
+        CMSH_POWER_ACTIONS[operation],
+      );
+      if (error) exitCode = 1;
+      lines.push(
+        formatPowerLine(node, error ? "FAILED" : operation.toUpperCase()),
+      );
+    }
+    return { output: lines.join("\n"), exitCode };
+  }
+
+  /**
+   * Device status as CMDaemon reports it: DOWN until the node answers on
+   * the network, PINGABLE until CMDaemon on it has started
+   */
+  private deviceStatus(node: DGXNode): string {
+    const phase = getPowerPhase(node);
+    if (phase === "Off" || phase === "POST" || phase === "KernelBoot") {
+      return "DOWN";
+    }
+    if (phase === "DriverLoad") return "PINGABLE";
+    return node.healthStatus === "OK" ? "UP" : "DOWN";
+  }
+
   /**
    * Handle show command
    * Per spec Section 3.3: Key-value alignment
@@ -299,7 +396,7 @@ export class CmshSimulator extends BaseSimulator {
         output += `Hostname                        ${node.hostname}\n`;
         output += `Category                        dgx-${node.systemType.toLowerCase()}\n`;
         output += `IP                              10.141.0.${parseInt(node.id.split("-")[1] || "1") + 1}\n`;
-        output += `Status                          ${node.healthStatus === "OK" ? "UP" : "DOWN"}\n`;
+        output += `Status                          ${this.deviceStatus(node)}\n`;
         output += `GPU Count                       ${node.gpus.length}\n`;
         return output;
       }
@@ -329,6 +426,8 @@ export class CmshSimulator extends BaseSimulator {
     output += "  list -d {} -f <fields>  JSON output with field filter\n";
     output += "  use <object>   Select an object to work with\n";
     output += "  show           Show details of selected object\n";
+    output += "  power <on|off|reset|status> [-n <nodes>]\n";
+    output += "                 Power control through the BMC (device mode)\n";
     output += "  exit           Exit current mode or shell\n\n";
     output += "Examples:\n";
     output += "  device -> list -> use dgx-node01 -> show\n";
@@ -370,7 +469,11 @@ export class CmshSimulator extends BaseSimulator {
     ) {
       // Set mode and execute subcommand
       this.state.currentMode = command;
-      const remainingCommands = parsed.subcommands.slice(1).join(" ");
+      // Pass the rest of the line on as typed, flags included
+      const words = parsed.raw.trim().split(/\s+/);
+      const remainingCommands = words
+        .slice(words.indexOf(command) + 1)
+        .join(" ");
       const result = this.executeInteractive(remainingCommands, _context);
       this.state.currentMode = ""; // Reset mode after non-interactive execution
       return { output: result.output, exitCode: result.exitCode };
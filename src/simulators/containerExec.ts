@@ -0,0 +1,393 @@
+import type { DGXNode, GPU } from "@/types/hardware";
+import type { CommandResult } from "@/types/commands";
+import {
+  resolvePath,
+  type VirtualFileSystem,
+} from "@/simulation/virtualFileSystem";
+import {
+  parseImageReference,
+  qualifiedRepository,
+  type BindMount,
+  type ContainerRecord,
+} from "@/simulation/containerRuntime";
+import { simulationClock } from "@/simulation/simulationClock";
+
+/**
+ * Shared helpers for running a command "inside" a container, used by the
+ * Docker, Podman, Apptainer and Pyxis simulators so a container behaves the
+ * same whichever tool started it.
+ */
+
+/** What a process inside the container can see of the host */
+export interface ContainerView {
+  node: DGXNode;
+  image: string;
+  /** GPUs passed through to the container, or null without GPU access */
+  gpus: GPU[] | null;
+  mounts: BindMount[];
+  fs: VirtualFileSystem;
+  workdir: string;
+}
+
+const ROOT_LISTING = [
+  "bin",
+  "boot",
+  "dev",
+  "etc",
+  "home",
+  "lib",
+  "media",
+  "mnt",
+  "opt",
+  "proc",
+  "root",
+  "run",
+  "sbin",
+  "srv",
+  "sys",
+  "tmp",
+  "usr",
+  "var",
+];
+
+/** Options and operands of a `run`-style command line */
+export interface RunArguments {
+  /** Values keyed by option name without dashes; booleans map to "true" */
+  options: Map<string, string[]>;
+  /** The image, followed by the command to run in the container */
+  operands: string[];
+}
+
+/**
+ * Split `[options] image [command...]`. Option parsing stops at the image,
+ * so flags meant for the command inside the container are left alone.
+ * `valueOptions` lists the options that take a value.
+ */
+export function parseRunArguments(
+  args: string[],
+  valueOptions: ReadonlySet<string>,
+): RunArguments {
+  const options = new Map<string, string[]>();
+  const add = (name: string, value: string) =>
+    options.set(name, [...(options.get(name) ?? []), value]);
+
+  let i = 0;
+  for (; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      i++;
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") break;
+
+    if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      if (eq !== -1) {
+        add(arg.slice(2, eq), arg.slice(eq + 1));
+      } else if (valueOptions.has(arg.slice(2)) && i + 1 < args.length) {
+        add(arg.slice(2), args[++i]);
+      } else {
+        add(arg.slice(2), "true");
+      }
+      continue;
+    }
+
+    // Short options may be bundled (-it); only the last one takes a value
+    const letters = arg.slice(1);
+    for (let j = 0; j < letters.length; j++) {
+      const letter = letters[j];
+      if (valueOptions.has(letter)) {
+        const attached = letters.slice(j + 1);
+        if (attached) add(letter, attached.replace(/^=/, ""));
+        else if (i + 1 < args.length) add(letter, args[++i]);
+        break;
+      }
+      add(letter, "true");
+    }
+  }
+
+  return { options, operands: args.slice(i) };
+}
+
+/** Last value of the first option present among `names` */
+export function getRunOption(
+  run: RunArguments,
+  names: string[],
+): string | undefined {
+  for (const name of names) {
+    const values = run.options.get(name);
+    if (values) return values[values.length - 1];
+  }
+  return undefined;
+}
+
+/** Every value given for any of `names` */
+export function getRunOptions(run: RunArguments, names: string[]): string[] {
+  return names.flatMap((name) => run.options.get(name) ?? []);
+}
+
+/** Human-readable age as docker prints it: "5 seconds", "2 weeks" */
+export function formatAge(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 1) return "Less than a second";
+  if (seconds < 60) return seconds === 1 ? "1 second" : `${seconds} seconds`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 2) return "About a minute";
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 2) return "About an hour";
+  if (hours < 48) return `${hours} hours`;
+  const days = Math.floor(hours / 24);
+  if (days < 14) return `${days} days`;
+  return `${Math.floor(days / 7)} weeks`;
+}
+
+/** STATUS column of `docker ps` / `podman ps` */
+export function formatContainerStatus(
+  container: ContainerRecord,
+  now = simulationClock.now(),
+): string {
+  const age = formatAge(now - container.created);
+  switch (container.state) {
+    case "running":
+      return `Up ${age}`;
+    case "exited":
+      return `Exited (${container.exitCode}) ${age} ago`;
+    default:
+      return "Created";
+  }
+}
+
+const IMAGE_FILE_HEADERS = {
+  sif: "#!/usr/bin/env run-singularity",
+  squashfs: "hsqs",
+};
+
+/**
+ * Content written for a SIF or squashfs image file. The files are stand-ins,
+ * but they record where the image came from so it can be run later.
+ */
+export function imageFileContent(
+  kind: keyof typeof IMAGE_FILE_HEADERS,
+  source: string,
+  extra: string[] = [],
+): string {
+  return [IMAGE_FILE_HEADERS[kind], `Source: ${source}`, ...extra].join("\n");
+}
+
+/** Source recorded in an image file, or null if it is not that kind of file */
+export function readImageFileSource(
+  kind: keyof typeof IMAGE_FILE_HEADERS,
+  content: string,
+): string | null {
+  const lines = content.split("\n");
+  if (lines[0] !== IMAGE_FILE_HEADERS[kind]) return null;
+  const source = lines.find((line) => line.startsWith("Source: "));
+  return source ? source.slice("Source: ".length) : null;
+}
+
+/**
+ * What enroot prints when its NVIDIA hook cannot find nvidia-container-cli,
+ * i.e. when nvidia-container-toolkit is not installed.
+ */
+export function enrootHookFailure(): string[] {
+  return [
+    "[ERROR] Command not found: nvidia-container-cli, see https://github.com/NVIDIA/libnvidia-container",
+    "[ERROR] /etc/enroot/hooks.d/98-nvidia.sh exited with return code 1",
+  ];
+}
+
+/** Parse one `src[:dst[:opts]]` bind specification */
+export function parseBindSpec(spec: string, cwd = "/"): BindMount {
+  const [source, target, options] = spec.split(":");
+  const hostPath = resolvePath(source, cwd);
+  return {
+    source: hostPath,
+    target: target ? resolvePath(target, "/") : hostPath,
+    readOnly: (options ?? "").split(",").includes("ro"),
+  };
+}
+
+/** Parse a comma-separated list of bind specifications */
+export function parseBindList(value: string, cwd = "/"): BindMount[] {
+  return value
+    .split(",")
+    .filter(Boolean)
+    .map((spec) => parseBindSpec(spec, cwd));
+}
+
+/** First mount whose host source does not exist on the node, if any */
+export function findMissingMountSource(
+  fs: VirtualFileSystem,
+  nodeId: string,
+  mounts: BindMount[],
+): BindMount | undefined {
+  return mounts.find((mount) => !fs.exists(nodeId, mount.source));
+}
+
+/** Host path a container path is bind-mounted from, or null */
+export function mapToHost(path: string, mounts: BindMount[]): string | null {
+  const candidates = mounts
+    .filter((m) => path === m.target || path.startsWith(`${m.target}/`))
+    .sort((a, b) => b.target.length - a.target.length);
+  const mount = candidates[0];
+  if (!mount) return null;
+  const rest = path.slice(mount.target.length);
+  return mount.source === "/" ? rest || "/" : `${mount.source}${rest}`;
+}
+
+/** Default working directory of an image: NGC images start in /workspace */
+export function defaultWorkdir(image: string): string {
+  const { repository } = parseImageReference(image);
+  return qualifiedRepository(repository).startsWith("nvcr.io/nvidia/")
+    ? "/workspace"
+    : "/";
+}
+
+function osRelease(image: string): string {
+  const { repository, tag } = parseImageReference(image);
+  const version = repository.endsWith("ubuntu") ? tag : "22.04";
+  const full = version === "22.04" ? "22.04.3" : version;
+  return [
+    'NAME="Ubuntu"',
+    `VERSION_ID="${version}"`,
+    `PRETTY_NAME="Ubuntu ${full} LTS"`,
+    "ID=ubuntu",
+    "ID_LIKE=debian",
+    'HOME_URL="https://www.ubuntu.com/"',
+  ].join("\n");
+}
+
+/** Environment a process in the container starts with */
+export function containerEnvironment(view: ContainerView): string[] {
+  const env = [
+    "PATH=/usr/local/nvidia/bin:/usr/local/cuda/bin:/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin",
+    `HOSTNAME=${view.node.hostname}`,
+    "HOME=/root",
+  ];
+  if (view.gpus) {
+    env.push(
+      `NVIDIA_VISIBLE_DEVICES=${view.gpus.map((g) => g.id).join(",") || "void"}`,
+      "NVIDIA_DRIVER_CAPABILITIES=compute,utility",
+    );
+  }
+  if (view.node.cudaVersion) {
+    env.push(`CUDA_VERSION=${view.node.cudaVersion}`);
+  }
+  return env;
+}
+
+function ok(output: string): CommandResult {
+  return { output, exitCode: 0 };
+}
+
+function fail(output: string, exitCode = 1): CommandResult {
+  return { output, exitCode };
+}
+
+/**
+ * Run a command inside a container. Returns null when the executable does
+ * not exist in the container (e.g. `nvidia-smi` without GPU passthrough);
+ * each tool reports that in its own words. Commands the simulator does not
+ * model report that they ran.
+ */
+export function runInContainer(
+  argv: string[],
+  view: ContainerView,
+): CommandResult | null {
+  const [command, ...args] = argv;
+  const operands = args.filter((a) => !a.startsWith("-"));
+  const nodeId = view.node.id;
+
+  switch (command) {
+    case "nvidia-smi":
+      if (!view.gpus) return null;
+      if (view.gpus.length === 0) {
+        return fail("No devices were found", 6);
+      }
+      return ok(
+        view.gpus
+          .map((gpu, i) => `GPU ${i}: ${gpu.name} (UUID: ${gpu.uuid})`)
+          .join("\n"),
+      );
+
+    case "hostname":
+      return ok(view.node.hostname);
+
+    case "echo":
+      return ok(args.join(" "));
+
+    case "pwd":
+      return ok(view.workdir);
+
+    case "true":
+      return ok("");
+
+    case "false":
+      return fail("");
+
+    case "env":
+    case "printenv":
+      return ok(containerEnvironment(view).join("\n"));
+
+    case "cat": {
+      const outputs: string[] = [];
+      for (const operand of operands) {
+        const path = resolvePath(operand, view.workdir);
+        if (path === "/etc/os-release") {
+          outputs.push(osRelease(view.image));
+          continue;
+        }
+        const host = mapToHost(path, view.mounts);
+        const { content, error } = host
+          ? view.fs.readFile(nodeId, host)
+          : { content: undefined, error: "No such file or directory" };
+        if (content === undefined) {
+          return fail(`cat: ${operand}: ${error}`);
+        }
+        outputs.push(content);
+      }
+      return ok(outputs.join("\n"));
+    }
+
+    case "ls": {
+      const target = operands[0] ?? ".";
+      const path = resolvePath(target, view.workdir);
+      const host = mapToHost(path, view.mounts);
+      if (host) {
+        const { entries, error } = view.fs.list(nodeId, host);
+        if (!entries) {
+          return fail(`ls: cannot access '${target}': ${error}`, 2);
+        }
+        return ok(entries.map((e) => e.name).join("  "));
+      }
+      if (path === "/") {
+        const mountPoints = view.mounts
+          .map((m) => m.target.split("/")[1])
+          .filter((name) => name && !ROOT_LISTING.includes(name));
+        const workdir = view.workdir.split("/")[1];
+        const names = new Set([...ROOT_LISTING, ...mountPoints]);
+        if (workdir) names.add(workdir);
+        return ok([...names].sort().join("  "));
+      }
+      if (path === view.workdir || ROOT_LISTING.includes(path.slice(1))) {
+        return ok("");
+      }
+      return fail(
+        `ls: cannot access '${target}': No such file or directory`,
+        2,
+      );
+    }
+  }
+
+  const commandLine = argv.join(" ");
+  if (/^python3?$/.test(command) && commandLine.includes("torch.cuda")) {
+    const visible = view.gpus?.length ?? 0;
+    if (commandLine.includes("device_count()")) return ok(String(visible));
+    if (commandLine.includes("is_available()")) {
+      return ok(visible > 0 ? "True" : "False");
+    }
+  }
+
+  return ok(`Executing: ${commandLine}\nCommand completed successfully`);
+}
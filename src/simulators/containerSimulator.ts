@@ -4,46 +4,71 @@ import type {
   ParsedCommand,
   SimulatorMetadata,
 } from "@/types/commands";
+import type { GPU } from "@/types/hardware";
 import { BaseSimulator } from "./BaseSimulator";
-
-interface Container {
-  id: string;
-  image: string;
-  command: string;
-  status: string;
-  name: string;
-}
-
-interface Image {
-  repository: string;
-  tag: string;
-  id: string;
-  size: string;
-}
+import { resolvePath } from "@/simulation/virtualFileSystem";
+import {
+  imageName,
+  isGpuImage,
+  parseImageReference,
+  squashfsFileName,
+} from "@/simulation/containerRuntime";
+import {
+  defaultWorkdir,
+  enrootHookFailure,
+  formatAge,
+  formatContainerStatus,
+  getRunOption,
+  getRunOptions,
+  imageFileContent,
+  parseBindList,
+  parseBindSpec,
+  parseRunArguments,
+  readImageFileSource,
+  runInContainer,
+} from "./containerExec";
+import { simulationClock } from "@/simulation/simulationClock";
+
+/** `docker run` / `docker exec` options that take a value */
+const DOCKER_RUN_VALUE_OPTIONS = new Set([
+  "gpus",
+  "name",
+  "v",
+  "volume",
+  "e",
+  "env",
+  "w",
+  "workdir",
+  "u",
+  "user",
+  "p",
+  "publish",
+  "runtime",
+  "shm-size",
+  "ipc",
+  "network",
+  "device",
+  "entrypoint",
+  "mount",
+  "ulimit",
+]);
+
+/** enroot options that take a value */
+const ENROOT_VALUE_OPTIONS = new Set([
+  "o",
+  "output",
+  "n",
+  "name",
+  "m",
+  "mount",
+  "e",
+  "env",
+]);
+
+/** Where enroot keeps container root filesystems */
+const ENROOT_DATA_PATH = "/root/.local/share/enroot";
 
 export class ContainerSimulator extends BaseSimulator {
-  private containers: Container[] = [];
-  private images: Image[] = [
-    {
-      repository: "nvidia/cuda",
-      tag: "12.4.0-base",
-      id: "abc123def456",
-      size: "1.2GB",
-    },
-    {
-      repository: "nvcr.io/nvidia/pytorch",
-      tag: "24.01-py3",
-      id: "def789ghi012",
-      size: "8.5GB",
-    },
-    {
-      repository: "nvcr.io/nvidia/tensorflow",
-      tag: "24.01-tf2-py3",
-      id: "ghi345jkl678",
-      size: "7.8GB",
-    },
-  ];
-
   private ngcConfigured = false;
 
   constructor() {
@@ -99,8 +124,12 @@ export class ContainerSimulator extends BaseSimulator {
 
   execute(parsed: ParsedCommand, context: CommandContext): CommandResult {
     parsed = this.parseWithSchema(parsed.raw);
+    // Flags before any subcommand belong to the tool itself; later ones
+    // (`docker run -v ...`) belong to the subcommand
+    const rootFlags = parsed.subcommands.length === 0;
+
     // Handle --version flag at root level
-    if (this.hasAnyFlag(parsed, ["version", "v"])) {
+    if (rootFlags && this.hasAnyFlag(parsed, ["version", "v"])) {
       return this.handleVersion();
     }
 
@@ -144,55 +173,66 @@ export class ContainerSimulator extends BaseSimulator {
       output += "  -v, --version    Print version information\n\n";
       output += "Commands:\n";
       output += "  run       Create and run a new container\n";
+      output += "  exec      Execute a command in a running container\n";
       output += "  ps        List containers\n";
+      output += "  stop      Stop one or more running containers\n";
+      output += "  rm        Remove one or more containers\n";
       output += "  images    List images\n";
-      output += "  pull      Download an image\n\n";
+      output += "  pull      Download an image\n";
+      output += "  rmi       Remove one or more images\n\n";
       output +=
         "Run 'docker COMMAND --help' for more information on a command.\n";
       return this.createSuccess(output);
     }
 
-    // Handle --version flag
-    if (this.hasAnyFlag(parsed, ["version", "v"])) {
+    const command = parsed.subcommands[0];
+
+    // Handle --version flag (`-v` after a subcommand is a volume)
+    if (!command && this.hasAnyFlag(parsed, ["version", "v"])) {
       return this.createSuccess("Docker version 24.0.7, build afdd53b");
     }
 
-    const command = parsed.subcommands[0];
+    const node = this.getNode(context);
+    const runtime = this.resolveContainerRuntime(context);
+    const nodeId = node?.id ?? context.currentNode;
+    const args = parsed.rawArgs.slice(parsed.rawArgs.indexOf(command) + 1);
 
     if (command === "info") {
-      const node = this.getNode(context);
-      return this.createSuccess(`Client: Docker Engine - Community
+      const containers = runtime.listContainers(nodeId, true);
+      const running = containers.filter((c) => c.state === "running").length;
+      const toolkit = runtime.isToolkitInstalled(nodeId);
+      let output = `Client: Docker Engine - Community
  Version:           24.0.7
  Context:           default
  Debug Mode:        false
 
 Server: Docker Engine - Community
- Containers: ${this.containers.length}
-  Running: ${this.containers.filter((c) => c.status.startsWith("Up")).length}
+ Containers: ${containers.length}
+  Running: ${running}
   Paused: 0
-  Stopped: ${this.containers.filter((c) => !c.status.startsWith("Up")).length}
- Images: ${this.images.length}
+  Stopped: ${containers.length - running}
+ Images: ${runtime.listImages(nodeId).length}
  Server Version: 24.0.7
  Storage Driver: overlay2
- Default Runtime: nvidia
- Runtimes: io.containerd.runc.v2 nvidia runc
+ Default Runtime: ${toolkit ? "nvidia" : "runc"}
+ Runtimes: io.containerd.runc.v2 ${toolkit ? "nvidia " : ""}runc
  Operating System: Ubuntu 22.04.3 LTS
  Architecture: x86_64
  CPUs: ${node ? 128 : 64}
  Total Memory: ${node ? "2.0TiB" : "512GiB"}
- Docker Root Dir: /var/lib/docker
- NVIDIA Container Runtime: nvidia-container-runtime 3.14.0`);
+ Docker Root Dir: /var/lib/docker`;
+      if (toolkit) {
+        output +=
+          "\n NVIDIA Container Runtime: nvidia-container-runtime 3.14.0";
+      }
+      return this.createSuccess(output);
     }
 
     if (command === "container") {
       const subCmd = parsed.subcommands[1] || parsed.positionalArgs[0];
+      const subArgs = args.slice(args.indexOf(subCmd) + 1);
       if (subCmd === "prune") {
-        const removed = this.containers.filter(
-          (c) => !c.status.startsWith("Up"),
-        );
-        this.containers = this.containers.filter((c) =>
-          c.status.startsWith("Up"),
-        );
+        const removed = runtime.pruneContainers(nodeId, "docker");
         let output = "";
         if (removed.length > 0) {
           output += "Deleted Containers:\n";
@@ -201,143 +241,44 @@ Server: Docker Engine - Community
         output += `\nTotal reclaimed space: ${removed.length * 256}MB`;
         return this.createSuccess(output);
       }
+      if (subCmd === "ls") return this.dockerPs(subArgs, nodeId, context);
+      if (subCmd === "rm") return this.dockerRm(subArgs, nodeId, context);
       return this.createError(
         "Usage: docker container <prune|ls|rm> [options]",
       );
     }
 
     if (command === "run") {
-      // Check for --gpus flag
-      const gpuSpec = this.getFlagString(parsed, ["gpus"]);
-      if (!gpuSpec) {
-        return this.createError(
-          "Error: GPU specification missing. Use --gpus <spec>",
-          125,
-        );
-      }
-
-      // Get image from positional args (first positional arg after subcommands)
-      const image = parsed.positionalArgs[0];
-      if (!image) {
-        return this.createError("Error: Image not specified");
-      }
-
-      // Get command args (remaining positional args after image)
-      const commandArgs = parsed.positionalArgs.slice(1);
-
-      const node = this.getNode(context);
-      if (!node) {
-        return this.createError("Error: Unable to determine current node");
-      }
+      return this.dockerRun(args, context);
+    }
 
-      // Validate GPU specification
-      if (gpuSpec === "all") {
-        // All GPUs
-        let output = `docker: Pulling ${image}...\n`;
-        output += `docker: Container started with ${node.gpus.length} GPU(s)\n\n`;
+    if (command === "exec") {
+      return this.dockerExec(args, context);
+    }
 
-        if (commandArgs.includes("nvidia-smi")) {
-          output += "Running nvidia-smi inside container:\n\n";
-          output += "GPU 0: " + node.gpus[0].name + "\n";
-          node.gpus.slice(1).forEach((gpu, idx) => {
-            output += `GPU ${idx + 1}: ${gpu.name}\n`;
-          });
-        } else if (commandArgs.length > 0) {
-          output += `Executing: ${commandArgs.join(" ")}\n`;
-          output += "Command completed successfully\n";
-        }
+    if (command === "ps") {
+      return this.dockerPs(args, nodeId, context);
+    }
 
-        return this.createSuccess(output);
+    if (command === "stop") {
+      const names = args.filter((a) => !a.startsWith("-"));
+      if (names.length === 0) {
+        return this.createError('"docker stop" requires at least 1 argument.');
       }
-
-      if (gpuSpec.startsWith("device=")) {
-        const devices = gpuSpec.split("=")[1].split(",");
-
-        // Check for MIG device specification
-        if (devices[0].startsWith("MIG-GPU")) {
-          const migDeviceMatch = devices[0].match(/MIG-GPU-(\d+)/);
-          if (migDeviceMatch) {
-            const gpuId = parseInt(migDeviceMatch[1]);
-            const gpu = node.gpus[gpuId];
-
-            if (!gpu || !gpu.migMode) {
-              return this.createError(
-                "Error: MIG device not found or MIG mode not enabled",
-                125,
-              );
-            }
-
-            let output = `docker: Container started with MIG device ${devices[0]}\n\n`;
-
-            if (commandArgs.includes("nvidia-smi")) {
-              output += "Running nvidia-smi inside container:\n\n";
-              output += `MIG Device: ${devices[0]}\n`;
-              output += "Memory: 4.75 GB\n";
-              output += "Compute Slices: 14\n";
-            }
-
-            return this.createSuccess(output);
-          }
-        }
-
-        // Regular GPU device specification
-        let output = `docker: Container started with GPU(s): ${devices.join(", ")}\n\n`;
-
-        if (commandArgs.includes("nvidia-smi")) {
-          output += "Running nvidia-smi inside container:\n\n";
-          devices.forEach((deviceId) => {
-            const id = parseInt(deviceId);
-            if (id >= 0 && id < node.gpus.length) {
-              output += `GPU ${id}: ${node.gpus[id].name}\n`;
-            }
-          });
+      const output: string[] = [];
+      for (const name of names) {
+        if (!runtime.stopContainer(nodeId, name)) {
+          return this.createError(
+            `Error response from daemon: No such container: ${name}`,
+          );
         }
-
-        return this.createSuccess(output);
+        output.push(name);
       }
-
-      return this.createError(
-        'Error: Invalid GPU specification. Use "all" or "device=0,1,..."',
-        125,
-      );
+      return this.createSuccess(output.join("\n"));
     }
 
-    if (command === "ps") {
-      // SOURCE OF TRUTH: Column widths for docker ps
-      const COL_CONTAINERID = 15;
-      const COL_IMAGE = 25;
-      const COL_COMMAND = 17;
-      const COL_CREATED = 16;
-      const COL_STATUS = 15;
-      const COL_PORTS = 10;
-      // NAMES has no fixed width (last column)
-
-      let output =
-        "CONTAINER ID".padEnd(COL_CONTAINERID) +
-        "IMAGE".padEnd(COL_IMAGE) +
-        "COMMAND".padEnd(COL_COMMAND) +
-        "CREATED".padEnd(COL_CREATED) +
-        "STATUS".padEnd(COL_STATUS) +
-        "PORTS".padEnd(COL_PORTS) +
-        "NAMES\n";
-
-      if (this.containers.length === 0) {
-        return this.createSuccess(output);
-      }
-
-      this.containers.forEach((container) => {
-        output +=
-          container.id.padEnd(COL_CONTAINERID) +
-          container.image.padEnd(COL_IMAGE) +
-          `"${container.command}"`.padEnd(COL_COMMAND) +
-          "".padEnd(COL_CREATED) +
-          container.status.padEnd(COL_STATUS) +
-          "".padEnd(COL_PORTS) +
-          container.name +
-          "\n";
-      });
-
-      return this.createSuccess(output);
+    if (command === "rm") {
+      return this.dockerRm(args, nodeId, context);
     }
 
     if (command === "images") {
@@ -355,7 +296,7 @@ Server: Docker Engine - Community
         "CREATED".padEnd(COL_CREATED) +
         "SIZE\n";
 
-      this.images.forEach((image) => {
+      runtime.listImages(nodeId).forEach((image) => {
         output +=
           image.repository.padEnd(COL_REPOSITORY) +
           image.tag.padEnd(COL_TAG) +
@@ -375,31 +316,326 @@ Server: Docker Engine - Community
         return this.createError("Error: Image name not specified");
       }
 
+      const { cached } = runtime.pullImage(nodeId, image);
+      const { repository, tag } = parseImageReference(image);
       let output = `Pulling ${image}...\n`;
-      output += "latest: Pulling from " + image.split(":")[0] + "\n";
-      output += "████████████████████████████████ 100%\n";
-      output += "Digest: sha256:abc123...\n";
-      output += "Status: Downloaded newer image for " + image + "\n";
-
-      // Add to images if not already present
-      const [repo, tag] = image.split(":");
-      if (
-        !this.images.find(
-          (i) => i.repository === repo && i.tag === (tag || "latest"),
-        )
-      ) {
-        this.images.push({
-          repository: repo,
-          tag: tag || "latest",
-          id: Math.random().toString(36).substring(7),
-          size: "2.5GB",
-        });
+      output += `${tag}: Pulling from ${repository}\n`;
+      if (cached) {
+        output += "Digest: sha256:abc123...\n";
+        output += `Status: Image is up to date for ${imageName(image)}\n`;
+      } else {
+        output += "████████████████████████████████ 100%\n";
+        output += "Digest: sha256:abc123...\n";
+        output += "Status: Downloaded newer image for " + image + "\n";
       }
 
       return this.createSuccess(output);
     }
 
-    return this.createError("Usage: docker <run|ps|images|pull> [options]");
+    if (command === "rmi") {
+      const force = args.some((a) => a === "-f" || a === "--force");
+      const refs = args.filter((a) => !a.startsWith("-"));
+      if (refs.length === 0) {
+        return this.createError('"docker rmi" requires at least 1 argument.');
+      }
+      const output: string[] = [];
+      for (const ref of refs) {
+        const image = runtime.findImage(nodeId, ref);
+        const error = runtime.removeImage(nodeId, ref, force);
+        if (error) {
+          return this.createError(`Error response from daemon: ${error}`);
+        }
+        output.push(`Untagged: ${image?.repository}:${image?.tag}`);
+        output.push(`Deleted: sha256:${image?.id}`);
+      }
+      return this.createSuccess(output.join("\n"));
+    }
+
+    return this.createError(
+      "Usage: docker <run|exec|ps|stop|rm|images|pull|rmi> [options]",
+    );
+  }
+
+  private dockerRun(args: string[], context: CommandContext): CommandResult {
+    const run = parseRunArguments(args, DOCKER_RUN_VALUE_OPTIONS);
+
+    // Check for --gpus flag
+    const gpuSpec = getRunOption(run, ["gpus"]);
+    if (!gpuSpec) {
+      return this.createError(
+        "Error: GPU specification missing. Use --gpus <spec>",
+        125,
+      );
+    }
+
+    // Get image (first operand) and the command to run in it
+    const image = run.operands[0];
+    if (!image) {
+      return this.createError("Error: Image not specified");
+    }
+    const commandArgs = run.operands.slice(1);
+
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Error: Unable to determine current node");
+    }
+
+    const runtime = this.resolveContainerRuntime(context);
+    const fs = this.resolveFileSystem(context);
+
+    // Without the toolkit Docker has no device driver for --gpus
+    if (!runtime.isToolkitInstalled(node.id)) {
+      return this.createError(
+        'docker: Error response from daemon: could not select device driver "" with capabilities: [[gpu]].',
+        125,
+      );
+    }
+
+    const name = getRunOption(run, ["name"]);
+    const existing = name ? runtime.findContainer(node.id, name) : undefined;
+    if (existing) {
+      return this.createError(
+        `docker: Error response from daemon: Conflict. The container name "/${name}" is already in use by container "${existing.id}". You have to remove (or rename) that container to be able to reuse that name.`,
+        125,
+      );
+    }
+
+    // Select the GPUs the container gets
+    let gpus: GPU[];
+    let header: string;
+    if (gpuSpec === "all") {
+      gpus = node.gpus;
+      header = `docker: Container started with ${node.gpus.length} GPU(s)`;
+    } else if (/^\d+$/.test(gpuSpec)) {
+      gpus = node.gpus.slice(0, parseInt(gpuSpec));
+      header = `docker: Container started with ${gpus.length} GPU(s)`;
+    } else if (gpuSpec.replace(/^"|"$/g, "").startsWith("device=")) {
+      const devices = gpuSpec.replace(/^"|"$/g, "").split("=")[1].split(",");
+
+      // Check for MIG device specification
+      const migDeviceMatch = devices[0].match(/^MIG-GPU-(\d+)/);
+      if (migDeviceMatch) {
+        const gpuId = parseInt(migDeviceMatch[1]);
+        const gpu = node.gpus[gpuId];
+
+        if (!gpu || !gpu.migMode) {
+          return this.createError(
+            "Error: MIG device not found or MIG mode not enabled",
+            125,
+          );
+        }
+
+        let output = `docker: Container started with MIG device ${devices[0]}\n\n`;
+
+        if (commandArgs.includes("nvidia-smi")) {
+          output += "Running nvidia-smi inside container:\n\n";
+          output += `MIG Device: ${devices[0]}\n`;
+          output += "Memory: 4.75 GB\n";
+          output += "Compute Slices: 14\n";
+        }
+
+        return this.createSuccess(output);
+      }
+
+      const unknown = devices.find((d) => !node.gpus[parseInt(d)]);
+      if (unknown !== undefined) {
+        return this.createError(
+          `docker: Error response from daemon: failed to create task for container: failed to create shim task: OCI runtime create failed: nvidia-container-cli: device error: ${unknown}: unknown device: unknown.`,
+          125,
+        );
+      }
+      gpus = devices.map((d) => node.gpus[parseInt(d)]);
+      header = `docker: Container started with GPU(s): ${devices.join(", ")}`;
+    } else {
+      return this.createError(
+        'Error: Invalid GPU specification. Use "all" or "device=0,1,..."',
+        125,
+      );
+    }
+
+    // Docker creates missing host directories for -v bind mounts
+    const mounts = getRunOptions(run, ["v", "volume"]).map((spec) =>
+      parseBindSpec(spec, context.currentPath),
+    );
+    for (const mount of mounts) {
+      if (!fs.exists(node.id, mount.source)) {
+        fs.mkdir(node.id, mount.source, true);
+      }
+    }
+
+    let output = "";
+    const { cached } = runtime.pullImage(node.id, image);
+    if (!cached) {
+      output += `Unable to find image '${imageName(image)}' locally\n`;
+      output += `${parseImageReference(image).tag}: Pulling from ${parseImageReference(image).repository}\n`;
+      output += "████████████████████████████████ 100%\n";
+      output += `Status: Downloaded newer image for ${imageName(image)}\n`;
+    }
+
+    const detach = run.options.has("d") || run.options.has("detach");
+    const remove = run.options.has("rm");
+    const view = {
+      node,
+      image,
+      gpus,
+      mounts,
+      fs,
+      workdir: getRunOption(run, ["w", "workdir"]) ?? defaultWorkdir(image),
+    };
+    const result =
+      detach || commandArgs.length === 0
+        ? { output: "", exitCode: 0 }
+        : (runInContainer(commandArgs, view) ?? {
+            output: `docker: Error response from daemon: failed to create task for container: exec: "${commandArgs[0]}": executable file not found in $PATH: unknown.`,
+            exitCode: 127,
+          });
+
+    if (!remove || detach) {
+      const container = runtime.createContainer(node.id, {
+        name,
+        image,
+        command: commandArgs.join(" "),
+        engine: "docker",
+        state: detach ? "running" : "exited",
+        exitCode: result.exitCode,
+        gpus: gpus.map((g) => g.id),
+        mounts,
+      });
+      if (detach && typeof container !== "string") {
+        return this.createSuccess(output + container.id);
+      }
+    }
+
+    if (result.exitCode === 127) {
+      return this.createError(output + result.output, 127);
+    }
+
+    output += `${header}\n\n`;
+    if (commandArgs[0] === "nvidia-smi") {
+      output += "Running nvidia-smi inside container:\n\n";
+    }
+    output += result.output;
+    return { output, exitCode: result.exitCode };
+  }
+
+  private dockerExec(args: string[], context: CommandContext): CommandResult {
+    const run = parseRunArguments(args, DOCKER_RUN_VALUE_OPTIONS);
+    const [name, ...commandArgs] = run.operands;
+    if (!name || commandArgs.length === 0) {
+      return this.createError('"docker exec" requires at least 2 arguments.');
+    }
+
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Error: Unable to determine current node");
+    }
+    const runtime = this.resolveContainerRuntime(context);
+    const container = runtime.findContainer(node.id, name);
+    if (!container) {
+      return this.createError(
+        `Error response from daemon: No such container: ${name}`,
+      );
+    }
+    if (container.state !== "running") {
+      return this.createError(
+        `Error response from daemon: container ${container.id} is not running`,
+      );
+    }
+
+    const result = runInContainer(commandArgs, {
+      node,
+      image: container.image,
+      gpus: node.gpus.filter((g) => container.gpus.includes(g.id)),
+      mounts: container.mounts,
+      fs: this.resolveFileSystem(context),
+      workdir: defaultWorkdir(container.image),
+    });
+    return (
+      result ??
+      this.createError(
+        `OCI runtime exec failed: exec failed: unable to start container process: exec: "${commandArgs[0]}": executable file not found in $PATH: unknown`,
+        126,
+      )
+    );
+  }
+
+  private dockerPs(
+    args: string[],
+    nodeId: string,
+    context: CommandContext,
+  ): CommandResult {
+    const runtime = this.resolveContainerRuntime(context);
+    const all = args.some((a) => a === "-a" || a === "--all" || a === "-aq");
+    const quiet = args.some(
+      (a) => a === "-q" || a === "--quiet" || a === "-aq",
+    );
+    const containers = runtime.listContainers(nodeId, all);
+
+    if (quiet) {
+      return this.createSuccess(containers.map((c) => c.id).join("\n"));
+    }
+
+    // SOURCE OF TRUTH: Column widths for docker ps
+    const COL_CONTAINERID = 15;
+    const COL_IMAGE = 25;
+    const COL_COMMAND = 17;
+    const COL_CREATED = 16;
+    const COL_STATUS = 15;
+    const COL_PORTS = 10;
+    // NAMES has no fixed width (last column)
+
+    let output =
+      "CONTAINER ID".padEnd(COL_CONTAINERID) +
+      "IMAGE".padEnd(COL_IMAGE) +
+      "COMMAND".padEnd(COL_COMMAND) +
+      "CREATED".padEnd(COL_CREATED) +
+      "STATUS".padEnd(COL_STATUS) +
+      "PORTS".padEnd(COL_PORTS) +
+      "NAMES\n";
+
+    const now = simulationClock.now();
+    containers.forEach((container) => {
+      const command =
+        container.command.length > 12
+          ? `${container.command.slice(0, 12)}…`
+          : container.command;
+      output +=
+        container.id.padEnd(COL_CONTAINERID) +
+        container.image.padEnd(COL_IMAGE - 1) +
+        " " +
+        `"${command}"`.padEnd(COL_COMMAND) +
+        `${formatAge(now - container.created)} ago`.padEnd(COL_CREATED - 1) +
+        " " +
+        formatContainerStatus(container, now).padEnd(COL_STATUS - 1) +
+        " " +
+        "".padEnd(COL_PORTS) +
+        container.name +
+        "\n";
+    });
+
+    return this.createSuccess(output);
+  }
+
+  private dockerRm(
+    args: string[],
+    nodeId: string,
+    context: CommandContext,
+  ): CommandResult {
+    const runtime = this.resolveContainerRuntime(context);
+    const force = args.some((a) => a === "-f" || a === "--force");
+    const names = args.filter((a) => !a.startsWith("-"));
+    if (names.length === 0) {
+      return this.createError('"docker rm" requires at least 1 argument.');
+    }
+    const output: string[] = [];
+    for (const name of names) {
+      const error = runtime.removeContainer(nodeId, name, force);
+      if (error) {
+        return this.createError(`Error response from daemon: ${error}`);
+      }
+      output.push(name);
+    }
+    return this.createSuccess(output.join("\n"));
   }
 
   // NGC CLI commands
@@ -527,36 +763,86 @@ Server: Docker Engine - Community
   // Enroot commands
   private handleEnroot(
     parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
     const command = parsed.subcommands[0];
+    const node = this.getNode(context);
+    const nodeId = node?.id ?? context.currentNode;
+    const runtime = this.resolveContainerRuntime(context);
+    const fs = this.resolveFileSystem(context);
+    const args = parsed.rawArgs.slice(parsed.rawArgs.indexOf(command) + 1);
+    const run = parseRunArguments(args, ENROOT_VALUE_OPTIONS);
 
     if (command === "import") {
-      const source = parsed.positionalArgs[0] || parsed.subcommands[1];
+      const source = run.operands[0];
 
       if (!source) {
         return this.createError("Error: Source not specified");
       }
+      if (!source.startsWith("docker://") && !source.startsWith("dockerd://")) {
+        return this.createError(
+          `[ERROR] Invalid argument: ${source} (expected docker:// or dockerd://)`,
+        );
+      }
 
-      let output = `Importing ${source}...\n`;
-      output += "Fetching image...\n";
-      output += "████████████████████████████████ 100%\n";
-      output += `Successfully imported to ${source.replace("docker://", "").replace(/[/:]/g, "+")}.sqsh\n`;
+      const ref = source.replace(/^dockerd?:\/\//, "");
+      const output =
+        getRunOption(run, ["o", "output"]) ?? squashfsFileName(ref);
+      const path = resolvePath(output, context.currentPath);
+      if (fs.exists(nodeId, path)) {
+        return this.createError(`[ERROR] File already exists: ${path}`);
+      }
 
-      return this.createSuccess(output);
+      runtime.pullImage(nodeId, ref);
+      const error = fs.writeFile(
+        nodeId,
+        path,
+        imageFileContent("squashfs", imageName(ref)),
+      );
+      if (error) {
+        return this.createError(`[ERROR] Could not write ${path}: ${error}`);
+      }
+
+      let result = `Importing ${source}...\n`;
+      result += "Fetching image...\n";
+      result += "████████████████████████████████ 100%\n";
+      result += `Successfully imported to ${output}\n`;
+
+      return this.createSuccess(result);
     }
 
     if (command === "create") {
-      const image = parsed.positionalArgs[0] || parsed.subcommands[1];
+      const image = run.operands[0];
 
       if (!image) {
         return this.createError("Error: Image not specified");
       }
 
+      const path = resolvePath(image, context.currentPath);
+      const { content, error } = fs.readFile(nodeId, path);
+      if (content === undefined) {
+        return this.createError(`[ERROR] ${error}: ${image}`);
+      }
+      const source = readImageFileSource("squashfs", content);
+      if (!source) {
+        return this.createError(`[ERROR] Invalid image format: ${image}`);
+      }
+
       const containerName =
-        image.replace(/[/:]/g, "-") +
-        "-" +
-        Math.random().toString(36).substring(7);
+        getRunOption(run, ["n", "name"]) ??
+        (path.split("/").pop() ?? image).replace(/\.sqsh$/, "");
+      if (runtime.findContainer(nodeId, containerName)) {
+        return this.createError(
+          `[ERROR] File already exists: ${ENROOT_DATA_PATH}/${containerName}`,
+        );
+      }
+      runtime.createContainer(nodeId, {
+        name: containerName,
+        image: source,
+        command: "",
+        engine: "enroot",
+        state: "created",
+      });
 
       return this.createSuccess(
         `Creating container from ${image}...\nContainer created: ${containerName}`,
@@ -564,21 +850,78 @@ Server: Docker Engine - Community
     }
 
     if (command === "list") {
+      const names = runtime
+        .listContainers(nodeId, true)
+        .filter((c) => c.engine === "enroot")
+        .map((c) => `  ${c.name}`);
       return this.createSuccess(
-        "Available enroot containers:\n  pytorch-24.01-py3-abc123\n  tensorflow-24.01-def456",
+        ["Available enroot containers:", ...names].join("\n"),
       );
     }
 
     if (command === "start") {
-      const container = parsed.positionalArgs[0] || parsed.subcommands[1];
+      const [name, ...commandArgs] = run.operands;
 
-      if (!container) {
+      if (!name) {
         return this.createError("Error: Container not specified");
       }
 
-      return this.createSuccess(
-        `Starting container ${container}...\nContainer started successfully.`,
-      );
+      const container = runtime.findContainer(nodeId, name);
+      if (!container || container.engine !== "enroot" || !node) {
+        return this.createError(
+          `[ERROR] No such file or directory: ${ENROOT_DATA_PATH}/${name}`,
+        );
+      }
+
+      // The 98-nvidia.sh hook injects GPUs for images that ask for them
+      const wantsGpus = isGpuImage(container.image);
+      if (wantsGpus && !runtime.isToolkitInstalled(nodeId)) {
+        return this.createError(enrootHookFailure().join("\n"));
+      }
+
+      let output = `Starting container ${name}...\nContainer started successfully.`;
+      if (commandArgs.length > 0) {
+        const mounts = getRunOptions(run, ["m", "mount"]).flatMap((spec) =>
+          parseBindList(spec, context.currentPath),
+        );
+        const result = runInContainer(commandArgs, {
+          node,
+          image: container.image,
+          gpus: wantsGpus ? node.gpus : null,
+          mounts,
+          fs,
+          workdir: defaultWorkdir(container.image),
+        });
+        if (!result) {
+          return this.createError(
+            `${output}\n/etc/rc: line 59: exec: ${commandArgs[0]}: not found`,
+            127,
+          );
+        }
+        output += `\n${result.output}`;
+        if (result.exitCode !== 0) {
+          return { output, exitCode: result.exitCode };
+        }
+      }
+
+      return this.createSuccess(output);
+    }
+
+    if (command === "remove") {
+      const names = run.operands;
+      if (names.length === 0) {
+        return this.createError("Usage: enroot remove [options] NAME...");
+      }
+      for (const name of names) {
+        const container = runtime.findContainer(nodeId, name);
+        if (!container || container.engine !== "enroot") {
+          return this.createError(
+            `[ERROR] No such file or directory: ${ENROOT_DATA_PATH}/${name}`,
+          );
+        }
+        runtime.removeContainer(nodeId, name, true);
+      }
+      return this.createSuccess("");
     }
 
     if (command === "version") {
@@ -586,7 +929,7 @@ Server: Docker Engine - Community
     }
 
     return this.createError(
-      "Usage: enroot <import|create|list|start|version> [options]",
+      "Usage: enroot <import|create|list|start|remove|version> [options]",
     );
   }
 
@@ -597,8 +940,16 @@ Server: Docker Engine - Community
   ): CommandResult {
     const command = parsed.subcommands[0];
 
+    const node = this.getNode(context);
+    const runtime = this.resolveContainerRuntime(context);
+    if (!runtime.isToolkitInstalled(node?.id ?? context.currentNode)) {
+      return this.createError(
+        "bash: nvidia-container-cli: command not found",
+        127,
+      );
+    }
+
     if (command === "info") {
-      const node = this.getNode(context);
       const driverVersion = node?.nvidiaDriverVersion || "535.129.03";
       const cudaVersion = node?.cudaVersion || "12.2";
       const gpus = node?.gpus || [];
@@ -628,7 +979,6 @@ Server: Docker Engine - Community
       output += "/dev/nvidia-uvm-tools\n";
       output += "/dev/nvidia-modeset\n";
 
-      const node = this.getNode(context);
       const gpuCount = node?.gpus.length || 8;
       for (let i = 0; i < gpuCount; i++) {
         output += `/dev/nvidia${i}\n`;
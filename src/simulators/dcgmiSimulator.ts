@@ -6,14 +6,274 @@ import type {
 import type {
   GPU,
   DGXNode,
+  DcgmFieldGroup,
+  DcgmGpuJobStats,
+  DcgmHostEngine,
+  DcgmJobStats,
+  DcgmPolicy,
+  DcgmPolicyAction,
+  DcgmPolicyCondition,
+  DcgmPolicyViolation,
+  DcgmStatSeries,
   NVLinkConnection,
-  XIDError,
 } from "@/types/hardware";
 import {
   BaseSimulator,
   type SimulatorMetadata,
 } from "@/simulators/BaseSimulator";
 import { getThermalThresholds } from "@/simulators/nvidiaSmiFormatters";
+import { getNVSwitchFabric } from "@/utils/nvswitchFabric";
+import { isDriverLoaded } from "@/utils/nodePower";
+import { libraryMismatch } from "@/utils/nodePackages";
+import { findMigProfile, placedInstances } from "@/utils/migEngine";
+import {
+  getMemoryHealth,
+  isResetRequired,
+  pendingRemappedRows,
+  pendingRetiredPages,
+} from "@/utils/gpuMemoryHealth";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import {
+  ALL_GPUS_GROUP,
+  ALL_NVSWITCHES_GROUP,
+  DCGM_FIELDS,
+  DEFAULT_POLICY_THRESHOLDS,
+  findGroup,
+  getHostEngine,
+  jobStatsAt,
+  mergeGpuStats,
+  nextId,
+  type DcgmField,
+} from "@/utils/dcgmHostEngine";
+import { simulationClock } from "@/simulation/simulationClock";
+
+// Width of the left column in dcgmi's group and field group tables, and in
+// its job statistics
+const GROUP_TABLE_WIDTH = 19;
+const STATS_TABLE_WIDTH = 36;
+
+const DMON_COLUMN_WIDTH = 10;
+// Temperature, power, GPU and memory utilization
+const DEFAULT_DMON_FIELDS = [150, 155, 203, 204];
+
+const POLICY_LABELS: Record<DcgmPolicyCondition, string> = {
+  ecc: "ECC Double-Bit",
+  thermal: "Thermal",
+  power: "Power",
+  pcie: "PCIe",
+  nvlink: "NVLink",
+  xid: "XID Errors",
+  memory: "Memory",
+};
+
+interface DcgmTableSection {
+  heading?: string;
+  rows: [string, string][];
+}
+
+/**
+ * Lay out a table the way dcgmi does: an 80-column box with a title,
+ * label/value rows and optional section headings
+ */
+function formatDcgmTable(
+  title: string[],
+  sections: DcgmTableSection[],
+  leftWidth: number,
+): string {
+  const rightWidth = 77 - leftWidth;
+  const rule = (fill: string) =>
+    `+${fill.repeat(leftWidth)}+${fill.repeat(rightWidth)}+`;
+  const lines = [rule("-")];
+  title.forEach((t) => lines.push(`| ${t.padEnd(76)} |`));
+  lines.push(rule("="));
+  sections.forEach((section, i) => {
+    if (section.heading) {
+      // The first heading sits inside the box, under the title
+      const edge = i === 0 ? "|" : "+";
+      const heading = `-----  ${section.heading}  `.padEnd(leftWidth, "-");
+      lines.push(`${edge}${heading}+${"-".repeat(rightWidth)}${edge}`);
+    } else if (i > 0) {
+      lines.push(rule("-"));
+    }
+    for (const [label, value] of section.rows) {
+      lines.push(
+        `| ${label.padEnd(leftWidth - 2)} | ${value.padEnd(rightWidth - 2)} |`,
+      );
+    }
+  });
+  lines.push(rule("-"));
+  return lines.join("\n");
+}
+
+function formatEntities(gpuIds: number[]): string {
+  return gpuIds.length > 0
+    ? gpuIds.map((id) => `GPU ${id}`).join(", ")
+    : "None";
+}
+
+function formatFieldValue(field: DcgmField, gpu: GPU): string {
+  const value = field.read(gpu);
+  if (value === undefined || Number.isNaN(value)) return "N/A";
+  return field.decimals ? value.toFixed(field.decimals) : String(value);
+}
+
+function formatPolicyThreshold(policy: DcgmPolicy): string {
+  const t = policy.threshold ?? DEFAULT_POLICY_THRESHOLDS[policy.condition];
+  switch (policy.condition) {
+    case "ecc":
+    case "nvlink":
+      return `> ${t} errors`;
+    case "thermal":
+      return `> ${t}°C`;
+    case "power":
+      return t === undefined ? "> power limit" : `> ${t} W`;
+    case "memory":
+      return `> ${t}%`;
+    case "pcie":
+      return t === undefined ? "Any fatal" : `Replay > ${t}`;
+    case "xid":
+      return t === undefined ? "Any critical" : `XID ${t}`;
+  }
+}
+
+function formatViolation(v: DcgmPolicyViolation): string {
+  const values: Record<DcgmPolicyCondition, string> = {
+    ecc: `${v.value} double-bit ECC errors`,
+    thermal: `temperature ${Math.round(v.value)}°C`,
+    power: `power ${v.value.toFixed(1)} W`,
+    pcie: `${v.value} PCIe replays`,
+    nvlink: `${v.value} NVLink errors`,
+    xid: `XID ${v.value}`,
+    memory: `${Math.round(v.value)}% of framebuffer used`,
+  };
+  return `${new Date(v.timestamp).toISOString()} [${POLICY_LABELS[v.condition]}] GPU ${v.gpuId}: ${values[v.condition]} (action: ${v.action})`;
+}
+
+/**
+ * Format a time the way ctime(3) does, as dcgmi prints job times
+ */
+function formatCtime(ms: number): string {
+  const d = new Date(ms);
+  const day = d.toLocaleString("en-US", { weekday: "short", timeZone: "UTC" });
+  const month = d.toLocaleString("en-US", { month: "short", timeZone: "UTC" });
+  const time = d.toISOString().slice(11, 19);
+  return `${day} ${month} ${String(d.getUTCDate()).padStart(2)} ${time} ${d.getUTCFullYear()}`;
+}
+
+function formatJobStats(
+  job: DcgmJobStats,
+  now: number,
+  verbose: boolean,
+): string {
+  const series = (s: DcgmStatSeries, decimals = 0) =>
+    `Avg: ${(s.sum / s.count).toFixed(decimals)}, Max: ${s.max.toFixed(decimals)}, Min: ${s.min.toFixed(decimals)}`;
+  const end = job.endTime ?? now;
+
+  const table = (title: string, s: DcgmGpuJobStats) => {
+    const health =
+      s.doubleBitErrors > 0 || s.criticalXids > 0
+        ? "Failure"
+        : s.singleBitErrors > 0
+          ? "Warning"
+          : "Healthy";
+    return formatDcgmTable(
+      [title],
+      [
+        {
+          heading: "Execution Stats",
+          rows: [
+            ["Start Time", formatCtime(job.startTime)],
+            [
+              "End Time",
+              job.endTime === undefined
+                ? "Still Running"
+                : formatCtime(job.endTime),
+            ],
+            [
+              "Total Execution Time (sec)",
+              ((end - job.startTime) / 1000).toFixed(2),
+            ],
+            ["No. of Processes", "N/A"],
+          ],
+        },
+        {
+          heading: "Performance Stats",
+          rows: [
+            ["Energy Consumed (Joules)", String(Math.round(s.energy))],
+            ["Power Usage (Watts)", series(s.power, 3)],
+            [
+              "Max GPU Memory Used (bytes)",
+              String(s.maxMemoryUsed * 1024 * 1024),
+            ],
+            ["SM Clock (MHz)", series(s.smClock)],
+            ["Memory Clock (MHz)", series(s.memClock)],
+            ["SM Utilization (%)", series(s.smUtil)],
+            ["Memory Utilization (%)", series(s.memUtil)],
+            ["PCIe Rx Bandwidth (megabytes)", "Avg: N/A, Max: N/A, Min: N/A"],
+            ["PCIe Tx Bandwidth (megabytes)", "Avg: N/A, Max: N/A, Min: N/A"],
+          ],
+        },
+        {
+          heading: "Event Stats",
+          rows: [
+            ["Single Bit ECC Errors", String(s.singleBitErrors)],
+            ["Double Bit ECC Errors", String(s.doubleBitErrors)],
+            ["PCIe Replay Warnings", "0"],
+            ["Critical XID Errors", String(s.criticalXids)],
+          ],
+        },
+        { heading: "Overall Health", rows: [["Overall Health", health]] },
+      ],
+      STATS_TABLE_WIDTH,
+    );
+  };
+
+  if (job.gpus.length === 0) {
+    return `Job ${job.jobId} has no GPUs: group ${job.groupId} was empty when it started.`;
+  }
+  const tables = [table("Summary", mergeGpuStats(job.gpus))];
+  if (verbose) {
+    job.gpus.forEach((s) => tables.push(table(`GPU ID: ${s.gpuId}`, s)));
+  }
+  return tables.join("\n");
+}
+
+/**
+ * dcgmi discovery -c: each GPU with its MIG GPU and compute instances.
+ * DCGM numbers the instances across the node in creation order.
+ */
+function formatInstanceHierarchy(node: DGXNode): string {
+  const spec = getHardwareSpecs(node.systemType || "DGX-A100");
+  const row = (left: string, right: string) =>
+    `| ${left.padEnd(18)}| ${right.padEnd(67)}|`;
+  const rule = (c: string) => `+${c.repeat(19)}+${c.repeat(68)}+`;
+
+  const lines = [rule("-"), `| ${"Instance Hierarchy".padEnd(86)}|`, rule("=")];
+  let giEntity = 0;
+  let ciEntity = 0;
+  node.gpus.forEach((gpu) => {
+    lines.push(row(`GPU ${gpu.id}`, `GPU ${gpu.uuid} (EntityID: ${gpu.id})`));
+    placedInstances(spec, gpu.migInstances).forEach((gi) => {
+      const name = findMigProfile(spec, gi.profileId)?.name;
+      lines.push(
+        row(
+          `-> I ${gpu.id}/${gi.id}`,
+          `GPU Instance ${name ? `MIG ${name} ` : ""}(EntityID: ${giEntity++})`,
+        ),
+      );
+      gi.computeInstances.forEach((ci) =>
+        lines.push(
+          row(
+            `   -> CI ${gpu.id}/${gi.id}/${ci.id}`,
+            `Compute Instance (EntityID: ${ciEntity++})`,
+          ),
+        ),
+      );
+    });
+  });
+  lines.push(rule("-"));
+  return lines.join("\n");
+}
 
 export class DcgmiSimulator extends BaseSimulator {
   constructor() {
@@ -36,9 +296,17 @@ export class DcgmiSimulator extends BaseSimulator {
           long: "list",
           description: "List all discovered GPUs with details",
         },
-        { short: "c", long: "compute", description: "Show compute capability" },
+        {
+          short: "c",
+          long: "compute-instances",
+          description: "List MIG GPU and compute instances",
+        },
+      ],
+      examples: [
+        "dcgmi discovery -l",
+        "dcgmi discovery --list",
+        "dcgmi discovery -c",
       ],
-      examples: ["dcgmi discovery -l", "dcgmi discovery --list"],
     });
 
     this.registerCommand("diag", this.handleDiag.bind(this), {
@@ -93,34 +361,108 @@ export class DcgmiSimulator extends BaseSimulator {
           description: "Create a new group",
           takesValue: true,
         },
+        {
+          long: "default",
+          description: "Add all GPUs to the group being created",
+        },
         {
           short: "d",
           long: "delete",
           description: "Delete a group",
           takesValue: true,
         },
+        {
+          short: "g",
+          long: "groupid",
+          description: "Group to change or show",
+          takesValue: true,
+        },
+        {
+          short: "a",
+          long: "add",
+          description: "Add GPUs to the group (e.g. 0,1)",
+          takesValue: true,
+        },
+        {
+          short: "r",
+          long: "remove",
+          description: "Remove GPUs from the group",
+          takesValue: true,
+        },
+        {
+          short: "i",
+          long: "info",
+          description: "Show the GPUs in a group",
+          takesValue: true,
+        },
       ],
       examples: [
         "dcgmi group -l",
         "dcgmi group -c my-group",
-        "dcgmi group --create my-group",
+        "dcgmi group -g 2 -a 0,1,2,3",
+        "dcgmi group -g 2 -i",
+        "dcgmi group -d 2",
       ],
     });
 
     this.registerCommand("stats", this.handleStats.bind(this), {
       name: "stats",
-      description: "Collect GPU statistics",
+      description: "Record job statistics for GPU groups",
       usage: "dcgmi stats [OPTIONS]",
       flags: [
         {
           short: "g",
           long: "group",
-          description: "Specify group ID",
+          description: "Specify group ID (default: 0)",
           takesValue: true,
         },
-        { short: "e", long: "enable", description: "Enable stats collection" },
+        { short: "e", long: "enable", description: "Enable process watches" },
+        {
+          short: "d",
+          long: "disable",
+          description: "Disable process watches",
+        },
+        {
+          short: "s",
+          long: "jstart",
+          description: "Start recording stats for a job",
+          takesValue: true,
+        },
+        {
+          short: "x",
+          long: "jstop",
+          description: "Stop recording stats for a job",
+          takesValue: true,
+        },
+        {
+          short: "j",
+          long: "job",
+          description: "Show the stats of a job",
+          takesValue: true,
+        },
+        {
+          short: "v",
+          long: "verbose",
+          description: "Show per-GPU stats with -j",
+        },
+        {
+          short: "r",
+          long: "jremove",
+          description: "Remove the stats of a job",
+          takesValue: true,
+        },
+        {
+          short: "a",
+          long: "jremoveall",
+          description: "Remove the stats of all jobs",
+        },
+      ],
+      examples: [
+        "dcgmi stats -g 2 -e",
+        "dcgmi stats -g 2 -s job1",
+        "dcgmi stats -x job1",
+        "dcgmi stats -j job1 -v",
       ],
-      examples: ["dcgmi stats -g 0 -e", "dcgmi stats --enable"],
     });
 
     this.registerCommand("policy", this.handlePolicy.bind(this), {
@@ -180,6 +522,12 @@ export class DcgmiSimulator extends BaseSimulator {
           description: "Create field group",
           takesValue: true,
         },
+        {
+          short: "f",
+          long: "fields",
+          description: "Field IDs of the field group being created",
+          takesValue: true,
+        },
         {
           short: "d",
           long: "delete",
@@ -195,7 +543,7 @@ export class DcgmiSimulator extends BaseSimulator {
       ],
       examples: [
         "dcgmi fieldgroup -l",
-        "dcgmi fieldgroup -c perf_fields",
+        "dcgmi fieldgroup -c perf_fields -f 150,155,203,204",
         "dcgmi fieldgroup -i 0",
       ],
     });
@@ -208,15 +556,27 @@ export class DcgmiSimulator extends BaseSimulator {
         {
           short: "i",
           long: "gpu-id",
-          description: "GPU ID to monitor",
+          description: "GPU IDs to monitor",
           takesValue: true,
         },
         {
           short: "g",
-          long: "group",
+          long: "group-id",
           description: "Group ID to monitor",
           takesValue: true,
         },
+        {
+          short: "e",
+          long: "field-id",
+          description: "Field IDs to display",
+          takesValue: true,
+        },
+        {
+          short: "f",
+          long: "field-group-id",
+          description: "Field group to display",
+          takesValue: true,
+        },
         {
           short: "d",
           long: "delay",
@@ -229,19 +589,31 @@ export class DcgmiSimulator extends BaseSimulator {
           description: "Number of samples",
           takesValue: true,
         },
-        {
-          short: "e",
-          long: "fields",
-          description: "Field IDs to display",
-          takesValue: true,
-        },
       ],
       examples: [
         "dcgmi dmon -i 0",
         "dcgmi dmon -g 0 -d 1000 -c 10",
-        "dcgmi dmon -e 155,156,157",
+        "dcgmi dmon -e 150,155,203,204",
+        "dcgmi dmon -f 0",
       ],
     });
+
+    this.registerCommand("nvlink", this.handleNvlink.bind(this), {
+      name: "nvlink",
+      description: "NVLink link status and error counters",
+      usage: "dcgmi nvlink [OPTIONS]",
+      flags: [
+        { short: "s", long: "status", description: "Link status" },
+        { short: "e", long: "errors", description: "Error counters" },
+        {
+          short: "g",
+          long: "gpuid",
+          description: "GPU ID for error counters",
+          takesValue: true,
+        },
+      ],
+      examples: ["dcgmi nvlink -s", "dcgmi nvlink -e -g 0"],
+    });
   }
 
   getMetadata(): SimulatorMetadata {
@@ -255,6 +627,11 @@ export class DcgmiSimulator extends BaseSimulator {
 
   execute(parsed: ParsedCommand, context: CommandContext): CommandResult {
     parsed = this.parseWithSchema(parsed.raw);
+    // Re-parse with the subcommand's own options, whose short flags differ
+    // between subcommands
+    if (parsed.subcommands.length > 0) {
+      parsed = this.parseWithSchema(parsed.raw, parsed.subcommands[0]);
+    }
     // Only validate root-level flags when no subcommand is specified
     // Subcommand flags are validated within individual handlers
     if (parsed.subcommands.length === 0) {
@@ -262,8 +639,12 @@ export class DcgmiSimulator extends BaseSimulator {
       if (flagError) return flagError;
     }
 
-    // Handle root-level flags (--version, --help)
-    if (this.hasAnyFlag(parsed, ["version", "v"])) {
+    // Handle root-level flags (--version, --help). Subcommands use -v for
+    // their own options.
+    if (
+      this.hasAnyFlag(parsed, ["version"]) ||
+      (parsed.subcommands.length === 0 && this.hasAnyFlag(parsed, ["v"]))
+    ) {
       return this.handleVersion();
     }
 
@@ -284,6 +665,15 @@ export class DcgmiSimulator extends BaseSimulator {
       );
     }
 
+    // nv-hostengine cannot start before the driver has loaded, nor with
+    // NVML libraries that do not match it
+    const node = this.getNode(context);
+    if (node && (!isDriverLoaded(node) || libraryMismatch(node))) {
+      return this.createError(
+        "Error: unable to establish a connection to the specified host: localhost\nError: Unable to connect to host engine. Host engine connection invalid/disconnected.",
+      );
+    }
+
     // Route to command handler
     const handler = this.getCommand(subcommand);
 
@@ -354,7 +744,15 @@ export class DcgmiSimulator extends BaseSimulator {
       { name: "Deployment", desc: "Permissions and OS Blocks", pass: true },
       { name: "Deployment", desc: "Persistence Mode", pass: true },
       { name: "Deployment", desc: "Environment Variables", pass: true },
-      { name: "Deployment", desc: "Page Retirement/Row Remap", pass: true },
+      {
+        name: "Deployment",
+        desc: "Page Retirement/Row Remap",
+        pass: gpus.every(
+          (g) =>
+            !isResetRequired(g) &&
+            getMemoryHealth(g).remapFailures.length === 0,
+        ),
+      },
       { name: "Deployment", desc: "Graphics Processes", pass: true },
       { name: "Hardware", desc: "GPU Memory", pass: true },
       { name: "Hardware", desc: "Pulse Test", pass: true },
@@ -428,6 +826,10 @@ export class DcgmiSimulator extends BaseSimulator {
       return this.createSuccess(output);
     }
 
+    if (this.hasAnyFlag(parsed, ["c", "compute-instances"])) {
+      return this.createSuccess(formatInstanceHierarchy(node));
+    }
+
     // Default: just show count
     return this.createSuccess(
       `${node.gpus.length} GPU(s) found. Use -l for details.`,
@@ -512,7 +914,7 @@ export class DcgmiSimulator extends BaseSimulator {
     }
 
     // Build health check results for each subsystem
-    const checks = [
+    const checks: { system: string; healthy: boolean; failed?: boolean }[] = [
       { system: "Driver", healthy: true },
       { system: "CUDA Runtime", healthy: true },
       { system: "PCIe", healthy: true },
@@ -535,6 +937,16 @@ export class DcgmiSimulator extends BaseSimulator {
         );
         if (eccCheck) eccCheck.healthy = false;
       }
+      // Pending repairs need a reset; a row that could not be remapped
+      // cannot be repaired at all
+      const memory = getMemoryHealth(gpu);
+      if (isResetRequired(gpu) || memory.remapFailures.length > 0) {
+        const memCheck = checks.find((c) => c.system === "Memory");
+        if (memCheck) {
+          memCheck.healthy = false;
+          memCheck.failed ||= memory.remapFailures.length > 0;
+        }
+      }
       if (gpu.temperature > getThermalThresholds(gpu.name || "").maxOp) {
         const thermalCheck = checks.find((c) => c.system === "Thermal");
         if (thermalCheck) thermalCheck.healthy = false;
@@ -560,6 +972,7 @@ export class DcgmiSimulator extends BaseSimulator {
       "Status".length,
       "Healthy".length,
       "Warning".length,
+      "Failure".length,
     );
     const sep = `+${"-".repeat(sysWidth + 2)}+${"-".repeat(statusWidth + 2)}+`;
 
@@ -568,26 +981,27 @@ export class DcgmiSimulator extends BaseSimulator {
     output += `| ${"System".padEnd(sysWidth)} | ${"Status".padEnd(statusWidth)} |\n`;
     output += `${sep}\n`;
     for (const check of checks) {
-      const status = check.healthy ? "Healthy" : "Warning";
+      const status = check.failed
+        ? "Failure"
+        : check.healthy
+          ? "Healthy"
+          : "Warning";
       output += `| ${check.system.padEnd(sysWidth)} | ${status.padEnd(statusWidth)} |\n`;
     }
     output += `${sep}\n`;
 
     // Append per-GPU detail if issues found
-    const hasIssues = node.gpus.some(
-      (gpu) =>
-        gpu.xidErrors.length > 0 ||
-        gpu.eccErrors.doubleBit > 0 ||
-        gpu.temperature > 80,
-    );
-    if (hasIssues) {
+    const hasGpuIssues = (gpu: GPU) =>
+      gpu.xidErrors.length > 0 ||
+      gpu.eccErrors.doubleBit > 0 ||
+      gpu.temperature > 80 ||
+      isResetRequired(gpu) ||
+      getMemoryHealth(gpu).remapFailures.length > 0;
+    if (node.gpus.some(hasGpuIssues)) {
       output += `\nDetailed GPU Status:\n`;
       node.gpus.forEach((gpu, idx) => {
-        if (
-          gpu.xidErrors.length > 0 ||
-          gpu.eccErrors.doubleBit > 0 ||
-          gpu.temperature > 80
-        ) {
+        if (hasGpuIssues(gpu)) {
+          const memory = getMemoryHealth(gpu);
           output += `  GPU ${idx}:\n`;
           if (gpu.xidErrors.length > 0) {
             output += `    XID Errors: ${gpu.xidErrors.length}\n`;
@@ -595,6 +1009,15 @@ export class DcgmiSimulator extends BaseSimulator {
           if (gpu.eccErrors.doubleBit > 0) {
             output += `    ECC Errors: ${gpu.eccErrors.doubleBit} uncorrectable\n`;
           }
+          if (memory.retiredPages.length > 0) {
+            output += `    Retired Pages: ${memory.retiredPages.length} (${pendingRetiredPages(gpu)} pending)\n`;
+          }
+          if (isResetRequired(gpu)) {
+            output += `    Row Remap: ${pendingRemappedRows(gpu)} pending, GPU reset required\n`;
+          }
+          if (memory.remapFailures.length > 0) {
+            output += `    Row Remap Failure: no spare rows left in bank ${memory.remapFailures[0].bank}, RMA required\n`;
+          }
           if (gpu.temperature > 80) {
             output += `    Temperature: ${Math.round(gpu.temperature)}°C (HIGH)\n`;
           }
@@ -604,60 +1027,386 @@ export class DcgmiSimulator extends BaseSimulator {
     return this.createSuccess(output);
   }
 
+  /**
+   * The node's host engine and the mutator that changes it
+   */
+  private getHostEngineFor(context: CommandContext) {
+    const node = this.getNode(context);
+    return node ? { node, engine: getHostEngine(node) } : undefined;
+  }
+
+  /**
+   * Parse a GPU list such as "0,1" or "gpu:0,gpu:1". Returns undefined if
+   * any entry is not a GPU of the node.
+   */
+  private parseGpuList(value: string, node: DGXNode): number[] | undefined {
+    const ids = value
+      .split(",")
+      .map((entry) => entry.trim().replace(/^gpu:/i, ""))
+      .filter((entry) => entry !== "")
+      .map(Number);
+    if (ids.length === 0) return undefined;
+    const valid = ids.every(
+      (id) => Number.isInteger(id) && node.gpus.some((g) => g.id === id),
+    );
+    return valid ? [...new Set(ids)] : undefined;
+  }
+
+  private groupNotFound(groupId: number | string): CommandResult {
+    return this.createError(
+      `Error: Unable to find group ${groupId}. Return: Setting not configured.`,
+    );
+  }
+
   /**
    * Handle group command
    */
   private handleGroup(
     parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
-    // Check for -l or --list flag
+    const resolved = this.getHostEngineFor(context);
+    if (!resolved) {
+      return this.createError("Unable to determine current node");
+    }
+    const { node, engine } = resolved;
+    const mutator = this.resolveMutator(context);
+    const groupFlag = this.getFlagString(parsed, ["g", "groupid", "group"]);
+
     if (this.hasAnyFlag(parsed, ["l", "list"])) {
+      const count = engine.groups.length;
+      const rows: [string, string][] = [["Groups", ""]];
+      for (const group of engine.groups) {
+        rows.push(
+          [`-> ${group.id}`, ""],
+          ["   -> Group ID", String(group.id)],
+          ["   -> Group Name", group.name],
+          ["   -> Entities", formatEntities(group.gpuIds)],
+        );
+      }
       return this.createSuccess(
-        'No groups configured.\nUse "dcgmi group -c <name>" to create a group.',
+        formatDcgmTable(
+          ["GROUPS", `${count} group${count === 1 ? "" : "s"} found.`],
+          [{ rows }],
+          GROUP_TABLE_WIDTH,
+        ),
       );
     }
 
-    // Check for -c or --create flag
     if (this.hasAnyFlag(parsed, ["c", "create"])) {
-      const name = this.getFlagString(parsed, ["c", "create"], "default-group");
+      const name = this.getFlagString(parsed, ["c", "create"]);
+      if (!name) {
+        return this.createError("Error: Missing group name for -c/--create.");
+      }
+      const group = {
+        id: Math.max(ALL_NVSWITCHES_GROUP + 1, nextId(engine.groups)),
+        name,
+        gpuIds: this.hasAnyFlag(parsed, ["default"])
+          ? node.gpus.map((g) => g.id)
+          : [],
+      };
+      mutator.updateDcgmHostEngine(node.id, { action: "group-create", group });
       return this.createSuccess(
-        `Successfully created group "${name}" with group ID 0.`,
+        `Successfully created group "${name}" with a group ID of ${group.id}`,
       );
     }
 
-    // Check for -a or --add flag (add GPU to group)
-    if (this.hasAnyFlag(parsed, ["a", "add"])) {
-      const gpuId = this.getFlagString(parsed, ["a", "add"], "0");
-      const groupId = this.getFlagString(parsed, ["g", "group"], "0");
+    if (this.hasAnyFlag(parsed, ["d", "delete"])) {
+      const groupId = this.getFlagNumber(parsed, ["d", "delete"], -1);
+      if (groupId === ALL_GPUS_GROUP || groupId === ALL_NVSWITCHES_GROUP) {
+        return this.createError(
+          `Error: Cannot delete default group ${groupId}. Return: This request is not supported.`,
+        );
+      }
+      if (!findGroup(engine, groupId)) {
+        return this.groupNotFound(this.getFlagString(parsed, ["d", "delete"]));
+      }
+      mutator.updateDcgmHostEngine(node.id, {
+        action: "group-delete",
+        groupId,
+      });
+      return this.createSuccess(`Successfully removed group ${groupId}`);
+    }
+
+    const adding = this.hasAnyFlag(parsed, ["a", "add"]);
+    if (adding || this.hasAnyFlag(parsed, ["r", "remove"])) {
+      if (!groupFlag) {
+        return this.createError(
+          "Error: Missing group ID. Use -g/--groupid to select the group to change.",
+        );
+      }
+      const group = findGroup(engine, Number(groupFlag));
+      if (!group) {
+        return this.groupNotFound(groupFlag);
+      }
+      if (group.id === ALL_GPUS_GROUP || group.id === ALL_NVSWITCHES_GROUP) {
+        return this.createError(
+          `Error: Cannot modify default group ${group.id}. Return: This request is not supported.`,
+        );
+      }
+      const list = this.getFlagString(
+        parsed,
+        adding ? ["a", "add"] : ["r", "remove"],
+      );
+      const gpuIds = this.parseGpuList(list, node);
+      if (!gpuIds) {
+        return this.createError(
+          `Error: Invalid GPU list "${list}". Return: Bad parameter passed to function.`,
+        );
+      }
+      mutator.updateDcgmHostEngine(node.id, {
+        action: "group-gpus",
+        groupId: group.id,
+        gpuIds: adding
+          ? [...new Set([...group.gpuIds, ...gpuIds])].sort((a, b) => a - b)
+          : group.gpuIds.filter((id) => !gpuIds.includes(id)),
+      });
       return this.createSuccess(
-        `Add to group ${groupId}: GPU ${gpuId} successfully added.`,
+        `${adding ? "Add to" : "Remove from"} group operation successful.`,
       );
     }
 
-    // Check for -d or --delete flag
-    if (this.hasAnyFlag(parsed, ["d", "delete"])) {
-      const groupId = this.getFlagString(parsed, ["d", "delete"], "0");
-      return this.createSuccess(`Successfully removed group ID ${groupId}.`);
+    if (this.hasAnyFlag(parsed, ["i", "info"])) {
+      const id = this.getFlagString(parsed, ["i", "info"]) || groupFlag;
+      const group = findGroup(engine, Number(id || ALL_GPUS_GROUP));
+      if (!group) {
+        return this.groupNotFound(id);
+      }
+      return this.createSuccess(
+        formatDcgmTable(
+          ["GROUP INFO"],
+          [
+            {
+              rows: [
+                [String(group.id), ""],
+                ["-> Group ID", String(group.id)],
+                ["-> Group Name", group.name],
+                ["-> Entities", formatEntities(group.gpuIds)],
+              ],
+            },
+          ],
+          GROUP_TABLE_WIDTH,
+        ),
+      );
     }
 
     return this.createError(
-      'Missing required flag: -l/--list, -c/--create, -a/--add, or -d/--delete\nRun "dcgmi group --help" for usage.',
+      'Missing required flag: -l/--list, -c/--create, -a/--add, -r/--remove, -i/--info or -d/--delete\nRun "dcgmi group --help" for usage.',
     );
   }
 
   /**
-   * Handle stats command
+   * Handle nvlink command. Links of GPUs that are not registered with the
+   * NVSwitch fabric are untrained and report Down, on both ends.
    */
-  private handleStats(
-    _parsed: ParsedCommand,
-    _context: CommandContext,
+  private handleNvlink(
+    parsed: ParsedCommand,
+    context: CommandContext,
   ): CommandResult {
-    return this.createSuccess(
-      'DCGM stats collection not yet configured.\nUse "dcgmi stats -g <group> -e" to enable.',
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Unable to determine current node");
+    }
+    const linkState = (status: NVLinkConnection["status"]) =>
+      status === "Active" ? "U" : "D";
+
+    if (this.hasAnyFlag(parsed, ["e", "errors"])) {
+      const gpuId = this.getFlagNumber(parsed, ["g", "gpuid"], -1);
+      const gpu = node.gpus.find((g) => g.id === gpuId);
+      if (!gpu) {
+        return this.createError(
+          gpuId < 0
+            ? "Missing required option: -g/--gpuid"
+            : `Error: Invalid GPU ID ${gpuId}`,
+        );
+      }
+      const sep = "+" + "-".repeat(29) + "+" + "-".repeat(48) + "+";
+      const row = (left: string, right: string) =>
+        `|${left.padEnd(29)}| ${right.padEnd(47)}|\n`;
+      let output = sep + "\n";
+      output += row(` GPU ID: ${gpu.id}`, "NVLINK Error Counts");
+      output += sep + "\n";
+      gpu.nvlinks.forEach((link) => {
+        const label = `Link ${link.linkId}`;
+        output += row(label, `CRC FLIT Error => ${link.rxErrors}`);
+        output += row(label, `CRC Data Error => ${link.txErrors}`);
+        output += row(label, `Replay Error   => ${link.replayErrors}`);
+        output += row(label, `Recovery Error => 0`);
+      });
+      output += sep;
+      return this.createSuccess(output);
+    }
+
+    if (this.hasAnyFlag(parsed, ["s", "status"])) {
+      const fabric = getNVSwitchFabric(node);
+      let output = "+----------------------+\n";
+      output += "|  NvLink Link Status  |\n";
+      output += "+----------------------+\n";
+      output += "GPUs:\n";
+      node.gpus.forEach((gpu) => {
+        output += `    gpuId ${gpu.id}:\n`;
+        output += `        ${gpu.nvlinks.map((l) => linkState(l.status)).join(" ")}\n`;
+      });
+      output += "NvSwitches:\n";
+      if (fabric.nvswitches.length === 0) {
+        output += "    No NvSwitches found.\n";
+      }
+      fabric.nvswitches.forEach((sw) => {
+        output += `    physicalId ${sw.physicalId}:\n`;
+        output += `        ${sw.ports.map((p) => linkState(p.state)).join(" ")}\n`;
+      });
+      output += "\nKey: Up=U, Down=D, Disabled=X, Not Supported=_";
+      return this.createSuccess(output);
+    }
+
+    return this.createError(
+      'Missing required flag: -s/--status or -e/--errors\nRun "dcgmi nvlink --help" for usage.',
     );
   }
 
+  /**
+   * Handle stats command: process watches and job statistics. Jobs record
+   * the GPUs of their group from -s until -x.
+   */
+  private handleStats(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const resolved = this.getHostEngineFor(context);
+    if (!resolved) {
+      return this.createError("Unable to determine current node");
+    }
+    const { node, engine } = resolved;
+    const mutator = this.resolveMutator(context);
+    const now = simulationClock.now();
+    const groupFlag = this.getFlagString(parsed, ["g", "group"]);
+    const groupId = groupFlag ? Number(groupFlag) : ALL_GPUS_GROUP;
+    const findJob = (jobId: string) =>
+      engine.jobs.find((job) => job.jobId === jobId);
+
+    const enable = this.hasAnyFlag(parsed, ["e", "enable"]);
+    if (enable || this.hasAnyFlag(parsed, ["d", "disable"])) {
+      if (!findGroup(engine, groupId)) {
+        return this.groupNotFound(groupFlag);
+      }
+      mutator.updateDcgmHostEngine(node.id, {
+        action: "watches",
+        groupId,
+        enabled: enable,
+      });
+      return this.createSuccess(
+        `Successfully ${enable ? "started" : "stopped"} process watches on group ${groupId}.`,
+      );
+    }
+
+    if (this.hasAnyFlag(parsed, ["s", "jstart"])) {
+      const jobId = this.getFlagString(parsed, ["s", "jstart"]);
+      if (!jobId) {
+        return this.createError("Error: Missing job ID for -s/--jstart.");
+      }
+      if (!findGroup(engine, groupId)) {
+        return this.groupNotFound(groupFlag);
+      }
+      if (!engine.watchedGroups.includes(groupId)) {
+        return this.createError(
+          `Error: Unable to start recording stats for job ${jobId}. Return: Field is not being watched.\nEnable process watches first with "dcgmi stats -g ${groupId} -e".`,
+        );
+      }
+      if (findJob(jobId)) {
+        return this.createError(
+          `Error: Unable to start recording stats for job ${jobId}. Return: Duplicate key passed to a function.`,
+        );
+      }
+      mutator.updateDcgmHostEngine(node.id, {
+        action: "job-start",
+        jobId,
+        groupId,
+        time: now,
+      });
+      return this.createSuccess(
+        "Successfully started recording stats for job.",
+      );
+    }
+
+    if (this.hasAnyFlag(parsed, ["x", "jstop"])) {
+      const jobId = this.getFlagString(parsed, ["x", "jstop"]);
+      const job = findJob(jobId);
+      if (!job) {
+        return this.createError(
+          `Error: Unable to stop recording stats for job ${jobId}. Return: No data is available.`,
+        );
+      }
+      if (job.endTime !== undefined) {
+        return this.createError(
+          `Error: Stats recording for job ${jobId} has already stopped.`,
+        );
+      }
+      mutator.updateDcgmHostEngine(node.id, {
+        action: "job-stop",
+        jobId,
+        time: now,
+      });
+      return this.createSuccess(
+        `Successfully stopped recording stats for job ${jobId}.`,
+      );
+    }
+
+    if (this.hasAnyFlag(parsed, ["j", "job"])) {
+      const jobId = this.getFlagString(parsed, ["j", "job"]);
+      const job = findJob(jobId);
+      if (!job) {
+        return this.createError(
+          `Error: Unable to get job statistics for ${jobId}. Return: No data is available.`,
+        );
+      }
+      const verbose = this.hasAnyFlag(parsed, ["v", "verbose"]);
+      return this.createSuccess(
+        `Successfully retrieved statistics for job: ${jobId}.\n` +
+          formatJobStats(jobStatsAt(job, node, now), now, verbose),
+      );
+    }
+
+    if (this.hasAnyFlag(parsed, ["r", "jremove"])) {
+      const jobId = this.getFlagString(parsed, ["r", "jremove"]);
+      if (!findJob(jobId)) {
+        return this.createError(
+          `Error: Unable to remove job ${jobId}. Return: No data is available.`,
+        );
+      }
+      mutator.updateDcgmHostEngine(node.id, { action: "job-remove", jobId });
+      return this.createSuccess(`Successfully removed job ${jobId}.`);
+    }
+
+    if (this.hasAnyFlag(parsed, ["a", "jremoveall"])) {
+      mutator.updateDcgmHostEngine(node.id, { action: "job-remove" });
+      return this.createSuccess("Successfully removed all jobs.");
+    }
+
+    if (this.hasAnyFlag(parsed, ["p", "pid"])) {
+      const pid = this.getFlagString(parsed, ["p", "pid"]);
+      return this.createError(
+        `Error: Unable to get process stats for PID ${pid}. Return: No data is available.`,
+      );
+    }
+
+    // Without an action, show what is being recorded
+    const watching = engine.watchedGroups.includes(groupId);
+    let output = `Process watches on group ${groupId}: ${watching ? "Enabled" : "Disabled"}\n`;
+    if (engine.jobs.length === 0) {
+      output += "No jobs recorded.\n";
+      if (!watching) {
+        output += `Use "dcgmi stats -g ${groupId} -e" to enable process watches.`;
+      }
+      return this.createSuccess(output.trimEnd());
+    }
+    output += "Jobs:\n";
+    for (const job of engine.jobs) {
+      const state = job.endTime === undefined ? "Recording" : "Stopped";
+      output += `  ${job.jobId.padEnd(20)} group ${job.groupId}  ${state}\n`;
+    }
+    return this.createSuccess(output.trimEnd());
+  }
+
   /**
    * Handle policy command - comprehensive policy management
    */
@@ -665,16 +1414,17 @@ export class DcgmiSimulator extends BaseSimulator {
     parsed: ParsedCommand,
     context: CommandContext,
   ): CommandResult {
-    const node = this.getNode(context);
-    if (!node) {
+    const resolved = this.getHostEngineFor(context);
+    if (!resolved) {
       return this.createError("Unable to determine current node");
     }
+    const { node, engine } = resolved;
 
     const groupId = this.getFlagString(parsed, ["g", "group"], "0");
 
     // Get current policies
     if (this.hasAnyFlag(parsed, ["get"])) {
-      return this.showPolicies(groupId, node);
+      return this.showPolicies(Number(groupId), engine);
     }
 
     // Set a policy
@@ -689,19 +1439,39 @@ export class DcgmiSimulator extends BaseSimulator {
         );
       }
 
-      return this.setPolicy(groupId, condition, threshold, action);
+      return this.setPolicy(
+        groupId,
+        condition,
+        threshold,
+        action,
+        engine,
+        (policy) =>
+          this.resolveMutator(context).updateDcgmHostEngine(node.id, {
+            action: "policy-set",
+            policy,
+          }),
+      );
     }
 
     // Register for notifications
     if (this.hasAnyFlag(parsed, ["reg"])) {
       const condition = this.getFlagString(parsed, ["condition"], "all");
-      return this.createSuccess(
-        `Successfully registered for policy notifications.\n` +
-          `  Group ID: ${groupId}\n` +
-          `  Condition: ${condition}\n` +
-          `  Callback registered: Yes\n\n` +
-          `Policy violations will trigger notifications.`,
+      const violations = engine.violations.filter(
+        (v) =>
+          v.groupId === Number(groupId) &&
+          (condition === "all" || v.condition === condition.toLowerCase()),
       );
+      let output =
+        `Successfully registered for policy notifications.\n` +
+        `  Group ID: ${groupId}\n` +
+        `  Condition: ${condition}\n` +
+        `  Callback registered: Yes\n\n` +
+        `Policy violations will trigger notifications.`;
+      if (violations.length > 0) {
+        output += `\n\nViolations recorded so far:\n`;
+        output += violations.map((v) => `  ${formatViolation(v)}`).join("\n");
+      }
+      return this.createSuccess(output);
     }
 
     // Unregister
@@ -713,9 +1483,12 @@ export class DcgmiSimulator extends BaseSimulator {
 
     // Clear policies
     if (this.hasAnyFlag(parsed, ["clear"])) {
+      this.resolveMutator(context).updateDcgmHostEngine(node.id, {
+        action: "policy-clear",
+        groupId: Number(groupId),
+      });
       return this.createSuccess(
-        `Successfully cleared all policies for group ${groupId}.\n\n` +
-          `All monitoring thresholds have been reset to defaults.`,
+        `Successfully cleared all policies for group ${groupId}.`,
       );
     }
 
@@ -723,34 +1496,39 @@ export class DcgmiSimulator extends BaseSimulator {
     return this.showPolicyHelp();
   }
 
-  private showPolicies(groupId: string, node: DGXNode): CommandResult {
+  private showPolicies(groupId: number, engine: DcgmHostEngine): CommandResult {
+    const group = findGroup(engine, groupId);
+    const policies = engine.policies.filter((p) => p.groupId === groupId);
+
     let output = `\x1b[1mDCGM Health Policies - Group ${groupId}\x1b[0m\n`;
     output += `${"─".repeat(70)}\n\n`;
 
     output += `Group Info:\n`;
     output += `  Group ID:       ${groupId}\n`;
-    output += `  GPU Count:      ${node.gpus.length}\n`;
-    output += `  Policy Status:  Active\n\n`;
+    output += `  GPU Count:      ${group?.gpuIds.length ?? 0}\n`;
+    output += `  Policy Status:  ${policies.length > 0 ? "Active" : "None"}\n\n`;
 
     output += `\x1b[1mActive Policies:\x1b[0m\n`;
-    output += `  Condition         | Threshold        | Action    | Status\n`;
-    output += `  ${"─".repeat(60)}\n`;
-    output += `  ECC Double-Bit    | > 0 errors       | Log+Alert | \x1b[32mEnabled\x1b[0m\n`;
-    output += `  ECC Single-Bit    | > 100/day        | Log       | \x1b[32mEnabled\x1b[0m\n`;
-    output += `  Thermal           | > 83°C           | Throttle  | \x1b[32mEnabled\x1b[0m\n`;
-    output += `  Thermal Critical  | > 90°C           | Shutdown  | \x1b[32mEnabled\x1b[0m\n`;
-    output += `  Power             | > 100% TDP       | Log       | \x1b[32mEnabled\x1b[0m\n`;
-    output += `  PCIe              | Replay > 1000    | Log       | \x1b[32mEnabled\x1b[0m\n`;
-    output += `  NVLink            | CRC > 100        | Log+Alert | \x1b[32mEnabled\x1b[0m\n`;
-    output += `  XID Errors        | Any critical     | Log+Alert | \x1b[32mEnabled\x1b[0m\n\n`;
+    if (policies.length === 0) {
+      output += `  No policies set for this group.\n\n`;
+    } else {
+      output += `  Condition         | Threshold        | Action    | Status\n`;
+      output += `  ${"─".repeat(60)}\n`;
+      for (const policy of policies) {
+        output += `  ${POLICY_LABELS[policy.condition].padEnd(17)} | ${formatPolicyThreshold(policy).padEnd(16)} | ${policy.action.padEnd(9)} | \x1b[32mEnabled\x1b[0m\n`;
+      }
+      output += `\n`;
+    }
 
     output += `\x1b[1mRecent Violations:\x1b[0m\n`;
-    const violations = this.getRecentViolations(node);
+    const violations = engine.violations
+      .filter((v) => v.groupId === groupId)
+      .slice(-10);
     if (violations.length === 0) {
-      output += `  No policy violations in the last 24 hours.\n`;
+      output += `  No policy violations recorded.\n`;
     } else {
       violations.forEach((v) => {
-        output += `  ${v}\n`;
+        output += `  ${formatViolation(v)}\n`;
       });
     }
 
@@ -767,8 +1545,10 @@ export class DcgmiSimulator extends BaseSimulator {
     condition: string,
     threshold: string,
     action: string,
+    engine: DcgmHostEngine,
+    apply: (policy: DcgmPolicy) => void,
   ): CommandResult {
-    const validConditions = [
+    const validConditions: DcgmPolicyCondition[] = [
       "ecc",
       "thermal",
       "power",
@@ -777,7 +1557,7 @@ export class DcgmiSimulator extends BaseSimulator {
       "xid",
       "memory",
     ];
-    const validActions = [
+    const validActions: DcgmPolicyAction[] = [
       "none",
       "log",
       "gpureset",
@@ -785,8 +1565,12 @@ export class DcgmiSimulator extends BaseSimulator {
       "throttle",
       "shutdown",
     ];
+    const policyCondition = validConditions.find(
+      (c) => c === condition.toLowerCase(),
+    );
+    const policyAction = validActions.find((a) => a === action.toLowerCase());
 
-    if (!validConditions.includes(condition.toLowerCase())) {
+    if (!policyCondition) {
       return this.createError(
         `Invalid condition: ${condition}\n\n` +
           `Valid conditions:\n` +
@@ -800,7 +1584,7 @@ export class DcgmiSimulator extends BaseSimulator {
       );
     }
 
-    if (!validActions.includes(action.toLowerCase())) {
+    if (!policyAction) {
       return this.createError(
         `Invalid action: ${action}\n\n` +
           `Valid actions:\n` +
@@ -813,6 +1597,24 @@ export class DcgmiSimulator extends BaseSimulator {
       );
     }
 
+    if (!findGroup(engine, Number(groupId))) {
+      return this.groupNotFound(groupId);
+    }
+
+    const value = threshold === "" ? undefined : Number(threshold);
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      return this.createError(
+        `Invalid threshold: ${threshold}\nThe threshold must be a non-negative number.`,
+      );
+    }
+
+    apply({
+      groupId: Number(groupId),
+      condition: policyCondition,
+      threshold: value,
+      action: policyAction,
+    });
+
     let output = `\x1b[32mPolicy set successfully.\x1b[0m\n\n`;
     output += `Policy Details:\n`;
     output += `  Group ID:   ${groupId}\n`;
@@ -824,8 +1626,7 @@ export class DcgmiSimulator extends BaseSimulator {
     switch (condition.toLowerCase()) {
       case "ecc":
         output += `ECC Policy Configuration:\n`;
-        output += `  Single-bit errors will be logged at threshold.\n`;
-        output += `  Double-bit errors always trigger immediate action.\n`;
+        output += `  Volatile double-bit errors beyond the threshold trigger the action.\n`;
         break;
       case "thermal":
         output += `Thermal Policy Configuration:\n`;
@@ -840,9 +1641,8 @@ export class DcgmiSimulator extends BaseSimulator {
         break;
       case "xid":
         output += `XID Policy Configuration:\n`;
-        output += `  Critical XIDs (31, 43, 48, 79): Always alert\n`;
-        output += `  Warning XIDs (13, 32, 45, 63): Log only\n`;
-        output += `  Custom threshold affects warning-level XIDs.\n`;
+        output += `  Without a threshold, critical XIDs trigger the action.\n`;
+        output += `  A threshold watches for that XID code instead.\n`;
         break;
     }
 
@@ -886,42 +1686,24 @@ export class DcgmiSimulator extends BaseSimulator {
     return this.createSuccess(output);
   }
 
-  private getRecentViolations(node: DGXNode): string[] {
-    const violations: string[] = [];
-
-    // Check for any actual issues in the node
-    node.gpus.forEach((gpu: GPU, idx: number) => {
-      if (gpu.temperature > 80) {
-        violations.push(
-          `\x1b[33m[Thermal] GPU ${idx}: Temperature ${Math.round(gpu.temperature)}°C exceeds warning threshold\x1b[0m`,
-        );
-      }
-      if (gpu.eccErrors.doubleBit > 0) {
-        violations.push(
-          `\x1b[31m[ECC] GPU ${idx}: ${gpu.eccErrors.doubleBit} uncorrectable ECC errors detected\x1b[0m`,
-        );
-      }
-      if (gpu.xidErrors.length > 0) {
-        const criticalXids = gpu.xidErrors.filter((x: XIDError) =>
-          [31, 43, 48, 79].includes(x.code),
-        );
-        if (criticalXids.length > 0) {
-          violations.push(
-            `\x1b[31m[XID] GPU ${idx}: Critical XID error(s) - ${criticalXids.map((x: XIDError) => x.code).join(", ")}\x1b[0m`,
-          );
-        }
-      }
-      const inactiveLinks = gpu.nvlinks.filter(
-        (l: NVLinkConnection) => l.status !== "Active",
-      ).length;
-      if (inactiveLinks > 0) {
-        violations.push(
-          `\x1b[33m[NVLink] GPU ${idx}: ${inactiveLinks} inactive link(s) detected\x1b[0m`,
-        );
+  /**
+   * Parse a list of DCGM field IDs, returning the first unknown one as an
+   * error
+   */
+  private parseFieldIds(value: string): { ids: number[]; error?: string } {
+    const entries = value
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== "");
+    for (const entry of entries) {
+      if (!DCGM_FIELDS[Number(entry)]) {
+        return {
+          ids: [],
+          error: `Error: Unknown field ID ${entry}. Return: Bad parameter passed to function.`,
+        };
       }
-    });
-
-    return violations;
+    }
+    return { ids: entries.map(Number) };
   }
 
   /**
@@ -929,60 +1711,97 @@ export class DcgmiSimulator extends BaseSimulator {
    */
   private handleFieldGroup(
     parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
+    const resolved = this.getHostEngineFor(context);
+    if (!resolved) {
+      return this.createError("Unable to determine current node");
+    }
+    const { node, engine } = resolved;
+    const fieldGroupRows = (fg: DcgmFieldGroup): [string, string][] => [
+      ["ID", String(fg.id)],
+      ["Name", fg.name],
+      ["Field IDs", fg.fieldIds.join(", ")],
+    ];
+
     if (this.hasAnyFlag(parsed, ["l", "list"])) {
-      let output = `\x1b[1mDCGM Field Groups\x1b[0m\n`;
-      output += `${"─".repeat(60)}\n\n`;
-      output += `ID | Name                    | Fields | Created\n`;
-      output += `${"─".repeat(60)}\n`;
-      output += ` 0 | DCGM_DEFAULT            |   15   | System\n`;
-      output += ` 1 | DCGM_PROFILING          |   23   | System\n`;
-      output += ` 2 | DCGM_JOB_STATS          |   12   | System\n`;
-      output += ` 3 | custom_perf             |    8   | User\n`;
-      output += `\n`;
-      output += `Use 'dcgmi fieldgroup -i <ID>' for field details.\n`;
-      return this.createSuccess(output);
+      const count = engine.fieldGroups.length;
+      return this.createSuccess(
+        formatDcgmTable(
+          [
+            "FIELD GROUPS",
+            `${count} field group${count === 1 ? "" : "s"} found.`,
+          ],
+          engine.fieldGroups.map((fg) => ({ rows: fieldGroupRows(fg) })),
+          GROUP_TABLE_WIDTH,
+        ),
+      );
     }
 
     if (this.hasAnyFlag(parsed, ["i", "info"])) {
       const id = this.getFlagString(parsed, ["i", "info"], "0");
-      let output = `\x1b[1mField Group Details - ID ${id}\x1b[0m\n`;
-      output += `${"─".repeat(50)}\n\n`;
-      output += `Group Name: DCGM_DEFAULT\n`;
-      output += `Field Count: 15\n\n`;
-      output += `Fields:\n`;
-      output += `  203  - GPU_TEMP\n`;
-      output += `  204  - POWER_USAGE\n`;
-      output += `  252  - SM_CLOCK\n`;
-      output += `  253  - MEM_CLOCK\n`;
-      output += `  310  - PCIE_TX_BYTES\n`;
-      output += `  311  - PCIE_RX_BYTES\n`;
-      output += `  312  - NVLINK_TX_BYTES\n`;
-      output += `  313  - NVLINK_RX_BYTES\n`;
-      output += `  1001 - ECC_SBE_TOTAL\n`;
-      output += `  1002 - ECC_DBE_TOTAL\n`;
-      output += `  1003 - RETIRED_PAGES\n`;
-      output += `  155  - GPU_UTILIZATION\n`;
-      output += `  156  - MEM_UTILIZATION\n`;
-      output += `  254  - FB_USED\n`;
-      output += `  255  - FB_FREE\n`;
-      return this.createSuccess(output);
+      const fieldGroup = engine.fieldGroups.find((fg) => fg.id === Number(id));
+      if (!fieldGroup) {
+        return this.createError(
+          `Error: Unable to find field group ${id}. Return: Setting not configured.`,
+        );
+      }
+      const rows = fieldGroup.fieldIds.map((fieldId): [string, string] => [
+        String(fieldId),
+        DCGM_FIELDS[fieldId]?.tag ?? "Unknown",
+      ]);
+      return this.createSuccess(
+        formatDcgmTable(
+          ["FIELD GROUP INFO"],
+          [{ rows: fieldGroupRows(fieldGroup) }, { rows }],
+          GROUP_TABLE_WIDTH,
+        ),
+      );
     }
 
     if (this.hasAnyFlag(parsed, ["c", "create"])) {
-      const name = this.getFlagString(parsed, ["c", "create"], "new_group");
+      const name = this.getFlagString(parsed, ["c", "create"]);
+      const fields = this.getFlagString(parsed, ["f", "fields"]);
+      if (!name || !fields) {
+        return this.createError(
+          "Error: A field group needs a name and its field IDs.\nUsage: dcgmi fieldgroup -c <name> -f <fieldIds>",
+        );
+      }
+      const { ids, error } = this.parseFieldIds(fields);
+      if (error) {
+        return this.createError(error);
+      }
+      const fieldGroup = {
+        id: nextId(engine.fieldGroups),
+        name,
+        fieldIds: ids,
+        system: false,
+      };
+      this.resolveMutator(context).updateDcgmHostEngine(node.id, {
+        action: "fieldgroup-create",
+        fieldGroup,
+      });
       return this.createSuccess(
-        `Successfully created field group "${name}" with ID 4.`,
+        `Successfully created field group "${name}" with a field group ID of ${fieldGroup.id}`,
       );
     }
 
     if (this.hasAnyFlag(parsed, ["d", "delete"])) {
       const id = this.getFlagString(parsed, ["d", "delete"]);
-      if (!id || id === "0" || id === "1" || id === "2") {
+      const fieldGroup = engine.fieldGroups.find((fg) => fg.id === Number(id));
+      if (!id || fieldGroup?.system) {
         return this.createError("Cannot delete system field groups.");
       }
-      return this.createSuccess(`Successfully deleted field group ID ${id}.`);
+      if (!fieldGroup) {
+        return this.createError(
+          `Error: Unable to find field group ${id}. Return: Setting not configured.`,
+        );
+      }
+      this.resolveMutator(context).updateDcgmHostEngine(node.id, {
+        action: "fieldgroup-delete",
+        fieldGroupId: fieldGroup.id,
+      });
+      return this.createSuccess(`Successfully removed field group ${id}`);
     }
 
     return this.createError(
@@ -991,95 +1810,80 @@ export class DcgmiSimulator extends BaseSimulator {
   }
 
   /**
-   * Handle dmon command - device monitoring
+   * Handle dmon command - device monitoring. Reads the fields from the GPUs
+   * as they are now, once per sample.
    */
   private handleDmon(
     parsed: ParsedCommand,
     context: CommandContext,
   ): CommandResult {
-    const node = this.getNode(context);
-    if (!node) {
+    const resolved = this.getHostEngineFor(context);
+    if (!resolved) {
       return this.createError("Unable to determine current node");
     }
+    const { node, engine } = resolved;
 
-    const gpuId = this.getFlagString(parsed, ["i", "gpu-id"]);
     const delay = this.getFlagNumber(parsed, ["d", "delay"], 1000);
-    const count = this.getFlagNumber(parsed, ["c", "count"], 5);
-    const fields = this.getFlagString(
-      parsed,
-      ["e", "fields"],
-      "155,156,203,204",
-    );
+    const count = Math.max(1, this.getFlagNumber(parsed, ["c", "count"], 1));
 
-    const gpus = gpuId
-      ? [node.gpus[parseInt(gpuId)]].filter(Boolean)
-      : node.gpus;
-    if (gpus.length === 0) {
-      return this.createError(`GPU ${gpuId} not found`);
+    let fieldIds = DEFAULT_DMON_FIELDS;
+    const fieldGroupFlag = this.getFlagString(parsed, ["f", "field-group-id"]);
+    if (fieldGroupFlag) {
+      const fieldGroup = engine.fieldGroups.find(
+        (fg) => fg.id === Number(fieldGroupFlag),
+      );
+      if (!fieldGroup) {
+        return this.createError(
+          `Error: Unable to find field group ${fieldGroupFlag}. Return: Setting not configured.`,
+        );
+      }
+      fieldIds = fieldGroup.fieldIds;
+    }
+    const fieldsFlag = this.getFlagString(parsed, ["e", "field-id", "fields"]);
+    if (fieldsFlag) {
+      const { ids, error } = this.parseFieldIds(fieldsFlag);
+      if (error) {
+        return this.createError(error);
+      }
+      fieldIds = ids;
     }
 
-    let output = `\x1b[1mDCGM Device Monitor\x1b[0m\n`;
-    output += `Monitoring ${gpus.length} GPU(s) | Delay: ${delay}ms | Samples: ${count}\n`;
-    output += `Fields: ${fields}\n`;
-    output += `${"─".repeat(80)}\n\n`;
-
-    // Header based on fields
-    const fieldMap: Record<string, string> = {
-      "155": "GPU%",
-      "156": "MEM%",
-      "203": "Temp",
-      "204": "Power",
-      "252": "SMClk",
-      "253": "MemClk",
-      "310": "PCIeTx",
-      "311": "PCIeRx",
-    };
-
-    const requestedFields = fields.split(",").map((f) => f.trim());
-    const headers = [
-      "#",
-      "GPU",
-      ...requestedFields.map((f) => fieldMap[f] || `F${f}`),
-    ];
+    let gpus = node.gpus;
+    const gpuFlag = this.getFlagString(parsed, ["i", "gpu-id"]);
+    const groupFlag = this.getFlagString(parsed, ["g", "group-id", "group"]);
+    if (gpuFlag) {
+      const gpuIds = this.parseGpuList(gpuFlag, node);
+      if (!gpuIds) {
+        return this.createError(`GPU ${gpuFlag} not found`);
+      }
+      gpus = node.gpus.filter((g) => gpuIds.includes(g.id));
+    } else if (groupFlag) {
+      const group = findGroup(engine, Number(groupFlag));
+      if (!group) {
+        return this.groupNotFound(groupFlag);
+      }
+      gpus = node.gpus.filter((g) => group.gpuIds.includes(g.id));
+    }
 
-    output += headers.map((h) => h.padEnd(8)).join(" ") + "\n";
-    output += `${"─".repeat(80)}\n`;
+    const fields = fieldIds.map((id) => DCGM_FIELDS[id]);
+    const column = (text: string) => text.padEnd(DMON_COLUMN_WIDTH);
 
-    // Generate sample data
+    let output = `\x1b[1mDCGM Device Monitor\x1b[0m (delay ${delay} ms)\n`;
+    output +=
+      column("#Entity") +
+      fields
+        .map((f) => column(f.header))
+        .join("")
+        .trimEnd() +
+      "\n";
+    output += "ID\n";
     for (let sample = 0; sample < count; sample++) {
-      gpus.forEach((gpu: GPU) => {
-        const values = requestedFields.map((field: string) => {
-          switch (field) {
-            case "155":
-              return `${Math.floor(Math.random() * 60 + 20)}%`;
-            case "156":
-              return `${Math.floor(Math.random() * 40 + 10)}%`;
-            case "203":
-              return `${Math.round(gpu.temperature + (Math.random() - 0.5) * 5)}C`;
-            case "204":
-              return `${Math.round(gpu.powerDraw + (Math.random() - 0.5) * 20)}W`;
-            case "252":
-              return `${1400 + Math.floor(Math.random() * 200)}`;
-            case "253":
-              return `${1500 + Math.floor(Math.random() * 100)}`;
-            case "310":
-              return `${Math.floor(Math.random() * 5000)}MB`;
-            case "311":
-              return `${Math.floor(Math.random() * 5000)}MB`;
-            default:
-              return "N/A";
-          }
-        });
-        output +=
-          [sample.toString(), gpu.id.toString(), ...values]
-            .map((v: string) => String(v).padEnd(8))
-            .join(" ") + "\n";
-      });
+      for (const gpu of gpus) {
+        const values = fields.map((f) => column(formatFieldValue(f, gpu)));
+        output += column(`GPU ${gpu.id}`) + values.join("").trimEnd() + "\n";
+      }
     }
 
-    output += `\n\x1b[90m${count} samples collected.\x1b[0m\n`;
-    output += `\nTip: Use 'dcgmi dmon -e 155,156,203,204 -d 500' for custom monitoring.\n`;
-
-    return this.createSuccess(output);
+    return this.createSuccess(output.trimEnd());
   }
 }
@@ -7,32 +7,48 @@ import {
 import type {
   GPU,
   DGXNode,
+  FabricManagerState,
+  FabricMode,
   NVLinkConnection,
   XIDError,
 } from "@/types/hardware";
 import { getHardwareSpecs } from "@/data/hardwareSpecs";
-
-/**
- * Generate a deterministic 8-character hex string from a seed.
- * Uses a simple hash to produce consistent results per switch index.
- */
-function hexGroup(seed: number): string {
-  // Simple deterministic hash: multiply by large prime, take lower 32 bits
-  const h = (seed * 2654435761) >>> 0;
-  return h.toString(16).padStart(8, "0");
+import {
+  FABRIC_MANAGER_UNIT,
+  getNVSwitchFabric,
+  gpuSwitchPorts,
+  isGpuRegistered,
+  planFabricManagerRestart,
+  planFabricManagerStart,
+  planFabricManagerStop,
+  planFabricModeChange,
+  planPartitionChange,
+  type FabricManagerAction,
+} from "@/utils/nvswitchFabric";
+import {
+  domainGpuCount,
+  getNVLinkDomain,
+  superchipOf,
+  type NVLinkDomain,
+} from "@/utils/nvlinkRack";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+
+const FABRIC_MANAGER_STATE_LABELS: Record<FabricManagerState, string> = {
+  Running: "\x1b[32mRunning\x1b[0m",
+  Stopped: "\x1b[33mStopped\x1b[0m",
+  Failed: "\x1b[31mFailed\x1b[0m",
+};
+
+function formatUptime(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  return `${Math.floor(minutes / 1440)}d ${Math.floor(minutes / 60) % 24}h ${minutes % 60}m`;
 }
 
-/**
- * Generate a realistic NVSwitch UUID in the format:
- *   NVSwitch-xxxxxxxx-xxxxxxxx-xxxxxxxx-xxxxxxxx
- * where each group is 8 hex digits. Deterministic per switch index.
- */
-function generateNvSwitchUUID(switchIndex: number): string {
-  const g1 = hexGroup(switchIndex * 4 + 1);
-  const g2 = hexGroup(switchIndex * 4 + 2);
-  const g3 = hexGroup(switchIndex * 4 + 3);
-  const g4 = hexGroup(switchIndex * 4 + 4);
-  return `NVSwitch-${g1}-${g2}-${g3}-${g4}`;
+function formatFabricMode(mode: FabricMode): string {
+  return mode === "shared"
+    ? "Shared NVSwitch (FABRIC_MODE=1)"
+    : "Bare Metal (FABRIC_MODE=0)";
 }
 
 /**
@@ -84,6 +100,8 @@ export class FabricManagerSimulator extends BaseSimulator {
         return this.executeRestart(parsed, context);
       case "config":
         return this.executeConfig(parsed, context);
+      case "partition":
+        return this.executePartition(parsed, context);
       case "diag":
         return this.executeDiag(parsed, context);
       case "topo":
@@ -114,6 +132,11 @@ export class FabricManagerSimulator extends BaseSimulator {
     output += `  stop                 Stop fabric manager service\n`;
     output += `  restart              Restart fabric manager service\n`;
     output += `  config               Show/modify configuration\n`;
+    output += `    set FABRIC_MODE=<n>  0 = bare metal, 1 = shared NVSwitch\n`;
+    output += `  partition [action]   Manage shared NVSwitch partitions\n`;
+    output += `    list                List partitions\n`;
+    output += `    activate <id>       Activate a partition\n`;
+    output += `    deactivate <id>     Deactivate a partition\n`;
     output += `  diag [mode]          Run fabric diagnostics\n`;
     output += `    quick               Quick health check\n`;
     output += `    full                Complete diagnostic suite\n`;
@@ -127,6 +150,7 @@ export class FabricManagerSimulator extends BaseSimulator {
     output += `  nv-fabricmanager diag\n`;
     output += `  nv-fabricmanager diag full\n`;
     output += `  nv-fabricmanager diag errors\n`;
+    output += `  nv-fabricmanager partition activate 1\n`;
     return this.createSuccess(output);
   }
 
@@ -143,6 +167,16 @@ export class FabricManagerSimulator extends BaseSimulator {
     return this.resolveNode(context);
   }
 
+  /**
+   * The rack-scale NVLink domain the node's GPUs belong to, if any
+   */
+  private getDomain(
+    context: CommandContext,
+    node: DGXNode,
+  ): NVLinkDomain | undefined {
+    return getNVLinkDomain(this.resolveCluster(context), node.id);
+  }
+
   private executeStatus(
     _parsed: ParsedCommand,
     context: CommandContext,
@@ -153,8 +187,12 @@ export class FabricManagerSimulator extends BaseSimulator {
     }
 
     const gpuCount = node.gpus.length;
-    const nvswitchCount = getHardwareSpecs(node.systemType || "DGX-A100").nvlink
-      .nvSwitchCount;
+    const fabric = getNVSwitchFabric(node);
+    const fm = fabric.fabricManager;
+    const running = fm.state === "Running";
+    const registered = node.gpus.filter((g) =>
+      isGpuRegistered(fabric, g.id),
+    ).length;
     const healthyNvlinks = node.gpus.reduce(
       (sum, g) => sum + g.nvlinks.filter((l) => l.status === "Active").length,
       0,
@@ -168,25 +206,47 @@ export class FabricManagerSimulator extends BaseSimulator {
     output += `${"─".repeat(50)}\n\n`;
 
     output += `\x1b[1mService Status:\x1b[0m\n`;
-    output += `  Fabric Manager:       \x1b[32mRunning\x1b[0m\n`;
-    output += `  PID:                  ${12345 + Math.floor(Math.random() * 1000)}\n`;
-    output += `  Uptime:               ${Math.floor(Math.random() * 30)}d ${Math.floor(Math.random() * 24)}h ${Math.floor(Math.random() * 60)}m\n`;
+    output += `  Fabric Manager:       ${FABRIC_MANAGER_STATE_LABELS[fm.state]}\n`;
+    if (running) {
+      output += `  PID:                  ${fm.pid}\n`;
+      output += `  Uptime:               ${formatUptime(simulationClock.now() - (fm.startedAt ?? simulationClock.now()))}\n`;
+    }
+    output += `  Version:              ${fm.version}\n`;
+    output += `  Fabric Mode:          ${formatFabricMode(fabric.mode)}\n`;
     output += `  Config File:          /etc/nvidia-fabricmanager/fabricmanager.cfg\n\n`;
 
     output += `\x1b[1mFabric Topology:\x1b[0m\n`;
     output += `  System Type:          ${node.systemType}\n`;
     output += `  GPUs:                 ${gpuCount}\n`;
-    output += `  NVSwitches:           ${nvswitchCount}\n`;
+    output += `  GPUs Registered:      ${registered}/${gpuCount}\n`;
+    output += `  NVSwitches:           ${fabric.nvswitches.length}\n`;
     output += `  NVLinks Total:        ${totalNvlinks}\n`;
     output += `  NVLinks Active:       ${healthyNvlinks}\n`;
-    output += `  Topology:             ${gpuCount === 8 ? "Fully Connected (NVSwitch)" : "Direct NVLink"}\n\n`;
+    const domain = this.getDomain(context, node);
+    if (domain) {
+      const tray = node.rackSlot?.tray ?? 0;
+      const specs = getHardwareSpecs(node.systemType);
+      output += `  Topology:             ${domain.rack.model} NVLink domain\n\n`;
+
+      output += `\x1b[1mNVLink Domain:\x1b[0m\n`;
+      output += `  Rack:                 ${domain.rack.id} (${domain.rack.model})\n`;
+      output += `  Compute Tray:         ${tray} of ${specs.rack?.computeTrays ?? domain.trays.length}\n`;
+      output += `  Compute Trays Found:  ${domain.trays.length}\n`;
+      output += `  Domain GPUs:          ${domainGpuCount(domain)}\n`;
+      output += `  Switch Trays:         ${domain.rack.switchTrays.length}\n`;
+      output += `  Clique ID:            ${domain.rack.cliqueId}\n`;
+      output += `  Cluster UUID:         ${domain.rack.clusterUuid}\n\n`;
+    } else {
+      output += `  Topology:             ${gpuCount === 8 ? "Fully Connected (NVSwitch)" : "Direct NVLink"}\n\n`;
+    }
 
     output += `\x1b[1mHealth Status:\x1b[0m\n`;
     const healthyGpus = node.gpus.every((g) => g.healthStatus === "OK");
-    const allHealthy = healthyNvlinks === totalNvlinks && healthyGpus;
+    const allHealthy =
+      running && healthyNvlinks === totalNvlinks && healthyGpus;
     output += `  Overall:              ${allHealthy ? "\x1b[32mHealthy\x1b[0m" : "\x1b[33mDegraded\x1b[0m"}\n`;
-    output += `  Last Health Check:    ${new Date().toISOString()}\n`;
-    output += `  Errors Detected:      ${allHealthy ? "0" : Math.floor(Math.random() * 5) + 1}\n`;
+    output += `  Last Health Check:    ${simulationClock.date().toISOString()}\n`;
+    output += `  Errors Detected:      ${allHealthy ? "0" : simulationRandom.int(5) + 1}\n`;
 
     return this.createSuccess(output);
   }
@@ -230,30 +290,41 @@ export class FabricManagerSimulator extends BaseSimulator {
       return this.createError("Error: Unable to determine current node");
     }
 
-    const nvswitchCount = getHardwareSpecs(node.systemType || "DGX-A100").nvlink
-      .nvSwitchCount;
+    const fabric = getNVSwitchFabric(node);
+    const running = fabric.fabricManager.state === "Running";
 
     let output = `\x1b[1mNVSwitch Status\x1b[0m\n`;
     output += `${"─".repeat(60)}\n\n`;
 
-    if (nvswitchCount === 0) {
+    if (fabric.nvswitches.length === 0) {
       output += `No NVSwitches detected in this system configuration.\n`;
       return this.createSuccess(output);
     }
 
-    output += `NVSwitch  | UUID                                  | State  | Temp | Power\n`;
+    output += `NVSwitch  | UUID                                  | State    | Links | Temp | Power\n`;
     output += `${"─".repeat(60)}\n`;
 
-    for (let i = 0; i < nvswitchCount; i++) {
-      const uuid = generateNvSwitchUUID(i);
-      const temp = 45 + Math.floor(Math.random() * 15);
-      const power = 60 + Math.floor(Math.random() * 61); // 60-120W range (realistic for NVSwitch3)
-      output += `   ${i}      | ${uuid.padEnd(37)} | Active | ${temp}C  | ${power}W\n`;
-    }
+    fabric.nvswitches.forEach((sw, i) => {
+      const active = sw.ports.filter((p) => p.state === "Active").length;
+      const links = `${active}/${sw.ports.length}`;
+      const temp = 45 + simulationRandom.int(15);
+      const power = 60 + simulationRandom.int(61); // 60-120W range (realistic for NVSwitch3)
+      output += `   ${i}      | ${sw.uuid.padEnd(37)} | ${(running ? "Active" : "Inactive").padEnd(8)} | ${links.padEnd(5)} | ${temp}C  | ${power}W\n`;
+    });
 
     output += `\n`;
-    output += `Total NVSwitches: ${nvswitchCount}\n`;
-    output += `All NVSwitches operational.\n`;
+    const domain = this.getDomain(context, node);
+    if (domain) {
+      output += `NVLink Switch Trays (${domain.rack.id}):\n`;
+      for (const tray of domain.rack.switchTrays) {
+        output += `  Tray ${tray.id}: NVSwitch ${tray.nvswitchIds.join(", ")} - firmware ${tray.firmwareVersion} - ${tray.healthStatus}\n`;
+      }
+      output += `\n`;
+    }
+    output += `Total NVSwitches: ${fabric.nvswitches.length}\n`;
+    output += running
+      ? `All NVSwitches operational.\n`
+      : `NVSwitches are not configured: Fabric Manager is ${fabric.fabricManager.state.toLowerCase()}.\n`;
 
     return this.createSuccess(output);
   }
@@ -277,22 +348,39 @@ export class FabricManagerSimulator extends BaseSimulator {
       const activeNvlinks = gpu.nvlinks.filter(
         (l) => l.status === "Active",
       ).length;
-      output += `  GPU ${gpu.id}: ${gpu.type} - ${activeNvlinks}/${nvlinkCount} NVLinks active\n`;
+      const grace = node.rackSlot
+        ? ` (Grace ${superchipOf(node, gpu.id)})`
+        : "";
+      output += `  GPU ${gpu.id}: ${gpu.type} - ${activeNvlinks}/${nvlinkCount} NVLinks active${grace}\n`;
     });
 
     output += `\n`;
 
-    // NVSwitch connectivity
-    const nvswitchCount = getHardwareSpecs(node.systemType || "DGX-A100").nvlink
-      .nvSwitchCount;
-    if (nvswitchCount > 0) {
-      output += `NVSwitch Connectivity:\n`;
-      for (let sw = 0; sw < nvswitchCount; sw++) {
-        const connectedGpus = node.gpus
-          .map((_, idx) => idx)
-          .filter((_) => Math.random() > 0.2);
-        output += `  NVSwitch ${sw}: Connected to GPUs [${connectedGpus.join(", ")}]\n`;
+    // Every compute tray of the rack shares the NVLink domain
+    const domain = this.getDomain(context, node);
+    if (domain) {
+      output += `NVLink Domain (${domain.rack.model}, ${domain.rack.id}):\n`;
+      for (const tray of domain.trays) {
+        const links = tray.gpus.flatMap((g) => g.nvlinks);
+        const active = links.filter((l) => l.status === "Active").length;
+        const marker = tray.id === node.id ? " *" : "";
+        output += `  Compute Tray ${String(tray.rackSlot?.tray ?? 0).padStart(2)}: ${tray.id} - ${tray.gpus.length} GPUs, ${active}/${links.length} NVLinks active${marker}\n`;
       }
+      output += `  Domain GPUs: ${domainGpuCount(domain)}\n\n`;
+    }
+
+    // NVSwitch connectivity: GPUs with at least one trained link
+    const fabric = getNVSwitchFabric(node);
+    if (fabric.nvswitches.length > 0) {
+      output += `NVSwitch Connectivity:\n`;
+      fabric.nvswitches.forEach((sw, i) => {
+        const connectedGpus = [
+          ...new Set(
+            sw.ports.filter((p) => p.state === "Active").map((p) => p.gpuId),
+          ),
+        ];
+        output += `  NVSwitch ${i}: Connected to GPUs [${connectedGpus.join(", ")}]\n`;
+      });
     }
 
     return this.createSuccess(output);
@@ -312,7 +400,9 @@ export class FabricManagerSimulator extends BaseSimulator {
 
     const specs = getHardwareSpecs(node.systemType || "DGX-A100");
     const nvlinkVersionLabel = `NVLink${specs.nvlink.version.split(".")[0]}`;
+    const fabric = getNVSwitchFabric(node);
     node.gpus.forEach((gpu) => {
+      const switchPorts = gpuSwitchPorts(fabric, gpu.id);
       gpu.nvlinks.forEach((link, linkIdx) => {
         const state =
           link.status === "Active"
@@ -322,7 +412,12 @@ export class FabricManagerSimulator extends BaseSimulator {
           link.status === "Active"
             ? `${specs.nvlink.perLinkBandwidthGBs}GB/s`
             : "N/A";
-        const remoteGpu = "NVSwitch";
+        const sw = switchPorts.find(
+          (p) => p.port.gpuLinkId === link.linkId,
+        )?.nvswitch;
+        const remoteGpu = sw
+          ? `NVSwitch ${fabric.nvswitches.indexOf(sw)}`
+          : "NVSwitch";
         output += `  ${gpu.id} |   ${linkIdx}  | ${state} | ${nvlinkVersionLabel.padEnd(9)} | ${String(remoteGpu).padEnd(10)} | ${bandwidth}\n`;
       });
     });
@@ -340,10 +435,42 @@ export class FabricManagerSimulator extends BaseSimulator {
     return this.createSuccess(output);
   }
 
+  /**
+   * Record a Fabric Manager change on the current node
+   */
+  private applyAction(
+    context: CommandContext,
+    node: DGXNode,
+    action: FabricManagerAction,
+  ): void {
+    if (action.update) {
+      this.resolveMutator(context).updateNVSwitchFabric(node.id, action.update);
+    }
+  }
+
+  private startFailure(error: string): CommandResult {
+    return this.createError(
+      `\x1b[31m${error}\x1b[0m\n` +
+        `NVIDIA Fabric Manager failed to start. See 'journalctl -u ${FABRIC_MANAGER_UNIT}' for details.`,
+    );
+  }
+
   private executeStart(
     _parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Error: Unable to determine current node");
+    }
+
+    const action = planFabricManagerStart(node, simulationClock.now());
+    if (!action.update) {
+      return this.createSuccess(`NVIDIA Fabric Manager is already running.\n`);
+    }
+    this.applyAction(context, node, action);
+    if (action.error) return this.startFailure(action.error);
+
     return this.createSuccess(
       `Starting NVIDIA Fabric Manager...\n` +
         `Initializing NVSwitch fabric...\n` +
@@ -355,8 +482,19 @@ export class FabricManagerSimulator extends BaseSimulator {
 
   private executeStop(
     _parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Error: Unable to determine current node");
+    }
+
+    const action = planFabricManagerStop(node, simulationClock.now());
+    if (!action.update) {
+      return this.createSuccess(`NVIDIA Fabric Manager is not running.\n`);
+    }
+    this.applyAction(context, node, action);
+
     return this.createSuccess(
       `Stopping NVIDIA Fabric Manager...\n` +
         `Shutting down NVLink connections...\n` +
@@ -366,8 +504,17 @@ export class FabricManagerSimulator extends BaseSimulator {
 
   private executeRestart(
     _parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Error: Unable to determine current node");
+    }
+
+    const action = planFabricManagerRestart(node, simulationClock.now());
+    this.applyAction(context, node, action);
+    if (action.error) return this.startFailure(action.error);
+
     return this.createSuccess(
       `Restarting NVIDIA Fabric Manager...\n` +
         `Stopping service...\n` +
@@ -380,9 +527,15 @@ export class FabricManagerSimulator extends BaseSimulator {
 
   private executeConfig(
     parsed: ParsedCommand,
-    _context: CommandContext,
+    context: CommandContext,
   ): CommandResult {
     const configOption = parsed.subcommands[1];
+    const node = this.getNode(context);
+    const mode = node ? getNVSwitchFabric(node).mode : "baremetal";
+
+    if (configOption === "set") {
+      return this.executeConfigSet(parsed, context);
+    }
 
     if (configOption === "show" || !configOption) {
       let output = `\x1b[1mFabric Manager Configuration\x1b[0m\n`;
@@ -395,7 +548,7 @@ export class FabricManagerSimulator extends BaseSimulator {
       output += `[Fabric]\n`;
       output += `  FM_STAY_RESIDENT=1\n`;
       output += `  FM_NSEC_POLL_INTERVAL=100000000\n`;
-      output += `  FABRIC_MODE=FULL_SPEED\n`;
+      output += `  FABRIC_MODE=${mode === "shared" ? 1 : 0}\n`;
       output += `  FM_CMD_BIND_INTERFACE=127.0.0.1\n`;
       output += `  FM_CMD_PORT_NUMBER=16001\n\n`;
       output += `[NVSwitch]\n`;
@@ -413,6 +566,99 @@ export class FabricManagerSimulator extends BaseSimulator {
     );
   }
 
+  /**
+   * Set FABRIC_MODE, given as FABRIC_MODE=1 or FABRIC_MODE 1
+   */
+  private executeConfigSet(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Error: Unable to determine current node");
+    }
+
+    const [key, value] = [
+      ...parsed.subcommands.slice(2),
+      ...parsed.positionalArgs,
+    ]
+      .join("=")
+      .split("=");
+    if (key !== "FABRIC_MODE") {
+      return this.createError(
+        `Unsupported config key: ${key ?? ""}\nSupported keys: FABRIC_MODE`,
+      );
+    }
+    if (value !== "0" && value !== "1") {
+      return this.createError(
+        `Invalid FABRIC_MODE: ${value ?? ""}\nValid values: 0 (bare metal), 1 (shared NVSwitch)`,
+      );
+    }
+
+    const mode: FabricMode = value === "1" ? "shared" : "baremetal";
+    const action = planFabricModeChange(node, mode);
+    if (action.error) return this.createError(action.error);
+    this.applyAction(context, node, action);
+    return this.createSuccess(
+      `FABRIC_MODE set to ${value}: ${formatFabricMode(mode)}\n` +
+        `Takes effect when ${FABRIC_MANAGER_UNIT} starts.\n`,
+    );
+  }
+
+  private executePartition(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError("Error: Unable to determine current node");
+    }
+
+    const action = parsed.subcommands[1] ?? "list";
+    if (action === "list") {
+      const fabric = getNVSwitchFabric(node);
+      let output = `\x1b[1mFabric Partitions\x1b[0m\n`;
+      output += `${"─".repeat(50)}\n\n`;
+      output += `Fabric Mode: ${formatFabricMode(fabric.mode)}\n\n`;
+      output += `Partition | GPUs | State    | GPU IDs\n`;
+      output += `${"─".repeat(50)}\n`;
+      for (const partition of fabric.partitions) {
+        const state = partition.active ? "Active" : "Inactive";
+        output += `   ${String(partition.id).padEnd(6)} |  ${String(partition.gpuIds.length).padEnd(3)} | ${state.padEnd(8)} | ${partition.gpuIds.join(", ")}\n`;
+      }
+      if (fabric.mode !== "shared") {
+        output += `\nPartitions apply in shared NVSwitch mode only (FABRIC_MODE=1).\n`;
+      }
+      return this.createSuccess(output);
+    }
+
+    if (action !== "activate" && action !== "deactivate") {
+      return this.createError(
+        `Unknown partition action: ${action}\nValid actions: list, activate, deactivate`,
+      );
+    }
+
+    const rawId = parsed.subcommands[2] ?? parsed.positionalArgs[0];
+    const partitionId = rawId === undefined ? NaN : Number(rawId);
+    if (!Number.isInteger(partitionId)) {
+      return this.createError(
+        `Usage: nv-fabricmanager partition ${action} <partition id>`,
+      );
+    }
+
+    const change = planPartitionChange(
+      node,
+      partitionId,
+      action === "activate",
+      simulationClock.now(),
+    );
+    if (change.error) return this.createError(change.error);
+    this.applyAction(context, node, change);
+    return this.createSuccess(
+      `Partition ${partitionId} ${action === "activate" ? "activated" : "deactivated"}.\n`,
+    );
+  }
+
   private executeDiag(
     parsed: ParsedCommand,
     context: CommandContext,
@@ -443,17 +689,18 @@ export class FabricManagerSimulator extends BaseSimulator {
     output += `Running fabric diagnostics...\n\n`;
 
     // Check fabric manager service
+    const fabric = getNVSwitchFabric(node);
+    const fm = fabric.fabricManager;
     output += `\x1b[1m[1/5] Checking Fabric Manager Service\x1b[0m\n`;
-    output += `  Service Status: \x1b[32mRunning\x1b[0m\n`;
-    output += `  Configuration: \x1b[32mValid\x1b[0m\n\n`;
+    output += `  Service Status: ${FABRIC_MANAGER_STATE_LABELS[fm.state]}\n`;
+    output += `  Configuration: ${fm.version === node.nvidiaDriverVersion ? "\x1b[32mValid\x1b[0m" : `\x1b[31mVersion ${fm.version} does not match driver ${node.nvidiaDriverVersion}\x1b[0m`}\n\n`;
 
     // Check NVSwitch
     output += `\x1b[1m[2/5] Checking NVSwitch Devices\x1b[0m\n`;
-    const nvswitchCount = getHardwareSpecs(node.systemType || "DGX-A100").nvlink
-      .nvSwitchCount;
+    const nvswitchCount = fabric.nvswitches.length;
     if (nvswitchCount > 0) {
       output += `  Detected: ${nvswitchCount} NVSwitches\n`;
-      output += `  Status: \x1b[32mAll Operational\x1b[0m\n\n`;
+      output += `  Status: ${fm.state === "Running" ? "\x1b[32mAll Operational\x1b[0m" : "\x1b[33mNot Configured\x1b[0m"}\n\n`;
     } else {
       output += `  No NVSwitch devices detected\n\n`;
     }
@@ -489,7 +736,7 @@ export class FabricManagerSimulator extends BaseSimulator {
     output += `${"─".repeat(60)}\n`;
     const allPassed = activeLinks === totalLinks && errorCount === 0;
     output += `\x1b[1mDiagnostic Summary:\x1b[0m ${allPassed ? "\x1b[32mPASSED\x1b[0m" : "\x1b[33mWARNINGS\x1b[0m"}\n`;
-    output += `Completed at: ${new Date().toISOString()}\n\n`;
+    output += `Completed at: ${simulationClock.date().toISOString()}\n\n`;
 
     output += `\x1b[90mAdditional diagnostic modes:\x1b[0m\n`;
     output += `  nv-fabricmanager diag quick   - Quick health check\n`;
@@ -522,12 +769,14 @@ export class FabricManagerSimulator extends BaseSimulator {
       0,
     );
 
-    output += `Fabric Manager:  \x1b[32m✓ Running\x1b[0m\n`;
+    const fmState = getNVSwitchFabric(node).fabricManager.state;
+    output += `Fabric Manager:  ${fmState === "Running" ? "\x1b[32m✓" : "\x1b[31m✗"} ${fmState}\x1b[0m\n`;
     output += `NVSwitches:      ${nvswitchCount > 0 ? `\x1b[32m✓ ${nvswitchCount} detected\x1b[0m` : "\x1b[90m- Not applicable\x1b[0m"}\n`;
     output += `NVLinks:         ${activeLinks === totalLinks ? "\x1b[32m✓" : "\x1b[33m⚠"} ${activeLinks}/${totalLinks} active\x1b[0m\n`;
     output += `Errors:          ${errorCount === 0 ? "\x1b[32m✓ None\x1b[0m" : `\x1b[33m⚠ ${errorCount} detected\x1b[0m`}\n\n`;
 
-    const healthy = activeLinks === totalLinks && errorCount === 0;
+    const healthy =
+      fmState === "Running" && activeLinks === totalLinks && errorCount === 0;
     output += `Overall Status: ${healthy ? "\x1b[32mHEALTHY\x1b[0m" : "\x1b[33mATTENTION NEEDED\x1b[0m"}\n`;
 
     return this.createSuccess(output);
@@ -542,7 +791,8 @@ export class FabricManagerSimulator extends BaseSimulator {
 
     // Phase 1: Service checks
     output += `\x1b[1mPhase 1: Service Verification\x1b[0m\n`;
-    output += `  Fabric Manager daemon:     \x1b[32mRunning (PID: ${12345 + Math.floor(Math.random() * 1000)})\x1b[0m\n`;
+    const fm = getNVSwitchFabric(node).fabricManager;
+    output += `  Fabric Manager daemon:     ${fm.state === "Running" ? `\x1b[32mRunning (PID: ${fm.pid})\x1b[0m` : FABRIC_MANAGER_STATE_LABELS[fm.state]}\n`;
     output += `  Configuration validation:  \x1b[32mPassed\x1b[0m\n`;
     output += `  License check:             \x1b[32mValid\x1b[0m\n\n`;
 
@@ -582,7 +832,7 @@ export class FabricManagerSimulator extends BaseSimulator {
       0,
     );
     const expectedBw = activeLinks * fullSpecs.nvlink.perLinkBandwidthGBs;
-    const measuredBw = expectedBw * (0.95 + Math.random() * 0.05);
+    const measuredBw = expectedBw * (0.95 + simulationRandom.next() * 0.05);
     output += `  Expected aggregate:        ${expectedBw} GB/s\n`;
     output += `  Measured aggregate:        ${measuredBw.toFixed(1)} GB/s\n`;
     output += `  Efficiency:                ${((measuredBw / expectedBw) * 100).toFixed(1)}%\n`;
@@ -594,15 +844,15 @@ export class FabricManagerSimulator extends BaseSimulator {
       .flatMap((g: GPU) => g.xidErrors)
       .filter((x: XIDError) => [72, 73, 74, 76, 77, 78].includes(x.code));
     output += `  NVLink-related XID errors: ${nvlinkXids.length}\n`;
-    output += `  CRC errors:                ${Math.floor(Math.random() * 3)}\n`;
-    output += `  Replay errors:             ${Math.floor(Math.random() * 5)}\n`;
-    output += `  Recovery events:           ${Math.floor(Math.random() * 2)}\n\n`;
+    output += `  CRC errors:                ${simulationRandom.int(3)}\n`;
+    output += `  Replay errors:             ${simulationRandom.int(5)}\n`;
+    output += `  Recovery events:           ${simulationRandom.int(2)}\n\n`;
 
     // Summary
     const allPassed = activeLinks === totalLinks && nvlinkXids.length === 0;
     output += `${"─".repeat(70)}\n`;
     output += `\x1b[1mDiagnostic Result:\x1b[0m ${allPassed ? "\x1b[32mALL TESTS PASSED\x1b[0m" : "\x1b[33mISSUES DETECTED\x1b[0m"}\n`;
-    output += `Duration: ${(2 + Math.random() * 3).toFixed(1)}s\n`;
+    output += `Duration: ${(2 + simulationRandom.next() * 3).toFixed(1)}s\n`;
 
     return this.createSuccess(output);
   }
@@ -636,7 +886,7 @@ export class FabricManagerSimulator extends BaseSimulator {
     output += `  Peak bandwidth:            ${peakBw.toFixed(1)} GB/s\n`;
     output += `  Average bandwidth:         ${avgBw.toFixed(1)} GB/s\n`;
     output += `  Minimum bandwidth:         ${(avgBw * 0.93).toFixed(1)} GB/s\n`;
-    output += `  Packets transmitted:       ${(Math.random() * 1000000000).toFixed(0)}\n`;
+    output += `  Packets transmitted:       ${(simulationRandom.next() * 1000000000).toFixed(0)}\n`;
     output += `  Errors during test:        0\n`;
     output += `  Link retrains:             0\n\n`;
 
@@ -681,10 +931,10 @@ export class FabricManagerSimulator extends BaseSimulator {
     output += `  NVLink Port | CRC Errors | Replay | Recovery | Flit Errors\n`;
     output += `  ${"─".repeat(60)}\n`;
     for (let i = 0; i < Math.min(node.gpus.length * 2, 12); i++) {
-      const crc = Math.floor(Math.random() * 5);
-      const replay = Math.floor(Math.random() * 10);
-      const recovery = Math.floor(Math.random() * 2);
-      const flit = Math.floor(Math.random() * 3);
+      const crc = simulationRandom.int(5);
+      const replay = simulationRandom.int(10);
+      const recovery = simulationRandom.int(2);
+      const flit = simulationRandom.int(3);
       output += `      ${i.toString().padStart(2)}      |     ${crc}      |   ${replay.toString().padStart(2)}   |    ${recovery}     |      ${flit}\n`;
     }
     output += `\n`;
@@ -730,15 +980,15 @@ export class FabricManagerSimulator extends BaseSimulator {
             : `GPU ${(gpu.id + linkIdx + 1) % node.gpus.length}`;
         const txRate =
           link.status === "Active"
-            ? `${(link.speed * 0.8 + Math.random() * link.speed * 0.2).toFixed(1)}GB/s`
+            ? `${(link.speed * 0.8 + simulationRandom.next() * link.speed * 0.2).toFixed(1)}GB/s`
             : "N/A     ";
         const rxRate =
           link.status === "Active"
-            ? `${(link.speed * 0.8 + Math.random() * link.speed * 0.2).toFixed(1)}GB/s`
+            ? `${(link.speed * 0.8 + simulationRandom.next() * link.speed * 0.2).toFixed(1)}GB/s`
             : "N/A     ";
         const util =
           link.status === "Active"
-            ? `${Math.floor(Math.random() * 60 + 20)}%`
+            ? `${Math.floor(simulationRandom.next() * 60 + 20)}%`
             : "N/A";
         output += `   ${gpu.id}  |  ${linkIdx}   | ${state} | ${remote.padEnd(9)} | ${txRate.padEnd(8)} | ${rxRate.padEnd(8)} | ${util}\n`;
       });
@@ -753,10 +1003,10 @@ export class FabricManagerSimulator extends BaseSimulator {
       for (let sw = 0; sw < nvswitchCount; sw++) {
         for (let port = 0; port < node.gpus.length; port++) {
           const state =
-            Math.random() > 0.1
+            simulationRandom.next() > 0.1
               ? "\x1b[32mUp\x1b[0m    "
               : "\x1b[31mDown\x1b[0m  ";
-          const errors = Math.floor(Math.random() * 5);
+          const errors = simulationRandom.int(5);
           output += `    ${sw}    |  ${port}   | ${state} | GPU ${port}        |   ${errors}\n`;
         }
       }
@@ -793,6 +1043,11 @@ export class FabricManagerSimulator extends BaseSimulator {
     let output = `\x1b[1mNVSwitch Fabric Topology Map\x1b[0m\n`;
     output += `${"─".repeat(60)}\n\n`;
 
+    const domain = this.getDomain(context, node);
+    if (domain) {
+      return this.createSuccess(output + this.formatDomainTopo(node, domain));
+    }
+
     if (nvswitchCount === 0) {
       output += `  No NVSwitch fabric detected.\n`;
       output += `  System uses direct GPU-to-GPU NVLink connections.\n`;
@@ -840,4 +1095,53 @@ export class FabricManagerSimulator extends BaseSimulator {
 
     return this.createSuccess(output);
   }
+
+  /**
+   * Topology map of a rack-scale NVLink domain: the switch trays, then every
+   * compute tray with its Grace-Blackwell superchips
+   */
+  private formatDomainTopo(node: DGXNode, domain: NVLinkDomain): string {
+    const specs = getHardwareSpecs(node.systemType);
+    const { rack } = domain;
+    const switchCount = rack.switchTrays.reduce(
+      (n, t) => n + t.nvswitchIds.length,
+      0,
+    );
+
+    let output = `  NVLink Domain ${rack.id} (${rack.model})\n\n`;
+    output += `  Switch Trays:  ${rack.switchTrays.map((t) => `[ST${t.id}]`).join(" ")}\n`;
+    output += `                   ║  NVLink spine: every compute tray to every switch tray\n`;
+    output += `  Compute Trays:\n`;
+    for (const tray of domain.trays) {
+      const superchips = new Map<number, number[]>();
+      for (const gpu of tray.gpus) {
+        const grace = superchipOf(tray, gpu.id);
+        superchips.set(grace, [...(superchips.get(grace) ?? []), gpu.id]);
+      }
+      const chips = [...superchips.entries()]
+        .map(
+          ([grace, gpus]) =>
+            `[C${grace}: ${gpus.map((g) => `G${g}`).join(" ")}]`,
+        )
+        .join(" ");
+      const down = tray.gpus.some((g) =>
+        g.nvlinks.some((l) => l.status !== "Active"),
+      );
+      const marker = tray.id === node.id ? "  <- this tray" : "";
+      output += `    Tray ${String(tray.rackSlot?.tray ?? 0).padStart(2)}  ${tray.id}  ${chips}${down ? "  (links down)" : ""}${marker}\n`;
+    }
+    output += `\n`;
+
+    output += `  Legend:\n`;
+    output += `    [ST#] = NVLink switch tray # (${rack.switchTrays[0]?.nvswitchIds.length ?? 0} NVSwitches)\n`;
+    output += `    [C#]  = Grace CPU # with its NVLink-C2C attached GPUs\n`;
+    output += `    G#    = GPU # of the compute tray\n\n`;
+
+    const domainGpus = domainGpuCount(domain);
+    output += `  Connectivity:\n`;
+    output += `    - Each GPU connected to all ${switchCount} NVSwitches in ${rack.switchTrays.length} switch trays\n`;
+    output += `    - Full mesh across ${domainGpus} GPUs in ${domain.trays.length} compute trays\n`;
+    output += `    - Aggregate bandwidth: ${specs.nvlink.totalBandwidthGBs * domainGpus}GB/s\n`;
+    return output;
+  }
 }
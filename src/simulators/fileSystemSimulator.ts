@@ -0,0 +1,872 @@
+/**
+ * File System Simulator
+ *
+ * Simulates coreutils commands that modify the node filesystem:
+ * - touch, mkdir, rmdir, rm - Create and remove files and directories
+ * - cp, mv, ln - Copy, move and link
+ * - chmod, chown - Change permissions and ownership
+ * - stat - Display file status
+ *
+ * All commands operate on the current node's VirtualFileSystem, so changes
+ * persist across commands and are visible to cat, ls, grep and friends.
+ */
+
+import { BaseSimulator } from "./BaseSimulator";
+import type { CommandContext, CommandResult } from "@/types/commands";
+import type { ParsedCommand } from "@/utils/commandParser";
+import {
+  baseName,
+  formatMode,
+  resolvePath,
+  type VfsStat,
+  type VirtualFileSystem,
+} from "@/simulation/virtualFileSystem";
+
+const NOT_FOUND = "No such file or directory";
+const IS_DIRECTORY = "Is a directory";
+const INVALID_ARGUMENT = "Invalid argument";
+
+interface SplitArgs {
+  /** Single-letter options and long option names, without dashes */
+  options: Set<string>;
+  operands: string[];
+}
+
+/**
+ * Split raw arguments into options and operands. Combined short options
+ * (`-rf`) are expanded; everything after `--` is an operand.
+ */
+function splitArgs(args: string[]): SplitArgs {
+  const options = new Set<string>();
+  const operands: string[] = [];
+  let endOfOptions = false;
+  for (const arg of args) {
+    if (endOfOptions || arg === "-" || !arg.startsWith("-")) {
+      operands.push(arg);
+    } else if (arg === "--") {
+      endOfOptions = true;
+    } else if (arg.startsWith("--")) {
+      options.add(arg.slice(2));
+    } else {
+      for (const letter of arg.slice(1)) options.add(letter);
+    }
+  }
+  return { options, operands };
+}
+
+/** Parse `/etc/passwd` or `/etc/group` into a name -> id map */
+function parseIdFile(content: string | undefined): Map<string, number> {
+  const ids = new Map<string, number>();
+  for (const line of (content ?? "").split("\n")) {
+    const [name, , id] = line.split(":");
+    if (name && id !== undefined) ids.set(name, parseInt(id, 10));
+  }
+  return ids;
+}
+
+const PERMISSION_BITS: Record<string, number> = { r: 4, w: 2, x: 1 };
+const WHO_SHIFT: Record<string, number> = { u: 6, g: 3, o: 0 };
+
+/**
+ * Apply a chmod mode string (octal, or comma-separated symbolic clauses such
+ * as `u+x,go-w`) to an existing mode. Returns null for an invalid mode.
+ */
+export function applyModeString(
+  spec: string,
+  current: number,
+  isDirectory: boolean,
+): number | null {
+  if (/^[0-7]{1,4}$/.test(spec)) return parseInt(spec, 8);
+
+  let mode = current;
+  for (const clause of spec.split(",")) {
+    const match = clause.match(/^([ugoa]*)([+\-=])([rwxXst]*)$/);
+    if (!match) return null;
+    const [, whoSpec, op, perms] = match;
+    const who = !whoSpec || whoSpec.includes("a") ? "ugo" : whoSpec;
+
+    let bits = 0;
+    for (const w of who) {
+      for (const p of perms) {
+        if (p in PERMISSION_BITS) {
+          bits |= PERMISSION_BITS[p] << WHO_SHIFT[w];
+        } else if (p === "X" && (isDirectory || (current & 0o111) !== 0)) {
+          bits |= 1 << WHO_SHIFT[w];
+        } else if (p === "s" && w === "u") {
+          bits |= 0o4000;
+        } else if (p === "s" && w === "g") {
+          bits |= 0o2000;
+        } else if (p === "t") {
+          bits |= 0o1000;
+        }
+      }
+    }
+
+    if (op === "+") {
+      mode |= bits;
+    } else if (op === "-") {
+      mode &= ~bits;
+    } else {
+      let cleared = 0;
+      for (const w of who) cleared |= 0o7 << WHO_SHIFT[w];
+      mode = (mode & ~cleared) | bits;
+    }
+  }
+  return mode;
+}
+
+/** GNU stat timestamp, e.g. `2026-01-10 12:00:00.000000000 +0000` */
+function formatStatTime(mtime: number): string {
+  const iso = new Date(mtime).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)}.000000000 +0000`;
+}
+
+function describeType(stat: VfsStat): string {
+  switch (stat.type) {
+    case "directory":
+      return "directory";
+    case "symlink":
+      return "symbolic link";
+    case "device":
+      return "character special file";
+    default:
+      return stat.size === 0 ? "regular empty file" : "regular file";
+  }
+}
+
+/** Stable fake inode number derived from the path */
+function inodeOf(path: string): number {
+  let hash = 0;
+  for (const char of path) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return 1000000 + (hash % 9000000);
+}
+
+export class FileSystemSimulator extends BaseSimulator {
+  constructor() {
+    super();
+    this.initializeDefinitionRegistry();
+
+    this.registerCommand("touch", this.handleTouch.bind(this), {
+      name: "touch",
+      description: "Create empty files or update their timestamps",
+      usage: "touch FILE...",
+      examples: ["touch /tmp/marker", "touch notes.txt"],
+    });
+
+    this.registerCommand("mkdir", this.handleMkdir.bind(this), {
+      name: "mkdir",
+      description: "Create directories",
+      usage: "mkdir [-p] DIRECTORY...",
+      flags: [
+        {
+          short: "p",
+          long: "parents",
+          description: "Create parent directories as needed",
+        },
+      ],
+      examples: ["mkdir /tmp/logs", "mkdir -p /data/backups/nightly"],
+    });
+
+    this.registerCommand("rmdir", this.handleRmdir.bind(this), {
+      name: "rmdir",
+      description: "Remove empty directories",
+      usage: "rmdir DIRECTORY...",
+      examples: ["rmdir /tmp/logs"],
+    });
+
+    this.registerCommand("rm", this.handleRm.bind(this), {
+      name: "rm",
+      description: "Remove files or directories",
+      usage: "rm [-rf] FILE...",
+      flags: [
+        {
+          short: "r",
+          long: "recursive",
+          description: "Remove directories and their contents",
+        },
+        {
+          short: "f",
+          long: "force",
+          description: "Ignore nonexistent files, never prompt",
+        },
+      ],
+      examples: ["rm /tmp/marker", "rm -rf /tmp/logs"],
+    });
+
+    this.registerCommand("cp", this.handleCp.bind(this), {
+      name: "cp",
+      description: "Copy files and directories",
+      usage: "cp [-r] SOURCE... DEST",
+      flags: [
+        {
+          short: "r",
+          long: "recursive",
+          description: "Copy directories recursively",
+        },
+        { short: "a", long: "archive", description: "Same as -r" },
+      ],
+      examples: [
+        "cp /etc/nccl.conf /tmp/nccl.conf.bak",
+        "cp -r /etc/slurm /root/slurm-backup",
+      ],
+    });
+
+    this.registerCommand("mv", this.handleMv.bind(this), {
+      name: "mv",
+      description: "Move or rename files",
+      usage: "mv SOURCE... DEST",
+      examples: ["mv /tmp/a.txt /tmp/b.txt", "mv notes.txt /root/scripts/"],
+    });
+
+    this.registerCommand("ln", this.handleLn.bind(this), {
+      name: "ln",
+      description: "Make links between files",
+      usage: "ln [-sf] TARGET [LINK_NAME]",
+      flags: [
+        {
+          short: "s",
+          long: "symbolic",
+          description: "Make symbolic links instead of hard links",
+        },
+        {
+          short: "f",
+          long: "force",
+          description: "Remove existing destination files",
+        },
+      ],
+      examples: ["ln -s /usr/local/cuda/bin/nvcc /usr/bin/nvcc"],
+    });
+
+    this.registerCommand("chmod", this.handleChmod.bind(this), {
+      name: "chmod",
+      description: "Change file mode bits",
+      usage: "chmod [-R] MODE FILE...",
+      flags: [
+        {
+          short: "R",
+          long: "recursive",
+          description: "Change files and directories recursively",
+        },
+      ],
+      examples: ["chmod 755 /root/scripts/setup.sh", "chmod +x run.sh"],
+    });
+
+    this.registerCommand("chown", this.handleChown.bind(this), {
+      name: "chown",
+      description: "Change file owner and group",
+      usage: "chown [-R] OWNER[:GROUP] FILE...",
+      flags: [
+        {
+          short: "R",
+          long: "recursive",
+          description: "Operate on files and directories recursively",
+        },
+      ],
+      examples: ["chown slurm:slurm /var/log/slurm", "chown -R admin /data"],
+    });
+
+    this.registerCommand("stat", this.handleStat.bind(this), {
+      name: "stat",
+      description: "Display file status",
+      usage: "stat [-L] [-c FORMAT] FILE...",
+      flags: [
+        { short: "L", long: "dereference", description: "Follow links" },
+        {
+          short: "c",
+          long: "format",
+          description: "Use the specified FORMAT (%a %A %F %G %n %s %U %y)",
+        },
+      ],
+      examples: ["stat /etc/hosts", "stat -c '%a %U:%G' /var/log/syslog"],
+    });
+  }
+
+  getMetadata() {
+    return {
+      name: "file-system",
+      version: "1.0.0",
+      description: "File creation, removal and permission utilities",
+      commands: Array.from(this.commandMetadata.values()),
+    };
+  }
+
+  execute(parsed: ParsedCommand, context: CommandContext): CommandResult {
+    if (parsed.rawArgs.includes("--version")) {
+      return this.handleVersion();
+    }
+    if (parsed.rawArgs.includes("--help")) {
+      return this.handleHelp(parsed.baseCommand);
+    }
+
+    const handler = this.getCommand(parsed.baseCommand);
+    if (!handler) {
+      return this.createError(
+        `Unknown file system command: ${parsed.baseCommand}`,
+      );
+    }
+
+    // Execute handler (handlers in this simulator are synchronous)
+    return this.safeExecuteHandler(handler, parsed, context) as CommandResult;
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers shared with the terminal (redirection, cd)
+  // --------------------------------------------------------------------------
+
+  /** Read a file relative to the context's working directory */
+  readFile(
+    rawPath: string,
+    context: CommandContext,
+  ): { content?: string; error?: string } {
+    return this.fs(context).readFile(
+      this.getNodeId(context),
+      this.resolvePath(rawPath, context),
+    );
+  }
+
+  /** Write or append a file; returns an error message on failure */
+  writeFile(
+    rawPath: string,
+    content: string,
+    append: boolean,
+    context: CommandContext,
+  ): string | null {
+    return this.fs(context).writeFile(
+      this.getNodeId(context),
+      this.resolvePath(rawPath, context),
+      content,
+      append,
+    );
+  }
+
+  /** Type of the entry at a path after following symlinks, if any */
+  getPathType(
+    rawPath: string,
+    context: CommandContext,
+  ): "file" | "directory" | null {
+    const stat = this.fs(context).stat(
+      this.getNodeId(context),
+      this.resolvePath(rawPath, context),
+    );
+    if (!stat) return null;
+    return stat.type === "directory" ? "directory" : "file";
+  }
+
+  // --------------------------------------------------------------------------
+  // Command handlers
+  // --------------------------------------------------------------------------
+
+  private handleTouch(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { operands } = splitArgs(parsed.rawArgs);
+    if (operands.length === 0) return this.missingOperand("touch");
+
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const error = this.fs(context).touch(
+        this.getNodeId(context),
+        this.resolvePath(operand, context),
+      );
+      if (error) errors.push(`touch: cannot touch '${operand}': ${error}`);
+    }
+    return this.finish(errors);
+  }
+
+  private handleMkdir(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { options, operands } = splitArgs(parsed.rawArgs);
+    if (operands.length === 0) return this.missingOperand("mkdir");
+    const parents = options.has("p") || options.has("parents");
+
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const error = this.fs(context).mkdir(
+        this.getNodeId(context),
+        this.resolvePath(operand, context),
+        parents,
+      );
+      if (error) {
+        errors.push(`mkdir: cannot create directory '${operand}': ${error}`);
+      }
+    }
+    return this.finish(errors);
+  }
+
+  private handleRmdir(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { operands } = splitArgs(parsed.rawArgs);
+    if (operands.length === 0) return this.missingOperand("rmdir");
+
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const error = this.fs(context).rmdir(
+        this.getNodeId(context),
+        this.resolvePath(operand, context),
+      );
+      if (error) errors.push(`rmdir: failed to remove '${operand}': ${error}`);
+    }
+    return this.finish(errors);
+  }
+
+  private handleRm(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { options, operands } = splitArgs(parsed.rawArgs);
+    const recursive =
+      options.has("r") || options.has("R") || options.has("recursive");
+    const force = options.has("f") || options.has("force");
+    if (operands.length === 0) {
+      return force ? this.createSuccess("") : this.missingOperand("rm");
+    }
+
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const path = this.resolvePath(operand, context);
+      if (path === "/" && recursive) {
+        errors.push(
+          "rm: it is dangerous to operate recursively on '/'",
+          "rm: use --no-preserve-root to override this failsafe",
+        );
+        continue;
+      }
+      const error = this.fs(context).remove(
+        this.getNodeId(context),
+        path,
+        recursive,
+      );
+      if (error && !(force && error === NOT_FOUND)) {
+        errors.push(`rm: cannot remove '${operand}': ${error}`);
+      }
+    }
+    return this.finish(errors);
+  }
+
+  private handleCp(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { options, operands } = splitArgs(parsed.rawArgs);
+    const recursive = ["r", "R", "a", "recursive", "archive"].some((o) =>
+      options.has(o),
+    );
+    return this.transfer("cp", operands, context, (source, dest) =>
+      this.fs(context).copy(this.getNodeId(context), source, dest, recursive),
+    );
+  }
+
+  private handleMv(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { operands } = splitArgs(parsed.rawArgs);
+    return this.transfer("mv", operands, context, (source, dest) =>
+      this.fs(context).move(this.getNodeId(context), source, dest),
+    );
+  }
+
+  /**
+   * Shared operand handling for cp and mv: validates the destination, then
+   * transfers each source and maps filesystem errors to coreutils messages.
+   */
+  private transfer(
+    command: "cp" | "mv",
+    operands: string[],
+    context: CommandContext,
+    apply: (source: string, dest: string) => string | null,
+  ): CommandResult {
+    if (operands.length === 0) return this.missingOperand(command);
+    if (operands.length === 1) {
+      return this.createError(
+        `${command}: missing destination file operand after '${operands[0]}'\n` +
+          `Try '${command} --help' for more information.`,
+      );
+    }
+
+    const fs = this.fs(context);
+    const nodeId = this.getNodeId(context);
+    const sources = operands.slice(0, -1);
+    const destRaw = operands[operands.length - 1];
+    const dest = this.resolvePath(destRaw, context);
+    const destStat = fs.stat(nodeId, dest);
+    if (sources.length > 1 && destStat?.type !== "directory") {
+      return this.createError(
+        `${command}: target '${destRaw}' is not a directory`,
+      );
+    }
+
+    const errors: string[] = [];
+    for (const sourceRaw of sources) {
+      const source = this.resolvePath(sourceRaw, context);
+      const sourceStat =
+        command === "mv" ? fs.lstat(nodeId, source) : fs.stat(nodeId, source);
+      if (!sourceStat) {
+        errors.push(`${command}: cannot stat '${sourceRaw}': ${NOT_FOUND}`);
+        continue;
+      }
+
+      const error = apply(source, dest);
+      if (!error) continue;
+      if (error === INVALID_ARGUMENT && sourceStat.type !== "directory") {
+        errors.push(
+          `${command}: '${sourceRaw}' and '${destRaw}' are the same file`,
+        );
+      } else if (error === INVALID_ARGUMENT) {
+        errors.push(
+          command === "cp"
+            ? `cp: cannot copy a directory, '${sourceRaw}', into itself, '${destRaw}'`
+            : `mv: cannot move '${sourceRaw}' to a subdirectory of itself, '${destRaw}'`,
+        );
+      } else if (error === IS_DIRECTORY && sourceStat.type === "directory") {
+        errors.push(`cp: -r not specified; omitting directory '${sourceRaw}'`);
+      } else if (error === IS_DIRECTORY) {
+        errors.push(
+          `${command}: cannot overwrite directory '${destRaw}' with non-directory`,
+        );
+      } else if (command === "cp") {
+        errors.push(`cp: cannot create regular file '${destRaw}': ${error}`);
+      } else {
+        errors.push(`mv: cannot move '${sourceRaw}' to '${destRaw}': ${error}`);
+      }
+    }
+    return this.finish(errors);
+  }
+
+  private handleLn(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { options, operands } = splitArgs(parsed.rawArgs);
+    const symbolic = options.has("s") || options.has("symbolic");
+    const force = options.has("f") || options.has("force");
+    if (operands.length === 0) return this.missingOperand("ln");
+
+    const fs = this.fs(context);
+    const nodeId = this.getNodeId(context);
+    const [target, linkRaw = baseName(target)] = operands;
+    let linkPath = this.resolvePath(linkRaw, context);
+    if (fs.stat(nodeId, linkPath)?.type === "directory") {
+      linkPath = resolvePath(baseName(target), linkPath);
+    }
+
+    const kind = symbolic ? "symbolic link" : "hard link";
+    const existing = fs.lstat(nodeId, linkPath);
+    if (existing && force && existing.type !== "directory") {
+      fs.remove(nodeId, linkPath);
+    }
+
+    let error: string | null;
+    if (symbolic) {
+      // Symlink targets are stored verbatim, relative to the link's directory
+      error = fs.symlink(nodeId, target, linkPath);
+    } else {
+      const targetStat = fs.stat(nodeId, this.resolvePath(target, context));
+      if (!targetStat) {
+        return this.createError(
+          `ln: failed to access '${target}': ${NOT_FOUND}`,
+        );
+      }
+      if (targetStat.type === "directory") {
+        return this.createError(
+          `ln: ${target}: hard link not allowed for directory`,
+        );
+      }
+      // Hard links are modelled as copies; the simulator has no inodes
+      error = fs.lstat(nodeId, linkPath)
+        ? "File exists"
+        : fs.copy(nodeId, targetStat.path, linkPath);
+    }
+    if (error) {
+      return this.createError(
+        `ln: failed to create ${kind} '${linkRaw}': ${error}`,
+      );
+    }
+    return this.createSuccess("");
+  }
+
+  private handleChmod(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    // Symbolic modes like -x look like options, so the first one that parses
+    // as a mode is taken as the mode operand.
+    let spec: string | undefined;
+    const rest: string[] = [];
+    for (const arg of parsed.rawArgs) {
+      if (!spec && /^-[rwxXst]+$/.test(arg)) {
+        spec = arg;
+      } else if (!spec && !arg.startsWith("-")) {
+        spec = arg;
+      } else {
+        rest.push(arg);
+      }
+    }
+    const { options, operands } = splitArgs(rest);
+    const recursive = options.has("R") || options.has("recursive");
+    if (!spec) return this.missingOperand("chmod");
+    if (operands.length === 0) {
+      return this.createError(
+        `chmod: missing operand after '${spec}'\n` +
+          "Try 'chmod --help' for more information.",
+      );
+    }
+    if (applyModeString(spec, 0, false) === null) {
+      return this.createError(`chmod: invalid mode: '${spec}'`);
+    }
+
+    const fs = this.fs(context);
+    const nodeId = this.getNodeId(context);
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const targets = this.collectTargets(
+        this.resolvePath(operand, context),
+        recursive,
+        context,
+      );
+      if (targets.length === 0) {
+        errors.push(`chmod: cannot access '${operand}': ${NOT_FOUND}`);
+        continue;
+      }
+      for (const stat of targets) {
+        const mode = applyModeString(
+          spec,
+          stat.mode,
+          stat.type === "directory",
+        );
+        const error = fs.chmod(nodeId, stat.path, mode ?? stat.mode);
+        if (error) {
+          errors.push(`chmod: changing permissions of '${operand}': ${error}`);
+          break;
+        }
+      }
+    }
+    return this.finish(errors);
+  }
+
+  private handleChown(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const { options, operands } = splitArgs(parsed.rawArgs);
+    const recursive = options.has("R") || options.has("recursive");
+    if (operands.length === 0) return this.missingOperand("chown");
+    const [spec, ...files] = operands;
+    if (files.length === 0) {
+      return this.createError(
+        `chown: missing operand after '${spec}'\n` +
+          "Try 'chown --help' for more information.",
+      );
+    }
+
+    const [owner, group] = spec.split(":");
+    const { users, groups } = this.loadIds(context);
+    if (owner && !users.has(owner)) {
+      return this.createError(`chown: invalid user: '${spec}'`);
+    }
+    if (group && !groups.has(group)) {
+      return this.createError(`chown: invalid group: '${spec}'`);
+    }
+
+    const fs = this.fs(context);
+    const nodeId = this.getNodeId(context);
+    const errors: string[] = [];
+    for (const operand of files) {
+      const targets = this.collectTargets(
+        this.resolvePath(operand, context),
+        recursive,
+        context,
+      );
+      if (targets.length === 0) {
+        errors.push(`chown: cannot access '${operand}': ${NOT_FOUND}`);
+        continue;
+      }
+      for (const stat of targets) {
+        const error = fs.chown(nodeId, stat.path, owner, group);
+        if (error) {
+          errors.push(`chown: changing ownership of '${operand}': ${error}`);
+          break;
+        }
+      }
+    }
+    return this.finish(errors);
+  }
+
+  private handleStat(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    let format: string | undefined;
+    const rest: string[] = [];
+    const args = parsed.rawArgs;
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === "-c" || args[i] === "--format") {
+        format = args[++i];
+      } else if (args[i].startsWith("--format=")) {
+        format = args[i].slice("--format=".length);
+      } else {
+        rest.push(args[i]);
+      }
+    }
+    const { options, operands } = splitArgs(rest);
+    const dereference = options.has("L") || options.has("dereference");
+    if (operands.length === 0) return this.missingOperand("stat");
+
+    const fs = this.fs(context);
+    const nodeId = this.getNodeId(context);
+    const { users, groups } = this.loadIds(context);
+    const output: string[] = [];
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const path = this.resolvePath(operand, context);
+      const stat = dereference ? fs.stat(nodeId, path) : fs.lstat(nodeId, path);
+      if (!stat) {
+        errors.push(`stat: cannot statx '${operand}': ${NOT_FOUND}`);
+        continue;
+      }
+      const uid = users.get(stat.owner) ?? 0;
+      const gid = groups.get(stat.group) ?? 0;
+      output.push(
+        format !== undefined
+          ? this.formatStatCustom(format, operand, stat)
+          : this.formatStat(operand, stat, uid, gid),
+      );
+    }
+
+    const text = [...output, ...errors].join("\n");
+    return errors.length > 0
+      ? { output: text, exitCode: 1 }
+      : this.createSuccess(text);
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  private formatStat(
+    name: string,
+    stat: VfsStat,
+    uid: number,
+    gid: number,
+  ): string {
+    const octal = (stat.mode & 0o7777).toString(8).padStart(4, "0");
+    const blocks = Math.ceil(stat.size / 4096) * 8;
+    const fileLine =
+      stat.type === "symlink"
+        ? `  File: ${name} -> ${stat.target}`
+        : `  File: ${name}`;
+    const deviceType = stat.device
+      ? `  Device type: ${stat.device[0]},${stat.device[1]}`
+      : "";
+    const links = stat.type === "directory" ? 2 : 1;
+    const time = formatStatTime(stat.mtime);
+
+    return [
+      fileLine,
+      `  Size: ${String(stat.size).padEnd(10)}\tBlocks: ${String(blocks).padEnd(10)} IO Block: 4096   ${describeType(stat)}`,
+      `Device: 802h/2050d\tInode: ${String(inodeOf(stat.path)).padEnd(11)} Links: ${links}${deviceType}`,
+      `Access: (${octal}/${formatMode(stat.type, stat.mode)})  Uid: (${String(uid).padStart(5)}/${stat.owner.padStart(8)})   Gid: (${String(gid).padStart(5)}/${stat.group.padStart(8)})`,
+      `Access: ${time}`,
+      `Modify: ${time}`,
+      `Change: ${time}`,
+      " Birth: -",
+    ].join("\n");
+  }
+
+  private formatStatCustom(
+    format: string,
+    name: string,
+    stat: VfsStat,
+  ): string {
+    return format.replace(/%([aAFGnsUy%])/g, (_, code: string) => {
+      switch (code) {
+        case "a":
+          return (stat.mode & 0o7777).toString(8);
+        case "A":
+          return formatMode(stat.type, stat.mode);
+        case "F":
+          return describeType(stat);
+        case "G":
+          return stat.group;
+        case "n":
+          return name;
+        case "s":
+          return String(stat.size);
+        case "U":
+          return stat.owner;
+        case "y":
+          return formatStatTime(stat.mtime);
+        default:
+          return "%";
+      }
+    });
+  }
+
+  /** The entry at a path plus, when recursive, everything below it */
+  private collectTargets(
+    path: string,
+    recursive: boolean,
+    context: CommandContext,
+  ): VfsStat[] {
+    const fs = this.fs(context);
+    const nodeId = this.getNodeId(context);
+    const root = fs.stat(nodeId, path);
+    if (!root) return [];
+
+    const targets = [root];
+    if (recursive && root.type === "directory") {
+      const pending = [root.path];
+      while (pending.length > 0) {
+        const dir = pending.pop() as string;
+        for (const entry of fs.list(nodeId, dir).entries ?? []) {
+          // Like chmod -R, symlinks found while walking are not followed
+          if (entry.type === "symlink") continue;
+          targets.push(entry);
+          if (entry.type === "directory") pending.push(entry.path);
+        }
+      }
+    }
+    return targets;
+  }
+
+  private loadIds(context: CommandContext): {
+    users: Map<string, number>;
+    groups: Map<string, number>;
+  } {
+    const fs = this.fs(context);
+    const nodeId = this.getNodeId(context);
+    return {
+      users: parseIdFile(fs.readFile(nodeId, "/etc/passwd").content),
+      groups: parseIdFile(fs.readFile(nodeId, "/etc/group").content),
+    };
+  }
+
+  private finish(errors: string[]): CommandResult {
+    return errors.length > 0
+      ? this.createError(errors.join("\n"))
+      : this.createSuccess("");
+  }
+
+  private missingOperand(command: string): CommandResult {
+    return this.createError(
+      `${command}: missing operand\nTry '${command} --help' for more information.`,
+    );
+  }
+
+  private fs(context: CommandContext): VirtualFileSystem {
+    return this.resolveFileSystem(context);
+  }
+
+  private resolvePath(rawPath: string, context: CommandContext): string {
+    return resolvePath(rawPath, context.currentPath || "/root");
+  }
+
+  private getNodeId(context: CommandContext): string {
+    return context.currentNode || "dgx-node-01";
+  }
+}
@@ -4,6 +4,26 @@ import {
   BaseSimulator,
   type SimulatorMetadata,
 } from "@/simulators/BaseSimulator";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { useSimulationStore } from "@/store/simulationStore";
+import type { ClusterConfig, InfiniBandLinkEnd } from "@/types/hardware";
+import {
+  applySubnetSweep,
+  cableErrorCount,
+  describeCableType,
+  describeEnd,
+  findCable,
+  findEndByLid,
+  getEndAddress,
+  getEndPort,
+  getFabric,
+  isCableUp,
+  peerEnd,
+  planSubnetSweep,
+  subnetManagerEnd,
+  traceRoute,
+} from "@/utils/infinibandFabric";
+import { hostNetdev, isHostPortUp, PF_COUNT } from "@/utils/blueFieldDpu";
 
 /**
  * Maps InfiniBand link rate (Gb/s) to the correct standard name.
@@ -51,8 +71,38 @@ export class InfiniBandSimulator extends BaseSimulator {
     );
   }
 
-  private getNode(context: CommandContext) {
-    return this.resolveNode(context);
+  private getNode(
+    context: CommandContext,
+    cluster: ClusterConfig = this.resolveCluster(context),
+  ) {
+    return cluster.nodes.find((n) => n.id === context.currentNode);
+  }
+
+  /**
+   * Let the subnet manager sweep before a command reads the fabric, so ports
+   * that came up go Active and a failed master is replaced. Returns the
+   * cluster with the sweep applied.
+   */
+  private syncSubnet(context: CommandContext): ClusterConfig {
+    const cluster = this.resolveCluster(context);
+    const sweep =
+      cluster.infiniband && planSubnetSweep(cluster, cluster.infiniband);
+    if (!sweep) return cluster;
+
+    // A cluster handed in directly, not through the store or a scenario
+    const detached =
+      !context.scenarioContext &&
+      cluster !== useSimulationStore.getState().cluster &&
+      !Object.isFrozen(cluster);
+    if (detached) {
+      applySubnetSweep(cluster, sweep);
+      return cluster;
+    }
+    this.resolveMutator(context).applyIBSweep(sweep);
+    return (
+      context.scenarioContext?.getCluster() ??
+      useSimulationStore.getState().cluster
+    );
   }
 
   /**
@@ -68,7 +118,8 @@ export class InfiniBandSimulator extends BaseSimulator {
       return this.createSuccess("ibstat 5.9-0");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node) {
       return this.createError("Error: Unable to determine current node");
     }
@@ -77,6 +128,8 @@ export class InfiniBandSimulator extends BaseSimulator {
       return this.createError("No InfiniBand HCAs found");
     }
 
+    const { smLid } = getFabric(cluster);
+
     let output = "";
     node.hcas.forEach((hca, idx) => {
       if (idx > 0) output += "\n";
@@ -91,12 +144,12 @@ export class InfiniBandSimulator extends BaseSimulator {
 
       hca.ports.forEach((port) => {
         output += `\tPort ${port.portNumber}:\n`;
-        output += `\t\tState: ${port.state}\n`;
+        output += `\t\tState: ${port.state === "Init" ? "Initializing" : port.state}\n`;
         output += `\t\tPhysical state: ${port.physicalState}\n`;
         output += `\t\tRate: ${port.rate} Gb/s (${getIBStandardName(port.rate)})\n`;
         output += `\t\tBase lid: ${port.lid}\n`;
         output += `\t\tLMC: 0\n`;
-        output += `\t\tSM lid: 1\n`;
+        output += `\t\tSM lid: ${smLid}\n`;
         output += `\t\tCapability mask: 0x04010000\n`;
         output += `\t\tPort GUID: ${port.guid}\n`;
         output += `\t\tLink layer: ${port.linkLayer}\n`;
@@ -124,7 +177,8 @@ export class InfiniBandSimulator extends BaseSimulator {
       return this.createSuccess("ibportstate 5.9-0");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node || node.hcas.length === 0) {
       return this.createError("Error: No HCA found");
     }
@@ -190,7 +244,7 @@ Options:
   }
 
   /**
-   * iblinkinfo - Show link information
+   * iblinkinfo - Show the links of every switch in the fabric
    */
   executeIblinkinfo(
     parsed: ParsedCommand,
@@ -207,28 +261,63 @@ Options:
       return this.createSuccess("iblinkinfo 5.9-0");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node || node.hcas.length === 0) {
       return this.createError("Error: No HCA found");
     }
 
+    const fabric = getFabric(cluster);
     const verbose = this.hasAnyFlag(parsed, ["v", "verbose"]);
+    const lineFormat = this.hasAnyFlag(parsed, ["l", "line"]);
+    const downOnly = this.hasAnyFlag(parsed, ["d", "down"]);
+    const switchGuid = this.getFlagString(parsed, ["S", "switch"]);
+
+    const switches = switchGuid
+      ? fabric.switches.filter((sw) => sw.guid === switchGuid)
+      : fabric.switches;
+    if (switchGuid && switches.length === 0) {
+      return this.createError(`iblinkinfo: switch ${switchGuid} not found`);
+    }
 
     let output = `InfiniBand Link Information:\n\n`;
 
-    node.hcas.forEach((hca) => {
-      hca.ports.forEach((port) => {
-        output += `CA: ${hca.caType}\n`;
-        output += `      ${port.guid}\n`;
-        output += `         port ${port.portNumber} lid ${port.lid} lmc 0 ${port.state} ${port.rate} Gb/s ${getIBStandardName(port.rate)} (${port.linkLayer})\n`;
+    switches.forEach((sw) => {
+      if (!lineFormat) {
+        output += `Switch: ${sw.guid} ${sw.description}:\n`;
+      }
+
+      sw.ports.forEach((port) => {
+        const end: InfiniBandLinkEnd = {
+          kind: "switch",
+          switchId: sw.id,
+          portNumber: port.portNumber,
+        };
+        const cable = findCable(fabric, end);
+        if (!cable) return;
+        const up = isCableUp(cluster, fabric, cable);
+        if (downOnly && up) return;
+
+        // Down links cannot be discovered past, so the remote end is blank
+        const peer = peerEnd(cable, end);
+        const local = `${String(sw.lid).padStart(6)} ${String(port.portNumber).padStart(4)}[  ]`;
+        const link = up
+          ? `==( 4X ${port.rate} Gbps ${getIBStandardName(port.rate)} ${port.state}/ ${port.physicalState})==>`
+          : `==(            ${port.state}/ ${port.physicalState})==>`;
+        const remote = up
+          ? `${String(getEndAddress(cluster, fabric, peer).lid).padStart(6)} ${String(peer.portNumber).padStart(4)}[  ] "${describeEnd(cluster, fabric, peer)}" ( )`
+          : `${"".padStart(11)}[  ] "" ( )`;
+
+        output += lineFormat
+          ? `${sw.guid} "${sw.description}" ${local} ${link} ${remote}\n`
+          : `${local} ${link} ${remote}\n`;
 
         if (verbose) {
-          output += `         Link errors:\n`;
-          output += `           Symbol errors:      ${port.errors.symbolErrors}\n`;
-          output += `           Link downed:        ${port.errors.linkDowned}\n`;
-          output += `           Receive errors:     ${port.errors.portRcvErrors}\n`;
+          output += `           Link errors: symbol ${port.errors.symbolErrors}, link downed ${port.errors.linkDowned}, receive ${port.errors.portRcvErrors}\n`;
         }
       });
+
+      if (!lineFormat) output += "\n";
     });
 
     return this.createSuccess(output);
@@ -308,59 +397,105 @@ Options:
       return this.createSuccess("ibdiagnet 2.9.0");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node || node.hcas.length === 0) {
       return this.createError("Error: No HCA found");
     }
 
+    const fabric = getFabric(cluster);
     const detailed = this.hasAnyFlag(parsed, [
       "detailed",
       "d",
       "signal-quality",
     ]);
 
+    const caCount = cluster.nodes.reduce((sum, n) => sum + n.hcas.length, 0);
+    const liveLinks = fabric.cables.filter((c) =>
+      isCableUp(cluster, fabric, c),
+    ).length;
+
     let output =
       `\n-I- Using port 1 as the local port\n` +
       `-I- Discovering ... \n` +
       `-I- Discovering done\n` +
-      `-I- # of nodes: ${node.hcas.length}\n` +
-      `-I- # of links: ${node.hcas.length}\n` +
-      `-I- # of CAs: ${node.hcas.length}\n` +
-      `-I- # of switches: 0\n` +
+      `-I- # of nodes: ${caCount + fabric.switches.length}\n` +
+      `-I- # of links: ${liveLinks}\n` +
+      `-I- # of CAs: ${caCount}\n` +
+      `-I- # of switches: ${fabric.switches.length}\n` +
       `-I- Checking fabric health...\n`;
 
+    let errors = 0;
+    let warnings = 0;
+    fabric.cables.forEach((cable) => {
+      const [a, b] = cable.ends;
+      const link = `"${describeEnd(cluster, fabric, a)}" port ${a.portNumber} <--> "${describeEnd(cluster, fabric, b)}" port ${b.portNumber}`;
+      if (!isCableUp(cluster, fabric, cable)) {
+        errors++;
+        output += `-E- Link down: ${link} (${cable.id})\n`;
+      } else if (cableErrorCount(cluster, fabric, cable) > 0) {
+        warnings++;
+        output += `-W- Port counters exceed threshold: ${link} (${cable.id})\n`;
+      }
+    });
+
     if (detailed) {
       output += `-I- Running signal quality checks...\n\n`;
       output += `Cable Validation Report - ${node.hostname}\n`;
       output += `${"=".repeat(60)}\n\n`;
 
       node.hcas.forEach((hca, idx) => {
-        output += `Port ${idx + 1}: ${hca.ports[0]?.guid || "unknown"}\n`;
-        output += `  Cable Type: QSFP-DD AOC\n`;
-        output += `  Cable Length: 5m\n`;
-        output += `  Link State: ${hca.ports[0]?.state || "Active"}\n`;
-        const portRate = hca.ports[0]?.rate || 400;
+        const port = hca.ports[0];
+        const cable = port
+          ? findCable(fabric, {
+              kind: "hca",
+              nodeId: node.id,
+              hcaIndex: idx,
+              portNumber: port.portNumber,
+            })
+          : undefined;
+        const faulty = cable
+          ? cableErrorCount(cluster, fabric, cable) > 0
+          : false;
+
+        output += `Port ${idx + 1}: ${port?.guid || "unknown"}\n`;
+        output += `  Cable Type: ${cable ? describeCableType(cable.type) : "not connected"}\n`;
+        output += `  Cable Length: ${cable ? `${cable.lengthMeters}m` : "N/A"}\n`;
+        output += `  Cable Part Number: ${cable?.partNumber ?? "N/A"}\n`;
+        output += `  Link State: ${port?.state || "Active"}\n`;
+        const portRate = port?.rate || 400;
         output += `  Link Speed: ${portRate} Gb/s (${getIBStandardName(portRate)})\n`;
 
-        // Add signal quality metrics
-        const rxPower = -2.5 + Math.random() * 0.5; // -2.5 to -2.0 dBm
-        const txPower = -1.8 + Math.random() * 0.3; // -1.8 to -1.5 dBm
-        const ber = Math.random() * 1e-12; // Bit Error Rate
-        const snr = 25 + Math.random() * 5; // Signal-to-Noise Ratio 25-30 dB
+        // Add signal quality metrics; a cable with errors shows a weak
+        // signal and a high bit error rate
+        const rxPower = faulty
+          ? -6.5 + simulationRandom.next() * 1.5
+          : -2.5 + simulationRandom.next() * 0.5; // -2.5 to -2.0 dBm
+        const txPower = -1.8 + simulationRandom.next() * 0.3; // -1.8 to -1.5 dBm
+        const ber = faulty
+          ? 1e-8 + simulationRandom.next() * 1e-7
+          : simulationRandom.next() * 1e-12; // Bit Error Rate
+        const snr = faulty
+          ? 14 + simulationRandom.next() * 4
+          : 25 + simulationRandom.next() * 5; // Signal-to-Noise Ratio 25-30 dB
 
         output += `\n  Signal Quality Metrics:\n`;
         output += `    RX Power: ${rxPower.toFixed(2)} dBm (Normal: -3.0 to -1.5)\n`;
         output += `    TX Power: ${txPower.toFixed(2)} dBm (Normal: -2.0 to -1.0)\n`;
         output += `    Bit Error Rate: ${ber.toExponential(2)} (Threshold: < 1e-9)\n`;
         output += `    SNR: ${snr.toFixed(1)} dB (Normal: > 20 dB)\n`;
-        output += `    Eye Opening: 95% (Normal: > 80%)\n`;
+        output += `    Eye Opening: ${faulty ? "62%" : "95%"} (Normal: > 80%)\n`;
         output += `    Status: ${rxPower > -3 && ber < 1e-9 && snr > 20 ? "✓ PASS" : "✗ FAIL"}\n`;
         output += `\n`;
       });
     }
 
     output += `-I- Fabric health check completed\n`;
-    output += `-I- No errors found\n`;
+    if (errors === 0 && warnings === 0) {
+      output += `-I- No errors found\n`;
+    } else {
+      output += `-E- Found ${errors} error(s) and ${warnings} warning(s)\n`;
+    }
     output += `-I- See report in /tmp/ibdiagnet2\n`;
 
     return this.createSuccess(output);
@@ -384,22 +519,25 @@ Options:
       return this.createSuccess("ibnetdiscover 5.9-0");
     }
 
-    const nodes = this.resolveAllNodes(context);
+    const cluster = this.syncSubnet(context);
+    const fabric = getFabric(cluster);
+    const nodes = cluster.nodes;
 
     const hcaOnly = this.hasAnyFlag(parsed, ["H", "Hca_list"]);
     const switchOnly = this.hasAnyFlag(parsed, ["S", "Switch_list"]);
-    const showPorts = this.hasAnyFlag(parsed, ["p", "ports"]);
-
-    // Derive switch model from cluster's actual HCA port rate
-    const portRate = nodes[0]?.hcas?.[0]?.ports?.[0]?.rate || 400;
-    const switchModel =
-      portRate >= 800
-        ? "QM9790"
-        : portRate >= 400
-          ? "QM9700"
-          : portRate >= 200
-            ? "QM8790"
-            : "QM8700";
+
+    // The device a port reaches over a live link; down links are not
+    // discovered
+    const neighbour = (end: InfiniBandLinkEnd) => {
+      const cable = findCable(fabric, end);
+      if (!cable || !isCableUp(cluster, fabric, cable)) return undefined;
+      const peer = peerEnd(cable, end);
+      return {
+        port: peer.portNumber,
+        description: describeEnd(cluster, fabric, peer),
+        ...getEndAddress(cluster, fabric, peer),
+      };
+    };
 
     let output = `#\n`;
     output += `# Topology file: generated by ibnetdiscover\n`;
@@ -407,71 +545,67 @@ Options:
     output += `# Topology discovery for fabric (DGX Cluster)\n`;
     output += `#\n\n`;
 
-    // Generate switch entries (rail-optimized spine/leaf architecture)
     if (!hcaOnly) {
-      const numSpineSwitches = 4;
-      const numLeafSwitches = nodes[0]?.hcas?.length || 8;
-
-      output += `# Spine Switches\n`;
-      for (let i = 0; i < numSpineSwitches; i++) {
-        const switchGuid = `0x${(0x1000 + i).toString(16).padStart(16, "0")}`;
-        output += `Switch\t64 "${switchGuid}"\t# "${switchModel}/Spine-${i}" enhanced port 0 lid ${10 + i}\n`;
-
-        if (showPorts) {
-          for (let j = 0; j < numLeafSwitches; j++) {
-            const leafGuid = `0x${(0x2000 + j).toString(16).padStart(16, "0")}`;
-            output += `[${j + 1}]\t"${leafGuid}"[${(i % 18) + 1}]\t\t# "${switchModel}/Rail-${j}" lid ${20 + j}\n`;
-          }
-        }
-        output += "\n";
-      }
-
-      output += `# Leaf (Rail) Switches\n`;
-      for (let i = 0; i < numLeafSwitches; i++) {
-        const switchGuid = `0x${(0x2000 + i).toString(16).padStart(16, "0")}`;
-        output += `Switch\t64 "${switchGuid}"\t# "${switchModel}/Rail-${i}" enhanced port 0 lid ${20 + i}\n`;
-
-        if (showPorts) {
-          for (let j = 0; j < numSpineSwitches; j++) {
-            const spineGuid = `0x${(0x1000 + j).toString(16).padStart(16, "0")}`;
-            output += `[${j + 1}]\t"${spineGuid}"[${i + 1}]\t\t# "${switchModel}/Spine-${j}" lid ${10 + j}\n`;
-          }
-
-          nodes.forEach((node, nodeIdx) => {
-            const hca = node.hcas[i];
-            if (hca) {
-              output += `[${numSpineSwitches + nodeIdx + 1}]\t"${hca.ports[0]?.guid}"[1]\t\t# "${node.hostname}" HCA-${i}\n`;
+      const tiers = [
+        ["spine", "# Spine Switches"],
+        ["leaf", "# Leaf Switches"],
+      ] as const;
+      for (const [tier, heading] of tiers) {
+        const tierSwitches = fabric.switches.filter((sw) => sw.tier === tier);
+        if (tierSwitches.length === 0) continue;
+
+        output += `${heading}\n`;
+        tierSwitches.forEach((sw) => {
+          output += `Switch\t${sw.ports.length} "${sw.guid}"\t# "${sw.description}" enhanced port 0 lid ${sw.lid}\n`;
+          sw.ports.forEach((port) => {
+            const peer = neighbour({
+              kind: "switch",
+              switchId: sw.id,
+              portNumber: port.portNumber,
+            });
+            if (peer) {
+              output += `[${port.portNumber}]\t"${peer.guid}"[${peer.port}]\t\t# "${peer.description}" lid ${peer.lid} 4x${getIBStandardName(port.rate)}\n`;
             }
           });
-        }
-        output += "\n";
+          output += "\n";
+        });
       }
     }
 
-    // Generate HCA entries
     if (!switchOnly) {
       output += `# Channel Adapters (HCAs)\n`;
-      nodes.forEach((node, nodeIdx) => {
-        node.hcas.forEach((hca, hcaIdx) => {
-          output += `Ca\t${hca.ports.length} "${hca.ports[0]?.guid}"\t# "${node.hostname}/${hca.caType}" Rail-${hcaIdx}\n`;
-
-          if (showPorts) {
-            hca.ports.forEach((port) => {
-              const switchGuid = `0x${(0x2000 + hcaIdx).toString(16).padStart(16, "0")}`;
-              output += `[${port.portNumber}](${hca.ports[0]?.guid})\t"${switchGuid}"[${nodeIdx + 5}]\t\t# lid ${port.lid} lmc 0 "${node.hostname}" ${port.state}\n`;
+      nodes.forEach((node) => {
+        node.hcas.forEach((hca, hcaIndex) => {
+          output += `Ca\t${hca.ports.length} "${hca.ports[0]?.guid}"\t# "${node.hostname} mlx5_${hcaIndex}"\n`;
+          hca.ports.forEach((port) => {
+            const peer = neighbour({
+              kind: "hca",
+              nodeId: node.id,
+              hcaIndex,
+              portNumber: port.portNumber,
             });
-          }
+            if (peer) {
+              output += `[${port.portNumber}](${port.guid})\t"${peer.guid}"[${peer.port}]\t\t# lid ${port.lid} lmc 0 "${peer.description}" lid ${peer.lid} 4x${getIBStandardName(port.rate)}\n`;
+            }
+          });
           output += "\n";
         });
       });
     }
 
+    const spineCount = fabric.switches.filter(
+      (sw) => sw.tier === "spine",
+    ).length;
+    const liveLinks = fabric.cables.filter((c) =>
+      isCableUp(cluster, fabric, c),
+    ).length;
+
     // Summary
     output += `#\n`;
     output += `# Summary:\n`;
     output += `#   ${nodes.reduce((sum, n) => sum + n.hcas.length, 0)} HCAs\n`;
-    output += `#   ${4 + (nodes[0]?.hcas?.length || 8)} Switches (4 spine + ${nodes[0]?.hcas?.length || 8} rail)\n`;
-    output += `#   ${nodes.reduce((sum, n) => sum + n.hcas.reduce((s, h) => s + h.ports.length, 0), 0)} Ports\n`;
+    output += `#   ${fabric.switches.length} Switches (${spineCount} spine + ${fabric.switches.length - spineCount} leaf)\n`;
+    output += `#   ${liveLinks} of ${fabric.cables.length} Links up\n`;
     output += `#\n`;
 
     return this.createSuccess(output);
@@ -519,6 +653,20 @@ Options:
       });
     });
 
+    // BlueField PFs follow the HCAs. While the Arm OS owns the device, a PF
+    // is only up when an OVS bridge joins it to the uplink.
+    let rdmaIndex = node.hcas.length;
+    for (const dpu of node.dpus ?? []) {
+      for (let pf = 0; pf < PF_COUNT; pf++) {
+        const device = `mlx5_${rdmaIndex++}`;
+        const pciAddr = dpu.pciAddress.replace(/\.\d+$/, `.${pf}`);
+        const state = isHostPortUp(dpu, pf) ? "Up" : "Down";
+        output += verbose
+          ? `${device} (${pciAddr}) port 1 ==> ${hostNetdev(dpu, pf)} (${state})\n`
+          : `${device} port 1 ==> ${hostNetdev(dpu, pf)} (${state})\n`;
+      }
+    }
+
     return this.createSuccess(output);
   }
 
@@ -571,33 +719,12 @@ Options:
       return this.createSuccess("ibswitches 5.9-0");
     }
 
-    const nodes = this.resolveAllNodes(context);
-    const portRate = nodes[0]?.hcas?.[0]?.ports?.[0]?.rate || 400;
-    const switchModel =
-      portRate >= 800
-        ? "QM9790"
-        : portRate >= 400
-          ? "QM9700"
-          : portRate >= 200
-            ? "QM8790"
-            : "QM8700";
-
-    const numSpineSwitches = 4;
-    const numLeafSwitches = nodes[0]?.hcas?.length || 8;
+    const fabric = getFabric(this.syncSubnet(context));
 
     let output = "";
-
-    // Spine switches
-    for (let i = 0; i < numSpineSwitches; i++) {
-      const switchGuid = `0x${(0xe41d2d030010 + i).toString(16).padStart(16, "0")}`;
-      output += `Switch\t: ${switchGuid} ports 64 "${switchModel} Mellanox Technologies" enhanced port 0 lid ${10 + i}\n`;
-    }
-
-    // Leaf/rail switches
-    for (let i = 0; i < numLeafSwitches; i++) {
-      const switchGuid = `0x${(0xe41d2d030020 + i).toString(16).padStart(16, "0")}`;
-      output += `Switch\t: ${switchGuid} ports 64 "${switchModel} Mellanox Technologies" enhanced port 0 lid ${20 + i}\n`;
-    }
+    fabric.switches.forEach((sw) => {
+      output += `Switch\t: ${sw.guid} ports ${sw.ports.length} "${sw.description}" enhanced port 0 lid ${sw.lid} lmc 0\n`;
+    });
 
     return this.createSuccess(output);
   }
@@ -627,36 +754,40 @@ Options:
       return this.createSuccess("ibcableerrors 5.9-0");
     }
 
-    const nodes = this.resolveAllNodes(context);
+    const cluster = this.syncSubnet(context);
+    const fabric = getFabric(cluster);
 
     let output = `Cable Error Report\n`;
     output += `${"=".repeat(60)}\n\n`;
 
+    // Only cables that are down or have counted errors are listed
     let totalErrors = 0;
-    nodes.forEach((node) => {
-      node.hcas.forEach((hca) => {
-        hca.ports.forEach((port) => {
-          const portErrors =
-            port.errors.symbolErrors +
-            port.errors.linkDowned +
-            port.errors.portRcvErrors;
-          totalErrors += portErrors;
-
-          output += `${node.hostname} ${hca.caType} port ${port.portNumber} (lid ${port.lid}):\n`;
-          output += `  SymbolErrors:      ${port.errors.symbolErrors}\n`;
-          output += `  LinkDowned:        ${port.errors.linkDowned}\n`;
-          output += `  PortRcvErrors:     ${port.errors.portRcvErrors}\n`;
-          output += `  PortXmitDiscards:  ${port.errors.portXmitDiscards}\n`;
-
-          if (portErrors > 0) {
-            output += `  \x1b[33m*** cable errors detected ***\x1b[0m\n`;
-          }
-          output += `\n`;
-        });
+    let faultyCables = 0;
+    fabric.cables.forEach((cable) => {
+      const cableErrors = cableErrorCount(cluster, fabric, cable);
+      const up = isCableUp(cluster, fabric, cable);
+      totalErrors += cableErrors;
+      if (up && cableErrors === 0) return;
+      faultyCables++;
+
+      output += `${cable.id}: ${cable.type} ${cable.lengthMeters}m ${cable.vendor} ${cable.partNumber} SN ${cable.serialNumber}${up ? "" : " (link down)"}\n`;
+      cable.ends.forEach((end) => {
+        const port = getEndPort(cluster, fabric, end);
+        if (!port) return;
+        const { lid } = getEndAddress(cluster, fabric, end);
+        output += `  "${describeEnd(cluster, fabric, end)}" port ${end.portNumber} (lid ${lid}):\n`;
+        output += `    SymbolErrors:      ${port.errors.symbolErrors}\n`;
+        output += `    LinkDowned:        ${port.errors.linkDowned}\n`;
+        output += `    PortRcvErrors:     ${port.errors.portRcvErrors}\n`;
+        output += `    PortXmitDiscards:  ${port.errors.portXmitDiscards}\n`;
       });
+      output += `  \x1b[33m*** cable errors detected ***\x1b[0m\n\n`;
     });
 
-    output += `Summary: ${totalErrors} total cable errors across ${nodes.length} hosts\n`;
+    if (faultyCables === 0) {
+      output += `No cable errors detected\n\n`;
+    }
+    output += `Summary: ${totalErrors} total cable errors on ${faultyCables} of ${fabric.cables.length} cables\n`;
 
     return this.createSuccess(output);
   }
@@ -678,15 +809,33 @@ Options:
       return this.createSuccess("ibping: Listening on port 10000...");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node || node.hcas.length === 0) {
       return this.createError("Error: No HCA found");
     }
 
-    // Determine target LID from args or default to neighbor
-    const targetLid = parsed.positionalArgs[0] || "1";
+    // Determine target LID from args or default to the subnet manager
+    const fabric = getFabric(cluster);
+    const targetLid = parsed.positionalArgs[0] || String(fabric.smLid);
     const count = 5;
 
+    const route = traceRoute(
+      cluster,
+      fabric,
+      node.hcas[0].ports[0].lid,
+      parseInt(targetLid, 10),
+    );
+    if (!route) {
+      let output = `Pinging lid ${targetLid}... \n\n`;
+      for (let i = 0; i < count; i++) {
+        output += `ibwarn: ibping: iteration ${i}: timeout\n`;
+      }
+      output += `\n--- lid ${targetLid} ibping statistics ---\n`;
+      output += `${count} packets transmitted, 0 received, 100% packet loss\n`;
+      return { output, exitCode: 1 };
+    }
+
     let output = `Pinging lid ${targetLid}... \n\n`;
 
     for (let i = 0; i < count; i++) {
@@ -719,35 +868,53 @@ Options:
       return this.createSuccess("ibtracert 5.9-0");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node || node.hcas.length === 0) {
       return this.createError("Error: No HCA found");
     }
 
-    const nodes = this.resolveAllNodes(context);
-    const portRate = nodes[0]?.hcas?.[0]?.ports?.[0]?.rate || 400;
-    const switchModel =
-      portRate >= 800
-        ? "QM9790"
-        : portRate >= 400
-          ? "QM9700"
-          : portRate >= 200
-            ? "QM8790"
-            : "QM8700";
-
-    const srcLid =
-      parsed.positionalArgs[0] || String(node.hcas[0].ports[0].lid);
-    const destLid = parsed.positionalArgs[1] || "1";
-    const srcGuid = node.hcas[0].ports[0].guid;
-
-    let output = `From ${srcGuid} lid ${srcLid} to lid ${destLid}:\n`;
-    output += `\n`;
-    output += `[1] -> ${switchModel}/Rail-0 port 5 lid 20 (hop 1)\n`;
-    output += `[2] -> ${switchModel}/Spine-0 port 1 lid 10 (hop 2)\n`;
-    output += `[3] -> ${switchModel}/Rail-1 port 2 lid 21 (hop 3)\n`;
-    output += `[4] -> destination lid ${destLid} (hop 4)\n`;
+    const fabric = getFabric(cluster);
+
+    const srcLid = parseInt(
+      parsed.positionalArgs[0] || String(node.hcas[0].ports[0].lid),
+      10,
+    );
+    const destLid = parseInt(
+      parsed.positionalArgs[1] || String(fabric.smLid),
+      10,
+    );
+
+    const source = findEndByLid(cluster, fabric, srcLid);
+    const destination = findEndByLid(cluster, fabric, destLid);
+    if (!source || !destination) {
+      return this.createError(
+        `ibtracert: can't resolve lid ${source ? destLid : srcLid}`,
+      );
+    }
+
+    const hops = traceRoute(cluster, fabric, srcLid, destLid);
+    if (!hops) {
+      return this.createError(
+        `ibtracert: no route from lid ${srcLid} to lid ${destLid}: destination unreachable`,
+      );
+    }
+
+    // ca {guid} / switch {guid}, as ibtracert names each device
+    const device = (end: InfiniBandLinkEnd) =>
+      `${end.kind === "switch" ? "switch" : "ca"} {${getEndAddress(cluster, fabric, end).guid}}`;
+    const address = (end: InfiniBandLinkEnd) => {
+      const { lid } = getEndAddress(cluster, fabric, end);
+      return `lid ${lid}-${lid} "${describeEnd(cluster, fabric, end)}"`;
+    };
+
+    let output = `From ${device(source)} portnum ${source.portNumber} ${address(source)}\n`;
+    hops.forEach((hop) => {
+      output += `[${hop.outPort}] -> ${hop.to.kind === "switch" ? "switch" : "ca"} port {${getEndAddress(cluster, fabric, hop.to).guid}}[${hop.to.portNumber}] ${address(hop.to)}\n`;
+    });
+    output += `To ${device(destination)} portnum ${destination.portNumber} ${address(destination)}\n`;
     output += `\n`;
-    output += `Route complete: 4 hops\n`;
+    output += `Route complete: ${hops.length} hop${hops.length === 1 ? "" : "s"}\n`;
 
     return this.createSuccess(output);
   }
@@ -861,15 +1028,101 @@ Options:
       return this.createSuccess("sminfo 5.9-0");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node || node.hcas.length === 0) {
       return this.createError("Error: No HCA found");
     }
 
-    const smGuid = "0xe41d2d0300e60001";
-    const activityCount = 1234567 + node.hcas[0].ports[0].lid;
+    // sminfo asks the SM at the SM LID the local port was given, or the one
+    // at the LID named on the command line
+    const fabric = getFabric(cluster);
+    const queryLid = parsed.positionalArgs[0]
+      ? parseInt(parsed.positionalArgs[0], 10)
+      : fabric.smLid;
+    const sm = fabric.subnetManagers.find((m) => {
+      const end = subnetManagerEnd(cluster, m);
+      return end && getEndAddress(cluster, fabric, end).lid === queryLid;
+    });
+    const localPort = node.hcas[0].ports[0];
+    if (!sm || sm.state === "NotActive" || localPort.state === "Down") {
+      return this.createError(
+        `ibwarn: mad_rpc: _do_madrpc failed; dport (Lid ${queryLid})\nsminfo: iberror: failed: query`,
+      );
+    }
 
-    const output = `sminfo: sm lid 1 sm guid ${smGuid}, activity count ${activityCount} priority 14 state 3 SMINFO_MASTER\n`;
+    const { guid } = getEndAddress(
+      cluster,
+      fabric,
+      subnetManagerEnd(cluster, sm)!,
+    );
+    const state =
+      sm.state === "Master" ? "3 SMINFO_MASTER" : "2 SMINFO_STANDBY";
+    const output = `sminfo: sm lid ${queryLid} sm guid ${guid}, activity count ${fabric.sweepCount} priority ${sm.priority} state ${state}\n`;
+
+    return this.createSuccess(output);
+  }
+
+  /**
+   * ibroute - Dump the unicast forwarding table of a switch
+   */
+  executeIbroute(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    parsed = this.parseWithSchema(parsed.raw);
+    if (this.hasAnyFlag(parsed, ["help", "h"])) {
+      return this.getHelpFromRegistry("ibroute", parsed) || this.handleHelp();
+    }
+
+    if (this.hasAnyFlag(parsed, ["version", "V"])) {
+      return this.createSuccess("ibroute 5.9-0");
+    }
+
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
+    if (!node || node.hcas.length === 0) {
+      return this.createError("Error: No HCA found");
+    }
+
+    const target = parsed.positionalArgs[0];
+    if (!target) {
+      return this.createError(
+        "Usage: ibroute [options] <dest lid|guid> [<startlid> [<endlid>]]",
+      );
+    }
+
+    const fabric = getFabric(cluster);
+    const isGuid = this.hasAnyFlag(parsed, ["G", "Guid"]);
+    const sw = fabric.switches.find((s) =>
+      // LIDs may be given in decimal or hex
+      isGuid ? s.guid === target : s.lid === Number(target),
+    );
+    if (!sw) {
+      return this.createError(
+        `ibroute: iberror: failed: ${target} is not a switch`,
+      );
+    }
+
+    const hex = (lid: number, width: number) =>
+      `0x${lid.toString(16).padStart(width, "0")}`;
+    const table = fabric.forwardingTables[sw.id] ?? {};
+    const lids = Object.keys(table)
+      .map(Number)
+      .sort((a, b) => a - b);
+    const top = lids[lids.length - 1] ?? 0;
+
+    let output = `Unicast lids [0x0-${hex(top, 1)}] of switch Lid ${sw.lid} guid ${sw.guid} (${sw.description}):\n`;
+    output += `  Lid  Out   Destination\n`;
+    output += `       Port     Info \n`;
+    for (const lid of lids) {
+      const end = findEndByLid(cluster, fabric, lid);
+      if (!end) continue;
+      const { guid } = getEndAddress(cluster, fabric, end);
+      const kind = end.kind === "switch" ? "Switch" : "Channel Adapter";
+      output += `${hex(lid, 4)} ${String(table[lid]).padStart(3, "0")} : (${kind} portguid ${guid}: '${describeEnd(cluster, fabric, end)}')\n`;
+    }
+    output += `${lids.length} valid lids dumped \n`;
 
     return this.createSuccess(output);
   }
@@ -890,7 +1143,8 @@ Options:
       return this.createSuccess("smpquery 5.9-0");
     }
 
-    const node = this.getNode(context);
+    const cluster = this.syncSubnet(context);
+    const node = this.getNode(context, cluster);
     if (!node || node.hcas.length === 0) {
       return this.createError("Error: No HCA found");
     }
@@ -899,6 +1153,7 @@ Options:
     const subcommand =
       parsed.subcommands[0] || parsed.positionalArgs[0] || "nodeinfo";
     const port = node.hcas[0].ports[0];
+    const { smLid } = getFabric(cluster);
 
     if (subcommand === "nodeinfo") {
       let output = `# Node info: Lid ${port.lid}\n`;
@@ -927,7 +1182,7 @@ Options:
       output += `Mkey:.....................0x0000000000000000\n`;
       output += `GidPrefix:................0xfe80000000000000\n`;
       output += `Lid:......................${port.lid}\n`;
-      output += `SMLid:....................1\n`;
+      output += `SMLid:....................${smLid}\n`;
       output += `LMC:......................0\n`;
       output += `LinkWidthEnabled:.........4X\n`;
       output += `LinkSpeedActive:..........${getIBStandardName(port.rate)}\n`;
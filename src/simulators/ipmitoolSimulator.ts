@@ -1,10 +1,27 @@
 import type { CommandResult, CommandContext } from "@/types/commands";
 import type { ParsedCommand } from "@/utils/commandParser";
-import type { BMCSensor } from "@/types/hardware";
+import type { BMCSensor, DGXNode } from "@/types/hardware";
 import {
   BaseSimulator,
   type SimulatorMetadata,
 } from "@/simulators/BaseSimulator";
+import { getNVLinkDomain, rackSensors } from "@/utils/nvlinkRack";
+import {
+  isBmcResponding,
+  planBmcReset,
+  type PowerAction,
+} from "@/utils/nodePower";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+
+// What the BMC answers to each chassis power control request
+const POWER_CONTROL_LABELS: Record<string, string> = {
+  on: "Up/On",
+  off: "Down/Off",
+  cycle: "Cycle",
+  reset: "Reset",
+  soft: "Soft",
+};
 
 export class IpmitoolSimulator extends BaseSimulator {
   /**
@@ -249,6 +266,29 @@ export class IpmitoolSimulator extends BaseSimulator {
       return this.handleHelp();
     }
 
+    // -H talks to another node's BMC over the network
+    const host = this.getFlagString(parsed, ["H", "host"]);
+    if (host) {
+      const target = this.resolveAllNodes(context).find((n) =>
+        [n.bmc.ipAddress, n.id, n.hostname, `${n.hostname}-bmc`].includes(host),
+      );
+      if (!target) {
+        return this.createError(
+          `Address lookup for ${host} failed\nError: Unable to establish IPMI v2 / RMCP+ session`,
+        );
+      }
+      context = { ...context, currentNode: target.id };
+    }
+
+    const node = this.getNode(context);
+    if (node && !isBmcResponding(node)) {
+      return this.createError(
+        host
+          ? "Error: Unable to establish IPMI v2 / RMCP+ session"
+          : "Get Device ID command failed: 0xff Unspecified error",
+      );
+    }
+
     // Route to command handler
     const handler = this.getCommand(subcommand);
 
@@ -274,6 +314,17 @@ export class IpmitoolSimulator extends BaseSimulator {
     return this.resolveNode(context) || this.resolveAllNodes(context)[0];
   }
 
+  /**
+   * The node's own sensors, followed on rack-scale compute trays by the
+   * rack's power shelf and liquid cooling sensors
+   */
+  private getSensors(context: CommandContext, node: DGXNode): BMCSensor[] {
+    const domain = getNVLinkDomain(this.resolveCluster(context), node.id);
+    return domain
+      ? [...node.bmc.sensors, ...rackSensors(domain)]
+      : node.bmc.sensors;
+  }
+
   /**
    * Format sensor list with pipe-delimited columns and thresholds
    * Per spec Section 4.1: Column alignment with | delimiter
@@ -435,11 +486,12 @@ export class IpmitoolSimulator extends BaseSimulator {
     if (!node) {
       return this.createError("Error: Unable to determine current node");
     }
+    const sensors = this.getSensors(context, node);
 
     const subsubcommand = parsed.subcommands[1];
 
     if (subsubcommand === "list" || !subsubcommand) {
-      return this.createSuccess(this.formatSensorList(node.bmc.sensors));
+      return this.createSuccess(this.formatSensorList(sensors));
     }
 
     if (subsubcommand === "get") {
@@ -451,14 +503,14 @@ export class IpmitoolSimulator extends BaseSimulator {
           "sensor get: Missing sensor name\nUsage: ipmitool sensor get <sensor_name>",
         );
       }
-      const sensor = node.bmc.sensors.find(
+      const sensor = sensors.find(
         (s) => s.name.toLowerCase() === sensorName.toLowerCase(),
       );
       if (!sensor) {
         return this.createError(`Sensor "${sensorName}" not found`);
       }
       const thresholds = this.getSensorThresholds(sensor);
-      const sensorIdx = node.bmc.sensors.indexOf(sensor);
+      const sensorIdx = sensors.indexOf(sensor);
       const output =
         `Locating sensor record...\n` +
         `Sensor ID              : ${sensor.name} (0x${sensorIdx.toString(16).padStart(2, "0")})\n` +
@@ -538,6 +590,10 @@ export class IpmitoolSimulator extends BaseSimulator {
     if (subsubcommand === "reset") {
       const action = parsed.subcommands[2];
       if (action === "cold" || action === "warm") {
+        this.resolveMutator(context).updateNodePower(
+          node.id,
+          planBmcReset(action, simulationClock.now()),
+        );
         return this.createSuccess(`Sent ${action} reset command to MC`);
       }
       return this.createError(
@@ -582,17 +638,11 @@ export class IpmitoolSimulator extends BaseSimulator {
 
     if (subsubcommand === "power") {
       const action = parsed.subcommands[2];
-      if (action === "status") {
-        return this.createSuccess(
-          `Chassis Power is ${node.bmc.powerState === "On" ? "on" : "off"}`,
-        );
-      } else if (["on", "off", "cycle", "reset"].includes(action)) {
-        return this.createSuccess(
-          `Chassis Power Control: ${action.charAt(0).toUpperCase() + action.slice(1)}`,
-        );
-      }
-      return this.createError(
-        "chassis power: Missing or invalid action\nUsage: ipmitool chassis power [status|on|off|cycle|reset]",
+      return (
+        this.handlePowerControl(context, node, action) ??
+        this.createError(
+          "chassis power: Missing or invalid action\nUsage: ipmitool chassis power [status|on|off|cycle|reset|soft]",
+        )
       );
     }
 
@@ -714,12 +764,13 @@ export class IpmitoolSimulator extends BaseSimulator {
     if (!node) {
       return this.createError("Error: Unable to determine current node");
     }
+    const sensors = this.getSensors(context, node);
 
     const subsubcommand = parsed.subcommands[1];
 
     if (subsubcommand === "list" || !subsubcommand) {
       let output = "";
-      node.bmc.sensors.forEach((sensor) => {
+      sensors.forEach((sensor) => {
         output += `${sensor.name.padEnd(20)} | ${sensor.reading.toFixed(2)} ${sensor.unit} | ${sensor.status}\n`;
       });
       return this.createSuccess(output);
@@ -728,7 +779,7 @@ export class IpmitoolSimulator extends BaseSimulator {
     if (subsubcommand === "info") {
       const output =
         `SDR Version          : 0x51\n` +
-        `Record Count         : ${node.bmc.sensors.length}\n` +
+        `Record Count         : ${sensors.length}\n` +
         `Free Space           : 8192 bytes\n` +
         `Most recent Addition : 01/01/2024 00:00:00\n` +
         `Most recent Erase    : 01/01/2024 00:00:00\n` +
@@ -740,12 +791,10 @@ export class IpmitoolSimulator extends BaseSimulator {
       const filterType = parsed.subcommands[2];
       if (!filterType) {
         // List available sensor types
-        const types = [
-          ...new Set(node.bmc.sensors.map((s) => this.getSensorType(s))),
-        ];
+        const types = [...new Set(sensors.map((s) => this.getSensorType(s)))];
         return this.createSuccess(types.join("\n") + "\n");
       }
-      const filtered = node.bmc.sensors.filter(
+      const filtered = sensors.filter(
         (s) => this.getSensorType(s).toLowerCase() === filterType.toLowerCase(),
       );
       if (filtered.length === 0) {
@@ -767,7 +816,7 @@ export class IpmitoolSimulator extends BaseSimulator {
           "sdr get: Missing sensor name\nUsage: ipmitool sdr get <sensor_name>",
         );
       }
-      const sensor = node.bmc.sensors.find(
+      const sensor = sensors.find(
         (s) => s.name.toLowerCase() === sensorName.toLowerCase(),
       );
       if (!sensor) {
@@ -838,7 +887,7 @@ export class IpmitoolSimulator extends BaseSimulator {
         // Add temperature warning SEL entries
         if (gpu.temperature > 80) {
           const hexId = recordId.toString(16).padStart(4, "0");
-          const timeStr = new Date().toLocaleString("en-US", {
+          const timeStr = simulationClock.date().toLocaleString("en-US", {
             month: "2-digit",
             day: "2-digit",
             year: "numeric",
@@ -861,7 +910,7 @@ export class IpmitoolSimulator extends BaseSimulator {
         // Add ECC error SEL entries
         if (gpu.eccErrors && gpu.eccErrors.doubleBit > 0) {
           const hexId = recordId.toString(16).padStart(4, "0");
-          const timeStr = new Date().toLocaleString("en-US", {
+          const timeStr = simulationClock.date().toLocaleString("en-US", {
             month: "2-digit",
             day: "2-digit",
             year: "numeric",
@@ -976,11 +1025,15 @@ export class IpmitoolSimulator extends BaseSimulator {
       if (subsubsubcommand === "reading") {
         // Calculate power from all GPUs + system overhead
         const gpuPower = node.gpus.reduce((sum, gpu) => sum + gpu.powerDraw, 0);
-        const systemPower = Math.round(gpuPower + 300 + Math.random() * 50); // Add system overhead
+        const systemPower = Math.round(
+          gpuPower + 300 + simulationRandom.next() * 50,
+        ); // Add system overhead
         const minPower = Math.round(systemPower * 0.95);
-        const maxPower = Math.round(systemPower * 1.5 + Math.random() * 500);
+        const maxPower = Math.round(
+          systemPower * 1.5 + simulationRandom.next() * 500,
+        );
 
-        const timestamp = new Date().toUTCString();
+        const timestamp = simulationClock.date().toUTCString();
 
         // Golden Output Reference per spec Section 4.3
         const output =
@@ -1051,8 +1104,9 @@ export class IpmitoolSimulator extends BaseSimulator {
     }
 
     if (subsubcommand === "sensors") {
+      const sensors = this.getSensors(context, node);
       let output = `Record ID  : Sensor Name         | Reading     | Status\n`;
-      node.bmc.sensors.forEach((sensor, idx) => {
+      sensors.forEach((sensor, idx) => {
         output += `${String(idx + 1).padStart(9)}  : ${sensor.name.padEnd(20)} | ${String(sensor.reading).padStart(11)} ${sensor.unit} | ${sensor.status}\n`;
       });
       return this.createSuccess(output);
@@ -1134,18 +1188,37 @@ export class IpmitoolSimulator extends BaseSimulator {
     // "ipmitool power status" → treat as "ipmitool chassis power status"
     const subArg = parsed.subcommands[1] || "status";
 
-    if (subArg === "status") {
+    return (
+      this.handlePowerControl(context, node, subArg) ??
+      this.createError(
+        `Invalid power command: ${subArg}\npower commands: status, on, off, cycle, reset, soft`,
+      )
+    );
+  }
+
+  /**
+   * Report or switch chassis power. Returns undefined for an unknown action
+   * so each caller can print its own usage.
+   */
+  private handlePowerControl(
+    context: CommandContext,
+    node: DGXNode,
+    action: string,
+  ): CommandResult | undefined {
+    if (action === "status") {
       return this.createSuccess(
         `Chassis Power is ${node.bmc.powerState === "On" ? "on" : "off"}`,
       );
     }
-    if (["on", "off", "cycle", "reset"].includes(subArg)) {
-      return this.createSuccess(
-        `Chassis Power Control: ${subArg.charAt(0).toUpperCase() + subArg.slice(1)}`,
+    const label = POWER_CONTROL_LABELS[action];
+    if (!label) return undefined;
+
+    const error = this.applyPowerAction(context, node, action as PowerAction);
+    if (error) {
+      return this.createError(
+        `Set Chassis Power Control to ${label} failed: ${error}`,
       );
     }
-    return this.createError(
-      `Invalid power command: ${subArg}\npower commands: status, on, off, cycle, reset`,
-    );
+    return this.createSuccess(`Chassis Power Control: ${label}`);
   }
 }
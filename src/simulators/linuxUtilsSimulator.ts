@@ -5,6 +5,130 @@ import type {
   SimulatorMetadata,
 } from "@/types/commands";
 import { BaseSimulator } from "./BaseSimulator";
+import {
+  formatMode,
+  resolvePath,
+  type VfsStat,
+} from "@/simulation/virtualFileSystem";
+import { simulationClock } from "@/simulation/simulationClock";
+import type { DGXNode, DkmsBuild, InstalledPackage } from "@/types/hardware";
+import {
+  availablePackages,
+  driverBranch,
+  getNodePackages,
+  matchesPattern,
+  planAutoremove,
+  planHold,
+  planPackageInstall,
+  planPackageRemoval,
+  planUpgrade,
+  type PackagePlan,
+} from "@/utils/nodePackages";
+
+// Packages every node has besides the NVIDIA stack
+const BASE_PACKAGES: InstalledPackage[] = [
+  {
+    name: "apt",
+    version: "2.4.10",
+    description: "commandline package manager",
+  },
+  {
+    name: "base-files",
+    version: "12ubuntu4.4",
+    description: "Debian base system miscellaneous files",
+  },
+  {
+    name: "bash",
+    version: "5.1-6ubuntu1.1",
+    description: "GNU Bourne Again SHell",
+  },
+];
+
+const CONTAINER_TOOLKIT_PACKAGES: InstalledPackage[] = [
+  {
+    name: "libnvidia-container-tools",
+    version: "1.14.3-1",
+    description: "NVIDIA container library tools",
+  },
+  {
+    name: "libnvidia-container1",
+    version: "1.14.3-1",
+    description: "NVIDIA container library",
+  },
+  {
+    name: "nvidia-container-runtime",
+    version: "3.14.0-1",
+    description: "NVIDIA Container Runtime (runc wrapper)",
+  },
+  {
+    name: "nvidia-container-toolkit",
+    version: "1.14.3-1",
+    description: "NVIDIA Container Toolkit (includes runtime, hook, CLI)",
+  },
+  {
+    name: "nvidia-container-toolkit-base",
+    version: "1.14.3-1",
+    description: "NVIDIA Container Toolkit Base",
+  },
+];
+
+const APT_READING = [
+  "Reading package lists... Done",
+  "Building dependency tree... Done",
+  "Reading state information... Done",
+];
+
+/**
+ * What DKMS prints while dpkg configures the driver's DKMS package
+ */
+function dkmsBuildLog(build: DkmsBuild): string[] {
+  const loading = `Loading new ${build.module}-${build.version} DKMS files...`;
+  if (build.status === "installed") {
+    return [
+      loading,
+      `Building for ${build.kernel}`,
+      `Building initial module for ${build.kernel}`,
+      "Done.",
+      "",
+      `${build.module}.ko:`,
+      "Running module version sanity check.",
+      " - Original module",
+      "   - No original module exists within this kernel",
+      " - Installation",
+      `   - Installing to /lib/modules/${build.kernel}/updates/dkms/`,
+      "",
+      "depmod....",
+    ];
+  }
+  const branch = driverBranch(build.version);
+  return [
+    loading,
+    `Error! Your kernel headers for kernel ${build.kernel} cannot be found.`,
+    `Please install the linux-headers-${build.kernel} package,`,
+    "or use the --kernelsourcedir option to tell DKMS where it's located",
+    `dpkg: error processing package nvidia-dkms-${branch} (--configure):`,
+    ` installed nvidia-dkms-${branch} package post-installation script subprocess returned error exit status 1`,
+    "Errors were encountered while processing:",
+    ` nvidia-dkms-${branch}`,
+    ` nvidia-driver-${branch}`,
+  ];
+}
+
+/**
+ * Format a modification time like `ls -l`: recent files show the time of
+ * day, anything older than six months shows the year instead.
+ */
+function formatLsTime(mtime: number): string {
+  const date = new Date(mtime);
+  const month = date.toLocaleString("en-US", { month: "short" });
+  const day = date.getDate().toString().padStart(2);
+  const sixMonths = 182 * 24 * 60 * 60 * 1000;
+  if (Math.abs(simulationClock.now() - mtime) < sixMonths) {
+    const time = `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`;
+    return `${month} ${day} ${time}`;
+  }
+  return `${month} ${day}  ${date.getFullYear()}`;
+}
 
 /**
  * LinuxUtilsSimulator
@@ -23,6 +147,8 @@ import { BaseSimulator } from "./BaseSimulator";
  * - env: Display environment variables
  * - dpkg: Debian package manager query
  * - apt: APT package manager
+ * - apt-mark: Hold or release packages
+ * - dkms: Dynamic Kernel Module Support
  * - nvcc: NVIDIA CUDA Compiler version
  * - iostat: Report CPU and I/O statistics
  * - efibootmgr: EFI Boot Manager
@@ -49,6 +175,8 @@ export class LinuxUtilsSimulator extends BaseSimulator {
         { name: "env", description: "Display environment variables" },
         { name: "dpkg", description: "Debian package manager query" },
         { name: "apt", description: "APT package manager" },
+        { name: "apt-mark", description: "Hold or release packages" },
+        { name: "dkms", description: "Dynamic Kernel Module Support" },
         { name: "nvcc", description: "NVIDIA CUDA Compiler version" },
         { name: "iostat", description: "Report CPU and I/O statistics" },
         { name: "efibootmgr", description: "EFI Boot Manager" },
@@ -100,6 +228,10 @@ export class LinuxUtilsSimulator extends BaseSimulator {
         return this.handleDpkg(parsed, context);
       case "apt":
         return this.handleApt(parsed, context);
+      case "apt-mark":
+        return this.handleAptMark(parsed, context);
+      case "dkms":
+        return this.handleDkms(parsed, context);
       case "nvcc":
         return this.handleNvcc(parsed, context);
       case "iostat":
@@ -118,7 +250,7 @@ export class LinuxUtilsSimulator extends BaseSimulator {
   }
 
   // =========================================================================
-  // Virtual filesystem for cat / head / tail / ls / wc
+  // Node filesystem access for cat / head / tail / ls / wc / grep
   // =========================================================================
 
   /**
@@ -126,327 +258,25 @@ export class LinuxUtilsSimulator extends BaseSimulator {
    * Handles relative paths, `.`, and `..`.
    */
   private resolvePath(rawPath: string, context: CommandContext): string {
-    let target = rawPath;
-
-    // Resolve relative paths against cwd
-    if (!target.startsWith("/")) {
-      const base = context.currentPath || "/root";
-      target = base === "/" ? `/${target}` : `${base}/${target}`;
-    }
-
-    // Normalize . and ..
-    const parts = target.split("/").filter(Boolean);
-    const resolved: string[] = [];
-    for (const p of parts) {
-      if (p === ".") continue;
-      if (p === "..") {
-        resolved.pop();
-      } else {
-        resolved.push(p);
-      }
-    }
+    return resolvePath(rawPath, context.currentPath || "/root");
+  }
 
-    return "/" + resolved.join("/");
+  private getNodeId(context: CommandContext): string {
+    return context.currentNode || "dgx-node-01";
   }
 
   /**
-   * Returns simulated file contents for known paths.
-   * Unknown paths return undefined (triggering a "No such file" error).
+   * Read a file from the current node's filesystem.
+   * Missing files and directories come back as an error message instead.
    */
-  private getFileContents(
+  private readFile(
     filePath: string,
     context: CommandContext,
-  ): string | undefined {
-    const resolved = this.resolvePath(filePath, context);
-    const hostname = context.currentNode || "dgx-node-01";
-
-    const files: Record<string, string> = {
-      "/etc/hostname": hostname,
-
-      "/etc/hosts": `127.0.0.1   localhost
-127.0.1.1   ${hostname}
-10.0.0.1    dgx-00
-10.0.0.2    dgx-01
-10.0.0.3    dgx-02
-10.0.0.4    dgx-03
-
-# The following lines are desirable for IPv6 capable hosts
-::1     ip6-localhost ip6-loopback
-fe00::0 ip6-localnet
-ff00::0 ip6-mcastprefix
-ff02::1 ip6-allnodes
-ff02::2 ip6-allrouters`,
-
-      "/proc/driver/nvidia/version": `NVRM version: NVIDIA UNIX x86_64 Kernel Module  535.129.03  Thu Dec  7 19:01:02 UTC 2023
-GCC version:  gcc version 11.4.0 (Ubuntu 11.4.0-1ubuntu1~22.04)`,
-
-      "/etc/slurm/gres.conf": `# GRES (Generic Resource) Configuration
-# AutoDetect=nvml
-Name=gpu Type=a100 File=/dev/nvidia0
-Name=gpu Type=a100 File=/dev/nvidia1
-Name=gpu Type=a100 File=/dev/nvidia2
-Name=gpu Type=a100 File=/dev/nvidia3
-Name=gpu Type=a100 File=/dev/nvidia4
-Name=gpu Type=a100 File=/dev/nvidia5
-Name=gpu Type=a100 File=/dev/nvidia6
-Name=gpu Type=a100 File=/dev/nvidia7`,
-
-      "/etc/slurm/slurm.conf": `# Slurm configuration file
-ClusterName=dgx-cluster
-SlurmctldHost=${hostname}
-MpiDefault=pmix
-ProctrackType=proctrack/cgroup
-ReturnToService=2
-SlurmctldPidFile=/run/slurmctld.pid
-SlurmdPidFile=/run/slurmd.pid
-SlurmdSpoolDir=/var/spool/slurmd
-StateSaveLocation=/var/spool/slurmctld
-SwitchType=switch/none
-TaskPlugin=task/affinity,task/cgroup
-GresTypes=gpu
-NodeName=dgx-[00-03] Gres=gpu:a100:8 CPUs=128 Boards=1 SocketsPerBoard=2 CoresPerSocket=64 ThreadsPerCore=2 RealMemory=1024000
-PartitionName=batch Nodes=dgx-[00-03] Default=YES MaxTime=INFINITE State=UP`,
-
-      "/proc/net/bonding/bond0": `Ethernet Channel Bonding Driver: v5.15.0-91-generic
-
-Bonding Mode: IEEE 802.3ad Dynamic link aggregation
-Transmit Hash Policy: layer3+4 (1)
-MII Status: up
-MII Polling Interval (ms): 100
-Up Delay (ms): 0
-Down Delay (ms): 0
-Peer Notification Delay (ms): 0
-
-802.3ad info
-LACP active: on
-LACP rate: fast
-Min links: 0
-Aggregator selection policy (ad_select): stable
-
-Slave Interface: enp1s0f0
-MII Status: up
-Speed: 100000 Mbps
-Duplex: full
-Link Failure Count: 0
-Permanent HW addr: 00:11:22:33:44:55
-Slave queue ID: 0
-Aggregator ID: 1
-
-Slave Interface: enp1s0f1
-MII Status: up
-Speed: 100000 Mbps
-Duplex: full
-Link Failure Count: 0
-Permanent HW addr: 00:11:22:33:44:56
-Slave queue ID: 0
-Aggregator ID: 1`,
-
-      "/root/HPL.dat": `HPLinpack benchmark input file
-Innovative Computing Laboratory, University of Tennessee
-HPL.out      output file name (if any)
-6            device out (6=stdout,7=stderr,file)
-1            # of problems sizes (N)
-131072       Ns
-1            # of NBs
-384          NBs
-0            PMAP process mapping (0=Row-,1=Column-major)
-1            # of process grids (P x Q)
-2            Ps
-4            Qs
-16.0         threshold
-1            # of panel fact
-2            PFACTs (0=left, 1=Crout, 2=Right)
-1            # of recursive stopping criterium
-4            NBMINs (>= 1)
-1            # of panels in recursion
-2            NDIVs
-1            # of recursive panel fact.
-1            RFACTs (0=left, 1=Crout, 2=Right)
-1            # of broadcast
-1            BCASTs (0=1rg,1=1rM,2=2rg,3=2rM,4=Lng,5=LnM)
-1            # of lookahead depth
-1            DEPTHs (>=0)
-2            SWAP (0=bin-exch,1=long,2=mix)
-64           swapping threshold
-0            L1 in (0=transposed,1=no-transposed) form
-0            U  in (0=transposed,1=no-transposed) form
-1            Equilibration (0=no,1=yes)
-8            memory alignment in double (> 0)`,
-
-      "/home/admin/HPL.dat": `HPLinpack benchmark input file
-Innovative Computing Laboratory, University of Tennessee
-HPL.out      output file name (if any)
-6            device out (6=stdout,7=stderr,file)
-1            # of problems sizes (N)
-131072       Ns
-1            # of NBs
-384          NBs
-0            PMAP process mapping (0=Row-,1=Column-major)
-1            # of process grids (P x Q)
-2            Ps
-4            Qs
-16.0         threshold
-1            # of panel fact
-2            PFACTs (0=left, 1=Crout, 2=Right)
-1            # of recursive stopping criterium
-4            NBMINs (>= 1)
-1            # of panels in recursion
-2            NDIVs
-1            # of recursive panel fact.
-1            RFACTs (0=left, 1=Crout, 2=Right)
-1            # of broadcast
-1            BCASTs (0=1rg,1=1rM,2=2rg,3=2rM,4=Lng,5=LnM)
-1            # of lookahead depth
-1            DEPTHs (>=0)
-2            SWAP (0=bin-exch,1=long,2=mix)
-64           swapping threshold
-0            L1 in (0=transposed,1=no-transposed) form
-0            U  in (0=transposed,1=no-transposed) form
-1            Equilibration (0=no,1=yes)
-8            memory alignment in double (> 0)`,
-
-      "/root/scripts/setup.sh": `#!/bin/bash
-# DGX System Setup Script
-set -e
-
-echo "Configuring NVIDIA drivers..."
-nvidia-smi -pm 1
-nvidia-smi -ac 1215,1410
-
-echo "Verifying GPU topology..."
-nvidia-smi topo -m
-
-echo "Setup complete."`,
-
-      "/root/scripts/backup.sh": `#!/bin/bash
-# Cluster Backup Script
-set -e
-
-BACKUP_DIR="/data/backups/$(date +%Y%m%d)"
-mkdir -p "$BACKUP_DIR"
-
-echo "Backing up Slurm configuration..."
-cp /etc/slurm/*.conf "$BACKUP_DIR/"
-
-echo "Backing up NCCL configuration..."
-cp /etc/nccl.conf "$BACKUP_DIR/"
-
-echo "Backup complete: $BACKUP_DIR"`,
-
-      "/home/admin/scripts/monitor.sh": `#!/bin/bash
-# GPU Health Monitor Script
-while true; do
-  nvidia-smi --query-gpu=index,temperature.gpu,utilization.gpu,memory.used --format=csv,noheader
-  sleep 5
-done`,
-
-      "/etc/nccl.conf": `# NCCL Configuration
-NCCL_DEBUG=INFO
-NCCL_IB_DISABLE=0
-NCCL_SOCKET_IFNAME=eth0
-NCCL_IB_HCA=mlx5
-NCCL_TOPO_FILE=/etc/nccl/topo.xml`,
-
-      "/etc/nvidia-container-runtime/config.toml": `[nvidia-container-cli]
-#root = "/run/nvidia/driver"
-#path = "/usr/bin/nvidia-container-cli"
-environment = []
-#debug = "/var/log/nvidia-container-toolkit.log"
-#ldcache = "/etc/ld.so.cache"
-load-kmods = true
-#no-cgroups = false
-#user = "root:video"
-ldconfig = "@/sbin/ldconfig"
-
-[nvidia-container-runtime]
-#debug = "/var/log/nvidia-container-runtime.log"
-log-level = "info"
-mode = "auto"
-runtimes = ["docker-runc", "runc"]
-
-[nvidia-container-runtime.modes.csv]
-mount-spec-path = "/etc/nvidia-container-runtime/host-files-for-container.d"`,
-
-      "/etc/fstab": `# /etc/fstab: static file system information.
-UUID=abcd-1234-efgh-5678   /               ext4    errors=remount-ro 0       1
-UUID=dcba-4321-hgfe-8765   /boot/efi       vfat    umask=0077        0       1
-nas01:/data                /data           nfs     defaults          0       0
-nas01:/home                /home           nfs     defaults          0       0
-lustre@tcp:/scratch        /scratch        lustre  defaults          0       0
-tmpfs                      /dev/shm        tmpfs   defaults,size=64g 0       0`,
-
-      "/etc/docker/daemon.json": `{
-  "default-runtime": "nvidia",
-  "runtimes": {
-    "nvidia": {
-      "path": "nvidia-container-runtime",
-      "runtimeArgs": []
-    }
-  },
-  "storage-driver": "overlay2",
-  "log-driver": "json-file",
-  "log-opts": {
-    "max-size": "100m",
-    "max-file": "5"
-  },
-  "default-shm-size": "64G"
-}`,
-
-      "/var/log/syslog": `Feb 12 08:15:01 dgx-00 CRON[12345]: (root) CMD (test -x /usr/sbin/anacron || ( cd / && run-parts --report /etc/cron.daily ))
-Feb 12 08:15:03 dgx-00 systemd[1]: Starting Daily apt download activities...
-Feb 12 08:15:05 dgx-00 kernel: [234567.890] NVRM: GPU at 0000:07:00.0 has been initialized
-Feb 12 08:15:05 dgx-00 kernel: [234567.891] NVRM: GPU at 0000:0a:00.0 has been initialized
-Feb 12 08:15:06 dgx-00 nvidia-fabricmanager[1234]: GPU 0 (UUID: GPU-abc12345) registered
-Feb 12 08:15:06 dgx-00 nvidia-fabricmanager[1234]: GPU 1 (UUID: GPU-def67890) registered
-Feb 12 08:15:07 dgx-00 nvidia-fabricmanager[1234]: NVSwitch fabric initialized successfully
-Feb 12 08:15:10 dgx-00 dcgm[5678]: DCGM initialized successfully
-Feb 12 08:15:12 dgx-00 kernel: [234568.100] mlx5_core 0000:e3:00.0: firmware version: 20.38.1002
-Feb 12 08:15:12 dgx-00 kernel: [234568.101] mlx5_core 0000:e3:00.0: ConnectX-7 HCA registered
-Feb 12 08:15:15 dgx-00 slurmd[9012]: slurmd version 23.02.6 started
-Feb 12 08:15:15 dgx-00 slurmd[9012]: Node configuration: CPUs=128 Boards=1 SocketsPerBoard=2
-Feb 12 08:15:16 dgx-00 kernel: [234568.500] nvidia-peermem: module loaded
-Feb 12 08:15:17 dgx-00 containerd[3456]: containerd started
-Feb 12 08:15:18 dgx-00 dockerd[3457]: Docker daemon initialized
-Feb 12 08:15:20 dgx-00 systemd[1]: Started NVIDIA Persistence Daemon.
-Feb 12 08:15:21 dgx-00 nvidia-persistenced[7890]: PID file: /var/run/nvidia-persistenced/nvidia-persistenced.pid
-Feb 12 08:15:22 dgx-00 kernel: [234569.000] ECC: All GPUs reporting 0 errors
-Feb 12 08:15:25 dgx-00 nvsm[4321]: Health check completed: All components OK
-Feb 12 08:15:30 dgx-00 CRON[12346]: (root) CMD (/usr/lib/nvidia/nvsm/nvsm_monitor)`,
-
-      "/var/log/dmesg": `[    0.000000] Linux version 5.15.0-91-generic (buildd@lcy02-amd64-116) (gcc (Ubuntu 11.4.0-1ubuntu1~22.04) 11.4.0, GNU ld (GNU Binutils for Ubuntu) 2.38)
-[    0.000000] Command line: BOOT_IMAGE=/vmlinuz-5.15.0-91-generic root=UUID=abcd-1234 ro quiet splash
-[    1.234567] ACPI: RSDP 0x00000000000F0490 000024 (v02 NVIDIA)
-[    2.345678] PCI: Using configuration type 1 for base access
-[    5.123456] nvidia: loading out-of-tree module taints kernel.
-[    5.234567] nvidia: module license 'NVIDIA' taints kernel.
-[    5.345678] NVRM: loading NVIDIA UNIX x86_64 Kernel Module  535.129.03
-[    5.456789] nvidia-nvlink: Nvlink Core is being initialized
-[    5.567890] nvidia 0000:07:00.0: enabling device (0000 -> 0003)
-[    5.678901] nvidia 0000:07:00.0: vgaarb: changed VGA decode
-[    6.123456] NVRM: GPU 0000:07:00.0: RmInitAdapter succeeded!
-[    6.234567] NVRM: GPU 0000:0a:00.0: RmInitAdapter succeeded!
-[    6.345678] NVRM: GPU 0000:47:00.0: RmInitAdapter succeeded!
-[    6.456789] NVRM: GPU 0000:4e:00.0: RmInitAdapter succeeded!
-[    6.567890] NVRM: GPU 0000:87:00.0: RmInitAdapter succeeded!
-[    6.678901] NVRM: GPU 0000:90:00.0: RmInitAdapter succeeded!
-[    6.789012] NVRM: GPU 0000:b7:00.0: RmInitAdapter succeeded!
-[    6.890123] NVRM: GPU 0000:bd:00.0: RmInitAdapter succeeded!
-[    7.123456] nvidia-peermem: Mellanox different types of NVIDIA peer memory client registered
-[    7.234567] mlx5_core 0000:e3:00.0: firmware version: 20.38.1002, flow steering mode(DMFS)`,
-
-      "/var/log/kern.log": `Feb 12 08:15:05 dgx-00 kernel: [234567.890] NVRM: GPU at 0000:07:00.0 has been initialized
-Feb 12 08:15:05 dgx-00 kernel: [234567.891] NVRM: GPU at 0000:0a:00.0 has been initialized
-Feb 12 08:15:05 dgx-00 kernel: [234567.892] NVRM: GPU at 0000:47:00.0 has been initialized
-Feb 12 08:15:05 dgx-00 kernel: [234567.893] NVRM: GPU at 0000:4e:00.0 has been initialized
-Feb 12 08:15:12 dgx-00 kernel: [234568.100] mlx5_core 0000:e3:00.0: firmware version: 20.38.1002
-Feb 12 08:15:12 dgx-00 kernel: [234568.101] mlx5_core 0000:e3:00.0: ConnectX-7 HCA registered
-Feb 12 08:15:16 dgx-00 kernel: [234568.500] nvidia-peermem: module loaded
-Feb 12 08:15:22 dgx-00 kernel: [234569.000] ECC: All GPUs reporting 0 errors
-Feb 12 08:15:23 dgx-00 kernel: [234569.100] XID 79 on GPU 0000:07:00.0: GPU has fallen off the bus
-Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lost`,
-    };
-
-    return files[resolved];
+  ): { content?: string; error?: string } {
+    return this.resolveFileSystem(context).readFile(
+      this.getNodeId(context),
+      this.resolvePath(filePath, context),
+    );
   }
 
   // =========================================================================
@@ -479,10 +309,10 @@ Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lo
       return this.createError("cat: missing file operand");
     }
 
-    const contents = this.getFileContents(filePath, context);
+    const { content: contents, error } = this.readFile(filePath, context);
     if (contents === undefined) {
       return {
-        output: `cat: ${filePath}: No such file or directory`,
+        output: `cat: ${filePath}: ${error}`,
         exitCode: 1,
       };
     }
@@ -516,302 +346,92 @@ Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lo
     parsed: ParsedCommand,
     context: CommandContext,
   ): CommandResult {
-    let longFormat = this.hasAnyFlag(parsed, ["l"]);
-    let all = this.hasAnyFlag(parsed, ["a"]);
-    let rawPath = parsed.subcommands[0] || parsed.positionalArgs[0];
-
-    // Handle combined short flags (e.g., -la, -lah, -al) that the parser
-    // treats as a single multi-char flag, consuming the next arg as its value
-    for (const [key, value] of parsed.flags) {
-      if (key.length > 1 && /^[laRrhS]+$/.test(key)) {
-        if (key.includes("l")) longFormat = true;
-        if (key.includes("a")) all = true;
-        if (!rawPath && typeof value === "string" && value !== "true") {
-          rawPath = value;
-        }
+    // Walk the raw arguments: the parser would take `-l /tmp` as a flag
+    // with a value, and combined flags (-la, -lah) as one long flag.
+    let longFormat = false;
+    let all = false;
+    let rawPath: string | undefined;
+    for (const arg of parsed.rawArgs) {
+      if (arg.startsWith("--")) {
+        if (arg === "--all" || arg === "--almost-all") all = true;
+      } else if (arg.startsWith("-") && arg.length > 1) {
+        if (arg.includes("l")) longFormat = true;
+        if (arg.includes("a") || arg.includes("A")) all = true;
+      } else if (!rawPath) {
+        rawPath = arg;
       }
     }
 
+    const fs = this.resolveFileSystem(context);
+    const nodeId = this.getNodeId(context);
     const dirPath = rawPath
       ? this.resolvePath(rawPath, context)
       : context.currentPath || "/root";
 
-    // Simulated directory listings
-    const directories: Record<string, string[][]> = {
-      "/": [
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "bin"],
-        ["drwxr-xr-x", "4", "root", "root", "4096", "Jan 10 12:00", "boot"],
-        ["drwxr-xr-x", "18", "root", "root", "4200", "Jan 10 12:00", "dev"],
-        ["drwxr-xr-x", "130", "root", "root", "12288", "Jan 10 12:00", "etc"],
-        ["drwxr-xr-x", "3", "root", "root", "4096", "Jan 10 12:00", "home"],
-        ["drwxr-xr-x", "22", "root", "root", "4096", "Jan 10 12:00", "lib"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "lib64"],
-        [
-          "drwx------",
-          "2",
-          "root",
-          "root",
-          "16384",
-          "Jan 10 12:00",
-          "lost+found",
-        ],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "media"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "mnt"],
-        ["drwxr-xr-x", "4", "root", "root", "4096", "Jan 10 12:00", "opt"],
-        ["dr-xr-xr-x", "580", "root", "root", "0", "Jan 10 12:00", "proc"],
-        ["drwx------", "6", "root", "root", "4096", "Jan 10 12:00", "root"],
-        ["drwxr-xr-x", "32", "root", "root", "940", "Jan 10 12:00", "run"],
-        ["drwxr-xr-x", "2", "root", "root", "12288", "Jan 10 12:00", "sbin"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "srv"],
-        ["dr-xr-xr-x", "13", "root", "root", "0", "Jan 10 12:00", "sys"],
-        ["drwxrwxrwt", "14", "root", "root", "4096", "Feb 12 08:15", "tmp"],
-        ["drwxr-xr-x", "12", "root", "root", "4096", "Jan 10 12:00", "usr"],
-        ["drwxr-xr-x", "14", "root", "root", "4096", "Jan 10 12:00", "var"],
-      ],
-      "/root": [
-        ["-rw-r--r--", "1", "root", "root", "3106", "Jan 10 12:00", ".bashrc"],
-        ["-rw-r--r--", "1", "root", "root", "161", "Jan 10 12:00", ".profile"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "scripts"],
-        ["-rw-r--r--", "1", "root", "root", "2048", "Jan 10 12:00", "HPL.dat"],
-      ],
-      "/home/admin": [
-        [
-          "-rw-r--r--",
-          "1",
-          "admin",
-          "admin",
-          "3106",
-          "Jan 10 12:00",
-          ".bashrc",
-        ],
-        [
-          "-rw-r--r--",
-          "1",
-          "admin",
-          "admin",
-          "161",
-          "Jan 10 12:00",
-          ".profile",
-        ],
-        [
-          "drwxr-xr-x",
-          "2",
-          "admin",
-          "admin",
-          "4096",
-          "Jan 10 12:00",
-          "scripts",
-        ],
-        [
-          "-rw-r--r--",
-          "1",
-          "admin",
-          "admin",
-          "2048",
-          "Jan 10 12:00",
-          "HPL.dat",
-        ],
-      ],
-      "/root/scripts": [
-        ["-rwxr-xr-x", "1", "root", "root", "1024", "Jan 10 12:00", "setup.sh"],
-        [
-          "-rwxr-xr-x",
-          "1",
-          "root",
-          "root",
-          "2048",
-          "Jan 10 12:00",
-          "backup.sh",
-        ],
-      ],
-      "/home/admin/scripts": [
-        [
-          "-rwxr-xr-x",
-          "1",
-          "admin",
-          "admin",
-          "1536",
-          "Jan 10 12:00",
-          "monitor.sh",
-        ],
-      ],
-      "/etc/slurm": [
-        [
-          "-rw-r--r--",
-          "1",
-          "root",
-          "root",
-          "1234",
-          "Jan 10 12:00",
-          "slurm.conf",
-        ],
-        ["-rw-r--r--", "1", "root", "root", "512", "Jan 10 12:00", "gres.conf"],
-        [
-          "-rw-r--r--",
-          "1",
-          "root",
-          "root",
-          "256",
-          "Jan 10 12:00",
-          "cgroup.conf",
-        ],
-      ],
-      "/dev": [
-        ["crw-rw-rw-", "1", "root", "root", "195,0", "Jan 10 12:00", "nvidia0"],
-        ["crw-rw-rw-", "1", "root", "root", "195,1", "Jan 10 12:00", "nvidia1"],
-        ["crw-rw-rw-", "1", "root", "root", "195,2", "Jan 10 12:00", "nvidia2"],
-        ["crw-rw-rw-", "1", "root", "root", "195,3", "Jan 10 12:00", "nvidia3"],
-        ["crw-rw-rw-", "1", "root", "root", "195,4", "Jan 10 12:00", "nvidia4"],
-        ["crw-rw-rw-", "1", "root", "root", "195,5", "Jan 10 12:00", "nvidia5"],
-        ["crw-rw-rw-", "1", "root", "root", "195,6", "Jan 10 12:00", "nvidia6"],
-        ["crw-rw-rw-", "1", "root", "root", "195,7", "Jan 10 12:00", "nvidia7"],
-        [
-          "crw-rw-rw-",
-          "1",
-          "root",
-          "root",
-          "195,255",
-          "Jan 10 12:00",
-          "nvidiactl",
-        ],
-        [
-          "crw-rw-rw-",
-          "1",
-          "root",
-          "root",
-          "235,0",
-          "Jan 10 12:00",
-          "nvidia-uvm",
-        ],
-      ],
-      "/etc": [
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "apt"],
-        [
-          "-rw-r--r--",
-          "1",
-          "root",
-          "root",
-          "2981",
-          "Jan 10 12:00",
-          "bash.bashrc",
-        ],
-        ["-rw-r--r--", "1", "root", "root", "367", "Jan 10 12:00", "hosts"],
-        ["-rw-r--r--", "1", "root", "root", "14", "Jan 10 12:00", "hostname"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "network"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "nvidia"],
-        ["-rw-r--r--", "1", "root", "root", "552", "Jan 10 12:00", "passwd"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "slurm"],
-        [
-          "-rw-r--r--",
-          "1",
-          "root",
-          "root",
-          "1722",
-          "Jan 10 12:00",
-          "sysctl.conf",
-        ],
-      ],
-      "/home": [
-        ["drwxr-xr-x", "4", "admin", "admin", "4096", "Jan 10 12:00", "admin"],
-      ],
-      "/usr": [
-        ["drwxr-xr-x", "2", "root", "root", "69632", "Jan 10 12:00", "bin"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "include"],
-        ["drwxr-xr-x", "92", "root", "root", "4096", "Jan 10 12:00", "lib"],
-        ["drwxr-xr-x", "12", "root", "root", "4096", "Jan 10 12:00", "local"],
-        ["drwxr-xr-x", "2", "root", "root", "12288", "Jan 10 12:00", "sbin"],
-        ["drwxr-xr-x", "160", "root", "root", "4096", "Jan 10 12:00", "share"],
-      ],
-      "/usr/bin": [
-        ["-rwxr-xr-x", "1", "root", "root", "35312", "Jan 10 12:00", "bash"],
-        ["-rwxr-xr-x", "1", "root", "root", "142848", "Jan 10 12:00", "grep"],
-        ["-rwxr-xr-x", "1", "root", "root", "59160", "Jan 10 12:00", "less"],
-        [
-          "-rwxr-xr-x",
-          "1",
-          "root",
-          "root",
-          "14568",
-          "Jan 10 12:00",
-          "nvidia-smi",
-        ],
-        ["-rwxr-xr-x", "1", "root", "root", "45896", "Jan 10 12:00", "python3"],
-        ["-rwxr-xr-x", "1", "root", "root", "35312", "Jan 10 12:00", "vim"],
-      ],
-      "/var": [
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "cache"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "lib"],
-        ["drwxrwxr-x", "14", "syslog", "adm", "4096", "Feb 12 08:15", "log"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "run"],
-        ["drwxr-xr-x", "2", "root", "root", "4096", "Jan 10 12:00", "spool"],
-        ["drwxrwxrwt", "2", "root", "root", "4096", "Jan 10 12:00", "tmp"],
-      ],
-      "/var/log": [
-        [
-          "-rw-r-----",
-          "1",
-          "syslog",
-          "adm",
-          "234567",
-          "Feb 12 08:15",
-          "syslog",
-        ],
-        [
-          "-rw-r-----",
-          "1",
-          "root",
-          "adm",
-          "123456",
-          "Feb 12 08:15",
-          "kern.log",
-        ],
-        ["-rw-r-----", "1", "root", "adm", "345678", "Feb 12 08:15", "dmesg"],
-        ["-rw-r-----", "1", "root", "adm", "67890", "Feb 12 08:15", "auth.log"],
-        ["-rw-r-----", "1", "root", "adm", "45678", "Feb 12 08:15", "dpkg.log"],
-      ],
-    };
+    // `ls -l` on a symlink describes the link itself
+    const target =
+      (longFormat ? fs.lstat(nodeId, dirPath) : undefined) ??
+      fs.stat(nodeId, dirPath);
+    if (!target) {
+      return {
+        output: `ls: cannot access '${rawPath ?? dirPath}': No such file or directory`,
+        exitCode: 2,
+      };
+    }
 
-    const entries = directories[dirPath];
-    if (!entries) {
-      // Infer child directories from known paths to give a plausible listing
-      const prefix = dirPath === "/" ? "/" : dirPath + "/";
-      const children = new Set<string>();
-      for (const knownPath of Object.keys(directories)) {
-        if (knownPath.startsWith(prefix) && knownPath !== dirPath) {
-          const rest = knownPath.slice(prefix.length);
-          const firstSegment = rest.split("/")[0];
-          if (firstSegment) children.add(firstSegment);
-        }
-      }
-      if (children.size > 0) {
-        const names = [...children].sort();
-        if (longFormat) {
-          const lines = names.map(
-            (n) => `drwxr-xr-x  2 root root 4096 Jan 10 12:00 ${n}`,
-          );
-          return this.createSuccess(
-            [`total ${names.length * 4}`, ...lines].join("\n"),
-          );
-        }
-        return this.createSuccess(names.join("  "));
+    let entries: VfsStat[];
+    if (target.type === "directory") {
+      entries = (fs.list(nodeId, dirPath).entries ?? []).filter(
+        (e) => all || !e.name.startsWith("."),
+      );
+      if (all) {
+        const parent = fs.stat(nodeId, resolvePath("..", dirPath));
+        entries = [
+          { ...target, name: "." },
+          ...(parent ? [{ ...parent, name: ".." }] : []),
+          ...entries,
+        ];
       }
-      // Truly unknown directory — show empty
-      const genericOutput = longFormat ? "total 0" : "";
-      return this.createSuccess(genericOutput);
+    } else {
+      entries = [{ ...target, name: rawPath ?? target.name }];
     }
 
-    if (longFormat) {
-      const header = `total ${entries.length * 4}`;
-      const lines = entries
-        .filter((e) => all || !e[6].startsWith("."))
-        .map((e) => e.join("  "));
-      return this.createSuccess([header, ...lines].join("\n"));
+    if (!longFormat) {
+      return this.createSuccess(entries.map((e) => e.name).join("  "));
     }
 
-    const names = entries
-      .filter((e) => all || !e[6].startsWith("."))
-      .map((e) => e[6]);
-    return this.createSuccess(names.join("  "));
+    const rows = entries.map((e) => [
+      formatMode(e.type, e.mode),
+      e.type === "directory" ? "2" : "1",
+      e.owner,
+      e.group,
+      e.device ? `${e.device[0]}, ${e.device[1]}` : e.size.toString(),
+      formatLsTime(e.mtime),
+      e.type === "symlink" ? `${e.name} -> ${e.target}` : e.name,
+    ]);
+    const widths = [1, 2, 3, 4].map((col) =>
+      Math.max(...rows.map((r) => r[col].length)),
+    );
+    const lines = rows.map((r) =>
+      [
+        r[0],
+        r[1].padStart(widths[0]),
+        r[2].padEnd(widths[1]),
+        r[3].padEnd(widths[2]),
+        r[4].padStart(widths[3]),
+        r[5],
+        r[6],
+      ].join(" "),
+    );
+
+    if (target.type !== "directory") {
+      return this.createSuccess(lines.join("\n"));
+    }
+    const blocks = entries.reduce(
+      (sum, e) => sum + Math.ceil(e.size / 4096) * 4,
+      0,
+    );
+    return this.createSuccess([`total ${blocks}`, ...lines].join("\n"));
   }
 
   /**
@@ -842,10 +462,10 @@ Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lo
       return this.createError("head: missing file operand");
     }
 
-    const contents = this.getFileContents(filePath, context);
+    const { content: contents, error } = this.readFile(filePath, context);
     if (contents === undefined) {
       return {
-        output: `head: cannot open '${filePath}' for reading: No such file or directory`,
+        output: `head: cannot open '${filePath}' for reading: ${error}`,
         exitCode: 1,
       };
     }
@@ -891,10 +511,10 @@ Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lo
       return this.createError("tail: missing file operand");
     }
 
-    const contents = this.getFileContents(filePath, context);
+    const { content: contents, error } = this.readFile(filePath, context);
     if (contents === undefined) {
       return {
-        output: `tail: cannot open '${filePath}' for reading: No such file or directory`,
+        output: `tail: cannot open '${filePath}' for reading: ${error}`,
         exitCode: 1,
       };
     }
@@ -947,10 +567,10 @@ Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lo
       return this.createError("wc: missing file operand");
     }
 
-    const contents = this.getFileContents(filePath, context);
+    const { content: contents, error } = this.readFile(filePath, context);
     if (contents === undefined) {
       return {
-        output: `wc: ${filePath}: No such file or directory`,
+        output: `wc: ${filePath}: ${error}`,
         exitCode: 1,
       };
     }
@@ -993,10 +613,10 @@ Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lo
       return this.createSuccess("");
     }
 
-    const contents = this.getFileContents(filePath, context);
+    const { content: contents, error } = this.readFile(filePath, context);
     if (contents === undefined) {
       return {
-        output: `grep: ${filePath}: No such file or directory`,
+        output: `grep: ${filePath}: ${error}`,
         exitCode: 2,
       };
     }
@@ -1250,141 +870,430 @@ Feb 12 08:15:24 dgx-00 kernel: [234569.200] NVRM: GPU at 0000:07:00.0: GPU is lo
     return this.createSuccess(allVars.join("\n"));
   }
 
+  // =========================================================================
+  // Packages: dpkg / apt / apt-mark / dkms
+  // =========================================================================
+
+  /**
+   * Everything dpkg knows is installed on the node: the NVIDIA stack from
+   * its package database, the container toolkit when present and the base
+   * system, by name
+   */
+  private installedPackages(
+    node: DGXNode,
+    context: CommandContext,
+  ): InstalledPackage[] {
+    const toolkit = this.resolveContainerRuntime(context).isToolkitInstalled(
+      node.id,
+    );
+    return [
+      ...BASE_PACKAGES,
+      ...(toolkit ? CONTAINER_TOOLKIT_PACKAGES : []),
+      ...getNodePackages(node).installed,
+    ].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * The words of a package command up to any pipe, without options or quotes
+   */
+  private packageArgs(parsed: ParsedCommand): string[] {
+    const pipe = parsed.rawArgs.indexOf("|");
+    return parsed.rawArgs
+      .slice(0, pipe < 0 ? undefined : pipe)
+      .filter((arg) => !arg.startsWith("-"))
+      .map((arg) => arg.replace(/^['"]|['"]$/g, ""));
+  }
+
+  /**
+   * A line filter for a `| grep` the listing was piped into, so it comes out
+   * the way the pipe would leave it
+   */
+  private pipedGrep(
+    parsed: ParsedCommand,
+  ): ((line: string) => boolean) | undefined {
+    const match = (parsed.raw || "").match(
+      /\|\s*grep\s+(-i\s+)?['"]?([^\s'"|]+)/,
+    );
+    if (!match) return undefined;
+    const pattern = match[2];
+    return match[1]
+      ? (line) => line.toLowerCase().includes(pattern.toLowerCase())
+      : (line) => line.includes(pattern);
+  }
+
+  /**
+   * The newest version the repository has of each installed package that
+   * it offers a newer version of
+   */
+  private upgradableVersions(node: DGXNode): Map<string, string> {
+    const available = availablePackages(node);
+    const upgradable = new Map<string, string>();
+    for (const pkg of getNodePackages(node).installed) {
+      const versions = available.find((p) => p.name === pkg.name)?.versions;
+      const newest = versions?.[versions.length - 1];
+      if (newest && newest !== pkg.version) upgradable.set(pkg.name, newest);
+    }
+    return upgradable;
+  }
+
   /**
    * dpkg - Debian package manager query
-   * Key for container-crisis scenario
+   * Lists the node's package database; key for container-crisis scenario
    */
   private handleDpkg(
     parsed: ParsedCommand,
     context: CommandContext,
   ): CommandResult {
-    const rawCommand = parsed.raw || "";
     const node = this.resolveNode(context);
-    const cudaVersion = node?.cudaVersion ?? "12.2";
-    const cudaMajor = cudaVersion.split(".").slice(0, 2).join(".");
-    const cudaPkgSlug = cudaMajor.replace(".", "-");
-    const listFlag = this.hasAnyFlag(parsed, ["l"]);
-    const grepNvidiaContainer =
-      rawCommand.includes("grep nvidia-container") ||
-      rawCommand.includes("grep -i nvidia-container");
-    const grepNvidia =
-      rawCommand.includes("grep nvidia") ||
-      rawCommand.includes("grep -i nvidia");
-
-    if (listFlag || parsed.subcommands.includes("list")) {
-      const nvidiaContainerPkgs = [
-        "ii  nvidia-container-toolkit        1.14.3-1        amd64     NVIDIA Container Toolkit (includes runtime, hook, CLI)",
-        "ii  nvidia-container-toolkit-base   1.14.3-1        amd64     NVIDIA Container Toolkit Base",
-        "ii  nvidia-container-runtime        3.14.0-1        amd64     NVIDIA Container Runtime (runc wrapper)",
-        "ii  libnvidia-container1            1.14.3-1        amd64     NVIDIA container library",
-        "ii  libnvidia-container-tools       1.14.3-1        amd64     NVIDIA container library tools",
-      ];
-
-      const nvidiaDriverPkgs = [
-        "ii  nvidia-driver-535               535.129.03-0ubuntu1  amd64     NVIDIA driver metapackage",
-        "ii  nvidia-dkms-535                 535.129.03-0ubuntu1  amd64     NVIDIA DKMS package",
-        "ii  nvidia-kernel-source-535        535.129.03-0ubuntu1  amd64     NVIDIA kernel source package",
-        "ii  nvidia-utils-535                535.129.03-0ubuntu1  amd64     NVIDIA driver utilities",
-      ];
-
-      if (grepNvidiaContainer) {
-        return this.createSuccess(
-          `Desired=Unknown/Install/Remove/Purge/Hold\n| Status=Not/Inst/Conf-files/Unpacked/halF-conf/Half-inst/trig-aWait/Trig-pend\n|/ Err?=(none)/Reinst-required (Status,Err: uppercase=bad)\n||/ Name                            Version             Architecture Description\n+++-===============================-===================-============-==================================================\n${nvidiaContainerPkgs.join("\n")}`,
-        );
-      }
-
-      if (grepNvidia) {
-        return this.createSuccess(
-          `Desired=Unknown/Install/Remove/Purge/Hold\n| Status=Not/Inst/Conf-files/Unpacked/halF-conf/Half-inst/trig-aWait/Trig-pend\n|/ Err?=(none)/Reinst-required (Status,Err: uppercase=bad)\n||/ Name                            Version             Architecture Description\n+++-===============================-===================-============-==================================================\n${[...nvidiaDriverPkgs, ...nvidiaContainerPkgs].join("\n")}`,
-        );
-      }
+    if (!node) {
+      return this.createError("dpkg: Unable to determine current node");
+    }
+    if (
+      !this.hasAnyFlag(parsed, ["l"]) &&
+      !parsed.subcommands.includes("list")
+    ) {
+      return this.createError(
+        "dpkg: error: need an action option\nUse dpkg --help for help.",
+      );
+    }
 
-      // Full package listing (abbreviated)
-      return this.createSuccess(
-        `Desired=Unknown/Install/Remove/Purge/Hold\n| Status=Not/Inst/Conf-files/Unpacked/halF-conf/Half-inst/trig-aWait/Trig-pend\n|/ Err?=(none)/Reinst-required (Status,Err: uppercase=bad)\n||/ Name                            Version             Architecture Description\n+++-===============================-===================-============-==================================================\nii  apt                             2.4.10              amd64        commandline package manager\nii  base-files                      12ubuntu4.4         amd64        Debian base system miscellaneous files\nii  bash                            5.1-6ubuntu1.1      amd64        GNU Bourne Again SHell\n${[...nvidiaDriverPkgs, ...nvidiaContainerPkgs].join("\n")}\nii  cuda-toolkit-${cudaPkgSlug}               ${cudaMajor}.2-1            amd64        CUDA Toolkit ${cudaMajor} meta-package\nii  datacenter-gpu-manager           3.3.5-1             amd64        NVIDIA DCGM`,
+    const patterns = this.packageArgs(parsed).filter((a) => a !== "list");
+    const packages = this.installedPackages(node, context).filter(
+      (p) =>
+        patterns.length === 0 ||
+        patterns.some((pattern) => matchesPattern(p.name, pattern)),
+    );
+    if (packages.length === 0) {
+      return this.createError(
+        `dpkg-query: no packages found matching ${patterns.join(" ")}`,
       );
     }
 
-    return this.createError(
-      "dpkg: error: need an action option\nUse dpkg --help for help.",
+    const rows = packages.map((p) => {
+      const status = p.halfConfigured ? "iF" : p.held ? "hi" : "ii";
+      return `${status}  ${p.name.padEnd(31)} ${p.version.padEnd(19)} amd64        ${p.description}`;
+    });
+    const grep = this.pipedGrep(parsed);
+    if (grep) {
+      const matched = rows.filter(grep);
+      // grep exits 1 when nothing matches
+      if (matched.length === 0) return { output: "", exitCode: 1 };
+      return this.createSuccess(matched.join("\n"));
+    }
+    return this.createSuccess(
+      `Desired=Unknown/Install/Remove/Purge/Hold
+| Status=Not/Inst/Conf-files/Unpacked/halF-conf/Half-inst/trig-aWait/Trig-pend
+|/ Err?=(none)/Reinst-required (Status,Err: uppercase=bad)
+||/ Name                            Version             Architecture Description
++++-===============================-===================-============-==================================================
+${rows.join("\n")}`,
     );
   }
 
   /**
    * apt - APT package manager
+   * Queries the repository and installs, removes and upgrades the node's
+   * packages. Changes go through the StateMutator.
    */
   private handleApt(
     parsed: ParsedCommand,
     context: CommandContext,
   ): CommandResult {
-    const subcommand = parsed.subcommands[0] || "";
+    const [subcommand = "", ...args] = this.packageArgs(parsed);
     const node = this.resolveNode(context);
-    const cudaVersion = node?.cudaVersion ?? "12.2";
-    const cudaMajor = cudaVersion.split(".").slice(0, 2).join(".");
-    const cudaPkgSlug = cudaMajor.replace(".", "-");
-    const rawCommand = parsed.raw || "";
-    const grepNvidiaDriver =
-      rawCommand.includes("nvidia-driver") ||
-      rawCommand.includes("grep nvidia");
-
-    if (subcommand === "list") {
-      const installedOnly =
-        this.hasAnyFlag(parsed, ["installed"]) ||
-        rawCommand.includes("--installed");
-
-      const nvidiaDriverPkgs = [
-        "nvidia-driver-535/jammy,now 535.129.03-0ubuntu1 amd64 [installed]",
-        "nvidia-driver-535-server/jammy 535.129.03-0ubuntu1 amd64 [installed]",
-        "nvidia-dkms-535/jammy,now 535.129.03-0ubuntu1 amd64 [installed,automatic]",
-        "nvidia-utils-535/jammy,now 535.129.03-0ubuntu1 amd64 [installed,automatic]",
-      ];
-
-      const containerPkgs = [
-        "nvidia-container-toolkit/jammy,now 1.14.3-1 amd64 [installed]",
-        "nvidia-container-runtime/jammy,now 3.14.0-1 amd64 [installed]",
-      ];
-
-      const cudaPkgs = [
-        `cuda-toolkit-${cudaPkgSlug}/jammy,now ${cudaMajor}.2-1 amd64 [installed]`,
-        "cuda-drivers-535/jammy,now 535.129.03-1 amd64 [installed]",
-      ];
-
-      if (grepNvidiaDriver) {
-        return this.createSuccess(`Listing...\n${nvidiaDriverPkgs.join("\n")}`);
-      }
-
-      if (installedOnly) {
+    if (!node) {
+      return this.createError("apt: Unable to determine current node");
+    }
+    const now = simulationClock.now();
+
+    switch (subcommand) {
+      case "list":
+        return this.handleAptList(parsed, node, context, args);
+      case "search":
+        return this.handleAptSearch(node, args.join(" "));
+      case "show":
+        return this.handleAptShow(node, context, args[0] ?? "");
+      case "update": {
+        const count = this.upgradableVersions(node).size;
         return this.createSuccess(
-          `Listing...\n${[...nvidiaDriverPkgs, ...containerPkgs, ...cudaPkgs].join("\n")}`,
+          [
+            "Hit:1 http://archive.ubuntu.com/ubuntu jammy InRelease",
+            "Hit:2 https://developer.download.nvidia.com/compute/cuda/repos/ubuntu2204/x86_64  InRelease",
+            ...APT_READING,
+            count > 0
+              ? `${count} packages can be upgraded. Run 'apt list --upgradable' to see them.`
+              : "All packages are up to date.",
+          ].join("\n"),
         );
       }
+      case "install":
+        if (args.length === 0) {
+          return this.createSuccess(
+            [
+              ...APT_READING,
+              "0 upgraded, 0 newly installed, 0 to remove and 0 not upgraded.",
+            ].join("\n"),
+          );
+        }
+        return this.runAptPlan(
+          node,
+          context,
+          planPackageInstall(node, args, now, {
+            reinstall: parsed.rawArgs.includes("--reinstall"),
+          }),
+        );
+      case "remove":
+      case "purge":
+        if (args.length === 0) {
+          return this.createError(
+            "E: No packages found, nothing to remove",
+            100,
+          );
+        }
+        return this.runAptPlan(
+          node,
+          context,
+          planPackageRemoval(node, args, now),
+        );
+      case "autoremove":
+        return this.runAptPlan(node, context, planAutoremove(node, now));
+      case "upgrade":
+      case "full-upgrade":
+        return this.runAptPlan(node, context, planUpgrade(node, now));
+      default:
+        return this.createError(
+          "Usage: apt [list|search|show|update|install|remove|purge|autoremove|upgrade] [options]",
+        );
+    }
+  }
 
-      // Handle pattern argument like "nvidia-driver*"
-      const pattern = parsed.subcommands[1] || parsed.positionalArgs[0] || "";
-      if (pattern.includes("nvidia-driver")) {
-        return this.createSuccess(`Listing...\n${nvidiaDriverPkgs.join("\n")}`);
-      }
+  private handleAptList(
+    parsed: ParsedCommand,
+    node: DGXNode,
+    context: CommandContext,
+    patterns: string[],
+  ): CommandResult {
+    const installedOnly = parsed.rawArgs.includes("--installed");
+    const upgradableOnly = parsed.rawArgs.includes("--upgradable");
+    const installed = this.installedPackages(node, context);
+    const upgradable = this.upgradableVersions(node);
+    const offered = availablePackages(node).filter(
+      (p) => !installed.some((q) => q.name === p.name),
+    );
 
-      return this.createSuccess(
-        `Listing...\n${[...nvidiaDriverPkgs, ...containerPkgs, ...cudaPkgs].join("\n")}`,
+    const lines = [
+      ...installed
+        .filter((p) => !upgradableOnly || upgradable.has(p.name))
+        .map((p) => ({
+          name: p.name,
+          line: upgradable.has(p.name)
+            ? `${p.name}/jammy ${upgradable.get(p.name)} amd64 [upgradable from: ${p.version}]`
+            : `${p.name}/jammy,now ${p.version} amd64 [installed${p.automatic ? ",automatic" : ""}]`,
+        })),
+      ...(installedOnly || upgradableOnly ? [] : offered).map((p) => ({
+        name: p.name,
+        line: `${p.name}/jammy ${p.versions[p.versions.length - 1]} amd64`,
+      })),
+    ]
+      .filter(
+        ({ name }) =>
+          patterns.length === 0 ||
+          patterns.some((pattern) => matchesPattern(name, pattern)),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ line }) => line);
+
+    const grep = this.pipedGrep(parsed);
+    return this.createSuccess(
+      ["Listing...", ...(grep ? lines.filter(grep) : lines)].join("\n"),
+    );
+  }
+
+  private handleAptSearch(node: DGXNode, query: string): CommandResult {
+    const installed = getNodePackages(node).installed;
+    const needle = query.toLowerCase();
+    const matches = availablePackages(node).filter(
+      (p) =>
+        p.name.includes(needle) || p.description.toLowerCase().includes(needle),
+    );
+    return this.createSuccess(
+      [
+        "Sorting... Done",
+        "Full Text Search... Done",
+        ...matches.map((p) => {
+          const current = installed.find((q) => q.name === p.name);
+          const marker = current ? ` [installed]` : "";
+          return `${p.name}/jammy ${p.versions[p.versions.length - 1]} amd64${marker}\n  ${p.description}\n`;
+        }),
+      ].join("\n"),
+    );
+  }
+
+  private handleAptShow(
+    node: DGXNode,
+    context: CommandContext,
+    name: string,
+  ): CommandResult {
+    const installed = this.installedPackages(node, context).find(
+      (p) => p.name === name,
+    );
+    const offered = availablePackages(node).find((p) => p.name === name);
+    if (!installed && !offered) {
+      return this.createError(
+        `N: Unable to locate package ${name}\nE: No packages found`,
+        100,
       );
     }
 
-    if (subcommand === "search") {
-      const query = parsed.subcommands[1] || parsed.positionalArgs[0] || "";
+    const version =
+      installed?.version ?? offered!.versions[offered!.versions.length - 1];
+    const branch = name.match(/^nvidia-driver-(\d+)$/)?.[1];
+    const lines = [
+      `Package: ${name}`,
+      `Version: ${version}`,
+      "Priority: optional",
+      `Section: ${name.includes("nvidia") ? "restricted/misc" : "admin"}`,
+      "Maintainer: NVIDIA <linux-bugs@nvidia.com>",
+      "Installed-Size: 512 kB",
+      ...(branch
+        ? [
+            `Depends: libnvidia-compute-${branch} (= ${version}), nvidia-dkms-${branch} (= ${version}), nvidia-kernel-common-${branch} (= ${version}), nvidia-utils-${branch} (= ${version})`,
+          ]
+        : []),
+      ...(installed
+        ? [`APT-Manual-Installed: ${installed.automatic ? "no" : "yes"}`]
+        : []),
+      `Description: ${(installed ?? offered)!.description}`,
+    ];
+    return this.createSuccess(lines.join("\n"));
+  }
+
+  /**
+   * Report a package plan the way apt does, and apply it to the node
+   */
+  private runAptPlan(
+    node: DGXNode,
+    context: CommandContext,
+    plan: PackagePlan,
+  ): CommandResult {
+    const lines = [...APT_READING];
+    const fail = (error: string): CommandResult => ({
+      output: `${lines.join("\n")}\n\x1b[31m${error}\x1b[0m`,
+      exitCode: 100,
+    });
+    const transaction = plan.transaction;
+    if (!transaction)
+      return fail(plan.error ?? "E: Unable to correct problems");
+
+    lines.push(...transaction.notices);
+    for (const pkg of transaction.current) {
+      lines.push(`${pkg.name} is already the newest version (${pkg.version}).`);
+    }
+    const listing = (heading: string, packages: InstalledPackage[]) => {
+      if (packages.length === 0) return;
+      lines.push(heading, `  ${packages.map((p) => p.name).join(" ")}`);
+    };
+    listing("The following packages will be REMOVED:", transaction.removed);
+    listing(
+      "The following NEW packages will be installed:",
+      transaction.installed,
+    );
+    listing("The following packages have been kept back:", transaction.kept);
+    listing("The following packages will be upgraded:", transaction.upgraded);
+    const reinstalled =
+      transaction.reinstalled.length > 0
+        ? `${transaction.reinstalled.length} reinstalled, `
+        : "";
+    lines.push(
+      `${transaction.upgraded.length} upgraded, ${transaction.installed.length} newly installed, ${reinstalled}${transaction.removed.length} to remove and ${transaction.kept.length} not upgraded.`,
+    );
+
+    for (const pkg of transaction.removed) {
+      lines.push(`Removing ${pkg.name} (${pkg.version}) ...`);
+    }
+    for (const pkg of [
+      ...transaction.installed,
+      ...transaction.upgraded,
+      ...transaction.reinstalled,
+    ]) {
+      lines.push(`Setting up ${pkg.name} (${pkg.version}) ...`);
+    }
+    for (const build of transaction.builds) {
+      lines.push(...dkmsBuildLog(build));
+    }
+
+    if (plan.update) {
+      this.resolveMutator(context).updateNodePackages(node.id, plan.update);
+    }
+    if (plan.error) return fail(plan.error);
+    return this.createSuccess(lines.join("\n"));
+  }
+
+  /**
+   * apt-mark - Hold packages at their version, or release them
+   */
+  private handleAptMark(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const [subcommand = "", ...names] = this.packageArgs(parsed);
+    const node = this.resolveNode(context);
+    if (!node) {
+      return this.createError("apt-mark: Unable to determine current node");
+    }
+
+    if (subcommand === "showhold") {
       return this.createSuccess(
-        `Sorting...\nFull Text Search...\nnvidia-driver-535/jammy 535.129.03-0ubuntu1 amd64\n  NVIDIA driver metapackage (${query})`,
+        getNodePackages(node)
+          .installed.filter((p) => p.held)
+          .map((p) => p.name)
+          .join("\n"),
       );
     }
+    if (subcommand !== "hold" && subcommand !== "unhold") {
+      return this.createError(
+        "Usage: apt-mark [options] {hold|unhold|showhold} pkg1 [pkg2 ...]",
+      );
+    }
+    if (names.length === 0) {
+      return this.createError("E: No packages found", 100);
+    }
 
-    if (subcommand === "show") {
-      const pkg = parsed.subcommands[1] || parsed.positionalArgs[0] || "";
-      return this.createSuccess(
-        `Package: ${pkg}\nVersion: 535.129.03-0ubuntu1\nPriority: optional\nSection: restricted/misc\nMaintainer: NVIDIA <linux-bugs@nvidia.com>\nInstalled-Size: 512 kB\nDepends: nvidia-dkms-535, nvidia-utils-535\nDescription: NVIDIA driver metapackage`,
+    const plan = planHold(node, names, subcommand === "hold");
+    if (plan.error) return this.createError(plan.error, 100);
+    if (plan.update) {
+      this.resolveMutator(context).updateNodePackages(node.id, plan.update);
+    }
+    return this.createSuccess(plan.transaction!.notices.join("\n"));
+  }
+
+  /**
+   * dkms - Show the kernel modules DKMS built from the driver source
+   */
+  private handleDkms(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const [subcommand = ""] = this.packageArgs(parsed);
+    const node = this.resolveNode(context);
+    if (!node) {
+      return this.createError("dkms: Unable to determine current node");
+    }
+    if (subcommand !== "status") {
+      return this.createError(
+        "Usage: /usr/sbin/dkms [action] [options]\n  [action]  = { status }",
       );
     }
 
-    return this.createError("Usage: apt [list|search|show] [options]");
+    return this.createSuccess(
+      getNodePackages(node)
+        .dkms.map((b) =>
+          b.status === "installed"
+            ? `${b.module}/${b.version}, ${b.kernel}, x86_64: installed`
+            : `${b.module}/${b.version}: added`,
+        )
+        .join("\n"),
+    );
   }
 
   /**
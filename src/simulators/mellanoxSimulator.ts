@@ -5,11 +5,55 @@ import type {
   SimulatorMetadata,
 } from "@/types/commands";
 import { BaseSimulator } from "./BaseSimulator";
-import type { BlueFieldDPU, InfiniBandHCA } from "@/types/hardware";
+import type {
+  BlueFieldDPU,
+  DGXNode,
+  FirmwareComponent,
+  InfiniBandCable,
+  InfiniBandHCA,
+} from "@/types/hardware";
+import {
+  cableErrorCount,
+  describeCableType,
+  findCable,
+  getFabric,
+  isCableUp,
+} from "@/utils/infinibandFabric";
+import {
+  BLUEFIELD_MODES,
+  MODE_PARAMETERS,
+  modeParameterValues,
+  nextMode,
+  planModeParameters,
+} from "@/utils/blueFieldDpu";
+import {
+  activationHint,
+  blueFieldModel,
+  findDeviceFirmware,
+  findImageRelease,
+  isFlashNeeded,
+  planFirmwareFlash,
+  planFirmwareReset,
+  recommendedVersion,
+} from "@/utils/firmwareInventory";
+import { simulationClock } from "@/simulation/simulationClock";
 
 // Alias for shorter code
 type HCA = InfiniBandHCA;
 
+// Board identity by ConnectX/BlueField model, as the firmware tools print it
+const BOARD_INFO: Record<string, { partNumber: string; psid: string }> = {
+  "ConnectX-6": { partNumber: "MCX653105A-HDAT", psid: "MT_0000000223" },
+  "ConnectX-7": { partNumber: "MCX755106AS-HEAT", psid: "MT_0000000889" },
+  "ConnectX-8": { partNumber: "900-9X81Q-00CN-ST0", psid: "MT_0000001093" },
+  "ConnectX-9": { partNumber: "900-9X91E-00CN-ST0", psid: "MT_0000001201" },
+  "BlueField-2": { partNumber: "MBF2M516A-CENAT", psid: "MT_0000000664" },
+  "BlueField-3": { partNumber: "900-9D3B6-00CV-AA0", psid: "MT_0000000884" },
+};
+
+const boardInfo = (model: string) =>
+  BOARD_INFO[model] ?? { partNumber: "N/A", psid: "N/A" };
+
 export class MellanoxSimulator extends BaseSimulator {
   private mstStarted: boolean = false;
 
@@ -57,10 +101,11 @@ export class MellanoxSimulator extends BaseSimulator {
         {
           name: "mlxup",
           description: "Firmware update utility",
-          usage: "mlxup -d <device> <-q|--online|--img <file>>",
+          usage: "mlxup -d <device> <-q|--online [-u]|--img <file>>",
           examples: [
             "mlxup -d /dev/mst/mt4119_pciconf0 -q",
             "mlxup -d /dev/mst/mt4119_pciconf0 --online",
+            "mlxup -d /dev/mst/mt4119_pciconf0 --online -u",
           ],
         },
         {
@@ -73,6 +118,25 @@ export class MellanoxSimulator extends BaseSimulator {
             "mlxfwmanager -d /dev/mst/mt4119_pciconf0 --query",
           ],
         },
+        {
+          name: "flint",
+          description: "Burn and query firmware images",
+          usage: "flint -d <device> [-i <image>] <query|verify|burn>",
+          examples: [
+            "flint -d /dev/mst/mt4119_pciconf0 query",
+            "flint -d /dev/mst/mt4119_pciconf0 verify",
+            "flint -d /dev/mst/mt4119_pciconf0 -i fw-ConnectX7-rel-28_39_1002.bin burn",
+          ],
+        },
+        {
+          name: "mlxfwreset",
+          description: "Reset a device to load its new firmware",
+          usage: "mlxfwreset -d <device> <query|reset> [-y]",
+          examples: [
+            "mlxfwreset -d /dev/mst/mt4119_pciconf0 query",
+            "mlxfwreset -d /dev/mst/mt4119_pciconf0 reset -y",
+          ],
+        },
       ],
     };
   }
@@ -105,6 +169,10 @@ export class MellanoxSimulator extends BaseSimulator {
         return this.handleMLXUp(parsed, context);
       case "mlxfwmanager":
         return this.handleMLXFwManager(parsed, context);
+      case "flint":
+        return this.handleFlint(parsed, context);
+      case "mlxfwreset":
+        return this.handleMLXFwReset(parsed, context);
       default:
         return this.createError(`Unknown Mellanox tool: ${tool}`);
     }
@@ -226,24 +294,27 @@ export class MellanoxSimulator extends BaseSimulator {
     }
 
     // Check if device exists in node (check DPUs first as they are the main target for mlxconfig)
-    let device: BlueFieldDPU | HCA | undefined = node.dpus.find(
-      (d) => d.devicePath === deviceName,
+    let device: BlueFieldDPU | HCA | undefined = (node.dpus ?? []).find(
+      (d) => d.devicePath === deviceName || d.pciAddress === deviceName,
     );
 
-    if (!device) {
-      // Search by ID or other identifiers if full path not given
-      device = node.dpus.find((d) => deviceName.includes(String(d.id)));
-    }
-
     if (!device) {
       // Also check standard HCAs just in case, though mlxconfig mainly targets configurable devices
       device = node.hcas.find(
         (h) =>
-          deviceName.includes(String(h.id)) ||
+          h.devicePath === deviceName ||
           (h.pciAddress && deviceName.includes(h.pciAddress)),
       );
     }
 
+    if (!device) {
+      // Either BlueField generation's path reaches the DPU at that index
+      device = (node.dpus ?? []).find(
+        (d) =>
+          deviceName.includes("mt416") && deviceName.endsWith(`pciconf${d.id}`),
+      );
+    }
+
     if (!device) {
       return this.createDeviceNotFoundError("mlxconfig", deviceName);
     }
@@ -253,109 +324,84 @@ export class MellanoxSimulator extends BaseSimulator {
       this.mstStarted = true;
     }
 
-    // Continue with query/set logic...
+    const dpu = "armOS" in device ? device : undefined;
+    const header =
+      `\nDevice #1:\n----------\n\n` +
+      `Device type:    ${dpu ? blueFieldModel(dpu).replace("-", "") : "ConnectX"}\n` +
+      `Device:         ${device.devicePath}\n` +
+      `PCI device:     ${device.pciAddress || "N/A"}\n\n`;
+    const row = (key: string, values: string[]) =>
+      `         ${key.padEnd(36)}${values.map((v, i) => (i < values.length - 1 ? v.padEnd(20) : v)).join("")}\n`;
 
     // Query configuration
     // Per spec Section 5.2: Configuration table with Default/Current/Next Boot columns
-    const command = parsed.subcommands[0] || parsed.positionalArgs[0];
-    if (command === "q" || command === "query") {
-      // Check if device is a BlueFieldDPU (has mode property)
-      const isDPU = "mode" in device && "armOS" in device;
-      const cpuModel = isDPU
-        ? (device as BlueFieldDPU).mode.internalCpuModel
-        : 0;
-      const nicMode = isDPU && cpuModel === 1 ? "SEPARATED_HOST" : "BASIC";
-
-      let output = `\nDevice #1:\n`;
-      output += `----------\n\n`;
-      output += `Device type:    ${isDPU ? "BlueField2" : "ConnectX"}\n`;
-      output += `Device:         ${device.devicePath}\n`;
-      output += `PCI device:     ${device.pciAddress || "N/A"}\n`;
-      output += `Configurations:                              Default         Current         Next Boot\n`;
-      output += `         INTERNAL_CPU_MODEL                  0               ${cpuModel}               ${cpuModel}\n`;
-      output += `         INTERNAL_CPU_PAGE_SUPPLIER          0               ${cpuModel}               ${cpuModel}\n`;
-      output += `         INTERNAL_CPU_ESWITCH_MANAGER        0               ${cpuModel}               ${cpuModel}\n`;
-      output += `         INTERNAL_CPU_IB_VPORT0              0               ${cpuModel}               ${cpuModel}\n`;
-      output += `         INTERNAL_CPU_OFFLOAD_ENGINE         0               ${cpuModel}               ${cpuModel}\n`;
-      output += `         NIC_MODE                            BASIC           ${nicMode}           ${nicMode}\n`;
-      output += `         PF_BAR2_ENABLE                      0               0               0\n`;
-      output += `         PER_PF_NUM_SF                       0               0               0\n`;
-      output += `         SRIOV_EN                            True            True            True\n`;
-      output += `         NUM_OF_VFS                          16              16              16\n`;
-      output += `         PCI_SWITCH_PORT_CONFIG               0               0               0\n\n`;
-
-      return this.createSuccess(output);
+    const command = this.findToolCommand(parsed, {
+      q: "query",
+      query: "query",
+      s: "set",
+      set: "set",
+    });
+    if (command === "query") {
+      let output = header;
+      output += `${"Configurations:".padEnd(45)}${"Default".padEnd(20)}${"Current".padEnd(20)}Next Boot\n`;
+      if (dpu) {
+        const defaults = modeParameterValues(BLUEFIELD_MODES.DPU);
+        const current = modeParameterValues(dpu.mode);
+        const next = modeParameterValues(nextMode(dpu));
+        defaults.forEach(([key, value], i) => {
+          output += row(key, [value, current[i][1], next[i][1]]);
+        });
+      }
+      output += row("PF_BAR2_ENABLE", ["False(0)", "False(0)", "False(0)"]);
+      output += row("PER_PF_NUM_SF", ["False(0)", "False(0)", "False(0)"]);
+      output += row("SRIOV_EN", ["True(1)", "True(1)", "True(1)"]);
+      output += row("NUM_OF_VFS", ["16", "16", "16"]);
+      return this.createSuccess(output + "\n");
     }
 
     // Set configuration
-    if (command === "s" || command === "set") {
-      const config = parsed.positionalArgs[0];
+    if (command === "set") {
+      const settings = parsed.rawArgs
+        .filter((arg) => /^[A-Z0-9_]+=/.test(arg))
+        .map((arg) => arg.split("=") as [string, string]);
 
-      if (!config) {
+      if (settings.length === 0) {
         return this.createError("Error: Configuration not specified");
       }
 
-      // Parse configuration setting
-      const [key, value] = config.split("=");
-
-      if (key === "INTERNAL_CPU_MODEL") {
-        // Only BlueField DPUs support INTERNAL_CPU_MODEL setting
-        const isDPU = "mode" in device && "armOS" in device;
-        if (!isDPU) {
+      const modeSettings = settings.filter(([key]) => key in MODE_PARAMETERS);
+      if (modeSettings.length > 0) {
+        // Only BlueField DPUs have Arm cores to hand the device to
+        if (!dpu) {
           return this.createError(
-            "Error: INTERNAL_CPU_MODEL is only supported on BlueField DPUs",
+            `Error: ${modeSettings[0][0]} is only supported on BlueField DPUs`,
           );
         }
-
-        const dpuDevice = device as BlueFieldDPU;
-        const newMode = parseInt(value);
-
-        if (newMode === 1) {
-          // Switch to DPU mode
-          const updatedDPU: BlueFieldDPU = {
-            ...dpuDevice,
-            mode: {
-              mode: "DPU" as const,
-              internalCpuModel: 1,
-              description: "DPU mode - Arm cores own NIC resources",
-            },
-          };
-
-          // Update state
-          const nodeToUpdate = this.resolveNode(context);
-          if (nodeToUpdate) {
-            nodeToUpdate.dpus = nodeToUpdate.dpus.map((d) =>
-              d.id === dpuDevice.id ? updatedDPU : d,
-            );
-          }
-
-          return this.createSuccess(
-            `\nDevice #1:\n----------\n\nApplying...   Done!\n\n\x1b[33m-I- Please reboot machine to load new configurations.\x1b[0m\n`,
-          );
-        } else if (newMode === 0) {
-          // Switch to NIC mode
-          const updatedDPU: BlueFieldDPU = {
-            ...dpuDevice,
-            mode: {
-              mode: "NIC" as const,
-              internalCpuModel: 0,
-              description: "NIC mode - DPU acts as standard NIC, Arm disabled",
-            },
-          };
-
-          const nodeToUpdate2 = this.resolveNode(context);
-          if (nodeToUpdate2) {
-            nodeToUpdate2.dpus = nodeToUpdate2.dpus.map((d) =>
-              d.id === dpuDevice.id ? updatedDPU : d,
-            );
-          }
-
-          return this.createSuccess(
-            `\nDevice #1:\n----------\n\nApplying...   Done!\n\n\x1b[33m-I- Please reboot machine to load new configurations.\x1b[0m\n`,
+        if (dpu.mode.mode === "RestrictedDPU") {
+          return this.createError(
+            "-E- Failed to set configuration: Operation not permitted - the host is restricted. Run mlxprivhost on the Arm to lift it.",
           );
         }
+        const before = modeParameterValues(nextMode(dpu));
+        const plan = planModeParameters(dpu, modeSettings);
+        if (plan.error) return this.createError(`-E- ${plan.error}`);
+        if (plan.update) {
+          this.resolveMutator(context).updateBlueField(node.id, plan.update);
+        }
+        const after = modeParameterValues(nextMode(plan.update?.dpu ?? dpu));
+
+        let output = header;
+        output += `${"Configurations:".padEnd(45)}${"Next Boot".padEnd(20)}New\n`;
+        for (const [key] of modeSettings) {
+          const i = before.findIndex(([name]) => name === key);
+          output += row(key, [before[i][1], after[i][1]]);
+        }
+        output += `\n Apply new Configuration? (y/n) [n] : y\nApplying... Done!\n`;
+        output += `\x1b[33m-I- Please reboot machine to load new configurations.\x1b[0m\n`;
+        return this.createSuccess(output);
       }
 
+      const [key, value] = settings[0];
       return this.createSuccess(
         `Applying configuration ${key}=${value}...\nDone!`,
       );
@@ -412,6 +458,13 @@ export class MellanoxSimulator extends BaseSimulator {
     }
 
     const port = hca.ports[0];
+    const cluster = this.resolveCluster(context);
+    const cable = findCable(getFabric(cluster), {
+      kind: "hca",
+      nodeId: node.id,
+      hcaIndex: node.hcas.indexOf(hca),
+      portNumber: port.portNumber,
+    });
 
     // Show counters
     if (this.hasAnyFlag(parsed, ["c"])) {
@@ -479,8 +532,14 @@ export class MellanoxSimulator extends BaseSimulator {
     output += `Speed                           : ${port.rate} (${port.rate}Gb/s)\n`;
     output += `Width                           : 4x\n`;
     output += `FEC                             : RS-FEC\n`;
-    output += `Vendor                          : Mellanox\n`;
-    output += `Part Number                     : MCP1650-H001E30\n\n`;
+    if (cable) {
+      output += `Cable Type                      : ${describeCableType(cable.type)}\n`;
+      output += `Cable Length                    : ${cable.lengthMeters}m\n`;
+      output += `Vendor                          : ${cable.vendor}\n`;
+      output += `Part Number                     : ${cable.partNumber}\n\n`;
+    } else {
+      output += `Cable                           : Not connected\n\n`;
+    }
 
     if (port.state === "Active") {
       output += "\x1b[32m✓ Link is healthy\x1b[0m\n";
@@ -513,27 +572,120 @@ export class MellanoxSimulator extends BaseSimulator {
       return this.createError("Error: Device not specified. Use -d <device>");
     }
 
+    const cluster = this.resolveCluster(context);
+    const fabric = getFabric(cluster);
+
     let output = "\nCable Information\n";
     output += "=================\n\n";
 
-    node.hcas.slice(0, 2).forEach((_hca, idx) => {
-      output += `Port ${idx + 1}:\n`;
+    node.hcas.forEach((hca, idx) => {
+      const port = hca.ports[0];
+      const cable = findCable(fabric, {
+        kind: "hca",
+        nodeId: node.id,
+        hcaIndex: idx,
+        portNumber: port?.portNumber ?? 1,
+      });
+
+      output += `mlx5_${idx} Port ${port?.portNumber ?? 1}:\n`;
       output += "--------\n";
-      output += `Cable Type:              Passive Copper Cable (DAC)\n`;
-      output += `Length:                  2m\n`;
-      output += `Vendor:                  Mellanox\n`;
-      output += `Part Number:             MCP1650-H002E30\n`;
-      output += `Serial Number:           MT${(2100000000 + idx).toString()}\n`;
-      output += `Temperature:             32°C\n`;
+      if (!cable) {
+        output += `Cable Type:              No cable detected\n\n`;
+        return;
+      }
+
+      const up = isCableUp(cluster, fabric, cable);
+      const errors = cableErrorCount(cluster, fabric, cable);
+      output += `Cable Type:              ${describeCableType(cable.type)}\n`;
+      output += `Length:                  ${cable.lengthMeters}m\n`;
+      output += `Vendor:                  ${cable.vendor}\n`;
+      output += `Part Number:             ${cable.partNumber}\n`;
+      output += `Serial Number:           ${cable.serialNumber}\n`;
+      output += `Temperature:             ${cable.type === "DAC" ? 32 : 41}°C\n`;
       output += `Voltage:                 3.30V\n`;
-      output += `TX Power (Lane 0):       N/A (DAC)\n`;
-      output += `RX Power (Lane 0):       N/A (DAC)\n`;
-      output += `Status:                  \x1b[32mOK\x1b[0m\n\n`;
+      output += `TX Power (Lane 0):       ${this.formatCablePower(cable, up, errors, 1.2)}\n`;
+      output += `RX Power (Lane 0):       ${this.formatCablePower(cable, up, errors, 0.9)}\n`;
+      if (!up) {
+        output += `Status:                  \x1b[31mLink down\x1b[0m\n\n`;
+      } else if (errors > 0) {
+        output += `Status:                  \x1b[33mWarning: ${errors} errors on link\x1b[0m\n\n`;
+      } else {
+        output += `Status:                  \x1b[32mOK\x1b[0m\n\n`;
+      }
     });
 
     return this.createSuccess(output);
   }
 
+  // Optical power reading for one lane; copper cables have no optics
+  private formatCablePower(
+    cable: InfiniBandCable,
+    up: boolean,
+    errors: number,
+    healthyDbm: number,
+  ): string {
+    if (cable.type === "DAC") return "N/A (DAC)";
+    if (!up) return "-40.00 dBm (no signal)";
+    return `${(errors > 0 ? healthyDbm - 6.5 : healthyDbm).toFixed(2)} dBm`;
+  }
+
+  // The node's ConnectX HCAs and BlueField DPUs with their firmware
+  private firmwareDevices(
+    node: DGXNode,
+  ): Array<{ devicePath: string; firmware: FirmwareComponent }> {
+    return [...node.hcas, ...node.dpus].flatMap((device) => {
+      const firmware = findDeviceFirmware(node, device.devicePath);
+      return firmware ? [{ devicePath: device.devicePath, firmware }] : [];
+    });
+  }
+
+  // The firmware version a device image holds, if it can be burnt to the
+  // device
+  private checkImage(
+    firmware: FirmwareComponent,
+    image: string,
+  ): { version?: string; error?: string } {
+    const release = findImageRelease(image);
+    if (!release) {
+      return {
+        error: `-E- FW image verification failed: No valid FS4 image found in ${image}`,
+      };
+    }
+    if (release.model !== firmware.model) {
+      return {
+        error: `-E- PSID mismatch. The PSID on flash (${boardInfo(firmware.model).psid}) differs from the PSID in the given image (${boardInfo(release.model).psid}).`,
+      };
+    }
+    return { version: release.version };
+  }
+
+  // Stage images on devices through the StateMutator; returns an error
+  // message if the plan was refused
+  private stageFirmware(
+    node: DGXNode,
+    ids: string[],
+    context: CommandContext,
+    options: { version?: string; force?: boolean } = {},
+  ): string | undefined {
+    const plan = planFirmwareFlash(node, ids, simulationClock.now(), options);
+    if (plan.error) return plan.error;
+    if (plan.update) {
+      this.resolveMutator(context).updateNodeFirmware(node.id, plan.update);
+    }
+    return undefined;
+  }
+
+  // What mlxup and flint print while burning an image
+  private formatBurn(firmware: FirmwareComponent, version: string): string {
+    let output = "\n";
+    output += `    Current FW version on flash:  ${firmware.flash?.version ?? firmware.version}\n`;
+    output += `    New FW version:               ${version}\n\n`;
+    output += "Burning FW image without signatures - OK\n";
+    output += "Restoring signature                     - OK\n";
+    output += `-I- To load new FW run mlxfwreset or reboot machine.\n`;
+    return output;
+  }
+
   // mlxup - Firmware updates
   private handleMLXUp(
     parsed: ParsedCommand,
@@ -555,54 +707,86 @@ export class MellanoxSimulator extends BaseSimulator {
       return this.createError("Error: Device not specified. Use -d <device>");
     }
 
+    const firmware = findDeviceFirmware(node, devicePath);
+    if (!firmware) {
+      return this.createError(`Error: Device ${devicePath} not found`);
+    }
+
     // Query firmware version
     if (this.hasAnyFlag(parsed, ["q"]) || parsed.subcommands[0] === "query") {
       const hca = node.hcas.find((h) => h.devicePath === devicePath);
       const dpu = node.dpus.find((d) => d.devicePath === devicePath);
-      const device = hca || dpu;
-
-      if (!device) {
-        return this.createError(`Error: Device ${devicePath} not found`);
-      }
 
       const deviceType = hca ? hca.caType : "BlueField DPU";
       const pciAddr = dpu ? dpu.pciAddress : devicePath;
 
       let output = "\nQuerying Firmware on device:\n";
       output += `Device Type:      ${deviceType}\n`;
-      output += `FW Version:       ${device.firmwareVersion}\n`;
+      output += `FW Version:       ${firmware.version}\n`;
+      if (firmware.flash?.status === "pending") {
+        output += `Pending FW:       ${firmware.flash.version} (${activationHint(firmware.type)})\n`;
+      } else if (firmware.flash) {
+        output += `Last Burn:        ${firmware.flash.version} (${firmware.flash.status})\n`;
+      }
+      output += `PSID:             ${boardInfo(firmware.model).psid}\n`;
       output += `PCI Address:      ${pciAddr}\n\n`;
 
       return this.createSuccess(output);
     }
 
-    // Online update check
+    // Online update check, and update with -u
     if (this.hasAnyFlag(parsed, ["online"])) {
+      const latest = recommendedVersion(firmware) ?? firmware.version;
       let output = "\nChecking for available firmware updates...\n\n";
-      output += "\x1b[32m✓ Firmware is up to date\x1b[0m\n";
-      output += "Current version: 20.35.1012\n";
-      output += "Latest version:  20.35.1012\n";
 
-      return this.createSuccess(output);
+      if (!isFlashNeeded(firmware, latest)) {
+        output += "\x1b[32m✓ Firmware is up to date\x1b[0m\n";
+        output += `Current version: ${firmware.version}\n`;
+        output += `Latest version:  ${latest}\n`;
+        if (firmware.flash) {
+          output += `\x1b[33m-I- ${latest} is on flash, ${activationHint(firmware.type)}\x1b[0m\n`;
+        }
+        return this.createSuccess(output);
+      }
+
+      output += "\x1b[33mFirmware update available\x1b[0m\n";
+      output += `Current version: ${firmware.version}\n`;
+      output += `Latest version:  ${latest}\n`;
+      if (!this.hasAnyFlag(parsed, ["u"])) {
+        output += `\nRun 'mlxup -d ${devicePath} --online -u' to update.\n`;
+        return this.createSuccess(output);
+      }
+
+      const error = this.stageFirmware(node, [firmware.id], context);
+      if (error) return this.createError(error);
+      return this.createSuccess(output + this.formatBurn(firmware, latest));
     }
 
-    // Flash firmware (simulated)
-    const imagePath = this.getFlagString(parsed, ["img"]);
+    // Flash a firmware image
+    const imagePath = this.getFlagString(parsed, ["img", "i"]);
     if (imagePath) {
+      const image = this.checkImage(firmware, imagePath);
+      if (!image.version) return this.createError(image.error!);
+
       let output = "\nFlashing firmware...\n\n";
       output += `Image: ${imagePath}\n`;
       output += "Verifying image... OK\n";
-      output += "Burning image... [████████████████████] 100%\n";
-      output += "Verifying flash... OK\n\n";
-      output += "\x1b[32m✓ Firmware update completed successfully\x1b[0m\n";
-      output +=
-        "\x1b[33m-I- Please reboot the system to load new firmware\x1b[0m\n";
+      if (!isFlashNeeded(firmware, image.version)) {
+        output += `\n-I- FW ${image.version} is already on flash. Nothing to do.\n`;
+        return this.createSuccess(output);
+      }
 
-      return this.createSuccess(output);
+      const error = this.stageFirmware(node, [firmware.id], context, {
+        version: image.version,
+      });
+      if (error) return this.createError(error);
+      return this.createSuccess(
+        output + this.formatBurn(firmware, image.version),
+      );
     }
 
     return this.createError(
-      "Usage: mlxup -d <device> <-q|--online|--img <file>>",
+      "Usage: mlxup -d <device> <-q|--online [-u]|--img <file>>",
     );
   }
 
@@ -632,6 +816,7 @@ export class MellanoxSimulator extends BaseSimulator {
       output += "  --query         Query firmware information\n";
       output += "  --online-query  Query available online updates\n";
       output += "  -u              Update firmware\n";
+      output += "  -i <image>      Update from a firmware image file\n";
       output += "  --force         Force update even if same version\n";
       output += "  -y              Assume yes to all prompts\n";
       output += "  -h, --help      Show this help message\n";
@@ -646,21 +831,12 @@ export class MellanoxSimulator extends BaseSimulator {
     const doUpdate = this.hasAnyFlag(parsed, ["u"]);
 
     // Build list of devices to query
-    const devices: Array<{ type: string } & (HCA | BlueFieldDPU)> = [];
-
+    let devices = this.firmwareDevices(node);
     if (devicePath) {
-      // Find specific device
-      const hca = node.hcas.find((h) => h.devicePath === devicePath);
-      const dpu = node.dpus.find((d) => d.devicePath === devicePath);
-      if (hca) devices.push({ type: "HCA", ...hca });
-      else if (dpu) devices.push({ type: "DPU", ...dpu });
-      else {
+      devices = devices.filter((d) => d.devicePath === devicePath);
+      if (devices.length === 0) {
         return this.createError(`Error: Device ${devicePath} not found`);
       }
-    } else {
-      // All devices
-      node.hcas.forEach((hca) => devices.push({ type: "HCA", ...hca }));
-      node.dpus.forEach((dpu) => devices.push({ type: "DPU", ...dpu }));
     }
 
     if (doQuery || (!onlineQuery && !doUpdate)) {
@@ -673,13 +849,14 @@ export class MellanoxSimulator extends BaseSimulator {
       output +=
         "-------------------------------------------------------------\n";
 
-      devices.forEach((device, idx) => {
-        // Type guard: HCAs have caType, DPUs don't
-        const isHCA = device.type === "HCA" && "caType" in device;
-        const deviceType = isHCA ? (device as HCA).caType : "BlueField-2";
-        const partNum = isHCA ? "MCX755106AS-HEAT" : "MBF2M516A-CENAT";
-        const psid = isHCA ? "MT_0000000889" : "MT_0000000664";
-        output += `  ${idx + 1}            ${deviceType.padEnd(15)} ${partNum.padEnd(16)} ${psid.padEnd(17)} ${device.firmwareVersion}\n`;
+      devices.forEach(({ firmware }, idx) => {
+        const { partNumber, psid } = boardInfo(firmware.model);
+        const flash = !firmware.flash
+          ? ""
+          : firmware.flash.status === "pending"
+            ? ` (${firmware.flash.version} pending)`
+            : ` (burn of ${firmware.flash.version} ${firmware.flash.status})`;
+        output += `  ${idx + 1}            ${firmware.model.padEnd(15)} ${partNumber.padEnd(16)} ${psid.padEnd(17)} ${firmware.version}${flash}\n`;
       });
 
       output +=
@@ -698,13 +875,16 @@ export class MellanoxSimulator extends BaseSimulator {
       output +=
         "-------------------------------------------------------------\n";
 
-      devices.forEach((device, idx) => {
-        const currentFw = device.firmwareVersion;
-        const availableFw = "28.39.1002"; // Simulated latest version
-        const status =
-          currentFw === availableFw ? "Up to date" : "Update available";
-        const statusColor = currentFw === availableFw ? "\x1b[32m" : "\x1b[33m";
-        output += `  ${idx + 1}            ${currentFw.padEnd(16)} ${availableFw.padEnd(16)} ${statusColor}${status}\x1b[0m\n`;
+      devices.forEach(({ firmware }, idx) => {
+        const availableFw = recommendedVersion(firmware) ?? "N/A";
+        const [status, statusColor] =
+          firmware.flash?.status === "pending" &&
+          firmware.flash.version === availableFw
+            ? ["Pending activation", "\x1b[33m"]
+            : firmware.version === availableFw || availableFw === "N/A"
+              ? ["Up to date", "\x1b[32m"]
+              : ["Update available", "\x1b[33m"];
+        output += `  ${idx + 1}            ${firmware.version.padEnd(16)} ${availableFw.padEnd(16)} ${statusColor}${status}\x1b[0m\n`;
       });
 
       output +=
@@ -714,27 +894,48 @@ export class MellanoxSimulator extends BaseSimulator {
     }
 
     if (doUpdate) {
-      // Firmware update (simulated)
       const force = this.hasAnyFlag(parsed, ["force"]);
       // const assumeYes = this.hasAnyFlag(parsed, ['y']); // Reserved for interactive mode
+      const imagePath = this.getFlagString(parsed, ["i"]);
+      const image = imagePath ? findImageRelease(imagePath) : undefined;
+      if (imagePath && !image) {
+        return this.createError(
+          `-E- FW image verification failed: No valid FS4 image found in ${imagePath}`,
+        );
+      }
 
       let output = "\nStarting firmware update ...\n\n";
+      const staged: string[] = [];
 
-      devices.forEach((device, idx) => {
-        output += `Device ${idx + 1}: ${device.devicePath}\n`;
-        output += `  Current FW: ${device.firmwareVersion}\n`;
-        output += `  Target FW:  28.39.1002\n`;
+      devices.forEach(({ devicePath: path, firmware }, idx) => {
+        const target = image ? image.version : recommendedVersion(firmware);
+        output += `Device ${idx + 1}: ${path}\n`;
+        output += `  Current FW: ${firmware.version}\n`;
 
-        if (!force && device.firmwareVersion === "28.39.1002") {
+        if (!target || (image && image.model !== firmware.model)) {
+          output += `  \x1b[33mSkipped: No matching image for ${firmware.model}\x1b[0m\n\n`;
+          return;
+        }
+        output += `  Target FW:  ${target}\n`;
+        if (!isFlashNeeded(firmware, target, force)) {
           output += `  \x1b[33mSkipped: Already at latest version\x1b[0m\n\n`;
-        } else {
-          output += `  Downloading image... Done\n`;
-          output += `  Burning firmware [████████████████████] 100%\n`;
-          output += `  \x1b[32mSuccess: Firmware updated\x1b[0m\n`;
-          output += `  \x1b[33mNote: Reboot required to activate new firmware\x1b[0m\n\n`;
+          return;
         }
+        staged.push(firmware.id);
+        output += `  ${image ? "Verifying image" : "Downloading image"}... Done\n`;
+        output += `  Burning firmware [████████████████████] 100%\n`;
+        output += `  \x1b[32mSuccess: Firmware updated\x1b[0m\n`;
+        output += `  \x1b[33mNote: New firmware staged, ${activationHint(firmware.type)}\x1b[0m\n\n`;
       });
 
+      if (staged.length > 0) {
+        const error = this.stageFirmware(node, staged, context, {
+          version: image?.version,
+          force,
+        });
+        if (error) return this.createError(error);
+      }
+
       return this.createSuccess(output);
     }
 
@@ -742,4 +943,180 @@ export class MellanoxSimulator extends BaseSimulator {
       "Usage: mlxfwmanager [--query|--online-query|-u] [-d <device>]",
     );
   }
+
+  // The command word of flint and mlxfwreset, wherever it sits among the
+  // flags
+  private findToolCommand(
+    parsed: ParsedCommand,
+    commands: Record<string, string>,
+  ): string | undefined {
+    const word = parsed.rawArgs.find((arg) =>
+      Object.keys(commands).includes(arg),
+    );
+    return word ? commands[word] : undefined;
+  }
+
+  // flint - Burn and query firmware images
+  private handleFlint(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const command = this.findToolCommand(parsed, {
+      q: "query",
+      query: "query",
+      v: "verify",
+      verify: "verify",
+      b: "burn",
+      burn: "burn",
+    });
+    const devicePath = this.getFlagString(parsed, ["d", "device"]);
+    const imagePath = this.getFlagString(parsed, ["i", "image"]);
+    const usage =
+      "Usage: flint -d <device> [-i <image>] <q[uery]|v[erify]|b[urn]>";
+    if (!command) {
+      return this.createError(`-E- No command given. ${usage}`);
+    }
+
+    // Query an image file on its own
+    if (!devicePath) {
+      if (!imagePath) {
+        return this.createError(`-E- Missing device or image file. ${usage}`);
+      }
+      const release = findImageRelease(imagePath);
+      if (!release) {
+        return this.createError(
+          `-E- FW image verification failed: No valid FS4 image found in ${imagePath}`,
+        );
+      }
+      if (command !== "query") {
+        return this.createSuccess(
+          "-I- FW image verification succeeded. Image is bootable.",
+        );
+      }
+      let output = "Image type:            FS4\n";
+      output += `FW Version:            ${release.version}\n`;
+      output += `Product Version:       ${release.version}\n`;
+      output += `PSID:                  ${boardInfo(release.model).psid}\n`;
+      return this.createSuccess(output);
+    }
+
+    const node = this.getNode(context);
+    const firmware =
+      this.mstStarted && node
+        ? findDeviceFirmware(node, devicePath)
+        : undefined;
+    if (!node || !firmware) {
+      return this.createError(
+        `-E- Cannot open Device: ${devicePath}. No such file or directory. MFE_CR_ERROR`,
+      );
+    }
+    const onFlash = firmware.flash?.version ?? firmware.version;
+
+    if (command === "query") {
+      let output = "Image type:            FS4\n";
+      output += `FW Version:            ${onFlash}\n`;
+      if (firmware.flash?.status === "pending") {
+        output += `FW Version(Running):   ${firmware.version}\n`;
+      }
+      output += `Product Version:       ${onFlash}\n`;
+      output += `Description:           ${firmware.model}\n`;
+      output += `PSID:                  ${boardInfo(firmware.model).psid}\n`;
+      output += "Security Attributes:   secure-fw\n";
+      if (firmware.flash && firmware.flash.status !== "pending") {
+        output += `-W- Burn of ${firmware.flash.version} ${firmware.flash.status}. Burn the image again.\n`;
+      }
+      return this.createSuccess(output);
+    }
+
+    if (command === "verify") {
+      let output = "\n     FS4 failsafe image\n\n";
+      output += "     /0x00000018-0x0000001f (0x000008)/ (HW_POINTERS) - OK\n";
+      if (firmware.flash?.status === "interrupted") {
+        output +=
+          "     /0x00001000-0x00001fff (0x001000)/ (ITOC_HEADER) - FAIL\n\n";
+        output +=
+          "-E- FW image verification failed: No valid FS4 image found. AN HCA DEVICE CAN NOT BOOT FROM THIS IMAGE.";
+        return { output, exitCode: 1 };
+      }
+      output +=
+        "     /0x00001000-0x00001fff (0x001000)/ (ITOC_HEADER) - OK\n\n";
+      output += "-I- FW image verification succeeded. Image is bootable.";
+      return this.createSuccess(output);
+    }
+
+    // burn
+    if (!imagePath) {
+      return this.createError(`-E- Burn requires an image file. ${usage}`);
+    }
+    const image = this.checkImage(firmware, imagePath);
+    if (!image.version) return this.createError(image.error!);
+    const error = this.stageFirmware(node, [firmware.id], context, {
+      version: image.version,
+      force: true,
+    });
+    if (error) return this.createError(error);
+    return this.createSuccess(this.formatBurn(firmware, image.version));
+  }
+
+  // mlxfwreset - Reset a device so it loads the firmware on flash
+  private handleMLXFwReset(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const command = this.findToolCommand(parsed, {
+      q: "query",
+      query: "query",
+      r: "reset",
+      reset: "reset",
+    });
+    const devicePath = this.getFlagString(parsed, ["d", "device"]);
+    if (!devicePath || !command) {
+      return this.createError(
+        "Usage: mlxfwreset -d <device> <q[uery]|r[eset]> [-y] [--level <0|3|4>]",
+      );
+    }
+
+    const node = this.getNode(context);
+    const firmware =
+      this.mstStarted && node
+        ? findDeviceFirmware(node, devicePath)
+        : undefined;
+    if (!node || !firmware) {
+      return this.createError(
+        `-E- Cannot open Device: ${devicePath}. No such file or directory. MFE_CR_ERROR`,
+      );
+    }
+
+    if (command === "query") {
+      let output = "Reset-levels:\n";
+      output +=
+        '0: Driver, PCI link, network link will remain up ("live-Patch")  -Supported\n';
+      output +=
+        '1: Only ARM side will not remain up ("Immediate reset").         -Not Supported\n';
+      output +=
+        "3: Driver restart and PCI reset                                   -Supported     (default)\n";
+      output +=
+        "4: Warm Reboot                                                    -Supported\n\n";
+      output += "Reset-types (relevant only for reset-levels 1,3,4):\n";
+      output +=
+        "0: Full chip reset                                                -Supported     (default)\n";
+      return this.createSuccess(output);
+    }
+
+    let output = `The reset level for device, ${devicePath} is:\n\n`;
+    output += "3: Driver restart and PCI reset\n";
+    output += "Continue with reset?[y/N] y\n";
+    output += "-I- Sending Reset Command To Fw             -Done\n";
+    output += "-I- Stopping Driver                         -Done\n";
+    output += "-I- Resetting PCI                           -Done\n";
+    output += "-I- Starting Driver                         -Done\n";
+    output += "-I- Restarting MST                          -Done\n";
+    output += "-I- FW was loaded successfully.";
+
+    const plan = planFirmwareReset(node, [firmware.id]);
+    if (plan.update) {
+      this.resolveMutator(context).updateNodeFirmware(node.id, plan.update);
+    }
+    return this.createSuccess(output);
+  }
 }
@@ -9,6 +9,8 @@ import { BaseSimulator } from "./BaseSimulator";
 import type { CommandContext, CommandResult } from "@/types/commands";
 import type { ParsedCommand } from "@/utils/commandParser";
 import type { DGXNode } from "@/types/hardware";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
 
 export class NeMoSimulator extends BaseSimulator {
   constructor() {
@@ -154,15 +156,15 @@ export class NeMoSimulator extends BaseSimulator {
     // Show sample training progress
     const sampleIterations = Math.min(5, iterations);
     for (let i = 1; i <= sampleIterations; i++) {
-      const loss = (4.5 - i * 0.3 + Math.random() * 0.2).toFixed(4);
-      const throughput = (1200 + Math.random() * 200).toFixed(0);
+      const loss = (4.5 - i * 0.3 + simulationRandom.next() * 0.2).toFixed(4);
+      const throughput = (1200 + simulationRandom.next() * 200).toFixed(0);
       output += `Iteration ${i}/${iterations}: loss=${loss}, throughput=${throughput} samples/sec\n`;
     }
 
     if (iterations > 5) {
       output += `...\n`;
-      const finalLoss = (2.1 + Math.random() * 0.3).toFixed(4);
-      const finalThroughput = (1300 + Math.random() * 200).toFixed(0);
+      const finalLoss = (2.1 + simulationRandom.next() * 0.3).toFixed(4);
+      const finalThroughput = (1300 + simulationRandom.next() * 200).toFixed(0);
       output += `Iteration ${iterations}/${iterations}: loss=${finalLoss}, throughput=${finalThroughput} samples/sec\n`;
     }
 
@@ -193,7 +195,7 @@ export class NeMoSimulator extends BaseSimulator {
     output += `Model: ${modelName}\n`;
     output += `GPUs: ${gpus}\n`;
     output += `Iterations: ${iterations}\n`;
-    output += `Start time: ${new Date().toLocaleString()}\n\n`;
+    output += `Start time: ${simulationClock.date().toLocaleString()}\n\n`;
 
     output += `Running extended training validation...\n`;
     output += `Monitoring: loss convergence, GPU utilization, memory stability\n\n`;
@@ -201,9 +203,9 @@ export class NeMoSimulator extends BaseSimulator {
     // Show first 10 iterations
     const displayIterations = Math.min(10, iterations);
     for (let i = 1; i <= displayIterations; i++) {
-      const loss = (3.2 - i * 0.08 + Math.random() * 0.1).toFixed(4);
-      const throughput = (1400 + Math.random() * 150).toFixed(0);
-      const gpuUtil = (95 + Math.random() * 4).toFixed(1);
+      const loss = (3.2 - i * 0.08 + simulationRandom.next() * 0.1).toFixed(4);
+      const throughput = (1400 + simulationRandom.next() * 150).toFixed(0);
+      const gpuUtil = (95 + simulationRandom.next() * 4).toFixed(1);
       output += `Iteration ${i}/${iterations}: loss=${loss}, throughput=${throughput} samples/sec, GPU util=${gpuUtil}%\n`;
     }
 
@@ -212,9 +214,9 @@ export class NeMoSimulator extends BaseSimulator {
     }
 
     // Calculate statistics
-    const avgLoss = (2.1 + Math.random() * 0.2).toFixed(4);
-    const avgThroughput = (1450 + Math.random() * 100).toFixed(0);
-    const avgGpuUtil = (96.5 + Math.random() * 2).toFixed(1);
+    const avgLoss = (2.1 + simulationRandom.next() * 0.2).toFixed(4);
+    const avgThroughput = (1450 + simulationRandom.next() * 100).toFixed(0);
+    const avgGpuUtil = (96.5 + simulationRandom.next() * 2).toFixed(1);
 
     output += `\nBurn-in Results:\n`;
     output += `  Status: PASSED\n`;
@@ -5,6 +5,13 @@ import {
   type SimulatorMetadata,
 } from "@/simulators/BaseSimulator";
 import type { DGXNode, GPU } from "@/types/hardware";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+import {
+  firmwareSummary,
+  reviewFirmware,
+  type FirmwareFindings,
+} from "@/utils/firmwareInventory";
 
 /**
  * NVIDIA Bug Report Simulator
@@ -113,7 +120,7 @@ export class NvidiaBugReportSimulator extends BaseSimulator {
       return this.createError("Error: Unable to determine current node");
     }
 
-    const timestamp = new Date().toISOString();
+    const timestamp = simulationClock.date().toISOString();
     const actualFile = noCompress ? outputFile.replace(".gz", "") : outputFile;
 
     let output = `\x1b[1mNVIDIA Bug Report Generator\x1b[0m\n`;
@@ -131,6 +138,7 @@ export class NvidiaBugReportSimulator extends BaseSimulator {
       "PCIe configuration",
       "ECC memory status",
       "XID error history",
+      "Firmware versions",
       "Thermal information",
       "Power information",
       "dmesg nvidia messages",
@@ -282,9 +290,24 @@ export class NvidiaBugReportSimulator extends BaseSimulator {
     }
     output += `\n`;
 
+    // Firmware inventory, with what differs from the rest of the cluster
+    const firmware = reviewFirmware(node, this.resolveCluster(context).nodes);
+    output += `\x1b[1mFirmware Inventory:\x1b[0m\n`;
+    firmwareSummary(node).forEach((line) => (output += `  ${line}\n`));
+    firmware.pending.forEach(
+      (line) => (output += `  \x1b[33mPending: ${line}\x1b[0m\n`),
+    );
+    firmware.failed.forEach(
+      (line) => (output += `  \x1b[31mFailed: ${line}\x1b[0m\n`),
+    );
+    firmware.skew.forEach(
+      (line) => (output += `  \x1b[33mVersion skew: ${line}\x1b[0m\n`),
+    );
+    output += `\n`;
+
     // Recommendations
     output += `\x1b[1mRecommendations:\x1b[0m\n`;
-    const recommendations = this.generateRecommendations(node);
+    const recommendations = this.generateRecommendations(node, firmware);
     if (recommendations.length === 0) {
       output += `  \x1b[32mNo issues detected. System appears healthy.\x1b[0m\n`;
     } else {
@@ -298,10 +321,10 @@ export class NvidiaBugReportSimulator extends BaseSimulator {
     output += `${"─".repeat(60)}\n`;
     if (noCompress) {
       output += `Report saved to: ${actualFile}\n`;
-      output += `File size: ${Math.floor(Math.random() * 5 + 2)}MB\n`;
+      output += `File size: ${Math.floor(simulationRandom.next() * 5 + 2)}MB\n`;
     } else {
       output += `Report saved to: ${actualFile}\n`;
-      output += `Compressed size: ${Math.floor(Math.random() * 500 + 200)}KB\n`;
+      output += `Compressed size: ${Math.floor(simulationRandom.next() * 500 + 200)}KB\n`;
     }
     output += `\n\x1b[32mnvidia-bug-report.sh completed successfully.\x1b[0m\n`;
     output += `\nPlease include this report when contacting NVIDIA support.\n`;
@@ -376,7 +399,10 @@ export class NvidiaBugReportSimulator extends BaseSimulator {
     );
   }
 
-  private generateRecommendations(node: DGXNode): string[] {
+  private generateRecommendations(
+    node: DGXNode,
+    firmware: FirmwareFindings,
+  ): string[] {
     const recommendations: string[] = [];
 
     // Check for critical XID errors
@@ -439,6 +465,23 @@ export class NvidiaBugReportSimulator extends BaseSimulator {
       );
     }
 
+    // Check for firmware that is not running what was flashed
+    if (firmware.failed.length > 0) {
+      recommendations.push(
+        "Firmware flash did not complete. Flash the component again before rebooting.",
+      );
+    }
+    if (firmware.pending.length > 0) {
+      recommendations.push(
+        "Firmware updates are staged but not active. Reset the devices or reboot to activate them.",
+      );
+    }
+    if (firmware.skew.length > 0) {
+      recommendations.push(
+        "Firmware versions differ from other nodes of the same type. Align firmware across the cluster.",
+      );
+    }
+
     return recommendations;
   }
 }
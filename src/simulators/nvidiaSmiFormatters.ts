@@ -1,5 +1,15 @@
 import type { GPU, DGXNode } from "@/types/hardware";
 import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import { gpuFabricState } from "@/utils/nvswitchFabric";
+import { NVLINK_CLIQUE_ID, rackClusterUuid } from "@/utils/nvlinkRack";
+import {
+  getMemoryHealth,
+  isResetRequired,
+  pendingRemappedRows,
+  pendingRetiredPages,
+  remapHistogram,
+  remappedRowCount,
+} from "@/utils/gpuMemoryHealth";
 
 export type DisplayFormatter = (gpu: GPU, node?: DGXNode) => string;
 
@@ -194,12 +204,20 @@ export function formatDisplaySupportedClocks(
 }
 
 export function formatDisplayPageRetirement(gpu: GPU, _node?: DGXNode): string {
-  const sbePagesRetired = Math.floor(gpu.eccErrors.aggregated.singleBit / 10);
-  const dbePagesRetired = gpu.eccErrors.aggregated.doubleBit;
-  const pendingRetirement = gpu.eccErrors.doubleBit > 0 ? "Yes" : "No";
+  const { retiredPages } = getMemoryHealth(gpu);
+  const pendingRetirement = pendingRetiredPages(gpu) > 0 ? "Yes" : "No";
   let output = `    Retired Pages\n`;
-  output += `        Single Bit ECC                    : ${sbePagesRetired}\n`;
-  output += `        Double Bit ECC                    : ${dbePagesRetired}\n`;
+  for (const [cause, label] of [
+    ["SBE", "Single Bit ECC"],
+    ["DBE", "Double Bit ECC"],
+  ] as const) {
+    const pages = retiredPages.filter((p) => p.cause === cause);
+    output += `        ${label.padEnd(34)}: ${pages.length}\n`;
+    for (const page of pages) {
+      const address = `0x${page.address.toString(16).padStart(16, "0")}`;
+      output += `            Address                       : ${address}${page.pending ? " (pending)" : ""}\n`;
+    }
+  }
   output += `        Pending Page Blacklist            : ${pendingRetirement}\n`;
   return output;
 }
@@ -240,26 +258,43 @@ export function formatDisplayFBCStats(_gpu: GPU, _node?: DGXNode): string {
 }
 
 export function formatDisplayRowRemapper(gpu: GPU, _node?: DGXNode): string {
-  const rowsRemapped = gpu.eccErrors.aggregated.doubleBit > 0;
-  let output = `    Row Remapper\n`;
-  output += `        Correctable Error                 : ${rowsRemapped ? "true" : "false"}\n`;
-  output += `        Uncorrectable Error               : ${gpu.eccErrors.doubleBit > 0 ? "true" : "false"}\n`;
-  output += `        Pending                           : ${gpu.eccErrors.doubleBit > 0 ? "true" : "false"}\n`;
-  output += `        Remapping Failure Occurred        : false\n`;
+  const histogram = remapHistogram(gpu);
+  const failed = getMemoryHealth(gpu).remapFailures.length > 0;
+  let output = `    Remapped Rows\n`;
+  output += `        Correctable Error                 : ${remappedRowCount(gpu, "correctable")}\n`;
+  output += `        Uncorrectable Error               : ${remappedRowCount(gpu, "uncorrectable")}\n`;
+  output += `        Pending                           : ${pendingRemappedRows(gpu) > 0 ? "Yes" : "No"}\n`;
+  output += `        Remapping Failure Occurred        : ${failed ? "Yes" : "No"}\n`;
   output += `        Bank Remap Availability Histogram\n`;
-  output += `            Max                           : 640 bank(s)\n`;
-  output += `            High                          : 0 bank(s)\n`;
-  output += `            Partial                       : 0 bank(s)\n`;
-  output += `            Low                           : 0 bank(s)\n`;
-  output += `            None                          : 0 bank(s)\n`;
+  output += `            Max                           : ${histogram.max} bank(s)\n`;
+  output += `            High                          : ${histogram.high} bank(s)\n`;
+  output += `            Partial                       : ${histogram.partial} bank(s)\n`;
+  output += `            Low                           : ${histogram.low} bank(s)\n`;
+  output += `            None                          : ${histogram.none} bank(s)\n`;
   return output;
 }
 
 export function formatDisplayResetStatus(gpu: GPU, _node?: DGXNode): string {
-  const hasXidErrors = gpu.xidErrors.length > 0;
+  // Pending repairs only take effect once the GPU is reset
+  const resetRequired = gpu.xidErrors.length > 0 || isResetRequired(gpu);
   let output = `    Reset Status\n`;
-  output += `        Reset Required                    : ${hasXidErrors ? "Yes" : "No"}\n`;
-  output += `        Drain and Reset Recommended       : ${hasXidErrors ? "Yes" : "No"}\n`;
+  output += `        Reset Required                    : ${resetRequired ? "Yes" : "No"}\n`;
+  output += `        Drain and Reset Recommended       : ${resetRequired ? "Yes" : "No"}\n`;
+  return output;
+}
+
+export function formatDisplayFabric(gpu: GPU, node?: DGXNode): string {
+  const { state, status } = node
+    ? gpuFabricState(node, gpu.id)
+    : { state: "N/A", status: "N/A" };
+  let output = `    Fabric\n`;
+  output += `        State                             : ${state}\n`;
+  output += `        Status                            : ${status}\n`;
+  // GPUs of a rack-scale NVLink domain also report which domain they are in
+  if (node?.rackSlot) {
+    output += `        CliqueId                          : ${NVLINK_CLIQUE_ID}\n`;
+    output += `        ClusterUUID                       : ${rackClusterUuid(node.rackSlot.rack)}\n`;
+  }
   return output;
 }
 
@@ -283,4 +318,5 @@ export const DISPLAY_FORMATTERS: Record<string, DisplayFormatter> = {
   FBC_STATS: formatDisplayFBCStats,
   ROW_REMAPPER: formatDisplayRowRemapper,
   RESET_STATUS: formatDisplayResetStatus,
+  FABRIC: formatDisplayFabric,
 };
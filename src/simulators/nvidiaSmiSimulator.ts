@@ -1,17 +1,53 @@
 import type { CommandResult, CommandContext } from "@/types/commands";
 import type { ParsedCommand } from "@/utils/commandParser";
-import type { GPU, MIGInstance, DGXNode } from "@/types/hardware";
+import type {
+  ComputeInstance,
+  GPU,
+  MIGInstance,
+  DGXNode,
+} from "@/types/hardware";
 import {
   BaseSimulator,
   type SimulatorMetadata,
 } from "@/simulators/BaseSimulator";
-import { MIG_PROFILES } from "@/utils/clusterFactory";
 import { generateTimestamp } from "@/utils/outputTemplates";
-import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import { getHardwareSpecs, type HardwareSpec } from "@/data/hardwareSpecs";
+import { isRackScale, superchipOf } from "@/utils/nvlinkRack";
+import { isDriverLoaded } from "@/utils/nodePower";
+import {
+  hasNvidiaUtils,
+  libraryMismatch,
+  libraryVersion,
+} from "@/utils/nodePackages";
+import {
+  availableComputePlacements,
+  availablePlacements,
+  createComputeInstance,
+  createGpuInstance,
+  destroyComputeInstance,
+  destroyGpuInstance,
+  findMigProfile,
+  freeComputeInstanceCount,
+  freeInstanceCount,
+  getComputeProfiles,
+  getMigProfiles,
+  placedInstances,
+} from "@/utils/migEngine";
 import {
   DISPLAY_FORMATTERS,
   getThermalThresholds,
 } from "@/simulators/nvidiaSmiFormatters";
+import {
+  completePendingRepairs,
+  getMemoryHealth,
+  pendingRemappedRows,
+  pendingRetiredPages,
+  remappedRowCount,
+  retiredPageCount,
+} from "@/utils/gpuMemoryHealth";
+import { runningVersion } from "@/utils/firmwareInventory";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
 
 function getArchitecture(systemType?: string): string {
   if (!systemType) return "Ampere";
@@ -19,6 +55,306 @@ function getArchitecture(systemType?: string): string {
   return specs.system.generation;
 }
 
+function pad2(n: number): string {
+  return n.toString().padStart(2);
+}
+
+/**
+ * Parse a comma-separated list of instance IDs, undefined when none given
+ */
+function parseIdList(value: string): number[] | undefined {
+  if (!value) return undefined;
+  return value.split(",").map((id) => parseInt(id.trim()));
+}
+
+/**
+ * A table row of the given inner width with each text at its column
+ */
+function atColumns(width: number, fields: [number, string][]): string {
+  const row = Array<string>(width).fill(" ");
+  fields.forEach(([column, text]) =>
+    [...text].forEach((c, i) => (row[column + i] = c)),
+  );
+  return `|${row.join("").slice(0, width)}|`;
+}
+
+function migTable(width: number, title: string, heading: [number, string][][]) {
+  return [
+    `+${"-".repeat(width)}+`,
+    atColumns(width, [[1, title]]),
+    ...heading.map((fields) => atColumns(width, fields)),
+    `|${"=".repeat(width)}|`,
+  ];
+}
+
+/**
+ * GPU instances selected with -gi (all without it), in ID order
+ */
+function selectedGpuInstances(
+  spec: HardwareSpec,
+  gpu: GPU,
+  giIds: number[] | undefined,
+): MIGInstance[] {
+  return placedInstances(spec, gpu.migInstances)
+    .filter((gi) => !giIds || giIds.includes(gi.id))
+    .sort((a, b) => a.id - b.id);
+}
+
+function createdComputeInstance(
+  spec: HardwareSpec,
+  gpu: GPU,
+  gi: MIGInstance,
+  ci: ComputeInstance,
+): string {
+  const giProfile = findMigProfile(spec, gi.profileId)!;
+  const profile = getComputeProfiles(spec, giProfile).find(
+    (p) => p.id === ci.profileId,
+  )!;
+  return `Successfully created compute instance ID ${pad2(ci.id)} on GPU ${pad2(gpu.id)} GPU instance ID ${pad2(gi.id)} using profile MIG ${profile.name} (ID ${pad2(profile.id)})`;
+}
+
+/**
+ * nvidia-smi mig -lgip
+ */
+function formatMigProfiles(spec: HardwareSpec, gpus: GPU[]): string {
+  const width = 77;
+  const lines = migTable(width, "GPU instance profiles:", [
+    [
+      [1, "GPU"],
+      [7, "Name"],
+      [24, "ID"],
+      [30, "Instances"],
+      [42, "Memory"],
+      [53, "P2P"],
+      [60, "SM"],
+      [66, "DEC"],
+      [72, "ENC"],
+    ],
+    [
+      [30, "Free/Total"],
+      [43, "GiB"],
+      [60, "CE"],
+      [66, "JPEG"],
+      [72, "OFA"],
+    ],
+  ]);
+  gpus.forEach((gpu) =>
+    getMigProfiles(spec).forEach((profile) => {
+      const free = freeInstanceCount(spec, gpu, profile);
+      lines.push(
+        atColumns(width, [
+          [0, gpu.id.toString().padStart(4)],
+          [6, `MIG ${profile.name}`],
+          [24, pad2(profile.id)],
+          [31, `${free}/${profile.maxInstances}`],
+          [42, profile.memory.toFixed(2)],
+          [53, "No"],
+          [59, profile.smCount.toString().padStart(3)],
+          [66, pad2(profile.decoders)],
+          [72, pad2(profile.encoders)],
+        ]),
+        atColumns(width, [
+          [59, profile.copyEngines.toString().padStart(3)],
+          [66, pad2(profile.jpegDecoders)],
+          [72, pad2(profile.ofa)],
+        ]),
+        `+${"-".repeat(width)}+`,
+      );
+    }),
+  );
+  return lines.join("\n");
+}
+
+/**
+ * nvidia-smi mig -lgipp
+ */
+function formatMigPlacements(spec: HardwareSpec, gpus: GPU[]): string {
+  return gpus
+    .flatMap((gpu) =>
+      getMigProfiles(spec).map((profile) => {
+        const starts = availablePlacements(spec, gpu, profile);
+        return `GPU ${pad2(gpu.id)} Profile ID ${pad2(profile.id)} Placements: {${starts.join(",")}}:${profile.memorySlices}`;
+      }),
+    )
+    .join("\n");
+}
+
+/**
+ * nvidia-smi mig -lgi, or undefined when there are no GPU instances
+ */
+function formatGpuInstances(
+  spec: HardwareSpec,
+  gpus: GPU[],
+): string | undefined {
+  const width = 55;
+  const rows = gpus.flatMap((gpu) =>
+    selectedGpuInstances(spec, gpu, undefined).flatMap((gi) => [
+      atColumns(width, [
+        [0, gpu.id.toString().padStart(4)],
+        [6, `MIG ${findMigProfile(spec, gi.profileId)?.name ?? "Unknown"}`],
+        [24, pad2(gi.profileId)],
+        [33, pad2(gi.id)],
+        [45, `${gi.placement!.start}:${gi.placement!.size}`],
+      ]),
+      `+${"-".repeat(width)}+`,
+    ]),
+  );
+  if (rows.length === 0) return undefined;
+  const heading = migTable(width, "GPU instances:", [
+    [
+      [1, "GPU"],
+      [7, "Name"],
+      [24, "Profile"],
+      [33, "Instance"],
+      [44, "Placement"],
+    ],
+    [
+      [26, "ID"],
+      [35, "ID"],
+      [44, "Start:Size"],
+    ],
+  ]);
+  return [...heading, ...rows].join("\n");
+}
+
+/**
+ * nvidia-smi mig -lci, or undefined when there are no compute instances
+ */
+function formatComputeInstances(
+  spec: HardwareSpec,
+  gpus: GPU[],
+  giIds: number[] | undefined,
+): string | undefined {
+  const width = 68;
+  const rows = gpus.flatMap((gpu) =>
+    selectedGpuInstances(spec, gpu, giIds).flatMap((gi) => {
+      const giProfile = findMigProfile(spec, gi.profileId);
+      const profiles = giProfile ? getComputeProfiles(spec, giProfile) : [];
+      return [...gi.computeInstances]
+        .sort((a, b) => a.id - b.id)
+        .flatMap((ci) => [
+          atColumns(width, [
+            [0, gpu.id.toString().padStart(4)],
+            [8, gi.id.toString().padStart(3)],
+            [
+              18,
+              `MIG ${profiles.find((p) => p.id === ci.profileId)?.name ?? "Unknown"}`,
+            ],
+            [37, pad2(ci.profileId)],
+            [47, pad2(ci.id)],
+            [59, `${ci.placement?.start}:${ci.placement?.size}`],
+          ]),
+          `+${"-".repeat(width)}+`,
+        ]);
+    }),
+  );
+  if (rows.length === 0) return undefined;
+  const heading = migTable(width, "Compute instances:", [
+    [
+      [1, "GPU"],
+      [9, "GPU"],
+      [19, "Name"],
+      [36, "Profile"],
+      [46, "Instance"],
+      [57, "Placement"],
+    ],
+    [
+      [7, "Instance"],
+      [38, "ID"],
+      [48, "ID"],
+      [57, "Start:Size"],
+    ],
+    [[9, "ID"]],
+  ]);
+  return [...heading, ...rows].join("\n");
+}
+
+/**
+ * nvidia-smi mig -lcip, or undefined when there are no GPU instances
+ */
+function formatComputeProfiles(
+  spec: HardwareSpec,
+  gpus: GPU[],
+  giIds: number[] | undefined,
+): string | undefined {
+  const width = 86;
+  const rows = gpus.flatMap((gpu) =>
+    selectedGpuInstances(spec, gpu, giIds).flatMap((gi) => {
+      const giProfile = findMigProfile(spec, gi.profileId);
+      if (!giProfile) return [];
+      return getComputeProfiles(spec, giProfile).flatMap((profile) => {
+        const free = freeComputeInstanceCount(spec, gpu, gi.id, profile);
+        return [
+          atColumns(width, [
+            [0, gpu.id.toString().padStart(4)],
+            [8, gi.id.toString().padStart(3)],
+            [18, `MIG ${profile.name}`],
+            [37, pad2(profile.id)],
+            [46, `${free}/${profile.maxInstances}`],
+            [59, profile.smCount.toString().padStart(3)],
+            [69, pad2(giProfile.decoders)],
+            [75, pad2(giProfile.encoders)],
+            [81, pad2(giProfile.ofa)],
+          ]),
+          atColumns(width, [
+            [69, pad2(giProfile.copyEngines)],
+            [75, pad2(giProfile.jpegDecoders)],
+          ]),
+          `+${"-".repeat(width)}+`,
+        ];
+      });
+    }),
+  );
+  if (rows.length === 0) return undefined;
+  const heading = migTable(width, "Compute instance profiles:", [
+    [
+      [1, "GPU"],
+      [9, "GPU"],
+      [19, "Name"],
+      [36, "Profile"],
+      [45, "Instances"],
+      [57, "Exclusive"],
+      [73, "Shared"],
+    ],
+    [
+      [7, "Instance"],
+      [38, "ID"],
+      [45, "Free/Total"],
+      [60, "SM"],
+      [69, "DEC"],
+      [75, "ENC"],
+      [81, "OFA"],
+    ],
+    [
+      [9, "ID"],
+      [69, "CE"],
+      [75, "JPEG"],
+    ],
+  ]);
+  return [...heading, ...rows].join("\n");
+}
+
+/**
+ * nvidia-smi mig -lcipp, or undefined when there are no GPU instances
+ */
+function formatComputePlacements(
+  spec: HardwareSpec,
+  gpus: GPU[],
+  giIds: number[] | undefined,
+): string | undefined {
+  const lines = gpus.flatMap((gpu) =>
+    selectedGpuInstances(spec, gpu, giIds).flatMap((gi) => {
+      const giProfile = findMigProfile(spec, gi.profileId);
+      if (!giProfile) return [];
+      return getComputeProfiles(spec, giProfile).map((profile) => {
+        const starts = availableComputePlacements(spec, gpu, gi.id, profile);
+        return `GPU ${pad2(gpu.id)} GI ${pad2(gi.id)} Profile ID ${pad2(profile.id)} Placements: {${starts.join(",")}}:${profile.computeSlices}`;
+      });
+    }),
+  );
+  return lines.length === 0 ? undefined : lines.join("\n");
+}
+
 export class NvidiaSmiSimulator extends BaseSimulator {
   constructor() {
     super();
@@ -142,20 +478,54 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       usage: "nvidia-smi mig [OPTIONS]",
       flags: [
         { short: "i", long: "id", description: "GPU ID", takesValue: true },
+        {
+          long: "gi",
+          description: "GPU instance IDs for -cci, -lci, -lcip, -dgi and -dci",
+          takesValue: true,
+        },
+        {
+          long: "ci",
+          description: "Compute instance IDs for -dci",
+          takesValue: true,
+        },
         { long: "lgip", description: "List GPU instance profiles" },
+        {
+          long: "lgipp",
+          description: "List possible GPU instance placements",
+        },
         { long: "lgi", description: "List GPU instances" },
-        { long: "cgi", description: "Create GPU instances", takesValue: true },
-        { long: "dgi", description: "Destroy GPU instances" },
+        { long: "lcip", description: "List compute instance profiles" },
+        {
+          long: "lcipp",
+          description: "List possible compute instance placements",
+        },
+        { long: "lci", description: "List compute instances" },
+        {
+          long: "cgi",
+          description: "Create GPU instances (PROFILE[:START],...)",
+          takesValue: true,
+        },
         {
           short: "C",
-          long: "create-compute",
+          long: "default-compute-instance",
+          description: "Create a compute instance in each new GPU instance",
+        },
+        {
+          long: "cci",
           description: "Create compute instances",
+          takesValue: true,
         },
+        { long: "dci", description: "Destroy compute instances" },
+        { long: "dgi", description: "Destroy GPU instances" },
       ],
       examples: [
         "nvidia-smi mig -lgip",
+        "nvidia-smi mig -lgipp",
         "nvidia-smi mig -lgi",
         "nvidia-smi mig -i 0 -cgi 19,19,19 -C",
+        "nvidia-smi mig -i 0 -cgi 9:4 -C",
+        "nvidia-smi mig -i 0 -gi 1 -cci 0",
+        "nvidia-smi mig -i 0 -dci",
         "nvidia-smi mig -i 0 -dgi",
       ],
     });
@@ -214,6 +584,33 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       }
     }
 
+    // nvidia-smi and NVML come with the driver packages, and NVML needs the
+    // kernel driver of the same version, which a booting node has not
+    // loaded yet
+    const node = this.getNode(context);
+    if (node && !hasNvidiaUtils(node)) {
+      return this.createError("nvidia-smi: command not found", 127);
+    }
+    if (node && !libraryVersion(node)) {
+      return this.createError(
+        "NVIDIA-SMI couldn't find libnvidia-ml.so library in your system. Please make sure that the NVIDIA Display Driver is properly installed and present in your system.\nPlease also try adding directory that contains libnvidia-ml.so to your system PATH.",
+        12,
+      );
+    }
+    if (node && !isDriverLoaded(node)) {
+      return this.createError(
+        "NVIDIA-SMI has failed because it couldn't communicate with the NVIDIA driver. Make sure that the latest NVIDIA driver is installed and running.",
+        9,
+      );
+    }
+    const mismatch = node && libraryMismatch(node);
+    if (mismatch) {
+      return this.createError(
+        `Failed to initialize NVML: Driver/library version mismatch\nNVML library version: ${mismatch.split(".").slice(0, 2).join(".")}`,
+        18,
+      );
+    }
+
     // Handle subcommands
     const subcommand = parsed.subcommands[0];
     if (subcommand) {
@@ -232,7 +629,6 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       }
     }
 
-    const node = this.getNode(context);
     if (!node) {
       return this.createError("Error: Unable to determine current node");
     }
@@ -356,7 +752,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
         (g) => g.id === targetGpuId && !this.hasGPUFallenOffBus(g),
       );
       return {
-        output: this.formatDefault(filteredGPUs, node.gpus.length),
+        output: this.formatDefault(node, filteredGPUs),
         exitCode: 0,
       };
     }
@@ -366,7 +762,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       (gpu) => !this.hasGPUFallenOffBus(gpu),
     );
     return {
-      output: this.formatDefault(visibleGPUs, node.gpus.length),
+      output: this.formatDefault(node, visibleGPUs),
       exitCode: 0,
     };
   }
@@ -432,8 +828,19 @@ export class NvidiaSmiSimulator extends BaseSimulator {
     if (visibleGPUs.length === 0) {
       output = "No devices were found\n";
     } else {
+      const spec = getHardwareSpecs(node.systemType || "DGX-A100");
       visibleGPUs.forEach((gpu) => {
         output += `GPU ${gpu.id}: ${gpu.name} (UUID: ${gpu.uuid})\n`;
+        // Each compute instance is a MIG device
+        let device = 0;
+        selectedGpuInstances(spec, gpu, undefined).forEach((gi) => {
+          const giProfile = findMigProfile(spec, gi.profileId);
+          const profiles = giProfile ? getComputeProfiles(spec, giProfile) : [];
+          gi.computeInstances.forEach((ci) => {
+            const name = profiles.find((p) => p.id === ci.profileId)?.name;
+            output += `  ${`MIG ${name}`.padEnd(16)}Device ${pad2(device++)}: (UUID: ${ci.uuid})\n`;
+          });
+        });
       });
     }
 
@@ -446,7 +853,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
    */
   private handleQueryGpu(
     fields: string,
-    node: { gpus: GPU[] },
+    node: DGXNode,
     parsed: ParsedCommand,
   ): CommandResult {
     const fieldList = fields.split(",").map((f) => f.trim());
@@ -484,7 +891,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
     // Build data rows for each GPU
     for (const gpu of node.gpus) {
       const values = fieldList.map((field) =>
-        this.getGpuFieldValue(gpu, field),
+        this.getGpuFieldValue(node, gpu, field),
       );
       output += values.join(", ") + "\n";
     }
@@ -544,6 +951,10 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       "retired_pages.pending",
       "retired_pages.sbe",
       "retired_pages.dbe",
+      "remapped_rows.correctable",
+      "remapped_rows.uncorrectable",
+      "remapped_rows.pending",
+      "remapped_rows.failure",
       "timestamp",
       "nvlink.link0.state",
       "nvlink.link1.state",
@@ -558,13 +969,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
   /**
    * Get a specific field value from a GPU for --query-gpu output
    */
-  private getGpuFieldValue(gpu: GPU, field: string): string {
-    const node = this.getNode({
-      currentNode: "",
-      currentPath: "",
-      environment: {},
-      history: [],
-    });
+  private getGpuFieldValue(node: DGXNode, gpu: GPU, field: string): string {
     const driverVersion = node?.nvidiaDriverVersion || "535.129.03";
 
     switch (field.toLowerCase()) {
@@ -574,7 +979,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       case "cuda_version":
         return node?.cudaVersion || "12.2";
       case "vbios_version":
-        return "96.00.89.00.01";
+        return runningVersion(node, `GPU${gpu.id}`);
       case "serial":
         return gpu.uuid.split("-")[1] || "N/A";
 
@@ -613,9 +1018,9 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       case "utilization.memory":
         return `${Math.round((gpu.memoryUsed / gpu.memoryTotal) * 100)} %`;
       case "utilization.encoder":
-        return `${Math.floor(Math.random() * 10)} %`;
+        return `${simulationRandom.int(10)} %`;
       case "utilization.decoder":
-        return `${Math.floor(Math.random() * 5)} %`;
+        return `${simulationRandom.int(5)} %`;
 
       // Temperature
       case "temperature.gpu":
@@ -633,7 +1038,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       case "power.draw.average":
         return `${Math.round(gpu.powerDraw * 0.95)} W`;
       case "power.draw.instant":
-        return `${Math.round(gpu.powerDraw + (Math.random() - 0.5) * 10)} W`;
+        return `${Math.round(gpu.powerDraw + (simulationRandom.next() - 0.5) * 10)} W`;
       case "power.limit":
         return `${Math.round(gpu.powerLimit)} W`;
       case "power.default_limit":
@@ -739,12 +1144,22 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       // Retired Pages
       case "retired_pages.single_bit_ecc.count":
       case "retired_pages.sbe":
-        return Math.floor(gpu.eccErrors.aggregated.singleBit / 10).toString();
+        return retiredPageCount(gpu, "SBE").toString();
       case "retired_pages.double_bit.count":
       case "retired_pages.dbe":
-        return gpu.eccErrors.aggregated.doubleBit.toString();
+        return retiredPageCount(gpu, "DBE").toString();
       case "retired_pages.pending":
-        return gpu.eccErrors.doubleBit > 0 ? "Yes" : "No";
+        return pendingRetiredPages(gpu) > 0 ? "Yes" : "No";
+
+      // Remapped Rows
+      case "remapped_rows.correctable":
+        return remappedRowCount(gpu, "correctable").toString();
+      case "remapped_rows.uncorrectable":
+        return remappedRowCount(gpu, "uncorrectable").toString();
+      case "remapped_rows.pending":
+        return pendingRemappedRows(gpu) > 0 ? "Yes" : "No";
+      case "remapped_rows.failure":
+        return getMemoryHealth(gpu).remapFailures.length > 0 ? "Yes" : "No";
 
       // Compute & Display Mode
       case "compute_mode":
@@ -770,7 +1185,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       case "count":
         return node?.gpus.length.toString() || "8";
       case "timestamp":
-        return new Date().toISOString();
+        return simulationClock.date().toISOString();
 
       // NVLink
       case "nvlink.link0.state":
@@ -794,7 +1209,8 @@ export class NvidiaSmiSimulator extends BaseSimulator {
    * Handle -d/--display flag for selective information display
    * Supports: MEMORY, UTILIZATION, ECC, TEMPERATURE, POWER, CLOCK, COMPUTE, PIDS,
    * PERFORMANCE, SUPPORTED_CLOCKS, PAGE_RETIREMENT, ACCOUNTING, ENCODER_STATS,
-   * SUPPORTED_GPU_TARGET_TEMP, VOLTAGE, FBC_STATS, ROW_REMAPPER, RESET_STATUS
+   * SUPPORTED_GPU_TARGET_TEMP, VOLTAGE, FBC_STATS, ROW_REMAPPER, RESET_STATUS,
+   * FABRIC
    */
   private handleDisplayFlag(
     displayType: string,
@@ -805,7 +1221,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       .toUpperCase()
       .split(",")
       .map((d) => d.trim());
-    const timestamp = new Date().toISOString();
+    const timestamp = simulationClock.date().toISOString();
     const driverVersion = node?.nvidiaDriverVersion || "535.129.03";
 
     let output = `==============NVSMI LOG==============\n\n`;
@@ -953,6 +1369,13 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       );
     }
 
+    // A reset clears the volatile ECC counts and activates pending page
+    // retirements and row remaps
+    const memoryReset: Partial<GPU> = {
+      eccErrors: { ...gpu.eccErrors, singleBit: 0, doubleBit: 0 },
+      memoryHealth: completePendingRepairs(gpu),
+    };
+
     // Check if GPU has other critical XID errors
     const criticalXIDs = gpu.xidErrors.filter(
       (xid) => xid.severity === "Critical" && xid.code !== 79,
@@ -963,6 +1386,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
 
       // Clear XID errors after reset
       this.resolveMutator(context).updateGPU(node.id, gpuId, {
+        ...memoryReset,
         xidErrors: [],
         healthStatus: "OK",
         temperature: 45,
@@ -979,6 +1403,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
 
     // Normal GPU reset (no critical errors)
     this.resolveMutator(context).updateGPU(node.id, gpuId, {
+      ...memoryReset,
       xidErrors: [],
       healthStatus: "OK",
       utilization: 0,
@@ -1085,20 +1510,41 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       return this.createError("Error: Unable to determine current node");
     }
 
+    const gpuIdStr = this.getFlagString(parsed, ["i", "id"]);
+    if (gpuIdStr) {
+      const validationError = this.validateGpuIndexString(gpuIdStr, node);
+      if (validationError) {
+        return validationError;
+      }
+    }
+    const gpus = gpuIdStr
+      ? node.gpus.filter((g) => g.id === parseInt(gpuIdStr))
+      : node.gpus;
+
     if (this.hasAnyFlag(parsed, ["status", "s"])) {
-      let output = `GPU 0: ${node.gpus[0].name}\n`;
-      node.gpus[0].nvlinks.forEach((link) => {
-        output += `\tLink ${link.linkId}: ${link.status} (${link.speed} GB/s)\n`;
+      // Untrained links (no fabric registration, or down) show as inactive
+      let output = "";
+      gpus.forEach((gpu) => {
+        output += `GPU ${gpu.id}: ${gpu.name} (UUID: ${gpu.uuid})\n`;
+        gpu.nvlinks.forEach((link) => {
+          output +=
+            link.status === "Active"
+              ? `\t Link ${link.linkId}: ${link.speed} GB/s\n`
+              : `\t Link ${link.linkId}: <inactive>\n`;
+        });
       });
       return this.createSuccess(output);
     }
 
     // Error counters (-e flag)
     if (this.hasAnyFlag(parsed, ["e"])) {
-      let output = `GPU 0: ${node.gpus[0].name}\n`;
-      output += `NVLink Error Counters:\n`;
-      node.gpus[0].nvlinks.forEach((link) => {
-        output += `  Link ${link.linkId}: CRC Errors: ${link.txErrors + link.rxErrors}, Replay Errors: ${link.replayErrors}\n`;
+      let output = "";
+      gpus.forEach((gpu) => {
+        output += `GPU ${gpu.id}: ${gpu.name}\n`;
+        output += `NVLink Error Counters:\n`;
+        gpu.nvlinks.forEach((link) => {
+          output += `  Link ${link.linkId}: CRC Errors: ${link.txErrors + link.rxErrors}, Replay Errors: ${link.replayErrors}\n`;
+        });
       });
       return this.createSuccess(output);
     }
@@ -1129,15 +1575,33 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       const specs = getHardwareSpecs(node.systemType || "DGX-A100");
       const nvLinkLabel = specs.nvlink.nvLinkLabel;
 
-      let output =
-        "\tGPU0\tGPU1\tGPU2\tGPU3\tGPU4\tGPU5\tGPU6\tGPU7\tmlx5_0\tmlx5_1\tCPU Affinity\tNUMA Affinity\n";
+      // Rack-scale compute trays have one NIC per GPU and pin each GPU to
+      // the Grace CPU of its superchip; the others share one NUMA node
+      const rackScale = isRackScale(node);
+      const nics = rackScale ? node.hcas.map((_hca, k) => k) : [0, 1];
+      const coresPerSocket = specs.system.cpu.coresPerSocket;
+
+      let output = "\t";
+      output += node.gpus.map((_gpu, j) => `GPU${j}\t`).join("");
+      output += nics.map((k) => `mlx5_${k}\t`).join("");
+      output += "CPU Affinity\tNUMA Affinity\n";
       node.gpus.forEach((_gpu, i) => {
         output += `GPU${i}\t`;
-        for (let j = 0; j < 8; j++) {
+        for (let j = 0; j < node.gpus.length; j++) {
           if (i === j) output += " X\t";
           else output += `${nvLinkLabel}\t`;
         }
-        output += "SYS\tSYS\t0-63\t0\n";
+        if (rackScale) {
+          const socket = superchipOf(node, i);
+          for (const k of nics) {
+            output += superchipOf(node, k) === socket ? "NODE\t" : "SYS\t";
+          }
+          const firstCore = socket * coresPerSocket;
+          output += `${firstCore}-${firstCore + coresPerSocket - 1}\t${socket}\n`;
+        } else {
+          output += nics.map(() => "SYS\t").join("");
+          output += "0-63\t0\n";
+        }
       });
 
       output += `\nLegend:\n\n`;
@@ -1164,6 +1628,8 @@ export class NvidiaSmiSimulator extends BaseSimulator {
     parsed: ParsedCommand,
     context: CommandContext,
   ): CommandResult {
+    // -cgi, -cci, -gi and -ci take values only within mig
+    parsed = this.parseWithSchema(parsed.raw, "mig");
     if (this.hasAnyFlag(parsed, ["help", "h"])) {
       return this.handleHelp("mig");
     }
@@ -1172,97 +1638,352 @@ export class NvidiaSmiSimulator extends BaseSimulator {
     if (!node) {
       return this.createError("Error: Unable to determine current node");
     }
+    const spec = getHardwareSpecs(node.systemType || "DGX-A100");
 
-    // Handle -lgip (list GPU instance profiles)
-    if (this.hasAnyFlag(parsed, ["lgip"])) {
-      return {
-        output: this.formatMIGList(node.gpus, "gi-profile"),
-        exitCode: 0,
-      };
+    let gpus = node.gpus;
+    const gpuIdStr = this.getFlagString(parsed, ["i", "id"]);
+    if (gpuIdStr) {
+      const ids = gpuIdStr.split(",").map((id) => id.trim());
+      for (const id of ids) {
+        const invalid = this.validateGpuIndexString(id, node);
+        if (invalid) return invalid;
+      }
+      gpus = ids.map((id) => node.gpus[parseInt(id)]);
     }
+    const migGpus = gpus.filter((gpu) => gpu.migMode);
 
-    // Handle -lgi (list GPU instances)
-    if (this.hasAnyFlag(parsed, ["lgi"])) {
-      return {
-        output: this.formatMIGList(node.gpus, "gi"),
-        exitCode: 0,
-      };
+    const creating = this.hasAnyFlag(parsed, [
+      "cgi",
+      "create-gpu-instance",
+      "cci",
+      "create-compute-instance",
+    ]);
+    if (creating && gpuIdStr && migGpus.length < gpus.length) {
+      const gpuId = gpus.find((gpu) => !gpu.migMode)!.id;
+      return this.createError(
+        `Error: MIG mode not enabled on this GPU\nUse 'nvidia-smi -i ${gpuId} -mig 1' to enable MIG mode.`,
+      );
+    }
+
+    const operations: [string[], () => CommandResult][] = [
+      [
+        ["lgip", "list-gpu-instance-profiles"],
+        () => this.createSuccess(formatMigProfiles(spec, migGpus)),
+      ],
+      [
+        ["lgipp", "list-gpu-instance-possible-placements"],
+        () => this.createSuccess(formatMigPlacements(spec, migGpus)),
+      ],
+      [
+        ["lgi", "list-gpu-instances"],
+        () =>
+          this.listOrNotFound(
+            formatGpuInstances(spec, migGpus),
+            "GPU instances",
+          ),
+      ],
+      [
+        ["lcip", "list-compute-instance-profiles"],
+        () =>
+          this.listOrNotFound(
+            formatComputeProfiles(spec, migGpus, this.getGiIds(parsed)),
+            "GPU instances",
+          ),
+      ],
+      [
+        ["lcipp", "list-compute-instance-possible-placements"],
+        () =>
+          this.listOrNotFound(
+            formatComputePlacements(spec, migGpus, this.getGiIds(parsed)),
+            "GPU instances",
+          ),
+      ],
+      [
+        ["lci", "list-compute-instances"],
+        () =>
+          this.listOrNotFound(
+            formatComputeInstances(spec, migGpus, this.getGiIds(parsed)),
+            "compute instances",
+          ),
+      ],
+      [
+        ["cgi", "create-gpu-instance"],
+        () => this.createGpuInstances(parsed, context, spec, node, migGpus),
+      ],
+      [
+        ["cci", "create-compute-instance"],
+        () => this.createComputeInstances(parsed, context, spec, node, migGpus),
+      ],
+      [
+        ["dci", "destroy-compute-instance"],
+        () => this.destroyComputeInstances(parsed, context, node, migGpus),
+      ],
+      [
+        ["dgi", "destroy-gpu-instance"],
+        () => this.destroyGpuInstances(parsed, context, node, migGpus),
+      ],
+    ];
+    const operation = operations.find(([flags]) =>
+      this.hasAnyFlag(parsed, flags),
+    );
+    if (!operation) {
+      return this.createError(
+        "nvidia-smi mig: No operation specified.\nTry 'nvidia-smi mig --help' for more information.",
+      );
+    }
+    if (migGpus.length === 0) {
+      return this.createError("No MIG-enabled devices found.", 6);
     }
+    return operation[1]();
+  }
 
-    // Handle -cgi (create GPU instances)
-    if (this.hasAnyFlag(parsed, ["cgi"])) {
-      const gpuId = this.getFlagNumber(parsed, ["i", "id"], 0);
-      const gpu = node.gpus[gpuId];
+  private listOrNotFound(
+    output: string | undefined,
+    instances: string,
+  ): CommandResult {
+    return output === undefined
+      ? this.createError(`No ${instances} found: Not Found`, 6)
+      : this.createSuccess(output);
+  }
 
-      if (!gpu.migMode) {
-        return this.createError(
-          "Error: MIG mode not enabled on this GPU\nUse 'nvidia-smi -i ${gpuId} -mig 1' to enable MIG mode.",
-        );
-      }
+  /**
+   * GPU instance IDs selected with -gi, or undefined for all of them
+   */
+  private getGiIds(parsed: ParsedCommand): number[] | undefined {
+    return parseIdList(this.getFlagString(parsed, ["gi", "gpu-instance-id"]));
+  }
 
-      // Parse profile IDs from the cgi flag value
-      const cgiValue = this.getFlagString(parsed, ["cgi"], "");
-      const profileIds = cgiValue
-        .split(",")
-        .map((id) => parseInt(id.trim()))
-        .filter((id) => !isNaN(id));
+  /**
+   * nvidia-smi mig -cgi: create GPU instances from profile IDs or names,
+   * each optionally pinned to a placement with PROFILE:START
+   */
+  private createGpuInstances(
+    parsed: ParsedCommand,
+    context: CommandContext,
+    spec: HardwareSpec,
+    node: DGXNode,
+    gpus: GPU[],
+  ): CommandResult {
+    const requests = this.getFlagString(parsed, ["cgi", "create-gpu-instance"])
+      .split(",")
+      .map((r) => r.trim())
+      .filter(Boolean);
+    if (requests.length === 0) {
+      return this.createError(
+        "Error: No valid profile IDs specified.\nUse nvidia-smi mig -lgip to list available profiles.",
+      );
+    }
+    const defaultComputeInstance = this.hasAnyFlag(parsed, [
+      "C",
+      "default-compute-instance",
+    ]);
 
-      if (profileIds.length === 0) {
-        return this.createError(
-          "Error: No valid profile IDs specified.\nUse nvidia-smi mig -lgip to list available profiles.",
+    const lines: string[] = [];
+    let failure: string | undefined;
+    for (const gpu of gpus) {
+      let current = gpu;
+      for (const request of requests) {
+        const [profileRef, startStr] = request.split(":");
+        const start = startStr === undefined ? undefined : Number(startStr);
+        const op =
+          start !== undefined && !Number.isInteger(start)
+            ? { error: "Invalid Argument" }
+            : createGpuInstance(spec, current, profileRef, {
+                start,
+                defaultComputeInstance,
+              });
+        if (op.error) {
+          lines.push(
+            `Unable to create a GPU instance on GPU ${pad2(gpu.id)} using profile ${profileRef}: ${op.error}`,
+          );
+          failure = op.error;
+          continue;
+        }
+        const gi = op.gpuInstance!;
+        const profile = findMigProfile(spec, gi.profileId)!;
+        lines.push(
+          `Successfully created GPU instance ID ${pad2(gi.id)} on GPU ${pad2(gpu.id)} using profile MIG ${profile.name} (ID ${pad2(profile.id)})`,
+        );
+        gi.computeInstances.forEach((ci) =>
+          lines.push(createdComputeInstance(spec, gpu, gi, ci)),
         );
+        current = { ...current, migInstances: op.migInstances! };
       }
+      if (current !== gpu) {
+        this.resolveMutator(context).updateGPU(node.id, gpu.id, {
+          migInstances: current.migInstances,
+        });
+      }
+    }
 
-      // Create instances
-      const createCompute = this.hasAnyFlag(parsed, ["C", "create-compute"]);
-      const newInstances: MIGInstance[] = profileIds.map((profileId, idx) => ({
-        id: gpu.migInstances.length + idx,
-        gpuId: gpuId,
-        profileId: profileId,
-        uuid: `MIG-GPU-${gpuId}-${gpu.migInstances.length + idx}`,
-        computeInstances: createCompute
-          ? [
-              {
-                id: 0,
-                giId: gpu.migInstances.length + idx,
-                profileId: 0,
-                uuid: `MIG-GPU-${gpuId}/CI-${gpu.migInstances.length + idx}/0`,
-              },
-            ]
-          : [],
-      }));
+    if (failure) {
+      lines.push(`Failed to create GPU instances: ${failure}`);
+      return { output: lines.join("\n"), exitCode: 1 };
+    }
+    return this.createSuccess(lines.join("\n"));
+  }
 
-      this.resolveMutator(context).updateGPU(node.id, gpuId, {
-        migInstances: [...gpu.migInstances, ...newInstances],
-      });
+  /**
+   * nvidia-smi mig -cci: create compute instances in the GPU instances
+   * selected with -gi, spanning each one unless profiles are given
+   */
+  private createComputeInstances(
+    parsed: ParsedCommand,
+    context: CommandContext,
+    spec: HardwareSpec,
+    node: DGXNode,
+    gpus: GPU[],
+  ): CommandResult {
+    const profileRefs: (string | undefined)[] = this.getFlagString(parsed, [
+      "cci",
+      "create-compute-instance",
+    ])
+      .split(",")
+      .map((r) => r.trim())
+      .filter(Boolean);
+    if (profileRefs.length === 0) profileRefs.push(undefined);
+    const giIds = this.getGiIds(parsed);
 
-      let output = `Successfully created ${profileIds.length} GPU instance(s) on GPU ${gpuId}:\n`;
-      newInstances.forEach((gi) => {
-        const profile = MIG_PROFILES.find((p) => p.id === gi.profileId);
-        output += `  GPU instance ID ${gi.id}: ${profile?.name || "Unknown profile"}\n`;
-      });
+    const lines: string[] = [];
+    let failure: string | undefined;
+    for (const gpu of gpus) {
+      let current = gpu;
+      for (const giId of giIds ?? gpu.migInstances.map((gi) => gi.id)) {
+        for (const profileRef of profileRefs) {
+          const op = createComputeInstance(spec, current, giId, profileRef);
+          if (op.error) {
+            lines.push(
+              `Unable to create a compute instance on GPU ${pad2(gpu.id)} GPU instance ID ${pad2(giId)} using profile ${profileRef ?? "default"}: ${op.error}`,
+            );
+            failure = op.error;
+            continue;
+          }
+          lines.push(
+            createdComputeInstance(
+              spec,
+              gpu,
+              op.gpuInstance!,
+              op.computeInstance!,
+            ),
+          );
+          current = { ...current, migInstances: op.migInstances! };
+        }
+      }
+      if (current !== gpu) {
+        this.resolveMutator(context).updateGPU(node.id, gpu.id, {
+          migInstances: current.migInstances,
+        });
+      }
+    }
 
-      return this.createSuccess(output);
+    if (failure || lines.length === 0) {
+      lines.push(
+        `Failed to create compute instances: ${failure ?? "Not Found"}`,
+      );
+      return { output: lines.join("\n"), exitCode: 1 };
     }
+    return this.createSuccess(lines.join("\n"));
+  }
 
-    // Handle -dgi (destroy GPU instances)
-    if (this.hasAnyFlag(parsed, ["dgi", "dci"])) {
-      const gpuId = this.getFlagNumber(parsed, ["i", "id"], 0);
-      this.resolveMutator(context).updateGPU(node.id, gpuId, {
-        migInstances: [],
-      });
+  /**
+   * nvidia-smi mig -dci: destroy the compute instances selected with -gi
+   * and -ci, or all of them
+   */
+  private destroyComputeInstances(
+    parsed: ParsedCommand,
+    context: CommandContext,
+    node: DGXNode,
+    gpus: GPU[],
+  ): CommandResult {
+    const giIds = this.getGiIds(parsed);
+    const ciIds = parseIdList(
+      this.getFlagString(parsed, ["ci", "compute-instance-id"]),
+    );
 
-      return this.createSuccess(
-        `Successfully destroyed all GPU instances on GPU ${gpuId}`,
+    const lines: string[] = [];
+    let failure: string | undefined;
+    for (const gpu of gpus) {
+      let current = gpu;
+      for (const giId of giIds ?? gpu.migInstances.map((gi) => gi.id)) {
+        const gi = gpu.migInstances.find((i) => i.id === giId);
+        for (const ciId of ciIds ??
+          gi?.computeInstances.map((ci) => ci.id) ??
+          []) {
+          const op = destroyComputeInstance(current, giId, ciId);
+          if (op.error) {
+            lines.push(
+              `Unable to destroy compute instance ID ${pad2(ciId)} from GPU ${pad2(gpu.id)} GPU instance ID ${pad2(giId)}: ${op.error}`,
+            );
+            failure = op.error;
+            continue;
+          }
+          lines.push(
+            `Successfully destroyed compute instance ID ${pad2(ciId)} from GPU ${pad2(gpu.id)} GPU instance ID ${pad2(giId)}`,
+          );
+          current = { ...current, migInstances: op.migInstances! };
+        }
+      }
+      if (current !== gpu) {
+        this.resolveMutator(context).updateGPU(node.id, gpu.id, {
+          migInstances: current.migInstances,
+        });
+      }
+    }
+
+    if (failure || lines.length === 0) {
+      lines.push(
+        `Failed to destroy compute instances: ${failure ?? "Not Found"}`,
       );
+      return { output: lines.join("\n"), exitCode: 1 };
     }
+    return this.createSuccess(lines.join("\n"));
+  }
 
-    return this.createError(
-      "nvidia-smi mig: No operation specified.\nTry 'nvidia-smi mig --help' for more information.",
-    );
+  /**
+   * nvidia-smi mig -dgi: destroy the GPU instances selected with -gi, or
+   * all of them. GPU instances still holding compute instances stay.
+   */
+  private destroyGpuInstances(
+    parsed: ParsedCommand,
+    context: CommandContext,
+    node: DGXNode,
+    gpus: GPU[],
+  ): CommandResult {
+    const giIds = this.getGiIds(parsed);
+
+    const lines: string[] = [];
+    let failure: string | undefined;
+    for (const gpu of gpus) {
+      let current = gpu;
+      for (const giId of giIds ?? gpu.migInstances.map((gi) => gi.id)) {
+        const op = destroyGpuInstance(current, giId);
+        if (op.error) {
+          lines.push(
+            `Unable to destroy GPU instance ID ${pad2(giId)} from GPU ${pad2(gpu.id)}: ${op.error}`,
+          );
+          failure = op.error;
+          continue;
+        }
+        lines.push(
+          `Successfully destroyed GPU instance ID ${pad2(giId)} from GPU ${pad2(gpu.id)}`,
+        );
+        current = { ...current, migInstances: op.migInstances! };
+      }
+      if (current !== gpu) {
+        this.resolveMutator(context).updateGPU(node.id, gpu.id, {
+          migInstances: current.migInstances,
+        });
+      }
+    }
+
+    if (failure || lines.length === 0) {
+      lines.push(`Failed to destroy GPU instances: ${failure ?? "Not Found"}`);
+      return { output: lines.join("\n"), exitCode: 1 };
+    }
+    return this.createSuccess(lines.join("\n"));
   }
 
-  private formatDefault(gpus: GPU[], totalGPUs?: number): string {
+  private formatDefault(node: DGXNode, gpus: GPU[]): string {
     // SOURCE OF TRUTH: Column widths
     const COL_1 = 31; // GPU Name/Fan info
     const COL_2 = 22; // Bus ID/Memory
@@ -1308,14 +2029,8 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       jitterMs: 100,
     });
 
-    const node = this.getNode({
-      currentNode: "",
-      currentPath: "",
-      environment: {},
-      history: [],
-    });
-    const driverVersion = node?.nvidiaDriverVersion || "535.129.03";
-    const cudaVersion = node?.cudaVersion || "12.2";
+    const driverVersion = node.nvidiaDriverVersion;
+    const cudaVersion = node.cudaVersion;
 
     let output = `${dateTimeStr}\n`;
 
@@ -1448,8 +2163,8 @@ export class NvidiaSmiSimulator extends BaseSimulator {
     output += TOP_BORDER + "\n";
 
     // Add warning if some GPUs are not visible due to XID errors
-    if (totalGPUs !== undefined && gpus.length < totalGPUs) {
-      const missingGPUs = totalGPUs - gpus.length;
+    if (gpus.length < node.gpus.length) {
+      const missingGPUs = node.gpus.length - gpus.length;
       output += `\n\x1b[31mWARNING: ${missingGPUs} GPU(s) not shown due to critical errors (XID 79: GPU fallen off the bus)\x1b[0m\n`;
       output += `\x1b[33mCheck 'dmesg | grep -i xid' for details. GPU reset or system reboot may be required.\x1b[0m\n`;
     }
@@ -1467,7 +2182,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
       if (idx > 0) output += "\n";
 
       output += `==============NVSMI LOG==============\n\n`;
-      output += `Timestamp                                 : ${new Date().toISOString()}\n`;
+      output += `Timestamp                                 : ${simulationClock.date().toISOString()}\n`;
       output += `Driver Version                            : ${node.nvidiaDriverVersion}\n`;
       output += `CUDA Version                              : ${node.cudaVersion}\n\n`;
       output += `Attached GPUs                             : ${gpus.length}\n`;
@@ -1487,7 +2202,7 @@ export class NvidiaSmiSimulator extends BaseSimulator {
 
       output += `GPU UUID                                  : ${g.uuid}\n`;
       output += `Minor Number                              : ${g.id}\n`;
-      output += `VBIOS Version                             : 92.00.5C.00.01\n`;
+      output += `VBIOS Version                             : ${runningVersion(node, `GPU${g.id}`)}\n`;
       output += `MultiGPU Board                            : No\n`;
       output += `Board ID                                  : 0x${g.id.toString(16).padStart(4, "0")}\n`;
       output += `GPU Part Number                           : 692-2G503-0200-002\n`;
@@ -1609,63 +2324,4 @@ export class NvidiaSmiSimulator extends BaseSimulator {
 
     return output;
   }
-
-  private formatMIGList(
-    gpus: GPU[],
-    listType: "gi" | "gi-profile" | "ci-profile",
-  ): string {
-    if (listType === "gi-profile" || listType === "ci-profile") {
-      let output =
-        "+-----------------------------------------------------------------------------+\n";
-      output +=
-        "| GPU instance profiles:                                                       |\n";
-      output +=
-        "| GPU   Name             ID    Instances   Memory     P2P    SM    DEC   ENC  |\n";
-      output +=
-        "|                              Free/Total   GiB        CE                      |\n";
-      output +=
-        "|=============================================================================|\n";
-
-      gpus.forEach((gpu) => {
-        if (gpu.migMode) {
-          MIG_PROFILES.forEach((profile) => {
-            const usedInstances = gpu.migInstances.filter(
-              (mi) => mi.profileId === profile.id,
-            ).length;
-            const freeInstances = profile.maxInstances - usedInstances;
-            output += `|   ${gpu.id}  ${profile.name.padEnd(17)} ${profile.id.toString().padStart(2)}     ${freeInstances}/${profile.maxInstances}        ${profile.memory.toFixed(2).padStart(5)}       ${profile.maxInstances === 1 ? "Yes" : "No ".padEnd(3)}     ${profile.computeSlices.toString().padStart(2)}     ${Math.floor(profile.computeSlices / 14)}     0   |\n`;
-          });
-        }
-      });
-
-      output +=
-        "+-----------------------------------------------------------------------------+\n";
-      return output;
-    } else {
-      // List GPU instances
-      let output =
-        "+-----------------------------------------------------------------------+\n";
-      output +=
-        "| GPU instances:                                                         |\n";
-      output += "| GPU   Name          Profile  Instance   Placement  |\n";
-      output += "|                       ID       ID       Start:Size  |\n";
-      output +=
-        "|=======================================================================|\n";
-
-      gpus.forEach((gpu) => {
-        if (gpu.migInstances.length > 0) {
-          gpu.migInstances.forEach((gi) => {
-            const profile = MIG_PROFILES.find((p) => p.id === gi.profileId);
-            output += `|   ${gpu.id}  ${profile?.name.padEnd(13)} ${gi.profileId.toString().padStart(2)}        ${gi.id.toString().padStart(2)}          0:${profile?.computeSlices.toString().padStart(2)}     |\n`;
-          });
-        } else if (gpu.migMode) {
-          output += `|   ${gpu.id}  No MIG devices configured                                    |\n`;
-        }
-      });
-
-      output +=
-        "+-----------------------------------------------------------------------+\n";
-      return output;
-    }
-  }
 }
@@ -7,6 +7,8 @@ import type {
 import { BaseSimulator } from "./BaseSimulator";
 import type { GPU, DGXNode, XIDError } from "@/types/hardware";
 import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
 
 // Extended node type for NVSwitch support (not in base DGXNode type)
 interface ExtendedDGXNode extends DGXNode {
@@ -109,7 +111,7 @@ export class NvlinkAuditSimulator extends BaseSimulator {
       "================================================================================\n";
     output += "                        NVLink Fabric Audit Report\n";
     output += `                        Host: ${node.hostname}\n`;
-    output += `                        Date: ${new Date().toISOString()}\n`;
+    output += `                        Date: ${simulationClock.date().toISOString()}\n`;
     output +=
       "================================================================================\n\n";
 
@@ -209,7 +211,7 @@ export class NvlinkAuditSimulator extends BaseSimulator {
 
       for (let i = 0; i < Math.min(gpusToAudit.length, 4); i++) {
         for (let j = i + 1; j < Math.min(gpusToAudit.length, 4); j++) {
-          const bw = 200 + Math.random() * 50; // Simulated bandwidth
+          const bw = 200 + simulationRandom.next() * 50; // Simulated bandwidth
           const expected = 200;
           const statusIcon =
             bw >= expected * 0.9
@@ -243,7 +245,7 @@ export class NvlinkAuditSimulator extends BaseSimulator {
     if (reportFormat === "json") {
       const jsonReport = {
         host: node.hostname,
-        timestamp: new Date().toISOString(),
+        timestamp: simulationClock.date().toISOString(),
         totalGpus: node.gpus.length,
         nvswitches: (node as ExtendedDGXNode).nvswitches?.length || 0,
         status: hasErrors ? "ERROR" : hasWarnings ? "WARNING" : "HEALTHY",
@@ -289,7 +291,7 @@ export class NvlinkAuditSimulator extends BaseSimulator {
       // Simulate link status - some links go to other GPUs, some to NVSwitches
       const linkActive = hasNvlinkFault ? i < 8 : true; // Fault affects some links
       const linkErrors =
-        hasNvlinkFault && i >= 8 ? Math.floor(Math.random() * 100) : 0;
+        hasNvlinkFault && i >= 8 ? simulationRandom.int(100) : 0;
 
       links.push({
         active: linkActive,
@@ -6,6 +6,7 @@ import type {
 } from "@/types/commands";
 import { BaseSimulator } from "./BaseSimulator";
 import type { DGXNode, GPU } from "@/types/hardware";
+import { simulationClock } from "@/simulation/simulationClock";
 
 /**
  * NVSM Interactive Shell State
@@ -460,7 +461,8 @@ export class NvsmSimulator extends BaseSimulator {
    * Per spec Section 2.4
    */
   private dumpHealth(): string {
-    const timestamp = new Date()
+    const timestamp = simulationClock
+      .date()
       .toISOString()
       .replace(/[-:T]/g, "")
       .slice(0, 14);
@@ -5,12 +5,15 @@ import type {
   SimulatorMetadata,
 } from "@/types/commands";
 import { BaseSimulator } from "./BaseSimulator";
+import { simulationClock } from "@/simulation/simulationClock";
+import { FABRIC_MANAGER_UNIT, getNVSwitchFabric } from "@/utils/nvswitchFabric";
+import { hostPciFunctions } from "@/utils/blueFieldDpu";
 
 /**
  * Format a Date as "MMM DD HH:MM:SS" (e.g., "Feb 08 14:23:45").
  * This matches the real journalctl timestamp format used on Linux systems.
  */
-function formatJournalTimestamp(date: Date): string {
+export function formatJournalTimestamp(date: Date): string {
   const months = [
     "Jan",
     "Feb",
@@ -174,6 +177,12 @@ export class PciToolsSimulator extends BaseSimulator {
         const pciAddr = `0000:a${idx}:00.0`;
         output += `${pciAddr} InfiniBand: Mellanox Technologies ${hca.caType}\n`;
       });
+      // What the host sees of a BlueField depends on the mode it runs in
+      for (const dpu of node.dpus ?? []) {
+        for (const fn of hostPciFunctions(dpu)) {
+          output += `${fn.address} ${fn.description}\n`;
+        }
+      }
     }
 
     return this.createSuccess(output);
@@ -197,7 +206,7 @@ export class PciToolsSimulator extends BaseSimulator {
       return this.createError("No node found");
     }
 
-    const now = new Date();
+    const now = simulationClock.date();
     const rawCommand = parsed.raw || "";
 
     // Check for grep patterns in the command
@@ -376,6 +385,19 @@ export class PciToolsSimulator extends BaseSimulator {
 
     // Filter by unit (-u)
     if (unitFlag && typeof unitFlag === "string") {
+      if (unitFlag.replace(/\.service$/, "") === FABRIC_MANAGER_UNIT) {
+        const entries = getNVSwitchFabric(node).fabricManager.log.map(
+          (e) =>
+            `${formatJournalTimestamp(new Date(e.timestamp))} ${node.hostname} ${e.process}: ${e.message}`,
+        );
+        if (entries.length === 0) {
+          return this.createSuccess("-- No entries --");
+        }
+        return this.createSuccess(
+          `-- Logs begin at Mon 2024-01-15 00:00:00 UTC --\n` +
+            entries.join("\n"),
+        );
+      }
       if (unitFlag.includes("nvidia") || unitFlag.includes("gpu")) {
         const filtered = logEntries.filter(
           (line) =>
@@ -0,0 +1,534 @@
+/**
+ * Podman Simulator
+ *
+ * Simulates Podman, the daemonless container engine common on RHEL-based
+ * HPC nodes:
+ * - pull, images, rmi - Manage images
+ * - run, exec, ps, stop, rm - Manage containers
+ *
+ * GPUs are passed with CDI (`--device nvidia.com/gpu=all`), which needs the
+ * CDI specification generated by nvidia-container-toolkit. Podman enforces
+ * short-name resolution, so unqualified images must already be cached.
+ */
+
+import { BaseSimulator } from "./BaseSimulator";
+import type {
+  CommandContext,
+  CommandResult,
+  ParsedCommand,
+} from "@/types/commands";
+import type { GPU } from "@/types/hardware";
+import {
+  imageName,
+  parseImageReference,
+  qualifiedRepository,
+} from "@/simulation/containerRuntime";
+import {
+  defaultWorkdir,
+  findMissingMountSource,
+  formatAge,
+  formatContainerStatus,
+  getRunOption,
+  getRunOptions,
+  parseBindSpec,
+  parseRunArguments,
+  runInContainer,
+} from "./containerExec";
+import { simulationClock } from "@/simulation/simulationClock";
+
+/** `podman run` / `podman exec` options that take a value */
+const RUN_VALUE_OPTIONS = new Set([
+  "device",
+  "gpus",
+  "name",
+  "v",
+  "volume",
+  "e",
+  "env",
+  "w",
+  "workdir",
+  "u",
+  "user",
+  "p",
+  "publish",
+  "security-opt",
+  "shm-size",
+  "ipc",
+  "network",
+  "entrypoint",
+  "hooks-dir",
+]);
+
+const CDI_GPU_PREFIX = "nvidia.com/gpu=";
+
+export class PodmanSimulator extends BaseSimulator {
+  constructor() {
+    super();
+    this.initializeDefinitionRegistry();
+
+    this.registerCommand("podman", this.handlePodman.bind(this), {
+      name: "podman",
+      description: "Daemonless container engine",
+      usage: "podman [options] COMMAND [ARGS...]",
+      flags: [
+        {
+          long: "device",
+          description: "Add a device; use nvidia.com/gpu=all for GPUs (CDI)",
+        },
+      ],
+      examples: [
+        "podman pull nvcr.io/nvidia/pytorch:24.01-py3",
+        "podman run --rm --device nvidia.com/gpu=all nvidia/cuda:12.4.0-base nvidia-smi -L",
+        "podman ps -a",
+      ],
+    });
+  }
+
+  getMetadata() {
+    return {
+      name: "podman",
+      version: "4.9.3",
+      description: "Daemonless container engine",
+      commands: Array.from(this.commandMetadata.values()),
+    };
+  }
+
+  execute(parsed: ParsedCommand, context: CommandContext): CommandResult {
+    const handler = this.getCommand(parsed.baseCommand);
+    if (!handler) {
+      return this.createError(`Unknown command: ${parsed.baseCommand}`);
+    }
+    return this.safeExecuteHandler(handler, parsed, context) as CommandResult;
+  }
+
+  private handlePodman(
+    parsed: ParsedCommand,
+    context: CommandContext,
+  ): CommandResult {
+    const args = parsed.rawArgs;
+    const index = args.findIndex((a) => !a.startsWith("-"));
+    const globals = index === -1 ? args : args.slice(0, index);
+
+    if (globals.includes("--version") || globals.includes("-v")) {
+      return this.createSuccess("podman version 4.9.3");
+    }
+    if (index === -1 || globals.includes("--help") || globals.includes("-h")) {
+      return this.createSuccess(this.usage());
+    }
+
+    const command = args[index];
+    const rest = args.slice(index + 1);
+    switch (command) {
+      case "version":
+        return this.createSuccess(
+          "Client:       Podman Engine\nVersion:      4.9.3\nAPI Version:  4.9.3\nGo Version:   go1.21.7\nOS/Arch:      linux/amd64",
+        );
+      case "pull":
+        return this.handlePull(rest, context);
+      case "images":
+        return this.handleImages(context);
+      case "rmi":
+        return this.handleRmi(rest, context);
+      case "run":
+        return this.handleRun(rest, context);
+      case "exec":
+        return this.handleExec(rest, context);
+      case "ps":
+        return this.handlePs(rest, context);
+      case "stop":
+        return this.handleStop(rest, context);
+      case "rm":
+        return this.handleRm(rest, context);
+      default:
+        return this.createError(
+          `Error: unrecognized command \`podman ${command}\`\nTry 'podman --help' for more information`,
+          125,
+        );
+    }
+  }
+
+  private usage(): string {
+    return `Manage pods, containers and images
+
+Usage:
+  podman [options] [command]
+
+Available Commands:
+  exec        Run a process in a running container
+  images      List images in local storage
+  ps          List containers
+  pull        Pull an image from a registry
+  rm          Remove one or more containers
+  rmi         Remove one or more images from local storage
+  run         Run a command in a new container
+  stop        Stop one or more containers
+  version     Display the Podman version information`;
+  }
+
+  private nodeId(context: CommandContext): string {
+    return this.resolveNode(context)?.id ?? context.currentNode;
+  }
+
+  // --------------------------------------------------------------------------
+  // Images
+  // --------------------------------------------------------------------------
+
+  /**
+   * Pull an image if it is not cached. Returns the pull output, or the error
+   * for an unqualified name Podman cannot resolve without a prompt.
+   */
+  private ensureImage(
+    ref: string,
+    context: CommandContext,
+  ): { output: string[] } | CommandResult {
+    const runtime = this.resolveContainerRuntime(context);
+    const nodeId = this.nodeId(context);
+    const cached = runtime.findImage(nodeId, ref);
+    if (cached) return { output: [] };
+
+    const { repository, tag } = parseImageReference(ref);
+    const first = repository.split("/")[0];
+    if (!repository.includes("/") || !/[.:]|^localhost$/.test(first)) {
+      return this.createError(
+        `Error: short-name resolution enforced but cannot prompt without a TTY`,
+        125,
+      );
+    }
+
+    const { image } = runtime.pullImage(nodeId, ref);
+    return {
+      output: [
+        `Trying to pull ${repository}:${tag}...`,
+        "Getting image source signatures",
+        `Copying blob ${image.id} done`,
+        `Copying config ${image.id.slice(0, 10)} done`,
+        "Writing manifest to image destination",
+      ],
+    };
+  }
+
+  private handlePull(args: string[], context: CommandContext): CommandResult {
+    const ref = args.find((a) => !a.startsWith("-"));
+    if (!ref) {
+      return this.createError(
+        "Error: requires at least 1 arg(s), only received 0",
+        125,
+      );
+    }
+    const pulled = this.ensureImage(ref, context);
+    if ("exitCode" in pulled) return pulled;
+
+    const image = this.resolveContainerRuntime(context).findImage(
+      this.nodeId(context),
+      ref,
+    );
+    const output = pulled.output.length
+      ? pulled.output
+      : [
+          `Trying to pull ${imageName(ref)}...`,
+          "Getting image source signatures",
+          `Copying blob ${image?.id} skipped: already exists`,
+          "Writing manifest to image destination",
+        ];
+    return this.createSuccess([...output, image?.id ?? ""].join("\n"));
+  }
+
+  private handleImages(context: CommandContext): CommandResult {
+    const COL_REPOSITORY = 41;
+    const COL_TAG = 16;
+    const COL_IMAGEID = 15;
+    const COL_CREATED = 15;
+
+    let output =
+      "REPOSITORY".padEnd(COL_REPOSITORY) +
+      "TAG".padEnd(COL_TAG) +
+      "IMAGE ID".padEnd(COL_IMAGEID) +
+      "CREATED".padEnd(COL_CREATED) +
+      "SIZE\n";
+    for (const image of this.resolveContainerRuntime(context).listImages(
+      this.nodeId(context),
+    )) {
+      output +=
+        qualifiedRepository(image.repository).padEnd(COL_REPOSITORY - 1) +
+        " " +
+        image.tag.padEnd(COL_TAG) +
+        image.id.padEnd(COL_IMAGEID) +
+        "2 weeks ago".padEnd(COL_CREATED) +
+        image.size +
+        "\n";
+    }
+    return this.createSuccess(output);
+  }
+
+  private handleRmi(args: string[], context: CommandContext): CommandResult {
+    const runtime = this.resolveContainerRuntime(context);
+    const nodeId = this.nodeId(context);
+    const force = args.some((a) => a === "-f" || a === "--force");
+    const refs = args.filter((a) => !a.startsWith("-"));
+    if (refs.length === 0) {
+      return this.createError("Error: image name or ID must be specified", 125);
+    }
+    const output: string[] = [];
+    for (const ref of refs) {
+      const image = runtime.findImage(nodeId, ref);
+      const error = runtime.removeImage(nodeId, ref, force);
+      if (error) {
+        return this.createError(
+          `Error: ${error.startsWith("No such image") ? `${ref}: image not known` : error}`,
+          error.startsWith("No such image") ? 1 : 2,
+        );
+      }
+      output.push(
+        `Untagged: ${qualifiedRepository(image?.repository ?? ref)}:${image?.tag}`,
+      );
+      output.push(`Deleted: ${image?.id}`);
+    }
+    return this.createSuccess(output.join("\n"));
+  }
+
+  // --------------------------------------------------------------------------
+  // Containers
+  // --------------------------------------------------------------------------
+
+  private handleRun(args: string[], context: CommandContext): CommandResult {
+    const run = parseRunArguments(args, RUN_VALUE_OPTIONS);
+    const [image, ...commandArgs] = run.operands;
+    if (!image) {
+      return this.createError(
+        "Error: requires at least 1 arg(s), only received 0",
+        125,
+      );
+    }
+    const node = this.resolveNode(context);
+    if (!node) {
+      return this.createError("Error: unable to determine current node", 125);
+    }
+
+    const runtime = this.resolveContainerRuntime(context);
+    const fs = this.resolveFileSystem(context);
+    const name = getRunOption(run, ["name"]);
+    const existing = name ? runtime.findContainer(node.id, name) : undefined;
+    if (existing) {
+      return this.createError(
+        `Error: creating container storage: the container name "${name}" is already in use by ${existing.id}. You have to remove that container to be able to reuse that name: that name is already in use`,
+        125,
+      );
+    }
+
+    // CDI devices resolve against the spec nvidia-container-toolkit writes
+    const cdiDevices = [
+      ...getRunOptions(run, ["device"]).filter((d) =>
+        d.startsWith(CDI_GPU_PREFIX),
+      ),
+      ...getRunOptions(run, ["gpus"]).map((spec) => `${CDI_GPU_PREFIX}${spec}`),
+    ];
+    let gpus: GPU[] | null = null;
+    for (const device of cdiDevices) {
+      const selector = device.slice(CDI_GPU_PREFIX.length);
+      const selected =
+        selector === "all"
+          ? node.gpus
+          : selector.split(",").map((i) => node.gpus[parseInt(i)]);
+      if (
+        !runtime.isToolkitInstalled(node.id) ||
+        selected.some((g) => g === undefined)
+      ) {
+        return this.createError(
+          `Error: setting up CDI devices: unresolvable CDI devices ${device}`,
+          125,
+        );
+      }
+      gpus = [...(gpus ?? []), ...selected.filter((g) => !gpus?.includes(g))];
+    }
+
+    // Unlike Docker, Podman does not create missing bind sources
+    const mounts = getRunOptions(run, ["v", "volume"]).map((spec) =>
+      parseBindSpec(spec, context.currentPath),
+    );
+    const missing = findMissingMountSource(fs, node.id, mounts);
+    if (missing) {
+      return this.createError(
+        `Error: statfs ${missing.source}: no such file or directory`,
+        125,
+      );
+    }
+
+    const pulled = this.ensureImage(image, context);
+    if ("exitCode" in pulled) return pulled;
+    const output = [...pulled.output];
+
+    const detach = run.options.has("d") || run.options.has("detach");
+    const remove = run.options.has("rm");
+    const result =
+      detach || commandArgs.length === 0
+        ? { output: "", exitCode: 0 }
+        : (runInContainer(commandArgs, {
+            node,
+            image,
+            gpus,
+            mounts,
+            fs,
+            workdir:
+              getRunOption(run, ["w", "workdir"]) ?? defaultWorkdir(image),
+          }) ?? {
+            output: `Error: crun: executable file \`${commandArgs[0]}\` not found in $PATH: No such file or directory: OCI runtime attempted to invoke a command that was not found`,
+            exitCode: 127,
+          });
+
+    if (!remove || detach) {
+      const container = runtime.createContainer(node.id, {
+        name,
+        image,
+        command: commandArgs.join(" "),
+        engine: "podman",
+        state: detach ? "running" : "exited",
+        exitCode: result.exitCode,
+        gpus: (gpus ?? []).map((g) => g.id),
+        mounts,
+      });
+      if (detach && typeof container !== "string") {
+        output.push(container.id);
+      }
+    }
+    if (result.output) output.push(result.output);
+    return { output: output.join("\n"), exitCode: result.exitCode };
+  }
+
+  private handleExec(args: string[], context: CommandContext): CommandResult {
+    const run = parseRunArguments(args, RUN_VALUE_OPTIONS);
+    const [name, ...commandArgs] = run.operands;
+    if (!name || commandArgs.length === 0) {
+      return this.createError(
+        "Error: must provide a non-empty command to start an exec session",
+        125,
+      );
+    }
+    const node = this.resolveNode(context);
+    if (!node) {
+      return this.createError("Error: unable to determine current node", 125);
+    }
+    const container = this.resolveContainerRuntime(context).findContainer(
+      node.id,
+      name,
+    );
+    if (!container) {
+      return this.createError(
+        `Error: no container with name or ID "${name}" found: no such container`,
+        125,
+      );
+    }
+    if (container.state !== "running") {
+      return this.createError(
+        `Error: can only create exec sessions on running containers: container state improper`,
+        125,
+      );
+    }
+
+    const result = runInContainer(commandArgs, {
+      node,
+      image: container.image,
+      gpus: node.gpus.filter((g) => container.gpus.includes(g.id)),
+      mounts: container.mounts,
+      fs: this.resolveFileSystem(context),
+      workdir: defaultWorkdir(container.image),
+    });
+    return (
+      result ??
+      this.createError(
+        `Error: crun: executable file \`${commandArgs[0]}\` not found in $PATH: No such file or directory: OCI runtime attempted to invoke a command that was not found`,
+        127,
+      )
+    );
+  }
+
+  private handlePs(args: string[], context: CommandContext): CommandResult {
+    const all = args.some((a) => a === "-a" || a === "--all" || a === "-aq");
+    const quiet = args.some(
+      (a) => a === "-q" || a === "--quiet" || a === "-aq",
+    );
+    const containers = this.resolveContainerRuntime(context).listContainers(
+      this.nodeId(context),
+      all,
+    );
+    if (quiet) {
+      return this.createSuccess(containers.map((c) => c.id).join("\n"));
+    }
+
+    const COL_CONTAINERID = 15;
+    const COL_IMAGE = 45;
+    const COL_COMMAND = 21;
+    const COL_CREATED = 16;
+    const COL_STATUS = 28;
+    const COL_PORTS = 10;
+
+    let output =
+      "CONTAINER ID".padEnd(COL_CONTAINERID) +
+      "IMAGE".padEnd(COL_IMAGE) +
+      "COMMAND".padEnd(COL_COMMAND) +
+      "CREATED".padEnd(COL_CREATED) +
+      "STATUS".padEnd(COL_STATUS) +
+      "PORTS".padEnd(COL_PORTS) +
+      "NAMES\n";
+    const now = simulationClock.now();
+    for (const container of containers) {
+      const { repository, tag } = parseImageReference(container.image);
+      output +=
+        container.id.padEnd(COL_CONTAINERID) +
+        `${qualifiedRepository(repository)}:${tag}`.padEnd(COL_IMAGE - 1) +
+        " " +
+        container.command.slice(0, COL_COMMAND - 1).padEnd(COL_COMMAND) +
+        `${formatAge(now - container.created)} ago`.padEnd(COL_CREATED - 1) +
+        " " +
+        formatContainerStatus(container, now).padEnd(COL_STATUS - 1) +
+        " " +
+        "".padEnd(COL_PORTS) +
+        container.name +
+        "\n";
+    }
+    return this.createSuccess(output);
+  }
+
+  private handleStop(args: string[], context: CommandContext): CommandResult {
+    const runtime = this.resolveContainerRuntime(context);
+    const names = args.filter((a) => !a.startsWith("-"));
+    if (names.length === 0) {
+      return this.createError(
+        "Error: you must provide at least one name or id",
+        125,
+      );
+    }
+    for (const name of names) {
+      if (!runtime.stopContainer(this.nodeId(context), name)) {
+        return this.createError(
+          `Error: no container with name or ID "${name}" found: no such container`,
+          125,
+        );
+      }
+    }
+    return this.createSuccess(names.join("\n"));
+  }
+
+  private handleRm(args: string[], context: CommandContext): CommandResult {
+    const runtime = this.resolveContainerRuntime(context);
+    const force = args.some((a) => a === "-f" || a === "--force");
+    const names = args.filter((a) => !a.startsWith("-"));
+    if (names.length === 0) {
+      return this.createError(
+        "Error: must specify either --all or at least one container name or ID",
+        125,
+      );
+    }
+    for (const name of names) {
+      const error = runtime.removeContainer(this.nodeId(context), name, force);
+      if (error) {
+        return this.createError(
+          error.startsWith("No such container")
+            ? `Error: no container with ID or name "${name}" found: no such container`
+            : `Error: ${error}`,
+          error.startsWith("No such container") ? 1 : 2,
+        );
+      }
+    }
+    return this.createSuccess(names.join("\n"));
+  }
+}
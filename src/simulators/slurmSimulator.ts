@@ -6,98 +6,185 @@ import {
 } from "@/simulators/BaseSimulator";
 import type { DGXNode } from "@/types/hardware";
 import type { SeedJob } from "@/types/scenarios";
-import { getHardwareSpecs, type SystemType } from "@/data/hardwareSpecs";
-
-function getGresGpuType(systemType: SystemType): string {
-  const gpuModelMap: Record<SystemType, string> = {
-    "DGX-A100": "a100",
-    "DGX-H100": "h100",
-    "DGX-H200": "h200",
-    "DGX-B200": "b200",
-    "DGX-GB200": "b200",
-    "DGX-VR200": "r200",
-  };
-  return gpuModelMap[systemType] ?? "gpu";
+import {
+  DEFAULT_RUN_SECONDS,
+  PRIORITY_WEIGHTS,
+  SlurmController,
+  formatElapsed,
+  formatJobId,
+  formatTaskList,
+  isFinished,
+  parseArraySpec,
+  parseDependency,
+  parseTimeSpec,
+  QOS_PRIORITY,
+  ACCOUNTS,
+  type SlurmJob,
+  type SlurmJobState,
+} from "@/simulation/slurmController";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import {
+  DEFAULT_PARTITION,
+  derivePartitions,
+  formatHostlist,
+  getGresGpuType,
+  nodeGres,
+  nodePartitions,
+  type SlurmPartition,
+} from "@/simulation/slurmPartitions";
+import { resolvePath } from "@/simulation/virtualFileSystem";
+import { isGpuImage } from "@/simulation/containerRuntime";
+import { simulationClock } from "@/simulation/simulationClock";
+import { simulationRandom } from "@/simulation/seededRandom";
+import {
+  defaultWorkdir,
+  enrootHookFailure,
+  findMissingMountSource,
+  parseBindList,
+  readImageFileSource,
+  runInContainer,
+} from "./containerExec";
+
+const STATE_CODES: Record<SlurmJobState, string> = {
+  PENDING: "PD",
+  RUNNING: "R",
+  COMPLETED: "CD",
+  FAILED: "F",
+  CANCELLED: "CA",
+  TIMEOUT: "TO",
+  NODE_FAIL: "NF",
+};
+
+/** Node states as sinfo prints them, short and long */
+type NodeDisplayState = "idle" | "mix" | "alloc" | "drng" | "drain" | "down";
+
+const NODE_STATE_ORDER: NodeDisplayState[] = [
+  "idle",
+  "mix",
+  "alloc",
+  "drng",
+  "drain",
+  "down",
+];
+
+const NODE_STATE_LONG: Record<NodeDisplayState, string> = {
+  idle: "idle",
+  mix: "mixed",
+  alloc: "allocated",
+  drng: "draining",
+  drain: "drained",
+  down: "down",
+};
+
+/** Nodes of one partition that sinfo reports on */
+interface SinfoRow {
+  partition: SlurmPartition;
+  nodes: DGXNode[];
 }
 
-interface SlurmJob {
-  jobId: number;
-  partition: string;
-  name: string;
-  user: string;
-  state: "RUNNING" | "PENDING" | "COMPLETED" | "FAILED" | "CANCELLED";
-  time: string;
-  timeLimit: string;
-  nodes: number;
-  nodelist: string;
-  cpus: number;
-  gpus: number;
-  memory: string;
-  submitTime: Date;
-  startTime?: Date;
-  endTime?: Date;
-  priority: number;
-  account: string;
-  qos: string;
-  workDir: string;
-  command: string;
-  dependency?: string;
-  arrayTaskId?: number;
-  reasonPending?: string;
+/**
+ * How long a batch script runs and how it exits: the sum of its `sleep`
+ * commands (or DEFAULT_RUN_SECONDS if it has none) and the status of its
+ * first `exit`.
+ */
+function batchScriptBehavior(script: string): {
+  runSeconds: number;
+  exitCode: number;
+} {
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+  let runSeconds = 0;
+  let sleeps = false;
+  let exitCode = 0;
+  for (const line of script.split(/\n|;|&&/)) {
+    const command = line.trim();
+    if (command.startsWith("#")) continue;
+    const sleep = command.match(/^sleep\s+(\d+(?:\.\d+)?)([smhd]?)$/);
+    if (sleep) {
+      runSeconds += parseFloat(sleep[1]) * units[sleep[2] || "s"];
+      sleeps = true;
+      continue;
+    }
+    const exit = command.match(/^exit(?:\s+(\d+))?$/);
+    if (exit) {
+      exitCode = exit[1] ? parseInt(exit[1], 10) : 0;
+      break;
+    }
+  }
+  return {
+    runSeconds: sleeps ? Math.round(runSeconds) : DEFAULT_RUN_SECONDS,
+    exitCode,
+  };
 }
 
 /**
  * Slurm Simulator
  *
- * Handles multiple Slurm commands: sinfo, squeue, scontrol, sbatch, srun, scancel, sacct
- * Each command is a separate entry point from Terminal.tsx.
+ * Handles the Slurm client commands: sinfo, squeue, scontrol, sbatch, srun,
+ * scancel, sacct, sacctmgr, sprio and sshare. Each command is a separate
+ * entry point from Terminal.tsx; all of them read and update one job table
+ * kept by the SlurmController.
  */
 export class SlurmSimulator extends BaseSimulator {
-  private jobs: SlurmJob[] = [];
-  private nextJobId = 1000;
+  private controller: SlurmController;
   private currentCommand = "slurm";
 
-  constructor() {
+  /**
+   * @param clock - Source of simulation time for the controller, in epoch
+   *   milliseconds (default: the shared simulation clock)
+   */
+  constructor(clock?: () => number) {
     super();
+    this.controller = new SlurmController(
+      clock ?? (() => simulationClock.now()),
+    );
     this.initializeDefinitionRegistry();
   }
 
   /**
    * Inject a pre-existing job into the simulator.
    * Used by scenario initialization to populate squeue/scontrol output.
-   * Node slurmState and GPU allocation are handled separately by applyFaultsToContext.
+   * Node slurmState and GPU allocation are handled separately by
+   * applyFaultsToContext. Injected jobs keep running until cancelled, and
+   * injected pending jobs stay held until `scontrol release`.
    */
   injectJob(seed: SeedJob): void {
-    const job: SlurmJob = {
-      jobId: this.nextJobId++,
+    const now = this.controller.time();
+    const elapsed = (parseTimeSpec(seed.runtime) ?? 0) * 1000;
+    const nodeCount = Math.max(seed.nodeIds.length, 1);
+    const running = seed.state !== "PENDING";
+    const allocation: Record<string, number[]> = {};
+    if (running) {
+      seed.nodeIds.forEach((id) => {
+        allocation[id] = Array.from({ length: seed.gpusPerNode }, (_, i) => i);
+      });
+    }
+
+    this.controller.addJob({
       partition: seed.partition,
       name: seed.jobName,
       user: seed.user,
       state: seed.state,
-      time: seed.runtime,
+      time: running ? formatElapsed(elapsed / 1000) : formatElapsed(0),
       timeLimit: "infinite",
-      nodes: seed.state === "PENDING" ? 0 : seed.nodeIds.length,
-      nodelist:
-        seed.state === "PENDING"
-          ? `(${seed.reasonPending ?? "Resources"})`
-          : seed.nodeIds.join(","),
-      cpus: seed.nodeIds.length * 128,
-      gpus: seed.nodeIds.length * seed.gpusPerNode,
+      nodes: running ? seed.nodeIds.length : nodeCount,
+      nodelist: running ? seed.nodeIds.join(",") : "",
+      cpus: nodeCount * 128,
+      gpus: nodeCount * seed.gpusPerNode,
       memory: "512G",
-      submitTime: new Date(Date.now() - this.parseRuntime(seed.runtime)),
-      startTime:
-        seed.state === "RUNNING"
-          ? new Date(Date.now() - this.parseRuntime(seed.runtime))
-          : undefined,
-      endTime: seed.state === "FAILED" ? new Date() : undefined,
-      priority: 1000 + Math.floor(Math.random() * 100),
-      account: "default",
+      submitTime: new Date(now - elapsed),
+      startTime: running ? new Date(now - elapsed) : undefined,
+      endTime: seed.state === "FAILED" ? new Date(now) : undefined,
+      priority: 1000,
+      account: "research",
       qos: "normal",
       workDir: `/home/${seed.user}`,
       command: `${seed.jobName}.sh`,
-      reasonPending: seed.reasonPending,
-    };
-    this.jobs.push(job);
+      reasonPending: running ? undefined : (seed.reasonPending ?? "Resources"),
+      reqNodes: running || seed.nodeIds.length === 0 ? undefined : seed.nodeIds,
+      held: !running,
+      exitCode: seed.state === "FAILED" ? 1 : undefined,
+      allocation: seed.state === "RUNNING" ? allocation : undefined,
+    });
   }
 
   /**
@@ -117,17 +204,34 @@ export class SlurmSimulator extends BaseSimulator {
    * Called when exiting a scenario or loading a new one.
    */
   clearJobs(): void {
-    this.jobs = [];
-    this.nextJobId = 1000;
+    this.controller.reset();
   }
 
-  /** Parse "H:MM:SS" runtime string to milliseconds */
-  private parseRuntime(runtime: string): number {
-    const parts = runtime.split(":").map(Number);
-    if (parts.length === 3) {
-      return (parts[0] * 3600 + parts[1] * 60 + parts[2]) * 1000;
+  /** Bring the job table up to the current simulation time */
+  private updateJobs(context: CommandContext): void {
+    this.controller.update(
+      this.resolveAllNodes(context),
+      this.resolveMutator(context),
+    );
+  }
+
+  /**
+   * Node state as sinfo shows it: allocated nodes with GPUs to spare are
+   * mixed, and drained nodes still running jobs are draining.
+   */
+  private nodeDisplayState(node: DGXNode): NodeDisplayState {
+    const usage = this.controller.nodeUsage(node.id);
+    if (node.slurmState === "drain") {
+      return usage.jobs > 0 ? "drng" : "drain";
     }
-    return 0;
+    if (
+      node.slurmState === "alloc" &&
+      usage.jobs > 0 &&
+      usage.gpus.length < node.gpus.length
+    ) {
+      return "mix";
+    }
+    return node.slurmState;
   }
 
   getMetadata(): SimulatorMetadata {
@@ -160,6 +264,9 @@ export class SlurmSimulator extends BaseSimulator {
    * Fields: n=name, t=state, P=partition, c=cpus, m=memory, G=gres
    */
   private sortNodes(nodes: DGXNode[], sortSpec: string) {
+    const partitions = derivePartitions(nodes);
+    const partitionOf = (node: DGXNode) =>
+      nodePartitions(node.id, partitions).join(",");
     const sortFields = sortSpec.split(",");
 
     return [...nodes].sort((a, b) => {
@@ -175,8 +282,8 @@ export class SlurmSimulator extends BaseSimulator {
           case "t": // state
             comparison = a.slurmState.localeCompare(b.slurmState);
             break;
-          case "p": // partition (all same in our sim)
-            comparison = 0;
+          case "p": // partition
+            comparison = partitionOf(a).localeCompare(partitionOf(b));
             break;
           case "c": // cpus
             comparison = a.cpuCount - b.cpuCount;
@@ -184,8 +291,11 @@ export class SlurmSimulator extends BaseSimulator {
           case "m": // memory
             comparison = a.ramTotal - b.ramTotal;
             break;
-          case "g": // gres (GPUs)
-            comparison = a.gpus.length - b.gpus.length;
+          case "g": // gres (GPU type, then count)
+            comparison =
+              getGresGpuType(a.systemType).localeCompare(
+                getGresGpuType(b.systemType),
+              ) || a.gpus.length - b.gpus.length;
             break;
           default:
             comparison = 0;
@@ -219,7 +329,9 @@ export class SlurmSimulator extends BaseSimulator {
     const flagError = this.validateFlagsWithRegistry(parsed, "sinfo");
     if (flagError) return flagError;
 
+    this.updateJobs(context);
     let nodes = [...this.resolveAllNodes(context)];
+    let partitions = derivePartitions(nodes);
 
     // Handle --sort / -S flag
     const sortSpec = this.getFlagString(parsed, ["S", "sort"]);
@@ -231,16 +343,24 @@ export class SlurmSimulator extends BaseSimulator {
     const statesFilter = this.getFlagString(parsed, ["t", "states"]);
     if (statesFilter) {
       const allowedStates = statesFilter.toLowerCase().split(",");
-      nodes = nodes.filter((n) => allowedStates.includes(n.slurmState));
+      nodes = nodes.filter(
+        (n) =>
+          allowedStates.includes(n.slurmState) ||
+          allowedStates.includes(this.nodeDisplayState(n)),
+      );
     }
 
     // Handle --partition / -p flag to filter by partition
     const partitionFilter = this.getFlagString(parsed, ["p", "partition"]);
     if (partitionFilter) {
-      // In our simulation, all nodes are in 'gpu' partition
-      if (partitionFilter.toLowerCase() !== "gpu") {
+      const names = partitionFilter.toLowerCase().split(",");
+      partitions = partitions.filter((p) => names.includes(p.name));
+      if (partitions.length === 0) {
         return { output: "", exitCode: 0 }; // No matching partition
       }
+      nodes = nodes.filter((n) =>
+        partitions.some((p) => p.nodes.includes(n.id)),
+      );
     }
 
     // Handle --nodes / -n flag to filter by node name
@@ -250,6 +370,10 @@ export class SlurmSimulator extends BaseSimulator {
       nodes = nodes.filter((n) => nodeNames.includes(n.id));
     }
     const detailed = this.hasAnyFlag(parsed, ["Nel", "N", "l", "long", "Node"]);
+    const rows: SinfoRow[] = partitions.map((partition) => ({
+      partition,
+      nodes: nodes.filter((n) => partition.nodes.includes(n.id)),
+    }));
 
     // Handle -R flag for node state reasons
     if (this.hasAnyFlag(parsed, ["R", "list-reasons"])) {
@@ -267,49 +391,26 @@ export class SlurmSimulator extends BaseSimulator {
         "REASON               USER      TIMESTAMP           NODELIST\n";
       unavailableNodes.forEach((node) => {
         const reason = node.slurmReason || "Not specified";
-        const timestamp = new Date().toISOString().split("T")[0];
+        const timestamp = simulationClock.date().toISOString().split("T")[0];
         output += `${reason.padEnd(20)} root      ${timestamp}         ${node.id}\n`;
       });
 
       return { output, exitCode: 0 };
     }
 
-    // Handle custom output format with -o or --output-format
-    const outputFormat = this.getFlagString(parsed, ["o", "output-format"]);
-    if (outputFormat) {
-      // Parse format string like "%n %G"
-      let output = "";
-
-      // Handle common format strings
-      if (outputFormat.includes("%n") && outputFormat.includes("%G")) {
-        // Show nodes and their GRES
-        output = "NODE                 GRES\n";
-        nodes.forEach((node) => {
-          const gpuCount = node.gpus.length;
-          const gpuType = getGresGpuType(node.systemType);
-          const gres = gpuCount > 0 ? `gpu:${gpuType}:${gpuCount}` : "(null)";
-          output += `${node.id.padEnd(20)} ${gres}\n`;
-        });
-      } else if (
-        outputFormat.includes("%20n") &&
-        outputFormat.includes("%10G")
-      ) {
-        // Show nodes and their GRES with specific column widths
-        output = "NODE                 GRES      \n";
-        nodes.forEach((node) => {
-          const gpuCount = node.gpus.length;
-          const gpuType = getGresGpuType(node.systemType);
-          const gres = gpuCount > 0 ? `gpu:${gpuType}:${gpuCount}` : "(null)";
-          output += `${node.id.padEnd(20)} ${gres.padEnd(10)}\n`;
-        });
-      } else {
-        // Default format if we don't recognize it
-        output = "PARTITION AVAIL  TIMELIMIT  NODES  STATE NODELIST\n";
-        output +=
-          "gpu       up     infinite   8      idle  dgx-00,dgx-01,dgx-02,dgx-03,dgx-04,dgx-05,dgx-06,dgx-07\n";
-      }
+    const noHeader = this.hasAnyFlag(parsed, ["h", "noheader"]);
 
-      return { output, exitCode: 0 };
+    // Handle custom output format with -o / --format (e.g. "%n %G", "%20n")
+    const outputFormat = this.getFlagString(parsed, [
+      "o",
+      "format",
+      "output-format",
+    ]);
+    if (outputFormat) {
+      return {
+        output: this.formatSinfo(rows, outputFormat, noHeader, detailed),
+        exitCode: 0,
+      };
     }
 
     if (detailed) {
@@ -338,33 +439,28 @@ export class SlurmSimulator extends BaseSimulator {
         "AVAIL_FE".padEnd(COL_AVAILFE) +
         "REASON\n";
 
-      nodes.forEach((node) => {
-        const state =
-          node.slurmState === "idle"
-            ? "idle"
-            : node.slurmState === "alloc"
-              ? "allocated"
-              : node.slurmState === "drain"
-                ? "drained"
-                : "down";
-        const cpus = node.cpuCount;
-        const memory = node.ramTotal * 1024;
-        const reason = node.slurmReason || "none";
-
-        output +=
-          node.id.padEnd(COL_NODELIST) +
-          "1".padEnd(COL_NODES) +
-          "gpu".padEnd(COL_PARTITION) +
-          state.padEnd(COL_STATE) +
-          cpus.toString().padEnd(COL_CPUS) +
-          "2:64:1".padEnd(COL_SCT) +
-          memory.toString().padEnd(COL_MEMORY) +
-          "0".padEnd(COL_TMPDISK) +
-          "1".padEnd(COL_WEIGHT) +
-          "(null)".padEnd(COL_AVAILFE) +
-          reason +
-          "\n";
-      });
+      rows.forEach(({ partition, nodes: members }) =>
+        members.forEach((node) => {
+          const state = NODE_STATE_LONG[this.nodeDisplayState(node)];
+          const cpus = node.cpuCount;
+          const memory = node.ramTotal * 1024;
+          const reason = node.slurmReason || "none";
+
+          output +=
+            node.id.padEnd(COL_NODELIST) +
+            "1".padEnd(COL_NODES) +
+            partition.name.padEnd(COL_PARTITION) +
+            state.padEnd(COL_STATE) +
+            cpus.toString().padEnd(COL_CPUS) +
+            "2:64:1".padEnd(COL_SCT) +
+            memory.toString().padEnd(COL_MEMORY) +
+            "0".padEnd(COL_TMPDISK) +
+            "1".padEnd(COL_WEIGHT) +
+            "(null)".padEnd(COL_AVAILFE) +
+            reason +
+            "\n";
+        }),
+      );
 
       return { output, exitCode: 0 };
     }
@@ -376,62 +472,144 @@ export class SlurmSimulator extends BaseSimulator {
     const COL_NODES = 7;
     const COL_STATE = 6;
 
-    let output =
-      "PARTITION".padEnd(COL_PARTITION) +
-      "AVAIL".padEnd(COL_AVAIL) +
-      "TIMELIMIT".padEnd(COL_TIMELIMIT) +
-      "NODES".padEnd(COL_NODES) +
-      "STATE".padEnd(COL_STATE) +
-      "NODELIST\n";
-
-    const idleNodes = nodes.filter((n) => n.slurmState === "idle");
-    const allocNodes = nodes.filter((n) => n.slurmState === "alloc");
-    const drainNodes = nodes.filter((n) => n.slurmState === "drain");
-
-    if (idleNodes.length > 0) {
-      const nodelist = idleNodes.map((n) => n.id).join(",");
-      output +=
-        "gpu".padEnd(COL_PARTITION) +
-        "up".padEnd(COL_AVAIL) +
-        "infinite".padEnd(COL_TIMELIMIT) +
-        idleNodes.length.toString().padEnd(COL_NODES) +
-        "idle".padEnd(COL_STATE) +
-        nodelist +
-        "\n";
+    let output = noHeader
+      ? ""
+      : "PARTITION".padEnd(COL_PARTITION) +
+        "AVAIL".padEnd(COL_AVAIL) +
+        "TIMELIMIT".padEnd(COL_TIMELIMIT) +
+        "NODES".padEnd(COL_NODES) +
+        "STATE".padEnd(COL_STATE) +
+        "NODELIST\n";
+
+    for (const { partition, nodes: members } of rows) {
+      for (const state of NODE_STATE_ORDER) {
+        const group = members.filter((n) => this.nodeDisplayState(n) === state);
+        if (group.length === 0) continue;
+        output +=
+          partition.name.padEnd(COL_PARTITION) +
+          "up".padEnd(COL_AVAIL) +
+          "infinite".padEnd(COL_TIMELIMIT) +
+          group.length.toString().padEnd(COL_NODES) +
+          state.padEnd(COL_STATE) +
+          group.map((n) => n.id).join(",") +
+          "\n";
+      }
     }
 
-    if (allocNodes.length > 0) {
-      const nodelist = allocNodes.map((n) => n.id).join(",");
-      output +=
-        "gpu".padEnd(COL_PARTITION) +
-        "up".padEnd(COL_AVAIL) +
-        "infinite".padEnd(COL_TIMELIMIT) +
-        allocNodes.length.toString().padEnd(COL_NODES) +
-        "alloc".padEnd(COL_STATE) +
-        nodelist +
-        "\n";
+    return { output, exitCode: 0 };
+  }
+
+  /**
+   * Render sinfo output for a `-o` format string. Like sinfo, nodes whose
+   * fields print the same are merged into one line, which %N and %D then
+   * describe; -N prints every node on its own line. Nodes are reported once
+   * per partition only when the format shows the partition.
+   */
+  private formatSinfo(
+    rows: SinfoRow[],
+    format: string,
+    noHeader: boolean,
+    perNode: boolean,
+  ): string {
+    const FIELD_SPEC = /%(\.)?(\d+)?([a-zA-Z])/g;
+    const headers: Record<string, string> = {
+      P: "PARTITION",
+      a: "AVAIL",
+      l: "TIMELIMIT",
+      D: "NODES",
+      N: "NODELIST",
+      n: "HOSTNAMES",
+      t: "STATE",
+      T: "STATE",
+      c: "CPUS",
+      m: "MEMORY",
+      G: "GRES",
+      E: "REASON",
+    };
+    const fieldValue = (field: string, row: SinfoRow): string => {
+      const node = row.nodes[0];
+      switch (field) {
+        case "P":
+          return row.partition.name;
+        case "a":
+          return "up";
+        case "l":
+          return "infinite";
+        case "D":
+          return String(row.nodes.length);
+        case "N":
+          return row.nodes.map((n) => n.id).join(",");
+        case "n":
+          return node.id;
+        case "t":
+          return this.nodeDisplayState(node);
+        case "T":
+          return NODE_STATE_LONG[this.nodeDisplayState(node)];
+        case "c":
+          return String(node.cpuCount);
+        case "m":
+          return String(node.ramTotal * 1024);
+        case "G":
+          return nodeGres(node);
+        case "E":
+          return node.slurmReason || "none";
+        default:
+          return "";
+      }
+    };
+
+    const render = (value: (field: string) => string): string =>
+      format.replace(
+        FIELD_SPEC,
+        (spec: string, right: string, width: string, field: string) => {
+          if (!(field in headers)) return spec;
+          const text = value(field);
+          if (!width) return text;
+          const size = parseInt(width, 10);
+          const clipped = text.slice(0, size);
+          return right ? clipped.padStart(size) : clipped.padEnd(size);
+        },
+      );
+
+    let sources = rows;
+    if (!/%\.?\d*P/.test(format)) {
+      const seen = new Set<string>();
+      const nodes = rows
+        .flatMap((row) => row.nodes)
+        .filter((n) => !seen.has(n.id) && seen.add(n.id));
+      sources =
+        rows.length > 0 ? [{ partition: rows[0].partition, nodes }] : [];
     }
 
-    if (drainNodes.length > 0) {
-      const nodelist = drainNodes.map((n) => n.id).join(",");
-      output +=
-        "gpu".padEnd(COL_PARTITION) +
-        "up".padEnd(COL_AVAIL) +
-        "infinite".padEnd(COL_TIMELIMIT) +
-        drainNodes.length.toString().padEnd(COL_NODES) +
-        "drain".padEnd(COL_STATE) +
-        nodelist +
-        "\n";
+    const groups: SinfoRow[] = [];
+    for (const { partition, nodes } of sources) {
+      if (perNode) {
+        nodes.forEach((n) => groups.push({ partition, nodes: [n] }));
+        continue;
+      }
+      const byRecord = new Map<string, DGXNode[]>();
+      nodes.forEach((n) => {
+        const record = render((field) =>
+          field === "N" || field === "D"
+            ? ""
+            : fieldValue(field, { partition, nodes: [n] }),
+        );
+        byRecord.set(record, [...(byRecord.get(record) ?? []), n]);
+      });
+      byRecord.forEach((members) => groups.push({ partition, nodes: members }));
     }
 
-    return { output, exitCode: 0 };
+    const lines = groups.map((group) =>
+      render((field) => fieldValue(field, group)),
+    );
+    if (!noHeader) {
+      lines.unshift(render((field) => headers[field]));
+    }
+    return lines.length > 0 ? lines.join("\n") + "\n" : "";
   }
 
   // squeue - Show job queue
-  executeSqueue(
-    parsed: ParsedCommand,
-    _context: CommandContext,
-  ): CommandResult {
+  executeSqueue(parsed: ParsedCommand, context: CommandContext): CommandResult {
     parsed = this.parseWithSchema(parsed.raw);
     // Handle --help
     if (this.hasAnyFlag(parsed, ["help"])) {
@@ -459,19 +637,25 @@ export class SlurmSimulator extends BaseSimulator {
     const sortSpec = this.getFlagString(parsed, ["S", "sort"]);
     const noHeader = this.hasAnyFlag(parsed, ["h", "noheader"]);
 
-    let filteredJobs = [...this.jobs];
+    this.updateJobs(context);
+    let filteredJobs = this.controller.activeJobs();
 
     // Apply filters
     if (user) {
       filteredJobs = filteredJobs.filter((j) => j.user === user);
     }
     if (jobIdFilter) {
-      const jobIds = jobIdFilter.split(",").map((id) => parseInt(id));
-      filteredJobs = filteredJobs.filter((j) => jobIds.includes(j.jobId));
+      const ids = jobIdFilter.split(",");
+      filteredJobs = filteredJobs.filter((j) =>
+        ids.some((id) => this.matchesJobId(j, id)),
+      );
     }
-    if (statesFilter) {
+    if (statesFilter && statesFilter.toLowerCase() !== "all") {
       const states = statesFilter.toUpperCase().split(",");
-      filteredJobs = filteredJobs.filter((j) => states.includes(j.state));
+      filteredJobs = filteredJobs.filter(
+        (j) =>
+          states.includes(j.state) || states.includes(STATE_CODES[j.state]),
+      );
     }
     if (nodelistFilter) {
       const filterNodes = nodelistFilter.split(",");
@@ -523,28 +707,17 @@ export class SlurmSimulator extends BaseSimulator {
     }
 
     filteredJobs.forEach((job) => {
-      const state =
-        job.state === "RUNNING"
-          ? "R"
-          : job.state === "PENDING"
-            ? "PD"
-            : job.state === "COMPLETED"
-              ? "CD"
-              : job.state === "CANCELLED"
-                ? "CA"
-                : "F";
-
       const nodelistOrReason =
         job.state === "PENDING"
           ? `(${job.reasonPending || "Priority"})`
           : job.nodelist;
 
       output +=
-        job.jobId.toString().padEnd(COL_JOBID) +
+        formatJobId(job).padEnd(COL_JOBID) +
         job.partition.padEnd(COL_PARTITION) +
         job.name.substring(0, 11).padEnd(COL_NAME) +
         job.user.padEnd(COL_USER) +
-        state.padEnd(COL_ST) +
+        STATE_CODES[job.state].padEnd(COL_ST) +
         job.time.padEnd(COL_TIME) +
         job.nodes.toString().padEnd(COL_NODES) +
         nodelistOrReason +
@@ -554,6 +727,23 @@ export class SlurmSimulator extends BaseSimulator {
     return { output, exitCode: 0 };
   }
 
+  /**
+   * Whether a job matches an ID as given to `-j` or scancel: `1234` matches
+   * the job or every task of array 1234, `1234_5` only that task.
+   */
+  private matchesJobId(job: SlurmJob, id: string): boolean {
+    const [jobId, taskId] = id.split("_");
+    const arrayJobId = job.arrayJobId ?? job.jobId;
+    if (taskId === undefined) {
+      return job.jobId === parseInt(jobId) || arrayJobId === parseInt(jobId);
+    }
+    return (
+      arrayJobId === parseInt(jobId) &&
+      (job.arrayTaskId === parseInt(taskId) ||
+        (job.arrayPending?.includes(parseInt(taskId)) ?? false))
+    );
+  }
+
   /**
    * Sort jobs based on Slurm sort specification
    * Format: [+|-]field[,[+|-]field]...
@@ -679,7 +869,7 @@ export class SlurmSimulator extends BaseSimulator {
           : job.nodelist;
 
       output +=
-        job.jobId.toString().padEnd(COL_JOBID) +
+        formatJobId(job).padEnd(COL_JOBID) +
         job.partition.padEnd(COL_PARTITION) +
         job.name.substring(0, 11).padEnd(COL_NAME) +
         job.user.padEnd(COL_USER) +
@@ -701,7 +891,13 @@ export class SlurmSimulator extends BaseSimulator {
   private getJobFieldValue(job: SlurmJob, field: string): string {
     switch (field.toLowerCase()) {
       case "jobid":
-        return job.jobId.toString();
+        return formatJobId(job);
+      case "arrayjobid":
+        return String(job.arrayJobId ?? job.jobId);
+      case "arraytaskid":
+        return job.arrayPending
+          ? job.arrayPending.join(",")
+          : (job.arrayTaskId?.toString() ?? "N/A");
       case "name":
         return job.name;
       case "user":
@@ -711,15 +907,7 @@ export class SlurmSimulator extends BaseSimulator {
       case "state":
         return job.state;
       case "statecompact":
-        return job.state === "RUNNING"
-          ? "R"
-          : job.state === "PENDING"
-            ? "PD"
-            : job.state === "COMPLETED"
-              ? "CD"
-              : job.state === "CANCELLED"
-                ? "CA"
-                : "F";
+        return STATE_CODES[job.state];
       case "timeused":
       case "time":
         return job.time;
@@ -789,10 +977,12 @@ export class SlurmSimulator extends BaseSimulator {
     const flagError = this.validateFlagsWithRegistry(parsed, "scontrol");
     if (flagError) return flagError;
 
+    this.updateJobs(context);
     const command = parsed.subcommands[0];
 
     if (command === "show") {
       const what = parsed.subcommands[1];
+      const partitions = derivePartitions(this.getAllNodes(context));
 
       if (what === "nodes" || what === "node") {
         // Check if specific node requested
@@ -816,40 +1006,65 @@ export class SlurmSimulator extends BaseSimulator {
           const specs = getHardwareSpecs(node.systemType);
           const sockets = specs.system.cpu.sockets;
           const coresPerSocket = specs.system.cpu.coresPerSocket;
-          const allocCpus =
-            node.slurmState === "alloc" ? Math.floor(node.cpuCount / 2) : 0;
-          const allocMem =
-            node.slurmState === "alloc"
-              ? Math.round(node.ramTotal * 0.5 * 1024)
-              : 0;
+          const gpuType = getGresGpuType(node.systemType);
+          const usage = this.controller.nodeUsage(node.id);
+          let allocCpus = 0;
+          let allocMem = 0;
+          let gresUsed = `gpu:${gpuType}:0(IDX:N/A)`;
+          let allocGpus = 0;
+          if (usage.jobs > 0) {
+            allocCpus = Math.min(usage.cpus, node.cpuCount);
+            allocMem = Math.round(
+              ((node.ramTotal * 1024) / node.cpuCount) * allocCpus,
+            );
+            allocGpus = usage.gpus.length;
+            gresUsed = `gpu:${gpuType}:${allocGpus}(IDX:${usage.gpus.length > 0 ? formatTaskList(usage.gpus) : "N/A"})`;
+          } else if (node.slurmState === "alloc") {
+            // Held outside the controller, e.g. by a scenario
+            allocCpus = Math.floor(node.cpuCount / 2);
+            allocMem = Math.round(node.ramTotal * 0.5 * 1024);
+            allocGpus = Math.min(4, node.gpus.length);
+            gresUsed = `gpu:${gpuType}:${allocGpus}(IDX:0-3)`;
+          }
+          const displayState = this.nodeDisplayState(node);
+          const baseState =
+            usage.jobs === 0
+              ? "IDLE"
+              : usage.gpus.length < node.gpus.length
+                ? "MIXED"
+                : "ALLOCATED";
+          const state =
+            node.slurmState === "drain"
+              ? `${baseState}+DRAIN`
+              : NODE_STATE_LONG[displayState].toUpperCase();
 
           output += `NodeName=${node.id} Arch=x86_64 CoresPerSocket=${coresPerSocket}\n`;
           output += `   CPUAlloc=${allocCpus} CPUEfctv=${node.cpuCount} CPUTot=${node.cpuCount} CPULoad=0.50\n`;
           output += `   AvailableFeatures=(null)\n`;
           output += `   ActiveFeatures=(null)\n`;
-          const gpuType = getGresGpuType(node.systemType);
-          output += `   Gres=gpu:${gpuType}:${node.gpus.length}\n`;
-          output += `   GresUsed=gpu:${gpuType}:${node.slurmState === "alloc" ? Math.min(4, node.gpus.length) : 0}(IDX:${node.slurmState === "alloc" ? "0-3" : "N/A"})\n`;
+          output += `   Gres=${nodeGres(node)}\n`;
+          output += `   GresUsed=${gresUsed}\n`;
           output += `   NodeAddr=${node.id} NodeHostName=${node.hostname} Version=23.02.6\n`;
           output += `   OS=Linux 5.15.0-91-generic #101-Ubuntu SMP x86_64\n`;
           output += `   RealMemory=${node.ramTotal * 1024} AllocMem=${allocMem} FreeMem=${(node.ramTotal - node.ramUsed) * 1024} Sockets=${sockets} Boards=1\n`;
-          output += `   State=${node.slurmState.toUpperCase()}${node.slurmState === "drain" ? "+DRAIN" : ""} ThreadsPerCore=1 TmpDisk=0 Weight=1 Owner=N/A MCS_label=N/A\n`;
-          output += `   Partitions=gpu\n`;
-          const now = new Date();
+          output += `   State=${state} ThreadsPerCore=1 TmpDisk=0 Weight=1 Owner=N/A MCS_label=N/A\n`;
+          output += `   Partitions=${nodePartitions(node.id, partitions).join(",")}\n`;
+          const now = simulationClock.date();
           // Boot time between 10 and 40 days ago
           const bootTime = new Date(
-            now.getTime() - (10 + Math.random() * 30) * 24 * 60 * 60 * 1000,
+            now.getTime() -
+              (10 + simulationRandom.next() * 30) * 24 * 60 * 60 * 1000,
           );
           const bootStr = bootTime.toISOString().slice(0, 19);
           const slurmdStr = new Date(
-            bootTime.getTime() + (5 + Math.random() * 5) * 60 * 1000,
+            bootTime.getTime() + (5 + simulationRandom.next() * 5) * 60 * 1000,
           )
             .toISOString()
             .slice(0, 19);
           output += `   BootTime=${bootStr} SlurmdStartTime=${slurmdStr}\n`;
           output += `   LastBusyTime=2024-01-11T14:30:00\n`;
           output += `   CfgTRES=cpu=${node.cpuCount},mem=${node.ramTotal * 1024}M,billing=${node.cpuCount},gres/gpu=${node.gpus.length}\n`;
-          output += `   AllocTRES=${node.slurmState === "alloc" ? `cpu=${allocCpus},mem=${allocMem}M,gres/gpu=4` : ""}\n`;
+          output += `   AllocTRES=${allocCpus > 0 ? `cpu=${allocCpus},mem=${allocMem}M,gres/gpu=${allocGpus}` : ""}\n`;
           output += `   CurrentWatts=0 AveWatts=0\n`;
           output += `   ExtSensorsJoules=n/s ExtSensorsWatts=0 ExtSensorsTemp=n/s\n`;
 
@@ -867,12 +1082,13 @@ export class SlurmSimulator extends BaseSimulator {
           parsed.subcommands[2] ||
           parsed.positionalArgs.find((a) => !a.includes("="));
 
-        let jobsToShow = this.jobs;
+        let jobsToShow = this.controller.activeJobs();
         if (jobIdArg) {
-          const jobId = parseInt(jobIdArg);
-          jobsToShow = this.jobs.filter((j) => j.jobId === jobId);
+          jobsToShow = jobsToShow.filter((j) => this.matchesJobId(j, jobIdArg));
           if (jobsToShow.length === 0) {
-            return this.createError(`Job ${jobIdArg} not found`);
+            return this.createError(
+              "slurm_load_jobs error: Invalid job id specified",
+            );
           }
         }
 
@@ -895,11 +1111,16 @@ export class SlurmSimulator extends BaseSimulator {
             ? job.endTime.toISOString().replace("T", " ").split(".")[0]
             : "Unknown";
 
-          output += `JobId=${job.jobId} JobName=${job.name}\n`;
+          const arrayIds =
+            job.arrayJobId !== undefined
+              ? ` ArrayJobId=${job.arrayJobId} ArrayTaskId=${job.arrayPending ? `${formatTaskList(job.arrayPending)}${job.arrayThrottle ? ` ArrayTaskThrottle=${job.arrayThrottle}` : ""}` : job.arrayTaskId}`
+              : "";
+
+          output += `JobId=${job.jobId}${arrayIds} JobName=${job.name}\n`;
           output += `   UserId=${job.user}(1000) GroupId=${job.user}(1000) MCS_label=N/A\n`;
           output += `   Priority=${job.priority} Nice=0 Account=${job.account} QOS=${job.qos}\n`;
           output += `   JobState=${job.state} Reason=${job.state === "PENDING" ? job.reasonPending || "Priority" : "None"} Dependency=${job.dependency || "(null)"}\n`;
-          output += `   Requeue=1 Restarts=0 BatchFlag=1 Reboot=0 ExitCode=0:0\n`;
+          output += `   Requeue=1 Restarts=0 BatchFlag=1 Reboot=0 ExitCode=${job.exitCode ?? 0}:0\n`;
           output += `   RunTime=${job.time} TimeLimit=${job.timeLimit} TimeMin=N/A\n`;
           output += `   SubmitTime=${submitTimeStr} EligibleTime=${submitTimeStr}\n`;
           output += `   AccrueTime=${submitTimeStr}\n`;
@@ -907,9 +1128,9 @@ export class SlurmSimulator extends BaseSimulator {
           output += `   SuspendTime=None SecsPreSuspend=0 LastSchedEval=${submitTimeStr}\n`;
           output += `   Scheduler=Main\n`;
           output += `   Partition=${job.partition} AllocNode:Sid=${job.nodelist}:${job.jobId}\n`;
-          output += `   ReqNodeList=(null) ExcNodeList=(null)\n`;
-          output += `   NodeList=${job.state === "RUNNING" ? job.nodelist : ""}\n`;
-          output += `   BatchHost=${job.state === "RUNNING" ? job.nodelist : ""}\n`;
+          output += `   ReqNodeList=${job.reqNodes?.join(",") ?? "(null)"} ExcNodeList=(null)\n`;
+          output += `   NodeList=${job.startTime ? job.nodelist : "(null)"}\n`;
+          output += `   BatchHost=${job.startTime ? job.nodelist.split(",")[0] : ""}\n`;
           output += `   NumNodes=${job.nodes} NumCPUs=${job.cpus} NumTasks=${job.cpus} CPUs/Task=1 ReqB:S:C:T=0:0:*:*\n`;
           output += `   TRES=cpu=${job.cpus},mem=${job.memory},node=${job.nodes},billing=${job.cpus},gres/gpu=${job.gpus}\n`;
           output += `   Socks/Node=* NtasksPerN:B:S:C=0:0:*:* CoreSpec=*\n`;
@@ -929,27 +1150,44 @@ export class SlurmSimulator extends BaseSimulator {
 
       if (what === "partition" || what === "partitions") {
         const nodes = this.getAllNodes(context);
-        const totalCpus = nodes.reduce((sum, n) => sum + n.cpuCount, 0);
-        const totalMem = nodes.reduce((sum, n) => sum + n.ramTotal * 1024, 0);
-        const totalGpus = nodes.reduce((sum, n) => sum + n.gpus.length, 0);
+        const name =
+          parsed.subcommands[2] ||
+          parsed.positionalArgs.find((a) => !a.includes("="));
+        const shown = name
+          ? partitions.filter((p) => p.name === name)
+          : partitions;
+        if (shown.length === 0) {
+          return this.createError(`Partition ${name} not found`);
+        }
 
-        let output = "PartitionName=gpu\n";
-        output += "   AllowGroups=ALL AllowAccounts=ALL AllowQos=ALL\n";
-        output += "   AllocNodes=ALL Default=YES QoS=N/A\n";
-        output +=
-          "   DefaultTime=NONE DisableRootJobs=NO ExclusiveUser=NO GraceTime=0 Hidden=NO\n";
-        output +=
-          "   MaxNodes=UNLIMITED MaxTime=UNLIMITED MinNodes=0 LLN=NO MaxCPUsPerNode=UNLIMITED MaxCPUsPerSocket=UNLIMITED\n";
-        output += `   Nodes=dgx-[00-${(nodes.length - 1).toString().padStart(2, "0")}]\n`;
-        output +=
-          "   PriorityJobFactor=1 PriorityTier=1 RootOnly=NO ReqResv=NO OverSubscribe=NO\n";
-        output += "   OverTimeLimit=NONE PreemptMode=OFF\n";
-        output += `   State=UP TotalCPUs=${totalCpus} TotalNodes=${nodes.length} SelectTypeParameters=NONE\n`;
-        output += `   JobDefaults=(null)\n`;
-        output += `   DefMemPerCPU=1024 MaxMemPerNode=UNLIMITED\n`;
-        output += `   TRES=cpu=${totalCpus},mem=${totalMem}M,node=${nodes.length},billing=${totalCpus},gres/gpu=${totalGpus}\n`;
+        const blocks = shown.map((partition) => {
+          const members = nodes.filter((n) => partition.nodes.includes(n.id));
+          const totalCpus = members.reduce((sum, n) => sum + n.cpuCount, 0);
+          const totalMem = members.reduce(
+            (sum, n) => sum + n.ramTotal * 1024,
+            0,
+          );
+          const totalGpus = members.reduce((sum, n) => sum + n.gpus.length, 0);
+
+          let output = `PartitionName=${partition.name}\n`;
+          output += "   AllowGroups=ALL AllowAccounts=ALL AllowQos=ALL\n";
+          output += `   AllocNodes=ALL Default=${partition.isDefault ? "YES" : "NO"} QoS=N/A\n`;
+          output +=
+            "   DefaultTime=NONE DisableRootJobs=NO ExclusiveUser=NO GraceTime=0 Hidden=NO\n";
+          output +=
+            "   MaxNodes=UNLIMITED MaxTime=UNLIMITED MinNodes=0 LLN=NO MaxCPUsPerNode=UNLIMITED MaxCPUsPerSocket=UNLIMITED\n";
+          output += `   Nodes=${formatHostlist(partition.nodes)}\n`;
+          output +=
+            "   PriorityJobFactor=1 PriorityTier=1 RootOnly=NO ReqResv=NO OverSubscribe=NO\n";
+          output += "   OverTimeLimit=NONE PreemptMode=OFF\n";
+          output += `   State=UP TotalCPUs=${totalCpus} TotalNodes=${members.length} SelectTypeParameters=NONE\n`;
+          output += `   JobDefaults=(null)\n`;
+          output += `   DefMemPerCPU=1024 MaxMemPerNode=UNLIMITED\n`;
+          output += `   TRES=cpu=${totalCpus},mem=${totalMem}M,node=${members.length},billing=${totalCpus},gres/gpu=${totalGpus}\n`;
+          return output;
+        });
 
-        return { output, exitCode: 0 };
+        return { output: blocks.join("\n"), exitCode: 0 };
       }
 
       if (what === "config" || what === "configuration") {
@@ -1028,7 +1266,14 @@ export class SlurmSimulator extends BaseSimulator {
           drain: "drain",
           maint: "drain",
         };
-        const mappedState = stateMap[state] || "idle";
+        let mappedState = stateMap[state] || "idle";
+        // A resumed node that still runs jobs goes back to allocated
+        if (
+          mappedState === "idle" &&
+          this.controller.nodeUsage(nodeName).jobs > 0
+        ) {
+          mappedState = "alloc";
+        }
         this.resolveMutator(context).setSlurmState(
           nodeName,
           mappedState,
@@ -1036,11 +1281,32 @@ export class SlurmSimulator extends BaseSimulator {
         );
       }
 
+      // Queued work may fit on a resumed node straight away
+      this.updateJobs(context);
       return this.createSuccess(`Node ${nodeName} updated successfully`);
     }
 
+    if (command === "hold" || command === "release") {
+      const jobIdArg = parsed.subcommands[1] || parsed.positionalArgs[0];
+      if (!jobIdArg) {
+        return this.createError(`scontrol: error: Invalid job id specified`);
+      }
+      const jobId = parseInt(jobIdArg);
+      const targets = this.controller.setHeld(jobId, command === "hold");
+      if (targets.length === 0) {
+        const exists = this.controller.findJobs(jobId).length > 0;
+        return this.createError(
+          exists
+            ? `Job is no longer pending execution for job ${jobIdArg}`
+            : `Invalid job id specified for job ${jobIdArg}`,
+        );
+      }
+      this.updateJobs(context);
+      return { output: "", exitCode: 0 };
+    }
+
     return this.createError(
-      "Usage: scontrol <show|update> <nodes|node|partition> [options]",
+      "Usage: scontrol <show|update|hold|release> <nodes|node|job|partition> [options]",
     );
   }
 
@@ -1067,165 +1333,165 @@ export class SlurmSimulator extends BaseSimulator {
     const flagError = this.validateFlagsWithRegistry(parsed, "sbatch");
     if (flagError) return flagError;
 
-    if (parsed.positionalArgs.length === 0 && parsed.subcommands.length === 0) {
+    const wrap = this.getFlagString(parsed, ["wrap"]);
+    const scriptPath = parsed.positionalArgs[0] || parsed.subcommands[0];
+    if (!scriptPath && !wrap) {
       return this.createError("Error: Batch script not specified");
     }
 
-    const scriptPath = parsed.positionalArgs[0] || parsed.subcommands[0];
-    const jobId = this.nextJobId++;
+    const rejected = (reason: string) =>
+      this.createError(`sbatch: error: Batch job submission failed: ${reason}`);
+    const nodes = this.resolveAllNodes(context);
 
     // Parse all job options
     const jobName =
       this.getFlagString(parsed, ["J", "job-name"]) ||
-      scriptPath.split("/").pop()?.replace(".sh", "") ||
+      (scriptPath ? scriptPath.split("/").pop()?.replace(".sh", "") : "wrap") ||
       "job";
-    const partition = this.getFlagString(parsed, ["p", "partition"]) || "gpu";
+    const partition =
+      this.getFlagString(parsed, ["p", "partition"]) || DEFAULT_PARTITION;
     const timeLimit = this.getFlagString(parsed, ["t", "time"]) || "infinite";
-    const nodesCount = this.getFlagNumber(parsed, ["N", "nodes"], 1);
-    const ntasks = this.getFlagNumber(parsed, ["n", "ntasks"], 1);
+    const nodelist = this.getFlagString(parsed, ["w", "nodelist"]);
+    const reqNodes = nodelist ? nodelist.split(",") : undefined;
+    const nodesCount = Math.max(
+      parseInt(this.getFlagString(parsed, ["N", "nodes"]) || "1") || 1,
+      reqNodes?.length ?? 0,
+    );
+    const ntasksPerNode = this.getFlagNumber(parsed, ["ntasks-per-node"], 0);
+    const ntasks = this.getFlagNumber(
+      parsed,
+      ["n", "ntasks"],
+      Math.max(ntasksPerNode * nodesCount, 1),
+    );
     const cpusPerTask = this.getFlagNumber(parsed, ["c", "cpus-per-task"], 1);
     const memorySpec = this.getFlagString(parsed, ["mem"]) || "16G";
-    const account = this.getFlagString(parsed, ["A", "account"]) || "default";
-    const qos = this.getFlagString(parsed, ["qos"]) || "normal";
+    const account = this.getFlagString(parsed, ["A", "account"]) || "root";
+    const qos = this.getFlagString(parsed, ["q", "qos"]) || "normal";
     const dependency = this.getFlagString(parsed, ["d", "dependency"]);
-    const arraySpec = this.getFlagString(parsed, ["array"]);
+    const arraySpec = this.getFlagString(parsed, ["a", "array"]);
 
-    // Parse GPU count from gres or gpus flag
+    // GPUs per node: --gres and --gpus-per-node are per node, --gpus is
+    // spread over the nodes and --gpus-per-task scales with the tasks
+    let gpusPerNode = 0;
+    let gpuType: string | undefined;
     const gresValue = this.getFlagString(parsed, ["gres"]);
-    let gpuCount = 0;
     if (gresValue && gresValue.includes("gpu")) {
       // Handle formats: gpu:4, gpu:h100:4, gpu:h100:8(S:0-1)
-      const match = gresValue.match(/gpu(?::[a-z0-9]+)?:(\d+)/i);
-      if (match) gpuCount = parseInt(match[1]);
+      const match = gresValue.match(/gpu(?::([a-z][a-z0-9]*))?:(\d+)/i);
+      if (match) {
+        gpuType = match[1]?.toLowerCase();
+        gpusPerNode = parseInt(match[2]);
+      }
     }
-    const gpusFlagValue = this.getFlagNumber(parsed, ["gpus"], 0);
-    const gpusPerNode = this.getFlagNumber(parsed, ["gpus-per-node"], 0);
+    const gpusTotal = this.getFlagNumber(parsed, ["G", "gpus"], 0);
+    const gpusFlagPerNode = this.getFlagNumber(parsed, ["gpus-per-node"], 0);
     const gpusPerTask = this.getFlagNumber(parsed, ["gpus-per-task"], 0);
-    if (gpusFlagValue > 0) gpuCount = gpusFlagValue;
-    if (gpusPerNode > 0) gpuCount = gpusPerNode * nodesCount;
-    if (gpusPerTask > 0) gpuCount = gpusPerTask * ntasks;
-    if (gpuCount === 0) gpuCount = 1; // Default to 1 GPU
-
-    // Validate dependency if specified
-    let dependencyValid = true;
-    let reasonPending = "Resources";
-    if (dependency) {
-      const depMatch = dependency.match(
-        /^(after|afterok|afternotok|afterany|singleton)(?::(\d+))?$/,
-      );
-      if (!depMatch) {
-        return this.createError(
-          `Error: Invalid dependency specification: ${dependency}`,
-        );
-      }
-      const depType = depMatch[1];
-      const depJobId = depMatch[2] ? parseInt(depMatch[2]) : null;
-
-      if (depType !== "singleton" && depJobId) {
-        const depJob = this.jobs.find((j) => j.jobId === depJobId);
-        if (!depJob) {
-          return this.createError(
-            `Error: Dependency job ${depJobId} not found`,
-          );
-        }
-        reasonPending = `Dependency`;
-        // Check if dependency is satisfied
-        if (depType === "afterok" && depJob.state !== "COMPLETED") {
-          dependencyValid = false;
-        } else if (depType === "afternotok" && depJob.state !== "FAILED") {
-          dependencyValid = false;
-        } else if (
-          (depType === "after" || depType === "afterany") &&
-          depJob.state !== "RUNNING" &&
-          depJob.state !== "COMPLETED" &&
-          depJob.state !== "FAILED"
-        ) {
-          dependencyValid = false;
-        }
-      } else if (depType === "singleton") {
-        // Check if any job with same name is running
-        const runningWithSameName = this.jobs.find(
-          (j) => j.name === jobName && j.state === "RUNNING",
-        );
-        if (runningWithSameName) {
-          dependencyValid = false;
-          reasonPending = "DependencyNeverSatisfied";
-        }
-      }
+    if (gpusTotal > 0) gpusPerNode = Math.ceil(gpusTotal / nodesCount);
+    if (gpusFlagPerNode > 0) gpusPerNode = gpusFlagPerNode;
+    if (gpusPerTask > 0) {
+      gpusPerNode = gpusPerTask * Math.ceil(ntasks / nodesCount);
     }
 
-    const job: SlurmJob = {
-      jobId,
-      partition,
-      name: jobName,
-      user: "root",
-      state: "PENDING",
-      time: "0:00",
-      timeLimit,
-      nodes: nodesCount,
-      nodelist: "",
-      cpus: ntasks * cpusPerTask,
-      gpus: gpuCount,
-      memory: memorySpec,
-      submitTime: new Date(),
-      priority: 1000 + Math.floor(Math.random() * 100),
-      account,
-      qos,
-      workDir: "/home/root",
-      command: scriptPath,
-      dependency,
-      reasonPending,
-    };
+    if (Number.isNaN(parseTimeSpec(timeLimit))) {
+      return this.createError("sbatch: error: Invalid --time specification");
+    }
+    const partitionNodes = derivePartitions(nodes).find(
+      (p) => p.name === partition,
+    )?.nodes;
+    if (!partitionNodes) {
+      return rejected("Invalid partition name specified");
+    }
+    if (
+      gpuType &&
+      !nodes.some((n) => getGresGpuType(n.systemType) === gpuType)
+    ) {
+      return rejected("Invalid generic resource (gres) specification");
+    }
+    if (!ACCOUNTS.includes(account)) {
+      return rejected(
+        "Invalid account or account/partition combination specified",
+      );
+    }
+    if (!(qos in QOS_PRIORITY)) {
+      return rejected("Invalid qos specification");
+    }
+    if (reqNodes?.some((id) => !nodes.some((n) => n.id === id))) {
+      return rejected("Invalid node name specified");
+    }
+    if (nodesCount > nodes.length) {
+      return rejected("Node count specification invalid");
+    }
+    const cpusPerNode = Math.ceil((ntasks * cpusPerTask) / nodesCount);
+    const fitting = nodes.filter(
+      (n) =>
+        partitionNodes.includes(n.id) &&
+        (!gpuType || getGresGpuType(n.systemType) === gpuType) &&
+        n.gpus.length >= gpusPerNode &&
+        n.cpuCount >= cpusPerNode,
+    );
+    if (fitting.length < nodesCount) {
+      return rejected("Requested node configuration is not available");
+    }
 
-    // Handle array jobs
-    if (arraySpec) {
-      const arrayMatch = arraySpec.match(/^(\d+)-(\d+)(?:%(\d+))?$/);
-      if (arrayMatch) {
-        const start = parseInt(arrayMatch[1]);
-        const end = parseInt(arrayMatch[2]);
-        // Create array master job
-        job.name = `${jobName}_[${start}-${end}]`;
-        // For simulation, we'll just note it's an array job
+    if (dependency) {
+      const terms = parseDependency(dependency);
+      const unknown = terms?.terms.some((term) =>
+        term.jobIds.some((id) => this.controller.findJobs(id).length === 0),
+      );
+      if (!terms || unknown) {
+        return rejected("Job dependency problem");
       }
     }
 
-    this.jobs.push(job);
-
-    // Schedule job to run (if no blocking dependency)
-    if (dependencyValid || !dependency) {
-      setTimeout(() => {
-        const currentJob = this.jobs.find((j) => j.jobId === jobId);
-        if (!currentJob || currentJob.state !== "PENDING") return;
-
-        const cluster = this.resolveCluster(context);
-        if (!cluster?.nodes) return;
-        const nodes = cluster.nodes;
-        const availableNode = nodes.find((n) => n.slurmState === "idle");
-
-        if (availableNode) {
-          currentJob.state = "RUNNING";
-          currentJob.nodelist = availableNode.id;
-          currentJob.startTime = new Date();
-          currentJob.reasonPending = undefined;
-
-          // Allocate GPUs with utilization update (cross-tool sync via StateMutator)
-          const mutator = this.resolveMutator(context);
-          const gpuIds = availableNode.gpus.slice(0, gpuCount).map((g) => g.id);
-          mutator.allocateGPUsForJob(availableNode.id, gpuIds, jobId, 85);
-          mutator.setSlurmState(availableNode.id, "alloc");
-        } else {
-          currentJob.reasonPending = "Resources";
-        }
-      }, 100);
+    const array = arraySpec ? parseArraySpec(arraySpec) : undefined;
+    if (array === null) {
+      return this.createError("sbatch: error: Invalid job array specification");
     }
 
-    let output = `Submitted batch job ${jobId}`;
-    if (dependency) {
-      output += ` with dependency ${dependency}`;
+    // The script decides how long the job runs and how it exits
+    let script = wrap ?? "";
+    if (scriptPath && !wrap) {
+      const node = this.resolveNode(context);
+      const path = resolvePath(scriptPath, context.currentPath);
+      script =
+        (node &&
+          this.resolveFileSystem(context).readFile(node.id, path).content) ||
+        "";
     }
-    output += "\n";
+    const { runSeconds, exitCode } = batchScriptBehavior(script);
+
+    const job = this.controller.submit(
+      {
+        name: jobName,
+        user: "root",
+        partition,
+        account,
+        qos,
+        timeLimit,
+        nodes: nodesCount,
+        ntasks,
+        cpusPerTask,
+        gpusPerNode,
+        memory: memorySpec,
+        workDir: context.currentPath,
+        command: scriptPath && !wrap ? scriptPath : "(null)",
+        dependency,
+        array,
+        reqNodes,
+        gpuType,
+        runSeconds,
+        exitCode,
+      },
+      nodes,
+      this.resolveMutator(context),
+    );
 
-    return this.createSuccess(output);
+    if (this.hasAnyFlag(parsed, ["parsable"])) {
+      return this.createSuccess(String(job.arrayJobId ?? job.jobId));
+    }
+    return this.createSuccess(
+      `Submitted batch job ${job.arrayJobId ?? job.jobId}`,
+    );
   }
 
   // srun - Run job interactively
@@ -1251,19 +1517,36 @@ export class SlurmSimulator extends BaseSimulator {
     const flagError = this.validateFlagsWithRegistry(parsed, "srun");
     if (flagError) return flagError;
 
+    const partition = this.getFlagString(parsed, ["p", "partition"]);
+    const partitions = derivePartitions(this.resolveAllNodes(context));
+    if (partition && !partitions.some((p) => p.name === partition)) {
+      return this.createError(
+        "srun: error: Unable to allocate resources: Invalid partition name specified",
+      );
+    }
+
     const gpuCount = this.getFlagNumber(parsed, ["gpus"], 1);
     const containerImage = this.getFlagString(parsed, ["container-image"]);
 
     let output = "";
+    const jobId = this.controller.nextJobId;
+
+    output += `srun: job ${jobId} queued and waiting for resources\n`;
+    output += `srun: job ${jobId} has been allocated resources\n`;
 
+    // Pyxis runs the step inside an enroot container
     if (containerImage) {
-      output += `srun: Pulling container image ${containerImage}...\n`;
-      output += `srun: Container ready\n`;
+      const step = this.runPyxisStep(
+        parsed,
+        context,
+        containerImage,
+        gpuCount,
+        jobId,
+      );
+      this.recordStep(parsed, context, gpuCount, step.exitCode);
+      return { output: output + step.output, exitCode: step.exitCode };
     }
 
-    output += `srun: job ${this.nextJobId} queued and waiting for resources\n`;
-    output += `srun: job ${this.nextJobId} has been allocated resources\n`;
-
     // Find command to run in positional args
     if (parsed.positionalArgs.length > 0) {
       const command = parsed.positionalArgs.join(" ");
@@ -1281,11 +1564,186 @@ export class SlurmSimulator extends BaseSimulator {
       }
     }
 
-    this.nextJobId++;
+    this.recordStep(parsed, context, gpuCount, 0);
 
     return { output, exitCode: 0 };
   }
 
+  /**
+   * Record an interactive step in the job table. Steps run to completion
+   * before srun returns, so they only show up in sacct.
+   */
+  private recordStep(
+    parsed: ParsedCommand,
+    context: CommandContext,
+    gpuCount: number,
+    exitCode: number,
+  ): void {
+    const now = new Date(this.controller.time());
+    this.controller.addJob({
+      partition:
+        this.getFlagString(parsed, ["p", "partition"]) || DEFAULT_PARTITION,
+      name:
+        this.getFlagString(parsed, ["J", "job-name"]) ||
+        parsed.positionalArgs[0]?.split("/").pop() ||
+        "bash",
+      user: "root",
+      state: exitCode === 0 ? "COMPLETED" : "FAILED",
+      time: formatElapsed(0),
+      timeLimit: this.getFlagString(parsed, ["t", "time"]) || "infinite",
+      nodes: 1,
+      nodelist: context.currentNode,
+      cpus: 1,
+      gpus: gpuCount,
+      memory: "16G",
+      submitTime: now,
+      startTime: now,
+      endTime: now,
+      priority: 0,
+      account: "root",
+      qos: "normal",
+      workDir: context.currentPath,
+      command: parsed.positionalArgs.join(" "),
+      exitCode,
+    });
+  }
+
+  /**
+   * Run a job step the way the Pyxis SPANK plugin does: import the image
+   * with enroot, create the container with the requested mounts, then run
+   * the command in it. Named containers (`--container-name`) persist as
+   * enroot containers and are reused by later steps.
+   */
+  private runPyxisStep(
+    parsed: ParsedCommand,
+    context: CommandContext,
+    imageRef: string,
+    gpuCount: number,
+    jobId: number,
+  ): CommandResult {
+    const node = this.getNode(context);
+    if (!node) {
+      return this.createError(
+        "srun: error: Unable to allocate resources: Invalid node name specified",
+      );
+    }
+    const runtime = this.resolveContainerRuntime(context);
+    const fs = this.resolveFileSystem(context);
+    const lines: string[] = [];
+    const fail = (log: string[], exitCode = 1): CommandResult => ({
+      output: [
+        ...lines,
+        "slurmstepd: error: pyxis: container start failed with error code: 1",
+        "slurmstepd: error: pyxis: printing enroot log file:",
+        ...log.map((line) => `slurmstepd: error: pyxis:     ${line}`),
+        "slurmstepd: error: pyxis: couldn't start container",
+        "slurmstepd: error: spank: required plugin spank_pyxis.so: task_init() failed with rc=-1",
+        "slurmstepd: error: Failed to invoke spank plugin stack",
+        `srun: error: ${node.hostname}: task 0: Exited with exit code ${exitCode}`,
+      ].join("\n"),
+      exitCode,
+    });
+
+    // A squashfs file from `enroot import`, or a registry image
+    let image = imageRef;
+    if (imageRef.startsWith("/") || imageRef.startsWith(".")) {
+      const path = resolvePath(imageRef, context.currentPath);
+      const { content, error } = fs.readFile(node.id, path);
+      const source =
+        content === undefined ? null : readImageFileSource("squashfs", content);
+      if (!source) {
+        return fail([
+          content === undefined
+            ? `[ERROR] ${error}: ${path}`
+            : `[ERROR] Invalid argument: ${path} is not a squashfs image`,
+        ]);
+      }
+      image = source;
+    }
+
+    const name = this.getFlagString(parsed, ["container-name"]);
+    const enrootName = name ? `pyxis_${name}` : undefined;
+    const existing = enrootName
+      ? runtime.findContainer(node.id, enrootName)
+      : undefined;
+    if (!existing && image === imageRef) {
+      runtime.pullImage(node.id, imageRef);
+      lines.push(`pyxis: importing docker image: ${imageRef}`);
+      lines.push(`pyxis: imported docker image: ${imageRef}`);
+    }
+
+    const mounts = parseBindList(
+      this.getFlagString(parsed, ["container-mounts"]) ?? "",
+      context.currentPath,
+    );
+    const missing = findMissingMountSource(fs, node.id, mounts);
+    if (missing) {
+      return fail([
+        `enroot-mount: failed to mount: ${missing.source} at /run/enroot/pyxis_${jobId}${missing.target}: No such file or directory`,
+      ]);
+    }
+    if (!this.hasAnyFlag(parsed, ["no-container-mount-home"])) {
+      mounts.push({ source: "/root", target: "/root", readOnly: false });
+    }
+
+    const gpus = node.gpus.slice(0, gpuCount);
+    if (
+      isGpuImage(image) &&
+      gpus.length > 0 &&
+      !runtime.isToolkitInstalled(node.id)
+    ) {
+      return fail(enrootHookFailure());
+    }
+
+    const command = parsed.positionalArgs;
+    const result =
+      command.length === 0
+        ? { output: "", exitCode: 0 }
+        : runInContainer(command, {
+            node,
+            image,
+            gpus,
+            mounts,
+            fs,
+            workdir:
+              this.getFlagString(parsed, ["container-workdir"]) ??
+              defaultWorkdir(image),
+          });
+
+    if (enrootName) {
+      if (existing) {
+        existing.jobId = jobId;
+      } else {
+        runtime.createContainer(node.id, {
+          name: enrootName,
+          image,
+          command: command.join(" "),
+          engine: "enroot",
+          state: "exited",
+          exitCode: result?.exitCode ?? 2,
+          gpus: gpus.map((g) => g.id),
+          mounts,
+          jobId,
+        });
+      }
+    }
+
+    if (!result) {
+      lines.push(
+        `slurmstepd: error: execve(): ${command[0]}: No such file or directory`,
+        `srun: error: ${node.hostname}: task 0: Exited with exit code 2`,
+      );
+      return { output: lines.join("\n"), exitCode: 2 };
+    }
+    if (result.output) lines.push(result.output);
+    if (result.exitCode !== 0) {
+      lines.push(
+        `srun: error: ${node.hostname}: task 0: Exited with exit code ${result.exitCode}`,
+      );
+    }
+    return { output: lines.join("\n"), exitCode: result.exitCode };
+  }
+
   // scancel - Cancel job
   executeScancel(
     parsed: ParsedCommand,
@@ -1312,31 +1770,63 @@ export class SlurmSimulator extends BaseSimulator {
     const flagError = this.validateFlagsWithRegistry(parsed, "scancel");
     if (flagError) return flagError;
 
-    if (parsed.positionalArgs.length === 0 && parsed.subcommands.length === 0) {
+    const ids = [...parsed.subcommands, ...parsed.positionalArgs];
+    const user = this.getFlagString(parsed, ["u", "user"]);
+    const name = this.getFlagString(parsed, ["n", "name"]);
+    const stateFilter = this.getFlagString(parsed, ["t", "state"]);
+    const hasFilter = Boolean(user || name || stateFilter);
+
+    if (ids.length === 0 && !hasFilter) {
       return this.createError("Error: Job ID not specified");
     }
 
-    const jobId = parseInt(parsed.positionalArgs[0] || parsed.subcommands[0]);
-    const jobIdx = this.jobs.findIndex((j) => j.jobId === jobId);
-
-    if (jobIdx === -1) {
-      return this.createError(
-        `scancel: error: Kill job error on job id ${jobId}: Invalid job id specified`,
-      );
+    const nodes = this.resolveAllNodes(context);
+    const mutator = this.resolveMutator(context);
+    this.controller.update(nodes, mutator);
+
+    // Filters select jobs by owner, name or state instead of by ID
+    if (ids.length === 0) {
+      const targets: number[] = [];
+      const state = stateFilter?.toUpperCase();
+      for (const job of this.controller.jobs) {
+        if (isFinished(job)) continue;
+        if (user && job.user !== user) continue;
+        if (name && job.name !== name) continue;
+        if (state && job.state !== state && STATE_CODES[job.state] !== state) {
+          continue;
+        }
+        targets.push(job.jobId);
+      }
+      for (const jobId of targets) {
+        this.controller.cancel(jobId, undefined, nodes, mutator);
+      }
+      return this.createSuccess("");
     }
 
-    const job = this.jobs[jobIdx];
+    const output: string[] = [];
+    for (const id of ids) {
+      const match = id.match(/^(\d+)(?:_(\d+))?$/);
+      const cancelled = match
+        ? this.controller.cancel(
+            parseInt(match[1]),
+            match[2] !== undefined ? parseInt(match[2]) : undefined,
+            nodes,
+            mutator,
+          )
+        : [];
 
-    if (job.state === "RUNNING" && job.nodelist !== "(Resources)") {
-      // Deallocate GPUs (cross-tool sync via StateMutator)
-      const mutator = this.resolveMutator(context);
-      mutator.deallocateGPUsForJob(job.jobId);
-      mutator.setSlurmState(job.nodelist, "idle");
+      if (cancelled.length === 0) {
+        return this.createError(
+          [
+            ...output,
+            `scancel: error: Kill job error on job id ${id}: Invalid job id specified`,
+          ].join("\n"),
+        );
+      }
+      output.push(`scancel: Terminating job ${id}`);
     }
 
-    this.jobs.splice(jobIdx, 1);
-
-    return this.createSuccess(`scancel: Terminating job ${jobId}`);
+    return this.createSuccess(output.join("\n"));
   }
 
   // sacctmgr - Accounting management
@@ -1563,7 +2053,7 @@ export class SlurmSimulator extends BaseSimulator {
   }
 
   // sacct - Job accounting
-  executeSacct(parsed: ParsedCommand, _context: CommandContext): CommandResult {
+  executeSacct(parsed: ParsedCommand, context: CommandContext): CommandResult {
     parsed = this.parseWithSchema(parsed.raw);
     // Handle --help
     if (this.hasAnyFlag(parsed, ["help"])) {
@@ -1581,6 +2071,8 @@ export class SlurmSimulator extends BaseSimulator {
     const flagError = this.validateFlagsWithRegistry(parsed, "sacct");
     if (flagError) return flagError;
 
+    this.updateJobs(context);
+
     // SOURCE OF TRUTH: Column widths
     const COL_JOBID = 13;
     const COL_JOBNAME = 11;
@@ -1590,7 +2082,7 @@ export class SlurmSimulator extends BaseSimulator {
     const COL_STATE = 11;
     const COL_EXITCODE = 9;
 
-    const jobId = this.getFlagNumber(parsed, ["j", "jobs"], 0);
+    const jobIds = this.getFlagString(parsed, ["j", "jobs"]);
 
     let output =
       "JobID".padEnd(COL_JOBID) +
@@ -1617,20 +2109,25 @@ export class SlurmSimulator extends BaseSimulator {
       "-".repeat(COL_EXITCODE - 1) +
       "\n";
 
-    const jobsToShow =
-      jobId !== 0
-        ? this.jobs.filter((j) => j.jobId === jobId)
-        : this.jobs.slice(-10);
+    const jobsToShow = jobIds
+      ? this.controller.jobs.filter((j) =>
+          jobIds.split(",").some((id) => this.matchesJobId(j, id)),
+        )
+      : this.controller.jobs.slice(-10);
 
     jobsToShow.forEach((job) => {
-      const exitCode =
-        job.state === "COMPLETED" ? "0:0" : job.state === "FAILED" ? "1:0" : "";
+      // Killed jobs exit on a signal rather than with a code of their own
+      const exitCode = !isFinished(job)
+        ? ""
+        : job.state === "CANCELLED" || job.state === "TIMEOUT"
+          ? "0:0"
+          : `${job.exitCode ?? (job.state === "FAILED" ? 1 : 0)}:0`;
       output +=
-        job.jobId.toString().padEnd(COL_JOBID) +
+        formatJobId(job).padEnd(COL_JOBID) +
         job.name.padEnd(COL_JOBNAME) +
         job.partition.padEnd(COL_PARTITION) +
-        "root".padEnd(COL_ACCOUNT) +
-        (job.nodes * 128).toString().padEnd(COL_ALLOCCPUS) +
+        job.account.padEnd(COL_ACCOUNT) +
+        job.cpus.toString().padEnd(COL_ALLOCCPUS) +
         job.state.padEnd(COL_STATE) +
         exitCode +
         "\n";
@@ -1638,4 +2135,206 @@ export class SlurmSimulator extends BaseSimulator {
 
     return { output, exitCode: 0 };
   }
+
+  // sprio - Priority factors of pending jobs
+  executeSprio(parsed: ParsedCommand, context: CommandContext): CommandResult {
+    parsed = this.parseWithSchema(parsed.raw);
+    if (this.hasAnyFlag(parsed, ["help", "h"])) {
+      return (
+        this.getHelpFromRegistry("sprio", parsed) ||
+        this.createError("Help not available")
+      );
+    }
+
+    if (this.hasAnyFlag(parsed, ["version", "V"])) {
+      return this.createSuccess("slurm 23.02.6");
+    }
+
+    const flagError = this.validateFlagsWithRegistry(parsed, "sprio");
+    if (flagError) return flagError;
+
+    this.updateJobs(context);
+
+    const longFormat = this.hasAnyFlag(parsed, ["l", "long"]);
+    const jobIds = this.getFlagString(parsed, ["j", "jobs"]);
+    const users = this.getFlagString(parsed, ["u", "user"]);
+    const partitions = this.getFlagString(parsed, ["p", "partition"]);
+
+    const row = (
+      jobId: string,
+      partition: string,
+      user: string,
+      values: Array<string | number>,
+    ) =>
+      jobId.padStart(15) +
+      " " +
+      partition.padEnd(9) +
+      (longFormat ? " " + user.padStart(8) : "") +
+      values.map((v) => " " + String(v).padStart(10)).join("");
+
+    const lines: string[] = [];
+    if (!this.hasAnyFlag(parsed, ["n", "noheader"])) {
+      lines.push(
+        row(
+          "JOBID",
+          "PARTITION",
+          "USER",
+          [
+            "PRIORITY",
+            "SITE",
+            "AGE",
+            "FAIRSHARE",
+            "JOBSIZE",
+            "PARTITION",
+            "QOS",
+          ].concat(longFormat ? ["NICE"] : []),
+        ),
+      );
+    }
+
+    if (this.hasAnyFlag(parsed, ["w", "weights"])) {
+      lines.push(
+        row(
+          "Weights",
+          "",
+          "",
+          [
+            "",
+            1,
+            PRIORITY_WEIGHTS.age,
+            PRIORITY_WEIGHTS.fairshare,
+            PRIORITY_WEIGHTS.jobSize,
+            PRIORITY_WEIGHTS.partition,
+            PRIORITY_WEIGHTS.qos,
+          ].concat(longFormat ? [""] : []),
+        ),
+      );
+      return this.createSuccess(lines.join("\n"));
+    }
+
+    let pending = this.controller.jobs.filter((j) => j.state === "PENDING");
+    if (jobIds) {
+      const ids = jobIds.split(",");
+      pending = pending.filter((j) =>
+        ids.some((id) => this.matchesJobId(j, id)),
+      );
+    }
+    if (users) {
+      const list = users.split(",");
+      pending = pending.filter((j) => list.includes(j.user));
+    }
+    if (partitions) {
+      const list = partitions.split(",");
+      pending = pending.filter((j) => list.includes(j.partition));
+    }
+
+    for (const job of pending) {
+      const factors = this.controller.priorityFactors(job);
+      lines.push(
+        row(
+          formatJobId(job),
+          job.partition,
+          job.user,
+          [
+            factors.total,
+            0,
+            factors.age,
+            factors.fairshare,
+            factors.jobSize,
+            factors.partition,
+            factors.qos,
+          ].concat(longFormat ? [0] : []),
+        ),
+      );
+    }
+
+    if (jobIds && pending.length === 0) {
+      return this.createError(
+        "Unable to find jobs matching user/id(s) specified",
+      );
+    }
+
+    return this.createSuccess(lines.join("\n"));
+  }
+
+  // sshare - Fairshare tree
+  executeSshare(parsed: ParsedCommand, context: CommandContext): CommandResult {
+    parsed = this.parseWithSchema(parsed.raw);
+    if (this.hasAnyFlag(parsed, ["help", "h"])) {
+      return (
+        this.getHelpFromRegistry("sshare", parsed) ||
+        this.createError("Help not available")
+      );
+    }
+
+    if (this.hasAnyFlag(parsed, ["version", "V"])) {
+      return this.createSuccess("slurm 23.02.6");
+    }
+
+    const flagError = this.validateFlagsWithRegistry(parsed, "sshare");
+    if (flagError) return flagError;
+
+    this.updateJobs(context);
+
+    const allUsers = this.hasAnyFlag(parsed, ["a", "all"]);
+    const accounts = this.getFlagString(parsed, ["A", "accounts"]);
+    const users = this.getFlagString(parsed, ["u", "users"]);
+    const parsable2 = this.hasAnyFlag(parsed, ["P", "parsable2"]);
+    const parsable = parsable2 || this.hasAnyFlag(parsed, ["p", "parsable"]);
+
+    // Without --all only the current user's associations are listed
+    const rows = this.controller.shares().filter((share) => {
+      if (
+        accounts &&
+        share.depth > 0 &&
+        !accounts.split(",").includes(share.account)
+      ) {
+        return false;
+      }
+      if (!share.user) return true;
+      if (users) return users.split(",").includes(share.user);
+      return allUsers || share.user === "root";
+    });
+
+    const headers = [
+      "Account",
+      "User",
+      "RawShares",
+      "NormShares",
+      "RawUsage",
+      "EffectvUsage",
+      "FairShare",
+    ];
+    const widths = [20, 10, 10, 11, 11, 13, 10];
+    const cells = rows.map((share) => [
+      " ".repeat(share.depth) + share.account,
+      share.user,
+      share.rawShares === null ? "" : String(share.rawShares),
+      share.depth === 0 ? "" : share.normShares.toFixed(6),
+      String(share.rawUsage),
+      share.effectiveUsage.toFixed(6),
+      share.fairShare === null ? "" : share.fairShare.toFixed(6),
+    ]);
+
+    const lines: string[] = [];
+    const noHeader = this.hasAnyFlag(parsed, ["n", "noheader"]);
+    if (parsable) {
+      const join = (values: string[]) =>
+        values.map((v) => v.trim()).join("|") + (parsable2 ? "" : "|");
+      if (!noHeader) lines.push(join(headers));
+      cells.forEach((values) => lines.push(join(values)));
+      return this.createSuccess(lines.join("\n"));
+    }
+
+    const format = (values: string[]) =>
+      values
+        .map((v, i) => (i === 0 ? v.padEnd(widths[i]) : v.padStart(widths[i])))
+        .join(" ");
+    if (!noHeader) {
+      lines.push(format(headers));
+      lines.push(widths.map((w) => "-".repeat(w)).join(" "));
+    }
+    cells.forEach((values) => lines.push(format(values)));
+    return this.createSuccess(lines.join("\n"));
+  }
 }
@@ -792,6 +792,56 @@ describe("ScenarioContext", () => {
     });
   });
 
+  describe("stateAt()", () => {
+    it("should rebuild the state after a given number of mutations", () => {
+      const ctx = new ScenarioContext("test-scenario", testCluster);
+      ctx.updateNodeHealth("node-01", "Critical");
+      ctx.setSlurmState("node-01", "drain", "xid 79");
+      ctx.updateNodeHealth("node-01", "OK");
+
+      expect(ctx.stateAt(0).nodes[0].healthStatus).toBe("OK");
+      expect(ctx.stateAt(1).nodes[0].healthStatus).toBe("Critical");
+      expect(ctx.stateAt(2).nodes[0].slurmState).toBe("drain");
+      expect(ctx.stateAt(3)).toEqual(ctx.snapshot());
+    });
+
+    it("should start again from the cluster the context was reset to", () => {
+      const ctx = new ScenarioContext("test-scenario", testCluster);
+      ctx.updateNodeHealth("node-01", "Critical");
+      ctx.reset();
+
+      expect(ctx.getInitialState()).toEqual(ctx.snapshot());
+      expect(ctx.stateAt(0)).toEqual(ctx.snapshot());
+    });
+  });
+
+  describe("setCurrentCommand()", () => {
+    it("should credit mutations to the running command", () => {
+      const ctx = new ScenarioContext("test-scenario", testCluster);
+      ctx.setCurrentCommand("nvidia-smi -r -i 0");
+      ctx.updateGPU("node-01", 0, { temperature: 40 });
+      ctx.addXIDError(
+        "node-01",
+        0,
+        {
+          code: 79,
+          timestamp: new Date("2026-01-15T12:00:00Z"),
+          description: "GPU has fallen off the bus",
+          severity: "Critical",
+        },
+        "fault injection",
+      );
+      ctx.setCurrentCommand(undefined);
+      ctx.updateNodeHealth("node-01", "Warning");
+
+      expect(ctx.getMutations().map((m) => m.command)).toEqual([
+        "nvidia-smi -r -i 0",
+        "fault injection",
+        undefined,
+      ]);
+    });
+  });
+
   describe("getRuntimeMs()", () => {
     it("should return a non-negative runtime", () => {
       const ctx = new ScenarioContext("test-scenario", testCluster);
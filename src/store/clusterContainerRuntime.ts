@@ -0,0 +1,10 @@
+/**
+ * Container images and containers for the live (non-scenario) cluster.
+ *
+ * Scenarios use their own ContainerRuntime owned by ScenarioContext, so
+ * faults such as a missing nvidia-container-toolkit stay inside the scenario.
+ */
+
+import { ContainerRuntime } from "@/simulation/containerRuntime";
+
+export const clusterContainerRuntime = new ContainerRuntime();
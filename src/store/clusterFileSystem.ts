@@ -0,0 +1,13 @@
+/**
+ * Node filesystems for the live (non-scenario) cluster.
+ *
+ * Scenarios use their own VirtualFileSystem owned by ScenarioContext, so
+ * anything written during a scenario never leaks into this one.
+ */
+
+import { VirtualFileSystem } from "@/simulation/virtualFileSystem";
+import { useSimulationStore } from "./simulationStore";
+
+export const clusterFileSystem = new VirtualFileSystem({
+  getCluster: () => useSimulationStore.getState().cluster,
+});
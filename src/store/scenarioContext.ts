@@ -10,12 +10,48 @@ import type {
   GPU,
   DGXNode as Node,
   HealthStatus,
+  InfiniBandLinkEnd,
   XIDError,
 } from "@/types/hardware";
 import type { SeedJob } from "@/types/scenarios";
 import { useSimulationStore } from "./simulationStore";
 import { logger } from "@/utils/logger";
 import { EventLog } from "@/simulation/eventLog";
+import { VirtualFileSystem } from "@/simulation/virtualFileSystem";
+import { ContainerRuntime } from "@/simulation/containerRuntime";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+import { applyStateChange, rebuildState } from "@/simulation/stateHistory";
+import {
+  describeSweep,
+  type InfiniBandPortUpdate,
+  type InfiniBandSubnetManagerUpdate,
+  type SubnetSweep,
+} from "@/utils/infinibandFabric";
+import {
+  describeFabricUpdate,
+  type NVSwitchFabricUpdate,
+} from "@/utils/nvswitchFabric";
+import {
+  describeNodePowerUpdate,
+  type NodePowerUpdate,
+} from "@/utils/nodePower";
+import {
+  describeDcgmUpdate,
+  type DcgmHostEngineUpdate,
+} from "@/utils/dcgmHostEngine";
+import {
+  describeNodePackageUpdate,
+  type NodePackageUpdate,
+} from "@/utils/nodePackages";
+import {
+  describeNodeFirmwareUpdate,
+  type NodeFirmwareUpdate,
+} from "@/utils/firmwareInventory";
+import {
+  describeBlueFieldUpdate,
+  type BlueFieldUpdate,
+} from "@/utils/blueFieldDpu";
 
 /**
  * Base interface for all state changes
@@ -41,30 +77,61 @@ export type StateChange =
       data: { state: "idle" | "alloc" | "drain" | "down"; reason?: string };
     })
   | (StateChangeBase & { type: "mig-mode"; data: { enabled: boolean } })
-  | (StateChangeBase & { type: "node-add"; data: Node });
+  | (StateChangeBase & { type: "node-add"; data: Node })
+  | (StateChangeBase & {
+      type: "ib-port";
+      data: { end: InfiniBandLinkEnd; update: InfiniBandPortUpdate };
+    })
+  | (StateChangeBase & {
+      type: "ib-sm";
+      data: { smId: string; update: InfiniBandSubnetManagerUpdate };
+    })
+  | (StateChangeBase & { type: "ib-sweep"; data: SubnetSweep })
+  | (StateChangeBase & {
+      type: "nvswitch-fabric";
+      data: NVSwitchFabricUpdate;
+    })
+  | (StateChangeBase & { type: "node-power"; data: NodePowerUpdate })
+  | (StateChangeBase & {
+      type: "dcgm-hostengine";
+      data: DcgmHostEngineUpdate;
+    })
+  | (StateChangeBase & { type: "node-packages"; data: NodePackageUpdate })
+  | (StateChangeBase & { type: "node-firmware"; data: NodeFirmwareUpdate })
+  | (StateChangeBase & { type: "bluefield"; data: BlueFieldUpdate });
 
 export class ScenarioContext {
   private scenarioId: string;
   private isolatedCluster: ClusterConfig;
+  private initialCluster: ClusterConfig;
   private mutations: StateChange[] = [];
   private startTime: number;
   private readonly: boolean = false;
   private eventLog: EventLog;
+  private fileSystem: VirtualFileSystem;
+  private containerRuntime = new ContainerRuntime();
   private seedJobs: SeedJob[] = [];
+  // Terminal command being run, credited with the mutations it causes
+  private currentCommand: string | undefined;
   // Keyed by `${nodeId}:${canonicalServiceName}` so each node has its own
   // service state, matching real multi-node systemd behavior.
   private serviceStates: Map<string, "active" | "inactive"> = new Map();
 
   constructor(scenarioId: string, baseCluster?: ClusterConfig) {
     this.scenarioId = scenarioId;
-    this.startTime = Date.now();
+    this.startTime = simulationClock.now();
 
     // Use provided cluster or get from store
     const cluster = baseCluster || useSimulationStore.getState().cluster;
 
     // Deep clone to prevent reference issues
     this.isolatedCluster = structuredClone(cluster);
+    this.initialCluster = structuredClone(cluster);
     this.eventLog = new EventLog();
+    this.fileSystem = new VirtualFileSystem({
+      getCluster: () => this.isolatedCluster,
+      getEvents: () => this.eventLog.getAll(),
+    });
   }
 
   /**
@@ -96,6 +163,21 @@ export class ScenarioContext {
     return this.eventLog;
   }
 
+  /**
+   * Get the node filesystems for this scenario context
+   */
+  getFileSystem(): VirtualFileSystem {
+    return this.fileSystem;
+  }
+
+  /**
+   * Get the container images and containers for this scenario context
+   */
+  getContainerRuntime(): ContainerRuntime {
+    return this.containerRuntime;
+  }
+
+
   /**
    * Update a GPU in the isolated state
    */
@@ -122,17 +204,13 @@ export class ScenarioContext {
       return;
     }
 
-    // Apply updates
-    Object.assign(gpu, updates);
-
-    // Track mutation
-    this.mutations.push({
+    this.record({
       type: "gpu-update",
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
       nodeId,
       gpuId,
       data: updates,
-      command,
+      command: command ?? this.currentCommand,
       description: `Updated GPU ${gpuId} on ${nodeId}`,
     });
   }
@@ -156,14 +234,12 @@ export class ScenarioContext {
       return;
     }
 
-    node.healthStatus = health;
-
-    this.mutations.push({
+    this.record({
       type: "node-health",
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
       nodeId,
       data: { health },
-      command,
+      command: command ?? this.currentCommand,
       description: `Set ${nodeId} health to ${health}`,
     });
   }
@@ -188,18 +264,13 @@ export class ScenarioContext {
       return;
     }
 
-    if (!gpu.xidErrors) {
-      gpu.xidErrors = [];
-    }
-    gpu.xidErrors.push(error);
-
-    this.mutations.push({
+    this.record({
       type: "xid-error",
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
       nodeId,
       gpuId,
       data: error,
-      command,
+      command: command ?? this.currentCommand,
       description: `Added XID ${error.code} to GPU ${gpuId}`,
     });
   }
@@ -224,20 +295,13 @@ export class ScenarioContext {
       return;
     }
 
-    // MIG is tracked differently in our GPU type
-    if (enabled && !gpu.migInstances) {
-      gpu.migInstances = [];
-    } else if (!enabled) {
-      gpu.migInstances = []; // Empty array instead of undefined
-    }
-
-    this.mutations.push({
+    this.record({
       type: "mig-mode",
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
       nodeId,
       gpuId,
       data: { enabled },
-      command,
+      command: command ?? this.currentCommand,
       description: `Set MIG mode to ${enabled} for GPU ${gpuId}`,
     });
   }
@@ -262,17 +326,12 @@ export class ScenarioContext {
       return;
     }
 
-    node.slurmState = state;
-    if (reason) {
-      node.slurmReason = reason;
-    }
-
-    this.mutations.push({
+    this.record({
       type: "slurm-state",
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
       nodeId,
       data: { state, reason },
-      command,
+      command: command ?? this.currentCommand,
       description: `Set ${nodeId} Slurm state to ${state}`,
     });
   }
@@ -292,17 +351,223 @@ export class ScenarioContext {
       return;
     }
 
-    this.isolatedCluster.nodes.push(node);
-
-    this.mutations.push({
+    this.record({
       type: "node-add",
-      timestamp: Date.now(),
+      timestamp: simulationClock.now(),
       nodeId: node.id,
       data: node,
+      command: this.currentCommand,
       description: `Added node ${node.id} to cluster`,
     });
   }
 
+  /**
+   * Update an HCA or switch port of the InfiniBand fabric in isolated state
+   */
+  updateIBPort(
+    end: InfiniBandLinkEnd,
+    update: InfiniBandPortUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot update InfiniBand port in readonly context");
+      return;
+    }
+
+    const target =
+      end.kind === "switch"
+        ? `${end.switchId} port ${end.portNumber}`
+        : `${end.nodeId} mlx5_${end.hcaIndex} port ${end.portNumber}`;
+    this.record({
+      type: "ib-port",
+      timestamp: simulationClock.now(),
+      nodeId: end.kind === "hca" ? end.nodeId : undefined,
+      data: { end, update },
+      command: command ?? this.currentCommand,
+      description: `Updated InfiniBand ${target}`,
+    });
+  }
+
+  /**
+   * Start, stop or reconfigure a subnet manager in isolated state
+   */
+  updateSubnetManager(
+    smId: string,
+    update: InfiniBandSubnetManagerUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot update subnet manager in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "ib-sm",
+      timestamp: simulationClock.now(),
+      data: { smId, update },
+      command: command ?? this.currentCommand,
+      description: `Updated subnet manager ${smId}`,
+    });
+  }
+
+  /**
+   * Apply a subnet manager sweep in isolated state
+   */
+  applyIBSweep(sweep: SubnetSweep): void {
+    if (this.readonly) {
+      logger.warn("Cannot apply subnet sweep in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "ib-sweep",
+      timestamp: simulationClock.now(),
+      data: sweep,
+      command: this.currentCommand,
+      description: describeSweep(sweep),
+    });
+  }
+
+  /**
+   * Start or stop Fabric Manager, or change the NVSwitch fabric it manages,
+   * in isolated state
+   */
+  updateNVSwitchFabric(
+    nodeId: string,
+    update: NVSwitchFabricUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot update NVSwitch fabric in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "nvswitch-fabric",
+      timestamp: simulationClock.now(),
+      nodeId,
+      data: update,
+      command: command ?? this.currentCommand,
+      description: describeFabricUpdate(update),
+    });
+  }
+
+  /**
+   * Switch a node's chassis power or reset its BMC in isolated state
+   */
+  updateNodePower(
+    nodeId: string,
+    update: NodePowerUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot change node power in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "node-power",
+      timestamp: simulationClock.now(),
+      nodeId,
+      data: update,
+      command: command ?? this.currentCommand,
+      description: describeNodePowerUpdate(update),
+    });
+  }
+
+  /**
+   * Change a node's DCGM host engine (groups, job stats, policies) in
+   * isolated state
+   */
+  updateDcgmHostEngine(
+    nodeId: string,
+    update: DcgmHostEngineUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot update DCGM host engine in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "dcgm-hostengine",
+      timestamp: simulationClock.now(),
+      nodeId,
+      data: update,
+      command: command ?? this.currentCommand,
+      description: describeDcgmUpdate(update),
+    });
+  }
+
+  /**
+   * Install, remove or hold packages on a node in isolated state
+   */
+  updateNodePackages(
+    nodeId: string,
+    update: NodePackageUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot change node packages in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "node-packages",
+      timestamp: simulationClock.now(),
+      nodeId,
+      data: update,
+      command: command ?? this.currentCommand,
+      description: describeNodePackageUpdate(update),
+    });
+  }
+
+  /**
+   * Flash, activate or fail firmware on a node in isolated state
+   */
+  updateNodeFirmware(
+    nodeId: string,
+    update: NodeFirmwareUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot change node firmware in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "node-firmware",
+      timestamp: simulationClock.now(),
+      nodeId,
+      data: update,
+      command: command ?? this.currentCommand,
+      description: describeNodeFirmwareUpdate(update),
+    });
+  }
+
+  /**
+   * Stage a mode on a BlueField DPU or change its Arm side in isolated state
+   */
+  updateBlueField(
+    nodeId: string,
+    update: BlueFieldUpdate,
+    command?: string,
+  ): void {
+    if (this.readonly) {
+      logger.warn("Cannot change BlueField DPUs in readonly context");
+      return;
+    }
+
+    this.record({
+      type: "bluefield",
+      timestamp: simulationClock.now(),
+      nodeId,
+      data: update,
+      command: command ?? this.currentCommand,
+      description: describeBlueFieldUpdate(update),
+    });
+  }
+
   /**
    * Allocate GPUs for a Slurm job in isolated state
    */
@@ -326,10 +591,12 @@ export class ScenarioContext {
     for (const gpu of node.gpus) {
       if (gpuIds.includes(gpu.id)) {
         const updates: Partial<GPU> = {
-          utilization: targetUtilization + (Math.random() * 10 - 5),
-          memoryUsed: Math.floor(gpu.memoryTotal * (0.7 + Math.random() * 0.2)),
-          powerDraw: gpu.powerLimit * (0.75 + Math.random() * 0.15),
-          temperature: 65 + Math.random() * 15,
+          utilization: targetUtilization + (simulationRandom.next() * 10 - 5),
+          memoryUsed: Math.floor(
+            gpu.memoryTotal * (0.7 + simulationRandom.next() * 0.2),
+          ),
+          powerDraw: gpu.powerLimit * (0.75 + simulationRandom.next() * 0.15),
+          temperature: 65 + simulationRandom.next() * 15,
           allocatedJobId: jobId,
         };
         this.updateGPU(nodeId, gpu.id, updates);
@@ -350,10 +617,10 @@ export class ScenarioContext {
       for (const gpu of node.gpus) {
         if (gpu.allocatedJobId === jobId) {
           const updates: Partial<GPU> = {
-            utilization: Math.random() * 5,
+            utilization: simulationRandom.next() * 5,
             memoryUsed: Math.floor(gpu.memoryTotal * 0.01),
             powerDraw: gpu.powerLimit * 0.15,
-            temperature: 35 + Math.random() * 10,
+            temperature: 35 + simulationRandom.next() * 10,
             allocatedJobId: undefined,
           };
           this.updateGPU(node.id, gpu.id, updates);
@@ -362,6 +629,21 @@ export class ScenarioContext {
     }
   }
 
+  /**
+   * Apply a mutation to the isolated state and record it
+   */
+  private record(change: StateChange): void {
+    applyStateChange(this.isolatedCluster, change);
+    this.mutations.push(change);
+  }
+
+  /**
+   * Credit mutations to a terminal command until it finishes
+   */
+  setCurrentCommand(command: string | undefined): void {
+    this.currentCommand = command;
+  }
+
   /**
    * Get all mutations that have been applied
    */
@@ -429,6 +711,54 @@ export class ScenarioContext {
           }
           break;
 
+        case "ib-port":
+          store.updateIBPort(mutation.data.end, mutation.data.update);
+          break;
+
+        case "ib-sm":
+          store.updateSubnetManager(mutation.data.smId, mutation.data.update);
+          break;
+
+        case "ib-sweep":
+          store.applyIBSweep(mutation.data);
+          break;
+
+        case "nvswitch-fabric":
+          if (mutation.nodeId) {
+            store.updateNVSwitchFabric(mutation.nodeId, mutation.data);
+          }
+          break;
+
+        case "node-power":
+          if (mutation.nodeId) {
+            store.updateNodePower(mutation.nodeId, mutation.data);
+          }
+          break;
+
+        case "dcgm-hostengine":
+          if (mutation.nodeId) {
+            store.updateDcgmHostEngine(mutation.nodeId, mutation.data);
+          }
+          break;
+
+        case "node-packages":
+          if (mutation.nodeId) {
+            store.updateNodePackages(mutation.nodeId, mutation.data);
+          }
+          break;
+
+        case "node-firmware":
+          if (mutation.nodeId) {
+            store.updateNodeFirmware(mutation.nodeId, mutation.data);
+          }
+          break;
+
+        case "bluefield":
+          if (mutation.nodeId) {
+            store.updateBlueField(mutation.nodeId, mutation.data);
+          }
+          break;
+
         default:
           logger.warn(`Unknown mutation type: ${mutation.type}`);
       }
@@ -450,8 +780,11 @@ export class ScenarioContext {
 
     const store = useSimulationStore.getState();
     this.isolatedCluster = structuredClone(store.cluster);
+    this.initialCluster = structuredClone(store.cluster);
     this.mutations = [];
     this.eventLog = new EventLog();
+    this.fileSystem.reset();
+    this.containerRuntime.reset();
     logger.debug(`Reset scenario context ${this.scenarioId}`);
   }
 
@@ -473,7 +806,7 @@ export class ScenarioContext {
    * Get scenario runtime duration
    */
   getRuntimeMs(): number {
-    return Date.now() - this.startTime;
+    return simulationClock.now() - this.startTime;
   }
 
   /**
@@ -500,6 +833,20 @@ export class ScenarioContext {
     return structuredClone(this.isolatedCluster);
   }
 
+  /**
+   * Cluster state the scenario started from
+   */
+  getInitialState(): ClusterConfig {
+    return structuredClone(this.initialCluster);
+  }
+
+  /**
+   * Rebuild the cluster state as it was after the first `count` mutations
+   */
+  stateAt(count: number): ClusterConfig {
+    return rebuildState(this.initialCluster, this.mutations, count);
+  }
+
   /**
    * Compare current state with initial state
    */
@@ -542,11 +889,10 @@ export class ScenarioContext {
    * default if not set, matching real systemd behavior where most services
    * are running unless explicitly marked otherwise by a scenario.
    */
-  getServiceState(
-    nodeId: string,
-    serviceName: string,
-  ): "active" | "inactive" {
-    return this.serviceStates.get(this.serviceKey(nodeId, serviceName)) ?? "active";
+  getServiceState(nodeId: string, serviceName: string): "active" | "inactive" {
+    return (
+      this.serviceStates.get(this.serviceKey(nodeId, serviceName)) ?? "active"
+    );
   }
 
   /**
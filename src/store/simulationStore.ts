@@ -8,6 +8,7 @@ import type {
   HealthStatus,
   XIDError,
   InfiniBandHCA,
+  InfiniBandLinkEnd,
 } from "@/types/hardware";
 import type {
   Scenario,
@@ -19,10 +20,46 @@ import type { ValidationResult, ValidationConfig } from "@/types/validation";
 import {
   createDefaultCluster,
   createCustomCluster,
+  withNodeSystemType,
 } from "@/utils/clusterFactory";
+import {
+  applyIBPortUpdate,
+  applySubnetManagerUpdate,
+  applySubnetSweep,
+  type InfiniBandPortUpdate,
+  type InfiniBandSubnetManagerUpdate,
+  type SubnetSweep,
+} from "@/utils/infinibandFabric";
+import {
+  applyNVSwitchFabricUpdate,
+  type NVSwitchFabricUpdate,
+} from "@/utils/nvswitchFabric";
+import { applyNodePowerUpdate, type NodePowerUpdate } from "@/utils/nodePower";
+import {
+  applyDcgmUpdate,
+  observeGpuUpdate,
+  observeXidError,
+  type DcgmHostEngineUpdate,
+} from "@/utils/dcgmHostEngine";
+import { observeMemoryErrors } from "@/utils/gpuMemoryHealth";
+import {
+  applyNodePackageUpdate,
+  type NodePackageUpdate,
+} from "@/utils/nodePackages";
+import {
+  applyNodeFirmwareUpdate,
+  type NodeFirmwareUpdate,
+} from "@/utils/firmwareInventory";
+import {
+  applyBlueFieldUpdate,
+  type BlueFieldUpdate,
+} from "@/utils/blueFieldDpu";
+import { simulationClock } from "@/simulation/simulationClock";
 import type { SystemType } from "@/data/hardwareSpecs";
 import { useLearningProgressStore } from "./learningProgressStore";
 import { logger } from "@/utils/logger";
+import { safeParseClusterJSON } from "@/utils/clusterSchema";
+import { simulationRandom } from "@/simulation/seededRandom";
 // isTierUnlocked will be used in isScenarioAccessible once scenarios have tiers
 // import { isTierUnlocked } from '@/utils/tierProgressionEngine';
 
@@ -53,6 +90,8 @@ const toolFamilyMap: Record<string, string | string[]> = {
   squeue: "cluster-tools",
   scontrol: "cluster-tools",
   sacct: "cluster-tools",
+  sprio: "cluster-tools",
+  sshare: "cluster-tools",
   // Container tools
   docker: "container-tools",
   enroot: "container-tools",
@@ -104,9 +143,22 @@ interface SimulationState {
   // Actions
   setCluster: (cluster: ClusterConfig) => void;
   setSystemType: (systemType: SystemType) => void;
+  setNodeSystemType: (nodeId: string, systemType: SystemType) => void;
   selectNode: (nodeId: string) => void;
   updateGPU: (nodeId: string, gpuId: number, updates: Partial<GPU>) => void;
   updateHCAs: (nodeId: string, hcas: InfiniBandHCA[]) => void;
+  updateIBPort: (end: InfiniBandLinkEnd, update: InfiniBandPortUpdate) => void;
+  updateSubnetManager: (
+    smId: string,
+    update: InfiniBandSubnetManagerUpdate,
+  ) => void;
+  applyIBSweep: (sweep: SubnetSweep) => void;
+  updateNVSwitchFabric: (nodeId: string, update: NVSwitchFabricUpdate) => void;
+  updateNodePower: (nodeId: string, update: NodePowerUpdate) => void;
+  updateDcgmHostEngine: (nodeId: string, update: DcgmHostEngineUpdate) => void;
+  updateNodePackages: (nodeId: string, update: NodePackageUpdate) => void;
+  updateNodeFirmware: (nodeId: string, update: NodeFirmwareUpdate) => void;
+  updateBlueField: (nodeId: string, update: BlueFieldUpdate) => void;
   updateNodeHealth: (nodeId: string, health: HealthStatus) => void;
   addXIDError: (nodeId: string, gpuId: number, error: XIDError) => void;
   setMIGMode: (nodeId: string, gpuId: number, enabled: boolean) => void;
@@ -233,6 +285,11 @@ export const useSimulationStore = create<SimulationState>()(
           selectedNode: null,
         }),
 
+      setNodeSystemType: (nodeId, systemType) =>
+        set({
+          cluster: withNodeSystemType(get().cluster, nodeId, systemType),
+        }),
+
       selectNode: (nodeId) => set({ selectedNode: nodeId }),
 
       updateGPU: (nodeId, gpuId, updates) =>
@@ -268,7 +325,10 @@ export const useSimulationStore = create<SimulationState>()(
             );
           }
 
+          const before = { ...gpu };
           Object.assign(gpu, updates);
+          observeGpuUpdate(node, gpuId, before, simulationClock.now());
+          observeMemoryErrors(gpu, before, simulationClock.now());
         }),
 
       updateHCAs: (nodeId, hcas) =>
@@ -279,6 +339,51 @@ export const useSimulationStore = create<SimulationState>()(
           }
         }),
 
+      updateIBPort: (end, update) =>
+        set((state) => {
+          applyIBPortUpdate(state.cluster, end, update);
+        }),
+
+      updateSubnetManager: (smId, update) =>
+        set((state) => {
+          applySubnetManagerUpdate(state.cluster, smId, update);
+        }),
+
+      applyIBSweep: (sweep) =>
+        set((state) => {
+          applySubnetSweep(state.cluster, sweep);
+        }),
+
+      updateNVSwitchFabric: (nodeId, update) =>
+        set((state) => {
+          applyNVSwitchFabricUpdate(state.cluster, nodeId, update);
+        }),
+
+      updateNodePower: (nodeId, update) =>
+        set((state) => {
+          applyNodePowerUpdate(state.cluster, nodeId, update);
+        }),
+
+      updateDcgmHostEngine: (nodeId, update) =>
+        set((state) => {
+          applyDcgmUpdate(state.cluster, nodeId, update);
+        }),
+
+      updateNodePackages: (nodeId, update) =>
+        set((state) => {
+          applyNodePackageUpdate(state.cluster, nodeId, update);
+        }),
+
+      updateNodeFirmware: (nodeId, update) =>
+        set((state) => {
+          applyNodeFirmwareUpdate(state.cluster, nodeId, update);
+        }),
+
+      updateBlueField: (nodeId, update) =>
+        set((state) => {
+          applyBlueFieldUpdate(state.cluster, nodeId, update);
+        }),
+
       updateNodeHealth: (nodeId, health) =>
         set((state) => {
           const node = state.cluster.nodes.find((n) => n.id === nodeId);
@@ -294,6 +399,7 @@ export const useSimulationStore = create<SimulationState>()(
             const gpu = node.gpus.find((g) => g.id === gpuId);
             if (gpu) {
               gpu.xidErrors.push(error);
+              observeXidError(node, gpuId, error, simulationClock.now());
             }
           }
         }),
@@ -326,12 +432,14 @@ export const useSimulationStore = create<SimulationState>()(
           if (node) {
             for (const gpu of node.gpus) {
               if (gpuIds.includes(gpu.id)) {
-                gpu.utilization = targetUtilization + (Math.random() * 10 - 5); // Add jitter
+                gpu.utilization =
+                  targetUtilization + (simulationRandom.next() * 10 - 5); // Add jitter
                 gpu.memoryUsed = Math.floor(
-                  gpu.memoryTotal * (0.7 + Math.random() * 0.2),
+                  gpu.memoryTotal * (0.7 + simulationRandom.next() * 0.2),
                 );
-                gpu.powerDraw = gpu.powerLimit * (0.75 + Math.random() * 0.15);
-                gpu.temperature = 65 + Math.random() * 15;
+                gpu.powerDraw =
+                  gpu.powerLimit * (0.75 + simulationRandom.next() * 0.15);
+                gpu.temperature = 65 + simulationRandom.next() * 15;
                 gpu.allocatedJobId = jobId;
               }
             }
@@ -343,10 +451,10 @@ export const useSimulationStore = create<SimulationState>()(
           for (const node of state.cluster.nodes) {
             for (const gpu of node.gpus) {
               if (gpu.allocatedJobId === jobId) {
-                gpu.utilization = Math.random() * 5; // Idle utilization
+                gpu.utilization = simulationRandom.next() * 5; // Idle utilization
                 gpu.memoryUsed = Math.floor(gpu.memoryTotal * 0.01);
                 gpu.powerDraw = gpu.powerLimit * 0.15;
-                gpu.temperature = 35 + Math.random() * 10;
+                gpu.temperature = 35 + simulationRandom.next() * 10;
                 gpu.allocatedJobId = undefined;
               }
             }
@@ -700,12 +808,12 @@ export const useSimulationStore = create<SimulationState>()(
       },
 
       importCluster: (json) => {
-        try {
-          const cluster = JSON.parse(json) as ClusterConfig;
-          set({ cluster });
-        } catch (error) {
-          logger.error("Failed to import cluster:", error);
+        const result = safeParseClusterJSON(json);
+        if (!result.valid || !result.data) {
+          logger.error("Failed to import cluster:", result.errors.join("; "));
+          return;
         }
+        set({ cluster: result.data });
       },
 
       // Lab Panel visibility state
@@ -721,12 +829,20 @@ export const useSimulationStore = create<SimulationState>()(
     })),
     {
       name: "nvidia-simulator-storage",
-      version: 1,
-      migrate: () => {
+      version: 3,
+      migrate: (persistedState, version) => {
         // v0 → v1: cpuCount was persisted as socket count (2) instead of
         // total cores (sockets × coresPerSocket). Discard stale cluster so
         // createDefaultCluster() rebuilds it with correct values.
-        return {} as Record<string, unknown>;
+        if (version < 1) {
+          return {} as Record<string, unknown>;
+        }
+        // v1 → v2: the cluster gained its InfiniBand switch and cable model
+        // and unique HCA LIDs. v2 → v3: the fabric gained subnet managers and
+        // forwarding tables. Drop only the cluster so it is rebuilt.
+        const state = { ...(persistedState as Record<string, unknown>) };
+        delete state.cluster;
+        return state;
       },
       storage: createJSONStorage(() => createDebouncedStorage(2000)),
       partialize: (state) => ({
@@ -19,13 +19,37 @@ export type GPUType =
   | "R200"
   | "Blackwell";
 
+// Where an instance sits, in memory slices for a GPU instance and in
+// compute slices of its GPU instance for a compute instance
+export interface MIGPlacement {
+  start: number;
+  size: number;
+}
+
 export interface MIGProfile {
+  id: number;
+  name: string; // "3g.40gb", without the "MIG " prefix
+  computeSlices: number;
+  memorySlices: number;
+  memory: number; // GiB
+  smCount: number;
+  maxInstances: number;
+  copyEngines: number;
+  decoders: number;
+  encoders: number;
+  jpegDecoders: number;
+  ofa: number;
+  mediaExtensions: boolean;
+  placements: number[]; // Possible placement starts
+}
+
+export interface MIGComputeProfile {
   id: number;
   name: string;
-  memory: number; // GB
   computeSlices: number;
-  gpuInstances: number;
+  smCount: number;
   maxInstances: number;
+  placements: number[];
 }
 
 export interface MIGInstance {
@@ -33,6 +57,7 @@ export interface MIGInstance {
   gpuId: number;
   profileId: number;
   uuid: string;
+  placement?: MIGPlacement;
   computeInstances: ComputeInstance[];
 }
 
@@ -41,6 +66,7 @@ export interface ComputeInstance {
   giId: number;
   profileId: number;
   uuid: string;
+  placement?: MIGPlacement;
 }
 
 export interface NVLinkConnection {
@@ -61,6 +87,38 @@ export interface ECCErrors {
   };
 }
 
+// A framebuffer page the driver stopped handing out
+export interface RetiredPage {
+  address: number; // Physical address of the page
+  cause: "SBE" | "DBE"; // Repeated single-bit errors, or a double-bit error
+  timestamp: number; // Simulation clock, ms
+  pending: boolean; // Still mapped until the next GPU reset
+}
+
+// A DRAM row replaced by one of its bank's spare rows
+export interface RemappedRow {
+  bank: number;
+  row: number;
+  cause: "correctable" | "uncorrectable";
+  timestamp: number; // Simulation clock, ms
+  pending: boolean; // Takes effect at the next GPU reset
+}
+
+// An error in a bank that had no spare row left
+export interface RowRemapFailure {
+  bank: number;
+  row: number;
+  timestamp: number; // Simulation clock, ms
+}
+
+// What the InfoROM keeps about a GPU's memory; survives resets and reboots
+export interface GpuMemoryHealth {
+  correctableErrors: number; // Single-bit errors seen, for page retirement
+  retiredPages: RetiredPage[];
+  remappedRows: RemappedRow[];
+  remapFailures: RowRemapFailure[];
+}
+
 export interface XIDError {
   code: number;
   timestamp: Date;
@@ -91,6 +149,7 @@ export interface GPU {
   xidErrors: XIDError[];
   persistenceMode: boolean;
   allocatedJobId?: number; // Slurm job ID if GPU is allocated
+  memoryHealth?: GpuMemoryHealth; // Created at the first ECC error
 }
 
 export interface BlueFieldMode {
@@ -99,33 +158,75 @@ export interface BlueFieldMode {
   description: string;
 }
 
+// An Open vSwitch bridge on the DPU's Arm OS and the ports added to it
+export interface OvsBridge {
+  name: string;
+  ports: string[];
+}
+
+// A scalable function carved out of one of the DPU's physical functions
+export interface ScalableFunction {
+  pfnum: number;
+  sfnum: number;
+  hwaddr: string;
+}
+
+/**
+ * What runs on the DPU's Arm OS: its OVS bridges, scalable functions and the
+ * links an administrator set down
+ */
+export interface BlueFieldArmState {
+  bridges: OvsBridge[];
+  subFunctions: ScalableFunction[];
+  linksDown: string[];
+}
+
 export interface BlueFieldDPU {
   id: number;
   pciAddress: string;
   devicePath: string; // /dev/mst/mt41692_pciconf0
   firmwareVersion: string;
   mode: BlueFieldMode;
+  pendingMode?: BlueFieldMode; // Staged by mlxconfig, applied at power cycle
   ipAddress?: string;
   armOS: string;
   ovsConfigured: boolean;
   rshimAvailable: boolean;
+  arm?: BlueFieldArmState; // Created at the first change on the Arm side
+}
+
+// Init and Armed ports are physically up but wait on the subnet manager
+export type InfiniBandPortState =
+  | "Active"
+  | "Armed"
+  | "Init"
+  | "Down"
+  | "Polling"
+  | "Disabled";
+export type InfiniBandPhysicalState =
+  | "LinkUp"
+  | "LinkDown"
+  | "Polling"
+  | "Sleep";
+export type InfiniBandRate = 100 | 200 | 400 | 800 | 1600; // Gb/s (EDR, HDR, NDR, XDR, XDR2)
+
+export interface InfiniBandPortErrors {
+  symbolErrors: number;
+  linkDowned: number;
+  portRcvErrors: number;
+  portXmitDiscards: number;
+  portXmitWait: number;
 }
 
 export interface InfiniBandPort {
   portNumber: number;
-  state: "Active" | "Down" | "Polling" | "Disabled";
-  physicalState: "LinkUp" | "LinkDown" | "Polling" | "Sleep";
-  rate: 100 | 200 | 400 | 800 | 1600; // Gb/s (EDR, HDR, NDR, XDR, XDR2)
+  state: InfiniBandPortState;
+  physicalState: InfiniBandPhysicalState;
+  rate: InfiniBandRate;
   lid: number;
   guid: string;
   linkLayer: "InfiniBand" | "Ethernet";
-  errors: {
-    symbolErrors: number;
-    linkDowned: number;
-    portRcvErrors: number;
-    portXmitDiscards: number;
-    portXmitWait: number;
-  };
+  errors: InfiniBandPortErrors;
 }
 
 export interface InfiniBandHCA {
@@ -137,6 +238,229 @@ export interface InfiniBandHCA {
   ports: InfiniBandPort[];
 }
 
+export interface InfiniBandSwitchPort {
+  portNumber: number;
+  state: InfiniBandPortState;
+  physicalState: InfiniBandPhysicalState;
+  rate: InfiniBandRate;
+  errors: InfiniBandPortErrors;
+}
+
+export interface InfiniBandSwitch {
+  id: string; // spine-0, leaf-3
+  tier: "spine" | "leaf";
+  description: string; // Node description, e.g. QM9700/Rail-3
+  model: string; // QM8700, QM8790, QM9700, QM9790
+  guid: string;
+  lid: number;
+  firmwareVersion: string;
+  ports: InfiniBandSwitchPort[];
+}
+
+// One end of a cable: a switch port, or a port on a node's HCA (hcaIndex
+// is the position in node.hcas, i.e. the N in mlx5_N)
+export type InfiniBandLinkEnd =
+  | { kind: "switch"; switchId: string; portNumber: number }
+  | { kind: "hca"; nodeId: string; hcaIndex: number; portNumber: number };
+
+export interface InfiniBandCable {
+  id: string;
+  ends: [InfiniBandLinkEnd, InfiniBandLinkEnd];
+  type: "DAC" | "AOC";
+  lengthMeters: number;
+  vendor: string;
+  partNumber: string;
+  serialNumber: string;
+}
+
+export type InfiniBandSubnetManagerState = "Master" | "Standby" | "NotActive";
+export type InfiniBandRoutingEngine = "minhop" | "ftree" | "updn";
+
+// An OpenSM instance, running on a node and bound to one of its HCA ports
+export interface InfiniBandSubnetManager {
+  id: string; // sm-0
+  nodeId: string;
+  hcaIndex: number;
+  priority: number; // 0-15, highest wins the election
+  routingEngine: InfiniBandRoutingEngine;
+  running: boolean;
+  state: InfiniBandSubnetManagerState;
+}
+
+export interface InfiniBandFabric {
+  smLid: number; // LID of the master SM's port, kept when no master is left
+  subnetManagers: InfiniBandSubnetManager[];
+  // Linear forwarding tables from the last sweep: switch id → LID → port
+  forwardingTables: Record<string, Record<number, number>>;
+  routingEngine?: InfiniBandRoutingEngine; // Engine that built the tables
+  routedCables: string[]; // Cables the last sweep found up
+  sweepCount: number;
+  switches: InfiniBandSwitch[];
+  cables: InfiniBandCable[];
+}
+
+// An NVSwitch port faces one NVLink of one GPU on the same baseboard
+export interface NVSwitchPort {
+  portId: number;
+  gpuId: number;
+  gpuLinkId: number; // linkId of the NVLinkConnection on the GPU side
+  state: NVLinkConnection["status"];
+}
+
+export interface NVSwitch {
+  physicalId: number; // As reported by DCGM, numbered after the GPUs
+  uuid: string;
+  pciAddress: string;
+  ports: NVSwitchPort[];
+}
+
+export type FabricManagerState = "Running" | "Stopped" | "Failed";
+// FABRIC_MODE in fabricmanager.cfg: 0 = bare metal, 1 = shared NVSwitch
+export type FabricMode = "baremetal" | "shared";
+
+// A GPU partition for shared NVSwitch systems, activated for one tenant
+export interface FabricPartition {
+  id: number;
+  gpuIds: number[];
+  active: boolean;
+}
+
+export interface FabricManagerLogEntry {
+  timestamp: number; // Simulation clock, ms
+  process: string; // systemd[1], nv-fabricmanager[4021]
+  message: string;
+}
+
+export interface FabricManagerService {
+  state: FabricManagerState;
+  version: string; // Installed package, must match the driver to start
+  pid?: number;
+  startedAt?: number; // Simulation clock, ms
+  log: FabricManagerLogEntry[];
+}
+
+export interface NVSwitchFabric {
+  nvswitches: NVSwitch[];
+  fabricManager: FabricManagerService;
+  mode: FabricMode;
+  partitions: FabricPartition[];
+}
+
+// A DCGM GPU group; groups 0 and 1 are built in
+export interface DcgmGroup {
+  id: number;
+  name: string;
+  gpuIds: number[];
+}
+
+export interface DcgmFieldGroup {
+  id: number;
+  name: string;
+  fieldIds: number[];
+  system: boolean; // Built in, cannot be deleted
+}
+
+export type DcgmPolicyCondition =
+  | "ecc"
+  | "thermal"
+  | "power"
+  | "pcie"
+  | "nvlink"
+  | "xid"
+  | "memory";
+export type DcgmPolicyAction =
+  | "none"
+  | "log"
+  | "alert"
+  | "gpureset"
+  | "throttle"
+  | "shutdown";
+
+export interface DcgmPolicy {
+  groupId: number;
+  condition: DcgmPolicyCondition;
+  threshold?: number; // Unset: the condition's default
+  action: DcgmPolicyAction;
+}
+
+export interface DcgmPolicyViolation {
+  timestamp: number; // Simulation clock, ms
+  groupId: number;
+  gpuId: number;
+  condition: DcgmPolicyCondition;
+  value: number; // Reading that crossed the threshold
+  action: DcgmPolicyAction;
+}
+
+// Running count, sum and range of one watched field
+export interface DcgmStatSeries {
+  count: number;
+  sum: number;
+  max: number;
+  min: number;
+}
+
+export interface DcgmGpuJobStats {
+  gpuId: number;
+  power: DcgmStatSeries; // W
+  smClock: DcgmStatSeries; // MHz
+  memClock: DcgmStatSeries; // MHz
+  smUtil: DcgmStatSeries; // %
+  memUtil: DcgmStatSeries; // % of framebuffer
+  maxMemoryUsed: number; // MB
+  energy: number; // J
+  lastSampleAt: number; // Simulation clock, ms
+  // Aggregate ECC counts when recording started, and errors since
+  eccBaseline: { singleBit: number; doubleBit: number };
+  singleBitErrors: number;
+  doubleBitErrors: number;
+  criticalXids: number;
+}
+
+export interface DcgmJobStats {
+  jobId: string;
+  groupId: number;
+  startTime: number; // Simulation clock, ms
+  endTime?: number; // Unset while recording
+  gpus: DcgmGpuJobStats[];
+}
+
+// What nv-hostengine keeps for a node
+export interface DcgmHostEngine {
+  groups: DcgmGroup[];
+  fieldGroups: DcgmFieldGroup[];
+  watchedGroups: number[]; // Groups with process watches enabled
+  jobs: DcgmJobStats[];
+  policies: DcgmPolicy[];
+  violations: DcgmPolicyViolation[];
+}
+
+// Where a rack-scale node (a GB200 compute tray) sits in its rack
+export interface RackSlot {
+  rack: number;
+  tray: number; // Compute tray position, 0-based
+}
+
+// An NVLink switch tray: two NVSwitch chips cabled to every compute tray
+// of the rack through the NVLink spine
+export interface NVLinkSwitchTray {
+  id: number;
+  firmwareVersion: string;
+  nvswitchIds: number[]; // Indexes into each compute tray's nvswitches
+  healthStatus: HealthStatus;
+}
+
+// A rack-scale NVLink domain: every GPU of every compute tray reaches every
+// other one through the switch trays
+export interface NVLinkRack {
+  id: string; // rack-0
+  model: string; // GB200 NVL72
+  computeTrays: string[]; // Node ids, by tray position
+  switchTrays: NVLinkSwitchTray[];
+  clusterUuid: string; // NVLink domain, as reported by nvidia-smi -q
+  cliqueId: number;
+}
+
 export interface BMCSensor {
   name: string;
   reading: number;
@@ -148,6 +472,16 @@ export interface BMCSensor {
   upperWarning?: number;
 }
 
+// Stages of a node's power-on sequence, in order
+export type NodePowerPhase =
+  | "Off"
+  | "POST"
+  | "KernelBoot"
+  | "DriverLoad"
+  | "Services"
+  | "SlurmRegistration"
+  | "Ready";
+
 export interface BMC {
   ipAddress: string;
   macAddress: string;
@@ -155,6 +489,62 @@ export interface BMC {
   manufacturer: string;
   sensors: BMCSensor[];
   powerState: "On" | "Off";
+  poweredOnAt?: number; // Simulation clock, ms; unset when up from the start
+  unavailableUntil?: number; // Simulation clock, ms, while the BMC resets
+}
+
+// A Debian package installed on a node, as dpkg records it
+export interface InstalledPackage {
+  name: string;
+  version: string; // Debian version, 535.129.03-0ubuntu1
+  description: string;
+  automatic?: boolean; // Installed as a dependency
+  held?: boolean; // apt-mark hold
+  halfConfigured?: boolean; // Its post-install script failed
+}
+
+// A kernel module DKMS built from an installed source package
+export interface DkmsBuild {
+  module: string;
+  version: string;
+  kernel: string;
+  status: "installed" | "added"; // added: the source is there, the build failed
+}
+
+// The NVIDIA software dpkg and DKMS know about on a node, and what the
+// running kernel made of it at boot
+export interface NodePackages {
+  installed: InstalledPackage[];
+  dkms: DkmsBuild[];
+  nouveauBlacklisted: boolean;
+  moduleLoaded: boolean; // nvidia.ko loaded at boot, at nvidiaDriverVersion
+  rebootRequired: boolean;
+}
+
+// The components of a node that run their own firmware
+export type FirmwareComponentType =
+  | "vbios"
+  | "nvswitch"
+  | "hca"
+  | "bluefield"
+  | "bmc"
+  | "sbios"
+  | "psu";
+
+// An image written to a component's flash that is not running yet, or one
+// whose write did not complete
+export interface FirmwareFlash {
+  version: string;
+  status: "pending" | "failed" | "interrupted";
+  timestamp: number; // Simulation clock, ms
+}
+
+export interface FirmwareComponent {
+  id: string; // GPU0, NVSwitch0, HCA0, DPU0, BMC, SBIOS, PSU0
+  type: FirmwareComponentType;
+  model: string; // The release line it takes images from: ConnectX-7, Hopper
+  version: string; // The image it is running
+  flash?: FirmwareFlash;
 }
 
 export interface DGXNode {
@@ -164,6 +554,11 @@ export interface DGXNode {
   gpus: GPU[];
   dpus: BlueFieldDPU[];
   hcas: InfiniBandHCA[];
+  nvswitchFabric?: NVSwitchFabric; // Built by clusterFactory; derived when absent
+  dcgm?: DcgmHostEngine; // Created when first changed; derived when absent
+  packages?: NodePackages; // Created when first changed; derived when absent
+  firmware?: FirmwareComponent[]; // Created when first changed; derived when absent
+  rackSlot?: RackSlot; // Rack-scale systems only
   bmc: BMC;
   cpuModel: string;
   cpuCount: number;
@@ -179,10 +574,19 @@ export interface DGXNode {
   clusterPowerLimit?: number; // Power limit set via DCMI in watts
 }
 
+/** Leaf and spine switches of a two-tier InfiniBand fabric */
+export interface FabricSwitchCounts {
+  leaves: number;
+  spines: number;
+}
+
 export interface ClusterConfig {
   name: string;
   nodes: DGXNode[];
   fabricTopology: "FatTree" | "RailOptimized" | "DragonFly";
+  fabricSwitches?: FabricSwitchCounts; // Set in the cluster builder; derived when absent
+  infiniband?: InfiniBandFabric; // Built by clusterFactory; derived when absent
+  racks?: NVLinkRack[]; // Built by clusterFactory; derived when absent
   bcmHA: {
     enabled: boolean;
     primary: string;
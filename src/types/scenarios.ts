@@ -17,7 +17,14 @@ export type FaultType =
   | "add-node"
   | "allocate-job"
   | "set-slurm-state"
-  | "service-state";
+  | "service-state"
+  | "container-toolkit-missing"
+  | "ib-cable"
+  | "ib-switch-port"
+  | "ib-sm"
+  | "fabric-manager"
+  | "driver-package"
+  | "firmware-flash";
 
 export interface FaultInjectionConfig {
   nodeId: string;
@@ -79,10 +86,48 @@ export interface ValidationRule {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   stateParams?: Record<string, any>;
 
+  // For state-check: assertions on the scenario's cluster, all of which must hold
+  assertions?: StateAssertion[];
+
   // For time-limit: max seconds allowed
   maxSeconds?: number;
 }
 
+/** A value a state assertion compares against */
+export type StateValue = string | number | boolean;
+
+/**
+ * A declarative check on the scenario's cluster state, for steps that are
+ * only done once the fault is actually fixed. `path` is a dotted property
+ * path on the node, or on one of its GPUs when `gpu` is set; paths step
+ * through arrays, so `gpus.xidErrors` is every XID on the node. MIG
+ * instances also carry their profile name as `profile`.
+ *
+ * String patterns in `matches` and `where` are case-insensitive regexes.
+ *
+ * @example { "node": "dgx-03", "path": "slurmState", "equals": "drain" }
+ * @example { "node": "dgx-03", "gpu": 2, "path": "migInstances", "where": { "profile": "^3g\\." }, "count": 3 }
+ * @example { "path": "gpus.xidErrors", "where": { "severity": "Critical" }, "count": 0 }
+ */
+export interface StateAssertion {
+  /** Node ID, `*` for every node; the current node when absent */
+  node?: string;
+  /** GPU index on the node */
+  gpu?: number;
+  path: string;
+  equals?: StateValue;
+  matches?: string;
+  /** Bounds on a number, or on the size of an array */
+  min?: number;
+  max?: number;
+  /** Array paths: keep the entries whose properties match */
+  where?: Record<string, StateValue>;
+  /** Array paths: exact number of (matching) entries */
+  count?: number;
+  /** Shown when the assertion fails */
+  message?: string;
+}
+
 export interface ValidationResult {
   passed: boolean;
   message: string;
@@ -494,6 +539,8 @@ export interface NarrativeStep {
     type: "command" | "output" | "state" | "none";
     command?: string;
     pattern?: string;
+    /** State the step must leave the cluster in, on top of the command rule */
+    state?: StateAssertion[];
   };
   quiz?: NarrativeQuiz;
   autoFaults?: FaultInjectionConfig[];
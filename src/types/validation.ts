@@ -6,6 +6,7 @@
  */
 
 import type { CommandContext } from './commands';
+import type { StateAssertion } from './scenarios';
 
 /**
  * Types of validation rules that can be applied to scenario steps
@@ -31,6 +32,9 @@ export interface ValidationRule {
   /** Function to check system state (for state type) */
   stateCheck?: (context: CommandContext) => boolean;
 
+  /** Declarative checks on the scenario's cluster (for state type) */
+  assertions?: StateAssertion[];
+
   /** Commands that must be executed in order (for sequence type) */
   sequence?: string[];
 
@@ -1,8 +1,16 @@
 import { describe, it, expect, vi } from "vitest";
-import { applyFaultsToContext } from "../scenarioLoader";
+import {
+  applyFaultsToContext,
+  clearFaultsFromContext,
+} from "../scenarioLoader";
 import { ScenarioContext } from "@/store/scenarioContext";
 import type { FaultInjectionConfig } from "@/types/scenarios";
 import type { ClusterConfig } from "@/types/hardware";
+import { createDefaultCluster } from "../clusterFactory";
+import { getFabric } from "../infinibandFabric";
+import { getNVSwitchFabric } from "../nvswitchFabric";
+import { libraryMismatch } from "../nodePackages";
+import { findFirmwareComponent } from "../firmwareInventory";
 
 // Mock the simulation store (ScenarioContext imports it)
 vi.mock("@/store/simulationStore", () => ({
@@ -231,6 +239,25 @@ describe("applyFaultsToContext", () => {
     expect(gpu?.healthStatus).toBe("Critical");
   });
 
+  it("applies container-toolkit-missing fault to context", () => {
+    const cluster = createTestCluster();
+    const context = new ScenarioContext("test", cluster);
+
+    const faults: FaultInjectionConfig[] = [
+      {
+        nodeId: "dgx-00",
+        type: "container-toolkit-missing",
+        severity: "critical",
+      },
+    ];
+
+    applyFaultsToContext(faults, context);
+
+    const runtime = context.getContainerRuntime();
+    expect(runtime.isToolkitInstalled("dgx-00")).toBe(false);
+    expect(runtime.isToolkitInstalled("dgx-01")).toBe(true);
+  });
+
   it("does not mutate global store", () => {
     const cluster = createTestCluster();
     const context = new ScenarioContext("test", cluster);
@@ -294,4 +321,216 @@ describe("applyFaultsToContext", () => {
     expect(context.getGPU("dgx-00", 1)?.memoryUsed).toBe(79000);
     expect(context.getMutationCount()).toBe(2);
   });
+
+  it("applies ib-cable fault to both ends of the node's cable", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+
+    applyFaultsToContext(
+      [
+        {
+          nodeId: "dgx-01",
+          type: "ib-cable",
+          severity: "critical",
+          parameters: { hca: 2 },
+        },
+      ],
+      context,
+    );
+
+    const cluster = context.getCluster();
+    expect(cluster.nodes[1].hcas[2].ports[0].state).toBe("Down");
+    const leaf = getFabric(cluster).switches.find((s) => s.id === "leaf-2");
+    expect(leaf?.ports[1].state).toBe("Down");
+    expect(context.getMutationCount()).toBe(2);
+  });
+
+  it("applies ib-switch-port errors without taking the link down", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+
+    applyFaultsToContext(
+      [
+        {
+          nodeId: "dgx-00",
+          type: "ib-switch-port",
+          severity: "warning",
+          parameters: { switchId: "spine-0", port: 1, symbolErrors: 25 },
+        },
+      ],
+      context,
+    );
+
+    const spine = getFabric(context.getCluster()).switches[0];
+    expect(spine.ports[0].state).toBe("Active");
+    expect(spine.ports[0].errors.symbolErrors).toBe(25);
+  });
+
+  it("applies ib-sm fault by stopping the master subnet manager", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+
+    applyFaultsToContext(
+      [{ nodeId: "dgx-05", type: "ib-sm", severity: "critical" }],
+      context,
+    );
+
+    const [master, standby] = getFabric(context.getCluster()).subnetManagers;
+    expect(master.running).toBe(false);
+    expect(standby.running).toBe(true);
+    expect(context.getMutationCount()).toBe(1);
+  });
+
+  it("applies fabric-manager fault by installing a mismatched version", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+
+    applyFaultsToContext(
+      [
+        {
+          nodeId: "dgx-02",
+          type: "fabric-manager",
+          severity: "critical",
+          parameters: { version: "470.82.01" },
+        },
+      ],
+      context,
+    );
+
+    const node = context.getNode("dgx-02")!;
+    const { fabricManager } = getNVSwitchFabric(node);
+    expect(fabricManager.state).toBe("Failed");
+    expect(fabricManager.version).toBe("470.82.01");
+    expect(node.gpus[0].nvlinks[0].status).toBe("Inactive");
+  });
+
+  it("applies driver-package fault by upgrading the driver libraries", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+
+    applyFaultsToContext(
+      [
+        {
+          nodeId: "dgx-01",
+          type: "driver-package",
+          severity: "critical",
+          parameters: { install: "nvidia-driver-550" },
+        },
+      ],
+      context,
+    );
+
+    const node = context.getNode("dgx-01")!;
+    expect(libraryMismatch(node)).toBe("550.90.07");
+    expect(node.packages?.rebootRequired).toBe(true);
+    expect(context.getMutationCount()).toBe(1);
+  });
+
+  it("applies firmware-flash fault as an interrupted BMC flash", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+
+    applyFaultsToContext(
+      [
+        {
+          nodeId: "dgx-01",
+          type: "firmware-flash",
+          severity: "critical",
+        },
+      ],
+      context,
+    );
+
+    const node = context.getNode("dgx-01")!;
+    expect(findFirmwareComponent(node, "BMC")).toMatchObject({
+      version: "3.47.00",
+      flash: { version: "4.2.1", status: "interrupted" },
+    });
+    expect(node.bmc.firmwareVersion).toBe("3.47.00");
+    expect(context.getMutationCount()).toBe(1);
+  });
+
+  it("routes service-state for nvidia-fabricmanager to the fabric", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+
+    applyFaultsToContext(
+      [
+        {
+          nodeId: "dgx-01",
+          type: "service-state",
+          severity: "critical",
+          parameters: { service: "nvidia-fabricmanager", state: "inactive" },
+        },
+      ],
+      context,
+    );
+
+    const node = context.getNode("dgx-01")!;
+    expect(getNVSwitchFabric(node).fabricManager.state).toBe("Stopped");
+    expect(context.getMutationCount()).toBe(1);
+  });
+});
+
+describe("clearFaultsFromContext", () => {
+  it("returns faulted GPUs to health and leaves other XIDs in place", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+    const faults: FaultInjectionConfig[] = [
+      {
+        nodeId: "dgx-01",
+        gpuId: 3,
+        type: "ecc-error",
+        severity: "critical",
+        parameters: { singleBit: 150, doubleBit: 1 },
+      },
+      {
+        nodeId: "dgx-01",
+        gpuId: 3,
+        type: "nvlink-failure",
+        severity: "critical",
+        parameters: { link: 2 },
+      },
+      {
+        nodeId: "dgx-01",
+        gpuId: 3,
+        type: "xid-error",
+        severity: "critical",
+        parameters: { xid: 48 },
+      },
+    ];
+    applyFaultsToContext(faults, context);
+    context.addXIDError("dgx-01", 3, {
+      code: 31,
+      timestamp: new Date(),
+      description: "MMU fault",
+      severity: "Warning",
+    });
+
+    clearFaultsFromContext(faults, context);
+
+    const gpu = context.getGPU("dgx-01", 3)!;
+    expect(gpu.eccErrors.doubleBit).toBe(0);
+    // A reset does not take back the aggregate count
+    expect(gpu.eccErrors.aggregated.doubleBit).toBe(1);
+    expect(gpu.healthStatus).toBe("OK");
+    expect(gpu.nvlinks[2].speed).toBe(gpu.nvlinks[0].speed);
+    expect(gpu.nvlinks[2].replayErrors).toBe(0);
+    expect(gpu.xidErrors.map((x) => x.code)).toEqual([31]);
+  });
+
+  it("brings a replaced cable up in Init with its errors cleared", () => {
+    const context = new ScenarioContext("test", createDefaultCluster());
+    const flap: FaultInjectionConfig[] = [
+      {
+        nodeId: "dgx-01",
+        type: "ib-cable",
+        severity: "warning",
+        parameters: { mode: "errors", symbolErrors: 4800 },
+      },
+    ];
+    applyFaultsToContext(flap, context);
+
+    clearFaultsFromContext(flap, context);
+
+    const cluster = context.getCluster();
+    const port = cluster.nodes[1].hcas[0].ports[0];
+    expect(port.state).toBe("Init");
+    expect(port.physicalState).toBe("LinkUp");
+    expect(port.errors.symbolErrors).toBe(0);
+    const leaf = getFabric(cluster).switches.find((s) => s.id === "leaf-0");
+    expect(leaf?.ports[1].errors.symbolErrors).toBe(0);
+  });
 });
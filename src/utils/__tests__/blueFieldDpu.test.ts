@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  applyBlueFieldUpdate,
+  getArmState,
+  isHostPortUp,
+  planArmChange,
+  planHostPrivilege,
+  planModeParameters,
+} from "../blueFieldDpu";
+import { createDefaultCluster } from "../clusterFactory";
+import { parse } from "../commandParser";
+import { applyNodePowerUpdate, planPowerAction } from "../nodePower";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { simulationClock } from "@/simulation/simulationClock";
+import { MellanoxSimulator } from "@/simulators/mellanoxSimulator";
+import { BlueFieldSimulator } from "@/simulators/blueFieldSimulator";
+import { InfiniBandSimulator } from "@/simulators/infinibandSimulator";
+import { PciToolsSimulator } from "@/simulators/pciToolsSimulator";
+import type { CommandContext } from "@/types/commands";
+import type { ClusterConfig } from "@/types/hardware";
+
+const START = Date.UTC(2024, 0, 15, 8);
+const DPU = "/dev/mst/mt41686_pciconf0";
+const ARM = "192.168.100.10";
+
+describe("BlueField DPU", () => {
+  let cluster: ClusterConfig;
+  const node = () => cluster.nodes[1];
+  const dpu = () => node().dpus[0];
+  const power = (action: "reboot" | "cycle") => {
+    const { update } = planPowerAction(node(), action, START);
+    applyNodePowerUpdate(cluster, node().id, update!);
+  };
+
+  beforeEach(() => {
+    cluster = createDefaultCluster();
+  });
+
+  it("runs a staged mode only after a power cycle", () => {
+    const plan = planModeParameters(dpu(), [["INTERNAL_CPU_MODEL", "0"]]);
+    applyBlueFieldUpdate(cluster, node().id, plan.update!);
+    expect(dpu().mode.mode).toBe("DPU");
+    expect(dpu().pendingMode?.mode).toBe("SeparatedHost");
+
+    power("reboot");
+    expect(dpu().mode.mode).toBe("DPU");
+    power("cycle");
+    expect(dpu().mode).toMatchObject({
+      mode: "SeparatedHost",
+      internalCpuModel: 0,
+    });
+    expect(dpu().pendingMode).toBeUndefined();
+  });
+
+  it("maps mlxconfig parameters to modes", () => {
+    const nic = planModeParameters(dpu(), [
+      ["INTERNAL_CPU_OFFLOAD_ENGINE", "DISABLED"],
+    ]);
+    expect(nic.update?.dpu.pendingMode?.mode).toBe("NIC");
+    applyBlueFieldUpdate(cluster, node().id, nic.update!);
+
+    // Setting back what the DPU runs drops the staged mode
+    const back = planModeParameters(dpu(), [
+      ["INTERNAL_CPU_MODEL", "EMBEDDED_CPU"],
+      ["INTERNAL_CPU_OFFLOAD_ENGINE", "0"],
+    ]);
+    expect(back.update?.dpu.pendingMode).toBeUndefined();
+    expect(planModeParameters(dpu(), [["INTERNAL_CPU_MODEL", "7"]]).error).toBe(
+      "Bad parameter value for INTERNAL_CPU_MODEL: 7",
+    );
+    expect(planHostPrivilege(dpu(), true).error).toBe(
+      "Host restriction is only supported in DPU mode",
+    );
+  });
+
+  it("brings host PFs up only through an OVS bridge", () => {
+    expect(isHostPortUp(dpu(), 0)).toBe(true);
+    const arm = structuredClone(getArmState(dpu()));
+    arm.bridges[0].ports = arm.bridges[0].ports.filter((p) => p !== "pf0hpf");
+    applyBlueFieldUpdate(
+      cluster,
+      node().id,
+      planArmChange(dpu(), "ovs", arm).update!,
+    );
+    expect(isHostPortUp(dpu(), 0)).toBe(false);
+    expect(isHostPortUp(dpu(), 1)).toBe(true);
+
+    // Without the Arm OS in charge the PF is wired straight to the uplink
+    const nic = planModeParameters(dpu(), [
+      ["INTERNAL_CPU_OFFLOAD_ENGINE", "1"],
+    ]);
+    applyBlueFieldUpdate(cluster, node().id, nic.update!);
+    power("cycle");
+    expect(isHostPortUp(dpu(), 0)).toBe(true);
+  });
+
+  describe("through the CLI", () => {
+    let scenario: ScenarioContext;
+    let context: CommandContext;
+    let mellanox: MellanoxSimulator;
+    let bluefield: BlueFieldSimulator;
+
+    const mlx = (command: string) => mellanox.execute(parse(command), context);
+    const host = (command: string) =>
+      bluefield.execute(parse(command), context);
+    const arm = (command: string) =>
+      bluefield.executeInteractive(command, context);
+    const lspci = () =>
+      new PciToolsSimulator().execute(parse("lspci"), context).output;
+    const ibdev2netdev = () =>
+      new InfiniBandSimulator().executeIbdev2netdev(
+        parse("ibdev2netdev"),
+        context,
+      ).output;
+    const current = () => scenario.getNode("dgx-01")!;
+    const power = (action: "reboot" | "cycle") => {
+      const { update } = planPowerAction(current(), action, START);
+      scenario.updateNodePower("dgx-01", update!);
+      simulationClock.advance(200_000);
+    };
+
+    beforeEach(() => {
+      mellanox = new MellanoxSimulator();
+      bluefield = new BlueFieldSimulator();
+      simulationClock.reset({ start: START, paused: true });
+      scenario = new ScenarioContext("bluefield-test", createDefaultCluster());
+      context = {
+        currentNode: "dgx-01",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: scenario,
+      };
+    });
+
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("switches to NIC mode at the next power cycle", () => {
+      const set = mlx(
+        `mlxconfig -d ${DPU} -y s INTERNAL_CPU_OFFLOAD_ENGINE=DISABLED`,
+      );
+      expect(set.output).toContain(
+        "Please reboot machine to load new configurations.",
+      );
+      const query = mlx(`mlxconfig -d ${DPU} q`).output;
+      expect(query).toMatch(
+        /INTERNAL_CPU_OFFLOAD_ENGINE\s+ENABLED\(0\)\s+ENABLED\(0\)\s+DISABLED\(1\)/,
+      );
+      expect(lspci()).toContain("SoC Management Interface");
+
+      power("reboot");
+      expect(current().dpus[0].mode.mode).toBe("DPU");
+      power("cycle");
+      expect(current().dpus[0].mode.mode).toBe("NIC");
+      expect(lspci()).toContain(
+        "0000:a0:00.0 Ethernet controller: Mellanox Technologies MT42822 BlueField-2 integrated ConnectX-6 Dx network controller",
+      );
+      expect(lspci()).not.toContain("0000:a0:00.2");
+      expect(bluefield.ssh([ARM], context)?.output).toContain(
+        "No route to host",
+      );
+      expect(host("screen /dev/rshim0/console").exitCode).toBe(1);
+    });
+
+    it("takes host PFs down when OVS loses their representors", () => {
+      const login = bluefield.ssh([`ubuntu@${ARM}`], context)!;
+      expect(login.prompt).toBe("root@localhost:~# ");
+      expect(ibdev2netdev()).toContain("mlx5_8 port 1 ==> enp160s0f0np0 (Up)");
+
+      expect(arm("ovs-vsctl list-ports ovsbr1").output).toBe(
+        "en3f0pf0sf0\np0\npf0hpf",
+      );
+      arm("ovs-vsctl del-port ovsbr1 pf0hpf");
+      expect(ibdev2netdev()).toContain(
+        "mlx5_8 port 1 ==> enp160s0f0np0 (Down)",
+      );
+      arm("ovs-vsctl add-port ovsbr1 pf0hpf");
+      arm("ip link set dev p1 down");
+      const links = arm("ip -br link").output;
+      expect(links).toMatch(/^p1\s+DOWN/m);
+      expect(ibdev2netdev()).toContain("mlx5_8 port 1 ==> enp160s0f0np0 (Up)");
+      expect(ibdev2netdev()).toContain(
+        "mlx5_9 port 1 ==> enp160s0f1np1 (Down)",
+      );
+
+      expect(arm("ovs-vsctl add-br ovsbr1").output).toContain(
+        "a bridge named ovsbr1 already exists",
+      );
+      expect(arm("exit")).toEqual({
+        output: `logout\nConnection to ${ARM} closed.`,
+        exitCode: 0,
+      });
+    });
+
+    it("creates scalable functions and their representors", () => {
+      host("screen /dev/rshim0/console 115200");
+      expect(bluefield.isInShell()).toBe(true);
+      const created = arm("mlnx-sf -a create -d 0000:03:00.0 --sfnum 4");
+      expect(created.output).toContain("SF Index: pci/0000:03:00.0/229412");
+      expect(created.output).toContain("Representor netdev: en3f0pf0sf4");
+      expect(arm("ip link show en3f0pf0sf4").output).toContain(
+        "state UP mode DEFAULT",
+      );
+
+      arm("ovs-vsctl add-port ovsbr1 en3f0pf0sf4");
+      arm("mlnx-sf -a remove --sfindex pci/0000:03:00.0/229412");
+      expect(arm("ovs-vsctl show").output).toContain(
+        'error: "could not open network device en3f0pf0sf4 (No such device)"',
+      );
+      expect(arm("exit").output).toBe("logout\n[screen is terminating]");
+    });
+
+    it("reinstalls the Arm OS from a BFB", () => {
+      bluefield.ssh([ARM], context);
+      arm("ovs-vsctl del-br ovsbr2");
+      arm("exit");
+      expect(current().dpus[0].arm?.bridges).toHaveLength(1);
+
+      const install = host(
+        "bfb-install --bfb DOCA_2.5.0_BSP_4.5.0_Ubuntu_22.04-1.23-10.prod.bfb --rshim rshim0",
+      );
+      expect(install.output).toContain("Installation finished");
+      expect(current().dpus[0].armOS).toBe("Ubuntu 22.04 LTS (DOCA 2.5.0)");
+      expect(current().dpus[0].arm?.bridges.map((b) => b.name)).toEqual([
+        "ovsbr1",
+        "ovsbr2",
+      ]);
+      expect(
+        host("bfb-install --bfb image.bin --rshim rshim0").output,
+      ).toContain("image.bin is not a BFB image");
+    });
+
+    it("refuses host configuration once the Arm restricts the host", () => {
+      bluefield.ssh([ARM], context);
+      const restrict = arm(`mlxprivhost -d ${DPU} r`).output;
+      expect(restrict).toContain("level                         : RESTRICTED");
+      arm("exit");
+      power("cycle");
+
+      expect(current().dpus[0].mode.mode).toBe("RestrictedDPU");
+      const set = mlx(`mlxconfig -d ${DPU} -y s INTERNAL_CPU_MODEL=0`);
+      expect(set.exitCode).toBe(1);
+      expect(set.output).toContain("the host is restricted");
+    });
+
+    it("rebuilds the same DPUs when the scenario is replayed", () => {
+      mlx(`mlxconfig -d ${DPU} -y s INTERNAL_CPU_MODEL=SEPARATED_HOST`);
+      bluefield.ssh([ARM], context);
+      arm("mlnx-sf -a create -d 0000:03:00.1 --sfnum 2");
+      arm("ip link set p0 down");
+      power("cycle");
+      const replayed = scenario
+        .stateAt(scenario.getMutations().length)
+        .nodes.find((n) => n.id === "dgx-01")!;
+      expect(replayed.dpus).toEqual(current().dpus);
+      expect(replayed.dpus[0].mode.mode).toBe("SeparatedHost");
+    });
+  });
+});
@@ -83,10 +83,25 @@ describe("createCustomCluster", () => {
     const cluster = createCustomCluster(2, "DGX-GB200");
     const node = cluster.nodes[0];
     const gpu = node.gpus[0];
-    expect(gpu.name).toContain("B200");
-    expect(gpu.type).toBe("B200");
+    expect(node.gpus).toHaveLength(4);
+    expect(gpu.name).toContain("GB200");
+    expect(gpu.type).toBe("GB200");
     expect(gpu.memoryTotal).toBe(184320); // 180GB in MiB
-    expect(gpu.powerLimit).toBe(1000);
+    expect(gpu.powerLimit).toBe(1200);
+  });
+
+  it("should place GB200 compute trays in NVL72 racks", () => {
+    const cluster = createCustomCluster(20, "DGX-GB200");
+    expect(cluster.nodes[17].rackSlot).toEqual({ rack: 0, tray: 17 });
+    expect(cluster.nodes[18].rackSlot).toEqual({ rack: 1, tray: 0 });
+    expect(cluster.racks?.map((r) => r.computeTrays.length)).toEqual([18, 2]);
+    expect(cluster.racks?.[0].switchTrays).toHaveLength(9);
+  });
+
+  it("should not put single-node systems in racks", () => {
+    const cluster = createCustomCluster(2, "DGX-B200");
+    expect(cluster.nodes[0].rackSlot).toBeUndefined();
+    expect(cluster.racks).toBeUndefined();
   });
 
   it("should create GB200 GPUs with 18 NVLinks", () => {
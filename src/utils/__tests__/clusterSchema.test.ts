@@ -221,6 +221,89 @@ describe('validateClusterConfig', () => {
       expect(result.errors.some(e => e.includes('slurmConfig'))).toBe(true);
     });
   });
+
+  describe('mixed system types', () => {
+    const mixedConfig = (h100Type = 'DGX-H100') =>
+      createValidConfig({
+        nodes: [
+          { id: 'dgx-00', hostname: 'dgx-00', systemType: 'DGX-A100', gpus: [], hcas: [{ ports: [{ rate: 200 }] }] },
+          { id: 'dgx-01', hostname: 'dgx-01', systemType: h100Type, gpus: [], hcas: [{ ports: [{ rate: 400 }] }] },
+        ],
+        slurmConfig: { controlMachine: 'slurm-controller', partitions: ['gpu', 'a100', 'h100'] },
+      });
+
+    it('should accept nodes of different system types and link rates', () => {
+      expect(validateClusterConfig(mixedConfig())).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should reject unknown system types and link rates', () => {
+      const config = mixedConfig('DGX-X1');
+      (config.nodes[0] as Record<string, unknown>).hcas = [{ ports: [{ rate: 300 }] }];
+      const result = validateClusterConfig(config);
+      expect(result.errors).toContain(
+        'nodes[1].systemType "DGX-X1" is invalid (must be one of: DGX-A100, DGX-H100, DGX-H200, DGX-B200, DGX-GB200, DGX-VR200)'
+      );
+      expect(result.errors.some(e => e.startsWith('nodes[0].hcas[0].ports[0].rate 300'))).toBe(true);
+    });
+
+    it('should reject model partitions without nodes of that model', () => {
+      const result = validateClusterConfig(mixedConfig('DGX-A100'));
+      expect(result.errors).toEqual(['slurmConfig.partitions: "h100" has no nodes with h100 GPUs']);
+    });
+
+    it('should reject duplicate node ids', () => {
+      const config = mixedConfig();
+      (config.nodes[1] as Record<string, unknown>).id = 'dgx-00';
+      expect(validateClusterConfig(config).errors).toContain('Duplicate node ids: dgx-00');
+    });
+  });
+
+  describe('cluster builder settings', () => {
+    const hosts = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `dgx-0${i}`,
+        hostname: `dgx-0${i}`,
+        systemType: 'DGX-H100',
+        gpus: [],
+        hcas: [{ ports: [{ rate: 400 }] }, { ports: [{ rate: 400 }] }],
+      }));
+
+    it('should accept switch counts that cable every host', () => {
+      const config = createValidConfig({ nodes: hosts(3), fabricSwitches: { leaves: 3, spines: 1 } });
+      expect(validateClusterConfig(config)).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should reject malformed or unusable switch counts', () => {
+      expect(
+        validateClusterConfig(createValidConfig({ nodes: hosts(1), fabricSwitches: { leaves: 0, spines: 1 } })).errors
+      ).toEqual(['fabricSwitches must have a positive "leaves" and a non-negative "spines" count']);
+      expect(
+        validateClusterConfig(createValidConfig({ nodes: hosts(1), fabricSwitches: { leaves: 3, spines: 40 } })).errors
+      ).toEqual([
+        'fabricSwitches: 3 leaf switches is more than the 2 HCAs to cable',
+        'fabricSwitches: 40 spine switches exceed the 32 uplink ports of each leaf',
+      ]);
+    });
+
+    it('should require two distinct head nodes outside the compute nodes for HA', () => {
+      const result = validateClusterConfig(
+        createValidConfig({ bcmHA: { enabled: true, primary: 'node-1', secondary: '', state: 'Active' } })
+      );
+      expect(result.errors).toEqual([
+        'bcmHA.primary "node-1" is a compute node',
+        'bcmHA.secondary must name a head node when HA is enabled',
+      ]);
+      expect(
+        validateClusterConfig(
+          createValidConfig({ bcmHA: { enabled: true, primary: 'head', secondary: 'head', state: 'Active' } })
+        ).errors
+      ).toEqual(['bcmHA.primary and bcmHA.secondary must be different head nodes']);
+      expect(
+        validateClusterConfig(createValidConfig({ bcmHA: { enabled: false, primary: '', secondary: '', state: 'Active' } }))
+          .valid
+      ).toBe(true);
+    });
+  });
 });
 
 describe('safeParseClusterJSON', () => {
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  createClusterFromSpec,
+  createDefaultCluster,
+  getClusterSpec,
+  type ClusterSpec,
+} from "../clusterFactory";
+import {
+  buildClusterFromSpec,
+  decodeClusterSpec,
+  encodeClusterSpec,
+  getClusterShareUrl,
+  readSharedCluster,
+} from "../clusterShare";
+import { validateClusterConfig } from "../clusterSchema";
+import { defaultSwitchCounts, getFabric } from "../infinibandFabric";
+
+const SPEC: ClusterSpec = {
+  name: "Team Lab",
+  groups: [
+    { systemType: "DGX-A100", count: 2, hcaCount: 4 },
+    { systemType: "DGX-H100", count: 2 },
+  ],
+  fabricTopology: "FatTree",
+  fabricSwitches: { leaves: 4, spines: 2 },
+  partitions: ["batch", "gpu", "a100", "h100"],
+  bcmHA: { enabled: true, primary: "head-a", secondary: "head-b" },
+};
+
+describe("Cluster specs", () => {
+  it("builds nodes, fabric, partitions and head nodes from a spec", () => {
+    const cluster = createClusterFromSpec(SPEC);
+
+    expect(cluster.nodes.map((n) => `${n.id} ${n.hcas.length}`)).toEqual([
+      "dgx-00 4",
+      "dgx-01 4",
+      "dgx-02 8",
+      "dgx-03 8",
+    ]);
+    const fabric = getFabric(cluster);
+    expect(fabric.switches.filter((s) => s.tier === "leaf")).toHaveLength(4);
+    expect(fabric.switches.filter((s) => s.tier === "spine")).toHaveLength(2);
+    // 24 HCAs spread evenly over the four leaves
+    expect(
+      fabric.cables.filter((c) => c.ends.some((e) => e.kind === "hca")),
+    ).toHaveLength(24);
+    expect(cluster.slurmConfig).toEqual({
+      controlMachine: "head-a",
+      partitions: ["batch", "gpu", "a100", "h100"],
+    });
+    expect(cluster.bcmHA.state).toBe("Active");
+    expect(validateClusterConfig(cluster).valid).toBe(true);
+
+    expect(getClusterSpec(cluster)).toEqual({
+      ...SPEC,
+      groups: [SPEC.groups[0], { ...SPEC.groups[1], hcaCount: 8 }],
+    });
+  });
+
+  it("sizes the default fabric as before when no switch counts are set", () => {
+    const cluster = createDefaultCluster();
+    const spec = getClusterSpec(cluster);
+    expect(spec.fabricSwitches).toBeUndefined();
+    expect(spec.groups).toEqual([
+      { systemType: "DGX-A100", count: 8, hcaCount: 8 },
+    ]);
+    expect(defaultSwitchCounts(cluster.nodes, "RailOptimized")).toEqual({
+      leaves: 8,
+      spines: 4,
+    });
+  });
+
+  it("rejects switch counts the nodes cannot be cabled with", () => {
+    const rail = buildClusterFromSpec({
+      ...SPEC,
+      fabricTopology: "RailOptimized",
+      fabricSwitches: { leaves: 6, spines: 2 },
+    });
+    expect(rail.valid).toBe(false);
+    expect(rail.errors).toContain(
+      "fabricSwitches: 6 leaf switches do not split evenly over 8 rails",
+    );
+
+    const fatTree = buildClusterFromSpec({
+      ...SPEC,
+      fabricSwitches: { leaves: 2, spines: 0 },
+    });
+    expect(fatTree.errors).toEqual([
+      "fabricSwitches: A fabric with more than one leaf switch needs a spine",
+    ]);
+  });
+
+  describe("sharing", () => {
+    it("round-trips a spec through a link", () => {
+      const url = getClusterShareUrl(SPEC, "https://lab.example/app?x=1#old");
+      expect(url).toMatch(/^https:\/\/lab\.example\/app\?x=1#cluster=[\w-]+$/);
+      expect(encodeClusterSpec(SPEC)).not.toMatch(/[+/=]/);
+
+      const shared = readSharedCluster(new URL(url).hash)!;
+      expect(shared.valid).toBe(true);
+      expect(getClusterSpec(shared.data!)).toEqual(
+        getClusterSpec(createClusterFromSpec(SPEC)),
+      );
+      expect(readSharedCluster("#tab=labs")).toBeUndefined();
+    });
+
+    it("refuses links that do not hold a valid spec", () => {
+      expect(decodeClusterSpec("not-base64!").errors).toEqual([
+        "Cluster link is not a valid cluster spec",
+      ]);
+
+      const huge = decodeClusterSpec(
+        encodeClusterSpec({
+          ...SPEC,
+          groups: [{ systemType: "DGX-H100", count: 5000 }],
+        }),
+      );
+      expect(huge.errors).toContain(
+        "Cluster spec has 5000 nodes (at most 128)",
+      );
+
+      const polluted = decodeClusterSpec(
+        btoa('{"name":"x","__proto__":{"admin":true}}'),
+      );
+      expect(polluted.valid).toBe(false);
+      expect(polluted.errors[0]).toContain("Prototype pollution");
+
+      const tooManyHcas = buildClusterFromSpec({
+        ...SPEC,
+        groups: [{ systemType: "DGX-A100", count: 1, hcaCount: 12 }],
+      });
+      expect(tooManyHcas.errors).toContain(
+        "groups[0].hcaCount must be between 1 and 8 for DGX-A100",
+      );
+    });
+  });
+});
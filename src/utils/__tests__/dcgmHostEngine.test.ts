@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getHostEngine, observeGpuUpdate } from "../dcgmHostEngine";
+import { createDefaultCluster } from "../clusterFactory";
+import { parse } from "../commandParser";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { simulationClock } from "@/simulation/simulationClock";
+import { DcgmiSimulator } from "@/simulators/dcgmiSimulator";
+import type { CommandContext } from "@/types/commands";
+
+const START = Date.UTC(2024, 0, 15, 8);
+
+describe("DCGM host engine", () => {
+  let scenario: ScenarioContext;
+  let context: CommandContext;
+  let sim: DcgmiSimulator;
+
+  const node = () => scenario.getNode("dgx-01")!;
+  const engine = () => getHostEngine(node());
+  const dcgmi = (args: string) => sim.execute(parse(`dcgmi ${args}`), context);
+
+  beforeEach(async () => {
+    sim = new DcgmiSimulator();
+    // Short flags mean different things in each subcommand
+    await vi.waitFor(
+      () => {
+        expect(sim["definitionRegistry"]).not.toBeNull();
+      },
+      { timeout: 5000 },
+    );
+    simulationClock.reset({ start: START, paused: true });
+    scenario = new ScenarioContext("dcgm-test", createDefaultCluster());
+    context = {
+      currentNode: "dgx-01",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+      scenarioContext: scenario,
+    };
+  });
+
+  afterEach(() => {
+    simulationClock.reset();
+  });
+
+  describe("groups", () => {
+    it("keeps groups between invocations", () => {
+      expect(dcgmi("group -c training").output).toBe(
+        'Successfully created group "training" with a group ID of 2',
+      );
+      expect(dcgmi("group -g 2 -a 0,1,gpu:3").output).toBe(
+        "Add to group operation successful.",
+      );
+      dcgmi("group -g 2 -r 1");
+
+      expect(engine().groups.find((g) => g.id === 2)?.gpuIds).toEqual([0, 3]);
+      const list = dcgmi("group -l").output;
+      expect(list).toContain("3 groups found.");
+      expect(list).toContain("|    -> Group Name  | training");
+      expect(list).toContain("GPU 0, GPU 3");
+      expect(dcgmi("group -c inference").output).toContain("group ID of 3");
+    });
+
+    it("refuses unknown groups and GPUs and the default groups", () => {
+      expect(dcgmi("group -g 7 -a 0").output).toContain(
+        "Unable to find group 7",
+      );
+      dcgmi("group -c training");
+      expect(dcgmi("group -g 2 -a 0,12").exitCode).toBe(1);
+      expect(dcgmi("group -d 0").exitCode).toBe(1);
+
+      expect(dcgmi("group -d 2").output).toBe("Successfully removed group 2");
+      expect(engine().groups.map((g) => g.id)).toEqual([0, 1]);
+    });
+  });
+
+  describe("field groups and dmon", () => {
+    it("creates field groups from known fields only", () => {
+      expect(dcgmi("fieldgroup -c thermals").exitCode).toBe(1);
+      expect(dcgmi("fieldgroup -c thermals -f 150,999").output).toContain(
+        "Unknown field ID 999",
+      );
+      expect(dcgmi("fieldgroup -c thermals -f 150,155").output).toBe(
+        'Successfully created field group "thermals" with a field group ID of 3',
+      );
+      expect(dcgmi("fieldgroup -d 1").output).toContain(
+        "Cannot delete system field groups.",
+      );
+      expect(dcgmi("fieldgroup -i 3").output).toContain(
+        "DCGM_FI_DEV_POWER_USAGE",
+      );
+    });
+
+    it("streams the fields of a field group from the GPUs", () => {
+      scenario.updateGPU("dgx-01", 1, { temperature: 71, powerDraw: 512.25 });
+      dcgmi("fieldgroup -c thermals -f 150,155");
+
+      const lines = dcgmi("dmon -f 3 -i 1 -c 2").output.split("\n");
+      expect(lines.slice(1)).toEqual([
+        "#Entity   TMPTR     POWER",
+        "ID",
+        "GPU 1     71        512.250",
+        "GPU 1     71        512.250",
+      ]);
+      expect(dcgmi("dmon -e 150,4242").exitCode).toBe(1);
+    });
+  });
+
+  describe("job stats", () => {
+    it("needs process watches before recording a job", () => {
+      expect(dcgmi("stats -g 0 -s job1").output).toContain(
+        "Field is not being watched",
+      );
+      dcgmi("stats -g 0 -e");
+      expect(dcgmi("stats -g 0 -s job1").output).toBe(
+        "Successfully started recording stats for job.",
+      );
+      expect(dcgmi("stats -g 0 -s job1").output).toContain("Duplicate key");
+    });
+
+    it("samples the job's GPUs until it stops", () => {
+      dcgmi("group -c pair");
+      dcgmi("group -g 2 -a 0,1");
+      for (const gpuId of [0, 1]) {
+        scenario.updateGPU("dgx-01", gpuId, { powerDraw: 400 });
+      }
+      dcgmi("stats -g 2 -e");
+      dcgmi("stats -g 2 -s job1");
+
+      simulationClock.advance(10_000);
+      scenario.updateGPU("dgx-01", 0, { powerDraw: 600 });
+      scenario.addXIDError("dgx-01", 1, {
+        code: 79,
+        timestamp: new Date(START + 10_000),
+        description: "GPU has fallen off the bus",
+        severity: "Critical",
+      });
+      simulationClock.advance(10_000);
+      dcgmi("stats -x job1");
+      // Changes after the job stopped are not counted
+      scenario.updateGPU("dgx-01", 0, { powerDraw: 100 });
+
+      const [job] = engine().jobs;
+      expect(job.endTime).toBe(START + 20_000);
+      expect(job.gpus.map((g) => g.energy)).toEqual([10_000, 8000]);
+      expect(job.gpus[0].power.max).toBe(600);
+
+      const report = dcgmi("stats -j job1 -v").output;
+      expect(report).toContain(
+        "Successfully retrieved statistics for job: job1.",
+      );
+      expect(report).toContain("| Energy Consumed (Joules)           | 18000");
+      expect(report).toContain("| Total Execution Time (sec)         | 20.00");
+      expect(report).toContain("| Critical XID Errors                | 1");
+      expect(report).toContain(
+        "| Overall Health                     | Failure",
+      );
+      expect(report).toContain("| GPU ID: 1");
+    });
+
+    it("rebuilds the same stats when the scenario is replayed", () => {
+      dcgmi("stats -e");
+      dcgmi("stats -s job1");
+      simulationClock.advance(5000);
+      scenario.updateGPU("dgx-01", 4, { powerDraw: 650 });
+      dcgmi("stats -x job1");
+
+      const replayed = scenario
+        .stateAt(scenario.getMutations().length)
+        .nodes.find((n) => n.id === "dgx-01")!;
+      expect(getHostEngine(replayed).jobs).toEqual(engine().jobs);
+    });
+  });
+
+  describe("policies", () => {
+    it("records a violation when a reading crosses the threshold", () => {
+      dcgmi(
+        "policy -g 0 --set --condition thermal --threshold 80 --action alert",
+      );
+      scenario.updateGPU("dgx-01", 5, { temperature: 85 });
+      scenario.updateGPU("dgx-01", 5, { temperature: 87 });
+
+      expect(engine().violations).toEqual([
+        {
+          timestamp: START,
+          groupId: 0,
+          gpuId: 5,
+          condition: "thermal",
+          value: 85,
+          action: "alert",
+        },
+      ]);
+      expect(dcgmi("policy --get").output).toContain(
+        "[Thermal] GPU 5: temperature 85°C (action: alert)",
+      );
+    });
+
+    it("fires the default XID policy on critical XIDs only", () => {
+      const xid = (code: number, severity: "Warning" | "Critical") =>
+        scenario.addXIDError("dgx-01", 2, {
+          code,
+          timestamp: new Date(START),
+          description: "",
+          severity,
+        });
+      xid(13, "Warning");
+      xid(48, "Critical");
+
+      expect(engine().violations.map((v) => [v.condition, v.value])).toEqual([
+        ["xid", 48],
+      ]);
+    });
+
+    it("stops watching a group once its policies are cleared", () => {
+      dcgmi("policy --clear");
+      scenario.updateGPU("dgx-01", 0, { temperature: 99 });
+      expect(engine().violations).toEqual([]);
+      expect(dcgmi("policy --get").output).toContain("No policies set");
+    });
+  });
+
+  it("leaves nodes without a host engine until something is recorded", () => {
+    const cluster = createDefaultCluster();
+    const dgx = cluster.nodes[0];
+    const before = { ...dgx.gpus[0] };
+
+    dgx.gpus[0].temperature = 60;
+    observeGpuUpdate(dgx, 0, before, START);
+    expect(dgx.dcgm).toBeUndefined();
+
+    dgx.gpus[0].temperature = 95;
+    observeGpuUpdate(dgx, 0, { ...before, temperature: 60 }, START);
+    expect(dgx.dcgm?.violations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  applyNodeFirmwareUpdate,
+  findFirmwareComponent,
+  getNodeFirmware,
+  planFirmwareFault,
+  planFirmwareFlash,
+  planFirmwareReset,
+  reviewFirmware,
+} from "../firmwareInventory";
+import { createDefaultCluster } from "../clusterFactory";
+import { parse } from "../commandParser";
+import { planPowerAction } from "../nodePower";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { simulationClock } from "@/simulation/simulationClock";
+import { MellanoxSimulator } from "@/simulators/mellanoxSimulator";
+import { BasicSystemSimulator } from "@/simulators/basicSystemSimulator";
+import { IpmitoolSimulator } from "@/simulators/ipmitoolSimulator";
+import { ClusterKitSimulator } from "@/simulators/clusterKitSimulator";
+import { NvidiaBugReportSimulator } from "@/simulators/nvidiaBugReportSimulator";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import type { CommandContext } from "@/types/commands";
+import type { ClusterConfig } from "@/types/hardware";
+
+const START = Date.UTC(2024, 0, 15, 8);
+const HCA = "/dev/mst/mt4123_pciconf0";
+
+describe("Firmware inventory", () => {
+  let cluster: ClusterConfig;
+  const node = () => cluster.nodes[1];
+
+  beforeEach(() => {
+    cluster = createDefaultCluster();
+  });
+
+  it("derives the inventory from the node's devices", () => {
+    const inventory = getNodeFirmware(node());
+    expect(inventory.map((c) => c.id)).toEqual([
+      ...Array.from({ length: 8 }, (_, i) => `GPU${i}`),
+      ...Array.from({ length: 6 }, (_, i) => `NVSwitch${i}`),
+      ...node().hcas.map((_, i) => `HCA${i}`),
+      ...node().dpus.map((_, i) => `DPU${i}`),
+      "BMC",
+      "SBIOS",
+      ...Array.from({ length: 6 }, (_, i) => `PSU${i}`),
+    ]);
+    expect(findFirmwareComponent(node(), "GPU0")?.version).toBe(
+      "92.00.5C.00.01",
+    );
+    expect(findFirmwareComponent(node(), "HCA0")).toMatchObject({
+      model: "ConnectX-6",
+      version: "20.35.1012",
+    });
+    expect(findFirmwareComponent(node(), "BMC")?.version).toBe("3.47.00");
+    expect(node().firmware).toBeUndefined();
+  });
+
+  it("keeps running the old image until the device is reset", () => {
+    const flash = planFirmwareFlash(node(), ["HCA0"], START, {
+      version: "20.33.1048",
+    });
+    applyNodeFirmwareUpdate(cluster, node().id, flash.update!);
+    expect(findFirmwareComponent(node(), "HCA0")).toMatchObject({
+      version: "20.35.1012",
+      flash: { version: "20.33.1048", status: "pending" },
+    });
+    expect(node().hcas[0].firmwareVersion).toBe("20.35.1012");
+
+    // mlxfwreset only reaches ConnectX and BlueField devices
+    expect(planFirmwareReset(node(), ["BMC"]).update).toBeUndefined();
+    const reset = planFirmwareReset(node(), ["HCA0"]);
+    applyNodeFirmwareUpdate(cluster, node().id, reset.update!);
+    expect(findFirmwareComponent(node(), "HCA0")?.flash).toBeUndefined();
+    expect(node().hcas[0].firmwareVersion).toBe("20.33.1048");
+  });
+
+  it("leaves components alone that already run the image", () => {
+    expect(planFirmwareFlash(node(), ["HCA0"], START).update).toBeUndefined();
+    expect(
+      planFirmwareFlash(node(), ["HCA0"], START, { force: true }).update
+        ?.components,
+    ).toEqual(["HCA0"]);
+    expect(planFirmwareFlash(node(), ["GPU99"], START).error).toBe(
+      "No firmware component GPU99",
+    );
+  });
+
+  it("reviews flashes, releases and skew against the node's peers", () => {
+    const fault = planFirmwareFault(node(), "DPU0", "failed", START);
+    applyNodeFirmwareUpdate(cluster, node().id, fault.update!);
+    const older = planFirmwareFault(cluster.nodes[2], "sbios", "running", 0);
+    applyNodeFirmwareUpdate(cluster, cluster.nodes[2].id, older.update!);
+
+    const findings = reviewFirmware(node(), cluster.nodes);
+    expect(findings.failed).toEqual([
+      "DPU0: flash of 24.26.1610 failed, still running 24.26.1610",
+    ]);
+    expect(findings.pending).toEqual([]);
+    expect(findings.outdated).toEqual(["BMC: 3.47.00 (expected 4.2.1)"]);
+    expect(findings.skew).toEqual([
+      `SBIOS: 1.25 here, 1.21 on ${cluster.nodes[2].id}`,
+    ]);
+  });
+
+  describe("through the CLI", () => {
+    let scenario: ScenarioContext;
+    let context: CommandContext;
+    let mellanox: MellanoxSimulator;
+    let smi: NvidiaSmiSimulator;
+
+    const mlx = (command: string) => mellanox.execute(parse(command), context);
+    const system = (command: string) =>
+      new BasicSystemSimulator().execute(parse(command), context);
+    const ipmitool = (command: string) =>
+      new IpmitoolSimulator().execute(parse(`ipmitool ${command}`), context);
+    const clusterkit = () =>
+      new ClusterKitSimulator().execute(
+        parse("clusterkit assess --verbose"),
+        context,
+      );
+    const bugReport = () =>
+      new NvidiaBugReportSimulator().execute(
+        parse("nvidia-bug-report.sh"),
+        context,
+      );
+    const current = () => scenario.getNode("dgx-01")!;
+    const reboot = () => {
+      const { update } = planPowerAction(current(), "cycle", START);
+      scenario.updateNodePower("dgx-01", update!);
+      simulationClock.advance(200_000);
+    };
+
+    beforeEach(async () => {
+      mellanox = new MellanoxSimulator();
+      smi = new NvidiaSmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(smi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      simulationClock.reset({ start: START, paused: true });
+      scenario = new ScenarioContext("firmware-test", createDefaultCluster());
+      context = {
+        currentNode: "dgx-01",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: scenario,
+      };
+      mlx("mst start");
+    });
+
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("loads a burnt HCA image only after mlxfwreset", () => {
+      const burn = mlx(`flint -d ${HCA} -i fw-ConnectX6-rel-20_33_1048.bin b`);
+      expect(burn.exitCode).toBe(0);
+      expect(burn.output).toContain(
+        "-I- To load new FW run mlxfwreset or reboot machine.",
+      );
+
+      const query = mlx(`flint -d ${HCA} q`).output;
+      expect(query).toContain("FW Version:            20.33.1048");
+      expect(query).toContain("FW Version(Running):   20.35.1012");
+      expect(mlx("mlxfwmanager --query").output).toContain(
+        "20.35.1012 (20.33.1048 pending)",
+      );
+      expect(current().hcas[0].firmwareVersion).toBe("20.35.1012");
+
+      expect(mlx(`mlxfwreset -d ${HCA} -y reset`).output).toContain(
+        "-I- FW was loaded successfully.",
+      );
+      expect(current().hcas[0].firmwareVersion).toBe("20.33.1048");
+      expect(mlx(`mlxup -d ${HCA} --online`).output).toContain(
+        "Firmware update available",
+      );
+    });
+
+    it("refuses images that do not belong to the device", () => {
+      const other = mlx(`flint -d ${HCA} -i fw-ConnectX7-rel-28_39_1002.bin b`);
+      expect(other.exitCode).toBe(1);
+      expect(other.output).toContain("-E- PSID mismatch.");
+      expect(mlx(`mlxup -d ${HCA} --img firmware.bin`).output).toContain(
+        "-E- FW image verification failed",
+      );
+      expect(current().firmware).toBeUndefined();
+    });
+
+    it("runs a new BMC image once the BMC is reset", () => {
+      const update = system("fwupdmgr update BMC");
+      expect(update.output).toContain("Upgrading BMC from 3.47.00 to 4.2.1...");
+      expect(system("fw-check bmc").output).toContain(
+        "Status: Pending activation - reset the BMC to activate",
+      );
+
+      reboot();
+      expect(current().bmc.firmwareVersion).toBe("3.47.00");
+      ipmitool("mc reset cold");
+      expect(current().bmc.firmwareVersion).toBe("4.2.1");
+      expect(system("fwupdmgr get-updates").output).not.toContain("BMC");
+    });
+
+    it("boots into new VBIOS and system BIOS images", () => {
+      const older = planFirmwareFault(current(), "vbios", "running", START);
+      scenario.updateNodeFirmware("dgx-01", older.update!);
+      const vbios = () =>
+        smi
+          .execute(
+            parse("nvidia-smi --query-gpu=vbios_version --format=csv,noheader"),
+            context,
+          )
+          .output.split("\n")[0];
+      expect(vbios()).toBe("92.00.45.00.03");
+      expect(system("fw-check gpu").output).toContain(
+        "Status: Update available (92.00.5C.00.01)",
+      );
+
+      system("fwupdmgr update -y");
+      expect(vbios()).toBe("92.00.45.00.03");
+      reboot();
+      expect(vbios()).toBe("92.00.5C.00.01");
+      expect(system("dmidecode -t bios").output).toContain("Version: 1.25");
+    });
+
+    it("fails verification after an interrupted flash", () => {
+      const fault = planFirmwareFault(current(), "HCA0", "interrupted", START);
+      scenario.updateNodeFirmware("dgx-01", fault.update!);
+
+      const verify = mlx(`flint -d ${HCA} v`);
+      expect(verify.exitCode).toBe(1);
+      expect(verify.output).toContain("AN HCA DEVICE CAN NOT BOOT FROM THIS");
+      const assess = clusterkit().output;
+      expect(assess).toContain("Overall Health: FAIL");
+      expect(assess).toContain(
+        "HCA0: flash of 20.35.1012 interrupted, still running 20.35.1012",
+      );
+
+      mlx(`mlxfwmanager -d ${HCA} -u -y`);
+      expect(mlx(`flint -d ${HCA} v`).output).toContain(
+        "-I- FW image verification succeeded. Image is bootable.",
+      );
+    });
+
+    it("reports version skew across the cluster", () => {
+      const peer = scenario.getNode("dgx-02")!;
+      const older = planFirmwareFault(peer, "SBIOS", "running", START);
+      scenario.updateNodeFirmware("dgx-02", older.update!);
+
+      expect(clusterkit().output).toContain(
+        "Version skew - SBIOS: 1.25 here, 1.21 on dgx-02",
+      );
+      const report = bugReport().output;
+      expect(report).toContain("Firmware Inventory:");
+      expect(report).toContain(
+        "Version skew: SBIOS: 1.25 here, 1.21 on dgx-02",
+      );
+      expect(report).toContain("Align firmware across the cluster.");
+    });
+
+    it("rebuilds the same inventory when the scenario is replayed", () => {
+      mlx(`flint -d ${HCA} -i fw-ConnectX6-rel-20_33_1048.bin b`);
+      system("fwupdmgr update -y");
+      reboot();
+      const replayed = scenario
+        .stateAt(scenario.getMutations().length)
+        .nodes.find((n) => n.id === "dgx-01")!;
+      expect(replayed.firmware).toEqual(current().firmware);
+      expect(replayed.hcas[0].firmwareVersion).toBe("20.33.1048");
+    });
+  });
+});
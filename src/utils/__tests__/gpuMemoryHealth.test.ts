@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  assessMemoryRma,
+  getMemoryHealth,
+  isResetRequired,
+  observeMemoryErrors,
+  remapHistogram,
+  SPARE_ROWS_PER_BANK,
+} from "../gpuMemoryHealth";
+import { createDefaultCluster } from "../clusterFactory";
+import { parse } from "../commandParser";
+import { planPowerAction } from "../nodePower";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { simulationClock } from "@/simulation/simulationClock";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { DcgmiSimulator } from "@/simulators/dcgmiSimulator";
+import { BasicSystemSimulator } from "@/simulators/basicSystemSimulator";
+import type { CommandContext } from "@/types/commands";
+import type { GPU } from "@/types/hardware";
+
+const START = Date.UTC(2024, 0, 15, 8);
+
+// Replace the GPU's ECC counts, the way fault injection does
+const withErrors = (gpu: GPU, singleBit: number, doubleBit: number): GPU => ({
+  ...gpu,
+  eccErrors: {
+    singleBit,
+    doubleBit,
+    aggregated: { singleBit, doubleBit },
+  },
+});
+
+describe("GPU memory health", () => {
+  let gpu: GPU;
+
+  // Apply new ECC counts to the GPU and observe them
+  const report = (singleBit: number, doubleBit: number) => {
+    const before = gpu;
+    gpu = withErrors(gpu, singleBit, doubleBit);
+    observeMemoryErrors(gpu, before, START);
+  };
+
+  beforeEach(() => {
+    gpu = { ...createDefaultCluster().nodes[0].gpus[0] };
+  });
+
+  it("leaves GPUs without errors without a record", () => {
+    report(0, 0);
+    expect(gpu.memoryHealth).toBeUndefined();
+    expect(remapHistogram(gpu)).toEqual({
+      max: 640,
+      high: 0,
+      partial: 0,
+      low: 0,
+      none: 0,
+    });
+    expect(assessMemoryRma(gpu)).toEqual({
+      rma: false,
+      reason: "No memory errors recorded",
+    });
+  });
+
+  it("retires a page and remaps a row for each double-bit error", () => {
+    report(0, 2);
+    const health = getMemoryHealth(gpu);
+    expect(health.retiredPages.map((p) => [p.cause, p.pending])).toEqual([
+      ["DBE", true],
+      ["DBE", true],
+    ]);
+    expect(health.remappedRows).toHaveLength(2);
+    expect(health.remappedRows[0].bank).toBe(health.remappedRows[1].bank);
+    expect(isResetRequired(gpu)).toBe(true);
+    expect(remapHistogram(gpu)).toMatchObject({ max: 639, high: 1 });
+  });
+
+  it("retires a page for every tenth single-bit error", () => {
+    report(9, 0);
+    expect(getMemoryHealth(gpu).retiredPages).toEqual([]);
+    report(25, 0);
+    expect(getMemoryHealth(gpu).remappedRows.map((r) => r.cause)).toEqual([
+      "correctable",
+      "correctable",
+    ]);
+    // Counters going down, as after a reset, add nothing
+    report(0, 0);
+    report(5, 0);
+    expect(getMemoryHealth(gpu).retiredPages).toHaveLength(3);
+  });
+
+  it("fails to remap once the weak bank runs out of spare rows", () => {
+    report(0, SPARE_ROWS_PER_BANK);
+    expect(assessMemoryRma(gpu).rma).toBe(false);
+    report(0, SPARE_ROWS_PER_BANK + 1);
+
+    const health = getMemoryHealth(gpu);
+    expect(health.remappedRows).toHaveLength(SPARE_ROWS_PER_BANK);
+    expect(health.remapFailures).toHaveLength(1);
+    expect(remapHistogram(gpu).none).toBe(1);
+    expect(assessMemoryRma(gpu)).toMatchObject({ rma: true });
+  });
+
+  it("retires the same pages for the same GPU", () => {
+    const fresh = gpu;
+    report(30, 1);
+    const replayed = withErrors(fresh, 30, 1);
+    observeMemoryErrors(replayed, fresh, START);
+    expect(replayed.memoryHealth).toEqual(gpu.memoryHealth);
+  });
+
+  describe("through the CLI", () => {
+    let scenario: ScenarioContext;
+    let context: CommandContext;
+    let smi: NvidiaSmiSimulator;
+
+    const nvidiaSmi = (args: string) =>
+      smi.execute(parse(`nvidia-smi ${args}`), context);
+    const current = () => scenario.getGPU("dgx-01", 2)!;
+
+    beforeEach(async () => {
+      smi = new NvidiaSmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(smi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      simulationClock.reset({ start: START, paused: true });
+      scenario = new ScenarioContext("memory-test", createDefaultCluster());
+      context = {
+        currentNode: "dgx-01",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: scenario,
+      };
+      scenario.updateGPU("dgx-01", 2, {
+        eccErrors: withErrors(current(), 12, 1).eccErrors,
+      });
+    });
+
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("reports retired pages and remapped rows", () => {
+      const output = nvidiaSmi(
+        "-i 2 -q -d PAGE_RETIREMENT,ROW_REMAPPER,RESET_STATUS",
+      ).output;
+      expect(output).toContain("        Single Bit ECC                    : 1");
+      expect(output).toContain("        Double Bit ECC                    : 1");
+      expect(output).toMatch(/Address {23}: 0x[0-9a-f]{16} \(pending\)/);
+      expect(output).toContain(
+        "        Pending Page Blacklist            : Yes",
+      );
+      expect(output).toContain("        Correctable Error                 : 1");
+      expect(output).toContain("        Uncorrectable Error               : 1");
+      expect(output).toContain(
+        "        Pending                           : Yes",
+      );
+      expect(output).toContain(
+        "            Max                           : 638 bank(s)",
+      );
+      expect(output).toContain(
+        "        Reset Required                    : Yes",
+      );
+      const rows = nvidiaSmi(
+        "--query-gpu=retired_pages.dbe,remapped_rows.pending --format=csv,noheader",
+      ).output.split("\n");
+      expect(rows.slice(1, 3)).toEqual(["0, No", "1, Yes"]);
+    });
+
+    it("logs the repairs as XIDs in dmesg", () => {
+      const dmesg = new BasicSystemSimulator()
+        .execute(parse("dmesg"), context)
+        .output.split("\n");
+      expect(dmesg.filter((l) => l.includes("(PCI:0000:12:00.0)"))).toEqual([
+        expect.stringMatching(
+          /Xid \(PCI:0000:12:00\.0\): 48, .*double bit error \(DBE\).*at physical address 0x/,
+        ),
+        expect.stringMatching(
+          /: 63, .*marked for remapping, reset gpu to activate/,
+        ),
+        expect.stringMatching(/: 63, .*marked for remapping/),
+      ]);
+    });
+
+    it("keeps the repairs pending until the GPU is reset", async () => {
+      const dcgmi = new DcgmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(dcgmi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      const health = () => dcgmi.execute(parse("dcgmi health -c"), context);
+      expect(health().output).toContain(
+        "Row Remap: 2 pending, GPU reset required",
+      );
+
+      expect(nvidiaSmi("-r -i 2").output).toContain("reset successfully");
+      expect(isResetRequired(current())).toBe(false);
+      expect(getMemoryHealth(current()).retiredPages).toHaveLength(2);
+      expect(health().output).toMatch(/\| Memory\s+\| Healthy/);
+      expect(nvidiaSmi("-i 2 -q -d ROW_REMAPPER").output).toContain(
+        "        Pending                           : No",
+      );
+    });
+
+    it("activates the repairs when the node reboots", () => {
+      const { update } = planPowerAction(
+        scenario.getNode("dgx-01")!,
+        "cycle",
+        START,
+      );
+      scenario.updateNodePower("dgx-01", update!);
+      expect(isResetRequired(current())).toBe(false);
+      expect(getMemoryHealth(current()).remappedRows).toHaveLength(2);
+    });
+
+    it("rebuilds the same memory health when the scenario is replayed", () => {
+      nvidiaSmi("-r -i 2");
+      scenario.updateGPU("dgx-01", 2, {
+        eccErrors: {
+          singleBit: 0,
+          doubleBit: 3,
+          aggregated: { singleBit: 12, doubleBit: 4 },
+        },
+      });
+      const replayed = scenario
+        .stateAt(scenario.getMutations().length)
+        .nodes.find((n) => n.id === "dgx-01")!.gpus[2];
+      expect(replayed.memoryHealth).toEqual(current().memoryHealth);
+    });
+  });
+});
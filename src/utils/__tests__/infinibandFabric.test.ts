@@ -0,0 +1,436 @@
+import { describe, it, expect } from "vitest";
+import { createCustomCluster, createDefaultCluster } from "../clusterFactory";
+import {
+  applyIBPortUpdate,
+  buildInfiniBandFabric,
+  cableFaultChanges,
+  findCable,
+  getFabric,
+  isCableUp,
+  sweepSubnet,
+  switchPortFaultChanges,
+  traceRoute,
+} from "../infinibandFabric";
+import { InfiniBandSimulator } from "@/simulators/infinibandSimulator";
+import { MellanoxSimulator } from "@/simulators/mellanoxSimulator";
+import { parse } from "../commandParser";
+import type { ClusterConfig, InfiniBandCable } from "@/types/hardware";
+import type { CommandContext } from "@/types/commands";
+
+function applyChanges(
+  cluster: ClusterConfig,
+  changes: ReturnType<typeof cableFaultChanges>,
+): void {
+  for (const change of changes) {
+    applyIBPortUpdate(cluster, change.end, change.update);
+  }
+}
+
+function hcaLid(cluster: ClusterConfig, nodeIndex: number, hcaIndex: number) {
+  return cluster.nodes[nodeIndex].hcas[hcaIndex].ports[0].lid;
+}
+
+describe("buildInfiniBandFabric", () => {
+  it("builds one rail per HCA index with four spines", () => {
+    const fabric = getFabric(createDefaultCluster());
+    const leaves = fabric.switches.filter((sw) => sw.tier === "leaf");
+    const spines = fabric.switches.filter((sw) => sw.tier === "spine");
+
+    expect(leaves).toHaveLength(8);
+    expect(spines).toHaveLength(4);
+    expect(leaves[0].description).toBe("QM8790/Rail-0");
+    expect(leaves[0].ports).toHaveLength(40);
+    // 64 host cables plus 4 uplinks per leaf
+    expect(fabric.cables).toHaveLength(64 + 32);
+  });
+
+  it("cables HCA N of every node to Rail-N", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+
+    for (const node of cluster.nodes) {
+      const cable = findCable(fabric, {
+        kind: "hca",
+        nodeId: node.id,
+        hcaIndex: 3,
+        portNumber: 1,
+      });
+      expect(cable?.ends[1]).toMatchObject({ switchId: "leaf-3" });
+    }
+  });
+
+  it("splits rails across leaves when nodes exceed the host ports", () => {
+    const fabric = getFabric(createCustomCluster(24, "DGX-A100"));
+    const names = fabric.switches.map((sw) => sw.description.split("/")[1]);
+
+    expect(names).toContain("Rail-0-0");
+    expect(names).toContain("Rail-0-1");
+  });
+
+  it("fills leaves with consecutive HCAs for a fat-tree", () => {
+    const cluster = createDefaultCluster();
+    const fabric = buildInfiniBandFabric(cluster.nodes, "FatTree");
+    const leaves = fabric.switches.filter((sw) => sw.tier === "leaf");
+
+    // 64 HCAs at 20 host ports per leaf
+    expect(leaves.map((sw) => sw.description)).toEqual([
+      "QM8790/Leaf-0",
+      "QM8790/Leaf-1",
+      "QM8790/Leaf-2",
+      "QM8790/Leaf-3",
+    ]);
+  });
+
+  it("uses Quantum-2 switches for NDR clusters", () => {
+    const fabric = getFabric(createCustomCluster(2, "DGX-H100"));
+    expect(fabric.switches[0].model).toBe("QM9700");
+    expect(fabric.switches[0].ports).toHaveLength(64);
+  });
+
+  it("gives every switch and HCA port a unique LID", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+    const lids = [
+      ...fabric.switches.map((sw) => sw.lid),
+      ...cluster.nodes.flatMap((n) =>
+        n.hcas.flatMap((h) => h.ports.map((p) => p.lid)),
+      ),
+    ];
+
+    expect(new Set(lids).size).toBe(lids.length);
+    // Host LIDs follow the 12 switches
+    expect(Math.min(...lids.slice(12))).toBe(13);
+  });
+
+  it("uses copper for short cables and optics for long ones", () => {
+    for (const cable of getFabric(createDefaultCluster()).cables) {
+      expect(cable.type).toBe(cable.lengthMeters <= 3 ? "DAC" : "AOC");
+    }
+  });
+
+  it("derives a fabric for clusters saved without one", () => {
+    const cluster = createDefaultCluster();
+    delete cluster.infiniband;
+
+    expect(getFabric(cluster).switches).toHaveLength(12);
+  });
+});
+
+describe("traceRoute", () => {
+  it("routes between rails through a spine", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+    const hops = traceRoute(
+      cluster,
+      fabric,
+      hcaLid(cluster, 0, 0),
+      hcaLid(cluster, 1, 1),
+    );
+
+    expect(hops?.map((h) => h.to)).toMatchObject([
+      { switchId: "leaf-0" },
+      { switchId: expect.stringMatching(/^spine-/) },
+      { switchId: "leaf-1" },
+      { nodeId: "dgx-01", hcaIndex: 1 },
+    ]);
+  });
+
+  it("routes around a downed uplink once the subnet manager sweeps", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+    const [from, to] = [hcaLid(cluster, 0, 0), hcaLid(cluster, 1, 1)];
+    const spine = traceRoute(cluster, fabric, from, to)![1].to;
+    const uplink = findCable(fabric, spine)!;
+    applyChanges(cluster, cableFaultChanges(cluster, uplink, "down"));
+
+    // The forwarding tables still point at the dead uplink
+    expect(traceRoute(cluster, fabric, from, to)).toBeUndefined();
+
+    sweepSubnet(cluster);
+    const hops = traceRoute(cluster, fabric, from, to);
+    expect(hops?.[1].to.kind).toBe("switch");
+    expect(hops?.[1].to).not.toMatchObject({
+      switchId: (spine as { switchId: string }).switchId,
+    });
+  });
+
+  it("reports a host behind a downed cable as unreachable", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+    const cable = findCable(fabric, {
+      kind: "hca",
+      nodeId: "dgx-01",
+      hcaIndex: 0,
+      portNumber: 1,
+    })!;
+    applyChanges(cluster, cableFaultChanges(cluster, cable, "down"));
+
+    expect(
+      traceRoute(cluster, fabric, hcaLid(cluster, 0, 0), hcaLid(cluster, 1, 0)),
+    ).toBeUndefined();
+  });
+});
+
+describe("subnet manager", () => {
+  function managers(cluster: ClusterConfig) {
+    return getFabric(cluster).subnetManagers.map((sm) => sm.state);
+  }
+
+  it("makes the first node's SM master on the first sweep", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+
+    expect(managers(cluster)).toEqual(["Master", "Standby"]);
+    expect(fabric.smLid).toBe(hcaLid(cluster, 0, 0));
+    expect(fabric.routingEngine).toBe("ftree");
+    expect(sweepSubnet(cluster)).toBeUndefined();
+  });
+
+  it("fails over to the standby when the master's node goes down", () => {
+    const cluster = createDefaultCluster();
+    cluster.nodes[0].bmc.powerState = "Off";
+    sweepSubnet(cluster);
+
+    expect(managers(cluster)).toEqual(["NotActive", "Master"]);
+    expect(getFabric(cluster).smLid).toBe(hcaLid(cluster, 1, 0));
+  });
+
+  it("prefers the higher priority, then the lower GUID", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+    fabric.subnetManagers[1].priority = 15;
+    sweepSubnet(cluster);
+    expect(managers(cluster)).toEqual(["Standby", "Master"]);
+
+    fabric.subnetManagers[1].priority = 14;
+    sweepSubnet(cluster);
+    const [first, second] = [0, 1].map((i) =>
+      BigInt(cluster.nodes[i].hcas[0].ports[0].guid),
+    );
+    expect(managers(cluster)).toEqual(
+      first < second ? ["Master", "Standby"] : ["Standby", "Master"],
+    );
+  });
+
+  it("leaves new links in Init while no SM is running", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+    for (const sm of fabric.subnetManagers) sm.running = false;
+    sweepSubnet(cluster);
+    expect(managers(cluster)).toEqual(["NotActive", "NotActive"]);
+
+    const cable = findCable(fabric, {
+      kind: "hca",
+      nodeId: "dgx-03",
+      hcaIndex: 0,
+      portNumber: 1,
+    })!;
+    applyChanges(cluster, cableFaultChanges(cluster, cable, "init"));
+    sweepSubnet(cluster);
+    expect(cluster.nodes[3].hcas[0].ports[0].state).toBe("Init");
+
+    fabric.subnetManagers[1].running = true;
+    sweepSubnet(cluster);
+    expect(cluster.nodes[3].hcas[0].ports[0].state).toBe("Active");
+    expect(fabric.switches[4].ports[3].state).toBe("Active");
+  });
+
+  it("spreads destinations across every spine with ftree", () => {
+    const cluster = createDefaultCluster();
+    const table = getFabric(cluster).forwardingTables["leaf-0"];
+    const remote = cluster.nodes.map((_, i) => hcaLid(cluster, i, 1));
+
+    expect(new Set(remote.map((lid) => table[lid]))).toEqual(
+      new Set([21, 22, 23, 24]),
+    );
+  });
+
+  it.each(["minhop", "updn", "ftree"] as const)(
+    "routes every host pair with %s",
+    (engine) => {
+      const cluster = createDefaultCluster();
+      const fabric = getFabric(cluster);
+      fabric.subnetManagers[0].routingEngine = engine;
+      sweepSubnet(cluster);
+      expect(fabric.routingEngine).toBe(engine);
+
+      const lids = cluster.nodes.flatMap((n) =>
+        n.hcas.map((h) => h.ports[0].lid),
+      );
+      for (const from of lids) {
+        for (const to of lids) {
+          expect(traceRoute(cluster, fabric, from, to)).toBeDefined();
+        }
+      }
+    },
+  );
+});
+
+describe("fault changes", () => {
+  it("takes both ends of a cable down", () => {
+    const cluster = createDefaultCluster();
+    const fabric = getFabric(cluster);
+    const cable = fabric.cables[0];
+    applyChanges(cluster, cableFaultChanges(cluster, cable, "down"));
+
+    expect(isCableUp(cluster, fabric, cable)).toBe(false);
+    expect(cluster.nodes[0].hcas[0].ports[0].errors.linkDowned).toBe(1);
+    expect(fabric.switches[4].ports[0].state).toBe("Down");
+  });
+
+  it("raises errors on a single switch port", () => {
+    const cluster = createDefaultCluster();
+    applyChanges(
+      cluster,
+      switchPortFaultChanges(cluster, "leaf-2", 3, "errors", {
+        symbolErrors: 10,
+      }),
+    );
+    const fabric = getFabric(cluster);
+
+    expect(fabric.switches[6].ports[2].errors.symbolErrors).toBe(10);
+    expect(cluster.nodes[2].hcas[2].ports[0].errors.symbolErrors).toBe(0);
+    expect(
+      isCableUp(
+        cluster,
+        fabric,
+        findCable(fabric, {
+          kind: "switch",
+          switchId: "leaf-2",
+          portNumber: 3,
+        })!,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("IB tools render from the fabric", () => {
+  const cluster = createDefaultCluster();
+  const fabric = getFabric(cluster);
+  const downCable = findCable(fabric, {
+    kind: "hca",
+    nodeId: "dgx-00",
+    hcaIndex: 0,
+    portNumber: 1,
+  }) as InfiniBandCable;
+  const noisyCable = findCable(fabric, {
+    kind: "hca",
+    nodeId: "dgx-00",
+    hcaIndex: 1,
+    portNumber: 1,
+  }) as InfiniBandCable;
+  applyChanges(cluster, cableFaultChanges(cluster, downCable, "down"));
+  applyChanges(cluster, cableFaultChanges(cluster, noisyCable, "errors"));
+
+  const context = {
+    currentNode: "dgx-00",
+    currentPath: "/root",
+    environment: {},
+    history: [],
+    cluster,
+  } as CommandContext;
+  const ib = new InfiniBandSimulator();
+
+  it("shows the downed port in iblinkinfo", () => {
+    const output = ib.executeIblinkinfo(
+      parse("iblinkinfo -S 0xfc6a1c0300000004"),
+      context,
+    ).output;
+    expect(output).toContain("Down/ LinkDown");
+  });
+
+  it("reports the downed and noisy cables in ibdiagnet", () => {
+    const output = ib.executeIbdiagnet(parse("ibdiagnet"), context).output;
+    expect(output).toContain(`Link down`);
+    expect(output).toContain(downCable.id);
+    expect(output).toContain(noisyCable.id);
+  });
+
+  it("lists only the faulty cables in ibcableerrors", () => {
+    const output = ib.executeIbcableerrors(
+      parse("ibcableerrors"),
+      context,
+    ).output;
+    expect(output).toContain(downCable.id);
+    expect(output).toContain(noisyCable.id);
+    expect(output).not.toContain(`${fabric.cables[2].id} `);
+  });
+
+  it("shows the cable from the fabric in mlxcables", () => {
+    const mellanox = new MellanoxSimulator();
+    mellanox.execute(parse("mst start"), context);
+    const output = mellanox.execute(parse("mlxcables"), context).output;
+
+    expect(output).toContain(downCable.serialNumber);
+    expect(output).toContain(downCable.partNumber);
+    expect(output).toContain("Link down");
+    expect(output).toContain(`Warning: 2100 errors on link`);
+  });
+});
+
+describe("IB tools follow the subnet manager", () => {
+  function contextFor(cluster: ClusterConfig): CommandContext {
+    return {
+      currentNode: "dgx-02",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+      cluster,
+    } as CommandContext;
+  }
+  const ib = new InfiniBandSimulator();
+
+  it("reports the standby in sminfo after the master's node goes down", () => {
+    const cluster = createDefaultCluster();
+    cluster.nodes[0].bmc.powerState = "Off";
+    const output = ib.executeSminfo(
+      parse("sminfo"),
+      contextFor(cluster),
+    ).output;
+
+    expect(output).toContain(`sm lid ${hcaLid(cluster, 1, 0)}`);
+    expect(output).toContain(cluster.nodes[1].hcas[0].ports[0].guid);
+    expect(output).toContain("priority 13 state 3 SMINFO_MASTER");
+  });
+
+  it("fails sminfo when no subnet manager is running", () => {
+    const cluster = createDefaultCluster();
+    for (const sm of getFabric(cluster).subnetManagers) sm.running = false;
+    const result = ib.executeSminfo(parse("sminfo"), contextFor(cluster));
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.output).toContain("sminfo: iberror: failed: query");
+  });
+
+  it("shows Initializing in ibstat for a port the SM has not swept", () => {
+    const cluster = createDefaultCluster();
+    for (const sm of getFabric(cluster).subnetManagers) sm.running = false;
+    const cable = findCable(getFabric(cluster), {
+      kind: "hca",
+      nodeId: "dgx-02",
+      hcaIndex: 0,
+      portNumber: 1,
+    })!;
+    applyChanges(cluster, cableFaultChanges(cluster, cable, "init"));
+    const output = ib.executeIbstat(
+      parse("ibstat"),
+      contextFor(cluster),
+    ).output;
+
+    expect(output).toContain("State: Initializing");
+  });
+
+  it("dumps a switch's forwarding table with ibroute", () => {
+    const cluster = createDefaultCluster();
+    const leaf = getFabric(cluster).switches[4];
+    const output = ib.executeIbroute(
+      parse(`ibroute ${leaf.lid}`),
+      contextFor(cluster),
+    ).output;
+
+    expect(output).toContain(`of switch Lid ${leaf.lid} guid ${leaf.guid}`);
+    expect(output).toContain("0x000d 001 : (Channel Adapter portguid");
+    expect(output).toContain("'dgx-00 mlx5_0'");
+    expect(output).toContain("76 valid lids dumped");
+  });
+});
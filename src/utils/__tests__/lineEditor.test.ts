@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { LineEditor } from "../lineEditor";
+
+describe("LineEditor", () => {
+  let saved: string[];
+  let editor: LineEditor;
+
+  const type = (...lines: string[]) => lines.map((l) => editor.handle(l));
+
+  beforeEach(() => {
+    saved = [];
+    editor = new LineEditor("/tmp/notes.txt", "one\ntwo\nthree", (text) => {
+      saved.push(text);
+      return null;
+    });
+  });
+
+  it("shows the file and its size on open", () => {
+    const banner = editor.open();
+    expect(banner).toContain('"/tmp/notes.txt" 3L, 13B');
+    expect(banner).toContain("2  two");
+  });
+
+  it("marks new files", () => {
+    const fresh = new LineEditor("/tmp/new", null, () => null);
+    expect(fresh.open()).toContain('"/tmp/new" [New]');
+  });
+
+  it("appends lines until a lone dot", () => {
+    type("a", "four", "five", ".");
+    expect(editor.prompt).toBe(":");
+    expect(editor.getContent()).toBe("one\ntwo\nthree\nfour\nfive");
+  });
+
+  it("inserts before and after a given line", () => {
+    type("1i", "zero", ".", "2a", "one-and-a-half", ".");
+    expect(editor.getContent()).toBe("zero\none\none-and-a-half\ntwo\nthree");
+  });
+
+  it("deletes and changes lines", () => {
+    type("2d");
+    expect(editor.getContent()).toBe("one\nthree");
+    type("1c", "uno", ".");
+    expect(editor.getContent()).toBe("uno\nthree");
+  });
+
+  it("substitutes within a range", () => {
+    type(":%s/o/0/g");
+    expect(editor.getContent()).toBe("0ne\ntw0\nthree");
+    expect(editor.handle("s/xyz/abc/").output).toContain("E486");
+  });
+
+  it("rejects invalid ranges and unknown commands", () => {
+    expect(editor.handle("9d").output).toBe("E16: Invalid range");
+    expect(editor.handle("zz").output).toContain("E492");
+  });
+
+  it("refuses to quit with unsaved changes", () => {
+    type("1d");
+    expect(editor.handle("q")).toEqual({
+      output: "E37: No write since last change (add ! to override)",
+      done: false,
+    });
+    expect(editor.handle("q!").done).toBe(true);
+    expect(saved).toHaveLength(0);
+  });
+
+  it("saves on wq", () => {
+    type("a", "four", ".");
+    const result = editor.handle(":wq");
+    expect(result.done).toBe(true);
+    expect(result.output).toContain("4L, 18B written");
+    expect(saved).toEqual(["one\ntwo\nthree\nfour"]);
+  });
+
+  it("stays open when the write fails", () => {
+    const readonly = new LineEditor("/proc/x", "", () => "Permission denied");
+    const result = readonly.handle("wq");
+    expect(result.done).toBe(false);
+    expect(result.output).toContain("E212");
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  availablePlacements,
+  createComputeInstance,
+  createGpuInstance,
+  destroyGpuInstance,
+  findMigProfile,
+  freeInstanceCount,
+  getComputeProfiles,
+  getMigProfiles,
+  placedInstances,
+} from "../migEngine";
+import { createDefaultCluster } from "../clusterFactory";
+import { parse } from "../commandParser";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { DcgmiSimulator } from "@/simulators/dcgmiSimulator";
+import type { CommandContext } from "@/types/commands";
+import type { GPU } from "@/types/hardware";
+
+const A100 = getHardwareSpecs("DGX-A100");
+
+describe("MIG engine", () => {
+  let gpu: GPU;
+
+  // Apply a series of GPU instance requests, failing on the first refusal
+  const withInstances = (...requests: [number, number?][]): GPU =>
+    requests.reduce((g, [profileId, start]) => {
+      const op = createGpuInstance(A100, g, profileId, { start });
+      expect(op.error).toBeUndefined();
+      return { ...g, migInstances: op.migInstances! };
+    }, gpu);
+
+  beforeEach(() => {
+    gpu = { ...createDefaultCluster().nodes[0].gpus[0], migMode: true };
+  });
+
+  describe("profiles", () => {
+    it("names the profiles after each system's GPU memory", () => {
+      const names = (systemType: string) =>
+        getMigProfiles(getHardwareSpecs(systemType)).map((p) => p.name);
+
+      expect(names("DGX-A100")).toEqual([
+        "1g.10gb",
+        "1g.10gb+me",
+        "1g.20gb",
+        "2g.20gb",
+        "3g.40gb",
+        "4g.40gb",
+        "7g.80gb",
+      ]);
+      expect(names("DGX-H200")).toContain("1g.18gb");
+      expect(names("DGX-B200")).toContain("3g.90gb");
+      expect(names("DGX-VR200")).toContain("7g.288gb");
+    });
+
+    it("sizes the profiles from the spec", () => {
+      const h100 = getHardwareSpecs("DGX-H100");
+      expect(findMigProfile(A100, "MIG 3g.40gb")).toMatchObject({
+        id: 9,
+        smCount: 42,
+        memory: 39.5,
+        decoders: 2,
+      });
+      expect(findMigProfile(h100, 9)).toMatchObject({
+        smCount: 54,
+        decoders: 3,
+      });
+    });
+
+    it("offers compute instances up to the size of the GPU instance", () => {
+      const profiles = getComputeProfiles(A100, findMigProfile(A100, 9)!);
+      expect(profiles.map((p) => [p.id, p.name, p.placements])).toEqual([
+        [0, "1c.3g.40gb", [0, 1, 2]],
+        [1, "2c.3g.40gb", [0]],
+        [2, "3g.40gb", [0]],
+      ]);
+    });
+  });
+
+  describe("GPU instances", () => {
+    it("places instances at the first free start of their profile", () => {
+      const placed = withInstances([14], [9], [19]).migInstances;
+      expect(placed.map((gi) => [gi.id, gi.placement])).toEqual([
+        [1, { start: 0, size: 2 }],
+        [2, { start: 4, size: 4 }],
+        [3, { start: 2, size: 1 }],
+      ]);
+      expect(createGpuInstance(A100, gpu, 0).gpuInstance?.id).toBe(0);
+    });
+
+    it("refuses placements the profile cannot start at", () => {
+      expect(createGpuInstance(A100, gpu, 9, { start: 2 }).error).toBe(
+        "Invalid Argument",
+      );
+      expect(createGpuInstance(A100, gpu, 42).error).toBe("Not Found");
+    });
+
+    it("refuses overlapping memory slices", () => {
+      const g = withInstances([9, 4]);
+      expect(createGpuInstance(A100, g, 14, { start: 4 }).error).toBe(
+        "Insufficient Resources",
+      );
+      expect(availablePlacements(A100, g, findMigProfile(A100, 14)!)).toEqual([
+        0, 2,
+      ]);
+    });
+
+    it("runs out of compute slices before memory slices", () => {
+      // 4g + 3g take all 7 compute slices
+      const g = withInstances([5], [9, 4]);
+      expect(createGpuInstance(A100, g, 19).error).toBe(
+        "Insufficient Resources",
+      );
+      // 7 x 1g leave memory slice 7 unusable
+      const sevenths = withInstances(...Array.from({ length: 7 }, () => [19]));
+      expect(freeInstanceCount(A100, sevenths, findMigProfile(A100, 19)!)).toBe(
+        0,
+      );
+    });
+
+    it("allows one instance with the media extensions", () => {
+      const g = withInstances([20]);
+      expect(createGpuInstance(A100, g, 20).error).toBe(
+        "Insufficient Resources",
+      );
+      expect(freeInstanceCount(A100, g, findMigProfile(A100, 19)!)).toBe(6);
+    });
+
+    it("places instances created before placements were tracked", () => {
+      const legacy = [9, 9].map((profileId, id) => ({
+        id,
+        gpuId: 0,
+        profileId,
+        uuid: `MIG-GPU-0-${id}`,
+        computeInstances: [],
+      }));
+      expect(
+        placedInstances(A100, legacy).map((gi) => gi.placement?.start),
+      ).toEqual([0, 4]);
+    });
+  });
+
+  describe("compute instances", () => {
+    it("splits a GPU instance and keeps it until they are gone", () => {
+      let g = withInstances([9]);
+      for (const start of [0, 1]) {
+        const op = createComputeInstance(A100, g, 1, 0, start);
+        g = { ...g, migInstances: op.migInstances! };
+      }
+      expect(createComputeInstance(A100, g, 1, 1).error).toBe(
+        "Insufficient Resources",
+      );
+      expect(createComputeInstance(A100, g, 1, 0).computeInstance).toEqual({
+        id: 2,
+        giId: 1,
+        profileId: 0,
+        uuid: `${g.migInstances[0].uuid}/2`,
+        placement: { start: 2, size: 1 },
+      });
+      expect(destroyGpuInstance(g, 1).error).toBe("In use by another client");
+    });
+
+    it("refuses profiles bigger than the GPU instance", () => {
+      const g = withInstances([14]);
+      expect(createComputeInstance(A100, g, 1, 2).error).toBe("Not Found");
+      expect(createComputeInstance(A100, g, 7).error).toBe("Not Found");
+    });
+  });
+
+  describe("through the CLI", () => {
+    let scenario: ScenarioContext;
+    let context: CommandContext;
+    let smi: NvidiaSmiSimulator;
+
+    const nvidiaSmi = (args: string) =>
+      smi.execute(parse(`nvidia-smi ${args}`), context);
+    const migInstances = () => scenario.getGPU("dgx-01", 0)!.migInstances;
+
+    beforeEach(async () => {
+      smi = new NvidiaSmiSimulator();
+      // -cgi and -gi take values only with the mig options loaded
+      await vi.waitFor(
+        () => {
+          expect(smi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      scenario = new ScenarioContext("mig-test", createDefaultCluster());
+      context = {
+        currentNode: "dgx-01",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: scenario,
+      };
+      nvidiaSmi("-i 0 -mig 1");
+    });
+
+    it("creates instances at the requested placements", () => {
+      const result = nvidiaSmi("mig -i 0 -cgi 9:4,3g.40gb -C");
+      expect(result.output.split("\n")).toEqual([
+        "Successfully created GPU instance ID  1 on GPU  0 using profile MIG 3g.40gb (ID  9)",
+        "Successfully created compute instance ID  0 on GPU  0 GPU instance ID  1 using profile MIG 3g.40gb (ID  2)",
+        "Successfully created GPU instance ID  2 on GPU  0 using profile MIG 3g.40gb (ID  9)",
+        "Successfully created compute instance ID  0 on GPU  0 GPU instance ID  2 using profile MIG 3g.40gb (ID  2)",
+      ]);
+      expect(migInstances().map((gi) => gi.placement?.start)).toEqual([4, 0]);
+      expect(nvidiaSmi("mig -lgipp").output).toContain(
+        "GPU  0 Profile ID 19 Placements: {}:1",
+      );
+      expect(nvidiaSmi("mig -lgi").output).toContain(
+        "|   0  MIG 3g.40gb        9        1          4:4       |",
+      );
+    });
+
+    it("keeps what it could create when a request is refused", () => {
+      const result = nvidiaSmi("mig -i 0 -cgi 5,5");
+      expect(result.exitCode).toBe(1);
+      expect(result.output).toContain(
+        "Unable to create a GPU instance on GPU  0 using profile 5: Insufficient Resources",
+      );
+      expect(migInstances()).toHaveLength(1);
+      expect(nvidiaSmi("mig -lgip").output).toContain(
+        "|   0  MIG 3g.40gb        9     1/2        39.50      No     42     2     0   |",
+      );
+    });
+
+    it("destroys compute instances before their GPU instance", () => {
+      nvidiaSmi("mig -i 0 -cgi 14,14");
+      nvidiaSmi("mig -i 0 -gi 1 -cci 0,0");
+      expect(nvidiaSmi("mig -dgi -gi 1").output).toContain(
+        "In use by another client",
+      );
+
+      nvidiaSmi("mig -dci -gi 1 -ci 0");
+      expect(nvidiaSmi("mig -lci").output).toContain(
+        "|   0      1       MIG 1c.2g.20gb      0         1          1:1      |",
+      );
+      nvidiaSmi("mig -dci");
+      expect(nvidiaSmi("mig -dgi").output).toBe(
+        [
+          "Successfully destroyed GPU instance ID  1 from GPU  0",
+          "Successfully destroyed GPU instance ID  2 from GPU  0",
+        ].join("\n"),
+      );
+      expect(nvidiaSmi("mig -lgi").output).toContain("No GPU instances found");
+    });
+
+    it("needs MIG mode on the GPU", () => {
+      expect(nvidiaSmi("mig -i 1 -cgi 19").output).toContain(
+        "MIG mode not enabled",
+      );
+      nvidiaSmi("-i 0 -mig 0");
+      expect(nvidiaSmi("mig -lgip").output).toContain(
+        "No MIG-enabled devices found.",
+      );
+    });
+
+    it("lists the instances in dcgmi discovery", async () => {
+      nvidiaSmi("mig -i 0 -cgi 9 -C");
+      const dcgmi = new DcgmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(dcgmi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      const lines = dcgmi
+        .execute(parse("dcgmi discovery -c"), context)
+        .output.split("\n");
+      expect(lines.slice(4, 7)).toEqual([
+        "| -> I 0/1          | GPU Instance MIG 3g.40gb (EntityID: 0)                             |",
+        "|    -> CI 0/1/0    | Compute Instance (EntityID: 0)                                     |",
+        expect.stringMatching(/^\| GPU 1 /),
+      ]);
+    });
+
+    it("rebuilds the instances when the scenario is replayed", () => {
+      nvidiaSmi("mig -i 0 -cgi 14:2,19 -C");
+      const replayed = scenario.stateAt(scenario.getMutations().length);
+      expect(replayed.nodes[1].gpus[0]).toMatchObject({
+        migMode: true,
+        migInstances: migInstances(),
+      });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  createDefaultCluster,
+  createMixedCluster,
+  withNodeSystemType,
+} from "../clusterFactory";
+import { getEndPort, getFabric } from "../infinibandFabric";
+import { validateClusterConfig } from "../clusterSchema";
+import { parse } from "../commandParser";
+import { derivePartitions, formatHostlist } from "@/simulation/slurmPartitions";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { simulationClock } from "@/simulation/simulationClock";
+import { SlurmSimulator } from "@/simulators/slurmSimulator";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import type { CommandContext } from "@/types/commands";
+import type { ClusterConfig } from "@/types/hardware";
+
+const START = Date.UTC(2024, 0, 15, 8);
+
+describe("Mixed clusters", () => {
+  let cluster: ClusterConfig;
+
+  beforeEach(() => {
+    cluster = createMixedCluster([
+      { systemType: "DGX-A100", count: 4 },
+      { systemType: "DGX-H100", count: 4 },
+    ]);
+  });
+
+  it("numbers nodes across the groups and derives partitions", () => {
+    expect(cluster.nodes.map((n) => `${n.id} ${n.systemType}`)).toEqual([
+      "dgx-00 DGX-A100",
+      "dgx-01 DGX-A100",
+      "dgx-02 DGX-A100",
+      "dgx-03 DGX-A100",
+      "dgx-04 DGX-H100",
+      "dgx-05 DGX-H100",
+      "dgx-06 DGX-H100",
+      "dgx-07 DGX-H100",
+    ]);
+    expect(cluster.slurmConfig.partitions).toEqual([
+      "batch",
+      "interactive",
+      "gpu",
+      "a100",
+      "h100",
+    ]);
+    expect(derivePartitions(cluster.nodes)[2]).toEqual({
+      name: "h100",
+      nodes: ["dgx-04", "dgx-05", "dgx-06", "dgx-07"],
+      isDefault: false,
+      gpuType: "h100",
+    });
+    expect(derivePartitions(createDefaultCluster().nodes)).toHaveLength(1);
+    expect(formatHostlist(["dgx-00", "dgx-01", "dgx-02", "dgx-05"])).toBe(
+      "dgx-[00-02,05]",
+    );
+  });
+
+  it("links HDR hosts at their own rate on an NDR fabric", () => {
+    const fabric = getFabric(cluster);
+    expect(fabric.switches.every((s) => s.model === "QM9700")).toBe(true);
+
+    const hostLink = (nodeId: string) => {
+      const cable = fabric.cables.find((c) =>
+        c.ends.some((e) => e.kind === "hca" && e.nodeId === nodeId),
+      )!;
+      return {
+        cable,
+        port: getEndPort(cluster, fabric, cable.ends[1])!,
+      };
+    };
+    const a100 = hostLink("dgx-00");
+    expect(a100.port.rate).toBe(200);
+    expect(a100.cable.partNumber).toMatch(/^MCP1650-H/);
+    expect(hostLink("dgx-04").port.rate).toBe(400);
+  });
+
+  it("replaces a single node with another system type", () => {
+    const base = createDefaultCluster();
+    const mixed = withNodeSystemType(base, "dgx-07", "DGX-H100");
+
+    expect(base.nodes[7].systemType).toBe("DGX-A100");
+    expect(mixed.nodes[7]).toMatchObject({
+      id: "dgx-07",
+      systemType: "DGX-H100",
+    });
+    expect(mixed.nodes[7].gpus[0].type).toBe("H100-SXM");
+    expect(mixed.slurmConfig.partitions).toContain("h100");
+    expect(validateClusterConfig(structuredClone(mixed)).valid).toBe(true);
+  });
+
+  describe("through the CLI", () => {
+    let context: CommandContext;
+    let slurm: SlurmSimulator;
+
+    const run = (command: string) => {
+      const parsed = parse(command);
+      const handlers = {
+        sinfo: slurm.executeSinfo,
+        scontrol: slurm.executeScontrol,
+        sbatch: slurm.executeSbatch,
+        srun: slurm.executeSrun,
+      } as const;
+      return handlers[parsed.baseCommand as keyof typeof handlers].call(
+        slurm,
+        parsed,
+        context,
+      );
+    };
+
+    beforeEach(() => {
+      simulationClock.reset({ start: START, paused: true });
+      slurm = new SlurmSimulator();
+      context = {
+        currentNode: "dgx-00",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: new ScenarioContext("mixed-test", cluster),
+      };
+    });
+
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("lists a partition and GRES type per GPU model", () => {
+      const lines = run("sinfo").output.trim().split("\n");
+      expect(lines.slice(1)).toEqual([
+        "gpu       up     infinite   8      idle  dgx-00,dgx-01,dgx-02,dgx-03,dgx-04,dgx-05,dgx-06,dgx-07",
+        "a100      up     infinite   4      idle  dgx-00,dgx-01,dgx-02,dgx-03",
+        "h100      up     infinite   4      idle  dgx-04,dgx-05,dgx-06,dgx-07",
+      ]);
+      expect(run("sinfo -o %G").output).toBe("GRES\ngpu:a100:8\ngpu:h100:8\n");
+      expect(run('sinfo -h -p h100 -o "%P %D %G"').output).toBe(
+        "h100 4 gpu:h100:8\n",
+      );
+
+      const node = run("scontrol show node dgx-05").output;
+      expect(node).toContain("Gres=gpu:h100:8");
+      expect(node).toContain("Partitions=gpu,h100");
+      const partition = run("scontrol show partition a100").output;
+      expect(partition).toContain("Nodes=dgx-[00-03]");
+      expect(partition).toContain("Default=NO");
+    });
+
+    it("places jobs by partition and typed GRES", () => {
+      expect(run("sbatch -p h100 --gres=gpu:8 train.sh").exitCode).toBe(0);
+      expect(run("sbatch --gres=gpu:a100:8 train.sh").exitCode).toBe(0);
+      const jobs = slurm["controller"].jobs;
+      expect(jobs.map((j) => j.nodelist)).toEqual(["dgx-04", "dgx-00"]);
+
+      expect(run("sbatch -p h200 train.sh").output).toContain(
+        "Invalid partition name specified",
+      );
+      expect(run("sbatch -p a100 --gres=gpu:h100:1 train.sh").output).toContain(
+        "Requested node configuration is not available",
+      );
+      expect(run("srun -p h200 hostname").exitCode).toBe(1);
+    });
+
+    it("reports each node's own GPUs in nvidia-smi", async () => {
+      const smi = new NvidiaSmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(smi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      const names = (nodeId: string) =>
+        smi
+          .execute(parse("nvidia-smi --query-gpu=name --format=csv,noheader"), {
+            ...context,
+            currentNode: nodeId,
+          })
+          .output.split("\n")[0];
+
+      expect(names("dgx-00")).toContain("A100");
+      expect(names("dgx-04")).toContain("H100");
+    });
+  });
+});
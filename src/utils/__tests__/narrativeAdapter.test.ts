@@ -189,4 +189,26 @@ describe("narrativeStepToScenarioStep", () => {
     const result = narrativeStepToScenarioStep(noneStep);
     expect(result.validationRules).toEqual([]);
   });
+
+  it("should add a state-check rule for state assertions", () => {
+    const assertions = [
+      { node: "dgx-03", path: "slurmState", equals: "drain" as const },
+    ];
+    const result = narrativeStepToScenarioStep({
+      ...mockNarrativeStep,
+      validation: { ...mockNarrativeStep.validation, state: assertions },
+    });
+    expect(result.validationRules!.map((r) => r.type)).toEqual([
+      "command-executed",
+      "state-check",
+    ]);
+    expect(result.validationRules![1].assertions).toEqual(assertions);
+
+    const stateOnly = narrativeStepToScenarioStep({
+      ...mockNarrativeStep,
+      validation: { type: "state", state: assertions },
+    });
+    expect(stateOnly.validationRules).toHaveLength(1);
+    expect(stateOnly.validationRules![0].assertions).toEqual(assertions);
+  });
 });
@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  DPKG_ERROR,
+  HELD_PACKAGES_ERROR,
+  getNodePackages,
+  kernelModuleBuild,
+  libraryMismatch,
+  planHold,
+  planPackageInstall,
+  planPackageRemoval,
+  planUpgrade,
+} from "../nodePackages";
+import { createDefaultCluster } from "../clusterFactory";
+import { parse } from "../commandParser";
+import { planPowerAction } from "../nodePower";
+import { getNVSwitchFabric } from "../nvswitchFabric";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { simulationClock } from "@/simulation/simulationClock";
+import { LinuxUtilsSimulator } from "@/simulators/linuxUtilsSimulator";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { BasicSystemSimulator } from "@/simulators/basicSystemSimulator";
+import type { CommandContext } from "@/types/commands";
+import type { DGXNode } from "@/types/hardware";
+
+const START = Date.UTC(2024, 0, 15, 8);
+const HEADERS = "linux-headers-5.15.0-91-generic";
+
+// Apply a plan's database to the node, the way the StateMutator would
+const applied = (node: DGXNode, plan: { update?: { database: unknown } }) => {
+  expect(plan.update).toBeDefined();
+  return { ...node, packages: plan.update!.database } as DGXNode;
+};
+
+describe("Node packages", () => {
+  let node: DGXNode;
+
+  beforeEach(() => {
+    node = createDefaultCluster().nodes[0];
+  });
+
+  it("derives the database from the node's driver", () => {
+    const packages = getNodePackages(node);
+    expect(
+      packages.installed.map((p) => [p.name, p.version, !!p.automatic]),
+    ).toEqual([
+      ["cuda-toolkit-12-2", "12.2.2-1", false],
+      ["datacenter-gpu-manager", "3.3.5-1", false],
+      ["libnvidia-compute-535", "535.129.03-0ubuntu1", true],
+      [HEADERS, "5.15.0-91.101", false],
+      ["nvidia-dkms-535", "535.129.03-0ubuntu1", true],
+      ["nvidia-driver-535", "535.129.03-0ubuntu1", false],
+      ["nvidia-fabricmanager-535", "535.129.03-1", false],
+      ["nvidia-kernel-common-535", "535.129.03-0ubuntu1", true],
+      ["nvidia-kernel-source-535", "535.129.03-0ubuntu1", true],
+      ["nvidia-utils-535", "535.129.03-0ubuntu1", true],
+    ]);
+    expect(kernelModuleBuild(node)?.version).toBe("535.129.03");
+    expect(node.packages).toBeUndefined();
+  });
+
+  it("replaces the driver branch and builds its module", () => {
+    const plan = planPackageInstall(node, ["nvidia-driver-550"], START);
+    expect(plan.error).toBeUndefined();
+    expect(plan.transaction!.removed.map((p) => p.name)).toContain(
+      "nvidia-driver-535",
+    );
+    expect(plan.transaction!.builds).toEqual([
+      {
+        module: "nvidia",
+        version: "550.90.07",
+        kernel: "5.15.0-91-generic",
+        status: "installed",
+      },
+    ]);
+
+    const upgraded = applied(node, plan);
+    expect(libraryMismatch(upgraded)).toBe("550.90.07");
+    expect(getNodePackages(upgraded).rebootRequired).toBe(true);
+  });
+
+  it("refuses packages and versions the repository does not have", () => {
+    expect(planPackageInstall(node, ["nvidia-driver-999"], START).error).toBe(
+      "E: Unable to locate package nvidia-driver-999",
+    );
+    expect(
+      planPackageInstall(node, ["nvidia-driver-550=550.1.1"], START).error,
+    ).toBe("E: Version '550.1.1' for 'nvidia-driver-550' was not found");
+    expect(
+      planPackageInstall(node, ["nvidia-driver-535=535.129.03"], START).update,
+    ).toBeUndefined();
+  });
+
+  it("leaves the module half-configured without kernel headers", () => {
+    const bare = applied(node, planPackageRemoval(node, [HEADERS], START));
+    const plan = planPackageInstall(bare, ["nvidia-driver-550"], START);
+    expect(plan.error).toBe(DPKG_ERROR);
+    const failed = applied(bare, plan);
+    expect(kernelModuleBuild(failed)).toBeUndefined();
+    expect(
+      getNodePackages(failed).installed.find(
+        (p) => p.name === "nvidia-dkms-550",
+      )?.halfConfigured,
+    ).toBe(true);
+
+    const fixed = planPackageInstall(failed, [HEADERS], START);
+    expect(fixed.error).toBeUndefined();
+    expect(kernelModuleBuild(applied(failed, fixed))?.version).toBe(
+      "550.90.07",
+    );
+  });
+
+  it("keeps held packages back", () => {
+    const held = applied(node, planHold(node, ["nvidia-driver-535"], true));
+    const upgrade = planUpgrade(held, START);
+    expect(upgrade.transaction!.kept.map((p) => p.name)).toContain(
+      "nvidia-driver-535",
+    );
+    expect(upgrade.transaction!.upgraded.map((p) => p.name)).not.toContain(
+      "nvidia-utils-535",
+    );
+    expect(planPackageInstall(held, ["nvidia-driver-550"], START).error).toBe(
+      HELD_PACKAGES_ERROR,
+    );
+  });
+
+  describe("through the CLI", () => {
+    let scenario: ScenarioContext;
+    let context: CommandContext;
+    let linux: LinuxUtilsSimulator;
+    let smi: NvidiaSmiSimulator;
+
+    const run = (command: string) => linux.execute(parse(command), context);
+    const nvidiaSmi = () => smi.execute(parse("nvidia-smi"), context);
+    const system = (command: string) =>
+      new BasicSystemSimulator().execute(parse(command), context);
+    const current = () => scenario.getNode("dgx-01")!;
+    const reboot = () => {
+      const { update } = planPowerAction(current(), "cycle", START);
+      scenario.updateNodePower("dgx-01", update!);
+      simulationClock.advance(200_000);
+    };
+
+    beforeEach(async () => {
+      linux = new LinuxUtilsSimulator();
+      smi = new NvidiaSmiSimulator();
+      await vi.waitFor(
+        () => {
+          expect(smi["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+      simulationClock.reset({ start: START, paused: true });
+      scenario = new ScenarioContext("packages-test", createDefaultCluster());
+      context = {
+        currentNode: "dgx-01",
+        currentPath: "/root",
+        environment: {},
+        history: [],
+        scenarioContext: scenario,
+      };
+    });
+
+    afterEach(() => {
+      simulationClock.reset();
+    });
+
+    it("runs the new driver only after a reboot", () => {
+      const install = run(
+        "apt install -y nvidia-driver-550 nvidia-fabricmanager-550",
+      );
+      expect(install.exitCode).toBe(0);
+      expect(install.output).toContain(
+        "Setting up nvidia-driver-550 (550.90.07-0ubuntu1) ...",
+      );
+      expect(install.output).toContain(
+        "   - Installing to /lib/modules/5.15.0-91-generic/updates/dkms/",
+      );
+      expect(run("cat /run/reboot-required").output).toBe(
+        "*** System restart required ***",
+      );
+
+      const mismatch = nvidiaSmi();
+      expect(mismatch.exitCode).toBe(18);
+      expect(mismatch.output).toContain(
+        "Failed to initialize NVML: Driver/library version mismatch",
+      );
+
+      reboot();
+      expect(nvidiaSmi().output).toContain("550.90.07");
+      expect(run("cat /proc/driver/nvidia/version").output).toContain(
+        "550.90.07",
+      );
+      expect(run("cat /run/reboot-required").exitCode).not.toBe(0);
+      expect(getNVSwitchFabric(current()).fabricManager.state).toBe("Running");
+    });
+
+    it("leaves Fabric Manager behind when only the driver moves", () => {
+      run("apt install -y nvidia-driver-550");
+      reboot();
+      expect(current().nvidiaDriverVersion).toBe("550.90.07");
+      expect(getNVSwitchFabric(current()).fabricManager.state).toBe("Failed");
+      expect(run("apt list --installed 'nvidia-fabricmanager*'").output).toBe(
+        [
+          "Listing...",
+          "nvidia-fabricmanager-535/jammy 535.154.05-1 amd64 [upgradable from: 535.129.03-1]",
+        ].join("\n"),
+      );
+    });
+
+    it("fails the DKMS build without kernel headers", () => {
+      run(`apt remove -y ${HEADERS}`);
+      const install = run("apt install -y nvidia-driver-550");
+      expect(install.exitCode).toBe(100);
+      expect(install.output).toContain(
+        "Error! Your kernel headers for kernel 5.15.0-91-generic cannot be found.",
+      );
+      expect(run("dkms status").output).toBe("nvidia/550.90.07: added");
+      expect(run("dpkg -l nvidia-dkms-550").output).toMatch(
+        /^iF {2}nvidia-dkms-550 /m,
+      );
+
+      reboot();
+      expect(system("modinfo nvidia").output).toContain(
+        "Module nvidia not found",
+      );
+      expect(system("lsmod").output).not.toMatch(/^nvidia /m);
+      expect(nvidiaSmi().output).toContain(
+        "couldn't communicate with the NVIDIA driver",
+      );
+      expect(run("ls /dev").output).not.toContain("nvidiactl");
+    });
+
+    it("refuses to change held packages", () => {
+      expect(run("apt-mark hold nvidia-driver-535").output).toBe(
+        "nvidia-driver-535 set on hold.",
+      );
+      expect(run("apt-mark showhold").output).toBe("nvidia-driver-535");
+      expect(run("dpkg -l | grep nvidia-driver").output).toMatch(/^hi /);
+
+      const upgrade = run("apt upgrade -y");
+      expect(upgrade.output).toContain(
+        "The following packages have been kept back:",
+      );
+      const install = run("apt install -y nvidia-driver-550");
+      expect(install.exitCode).toBe(100);
+      expect(install.output).toContain(HELD_PACKAGES_ERROR);
+      expect(current().nvidiaDriverVersion).toBe("535.129.03");
+    });
+
+    it("loses nvidia-smi with the driver packages", () => {
+      const removal = run("apt remove -y 'nvidia-*'");
+      expect(removal.output).toContain(
+        "The following packages will be REMOVED:",
+      );
+      expect(nvidiaSmi()).toMatchObject({
+        output: expect.stringContaining("nvidia-smi: command not found"),
+        exitCode: 127,
+      });
+      expect(run("apt autoremove -y").output).toContain(
+        "Removing libnvidia-compute-535 (535.129.03-0ubuntu1) ...",
+      );
+    });
+
+    it("loads nouveau once the blacklist is gone", () => {
+      run("apt remove -y nvidia-kernel-common-535");
+      reboot();
+      const lsmod = system("lsmod").output;
+      expect(lsmod).toMatch(/^nouveau /m);
+      expect(lsmod).not.toMatch(/^nvidia /m);
+    });
+
+    it("rebuilds the same packages when the scenario is replayed", () => {
+      run("apt install -y nvidia-driver-550");
+      run("apt-mark hold nvidia-driver-550");
+      reboot();
+      const replayed = scenario
+        .stateAt(scenario.getMutations().length)
+        .nodes.find((n) => n.id === "dgx-01")!;
+      expect(replayed.packages).toEqual(current().packages);
+      expect(replayed.nvidiaDriverVersion).toBe("550.90.07");
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  getPowerPhase,
+  isBmcResponding,
+  planPowerAction,
+  sshRefusal,
+  NOT_RESPONDING_REASON,
+} from "../nodePower";
+import { createDefaultCluster } from "../clusterFactory";
+import { getNVSwitchFabric } from "../nvswitchFabric";
+import { parse } from "../commandParser";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { simulationClock } from "@/simulation/simulationClock";
+import { diffClusterStates } from "@/simulation/stateHistory";
+import { IpmitoolSimulator } from "@/simulators/ipmitoolSimulator";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { BasicSystemSimulator } from "@/simulators/basicSystemSimulator";
+import { CmshSimulator } from "@/simulators/cmshSimulator";
+import { SlurmSimulator } from "@/simulators/slurmSimulator";
+import type { CommandContext } from "@/types/commands";
+
+const START = Date.UTC(2024, 0, 15, 8);
+
+describe("node power", () => {
+  let scenario: ScenarioContext;
+  let context: CommandContext;
+  let bmc: IpmitoolSimulator;
+
+  const node = (id = "dgx-01") => scenario.getNode(id)!;
+  const advance = (seconds: number) => simulationClock.advance(seconds * 1000);
+  const ipmitool = (args: string) =>
+    bmc.execute(parse(`ipmitool ${args}`), context);
+
+  beforeEach(async () => {
+    bmc = new IpmitoolSimulator();
+    // Flags before the subcommand need the command definitions
+    await vi.waitFor(
+      () => {
+        expect(bmc["definitionRegistry"]).not.toBeNull();
+      },
+      { timeout: 5000 },
+    );
+    simulationClock.reset({ start: START, paused: true });
+    scenario = new ScenarioContext("power-test", createDefaultCluster());
+    context = {
+      currentNode: "dgx-01",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+      scenarioContext: scenario,
+    };
+  });
+
+  afterEach(() => {
+    simulationClock.reset();
+  });
+
+  describe("power-on sequence", () => {
+    it("walks through the boot phases on the simulation clock", () => {
+      expect(getPowerPhase(node())).toBe("Ready");
+      ipmitool("chassis power cycle");
+
+      const phases = [0, 90, 120, 140, 160, 170].map((at) => {
+        simulationClock.reset({ start: START + at * 1000, paused: true });
+        return getPowerPhase(node());
+      });
+      expect(phases).toEqual([
+        "POST",
+        "KernelBoot",
+        "DriverLoad",
+        "Services",
+        "SlurmRegistration",
+        "Ready",
+      ]);
+    });
+
+    it("keeps ssh and the NVIDIA driver away until they are up", () => {
+      ipmitool("power reset");
+      const smi = () =>
+        new NvidiaSmiSimulator().execute(parse("nvidia-smi"), context);
+
+      expect(sshRefusal(node())).toBe(
+        "ssh: connect to host dgx-01.cluster.local port 22: No route to host",
+      );
+      expect(smi().exitCode).toBe(9);
+
+      advance(130);
+      expect(sshRefusal(node())).toContain("Connection refused");
+      expect(smi().output).toContain("couldn't communicate with the NVIDIA");
+
+      advance(20);
+      expect(sshRefusal(node())).toBeUndefined();
+      expect(smi().exitCode).toBe(0);
+    });
+
+    it("starts Fabric Manager with the other services", () => {
+      ipmitool("power cycle");
+      const { fabricManager } = getNVSwitchFabric(node());
+      expect(fabricManager.startedAt).toBe(START + 140_000);
+      expect(fabricManager.log.map((e) => e.message)).toContain(
+        "Stopping NVIDIA fabric manager service...",
+      );
+    });
+  });
+
+  describe("power control", () => {
+    it("clears what only lived on the running GPUs", () => {
+      const gpu = node().gpus[2];
+      scenario.addXIDError("dgx-01", 2, {
+        code: 79,
+        timestamp: new Date(START),
+        description: "GPU has fallen off the bus",
+        severity: "Critical",
+      });
+      scenario.updateGPU("dgx-01", 2, {
+        eccErrors: {
+          singleBit: 12,
+          doubleBit: 1,
+          aggregated: { singleBit: 40, doubleBit: 3 },
+        },
+      });
+
+      ipmitool("chassis power cycle");
+      const after = node().gpus[gpu.id];
+      expect(after.xidErrors).toEqual([]);
+      expect(after.eccErrors).toEqual({
+        singleBit: 0,
+        doubleBit: 0,
+        aggregated: { singleBit: 40, doubleBit: 3 },
+      });
+    });
+
+    it("refuses to cycle a node that is off", () => {
+      expect(ipmitool("power off").output).toBe(
+        "Chassis Power Control: Down/Off",
+      );
+      expect(ipmitool("power status").output).toBe("Chassis Power is off");
+
+      const cycle = ipmitool("power cycle");
+      expect(cycle.exitCode).toBe(1);
+      expect(cycle.output).toContain("Command not supported in present state");
+      expect(planPowerAction(node(), "off", START)).toEqual({});
+    });
+
+    it("reaches other nodes' BMCs with -H", () => {
+      const result = ipmitool("-I lanplus -H 192.168.0.103 power off");
+      expect(result.output).toBe("Chassis Power Control: Down/Off");
+      expect(node("dgx-03").bmc.powerState).toBe("Off");
+      expect(node("dgx-01").bmc.powerState).toBe("On");
+
+      expect(ipmitool("-H 10.0.0.1 power status").output).toContain(
+        "Address lookup for 10.0.0.1 failed",
+      );
+    });
+
+    it("leaves the host running while the BMC resets", () => {
+      expect(ipmitool("mc reset cold").exitCode).toBe(0);
+      expect(isBmcResponding(node())).toBe(false);
+      expect(getPowerPhase(node())).toBe("Ready");
+      expect(ipmitool("sensor list").output).toContain(
+        "Get Device ID command failed",
+      );
+
+      advance(120);
+      expect(ipmitool("power status").output).toBe("Chassis Power is on");
+    });
+
+    it("reboots the node from its own shell", () => {
+      const result = new BasicSystemSimulator().execute(
+        parse("reboot"),
+        context,
+      );
+      expect(result.output).toContain(
+        "Connection to dgx-01.cluster.local closed by remote host.",
+      );
+      expect(getPowerPhase(node())).toBe("POST");
+    });
+
+    it("switches nodes from cmsh device mode", () => {
+      const cmsh = new CmshSimulator();
+      const result = cmsh.execute(
+        parse(
+          "cmsh device power reset -n dgx-02.cluster.local,dgx-03.cluster.local",
+        ),
+        context,
+      );
+      expect(result.output.split("\n")).toEqual([
+        "ipmi0 .................... [  RESET  ] dgx-02.cluster.local",
+        "ipmi0 .................... [  RESET  ] dgx-03.cluster.local",
+      ]);
+      expect(getPowerPhase(node("dgx-02"))).toBe("POST");
+    });
+
+    it("records power changes in the state history", () => {
+      const before = scenario.snapshot();
+      ipmitool("power cycle");
+
+      const diff = diffClusterStates(before, scenario.getCluster()).find(
+        (d) => d.nodeId === "dgx-01",
+      );
+      expect(diff?.changes).toContainEqual({
+        field: "powered on",
+        before: "-",
+        after: new Date(START).toISOString(),
+      });
+    });
+  });
+
+  describe("Slurm", () => {
+    let slurm: SlurmSimulator;
+
+    beforeEach(async () => {
+      slurm = new SlurmSimulator();
+      await vi.waitFor(
+        () => {
+          expect(slurm["definitionRegistry"]).not.toBeNull();
+        },
+        { timeout: 5000 },
+      );
+    });
+
+    it("marks the node down until slurmd registers again", () => {
+      ipmitool("power cycle");
+      expect(node().slurmState).toBe("down");
+      expect(node().slurmReason).toBe(NOT_RESPONDING_REASON);
+
+      advance(170);
+      slurm.executeSinfo(parse("sinfo"), context);
+      expect(node().slurmState).toBe("idle");
+    });
+
+    it("fails the jobs running on a node that loses power", () => {
+      context.currentNode = "dgx-00";
+      const jobId = parseInt(
+        slurm.executeSbatch(
+          parse("sbatch --parsable -N 8 --gpus-per-node=8 --wrap='sleep 1h'"),
+          context,
+        ).output,
+      );
+      advance(60);
+      ipmitool("-H 192.168.0.101 power off");
+
+      const sacct = slurm.executeSacct(parse(`sacct -j ${jobId}`), context);
+      expect(sacct.output).toContain("NODE_FAIL");
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { createCustomCluster } from "../clusterFactory";
+import {
+  buildNVLinkRacks,
+  domainGpuCount,
+  getNVLinkDomain,
+  rackSensors,
+  superchipOf,
+  NVLINK_CLIQUE_ID,
+} from "../nvlinkRack";
+import { getNVSwitchFabric } from "../nvswitchFabric";
+import { parse } from "../commandParser";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { formatDisplayFabric } from "@/simulators/nvidiaSmiFormatters";
+import { FabricManagerSimulator } from "@/simulators/fabricManagerSimulator";
+import { IpmitoolSimulator } from "@/simulators/ipmitoolSimulator";
+import type { ClusterConfig } from "@/types/hardware";
+import type { CommandContext } from "@/types/commands";
+
+function sensorReading(cluster: ClusterConfig, name: string): number {
+  const domain = getNVLinkDomain(cluster, "dgx-00")!;
+  return rackSensors(domain).find((s) => s.name === name)!.reading;
+}
+
+describe("buildNVLinkRacks", () => {
+  it("groups compute trays into racks sharing one NVLink domain", () => {
+    const cluster = createCustomCluster(20, "DGX-GB200");
+    const [first, second] = buildNVLinkRacks(cluster.nodes);
+
+    expect(first.id).toBe("rack-0");
+    expect(first.model).toBe("GB200 NVL72");
+    expect(first.computeTrays).toHaveLength(18);
+    expect(first.switchTrays.map((t) => t.nvswitchIds)).toContainEqual([
+      16, 17,
+    ]);
+    expect(first.cliqueId).toBe(NVLINK_CLIQUE_ID);
+    expect(second.computeTrays).toEqual(["dgx-18", "dgx-19"]);
+    expect(second.clusterUuid).not.toBe(first.clusterUuid);
+  });
+
+  it("derives the racks of clusters saved without them", () => {
+    const cluster = createCustomCluster(18, "DGX-GB200");
+    const { racks, ...saved } = cluster;
+
+    expect(getNVLinkDomain(saved, "dgx-05")?.rack).toEqual(racks![0]);
+    expect(getNVLinkDomain(createCustomCluster(2, "DGX-H100"), "dgx-00")).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("NVL72 domain", () => {
+  it("gives every tray of a rack the same 18 NVSwitches", () => {
+    const cluster = createCustomCluster(19, "DGX-GB200");
+    const uuids = (i: number) =>
+      getNVSwitchFabric(cluster.nodes[i]).nvswitches.map((sw) => sw.uuid);
+
+    expect(uuids(0)).toHaveLength(18);
+    expect(uuids(17)).toEqual(uuids(0));
+    expect(uuids(18)).not.toContain(uuids(0)[0]);
+    // One link of each of the tray's 4 GPUs lands on every switch
+    expect(
+      getNVSwitchFabric(cluster.nodes[0]).nvswitches[5].ports,
+    ).toHaveLength(4);
+  });
+
+  it("pairs two GPUs with each Grace CPU", () => {
+    const node = createCustomCluster(1, "DGX-GB200").nodes[0];
+    expect(node.gpus.map((g) => superchipOf(node, g.id))).toEqual([0, 0, 1, 1]);
+  });
+
+  it("counts the GPUs of every compute tray in the domain", () => {
+    const cluster = createCustomCluster(18, "DGX-GB200");
+    expect(domainGpuCount(getNVLinkDomain(cluster, "dgx-00")!)).toBe(72);
+  });
+
+  it("warms the coolant with the rack's power draw", () => {
+    const cluster = createCustomCluster(18, "DGX-GB200");
+    const idleOutlet = sensorReading(cluster, "Coolant Outlet Temp");
+    expect(idleOutlet).toBeGreaterThan(
+      sensorReading(cluster, "Coolant Inlet Temp"),
+    );
+
+    for (const gpu of cluster.nodes.flatMap((n) => n.gpus)) {
+      gpu.powerDraw = gpu.powerLimit;
+    }
+    expect(sensorReading(cluster, "Coolant Outlet Temp")).toBeGreaterThan(
+      idleOutlet,
+    );
+    expect(sensorReading(cluster, "Rack Power")).toBeGreaterThan(86400);
+  });
+});
+
+describe("tools render the NVLink domain", () => {
+  function contextFor(cluster: ClusterConfig, node = "dgx-01"): CommandContext {
+    return {
+      currentNode: node,
+      currentPath: "/root",
+      environment: {},
+      history: [],
+      scenarioContext: new ScenarioContext("rack-test", cluster),
+    } as CommandContext;
+  }
+
+  it("pins each GPU to the Grace CPU of its superchip in topo -m", () => {
+    const result = new NvidiaSmiSimulator().execute(
+      parse("nvidia-smi topo -m"),
+      contextFor(createCustomCluster(2, "DGX-GB200")),
+    );
+    const lines = result.output.split("\n");
+
+    expect(lines[0]).toBe(
+      "\tGPU0\tGPU1\tGPU2\tGPU3\tmlx5_0\tmlx5_1\tmlx5_2\tmlx5_3\tCPU Affinity\tNUMA Affinity",
+    );
+    expect(lines[1]).toBe(
+      "GPU0\t X\tNV18\tNV18\tNV18\tNODE\tNODE\tSYS\tSYS\t0-71\t0",
+    );
+    expect(lines[3]).toMatch(/SYS\tSYS\tNODE\tNODE\t72-143\t1$/);
+  });
+
+  it("reports the clique and cluster UUID in the fabric section", () => {
+    const cluster = createCustomCluster(2, "DGX-GB200");
+    const node = cluster.nodes[1];
+    const output = formatDisplayFabric(node.gpus[0], node);
+
+    expect(output).toContain(`CliqueId                          : 32766`);
+    expect(output).toContain(cluster.racks![0].clusterUuid);
+  });
+
+  it("shows the rack in nv-fabricmanager status and topo", () => {
+    const context = contextFor(createCustomCluster(18, "DGX-GB200"));
+    const fm = new FabricManagerSimulator();
+
+    const status = fm.execute(parse("nv-fabricmanager status"), context);
+    expect(status.output).toContain("rack-0 (GB200 NVL72)");
+    expect(status.output).toMatch(/Domain GPUs:\s+72/);
+
+    const topo = fm.execute(parse("nv-fabricmanager topo"), context);
+    expect(topo.output).toContain("[ST8]");
+    expect(topo.output).toContain("[C1: G2 G3]");
+    expect(topo.output).toContain(
+      "Full mesh across 72 GPUs in 18 compute trays",
+    );
+  });
+
+  it("lists the rack cooling sensors with the tray's own in ipmitool", () => {
+    const result = new IpmitoolSimulator().execute(
+      parse("ipmitool sensor list"),
+      contextFor(createCustomCluster(2, "DGX-GB200")),
+    );
+    expect(result.output).toContain("CPU1 Temp");
+    expect(result.output).toContain("Coolant Outlet Temp");
+    expect(result.output).toContain("PwrShelf8 Power");
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from "vitest";
+import { createDGXNode, createDefaultCluster } from "../clusterFactory";
+import {
+  applyNVSwitchFabricUpdate,
+  getNVSwitchFabric,
+  gpuFabricState,
+  planFabricManagerInstall,
+  planFabricManagerRestart,
+  planFabricManagerStop,
+  planFabricModeChange,
+  planPartitionChange,
+  unregisteredGpus,
+} from "../nvswitchFabric";
+import { parse } from "../commandParser";
+import { ScenarioContext } from "@/store/scenarioContext";
+import { BasicSystemSimulator } from "@/simulators/basicSystemSimulator";
+import { PciToolsSimulator } from "@/simulators/pciToolsSimulator";
+import { DcgmiSimulator } from "@/simulators/dcgmiSimulator";
+import { NvidiaSmiSimulator } from "@/simulators/nvidiaSmiSimulator";
+import { BenchmarkSimulator } from "@/simulators/benchmarkSimulator";
+import type { ClusterConfig } from "@/types/hardware";
+import type { CommandContext } from "@/types/commands";
+
+function singleNodeCluster(): ClusterConfig {
+  const cluster = createDefaultCluster();
+  return { ...cluster, nodes: [createDGXNode(0, "DGX-H100")] };
+}
+
+function stopFabricManager(cluster: ClusterConfig): void {
+  const update = planFabricManagerStop(cluster.nodes[0], 0).update;
+  applyNVSwitchFabricUpdate(cluster, "dgx-00", update!);
+}
+
+describe("buildNVSwitchFabric", () => {
+  it("spreads every GPU NVLink over the system's NVSwitches", () => {
+    const node = createDGXNode(0, "DGX-H100");
+    const fabric = getNVSwitchFabric(node);
+    const gpuLinks = node.gpus.reduce((n, g) => n + g.nvlinks.length, 0);
+
+    expect(fabric.nvswitches.length).toBeGreaterThan(0);
+    expect(fabric.nvswitches[0].physicalId).toBe(node.gpus.length);
+    expect(fabric.nvswitches.flatMap((sw) => sw.ports)).toHaveLength(gpuLinks);
+  });
+
+  it("starts with Fabric Manager running the driver's version", () => {
+    const node = createDGXNode(0, "DGX-H100");
+    const { fabricManager, mode } = getNVSwitchFabric(node);
+
+    expect(fabricManager.state).toBe("Running");
+    expect(fabricManager.version).toBe(node.nvidiaDriverVersion);
+    expect(mode).toBe("baremetal");
+    expect(unregisteredGpus(node)).toEqual([]);
+  });
+});
+
+describe("Fabric Manager lifecycle", () => {
+  it("unregisters every GPU and untrains its links when stopped", () => {
+    const cluster = singleNodeCluster();
+    stopFabricManager(cluster);
+    const node = cluster.nodes[0];
+
+    expect(unregisteredGpus(node)).toHaveLength(node.gpus.length);
+    expect(gpuFabricState(node, 0).state).toBe("In Progress");
+    expect(node.gpus[0].nvlinks.every((l) => l.status === "Inactive")).toBe(
+      true,
+    );
+  });
+
+  it("keeps a downed link down across a restart", () => {
+    const cluster = singleNodeCluster();
+    const node = cluster.nodes[0];
+    node.gpus[2].nvlinks[1].status = "Down";
+
+    const restart = planFabricManagerRestart(node, 0);
+    applyNVSwitchFabricUpdate(cluster, "dgx-00", restart.update!);
+
+    expect(node.gpus[2].nvlinks[1].status).toBe("Down");
+    expect(node.gpus[2].nvlinks[0].status).toBe("Active");
+  });
+
+  it("fails to start after installing a mismatched version", () => {
+    const cluster = singleNodeCluster();
+    const node = cluster.nodes[0];
+    const install = planFabricManagerInstall(node, "470.82.01", 0);
+    applyNVSwitchFabricUpdate(cluster, "dgx-00", install.update!);
+
+    const fm = getNVSwitchFabric(node).fabricManager;
+    expect(install.error).toContain("don't match with driver version");
+    expect(fm.state).toBe("Failed");
+    expect(fm.version).toBe("470.82.01");
+    expect(unregisteredGpus(node)).toHaveLength(node.gpus.length);
+  });
+});
+
+describe("shared NVSwitch mode", () => {
+  it("only changes FABRIC_MODE while Fabric Manager is stopped", () => {
+    const cluster = singleNodeCluster();
+    expect(planFabricModeChange(cluster.nodes[0], "shared").error).toBeTruthy();
+
+    stopFabricManager(cluster);
+    const change = planFabricModeChange(cluster.nodes[0], "shared");
+    expect(change.error).toBeUndefined();
+    expect(change.update?.mode).toBe("shared");
+  });
+
+  it("registers the GPUs of activated partitions only", () => {
+    const cluster = singleNodeCluster();
+    const node = cluster.nodes[0];
+    stopFabricManager(cluster);
+    applyNVSwitchFabricUpdate(cluster, "dgx-00", { mode: "shared" });
+    applyNVSwitchFabricUpdate(cluster, "dgx-00", {
+      fabricManager: { state: "Running" },
+    });
+    expect(unregisteredGpus(node)).toHaveLength(8);
+
+    // Partition 2 is the second half of the baseboard
+    const activate = planPartitionChange(node, 2, true, 0);
+    applyNVSwitchFabricUpdate(cluster, "dgx-00", activate.update!);
+    expect(unregisteredGpus(node)).toEqual([0, 1, 2, 3]);
+
+    expect(planPartitionChange(node, 0, true, 0).error).toContain(
+      "active partition 2",
+    );
+    expect(planPartitionChange(node, 99, true, 0).error).toContain(
+      "Invalid partition id",
+    );
+  });
+});
+
+describe("tools follow the Fabric Manager service", () => {
+  function contextFor(cluster: ClusterConfig): CommandContext {
+    return {
+      currentNode: "dgx-00",
+      currentPath: "/root",
+      environment: {},
+      history: [],
+      scenarioContext: new ScenarioContext("fabric-test", cluster),
+    } as CommandContext;
+  }
+
+  it("stops and restarts the unit through systemctl", () => {
+    const context = contextFor(singleNodeCluster());
+    const cluster = context.scenarioContext!.getCluster();
+    const system = new BasicSystemSimulator();
+
+    system.execute(parse("systemctl stop nvidia-fabricmanager"), context);
+    expect(getNVSwitchFabric(cluster.nodes[0]).fabricManager.state).toBe(
+      "Stopped",
+    );
+
+    const stopped = system.execute(
+      parse("systemctl status nvidia-fabricmanager"),
+      context,
+    );
+    expect(stopped.output).toContain("inactive (dead)");
+    expect(stopped.output).toContain("Stopped NVIDIA fabric manager service.");
+
+    system.execute(parse("systemctl start nvidia-fabricmanager"), context);
+    const running = system.execute(
+      parse("systemctl status nvidia-fabricmanager"),
+      context,
+    );
+    expect(running.output).toContain("active (running)");
+    expect(running.output).toContain("/usr/bin/nv-fabricmanager");
+  });
+
+  it("reports a failed start in systemctl and journalctl", () => {
+    const context = contextFor(singleNodeCluster());
+    const cluster = context.scenarioContext!.getCluster();
+    applyNVSwitchFabricUpdate(cluster, "dgx-00", {
+      fabricManager: { version: "470.82.01" },
+    });
+
+    const restart = new BasicSystemSimulator().execute(
+      parse("systemctl restart nvidia-fabricmanager"),
+      context,
+    );
+    expect(restart.exitCode).not.toBe(0);
+    expect(restart.output).toContain("journalctl -xeu");
+
+    const journal = new PciToolsSimulator().execute(
+      parse("journalctl -u nvidia-fabricmanager.service"),
+      context,
+    );
+    expect(journal.output).toContain(
+      "fabric manager NVIDIA GPU driver interface version 470.82.01",
+    );
+    expect(journal.output).toContain("Failed with result 'exit-code'");
+  });
+
+  it("shows untrained links as down in dcgmi and inactive in nvidia-smi", () => {
+    const cluster = singleNodeCluster();
+    stopFabricManager(cluster);
+    const context = contextFor(cluster);
+
+    const dcgmi = new DcgmiSimulator().execute(
+      parse("dcgmi nvlink -s"),
+      context,
+    );
+    expect(dcgmi.output).toContain("NvLink Link Status");
+    expect(dcgmi.output).toMatch(/gpuId 0:\n\s+D D/);
+    expect(dcgmi.output).toContain("physicalId 8:");
+
+    const smi = new NvidiaSmiSimulator().execute(
+      parse("nvidia-smi nvlink -s -i 0"),
+      context,
+    );
+    expect(smi.output).toContain("Link 0: <inactive>");
+    expect(smi.output).not.toContain("GPU 1:");
+  });
+
+  it("refuses to run CUDA benchmarks on unregistered GPUs", () => {
+    const cluster = singleNodeCluster();
+    stopFabricManager(cluster);
+
+    const result = new BenchmarkSimulator().execute(
+      parse("nccl-test --operation all_reduce"),
+      contextFor(cluster),
+    );
+    expect(result.exitCode).not.toBe(0);
+    expect(result.output).toContain("system not yet initialized");
+  });
+});
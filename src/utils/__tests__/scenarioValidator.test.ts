@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
 import { ScenarioValidator } from "../scenarioValidator";
+import { narrativeStepToScenarioStep } from "../narrativeAdapter";
+import { createDefaultCluster } from "../clusterFactory";
+import { ScenarioContext } from "@/store/scenarioContext";
 import type { ScenarioStep } from "@/types/scenarios";
 
 /**
@@ -288,3 +291,64 @@ describe("ScenarioValidator - command matching", () => {
     });
   });
 });
+
+describe("ScenarioValidator - state assertions", () => {
+  const drainCommand =
+    "scontrol update nodename=dgx-03 state=drain reason='GPU 2 ECC errors'";
+  const step = narrativeStepToScenarioStep({
+    id: "drain",
+    situation: "GPU 2 on dgx-03 keeps logging ECC errors.",
+    task: "Drain dgx-03 so no new jobs land on it.",
+    expectedCommands: [drainCommand],
+    hints: [],
+    validation: {
+      type: "command",
+      command: "scontrol",
+      pattern: "drain",
+      state: [
+        { node: "dgx-03", path: "slurmState", equals: "drain" },
+        { node: "dgx-03", path: "slurmReason", matches: "ECC" },
+      ],
+    },
+  });
+
+  it("needs the cluster in the asserted state, not just the command", () => {
+    const scenarioContext = new ScenarioContext(
+      "state-test",
+      createDefaultCluster(),
+    );
+    const context = { ...ctx, scenarioContext };
+
+    const typed = ScenarioValidator.validateCommand(
+      "scontrol update nodename=dgx-03 state=resume",
+      "",
+      step,
+      context,
+    );
+    expect(typed.passed).toBe(false);
+    expect(typed.progress).toBe(50);
+    expect(ScenarioValidator.getNextHint(typed, step)).toBe(
+      "Expected dgx-03 slurmState == drain (found idle)",
+    );
+
+    scenarioContext.setSlurmState("dgx-03", "drain", "GPU 2 ECC errors");
+    const fixed = ScenarioValidator.validateCommand(
+      drainCommand,
+      "",
+      step,
+      context,
+    );
+    expect(fixed.passed).toBe(true);
+    expect(
+      ScenarioValidator.isStepComplete(step, [drainCommand], context),
+    ).toBe(true);
+  });
+
+  it("fails state rules outside a scenario", () => {
+    const r = ScenarioValidator.validateCommand(drainCommand, "", step, ctx);
+    expect(r.passed).toBe(false);
+    expect(r.ruleResults[1].message).toBe(
+      "No active scenario to check the state of",
+    );
+  });
+});
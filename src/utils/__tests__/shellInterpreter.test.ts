@@ -0,0 +1,369 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  ShellInterpreter,
+  isIncompleteShellInput,
+  parseShellScript,
+  quoteShellArg,
+  splitShellWords,
+  type ShellIO,
+} from "../shellInterpreter";
+import { parse } from "../commandParser";
+import type { CommandContext, CommandResult } from "@/types/commands";
+
+/**
+ * Minimal fake simulator layer: echo, cat, sinfo, fail, and an in-memory
+ * file table for redirection.
+ */
+function createIO() {
+  const files = new Map<string, string>();
+  const executed: string[] = [];
+  const pipelines: Array<{ line: string; result: CommandResult }> = [];
+
+  const io: ShellIO = {
+    execute: (commandLine, ctx) => {
+      executed.push(commandLine);
+      const parsed = parse(commandLine);
+      const args = parsed.rawArgs;
+      switch (parsed.baseCommand) {
+        case "echo":
+          return { output: args.join(" "), exitCode: 0 };
+        case "hostname":
+          return { output: ctx.currentNode, exitCode: 0 };
+        case "cat": {
+          const content = files.get(args[0]);
+          return content === undefined
+            ? {
+                output: `cat: ${args[0]}: No such file or directory`,
+                exitCode: 1,
+              }
+            : { output: content, exitCode: 0 };
+        }
+        case "sinfo":
+          return { output: "dgx-00\ndgx-01\n", exitCode: 0 };
+        case "fail":
+          return {
+            output: "\x1b[31mfail: something broke\x1b[0m",
+            exitCode: 1,
+          };
+        default:
+          return {
+            output: `bash: ${parsed.baseCommand}: command not found`,
+            exitCode: 127,
+          };
+      }
+    },
+    writeFile: (path, content, append) => {
+      if (path.startsWith("/proc/")) return "Permission denied";
+      const existing = append ? files.get(path) : undefined;
+      files.set(path, existing ? `${existing}\n${content}` : content);
+      return null;
+    },
+    onPipeline: (line, result) => {
+      pipelines.push({ line, result });
+    },
+  };
+
+  return { io, files, executed, pipelines };
+}
+
+function createContext(): CommandContext {
+  return {
+    currentNode: "dgx-00",
+    currentPath: "/root",
+    environment: { HOME: "/root", USER: "root" },
+    history: [],
+  };
+}
+
+describe("parseShellScript", () => {
+  it("parses lists, pipelines and and-or chains", () => {
+    const { script } = parseShellScript("a | b && c || d; e");
+    expect(script).toHaveLength(2);
+    expect(script![0].first.commands).toHaveLength(2);
+    expect(script![0].rest.map((r) => r.operator)).toEqual(["&&", "||"]);
+  });
+
+  it("keeps the typed source of each pipeline", () => {
+    const { script } = parseShellScript('sinfo -o "%n %G" | grep dgx; ls');
+    expect(script![0].first.source).toBe('sinfo -o "%n %G" | grep dgx');
+    expect(script![1].first.source).toBe("ls");
+  });
+
+  it("reports syntax errors like bash", () => {
+    expect(parseShellScript("&& ls").error).toBe(
+      "syntax error near unexpected token `&&'",
+    );
+    expect(parseShellScript("for x in a b; do echo $x").error).toBe(
+      "syntax error near unexpected token `newline'",
+    );
+  });
+
+  it("reports unterminated quotes", () => {
+    expect(parseShellScript("echo 'oops").error).toContain(
+      "unexpected EOF while looking for matching",
+    );
+  });
+});
+
+describe("splitShellWords", () => {
+  it("removes quoting without expanding", () => {
+    expect(splitShellWords(`export A="x y" B='$C' D=$E`)).toEqual([
+      "export",
+      "A=x y",
+      "B=$C",
+      "D=$E",
+    ]);
+  });
+});
+
+describe("quoteShellArg", () => {
+  it("round-trips through the command parser", () => {
+    for (const arg of ["plain", "%n %G", "it's", "a|b", ""]) {
+      const parsed = parse(`cmd ${quoteShellArg(arg)} end`);
+      expect(parsed.rawArgs).toEqual(arg === "" ? ["end"] : [arg, "end"]);
+    }
+  });
+});
+
+describe("ShellInterpreter", () => {
+  let shell: ShellInterpreter;
+  let env: ReturnType<typeof createIO>;
+  let ctx: CommandContext;
+
+  beforeEach(() => {
+    env = createIO();
+    shell = new ShellInterpreter(env.io);
+    ctx = createContext();
+  });
+
+  describe("lists", () => {
+    it("runs commands separated by ; in order", async () => {
+      const result = await shell.run("echo one; echo two", ctx);
+      expect(result.output).toBe("one\ntwo");
+      expect(result.exitCode).toBe(0);
+    });
+
+    it("short-circuits && and ||", async () => {
+      const result = await shell.run(
+        "fail && echo skipped || echo recovered",
+        ctx,
+      );
+      expect(result.output).toContain("fail: something broke");
+      expect(result.output).not.toContain("skipped");
+      expect(result.output).toContain("recovered");
+      expect(result.exitCode).toBe(0);
+    });
+
+    it("negates a pipeline with !", async () => {
+      expect((await shell.run("! fail", ctx)).exitCode).toBe(0);
+      expect((await shell.run("! true", ctx)).exitCode).toBe(1);
+    });
+  });
+
+  describe("expansion", () => {
+    it("expands $VAR, ${VAR} and defaults", async () => {
+      const result = await shell.run(
+        'echo $HOME ${USER} "${MISSING:-fallback}"',
+        ctx,
+      );
+      expect(result.output).toBe("/root root fallback");
+    });
+
+    it("sets shell variables without exporting them", async () => {
+      await shell.run("GPU=3", ctx);
+      expect((await shell.run("echo gpu$GPU", ctx)).output).toBe("gpu3");
+      expect(ctx.environment.GPU).toBeUndefined();
+    });
+
+    it("applies prefix assignments to a single command only", async () => {
+      await shell.run("CUDA_VISIBLE_DEVICES=0 echo hi", ctx);
+      expect(ctx.environment.CUDA_VISIBLE_DEVICES).toBeUndefined();
+    });
+
+    it("tracks $? across commands", async () => {
+      const result = await shell.run("fail; echo $?; echo $?", ctx);
+      expect(result.output).toMatch(/1\n0$/);
+    });
+
+    it("keeps single-quoted text literal", async () => {
+      expect((await shell.run("echo '$HOME'", ctx)).output).toBe("$HOME");
+    });
+
+    it("expands ~ at the start of a word", async () => {
+      expect((await shell.run("echo ~/x", ctx)).output).toBe("/root/x");
+    });
+  });
+
+  describe("command substitution", () => {
+    it("substitutes $(...) and backticks", async () => {
+      const result = await shell.run("echo $(hostname) `hostname`", ctx);
+      expect(result.output).toBe("dgx-00 dgx-00");
+    });
+
+    it("splits unquoted substitution results into words", async () => {
+      const result = await shell.run(
+        "for n in $(sinfo -h -o %n); do echo node:$n; done",
+        ctx,
+      );
+      expect(result.output).toBe("node:dgx-00\nnode:dgx-01");
+    });
+
+    it("keeps quoted substitution results as one word", async () => {
+      const result = await shell.run(
+        'for n in "$(sinfo)"; do echo x; done',
+        ctx,
+      );
+      expect(result.output).toBe("x");
+    });
+
+    it("does not report substituted commands as user pipelines", async () => {
+      await shell.run("echo $(hostname)", ctx);
+      expect(env.pipelines.map((p) => p.line)).toEqual(["echo $(hostname)"]);
+    });
+  });
+
+  describe("redirection", () => {
+    it("writes and appends stdout to files", async () => {
+      await shell.run("echo first > /tmp/out.txt", ctx);
+      await shell.run("echo second >> /tmp/out.txt", ctx);
+      expect(env.files.get("/tmp/out.txt")).toBe("first\nsecond");
+    });
+
+    it("does not show redirected output", async () => {
+      const result = await shell.run("echo hidden > /tmp/a", ctx);
+      expect(result.output).toBe("");
+    });
+
+    it("routes failing command output with 2> and 2>&1", async () => {
+      const toFile = await shell.run("fail 2> /tmp/err", ctx);
+      expect(toFile.output).toBe("");
+      expect(env.files.get("/tmp/err")).toBe("fail: something broke");
+
+      await shell.run("fail > /tmp/both 2>&1", ctx);
+      expect(env.files.get("/tmp/both")).toBe("fail: something broke");
+    });
+
+    it("applies redirections left to right", async () => {
+      const result = await shell.run("fail 2>&1 > /tmp/out", ctx);
+      expect(result.output).toContain("fail: something broke");
+      expect(env.files.get("/tmp/out")).toBe("");
+    });
+
+    it("discards output sent to /dev/null", async () => {
+      const result = await shell.run("echo gone > /dev/null", ctx);
+      expect(result.output).toBe("");
+      expect(env.files.has("/dev/null")).toBe(false);
+    });
+
+    it("reports write failures", async () => {
+      const result = await shell.run("echo x > /proc/foo", ctx);
+      expect(result.output).toBe("bash: /proc/foo: Permission denied");
+      expect(result.exitCode).toBe(1);
+    });
+
+    it("feeds files to filters with <", async () => {
+      env.files.set("/tmp/log", "ok\nXid 79\nok");
+      const result = await shell.run("grep Xid < /tmp/log", ctx);
+      expect(result.output).toBe("Xid 79");
+    });
+  });
+
+  describe("here-documents", () => {
+    it("writes a here-document to a file", async () => {
+      await shell.run("cat <<EOF > /tmp/conf\nA=1\nB=$HOME\nEOF", ctx);
+      expect(env.files.get("/tmp/conf")).toBe("A=1\nB=/root");
+    });
+
+    it("leaves the body unexpanded when the delimiter is quoted", async () => {
+      await shell.run("cat <<'EOF' > /tmp/raw\necho $HOME\nEOF", ctx);
+      expect(env.files.get("/tmp/raw")).toBe("echo $HOME");
+    });
+
+    it("strips leading tabs with <<-", async () => {
+      const result = await shell.run("cat <<-END\n\tindented\n\tEND", ctx);
+      expect(result.output).toBe("indented");
+    });
+
+    it("runs commands after the delimiter", async () => {
+      const result = await shell.run("grep b <<EOF\na\nb\nEOF\necho done", ctx);
+      expect(result.output).toBe("b\ndone");
+    });
+
+    it("detects input still waiting for its delimiter", () => {
+      expect(isIncompleteShellInput("cat <<EOF > /tmp/x")).toBe(true);
+      expect(isIncompleteShellInput("cat <<EOF > /tmp/x\nline")).toBe(true);
+      expect(isIncompleteShellInput("cat <<EOF > /tmp/x\nline\nEOF")).toBe(
+        false,
+      );
+      expect(isIncompleteShellInput("echo '<<EOF'")).toBe(false);
+    });
+  });
+
+  describe("pipelines", () => {
+    it("filters output through pipe stages", async () => {
+      const result = await shell.run("sinfo | grep 01", ctx);
+      expect(result.output).toBe("dgx-01");
+    });
+
+    it("sets grep's exit code from whether anything matched", async () => {
+      env.files.set("/tmp/gpu.txt", "GPU 0: healthy");
+      const result = await shell.run(
+        "cat /tmp/gpu.txt | grep -i xid && echo found || echo clean",
+        ctx,
+      );
+      expect(result.output).toBe("clean");
+    });
+
+    it("writes tee input to files and passes it through", async () => {
+      const result = await shell.run("echo data | tee /tmp/t", ctx);
+      expect(result.output).toBe("data");
+      expect(env.files.get("/tmp/t")).toBe("data");
+    });
+
+    it("reports each top-level pipeline once", async () => {
+      await shell.run("echo a | grep a; fail; nosuchcmd", ctx);
+      expect(env.pipelines.map((p) => p.line)).toEqual([
+        "echo a | grep a",
+        "fail",
+      ]);
+    });
+  });
+
+  describe("compound commands", () => {
+    it("runs if/elif/else branches", async () => {
+      const script =
+        'if [ "$X" = a ]; then echo A; elif [ -z "$X" ]; then echo empty; else echo other; fi';
+      expect((await shell.run(script, ctx)).output).toBe("empty");
+      await shell.run("X=a", ctx);
+      expect((await shell.run(script, ctx)).output).toBe("A");
+    });
+
+    it("evaluates numeric and file tests", async () => {
+      env.files.set("/tmp/f", "x");
+      const result = await shell.run(
+        "[ 3 -gt 2 ] && echo gt; test -f /tmp/f && echo file; [ -e /tmp/none ] || echo none",
+        ctx,
+      );
+      expect(result.output).toBe("gt\nfile\nnone");
+    });
+
+    it("iterates for loops over words", async () => {
+      const result = await shell.run(
+        "for i in 0 1 2; do echo gpu$i; done",
+        ctx,
+      );
+      expect(result.output).toBe("gpu0\ngpu1\ngpu2");
+    });
+  });
+
+  it("passes arguments to simulators with quoting preserved", async () => {
+    await shell.run('echo "a  b" c', ctx);
+    expect(env.executed).toEqual(["echo 'a  b' c"]);
+  });
+
+  it("returns exit code 2 for syntax errors", async () => {
+    const result = await shell.run("echo a ||", ctx);
+    expect(result.exitCode).toBe(2);
+    expect(result.output).toContain("syntax error");
+  });
+});
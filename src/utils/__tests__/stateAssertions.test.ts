@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  describeStateAssertion,
+  evaluateStateAssertion,
+  evaluateStateAssertions,
+  validateStateAssertion,
+} from "../stateAssertions";
+import { createGpuInstance } from "../migEngine";
+import { createDefaultCluster } from "../clusterFactory";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import type { ClusterConfig } from "@/types/hardware";
+
+describe("State assertions", () => {
+  let cluster: ClusterConfig;
+
+  beforeEach(() => {
+    cluster = createDefaultCluster();
+  });
+
+  it("checks a node's Slurm state and reason", () => {
+    const drained = [
+      { node: "dgx-03", path: "slurmState", equals: "drain" },
+      { node: "dgx-03", path: "slurmReason", matches: "ECC" },
+    ];
+    expect(evaluateStateAssertions(drained, cluster, "dgx-00")).toEqual({
+      passed: false,
+      message: "Expected dgx-03 slurmState == drain (found idle)",
+    });
+
+    cluster.nodes[3].slurmState = "drain";
+    cluster.nodes[3].slurmReason = "GPU 2 ecc errors";
+    expect(evaluateStateAssertions(drained, cluster, "dgx-00").passed).toBe(
+      true,
+    );
+
+    // Without a node, the assertion is about the node the learner is on
+    const current = { path: "slurmState", equals: "drain" };
+    expect(evaluateStateAssertion(current, cluster, "dgx-03").passed).toBe(
+      true,
+    );
+    expect(evaluateStateAssertion(current, cluster, "dgx-00").passed).toBe(
+      false,
+    );
+    expect(evaluateStateAssertion(current, cluster, "dgx-99").message).toBe(
+      "Node dgx-99 not found",
+    );
+  });
+
+  it("counts MIG instances by profile", () => {
+    const spec = getHardwareSpecs("DGX-A100");
+    const gpu = cluster.nodes[0].gpus[2];
+    const migged = [
+      { node: "dgx-00", gpu: 2, path: "migMode", equals: true },
+      {
+        node: "dgx-00",
+        gpu: 2,
+        path: "migInstances",
+        where: { profile: "^3g\\." },
+        count: 2,
+      },
+    ];
+    expect(evaluateStateAssertions(migged, cluster, "dgx-00").passed).toBe(
+      false,
+    );
+
+    gpu.migMode = true;
+    const create = (profiles: string[]) => {
+      gpu.migInstances = [];
+      for (const profile of profiles) {
+        gpu.migInstances = createGpuInstance(spec, gpu, profile).migInstances!;
+      }
+    };
+    create(["3g.40gb", "1g.10gb"]);
+    expect(evaluateStateAssertions(migged, cluster, "dgx-00")).toEqual({
+      passed: false,
+      message:
+        "Expected dgx-00 GPU 2 migInstances [profile ~ /^3g\\./] count == 2 (found 1 matching entries)",
+    });
+
+    create(["3g.40gb", "3g.40gb"]);
+    expect(evaluateStateAssertions(migged, cluster, "dgx-00").passed).toBe(
+      true,
+    );
+    expect(
+      evaluateStateAssertion(
+        { node: "dgx-00", gpu: 9, path: "migMode", equals: true },
+        cluster,
+        "dgx-00",
+      ).message,
+    ).toBe("Expected dgx-00 GPU 9 migMode == true (dgx-00 has no GPU 9)");
+  });
+
+  it("filters and bounds values collected through arrays", () => {
+    const noCritical = {
+      node: "dgx-01",
+      path: "gpus.xidErrors",
+      where: { severity: "Critical" },
+      count: 0,
+      message: "Critical XIDs remain on dgx-01",
+    };
+    cluster.nodes[1].gpus[4].xidErrors.push({
+      code: 43,
+      timestamp: new Date(0),
+      description: "GPU stopped processing",
+      severity: "Warning",
+    });
+    expect(evaluateStateAssertion(noCritical, cluster, "dgx-00").passed).toBe(
+      true,
+    );
+
+    cluster.nodes[1].gpus[5].xidErrors.push({
+      code: 79,
+      timestamp: new Date(0),
+      description: "GPU has fallen off the bus",
+      severity: "Critical",
+    });
+    expect(evaluateStateAssertion(noCritical, cluster, "dgx-00")).toEqual({
+      passed: false,
+      message: "Critical XIDs remain on dgx-01",
+    });
+
+    // Every GPU on every node must be under the bound
+    const cool = { node: "*", path: "gpus.temperature", max: 85 };
+    expect(evaluateStateAssertion(cool, cluster, "dgx-00").passed).toBe(true);
+    cluster.nodes[6].gpus[1].temperature = 92;
+    expect(evaluateStateAssertion(cool, cluster, "dgx-00").message).toBe(
+      "Expected dgx-06 gpus.temperature <= 85 (found 92)",
+    );
+    expect(describeStateAssertion(cool, "every node")).toBe(
+      "every node gpus.temperature <= 85",
+    );
+  });
+
+  it("does not reach past the cluster's own properties", () => {
+    expect(
+      evaluateStateAssertion(
+        { path: "constructor.name", equals: "Object" },
+        cluster,
+        "dgx-00",
+      ).passed,
+    ).toBe(false);
+  });
+
+  it("reports malformed assertions", () => {
+    expect(
+      validateStateAssertion({
+        node: "dgx-00",
+        path: "slurmState",
+        equals: "drain",
+      }),
+    ).toEqual([]);
+    expect(validateStateAssertion({ node: 3, path: "" })).toEqual([
+      'State assertion needs a "path"',
+      '"node" must be a node ID or "*"',
+      "State assertion needs one of equals, matches, min, max, count",
+    ]);
+    expect(
+      validateStateAssertion({
+        path: "gpus.xidErrors",
+        matches: "(",
+        where: { severity: ["Critical"] },
+      }),
+    ).toEqual([
+      '"matches" is not a valid pattern: (',
+      '"where.severity" is not a valid value',
+    ]);
+  });
+});
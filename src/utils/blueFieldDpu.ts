@@ -0,0 +1,455 @@
+/**
+ * BlueField DPU
+ *
+ * The mode each BlueField runs in and the Arm-side system behind it. In DPU
+ * mode the Arm cores own the embedded switch: the host's PFs only reach the
+ * wire through the OVS bridges on the Arm OS, which join each uplink (p0,
+ * p1) to the representor of the host PF (pf0hpf, pf1hpf) and those of any
+ * scalable functions. Restricted DPU mode works the same but keeps the host
+ * from reconfiguring the device. In separated-host mode the Arm and the
+ * host each get PFs of their own, and in NIC mode the Arm cores are off and
+ * the device behaves like a ConnectX.
+ *
+ * mlxconfig, and mlxprivhost on the Arm side, only stage a mode; nodePower
+ * applies it when the node is power cycled. The Arm OS is reached over
+ * rshim - its console, or ssh across the tmfifo link - in every mode but
+ * NIC, and bfb-install pushes a new one through it. DPUs nothing has changed
+ * on the Arm side yet get the bridges and SFs a fresh BFB install creates.
+ */
+
+import type {
+  BlueFieldArmState,
+  BlueFieldDPU,
+  BlueFieldMode,
+  ClusterConfig,
+  DGXNode,
+} from "@/types/hardware";
+import { blueFieldModel } from "./firmwareInventory";
+
+export type BlueFieldModeName = BlueFieldMode["mode"];
+
+export const BLUEFIELD_MODES: Record<BlueFieldModeName, BlueFieldMode> = {
+  DPU: {
+    mode: "DPU",
+    internalCpuModel: 1,
+    description: "DPU mode - Arm cores own NIC resources",
+  },
+  RestrictedDPU: {
+    mode: "RestrictedDPU",
+    internalCpuModel: 1,
+    description:
+      "Restricted DPU mode - Arm cores own NIC resources, host is restricted",
+  },
+  NIC: {
+    mode: "NIC",
+    internalCpuModel: 1,
+    description: "NIC mode - DPU acts as standard NIC, Arm disabled",
+  },
+  SeparatedHost: {
+    mode: "SeparatedHost",
+    internalCpuModel: 0,
+    description:
+      "Separated host mode - Arm and host each own network functions",
+  },
+};
+
+/**
+ * The mlxconfig parameters that select the mode, with the names of their
+ * values by number. NIC mode hands everything the Arm owns to the host.
+ */
+export const MODE_PARAMETERS: Record<string, string[]> = {
+  INTERNAL_CPU_MODEL: ["SEPARATED_HOST", "EMBEDDED_CPU"],
+  INTERNAL_CPU_PAGE_SUPPLIER: ["ECPF", "EXT_HOST_PF"],
+  INTERNAL_CPU_ESWITCH_MANAGER: ["ECPF", "EXT_HOST_PF"],
+  INTERNAL_CPU_IB_VPORT0: ["ECPF", "EXT_HOST_PF"],
+  INTERNAL_CPU_OFFLOAD_ENGINE: ["ENABLED", "DISABLED"],
+};
+
+// Physical functions, and uplinks, of each BlueField
+export const PF_COUNT = 2;
+
+// The Arm OS sees its PFs on bus 03, and numbers SFs from a base per PF
+const ARM_PCI_BUS = 3;
+const SF_INDEX_BASE = [229408, 294944];
+
+export type BlueFieldAction = "stage-mode" | "install" | "ovs" | "sf" | "link";
+
+/**
+ * A change to a DPU, planned against its current state so that replaying
+ * it gives the same result
+ */
+export interface BlueFieldUpdate {
+  action: BlueFieldAction;
+  dpu: BlueFieldDPU;
+}
+
+/**
+ * The outcome of a BlueField request. Without an update nothing changes.
+ */
+export interface BlueFieldPlan {
+  update?: BlueFieldUpdate;
+  error?: string;
+}
+
+/**
+ * An interface on the Arm OS, as `ip link` lists it
+ */
+export interface ArmLink {
+  name: string;
+  kind: "loopback" | "ether" | "bridge";
+  mac: string;
+  up: boolean;
+  master?: string;
+}
+
+/** The Arm cores run in every mode but NIC */
+export function isArmRunning(dpu: BlueFieldDPU): boolean {
+  return dpu.mode.mode !== "NIC";
+}
+
+/** The host sees the DPU's rshim while the Arm side is up */
+export function isRshimPresent(dpu: BlueFieldDPU): boolean {
+  return dpu.rshimAvailable && isArmRunning(dpu);
+}
+
+/** In DPU and restricted DPU mode the Arm OS manages the embedded switch */
+export function ownsEswitch(dpu: BlueFieldDPU): boolean {
+  return dpu.mode.mode === "DPU" || dpu.mode.mode === "RestrictedDPU";
+}
+
+export function armAddress(dpu: BlueFieldDPU): string {
+  return dpu.ipAddress ?? "192.168.100.2";
+}
+
+export function findDpuByArmAddress(
+  node: DGXNode,
+  address: string,
+): BlueFieldDPU | undefined {
+  return (node.dpus ?? []).find((dpu) => armAddress(dpu) === address);
+}
+
+/**
+ * The value of each mode parameter, formatted the way mlxconfig shows it
+ */
+export function modeParameterValues(mode: BlueFieldMode): [string, string][] {
+  const offloaded = mode.mode === "NIC" ? 1 : 0;
+  return Object.entries(MODE_PARAMETERS).map(([key, names]) => {
+    const value =
+      key === "INTERNAL_CPU_MODEL" ? mode.internalCpuModel : offloaded;
+    return [key, `${names[value]}(${value})`];
+  });
+}
+
+/** The mode the DPU runs after its next power cycle */
+export function nextMode(dpu: BlueFieldDPU): BlueFieldMode {
+  return dpu.pendingMode ?? dpu.mode;
+}
+
+// Stage a mode, or drop the staged one when the DPU already runs it
+function stageMode(dpu: BlueFieldDPU, mode: BlueFieldModeName): BlueFieldPlan {
+  if (nextMode(dpu).mode === mode) return {};
+  const draft = structuredClone(dpu);
+  if (mode === dpu.mode.mode) {
+    delete draft.pendingMode;
+  } else {
+    draft.pendingMode = { ...BLUEFIELD_MODES[mode] };
+  }
+  return { update: { action: "stage-mode", dpu: draft } };
+}
+
+/**
+ * Plan `mlxconfig set` of mode parameters, by value or by name. Parameters
+ * other than the CPU model and offload engine go along with them.
+ */
+export function planModeParameters(
+  dpu: BlueFieldDPU,
+  settings: [string, string][],
+): BlueFieldPlan {
+  const next = nextMode(dpu);
+  let cpuModel = next.internalCpuModel;
+  let offloaded = next.mode === "NIC" ? 1 : 0;
+  for (const [key, raw] of settings) {
+    const names = MODE_PARAMETERS[key];
+    if (!names) return { error: `The Device doesn't support ${key} parameter` };
+    const value = /^\d+$/.test(raw) ? Number(raw) : names.indexOf(raw);
+    if (value < 0 || value >= names.length) {
+      return { error: `Bad parameter value for ${key}: ${raw}` };
+    }
+    if (key === "INTERNAL_CPU_MODEL") cpuModel = value;
+    if (key === "INTERNAL_CPU_OFFLOAD_ENGINE") offloaded = value;
+  }
+  if (cpuModel === 0) return stageMode(dpu, "SeparatedHost");
+  if (offloaded === 1) return stageMode(dpu, "NIC");
+  return stageMode(
+    dpu,
+    next.mode === "RestrictedDPU" ? "RestrictedDPU" : "DPU",
+  );
+}
+
+/**
+ * Plan mlxprivhost restricting the host, or giving it back its privileges.
+ * Only a DPU whose Arm cores own the device can restrict the host.
+ */
+export function planHostPrivilege(
+  dpu: BlueFieldDPU,
+  restricted: boolean,
+): BlueFieldPlan {
+  const next = nextMode(dpu).mode;
+  if (next !== "DPU" && next !== "RestrictedDPU") {
+    return { error: "Host restriction is only supported in DPU mode" };
+  }
+  return stageMode(dpu, restricted ? "RestrictedDPU" : "DPU");
+}
+
+/**
+ * Apply the modes mlxconfig and mlxprivhost staged, in place. Only a power
+ * cycle does this; the DPU stays powered through a reboot or reset.
+ */
+export function activateStagedModes(node: DGXNode): void {
+  for (const dpu of node.dpus ?? []) {
+    if (!dpu.pendingMode) continue;
+    dpu.mode = dpu.pendingMode;
+    delete dpu.pendingMode;
+  }
+}
+
+export function macAddress(dpu: BlueFieldDPU, index: number): string {
+  const hex = (n: number) => n.toString(16).padStart(2, "0");
+  return `0c:42:a1:${hex(dpu.id)}:${hex(index)}:7e`;
+}
+
+export function sfRepresentor(pfnum: number, sfnum: number): string {
+  return `en${ARM_PCI_BUS}f${pfnum}pf${pfnum}sf${sfnum}`;
+}
+
+export function sfNetdev(pfnum: number, sfnum: number): string {
+  return `enp${ARM_PCI_BUS}s0f${pfnum}s${sfnum}`;
+}
+
+/** The Arm-side PCI address of a PF */
+export function armPciAddress(pfnum: number): string {
+  return `0000:${ARM_PCI_BUS.toString().padStart(2, "0")}:00.${pfnum}`;
+}
+
+export function sfIndex(pfnum: number, sfnum: number): string {
+  return `pci/${armPciAddress(pfnum)}/${SF_INDEX_BASE[pfnum] + sfnum}`;
+}
+
+/**
+ * What a fresh BFB install sets up: a bridge per uplink holding it, the host
+ * PF's representor and that of one SF
+ */
+export function defaultArmState(dpu: BlueFieldDPU): BlueFieldArmState {
+  const pfs = Array.from({ length: PF_COUNT }, (_, pf) => pf);
+  return {
+    bridges: pfs.map((pf) => ({
+      name: `ovsbr${pf + 1}`,
+      ports: [`p${pf}`, `pf${pf}hpf`, sfRepresentor(pf, 0)],
+    })),
+    subFunctions: pfs.map((pf) => ({
+      pfnum: pf,
+      sfnum: 0,
+      hwaddr: macAddress(dpu, 0x10 + pf),
+    })),
+    linksDown: [],
+  };
+}
+
+export function getArmState(dpu: BlueFieldDPU): BlueFieldArmState {
+  if (dpu.arm) return dpu.arm;
+  const arm = defaultArmState(dpu);
+  return dpu.ovsConfigured ? arm : { ...arm, bridges: [] };
+}
+
+/**
+ * The interfaces on the Arm OS. Representors only exist while it manages
+ * the embedded switch.
+ */
+export function armLinks(dpu: BlueFieldDPU): ArmLink[] {
+  const arm = getArmState(dpu);
+  const links: ArmLink[] = [
+    { name: "lo", kind: "loopback", mac: "00:00:00:00:00:00", up: true },
+  ];
+  const add = (name: string, mac: string, kind: ArmLink["kind"] = "ether") => {
+    links.push({
+      name,
+      kind,
+      mac,
+      up: !arm.linksDown.includes(name),
+      master: arm.bridges.some((b) => b.ports.includes(name))
+        ? "ovs-system"
+        : undefined,
+    });
+  };
+  add("tmfifo_net0", "00:1a:ca:ff:ff:01");
+  add("oob_net0", macAddress(dpu, 1));
+  for (let pf = 0; pf < PF_COUNT; pf++) add(`p${pf}`, macAddress(dpu, 2 + pf));
+  if (ownsEswitch(dpu)) {
+    for (let pf = 0; pf < PF_COUNT; pf++) {
+      add(`pf${pf}hpf`, macAddress(dpu, 4 + pf));
+    }
+    arm.subFunctions.forEach((sf, i) => {
+      add(sfRepresentor(sf.pfnum, sf.sfnum), macAddress(dpu, 0x20 + i));
+    });
+    for (const sf of arm.subFunctions)
+      add(sfNetdev(sf.pfnum, sf.sfnum), sf.hwaddr);
+  }
+  if (arm.bridges.length > 0) {
+    links.push({
+      name: "ovs-system",
+      kind: "ether",
+      mac: macAddress(dpu, 0x40),
+      up: false,
+    });
+  }
+  arm.bridges.forEach((bridge, i) => {
+    add(bridge.name, macAddress(dpu, 0x41 + i), "bridge");
+  });
+  return links;
+}
+
+/**
+ * Whether a host PF passes traffic. While the Arm OS manages the embedded
+ * switch that takes an OVS bridge joining the uplink to the PF's
+ * representor, with both links up.
+ */
+export function isHostPortUp(dpu: BlueFieldDPU, pf: number): boolean {
+  if (!ownsEswitch(dpu)) return true;
+  const arm = getArmState(dpu);
+  const uplink = `p${pf}`;
+  const representor = `pf${pf}hpf`;
+  return (
+    !arm.linksDown.includes(uplink) &&
+    !arm.linksDown.includes(representor) &&
+    arm.bridges.some(
+      (b) => b.ports.includes(uplink) && b.ports.includes(representor),
+    )
+  );
+}
+
+// The PCI bus of the DPU on the host, from its address
+function hostBus(dpu: BlueFieldDPU): number {
+  return parseInt(dpu.pciAddress.split(":")[1] ?? "0", 16);
+}
+
+/** The host netdev of one of the DPU's PFs */
+export function hostNetdev(dpu: BlueFieldDPU, pf: number): string {
+  return `enp${hostBus(dpu)}s0f${pf}np${pf}`;
+}
+
+/**
+ * The PCI functions the host sees: a network controller per PF and, unless
+ * the Arm cores are off, the SoC management interface rshim talks through
+ */
+export function hostPciFunctions(
+  dpu: BlueFieldDPU,
+): { address: string; description: string }[] {
+  const base = dpu.pciAddress.replace(/\.\d+$/, "");
+  const [chip, nic] =
+    blueFieldModel(dpu) === "BlueField-3"
+      ? ["MT43244 BlueField-3", "ConnectX-7"]
+      : ["MT42822 BlueField-2", "ConnectX-6 Dx"];
+  const functions = Array.from({ length: PF_COUNT }, (_, pf) => ({
+    address: `${base}.${pf}`,
+    description: `Ethernet controller: Mellanox Technologies ${chip} integrated ${nic} network controller (rev 01)`,
+  }));
+  if (isArmRunning(dpu)) {
+    functions.push({
+      address: `${base}.${PF_COUNT}`,
+      description: `DMA controller: Mellanox Technologies ${chip} SoC Management Interface (rev 01)`,
+    });
+  }
+  return functions;
+}
+
+/** The contents of /dev/rshim<N>/misc */
+export function rshimMisc(dpu: BlueFieldDPU): string {
+  const base = dpu.pciAddress.replace(/\.\d+$/, "");
+  return [
+    "DISPLAY_LEVEL   0 (0:basic, 1:advanced, 2:log)",
+    `BF_MODE         ${dpu.mode.mode === "SeparatedHost" ? "Separated Host" : "DPU mode"}`,
+    "BOOT_MODE       1 (0:rshim, 1:emmc, 2:emmc-boot-swap)",
+    "BOOT_TIMEOUT    150 (seconds)",
+    "USB_TIMEOUT     40 (seconds)",
+    "DROP_MODE       0 (0:normal, 1:drop)",
+    "SW_RESET        0 (1: reset)",
+    `DEV_NAME        pcie-${base}.${PF_COUNT}`,
+    `DEV_INFO        ${blueFieldModel(dpu)}(Rev 1)`,
+    "OPN_STR         N/A",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Plan a change on the Arm side to the given state. Whether OVS counts as
+ * configured follows its bridges.
+ */
+export function planArmChange(
+  dpu: BlueFieldDPU,
+  action: Exclude<BlueFieldAction, "stage-mode" | "install">,
+  arm: BlueFieldArmState,
+): BlueFieldPlan {
+  const draft = structuredClone(dpu);
+  draft.arm = structuredClone(arm);
+  draft.ovsConfigured = arm.bridges.length > 0;
+  return { update: { action, dpu: draft } };
+}
+
+/**
+ * Plan pushing a BFB image through rshim: the Arm OS is reinstalled and
+ * comes back with a fresh OVS and SF setup. DOCA BFB names carry the
+ * release they install.
+ */
+export function planBfbInstall(
+  dpu: BlueFieldDPU,
+  image: string,
+): BlueFieldPlan {
+  if (!isRshimPresent(dpu)) {
+    return { error: `rshim${dpu.id} is not available` };
+  }
+  const name = image.split("/").pop() ?? image;
+  if (!name.endsWith(".bfb")) {
+    return { error: `${image} is not a BFB image` };
+  }
+  const release = name.match(/DOCA_([\d.]+)_BSP_[\d.]+_Ubuntu_([\d.]+)/);
+  const draft = structuredClone(dpu);
+  draft.armOS = release
+    ? `Ubuntu ${release[2]} LTS (DOCA ${release[1]})`
+    : dpu.armOS;
+  draft.arm = defaultArmState(dpu);
+  draft.ovsConfigured = true;
+  return { update: { action: "install", dpu: draft } };
+}
+
+export function applyBlueFieldUpdate(
+  cluster: ClusterConfig,
+  nodeId: string,
+  update: BlueFieldUpdate,
+): void {
+  const node = cluster.nodes.find((n) => n.id === nodeId);
+  if (!node) return;
+  node.dpus = (node.dpus ?? []).map((dpu) =>
+    dpu.id === update.dpu.id ? structuredClone(update.dpu) : dpu,
+  );
+}
+
+/**
+ * A short account of an update for logs and state history
+ */
+export function describeBlueFieldUpdate(update: BlueFieldUpdate): string {
+  const { dpu } = update;
+  switch (update.action) {
+    case "stage-mode":
+      return dpu.pendingMode
+        ? `Staged ${dpu.pendingMode.mode} mode on DPU${dpu.id}`
+        : `Cleared the staged mode on DPU${dpu.id}`;
+    case "install":
+      return `Installed ${dpu.armOS} on DPU${dpu.id}`;
+    case "ovs":
+      return `Changed OVS bridges on DPU${dpu.id}`;
+    case "sf":
+      return `Changed scalable functions on DPU${dpu.id}`;
+    case "link":
+      return `Changed Arm links on DPU${dpu.id}`;
+  }
+}
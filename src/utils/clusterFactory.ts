@@ -1,6 +1,7 @@
 import type {
   ClusterConfig,
   DGXNode,
+  FabricSwitchCounts,
   GPU,
   GPUType,
   BlueFieldDPU,
@@ -15,71 +16,24 @@ import {
   type SystemType,
   type HardwareSpec,
 } from "@/data/hardwareSpecs";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { buildInfiniBandFabric, sweepSubnet } from "./infinibandFabric";
+import { buildNVSwitchFabric } from "./nvswitchFabric";
+import { buildNVLinkRacks } from "./nvlinkRack";
+import { derivePartitions } from "@/simulation/slurmPartitions";
 
 const GPU_TYPE_MAP: Record<SystemType, GPUType> = {
   "DGX-A100": "A100-80GB",
   "DGX-H100": "H100-SXM",
   "DGX-H200": "H200-SXM",
   "DGX-B200": "B200",
-  "DGX-GB200": "B200",
+  "DGX-GB200": "GB200",
   "DGX-VR200": "R200",
 };
 
-// MIG profiles for A100/H100
-export const MIG_PROFILES = [
-  {
-    id: 19,
-    name: "1g.5gb",
-    memory: 4.75,
-    computeSlices: 14,
-    gpuInstances: 1,
-    maxInstances: 7,
-  },
-  {
-    id: 20,
-    name: "1g.10gb",
-    memory: 9.62,
-    computeSlices: 14,
-    gpuInstances: 1,
-    maxInstances: 4,
-  },
-  {
-    id: 14,
-    name: "2g.10gb",
-    memory: 9.62,
-    computeSlices: 28,
-    gpuInstances: 2,
-    maxInstances: 3,
-  },
-  {
-    id: 9,
-    name: "3g.20gb",
-    memory: 19.5,
-    computeSlices: 42,
-    gpuInstances: 3,
-    maxInstances: 2,
-  },
-  {
-    id: 5,
-    name: "4g.20gb",
-    memory: 19.5,
-    computeSlices: 56,
-    gpuInstances: 4,
-    maxInstances: 1,
-  },
-  {
-    id: 0,
-    name: "7g.40gb",
-    memory: 39.25,
-    computeSlices: 98,
-    gpuInstances: 7,
-    maxInstances: 1,
-  },
-];
-
 function generateUUID(): string {
   const uuid = "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
+    const r = (simulationRandom.next() * 16) | 0;
     const v = c === "x" ? r : (r & 0x3) | 0x8;
     return v.toString(16);
   });
@@ -104,9 +58,10 @@ function createGPU(id: number, specs: HardwareSpec): GPU {
     name: specs.gpu.model,
     type: GPU_TYPE_MAP[specs.system.type] || "A100-80GB",
     pciAddress: `00000000:${(0x10 + id).toString(16).padStart(2, "0")}:00.0`,
-    temperature: 30 + Math.random() * 10,
+    temperature: 30 + simulationRandom.next() * 10,
     powerDraw:
-      specs.gpu.tdpWatts * 0.6 + Math.random() * specs.gpu.tdpWatts * 0.2,
+      specs.gpu.tdpWatts * 0.6 +
+      simulationRandom.next() * specs.gpu.tdpWatts * 0.2,
     powerLimit: specs.gpu.tdpWatts,
     memoryTotal: specs.gpu.memoryMiB,
     memoryUsed: 0,
@@ -163,7 +118,8 @@ function createInfiniBandPort(
     physicalState: "LinkUp",
     rate: specs.network.portRateGbs as 100 | 200 | 400 | 800 | 1600,
     lid: 100 + portNum,
-    guid: `0x${Math.floor(Math.random() * 0xffffffffffff)
+    guid: `0x${simulationRandom
+      .int(0xffffffffffff)
       .toString(16)
       .padStart(12, "0")}`,
     linkLayer: "InfiniBand",
@@ -310,6 +266,7 @@ function createBMC(nodeId: number): BMC {
 export function createDGXNode(
   id: number,
   systemType: SystemType = "DGX-A100",
+  hcaCount?: number,
 ): DGXNode {
   const specs = getHardwareSpecs(systemType);
   const cpu = specs.system.cpu;
@@ -325,7 +282,7 @@ export function createDGXNode(
   const versions =
     driverVersions[specs.system.generation] || driverVersions["Ampere"];
 
-  return {
+  const node: DGXNode = {
     id: `dgx-${id.toString().padStart(2, "0")}`,
     hostname: `dgx-${id.toString().padStart(2, "0")}.cluster.local`,
     systemType,
@@ -335,7 +292,7 @@ export function createDGXNode(
     dpus: Array.from({ length: 2 }, (_, i) =>
       createBlueFieldDPU(i, systemType),
     ),
-    hcas: Array.from({ length: specs.network.hcaCount }, (_, i) =>
+    hcas: Array.from({ length: hcaCount ?? specs.network.hcaCount }, (_, i) =>
       createInfiniBandHCA(i, specs),
     ),
     bmc: createBMC(id),
@@ -350,13 +307,46 @@ export function createDGXNode(
     healthStatus: "OK",
     slurmState: "idle",
   };
+  if (specs.rack) {
+    // Compute trays fill racks in order, sharing their NVLink switch trays
+    node.rackSlot = {
+      rack: Math.floor(id / specs.rack.computeTrays),
+      tray: id % specs.rack.computeTrays,
+    };
+  }
+  node.nvswitchFabric = buildNVSwitchFabric(node);
+  return node;
+}
+
+/**
+ * Cable the cluster into its fabric and run the first subnet sweep, which
+ * hands out the host LIDs after the switches and elects the master SM.
+ * Rack-scale compute trays are grouped into their NVLink racks.
+ */
+function withFabric(cluster: ClusterConfig): ClusterConfig {
+  for (const port of cluster.nodes.flatMap((n) =>
+    n.hcas.flatMap((h) => h.ports),
+  )) {
+    port.lid = 0;
+  }
+  cluster.infiniband = buildInfiniBandFabric(
+    cluster.nodes,
+    cluster.fabricTopology,
+    cluster.fabricSwitches,
+  );
+  sweepSubnet(cluster);
+  const racks = buildNVLinkRacks(cluster.nodes);
+  if (racks.length > 0) cluster.racks = racks;
+  return cluster;
 }
 
 export function createDefaultCluster(): ClusterConfig {
-  return {
+  const nodes = Array.from({ length: 8 }, (_, i) => createDGXNode(i));
+
+  return withFabric({
     name: "DGX SuperPOD",
-    nodes: Array.from({ length: 8 }, (_, i) => createDGXNode(i)),
-    fabricTopology: "FatTree",
+    nodes,
+    fabricTopology: "RailOptimized",
     bcmHA: {
       enabled: true,
       primary: "mgmt-node0",
@@ -367,7 +357,7 @@ export function createDefaultCluster(): ClusterConfig {
       controlMachine: "mgmt-node0",
       partitions: ["batch", "interactive", "gpu"],
     },
-  };
+  });
 }
 
 export function createCustomCluster(
@@ -378,10 +368,10 @@ export function createCustomCluster(
     createDGXNode(i, systemType),
   );
 
-  return {
+  return withFabric({
     name: `${systemType} Cluster`,
     nodes,
-    fabricTopology: "FatTree",
+    fabricTopology: "RailOptimized",
     bcmHA: {
       enabled: true,
       primary: "mgmt-node0",
@@ -392,6 +382,159 @@ export function createCustomCluster(
       controlMachine: "mgmt-node0",
       partitions: ["batch", "interactive", "gpu"],
     },
+  });
+}
+
+/** A run of nodes of one system type in a mixed cluster */
+export interface NodeGroup {
+  systemType: SystemType;
+  count: number;
+  /** Compute fabric HCAs cabled per node; all of the system's by default */
+  hcaCount?: number;
+}
+
+/**
+ * Slurm partitions of a cluster: the general ones every DGX cluster here
+ * carries, plus one per GPU model when the nodes mix models.
+ */
+function slurmPartitionsFor(nodes: DGXNode[]): string[] {
+  return [
+    "batch",
+    "interactive",
+    ...derivePartitions(nodes).map((p) => p.name),
+  ];
+}
+
+function createGroupNodes(groups: NodeGroup[]): DGXNode[] {
+  return groups
+    .flatMap((g) => Array.from({ length: g.count }, () => g))
+    .map((g, i) => createDGXNode(i, g.systemType, g.hcaCount));
+}
+
+/**
+ * Build a cluster from runs of system types behind one Slurm controller,
+ * e.g. four DGX-A100 followed by four DGX-H100. Nodes are numbered across
+ * the groups in order and share one InfiniBand fabric, whose links each run
+ * at the rate of their host's HCA.
+ */
+export function createMixedCluster(groups: NodeGroup[]): ClusterConfig {
+  const nodes = createGroupNodes(groups);
+  const names = [...new Set(groups.map((g) => g.systemType))];
+
+  return withFabric({
+    name: names.length === 1 ? `${names[0]} Cluster` : "Mixed DGX Cluster",
+    nodes,
+    fabricTopology: "RailOptimized",
+    bcmHA: {
+      enabled: true,
+      primary: "mgmt-node0",
+      secondary: "mgmt-node1",
+      state: "Active",
+    },
+    slurmConfig: {
+      controlMachine: "mgmt-node0",
+      partitions: slurmPartitionsFor(nodes),
+    },
+  });
+}
+
+/**
+ * A copy of the cluster with one node replaced by a freshly built node of
+ * another system type. The fabric is recabled and swept for the new HCAs,
+ * and the Slurm partitions follow the cluster's new mix of GPU models.
+ */
+export function withNodeSystemType(
+  cluster: ClusterConfig,
+  nodeId: string,
+  systemType: SystemType,
+): ClusterConfig {
+  const index = cluster.nodes.findIndex((n) => n.id === nodeId);
+  if (index === -1) return cluster;
+
+  const nodes = structuredClone(cluster.nodes);
+  const replacement = createDGXNode(index, systemType);
+  replacement.id = nodes[index].id;
+  replacement.hostname = nodes[index].hostname;
+  nodes[index] = replacement;
+
+  return withFabric({
+    name: cluster.name,
+    nodes,
+    fabricTopology: cluster.fabricTopology,
+    bcmHA: { ...cluster.bcmHA },
+    slurmConfig: {
+      ...cluster.slurmConfig,
+      partitions: slurmPartitionsFor(nodes),
+    },
+  });
+}
+
+/**
+ * Everything the cluster builder edits about a cluster. Nodes are given as
+ * runs of one system type and HCA count; createClusterFromSpec builds them
+ * fresh, numbered dgx-00 onwards, and cables them into the fabric.
+ */
+export interface ClusterSpec {
+  name: string;
+  groups: NodeGroup[];
+  fabricTopology: ClusterConfig["fabricTopology"];
+  /** Leaf and spine switches; sized to the nodes when absent */
+  fabricSwitches?: FabricSwitchCounts;
+  partitions: string[];
+  /** BCM head nodes; the primary is also the Slurm controller */
+  bcmHA: Pick<ClusterConfig["bcmHA"], "enabled" | "primary" | "secondary">;
+}
+
+export function createClusterFromSpec(spec: ClusterSpec): ClusterConfig {
+  return withFabric({
+    name: spec.name,
+    nodes: createGroupNodes(spec.groups),
+    fabricTopology: spec.fabricTopology,
+    ...(spec.fabricSwitches && { fabricSwitches: { ...spec.fabricSwitches } }),
+    bcmHA: { ...spec.bcmHA, state: "Active" },
+    slurmConfig: {
+      controlMachine: spec.bcmHA.primary,
+      partitions: [...spec.partitions],
+    },
+  });
+}
+
+/**
+ * The spec a cluster would be rebuilt from: consecutive nodes sharing a
+ * system type and HCA count form one group. Node state (faults, jobs,
+ * firmware) is not part of it.
+ */
+export function getClusterSpec(cluster: ClusterConfig): ClusterSpec {
+  const groups: NodeGroup[] = [];
+  for (const node of cluster.nodes) {
+    const last = groups[groups.length - 1];
+    if (
+      last?.systemType === node.systemType &&
+      last.hcaCount === node.hcas.length
+    ) {
+      last.count++;
+    } else {
+      groups.push({
+        systemType: node.systemType,
+        count: 1,
+        hcaCount: node.hcas.length,
+      });
+    }
+  }
+
+  return {
+    name: cluster.name,
+    groups,
+    fabricTopology: cluster.fabricTopology,
+    ...(cluster.fabricSwitches && {
+      fabricSwitches: { ...cluster.fabricSwitches },
+    }),
+    partitions: [...cluster.slurmConfig.partitions],
+    bcmHA: {
+      enabled: cluster.bcmHA.enabled,
+      primary: cluster.bcmHA.primary,
+      secondary: cluster.bcmHA.secondary,
+    },
   };
 }
 
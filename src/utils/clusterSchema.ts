@@ -5,7 +5,10 @@
  * to prevent prototype pollution attacks and ensure structural integrity.
  */
 
-import type { ClusterConfig } from '@/types/hardware';
+import type { ClusterConfig, DGXNode } from '@/types/hardware';
+import { ALL_SYSTEM_TYPES, getHardwareSpecs, type SystemType } from '@/data/hardwareSpecs';
+import { getGresGpuType } from '@/simulation/slurmPartitions';
+import { switchCountErrors } from '@/utils/infinibandFabric';
 
 // Default maximum file size: 5MB
 const DEFAULT_MAX_SIZE = 5 * 1024 * 1024;
@@ -13,6 +16,14 @@ const DEFAULT_MAX_SIZE = 5 * 1024 * 1024;
 // Dangerous keys that could lead to prototype pollution
 const DANGEROUS_KEYS = ['__proto__', 'constructor', 'prototype'];
 
+// InfiniBand link rates in Gb/s, HDR through GDR
+const VALID_PORT_RATES = [100, 200, 400, 800, 1600];
+
+// Largest cluster a shared spec may build
+const MAX_SPEC_NODES = 128;
+
+const VALID_TOPOLOGIES = ['FatTree', 'RailOptimized', 'DragonFly'];
+
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
@@ -71,6 +82,13 @@ function isNonEmptyString(value: unknown): value is string {
   return typeof value === 'string' && value.trim().length > 0;
 }
 
+/**
+ * Validates that a value is a whole number no smaller than min
+ */
+function isCount(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
 /**
  * Validates the structure of a ClusterConfig object
  * @param data The data to validate
@@ -123,14 +141,60 @@ export function validateClusterConfig(data: unknown): ValidationResult {
       if (!Array.isArray(nodeRecord.gpus)) {
         errors.push(`nodes[${index}].gpus is missing or invalid (must be an array)`);
       }
+
+      // Nodes of a mixed cluster each name their own system type
+      if (
+        nodeRecord.systemType !== undefined &&
+        !ALL_SYSTEM_TYPES.includes(nodeRecord.systemType as SystemType)
+      ) {
+        errors.push(`nodes[${index}].systemType "${nodeRecord.systemType}" is invalid (must be one of: ${ALL_SYSTEM_TYPES.join(', ')})`);
+      }
+
+      if (Array.isArray(nodeRecord.hcas)) {
+        nodeRecord.hcas.forEach((hca: unknown, hcaIndex: number) => {
+          const ports = (hca as Record<string, unknown> | null)?.ports;
+          if (!Array.isArray(ports)) return;
+          ports.forEach((port: unknown, portIndex: number) => {
+            const rate = (port as Record<string, unknown> | null)?.rate;
+            if (rate !== undefined && !VALID_PORT_RATES.includes(rate as number)) {
+              errors.push(`nodes[${index}].hcas[${hcaIndex}].ports[${portIndex}].rate ${rate} is invalid (must be one of: ${VALID_PORT_RATES.join(', ')})`);
+            }
+          });
+        });
+      }
     });
+
+    const ids = config.nodes
+      .map((node) => (node as Record<string, unknown> | null)?.id)
+      .filter(isNonEmptyString);
+    const duplicates = [...new Set(ids.filter((id, i) => ids.indexOf(id) !== i))];
+    if (duplicates.length > 0) {
+      errors.push(`Duplicate node ids: ${duplicates.join(', ')}`);
+    }
   }
 
   // Validate fabricTopology if present
-  const validTopologies = ['FatTree', 'RailOptimized', 'DragonFly'];
   if (config.fabricTopology !== undefined) {
-    if (!validTopologies.includes(config.fabricTopology as string)) {
-      errors.push(`Invalid fabricTopology: "${config.fabricTopology}" (must be one of: ${validTopologies.join(', ')})`);
+    if (!VALID_TOPOLOGIES.includes(config.fabricTopology as string)) {
+      errors.push(`Invalid fabricTopology: "${config.fabricTopology}" (must be one of: ${VALID_TOPOLOGIES.join(', ')})`);
+    }
+  }
+
+  // Validate fabricSwitches if present: the leaves must cable every host
+  if (config.fabricSwitches !== undefined) {
+    const counts = config.fabricSwitches as Record<string, unknown> | null;
+    if (!isCount(counts?.leaves, 1) || !isCount(counts?.spines, 0)) {
+      errors.push('fabricSwitches must have a positive "leaves" and a non-negative "spines" count');
+    } else if (
+      errors.length === 0 &&
+      (config.nodes as Record<string, unknown>[]).every((node) => Array.isArray(node.hcas))
+    ) {
+      const fabricErrors = switchCountErrors(
+        config.nodes as DGXNode[],
+        config.fabricTopology as ClusterConfig['fabricTopology'],
+        { leaves: counts.leaves, spines: counts.spines }
+      );
+      errors.push(...fabricErrors.map((error) => `fabricSwitches: ${error}`));
     }
   }
 
@@ -142,6 +206,22 @@ export function validateClusterConfig(data: unknown): ValidationResult {
       const bcmHA = config.bcmHA as Record<string, unknown>;
       if (typeof bcmHA.enabled !== 'boolean') {
         errors.push('bcmHA.enabled must be a boolean');
+      } else if (bcmHA.enabled) {
+        // An HA pair is two head nodes outside the compute nodes
+        const nodeIds = Array.isArray(config.nodes)
+          ? config.nodes.map((node) => (node as Record<string, unknown> | null)?.id)
+          : [];
+        for (const role of ['primary', 'secondary']) {
+          const head = bcmHA[role];
+          if (!isNonEmptyString(head)) {
+            errors.push(`bcmHA.${role} must name a head node when HA is enabled`);
+          } else if (nodeIds.includes(head)) {
+            errors.push(`bcmHA.${role} "${head}" is a compute node`);
+          }
+        }
+        if (isNonEmptyString(bcmHA.primary) && bcmHA.primary === bcmHA.secondary) {
+          errors.push('bcmHA.primary and bcmHA.secondary must be different head nodes');
+        }
       }
     }
   }
@@ -154,6 +234,21 @@ export function validateClusterConfig(data: unknown): ValidationResult {
       const slurmConfig = config.slurmConfig as Record<string, unknown>;
       if (slurmConfig.partitions !== undefined && !Array.isArray(slurmConfig.partitions)) {
         errors.push('slurmConfig.partitions must be an array');
+      } else if (Array.isArray(slurmConfig.partitions)) {
+        if (!slurmConfig.partitions.every(isNonEmptyString)) {
+          errors.push('slurmConfig.partitions must contain non-empty strings');
+        } else if (Array.isArray(config.nodes)) {
+          // A partition named after a GPU model holds that model's nodes
+          const nodeTypes = config.nodes.map((node) =>
+            getGresGpuType((node as Record<string, unknown> | null)?.systemType as SystemType)
+          );
+          const modelTypes = ALL_SYSTEM_TYPES.map(getGresGpuType);
+          slurmConfig.partitions.forEach((partition: string) => {
+            if (modelTypes.includes(partition) && !nodeTypes.includes(partition)) {
+              errors.push(`slurmConfig.partitions: "${partition}" has no nodes with ${partition} GPUs`);
+            }
+          });
+        }
       }
     }
   }
@@ -164,6 +259,82 @@ export function validateClusterConfig(data: unknown): ValidationResult {
   };
 }
 
+/**
+ * Validates a cluster builder spec (see createClusterFromSpec) before any
+ * nodes are built from it. Specs arrive in shared links, so the node count
+ * is capped; the cluster built from a valid spec still goes through
+ * validateClusterConfig.
+ * @param data The data to validate
+ * @returns ValidationResult with validity status and any errors
+ */
+export function validateClusterSpec(data: unknown): ValidationResult {
+  const pollutionErrors = checkPrototypePollution(data);
+  if (pollutionErrors.length > 0) {
+    return { valid: false, errors: pollutionErrors };
+  }
+
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, errors: ['Cluster spec must be a non-null object'] };
+  }
+
+  const errors: string[] = [];
+  const spec = data as Record<string, unknown>;
+
+  if (!isNonEmptyString(spec.name)) {
+    errors.push('Missing or invalid required field: "name" (must be a non-empty string)');
+  }
+
+  if (!Array.isArray(spec.groups) || spec.groups.length === 0) {
+    errors.push('Field "groups" must contain at least one node group');
+  } else {
+    let total = 0;
+    spec.groups.forEach((group: unknown, index: number) => {
+      const record = (group ?? {}) as Record<string, unknown>;
+      if (!ALL_SYSTEM_TYPES.includes(record.systemType as SystemType)) {
+        errors.push(`groups[${index}].systemType "${record.systemType}" is invalid (must be one of: ${ALL_SYSTEM_TYPES.join(', ')})`);
+        return;
+      }
+      if (!isCount(record.count, 1)) {
+        errors.push(`groups[${index}].count must be a positive whole number`);
+        return;
+      }
+      total += record.count;
+      const maxHcas = getHardwareSpecs(record.systemType as SystemType).network.hcaCount;
+      if (
+        record.hcaCount !== undefined &&
+        (!isCount(record.hcaCount, 1) || record.hcaCount > maxHcas)
+      ) {
+        errors.push(`groups[${index}].hcaCount must be between 1 and ${maxHcas} for ${record.systemType}`);
+      }
+    });
+    if (total > MAX_SPEC_NODES) {
+      errors.push(`Cluster spec has ${total} nodes (at most ${MAX_SPEC_NODES})`);
+    }
+  }
+
+  if (!VALID_TOPOLOGIES.includes(spec.fabricTopology as string)) {
+    errors.push(`Invalid fabricTopology: "${spec.fabricTopology}" (must be one of: ${VALID_TOPOLOGIES.join(', ')})`);
+  }
+
+  if (!Array.isArray(spec.partitions) || !spec.partitions.every(isNonEmptyString)) {
+    errors.push('partitions must be an array of non-empty strings');
+  }
+
+  const bcmHA = spec.bcmHA as Record<string, unknown> | null | undefined;
+  if (
+    typeof bcmHA?.enabled !== 'boolean' ||
+    !isNonEmptyString(bcmHA.primary) ||
+    typeof bcmHA.secondary !== 'string'
+  ) {
+    errors.push('bcmHA must have "enabled", "primary" and "secondary" head nodes');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
 /**
  * Safely parses a JSON string into a ClusterConfig with validation
  * @param jsonString The JSON string to parse
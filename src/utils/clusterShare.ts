@@ -0,0 +1,91 @@
+/**
+ * Cluster Sharing
+ *
+ * Lab topologies built in the cluster builder travel as a ClusterSpec: in a
+ * link, base64url-encoded after `#cluster=`, or inside an exported cluster
+ * JSON file. Whichever way a spec arrives, it is validated before any nodes
+ * are built and the resulting cluster is validated again before it is
+ * loaded, so a hand-edited link cannot put the simulator in a state the
+ * schema rejects.
+ */
+
+import {
+  createClusterFromSpec,
+  type ClusterSpec,
+} from "@/utils/clusterFactory";
+import {
+  validateClusterConfig,
+  validateClusterSpec,
+  type ParseResult,
+} from "@/utils/clusterSchema";
+
+const HASH_KEY = "cluster";
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (c) => c.charCodeAt(0)),
+  );
+}
+
+export function encodeClusterSpec(spec: ClusterSpec): string {
+  return toBase64Url(JSON.stringify(spec));
+}
+
+/**
+ * Validate a spec and build the cluster it describes
+ */
+export function buildClusterFromSpec(spec: unknown): ParseResult {
+  const specCheck = validateClusterSpec(spec);
+  if (!specCheck.valid) return specCheck;
+
+  const cluster = createClusterFromSpec(spec as ClusterSpec);
+  const validation = validateClusterConfig(cluster);
+  if (!validation.valid) return validation;
+  return { valid: true, errors: [], data: cluster };
+}
+
+/**
+ * Build the cluster from an encoded spec taken from a shared link
+ */
+export function decodeClusterSpec(encoded: string): ParseResult {
+  let spec: unknown;
+  try {
+    spec = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return {
+      valid: false,
+      errors: ["Cluster link is not a valid cluster spec"],
+    };
+  }
+  return buildClusterFromSpec(spec);
+}
+
+/**
+ * A link to the app at baseUrl that loads the spec's cluster when opened
+ */
+export function getClusterShareUrl(spec: ClusterSpec, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.hash = `${HASH_KEY}=${encodeClusterSpec(spec)}`;
+  return url.toString();
+}
+
+/**
+ * The shared cluster in a location hash such as `#cluster=eyJuYW1l...`, or
+ * undefined when the hash does not carry one
+ */
+export function readSharedCluster(hash: string): ParseResult | undefined {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+  return encoded ? decodeClusterSpec(encoded) : undefined;
+}
@@ -916,6 +916,76 @@ export const COMMAND_METADATA: Record<string, CommandMetadata> = {
     ],
   },
 
+  apptainer: {
+    name: "apptainer",
+    aliases: ["singularity"],
+    category: "containers",
+    shortDescription: "HPC container runtime using SIF images",
+    longDescription:
+      "Apptainer (formerly Singularity) runs containers from single-file SIF images without a daemon. Images are pulled or built into files on shared storage, and GPUs are made available with --nv.",
+    syntax: "apptainer <pull|build|exec|run|shell|inspect> [OPTIONS]",
+    difficulty: "intermediate",
+    domains: ["domain3"],
+
+    examples: [
+      {
+        command: "apptainer pull docker://nvcr.io/nvidia/pytorch:24.01-py3",
+        description: "Convert an NGC image to pytorch_24.01-py3.sif",
+      },
+      {
+        command: "apptainer exec --nv pytorch_24.01-py3.sif nvidia-smi",
+        description: "Run a command with the node's GPUs",
+      },
+      {
+        command: "apptainer shell --nv -B /data:/data pytorch_24.01-py3.sif",
+        description: "Open a shell with /data bind-mounted",
+      },
+    ],
+
+    whenToUse:
+      "Use Apptainer on multi-user HPC systems where users run containers without root, especially for images kept on shared filesystems.",
+
+    relatedCommands: ["enroot", "docker", "srun"],
+
+    commonMistakes: [
+      "Forgetting --nv, so the container cannot see any GPUs",
+      "Binding a host path that does not exist on the compute node",
+    ],
+  },
+
+  podman: {
+    name: "podman",
+    category: "containers",
+    shortDescription: "Daemonless, Docker-compatible container engine",
+    longDescription:
+      "Podman runs OCI containers without a daemon using a Docker-compatible CLI. GPUs are requested through CDI devices generated by the NVIDIA Container Toolkit.",
+    syntax: "podman [OPTIONS] COMMAND",
+    difficulty: "intermediate",
+    domains: ["domain3"],
+
+    examples: [
+      {
+        command:
+          "podman run --rm --device nvidia.com/gpu=all nvcr.io/nvidia/pytorch:24.01-py3 nvidia-smi",
+        description: "Run a container with all GPUs via CDI",
+      },
+      {
+        command: "podman ps -a",
+        description: "List all containers",
+      },
+    ],
+
+    whenToUse:
+      "Use podman on RHEL-family systems or wherever a rootless, daemonless alternative to Docker is preferred.",
+
+    relatedCommands: ["docker", "apptainer", "enroot"],
+
+    commonMistakes: [
+      "Using unqualified image names, which podman refuses to resolve without a prompt",
+      "Passing GPUs before a CDI specification has been generated",
+    ],
+  },
+
   mst: {
     name: "mst",
     category: "networking",
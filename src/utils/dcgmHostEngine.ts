@@ -0,0 +1,641 @@
+/**
+ * DCGM Host Engine
+ *
+ * What nv-hostengine keeps for a node between dcgmi invocations: GPU
+ * groups, field groups, process watches and job statistics, and health
+ * policies with the violations they have recorded. A fresh host engine has
+ * the two built-in groups, the system field groups and the policies DGX
+ * systems ship with on group 0.
+ *
+ * dcgmi reads the host engine through getHostEngine() and changes it with
+ * updates applied through the StateMutator, so scenario replay rebuilds it.
+ * Every GPU change and XID also passes through observeGpuUpdate() and
+ * observeXidError(), whether the physics engine or fault injection made it:
+ * recording jobs take a sample, and a reading that crosses a policy
+ * threshold records a violation.
+ */
+
+import type {
+  ClusterConfig,
+  DcgmFieldGroup,
+  DcgmGpuJobStats,
+  DcgmGroup,
+  DcgmHostEngine,
+  DcgmJobStats,
+  DcgmPolicy,
+  DcgmPolicyCondition,
+  DcgmStatSeries,
+  DGXNode,
+  GPU,
+  XIDError,
+} from "@/types/hardware";
+
+export const ALL_GPUS_GROUP = 0;
+export const ALL_NVSWITCHES_GROUP = 1;
+
+// Oldest violations are dropped beyond this
+const MAX_VIOLATIONS = 100;
+
+export interface DcgmField {
+  tag: string; // DCGM_FI_DEV_GPU_TEMP
+  header: string; // Column heading in dcgmi dmon
+  read: (gpu: GPU) => number | undefined;
+  decimals?: number;
+}
+
+/**
+ * The DCGM fields the simulator can read, by field ID
+ */
+export const DCGM_FIELDS: Record<number, DcgmField> = {
+  100: {
+    tag: "DCGM_FI_DEV_SM_CLOCK",
+    header: "SMCLK",
+    read: (g) => g.clocksSM,
+  },
+  101: {
+    tag: "DCGM_FI_DEV_MEM_CLOCK",
+    header: "MMCLK",
+    read: (g) => g.clocksMem,
+  },
+  150: {
+    tag: "DCGM_FI_DEV_GPU_TEMP",
+    header: "TMPTR",
+    read: (g) => Math.round(g.temperature),
+  },
+  155: {
+    tag: "DCGM_FI_DEV_POWER_USAGE",
+    header: "POWER",
+    read: (g) => g.powerDraw,
+    decimals: 3,
+  },
+  156: {
+    tag: "DCGM_FI_DEV_TOTAL_ENERGY_CONSUMPTION",
+    header: "TOTEC",
+    read: () => undefined,
+  },
+  203: {
+    tag: "DCGM_FI_DEV_GPU_UTIL",
+    header: "GPUTL",
+    read: (g) => Math.round(g.utilization),
+  },
+  204: {
+    tag: "DCGM_FI_DEV_MEM_COPY_UTIL",
+    header: "MCUTL",
+    read: (g) => Math.round((g.utilization * g.memoryUsed) / g.memoryTotal),
+  },
+  230: {
+    tag: "DCGM_FI_DEV_XID_ERRORS",
+    header: "XIDER",
+    read: (g) => g.xidErrors[g.xidErrors.length - 1]?.code ?? 0,
+  },
+  250: {
+    tag: "DCGM_FI_DEV_FB_TOTAL",
+    header: "FBTTL",
+    read: (g) => g.memoryTotal,
+  },
+  251: {
+    tag: "DCGM_FI_DEV_FB_FREE",
+    header: "FBFRE",
+    read: (g) => g.memoryTotal - g.memoryUsed,
+  },
+  252: {
+    tag: "DCGM_FI_DEV_FB_USED",
+    header: "FBUSD",
+    read: (g) => g.memoryUsed,
+  },
+  310: {
+    tag: "DCGM_FI_DEV_ECC_SBE_VOL_TOTAL",
+    header: "ESVTL",
+    read: (g) => g.eccErrors.singleBit,
+  },
+  311: {
+    tag: "DCGM_FI_DEV_ECC_DBE_VOL_TOTAL",
+    header: "EDVTL",
+    read: (g) => g.eccErrors.doubleBit,
+  },
+  312: {
+    tag: "DCGM_FI_DEV_ECC_SBE_AGG_TOTAL",
+    header: "ESATL",
+    read: (g) => g.eccErrors.aggregated.singleBit,
+  },
+  313: {
+    tag: "DCGM_FI_DEV_ECC_DBE_AGG_TOTAL",
+    header: "EDATL",
+    read: (g) => g.eccErrors.aggregated.doubleBit,
+  },
+  409: {
+    tag: "DCGM_FI_DEV_NVLINK_CRC_FLIT_ERROR_COUNT_TOTAL",
+    header: "NVCRC",
+    read: (g) => g.nvlinks.reduce((n, l) => n + l.rxErrors, 0),
+  },
+  419: {
+    tag: "DCGM_FI_DEV_NVLINK_REPLAY_ERROR_COUNT_TOTAL",
+    header: "NVRPL",
+    read: (g) => g.nvlinks.reduce((n, l) => n + l.replayErrors, 0),
+  },
+  1002: {
+    tag: "DCGM_FI_PROF_SM_ACTIVE",
+    header: "SMACT",
+    read: (g) => g.utilization / 100,
+    decimals: 3,
+  },
+  1005: {
+    tag: "DCGM_FI_PROF_DRAM_ACTIVE",
+    header: "DRAMA",
+    read: (g) => ((g.utilization / 100) * g.memoryUsed) / g.memoryTotal,
+    decimals: 3,
+  },
+};
+
+const SYSTEM_FIELD_GROUPS: Omit<DcgmFieldGroup, "system">[] = [
+  {
+    id: 0,
+    name: "DCGM_DEFAULT",
+    fieldIds: [100, 101, 150, 155, 203, 204, 252],
+  },
+  { id: 1, name: "DCGM_PROFILING", fieldIds: [1002, 1005] },
+  {
+    id: 2,
+    name: "DCGM_JOB_STATS",
+    fieldIds: [100, 101, 155, 203, 204, 230, 252, 310, 311],
+  },
+];
+
+// Policies group 0 starts with: log double-bit ECC errors, overheating,
+// power above the limit, NVLink errors and critical XIDs
+const DEFAULT_POLICIES: DcgmPolicy[] = [
+  { groupId: ALL_GPUS_GROUP, condition: "ecc", action: "log" },
+  { groupId: ALL_GPUS_GROUP, condition: "thermal", action: "log" },
+  { groupId: ALL_GPUS_GROUP, condition: "power", action: "log" },
+  { groupId: ALL_GPUS_GROUP, condition: "pcie", action: "log" },
+  { groupId: ALL_GPUS_GROUP, condition: "nvlink", action: "log" },
+  { groupId: ALL_GPUS_GROUP, condition: "xid", action: "log" },
+];
+
+export function createHostEngine(node: DGXNode): DcgmHostEngine {
+  return {
+    groups: [
+      {
+        id: ALL_GPUS_GROUP,
+        name: "DCGM_ALL_SUPPORTED_GPUS",
+        gpuIds: node.gpus.map((g) => g.id),
+      },
+      {
+        id: ALL_NVSWITCHES_GROUP,
+        name: "DCGM_ALL_SUPPORTED_NVSWITCHES",
+        gpuIds: [],
+      },
+    ],
+    fieldGroups: SYSTEM_FIELD_GROUPS.map((fg) => ({
+      ...fg,
+      fieldIds: [...fg.fieldIds],
+      system: true,
+    })),
+    watchedGroups: [],
+    jobs: [],
+    policies: DEFAULT_POLICIES.map((p) => ({ ...p })),
+    violations: [],
+  };
+}
+
+/**
+ * The node's host engine, or a fresh one if nothing has changed it yet
+ */
+export function getHostEngine(node: DGXNode): DcgmHostEngine {
+  return node.dcgm ?? createHostEngine(node);
+}
+
+export function findGroup(
+  engine: DcgmHostEngine,
+  groupId: number,
+): DcgmGroup | undefined {
+  return engine.groups.find((g) => g.id === groupId);
+}
+
+/**
+ * The next free ID for a user-created group or field group
+ */
+export function nextId(items: { id: number }[]): number {
+  return Math.max(-1, ...items.map((i) => i.id)) + 1;
+}
+
+// --- Policies ---
+
+const CRITICAL_XID_SEVERITY: XIDError["severity"] = "Critical";
+
+/**
+ * Thresholds policies use when none was set: no double-bit ECC or NVLink
+ * errors, the slowdown temperature and 95% of the framebuffer. Power
+ * defaults to each GPU's power limit.
+ */
+export const DEFAULT_POLICY_THRESHOLDS: Partial<
+  Record<DcgmPolicyCondition, number>
+> = { ecc: 0, thermal: 90, nvlink: 0, memory: 95 };
+
+function policyThreshold(policy: DcgmPolicy, gpu: GPU): number {
+  if (policy.threshold !== undefined) return policy.threshold;
+  if (policy.condition === "power") return gpu.powerLimit;
+  return DEFAULT_POLICY_THRESHOLDS[policy.condition] ?? 0;
+}
+
+/**
+ * The reading a policy compares with its threshold. PCIe replays are not
+ * modelled, and XIDs are events rather than readings.
+ */
+function policyReading(condition: DcgmPolicyCondition, gpu: GPU): number {
+  switch (condition) {
+    case "ecc":
+      return gpu.eccErrors.doubleBit;
+    case "thermal":
+      return gpu.temperature;
+    case "power":
+      return gpu.powerDraw;
+    case "nvlink":
+      return gpu.nvlinks.reduce(
+        (n, l) => n + l.txErrors + l.rxErrors + l.replayErrors,
+        0,
+      );
+    case "memory":
+      return (gpu.memoryUsed / gpu.memoryTotal) * 100;
+    default:
+      return 0;
+  }
+}
+
+function violates(policy: DcgmPolicy, gpu: GPU): boolean {
+  if (policy.condition === "xid" || policy.condition === "pcie") return false;
+  return policyReading(policy.condition, gpu) > policyThreshold(policy, gpu);
+}
+
+/**
+ * Policies that apply to a GPU through the groups it belongs to
+ */
+function policiesFor(engine: DcgmHostEngine, gpuId: number): DcgmPolicy[] {
+  return engine.policies.filter((p) =>
+    findGroup(engine, p.groupId)?.gpuIds.includes(gpuId),
+  );
+}
+
+function recordViolation(
+  engine: DcgmHostEngine,
+  policy: DcgmPolicy,
+  gpuId: number,
+  value: number,
+  now: number,
+): void {
+  engine.violations = [
+    ...engine.violations,
+    {
+      timestamp: now,
+      groupId: policy.groupId,
+      gpuId,
+      condition: policy.condition,
+      value,
+      action: policy.action,
+    },
+  ].slice(-MAX_VIOLATIONS);
+}
+
+// --- Job statistics ---
+
+function series(value: number): DcgmStatSeries {
+  return { count: 1, sum: value, max: value, min: value };
+}
+
+function addSample(s: DcgmStatSeries, value: number): void {
+  s.count += 1;
+  s.sum += value;
+  s.max = Math.max(s.max, value);
+  s.min = Math.min(s.min, value);
+}
+
+function memoryUtil(gpu: GPU): number {
+  return (gpu.memoryUsed / gpu.memoryTotal) * 100;
+}
+
+function startGpuStats(gpu: GPU, now: number): DcgmGpuJobStats {
+  return {
+    gpuId: gpu.id,
+    power: series(gpu.powerDraw),
+    smClock: series(gpu.clocksSM),
+    memClock: series(gpu.clocksMem),
+    smUtil: series(gpu.utilization),
+    memUtil: series(memoryUtil(gpu)),
+    maxMemoryUsed: gpu.memoryUsed,
+    energy: 0,
+    lastSampleAt: now,
+    eccBaseline: { ...gpu.eccErrors.aggregated },
+    singleBitErrors: 0,
+    doubleBitErrors: 0,
+    criticalXids: 0,
+  };
+}
+
+/**
+ * Take a sample of a GPU for a job. Energy accrues at the power the GPU
+ * drew since the last sample.
+ */
+function sampleGpu(
+  stats: DcgmGpuJobStats,
+  gpu: GPU,
+  previousPower: number,
+  now: number,
+): void {
+  stats.energy +=
+    (previousPower * Math.max(0, now - stats.lastSampleAt)) / 1000;
+  stats.lastSampleAt = now;
+  addSample(stats.power, gpu.powerDraw);
+  addSample(stats.smClock, gpu.clocksSM);
+  addSample(stats.memClock, gpu.clocksMem);
+  addSample(stats.smUtil, gpu.utilization);
+  addSample(stats.memUtil, memoryUtil(gpu));
+  stats.maxMemoryUsed = Math.max(stats.maxMemoryUsed, gpu.memoryUsed);
+  stats.singleBitErrors = Math.max(
+    0,
+    gpu.eccErrors.aggregated.singleBit - stats.eccBaseline.singleBit,
+  );
+  stats.doubleBitErrors = Math.max(
+    0,
+    gpu.eccErrors.aggregated.doubleBit - stats.eccBaseline.doubleBit,
+  );
+}
+
+function recordingJobs(
+  engine: DcgmHostEngine,
+  gpuId: number,
+): DcgmGpuJobStats[] {
+  return engine.jobs
+    .filter((job) => job.endTime === undefined)
+    .flatMap((job) => job.gpus.filter((g) => g.gpuId === gpuId));
+}
+
+/**
+ * A job's statistics as of `now`: recording jobs get a final sample of the
+ * current GPU state, without changing what is stored
+ */
+export function jobStatsAt(
+  job: DcgmJobStats,
+  node: DGXNode,
+  now: number,
+): DcgmJobStats {
+  const copy: DcgmJobStats = structuredClone(job);
+  if (copy.endTime !== undefined) return copy;
+  for (const stats of copy.gpus) {
+    const gpu = node.gpus.find((g) => g.id === stats.gpuId);
+    if (gpu) sampleGpu(stats, gpu, gpu.powerDraw, now);
+  }
+  return copy;
+}
+
+/**
+ * Combine the statistics of several GPUs, for the job summary
+ */
+export function mergeGpuStats(gpus: DcgmGpuJobStats[]): DcgmGpuJobStats {
+  const merge = (pick: (g: DcgmGpuJobStats) => DcgmStatSeries) =>
+    gpus.map(pick).reduce((a, b) => ({
+      count: a.count + b.count,
+      sum: a.sum + b.sum,
+      max: Math.max(a.max, b.max),
+      min: Math.min(a.min, b.min),
+    }));
+  const total = (pick: (g: DcgmGpuJobStats) => number) =>
+    gpus.reduce((n, g) => n + pick(g), 0);
+  return {
+    gpuId: -1,
+    power: merge((g) => g.power),
+    smClock: merge((g) => g.smClock),
+    memClock: merge((g) => g.memClock),
+    smUtil: merge((g) => g.smUtil),
+    memUtil: merge((g) => g.memUtil),
+    maxMemoryUsed: Math.max(...gpus.map((g) => g.maxMemoryUsed)),
+    energy: total((g) => g.energy),
+    lastSampleAt: Math.max(...gpus.map((g) => g.lastSampleAt)),
+    eccBaseline: {
+      singleBit: total((g) => g.eccBaseline.singleBit),
+      doubleBit: total((g) => g.eccBaseline.doubleBit),
+    },
+    singleBitErrors: total((g) => g.singleBitErrors),
+    doubleBitErrors: total((g) => g.doubleBitErrors),
+    criticalXids: total((g) => g.criticalXids),
+  };
+}
+
+// --- Observing GPU changes ---
+
+/**
+ * Run `observe` against the node's host engine, keeping the engine only if
+ * it recorded something. Nodes nobody has configured stay without one.
+ */
+function withHostEngine(
+  node: DGXNode,
+  observe: (engine: DcgmHostEngine) => boolean,
+): void {
+  const engine = getHostEngine(node);
+  if (observe(engine) && !node.dcgm) {
+    node.dcgm = engine;
+  }
+}
+
+/**
+ * Sample recording jobs and check policies after a GPU changed. `before`
+ * is the GPU as it was; a policy fires only when its reading crosses the
+ * threshold, not on every update past it.
+ */
+export function observeGpuUpdate(
+  node: DGXNode,
+  gpuId: number,
+  before: GPU,
+  now: number,
+): void {
+  const gpu = node.gpus.find((g) => g.id === gpuId);
+  if (!gpu) return;
+
+  withHostEngine(node, (engine) => {
+    const jobs = recordingJobs(engine, gpuId);
+    jobs.forEach((stats) => sampleGpu(stats, gpu, before.powerDraw, now));
+
+    const crossed = policiesFor(engine, gpuId).filter(
+      (p) => violates(p, gpu) && !violates(p, before),
+    );
+    crossed.forEach((p) =>
+      recordViolation(engine, p, gpuId, policyReading(p.condition, gpu), now),
+    );
+    return jobs.length > 0 || crossed.length > 0;
+  });
+}
+
+/**
+ * Count an XID against recording jobs and fire XID policies: critical XIDs,
+ * or the one XID a policy's threshold names
+ */
+export function observeXidError(
+  node: DGXNode,
+  gpuId: number,
+  error: XIDError,
+  now: number,
+): void {
+  withHostEngine(node, (engine) => {
+    const critical = error.severity === CRITICAL_XID_SEVERITY;
+    const jobs = critical ? recordingJobs(engine, gpuId) : [];
+    jobs.forEach((stats) => (stats.criticalXids += 1));
+
+    const fired = policiesFor(engine, gpuId).filter(
+      (p) =>
+        p.condition === "xid" &&
+        (p.threshold === undefined ? critical : p.threshold === error.code),
+    );
+    fired.forEach((p) => recordViolation(engine, p, gpuId, error.code, now));
+    return jobs.length > 0 || fired.length > 0;
+  });
+}
+
+// --- Updates ---
+
+/**
+ * A change made through dcgmi. Updates carry what was decided when the
+ * command ran, and read the GPUs when applied, so replaying them gives the
+ * same result.
+ */
+export type DcgmHostEngineUpdate =
+  | { action: "group-create"; group: DcgmGroup }
+  | { action: "group-gpus"; groupId: number; gpuIds: number[] }
+  | { action: "group-delete"; groupId: number }
+  | { action: "fieldgroup-create"; fieldGroup: DcgmFieldGroup }
+  | { action: "fieldgroup-delete"; fieldGroupId: number }
+  | { action: "watches"; groupId: number; enabled: boolean }
+  | { action: "job-start"; jobId: string; groupId: number; time: number }
+  | { action: "job-stop"; jobId: string; time: number }
+  | { action: "job-remove"; jobId?: string } // All jobs when unset
+  | { action: "policy-set"; policy: DcgmPolicy }
+  | { action: "policy-clear"; groupId: number };
+
+function applyToEngine(
+  engine: DcgmHostEngine,
+  node: DGXNode,
+  update: DcgmHostEngineUpdate,
+): void {
+  switch (update.action) {
+    case "group-create":
+      engine.groups.push({ ...update.group, gpuIds: [...update.group.gpuIds] });
+      break;
+    case "group-gpus": {
+      const group = findGroup(engine, update.groupId);
+      if (group) group.gpuIds = [...update.gpuIds];
+      break;
+    }
+    case "group-delete":
+      engine.groups = engine.groups.filter((g) => g.id !== update.groupId);
+      engine.policies = engine.policies.filter(
+        (p) => p.groupId !== update.groupId,
+      );
+      engine.watchedGroups = engine.watchedGroups.filter(
+        (id) => id !== update.groupId,
+      );
+      break;
+    case "fieldgroup-create":
+      engine.fieldGroups.push({
+        ...update.fieldGroup,
+        fieldIds: [...update.fieldGroup.fieldIds],
+      });
+      break;
+    case "fieldgroup-delete":
+      engine.fieldGroups = engine.fieldGroups.filter(
+        (fg) => fg.id !== update.fieldGroupId,
+      );
+      break;
+    case "watches":
+      engine.watchedGroups = engine.watchedGroups.filter(
+        (id) => id !== update.groupId,
+      );
+      if (update.enabled) engine.watchedGroups.push(update.groupId);
+      break;
+    case "job-start": {
+      const gpuIds = findGroup(engine, update.groupId)?.gpuIds ?? [];
+      engine.jobs.push({
+        jobId: update.jobId,
+        groupId: update.groupId,
+        startTime: update.time,
+        gpus: node.gpus
+          .filter((g) => gpuIds.includes(g.id))
+          .map((g) => startGpuStats(g, update.time)),
+      });
+      break;
+    }
+    case "job-stop": {
+      const job = engine.jobs.find((j) => j.jobId === update.jobId);
+      if (!job || job.endTime !== undefined) break;
+      for (const stats of job.gpus) {
+        const gpu = node.gpus.find((g) => g.id === stats.gpuId);
+        if (gpu) sampleGpu(stats, gpu, gpu.powerDraw, update.time);
+      }
+      job.endTime = update.time;
+      break;
+    }
+    case "job-remove":
+      engine.jobs = engine.jobs.filter(
+        (j) => update.jobId !== undefined && j.jobId !== update.jobId,
+      );
+      break;
+    case "policy-set":
+      engine.policies = [
+        ...engine.policies.filter(
+          (p) =>
+            p.groupId !== update.policy.groupId ||
+            p.condition !== update.policy.condition,
+        ),
+        { ...update.policy },
+      ];
+      break;
+    case "policy-clear":
+      engine.policies = engine.policies.filter(
+        (p) => p.groupId !== update.groupId,
+      );
+      break;
+  }
+}
+
+/**
+ * Apply an update in place, creating the node's host engine if needed
+ */
+export function applyDcgmUpdate(
+  cluster: ClusterConfig,
+  nodeId: string,
+  update: DcgmHostEngineUpdate,
+): void {
+  const node = cluster.nodes.find((n) => n.id === nodeId);
+  if (!node) return;
+  node.dcgm ??= createHostEngine(node);
+  applyToEngine(node.dcgm, node, update);
+}
+
+/**
+ * A short account of an update for logs and state history
+ */
+export function describeDcgmUpdate(update: DcgmHostEngineUpdate): string {
+  switch (update.action) {
+    case "group-create":
+      return `Created DCGM group ${update.group.id} (${update.group.name})`;
+    case "group-gpus":
+      return `Set the GPUs of DCGM group ${update.groupId}`;
+    case "group-delete":
+      return `Deleted DCGM group ${update.groupId}`;
+    case "fieldgroup-create":
+      return `Created DCGM field group ${update.fieldGroup.id} (${update.fieldGroup.name})`;
+    case "fieldgroup-delete":
+      return `Deleted DCGM field group ${update.fieldGroupId}`;
+    case "watches":
+      return `${update.enabled ? "Enabled" : "Disabled"} DCGM process watches on group ${update.groupId}`;
+    case "job-start":
+      return `Started DCGM job stats for ${update.jobId}`;
+    case "job-stop":
+      return `Stopped DCGM job stats for ${update.jobId}`;
+    case "job-remove":
+      return update.jobId
+        ? `Removed DCGM job stats for ${update.jobId}`
+        : "Removed all DCGM job stats";
+    case "policy-set":
+      return `Set DCGM ${update.policy.condition} policy on group ${update.policy.groupId}`;
+    case "policy-clear":
+      return `Cleared DCGM policies on group ${update.groupId}`;
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * Firmware Inventory
+ *
+ * The firmware each node runs, component by component: GPU VBIOS, NVSwitch,
+ * ConnectX HCAs, BlueField DPUs, the BMC, the system BIOS and the power
+ * supplies, and the releases of each that the firmware bundle ships.
+ *
+ * Flashing only writes the image. The component keeps running the old one
+ * until something restarts it: mlxfwreset or a reboot for ConnectX and
+ * BlueField devices, a BMC reset for the BMC, and a reboot for everything
+ * else. A flash that failed or was interrupted leaves the component on the
+ * image it was running, and the write has to be redone before a new image
+ * can take effect.
+ *
+ * mlxup, mlxfwmanager, flint, mlxfwreset and fwupdmgr plan changes here and
+ * apply them through the StateMutator; nodePower activates staged images as
+ * nodes boot and BMCs reset. Nodes nothing has flashed yet get an inventory
+ * derived from the versions clusterFactory gave their HCAs, DPUs and BMC,
+ * with the bundle's release for everything else.
+ */
+
+import type {
+  BlueFieldDPU,
+  ClusterConfig,
+  DGXNode,
+  FirmwareComponent,
+  FirmwareComponentType,
+  FirmwareFlash,
+  InfiniBandHCA,
+} from "@/types/hardware";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+
+/**
+ * The releases in the firmware bundle, by component type and model, oldest
+ * first. The last one is the release the bundle recommends.
+ */
+export const FIRMWARE_RELEASES: Record<
+  FirmwareComponentType,
+  Record<string, string[]>
+> = {
+  vbios: {
+    Ampere: ["92.00.45.00.03", "92.00.5C.00.01"],
+    Hopper: ["96.00.5F.00.01", "96.00.89.00.01"],
+    Blackwell: ["97.00.3D.00.01", "97.00.52.00.01"],
+    Rubin: ["98.00.12.00.01", "98.00.1F.00.01"],
+  },
+  nvswitch: {
+    Ampere: ["92.10.14.00.01", "92.10.18.00.01"],
+    Hopper: ["96.10.55.00.01", "96.10.6D.00.01"],
+    Blackwell: ["97.10.2E.00.01", "97.10.3B.00.01"],
+    Rubin: ["98.10.0B.00.01", "98.10.11.00.01"],
+  },
+  hca: {
+    "ConnectX-6": ["20.33.1048", "20.35.1012"],
+    "ConnectX-7": ["28.37.1014", "28.39.1002"],
+    "ConnectX-8": ["40.46.1006", "40.48.1000"],
+    "ConnectX-9": ["34.40.1000", "34.42.1000"],
+  },
+  bluefield: {
+    "BlueField-2": ["24.24.1000", "24.26.1610"],
+    "BlueField-3": ["24.33.1048", "24.35.2000"],
+  },
+  bmc: { DGX: ["3.47.00", "4.1.9", "4.2.1"] },
+  sbios: {
+    Ampere: ["1.21", "1.25"],
+    Hopper: ["1.01.03", "1.06.02"],
+    Blackwell: ["1.00.14", "1.02.05"],
+    Rubin: ["0.90.02", "1.00.01"],
+  },
+  psu: { DGX: ["04.02", "04.05"] },
+};
+
+// What the tools call each type of component
+export const FIRMWARE_LABELS: Record<FirmwareComponentType, string> = {
+  vbios: "GPU VBIOS",
+  nvswitch: "NVSwitch",
+  hca: "ConnectX HCA",
+  bluefield: "BlueField",
+  bmc: "BMC",
+  sbios: "SBIOS",
+  psu: "PSU",
+};
+
+export type FirmwareTrigger = "mlxfwreset" | "bmc-reset" | "reboot";
+
+// What makes a staged image take effect
+const ACTIVATED_BY: Record<FirmwareComponentType, FirmwareTrigger[]> = {
+  vbios: ["reboot"],
+  nvswitch: ["reboot"],
+  hca: ["mlxfwreset", "reboot"],
+  bluefield: ["mlxfwreset", "reboot"],
+  bmc: ["bmc-reset"],
+  sbios: ["reboot"],
+  psu: ["reboot"],
+};
+
+// Power supplies in a DGX chassis; rack-scale compute trays are fed by the
+// rack's power shelves instead
+const PSU_COUNT = 6;
+
+export type FirmwareAction = "flash" | "activate" | "fault";
+
+/**
+ * A change to a node's firmware, planned against its current inventory so
+ * that replaying it gives the same result
+ */
+export interface NodeFirmwareUpdate {
+  action: FirmwareAction;
+  components: string[]; // The components the request changed
+  inventory: FirmwareComponent[];
+}
+
+/**
+ * The outcome of a firmware request. Without an update nothing changes.
+ */
+export interface FirmwarePlan {
+  update?: NodeFirmwareUpdate;
+  error?: string;
+}
+
+/**
+ * What clusterkit and nvidia-bug-report.sh report about a node's firmware,
+ * one line per finding
+ */
+export interface FirmwareFindings {
+  failed: string[]; // Flashes that failed or were interrupted
+  pending: string[]; // Images staged but not running yet
+  outdated: string[]; // Behind the bundle's release
+  skew: string[]; // Different from nodes of the same system type
+}
+
+export function blueFieldModel(dpu: BlueFieldDPU): string {
+  return dpu.devicePath?.includes("mt41692") ? "BlueField-3" : "BlueField-2";
+}
+
+function hcaModel(hca: InfiniBandHCA): string {
+  return (hca.caType ?? "").replace(/ HCA$/, "");
+}
+
+export function recommendedVersion(
+  component: Pick<FirmwareComponent, "type" | "model">,
+): string | undefined {
+  const releases = FIRMWARE_RELEASES[component.type][component.model];
+  return releases?.[releases.length - 1];
+}
+
+function createFirmware(node: DGXNode): FirmwareComponent[] {
+  const spec = getHardwareSpecs(node.systemType);
+  const generation = spec.system.generation;
+  const component = (
+    id: string,
+    type: FirmwareComponentType,
+    model: string,
+    version?: string,
+  ): FirmwareComponent => ({
+    id,
+    type,
+    model,
+    version: version ?? recommendedVersion({ type, model }) ?? "N/A",
+  });
+  // NVSwitches of rack-scale systems sit in the rack's switch trays
+  const switches = spec.rack ? 0 : spec.nvlink.nvSwitchCount;
+  const psus = spec.rack ? 0 : PSU_COUNT;
+
+  return [
+    ...(node.gpus ?? []).map((gpu) =>
+      component(`GPU${gpu.id}`, "vbios", generation),
+    ),
+    ...Array.from({ length: switches }, (_, i) =>
+      component(`NVSwitch${i}`, "nvswitch", generation),
+    ),
+    ...(node.hcas ?? []).map((hca, i) =>
+      component(`HCA${i}`, "hca", hcaModel(hca), hca.firmwareVersion),
+    ),
+    ...(node.dpus ?? []).map((dpu, i) =>
+      component(
+        `DPU${i}`,
+        "bluefield",
+        blueFieldModel(dpu),
+        dpu.firmwareVersion,
+      ),
+    ),
+    component("BMC", "bmc", "DGX", node.bmc?.firmwareVersion),
+    component("SBIOS", "sbios", generation),
+    ...Array.from({ length: psus }, (_, i) =>
+      component(`PSU${i}`, "psu", "DGX"),
+    ),
+  ];
+}
+
+/**
+ * The node's firmware inventory; a node nothing has flashed yet runs what
+ * it was built with
+ */
+export function getNodeFirmware(node: DGXNode): FirmwareComponent[] {
+  return node.firmware ?? createFirmware(node);
+}
+
+export function findFirmwareComponent(
+  node: DGXNode,
+  id: string,
+): FirmwareComponent | undefined {
+  return getNodeFirmware(node).find((c) => c.id === id);
+}
+
+/**
+ * The HCA or BlueField component behind an MST device path
+ */
+export function findDeviceFirmware(
+  node: DGXNode,
+  devicePath: string,
+): FirmwareComponent | undefined {
+  const hca = (node.hcas ?? []).findIndex((h) => h.devicePath === devicePath);
+  if (hca >= 0) return findFirmwareComponent(node, `HCA${hca}`);
+  const dpu = (node.dpus ?? []).findIndex((d) => d.devicePath === devicePath);
+  return dpu >= 0 ? findFirmwareComponent(node, `DPU${dpu}`) : undefined;
+}
+
+/**
+ * The version a component is running, as nvidia-smi and dmidecode show it
+ */
+export function runningVersion(node: DGXNode, id: string): string {
+  return findFirmwareComponent(node, id)?.version ?? "N/A";
+}
+
+export function isFirmwareCurrent(component: FirmwareComponent): boolean {
+  const recommended = recommendedVersion(component);
+  return recommended === undefined || component.version === recommended;
+}
+
+/**
+ * How a staged image on a type of component takes effect
+ */
+export function activationHint(type: FirmwareComponentType): string {
+  switch (type) {
+    case "hca":
+    case "bluefield":
+      return "run mlxfwreset or reboot to activate";
+    case "bmc":
+      return "reset the BMC to activate";
+    default:
+      return "reboot to activate";
+  }
+}
+
+/**
+ * The ConnectX or BlueField release a firmware image holds, going by the
+ * version in its file name (fw-ConnectX7-rel-28_39_1002.bin). Images of
+ * releases the bundle does not have fail verification.
+ */
+export function findImageRelease(
+  file: string,
+): Pick<FirmwareComponent, "type" | "model" | "version"> | undefined {
+  const match = /(\d+)[._](\d+)[._](\d+)/.exec(file);
+  if (!match) return undefined;
+  const version = `${match[1]}.${match[2]}.${match[3]}`;
+  for (const type of ["hca", "bluefield"] as const) {
+    for (const [model, releases] of Object.entries(FIRMWARE_RELEASES[type])) {
+      if (releases.includes(version)) return { type, model, version };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether writing an image to a component would change anything: it is
+ * neither running nor staged, or a failed flash is in the way
+ */
+export function isFlashNeeded(
+  component: FirmwareComponent,
+  version: string,
+  force = false,
+): boolean {
+  if (force) return true;
+  if (component.flash) {
+    return (
+      component.flash.status !== "pending" ||
+      component.flash.version !== version
+    );
+  }
+  return component.version !== version;
+}
+
+function draft(node: DGXNode): FirmwareComponent[] {
+  return structuredClone(getNodeFirmware(node));
+}
+
+function finish(
+  action: FirmwareAction,
+  inventory: FirmwareComponent[],
+  changed: string[],
+): FirmwarePlan {
+  if (changed.length === 0) return {};
+  return { update: { action, components: changed, inventory } };
+}
+
+/**
+ * Plan writing images to components: `version` when given, otherwise the
+ * bundle's release for each. Components already running the image are left
+ * alone unless `force` is set; writing the running image over a staged or
+ * failed one clears it.
+ */
+export function planFirmwareFlash(
+  node: DGXNode,
+  ids: string[],
+  now: number,
+  options: { version?: string; force?: boolean } = {},
+): FirmwarePlan {
+  const inventory = draft(node);
+  const changed: string[] = [];
+  for (const id of ids) {
+    const component = inventory.find((c) => c.id === id);
+    if (!component) return { error: `No firmware component ${id}` };
+    const version = options.version ?? recommendedVersion(component);
+    if (!version) {
+      return {
+        error: `No ${FIRMWARE_LABELS[component.type]} image for ${component.model}`,
+      };
+    }
+    if (!isFlashNeeded(component, version, options.force)) continue;
+    component.flash =
+      version === component.version
+        ? undefined
+        : { version, status: "pending", timestamp: now };
+    changed.push(id);
+  }
+  return finish("flash", inventory, changed);
+}
+
+// Run a component's staged image, if it has one
+function activate(component: FirmwareComponent): boolean {
+  if (component.flash?.status !== "pending") return false;
+  component.version = component.flash.version;
+  component.flash = undefined;
+  return true;
+}
+
+/**
+ * Plan mlxfwreset on devices: the images staged on them take effect
+ */
+export function planFirmwareReset(node: DGXNode, ids: string[]): FirmwarePlan {
+  const inventory = draft(node);
+  const changed = inventory
+    .filter(
+      (c) =>
+        ids.includes(c.id) &&
+        ACTIVATED_BY[c.type].includes("mlxfwreset") &&
+        activate(c),
+    )
+    .map((c) => c.id);
+  return finish("activate", inventory, changed);
+}
+
+/**
+ * Plan a firmware fault on a component, by id or type: a flash that failed
+ * or was interrupted, an image staged but never activated, or (status
+ * "running") the component left on another release. The version defaults
+ * to the bundle's release, or for "running" to its oldest.
+ */
+export function planFirmwareFault(
+  node: DGXNode,
+  target: string,
+  status: FirmwareFlash["status"] | "running",
+  now: number,
+  version?: string,
+): FirmwarePlan {
+  const inventory = draft(node);
+  const component =
+    inventory.find((c) => c.id === target) ??
+    inventory.find((c) => c.type === target);
+  if (!component) return { error: `No firmware component ${target}` };
+  const releases = FIRMWARE_RELEASES[component.type][component.model] ?? [];
+  if (status === "running") {
+    component.version = version ?? releases[0] ?? component.version;
+    component.flash = undefined;
+  } else {
+    component.flash = {
+      version: version ?? recommendedVersion(component) ?? component.version,
+      status,
+      timestamp: now,
+    };
+  }
+  return finish("fault", inventory, [component.id]);
+}
+
+// Set the inventory in place, and the versions the rest of the model keeps
+// on HCAs, DPUs and the BMC with it
+function setFirmware(node: DGXNode, inventory: FirmwareComponent[]): void {
+  node.firmware = inventory;
+  const version = (id: string) => inventory.find((c) => c.id === id)?.version;
+  (node.hcas ?? []).forEach((hca, i) => {
+    hca.firmwareVersion = version(`HCA${i}`) ?? hca.firmwareVersion;
+  });
+  (node.dpus ?? []).forEach((dpu, i) => {
+    dpu.firmwareVersion = version(`DPU${i}`) ?? dpu.firmwareVersion;
+  });
+  if (node.bmc) {
+    node.bmc.firmwareVersion = version("BMC") ?? node.bmc.firmwareVersion;
+  }
+}
+
+/**
+ * Run the images a reboot or BMC reset loads, in place. Nodes nothing was
+ * flashed on have none staged.
+ */
+export function activateStagedFirmware(
+  node: DGXNode,
+  trigger: FirmwareTrigger,
+): void {
+  if (!node.firmware) return;
+  const inventory = structuredClone(node.firmware);
+  const activated = inventory.filter(
+    (c) => ACTIVATED_BY[c.type].includes(trigger) && activate(c),
+  );
+  if (activated.length > 0) setFirmware(node, inventory);
+}
+
+export function applyNodeFirmwareUpdate(
+  cluster: ClusterConfig,
+  nodeId: string,
+  update: NodeFirmwareUpdate,
+): void {
+  const node = cluster.nodes.find((n) => n.id === nodeId);
+  if (!node) return;
+  setFirmware(node, structuredClone(update.inventory));
+}
+
+function byType(
+  inventory: FirmwareComponent[],
+): Map<FirmwareComponentType, FirmwareComponent[]> {
+  const types = new Map<FirmwareComponentType, FirmwareComponent[]>();
+  for (const component of inventory) {
+    types.set(component.type, [
+      ...(types.get(component.type) ?? []),
+      component,
+    ]);
+  }
+  return types;
+}
+
+function versionsOf(components: FirmwareComponent[]): string {
+  return [...new Set(components.map((c) => c.version))].sort().join("/");
+}
+
+/**
+ * The versions a node runs, one line per type of component
+ */
+export function firmwareSummary(node: DGXNode): string[] {
+  return [...byType(getNodeFirmware(node))].map(
+    ([type, components]) =>
+      `${FIRMWARE_LABELS[type]}: ${versionsOf(components)}`,
+  );
+}
+
+/**
+ * What is wrong with a node's firmware: failed and staged flashes, releases
+ * behind the bundle, and versions that differ from the other nodes of its
+ * system type in `nodes`
+ */
+export function reviewFirmware(
+  node: DGXNode,
+  nodes: DGXNode[],
+): FirmwareFindings {
+  const inventory = getNodeFirmware(node);
+  const findings: FirmwareFindings = {
+    failed: [],
+    pending: [],
+    outdated: [],
+    skew: [],
+  };
+
+  for (const c of inventory) {
+    if (c.flash?.status === "pending") {
+      findings.pending.push(
+        `${c.id}: ${c.flash.version} staged over ${c.version}, ${activationHint(c.type)}`,
+      );
+    } else if (c.flash) {
+      findings.failed.push(
+        `${c.id}: flash of ${c.flash.version} ${c.flash.status}, still running ${c.version}`,
+      );
+    }
+  }
+
+  const types = byType(inventory);
+  for (const [type, components] of types) {
+    const behind = components.filter((c) => !isFirmwareCurrent(c));
+    for (const version of new Set(behind.map((c) => c.version))) {
+      const ids = behind.filter((c) => c.version === version).map((c) => c.id);
+      const label =
+        components.length > 1
+          ? `${FIRMWARE_LABELS[type]} (${ids.join(", ")})`
+          : FIRMWARE_LABELS[type];
+      findings.outdated.push(
+        `${label}: ${version} (expected ${recommendedVersion(behind[0])})`,
+      );
+    }
+  }
+
+  const peers = nodes.filter(
+    (n) => n.id !== node.id && n.systemType === node.systemType,
+  );
+  const peerTypes = peers.map((peer) => ({
+    id: peer.id,
+    types: byType(getNodeFirmware(peer)),
+  }));
+  for (const [type, components] of types) {
+    const mine = versionsOf(components);
+    const theirs = new Map<string, string[]>();
+    for (const peer of peerTypes) {
+      const version = versionsOf(peer.types.get(type) ?? []);
+      if (version === "" || version === mine) continue;
+      theirs.set(version, [...(theirs.get(version) ?? []), peer.id]);
+    }
+    for (const [version, ids] of theirs) {
+      findings.skew.push(
+        `${FIRMWARE_LABELS[type]}: ${mine} here, ${version} on ${ids.join(", ")}`,
+      );
+    }
+  }
+  return findings;
+}
+
+/**
+ * A short account of an update for logs and state history
+ */
+export function describeNodeFirmwareUpdate(update: NodeFirmwareUpdate): string {
+  const components = update.components.join(", ");
+  switch (update.action) {
+    case "flash":
+      return `Flashed firmware on ${components}`;
+    case "activate":
+      return `Activated firmware on ${components}`;
+    case "fault":
+      return `Firmware fault on ${components}`;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * GPU Memory Health
+ *
+ * What a GPU does about failing framebuffer memory, and keeps in its InfoROM
+ * across resets and reboots. Every double-bit error retires the page it hit
+ * and remaps its DRAM row to one of the bank's spare rows; every tenth
+ * single-bit error does the same for a correctable row. Neither takes effect
+ * until the GPU is reset, so until `nvidia-smi -r` or a node reboot the
+ * repairs stay pending and the GPU reports that it needs a reset.
+ *
+ * Uncorrectable errors keep hitting the same weak bank. Once its spare rows
+ * are used up the next one cannot be remapped (XID 64), and the GPU has to
+ * be replaced.
+ *
+ * Like the DCGM host engine, the state is derived from GPU changes:
+ * observeMemoryErrors() runs on every GPU update, whether the physics engine,
+ * fault injection or scenario replay made it. Page addresses and rows are
+ * hashed from the GPU UUID, so replay retires the same pages.
+ */
+
+import type {
+  GPU,
+  GpuMemoryHealth,
+  RemappedRow,
+  RetiredPage,
+} from "@/types/hardware";
+import { getGpuSpec } from "./migEngine";
+
+export const SPARE_ROWS_PER_BANK = 8;
+export const SBE_PER_RETIRED_PAGE = 10;
+// The driver's retired page table holds this many pages
+export const RETIRED_PAGE_LIMIT = 64;
+
+const BANKS_PER_GB = 8;
+const ROWS_PER_BANK = 65536;
+const PAGE_SIZE = 0x10000;
+
+export interface RemapHistogram {
+  max: number; // Banks with every spare row available
+  high: number;
+  partial: number;
+  low: number; // One spare row left
+  none: number; // No spare row left
+}
+
+export interface MemoryXidEvent {
+  code: number;
+  timestamp: number; // Simulation clock, ms
+  message: string;
+}
+
+export interface MemoryRmaDecision {
+  rma: boolean;
+  reason: string;
+}
+
+function emptyHealth(): GpuMemoryHealth {
+  return {
+    correctableErrors: 0,
+    retiredPages: [],
+    remappedRows: [],
+    remapFailures: [],
+  };
+}
+
+/**
+ * The memory health of a GPU; a GPU without a recorded error has none to
+ * report.
+ */
+export function getMemoryHealth(gpu: GPU): GpuMemoryHealth {
+  return gpu.memoryHealth ?? emptyHealth();
+}
+
+// FNV-1a, so the same GPU always fails in the same places
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function bankCount(gpu: GPU): number {
+  return getGpuSpec(gpu).gpu.memoryGB * BANKS_PER_GB;
+}
+
+/**
+ * How many spare rows each bank has used, by bank
+ */
+function sparesUsed(health: GpuMemoryHealth): Map<number, number> {
+  const used = new Map<number, number>();
+  for (const row of health.remappedRows) {
+    used.set(row.bank, (used.get(row.bank) ?? 0) + 1);
+  }
+  return used;
+}
+
+/**
+ * Banks by how many spare rows they have left, as nvidia-smi reports them
+ */
+export function remapHistogram(gpu: GPU): RemapHistogram {
+  const histogram = { max: 0, high: 0, partial: 0, low: 0, none: 0 };
+  const used = sparesUsed(getMemoryHealth(gpu));
+  histogram.max = bankCount(gpu) - used.size;
+  for (const count of used.values()) {
+    const left = SPARE_ROWS_PER_BANK - count;
+    if (left <= 0) histogram.none++;
+    else if (left === 1) histogram.low++;
+    else if (left <= SPARE_ROWS_PER_BANK / 2) histogram.partial++;
+    else histogram.high++;
+  }
+  return histogram;
+}
+
+export function retiredPageCount(
+  gpu: GPU,
+  cause: RetiredPage["cause"],
+): number {
+  return getMemoryHealth(gpu).retiredPages.filter((p) => p.cause === cause)
+    .length;
+}
+
+export function remappedRowCount(
+  gpu: GPU,
+  cause: RemappedRow["cause"],
+): number {
+  return getMemoryHealth(gpu).remappedRows.filter((r) => r.cause === cause)
+    .length;
+}
+
+export function pendingRetiredPages(gpu: GPU): number {
+  return getMemoryHealth(gpu).retiredPages.filter((p) => p.pending).length;
+}
+
+export function pendingRemappedRows(gpu: GPU): number {
+  return getMemoryHealth(gpu).remappedRows.filter((r) => r.pending).length;
+}
+
+/**
+ * Whether the GPU has repairs that only a reset activates
+ */
+export function isResetRequired(gpu: GPU): boolean {
+  return pendingRetiredPages(gpu) > 0 || pendingRemappedRows(gpu) > 0;
+}
+
+function retirePage(
+  gpu: GPU,
+  health: GpuMemoryHealth,
+  cause: RetiredPage["cause"],
+  now: number,
+): void {
+  const index = health.retiredPages.length;
+  health.retiredPages.push({
+    address: (hash(`${gpu.uuid}:page:${index}`) % 0x1000000) * PAGE_SIZE,
+    cause,
+    timestamp: now,
+    pending: true,
+  });
+}
+
+function remapRow(
+  gpu: GPU,
+  health: GpuMemoryHealth,
+  cause: RemappedRow["cause"],
+  now: number,
+): void {
+  const index = health.remappedRows.length + health.remapFailures.length;
+  const banks = bankCount(gpu);
+  // Uncorrectable errors come from the GPU's weak bank; correctable ones
+  // are spread over the framebuffer
+  const bank =
+    cause === "uncorrectable"
+      ? hash(`${gpu.uuid}:weak-bank`) % banks
+      : hash(`${gpu.uuid}:bank:${index}`) % banks;
+  const row = hash(`${gpu.uuid}:row:${index}`) % ROWS_PER_BANK;
+
+  if ((sparesUsed(health).get(bank) ?? 0) >= SPARE_ROWS_PER_BANK) {
+    health.remapFailures.push({ bank, row, timestamp: now });
+    return;
+  }
+  health.remappedRows.push({ bank, row, cause, timestamp: now, pending: true });
+}
+
+/**
+ * Retire pages and remap rows for the ECC errors a GPU update added. Counts
+ * that went down (a reset of the counters) add nothing. Call after the
+ * update has been applied to the GPU.
+ */
+export function observeMemoryErrors(gpu: GPU, before: GPU, now: number): void {
+  const added = (read: (g: GPU) => number | undefined) =>
+    Math.max(0, (read(gpu) ?? 0) - (read(before) ?? 0));
+  const newSbe = Math.max(
+    added((g) => g.eccErrors?.singleBit),
+    added((g) => g.eccErrors?.aggregated?.singleBit),
+  );
+  const newDbe = Math.max(
+    added((g) => g.eccErrors?.doubleBit),
+    added((g) => g.eccErrors?.aggregated?.doubleBit),
+  );
+  if (newSbe === 0 && newDbe === 0) return;
+
+  // A new record, so a GPU update that carried the old one is left as it was
+  const previous = getMemoryHealth(gpu);
+  const health: GpuMemoryHealth = {
+    correctableErrors: previous.correctableErrors,
+    retiredPages: [...previous.retiredPages],
+    remappedRows: [...previous.remappedRows],
+    remapFailures: [...previous.remapFailures],
+  };
+  gpu.memoryHealth = health;
+
+  for (let i = 0; i < newDbe; i++) {
+    retirePage(gpu, health, "DBE", now);
+    remapRow(gpu, health, "uncorrectable", now);
+  }
+
+  const retiredBefore = Math.floor(
+    health.correctableErrors / SBE_PER_RETIRED_PAGE,
+  );
+  health.correctableErrors += newSbe;
+  const retiredNow = Math.floor(
+    health.correctableErrors / SBE_PER_RETIRED_PAGE,
+  );
+  for (let i = retiredBefore; i < retiredNow; i++) {
+    retirePage(gpu, health, "SBE", now);
+    remapRow(gpu, health, "correctable", now);
+  }
+}
+
+/**
+ * The memory health once a GPU reset has activated its pending repairs, or
+ * undefined for a GPU with none recorded
+ */
+export function completePendingRepairs(gpu: GPU): GpuMemoryHealth | undefined {
+  if (!gpu.memoryHealth) return undefined;
+  return {
+    ...gpu.memoryHealth,
+    retiredPages: gpu.memoryHealth.retiredPages.map((p) => ({
+      ...p,
+      pending: false,
+    })),
+    remappedRows: gpu.memoryHealth.remappedRows.map((r) => ({
+      ...r,
+      pending: false,
+    })),
+  };
+}
+
+/**
+ * The XIDs the driver logged for the GPU's memory repairs, oldest first
+ */
+export function memoryXidEvents(gpu: GPU): MemoryXidEvent[] {
+  const health = getMemoryHealth(gpu);
+  const hex = (n: number) => `0x${n.toString(16).padStart(16, "0")}`;
+  const events: MemoryXidEvent[] = [
+    ...health.retiredPages
+      .filter((p) => p.cause === "DBE")
+      .map((p) => ({
+        code: 48,
+        timestamp: p.timestamp,
+        message: `An uncorrectable double bit error (DBE) has been detected on GPU in the framebuffer at physical address ${hex(p.address)}.`,
+      })),
+    ...health.remappedRows.map((r) => ({
+      code: 63,
+      timestamp: r.timestamp,
+      message: `Row Remapper: New row (${hex(r.bank * ROWS_PER_BANK + r.row)}) marked for remapping, reset gpu to activate.`,
+    })),
+    ...health.remapFailures.map((f) => ({
+      code: 64,
+      timestamp: f.timestamp,
+      message: `Row Remapper Error: failed to remap row (${hex(f.bank * ROWS_PER_BANK + f.row)}), bank ${f.bank} has no spare rows left.`,
+    })),
+  ];
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Whether the GPU's memory history calls for an RMA. A row that could not be
+ * remapped, or a full retired page table, means the memory can no longer be
+ * repaired in the field; pending repairs only need a reset.
+ */
+export function assessMemoryRma(gpu: GPU): MemoryRmaDecision {
+  const health = getMemoryHealth(gpu);
+  if (health.remapFailures.length > 0) {
+    return {
+      rma: true,
+      reason: `Row remapping failed ${health.remapFailures.length} time(s): bank ${health.remapFailures[0].bank} has no spare rows left`,
+    };
+  }
+  if (health.retiredPages.length >= RETIRED_PAGE_LIMIT) {
+    return {
+      rma: true,
+      reason: `${health.retiredPages.length} pages retired, the retired page table is full`,
+    };
+  }
+  if (isResetRequired(gpu)) {
+    return {
+      rma: false,
+      reason: `Reset the GPU to activate ${pendingRemappedRows(gpu)} pending row remap(s), then monitor`,
+    };
+  }
+  return {
+    rma: false,
+    reason:
+      health.remappedRows.length > 0
+        ? `${health.remappedRows.length} row(s) remapped with spare rows to spare`
+        : "No memory errors recorded",
+  };
+}
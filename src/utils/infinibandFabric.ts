@@ -0,0 +1,1039 @@
+/**
+ * InfiniBand Fabric
+ *
+ * Switches, switch ports, cables and LIDs of a cluster's InfiniBand fabric.
+ * clusterFactory builds the fabric along with the cluster, and every IB
+ * tool, cable tool and the fabric map read it through getFabric(), so a
+ * fault on one switch port or cable shows up the same way everywhere.
+ *
+ * The subnet managers running on the nodes are part of the fabric too. A
+ * sweep by the master SM assigns LIDs, activates ports that came up and
+ * rebuilds the switch forwarding tables that routes follow.
+ */
+
+import type {
+  ClusterConfig,
+  DGXNode,
+  FabricSwitchCounts,
+  InfiniBandCable,
+  InfiniBandFabric,
+  InfiniBandLinkEnd,
+  InfiniBandPhysicalState,
+  InfiniBandPort,
+  InfiniBandPortErrors,
+  InfiniBandPortState,
+  InfiniBandRate,
+  InfiniBandRoutingEngine,
+  InfiniBandSubnetManager,
+  InfiniBandSubnetManagerState,
+  InfiniBandSwitch,
+  InfiniBandSwitchPort,
+} from "@/types/hardware";
+import {
+  computeForwardingTables,
+  electMaster,
+  type SubnetGraph,
+} from "@/simulation/subnetManager";
+
+const SPINE_COUNT = 4;
+
+// OpenSM runs on the first nodes, the first one preferred as master
+const SUBNET_MANAGER_PRIORITIES = [14, 13];
+
+const SWITCH_FIRMWARE: Record<string, string> = {
+  QM8700: "27.2010.6102",
+  QM8790: "27.2010.6102",
+  QM9700: "31.2012.1068",
+  QM9790: "31.2012.1068",
+};
+
+export interface InfiniBandPortUpdate {
+  state?: InfiniBandPortState;
+  physicalState?: InfiniBandPhysicalState;
+  errors?: Partial<InfiniBandPortErrors>;
+}
+
+export interface InfiniBandPortChange {
+  end: InfiniBandLinkEnd;
+  update: InfiniBandPortUpdate;
+}
+
+/**
+ * Quantum switch model for a link rate. All switches in a DGX SuperPOD
+ * match the fastest host HCA; slower HCAs link up at their own rate.
+ */
+export function getSwitchModel(rate: number): string {
+  if (rate >= 800) return "QM9790";
+  if (rate >= 400) return "QM9700";
+  if (rate >= 200) return "QM8790";
+  return "QM8700";
+}
+
+function emptyErrors(): InfiniBandPortErrors {
+  return {
+    symbolErrors: 0,
+    linkDowned: 0,
+    portRcvErrors: 0,
+    portXmitDiscards: 0,
+    portXmitWait: 0,
+  };
+}
+
+function switchGuid(index: number): string {
+  return `0xfc6a1c0300${index.toString(16).padStart(6, "0")}`;
+}
+
+function cablePartNumber(
+  rate: number,
+  type: InfiniBandCable["type"],
+  lengthMeters: number,
+): string {
+  const length = String(lengthMeters).padStart(3, "0");
+  if (rate >= 800) {
+    return type === "DAC" ? `MCP7Y00-X${length}` : `MFA7U10-X${length}`;
+  }
+  if (rate >= 400) {
+    return type === "DAC" ? `MCP4Y10-N${length}` : `MFA7U10-N${length}`;
+  }
+  if (rate >= 200) {
+    return type === "DAC" ? `MCP1650-H${length}E30` : `MFS1S00-H${length}E`;
+  }
+  return type === "DAC" ? `MCP1600-E${length}E30` : `MFA1A00-E${length}`;
+}
+
+interface LeafPlan {
+  name: string;
+  hosts: { node: DGXNode; nodeIndex: number; hcaIndex: number }[];
+}
+
+/** Split items into `count` runs whose lengths differ by at most one */
+function splitEvenly<T>(items: T[], count: number): T[][] {
+  return Array.from({ length: count }, (_, i) =>
+    items.slice(
+      Math.floor((i * items.length) / count),
+      Math.floor(((i + 1) * items.length) / count),
+    ),
+  );
+}
+
+/**
+ * Leaf switches and the HCAs cabled to each. Rail-optimized fabrics give
+ * every HCA index its own rail of leaves (HCA N of every node on Rail-N);
+ * fat-tree fabrics fill leaves with consecutive HCAs. DragonFly is laid out
+ * as a fat-tree. Without a leaf count each leaf is filled to its host ports;
+ * with one, hosts are spread evenly over that many leaves.
+ */
+function planLeaves(
+  nodes: DGXNode[],
+  topology: ClusterConfig["fabricTopology"] | undefined,
+  hostPortsPerLeaf: number,
+  leafCount?: number,
+): LeafPlan[] {
+  const leaves: LeafPlan[] = [];
+
+  if (topology === "FatTree" || topology === "DragonFly") {
+    const hosts = nodes.flatMap((node, nodeIndex) =>
+      node.hcas.map((_, hcaIndex) => ({ node, nodeIndex, hcaIndex })),
+    );
+    if (leafCount) {
+      return splitEvenly(hosts, leafCount).map((run, i) => ({
+        name: `Leaf-${i}`,
+        hosts: run,
+      }));
+    }
+    for (let i = 0; i < hosts.length; i += hostPortsPerLeaf) {
+      leaves.push({
+        name: `Leaf-${leaves.length}`,
+        hosts: hosts.slice(i, i + hostPortsPerLeaf),
+      });
+    }
+    return leaves;
+  }
+
+  const railCount = countRails(nodes);
+  const indexed = nodes.map((node, nodeIndex) => ({ node, nodeIndex }));
+  const groups = leafCount
+    ? splitEvenly(indexed, Math.max(1, Math.floor(leafCount / railCount)))
+    : Array.from(
+        {
+          length: Math.max(1, Math.ceil(nodes.length / hostPortsPerLeaf)),
+        },
+        (_, group) =>
+          indexed.slice(
+            group * hostPortsPerLeaf,
+            (group + 1) * hostPortsPerLeaf,
+          ),
+      );
+  for (let rail = 0; rail < railCount; rail++) {
+    groups.forEach((group, g) => {
+      leaves.push({
+        name: groups.length > 1 ? `Rail-${rail}-${g}` : `Rail-${rail}`,
+        hosts: group
+          .map(({ node, nodeIndex }) => ({ node, nodeIndex, hcaIndex: rail }))
+          .filter(({ node }) => node.hcas[rail] !== undefined),
+      });
+    });
+  }
+  return leaves;
+}
+
+function countRails(nodes: DGXNode[]): number {
+  return Math.max(0, ...nodes.map((n) => n.hcas.length));
+}
+
+/** Host link rate the fabric's switches run at: the fastest host HCA */
+function fabricRate(nodes: DGXNode[]): InfiniBandRate {
+  const hostRates = nodes.flatMap((n) =>
+    n.hcas.map((h) => Number(h.ports[0]?.rate) || 0),
+  );
+  return (Math.max(0, ...hostRates) || 400) as InfiniBandRate;
+}
+
+/** Ports per switch; half of a leaf's ports face hosts, half the spines */
+function switchPortCount(model: string): number {
+  return model.startsWith("QM97") ? 64 : 40;
+}
+
+/**
+ * The leaf and spine counts buildInfiniBandFabric uses when the cluster
+ * does not set its own: as few leaves as hold every host, and four spines
+ * once there is more than one leaf.
+ */
+export function defaultSwitchCounts(
+  nodes: DGXNode[],
+  topology?: ClusterConfig["fabricTopology"],
+): FabricSwitchCounts {
+  const hostPorts = switchPortCount(getSwitchModel(fabricRate(nodes))) / 2;
+  const leaves = planLeaves(nodes, topology, hostPorts).length;
+  return { leaves, spines: leaves > 1 ? SPINE_COUNT : 0 };
+}
+
+/**
+ * Problems with a leaf and spine count for the nodes: too few leaves to
+ * give every host a port, leaves left without hosts, a rail-optimized count
+ * that does not split evenly over the rails, or spines the leaves have no
+ * uplink ports for.
+ */
+export function switchCountErrors(
+  nodes: DGXNode[],
+  topology: ClusterConfig["fabricTopology"] | undefined,
+  counts: FabricSwitchCounts,
+): string[] {
+  const errors: string[] = [];
+  const hostPorts = switchPortCount(getSwitchModel(fabricRate(nodes))) / 2;
+  const minimum = defaultSwitchCounts(nodes, topology).leaves;
+
+  if (counts.leaves < minimum) {
+    errors.push(
+      `${counts.leaves} leaf switches cannot cable every host (at least ${minimum} needed)`,
+    );
+  }
+  if (topology === "FatTree" || topology === "DragonFly") {
+    const hosts = nodes.reduce((sum, n) => sum + n.hcas.length, 0);
+    if (counts.leaves > hosts) {
+      errors.push(
+        `${counts.leaves} leaf switches is more than the ${hosts} HCAs to cable`,
+      );
+    }
+  } else {
+    const rails = countRails(nodes);
+    if (counts.leaves % rails !== 0) {
+      errors.push(
+        `${counts.leaves} leaf switches do not split evenly over ${rails} rails`,
+      );
+    } else if (counts.leaves / rails > nodes.length) {
+      errors.push(
+        `${counts.leaves / rails} leaf switches per rail is more than the ${nodes.length} nodes`,
+      );
+    }
+  }
+  if (counts.leaves > 1 && counts.spines < 1) {
+    errors.push("A fabric with more than one leaf switch needs a spine");
+  }
+  if (counts.spines > hostPorts) {
+    errors.push(
+      `${counts.spines} spine switches exceed the ${hostPorts} uplink ports of each leaf`,
+    );
+  }
+  return errors;
+}
+
+/**
+ * Build the two-tier fabric for a set of nodes. Switch LIDs start at 1 with
+ * the spines, and subnet managers are installed on mlx5_0 of the first two
+ * nodes; none of them is master until the first sweep. Only port 1 of each
+ * HCA is cabled. In a cluster mixing generations (HDR A100 nodes next to
+ * NDR H100 nodes) the switches run at the fastest host rate and each host
+ * link at the slower of its two ends. Switch counts, when given, have been
+ * checked with switchCountErrors.
+ */
+export function buildInfiniBandFabric(
+  nodes: DGXNode[],
+  topology?: ClusterConfig["fabricTopology"],
+  switchCounts?: FabricSwitchCounts,
+): InfiniBandFabric {
+  const rate = fabricRate(nodes);
+  const model = getSwitchModel(rate);
+  const portCount = switchPortCount(model);
+  const hostPortsPerLeaf = portCount / 2;
+  const leaves = planLeaves(
+    nodes,
+    topology,
+    hostPortsPerLeaf,
+    switchCounts?.leaves,
+  );
+  const spineCount =
+    switchCounts?.spines ?? (leaves.length > 1 ? SPINE_COUNT : 0);
+
+  const switches: InfiniBandSwitch[] = [];
+  const cables: InfiniBandCable[] = [];
+
+  const addSwitch = (
+    tier: InfiniBandSwitch["tier"],
+    index: number,
+    name: string,
+    ports: number,
+  ): InfiniBandSwitch => {
+    const sw: InfiniBandSwitch = {
+      id: `${tier}-${index}`,
+      tier,
+      description: `${model}/${name}`,
+      model,
+      guid: switchGuid(switches.length),
+      lid: switches.length + 1,
+      firmwareVersion: SWITCH_FIRMWARE[model],
+      ports: Array.from({ length: ports }, (_, i) => ({
+        portNumber: i + 1,
+        state: "Down",
+        physicalState: "Polling",
+        rate,
+        errors: emptyErrors(),
+      })),
+    };
+    switches.push(sw);
+    return sw;
+  };
+
+  const addCable = (
+    ends: [InfiniBandLinkEnd, InfiniBandLinkEnd],
+    lengthMeters: number,
+    linkRate: number = rate,
+  ): void => {
+    const type = lengthMeters <= 3 ? "DAC" : "AOC";
+    cables.push({
+      id: `cable-${cables.length}`,
+      ends,
+      type,
+      lengthMeters,
+      vendor: "Mellanox",
+      partNumber: cablePartNumber(linkRate, type, lengthMeters),
+      serialNumber: `MT${2300000000 + cables.length}`,
+    });
+  };
+
+  const spines = Array.from({ length: spineCount }, (_, s) =>
+    addSwitch("spine", s, `Spine-${s}`, Math.max(portCount, leaves.length)),
+  );
+
+  leaves.forEach((plan, leafIndex) => {
+    const leaf = addSwitch("leaf", leafIndex, plan.name, portCount);
+
+    plan.hosts.forEach(({ node, nodeIndex, hcaIndex }, i) => {
+      const hcaPort = node.hcas[hcaIndex].ports[0];
+      if (!hcaPort) return;
+      const leafPort = leaf.ports[i];
+      leafPort.state = hcaPort.state;
+      leafPort.physicalState = hcaPort.physicalState;
+      leafPort.rate = Math.min(rate, hcaPort.rate) as InfiniBandRate;
+      addCable(
+        [
+          {
+            kind: "hca",
+            nodeId: node.id,
+            hcaIndex,
+            portNumber: hcaPort.portNumber,
+          },
+          { kind: "switch", switchId: leaf.id, portNumber: i + 1 },
+        ],
+        2 + ((nodeIndex + hcaIndex) % 4),
+        leafPort.rate,
+      );
+    });
+
+    spines.forEach((spine, s) => {
+      const leafPort = leaf.ports[hostPortsPerLeaf + s];
+      const spinePort = spine.ports[leafIndex];
+      leafPort.state = spinePort.state = "Active";
+      leafPort.physicalState = spinePort.physicalState = "LinkUp";
+      addCable(
+        [
+          {
+            kind: "switch",
+            switchId: leaf.id,
+            portNumber: leafPort.portNumber,
+          },
+          {
+            kind: "switch",
+            switchId: spine.id,
+            portNumber: spinePort.portNumber,
+          },
+        ],
+        10 + ((leafIndex + s) % 3) * 5,
+      );
+    });
+  });
+
+  const subnetManagers: InfiniBandSubnetManager[] = nodes
+    .filter((node) => node.hcas[0])
+    .slice(0, SUBNET_MANAGER_PRIORITIES.length)
+    .map((node, i) => ({
+      id: `sm-${i}`,
+      nodeId: node.id,
+      hcaIndex: 0,
+      priority: SUBNET_MANAGER_PRIORITIES[i],
+      routingEngine: topology === "DragonFly" ? "minhop" : "ftree",
+      running: true,
+      state: "NotActive",
+    }));
+
+  return {
+    smLid: 0,
+    subnetManagers,
+    forwardingTables: {},
+    routedCables: [],
+    sweepCount: 0,
+    switches,
+    cables,
+  };
+}
+
+/**
+ * The cluster's fabric. Clusters without one (hand-built fixtures, older
+ * saved sessions) get a fabric derived from their nodes on every call, so it
+ * always reflects the current HCA port state. A derived fabric is swept
+ * right away but, being rebuilt each time, never changes the nodes.
+ */
+export function getFabric(cluster: ClusterConfig): InfiniBandFabric {
+  if (cluster.infiniband) return cluster.infiniband;
+  const fabric = buildInfiniBandFabric(
+    cluster.nodes,
+    cluster.fabricTopology,
+    cluster.fabricSwitches,
+  );
+  const sweep = planSubnetSweep(cluster, fabric);
+  if (sweep) applySweepToFabric(fabric, sweep);
+  return fabric;
+}
+
+export function findSwitch(
+  fabric: InfiniBandFabric,
+  switchId: string,
+): InfiniBandSwitch | undefined {
+  return fabric.switches.find((sw) => sw.id === switchId);
+}
+
+/**
+ * The port state behind one end of a cable
+ */
+export function getEndPort(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  end: InfiniBandLinkEnd,
+): InfiniBandSwitchPort | InfiniBandPort | undefined {
+  if (end.kind === "switch") {
+    return findSwitch(fabric, end.switchId)?.ports.find(
+      (p) => p.portNumber === end.portNumber,
+    );
+  }
+  return cluster.nodes
+    .find((n) => n.id === end.nodeId)
+    ?.hcas[end.hcaIndex]?.ports.find((p) => p.portNumber === end.portNumber);
+}
+
+function sameEnd(a: InfiniBandLinkEnd, b: InfiniBandLinkEnd): boolean {
+  if (a.kind === "switch" && b.kind === "switch") {
+    return a.switchId === b.switchId && a.portNumber === b.portNumber;
+  }
+  if (a.kind === "hca" && b.kind === "hca") {
+    return (
+      a.nodeId === b.nodeId &&
+      a.hcaIndex === b.hcaIndex &&
+      a.portNumber === b.portNumber
+    );
+  }
+  return false;
+}
+
+/**
+ * The cable plugged into a port, if any
+ */
+export function findCable(
+  fabric: InfiniBandFabric,
+  end: InfiniBandLinkEnd,
+): InfiniBandCable | undefined {
+  return fabric.cables.find((c) => c.ends.some((e) => sameEnd(e, end)));
+}
+
+/**
+ * The far end of a cable as seen from one of its ends
+ */
+export function peerEnd(
+  cable: InfiniBandCable,
+  end: InfiniBandLinkEnd,
+): InfiniBandLinkEnd {
+  return sameEnd(cable.ends[0], end) ? cable.ends[1] : cable.ends[0];
+}
+
+/**
+ * Node description of a switch or HCA, as the tools print it
+ */
+export function describeEnd(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  end: InfiniBandLinkEnd,
+): string {
+  if (end.kind === "switch") {
+    return findSwitch(fabric, end.switchId)?.description ?? end.switchId;
+  }
+  const node = cluster.nodes.find((n) => n.id === end.nodeId);
+  const host = node?.hostname.split(".")[0] ?? end.nodeId;
+  return `${host} mlx5_${end.hcaIndex}`;
+}
+
+/**
+ * LID and GUID answering for one end of a cable: the switch's own, or the
+ * HCA port's
+ */
+export function getEndAddress(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  end: InfiniBandLinkEnd,
+): { lid: number; guid: string } {
+  if (end.kind === "switch") {
+    const sw = findSwitch(fabric, end.switchId);
+    return { lid: sw?.lid ?? 0, guid: sw?.guid ?? "0x0000000000000000" };
+  }
+  const port = cluster.nodes
+    .find((n) => n.id === end.nodeId)
+    ?.hcas[end.hcaIndex]?.ports.find((p) => p.portNumber === end.portNumber);
+  return { lid: port?.lid ?? 0, guid: port?.guid ?? "0x0000000000000000" };
+}
+
+export function describeCableType(type: InfiniBandCable["type"]): string {
+  return type === "DAC"
+    ? "Passive Copper Cable (DAC)"
+    : "Active Optical Cable (AOC)";
+}
+
+/**
+ * A link is up only when the ports at both ends of its cable are Active
+ */
+export function isCableUp(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  cable: InfiniBandCable,
+): boolean {
+  return cable.ends.every(
+    (end) => getEndPort(cluster, fabric, end)?.state === "Active",
+  );
+}
+
+/**
+ * Symbol, receive and link-down errors counted at both ends of a cable
+ */
+export function cableErrorCount(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  cable: InfiniBandCable,
+): number {
+  return cable.ends.reduce((sum, end) => {
+    const errors = getEndPort(cluster, fabric, end)?.errors;
+    return errors
+      ? sum + errors.symbolErrors + errors.portRcvErrors + errors.linkDowned
+      : sum;
+  }, 0);
+}
+
+/**
+ * The switch (as its port 0) or HCA port answering to a LID
+ */
+export function findEndByLid(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  lid: number,
+): InfiniBandLinkEnd | undefined {
+  const sw = fabric.switches.find((s) => s.lid === lid);
+  if (sw) return { kind: "switch", switchId: sw.id, portNumber: 0 };
+
+  for (const node of cluster.nodes) {
+    for (let hcaIndex = 0; hcaIndex < node.hcas.length; hcaIndex++) {
+      const port = node.hcas[hcaIndex].ports.find((p) => p.lid === lid);
+      if (port) {
+        return {
+          kind: "hca",
+          nodeId: node.id,
+          hcaIndex,
+          portNumber: port.portNumber,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+function endpointKey(end: InfiniBandLinkEnd): string {
+  return end.kind === "switch"
+    ? end.switchId
+    : `${end.nodeId}/${end.hcaIndex}/${end.portNumber}`;
+}
+
+export interface InfiniBandRouteHop {
+  // Port the packet leaves the previous device on
+  outPort: number;
+  // Device and port it arrives on
+  to: InfiniBandLinkEnd;
+}
+
+// Routes longer than this are forwarding loops
+const MAX_ROUTE_HOPS = 64;
+
+/**
+ * The path a packet takes between two LIDs, following the forwarding tables
+ * of the last sweep. Undefined when either LID is unknown, a switch has no
+ * entry for the destination, or the next link is not up, which is what
+ * happens when links fail and no subnet manager is left to reroute.
+ */
+export function traceRoute(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  fromLid: number,
+  toLid: number,
+): InfiniBandRouteHop[] | undefined {
+  const from = findEndByLid(cluster, fabric, fromLid);
+  const to = findEndByLid(cluster, fabric, toLid);
+  if (!from || !to) return undefined;
+
+  const targetKey = endpointKey(to);
+  const hops: InfiniBandRouteHop[] = [];
+  let current = from;
+  while (endpointKey(current) !== targetKey) {
+    if (hops.length >= MAX_ROUTE_HOPS) return undefined;
+
+    // An HCA sends out of its own port; a switch looks up its LFT
+    const outPort =
+      current.kind === "hca"
+        ? current.portNumber
+        : fabric.forwardingTables[current.switchId]?.[toLid];
+    if (!outPort) return undefined;
+
+    const out: InfiniBandLinkEnd =
+      current.kind === "hca"
+        ? current
+        : { kind: "switch", switchId: current.switchId, portNumber: outPort };
+    const cable = findCable(fabric, out);
+    if (!cable || !isCableUp(cluster, fabric, cable)) return undefined;
+
+    current = peerEnd(cable, out);
+    hops.push({ outPort, to: current });
+  }
+  return hops;
+}
+
+/**
+ * What one sweep of the master SM changes. Without a master only the SM
+ * states change: ports that came up stay in Init and the forwarding tables
+ * keep pointing where they did.
+ */
+export interface SubnetSweep {
+  managers: Record<string, InfiniBandSubnetManagerState>;
+  smLid?: number;
+  lids: { end: InfiniBandLinkEnd; lid: number }[];
+  activated: InfiniBandLinkEnd[];
+  routing?: {
+    engine: InfiniBandRoutingEngine;
+    forwardingTables: Record<string, Record<number, number>>;
+    routedCables: string[];
+  };
+}
+
+function isPhysicallyUp(port: InfiniBandSwitchPort | InfiniBandPort): boolean {
+  return (
+    port.physicalState === "LinkUp" &&
+    port.state !== "Down" &&
+    port.state !== "Disabled"
+  );
+}
+
+function isDiscovered(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  cable: InfiniBandCable,
+): boolean {
+  return cable.ends.every((end) => {
+    const port = getEndPort(cluster, fabric, end);
+    return port !== undefined && isPhysicallyUp(port);
+  });
+}
+
+/**
+ * The HCA port a subnet manager runs on
+ */
+export function subnetManagerEnd(
+  cluster: ClusterConfig,
+  sm: InfiniBandSubnetManager,
+): InfiniBandLinkEnd | undefined {
+  const node = cluster.nodes.find((n) => n.id === sm.nodeId);
+  const port = node?.hcas[sm.hcaIndex]?.ports[0];
+  if (!port) return undefined;
+  return {
+    kind: "hca",
+    nodeId: sm.nodeId,
+    hcaIndex: sm.hcaIndex,
+    portNumber: port.portNumber,
+  };
+}
+
+/**
+ * An SM takes part in the election while its daemon runs, its node is
+ * powered on and its port has a live link into the fabric
+ */
+function isManagerAlive(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+  sm: InfiniBandSubnetManager,
+): boolean {
+  const node = cluster.nodes.find((n) => n.id === sm.nodeId);
+  const end = subnetManagerEnd(cluster, sm);
+  if (!sm.running || !node || node.bmc?.powerState === "Off" || !end) {
+    return false;
+  }
+  const cable = findCable(fabric, end);
+  return cable !== undefined && isDiscovered(cluster, fabric, cable);
+}
+
+/**
+ * Plan the next sweep: elect the master, give LIDs to ports that have none,
+ * bring Init and Armed ports to Active and rebuild the forwarding tables
+ * over the links that are up. Undefined when nothing would change.
+ */
+export function planSubnetSweep(
+  cluster: ClusterConfig,
+  fabric: InfiniBandFabric,
+): SubnetSweep | undefined {
+  const alive = fabric.subnetManagers.filter((sm) =>
+    isManagerAlive(cluster, fabric, sm),
+  );
+  const masterId = electMaster(
+    alive.map((sm) => ({
+      id: sm.id,
+      priority: sm.priority,
+      guid: getEndAddress(cluster, fabric, subnetManagerEnd(cluster, sm)!).guid,
+    })),
+  );
+  const managers = Object.fromEntries(
+    fabric.subnetManagers.map((sm) => [
+      sm.id,
+      sm.id === masterId
+        ? "Master"
+        : alive.includes(sm)
+          ? "Standby"
+          : "NotActive",
+    ]),
+  ) as Record<string, InfiniBandSubnetManagerState>;
+  const managersChanged = fabric.subnetManagers.some(
+    (sm) => managers[sm.id] !== sm.state,
+  );
+
+  const master = alive.find((sm) => sm.id === masterId);
+  if (!master) {
+    return managersChanged ? { managers, lids: [], activated: [] } : undefined;
+  }
+
+  const discovered = fabric.cables.filter((cable) =>
+    isDiscovered(cluster, fabric, cable),
+  );
+
+  // Keep the LIDs already handed out; new ports get the lowest free ones,
+  // switches first
+  const lidOf = new Map<string, number>();
+  const endpoints: InfiniBandLinkEnd[] = [
+    ...fabric.switches.map(
+      (sw): InfiniBandLinkEnd => ({
+        kind: "switch",
+        switchId: sw.id,
+        portNumber: 0,
+      }),
+    ),
+    ...discovered.flatMap((cable) =>
+      cable.ends.filter((e) => e.kind === "hca"),
+    ),
+  ];
+  for (const end of endpoints) {
+    lidOf.set(endpointKey(end), getEndAddress(cluster, fabric, end).lid);
+  }
+  const used = new Set(lidOf.values());
+  let nextLid = 1;
+  const lids: SubnetSweep["lids"] = [];
+  for (const end of endpoints) {
+    if (lidOf.get(endpointKey(end))! > 0) continue;
+    while (used.has(nextLid)) nextLid++;
+    used.add(nextLid);
+    lidOf.set(endpointKey(end), nextLid);
+    lids.push({ end, lid: nextLid });
+  }
+
+  const activated = discovered.flatMap((cable) =>
+    cable.ends.filter((end) => {
+      const state = getEndPort(cluster, fabric, end)?.state;
+      return state === "Init" || state === "Armed";
+    }),
+  );
+
+  const routedCables = discovered.map((cable) => cable.id);
+  const unchanged =
+    !managersChanged &&
+    lids.length === 0 &&
+    activated.length === 0 &&
+    fabric.routingEngine === master.routingEngine &&
+    routedCables.join() === fabric.routedCables.join();
+  if (unchanged) return undefined;
+
+  const graph: SubnetGraph = {
+    nodes: endpoints.map((end) => ({
+      key: endpointKey(end),
+      isSwitch: end.kind === "switch",
+      lid: lidOf.get(endpointKey(end)) ?? 0,
+      guid: getEndAddress(cluster, fabric, end).guid,
+      tier:
+        end.kind === "switch"
+          ? findSwitch(fabric, end.switchId)?.tier
+          : undefined,
+    })),
+    links: discovered.map(({ ends: [a, b] }) => ({
+      a: endpointKey(a),
+      aPort: a.portNumber,
+      b: endpointKey(b),
+      bPort: b.portNumber,
+    })),
+  };
+
+  return {
+    managers,
+    smLid: lidOf.get(endpointKey(subnetManagerEnd(cluster, master)!)),
+    lids,
+    activated,
+    routing: {
+      engine: master.routingEngine,
+      forwardingTables: computeForwardingTables(graph, master.routingEngine),
+      routedCables,
+    },
+  };
+}
+
+function applySweepToFabric(
+  fabric: InfiniBandFabric,
+  sweep: SubnetSweep,
+): void {
+  for (const sm of fabric.subnetManagers) {
+    sm.state = sweep.managers[sm.id] ?? sm.state;
+  }
+  if (sweep.smLid !== undefined) fabric.smLid = sweep.smLid;
+  for (const { end, lid } of sweep.lids) {
+    if (end.kind !== "switch") continue;
+    const sw = findSwitch(fabric, end.switchId);
+    if (sw) sw.lid = lid;
+  }
+  if (sweep.routing) {
+    fabric.routingEngine = sweep.routing.engine;
+    fabric.forwardingTables = sweep.routing.forwardingTables;
+    fabric.routedCables = sweep.routing.routedCables;
+    fabric.sweepCount += 1;
+  }
+}
+
+/**
+ * Apply a sweep in place, creating cluster.infiniband first if the cluster
+ * does not have one.
+ */
+export function applySubnetSweep(
+  cluster: ClusterConfig,
+  sweep: SubnetSweep,
+): void {
+  if (!cluster.infiniband) {
+    cluster.infiniband = buildInfiniBandFabric(
+      cluster.nodes,
+      cluster.fabricTopology,
+      cluster.fabricSwitches,
+    );
+  }
+  const fabric = cluster.infiniband;
+  applySweepToFabric(fabric, sweep);
+
+  for (const { end, lid } of sweep.lids) {
+    if (end.kind !== "hca") continue;
+    const port = getEndPort(cluster, fabric, end);
+    if (port && "lid" in port) port.lid = lid;
+  }
+  for (const end of sweep.activated) {
+    const port = getEndPort(cluster, fabric, end);
+    if (port) port.state = "Active";
+  }
+}
+
+/**
+ * Run a sweep now, if one is due, giving the cluster a fabric of its own
+ * first. Returns the sweep that was applied.
+ */
+export function sweepSubnet(cluster: ClusterConfig): SubnetSweep | undefined {
+  cluster.infiniband ??= buildInfiniBandFabric(
+    cluster.nodes,
+    cluster.fabricTopology,
+    cluster.fabricSwitches,
+  );
+  const sweep = planSubnetSweep(cluster, cluster.infiniband);
+  if (sweep) applySubnetSweep(cluster, sweep);
+  return sweep;
+}
+
+/**
+ * A short account of a sweep for logs and state history
+ */
+export function describeSweep(sweep: SubnetSweep): string {
+  const master = Object.keys(sweep.managers).find(
+    (id) => sweep.managers[id] === "Master",
+  );
+  if (!master) return "No subnet manager is master";
+  const parts = [`${master} master`];
+  if (sweep.lids.length > 0) parts.push(`${sweep.lids.length} LIDs assigned`);
+  if (sweep.activated.length > 0) {
+    parts.push(`${sweep.activated.length} ports activated`);
+  }
+  if (sweep.routing) parts.push(`routed with ${sweep.routing.engine}`);
+  return `Subnet sweep: ${parts.join(", ")}`;
+}
+
+/**
+ * Apply a port update in place. Switch ports live in cluster.infiniband,
+ * which is created from the nodes first if the cluster does not have one.
+ */
+export function applyIBPortUpdate(
+  cluster: ClusterConfig,
+  end: InfiniBandLinkEnd,
+  update: InfiniBandPortUpdate,
+): void {
+  if (end.kind === "switch" && !cluster.infiniband) {
+    cluster.infiniband = buildInfiniBandFabric(
+      cluster.nodes,
+      cluster.fabricTopology,
+      cluster.fabricSwitches,
+    );
+  }
+  const port = getEndPort(cluster, getFabric(cluster), end);
+  if (!port) return;
+
+  if (update.state) port.state = update.state;
+  if (update.physicalState) port.physicalState = update.physicalState;
+  if (update.errors) port.errors = { ...port.errors, ...update.errors };
+}
+
+export type InfiniBandSubnetManagerUpdate = Partial<
+  Pick<InfiniBandSubnetManager, "running" | "priority" | "routingEngine">
+>;
+
+/**
+ * Start, stop or reconfigure a subnet manager in place. The change takes
+ * effect on the next sweep.
+ */
+export function applySubnetManagerUpdate(
+  cluster: ClusterConfig,
+  smId: string,
+  update: InfiniBandSubnetManagerUpdate,
+): void {
+  cluster.infiniband ??= buildInfiniBandFabric(
+    cluster.nodes,
+    cluster.fabricTopology,
+    cluster.fabricSwitches,
+  );
+  const sm = cluster.infiniband.subnetManagers.find((m) => m.id === smId);
+  if (sm) Object.assign(sm, update);
+}
+
+export type InfiniBandFaultMode = "down" | "errors" | "init";
+
+function faultUpdate(
+  port: InfiniBandSwitchPort | InfiniBandPort,
+  mode: InfiniBandFaultMode,
+  counts: Partial<InfiniBandPortErrors>,
+): InfiniBandPortUpdate {
+  if (mode === "down") {
+    return {
+      state: "Down",
+      physicalState: "LinkDown",
+      errors: { linkDowned: port.errors.linkDowned + 1 },
+    };
+  }
+  if (mode === "init") {
+    return { state: "Init", physicalState: "LinkUp" };
+  }
+  return {
+    errors: {
+      symbolErrors: port.errors.symbolErrors + (counts.symbolErrors ?? 1000),
+      portRcvErrors: port.errors.portRcvErrors + (counts.portRcvErrors ?? 50),
+    },
+  };
+}
+
+/**
+ * Port changes for a faulty cable: "down" takes the link down at both ends,
+ * "errors" raises symbol and receive errors at both ends while the link
+ * stays up, and "init" brings the link back up in Init, as a freshly
+ * reseated cable is until the next sweep of the subnet manager.
+ */
+export function cableFaultChanges(
+  cluster: ClusterConfig,
+  cable: InfiniBandCable,
+  mode: InfiniBandFaultMode,
+  counts: Partial<InfiniBandPortErrors> = {},
+): InfiniBandPortChange[] {
+  const fabric = getFabric(cluster);
+  return cable.ends.flatMap((end) => {
+    const port = getEndPort(cluster, fabric, end);
+    return port ? [{ end, update: faultUpdate(port, mode, counts) }] : [];
+  });
+}
+
+/**
+ * Port changes for a replaced cable: the link comes up in Init at both ends
+ * with the error counters of the old cable cleared, until the next sweep of
+ * the subnet manager activates it.
+ */
+export function cableRepairChanges(
+  cluster: ClusterConfig,
+  cable: InfiniBandCable,
+): InfiniBandPortChange[] {
+  return cableFaultChanges(cluster, cable, "init").map(({ end, update }) => ({
+    end,
+    update: { ...update, errors: { symbolErrors: 0, portRcvErrors: 0 } },
+  }));
+}
+
+/**
+ * Port changes for a faulty switch port: "down" and "init" change its link
+ * at both ends, "errors" raises errors on that port alone.
+ */
+export function switchPortFaultChanges(
+  cluster: ClusterConfig,
+  switchId: string,
+  portNumber: number,
+  mode: InfiniBandFaultMode,
+  counts: Partial<InfiniBandPortErrors> = {},
+): InfiniBandPortChange[] {
+  const fabric = getFabric(cluster);
+  const end: InfiniBandLinkEnd = { kind: "switch", switchId, portNumber };
+  const cable = findCable(fabric, end);
+  if (mode !== "errors" && cable) {
+    return cableFaultChanges(cluster, cable, mode, counts);
+  }
+  const port = getEndPort(cluster, fabric, end);
+  return port ? [{ end, update: faultUpdate(port, mode, counts) }] : [];
+}
@@ -0,0 +1,232 @@
+/**
+ * Line Editor
+ *
+ * A line-oriented stand-in for vi. The terminal only hands us whole lines,
+ * so editing works the way ex does: the buffer is listed with line numbers
+ * and changed with short commands.
+ *
+ * - `p` / `%p` list the buffer, `<n>` prints one line
+ * - `a`, `<n>a`, `i`, `<n>i` and `<n>c` enter insert mode; a lone `.` ends it
+ * - `<n>d` / `<n>,<m>d` delete lines
+ * - `[%|n|n,m]s/pattern/replacement/[g]` substitutes
+ * - `w`, `wq`, `x`, `q`, `q!` write and quit
+ */
+
+export interface LineEditorResult {
+  output: string;
+  /** The editor has exited and the terminal should return to the shell */
+  done: boolean;
+}
+
+/** Persist the buffer; returns an error message on failure */
+export type LineEditorSave = (content: string) => string | null;
+
+const HELP = `Commands (a leading ':' is optional):
+  p, %p            print the buffer with line numbers
+  <n>              print line n
+  a, <n>a          append lines after the end (or after line n)
+  i, <n>i          insert lines before the start (or before line n)
+  <n>c             replace line n
+  <n>d, <n>,<m>d   delete line n (or lines n to m)
+  [range]s/a/b/g   replace a with b (range: %, n or n,m; default %)
+  w                write the file
+  wq, x            write and quit
+  q, q!            quit (q! discards changes)
+In insert mode, type '.' on its own line to finish.`;
+
+export class LineEditor {
+  private lines: string[];
+  private modified = false;
+  /** Index the next typed line is inserted at, while in insert mode */
+  private insertAt: number | null = null;
+
+  constructor(
+    readonly path: string,
+    private readonly content: string | null,
+    private readonly save: LineEditorSave,
+  ) {
+    this.lines = content ? content.split("\n") : [];
+  }
+
+  /** Prompt for the next line: ':' for commands, nothing while inserting */
+  get prompt(): string {
+    return this.insertAt === null ? ":" : "";
+  }
+
+  /** Banner shown when the editor starts */
+  open(): string {
+    const header =
+      this.content === null
+        ? `"${this.path}" [New]`
+        : `"${this.path}" ${this.lines.length}L, ${this.content.length}B`;
+    const listing = this.lines.length > 0 ? `\n${this.listing()}` : "";
+    return `${header}${listing}\nType 'help' for editor commands, 'a' to add text, 'wq' to save and quit.`;
+  }
+
+  /** Handle one line of input */
+  handle(input: string): LineEditorResult {
+    if (this.insertAt !== null) {
+      if (input === ".") {
+        this.insertAt = null;
+        return this.reply("");
+      }
+      this.lines.splice(this.insertAt, 0, input);
+      this.insertAt++;
+      this.modified = true;
+      return this.reply("");
+    }
+
+    const command = input.trim().replace(/^:/, "");
+    if (command === "") return this.reply("");
+
+    switch (command) {
+      case "help":
+      case "h":
+        return this.reply(HELP);
+      case "p":
+      case "%p":
+      case "l":
+        return this.reply(this.listing());
+      case "a":
+        return this.startInsert(this.lines.length);
+      case "i":
+        return this.startInsert(0);
+      case "w":
+      case "w!":
+        return this.write(false);
+      case "wq":
+      case "wq!":
+      case "x":
+        return this.write(true);
+      case "q":
+        return this.modified
+          ? this.reply("E37: No write since last change (add ! to override)")
+          : { output: "", done: true };
+      case "q!":
+        return { output: "", done: true };
+    }
+
+    const lineCommand = command.match(/^(\d+)(?:,(\d+))?([acdi]?)$/);
+    if (lineCommand) {
+      const [, first, last, action] = lineCommand;
+      return this.lineAction(Number(first), Number(last ?? first), action);
+    }
+
+    const substitute = command.match(
+      /^(%|\d+(?:,\d+)?)?s\/((?:[^/\\]|\\.)*)\/((?:[^/\\]|\\.)*)\/?(g?)$/,
+    );
+    if (substitute) {
+      const [, range, pattern, replacement, flags] = substitute;
+      return this.substitute(range ?? "%", pattern, replacement, flags === "g");
+    }
+
+    return this.reply(`E492: Not an editor command: ${command}`);
+  }
+
+  /** Current buffer contents */
+  getContent(): string {
+    return this.lines.join("\n");
+  }
+
+  private lineAction(
+    first: number,
+    last: number,
+    action: string,
+  ): LineEditorResult {
+    const count = this.lines.length;
+    // `0a` appends before the first line, like ex
+    const valid =
+      action === "a" || action === "i"
+        ? first <= count && (first > 0 || action === "a")
+        : first >= 1 && last >= first && last <= count;
+    if (!valid) return this.reply("E16: Invalid range");
+
+    switch (action) {
+      case "":
+        return this.reply(this.lines[last - 1]);
+      case "a":
+        return this.startInsert(first);
+      case "i":
+        return this.startInsert(first - 1);
+      case "c":
+        this.lines.splice(first - 1, last - first + 1);
+        this.modified = true;
+        return this.startInsert(first - 1);
+      default:
+        this.lines.splice(first - 1, last - first + 1);
+        this.modified = true;
+        return this.reply(
+          last > first ? `${last - first + 1} fewer lines` : "",
+        );
+    }
+  }
+
+  private substitute(
+    range: string,
+    pattern: string,
+    replacement: string,
+    global: boolean,
+  ): LineEditorResult {
+    let first = 1;
+    let last = this.lines.length;
+    if (range !== "%") {
+      const [a, b] = range.split(",").map(Number);
+      first = a;
+      last = b ?? a;
+      if (first < 1 || last < first || last > this.lines.length) {
+        return this.reply("E16: Invalid range");
+      }
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, global ? "g" : "");
+    } catch {
+      return this.reply(`E486: Pattern not found: ${pattern}`);
+    }
+
+    let changed = 0;
+    for (let i = first - 1; i < last; i++) {
+      const updated = this.lines[i].replace(regex, replacement);
+      if (updated !== this.lines[i]) {
+        this.lines[i] = updated;
+        changed++;
+      }
+    }
+    if (changed === 0) {
+      return this.reply(`E486: Pattern not found: ${pattern}`);
+    }
+    this.modified = true;
+    return this.reply(
+      changed > 1 ? `${changed} substitutions on ${changed} lines` : "",
+    );
+  }
+
+  private startInsert(index: number): LineEditorResult {
+    this.insertAt = index;
+    return this.reply("-- INSERT -- (type '.' on its own line to finish)");
+  }
+
+  private write(quit: boolean): LineEditorResult {
+    const content = this.getContent();
+    const error = this.save(content);
+    if (error) {
+      return this.reply(`"${this.path}" E212: Can't open file for writing`);
+    }
+    this.modified = false;
+    const summary = `"${this.path}" ${this.lines.length}L, ${content.length}B written`;
+    return { output: summary, done: quit };
+  }
+
+  private listing(): string {
+    if (this.lines.length === 0) return "(empty buffer)";
+    const width = String(this.lines.length).length;
+    return this.lines
+      .map((line, i) => `${String(i + 1).padStart(width)}  ${line}`)
+      .join("\n");
+  }
+
+  private reply(output: string): LineEditorResult {
+    return { output, done: false };
+  }
+}
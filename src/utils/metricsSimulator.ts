@@ -1,6 +1,8 @@
 import type { GPU, InfiniBandHCA } from "@/types/hardware";
 import { HARDWARE_SPECS } from "@/data/hardwareSpecs";
 import { ClusterPhysicsEngine } from "@/simulation/clusterPhysicsEngine";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
 
 /** Look up the boost clock for a GPU by its model name. Falls back to A100's 1410 MHz. */
 function getBoostClock(gpuName: string): number {
@@ -38,7 +40,7 @@ export class MetricsSimulator {
     if (this.isRunning) return;
 
     this.isRunning = true;
-    this.intervalId = window.setInterval(() => {
+    this.intervalId = simulationClock.setInterval(() => {
       updateCallback((data) => this.updateMetrics(data));
     }, interval);
   }
@@ -51,14 +53,14 @@ export class MetricsSimulator {
     if (this.isRunning) return;
 
     this.isRunning = true;
-    this.intervalId = window.setInterval(() => {
+    this.intervalId = simulationClock.setInterval(() => {
       updateCallback((gpus) => this.updateGpuMetrics(gpus));
     }, interval);
   }
 
   stop() {
     if (this.intervalId !== null) {
-      clearInterval(this.intervalId);
+      simulationClock.clearTimer(this.intervalId);
       this.intervalId = null;
     }
     this.isRunning = false;
@@ -89,9 +91,12 @@ export class MetricsSimulator {
       const newUtilization = isActive
         ? Math.max(
             5,
-            Math.min(100, gpu.utilization + (Math.random() - 0.5) * 1.0),
+            Math.min(
+              100,
+              gpu.utilization + (simulationRandom.next() - 0.5) * 1.0,
+            ),
           )
-        : Math.random() * 2;
+        : simulationRandom.next() * 2;
 
       // Memory: static per job allocation, driver overhead when idle
       const newMemoryUsed = isActive
@@ -99,10 +104,10 @@ export class MetricsSimulator {
             0,
             Math.min(
               gpu.memoryTotal,
-              gpu.memoryUsed + (Math.random() - 0.5) * 20,
+              gpu.memoryUsed + (simulationRandom.next() - 0.5) * 20,
             ),
           )
-        : 50 + Math.random() * 150;
+        : 50 + simulationRandom.next() * 150;
 
       // Power: correlates with utilization (15% TDP idle floor)
       const idlePower = gpu.powerLimit * 0.15;
@@ -131,9 +136,10 @@ export class MetricsSimulator {
       );
 
       // ECC errors: only accumulate under load, at realistic rates
-      const eccSingleBitIncrement = isActive && Math.random() < 0.00005 ? 1 : 0;
+      const eccSingleBitIncrement =
+        isActive && simulationRandom.next() < 0.00005 ? 1 : 0;
       const eccDoubleBitIncrement =
-        isActive && Math.random() < 0.0000005 ? 1 : 0;
+        isActive && simulationRandom.next() < 0.0000005 ? 1 : 0;
 
       const jittered: GPU = {
         ...gpu,
@@ -174,7 +180,7 @@ export class MetricsSimulator {
 
     return gpus.map((gpu) => ({
       ...gpu,
-      utilization: utilizationTarget + (Math.random() - 0.5) * 10,
+      utilization: utilizationTarget + (simulationRandom.next() - 0.5) * 10,
       memoryUsed:
         pattern === "idle"
           ? gpu.memoryTotal * 0.01
@@ -197,7 +203,7 @@ export class MetricsSimulator {
             ...gpu.xidErrors,
             {
               code: 48,
-              timestamp: new Date(),
+              timestamp: simulationClock.date(),
               description: "Double-bit ECC error",
               severity: "Critical",
             },
@@ -254,7 +260,7 @@ export class MetricsSimulator {
             ...gpu.xidErrors,
             {
               code: 62,
-              timestamp: new Date(),
+              timestamp: simulationClock.date(),
               description: "PCIe Internal error - GPU hardware or software",
               severity: "Critical",
             },
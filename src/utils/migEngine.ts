@@ -0,0 +1,544 @@
+/**
+ * MIG Engine
+ *
+ * Multi-Instance GPU partitioning for every GPU generation the simulator
+ * models. A MIG-capable GPU splits into 7 compute slices and 8 memory
+ * slices. Each GPU instance profile takes a fixed number of both and may
+ * only start at certain memory slices; each compute instance takes some of
+ * its GPU instance's compute slices. Profile names, memory sizes and SM
+ * counts follow from the node's HardwareSpec, so an H200 offers 1g.18gb
+ * where an A100 offers 1g.10gb.
+ *
+ * nvidia-smi mig, dcgmi discovery and the MIG configurator all read the
+ * profiles from here and create or destroy instances through the functions
+ * below, which refuse what the driver would refuse. The instance lists they
+ * return are written to the GPU through the StateMutator.
+ */
+
+import type {
+  ComputeInstance,
+  GPU,
+  MIGComputeProfile,
+  MIGInstance,
+  MIGPlacement,
+  MIGProfile,
+} from "@/types/hardware";
+import { HARDWARE_SPECS, type HardwareSpec } from "@/data/hardwareSpecs";
+
+export const MIG_COMPUTE_SLICES = 7;
+export const MIG_MEMORY_SLICES = 8;
+
+// Memory the driver keeps back from the GPU instances
+const RESERVED_GIB = 0.75;
+
+interface GpuInstanceGeometry {
+  id: number;
+  computeSlices: number;
+  memorySlices: number;
+  maxInstances: number;
+  placements: number[];
+  mediaExtensions?: boolean;
+}
+
+const GPU_INSTANCE_GEOMETRY: GpuInstanceGeometry[] = [
+  {
+    id: 19,
+    computeSlices: 1,
+    memorySlices: 1,
+    maxInstances: 7,
+    placements: [0, 1, 2, 3, 4, 5, 6],
+  },
+  {
+    id: 20,
+    computeSlices: 1,
+    memorySlices: 1,
+    maxInstances: 1,
+    placements: [0, 1, 2, 3, 4, 5, 6],
+    mediaExtensions: true,
+  },
+  {
+    id: 15,
+    computeSlices: 1,
+    memorySlices: 2,
+    maxInstances: 4,
+    placements: [0, 2, 4, 6],
+  },
+  {
+    id: 14,
+    computeSlices: 2,
+    memorySlices: 2,
+    maxInstances: 3,
+    placements: [0, 2, 4],
+  },
+  {
+    id: 9,
+    computeSlices: 3,
+    memorySlices: 4,
+    maxInstances: 2,
+    placements: [0, 4],
+  },
+  {
+    id: 5,
+    computeSlices: 4,
+    memorySlices: 4,
+    maxInstances: 1,
+    placements: [0],
+  },
+  {
+    id: 0,
+    computeSlices: 7,
+    memorySlices: 8,
+    maxInstances: 1,
+    placements: [0],
+  },
+];
+
+// [decoders, JPEG decoders, optical flow accelerators] by profile ID. The
+// A100 has fewer media engines to share out than the GPUs after it.
+const MEDIA_ENGINES: Record<
+  "ampere" | "later",
+  Record<number, [number, number, number]>
+> = {
+  ampere: {
+    19: [0, 0, 0],
+    20: [1, 1, 1],
+    15: [1, 0, 0],
+    14: [1, 0, 0],
+    9: [2, 0, 0],
+    5: [2, 0, 0],
+    0: [5, 1, 1],
+  },
+  later: {
+    19: [1, 1, 0],
+    20: [7, 7, 1],
+    15: [1, 1, 0],
+    14: [2, 2, 0],
+    9: [3, 3, 0],
+    5: [4, 4, 0],
+    0: [7, 7, 1],
+  },
+};
+
+// Compute instance profile IDs by compute slices
+const COMPUTE_PROFILE_IDS: [number, number][] = [
+  [1, 0],
+  [2, 1],
+  [3, 2],
+  [4, 3],
+  [7, 4],
+];
+
+const profileCache = new Map<string, MIGProfile[]>();
+
+/**
+ * SMs in a number of compute slices. Each slice gets an even share of the
+ * GPU's SMs; what doesn't divide evenly stays unused in MIG mode.
+ */
+function sliceSmCount(spec: HardwareSpec, slices: number): number {
+  return Math.floor(spec.gpu.smCount / MIG_COMPUTE_SLICES / 2) * 2 * slices;
+}
+
+/**
+ * The GPU instance profiles of a system's GPUs, smallest first
+ */
+export function getMigProfiles(spec: HardwareSpec): MIGProfile[] {
+  const cached = profileCache.get(spec.system.type);
+  if (cached) return cached;
+
+  const sliceGiB =
+    (spec.gpu.memoryMiB / 1024 - RESERVED_GIB) / MIG_MEMORY_SLICES;
+  const media =
+    MEDIA_ENGINES[spec.gpu.architecture === "ga100" ? "ampere" : "later"];
+  const profiles = GPU_INSTANCE_GEOMETRY.map((geometry): MIGProfile => {
+    const { id, computeSlices, memorySlices } = geometry;
+    const [decoders, jpegDecoders, ofa] = media[id];
+    const memoryGB = Math.round(
+      (spec.gpu.memoryGB * memorySlices) / MIG_MEMORY_SLICES,
+    );
+    return {
+      id,
+      name: `${computeSlices}g.${memoryGB}gb${geometry.mediaExtensions ? "+me" : ""}`,
+      computeSlices,
+      memorySlices,
+      memory: Math.floor(sliceGiB * memorySlices * 4) / 4,
+      smCount: sliceSmCount(spec, computeSlices),
+      maxInstances: geometry.maxInstances,
+      copyEngines: computeSlices,
+      decoders,
+      encoders: 0,
+      jpegDecoders,
+      ofa,
+      mediaExtensions: geometry.mediaExtensions ?? false,
+      placements: geometry.placements,
+    };
+  });
+  profileCache.set(spec.system.type, profiles);
+  return profiles;
+}
+
+/**
+ * Find a GPU instance profile by ID or by name ("3g.40gb" or "MIG 3g.40gb")
+ */
+export function findMigProfile(
+  spec: HardwareSpec,
+  ref: string | number,
+): MIGProfile | undefined {
+  const key = String(ref)
+    .trim()
+    .replace(/^MIG\s+/i, "");
+  return getMigProfiles(spec).find(
+    (p) => String(p.id) === key || p.name === key,
+  );
+}
+
+/**
+ * The compute instance profiles a GPU instance of the given profile offers
+ */
+export function getComputeProfiles(
+  spec: HardwareSpec,
+  giProfile: MIGProfile,
+): MIGComputeProfile[] {
+  const g = giProfile.computeSlices;
+  return COMPUTE_PROFILE_IDS.filter(([c]) => c <= g).map(([c, id]) => ({
+    id,
+    name: c === g ? giProfile.name : `${c}c.${giProfile.name}`,
+    computeSlices: c,
+    smCount: sliceSmCount(spec, c),
+    maxInstances: Math.floor(g / c),
+    placements: Array.from({ length: Math.floor(g / c) }, (_, i) => i * c),
+  }));
+}
+
+/**
+ * The spec of the system a GPU belongs to, from its model name. For when
+ * only the GPU is at hand; with a node, use getHardwareSpecs(systemType).
+ */
+export function getGpuSpec(gpu: GPU): HardwareSpec {
+  return (
+    Object.values(HARDWARE_SPECS).find(
+      (s) => s.gpu.model === gpu.name || s.gpu.model === `NVIDIA ${gpu.name}`,
+    ) ?? HARDWARE_SPECS["DGX-A100"]
+  );
+}
+
+function fits(used: Set<number>, start: number, size: number): boolean {
+  for (let s = start; s < start + size; s++) {
+    if (used.has(s)) return false;
+  }
+  return true;
+}
+
+function occupy(used: Set<number>, placement: MIGPlacement): void {
+  for (let s = placement.start; s < placement.start + placement.size; s++) {
+    used.add(s);
+  }
+}
+
+function occupied(items: { placement?: MIGPlacement }[]): Set<number> {
+  const used = new Set<number>();
+  items.forEach((item) => item.placement && occupy(used, item.placement));
+  return used;
+}
+
+/**
+ * Give every item a placement. Instances created before placements were
+ * tracked take the first free placement of their profile.
+ */
+function placeAll<T extends { placement?: MIGPlacement }>(
+  items: T[],
+  shape: (item: T) => { size: number; placements: number[] } | undefined,
+): T[] {
+  const used = occupied(items);
+  return items.map((item) => {
+    const s = item.placement ? undefined : shape(item);
+    if (!s) return item;
+    const start =
+      s.placements.find((p) => fits(used, p, s.size)) ?? s.placements[0];
+    const placement = { start, size: s.size };
+    occupy(used, placement);
+    return { ...item, placement };
+  });
+}
+
+/**
+ * A GPU's instances, each with its placement
+ */
+export function placedInstances(
+  spec: HardwareSpec,
+  instances: MIGInstance[],
+): MIGInstance[] {
+  return placeAll(instances, (gi) => {
+    const profile = findMigProfile(spec, gi.profileId);
+    return (
+      profile && { size: profile.memorySlices, placements: profile.placements }
+    );
+  }).map((gi) => {
+    const profile = findMigProfile(spec, gi.profileId);
+    if (!profile) return gi;
+    const computeProfiles = getComputeProfiles(spec, profile);
+    const computeInstances = placeAll(gi.computeInstances, (ci) => {
+      const p = computeProfiles.find((cp) => cp.id === ci.profileId);
+      return p && { size: p.computeSlices, placements: p.placements };
+    });
+    return { ...gi, computeInstances };
+  });
+}
+
+/**
+ * Compute slices taken by a GPU's instances
+ */
+export function usedComputeSlices(
+  spec: HardwareSpec,
+  instances: MIGInstance[],
+): number {
+  return instances.reduce(
+    (sum, gi) => sum + (findMigProfile(spec, gi.profileId)?.computeSlices ?? 0),
+    0,
+  );
+}
+
+function lowestFreeId(ids: number[], from: number): number {
+  let id = from;
+  while (ids.includes(id)) id++;
+  return id;
+}
+
+function migUuid(gpu: GPU, giId: number, ciId?: number): string {
+  return `MIG-${gpu.uuid}/${giId}${ciId === undefined ? "" : `/${ciId}`}`;
+}
+
+/**
+ * The outcome of a MIG request: the GPU's new instance list and the
+ * instance created or destroyed, or the reason the driver refused.
+ */
+export interface MigOperation {
+  migInstances?: MIGInstance[];
+  gpuInstance?: MIGInstance;
+  computeInstance?: ComputeInstance;
+  error?: string;
+}
+
+/**
+ * Create a GPU instance, at the given memory slice or the first free one
+ * its profile may start at. With defaultComputeInstance it also gets a
+ * compute instance spanning all of it, like nvidia-smi mig -cgi -C.
+ */
+export function createGpuInstance(
+  spec: HardwareSpec,
+  gpu: GPU,
+  profileRef: string | number,
+  options: { start?: number; defaultComputeInstance?: boolean } = {},
+): MigOperation {
+  const profile = findMigProfile(spec, profileRef);
+  if (!profile) return { error: "Not Found" };
+  if (
+    options.start !== undefined &&
+    !profile.placements.includes(options.start)
+  ) {
+    return { error: "Invalid Argument" };
+  }
+
+  const instances = placedInstances(spec, gpu.migInstances);
+  const sameProfile = instances.filter((gi) => gi.profileId === profile.id);
+  if (
+    sameProfile.length >= profile.maxInstances ||
+    usedComputeSlices(spec, instances) + profile.computeSlices >
+      MIG_COMPUTE_SLICES
+  ) {
+    return { error: "Insufficient Resources" };
+  }
+  const used = occupied(instances);
+  const start =
+    options.start ??
+    profile.placements.find((p) => fits(used, p, profile.memorySlices));
+  if (start === undefined || !fits(used, start, profile.memorySlices)) {
+    return { error: "Insufficient Resources" };
+  }
+
+  // The whole-GPU instance is always ID 0
+  const id =
+    profile.memorySlices === MIG_MEMORY_SLICES
+      ? 0
+      : lowestFreeId(
+          instances.map((gi) => gi.id),
+          1,
+        );
+  let gpuInstance: MIGInstance = {
+    id,
+    gpuId: gpu.id,
+    profileId: profile.id,
+    uuid: migUuid(gpu, id),
+    placement: { start, size: profile.memorySlices },
+    computeInstances: [],
+  };
+  let migInstances = [...instances, gpuInstance];
+  if (options.defaultComputeInstance) {
+    const op = createComputeInstance(spec, { ...gpu, migInstances }, id);
+    gpuInstance = op.gpuInstance!;
+    migInstances = op.migInstances!;
+  }
+  return { migInstances, gpuInstance };
+}
+
+/**
+ * Create a compute instance in a GPU instance. Without a profile it spans
+ * the whole GPU instance.
+ */
+export function createComputeInstance(
+  spec: HardwareSpec,
+  gpu: GPU,
+  giId: number,
+  profileRef?: string | number,
+  start?: number,
+): MigOperation {
+  const instances = placedInstances(spec, gpu.migInstances);
+  const gi = instances.find((i) => i.id === giId);
+  const giProfile = gi && findMigProfile(spec, gi.profileId);
+  if (!gi || !giProfile) return { error: "Not Found" };
+
+  const profiles = getComputeProfiles(spec, giProfile);
+  const key = String(profileRef ?? "")
+    .trim()
+    .replace(/^MIG\s+/i, "");
+  const profile =
+    profileRef === undefined
+      ? profiles[profiles.length - 1]
+      : profiles.find((p) => String(p.id) === key || p.name === key);
+  if (!profile) return { error: "Not Found" };
+  if (start !== undefined && !profile.placements.includes(start)) {
+    return { error: "Invalid Argument" };
+  }
+
+  const used = occupied(gi.computeInstances);
+  const at =
+    start ??
+    profile.placements.find((p) => fits(used, p, profile.computeSlices));
+  if (at === undefined || !fits(used, at, profile.computeSlices)) {
+    return { error: "Insufficient Resources" };
+  }
+
+  const id = lowestFreeId(
+    gi.computeInstances.map((ci) => ci.id),
+    0,
+  );
+  const computeInstance: ComputeInstance = {
+    id,
+    giId,
+    profileId: profile.id,
+    uuid: migUuid(gpu, giId, id),
+    placement: { start: at, size: profile.computeSlices },
+  };
+  const gpuInstance = {
+    ...gi,
+    computeInstances: [...gi.computeInstances, computeInstance],
+  };
+  return {
+    migInstances: instances.map((i) => (i === gi ? gpuInstance : i)),
+    gpuInstance,
+    computeInstance,
+  };
+}
+
+/**
+ * Destroy a GPU instance. Its compute instances have to go first.
+ */
+export function destroyGpuInstance(gpu: GPU, giId: number): MigOperation {
+  const gpuInstance = gpu.migInstances.find((gi) => gi.id === giId);
+  if (!gpuInstance) return { error: "Not Found" };
+  if (gpuInstance.computeInstances.length > 0) {
+    return { error: "In use by another client" };
+  }
+  return {
+    migInstances: gpu.migInstances.filter((gi) => gi !== gpuInstance),
+    gpuInstance,
+  };
+}
+
+/**
+ * Destroy a compute instance of a GPU instance
+ */
+export function destroyComputeInstance(
+  gpu: GPU,
+  giId: number,
+  ciId: number,
+): MigOperation {
+  const gi = gpu.migInstances.find((i) => i.id === giId);
+  const computeInstance = gi?.computeInstances.find((ci) => ci.id === ciId);
+  if (!gi || !computeInstance) return { error: "Not Found" };
+  const gpuInstance = {
+    ...gi,
+    computeInstances: gi.computeInstances.filter(
+      (ci) => ci !== computeInstance,
+    ),
+  };
+  return {
+    migInstances: gpu.migInstances.map((i) => (i === gi ? gpuInstance : i)),
+    gpuInstance,
+    computeInstance,
+  };
+}
+
+/**
+ * Memory slices a new GPU instance of the profile could start at
+ */
+export function availablePlacements(
+  spec: HardwareSpec,
+  gpu: GPU,
+  profile: MIGProfile,
+): number[] {
+  return profile.placements.filter(
+    (start) => !createGpuInstance(spec, gpu, profile.id, { start }).error,
+  );
+}
+
+/**
+ * Compute slices of a GPU instance a new compute instance of the profile
+ * could start at
+ */
+export function availableComputePlacements(
+  spec: HardwareSpec,
+  gpu: GPU,
+  giId: number,
+  profile: MIGComputeProfile,
+): number[] {
+  return profile.placements.filter(
+    (start) => !createComputeInstance(spec, gpu, giId, profile.id, start).error,
+  );
+}
+
+/**
+ * How many more GPU instances of the profile fit next to the existing ones
+ */
+export function freeInstanceCount(
+  spec: HardwareSpec,
+  gpu: GPU,
+  profile: MIGProfile,
+): number {
+  let current = gpu;
+  let free = 0;
+  for (;;) {
+    const op = createGpuInstance(spec, current, profile.id);
+    if (!op.migInstances) return free;
+    current = { ...current, migInstances: op.migInstances };
+    free++;
+  }
+}
+
+/**
+ * How many more compute instances of the profile fit in a GPU instance
+ */
+export function freeComputeInstanceCount(
+  spec: HardwareSpec,
+  gpu: GPU,
+  giId: number,
+  profile: MIGComputeProfile,
+): number {
+  let current = gpu;
+  let free = 0;
+  for (;;) {
+    const op = createComputeInstance(spec, current, giId, profile.id);
+    if (!op.migInstances) return free;
+    current = { ...current, migInstances: op.migInstances };
+    free++;
+  }
+}
@@ -94,7 +94,8 @@ export function narrativeStepToScenarioStep(
 }
 
 /**
- * Convert the simple narrative validation to ValidationRule[].
+ * Convert the simple narrative validation to ValidationRule[]. State
+ * assertions become a state-check rule next to the command or output rule.
  */
 function convertValidation(
   validation: NarrativeStep["validation"],
@@ -121,7 +122,7 @@ function convertValidation(
       expectedCommands,
       outputPattern: validation.pattern,
     });
-  } else if (validation.type === "state") {
+  } else if (validation.type === "state" && !validation.state?.length) {
     rules.push({
       type: "state-check",
       description: `Verify system state`,
@@ -129,6 +130,16 @@ function convertValidation(
     });
   }
 
+  // State assertions apply on top of whichever rule the type produced
+  if (validation.state && validation.state.length > 0) {
+    rules.push({
+      type: "state-check",
+      description: `Verify system state`,
+      expectedCommands,
+      assertions: validation.state,
+    });
+  }
+
   return rules;
 }
 
@@ -0,0 +1,825 @@
+/**
+ * Node Packages
+ *
+ * The NVIDIA software installed on each node: the driver branch packages,
+ * Fabric Manager, kernel headers and the CUDA toolkit, the kernel modules
+ * DKMS built from the driver source, and whether nouveau is blacklisted.
+ *
+ * Package changes take effect the way they do on a real system. Installing a
+ * driver replaces the user-space libraries at once, but the running kernel
+ * keeps the module it loaded at boot until the node reboots; until then NVML
+ * refuses to talk to it (driver/library version mismatch). DKMS builds the
+ * new module for the running kernel only if its headers are installed, and
+ * the module only loads at boot with nouveau out of the way. Fabric Manager
+ * is a package of its own, so a driver upgrade leaves it behind unless both
+ * move together.
+ *
+ * apt, apt-mark, dpkg and dkms plan changes here and apply them through the
+ * StateMutator; nvidia-smi, dcgmi, lsmod, modinfo and /proc/driver/nvidia
+ * read the result. Nodes nothing has changed yet get a database derived from
+ * the driver and CUDA versions clusterFactory gave them.
+ */
+
+import type {
+  ClusterConfig,
+  DGXNode,
+  DkmsBuild,
+  InstalledPackage,
+  NodePackages,
+} from "@/types/hardware";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import {
+  applyNVSwitchFabricUpdate,
+  mergeFabricUpdates,
+  planFabricManagerInstall,
+  planFabricManagerStop,
+  type NVSwitchFabricUpdate,
+} from "./nvswitchFabric";
+
+export interface DriverRelease {
+  version: string;
+  cuda: string; // Highest CUDA version the driver supports
+}
+
+/**
+ * The driver releases in the package repository, by branch, oldest first
+ */
+export const DRIVER_RELEASES: Record<string, DriverRelease[]> = {
+  "535": [
+    { version: "535.129.03", cuda: "12.2" },
+    { version: "535.154.05", cuda: "12.2" },
+  ],
+  "550": [
+    { version: "550.54.15", cuda: "12.4" },
+    { version: "550.90.07", cuda: "12.4" },
+  ],
+  "560": [{ version: "560.35.03", cuda: "12.6" }],
+  "565": [{ version: "565.57.01", cuda: "12.7" }],
+  "570": [{ version: "570.86.15", cuda: "12.8" }],
+};
+
+// The packages of a driver branch, installed and removed together. The
+// metapackage comes first.
+const DRIVER_PACKAGES = [
+  { prefix: "nvidia-driver", description: "NVIDIA driver metapackage" },
+  { prefix: "libnvidia-compute", description: "NVIDIA libcompute package" },
+  { prefix: "nvidia-dkms", description: "NVIDIA DKMS package" },
+  {
+    prefix: "nvidia-kernel-common",
+    description: "Shared files used with the kernel module",
+  },
+  {
+    prefix: "nvidia-kernel-source",
+    description: "NVIDIA kernel source package",
+  },
+  { prefix: "nvidia-utils", description: "NVIDIA driver support binaries" },
+];
+
+const FABRIC_MANAGER = "nvidia-fabricmanager";
+const FABRIC_MANAGER_DESCRIPTION = "Fabric Manager for NVSwitch based systems.";
+
+// apt refuses to change held packages
+export const HELD_PACKAGES_ERROR =
+  "E: Held packages were changed and -y was used without --allow-change-held-packages.";
+export const DPKG_ERROR =
+  "E: Sub-process /usr/bin/dpkg returned an error code (1)";
+
+/**
+ * A package the repository offers
+ */
+export interface AvailablePackage {
+  name: string;
+  versions: string[]; // Debian versions, oldest first
+  description: string;
+}
+
+/**
+ * What a package request changed, for apt to report
+ */
+export interface PackageTransaction {
+  installed: InstalledPackage[];
+  upgraded: InstalledPackage[]; // At their new version
+  removed: InstalledPackage[];
+  reinstalled: InstalledPackage[];
+  current: InstalledPackage[]; // Already at the requested version
+  kept: InstalledPackage[]; // Held back by apt-mark hold
+  builds: DkmsBuild[]; // DKMS builds the request ran
+  notices: string[];
+}
+
+export type PackageAction =
+  | "install"
+  | "remove"
+  | "upgrade"
+  | "hold"
+  | "unhold"
+  | "nouveau";
+
+/**
+ * A change to a node's packages, planned against its current state so that
+ * replaying it gives the same result. Installing or removing Fabric Manager
+ * restarts or stops the service as well.
+ */
+export interface NodePackageUpdate {
+  action: PackageAction;
+  packages: string[]; // The packages the request changed
+  database: NodePackages;
+  fabric?: NVSwitchFabricUpdate;
+}
+
+/**
+ * The outcome of a package request. A failed DKMS build still has an update:
+ * the packages are unpacked, only their configuration failed.
+ */
+export interface PackagePlan {
+  update?: NodePackageUpdate;
+  transaction?: PackageTransaction;
+  error?: string;
+}
+
+export function upstreamVersion(debianVersion: string): string {
+  return debianVersion.split("-")[0];
+}
+
+export function driverBranch(version: string): string {
+  return version.split(".")[0];
+}
+
+function driverDebianVersion(version: string): string {
+  return `${version}-0ubuntu1`;
+}
+
+function fabricManagerDebianVersion(version: string): string {
+  return `${version}-1`;
+}
+
+function headersPackage(kernel: string): string {
+  return `linux-headers-${kernel}`;
+}
+
+function kernelHeaders(kernel: string): InstalledPackage {
+  return {
+    name: headersPackage(kernel),
+    version: `${kernel.replace(/-generic$/, "")}.101`,
+    description: `Linux kernel headers for version ${kernel.split("-")[0]} on 64 bit x86 SMP`,
+  };
+}
+
+export function findDriverRelease(version: string): DriverRelease | undefined {
+  return DRIVER_RELEASES[driverBranch(version)]?.find(
+    (r) => r.version === version,
+  );
+}
+
+/**
+ * The driver branch package a name belongs to, if any
+ */
+function driverPackageOf(
+  name: string,
+): { prefix: string; branch: string; description: string } | undefined {
+  const match = name.match(/^(.+)-(\d+)$/);
+  const spec = DRIVER_PACKAGES.find((p) => p.prefix === match?.[1]);
+  return match && spec ? { ...spec, branch: match[2] } : undefined;
+}
+
+function driverPackages(
+  branch: string,
+  version: string,
+  manual: string,
+): InstalledPackage[] {
+  return DRIVER_PACKAGES.map((p) => {
+    const name = `${p.prefix}-${branch}`;
+    return {
+      name,
+      version: driverDebianVersion(version),
+      description: p.description,
+      ...(name !== manual && { automatic: true }),
+    };
+  });
+}
+
+function byName(a: InstalledPackage, b: InstalledPackage): number {
+  return a.name.localeCompare(b.name);
+}
+
+// The module DKMS built for the driver the node was installed with
+function installedBuild(node: DGXNode): DkmsBuild {
+  return {
+    module: "nvidia",
+    version: node.nvidiaDriverVersion,
+    kernel: node.kernelVersion,
+    status: "installed",
+  };
+}
+
+// Fabric Manager ships with the driver on systems with NVSwitches
+function shipsFabricManager(node: DGXNode): boolean {
+  return getHardwareSpecs(node.systemType).nvlink.nvSwitchCount > 0;
+}
+
+function createPackages(node: DGXNode): NodePackages {
+  const version = node.nvidiaDriverVersion;
+  const branch = driverBranch(version);
+  const cuda = node.cudaVersion.split(".").slice(0, 2).join(".");
+  const installed = [
+    ...driverPackages(branch, version, `nvidia-driver-${branch}`),
+    kernelHeaders(node.kernelVersion),
+    {
+      name: `cuda-toolkit-${cuda.replace(".", "-")}`,
+      version: `${cuda}.2-1`,
+      description: `CUDA Toolkit ${cuda} meta-package`,
+    },
+    {
+      name: "datacenter-gpu-manager",
+      version: "3.3.5-1",
+      description: "NVIDIA DCGM",
+    },
+  ];
+  if (shipsFabricManager(node)) {
+    const fmVersion =
+      node.nvswitchFabric?.fabricManager.version ?? node.nvidiaDriverVersion;
+    installed.push({
+      name: `${FABRIC_MANAGER}-${driverBranch(fmVersion)}`,
+      version: fabricManagerDebianVersion(fmVersion),
+      description: FABRIC_MANAGER_DESCRIPTION,
+    });
+  }
+  return {
+    installed: installed.sort(byName),
+    dkms: [installedBuild(node)],
+    nouveauBlacklisted: true,
+    moduleLoaded: true,
+    rebootRequired: false,
+  };
+}
+
+/**
+ * The node's package database, or the one it was built with if nothing has
+ * changed it yet
+ */
+export function getNodePackages(node: DGXNode): NodePackages {
+  return node.packages ?? createPackages(node);
+}
+
+export function findInstalledPackage(
+  node: DGXNode,
+  name: string,
+): InstalledPackage | undefined {
+  return getNodePackages(node).installed.find((p) => p.name === name);
+}
+
+function installedWithPrefix(
+  node: DGXNode,
+  prefix: string,
+): InstalledPackage | undefined {
+  return getNodePackages(node).installed.find((p) =>
+    p.name.startsWith(`${prefix}-`),
+  );
+}
+
+// The queries below run on every GPU command, so nodes nothing has changed
+// answer from the driver they were built with instead of deriving a database
+
+/**
+ * Whether nvidia-smi is installed (nvidia-utils)
+ */
+export function hasNvidiaUtils(node: DGXNode): boolean {
+  if (!node.packages) return true;
+  return installedWithPrefix(node, "nvidia-utils") !== undefined;
+}
+
+/**
+ * The version of the installed NVML and CUDA libraries, if any
+ */
+export function libraryVersion(node: DGXNode): string | undefined {
+  if (!node.packages) return node.nvidiaDriverVersion;
+  const library = installedWithPrefix(node, "libnvidia-compute");
+  return library && upstreamVersion(library.version);
+}
+
+/**
+ * The library version when it differs from the kernel module the node
+ * loaded at boot, which makes NVML refuse to initialize
+ */
+export function libraryMismatch(node: DGXNode): string | undefined {
+  const library = libraryVersion(node);
+  return library && library !== node.nvidiaDriverVersion ? library : undefined;
+}
+
+/**
+ * Whether the NVIDIA kernel module loaded when the node last booted
+ */
+export function isKernelModuleLoaded(node: DGXNode): boolean {
+  return node.packages?.moduleLoaded ?? true;
+}
+
+/**
+ * The nvidia module DKMS built for the running kernel, which modinfo
+ * describes and the next boot loads
+ */
+export function kernelModuleBuild(node: DGXNode): DkmsBuild | undefined {
+  if (!node.packages) return installedBuild(node);
+  return node.packages.dkms.find(
+    (b) =>
+      b.module === "nvidia" &&
+      b.kernel === node.kernelVersion &&
+      b.status === "installed",
+  );
+}
+
+export function isFabricManagerInstalled(node: DGXNode): boolean {
+  if (!node.packages) return shipsFabricManager(node);
+  return installedWithPrefix(node, FABRIC_MANAGER) !== undefined;
+}
+
+/**
+ * The packages the repository offers the node: every driver branch with its
+ * Fabric Manager, and headers for the running kernel
+ */
+export function availablePackages(node: DGXNode): AvailablePackage[] {
+  const available: AvailablePackage[] = [];
+  for (const [branch, releases] of Object.entries(DRIVER_RELEASES)) {
+    for (const p of DRIVER_PACKAGES) {
+      available.push({
+        name: `${p.prefix}-${branch}`,
+        versions: releases.map((r) => driverDebianVersion(r.version)),
+        description: p.description,
+      });
+    }
+    available.push({
+      name: `${FABRIC_MANAGER}-${branch}`,
+      versions: releases.map((r) => fabricManagerDebianVersion(r.version)),
+      description: FABRIC_MANAGER_DESCRIPTION,
+    });
+  }
+  const headers = kernelHeaders(node.kernelVersion);
+  available.push({
+    name: headers.name,
+    versions: [headers.version],
+    description: headers.description,
+  });
+  return available.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Match package names against an apt pattern, where * is a wildcard
+ */
+export function matchesPattern(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * A working copy of the database that a plan changes freely
+ */
+function draft(node: DGXNode): NodePackages {
+  return structuredClone(getNodePackages(node));
+}
+
+function setPackage(db: NodePackages, pkg: InstalledPackage): void {
+  const existing = db.installed.find((p) => p.name === pkg.name);
+  const next: InstalledPackage = {
+    ...pkg,
+    ...(existing?.held && { held: true }),
+  };
+  db.installed = [
+    ...db.installed.filter((p) => p.name !== pkg.name),
+    next,
+  ].sort(byName);
+}
+
+function removePackages(db: NodePackages, names: Set<string>): void {
+  db.installed = db.installed.filter((p) => !names.has(p.name));
+}
+
+/**
+ * Build the nvidia module of the installed DKMS package for the running
+ * kernel. Without its headers the build fails and the driver packages stay
+ * half-configured.
+ */
+function buildModule(db: NodePackages, node: DGXNode): DkmsBuild | undefined {
+  db.dkms = db.dkms.filter((b) => b.module !== "nvidia");
+  const dkms = db.installed.find((p) => p.name.startsWith("nvidia-dkms-"));
+  if (!dkms) return undefined;
+
+  const headers = db.installed.some(
+    (p) => p.name === headersPackage(node.kernelVersion),
+  );
+  const build: DkmsBuild = {
+    module: "nvidia",
+    version: upstreamVersion(dkms.version),
+    kernel: node.kernelVersion,
+    status: headers ? "installed" : "added",
+  };
+  db.dkms.push(build);
+  if (headers) db.rebootRequired = true;
+
+  const branch = driverPackageOf(dkms.name)!.branch;
+  db.installed = db.installed.map((p) =>
+    p.name === dkms.name || p.name === `nvidia-driver-${branch}`
+      ? { ...p, halfConfigured: !headers || undefined }
+      : p,
+  );
+  return build;
+}
+
+/**
+ * Install a driver branch at a version, replacing any other branch. The
+ * kernel packages blacklist nouveau, and the new module needs a reboot.
+ */
+function installDriver(
+  db: NodePackages,
+  node: DGXNode,
+  branch: string,
+  version: string,
+  requested: string,
+): DkmsBuild | undefined {
+  const otherBranch = db.installed
+    .filter((p) => {
+      const driver = driverPackageOf(p.name);
+      return driver && driver.branch !== branch;
+    })
+    .map((p) => p.name);
+  removePackages(db, new Set(otherBranch));
+
+  for (const pkg of driverPackages(branch, version, requested)) {
+    const existing = db.installed.find((p) => p.name === pkg.name);
+    const automatic = pkg.name !== requested && (existing?.automatic ?? true);
+    setPackage(db, { ...pkg, automatic: automatic || undefined });
+  }
+  db.nouveauBlacklisted = true;
+  db.rebootRequired = true;
+  return buildModule(db, node);
+}
+
+function emptyTransaction(): PackageTransaction {
+  return {
+    installed: [],
+    upgraded: [],
+    removed: [],
+    reinstalled: [],
+    current: [],
+    kept: [],
+    builds: [],
+    notices: [],
+  };
+}
+
+/**
+ * Compare the database before and after a plan, and refuse plans that change
+ * held packages
+ */
+function finish(
+  node: DGXNode,
+  db: NodePackages,
+  action: PackageAction,
+  transaction: PackageTransaction,
+  fabric?: NVSwitchFabricUpdate,
+): PackagePlan {
+  const before = getNodePackages(node).installed;
+  for (const pkg of db.installed) {
+    const old = before.find((p) => p.name === pkg.name);
+    if (!old) transaction.installed.push(pkg);
+    else if (old.version !== pkg.version) transaction.upgraded.push(pkg);
+  }
+  transaction.removed = before.filter(
+    (p) => !db.installed.some((q) => q.name === p.name),
+  );
+  const changed = [...transaction.upgraded, ...transaction.removed];
+  if (changed.some((p) => before.find((q) => q.name === p.name)?.held)) {
+    return { error: HELD_PACKAGES_ERROR };
+  }
+
+  const packages = [
+    ...transaction.installed,
+    ...transaction.upgraded,
+    ...transaction.removed,
+    ...transaction.reinstalled,
+  ].map((p) => p.name);
+  const failed = transaction.builds.some((b) => b.status !== "installed");
+  return {
+    ...(packages.length > 0 && {
+      update: { action, packages, database: db, fabric },
+    }),
+    transaction,
+    ...(failed && { error: DPKG_ERROR }),
+  };
+}
+
+/**
+ * Install packages, given as `name` or `name=version`, at the newest version
+ * unless one is named. Installing a driver package installs its whole branch
+ * and removes any other; a package already at the version is left alone
+ * unless `reinstall` is set.
+ */
+export function planPackageInstall(
+  node: DGXNode,
+  requests: string[],
+  now: number,
+  options: { reinstall?: boolean } = {},
+): PackagePlan {
+  const db = draft(node);
+  const transaction = emptyTransaction();
+  const available = availablePackages(node);
+  let fabric: NVSwitchFabricUpdate | undefined;
+
+  for (const request of requests) {
+    const [name, wanted] = request.split("=");
+    const offered = available.find((p) => p.name === name);
+    const existing = db.installed.find((p) => p.name === name);
+    if (!offered) {
+      if (!existing) return { error: `E: Unable to locate package ${name}` };
+      transaction.current.push(existing);
+      continue;
+    }
+    const version = wanted
+      ? offered.versions.find(
+          (v) => v === wanted || upstreamVersion(v) === wanted,
+        )
+      : offered.versions[offered.versions.length - 1];
+    if (!version) {
+      return { error: `E: Version '${wanted}' for '${name}' was not found` };
+    }
+    if (existing?.version === version) {
+      if (!options.reinstall && !existing.halfConfigured) {
+        transaction.current.push(existing);
+        continue;
+      }
+      // A half-configured package gets configured again
+      transaction.reinstalled.push(existing);
+    }
+
+    const driver = driverPackageOf(name);
+    if (driver) {
+      const build = installDriver(
+        db,
+        node,
+        driver.branch,
+        upstreamVersion(version),
+        name,
+      );
+      if (build) transaction.builds.push(build);
+    } else if (name.startsWith(`${FABRIC_MANAGER}-`)) {
+      const others = db.installed
+        .filter((p) => p.name.startsWith(`${FABRIC_MANAGER}-`))
+        .map((p) => p.name);
+      removePackages(db, new Set(others));
+      setPackage(db, { name, version, description: offered.description });
+      fabric = mergeFabricUpdates(
+        fabric,
+        planFabricManagerInstall(node, upstreamVersion(version), now).update,
+      );
+    } else {
+      setPackage(db, { name, version, description: offered.description });
+      // Installing the headers lets DKMS finish a build that failed
+      const failed = db.dkms.some((b) => b.status !== "installed");
+      if (name === headersPackage(node.kernelVersion) && failed) {
+        const build = buildModule(db, node);
+        if (build) transaction.builds.push(build);
+      }
+    }
+  }
+  return finish(node, db, "install", transaction, fabric);
+}
+
+/**
+ * Remove installed packages matching the patterns. Removing part of a driver
+ * branch takes its metapackage along; the other packages of the branch stay
+ * until `apt autoremove`. The loaded module keeps running until the node
+ * reboots.
+ */
+export function planPackageRemoval(
+  node: DGXNode,
+  patterns: string[],
+  now: number,
+): PackagePlan {
+  const db = draft(node);
+  const transaction = emptyTransaction();
+  const names = new Set<string>();
+
+  for (const pattern of patterns) {
+    const matches = db.installed.filter((p) => matchesPattern(p.name, pattern));
+    if (matches.length === 0) {
+      if (!availablePackages(node).some((p) => p.name === pattern)) {
+        return { error: `E: Unable to locate package ${pattern}` };
+      }
+      transaction.notices.push(
+        `Package '${pattern}' is not installed, so not removed`,
+      );
+    }
+    for (const pkg of matches) {
+      names.add(pkg.name);
+      const driver = driverPackageOf(pkg.name);
+      if (driver) names.add(`nvidia-driver-${driver.branch}`);
+    }
+  }
+  return removeNames(node, db, names, transaction, now);
+}
+
+function removeNames(
+  node: DGXNode,
+  db: NodePackages,
+  names: Set<string>,
+  transaction: PackageTransaction,
+  now: number,
+): PackagePlan {
+  const removed = db.installed.filter((p) => names.has(p.name));
+  removePackages(db, names);
+  let fabric: NVSwitchFabricUpdate | undefined;
+  for (const pkg of removed) {
+    if (pkg.name.startsWith("nvidia-dkms-")) {
+      db.dkms = db.dkms.filter((b) => b.module !== "nvidia");
+    } else if (pkg.name.startsWith("nvidia-kernel-common-")) {
+      db.nouveauBlacklisted = false;
+    } else if (pkg.name.startsWith(`${FABRIC_MANAGER}-`)) {
+      fabric = planFabricManagerStop(node, now).update;
+    }
+  }
+  return finish(node, db, "remove", transaction, fabric);
+}
+
+/**
+ * Remove driver packages that were installed as dependencies of a
+ * metapackage that is gone
+ */
+export function planAutoremove(node: DGXNode, now: number): PackagePlan {
+  const db = draft(node);
+  const names = new Set(
+    db.installed
+      .filter((p) => {
+        const driver = driverPackageOf(p.name);
+        return (
+          p.automatic &&
+          driver &&
+          !db.installed.some((q) => q.name === `nvidia-driver-${driver.branch}`)
+        );
+      })
+      .map((p) => p.name),
+  );
+  return removeNames(node, db, names, emptyTransaction(), now);
+}
+
+/**
+ * Upgrade every installed package the repository has a newer version of,
+ * within its driver branch. Held packages, and driver branches with a held
+ * package, are kept back.
+ */
+export function planUpgrade(node: DGXNode, now: number): PackagePlan {
+  const before = getNodePackages(node);
+  const available = availablePackages(node);
+  const newest = (name: string) => {
+    const versions = available.find((p) => p.name === name)?.versions ?? [];
+    return versions[versions.length - 1];
+  };
+  const heldBranches = new Set(
+    before.installed
+      .filter((p) => p.held)
+      .map((p) => driverPackageOf(p.name)?.branch)
+      .filter((b) => b !== undefined),
+  );
+
+  const requests: string[] = [];
+  const kept: InstalledPackage[] = [];
+  for (const pkg of before.installed) {
+    const candidate = newest(pkg.name);
+    if (!candidate || candidate === pkg.version) continue;
+    const driver = driverPackageOf(pkg.name);
+    if (pkg.held || (driver && heldBranches.has(driver.branch))) {
+      kept.push(pkg);
+    } else if (!driver || driver.prefix === "nvidia-driver") {
+      requests.push(pkg.name);
+    }
+  }
+
+  const plan = planPackageInstall(node, requests, now);
+  if (plan.update) plan.update.action = "upgrade";
+  if (plan.transaction) {
+    plan.transaction.kept = kept;
+    plan.transaction.current = [];
+  }
+  return plan;
+}
+
+/**
+ * Hold packages at their version, or release them
+ */
+export function planHold(
+  node: DGXNode,
+  names: string[],
+  held: boolean,
+): PackagePlan {
+  const db = draft(node);
+  const transaction = emptyTransaction();
+  const changed: string[] = [];
+  for (const name of names) {
+    const pkg = db.installed.find((p) => p.name === name);
+    if (!pkg) return { error: `E: Unable to locate package ${name}` };
+    if (Boolean(pkg.held) === held) {
+      transaction.notices.push(
+        held
+          ? `${name} was already set on hold.`
+          : `${name} was already not on hold.`,
+      );
+      continue;
+    }
+    pkg.held = held || undefined;
+    changed.push(name);
+    transaction.notices.push(
+      held ? `${name} set on hold.` : `Canceled hold on ${name}.`,
+    );
+  }
+  return {
+    ...(changed.length > 0 && {
+      update: {
+        action: held ? "hold" : "unhold",
+        packages: changed,
+        database: db,
+      },
+    }),
+    transaction,
+  };
+}
+
+/**
+ * A node whose initramfs still loads nouveau: it claimed the GPUs when the
+ * node last booted, so the NVIDIA module did not load
+ */
+export function planNouveauEnabled(node: DGXNode): PackagePlan {
+  const db = draft(node);
+  db.nouveauBlacklisted = false;
+  db.moduleLoaded = false;
+  return {
+    update: { action: "nouveau", packages: [], database: db },
+    transaction: emptyTransaction(),
+  };
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+/**
+ * Apply a package update in place
+ */
+export function applyNodePackageUpdate(
+  cluster: ClusterConfig,
+  nodeId: string,
+  update: NodePackageUpdate,
+): void {
+  const node = cluster.nodes.find((n) => n.id === nodeId);
+  if (!node) return;
+  node.packages = structuredClone(update.database);
+  if (update.fabric) {
+    applyNVSwitchFabricUpdate(cluster, nodeId, update.fabric);
+  }
+}
+
+/**
+ * The driver state a node comes up with when it boots: the kernel loads the
+ * module DKMS built for it, unless nouveau got to the GPUs first, and the
+ * pending reboot is done. Nodes whose packages never changed boot as they
+ * were.
+ */
+export function bootDriver(
+  node: DGXNode,
+): Partial<Pick<DGXNode, "packages" | "nvidiaDriverVersion" | "cudaVersion">> {
+  if (!node.packages) return {};
+  const build = kernelModuleBuild(node);
+  const moduleLoaded = node.packages.nouveauBlacklisted && build !== undefined;
+  const release = moduleLoaded ? findDriverRelease(build!.version) : undefined;
+  return {
+    packages: { ...node.packages, moduleLoaded, rebootRequired: false },
+    nvidiaDriverVersion: moduleLoaded
+      ? build!.version
+      : node.nvidiaDriverVersion,
+    cudaVersion: release?.cuda ?? node.cudaVersion,
+  };
+}
+
+/**
+ * A short account of an update for logs and state history
+ */
+export function describeNodePackageUpdate(update: NodePackageUpdate): string {
+  const packages = update.packages.join(", ");
+  switch (update.action) {
+    case "install":
+      return `Installed ${packages}`;
+    case "remove":
+      return `Removed ${packages}`;
+    case "upgrade":
+      return `Upgraded ${packages}`;
+    case "hold":
+      return `Held ${packages}`;
+    case "unhold":
+      return `Released hold on ${packages}`;
+    case "nouveau":
+      return "nouveau not blacklisted";
+  }
+}
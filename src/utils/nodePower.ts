@@ -0,0 +1,318 @@
+/**
+ * Node Power
+ *
+ * The chassis power of each node, switched by its BMC, and the sequence a
+ * node goes through once powered on: firmware POST, kernel boot, NVIDIA
+ * driver load, systemd services (sshd, Fabric Manager, DCGM) and finally
+ * registration with slurmctld.
+ *
+ * Like the Slurm controller, the sequence is evaluated lazily. The BMC keeps
+ * the time the chassis was last powered on and every tool derives the phase
+ * from the simulation clock when it runs: ssh, nvidia-smi and dcgmi fail
+ * until their part of the system is up, and Slurm returns the node to
+ * service once it registers.
+ *
+ * ipmitool, reboot, cmsh and bcm-node plan power actions here and apply them
+ * through the StateMutator. A node that loses power loses what only lived
+ * in its GPUs and running kernel: XIDs, volatile ECC counts, GPU instances
+ * and NVLink error counters. Pending page retirements and row remaps take
+ * effect as its GPUs come back up, the kernel loads whatever NVIDIA
+ * module DKMS last built for it, and firmware images flashed since the last
+ * boot start running. A BMC reset does the same for the BMC's own image.
+ * BlueField modes staged by mlxconfig only apply once the chassis has been
+ * without power.
+ */
+
+import type {
+  ClusterConfig,
+  DGXNode,
+  GPU,
+  NodePowerPhase,
+} from "@/types/hardware";
+import { simulationClock } from "@/simulation/simulationClock";
+import { activateStagedModes } from "./blueFieldDpu";
+import { activateStagedFirmware } from "./firmwareInventory";
+import { completePendingRepairs } from "./gpuMemoryHealth";
+import {
+  bootDriver,
+  isFabricManagerInstalled,
+  isKernelModuleLoaded,
+} from "./nodePackages";
+import {
+  applyNVSwitchFabricUpdate,
+  planFabricManagerReboot,
+  type NVSwitchFabricUpdate,
+} from "./nvswitchFabric";
+
+// How long each phase of the power-on sequence lasts, in order
+export const BOOT_SEQUENCE: { phase: NodePowerPhase; seconds: number }[] = [
+  { phase: "POST", seconds: 90 },
+  { phase: "KernelBoot", seconds: 30 },
+  { phase: "DriverLoad", seconds: 20 },
+  { phase: "Services", seconds: 20 },
+  { phase: "SlurmRegistration", seconds: 10 },
+];
+
+// How long the BMC stays unreachable after `ipmitool mc reset`
+export const BMC_RESET_SECONDS = { cold: 120, warm: 60 };
+
+// slurmctld's reason for nodes that stop responding
+export const NOT_RESPONDING_REASON = "Not responding";
+
+export type PowerAction = "on" | "off" | "soft" | "cycle" | "reset" | "reboot";
+
+/**
+ * A change to a node's power, planned against its current state so that
+ * replaying it gives the same result
+ */
+export interface NodePowerUpdate {
+  action: PowerAction | "bmc-reset";
+  powerState?: "On" | "Off";
+  poweredOnAt?: number;
+  bmcUnavailableUntil?: number;
+  fabric?: NVSwitchFabricUpdate;
+}
+
+/**
+ * The outcome of a power request. Without an update nothing changes.
+ */
+export interface NodePowerPlan {
+  update?: NodePowerUpdate;
+  error?: string;
+}
+
+const PHASE_ORDER: NodePowerPhase[] = [
+  "Off",
+  ...BOOT_SEQUENCE.map((step) => step.phase),
+  "Ready",
+];
+
+/**
+ * Milliseconds from power-on until a phase begins
+ */
+function phaseOffset(phase: NodePowerPhase): number {
+  let ms = 0;
+  for (const step of BOOT_SEQUENCE) {
+    if (step.phase === phase) return ms;
+    ms += step.seconds * 1000;
+  }
+  return ms;
+}
+
+export function getPowerPhase(
+  node: DGXNode,
+  now = simulationClock.now(),
+): NodePowerPhase {
+  if (node.bmc?.powerState === "Off") return "Off";
+  const poweredOnAt = node.bmc?.poweredOnAt;
+  if (poweredOnAt === undefined) return "Ready";
+
+  let phaseEnd = poweredOnAt;
+  for (const step of BOOT_SEQUENCE) {
+    phaseEnd += step.seconds * 1000;
+    if (now < phaseEnd) return step.phase;
+  }
+  return "Ready";
+}
+
+function reached(
+  node: DGXNode,
+  phase: NodePowerPhase,
+  now: number | undefined,
+): boolean {
+  return (
+    PHASE_ORDER.indexOf(getPowerPhase(node, now)) >= PHASE_ORDER.indexOf(phase)
+  );
+}
+
+/**
+ * Whether the NVIDIA kernel modules are loaded, which nvidia-smi, DCGM and
+ * CUDA need. A node that booted without a usable module never gets there.
+ */
+export function isDriverLoaded(node: DGXNode, now?: number): boolean {
+  return reached(node, "Services", now) && isKernelModuleLoaded(node);
+}
+
+/**
+ * The error ssh gives for a node that is not up yet: nothing answers until
+ * the kernel brings up the network, and sshd starts with the other services
+ */
+export function sshRefusal(node: DGXNode, now?: number): string | undefined {
+  if (reached(node, "Services", now)) return undefined;
+  const reason = reached(node, "DriverLoad", now)
+    ? "Connection refused"
+    : "No route to host";
+  return `ssh: connect to host ${node.hostname} port 22: ${reason}`;
+}
+
+/**
+ * Whether slurmd has registered the node with slurmctld since it booted
+ */
+export function isSlurmRegistered(node: DGXNode, now?: number): boolean {
+  return reached(node, "Ready", now);
+}
+
+/**
+ * Whether the node has been off or restarted since a point in time, which
+ * ends whatever was running on it then
+ */
+export function lostPowerSince(node: DGXNode, since: number): boolean {
+  return (
+    node.bmc?.powerState === "Off" ||
+    (node.bmc?.poweredOnAt ?? -Infinity) > since
+  );
+}
+
+export function isBmcResponding(
+  node: DGXNode,
+  now = simulationClock.now(),
+): boolean {
+  return (node.bmc?.unavailableUntil ?? 0) <= now;
+}
+
+/**
+ * Plan a chassis power action. `soft` and `reboot` shut the OS down first;
+ * the result is the same once it has. Cycling or resetting a node that is
+ * off is refused, the way BMCs answer these requests.
+ */
+export function planPowerAction(
+  node: DGXNode,
+  action: PowerAction,
+  now: number,
+): NodePowerPlan {
+  const isOn = node.bmc?.powerState !== "Off";
+  // Fabric Manager starts with the other services, against the driver the
+  // node boots with; without a driver or its package it does not start
+  const boot = (): NodePowerUpdate => {
+    const booted: DGXNode = { ...node, ...bootDriver(node) };
+    const startsFabricManager =
+      isKernelModuleLoaded(booted) && isFabricManagerInstalled(booted);
+    return {
+      action,
+      powerState: "On",
+      poweredOnAt: now,
+      fabric: planFabricManagerReboot(
+        booted,
+        now,
+        startsFabricManager ? now + phaseOffset("Services") : undefined,
+      ).update,
+    };
+  };
+
+  if (action === "on") {
+    return isOn ? {} : { update: boot() };
+  }
+  if (action === "off" || action === "soft") {
+    if (!isOn) return {};
+    return {
+      update: {
+        action,
+        powerState: "Off",
+        fabric: planFabricManagerReboot(node, now).update,
+      },
+    };
+  }
+  if (!isOn) {
+    return { error: "Command not supported in present state" };
+  }
+  return { update: boot() };
+}
+
+/**
+ * Plan a reset of the BMC itself. The host keeps running; only the BMC
+ * stops answering while it restarts.
+ */
+export function planBmcReset(
+  kind: keyof typeof BMC_RESET_SECONDS,
+  now: number,
+): NodePowerUpdate {
+  return {
+    action: "bmc-reset",
+    bmcUnavailableUntil: now + BMC_RESET_SECONDS[kind] * 1000,
+  };
+}
+
+/**
+ * Forget what a GPU only kept while powered: the XIDs logged since boot,
+ * volatile ECC counts, GPU instances and running work. Aggregate ECC counts
+ * and memory repairs live in the InfoROM and survive; the reset activates
+ * the pending ones.
+ */
+function clearVolatileState(gpu: GPU): void {
+  gpu.memoryHealth = completePendingRepairs(gpu);
+  gpu.xidErrors = [];
+  gpu.eccErrors.singleBit = 0;
+  gpu.eccErrors.doubleBit = 0;
+  gpu.migInstances = [];
+  gpu.utilization = 0;
+  gpu.allocatedJobId = undefined;
+  gpu.healthStatus = "OK";
+  for (const link of gpu.nvlinks) {
+    link.txErrors = 0;
+    link.rxErrors = 0;
+    link.replayErrors = 0;
+  }
+}
+
+/**
+ * Apply a power update in place. A node that goes down stops answering
+ * slurmctld, which marks it down unless an administrator drained it.
+ */
+export function applyNodePowerUpdate(
+  cluster: ClusterConfig,
+  nodeId: string,
+  update: NodePowerUpdate,
+): void {
+  const node = cluster.nodes.find((n) => n.id === nodeId);
+  if (!node) return;
+
+  if (update.bmcUnavailableUntil !== undefined) {
+    node.bmc.unavailableUntil = update.bmcUnavailableUntil;
+    activateStagedFirmware(node, "bmc-reset");
+  }
+  if (update.powerState) {
+    node.bmc.powerState = update.powerState;
+    if (update.poweredOnAt !== undefined) {
+      node.bmc.poweredOnAt = update.poweredOnAt;
+    }
+    if (update.powerState === "On") {
+      Object.assign(node, bootDriver(node));
+      activateStagedFirmware(node, "reboot");
+      // BlueField DPUs keep standby power through reboots and resets
+      if (update.action === "on" || update.action === "cycle") {
+        activateStagedModes(node);
+      }
+    }
+    node.gpus.forEach(clearVolatileState);
+    node.healthStatus = "OK";
+    if (node.slurmState !== "drain") {
+      node.slurmState = "down";
+      node.slurmReason = NOT_RESPONDING_REASON;
+    }
+  }
+  if (update.fabric) {
+    applyNVSwitchFabricUpdate(cluster, nodeId, update.fabric);
+  }
+}
+
+/**
+ * A short account of an update for logs and state history
+ */
+export function describeNodePowerUpdate(update: NodePowerUpdate): string {
+  switch (update.action) {
+    case "on":
+      return "Chassis powered on";
+    case "off":
+      return "Chassis powered off";
+    case "soft":
+      return "OS shut down and chassis powered off";
+    case "cycle":
+      return "Chassis power cycled";
+    case "reset":
+      return "Chassis hard reset";
+    case "reboot":
+      return "OS rebooted";
+    case "bmc-reset":
+      return "BMC reset";
+  }
+}
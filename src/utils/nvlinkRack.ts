@@ -0,0 +1,244 @@
+/**
+ * NVLink Racks
+ *
+ * Rack-scale systems like the GB200 NVL72 are not self-contained nodes: each
+ * node is a compute tray with two Grace-Blackwell superchips (one Grace CPU
+ * paired with two B200 GPUs over NVLink-C2C), and the NVSwitches live in
+ * separate NVLink switch trays cabled to every compute tray of the rack. The
+ * 18 compute trays of a rack form one 72-GPU NVLink domain.
+ *
+ * clusterFactory places compute trays in racks as it builds them. nvidia-smi,
+ * nv-fabricmanager, ipmitool and the topology view read the racks through
+ * getNVLinkRacks(), while each tray keeps its own view of the switch ports
+ * facing its GPUs in its NVSwitch fabric.
+ */
+
+import type {
+  BMCSensor,
+  ClusterConfig,
+  DGXNode,
+  HealthStatus,
+  NVLinkRack,
+  NVLinkSwitchTray,
+} from "@/types/hardware";
+import { getHardwareSpecs, type HardwareSpec } from "@/data/hardwareSpecs";
+
+// Every GPU of an NVL72 domain reports the same clique
+export const NVLINK_CLIQUE_ID = 32766;
+
+const SWITCH_TRAY_FIRMWARE = "25.02.1411";
+
+// Rack power not drawn by the GPUs, in watts
+const GRACE_WATTS = 300;
+const COMPUTE_TRAY_BASE_WATTS = 350; // NICs, drives, BMC
+const SWITCH_TRAY_WATTS = 1000;
+
+const COOLANT_INLET_TEMP = 25; // °C, facility water supply
+const WATER_HEAT_CAPACITY = 4186; // J/(kg·°C), 1 L weighs about 1 kg
+
+export interface NVLinkDomain {
+  rack: NVLinkRack;
+  trays: DGXNode[]; // Compute trays present in the cluster, by position
+}
+
+/**
+ * Deterministic NVLink domain UUID per rack, in the usual 8-4-4-4-12 form
+ */
+export function rackClusterUuid(rack: number): string {
+  const hex = [1, 2, 3, 4]
+    .map((g) => (((rack + 1) * 4 + g) * 2654435761) >>> 0)
+    .map((h) => h.toString(16).padStart(8, "0"))
+    .join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+export function isRackScale(node: DGXNode): boolean {
+  return getHardwareSpecs(node.systemType).rack !== undefined;
+}
+
+/**
+ * Group the nodes placed in racks by clusterFactory into NVLink racks.
+ * Nodes without a rack slot are self-contained and belong to none.
+ */
+export function buildNVLinkRacks(nodes: DGXNode[]): NVLinkRack[] {
+  const byRack = new Map<number, DGXNode[]>();
+  for (const node of nodes) {
+    if (!node.rackSlot) continue;
+    const trays = byRack.get(node.rackSlot.rack) ?? [];
+    trays.push(node);
+    byRack.set(node.rackSlot.rack, trays);
+  }
+
+  return [...byRack.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([rack, trays]) => {
+      const specs = getHardwareSpecs(trays[0].systemType);
+      const perTray = specs.rack?.nvSwitchesPerSwitchTray ?? 2;
+      const switchTrays: NVLinkSwitchTray[] = Array.from(
+        { length: specs.rack?.switchTrays ?? 0 },
+        (_, id) => ({
+          id,
+          firmwareVersion: SWITCH_TRAY_FIRMWARE,
+          nvswitchIds: Array.from(
+            { length: perTray },
+            (_, i) => id * perTray + i,
+          ),
+          healthStatus: "OK" as HealthStatus,
+        }),
+      );
+      return {
+        id: `rack-${rack}`,
+        model: specs.rack?.model ?? specs.system.type,
+        computeTrays: [...trays]
+          .sort((a, b) => a.rackSlot!.tray - b.rackSlot!.tray)
+          .map((n) => n.id),
+        switchTrays,
+        clusterUuid: rackClusterUuid(rack),
+        cliqueId: NVLINK_CLIQUE_ID,
+      };
+    });
+}
+
+/**
+ * The cluster's racks. Clusters without them (hand-built fixtures, older
+ * saved sessions) get racks derived from the nodes' rack slots.
+ */
+export function getNVLinkRacks(cluster: ClusterConfig): NVLinkRack[] {
+  return cluster.racks ?? buildNVLinkRacks(cluster.nodes);
+}
+
+export function findRack(
+  cluster: ClusterConfig,
+  nodeId: string,
+): NVLinkRack | undefined {
+  return getNVLinkRacks(cluster).find((r) => r.computeTrays.includes(nodeId));
+}
+
+/**
+ * The rack a node belongs to along with all of its compute trays
+ */
+export function getNVLinkDomain(
+  cluster: ClusterConfig,
+  nodeId: string,
+): NVLinkDomain | undefined {
+  const rack = findRack(cluster, nodeId);
+  if (!rack) return undefined;
+  const trays = rack.computeTrays
+    .map((id) => cluster.nodes.find((n) => n.id === id))
+    .filter((n): n is DGXNode => n !== undefined);
+  return { rack, trays };
+}
+
+/**
+ * Index of the Grace CPU a GPU is paired with in its superchip, which is
+ * also the NUMA node of its CPU affinity
+ */
+export function superchipOf(node: DGXNode, gpuId: number): number {
+  const perSuperchip =
+    getHardwareSpecs(node.systemType).rack?.gpusPerSuperchip ?? 2;
+  return Math.floor(gpuId / perSuperchip);
+}
+
+/**
+ * The switch tray holding one of the rack's NVSwitches
+ */
+export function switchTrayOf(rack: NVLinkRack, nvswitchId: number): number {
+  return rack.switchTrays.findIndex((t) => t.nvswitchIds.includes(nvswitchId));
+}
+
+/**
+ * The GPUs a compute tray can reach over NVLink: its own and those of every
+ * other tray in the rack
+ */
+export function domainGpuCount(domain: NVLinkDomain): number {
+  return domain.trays.reduce((n, tray) => n + tray.gpus.length, 0);
+}
+
+function rackPowerWatts(domain: NVLinkDomain, specs: HardwareSpec): number {
+  const computeWatts = domain.trays.reduce(
+    (sum, tray) =>
+      sum +
+      COMPUTE_TRAY_BASE_WATTS +
+      GRACE_WATTS * specs.system.cpu.sockets +
+      tray.gpus.reduce((w, gpu) => w + gpu.powerDraw, 0),
+    0,
+  );
+  return computeWatts + SWITCH_TRAY_WATTS * domain.rack.switchTrays.length;
+}
+
+function upperStatus(
+  reading: number,
+  warning: number,
+  critical: number,
+): HealthStatus {
+  if (reading >= critical) return "Critical";
+  if (reading >= warning) return "Warning";
+  return "OK";
+}
+
+/**
+ * Rack-level power and liquid cooling sensors, reported by every compute
+ * tray's BMC alongside its own. They follow the live GPU power draw: the
+ * coolant warms by P / (flow × c) on its way through the rack.
+ */
+export function rackSensors(domain: NVLinkDomain): BMCSensor[] {
+  if (domain.trays.length === 0) return [];
+  const specs = getHardwareSpecs(domain.trays[0].systemType);
+  if (!specs.rack) return [];
+
+  const maxWatts = specs.rack.maxPowerKW * 1000;
+  const watts = Math.round(rackPowerWatts(domain, specs));
+  const shelfWatts = Math.round(watts / specs.rack.powerShelves);
+  const shelfMax = Math.round((maxWatts * 2) / specs.rack.powerShelves);
+  const flow = specs.rack.coolantFlowLpm;
+  const outlet =
+    COOLANT_INLET_TEMP + watts / ((flow / 60) * WATER_HEAT_CAPACITY);
+
+  return [
+    {
+      name: "Rack Power",
+      reading: watts,
+      unit: "W",
+      status: upperStatus(watts, maxWatts * 0.9, maxWatts),
+      upperWarning: maxWatts * 0.9,
+      upperCritical: maxWatts,
+    },
+    ...Array.from({ length: specs.rack.powerShelves }, (_, i) => ({
+      name: `PwrShelf${i + 1} Power`,
+      reading: shelfWatts,
+      unit: "W",
+      status: upperStatus(shelfWatts, shelfMax * 0.9, shelfMax),
+      upperCritical: shelfMax,
+    })),
+    {
+      name: "Coolant Inlet Temp",
+      reading: COOLANT_INLET_TEMP,
+      unit: "°C",
+      status: upperStatus(COOLANT_INLET_TEMP, 40, 45),
+      upperWarning: 40,
+      upperCritical: 45,
+    },
+    {
+      name: "Coolant Outlet Temp",
+      reading: Math.round(outlet * 10) / 10,
+      unit: "°C",
+      status: upperStatus(outlet, 60, 65),
+      upperWarning: 60,
+      upperCritical: 65,
+    },
+    {
+      name: "Coolant Flow",
+      reading: flow,
+      unit: "L/min",
+      status: "OK",
+      lowerWarning: flow * 0.8,
+      lowerCritical: flow * 0.5,
+    },
+  ];
+}
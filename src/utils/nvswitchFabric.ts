@@ -0,0 +1,565 @@
+/**
+ * NVSwitch Fabric
+ *
+ * The NVSwitches on a node's GPU baseboard and the Fabric Manager service
+ * that programs them. A GPU registers with the NVLink fabric only while
+ * Fabric Manager is running (and, in shared NVSwitch mode, while one of its
+ * partitions is activated). Until then its NVLinks stay untrained and CUDA
+ * refuses to initialize on it.
+ *
+ * clusterFactory builds the fabric along with each node. nv-fabricmanager,
+ * systemctl, journalctl, nvidia-smi, dcgmi and the topology view all read it
+ * through getNVSwitchFabric(), and every change goes through
+ * applyNVSwitchFabricUpdate() so the GPU NVLink states follow along.
+ */
+
+import type {
+  ClusterConfig,
+  DGXNode,
+  FabricManagerLogEntry,
+  FabricManagerService,
+  FabricMode,
+  FabricPartition,
+  NVSwitch,
+  NVSwitchFabric,
+  NVSwitchPort,
+} from "@/types/hardware";
+import { getHardwareSpecs } from "@/data/hardwareSpecs";
+import { simulationRandom } from "@/simulation/seededRandom";
+import { simulationClock } from "@/simulation/simulationClock";
+
+export const FABRIC_MANAGER_UNIT = "nvidia-fabricmanager";
+
+const SYSTEMD = "systemd[1]";
+
+// PID of the instance started at boot
+const BOOT_PID = 2417;
+
+// Oldest journal entries are dropped beyond this
+const MAX_LOG_ENTRIES = 200;
+
+/**
+ * Deterministic 8-character hex string from a seed: multiply by a large
+ * prime and keep the lower 32 bits.
+ */
+function hexGroup(seed: number): string {
+  const h = (seed * 2654435761) >>> 0;
+  return h.toString(16).padStart(8, "0");
+}
+
+/**
+ * NVSwitch UUID in the format NVSwitch-xxxxxxxx-xxxxxxxx-xxxxxxxx-xxxxxxxx,
+ * deterministic per switch index
+ */
+export function nvSwitchUUID(switchIndex: number): string {
+  const groups = [1, 2, 3, 4].map((g) => hexGroup(switchIndex * 4 + g));
+  return `NVSwitch-${groups.join("-")}`;
+}
+
+/**
+ * The partitions Fabric Manager offers for shared NVSwitch mode: all GPUs,
+ * then halves, quarters and so on down to single GPUs.
+ */
+function defaultPartitions(gpuIds: number[]): FabricPartition[] {
+  const partitions: FabricPartition[] = [];
+  for (let size = gpuIds.length; size >= 1; size = Math.floor(size / 2)) {
+    for (let start = 0; start + size <= gpuIds.length; start += size) {
+      partitions.push({
+        id: partitions.length,
+        gpuIds: gpuIds.slice(start, start + size),
+        active: false,
+      });
+    }
+  }
+  return partitions;
+}
+
+function entry(
+  timestamp: number,
+  process: string,
+  message: string,
+): FabricManagerLogEntry {
+  return { timestamp, process, message };
+}
+
+function startedEntries(
+  now: number,
+  pid: number,
+  mode: FabricMode,
+  version: string,
+): FabricManagerLogEntry[] {
+  const fm = `nv-fabricmanager[${pid}]`;
+  const entries = [
+    entry(now, SYSTEMD, "Starting NVIDIA fabric manager service..."),
+    entry(
+      now,
+      fm,
+      `Fabric Manager version ${version} is running with the following configuration options`,
+    ),
+    entry(now, fm, "Topology file path = /usr/share/nvidia/nvswitch"),
+    entry(now, fm, "Connected to 1 node."),
+  ];
+  if (mode === "shared") {
+    entries.push(
+      entry(now, fm, "Fabric Manager running in shared NVSwitch mode"),
+    );
+  }
+  entries.push(
+    entry(
+      now,
+      fm,
+      "Successfully configured all the available NVSwitches to route GPU NVLink traffic. NVLink Peer-to-Peer support will be enabled once the GPUs are successfully registered with the NVLink fabric.",
+    ),
+    entry(now, SYSTEMD, "Started NVIDIA fabric manager service."),
+  );
+  return entries;
+}
+
+/**
+ * Build a node's NVSwitch fabric from its GPUs' NVLinks, spread round-robin
+ * over the system's NVSwitches. Fabric Manager starts out running with the
+ * driver's version, so every port takes the state of its GPU link.
+ *
+ * On rack-scale systems the NVSwitches sit in the rack's switch trays, so
+ * every compute tray of a rack sees the same switches, each with one port
+ * per link of the tray's GPUs.
+ */
+export function buildNVSwitchFabric(node: DGXNode): NVSwitchFabric {
+  const specs = getHardwareSpecs(node.systemType || "DGX-A100");
+  const switchCount = specs.nvlink.nvSwitchCount;
+  const firstSwitch = (node.rackSlot?.rack ?? 0) * switchCount;
+  const nvswitches: NVSwitch[] = Array.from(
+    { length: switchCount },
+    (_, i) => ({
+      physicalId: node.gpus.length + i,
+      uuid: nvSwitchUUID(firstSwitch + i),
+      pciAddress: `00000000:${(0xc0 + i).toString(16)}:00.0`,
+      ports: [],
+    }),
+  );
+
+  if (switchCount > 0) {
+    for (const gpu of node.gpus) {
+      for (const link of gpu.nvlinks) {
+        const sw = nvswitches[link.linkId % switchCount];
+        sw.ports.push({
+          portId: sw.ports.length,
+          gpuId: gpu.id,
+          gpuLinkId: link.linkId,
+          state: link.status,
+        });
+      }
+    }
+  }
+
+  const now = simulationClock.now();
+  return {
+    nvswitches,
+    fabricManager: {
+      state: "Running",
+      version: node.nvidiaDriverVersion,
+      pid: BOOT_PID,
+      startedAt: now,
+      log: startedEntries(now, BOOT_PID, "baremetal", node.nvidiaDriverVersion),
+    },
+    mode: "baremetal",
+    partitions: defaultPartitions(node.gpus.map((g) => g.id)),
+  };
+}
+
+/**
+ * The node's fabric. Nodes without one (hand-built fixtures, older saved
+ * sessions) get a fabric derived from their GPUs on every call.
+ */
+export function getNVSwitchFabric(node: DGXNode): NVSwitchFabric {
+  return node.nvswitchFabric ?? buildNVSwitchFabric(node);
+}
+
+/**
+ * Whether a GPU has registered with the NVLink fabric and can run CUDA.
+ * GPUs without NVSwitches never wait on Fabric Manager.
+ */
+export function isGpuRegistered(
+  fabric: NVSwitchFabric,
+  gpuId: number,
+): boolean {
+  if (fabric.nvswitches.length === 0) return true;
+  if (fabric.fabricManager.state !== "Running") return false;
+  return (
+    fabric.mode === "baremetal" ||
+    fabric.partitions.some((p) => p.active && p.gpuIds.includes(gpuId))
+  );
+}
+
+/**
+ * GPUs of the node that have not registered with the NVLink fabric
+ */
+export function unregisteredGpus(node: DGXNode): number[] {
+  const fabric = getNVSwitchFabric(node);
+  return node.gpus
+    .map((g) => g.id)
+    .filter((id) => !isGpuRegistered(fabric, id));
+}
+
+/**
+ * A GPU's fabric state and status as nvidia-smi -q reports them
+ */
+export function gpuFabricState(
+  node: DGXNode,
+  gpuId: number,
+): { state: string; status: string } {
+  const fabric = getNVSwitchFabric(node);
+  if (fabric.nvswitches.length === 0) return { state: "N/A", status: "N/A" };
+  return isGpuRegistered(fabric, gpuId)
+    ? { state: "Completed", status: "Success" }
+    : { state: "In Progress", status: "N/A" };
+}
+
+/**
+ * NVSwitch ports facing one GPU, with the switch they sit on
+ */
+export function gpuSwitchPorts(
+  fabric: NVSwitchFabric,
+  gpuId: number,
+): { nvswitch: NVSwitch; port: NVSwitchPort }[] {
+  return fabric.nvswitches.flatMap((nvswitch) =>
+    nvswitch.ports
+      .filter((port) => port.gpuId === gpuId)
+      .map((port) => ({ nvswitch, port })),
+  );
+}
+
+/**
+ * A change to a node's fabric, planned against its current state so that
+ * replaying it gives the same result
+ */
+export interface NVSwitchFabricUpdate {
+  fabricManager?: Partial<Omit<FabricManagerService, "log">>;
+  mode?: FabricMode;
+  partitions?: Record<number, boolean>; // partition id → active
+  log?: FabricManagerLogEntry[];
+}
+
+/**
+ * The outcome of a Fabric Manager request. Without an update nothing
+ * changes; a failed start still has one, recording the failure.
+ */
+export interface FabricManagerAction {
+  update?: NVSwitchFabricUpdate;
+  error?: string;
+}
+
+/**
+ * Combine two updates, the second one applied after the first
+ */
+export function mergeFabricUpdates(
+  first: NVSwitchFabricUpdate | undefined,
+  second: NVSwitchFabricUpdate | undefined,
+): NVSwitchFabricUpdate | undefined {
+  if (!first || !second) return first ?? second;
+  return {
+    fabricManager: { ...first.fabricManager, ...second.fabricManager },
+    mode: second.mode ?? first.mode,
+    partitions: { ...first.partitions, ...second.partitions },
+    log: [...(first.log ?? []), ...(second.log ?? [])],
+  };
+}
+
+function deactivateAll(fabric: NVSwitchFabric): Record<number, boolean> {
+  return Object.fromEntries(
+    fabric.partitions.filter((p) => p.active).map((p) => [p.id, false]),
+  );
+}
+
+function startAction(
+  node: DGXNode,
+  fabric: NVSwitchFabric,
+  now: number,
+): FabricManagerAction {
+  const pid = 4000 + simulationRandom.int(4000);
+  const { version } = fabric.fabricManager;
+
+  if (version !== node.nvidiaDriverVersion) {
+    const error = `fabric manager NVIDIA GPU driver interface version ${version} don't match with driver version ${node.nvidiaDriverVersion}. Please update with matching NVIDIA driver package.`;
+    return {
+      update: {
+        fabricManager: {
+          state: "Failed",
+          pid: undefined,
+          startedAt: undefined,
+        },
+        log: [
+          entry(now, SYSTEMD, "Starting NVIDIA fabric manager service..."),
+          entry(now, `nv-fabricmanager[${pid}]`, error),
+          entry(
+            now,
+            SYSTEMD,
+            `${FABRIC_MANAGER_UNIT}.service: Control process exited, code=exited, status=1/FAILURE`,
+          ),
+          entry(
+            now,
+            SYSTEMD,
+            `${FABRIC_MANAGER_UNIT}.service: Failed with result 'exit-code'.`,
+          ),
+          entry(now, SYSTEMD, "Failed to start NVIDIA fabric manager service."),
+        ],
+      },
+      error,
+    };
+  }
+
+  return {
+    update: {
+      fabricManager: { state: "Running", pid, startedAt: now },
+      log: startedEntries(now, pid, fabric.mode, version),
+    },
+  };
+}
+
+/**
+ * Start Fabric Manager. It refuses to start when its version does not match
+ * the GPU driver's, and starting a running instance changes nothing.
+ */
+export function planFabricManagerStart(
+  node: DGXNode,
+  now: number,
+): FabricManagerAction {
+  const fabric = getNVSwitchFabric(node);
+  if (fabric.fabricManager.state === "Running") return {};
+  return startAction(node, fabric, now);
+}
+
+/**
+ * Stop Fabric Manager, which deactivates every partition. A failed instance
+ * stays failed until it is started again.
+ */
+export function planFabricManagerStop(
+  node: DGXNode,
+  now: number,
+): FabricManagerAction {
+  const fabric = getNVSwitchFabric(node);
+  if (fabric.fabricManager.state !== "Running") return {};
+  return {
+    update: {
+      fabricManager: { state: "Stopped", pid: undefined, startedAt: undefined },
+      partitions: deactivateAll(fabric),
+      log: [
+        entry(now, SYSTEMD, "Stopping NVIDIA fabric manager service..."),
+        entry(
+          now,
+          SYSTEMD,
+          `${FABRIC_MANAGER_UNIT}.service: Deactivated successfully.`,
+        ),
+        entry(now, SYSTEMD, "Stopped NVIDIA fabric manager service."),
+      ],
+    },
+  };
+}
+
+/**
+ * Stop Fabric Manager if it is running, then start it again
+ */
+export function planFabricManagerRestart(
+  node: DGXNode,
+  now: number,
+): FabricManagerAction {
+  const fabric = getNVSwitchFabric(node);
+  const stop = planFabricManagerStop(node, now);
+  const start = startAction(node, fabric, now);
+  return {
+    update: mergeFabricUpdates(stop.update, start.update),
+    error: start.error,
+  };
+}
+
+/**
+ * Fabric Manager across a power event: stopped along with the rest of the
+ * system at shutdown and, when the node boots again, started by systemd at
+ * startAt. A failed instance gets another chance at boot.
+ */
+export function planFabricManagerReboot(
+  node: DGXNode,
+  shutdownAt: number,
+  startAt?: number,
+): FabricManagerAction {
+  const fabric = getNVSwitchFabric(node);
+  const stop = planFabricManagerStop(node, shutdownAt);
+  if (startAt === undefined) return stop;
+  const start = startAction(node, fabric, startAt);
+  return {
+    update: mergeFabricUpdates(stop.update, start.update),
+    error: start.error,
+  };
+}
+
+/**
+ * Install another Fabric Manager package. Like the package's post-install
+ * script, this restarts the service, which fails if the new version does not
+ * match the GPU driver.
+ */
+export function planFabricManagerInstall(
+  node: DGXNode,
+  version: string,
+  now: number,
+): FabricManagerAction {
+  const fabric = getNVSwitchFabric(node);
+  const installed: DGXNode = {
+    ...node,
+    nvswitchFabric: {
+      ...fabric,
+      fabricManager: { ...fabric.fabricManager, version },
+    },
+  };
+  const restart = planFabricManagerRestart(installed, now);
+  return {
+    update: mergeFabricUpdates({ fabricManager: { version } }, restart.update),
+    error: restart.error,
+  };
+}
+
+/**
+ * Activate or deactivate a partition. Partitions only exist in shared
+ * NVSwitch mode, with Fabric Manager running, and two active partitions
+ * never share a GPU.
+ */
+export function planPartitionChange(
+  node: DGXNode,
+  partitionId: number,
+  active: boolean,
+  now: number,
+): FabricManagerAction {
+  const fabric = getNVSwitchFabric(node);
+  const fm = fabric.fabricManager;
+  if (fm.state !== "Running") {
+    return { error: "Failed to connect to fabric manager instance" };
+  }
+  if (fabric.mode !== "shared") {
+    return {
+      error:
+        "Partitions are only supported in shared NVSwitch mode (FABRIC_MODE=1)",
+    };
+  }
+  const partition = fabric.partitions.find((p) => p.id === partitionId);
+  if (!partition) {
+    return { error: `Invalid partition id ${partitionId}` };
+  }
+  if (partition.active === active) {
+    return {
+      error: `Partition ${partitionId} is ${active ? "already" : "not"} activated`,
+    };
+  }
+  if (active) {
+    const overlapping = fabric.partitions.find(
+      (p) => p.active && p.gpuIds.some((id) => partition.gpuIds.includes(id)),
+    );
+    if (overlapping) {
+      return {
+        error: `Partition ${partitionId} shares GPUs with active partition ${overlapping.id}`,
+      };
+    }
+  }
+  return {
+    update: {
+      partitions: { [partitionId]: active },
+      log: [
+        entry(
+          now,
+          `nv-fabricmanager[${fm.pid ?? BOOT_PID}]`,
+          `${active ? "Activated" : "Deactivated"} fabric partition id ${partitionId}`,
+        ),
+      ],
+    },
+  };
+}
+
+/**
+ * Switch between bare metal and shared NVSwitch mode. Fabric Manager reads
+ * FABRIC_MODE when it starts, so it has to be stopped first.
+ */
+export function planFabricModeChange(
+  node: DGXNode,
+  mode: FabricMode,
+): FabricManagerAction {
+  const fabric = getNVSwitchFabric(node);
+  if (fabric.fabricManager.state === "Running") {
+    return {
+      error: `Stop ${FABRIC_MANAGER_UNIT} before changing FABRIC_MODE`,
+    };
+  }
+  if (fabric.mode === mode) return {};
+  return { update: { mode, partitions: deactivateAll(fabric) } };
+}
+
+/**
+ * Train or untrain every NVSwitch port and the GPU NVLink behind it. A link
+ * that is down on either side stays down; the rest are active exactly when
+ * their GPU is registered with the fabric.
+ */
+function trainLinks(node: DGXNode, fabric: NVSwitchFabric): void {
+  for (const sw of fabric.nvswitches) {
+    for (const port of sw.ports) {
+      const link = node.gpus
+        .find((g) => g.id === port.gpuId)
+        ?.nvlinks.find((l) => l.linkId === port.gpuLinkId);
+      if (port.state === "Down" || link?.status === "Down") {
+        port.state = "Down";
+      } else {
+        port.state = isGpuRegistered(fabric, port.gpuId)
+          ? "Active"
+          : "Inactive";
+      }
+      if (link) link.status = port.state;
+    }
+  }
+}
+
+/**
+ * Apply a fabric update in place, creating the node's fabric first if it
+ * does not have one
+ */
+export function applyNVSwitchFabricUpdate(
+  cluster: ClusterConfig,
+  nodeId: string,
+  update: NVSwitchFabricUpdate,
+): void {
+  const node = cluster.nodes.find((n) => n.id === nodeId);
+  if (!node) return;
+  node.nvswitchFabric ??= buildNVSwitchFabric(node);
+  const fabric = node.nvswitchFabric;
+
+  if (update.fabricManager) {
+    Object.assign(fabric.fabricManager, update.fabricManager);
+  }
+  if (update.mode) fabric.mode = update.mode;
+  for (const partition of fabric.partitions) {
+    const active = update.partitions?.[partition.id];
+    if (active !== undefined) partition.active = active;
+  }
+  if (update.log) {
+    fabric.fabricManager.log = [
+      ...fabric.fabricManager.log,
+      ...update.log,
+    ].slice(-MAX_LOG_ENTRIES);
+  }
+  trainLinks(node, fabric);
+}
+
+/**
+ * A short account of an update for logs and state history
+ */
+export function describeFabricUpdate(update: NVSwitchFabricUpdate): string {
+  const parts: string[] = [];
+  if (update.fabricManager?.state) {
+    parts.push(`Fabric Manager ${update.fabricManager.state.toLowerCase()}`);
+  }
+  if (update.fabricManager?.version) {
+    parts.push(`Fabric Manager ${update.fabricManager.version} installed`);
+  }
+  if (update.mode) parts.push(`FABRIC_MODE ${update.mode}`);
+  for (const [id, active] of Object.entries(update.partitions ?? {})) {
+    parts.push(`partition ${id} ${active ? "activated" : "deactivated"}`);
+  }
+  return parts.length > 0
+    ? `NVSwitch fabric: ${parts.join(", ")}`
+    : "NVSwitch fabric updated";
+}
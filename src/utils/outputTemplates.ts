@@ -7,6 +7,9 @@
  * - Formatted output helpers
  */
 
+import { simulationRandom } from '@/simulation/seededRandom';
+import { simulationClock } from '@/simulation/simulationClock';
+
 /**
  * Timestamp format options
  */
@@ -27,8 +30,10 @@ export function generateTimestamp(options: TimestampOptions = {}): string {
     const { jitterMs = 50, format = 'locale', baseTime } = options;
 
     // Add realistic jitter
-    const jitter = (Math.random() - 0.5) * jitterMs * 2;
-    const timestamp = new Date((baseTime?.getTime() ?? Date.now()) + jitter);
+    const jitter = (simulationRandom.next() - 0.5) * jitterMs * 2;
+    const timestamp = new Date(
+      (baseTime?.getTime() ?? simulationClock.now()) + jitter,
+    );
 
     switch (format) {
         case 'iso':
@@ -74,7 +79,8 @@ export function generateSensorReading(
     baseValue: number,
     jitterPercent: number = 2
 ): number {
-    const jitter = baseValue * (jitterPercent / 100) * (Math.random() - 0.5) * 2;
+    const jitter =
+      baseValue * (jitterPercent / 100) * (simulationRandom.next() - 0.5) * 2;
     return Math.round((baseValue + jitter) * 100) / 100;
 }
 
@@ -88,7 +94,9 @@ export function generateIntSensorReading(
     baseValue: number,
     jitterAmount: number = 1
 ): number {
-    const jitter = Math.round((Math.random() - 0.5) * 2 * jitterAmount);
+    const jitter = Math.round(
+      (simulationRandom.next() - 0.5) * 2 * jitterAmount,
+    );
     return baseValue + jitter;
 }
 
@@ -135,7 +143,7 @@ export function generateUniqueId(prefix: string, length: number = 12): string {
     const chars = '0123456789abcdef';
     let id = '';
     for (let i = 0; i < length; i++) {
-        id += chars[Math.floor(Math.random() * chars.length)];
+        id += chars[simulationRandom.int(chars.length)];
     }
     return `${prefix}-${id}`;
 }
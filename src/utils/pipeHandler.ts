@@ -365,9 +365,17 @@ function applyAwk(output: string, args: string[]): string {
  */
 function applyPipeCommand(output: string, pipeCmd: string): string {
     const parts = pipeCmd.trim().split(/\s+/);
-    const cmd = parts[0];
-    const args = parts.slice(1);
+    return applyPipeStage(output, parts[0], parts.slice(1));
+}
 
+/**
+ * Apply one already-tokenized filter stage to output
+ * @param output - Output of the previous stage
+ * @param cmd - Filter command name (e.g., "grep")
+ * @param args - Filter arguments with shell quoting already removed
+ * @returns Filtered output
+ */
+export function applyPipeStage(output: string, cmd: string, args: string[]): string {
     switch (cmd) {
         case 'grep':
             return applyGrep(output, args);
@@ -3,10 +3,43 @@ import type {
   FaultInjectionConfig,
   NarrativeScenario,
 } from "@/types/scenarios";
+import type {
+  ClusterConfig,
+  GPU,
+  InfiniBandCable,
+  NVLinkConnection,
+} from "@/types/hardware";
 import type { ScenarioContext } from "@/store/scenarioContext";
 import { useSimulationStore } from "@/store/simulationStore";
 import { narrativeToScenario } from "./narrativeAdapter";
 import { createDGXNode } from "./clusterFactory";
+import {
+  cableFaultChanges,
+  cableRepairChanges,
+  findCable,
+  getFabric,
+  switchPortFaultChanges,
+  type InfiniBandFaultMode,
+  type InfiniBandPortChange,
+} from "./infinibandFabric";
+import {
+  FABRIC_MANAGER_UNIT,
+  planFabricManagerInstall,
+  planFabricManagerStart,
+  planFabricManagerStop,
+  type NVSwitchFabricUpdate,
+} from "./nvswitchFabric";
+import {
+  planNouveauEnabled,
+  planPackageInstall,
+  planPackageRemoval,
+  type NodePackageUpdate,
+} from "./nodePackages";
+import {
+  planFirmwareFault,
+  type NodeFirmwareUpdate,
+} from "./firmwareInventory";
+import { simulationClock } from "@/simulation/simulationClock";
 import { logger } from "@/utils/logger";
 
 // Cache for loaded scenarios
@@ -104,6 +137,203 @@ export async function getScenariosByDomain(
   return Array.from(cache.values()).filter((s) => s.domain === domainStr);
 }
 
+/**
+ * Port changes for an InfiniBand fault. "ib-cable" targets
+ * parameters.cableId, or else the cable on HCA parameters.hca (default 0) of
+ * nodeId; "ib-switch-port" targets parameters.switchId and parameters.port.
+ * parameters.mode is "down", "errors" or "init", defaulting to "down" for
+ * critical faults.
+ */
+function ibFaultChanges(
+  cluster: ClusterConfig,
+  fault: FaultInjectionConfig,
+): InfiniBandPortChange[] {
+  const { nodeId, type, severity, parameters } = fault;
+  const mode: InfiniBandFaultMode =
+    parameters?.mode ?? (severity === "critical" ? "down" : "errors");
+  const counts = {
+    symbolErrors: parameters?.symbolErrors,
+    portRcvErrors: parameters?.portRcvErrors,
+  };
+
+  if (type === "ib-switch-port") {
+    if (!parameters?.switchId || parameters?.port === undefined) {
+      logger.warn("ib-switch-port fault missing 'switchId' or 'port'");
+      return [];
+    }
+    return switchPortFaultChanges(
+      cluster,
+      parameters.switchId,
+      parameters.port,
+      mode,
+      counts,
+    );
+  }
+
+  const cable = faultedCable(cluster, fault);
+  if (!cable) {
+    logger.warn(`ib-cable fault target not found on ${nodeId}`);
+    return [];
+  }
+  return cableFaultChanges(cluster, cable, mode, counts);
+}
+
+/**
+ * The cable an InfiniBand fault is on: for "ib-switch-port" the one plugged
+ * into the switch port, otherwise the one ibFaultChanges targets.
+ */
+function faultedCable(
+  cluster: ClusterConfig,
+  fault: FaultInjectionConfig,
+): InfiniBandCable | undefined {
+  const { nodeId, type, parameters } = fault;
+  const fabric = getFabric(cluster);
+  if (type === "ib-switch-port") {
+    return findCable(fabric, {
+      kind: "switch",
+      switchId: parameters?.switchId,
+      portNumber: parameters?.port,
+    });
+  }
+  const hcaIndex: number = parameters?.hca ?? 0;
+  return parameters?.cableId
+    ? fabric.cables.find((c) => c.id === parameters.cableId)
+    : findCable(fabric, {
+        kind: "hca",
+        nodeId,
+        hcaIndex,
+        portNumber:
+          cluster.nodes.find((n) => n.id === nodeId)?.hcas[hcaIndex]?.ports[0]
+            ?.portNumber ?? 1,
+      });
+}
+
+/**
+ * NVLinks of a GPU after an "nvlink-failure" fault: parameters.link names a
+ * link that downshifts to half bandwidth with CRC and replay errors
+ * (parameters.crcErrors, parameters.replayErrors). Without it the links are
+ * left as they are and only the GPU's health degrades.
+ */
+function degradedNvlinks(
+  gpu: GPU | undefined,
+  fault: FaultInjectionConfig,
+): NVLinkConnection[] | undefined {
+  const linkId = fault.parameters?.link;
+  if (!gpu || linkId === undefined) return undefined;
+  return gpu.nvlinks.map((link) =>
+    link.linkId === linkId
+      ? {
+          ...link,
+          speed: link.speed / 2,
+          rxErrors: link.rxErrors + (fault.parameters?.crcErrors ?? 240),
+          replayErrors:
+            link.replayErrors + (fault.parameters?.replayErrors ?? 1500),
+        }
+      : link,
+  );
+}
+
+/**
+ * Subnet managers an "ib-sm" fault stops: every one with parameters.all,
+ * otherwise those on nodeId, or the current master if nodeId runs none.
+ */
+function failedSubnetManagers(
+  cluster: ClusterConfig,
+  fault: FaultInjectionConfig,
+): string[] {
+  const { subnetManagers } = getFabric(cluster);
+  if (fault.parameters?.all) return subnetManagers.map((sm) => sm.id);
+  const onNode = subnetManagers.filter((sm) => sm.nodeId === fault.nodeId);
+  const targets =
+    onNode.length > 0
+      ? onNode
+      : subnetManagers.filter((sm) => sm.state === "Master");
+  if (targets.length === 0) {
+    logger.warn(`ib-sm fault found no subnet manager for ${fault.nodeId}`);
+  }
+  return targets.map((sm) => sm.id);
+}
+
+/**
+ * Fabric update for a "fabric-manager" fault: parameters.version installs
+ * that Fabric Manager version, which fails to start unless it matches the
+ * driver; without it Fabric Manager is simply stopped.
+ */
+function fabricManagerFaultUpdate(
+  cluster: ClusterConfig,
+  fault: FaultInjectionConfig,
+): NVSwitchFabricUpdate | undefined {
+  const node = cluster.nodes.find((n) => n.id === fault.nodeId);
+  if (!node) {
+    logger.warn(`fabric-manager fault target not found: ${fault.nodeId}`);
+    return undefined;
+  }
+  const now = simulationClock.now();
+  const version = fault.parameters?.version as string | undefined;
+  return version
+    ? planFabricManagerInstall(node, version, now).update
+    : planFabricManagerStop(node, now).update;
+}
+
+/**
+ * Package update for a "driver-package" fault: parameters.install and
+ * parameters.remove are space-separated packages to install or remove the
+ * way apt would, and parameters.nouveau leaves nouveau loaded in place of
+ * the NVIDIA module, as after a boot without the blacklist.
+ */
+function driverPackageFaultUpdate(
+  cluster: ClusterConfig,
+  fault: FaultInjectionConfig,
+): NodePackageUpdate | undefined {
+  const node = cluster.nodes.find((n) => n.id === fault.nodeId);
+  if (!node) {
+    logger.warn(`driver-package fault target not found: ${fault.nodeId}`);
+    return undefined;
+  }
+  const now = simulationClock.now();
+  const packages = (key: string) =>
+    String(fault.parameters?.[key] ?? "")
+      .split(/\s+/)
+      .filter(Boolean);
+  const plan = fault.parameters?.nouveau
+    ? planNouveauEnabled(node)
+    : fault.parameters?.remove
+      ? planPackageRemoval(node, packages("remove"), now)
+      : planPackageInstall(node, packages("install"), now);
+  if (!plan.update) {
+    logger.warn(`driver-package fault changed nothing: ${plan.error ?? ""}`);
+  }
+  return plan.update;
+}
+
+/**
+ * Firmware update for a "firmware-flash" fault: parameters.component (an id
+ * such as HCA0, or a type such as bmc; the BMC by default) is left with a
+ * flash in parameters.status: "interrupted" (the default), "failed",
+ * "pending", or "running" for a component left on parameters.version.
+ */
+function firmwareFaultUpdate(
+  cluster: ClusterConfig,
+  fault: FaultInjectionConfig,
+): NodeFirmwareUpdate | undefined {
+  const node = cluster.nodes.find((n) => n.id === fault.nodeId);
+  if (!node) {
+    logger.warn(`firmware-flash fault target not found: ${fault.nodeId}`);
+    return undefined;
+  }
+  const plan = planFirmwareFault(
+    node,
+    fault.parameters?.component ?? "BMC",
+    fault.parameters?.status ?? "interrupted",
+    simulationClock.now(),
+    fault.parameters?.version,
+  );
+  if (!plan.update) {
+    logger.warn(`firmware-flash fault changed nothing: ${plan.error ?? ""}`);
+  }
+  return plan.update;
+}
+
 /**
  * Applies scenario faults to the cluster
  */
@@ -150,8 +380,13 @@ export function applyScenarioFaults(faults: FaultInjectionConfig[]): void {
 
       case "nvlink-failure":
         if (gpuId !== undefined) {
+          const gpu = store.cluster.nodes
+            .find((n) => n.id === nodeId)
+            ?.gpus.find((g) => g.id === gpuId);
+          const nvlinks = degradedNvlinks(gpu, fault);
           store.updateGPU(nodeId, gpuId, {
             healthStatus: "Warning",
+            ...(nvlinks && { nvlinks }),
           });
         }
         break;
@@ -180,6 +415,37 @@ export function applyScenarioFaults(faults: FaultInjectionConfig[]): void {
         }
         break;
 
+      case "ib-cable":
+      case "ib-switch-port":
+        for (const { end, update } of ibFaultChanges(store.cluster, fault)) {
+          store.updateIBPort(end, update);
+        }
+        break;
+
+      case "ib-sm":
+        for (const smId of failedSubnetManagers(store.cluster, fault)) {
+          store.updateSubnetManager(smId, { running: false });
+        }
+        break;
+
+      case "fabric-manager": {
+        const update = fabricManagerFaultUpdate(store.cluster, fault);
+        if (update) store.updateNVSwitchFabric(nodeId, update);
+        break;
+      }
+
+      case "driver-package": {
+        const update = driverPackageFaultUpdate(store.cluster, fault);
+        if (update) store.updateNodePackages(nodeId, update);
+        break;
+      }
+
+      case "firmware-flash": {
+        const update = firmwareFaultUpdate(store.cluster, fault);
+        if (update) store.updateNodeFirmware(nodeId, update);
+        break;
+      }
+
       default:
         logger.warn(`Unknown fault type: ${type}`);
     }
@@ -234,8 +500,13 @@ export function applyFaultsToContext(
 
       case "nvlink-failure":
         if (gpuId !== undefined) {
+          const nvlinks = degradedNvlinks(
+            context.getGPU(nodeId, gpuId),
+            fault,
+          );
           context.updateGPU(nodeId, gpuId, {
             healthStatus: "Warning",
+            ...(nvlinks && { nvlinks }),
           });
         }
         break;
@@ -381,16 +652,151 @@ export function applyFaultsToContext(
           );
           break;
         }
+        if (serviceName.replace(/\.service$/, "") === FABRIC_MANAGER_UNIT) {
+          const node = context.getNode(nodeId);
+          const now = simulationClock.now();
+          const update =
+            node &&
+            (rawState === "active"
+              ? planFabricManagerStart(node, now)
+              : planFabricManagerStop(node, now)
+            ).update;
+          if (update) context.updateNVSwitchFabric(nodeId, update);
+          break;
+        }
         context.setServiceState(nodeId, serviceName, rawState);
         break;
       }
 
+      case "container-toolkit-missing": {
+        if (!nodeId) {
+          logger.warn("container-toolkit-missing fault missing required nodeId");
+          break;
+        }
+        context.getContainerRuntime().setToolkitInstalled(nodeId, false);
+        break;
+      }
+
+      case "ib-cable":
+      case "ib-switch-port":
+        for (const { end, update } of ibFaultChanges(
+          context.getCluster(),
+          fault,
+        )) {
+          context.updateIBPort(end, update);
+        }
+        break;
+
+      case "ib-sm":
+        for (const smId of failedSubnetManagers(context.getCluster(), fault)) {
+          context.updateSubnetManager(smId, { running: false });
+        }
+        break;
+
+      case "fabric-manager": {
+        const update = fabricManagerFaultUpdate(context.getCluster(), fault);
+        if (update) context.updateNVSwitchFabric(nodeId, update);
+        break;
+      }
+
+      case "driver-package": {
+        const update = driverPackageFaultUpdate(context.getCluster(), fault);
+        if (update) context.updateNodePackages(nodeId, update);
+        break;
+      }
+
+      case "firmware-flash": {
+        const update = firmwareFaultUpdate(context.getCluster(), fault);
+        if (update) context.updateNodeFirmware(nodeId, update);
+        break;
+      }
+
       default:
         logger.warn(`Unknown fault type: ${type}`);
     }
   });
 }
 
+/**
+ * Clears faults from a ScenarioContext, undoing what applyFaultsToContext
+ * did for them: the fixed hardware reads healthy again. Slurm states and
+ * driver packages are left as they are, since the commands that fix them
+ * change them themselves.
+ */
+export function clearFaultsFromContext(
+  faults: FaultInjectionConfig[],
+  context: ScenarioContext,
+): void {
+  faults.forEach((fault) => {
+    const { nodeId, gpuId, type, parameters } = fault;
+    const gpu = gpuId !== undefined ? context.getGPU(nodeId, gpuId) : undefined;
+
+    switch (type) {
+      case "xid-error":
+        if (gpu) {
+          const code = parameters?.xid || 79;
+          context.updateGPU(nodeId, gpu.id, {
+            xidErrors: gpu.xidErrors.filter((x) => x.code !== code),
+          });
+        }
+        break;
+
+      case "thermal":
+        if (gpu) context.updateGPU(nodeId, gpu.id, { temperature: 45 });
+        break;
+
+      case "ecc-error":
+        if (gpu) {
+          context.updateGPU(nodeId, gpu.id, {
+            eccErrors: { ...gpu.eccErrors, singleBit: 0, doubleBit: 0 },
+          });
+        }
+        break;
+
+      case "nvlink-failure":
+        if (gpu) {
+          // The degraded link trains back up to the speed of the others
+          const speed = Math.max(...gpu.nvlinks.map((l) => l.speed));
+          context.updateGPU(nodeId, gpu.id, {
+            healthStatus: "OK",
+            nvlinks: gpu.nvlinks.map((link) =>
+              link.linkId === parameters?.link
+                ? { ...link, speed, txErrors: 0, rxErrors: 0, replayErrors: 0 }
+                : link,
+            ),
+          });
+        }
+        break;
+
+      case "gpu-hang":
+      case "driver-error":
+      case "pcie-error":
+        if (gpu) context.updateGPU(nodeId, gpu.id, { healthStatus: "OK" });
+        break;
+
+      case "power":
+        if (gpu) context.updateGPU(nodeId, gpu.id, { powerDraw: 300 });
+        break;
+
+      case "ib-cable":
+      case "ib-switch-port": {
+        const cable = faultedCable(context.getCluster(), fault);
+        if (!cable) break;
+        for (const { end, update } of cableRepairChanges(
+          context.getCluster(),
+          cable,
+        )) {
+          context.updateIBPort(end, update);
+        }
+        break;
+      }
+
+      default:
+        break;
+    }
+  });
+}
+
 /**
  * Clears all faults and resets cluster to healthy state
  */
@@ -8,6 +8,7 @@
 import type { ScenarioStep } from "@/types/scenarios";
 import type { CommandContext } from "@/types/commands";
 import type { ValidationRule, ValidationResult } from "@/types/validation";
+import { evaluateStateAssertions } from "./stateAssertions";
 
 /**
  * Expand $(command) shell substitutions to fixed values so that
@@ -258,6 +259,7 @@ export class ScenarioValidator {
           requireAllCommands: rule.requireAllCommands || false,
           // Use step.expectedCommands when requireAllCommands is true (what user sees in UI)
           expectedCommands: commandsToValidate,
+          assertions: rule.assertions,
         };
       });
     }
@@ -533,6 +535,23 @@ export class ScenarioValidator {
     rule: ValidationRule,
     context: CommandContext,
   ): { ruleId: string; passed: boolean; message?: string } {
+    if (rule.assertions && rule.assertions.length > 0) {
+      const cluster = context.scenarioContext?.getCluster();
+      if (!cluster) {
+        return {
+          ruleId: rule.id,
+          passed: false,
+          message: "No active scenario to check the state of",
+        };
+      }
+      const result = evaluateStateAssertions(
+        rule.assertions,
+        cluster,
+        context.currentNode,
+      );
+      return { ruleId: rule.id, ...result };
+    }
+
     if (!rule.stateCheck) {
       return {
         ruleId: rule.id,
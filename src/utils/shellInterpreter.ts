@@ -0,0 +1,1601 @@
+/**
+ * Shell Interpreter
+ *
+ * A small bash-compatible layer that sits between the terminal and the
+ * command router. It owns everything on a command line that belongs to the
+ * shell rather than to an individual tool:
+ *
+ * - Lists: `;`, `&&`, `||` and `!` negation
+ * - Pipelines: `|` (downstream filters are applied via pipeHandler)
+ * - Redirection: `>`, `>>`, `<`, `2>`, `2>>`, `2>&1`, `&>`
+ * - Here-documents: `<<EOF` and `<<-EOF` (a quoted delimiter disables
+ *   expansion of the body)
+ * - Expansion: `$VAR`, `${VAR}`, `${VAR:-default}`, `$?`, `$$`, `~`,
+ *   `$(...)` and backtick command substitution
+ * - Quoting: single quotes, double quotes and backslash escapes
+ * - Compound commands: `for NAME in WORDS; do ...; done` and
+ *   `if LIST; then ...; elif LIST; then ...; else ...; fi`
+ *
+ * Every simple command is expanded into a plain command line and handed to
+ * `ShellIO.execute`, so tools still run through the normal simulators.
+ *
+ * Simulator results carry a single output stream, so the interpreter treats
+ * the output of a command that exits non-zero as stderr and everything else
+ * as stdout when deciding where a redirection sends it.
+ */
+
+import type { CommandContext, CommandResult } from "@/types/commands";
+import { applyPipeStage } from "@/utils/pipeHandler";
+
+// ============================================================================
+// AST
+// ============================================================================
+
+/** A fragment of a shell word, tagged with how it must be expanded. */
+export type WordPart =
+  | { kind: "literal"; text: string; quoted: boolean }
+  | { kind: "variable"; name: string; fallback?: string; quoted: boolean }
+  | { kind: "substitution"; source: string; quoted: boolean };
+
+export interface ShellWord {
+  parts: WordPart[];
+}
+
+export interface Redirection {
+  /** File descriptor being redirected (1 = stdout, 2 = stderr, 0 = stdin) */
+  fd: 0 | 1 | 2;
+  /** Both stdout and stderr (`&>` / `&>>`) */
+  both?: boolean;
+  append: boolean;
+  /** Target file for `>`, `>>` and `<` */
+  target?: ShellWord;
+  /** Here-document body, fed to stdin in place of a file */
+  heredoc?: ShellWord;
+  /** Duplicate another descriptor instead of opening a file (`2>&1`) */
+  duplicate?: 1 | 2;
+}
+
+export interface SimpleCommand {
+  type: "simple";
+  assignments: Array<{ name: string; value: ShellWord }>;
+  words: ShellWord[];
+  redirections: Redirection[];
+}
+
+export interface ForCommand {
+  type: "for";
+  variable: string;
+  items: ShellWord[];
+  body: ShellList;
+}
+
+export interface IfCommand {
+  type: "if";
+  clauses: Array<{ condition: ShellList; body: ShellList }>;
+  elseBody?: ShellList;
+}
+
+export type ShellCommand = SimpleCommand | ForCommand | IfCommand;
+
+export interface Pipeline {
+  /** The pipeline exactly as typed, before expansion */
+  source: string;
+  negated: boolean;
+  commands: ShellCommand[];
+}
+
+export interface AndOrList {
+  first: Pipeline;
+  rest: Array<{ operator: "&&" | "||"; pipeline: Pipeline }>;
+}
+
+export type ShellList = AndOrList[];
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type Token =
+  | {
+      type: "word";
+      word: ShellWord;
+      keyword?: string;
+      /** Offsets of the word in the source line */
+      start: number;
+      end: number;
+    }
+  | { type: "op"; op: ";" | "&&" | "||" | "|" | "&" | "(" | ")" }
+  | RedirectToken;
+
+interface RedirectToken {
+  type: "redirect";
+  fd: 0 | 1 | 2;
+  both?: boolean;
+  append: boolean;
+  duplicate?: 1 | 2;
+  /** Filled in once the here-document body has been read */
+  heredoc?: ShellWord;
+}
+
+/** A `<<` operator whose body starts after the next newline */
+interface PendingHereDocument {
+  token: RedirectToken;
+  delimiter: string;
+  /** `<<-` strips leading tabs from body lines and the delimiter */
+  stripTabs: boolean;
+  /** A quoted delimiter leaves the body unexpanded */
+  quoted: boolean;
+}
+
+const RESERVED_WORDS = new Set([
+  "for",
+  "in",
+  "do",
+  "done",
+  "if",
+  "then",
+  "elif",
+  "else",
+  "fi",
+  "!",
+]);
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*/;
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+
+/** Maximum nesting of `$(...)` before the interpreter refuses to recurse */
+const MAX_SUBSTITUTION_DEPTH = 16;
+
+class ShellLexer {
+  private pos = 0;
+  private parts: WordPart[] = [];
+  private inWord = false;
+  private wordStart = 0;
+  private pendingHereDocuments: PendingHereDocument[] = [];
+  readonly tokens: Token[] = [];
+  error: string | null = null;
+  /** Set when input ended before a here-document delimiter was seen */
+  unterminatedHereDocument = false;
+
+  constructor(private readonly input: string) {}
+
+  run(): Token[] {
+    while (this.pos < this.input.length && !this.error) {
+      const ch = this.input[this.pos];
+      if (!this.inWord) this.wordStart = this.pos;
+
+      if (ch === " " || ch === "\t") {
+        this.endWord();
+        this.pos++;
+      } else if (ch === "\n" || ch === ";") {
+        this.endWord();
+        this.tokens.push({ type: "op", op: ";" });
+        this.pos++;
+        if (ch === "\n") this.readHereDocuments();
+      } else if (ch === "#" && !this.inWord) {
+        // Comment runs to end of line
+        while (this.pos < this.input.length && this.input[this.pos] !== "\n") {
+          this.pos++;
+        }
+      } else if (ch === "&" || ch === "|") {
+        this.lexControlOperator(ch);
+      } else if (ch === "(" || ch === ")") {
+        this.endWord();
+        this.tokens.push({ type: "op", op: ch });
+        this.pos++;
+      } else if (ch === ">" || ch === "<") {
+        this.lexRedirect(ch);
+      } else if (ch === "'") {
+        this.lexSingleQuoted();
+      } else if (ch === '"') {
+        this.lexDoubleQuoted();
+      } else if (ch === "\\") {
+        const next = this.input[this.pos + 1];
+        this.pos += 2;
+        if (next !== undefined && next !== "\n") {
+          this.pushLiteral(next, true);
+        }
+      } else if (ch === "$") {
+        this.lexDollar(false);
+      } else if (ch === "`") {
+        this.lexBacktick(false);
+      } else if (ch === "~" && !this.inWord) {
+        this.inWord = true;
+        this.parts.push({ kind: "variable", name: "HOME", quoted: true });
+        this.pos++;
+      } else {
+        this.pushLiteral(ch, false);
+        this.pos++;
+      }
+    }
+
+    this.endWord();
+    if (this.pendingHereDocuments.length > 0 && !this.error) {
+      this.unterminatedHereDocument = true;
+      this.readHereDocuments();
+    }
+    return this.tokens;
+  }
+
+  /**
+   * Lex the body of a here-document: like double quotes, except that `"`
+   * is literal and the text runs to the end of the input.
+   */
+  lexHereDocumentBody(): ShellWord {
+    this.inWord = true;
+    while (this.pos < this.input.length && !this.error) {
+      const ch = this.input[this.pos];
+      if (ch === "\\") {
+        const next = this.input[this.pos + 1];
+        if (next === "\n") {
+          this.pos += 2;
+        } else if (next === "\\" || next === "$" || next === "`") {
+          this.pushLiteral(next, true);
+          this.pos += 2;
+        } else {
+          this.pushLiteral("\\", true);
+          this.pos++;
+        }
+      } else if (ch === "$") {
+        this.lexDollar(true);
+      } else if (ch === "`") {
+        this.lexBacktick(true);
+      } else {
+        this.pushLiteral(ch, true);
+        this.pos++;
+      }
+    }
+    return { parts: this.parts };
+  }
+
+  private pushLiteral(text: string, quoted: boolean): void {
+    this.inWord = true;
+    const last = this.parts[this.parts.length - 1];
+    if (last && last.kind === "literal" && last.quoted === quoted) {
+      last.text += text;
+    } else {
+      this.parts.push({ kind: "literal", text, quoted });
+    }
+  }
+
+  private endWord(): void {
+    if (!this.inWord) return;
+    const word: ShellWord = { parts: this.parts };
+    const only = this.parts.length === 1 ? this.parts[0] : undefined;
+    const keyword =
+      only && only.kind === "literal" && !only.quoted
+        ? RESERVED_WORDS.has(only.text)
+          ? only.text
+          : undefined
+        : undefined;
+    this.tokens.push({
+      type: "word",
+      word,
+      keyword,
+      start: this.wordStart,
+      end: this.pos,
+    });
+    this.parts = [];
+    this.inWord = false;
+  }
+
+  private lexControlOperator(ch: "&" | "|"): void {
+    const next = this.input[this.pos + 1];
+
+    // `&>` and `&>>` redirect both streams
+    if (ch === "&" && next === ">") {
+      this.endWord();
+      const append = this.input[this.pos + 2] === ">";
+      this.tokens.push({ type: "redirect", fd: 1, both: true, append });
+      this.pos += append ? 3 : 2;
+      return;
+    }
+
+    this.endWord();
+    if (next === ch) {
+      this.tokens.push({ type: "op", op: ch === "&" ? "&&" : "||" });
+      this.pos += 2;
+    } else {
+      this.tokens.push({ type: "op", op: ch });
+      this.pos++;
+    }
+  }
+
+  private lexRedirect(ch: ">" | "<"): void {
+    // A bare unquoted digit immediately before the operator names the fd
+    let fd: 0 | 1 | 2 = ch === "<" ? 0 : 1;
+    const last = this.parts[this.parts.length - 1];
+    if (
+      this.parts.length === 1 &&
+      last.kind === "literal" &&
+      !last.quoted &&
+      /^[012]$/.test(last.text)
+    ) {
+      fd = Number(last.text) as 0 | 1 | 2;
+      this.parts = [];
+      this.inWord = false;
+    } else {
+      this.endWord();
+    }
+
+    this.pos++;
+    if (ch === "<" && this.input[this.pos] === "<") {
+      this.lexHereDocumentOperator(fd);
+      return;
+    }
+    if (ch === "<") {
+      this.tokens.push({ type: "redirect", fd, append: false });
+      return;
+    }
+
+    let append = false;
+    if (this.input[this.pos] === ">") {
+      append = true;
+      this.pos++;
+    }
+
+    // `>&1` / `2>&1` duplicate an existing descriptor
+    if (!append && this.input[this.pos] === "&") {
+      const target = this.input[this.pos + 1];
+      if (target === "1" || target === "2") {
+        this.tokens.push({
+          type: "redirect",
+          fd,
+          append: false,
+          duplicate: Number(target) as 1 | 2,
+        });
+        this.pos += 2;
+        return;
+      }
+    }
+
+    this.tokens.push({ type: "redirect", fd, append });
+  }
+
+  /** Lex `<<DELIM` / `<<-DELIM`; the body is read at the next newline */
+  private lexHereDocumentOperator(fd: 0 | 1 | 2): void {
+    this.pos++;
+    const stripTabs = this.input[this.pos] === "-";
+    if (stripTabs) this.pos++;
+    while (this.input[this.pos] === " " || this.input[this.pos] === "\t") {
+      this.pos++;
+    }
+
+    // The delimiter is a word with its quotes removed and nothing expanded
+    let delimiter = "";
+    let quoted = false;
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos];
+      if (/[\s;|&<>()]/.test(ch)) break;
+      if (ch === "'" || ch === '"') {
+        const end = this.input.indexOf(ch, this.pos + 1);
+        if (end === -1) {
+          this.error = `unexpected EOF while looking for matching \`${ch}'`;
+          return;
+        }
+        delimiter += this.input.slice(this.pos + 1, end);
+        quoted = true;
+        this.pos = end + 1;
+      } else if (ch === "\\") {
+        delimiter += this.input[this.pos + 1] ?? "";
+        quoted = true;
+        this.pos += 2;
+      } else {
+        delimiter += ch;
+        this.pos++;
+      }
+    }
+    if (!delimiter && !quoted) {
+      this.error = "syntax error near unexpected token `newline'";
+      return;
+    }
+
+    const token: RedirectToken = { type: "redirect", fd, append: false };
+    this.tokens.push(token);
+    this.pendingHereDocuments.push({ token, delimiter, stripTabs, quoted });
+  }
+
+  /** Consume the bodies of pending here-documents, in order */
+  private readHereDocuments(): void {
+    for (const pending of this.pendingHereDocuments) {
+      const lines: string[] = [];
+      let terminated = false;
+      while (this.pos < this.input.length) {
+        let end = this.input.indexOf("\n", this.pos);
+        if (end === -1) end = this.input.length;
+        let line = this.input.slice(this.pos, end);
+        this.pos = end + 1;
+        if (pending.stripTabs) line = line.replace(/^\t+/, "");
+        if (line === pending.delimiter) {
+          terminated = true;
+          break;
+        }
+        lines.push(line);
+      }
+      if (!terminated) {
+        this.unterminatedHereDocument = true;
+        this.pos = this.input.length;
+      }
+
+      const body = lines.map((line) => `${line}\n`).join("");
+      if (pending.quoted) {
+        pending.token.heredoc = {
+          parts: [{ kind: "literal", text: body, quoted: true }],
+        };
+      } else {
+        const bodyLexer = new ShellLexer(body);
+        pending.token.heredoc = bodyLexer.lexHereDocumentBody();
+        if (bodyLexer.error) this.error = bodyLexer.error;
+      }
+    }
+    this.pendingHereDocuments = [];
+  }
+
+  private lexSingleQuoted(): void {
+    const end = this.input.indexOf("'", this.pos + 1);
+    if (end === -1) {
+      this.error = "unexpected EOF while looking for matching `''";
+      return;
+    }
+    this.pushLiteral(this.input.slice(this.pos + 1, end), true);
+    this.pos = end + 1;
+  }
+
+  private lexDoubleQuoted(): void {
+    this.inWord = true;
+    this.pos++;
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        // Ensure "" still produces an (empty) quoted word
+        this.pushLiteral("", true);
+        return;
+      }
+      if (ch === "\\") {
+        const next = this.input[this.pos + 1];
+        if (next === '"' || next === "\\" || next === "$" || next === "`") {
+          this.pushLiteral(next, true);
+          this.pos += 2;
+        } else {
+          this.pushLiteral("\\", true);
+          this.pos++;
+        }
+      } else if (ch === "$") {
+        this.lexDollar(true);
+        if (this.error) return;
+      } else if (ch === "`") {
+        this.lexBacktick(true);
+        if (this.error) return;
+      } else {
+        this.pushLiteral(ch, true);
+        this.pos++;
+      }
+    }
+    this.error = "unexpected EOF while looking for matching `\"'";
+  }
+
+  private lexDollar(quoted: boolean): void {
+    const next = this.input[this.pos + 1];
+
+    if (next === "(") {
+      const end = findClosingParen(this.input, this.pos + 2);
+      if (end === -1) {
+        this.error = "unexpected EOF while looking for matching `)'";
+        return;
+      }
+      this.inWord = true;
+      this.parts.push({
+        kind: "substitution",
+        source: this.input.slice(this.pos + 2, end),
+        quoted,
+      });
+      this.pos = end + 1;
+      return;
+    }
+
+    if (next === "{") {
+      const end = this.input.indexOf("}", this.pos + 2);
+      if (end === -1) {
+        this.error = "unexpected EOF while looking for matching `}'";
+        return;
+      }
+      const body = this.input.slice(this.pos + 2, end);
+      const match = body.match(/^([A-Za-z_][A-Za-z0-9_]*|\?|\$)(?::-(.*))?$/s);
+      if (!match) {
+        this.error = `\${${body}}: bad substitution`;
+        return;
+      }
+      this.inWord = true;
+      this.parts.push({
+        kind: "variable",
+        name: match[1],
+        fallback: match[2],
+        quoted,
+      });
+      this.pos = end + 1;
+      return;
+    }
+
+    if (next === "?" || next === "$" || next === "#" || /[0-9]/.test(next)) {
+      this.inWord = true;
+      this.parts.push({ kind: "variable", name: next, quoted });
+      this.pos += 2;
+      return;
+    }
+
+    const name = this.input.slice(this.pos + 1).match(VARIABLE_NAME);
+    if (name) {
+      this.inWord = true;
+      this.parts.push({ kind: "variable", name: name[0], quoted });
+      this.pos += 1 + name[0].length;
+      return;
+    }
+
+    // A lone `$` is literal
+    this.pushLiteral("$", quoted);
+    this.pos++;
+  }
+
+  private lexBacktick(quoted: boolean): void {
+    const end = this.input.indexOf("`", this.pos + 1);
+    if (end === -1) {
+      this.error = "unexpected EOF while looking for matching ``'";
+      return;
+    }
+    this.inWord = true;
+    this.parts.push({
+      kind: "substitution",
+      source: this.input.slice(this.pos + 1, end),
+      quoted,
+    });
+    this.pos = end + 1;
+  }
+}
+
+/**
+ * Find the `)` that closes a `$(` opened just before `start`, skipping over
+ * quoted text and nested parentheses.
+ */
+function findClosingParen(input: string, start: number): number {
+  let depth = 1;
+  let quote: "'" | '"' | null = null;
+  for (let i = start; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      if (ch === "\\" && quote === '"') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "\\") {
+      i++;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class ShellParser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly input: string,
+  ) {}
+
+  parseScript(): ShellList {
+    const list = this.parseList(new Set());
+    const leftover = this.peek();
+    if (leftover) {
+      throw new Error(this.describe(leftover));
+    }
+    return list;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private describe(token: Token | undefined): string {
+    if (!token) return "newline";
+    if (token.type === "op") return token.op;
+    if (token.type === "redirect") {
+      if (token.heredoc) return "<<";
+      return token.fd === 0 ? "<" : ">";
+    }
+    return wordToText(token.word);
+  }
+
+  private isKeyword(token: Token | undefined, ...keywords: string[]): boolean {
+    return (
+      token?.type === "word" &&
+      token.keyword !== undefined &&
+      keywords.includes(token.keyword)
+    );
+  }
+
+  private isSeparator(token: Token | undefined): boolean {
+    return token?.type === "op" && (token.op === ";" || token.op === "&");
+  }
+
+  private skipSeparators(): void {
+    while (this.isSeparator(this.peek())) this.pos++;
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.peek();
+    if (!this.isKeyword(token, keyword)) {
+      throw new Error(this.describe(token));
+    }
+    this.pos++;
+  }
+
+  /**
+   * Parse and-or lists separated by `;`/`&`/newlines until EOF or one of the
+   * given reserved words appears in command position.
+   */
+  private parseList(stopWords: Set<string>): ShellList {
+    const list: ShellList = [];
+    this.skipSeparators();
+    while (this.pos < this.tokens.length) {
+      const token = this.peek();
+      if (
+        token?.type === "word" &&
+        token.keyword &&
+        stopWords.has(token.keyword)
+      ) {
+        break;
+      }
+      list.push(this.parseAndOr());
+      if (!this.isSeparator(this.peek())) break;
+      this.skipSeparators();
+    }
+    return list;
+  }
+
+  private parseAndOr(): AndOrList {
+    const first = this.parsePipeline();
+    const rest: AndOrList["rest"] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token?.type !== "op" || (token.op !== "&&" && token.op !== "||")) {
+        break;
+      }
+      this.pos++;
+      rest.push({ operator: token.op, pipeline: this.parsePipeline() });
+    }
+    return { first, rest };
+  }
+
+  private parsePipeline(): Pipeline {
+    const first = this.pos;
+    let negated = false;
+    if (this.isKeyword(this.peek(), "!")) {
+      negated = true;
+      this.pos++;
+    }
+    const commands = [this.parseCommand()];
+    for (;;) {
+      const token = this.peek();
+      if (token?.type !== "op" || token.op !== "|") break;
+      this.pos++;
+      commands.push(this.parseCommand());
+    }
+
+    const words = this.tokens
+      .slice(first, this.pos)
+      .filter((t): t is Extract<Token, { type: "word" }> => t.type === "word");
+    const source =
+      words.length > 0
+        ? this.input.slice(words[0].start, words[words.length - 1].end)
+        : "";
+    return { source, negated, commands };
+  }
+
+  private parseCommand(): ShellCommand {
+    const token = this.peek();
+    if (this.isKeyword(token, "for")) return this.parseFor();
+    if (this.isKeyword(token, "if")) return this.parseIf();
+    if (token?.type === "word" && token.keyword && token.keyword !== "!") {
+      // Reserved words like `do` or `fi` cannot start a command
+      throw new Error(token.keyword);
+    }
+    return this.parseSimple();
+  }
+
+  private parseSimple(): SimpleCommand {
+    const command: SimpleCommand = {
+      type: "simple",
+      assignments: [],
+      words: [],
+      redirections: [],
+    };
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === "op") break;
+
+      if (token.type === "redirect") {
+        this.pos++;
+        const redirection: Redirection = {
+          fd: token.fd,
+          both: token.both,
+          append: token.append,
+          duplicate: token.duplicate,
+          heredoc: token.heredoc,
+        };
+        if (!token.duplicate && !token.heredoc) {
+          const target = this.peek();
+          if (target?.type !== "word") {
+            throw new Error(this.describe(target));
+          }
+          redirection.target = target.word;
+          this.pos++;
+        }
+        command.redirections.push(redirection);
+        continue;
+      }
+
+      this.pos++;
+      const assignment =
+        command.words.length === 0 ? splitAssignment(token.word) : null;
+      if (assignment) {
+        command.assignments.push(assignment);
+      } else {
+        command.words.push(token.word);
+      }
+    }
+
+    if (
+      command.words.length === 0 &&
+      command.assignments.length === 0 &&
+      command.redirections.length === 0
+    ) {
+      throw new Error(this.describe(this.peek()));
+    }
+    return command;
+  }
+
+  private parseFor(): ForCommand {
+    this.pos++; // for
+    const nameToken = this.peek();
+    const name =
+      nameToken?.type === "word" ? wordToText(nameToken.word) : undefined;
+    if (!name || !VARIABLE_NAME.test(name)) {
+      throw new Error(this.describe(nameToken));
+    }
+    this.pos++;
+
+    const items: ShellWord[] = [];
+    if (this.isKeyword(this.peek(), "in")) {
+      this.pos++;
+      for (;;) {
+        const token = this.peek();
+        if (token?.type !== "word") break;
+        items.push(token.word);
+        this.pos++;
+      }
+    }
+    this.skipSeparators();
+    this.expectKeyword("do");
+    const body = this.parseList(new Set(["done"]));
+    this.expectKeyword("done");
+    return { type: "for", variable: name, items, body };
+  }
+
+  private parseIf(): IfCommand {
+    this.pos++; // if
+    const clauses: IfCommand["clauses"] = [];
+    let elseBody: ShellList | undefined;
+
+    const condition = this.parseList(new Set(["then"]));
+    this.expectKeyword("then");
+    clauses.push({
+      condition,
+      body: this.parseList(new Set(["elif", "else", "fi"])),
+    });
+
+    while (this.isKeyword(this.peek(), "elif")) {
+      this.pos++;
+      const elifCondition = this.parseList(new Set(["then"]));
+      this.expectKeyword("then");
+      clauses.push({
+        condition: elifCondition,
+        body: this.parseList(new Set(["elif", "else", "fi"])),
+      });
+    }
+
+    if (this.isKeyword(this.peek(), "else")) {
+      this.pos++;
+      elseBody = this.parseList(new Set(["fi"]));
+    }
+    this.expectKeyword("fi");
+    return { type: "if", clauses, elseBody };
+  }
+}
+
+/** Render a word back to text without expanding it (for error messages). */
+function wordToText(word: ShellWord): string {
+  return word.parts
+    .map((p) =>
+      p.kind === "literal"
+        ? p.text
+        : p.kind === "variable"
+          ? `$${p.name}`
+          : `$(${p.source})`,
+    )
+    .join("");
+}
+
+/** Split `NAME=value` off the front of a word, if it is an assignment. */
+function splitAssignment(
+  word: ShellWord,
+): { name: string; value: ShellWord } | null {
+  const first = word.parts[0];
+  if (!first || first.kind !== "literal" || first.quoted) return null;
+  const match = first.text.match(ASSIGNMENT);
+  if (!match) return null;
+  const remainder = first.text.slice(match[0].length);
+  const parts: WordPart[] = remainder
+    ? [{ kind: "literal", text: remainder, quoted: false }]
+    : [];
+  parts.push(...word.parts.slice(1));
+  return { name: match[1], value: { parts } };
+}
+
+/**
+ * Parse a command line into a shell AST.
+ * @returns The parsed list, or an error message formatted like bash's
+ */
+export function parseShellScript(input: string): {
+  script?: ShellList;
+  error?: string;
+} {
+  const lexer = new ShellLexer(input);
+  const tokens = lexer.run();
+  if (lexer.error) {
+    return { error: lexer.error };
+  }
+  try {
+    return { script: new ShellParser(tokens, input).parseScript() };
+  } catch (e) {
+    const near = e instanceof Error ? e.message : String(e);
+    return { error: `syntax error near unexpected token \`${near}'` };
+  }
+}
+
+/**
+ * Report whether more lines are needed before a command line can run, i.e.
+ * a here-document has been opened but its delimiter not yet typed.
+ */
+export function isIncompleteShellInput(input: string): boolean {
+  const lexer = new ShellLexer(input);
+  lexer.run();
+  return lexer.unterminatedHereDocument && !lexer.error;
+}
+
+/**
+ * Split a command line into words using shell quoting rules, without
+ * performing any expansion (`$VAR` and `$(...)` are kept verbatim). Useful for builtins that receive a rebuilt
+ * command line (e.g. `ssh host "cmd; cmd"`).
+ */
+export function splitShellWords(input: string): string[] {
+  const lexer = new ShellLexer(input);
+  return lexer
+    .run()
+    .filter((t): t is Extract<Token, { type: "word" }> => t.type === "word")
+    .map((t) => wordToText(t.word));
+}
+
+/**
+ * Quote an argument so that commandParser reads it back as a single token.
+ */
+export function quoteShellArg(arg: string): string {
+  if (arg !== "" && !/[\s'"\\|&;<>()$`]/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/** Strip ANSI color sequences, as tools do when stdout is not a TTY. */
+export function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, "");
+}
+
+// ============================================================================
+// Interpreter
+// ============================================================================
+
+/**
+ * Hooks the interpreter uses to reach the rest of the simulator.
+ */
+export interface ShellIO {
+  /** Run one fully expanded simple command through the simulators */
+  execute(
+    commandLine: string,
+    context: CommandContext,
+  ): CommandResult | Promise<CommandResult>;
+  /**
+   * Write redirected output to a file on the current node.
+   * Returns an error message (e.g. "Permission denied") on failure.
+   */
+  writeFile?(
+    path: string,
+    content: string,
+    append: boolean,
+    context: CommandContext,
+  ): string | null;
+  /** Report whether a path is a file, a directory, or missing */
+  stat?(path: string, context: CommandContext): "file" | "directory" | null;
+  /**
+   * Called once per top-level pipeline with its text as typed and its final
+   * result, so the terminal can record and validate it as a user command.
+   */
+  onPipeline?(
+    commandLine: string,
+    result: CommandResult,
+    context: CommandContext,
+  ): void;
+}
+
+/** Destination for the output a command leaves on the terminal */
+interface ShellOutput {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+interface StreamResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+const EMPTY_RESULT: StreamResult = { stdout: "", stderr: "", exitCode: 0 };
+
+export class ShellInterpreter {
+  private variables: Map<string, string> = new Map();
+  private lastExitCode = 0;
+  private depth = 0;
+
+  constructor(private readonly io: ShellIO) {}
+
+  /**
+   * Parse and run a full command line.
+   * @returns Combined output (stdout and stderr, in order) and final exit code
+   */
+  async run(line: string, context: CommandContext): Promise<CommandResult> {
+    const { script, error } = parseShellScript(line);
+    if (!script) {
+      this.lastExitCode = 2;
+      return { output: `\x1b[31mbash: ${error}\x1b[0m`, exitCode: 2 };
+    }
+
+    // The terminal shows both streams interleaved in order
+    const chunks: string[] = [];
+    const write = (text: string) => chunks.push(text);
+    const result = await this.runList(script, context, {
+      stdout: write,
+      stderr: write,
+    });
+    return { output: joinChunks(chunks), exitCode: result.exitCode };
+  }
+
+  /** Exit status of the most recent pipeline (`$?`) */
+  getLastExitCode(): number {
+    return this.lastExitCode;
+  }
+
+  /** Read a shell variable, falling back to the exported environment */
+  getVariable(name: string, context: CommandContext): string | undefined {
+    switch (name) {
+      case "?":
+        return String(this.lastExitCode);
+      case "$":
+        return "8902"; // PID of the interactive -bash in `ps`
+      case "#":
+        return "0";
+      case "0":
+        return "-bash";
+    }
+    if (/^[1-9]$/.test(name)) return "";
+    return this.variables.get(name) ?? context.environment[name];
+  }
+
+  setVariable(name: string, value: string, context: CommandContext): void {
+    if (name in context.environment) {
+      context.environment[name] = value;
+    } else {
+      this.variables.set(name, value);
+    }
+  }
+
+  /** Forget all non-exported variables and the last exit status */
+  reset(): void {
+    this.variables.clear();
+    this.lastExitCode = 0;
+  }
+
+  // --------------------------------------------------------------------------
+  // Execution
+  // --------------------------------------------------------------------------
+
+  private async runList(
+    list: ShellList,
+    context: CommandContext,
+    out: ShellOutput,
+  ): Promise<StreamResult> {
+    let last: StreamResult = { ...EMPTY_RESULT, exitCode: this.lastExitCode };
+    for (const andOr of list) {
+      last = await this.runPipeline(andOr.first, context, out);
+      for (const { operator, pipeline } of andOr.rest) {
+        const succeeded = last.exitCode === 0;
+        if ((operator === "&&") !== succeeded) continue;
+        last = await this.runPipeline(pipeline, context, out);
+      }
+    }
+    return last;
+  }
+
+  private async runPipeline(
+    pipeline: Pipeline,
+    context: CommandContext,
+    out: ShellOutput,
+  ): Promise<StreamResult> {
+    let stdin: string | undefined;
+    let result: StreamResult = EMPTY_RESULT;
+    let firstExitCode = 0;
+
+    for (let i = 0; i < pipeline.commands.length; i++) {
+      const command = pipeline.commands[i];
+      const isLast = i === pipeline.commands.length - 1;
+      result = await this.runCommand(command, context, out, stdin);
+      if (i === 0) firstExitCode = result.exitCode;
+
+      // stderr of every stage goes straight to the terminal
+      if (result.stderr) out.stderr(result.stderr);
+      if (!isLast) {
+        stdin = result.stdout;
+      }
+    }
+
+    if (result.stdout) out.stdout(result.stdout);
+
+    let exitCode = result.exitCode;
+    if (pipeline.negated) exitCode = exitCode === 0 ? 1 : 0;
+    this.lastExitCode = exitCode;
+
+    // Report commands the user typed; loop/if bodies report their own
+    // pipelines and substitutions are not user commands.
+    const [first] = pipeline.commands;
+    if (
+      this.io.onPipeline &&
+      this.depth === 0 &&
+      first.type === "simple" &&
+      first.words.length > 0 &&
+      firstExitCode !== 127
+    ) {
+      this.io.onPipeline(
+        pipeline.source,
+        { output: result.stdout || result.stderr, exitCode },
+        context,
+      );
+    }
+
+    return { stdout: "", stderr: "", exitCode };
+  }
+
+  private async runCommand(
+    command: ShellCommand,
+    context: CommandContext,
+    out: ShellOutput,
+    stdin: string | undefined,
+  ): Promise<StreamResult> {
+    switch (command.type) {
+      case "for":
+        return this.runFor(command, context, out);
+      case "if":
+        return this.runIf(command, context, out);
+      case "simple":
+        return this.runSimple(command, context, out, stdin);
+    }
+  }
+
+  private async runFor(
+    command: ForCommand,
+    context: CommandContext,
+    out: ShellOutput,
+  ): Promise<StreamResult> {
+    const values: string[] = [];
+    for (const item of command.items) {
+      values.push(...(await this.expandWord(item, context, out)));
+    }
+
+    let last: StreamResult = EMPTY_RESULT;
+    for (const value of values) {
+      this.setVariable(command.variable, value, context);
+      last = await this.runList(command.body, context, out);
+    }
+    return { stdout: "", stderr: "", exitCode: last.exitCode };
+  }
+
+  private async runIf(
+    command: IfCommand,
+    context: CommandContext,
+    out: ShellOutput,
+  ): Promise<StreamResult> {
+    for (const clause of command.clauses) {
+      const condition = await this.runList(clause.condition, context, out);
+      if (condition.exitCode === 0) {
+        return this.runList(clause.body, context, out);
+      }
+    }
+    if (command.elseBody) {
+      return this.runList(command.elseBody, context, out);
+    }
+    return EMPTY_RESULT;
+  }
+
+  private async runSimple(
+    command: SimpleCommand,
+    context: CommandContext,
+    out: ShellOutput,
+    stdin: string | undefined,
+  ): Promise<StreamResult> {
+    const argv: string[] = [];
+    for (const word of command.words) {
+      argv.push(...(await this.expandWord(word, context, out)));
+    }
+
+    // Bare assignments set shell variables
+    if (argv.length === 0) {
+      for (const { name, value } of command.assignments) {
+        const expanded = await this.expandWord(value, context, out, false);
+        this.setVariable(name, expanded.join(""), context);
+      }
+      return this.applyRedirections(command, context, out, EMPTY_RESULT);
+    }
+
+    // Prefix assignments (`FOO=1 cmd`) only apply to that command
+    let commandContext = context;
+    if (command.assignments.length > 0) {
+      const environment = { ...context.environment };
+      for (const { name, value } of command.assignments) {
+        const expanded = await this.expandWord(value, context, out, false);
+        environment[name] = expanded.join("");
+      }
+      commandContext = { ...context, environment };
+    }
+
+    // Input redirection feeds the command like a pipe would
+    for (const redirection of command.redirections) {
+      if (redirection.heredoc) {
+        const body = await this.expandWord(
+          redirection.heredoc,
+          context,
+          out,
+          false,
+        );
+        stdin = body.join("").replace(/\n$/, "");
+        continue;
+      }
+      if (redirection.fd !== 0 || !redirection.target) continue;
+      const [path] = await this.expandWord(redirection.target, context, out);
+      const read = await this.readFile(path ?? "", context);
+      if (read === null) {
+        return {
+          stdout: "",
+          stderr: `bash: ${path}: No such file or directory`,
+          exitCode: 1,
+        };
+      }
+      stdin = read;
+    }
+
+    const result = await this.runArgv(argv, commandContext, stdin);
+    return this.applyRedirections(command, context, out, result);
+  }
+
+  /** Dispatch an expanded argv to a shell builtin, a pipe filter, or IO. */
+  private async runArgv(
+    argv: string[],
+    context: CommandContext,
+    stdin: string | undefined,
+  ): Promise<StreamResult> {
+    const [name, ...args] = argv;
+
+    switch (name) {
+      case "true":
+      case ":":
+        return EMPTY_RESULT;
+      case "false":
+        return { stdout: "", stderr: "", exitCode: 1 };
+      case "test":
+        return this.runTest(args, context);
+      case "[":
+        if (args[args.length - 1] !== "]") {
+          return { stdout: "", stderr: "bash: [: missing `]'", exitCode: 2 };
+        }
+        return this.runTest(args.slice(0, -1), context);
+      case "tee":
+        if (stdin !== undefined) return this.runTee(args, stdin, context);
+        break;
+      case "export":
+        // `export NAME` promotes an existing shell variable
+        argv = argv.map((arg, i) => {
+          const value = this.variables.get(arg);
+          return i > 0 && !arg.includes("=") && value !== undefined
+            ? `${arg}=${value}`
+            : arg;
+        });
+        for (const arg of args) this.variables.delete(arg.split("=")[0]);
+        break;
+      case "unset":
+        for (const arg of args) this.variables.delete(arg);
+        break;
+    }
+
+    // Anything reading stdin is a text filter; unknown ones pass it through
+    if (stdin !== undefined) {
+      return this.runFilter(name, args, stdin);
+    }
+
+    const result = await this.io.execute(
+      argv.map(quoteShellArg).join(" "),
+      context,
+    );
+    return result.exitCode === 0
+      ? { stdout: result.output, stderr: "", exitCode: 0 }
+      : { stdout: "", stderr: result.output, exitCode: result.exitCode };
+  }
+
+  private runFilter(name: string, args: string[], stdin: string): StreamResult {
+    const output = applyPipeStage(stdin, name, args);
+    if (name !== "grep") {
+      return { stdout: output, stderr: "", exitCode: 0 };
+    }
+    const quiet = args.some((a) => /^-[A-Za-z]*q/.test(a) || a === "--quiet");
+    return {
+      stdout: quiet ? "" : output,
+      stderr: "",
+      exitCode: output.length > 0 ? 0 : 1,
+    };
+  }
+
+  private runTee(
+    args: string[],
+    stdin: string,
+    context: CommandContext,
+  ): StreamResult {
+    const append = args.includes("-a") || args.includes("--append");
+    const errors: string[] = [];
+    for (const path of args.filter((a) => !a.startsWith("-"))) {
+      const error = this.writeFile(path, stdin, append, context);
+      if (error) errors.push(`tee: ${path}: ${error}`);
+    }
+    return {
+      stdout: stdin,
+      stderr: errors.join("\n"),
+      exitCode: errors.length > 0 ? 1 : 0,
+    };
+  }
+
+  /** Evaluate a `test` / `[ ... ]` expression */
+  private async runTest(
+    args: string[],
+    context: CommandContext,
+  ): Promise<StreamResult> {
+    const status = (ok: boolean): StreamResult => ({
+      stdout: "",
+      stderr: "",
+      exitCode: ok ? 0 : 1,
+    });
+
+    if (args[0] === "!") {
+      const inner = await this.runTest(args.slice(1), context);
+      return inner.exitCode > 1 ? inner : status(inner.exitCode !== 0);
+    }
+
+    if (args.length === 0) return status(false);
+    if (args.length === 1) return status(args[0] !== "");
+
+    if (args.length === 2) {
+      const [op, operand] = args;
+      switch (op) {
+        case "-z":
+          return status(operand === "");
+        case "-n":
+          return status(operand !== "");
+        case "-e":
+          return status((await this.statPath(operand, context)) !== null);
+        case "-f":
+          return status((await this.statPath(operand, context)) === "file");
+        case "-d":
+          return status(
+            (await this.statPath(operand, context)) === "directory",
+          );
+        case "-s": {
+          const content = await this.readFile(operand, context);
+          return status(content !== null && content.length > 0);
+        }
+      }
+    }
+
+    if (args.length === 3) {
+      const [left, op, right] = args;
+      const numeric = (fn: (a: number, b: number) => boolean): StreamResult => {
+        const a = Number(left);
+        const b = Number(right);
+        if (!Number.isInteger(a) || !Number.isInteger(b)) {
+          const bad = Number.isInteger(a) ? right : left;
+          return {
+            stdout: "",
+            stderr: `bash: test: ${bad}: integer expression expected`,
+            exitCode: 2,
+          };
+        }
+        return status(fn(a, b));
+      };
+      switch (op) {
+        case "=":
+        case "==":
+          return status(left === right);
+        case "!=":
+          return status(left !== right);
+        case "-eq":
+          return numeric((a, b) => a === b);
+        case "-ne":
+          return numeric((a, b) => a !== b);
+        case "-gt":
+          return numeric((a, b) => a > b);
+        case "-ge":
+          return numeric((a, b) => a >= b);
+        case "-lt":
+          return numeric((a, b) => a < b);
+        case "-le":
+          return numeric((a, b) => a <= b);
+      }
+    }
+
+    return {
+      stdout: "",
+      stderr: `bash: test: ${args.join(" ")}: unary or binary operator expected`,
+      exitCode: 2,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Redirection
+  // --------------------------------------------------------------------------
+
+  /**
+   * Route a command's streams according to its redirections. Redirections
+   * are processed left to right against a descriptor table, so
+   * `> file 2>&1` captures both streams while `2>&1 > file` does not.
+   */
+  private async applyRedirections(
+    command: SimpleCommand,
+    context: CommandContext,
+    out: ShellOutput,
+    result: StreamResult,
+  ): Promise<StreamResult> {
+    type Sink =
+      | { kind: "terminal"; fd: 1 | 2 }
+      | { kind: "file"; path: string; append: boolean };
+
+    const fds: Record<1 | 2, Sink> = {
+      1: { kind: "terminal", fd: 1 },
+      2: { kind: "terminal", fd: 2 },
+    };
+    const opened: Array<Extract<Sink, { kind: "file" }>> = [];
+
+    for (const redirection of command.redirections) {
+      if (redirection.fd === 0) continue;
+
+      if (redirection.duplicate) {
+        fds[redirection.fd] = fds[redirection.duplicate];
+        continue;
+      }
+
+      const [path] = redirection.target
+        ? await this.expandWord(redirection.target, context, out)
+        : [];
+      if (!path) {
+        return {
+          stdout: "",
+          stderr: "bash: ambiguous redirect",
+          exitCode: 1,
+        };
+      }
+
+      const sink = { kind: "file" as const, path, append: redirection.append };
+      opened.push(sink);
+      if (redirection.both) {
+        fds[1] = sink;
+        fds[2] = sink;
+      } else {
+        fds[redirection.fd] = sink;
+      }
+    }
+
+    // Every opened file is created (or truncated), even if nothing is written
+    for (const sink of opened) {
+      const content = joinChunks([
+        fds[1] === sink ? result.stdout : "",
+        fds[2] === sink ? result.stderr : "",
+      ]);
+      if (sink.append && content === "") continue;
+      const error = this.writeFile(sink.path, content, sink.append, context);
+      if (error) {
+        return {
+          stdout: "",
+          stderr: `bash: ${sink.path}: ${error}`,
+          exitCode: 1,
+        };
+      }
+    }
+
+    const routed: StreamResult = {
+      stdout: "",
+      stderr: "",
+      exitCode: result.exitCode,
+    };
+    for (const fd of [1, 2] as const) {
+      const sink = fds[fd];
+      const text = fd === 1 ? result.stdout : result.stderr;
+      if (sink.kind === "terminal" && text) {
+        const stream = sink.fd === 1 ? "stdout" : "stderr";
+        routed[stream] = joinChunks([routed[stream], text]);
+      }
+    }
+    return routed;
+  }
+
+  private writeFile(
+    path: string,
+    content: string,
+    append: boolean,
+    context: CommandContext,
+  ): string | null {
+    if (path === "/dev/null") return null;
+    if (!this.io.writeFile) return "Read-only file system";
+    // Files hold plain text; line separation is the file owner's concern
+    const data = stripAnsi(content).replace(/\n+$/, "");
+    return this.io.writeFile(path, data, append, context);
+  }
+
+  private async readFile(
+    path: string,
+    context: CommandContext,
+  ): Promise<string | null> {
+    if (path === "/dev/null") return "";
+    const result = await this.io.execute(`cat ${quoteShellArg(path)}`, context);
+    return result.exitCode === 0 ? stripAnsi(result.output) : null;
+  }
+
+  private async statPath(
+    path: string,
+    context: CommandContext,
+  ): Promise<"file" | "directory" | null> {
+    if (this.io.stat) return this.io.stat(path, context);
+    return (await this.readFile(path, context)) !== null ? "file" : null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Expansion
+  // --------------------------------------------------------------------------
+
+  /**
+   * Expand a word into zero or more fields. Unquoted variable and command
+   * substitution results are split on whitespace; quoted ones are not.
+   */
+  private async expandWord(
+    word: ShellWord,
+    context: CommandContext,
+    out: ShellOutput,
+    split = true,
+  ): Promise<string[]> {
+    const fields: string[] = [];
+    let current = "";
+    let hasField = false;
+
+    for (const part of word.parts) {
+      let value: string;
+      if (part.kind === "literal") {
+        current += part.text;
+        hasField = true;
+        continue;
+      } else if (part.kind === "variable") {
+        value = this.getVariable(part.name, context) ?? "";
+        if (value === "" && part.fallback !== undefined) {
+          value = await this.expandString(part.fallback, context, out);
+        }
+      } else {
+        value = await this.substitute(part.source, context, out);
+      }
+
+      if (part.quoted || !split) {
+        current += value;
+        hasField = true;
+        continue;
+      }
+
+      // Field splitting on unquoted expansion results
+      const pieces = value.split(/\s+/);
+      pieces.forEach((piece, i) => {
+        if (i > 0 && hasField) {
+          fields.push(current);
+          current = "";
+          hasField = false;
+        }
+        if (piece) {
+          current += piece;
+          hasField = true;
+        }
+      });
+    }
+
+    if (hasField) fields.push(current);
+    return fields;
+  }
+
+  /** Expand a raw string as if it appeared inside double quotes */
+  private async expandString(
+    raw: string,
+    context: CommandContext,
+    out: ShellOutput,
+  ): Promise<string> {
+    const lexer = new ShellLexer(`"${raw.replace(/"/g, '\\"')}"`);
+    const [token] = lexer.run();
+    if (lexer.error || token?.type !== "word") return raw;
+    const fields = await this.expandWord(token.word, context, out, false);
+    return fields.join("");
+  }
+
+  /** Run `$(...)` and return its stdout with trailing newlines removed */
+  private async substitute(
+    source: string,
+    context: CommandContext,
+    out: ShellOutput,
+  ): Promise<string> {
+    if (this.depth >= MAX_SUBSTITUTION_DEPTH) {
+      out.stderr("bash: maximum command substitution depth exceeded");
+      return "";
+    }
+
+    const { script, error } = parseShellScript(source);
+    if (!script) {
+      out.stderr(`bash: command substitution: ${error}`);
+      return "";
+    }
+
+    // Capture stdout; stderr of inner commands still reaches the terminal
+    const captured: string[] = [];
+    this.depth++;
+    try {
+      await this.runList(script, context, {
+        stdout: (text) => captured.push(text),
+        stderr: (text) => out.stderr(text),
+      });
+    } finally {
+      this.depth--;
+    }
+    return stripAnsi(joinChunks(captured)).replace(/\n+$/, "");
+  }
+}
+
+/** Join output chunks with single newlines, ignoring empty ones */
+function joinChunks(chunks: string[]): string {
+  const nonEmpty = chunks.filter((c) => c !== "");
+  if (nonEmpty.length <= 1) return nonEmpty[0] ?? "";
+  return nonEmpty.map((c) => c.replace(/\n$/, "")).join("\n");
+}
@@ -0,0 +1,276 @@
+/**
+ * State Assertions
+ *
+ * Evaluates the declarative StateAssertion checks scenario steps carry
+ * against a cluster, normally the active ScenarioContext's. A command rule
+ * only shows the learner typed `scontrol update`; a state assertion shows
+ * the node really is drained, the GPU really has its MIG instances, or the
+ * XIDs really are gone.
+ */
+
+import type { ClusterConfig, DGXNode, GPU } from "@/types/hardware";
+import type { StateAssertion, StateValue } from "@/types/scenarios";
+import { findMigProfile, getGpuSpec } from "./migEngine";
+
+export interface StateAssertionResult {
+  passed: boolean;
+  message: string;
+}
+
+const CONDITIONS = ["equals", "matches", "min", "max", "count"] as const;
+
+function isStateValue(value: unknown): value is StateValue {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Problems with an assertion as loaded from scenario JSON, empty when it
+ * is well formed
+ */
+export function validateStateAssertion(assertion: unknown): string[] {
+  if (typeof assertion !== "object" || assertion === null) {
+    return ["State assertion must be an object"];
+  }
+  const a = assertion as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof a.path !== "string" || a.path.trim() === "") {
+    errors.push('State assertion needs a "path"');
+  }
+  if (a.node !== undefined && typeof a.node !== "string") {
+    errors.push('"node" must be a node ID or "*"');
+  }
+  if (a.gpu !== undefined && !(Number.isInteger(a.gpu) && Number(a.gpu) >= 0)) {
+    errors.push('"gpu" must be a GPU index');
+  }
+  if (!CONDITIONS.some((key) => a[key] !== undefined)) {
+    errors.push(`State assertion needs one of ${CONDITIONS.join(", ")}`);
+  }
+  if (a.equals !== undefined && !isStateValue(a.equals)) {
+    errors.push('"equals" must be a string, number or boolean');
+  }
+  if (
+    a.matches !== undefined &&
+    (typeof a.matches !== "string" || !isValidRegex(a.matches))
+  ) {
+    errors.push(`"matches" is not a valid pattern: ${String(a.matches)}`);
+  }
+  for (const key of ["min", "max", "count"] as const) {
+    if (a[key] !== undefined && typeof a[key] !== "number") {
+      errors.push(`"${key}" must be a number`);
+    }
+  }
+  if (a.where !== undefined) {
+    if (typeof a.where !== "object" || a.where === null) {
+      errors.push('"where" must map properties to values');
+    } else {
+      for (const [key, value] of Object.entries(a.where)) {
+        if (
+          !isStateValue(value) ||
+          (typeof value === "string" && !isValidRegex(value))
+        ) {
+          errors.push(`"where.${key}" is not a valid value`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/** One property of a node, GPU or entry; never walks up the prototype chain */
+function property(value: unknown, key: string): unknown {
+  if (typeof value !== "object" || value === null) return undefined;
+  if (!Object.prototype.hasOwnProperty.call(value, key)) return undefined;
+  if (key === "migInstances") {
+    const gpu = value as GPU;
+    const spec = getGpuSpec(gpu);
+    return gpu.migInstances.map((gi) => ({
+      ...gi,
+      profile: findMigProfile(spec, gi.profileId)?.name,
+    }));
+  }
+  return (value as Record<string, unknown>)[key];
+}
+
+/** Walk a dotted path, collecting through arrays along the way */
+function resolvePath(root: unknown, path: string): unknown {
+  let value = root;
+  for (const key of path.split(".")) {
+    value = Array.isArray(value)
+      ? value.flatMap((entry) => property(entry, key) ?? [])
+      : property(value, key);
+  }
+  return value;
+}
+
+function matchesValue(actual: unknown, expected: StateValue): boolean {
+  return typeof expected === "string"
+    ? actual !== undefined && new RegExp(expected, "i").test(String(actual))
+    : actual === expected;
+}
+
+function holds(assertion: StateAssertion, actual: unknown): boolean {
+  const { equals, matches, min, max } = assertion;
+  if (equals !== undefined && actual !== equals) return false;
+  if (
+    matches !== undefined &&
+    (actual === undefined || !new RegExp(matches, "i").test(String(actual)))
+  ) {
+    return false;
+  }
+  if (min !== undefined && !(typeof actual === "number" && actual >= min)) {
+    return false;
+  }
+  if (max !== undefined && !(typeof actual === "number" && actual <= max)) {
+    return false;
+  }
+  return true;
+}
+
+/** Entries of an array path that match the assertion's `where` */
+function matching(assertion: StateAssertion, entries: unknown[]): unknown[] {
+  return entries.filter((entry) =>
+    Object.entries(assertion.where ?? {}).every(([key, expected]) =>
+      matchesValue(property(entry, key), expected),
+    ),
+  );
+}
+
+/** Check the value an assertion's path leads to */
+function check(assertion: StateAssertion, value: unknown): boolean {
+  if (!Array.isArray(value)) {
+    return assertion.count === undefined && holds(assertion, value);
+  }
+  const entries = matching(assertion, value);
+  if (assertion.count !== undefined && entries.length !== assertion.count) {
+    return false;
+  }
+  // Value conditions must hold for every entry
+  return entries.every((entry) => holds(assertion, entry));
+}
+
+/** What the path led to, for the failure message of an assertion */
+function formatValue(assertion: StateAssertion, value: unknown): string {
+  if (Array.isArray(value)) {
+    const entries = matching(assertion, value);
+    const failing = entries.find((entry) => !holds(assertion, entry));
+    return failing === undefined
+      ? `${entries.length} matching entries`
+      : formatValue(assertion, failing);
+  }
+  if (typeof value === "object" && value !== null) return "an object";
+  return String(value);
+}
+
+/**
+ * Human-readable form of an assertion, e.g.
+ * `dgx-03 GPU 2 migInstances [profile ~ /^3g\./] count == 3`
+ */
+export function describeStateAssertion(
+  assertion: StateAssertion,
+  nodeId = assertion.node ?? "current node",
+): string {
+  const target =
+    assertion.gpu === undefined ? nodeId : `${nodeId} GPU ${assertion.gpu}`;
+  const where = Object.entries(assertion.where ?? {}).map(([key, value]) =>
+    typeof value === "string" ? `${key} ~ /${value}/` : `${key} == ${value}`,
+  );
+  const conditions = [
+    assertion.equals !== undefined && `== ${assertion.equals}`,
+    assertion.matches !== undefined && `~ /${assertion.matches}/`,
+    assertion.min !== undefined && `>= ${assertion.min}`,
+    assertion.max !== undefined && `<= ${assertion.max}`,
+    assertion.count !== undefined && `count == ${assertion.count}`,
+  ].filter(Boolean);
+  return [
+    target,
+    assertion.path,
+    ...(where.length > 0 ? [`[${where.join(", ")}]`] : []),
+    ...conditions,
+  ].join(" ");
+}
+
+function evaluateOnNode(
+  assertion: StateAssertion,
+  node: DGXNode,
+): StateAssertionResult {
+  const fail = (found: string) => ({
+    passed: false,
+    message:
+      assertion.message ??
+      `Expected ${describeStateAssertion(assertion, node.id)} (${found})`,
+  });
+
+  let root: DGXNode | GPU = node;
+  if (assertion.gpu !== undefined) {
+    const gpu = node.gpus.find((g) => g.id === assertion.gpu);
+    if (!gpu) return fail(`${node.id} has no GPU ${assertion.gpu}`);
+    root = gpu;
+  }
+
+  const value = resolvePath(root, assertion.path);
+  if (check(assertion, value)) {
+    return {
+      passed: true,
+      message: describeStateAssertion(assertion, node.id),
+    };
+  }
+  return fail(`found ${formatValue(assertion, value)}`);
+}
+
+/**
+ * Evaluate one assertion. currentNode is the node the learner is on, used
+ * when the assertion names none.
+ */
+export function evaluateStateAssertion(
+  assertion: StateAssertion,
+  cluster: ClusterConfig,
+  currentNode: string,
+): StateAssertionResult {
+  const nodeId = assertion.node ?? currentNode;
+  const nodes =
+    nodeId === "*"
+      ? cluster.nodes
+      : cluster.nodes.filter((node) => node.id === nodeId);
+  if (nodes.length === 0) {
+    return {
+      passed: false,
+      message: assertion.message ?? `Node ${nodeId} not found`,
+    };
+  }
+
+  for (const node of nodes) {
+    const result = evaluateOnNode(assertion, node);
+    if (!result.passed) return result;
+  }
+  return {
+    passed: true,
+    message: describeStateAssertion(
+      assertion,
+      nodeId === "*" ? "every node" : nodeId,
+    ),
+  };
+}
+
+/**
+ * Evaluate assertions in order, stopping at the first that fails
+ */
+export function evaluateStateAssertions(
+  assertions: StateAssertion[],
+  cluster: ClusterConfig,
+  currentNode: string,
+): StateAssertionResult {
+  for (const assertion of assertions) {
+    const result = evaluateStateAssertion(assertion, cluster, currentNode);
+    if (!result.passed) return result;
+  }
+  return { passed: true, message: "State requirement met" };
+}
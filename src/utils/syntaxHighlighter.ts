@@ -108,9 +108,14 @@ const KNOWN_COMMANDS = new Set([
   'srun',
   'scancel',
   'sacct',
+  'sprio',
+  'sshare',
   'docker',
   'ngc',
   'enroot',
+  'apptainer',
+  'singularity',
+  'podman',
   'bcm',
   'bcm-node',
   'systemctl',
@@ -62,9 +62,10 @@ export const AVAILABLE_COMMANDS: string[] = [
 
   // Slurm
   'sinfo', 'squeue', 'scontrol', 'sbatch', 'srun', 'scancel', 'sacct',
+  'sprio', 'sshare',
 
   // Containers
-  'docker', 'nvidia-docker', 'singularity', 'enroot',
+  'docker', 'nvidia-docker', 'singularity', 'apptainer', 'podman', 'enroot',
 
   // BMC/IPMI
   'ipmitool',
@@ -0,0 +1,96 @@
+/**
+ * Tar Archive
+ *
+ * A minimal ustar writer for bundling generated text files into one
+ * download. Every entry is a regular file owned by root; directories are
+ * implied by the paths, which `tar -xf` creates as it extracts.
+ */
+
+export interface TarEntry {
+  /** Path inside the archive, without a leading slash */
+  path: string;
+  content: string;
+  /** Permission bits, 0o644 unless set */
+  mode?: number;
+}
+
+const BLOCK = 512;
+
+/** Write a zero-padded octal field followed by a NUL */
+function writeOctal(
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: number,
+): void {
+  const digits = value.toString(8).padStart(length - 1, "0");
+  writeString(header, offset, `${digits}\0`);
+}
+
+function writeString(header: Uint8Array, offset: number, value: string): void {
+  header.set(new TextEncoder().encode(value), offset);
+}
+
+/** ustar splits paths over 100 bytes into a prefix and a name at a slash */
+function splitPath(path: string): { name: string; prefix: string } {
+  if (path.length <= 100) return { name: path, prefix: "" };
+  const cut = path.lastIndexOf("/", 155);
+  if (cut <= 0 || path.length - cut - 1 > 100) {
+    throw new Error(`Path too long for a tar archive: ${path}`);
+  }
+  return { name: path.slice(cut + 1), prefix: path.slice(0, cut) };
+}
+
+function tarHeader(entry: TarEntry, size: number, mtime: number): Uint8Array {
+  const header = new Uint8Array(BLOCK);
+  const { name, prefix } = splitPath(entry.path);
+  writeString(header, 0, name);
+  writeOctal(header, 100, 8, entry.mode ?? 0o644);
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, mtime);
+  writeString(header, 156, "0"); // regular file
+  writeString(header, 257, "ustar\0");
+  writeString(header, 263, "00");
+  writeString(header, 265, "root");
+  writeString(header, 297, "root");
+  writeString(header, 345, prefix);
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, 148, `${checksum.toString(8).padStart(6, "0")}\0 `);
+  return header;
+}
+
+/**
+ * Pack the entries into a tar archive. mtime is in milliseconds, like
+ * Date.now(), and applies to every entry.
+ */
+export function createTarArchive(
+  entries: TarEntry[],
+  mtime = Date.now(),
+): Uint8Array<ArrayBuffer> {
+  const seconds = Math.floor(mtime / 1000);
+  const blocks: Uint8Array[] = [];
+  for (const entry of entries) {
+    const data = new TextEncoder().encode(entry.content);
+    blocks.push(tarHeader(entry, data.length, seconds));
+    const padded = new Uint8Array(Math.ceil(data.length / BLOCK) * BLOCK);
+    padded.set(data);
+    blocks.push(padded);
+  }
+  // Two zero blocks mark the end of the archive
+  blocks.push(new Uint8Array(BLOCK * 2));
+
+  const archive = new Uint8Array(
+    blocks.reduce((total, block) => total + block.length, 0),
+  );
+  let offset = 0;
+  for (const block of blocks) {
+    archive.set(block, offset);
+    offset += block.length;
+  }
+  return archive;
+}